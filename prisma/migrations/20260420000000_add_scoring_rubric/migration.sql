@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "ScoringRubric" (
+    "id" SERIAL NOT NULL,
+    "skillSlug" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "scoringGuidance" TEXT NOT NULL,
+    "summaryGuidance" TEXT,
+    "source" TEXT NOT NULL DEFAULT 'settings',
+    "createdBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ScoringRubric_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX IF NOT EXISTS "ScoringRubric_skillSlug_version_key" ON "ScoringRubric"("skillSlug", "version");
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "ScoringRubric_skillSlug_idx" ON "ScoringRubric"("skillSlug");
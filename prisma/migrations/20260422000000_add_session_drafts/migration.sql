@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "Session" ADD COLUMN IF NOT EXISTS "revision" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "Session" ADD COLUMN IF NOT EXISTS "currentQuestionIndex" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "Session" ADD COLUMN IF NOT EXISTS "draftAssociateSlug" TEXT;
+ALTER TABLE "Session" ADD COLUMN IF NOT EXISTS "draftUpdatedBy" TEXT;
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "Session_status_idx" ON "Session"("status");
@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "CoInterviewerAssessment" (
+    "id" SERIAL NOT NULL,
+    "sessionId" TEXT NOT NULL,
+    "interviewerEmail" TEXT NOT NULL,
+    "interviewerName" TEXT,
+    "assessments" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "CoInterviewerAssessment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX IF NOT EXISTS "CoInterviewerAssessment_sessionId_interviewerEmail_key" ON "CoInterviewerAssessment"("sessionId", "interviewerEmail");
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "CoInterviewerAssessment_sessionId_idx" ON "CoInterviewerAssessment"("sessionId");
+
+-- AddForeignKey
+ALTER TABLE "CoInterviewerAssessment" ADD CONSTRAINT "CoInterviewerAssessment_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "Session"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,32 @@
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "PracticeCard" (
+    "id" SERIAL NOT NULL,
+    "associateId" INTEGER NOT NULL,
+    "cardKey" TEXT NOT NULL,
+    "skill" TEXT NOT NULL,
+    "topic" TEXT NOT NULL,
+    "question" TEXT NOT NULL,
+    "modelAnswer" TEXT NOT NULL,
+    "keywords" JSONB NOT NULL,
+    "sourceSessionId" TEXT NOT NULL,
+    "sourceScore" DOUBLE PRECISION NOT NULL,
+    "easeFactor" DOUBLE PRECISION NOT NULL DEFAULT 2.5,
+    "intervalDays" INTEGER NOT NULL DEFAULT 0,
+    "repetitions" INTEGER NOT NULL DEFAULT 0,
+    "dueAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lastReviewedAt" TIMESTAMP(3),
+    "lastGrade" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PracticeCard_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX IF NOT EXISTS "PracticeCard_associateId_cardKey_key" ON "PracticeCard"("associateId", "cardKey");
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "PracticeCard_associateId_dueAt_idx" ON "PracticeCard"("associateId", "dueAt");
+
+-- AddForeignKey
+ALTER TABLE "PracticeCard" ADD CONSTRAINT "PracticeCard_associateId_fkey" FOREIGN KEY ("associateId") REFERENCES "Associate"("id") ON DELETE CASCADE ON UPDATE CASCADE;
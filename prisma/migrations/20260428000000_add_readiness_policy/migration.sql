@@ -0,0 +1,23 @@
+-- AlterTable
+ALTER TABLE "Associate" ADD COLUMN IF NOT EXISTS "readinessExplanation" JSONB;
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "ReadinessPolicy" (
+    "id" SERIAL NOT NULL,
+    "cohortId" INTEGER NOT NULL,
+    "minSessions" INTEGER NOT NULL DEFAULT 3,
+    "trendWindow" INTEGER NOT NULL DEFAULT 3,
+    "threshold" DOUBLE PRECISION,
+    "requiredSkills" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "codingWeight" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ReadinessPolicy_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX IF NOT EXISTS "ReadinessPolicy_cohortId_key" ON "ReadinessPolicy"("cohortId");
+
+-- AddForeignKey
+ALTER TABLE "ReadinessPolicy" ADD CONSTRAINT "ReadinessPolicy_cohortId_fkey" FOREIGN KEY ("cohortId") REFERENCES "Cohort"("id") ON DELETE CASCADE ON UPDATE CASCADE;
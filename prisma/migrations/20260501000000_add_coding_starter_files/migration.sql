@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "CodingChallenge" ADD COLUMN IF NOT EXISTS "starterFiles" JSONB;
@@ -0,0 +1,88 @@
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "CodingAssessment" (
+    "id" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "cohortId" INTEGER NOT NULL,
+    "opensAt" TIMESTAMP(3) NOT NULL,
+    "closesAt" TIMESTAMP(3) NOT NULL,
+    "durationMinutes" INTEGER NOT NULL,
+    "attemptCap" INTEGER NOT NULL,
+    "language" TEXT,
+    "createdBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "CodingAssessment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "CodingAssessmentChallenge" (
+    "assessmentId" TEXT NOT NULL,
+    "challengeId" TEXT NOT NULL,
+    "orderIndex" INTEGER NOT NULL,
+
+    CONSTRAINT "CodingAssessmentChallenge_pkey" PRIMARY KEY ("assessmentId","challengeId")
+);
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "CodingAssessmentSession" (
+    "id" TEXT NOT NULL,
+    "assessmentId" TEXT NOT NULL,
+    "associateId" INTEGER NOT NULL,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "CodingAssessmentSession_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "CodingProctorEvent" (
+    "id" SERIAL NOT NULL,
+    "sessionId" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "challengeId" TEXT,
+    "chars" INTEGER,
+    "occurredAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "CodingProctorEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "CodingAttempt" ADD COLUMN IF NOT EXISTS "assessmentSessionId" TEXT;
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "CodingAssessment_cohortId_idx" ON "CodingAssessment"("cohortId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX IF NOT EXISTS "CodingAssessmentSession_assessmentId_associateId_key" ON "CodingAssessmentSession"("assessmentId", "associateId");
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "CodingAssessmentSession_associateId_idx" ON "CodingAssessmentSession"("associateId");
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "CodingProctorEvent_sessionId_occurredAt_idx" ON "CodingProctorEvent"("sessionId", "occurredAt");
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "CodingAttempt_assessmentSessionId_idx" ON "CodingAttempt"("assessmentSessionId");
+
+-- AddForeignKey
+ALTER TABLE "CodingAssessment" ADD CONSTRAINT "CodingAssessment_cohortId_fkey" FOREIGN KEY ("cohortId") REFERENCES "Cohort"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CodingAssessmentChallenge" ADD CONSTRAINT "CodingAssessmentChallenge_assessmentId_fkey" FOREIGN KEY ("assessmentId") REFERENCES "CodingAssessment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CodingAssessmentChallenge" ADD CONSTRAINT "CodingAssessmentChallenge_challengeId_fkey" FOREIGN KEY ("challengeId") REFERENCES "CodingChallenge"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CodingAssessmentSession" ADD CONSTRAINT "CodingAssessmentSession_assessmentId_fkey" FOREIGN KEY ("assessmentId") REFERENCES "CodingAssessment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CodingAssessmentSession" ADD CONSTRAINT "CodingAssessmentSession_associateId_fkey" FOREIGN KEY ("associateId") REFERENCES "Associate"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CodingProctorEvent" ADD CONSTRAINT "CodingProctorEvent_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "CodingAssessmentSession"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CodingAttempt" ADD CONSTRAINT "CodingAttempt_assessmentSessionId_fkey" FOREIGN KEY ("assessmentSessionId") REFERENCES "CodingAssessmentSession"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,14 @@
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "CodingAttemptTimeline" (
+    "attemptId" TEXT NOT NULL,
+    "timeline" JSONB NOT NULL,
+    "eventCount" INTEGER NOT NULL,
+    "durationMs" INTEGER NOT NULL,
+    "truncated" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "CodingAttemptTimeline_pkey" PRIMARY KEY ("attemptId")
+);
+
+-- AddForeignKey
+ALTER TABLE "CodingAttemptTimeline" ADD CONSTRAINT "CodingAttemptTimeline_attemptId_fkey" FOREIGN KEY ("attemptId") REFERENCES "CodingAttempt"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "CodingAttemptReview" (
+    "attemptId" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "model" TEXT,
+    "summary" TEXT,
+    "correctness" TEXT,
+    "complexity" TEXT,
+    "readability" TEXT,
+    "style" TEXT,
+    "error" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "completedAt" TIMESTAMP(3),
+
+    CONSTRAINT "CodingAttemptReview_pkey" PRIMARY KEY ("attemptId")
+);
+
+-- AddForeignKey
+ALTER TABLE "CodingAttemptReview" ADD CONSTRAINT "CodingAttemptReview_attemptId_fkey" FOREIGN KEY ("attemptId") REFERENCES "CodingAttempt"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,42 @@
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "AuditEvent" (
+    "id" TEXT NOT NULL,
+    "actorId" TEXT NOT NULL,
+    "actorEmail" TEXT NOT NULL,
+    "actorRole" TEXT NOT NULL,
+    "action" TEXT NOT NULL,
+    "targetType" TEXT NOT NULL,
+    "targetId" TEXT NOT NULL,
+    "before" JSONB,
+    "after" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "AuditEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "AuditEvent_createdAt_idx" ON "AuditEvent"("createdAt");
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "AuditEvent_targetType_targetId_idx" ON "AuditEvent"("targetType", "targetId");
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "AuditEvent_actorId_idx" ON "AuditEvent"("actorId");
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "AuditEvent_action_idx" ON "AuditEvent"("action");
+
+-- Append-only: reject edits and deletes, including from the service role.
+CREATE OR REPLACE FUNCTION public.audit_event_immutable()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RAISE EXCEPTION 'AuditEvent rows are immutable (% rejected)', TG_OP;
+END
+$$;
+
+DROP TRIGGER IF EXISTS "AuditEvent_immutable" ON "AuditEvent";
+CREATE TRIGGER "AuditEvent_immutable"
+  BEFORE UPDATE OR DELETE ON "AuditEvent"
+  FOR EACH ROW EXECUTE FUNCTION public.audit_event_immutable();
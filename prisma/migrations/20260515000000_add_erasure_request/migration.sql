@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "ErasureRequest" (
+    "id" TEXT NOT NULL,
+    "associateId" INTEGER NOT NULL,
+    "associateSlug" TEXT NOT NULL,
+    "reason" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "reviewedBy" TEXT,
+    "reviewedAt" TIMESTAMP(3),
+    "note" TEXT,
+    "report" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ErasureRequest_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "ErasureRequest_status_createdAt_idx" ON "ErasureRequest"("status", "createdAt");
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "ErasureRequest_associateId_idx" ON "ErasureRequest"("associateId");
@@ -0,0 +1,15 @@
+-- AlterTable
+ALTER TABLE "Session" ADD COLUMN IF NOT EXISTS "notesPurgedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "CodingAttempt" ADD COLUMN IF NOT EXISTS "codePurgedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "RetentionPolicy" (
+    "dataClass" TEXT NOT NULL,
+    "retainMonths" INTEGER,
+    "updatedBy" TEXT,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "RetentionPolicy_pkey" PRIMARY KEY ("dataClass")
+);
@@ -0,0 +1,15 @@
+-- AlterTable
+ALTER TABLE "CodingAttempt" ADD COLUMN IF NOT EXISTS "assessmentSeq" INTEGER;
+
+-- Backfill existing assessment attempts in submit order so the new key holds.
+UPDATE "CodingAttempt" AS a
+SET "assessmentSeq" = n.seq
+FROM (
+    SELECT "id", ROW_NUMBER() OVER (PARTITION BY "assessmentSessionId", "challengeId" ORDER BY "submittedAt", "id") AS seq
+    FROM "CodingAttempt"
+    WHERE "assessmentSessionId" IS NOT NULL
+) AS n
+WHERE a."id" = n."id" AND a."assessmentSeq" IS NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX IF NOT EXISTS "CodingAttempt_assessmentSessionId_challengeId_assessmentSeq_key" ON "CodingAttempt"("assessmentSessionId", "challengeId", "assessmentSeq");
@@ -0,0 +1,12 @@
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "PostgresSandboxRun" (
+    "token" TEXT NOT NULL,
+    "submission" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "finishedAt" TIMESTAMP(3),
+
+    CONSTRAINT "PostgresSandboxRun_pkey" PRIMARY KEY ("token")
+);
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "PostgresSandboxRun_createdAt_idx" ON "PostgresSandboxRun"("createdAt");
@@ -0,0 +1,120 @@
+/**
+ * Behavioral coverage for `scripts/validate-question-bank.ts`, run via tsx:
+ *   - exits 0 on a clean bank directory (README.md / rubrics/ skipped)
+ *   - exits 2 on structural errors, printing path:line issues
+ *   - exits 0 with warnings, 2 with --warnings-as-errors
+ *   - --skills enables topic checks
+ *   - exits 1 on missing argv / non-existent path
+ */
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { spawnSync } from 'node:child_process';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+const REPO_ROOT = path.resolve(__dirname, '..', '..');
+const CLI_PATH = path.join(REPO_ROOT, 'scripts', 'validate-question-bank.ts');
+
+interface RunResult {
+  code: number;
+  stdout: string;
+  stderr: string;
+}
+
+// spawnSync rather than execFileSync: warnings go to stderr even on exit 0.
+function runCli(args: string[]): RunResult {
+  const res = spawnSync('npx', ['--no-install', 'tsx', CLI_PATH, ...args], {
+    cwd: REPO_ROOT,
+    encoding: 'utf8',
+    stdio: ['ignore', 'pipe', 'pipe'],
+  });
+  return { code: res.status ?? 1, stdout: res.stdout ?? '', stderr: res.stderr ?? '' };
+}
+
+const CLEAN = `# Week 1
+
+## Beginner
+
+### Q1: What is a JOIN?
+**Keywords:** join, foreign key
+**Topic:** SQL Joins
+<details><summary>Model Answer</summary>
+Combines rows from two tables.
+</details>
+`;
+
+const NO_KEYWORDS = CLEAN.replace('**Keywords:** join, foreign key\n', '');
+
+const DUPLICATE = `${CLEAN}
+### Q1: Another question
+**Keywords:** index
+<details><summary>Model Answer</summary>
+Speeds up reads.
+</details>
+`;
+
+let tmpRoot: string;
+
+function writeBank(dir: string, files: Record<string, string>): string {
+  const root = path.join(tmpRoot, dir);
+  for (const [name, content] of Object.entries(files)) {
+    const full = path.join(root, name);
+    fs.mkdirSync(path.dirname(full), { recursive: true });
+    fs.writeFileSync(full, content);
+  }
+  return root;
+}
+
+beforeAll(() => {
+  tmpRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'validate-question-bank-'));
+});
+
+afterAll(() => {
+  fs.rmSync(tmpRoot, { recursive: true, force: true });
+});
+
+describe('validate-question-bank CLI', () => {
+  it('exits 0 on a clean bank and skips README.md and rubrics/', () => {
+    const dir = writeBank('clean', {
+      'week-1/questions.md': CLEAN,
+      'README.md': '# About this repo',
+      'rubrics/sql.md': '## Scoring\n5 — great',
+    });
+    const res = runCli([dir]);
+    expect(res.code).toBe(0);
+    expect(res.stdout).toContain('[validate-question-bank] ✓ 1 file(s), 1 question(s)');
+  }, 30_000);
+
+  it('exits 2 on duplicate question numbers', () => {
+    const dir = writeBank('dup', { 'week.md': DUPLICATE });
+    const res = runCli([dir]);
+    expect(res.code).toBe(2);
+    expect(res.stderr).toMatch(/week\.md:\d+\s+error\s+duplicate-question-number/);
+  }, 30_000);
+
+  it('treats warnings as errors only when asked', () => {
+    const dir = writeBank('warn', { 'week.md': NO_KEYWORDS });
+    expect(runCli([dir]).code).toBe(0);
+    const strict = runCli([dir, '--warnings-as-errors']);
+    expect(strict.code).toBe(2);
+    expect(strict.stderr).toContain('missing-keywords');
+  }, 60_000);
+
+  it('checks topics against --skills', () => {
+    const dir = writeBank('topics', { 'week.md': CLEAN });
+    expect(runCli([dir, '--skills', 'sql']).stderr).not.toContain('unknown-topic');
+    expect(runCli([dir, '--skills', 'react,java']).stderr).toContain('unknown-topic');
+  }, 60_000);
+
+  it('exits 1 on missing argv', () => {
+    const res = runCli([]);
+    expect(res.code).toBe(1);
+    expect(res.stderr).toContain('Usage');
+  }, 30_000);
+
+  it('exits 1 on a non-existent path', () => {
+    const res = runCli([path.join(tmpRoot, 'does-not-exist')]);
+    expect(res.code).toBe(1);
+    expect(res.stderr).toContain('Path not found');
+  }, 30_000);
+});
@@ -1,5 +1,5 @@
 /**
- * Set user_metadata.role on a Supabase auth user.
+ * Set app_metadata.role (the one authorization reads) on a Supabase auth user.
  *
  * Usage:
  *   npx tsx scripts/seed-role.ts <email> <role>
@@ -0,0 +1,155 @@
+#!/usr/bin/env tsx
+/**
+ * scripts/validate-question-bank.ts
+ *
+ * Linter for interview question-bank markdown — the question-bank
+ * counterpart of validate-challenge. Runs the parser in strict mode via
+ * `@/lib/questionBankLint`, the same module the /question-banks validation
+ * panel uses, so the CLI and UI report identical issues.
+ *
+ * USAGE:
+ *   npm run validate-question-bank <file-or-dir> [...more] [options]
+ *
+ *   Directories are walked recursively for *.md (README.md and rubrics/ are
+ *   skipped).
+ *
+ * OPTIONS:
+ *   --skills react,sql      Check topics against these curriculum skill slugs
+ *   --db                    Load skill slugs from CurriculumWeek (needs DATABASE_URL)
+ *   --warnings-as-errors    Exit 2 on warnings too (for CI)
+ *
+ * EXIT CODES:
+ *   0  no errors (warnings are printed)
+ *   1  CLI/usage error (missing arg, path not found)
+ *   2  validation failures (each issue printed to stderr)
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+import {
+  formatLintResult,
+  isQuestionBankPath,
+  lintQuestionBank,
+  type QuestionBankLintResult,
+} from '../src/lib/questionBankLint';
+
+interface CliArgs {
+  paths: string[];
+  skills: string[];
+  useDb: boolean;
+  warningsAsErrors: boolean;
+}
+
+function printUsage(): void {
+  console.error('Usage: npm run validate-question-bank <file-or-dir> [...] [--skills a,b] [--db] [--warnings-as-errors]');
+  console.error('  Example: npm run validate-question-bank ./question-bank --skills react,sql');
+}
+
+function parseArgs(argv: string[]): CliArgs | null {
+  const args: CliArgs = { paths: [], skills: [], useDb: false, warningsAsErrors: false };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--skills') {
+      const value = argv[++i];
+      if (!value) return null;
+      args.skills.push(...value.split(',').map((s) => s.trim()).filter(Boolean));
+    } else if (arg === '--db') {
+      args.useDb = true;
+    } else if (arg === '--warnings-as-errors') {
+      args.warningsAsErrors = true;
+    } else if (arg.startsWith('--')) {
+      return null;
+    } else {
+      args.paths.push(arg);
+    }
+  }
+  return args.paths.length > 0 ? args : null;
+}
+
+function collectFiles(target: string): string[] {
+  const stat = fs.statSync(target);
+  if (stat.isFile()) return [target];
+  const files: string[] = [];
+  for (const entry of fs.readdirSync(target, { withFileTypes: true })) {
+    if (entry.name.startsWith('.') || entry.name === 'node_modules') continue;
+    const full = path.join(target, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...collectFiles(full));
+    } else if (isQuestionBankPath(path.relative(process.cwd(), full))) {
+      files.push(full);
+    }
+  }
+  return files.sort();
+}
+
+async function loadSkillsFromDb(): Promise<string[]> {
+  await import('dotenv/config');
+  const { listSkillSlugs } = await import('../src/lib/curriculumService');
+  const { prisma } = await import('../src/lib/prisma');
+  try {
+    return await listSkillSlugs();
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+async function main(): Promise<void> {
+  const args = parseArgs(process.argv.slice(2));
+  if (!args) {
+    printUsage();
+    process.exit(1);
+  }
+
+  const files: string[] = [];
+  for (const p of args.paths) {
+    const resolved = path.resolve(p);
+    if (!fs.existsSync(resolved)) {
+      console.error(`Path not found: ${resolved}`);
+      process.exit(1);
+    }
+    files.push(...collectFiles(resolved));
+  }
+  if (files.length === 0) {
+    console.error('No question-bank markdown files found');
+    process.exit(1);
+  }
+
+  const skills = [...args.skills];
+  if (args.useDb) {
+    try {
+      skills.push(...(await loadSkillsFromDb()));
+    } catch (err) {
+      console.error(`Failed to load curriculum skills: ${(err as Error).message}`);
+      process.exit(1);
+    }
+  }
+
+  const results: QuestionBankLintResult[] = files.map((file) =>
+    lintQuestionBank(path.relative(process.cwd(), file), fs.readFileSync(file, 'utf8'), {
+      skillSlugs: skills,
+    }),
+  );
+
+  let errors = 0;
+  let warnings = 0;
+  for (const result of results) {
+    errors += result.errorCount;
+    warnings += result.warningCount;
+    for (const line of formatLintResult(result)) console.error(line);
+  }
+
+  const questionCount = results.reduce((sum, r) => sum + r.questionCount, 0);
+  const summary = `${files.length} file(s), ${questionCount} question(s): ${errors} error(s), ${warnings} warning(s)`;
+  if (skills.length === 0) {
+    console.log('[validate-question-bank] NOTE: no --skills/--db given — topic checks skipped.');
+  }
+
+  if (errors > 0 || (args.warningsAsErrors && warnings > 0)) {
+    console.error(`[validate-question-bank] ✗ ${summary}`);
+    process.exit(2);
+  }
+  console.log(`[validate-question-bank] ✓ ${summary}`);
+  process.exit(0);
+}
+
+main();
@@ -1,6 +1,7 @@
 import { NextResponse } from 'next/server';
 import { z } from 'zod';
 import { getCallerIdentity } from '@/lib/identity';
+import { can } from '@/lib/authorization';
 import { runReadinessSweep } from '@/lib/readinessSweep';
 
 /**
@@ -34,7 +35,7 @@ const querySchema = z.object({
 
 export async function POST(request: Request) {
   const caller = await getCallerIdentity() // [AUDIT-VERIFIED: P20]
-  if (caller.kind !== 'trainer' && caller.kind !== 'admin') {
+  if (!can(caller, 'cohorts:manage')) {
     return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
   }
 
@@ -0,0 +1,74 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+vi.mock('@/lib/retentionPolicy', () => ({
+  runRetentionSweep: vi.fn(),
+}));
+
+vi.mock('@/lib/identity', () => ({
+  getCallerIdentity: vi.fn(),
+}));
+
+vi.mock('@/lib/auditLog', () => ({
+  recordAuditEvent: vi.fn(),
+}));
+
+import { POST } from './route';
+import { runRetentionSweep } from '@/lib/retentionPolicy';
+import { getCallerIdentity } from '@/lib/identity';
+import { recordAuditEvent } from '@/lib/auditLog';
+
+const mockSweep = runRetentionSweep as unknown as ReturnType<typeof vi.fn>;
+const mockAuth = getCallerIdentity as unknown as ReturnType<typeof vi.fn>;
+const mockAudit = recordAuditEvent as unknown as ReturnType<typeof vi.fn>;
+
+const ADMIN = { kind: 'admin', userId: 'a1', email: 'admin@test.com' };
+
+function makeRequest(url = 'http://localhost/api/admin/retention-sweep'): Request {
+  return new Request(url, { method: 'POST' });
+}
+
+describe('POST /api/admin/retention-sweep', () => {
+  beforeEach(() => {
+    mockSweep.mockReset().mockResolvedValue({
+      dryRun: false,
+      generatedAt: '2026-06-15T12:00:00.000Z',
+      classes: [{ dataClass: 'auth_events', processed: 3 }],
+    });
+    mockAuth.mockReset().mockResolvedValue(ADMIN);
+    mockAudit.mockReset();
+  });
+
+  it('is limited to admins', async () => {
+    mockAuth.mockResolvedValueOnce({ kind: 'trainer', userId: 'u1', email: 'trainer@test.com' });
+    const res = await POST(makeRequest());
+    expect(res.status).toBe(401);
+    expect(mockSweep).not.toHaveBeenCalled();
+  });
+
+  it('runs the sweep and audits the purge counts', async () => {
+    const res = await POST(makeRequest('http://localhost/api/admin/retention-sweep?batchSize=100'));
+    expect(res.status).toBe(200);
+    expect(mockSweep).toHaveBeenCalledWith({ dryRun: false, batchSize: 100 });
+    expect(mockAudit).toHaveBeenCalledWith(ADMIN, {
+      action: 'retention_policy.run',
+      targetId: 'sweep',
+      after: { auth_events: 3 },
+    });
+  });
+
+  it('does not audit a dry run', async () => {
+    await POST(makeRequest('http://localhost/api/admin/retention-sweep?dryRun=true'));
+    expect(mockSweep).toHaveBeenCalledWith({ dryRun: true, batchSize: undefined });
+    expect(mockAudit).not.toHaveBeenCalled();
+  });
+
+  it('rejects bad query params', async () => {
+    expect((await POST(makeRequest('http://localhost/api/admin/retention-sweep?batchSize=99999'))).status).toBe(400);
+    expect((await POST(makeRequest('http://localhost/api/admin/retention-sweep?dryRun=yes'))).status).toBe(400);
+  });
+
+  it('returns 500 when the sweep throws', async () => {
+    mockSweep.mockRejectedValueOnce(new Error('boom'));
+    expect((await POST(makeRequest())).status).toBe(500);
+  });
+});
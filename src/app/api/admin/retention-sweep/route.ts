@@ -0,0 +1,59 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getCallerIdentity } from '@/lib/identity';
+import { can } from '@/lib/authorization';
+import { recordAuditEvent } from '@/lib/auditLog';
+import { runRetentionSweep } from '@/lib/retentionPolicy';
+
+/**
+ * Admin: Data Retention Sweep
+ *
+ * POST /api/admin/retention-sweep?dryRun=true&batchSize=500
+ *
+ * Deletes or anonymizes rows older than their RetentionPolicy (see
+ * src/lib/retentionPolicy.ts) and returns the per-class report. With
+ * dryRun=true nothing changes — the report shows what a real run would purge.
+ *
+ * The same sweep runs every 12 hours from cleanupService; this endpoint is for
+ * the "Run now" button and external cron, like /api/admin/readiness-sweep.
+ * Bounded per class by batchSize × 20 batches; re-run to continue.
+ */
+
+const LOG_PREFIX = '[admin-retention-sweep]';
+
+const querySchema = z.object({
+  dryRun: z.enum(['true', 'false']).optional(),
+  batchSize: z.coerce.number().int().min(1).max(1000).optional(),
+});
+
+export async function POST(request: Request) {
+  const caller = await getCallerIdentity();
+  if (!can(caller, 'privacy:manage')) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const url = new URL(request.url);
+  const parsed = querySchema.safeParse(Object.fromEntries(url.searchParams.entries()));
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: 'Invalid query — dryRun must be true|false, batchSize integer 1..1000' },
+      { status: 400 },
+    );
+  }
+
+  const dryRun = parsed.data.dryRun === 'true';
+  try {
+    const report = await runRetentionSweep({ dryRun, batchSize: parsed.data.batchSize });
+    if (!dryRun) {
+      await recordAuditEvent(caller, {
+        action: 'retention_policy.run',
+        targetId: 'sweep',
+        after: Object.fromEntries(report.classes.map((c) => [c.dataClass, c.processed])),
+      });
+    }
+    return NextResponse.json(report);
+  } catch (err) {
+    console.error(`${LOG_PREFIX} sweep failed:`, err);
+    return NextResponse.json({ error: 'Retention sweep failed' }, { status: 500 });
+  }
+}
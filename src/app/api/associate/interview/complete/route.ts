@@ -48,7 +48,7 @@ export async function POST(request: Request) {
       return NextResponse.json({ error: 'Invalid session shape' }, { status: 400 });
     }
 
-    const rateLimit = checkRateLimit(fingerprint);
+    const rateLimit = await checkRateLimit(fingerprint);
     if (!rateLimit.allowed) {
       return NextResponse.json(
         { error: 'Rate limit exceeded', nextReset: rateLimit.nextReset.toISOString() },
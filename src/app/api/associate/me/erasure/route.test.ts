@@ -0,0 +1,89 @@
+/**
+ * Unit tests for GET/POST /api/associate/me/erasure. The request helpers are
+ * mocked — these cover auth, body validation and the idempotent status code.
+ */
+
+import { vi, describe, it, expect, beforeEach } from 'vitest';
+
+vi.mock('@/lib/identity', () => ({
+  getCallerIdentity: vi.fn(),
+}));
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: { associate: { findUnique: vi.fn() } },
+}));
+
+vi.mock('@/lib/associateData', () => ({
+  findOpenErasureRequest: vi.fn(),
+  requestErasure: vi.fn(),
+}));
+
+import { getCallerIdentity } from '@/lib/identity';
+import { prisma } from '@/lib/prisma';
+import { findOpenErasureRequest, requestErasure } from '@/lib/associateData';
+import { GET, POST } from './route';
+
+const mockAuth = getCallerIdentity as ReturnType<typeof vi.fn>;
+const mockFindAssociate = prisma.associate.findUnique as ReturnType<typeof vi.fn>;
+const mockFindOpen = findOpenErasureRequest as ReturnType<typeof vi.fn>;
+const mockRequest = requestErasure as ReturnType<typeof vi.fn>;
+
+const OPEN = {
+  id: 'req1',
+  associateId: 7,
+  associateSlug: 'ada',
+  reason: 'leaving',
+  status: 'pending',
+  createdAt: '2026-05-01T00:00:00.000Z',
+};
+
+function post(body?: unknown) {
+  return new Request('http://localhost/api/associate/me/erasure', {
+    method: 'POST',
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mockAuth.mockResolvedValue({ kind: 'associate', userId: 'u1', email: 'ada@test.com', associateId: 7, associateSlug: 'ada' });
+  mockFindAssociate.mockResolvedValue({ id: 7, slug: 'ada' });
+  mockRequest.mockResolvedValue({ request: OPEN, created: true });
+});
+
+describe('/api/associate/me/erasure', () => {
+  it('is limited to associates', async () => {
+    mockAuth.mockResolvedValue({ kind: 'anonymous' });
+    expect((await GET()).status).toBe(401);
+    expect((await POST(post())).status).toBe(401);
+  });
+
+  it('reports the open request without the reason', async () => {
+    mockFindOpen.mockResolvedValue(OPEN);
+    const res = await GET();
+    expect(await res.json()).toEqual({ request: { id: 'req1', status: 'pending', createdAt: OPEN.createdAt } });
+
+    mockFindOpen.mockResolvedValue(null);
+    expect(await (await GET()).json()).toEqual({ request: null });
+  });
+
+  it('files a request with an optional reason', async () => {
+    const res = await POST(post({ reason: '  leaving  ' }));
+    expect(res.status).toBe(201);
+    expect(mockRequest).toHaveBeenCalledWith({ id: 7, slug: 'ada' }, 'leaving');
+
+    await POST(post());
+    expect(mockRequest).toHaveBeenLastCalledWith({ id: 7, slug: 'ada' }, null);
+  });
+
+  it('answers 200 when a request is already open', async () => {
+    mockRequest.mockResolvedValue({ request: OPEN, created: false });
+    expect((await POST(post({}))).status).toBe(200);
+  });
+
+  it('validates the body', async () => {
+    expect((await POST(post({ reason: 'x'.repeat(1001) }))).status).toBe(400);
+    const bad = new Request('http://localhost/api/associate/me/erasure', { method: 'POST', body: '{' });
+    expect((await POST(bad)).status).toBe(400);
+  });
+});
@@ -0,0 +1,69 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getCallerIdentity } from '@/lib/identity';
+import { prisma } from '@/lib/prisma';
+import { findOpenErasureRequest, requestErasure } from '@/lib/associateData';
+
+const PostBody = z.object({
+  reason: z.string().trim().max(1000).optional(),
+});
+
+/** The associate's open erasure request, or { request: null }. */
+export async function GET(): Promise<NextResponse> {
+  const caller = await getCallerIdentity();
+  if (caller.kind !== 'associate') {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const open = await findOpenErasureRequest(caller.associateId);
+    return NextResponse.json({ request: open && { id: open.id, status: open.status, createdAt: open.createdAt } });
+  } catch (err) {
+    console.error('[/api/associate/me/erasure] GET failed:', err);
+    return NextResponse.json({ error: 'Failed to load erasure request' }, { status: 500 });
+  }
+}
+
+/**
+ * Ask for the account and all its data to be erased. Nothing is deleted until
+ * an admin approves at /trainer/settings/privacy. Repeat calls return the
+ * request already open (200) instead of filing another (201).
+ */
+export async function POST(request: Request): Promise<NextResponse> {
+  const caller = await getCallerIdentity();
+  if (caller.kind !== 'associate') {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  let body: unknown = {};
+  const text = await request.text();
+  if (text) {
+    try {
+      body = JSON.parse(text);
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+    }
+  }
+  const parsed = PostBody.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'Validation failed', issues: parsed.error.issues }, { status: 400 });
+  }
+
+  try {
+    const associate = await prisma.associate.findUnique({
+      where: { id: caller.associateId },
+      select: { id: true, slug: true },
+    });
+    if (!associate) {
+      return NextResponse.json({ error: 'Associate not found' }, { status: 404 });
+    }
+    const { request: saved, created } = await requestErasure(associate, parsed.data.reason || null);
+    return NextResponse.json(
+      { request: { id: saved.id, status: saved.status, createdAt: saved.createdAt } },
+      { status: created ? 201 : 200 },
+    );
+  } catch (err) {
+    console.error('[/api/associate/me/erasure] POST failed:', err);
+    return NextResponse.json({ error: 'Failed to file erasure request' }, { status: 500 });
+  }
+}
@@ -0,0 +1,77 @@
+/**
+ * Unit tests for GET /api/associate/me/export. Data collection and the rate
+ * limiter are mocked — these cover auth, format selection and throttling.
+ */
+
+import { vi, describe, it, expect, beforeEach } from 'vitest';
+
+vi.mock('@/lib/identity', () => ({
+  getCallerIdentity: vi.fn(),
+}));
+
+vi.mock('@/lib/associateData', () => ({
+  collectAssociateData: vi.fn(),
+  associateDataArchive: vi.fn(() => Buffer.from('PK')),
+}));
+
+vi.mock('@/lib/rateLimiter', () => ({
+  slidingWindow: vi.fn(() => ({})),
+  consumeRateLimit: vi.fn(),
+}));
+
+import { getCallerIdentity } from '@/lib/identity';
+import { collectAssociateData } from '@/lib/associateData';
+import { consumeRateLimit } from '@/lib/rateLimiter';
+import { GET } from './route';
+
+const mockAuth = getCallerIdentity as ReturnType<typeof vi.fn>;
+const mockCollect = collectAssociateData as ReturnType<typeof vi.fn>;
+const mockLimit = consumeRateLimit as ReturnType<typeof vi.fn>;
+
+const DATA = { exportedAt: '2026-05-02T10:00:00.000Z', associate: { slug: 'ada' } };
+
+function req(query = '') {
+  return new Request(`http://localhost/api/associate/me/export${query}`);
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mockAuth.mockResolvedValue({ kind: 'associate', userId: 'u1', email: 'ada@test.com', associateId: 7, associateSlug: 'ada' });
+  mockLimit.mockResolvedValue({ allowed: true, remaining: 4, retryAfterMs: 0 });
+  mockCollect.mockResolvedValue(DATA);
+});
+
+describe('GET /api/associate/me/export', () => {
+  it('is limited to associates', async () => {
+    mockAuth.mockResolvedValue({ kind: 'trainer', userId: 't1', email: 't@test.com' });
+    const res = await GET(req());
+    expect(res.status).toBe(401);
+    expect(mockCollect).not.toHaveBeenCalled();
+  });
+
+  it('returns a ZIP by default for the caller only', async () => {
+    const res = await GET(req());
+    expect(res.status).toBe(200);
+    expect(mockCollect).toHaveBeenCalledWith(7);
+    expect(res.headers.get('Content-Type')).toBe('application/zip');
+    expect(res.headers.get('Content-Disposition')).toContain('my-data-2026-05-02.zip');
+  });
+
+  it('returns JSON when asked', async () => {
+    const res = await GET(req('?format=json'));
+    expect(res.headers.get('Content-Disposition')).toContain('my-data-2026-05-02.json');
+    expect(await res.json()).toEqual(DATA);
+  });
+
+  it('rejects unknown formats', async () => {
+    expect((await GET(req('?format=xml'))).status).toBe(400);
+  });
+
+  it('throttles repeated exports', async () => {
+    mockLimit.mockResolvedValue({ allowed: false, remaining: 0, retryAfterMs: 90_000 });
+    const res = await GET(req());
+    expect(res.status).toBe(429);
+    expect(res.headers.get('Retry-After')).toBe('90');
+    expect(mockCollect).not.toHaveBeenCalled();
+  });
+});
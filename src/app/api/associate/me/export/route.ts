@@ -0,0 +1,59 @@
+import { NextResponse } from 'next/server';
+import { getCallerIdentity } from '@/lib/identity';
+import { associateDataArchive, collectAssociateData } from '@/lib/associateData';
+import { consumeRateLimit, slidingWindow } from '@/lib/rateLimiter';
+
+// The export reads every associate-linked table; a handful per hour is plenty.
+const exportPolicy = slidingWindow({ limit: 5, windowMs: 60 * 60 * 1000 });
+
+/**
+ * "Download my data" for the signed-in associate.
+ *   ?format=zip  (default) README + one JSON file per data set
+ *   ?format=json single JSON document
+ */
+export async function GET(request: Request): Promise<NextResponse> {
+  const caller = await getCallerIdentity();
+  if (caller.kind !== 'associate') {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const format = new URL(request.url).searchParams.get('format') ?? 'zip';
+  if (format !== 'zip' && format !== 'json') {
+    return NextResponse.json({ error: 'format must be zip or json' }, { status: 400 });
+  }
+
+  const limit = await consumeRateLimit([{ key: `data-export:associate:${caller.associateId}`, policy: exportPolicy }]);
+  if (!limit.allowed) {
+    return NextResponse.json(
+      { error: 'Too many exports, try again later' },
+      { status: 429, headers: { 'Retry-After': String(Math.ceil(limit.retryAfterMs / 1000)) } },
+    );
+  }
+
+  try {
+    const data = await collectAssociateData(caller.associateId);
+    if (!data) {
+      return NextResponse.json({ error: 'Associate not found' }, { status: 404 });
+    }
+    const filename = `my-data-${data.exportedAt.slice(0, 10)}`;
+    if (format === 'json') {
+      return new NextResponse(JSON.stringify(data, null, 2), {
+        headers: {
+          'Content-Type': 'application/json; charset=utf-8',
+          'Content-Disposition': `attachment; filename="${filename}.json"`,
+          'Cache-Control': 'no-store',
+        },
+      });
+    }
+    return new NextResponse(new Uint8Array(associateDataArchive(data)), {
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Disposition': `attachment; filename="${filename}.zip"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (err) {
+    console.error('[/api/associate/me/export] GET failed:', err);
+    return NextResponse.json({ error: 'Failed to export data' }, { status: 500 });
+  }
+}
@@ -0,0 +1,62 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+vi.mock('@/lib/identity', () => ({
+  getCallerIdentity: vi.fn(),
+}));
+
+vi.mock('@/lib/practiceService', () => ({
+  reviewPracticeCard: vi.fn(),
+}));
+
+import { POST } from './route';
+import { getCallerIdentity } from '@/lib/identity';
+import { reviewPracticeCard } from '@/lib/practiceService';
+
+const mockGetCallerIdentity = getCallerIdentity as unknown as ReturnType<typeof vi.fn>;
+const mockReview = reviewPracticeCard as unknown as ReturnType<typeof vi.fn>;
+
+const ASSOCIATE = { kind: 'associate', userId: 'u1', email: 'a@x.com', associateId: 7, associateSlug: 'alice' };
+
+function call(cardId: string, body: unknown) {
+  const req = new Request(`http://localhost/api/associate/practice/${cardId}/review`, {
+    method: 'POST',
+    headers: { 'content-type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  return POST(req, { params: Promise.resolve({ cardId }) });
+}
+
+describe('POST /api/associate/practice/[cardId]/review', () => {
+  beforeEach(() => {
+    mockGetCallerIdentity.mockReset().mockResolvedValue(ASSOCIATE);
+    mockReview.mockReset();
+  });
+
+  it('returns 401 for non-associates', async () => {
+    mockGetCallerIdentity.mockResolvedValue({ kind: 'trainer', userId: 't', email: 't@x.com' });
+    const res = await call('1', { grade: 4 });
+    expect(res.status).toBe(401);
+    expect(mockReview).not.toHaveBeenCalled();
+  });
+
+  it('returns 400 for a bad card id or grade', async () => {
+    expect((await call('abc', { grade: 4 })).status).toBe(400);
+    expect((await call('1', { grade: 6 })).status).toBe(400);
+    expect((await call('1', { grade: 2.5 })).status).toBe(400);
+    expect(mockReview).not.toHaveBeenCalled();
+  });
+
+  it('reviews the card as the session associate', async () => {
+    mockReview.mockResolvedValue({ id: 1, intervalDays: 6 });
+    const res = await call('1', { grade: 4 });
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({ card: { id: 1, intervalDays: 6 } });
+    expect(mockReview).toHaveBeenCalledWith(7, 1, 4);
+  });
+
+  it('returns 404 when the card is missing or owned by someone else', async () => {
+    mockReview.mockResolvedValue(null);
+    const res = await call('99', { grade: 3 });
+    expect(res.status).toBe(404);
+  });
+});
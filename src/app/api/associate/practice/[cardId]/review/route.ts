@@ -0,0 +1,44 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getCallerIdentity } from '@/lib/identity';
+import { reviewPracticeCard } from '@/lib/practiceService';
+import type { PracticeGrade } from '@/lib/spacedRepetition';
+
+const ReviewSchema = z.object({
+  grade: z.number().int().min(1).max(5),
+});
+
+/**
+ * POST /api/associate/practice/[cardId]/review
+ *
+ * Records one spaced-repetition review for the signed-in associate and returns
+ * the rescheduled card. Ownership comes from the Supabase session — a card id
+ * belonging to another associate is a 404, same as a missing one.
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ cardId: string }> },
+) {
+  const caller = await getCallerIdentity();
+  if (caller.kind !== 'associate') {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+  }
+
+  const { cardId } = await params;
+  const id = Number(cardId);
+  if (!Number.isInteger(id) || id <= 0) {
+    return NextResponse.json({ error: 'Invalid card id' }, { status: 400 });
+  }
+
+  const body = await request.json().catch(() => null);
+  const parsed = ReviewSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'Invalid input', issues: parsed.error.issues }, { status: 400 });
+  }
+
+  const card = await reviewPracticeCard(caller.associateId, id, parsed.data.grade as PracticeGrade);
+  if (!card) {
+    return NextResponse.json({ error: 'Card not found' }, { status: 404 });
+  }
+  return NextResponse.json({ card });
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { getCallerIdentity } from '@/lib/identity';
+import { can, canAccessCohort } from '@/lib/authorization';
 import { prisma } from '@/lib/prisma';
 import type { GapScoreResponse } from '@/lib/adaptiveSetup';
 
@@ -23,7 +24,7 @@ export async function GET(
 ) {
   // Auth guard — trainer session required
   const caller = await getCallerIdentity() // [AUDIT-VERIFIED: P20]
-  if (caller.kind !== 'trainer' && caller.kind !== 'admin') {
+  if (!can(caller, 'associates:read')) {
     return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
   }
 
@@ -50,7 +51,7 @@ export async function GET(
 
     // Unknown slug → return found:false (same shape as new associate)
     // Anti-enumeration: never distinguish "not found" from "new associate" (T-07-03, D-04)
-    if (!associate) {
+    if (!associate || !canAccessCohort(caller, associate.cohortId)) {
       const response: GapScoreResponse = { found: false, sessionCount: 0, scores: [], cohortId: null };
       return NextResponse.json(response);
     }
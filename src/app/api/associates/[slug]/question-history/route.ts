@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getCallerIdentity } from '@/lib/identity';
+import { can, canAccessCohort } from '@/lib/authorization';
+import { prisma } from '@/lib/prisma';
+import { INTERVIEW_TOPIC_WHERE } from '@/lib/gapPersistence';
+import { buildQuestionHistory, type QuestionHistoryResponse } from '@/lib/adaptiveSelector';
+import type { InterviewSession } from '@/lib/types';
+
+// Same slug rule as gap-scores (Phase 3 D-05)
+const slugSchema = z.string().regex(/^[a-z0-9-]+$/);
+
+/** Completed sessions scanned for asked questions and per-topic difficulty history. */
+const HISTORY_SESSION_LIMIT = 10;
+
+const NOT_FOUND: QuestionHistoryResponse = { found: false, topicScores: [], asked: [] };
+
+/**
+ * GET /api/associates/[slug]/question-history
+ *
+ * Inputs for adaptive question selection (src/lib/adaptiveSelector.ts):
+ * topic-level gap scores plus the questions asked in the associate's most
+ * recent completed sessions, with difficulty and score.
+ *
+ * Like gap-scores, always 200 with the same shape — unknown slug returns
+ * found:false so slugs can't be enumerated.
+ *
+ * Auth: trainer session cookie required.
+ */
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  const caller = await getCallerIdentity();
+  if (!can(caller, 'associates:read')) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { slug } = await params;
+  const parsed = slugSchema.safeParse(slug);
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'Invalid slug format' }, { status: 400 });
+  }
+
+  try {
+    const associate = await prisma.associate.findUnique({
+      where: { slug: parsed.data },
+      include: {
+        gapScores: {
+          where: INTERVIEW_TOPIC_WHERE, // interview topic rows, practice already blended in
+        },
+      },
+    });
+    if (!associate || !canAccessCohort(caller, associate.cohortId)) return NextResponse.json(NOT_FOUND);
+
+    const sessions = await prisma.session.findMany({
+      where: { associateId: associate.id, status: 'completed' },
+      orderBy: { createdAt: 'desc' },
+      take: HISTORY_SESSION_LIMIT,
+      select: { id: true, questions: true, assessments: true, techMap: true },
+    });
+
+    const response: QuestionHistoryResponse = {
+      found: true,
+      topicScores: associate.gapScores.map((g) => ({
+        skill: g.skill,
+        topic: g.topic,
+        weightedScore: g.weightedScore,
+      })),
+      asked: buildQuestionHistory(
+        sessions.map((s) => ({
+          id: s.id,
+          questions: s.questions as unknown as InterviewSession['questions'],
+          assessments: s.assessments as unknown as InterviewSession['assessments'],
+          techMap: (s.techMap ?? undefined) as InterviewSession['techMap'],
+        })),
+      ),
+    };
+    return NextResponse.json(response);
+  } catch {
+    // Same shape as "not found" to preserve anti-enumeration
+    return NextResponse.json(NOT_FOUND);
+  }
+}
@@ -2,6 +2,7 @@ import { NextResponse } from 'next/server';
 import { createSupabaseServerClient } from '@/lib/supabase/server';
 import { supabaseAdmin } from '@/lib/supabase/admin';
 import { prisma } from '@/lib/prisma';
+import { isStaffRole, staffHomePath } from '@/lib/authorization';
 
 /**
  * POST /api/auth/callback-link
@@ -16,7 +17,7 @@ export async function POST(): Promise<NextResponse> {
     return NextResponse.json({ redirect: '/signin?error=invalid-link' });
   }
 
-  const role = user.user_metadata?.role as string | undefined;
+  const role = user.app_metadata?.role as string | undefined;
 
   // Auto-assign 'associate' role if no role set
   if (!role) {
@@ -26,9 +27,9 @@ export async function POST(): Promise<NextResponse> {
     });
   }
 
-  // Trainer / admin → trainer dashboard
-  if (role === 'trainer' || role === 'admin') {
-    return NextResponse.json({ redirect: '/trainer', role });
+  // Staff → their landing page (roster, or content settings for authors)
+  if (isStaffRole(role)) {
+    return NextResponse.json({ redirect: staffHomePath(role), role });
   }
 
   // Associate — attempt authUserId linkage
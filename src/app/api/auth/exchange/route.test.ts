@@ -72,7 +72,7 @@ describe('GET /api/auth/exchange', () => {
     mockSetSession.mockResolvedValue({ error: null });
     mockExchangeCode.mockResolvedValue({ error: null });
     mockGetUser.mockResolvedValue({
-      data: { user: { id: 'u1', email: 'assoc@test.com', user_metadata: { role: 'associate', password_set: true } } },
+      data: { user: { id: 'u1', email: 'assoc@test.com', user_metadata: { password_set: true }, app_metadata: { role: 'associate' } } },
     });
     mockFindUnique.mockResolvedValue(null);
     mockProfileFindUnique.mockResolvedValue({ passwordSetAt: new Date() });
@@ -113,7 +113,7 @@ describe('GET /api/auth/exchange', () => {
 
   it('redirects trainer to /trainer', async () => {
     mockGetUser.mockResolvedValue({
-      data: { user: { id: 'u1', email: 't@test.com', user_metadata: { role: 'trainer' } } },
+      data: { user: { id: 'u1', email: 't@test.com', app_metadata: { role: 'trainer' } } },
     });
     const res = await GET(makeRequest({ access_token: 'at', refresh_token: 'rt' }));
     expect(getRedirectPath(res)).toBe('/trainer');
@@ -122,7 +122,7 @@ describe('GET /api/auth/exchange', () => {
   it('redirects trainer to /auth/set-password when passwordSet is false', async () => {
     // Trainer with no password_set metadata and no Profile.passwordSetAt — must hit the gate
     mockGetUser.mockResolvedValue({
-      data: { user: { id: 'u1', email: 't@test.com', user_metadata: { role: 'trainer' } } },
+      data: { user: { id: 'u1', email: 't@test.com', app_metadata: { role: 'trainer' } } },
     });
     mockProfileFindUnique.mockResolvedValue(null);
     const res = await GET(makeRequest({ access_token: 'at', refresh_token: 'rt' }));
@@ -132,7 +132,7 @@ describe('GET /api/auth/exchange', () => {
   it('redirects trainer to /trainer when Profile.passwordSetAt is set (Profile-first detection)', async () => {
     // Trainer with Profile set but metadata flag missing — Profile-first wins, proceeds to /trainer
     mockGetUser.mockResolvedValue({
-      data: { user: { id: 'u1', email: 't@test.com', user_metadata: { role: 'trainer' } } },
+      data: { user: { id: 'u1', email: 't@test.com', app_metadata: { role: 'trainer' } } },
     });
     mockProfileFindUnique.mockResolvedValue({ passwordSetAt: new Date() });
     const res = await GET(makeRequest({ access_token: 'at', refresh_token: 'rt' }));
@@ -141,7 +141,7 @@ describe('GET /api/auth/exchange', () => {
 
   it('redirects admin to /trainer', async () => {
     mockGetUser.mockResolvedValue({
-      data: { user: { id: 'u1', email: 'a@test.com', user_metadata: { role: 'admin' } } },
+      data: { user: { id: 'u1', email: 'a@test.com', app_metadata: { role: 'admin' } } },
     });
     const res = await GET(makeRequest({ access_token: 'at', refresh_token: 'rt' }));
     expect(getRedirectPath(res)).toBe('/trainer');
@@ -161,7 +161,7 @@ describe('GET /api/auth/exchange', () => {
 
   it('links authUserId on first sign-in by email match', async () => {
     mockGetUser.mockResolvedValue({
-      data: { user: { id: 'u2', email: 'assoc@test.com', user_metadata: { role: 'associate', password_set: true } } },
+      data: { user: { id: 'u2', email: 'assoc@test.com', user_metadata: { password_set: true }, app_metadata: { role: 'associate' } } },
     });
     // First findUnique (by authUserId) returns null
     // Second findUnique (by email) returns match with null authUserId
@@ -181,7 +181,7 @@ describe('GET /api/auth/exchange', () => {
 
   it('handles P2002 race on authUserId linkage', async () => {
     mockGetUser.mockResolvedValue({
-      data: { user: { id: 'u3', email: 'race@test.com', user_metadata: { role: 'associate', password_set: true } } },
+      data: { user: { id: 'u3', email: 'race@test.com', user_metadata: { password_set: true }, app_metadata: { role: 'associate' } } },
     });
     mockFindUnique
       .mockResolvedValueOnce(null)
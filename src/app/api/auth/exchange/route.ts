@@ -3,6 +3,7 @@ import { createServerClient, type CookieOptions } from '@supabase/ssr';
 import { supabaseAdmin } from '@/lib/supabase/admin';
 import { prisma } from '@/lib/prisma';
 import { lazyBackfillProfile } from '@/lib/profileService';
+import { isStaffRole, staffHomePath } from '@/lib/authorization';
 
 const SITE = process.env.NEXT_PUBLIC_SITE_URL ?? 'http://localhost:3000';
 
@@ -69,7 +70,7 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
     const { data: { user } } = await supabase.auth.getUser();
     if (!user) return redirectWith('/signin?error=invalid-link');
 
-    const role = user.user_metadata?.role as string | undefined;
+    const role = user.app_metadata?.role as string | undefined;
 
     if (!role) {
       await supabaseAdmin.auth.admin.updateUserById(user.id, {
@@ -79,7 +80,7 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
     }
 
     // Phase 33 / SIGNIN-02: Lazy backfill + first-login gate MUST run BEFORE the role branch.
-    // Previously, trainers/admins short-circuited to /trainer and bypassed the passwordSet check.
+    // Previously, staff short-circuited to /trainer and bypassed the passwordSet check.
 
     // Lazy backfill: migrate user_metadata.password_set to Profile.passwordSetAt (per D-12)
     await lazyBackfillProfile(user.id, user.user_metadata as { password_set?: boolean });
@@ -98,9 +99,9 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
       return redirectWith('/auth/set-password');
     }
 
-    // Role-based routing: trainers/admins → /trainer; associates fall through to authUserId linkage.
-    if (role === 'trainer' || role === 'admin') {
-      return redirectWith('/trainer');
+    // Role-based routing: staff → their landing page; associates fall through to authUserId linkage.
+    if (isStaffRole(role)) {
+      return redirectWith(staffHomePath(role));
     }
 
     // Associate — authUserId linkage
@@ -40,7 +40,7 @@ export async function POST(req: NextRequest): Promise<NextResponse> {
   const ip = getClientIp(req);
 
   // Rate limit: 3/hr/email + 10/hr/IP
-  const limit = checkAuthRateLimit({ email, ip, type: 'magic-link' });
+  const limit = await checkAuthRateLimit({ email, ip, type: 'magic-link' });
   if (!limit.allowed) {
     return NextResponse.json({ error: 'Too many requests' }, { status: 429 });
   }
@@ -40,7 +40,7 @@ export async function POST(req: NextRequest): Promise<NextResponse> {
   const ip = getClientIp(req);
 
   // Rate limit check
-  const limit = checkAuthRateLimit({ email, ip, type: 'reset' });
+  const limit = await checkAuthRateLimit({ email, ip, type: 'reset' });
   if (!limit.allowed) {
     return NextResponse.json({ error: 'Too many requests' }, { status: 429 });
   }
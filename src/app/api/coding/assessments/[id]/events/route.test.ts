@@ -0,0 +1,98 @@
+/**
+ * Unit tests for POST /api/coding/assessments/[id]/events.
+ *
+ * Associate-only proctor log: body validation, the service's NOT_STARTED
+ * rejection mapped onto the coding error envelope, and the stored count.
+ */
+
+import { vi, describe, it, expect, beforeEach, afterEach } from 'vitest';
+
+vi.mock('@/lib/prisma', () => {
+  const mockPrisma = {
+    codingAssessmentSession: { findUnique: vi.fn() },
+    codingProctorEvent: { createMany: vi.fn() },
+  };
+  return { prisma: mockPrisma };
+});
+
+vi.mock('@/lib/identity', () => ({
+  getCallerIdentity: vi.fn(),
+}));
+
+import { prisma } from '@/lib/prisma';
+import { getCallerIdentity } from '@/lib/identity';
+import { POST } from './route';
+
+const mockSession = prisma.codingAssessmentSession.findUnique as ReturnType<typeof vi.fn>;
+const mockCreateMany = prisma.codingProctorEvent.createMany as ReturnType<typeof vi.fn>;
+const mockAuth = getCallerIdentity as ReturnType<typeof vi.fn>;
+
+const ASSOCIATE = {
+  kind: 'associate',
+  userId: 'u-1',
+  email: 'a@x.io',
+  associateId: 7,
+  associateSlug: 'alice',
+};
+
+function ctx(id = 'as-1') {
+  return { params: Promise.resolve({ id }) };
+}
+function req(body: unknown) {
+  return new Request('http://localhost/api/coding/assessments/as-1/events', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+}
+
+const EVENTS = {
+  events: [
+    { type: 'tab_hidden', at: '2026-05-04T10:00:00.000Z', challengeId: 'ch-a' },
+    { type: 'paste', at: '2026-05-04T10:01:00.000Z', challengeId: 'ch-a', chars: 300 },
+  ],
+};
+
+describe('POST /api/coding/assessments/[id]/events', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubEnv('CODING_CHALLENGES_ENABLED', 'true');
+  });
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('401 for anonymous, 403 for trainers', async () => {
+    mockAuth.mockResolvedValue({ kind: 'anonymous' });
+    expect((await POST(req(EVENTS), ctx())).status).toBe(401);
+    mockAuth.mockResolvedValue({ kind: 'trainer', userId: 't', email: 't@x.io' });
+    expect((await POST(req(EVENTS), ctx())).status).toBe(403);
+  });
+
+  it('400 for unknown event types', async () => {
+    mockAuth.mockResolvedValue(ASSOCIATE);
+    const res = await POST(req({ events: [{ type: 'screenshot', at: '2026-05-04T10:00:00.000Z' }] }), ctx());
+    expect(res.status).toBe(400);
+    expect((await res.json()).error.code).toBe('VALIDATION_ERROR');
+  });
+
+  it('403 NOT_STARTED without a sitting', async () => {
+    mockAuth.mockResolvedValue(ASSOCIATE);
+    mockSession.mockResolvedValue(null);
+    const res = await POST(req(EVENTS), ctx());
+    expect(res.status).toBe(403);
+    expect((await res.json()).error.details).toEqual({ reason: 'NOT_STARTED' });
+  });
+
+  it('stores the batch against the caller’s sitting', async () => {
+    mockAuth.mockResolvedValue(ASSOCIATE);
+    mockSession.mockResolvedValue({ id: 'sess-1', _count: { events: 0 } });
+    const res = await POST(req(EVENTS), ctx());
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({ recorded: 2 });
+    expect(mockSession.mock.calls[0][0].where).toEqual({
+      assessmentId_associateId: { assessmentId: 'as-1', associateId: 7 },
+    });
+    expect(mockCreateMany.mock.calls[0][0].data).toHaveLength(2);
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * POST /api/coding/assessments/[id]/events
+ *
+ * Proctor log for the calling associate's sitting. Body is a batch
+ * `{ events: [{ type, at, challengeId?, chars? }] }` flushed by the solve
+ * workspace (tab hidden/visible, paste/copy sizes, auto-submit). Events are
+ * informational for the trainer results grid; they never block the associate.
+ * Responds `{ recorded }` — fewer than sent once the per-sitting cap is hit.
+ */
+
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getCallerIdentity } from '@/lib/identity';
+import {
+  AssessmentError,
+  ProctorEventsSchema,
+  assessmentErrorResponse,
+  recordProctorEvents,
+} from '@/lib/codingAssessmentService';
+import { codingApiError } from '@/lib/codingApiErrors';
+import { isCodingEnabled } from '@/lib/codingFeatureFlag';
+import { codingDisabledResponse } from '@/app/api/coding/_disabledResponse';
+
+const IdSchema = z.string().min(1).max(64);
+const BodySchema = z.object({ events: ProctorEventsSchema });
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> },
+): Promise<NextResponse> {
+  if (!isCodingEnabled()) {
+    return codingDisabledResponse();
+  }
+
+  const parsedId = IdSchema.safeParse((await params).id);
+  if (!parsedId.success) {
+    return codingApiError('VALIDATION_ERROR', 'Invalid assessment identifier');
+  }
+
+  const caller = await getCallerIdentity();
+  if (caller.kind === 'anonymous') {
+    return codingApiError('AUTH_REQUIRED', 'Sign-in required');
+  }
+  if (caller.kind !== 'associate') {
+    return codingApiError('FORBIDDEN', 'Assessments are taken by associates');
+  }
+
+  let body;
+  try {
+    const result = BodySchema.safeParse(await request.json());
+    if (!result.success) {
+      return codingApiError('VALIDATION_ERROR', 'Invalid request body', result.error.issues);
+    }
+    body = result.data;
+  } catch {
+    return codingApiError('VALIDATION_ERROR', 'Invalid JSON body');
+  }
+
+  try {
+    const recorded = await recordProctorEvents(
+      parsedId.data,
+      { associateId: caller.associateId },
+      body.events,
+    );
+    return NextResponse.json({ recorded });
+  } catch (err) {
+    if (err instanceof AssessmentError) return assessmentErrorResponse(err);
+    console.error('[coding/assessments/[id]/events] failed:', err);
+    return codingApiError('INTERNAL', 'Failed to record events');
+  }
+}
@@ -0,0 +1,53 @@
+/**
+ * GET /api/coding/assessments/[id]
+ *
+ * One assessment as the calling associate sees it: window, time limit,
+ * attempt cap, language lock and their sitting. Challenges (with attempts
+ * used) are only listed once the sitting has started.
+ */
+
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getCallerIdentity } from '@/lib/identity';
+import {
+  AssessmentError,
+  assessmentErrorResponse,
+  getAssociateAssessment,
+} from '@/lib/codingAssessmentService';
+import { codingApiError } from '@/lib/codingApiErrors';
+import { isCodingEnabled } from '@/lib/codingFeatureFlag';
+import { codingDisabledResponse } from '@/app/api/coding/_disabledResponse';
+
+const IdSchema = z.string().min(1).max(64);
+
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> },
+): Promise<NextResponse> {
+  if (!isCodingEnabled()) {
+    return codingDisabledResponse();
+  }
+
+  const parsed = IdSchema.safeParse((await params).id);
+  if (!parsed.success) {
+    return codingApiError('VALIDATION_ERROR', 'Invalid assessment identifier');
+  }
+
+  const caller = await getCallerIdentity();
+  if (caller.kind === 'anonymous') {
+    return codingApiError('AUTH_REQUIRED', 'Sign-in required');
+  }
+  if (caller.kind !== 'associate') {
+    return codingApiError('FORBIDDEN', 'Assessments are taken by associates');
+  }
+
+  try {
+    return NextResponse.json(
+      await getAssociateAssessment(parsed.data, { associateId: caller.associateId }),
+    );
+  } catch (err) {
+    if (err instanceof AssessmentError) return assessmentErrorResponse(err);
+    console.error('[coding/assessments/[id]] failed:', err);
+    return codingApiError('INTERNAL', 'Failed to load assessment');
+  }
+}
@@ -0,0 +1,53 @@
+/**
+ * POST /api/coding/assessments/[id]/start
+ *
+ * Starts the calling associate's sitting and returns its clock
+ * `{ startedAt, expiresAt }`. Idempotent — a second call (refresh, another
+ * tab) returns the existing sitting, even after the window has closed.
+ */
+
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getCallerIdentity } from '@/lib/identity';
+import {
+  AssessmentError,
+  assessmentErrorResponse,
+  startAssessment,
+} from '@/lib/codingAssessmentService';
+import { codingApiError } from '@/lib/codingApiErrors';
+import { isCodingEnabled } from '@/lib/codingFeatureFlag';
+import { codingDisabledResponse } from '@/app/api/coding/_disabledResponse';
+
+const IdSchema = z.string().min(1).max(64);
+
+export async function POST(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> },
+): Promise<NextResponse> {
+  if (!isCodingEnabled()) {
+    return codingDisabledResponse();
+  }
+
+  const parsed = IdSchema.safeParse((await params).id);
+  if (!parsed.success) {
+    return codingApiError('VALIDATION_ERROR', 'Invalid assessment identifier');
+  }
+
+  const caller = await getCallerIdentity();
+  if (caller.kind === 'anonymous') {
+    return codingApiError('AUTH_REQUIRED', 'Sign-in required');
+  }
+  if (caller.kind !== 'associate') {
+    return codingApiError('FORBIDDEN', 'Assessments are taken by associates');
+  }
+
+  try {
+    return NextResponse.json(
+      await startAssessment(parsed.data, { associateId: caller.associateId }),
+    );
+  } catch (err) {
+    if (err instanceof AssessmentError) return assessmentErrorResponse(err);
+    console.error('[coding/assessments/[id]/start] failed:', err);
+    return codingApiError('INTERNAL', 'Failed to start assessment');
+  }
+}
@@ -0,0 +1,37 @@
+/**
+ * GET /api/coding/assessments
+ *
+ * Timed assessments assigned to the calling associate's cohort that have not
+ * closed yet, with their own sitting (if started). Trainers manage
+ * assessments under /api/trainer/assessments instead.
+ */
+
+import { NextResponse } from 'next/server';
+import { getCallerIdentity } from '@/lib/identity';
+import { listAssociateAssessments } from '@/lib/codingAssessmentService';
+import { codingApiError } from '@/lib/codingApiErrors';
+import { isCodingEnabled } from '@/lib/codingFeatureFlag';
+import { codingDisabledResponse } from '@/app/api/coding/_disabledResponse';
+
+export async function GET(): Promise<NextResponse> {
+  if (!isCodingEnabled()) {
+    return codingDisabledResponse();
+  }
+
+  const caller = await getCallerIdentity();
+  if (caller.kind === 'anonymous') {
+    return codingApiError('AUTH_REQUIRED', 'Sign-in required');
+  }
+  if (caller.kind !== 'associate') {
+    return NextResponse.json({ assessments: [] });
+  }
+
+  try {
+    return NextResponse.json({
+      assessments: await listAssociateAssessments({ associateId: caller.associateId }),
+    });
+  } catch (err) {
+    console.error('[coding/assessments] list failed:', err);
+    return codingApiError('INTERNAL', 'Failed to load assessments');
+  }
+}
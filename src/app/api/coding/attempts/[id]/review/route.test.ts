@@ -0,0 +1,152 @@
+/**
+ * route.test.ts — GET /api/coding/attempts/[id]/review
+ *
+ * Auth + ownership, the enabled/null contract the client polls on, and the
+ * strict output schema keeping the server-only failure reason off the wire.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi, type Mock } from 'vitest';
+
+vi.mock('@/lib/identity', () => ({
+  getCallerIdentity: vi.fn(),
+}));
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    codingAttempt: { findUnique: vi.fn() },
+  },
+}));
+
+vi.mock('@/lib/codeReviewService', () => ({
+  getCodeReview: vi.fn(),
+  isCodeReviewEnabled: vi.fn(),
+  requestCodeReview: vi.fn(async () => undefined),
+}));
+
+import { GET } from './route';
+import { getCallerIdentity } from '@/lib/identity';
+import { prisma } from '@/lib/prisma';
+import { getCodeReview, isCodeReviewEnabled, requestCodeReview } from '@/lib/codeReviewService';
+
+function buildReq(): Request {
+  return new Request('http://localhost/api/coding/attempts/att-1/review');
+}
+
+function paramsFor(id: string): { params: Promise<{ id: string }> } {
+  return { params: Promise.resolve({ id }) };
+}
+
+const READY = {
+  status: 'ready',
+  model: 'review-model',
+  summary: 'Solid.',
+  correctness: 'Correct.',
+  complexity: 'O(n).',
+  readability: 'Clear.',
+  style: 'Idiomatic.',
+  completedAt: '2026-05-01T12:00:05.000Z',
+};
+
+describe('GET /api/coding/attempts/[id]/review', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+    vi.stubEnv('CODING_CHALLENGES_ENABLED', 'true');
+    (getCallerIdentity as Mock).mockResolvedValue({
+      kind: 'associate',
+      userId: 'u-1',
+      email: 'a@example.com',
+      associateId: 42,
+      associateSlug: 'alice',
+    });
+    (prisma.codingAttempt.findUnique as Mock).mockResolvedValue({ associateId: 42, verdict: 'pass' });
+    (isCodeReviewEnabled as Mock).mockReturnValue(true);
+  });
+  afterEach(() => vi.unstubAllEnvs());
+
+  it('401 for anonymous callers, 403 for another associate', async () => {
+    (getCallerIdentity as Mock).mockResolvedValueOnce({ kind: 'anonymous' });
+    expect((await GET(buildReq(), paramsFor('att-1'))).status).toBe(401);
+
+    (prisma.codingAttempt.findUnique as Mock).mockResolvedValueOnce({ associateId: 7 });
+    expect((await GET(buildReq(), paramsFor('att-1'))).status).toBe(403);
+    expect(getCodeReview).not.toHaveBeenCalled();
+  });
+
+  it('withholds the review from the associate until their assessment sitting ends', async () => {
+    (getCodeReview as Mock).mockResolvedValue(READY);
+    (prisma.codingAttempt.findUnique as Mock).mockResolvedValueOnce({
+      associateId: 42,
+      verdict: 'pass',
+      assessmentSession: { expiresAt: new Date(Date.now() + 60_000) },
+    });
+    expect(await (await GET(buildReq(), paramsFor('att-1'))).json()).toEqual({ enabled: false, review: null });
+
+    (prisma.codingAttempt.findUnique as Mock).mockResolvedValueOnce({
+      associateId: 42,
+      verdict: 'pass',
+      assessmentSession: { expiresAt: new Date(Date.now() - 60_000) },
+    });
+    expect(await (await GET(buildReq(), paramsFor('att-1'))).json()).toEqual({ enabled: true, review: READY });
+  });
+
+  it('404 for an unknown attempt', async () => {
+    (prisma.codingAttempt.findUnique as Mock).mockResolvedValueOnce(null);
+    expect((await GET(buildReq(), paramsFor('nope'))).status).toBe(404);
+  });
+
+  it('returns the review to its owner and to trainers', async () => {
+    (getCodeReview as Mock).mockResolvedValue(READY);
+    const res = await GET(buildReq(), paramsFor('att-1'));
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({ enabled: true, review: READY });
+
+    (getCallerIdentity as Mock).mockResolvedValueOnce({ kind: 'trainer', userId: 't-1', email: 't@example.com' });
+    (prisma.codingAttempt.findUnique as Mock).mockResolvedValueOnce({ associateId: 7, associate: { cohortId: 3 } });
+    expect((await GET(buildReq(), paramsFor('att-1'))).status).toBe(200);
+  });
+
+  it('404 for a trainer scoped to other cohorts', async () => {
+    (getCallerIdentity as Mock).mockResolvedValueOnce({
+      kind: 'trainer',
+      userId: 't-1',
+      email: 't@example.com',
+      cohortIds: [8],
+    });
+    (prisma.codingAttempt.findUnique as Mock).mockResolvedValueOnce({ associateId: 7, associate: { cohortId: 3 } });
+    expect((await GET(buildReq(), paramsFor('att-1'))).status).toBe(404);
+    expect(getCodeReview).not.toHaveBeenCalled();
+  });
+
+  it('requests a missing review for a resolved attempt, never for a pending one', async () => {
+    (getCodeReview as Mock).mockResolvedValue(null);
+    const res = await GET(buildReq(), paramsFor('att-1'));
+    expect(await res.json()).toEqual({ enabled: true, review: null });
+    expect(requestCodeReview).toHaveBeenCalledWith('att-1');
+
+    vi.mocked(requestCodeReview).mockClear();
+    (prisma.codingAttempt.findUnique as Mock).mockResolvedValueOnce({ associateId: 42, verdict: 'pending' });
+    await GET(buildReq(), paramsFor('att-1'));
+    expect(requestCodeReview).not.toHaveBeenCalled();
+  });
+
+  it('reports disabled with no review so the client stops polling', async () => {
+    (isCodeReviewEnabled as Mock).mockReturnValue(false);
+    (getCodeReview as Mock).mockResolvedValue(null);
+    const res = await GET(buildReq(), paramsFor('att-1'));
+    expect(await res.json()).toEqual({ enabled: false, review: null });
+    expect(requestCodeReview).not.toHaveBeenCalled();
+  });
+
+  it('trips the shield (500) if a server-only field reaches the response', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    (getCodeReview as Mock).mockResolvedValue({ ...READY, status: 'failed', error: 'provider stack trace' });
+    const res = await GET(buildReq(), paramsFor('att-1'));
+    expect(res.status).toBe(500);
+    expect(JSON.stringify(await res.json())).not.toContain('provider stack trace');
+  });
+
+  it('503 when the coding flag is off', async () => {
+    vi.stubEnv('CODING_CHALLENGES_ENABLED', 'false');
+    expect((await GET(buildReq(), paramsFor('att-1'))).status).toBe(503);
+  });
+});
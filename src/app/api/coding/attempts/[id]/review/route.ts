@@ -0,0 +1,125 @@
+/**
+ * GET /api/coding/attempts/[id]/review
+ *
+ * The LLM code review of an attempt (codeReviewService.ts):
+ *   { enabled: boolean, review: CodeReviewView | null }
+ *
+ * `enabled: false` tells the client reviews are switched off, so it stops
+ * polling. `review: null` with `enabled: true` means the attempt has not
+ * resolved yet; 'pending' means the model is working. A resolved attempt with
+ * no review (graded before reviews were switched on, or its fire-and-forget
+ * request was lost) gets one requested here.
+ *
+ * Same authz as the sibling poll route: associates see their own attempts,
+ * staff see attempts by associates in their cohort scope. Associates get no review of an assessment attempt
+ * while that sitting is still running — it would be a hint for the next one.
+ * requestCodeReview holds those reviews until the sitting is over, so the
+ * first read afterwards starts it. The response is parsed through a strict
+ * schema so server-only fields (the failure `error`) can never be serialized.
+ */
+
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getCallerIdentity } from '@/lib/identity';
+import { can, canAccessCohort } from '@/lib/authorization';
+import { prisma } from '@/lib/prisma';
+import {
+  getCodeReview,
+  isCodeReviewEnabled,
+  requestCodeReview,
+} from '@/lib/codeReviewService';
+import { codingApiError } from '@/lib/codingApiErrors';
+import { isCodingEnabled } from '@/lib/codingFeatureFlag';
+import { codingDisabledResponse } from '@/app/api/coding/_disabledResponse';
+
+const section = z.string().optional();
+
+const ReviewResponseSchema = z
+  .object({
+    enabled: z.boolean(),
+    review: z
+      .object({
+        status: z.enum(['pending', 'ready', 'failed']),
+        model: z.string().nullable(),
+        summary: section,
+        correctness: section,
+        complexity: section,
+        readability: section,
+        style: section,
+        completedAt: z.string().nullable(),
+      })
+      .strict()
+      .nullable(),
+  })
+  .strict();
+
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> },
+): Promise<NextResponse> {
+  if (!isCodingEnabled()) {
+    return codingDisabledResponse();
+  }
+
+  const { id } = await params;
+
+  const caller = await getCallerIdentity();
+  if (caller.kind === 'anonymous') {
+    return codingApiError('AUTH_REQUIRED', 'Sign-in required');
+  }
+  if (caller.kind !== 'associate' && !can(caller, 'associates:read')) {
+    return codingApiError('FORBIDDEN', 'Not permitted to view associate attempts');
+  }
+
+  const attempt = await prisma.codingAttempt.findUnique({
+    where: { id },
+    select: {
+      associateId: true,
+      verdict: true,
+      assessmentSession: { select: { expiresAt: true } },
+      associate: { select: { cohortId: true } },
+    },
+  });
+  if (!attempt) {
+    return codingApiError('NOT_FOUND', 'Attempt not found');
+  }
+  if (caller.kind === 'associate' && attempt.associateId !== caller.associateId) {
+    return codingApiError('FORBIDDEN', 'Attempt does not belong to caller');
+  }
+  if (caller.kind !== 'associate' && !canAccessCohort(caller, attempt.associate.cohortId)) {
+    return codingApiError('NOT_FOUND', 'Attempt not found');
+  }
+  if (
+    caller.kind === 'associate' &&
+    attempt.assessmentSession &&
+    attempt.assessmentSession.expiresAt.getTime() > Date.now()
+  ) {
+    return NextResponse.json({ enabled: false, review: null }, { status: 200 });
+  }
+
+  let review;
+  try {
+    review = await getCodeReview(id);
+  } catch (err) {
+    console.error('[coding/attempts/review] load failed:', err);
+    return codingApiError('INTERNAL', 'Review load failed');
+  }
+
+  const enabled = isCodeReviewEnabled();
+  if (enabled && review === null && attempt.verdict !== 'pending') {
+    void requestCodeReview(id).catch((err) => {
+      console.error('[coding/attempts/review] review request failed:', err);
+    });
+  }
+
+  const parsed = ReviewResponseSchema.safeParse({
+    // A review stored before the flag was switched off is still shown.
+    enabled: enabled || review !== null,
+    review,
+  });
+  if (!parsed.success) {
+    console.error('[coding/attempts/review] response schema violation for attempt', id, parsed.error.issues);
+    return codingApiError('INTERNAL', 'Response shape error');
+  }
+  return NextResponse.json(parsed.data, { status: 200 });
+}
@@ -62,12 +62,14 @@ function standardPollResult(overrides: Partial<{
 
 function standardAttemptRow(overrides: Partial<{
   associateId: number;
+  cohortId: number | null;
   verdict: string;
   completedAt: Date | null;
 }> = {}) {
   return {
     id: 'abc-1',
     associateId: overrides.associateId ?? 42,
+    associate: { cohortId: overrides.cohortId ?? 3 },
     verdict: overrides.verdict ?? 'pass',
     submittedAt: new Date('2026-01-01T00:00:00Z'),
     completedAt:
@@ -129,6 +131,19 @@ describe('GET /api/coding/attempts/[id]', () => {
     expect(res.status).toBe(200);
   });
 
+  it('Test 4b: trainer scoped to other cohorts → 404 NOT_FOUND', async () => {
+    (getCallerIdentity as Mock).mockResolvedValue({
+      kind: 'trainer', userId: 't-1', email: 't@x.com', cohortIds: [8],
+    });
+    (prisma.codingAttempt.findUnique as Mock).mockResolvedValue(standardAttemptRow({ cohortId: 3 }));
+
+    const res = await GET(buildReq(), paramsFor('abc-1'));
+    expect(res.status).toBe(404);
+    const body = await res.json();
+    expect(body.error.code).toBe('NOT_FOUND');
+    expect(pollHelper.pollAndMaybeResolveAttempt).not.toHaveBeenCalled();
+  });
+
   it('Test 5: attempt id not found → 404 NOT_FOUND', async () => {
     (getCallerIdentity as Mock).mockResolvedValue({
       kind: 'associate', userId: 'u', email: 'a', associateId: 42, associateSlug: 's',
@@ -12,6 +12,7 @@
 import { NextResponse } from 'next/server';
 import { z } from 'zod';
 import { getCallerIdentity } from '@/lib/identity';
+import { can, canAccessCohort } from '@/lib/authorization';
 import { prisma } from '@/lib/prisma';
 import {
   pollAndMaybeResolveAttempt,
@@ -73,6 +74,9 @@ export async function GET(
   if (caller.kind === 'anonymous') {
     return codingApiError('AUTH_REQUIRED', 'Sign-in required');
   }
+  if (caller.kind !== 'associate' && !can(caller, 'associates:read')) {
+    return codingApiError('FORBIDDEN', 'Not permitted to view associate attempts');
+  }
 
   // Load attempt for authz + timestamps
   const attempt = await prisma.codingAttempt.findUnique({
@@ -83,16 +87,20 @@ export async function GET(
       verdict: true,
       submittedAt: true,
       completedAt: true,
+      associate: { select: { cohortId: true } },
     },
   });
   if (!attempt) {
     return codingApiError('NOT_FOUND', 'Attempt not found');
   }
 
-  // Authz: associate must own the attempt; trainer/admin bypass
+  // Authz: associate must own the attempt; staff must have its cohort in scope
   if (caller.kind === 'associate' && attempt.associateId !== caller.associateId) {
     return codingApiError('FORBIDDEN', 'Attempt does not belong to caller');
   }
+  if (caller.kind !== 'associate' && !canAccessCohort(caller, attempt.associate.cohortId)) {
+    return codingApiError('NOT_FOUND', 'Attempt not found');
+  }
 
   // Delegate aggregation + persistence + signal to helper
   let pollResult;
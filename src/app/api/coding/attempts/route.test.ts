@@ -0,0 +1,88 @@
+/**
+ * route.test.ts — GET /api/coding/attempts
+ *
+ * Who may list whose attempts: associates see their own, staff see
+ * associates in their cohort scope.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi, type Mock } from 'vitest';
+
+vi.mock('@/lib/identity', () => ({
+  getCallerIdentity: vi.fn(),
+}));
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    associate: { findUnique: vi.fn() },
+    codingAttempt: { findMany: vi.fn() },
+  },
+}));
+
+import { GET } from './route';
+import { getCallerIdentity } from '@/lib/identity';
+import { prisma } from '@/lib/prisma';
+
+const TRAINER = { kind: 'trainer', userId: 't-1', email: 't@x.com' };
+const SCOPED = { ...TRAINER, cohortIds: [8] };
+
+function buildReq(query: string): Request {
+  return new Request(`http://localhost/api/coding/attempts${query}`);
+}
+
+describe('GET /api/coding/attempts', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+    vi.stubEnv('CODING_CHALLENGES_ENABLED', 'true');
+    (prisma.codingAttempt.findMany as Mock).mockResolvedValue([]);
+  });
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('limits an associate to their own attempts', async () => {
+    (getCallerIdentity as Mock).mockResolvedValue({
+      kind: 'associate', userId: 'u', email: 'a', associateId: 42, associateSlug: 's',
+    });
+
+    expect((await GET(buildReq('?challengeId=ch-1'))).status).toBe(200);
+    expect((prisma.codingAttempt.findMany as Mock).mock.calls[0][0].where).toEqual({
+      challengeId: 'ch-1',
+      associateId: 42,
+    });
+    expect((await GET(buildReq('?challengeId=ch-1&associateSlug=other'))).status).toBe(403);
+  });
+
+  it('lets unscoped staff list any associate or all of them', async () => {
+    (getCallerIdentity as Mock).mockResolvedValue(TRAINER);
+    (prisma.associate.findUnique as Mock).mockResolvedValue({ id: 7, cohortId: 3 });
+
+    expect((await GET(buildReq('?challengeId=ch-1&associateSlug=ada'))).status).toBe(200);
+    expect((prisma.codingAttempt.findMany as Mock).mock.calls[0][0].where).toEqual({
+      challengeId: 'ch-1',
+      associateId: 7,
+    });
+
+    expect((await GET(buildReq('?challengeId=ch-1'))).status).toBe(200);
+    expect((prisma.codingAttempt.findMany as Mock).mock.calls[1][0].where).toEqual({ challengeId: 'ch-1' });
+  });
+
+  it('returns 404 for an associate outside the trainer scope', async () => {
+    (getCallerIdentity as Mock).mockResolvedValue(SCOPED);
+    (prisma.associate.findUnique as Mock).mockResolvedValue({ id: 7, cohortId: 3 });
+
+    const res = await GET(buildReq('?challengeId=ch-1&associateSlug=ada'));
+    expect(res.status).toBe(404);
+    expect((await res.json()).error.code).toBe('NOT_FOUND');
+    expect(prisma.codingAttempt.findMany).not.toHaveBeenCalled();
+  });
+
+  it('limits the unfiltered list to the trainer scope', async () => {
+    (getCallerIdentity as Mock).mockResolvedValue(SCOPED);
+
+    expect((await GET(buildReq('?challengeId=ch-1'))).status).toBe(200);
+    expect((prisma.codingAttempt.findMany as Mock).mock.calls[0][0].where).toEqual({
+      challengeId: 'ch-1',
+      associate: { cohortId: { in: [8] } },
+    });
+  });
+});
@@ -3,13 +3,15 @@
  *
  * Returns last N attempts for (caller, challenge). Associates see their own
  * attempts only; trainers/admins may pass `?associateSlug=X` to scope to a
- * specific associate.
+ * specific associate. Cohort-scoped staff only see associates in their cohorts.
  */
 
 import { NextResponse } from 'next/server';
 import { z } from 'zod';
 import { getCallerIdentity } from '@/lib/identity';
+import { can, canAccessCohort, cohortScopeWhere } from '@/lib/authorization';
 import { prisma } from '@/lib/prisma';
+import type { Prisma } from '@/generated/prisma';
 import { codingApiError } from '@/lib/codingApiErrors';
 import { isCodingEnabled } from '@/lib/codingFeatureFlag';
 import { codingDisabledResponse } from '@/app/api/coding/_disabledResponse';
@@ -30,6 +32,10 @@ export async function GET(request: Request): Promise<NextResponse> {
   if (caller.kind === 'anonymous') {
     return codingApiError('AUTH_REQUIRED', 'Sign-in required');
   }
+  // Staff without associate access (recruiters, authors) see no attempts.
+  if (caller.kind !== 'associate' && !can(caller, 'associates:read')) {
+    return codingApiError('FORBIDDEN', 'Not permitted to view associate attempts');
+  }
 
   const url = new URL(request.url);
   const parsed = QuerySchema.safeParse(Object.fromEntries(url.searchParams));
@@ -53,17 +59,21 @@ export async function GET(request: Request): Promise<NextResponse> {
     // trainer / admin scoping by slug
     const assoc = await prisma.associate.findUnique({
       where: { slug: associateSlug },
-      select: { id: true },
+      select: { id: true, cohortId: true },
     });
-    if (!assoc) {
+    // Out-of-scope associates look the same as missing ones (no slug probing).
+    if (!assoc || !canAccessCohort(caller, assoc.cohortId)) {
       return codingApiError('NOT_FOUND', 'Associate not found');
     }
     targetAssociateId = assoc.id;
   }
 
-  const where: { challengeId: string; associateId?: number } = { challengeId };
+  const where: Prisma.CodingAttemptWhereInput = { challengeId };
   if (targetAssociateId !== null) {
     where.associateId = targetAssociateId;
+  } else if (caller.kind !== 'associate') {
+    const scopeWhere = cohortScopeWhere(caller);
+    if (scopeWhere) where.associate = scopeWhere;
   }
 
   const rows = await prisma.codingAttempt.findMany({
@@ -0,0 +1,120 @@
+/**
+ * Shared gate + body parsing for the /api/coding/bank/author/* routes
+ * (trainer challenge-authoring wizard). Same error shape and auth matrix as
+ * /api/coding/bank/refresh:
+ *
+ *   flag off  → 503
+ *   anonymous → 401 { error: 'unauthorized' }
+ *   associate → 403 { error: 'forbidden' }
+ *   bad body  → 400 { error: 'invalid_body' }
+ *
+ * runReference() is the reference dry run shared by /dry-run and /publish.
+ */
+import { NextResponse } from 'next/server';
+import type { z } from 'zod';
+import { getCallerIdentity } from '@/lib/identity';
+import { can, type StaffIdentity } from '@/lib/authorization';
+import { isCodingEnabled } from '@/lib/codingFeatureFlag';
+import { codingDisabledResponse } from '@/app/api/coding/_disabledResponse';
+import { ChallengeValidationError } from '@/lib/coding-bank-schemas';
+import {
+  ReferenceSolutionError,
+  dryRunReference,
+  type DryRunResult,
+  type ReferenceSolution,
+  type ValidatedDraft,
+} from '@/lib/challengeAuthoring';
+import { consumeCodingRunRateLimit, refundCodingRunCount } from '@/lib/rateLimitService';
+
+export type TrainerCaller = StaffIdentity;
+
+export async function authorizeAuthor(): Promise<TrainerCaller | NextResponse> {
+  if (!isCodingEnabled()) {
+    return codingDisabledResponse();
+  }
+  const identity = await getCallerIdentity();
+  if (identity.kind === 'anonymous') {
+    return NextResponse.json(
+      { error: 'unauthorized', message: 'Sign-in required' },
+      { status: 401 },
+    );
+  }
+  if (!can(identity, 'content:write')) {
+    return NextResponse.json(
+      { error: 'forbidden', message: 'Content author permission required' },
+      { status: 403 },
+    );
+  }
+  return identity;
+}
+
+export async function parseBody<T extends z.ZodType>(
+  req: Request,
+  schema: T,
+): Promise<z.infer<T> | NextResponse> {
+  let raw: unknown;
+  try {
+    raw = await req.json();
+  } catch {
+    return NextResponse.json(
+      { error: 'invalid_body', message: 'Body must be valid JSON' },
+      { status: 400 },
+    );
+  }
+  const result = schema.safeParse(raw);
+  if (!result.success) {
+    return NextResponse.json(
+      { error: 'invalid_body', message: result.error.issues[0]?.message ?? 'Invalid body' },
+      { status: 400 },
+    );
+  }
+  return result.data;
+}
+
+/** 422 carrying the validator's path + reason, so the wizard can point at the field. */
+export function invalidChallengeResponse(err: ChallengeValidationError): NextResponse {
+  return NextResponse.json(
+    { error: 'invalid_challenge', message: `${err.path}: ${err.reason}`, path: err.path },
+    { status: 422 },
+  );
+}
+
+/**
+ * Dry-run the reference against the validated draft on the caller's
+ * `coding-run` budget. Returns the result, or the 429 / 400 invalid_reference
+ * / 502 execution_unavailable response to send instead.
+ */
+export async function runReference(
+  caller: TrainerCaller,
+  validated: ValidatedDraft,
+  reference: ReferenceSolution,
+  logPrefix: string,
+): Promise<DryRunResult | NextResponse> {
+  const userKey = `trainer:${caller.userId}`;
+  const rl = await consumeCodingRunRateLimit(userKey);
+  if (!rl.allowed) {
+    return NextResponse.json(
+      { error: 'rate_limited', message: rl.error ?? 'Run rate limit exceeded' },
+      {
+        status: 429,
+        headers:
+          rl.retryAfterSeconds !== undefined ? { 'Retry-After': String(rl.retryAfterSeconds) } : {},
+      },
+    );
+  }
+
+  try {
+    return await dryRunReference(validated, reference);
+  } catch (err) {
+    // Neither failure reached Judge0, so the run goes back to the budget.
+    await refundCodingRunCount(userKey);
+    if (err instanceof ReferenceSolutionError) {
+      return NextResponse.json({ error: 'invalid_reference', message: err.message }, { status: 400 });
+    }
+    console.error(`${logPrefix} execution failed:`, err);
+    return NextResponse.json(
+      { error: 'execution_unavailable', message: 'Code execution service unavailable' },
+      { status: 502 },
+    );
+  }
+}
@@ -0,0 +1,106 @@
+/**
+ * Tests for POST /api/coding/bank/author/dry-run — auth matrix, validator
+ * errors surfaced with their path, rate limiting and execution failures.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi, type Mock } from 'vitest';
+
+vi.mock('@/lib/identity', () => ({
+  getCallerIdentity: vi.fn(),
+}));
+vi.mock('@/lib/challengeAuthoring', async () => {
+  const actual = await vi.importActual<typeof import('@/lib/challengeAuthoring')>(
+    '@/lib/challengeAuthoring',
+  );
+  return { ...actual, dryRunReference: vi.fn() };
+});
+vi.mock('@/lib/rateLimitService', () => ({
+  consumeCodingRunRateLimit: vi.fn(() => ({ allowed: true })),
+  refundCodingRunCount: vi.fn(),
+}));
+
+import { POST } from './route';
+import { getCallerIdentity } from '@/lib/identity';
+import { ReferenceSolutionError, dryRunReference } from '@/lib/challengeAuthoring';
+import { consumeCodingRunRateLimit, refundCodingRunCount } from '@/lib/rateLimitService';
+
+const DRAFT = {
+  meta: {
+    slug: 'echo-sum',
+    title: 'Echo Sum',
+    difficulty: 'easy',
+    skillSlug: 'basics',
+    cohortId: null,
+    languages: ['python'],
+  },
+  readme: '# Echo Sum',
+  starters: { python: 'pass\n' },
+  visibleTests: [{ id: 'v1', stdin: '1 2', expectedStdout: '3', orderIndex: 0 }],
+  hiddenTests: [{ id: 'h1', stdin: '40 2', expectedStdout: '42', orderIndex: 0 }],
+};
+const REFERENCE = { language: 'python', code: 'print(3)' };
+
+function makeReq(body: unknown): Request {
+  return new Request('http://test/api/coding/bank/author/dry-run', {
+    method: 'POST',
+    body: JSON.stringify(body),
+    headers: { 'content-type': 'application/json' },
+  });
+}
+
+describe('POST /api/coding/bank/author/dry-run', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubEnv('CODING_CHALLENGES_ENABLED', 'true');
+    (getCallerIdentity as Mock).mockResolvedValue({ kind: 'trainer', userId: 't1', email: 't@x' });
+  });
+  afterEach(() => vi.unstubAllEnvs());
+
+  it('is trainer-only', async () => {
+    (getCallerIdentity as Mock).mockResolvedValueOnce({ kind: 'anonymous' });
+    expect((await POST(makeReq({ draft: DRAFT, reference: REFERENCE }))).status).toBe(401);
+    (getCallerIdentity as Mock).mockResolvedValueOnce({
+      kind: 'associate',
+      userId: 'u1',
+      email: 'a@x',
+      associateId: 1,
+      associateSlug: 'alice',
+    });
+    expect((await POST(makeReq({ draft: DRAFT, reference: REFERENCE }))).status).toBe(403);
+    expect(dryRunReference).not.toHaveBeenCalled();
+  });
+
+  it('returns 422 with the validator path for an invalid draft', async () => {
+    const res = await POST(
+      makeReq({ draft: { ...DRAFT, visibleTests: [{ ...DRAFT.visibleTests[0], orderIndex: 3 }] }, reference: REFERENCE }),
+    );
+    expect(res.status).toBe(422);
+    expect(await res.json()).toMatchObject({ error: 'invalid_challenge', path: 'visibleTests[0].orderIndex' });
+  });
+
+  it('returns the dry-run result and counts it against the run budget', async () => {
+    (dryRunReference as Mock).mockResolvedValue({ resolved: true, passed: 2, total: 2, cases: [] });
+    const res = await POST(makeReq({ draft: DRAFT, reference: REFERENCE }));
+    expect(res.status).toBe(200);
+    expect(await res.json()).toMatchObject({ passed: 2, total: 2 });
+    expect(consumeCodingRunRateLimit).toHaveBeenCalledWith('trainer:t1');
+    expect(refundCodingRunCount).not.toHaveBeenCalled();
+  });
+
+  it('maps rate limits, bad references and execution failures', async () => {
+    (consumeCodingRunRateLimit as Mock).mockReturnValueOnce({ allowed: false, retryAfterSeconds: 30 });
+    const limited = await POST(makeReq({ draft: DRAFT, reference: REFERENCE }));
+    expect(limited.status).toBe(429);
+    expect(limited.headers.get('Retry-After')).toBe('30');
+
+    (dryRunReference as Mock).mockRejectedValueOnce(new ReferenceSolutionError("'java' is not one of the challenge's languages"));
+    expect((await POST(makeReq({ draft: DRAFT, reference: REFERENCE }))).status).toBe(400);
+
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    (dryRunReference as Mock).mockRejectedValueOnce(new Error('ECONNREFUSED'));
+    const down = await POST(makeReq({ draft: DRAFT, reference: REFERENCE }));
+    expect(down.status).toBe(502);
+    // Both failures are handed back; the 429 never took a run.
+    expect(refundCodingRunCount).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,51 @@
+/**
+ * POST /api/coding/bank/author/dry-run
+ *
+ * Trainer-only. Runs the draft's reference solution against every visible
+ * AND hidden test through the execution backend and grades each case the
+ * way submit + poll would. Nothing is persisted. Results include hidden
+ * cases — the caller authored them — which is why this route is
+ * trainer-gated rather than reusing /api/coding/run.
+ *
+ * Body: { draft: ChallengeDraft, reference: { language, code | files } }
+ *
+ * Response (200): DryRunResult { resolved, passed, total, cases[] }
+ * 400 invalid_body / invalid_reference · 422 invalid_challenge
+ * 429 rate_limited (shares the trainer's `coding-run` budget)
+ * 502 execution_unavailable
+ */
+
+import 'server-only';
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { ChallengeValidationError } from '@/lib/coding-bank-schemas';
+import {
+  ChallengeDraftSchema,
+  ReferenceSolutionSchema,
+  validateDraft,
+  type ValidatedDraft,
+} from '@/lib/challengeAuthoring';
+import { authorizeAuthor, invalidChallengeResponse, parseBody, runReference } from '../_authoring';
+
+const BodySchema = z
+  .object({ draft: ChallengeDraftSchema, reference: ReferenceSolutionSchema })
+  .strict();
+
+export async function POST(req: Request): Promise<NextResponse> {
+  const caller = await authorizeAuthor();
+  if (caller instanceof NextResponse) return caller;
+
+  const body = await parseBody(req, BodySchema);
+  if (body instanceof NextResponse) return body;
+
+  let validated: ValidatedDraft;
+  try {
+    validated = validateDraft(body.draft);
+  } catch (err) {
+    if (err instanceof ChallengeValidationError) return invalidChallengeResponse(err);
+    throw err;
+  }
+
+  const result = await runReference(caller, validated, body.reference, '[coding/bank/author/dry-run]');
+  return result instanceof NextResponse ? result : NextResponse.json(result);
+}
@@ -0,0 +1,41 @@
+/**
+ * POST /api/coding/bank/author/export
+ *
+ * Trainer-only. Returns a validated draft as `<slug>.zip` with `public/` and
+ * `private/` roots mirroring the two repos, for the manual PR workflow
+ * (docs/trainer-authoring.md §6).
+ *
+ * Body: { draft: ChallengeDraft }
+ * 400 invalid_body · 422 invalid_challenge
+ */
+
+import 'server-only';
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { ChallengeValidationError } from '@/lib/coding-bank-schemas';
+import { ChallengeDraftSchema, challengeArchive, validateDraft } from '@/lib/challengeAuthoring';
+import { authorizeAuthor, invalidChallengeResponse, parseBody } from '../_authoring';
+
+const BodySchema = z.object({ draft: ChallengeDraftSchema }).strict();
+
+export async function POST(req: Request): Promise<NextResponse> {
+  const caller = await authorizeAuthor();
+  if (caller instanceof NextResponse) return caller;
+
+  const body = await parseBody(req, BodySchema);
+  if (body instanceof NextResponse) return body;
+
+  try {
+    const validated = validateDraft(body.draft);
+    const zip = challengeArchive(body.draft, validated);
+    return new NextResponse(new Uint8Array(zip), {
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Disposition': `attachment; filename="${validated.challenge.meta.slug}.zip"`,
+      },
+    });
+  } catch (err) {
+    if (err instanceof ChallengeValidationError) return invalidChallengeResponse(err);
+    throw err;
+  }
+}
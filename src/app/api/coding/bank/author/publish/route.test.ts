@@ -0,0 +1,125 @@
+/**
+ * Tests for POST /api/coding/bank/author/publish — auth, validation and the
+ * server-side reference dry run before any GitHub call, and the PublishError /
+ * upstream error mapping.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi, type Mock } from 'vitest';
+
+vi.mock('@/lib/identity', () => ({
+  getCallerIdentity: vi.fn(),
+}));
+vi.mock('@/lib/challengeAuthoring', async () => {
+  const actual = await vi.importActual<typeof import('@/lib/challengeAuthoring')>(
+    '@/lib/challengeAuthoring',
+  );
+  return { ...actual, dryRunReference: vi.fn(), publishChallenge: vi.fn() };
+});
+vi.mock('@/lib/rateLimitService', () => ({
+  consumeCodingRunRateLimit: vi.fn(() => ({ allowed: true })),
+  refundCodingRunCount: vi.fn(),
+}));
+
+import { POST } from './route';
+import { getCallerIdentity } from '@/lib/identity';
+import { PublishError, dryRunReference, publishChallenge } from '@/lib/challengeAuthoring';
+
+const DRAFT = {
+  meta: {
+    slug: 'echo-sum',
+    title: 'Echo Sum',
+    difficulty: 'easy',
+    skillSlug: 'basics',
+    cohortId: null,
+    languages: ['python'],
+  },
+  readme: '# Echo Sum',
+  starters: { python: 'pass\n' },
+  visibleTests: [{ id: 'v1', stdin: '1 2', expectedStdout: '3', orderIndex: 0 }],
+  hiddenTests: [{ id: 'h1', stdin: '40 2', expectedStdout: '42', orderIndex: 0 }],
+};
+const REFERENCE = { language: 'python', code: 'a, b = map(int, input().split())\nprint(a + b)' };
+
+function dryRun(passed: number, resolved = true) {
+  return { resolved, passed, total: 2, cases: [] };
+}
+
+function makeReq(body: unknown): Request {
+  return new Request('http://test/api/coding/bank/author/publish', {
+    method: 'POST',
+    body: JSON.stringify(body),
+    headers: { 'content-type': 'application/json' },
+  });
+}
+
+describe('POST /api/coding/bank/author/publish', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubEnv('CODING_CHALLENGES_ENABLED', 'true');
+    (getCallerIdentity as Mock).mockResolvedValue({ kind: 'admin', userId: 'a1', email: 'admin@x' });
+    (dryRunReference as Mock).mockResolvedValue(dryRun(2));
+  });
+  afterEach(() => vi.unstubAllEnvs());
+
+  it('returns 403 for associates and 503 when the feature is off', async () => {
+    (getCallerIdentity as Mock).mockResolvedValueOnce({
+      kind: 'associate',
+      userId: 'u1',
+      email: 'a@x',
+      associateId: 1,
+      associateSlug: 'alice',
+    });
+    expect((await POST(makeReq({ draft: DRAFT, reference: REFERENCE }))).status).toBe(403);
+    vi.stubEnv('CODING_CHALLENGES_ENABLED', 'false');
+    expect((await POST(makeReq({ draft: DRAFT, reference: REFERENCE }))).status).toBe(503);
+    expect(publishChallenge).not.toHaveBeenCalled();
+  });
+
+  it('validates before touching the repos', async () => {
+    const res = await POST(makeReq({ draft: { ...DRAFT, starters: {} }, reference: REFERENCE }));
+    expect(res.status).toBe(422);
+    expect(await res.json()).toMatchObject({ path: 'starters.python' });
+    expect(publishChallenge).not.toHaveBeenCalled();
+  });
+
+  it('requires a reference solution', async () => {
+    const res = await POST(makeReq({ draft: DRAFT }));
+    expect(res.status).toBe(400);
+    expect(dryRunReference).not.toHaveBeenCalled();
+    expect(publishChallenge).not.toHaveBeenCalled();
+  });
+
+  it('refuses to commit unless the reference passes every case', async () => {
+    (dryRunReference as Mock).mockResolvedValueOnce(dryRun(1));
+    const res = await POST(makeReq({ draft: DRAFT, reference: REFERENCE }));
+    expect(res.status).toBe(422);
+    expect(await res.json()).toMatchObject({ error: 'reference_failed', result: { passed: 1, total: 2 } });
+
+    (dryRunReference as Mock).mockResolvedValueOnce(dryRun(2, false));
+    expect((await POST(makeReq({ draft: DRAFT, reference: REFERENCE }))).status).toBe(422);
+    expect(publishChallenge).not.toHaveBeenCalled();
+  });
+
+  it('publishes as the caller', async () => {
+    (publishChallenge as Mock).mockResolvedValue({ slug: 'echo-sum', synced: true });
+    const res = await POST(makeReq({ draft: DRAFT, reference: REFERENCE }));
+    expect(res.status).toBe(200);
+    expect(publishChallenge).toHaveBeenCalledWith(
+      expect.objectContaining({ readme: '# Echo Sum' }),
+      expect.objectContaining({ challenge: expect.anything() }),
+      'admin@x',
+    );
+  });
+
+  it('maps publish failures', async () => {
+    (publishChallenge as Mock).mockRejectedValueOnce(new PublishError('SLUG_EXISTS', 'exists'));
+    expect((await POST(makeReq({ draft: DRAFT, reference: REFERENCE }))).status).toBe(409);
+    (publishChallenge as Mock).mockRejectedValueOnce(new PublishError('NOT_CONFIGURED', 'unset'));
+    expect((await POST(makeReq({ draft: DRAFT, reference: REFERENCE }))).status).toBe(503);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    (publishChallenge as Mock).mockRejectedValueOnce(new Error('GitHub PATCH failed: 422'));
+    const res = await POST(makeReq({ draft: DRAFT, reference: REFERENCE }));
+    expect(res.status).toBe(502);
+    expect(await res.json()).toMatchObject({ error: 'upstream_unavailable' });
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * POST /api/coding/bank/author/publish
+ *
+ * Trainer-only. Commits a validated draft to the challenge bank in one step:
+ * hidden-tests.json to the private repo, then the challenge files and its
+ * manifest entry to the public repo, then a targeted cache flush + DB sync
+ * so the challenge is live without a manual refresh.
+ *
+ * The reference solution is dry-run again here, against this exact draft,
+ * and nothing is committed unless every case passes — the wizard's own
+ * dry-run gate is only a client-side convenience.
+ *
+ * Body: { draft: ChallengeDraft, reference: { language, code | files } }
+ *
+ * Response (200): PublishResult { slug, privateCommit, publicCommit, synced, syncError? }
+ * 400 invalid_body / invalid_reference · 422 invalid_challenge
+ * 422 reference_failed — carries the DryRunResult as `result`
+ * 429 rate_limited (the dry run shares the trainer's `coding-run` budget)
+ * 502 execution_unavailable
+ * 409 slug_exists — the wizard only adds challenges
+ * 503 not_configured — repos/tokens unset; use /export instead
+ * 502 upstream_unavailable — GitHub rejected a read or commit
+ */
+
+import 'server-only';
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { ChallengeValidationError } from '@/lib/coding-bank-schemas';
+import {
+  ChallengeDraftSchema,
+  PublishError,
+  ReferenceSolutionSchema,
+  publishChallenge,
+  validateDraft,
+  type ValidatedDraft,
+} from '@/lib/challengeAuthoring';
+import { authorizeAuthor, invalidChallengeResponse, parseBody, runReference } from '../_authoring';
+
+const BodySchema = z
+  .object({ draft: ChallengeDraftSchema, reference: ReferenceSolutionSchema })
+  .strict();
+
+export async function POST(req: Request): Promise<NextResponse> {
+  const caller = await authorizeAuthor();
+  if (caller instanceof NextResponse) return caller;
+
+  const body = await parseBody(req, BodySchema);
+  if (body instanceof NextResponse) return body;
+
+  let validated: ValidatedDraft;
+  try {
+    validated = validateDraft(body.draft);
+  } catch (err) {
+    if (err instanceof ChallengeValidationError) return invalidChallengeResponse(err);
+    throw err;
+  }
+
+  const dryRun = await runReference(caller, validated, body.reference, '[coding/bank/author/publish]');
+  if (dryRun instanceof NextResponse) return dryRun;
+  if (!dryRun.resolved || dryRun.passed !== dryRun.total) {
+    return NextResponse.json(
+      {
+        error: 'reference_failed',
+        message: dryRun.resolved
+          ? `The reference solution passed ${dryRun.passed}/${dryRun.total} tests`
+          : 'The reference dry run did not finish in time',
+        result: dryRun,
+      },
+      { status: 422 },
+    );
+  }
+
+  try {
+    return NextResponse.json(await publishChallenge(body.draft, validated, caller.email));
+  } catch (err) {
+    if (err instanceof PublishError) {
+      return err.code === 'SLUG_EXISTS'
+        ? NextResponse.json({ error: 'slug_exists', message: err.message }, { status: 409 })
+        : NextResponse.json({ error: 'not_configured', message: err.message }, { status: 503 });
+    }
+    console.error('[coding/bank/author/publish] publish failed:', err);
+    return NextResponse.json(
+      {
+        error: 'upstream_unavailable',
+        message: err instanceof Error ? err.message.split('\n')[0].slice(0, 500) : 'Publish failed',
+      },
+      { status: 502 },
+    );
+  }
+}
@@ -0,0 +1,51 @@
+/**
+ * POST /api/coding/bank/author/validate
+ *
+ * Trainer-only. Runs a wizard draft through the bank validator
+ * (validateChallenge + README / setup.sql checks) without touching GitHub.
+ *
+ * Body: { draft: ChallengeDraft }
+ *
+ * Response (200):
+ *   { slug, files: { public: string[], private: string[] }, publishConfigured }
+ *   — the repo paths publish / export would write.
+ * 422 { error: 'invalid_challenge', message, path } when validation fails.
+ */
+
+import 'server-only';
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { ChallengeValidationError } from '@/lib/coding-bank-schemas';
+import {
+  ChallengeDraftSchema,
+  draftFiles,
+  isPublishConfigured,
+  validateDraft,
+} from '@/lib/challengeAuthoring';
+import { authorizeAuthor, invalidChallengeResponse, parseBody } from '../_authoring';
+
+const BodySchema = z.object({ draft: ChallengeDraftSchema }).strict();
+
+export async function POST(req: Request): Promise<NextResponse> {
+  const caller = await authorizeAuthor();
+  if (caller instanceof NextResponse) return caller;
+
+  const body = await parseBody(req, BodySchema);
+  if (body instanceof NextResponse) return body;
+
+  try {
+    const validated = validateDraft(body.draft);
+    const files = draftFiles(body.draft, validated);
+    return NextResponse.json({
+      slug: validated.challenge.meta.slug,
+      files: {
+        public: files.public.map((f) => f.path),
+        private: files.private.map((f) => f.path),
+      },
+      publishConfigured: isPublishConfigured(),
+    });
+  } catch (err) {
+    if (err instanceof ChallengeValidationError) return invalidChallengeResponse(err);
+    throw err;
+  }
+}
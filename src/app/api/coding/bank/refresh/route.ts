@@ -26,6 +26,7 @@ import 'server-only';
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { getCallerIdentity } from '@/lib/identity';
+import { can } from '@/lib/authorization';
 import {
   listChallenges,
   syncChallengeToDb,
@@ -61,7 +62,7 @@ export async function POST(req: NextRequest): Promise<NextResponse> {
     return codingDisabledResponse();
   }
 
-  // 1. Auth gate — trainer or admin only.
+  // 1. Auth gate — anyone who may edit content (trainer, author, admin).
   const identity = await getCallerIdentity();
   if (identity.kind === 'anonymous') {
     return NextResponse.json(
@@ -69,9 +70,9 @@ export async function POST(req: NextRequest): Promise<NextResponse> {
       { status: 401 },
     );
   }
-  if (identity.kind !== 'trainer' && identity.kind !== 'admin') {
+  if (!can(identity, 'content:write')) {
     return NextResponse.json(
-      { error: 'forbidden', message: 'Trainer role required' },
+      { error: 'forbidden', message: 'Content author permission required' },
       { status: 403 },
     );
   }
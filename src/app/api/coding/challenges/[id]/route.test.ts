@@ -0,0 +1,118 @@
+/**
+ * Tests for GET /api/coding/challenges/[id] — the SQL additions: dialect and
+ * an ER outline derived from setup.sql, without ever returning setup.sql —
+ * and challenges held back until their assessment closes.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi, type Mock } from 'vitest';
+
+vi.mock('@/lib/identity', () => ({
+  getCallerIdentity: vi.fn(),
+}));
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    codingChallenge: { findUnique: vi.fn() },
+    associate: { findUnique: vi.fn() },
+    codingTestCase: { findMany: vi.fn() },
+  },
+}));
+vi.mock('@/lib/coding-challenge-service', () => ({
+  loadChallenge: vi.fn(),
+}));
+vi.mock('@/lib/codingAssessmentService', () => ({
+  isHeldForAssessment: vi.fn(async () => false),
+}));
+
+import { GET } from './route';
+import { getCallerIdentity } from '@/lib/identity';
+import { prisma } from '@/lib/prisma';
+import { loadChallenge } from '@/lib/coding-challenge-service';
+import { isHeldForAssessment } from '@/lib/codingAssessmentService';
+
+const SETUP_SQL =
+  'CREATE TABLE customers (id SERIAL PRIMARY KEY, name TEXT NOT NULL);\n' +
+  'CREATE TABLE orders (id SERIAL PRIMARY KEY, customer_id INT REFERENCES customers(id));\n' +
+  "INSERT INTO customers (name) VALUES ('SEED_SENTINEL');";
+
+function row(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'c1',
+    slug: 'top-customers',
+    title: 'Top Customers',
+    description: '# Top Customers',
+    difficulty: 'medium',
+    skillSlug: 'sql-windows',
+    language: 'sql',
+    cohortId: null,
+    starterFiles: null,
+    sqlDialect: 'postgres',
+    ...overrides,
+  };
+}
+
+function call(id = 'c1') {
+  return GET(new Request(`http://test/api/coding/challenges/${id}`), { params: Promise.resolve({ id }) });
+}
+
+describe('GET /api/coding/challenges/[id]', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubEnv('CODING_CHALLENGES_ENABLED', 'true');
+    (getCallerIdentity as Mock).mockResolvedValue({ kind: 'trainer', userId: 't1', email: 't@x' });
+    (prisma.codingChallenge.findUnique as Mock).mockResolvedValue(row());
+    (prisma.codingTestCase.findMany as Mock).mockResolvedValue([]);
+    (loadChallenge as Mock).mockResolvedValue({
+      readme: '# Top Customers',
+      starters: { sql: '-- query' },
+      starterFiles: {},
+      meta: { languages: ['sql'] },
+      setupSql: SETUP_SQL,
+    });
+  });
+  afterEach(() => vi.unstubAllEnvs());
+
+  it('returns the dialect and schema outline but never setup.sql', async () => {
+    const res = await call();
+    expect(res.status).toBe(200);
+    const text = await res.text();
+    const body = JSON.parse(text);
+    expect(body.sqlDialect).toBe('postgres');
+    expect(body.schema.tables.map((t: { name: string }) => t.name)).toEqual(['customers', 'orders']);
+    expect(body.schema.relationships).toEqual([
+      { fromTable: 'orders', fromColumn: 'customer_id', toTable: 'customers', toColumn: 'id' },
+    ]);
+    expect(body).not.toHaveProperty('setupSql');
+    expect(text).not.toContain('SEED_SENTINEL');
+    expect(text).not.toContain('CREATE TABLE');
+  });
+
+  it('returns 404 to an associate before the assessment holding the challenge opens', async () => {
+    (getCallerIdentity as Mock).mockResolvedValue({
+      kind: 'associate', userId: 'u', email: 'a@x', associateId: 42, associateSlug: 'alice',
+    });
+    (isHeldForAssessment as Mock).mockResolvedValueOnce(true);
+
+    const res = await call();
+    expect(res.status).toBe(404);
+    expect(isHeldForAssessment).toHaveBeenCalledWith({ associateId: 42, challengeId: 'c1' });
+    expect(loadChallenge).not.toHaveBeenCalled();
+
+    // Trainers preview it as usual.
+    (getCallerIdentity as Mock).mockResolvedValue({ kind: 'trainer', userId: 't1', email: 't@x' });
+    expect((await call()).status).toBe(200);
+  });
+
+  it('reads a legacy row as sqlite and leaves non-SQL challenges without either field', async () => {
+    (prisma.codingChallenge.findUnique as Mock).mockResolvedValue(row({ sqlDialect: null }));
+    expect(await (await call()).json()).toMatchObject({ sqlDialect: 'sqlite' });
+
+    (prisma.codingChallenge.findUnique as Mock).mockResolvedValue(row({ language: 'python', sqlDialect: null }));
+    (loadChallenge as Mock).mockResolvedValue({
+      readme: '# Two Sum',
+      starters: { python: 'pass' },
+      starterFiles: {},
+      meta: { languages: ['python'] },
+    });
+    expect(await (await call()).json()).toMatchObject({ sqlDialect: null, schema: null });
+  });
+});
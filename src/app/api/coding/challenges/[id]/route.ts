@@ -6,9 +6,18 @@
  *
  * Auth:
  *   - anonymous → 401
- *   - associate → must be in matching cohort OR challenge is global (cohortId=null)
+ *   - associate → must be in matching cohort OR challenge is global (cohortId=null);
+ *     a challenge held for an assessment that has not closed is 404 unless
+ *     the associate is in a live sitting of it
  *   - trainer / admin → full access
  *
+ * Multi-file challenges also return `starterFiles` (path, content, readOnly)
+ * per language; the editor shows them as a file tree.
+ *
+ * SQL challenges also return `sqlDialect` and `schema` — a table and
+ * foreign-key outline derived from setup.sql (sqlSchemaPreview.ts). The
+ * setup.sql text itself, with its seed rows, is never returned.
+ *
  * Hidden tests are NEVER returned — loaded separately by /submit for Judge0.
  *
  * `id` accepts EITHER the CUID primary key OR the slug; we try both so the
@@ -22,8 +31,13 @@ import { getCallerIdentity } from '@/lib/identity';
 import { prisma } from '@/lib/prisma';
 import { loadChallenge } from '@/lib/coding-challenge-service';
 import { codingApiError } from '@/lib/codingApiErrors';
+import { isHeldForAssessment } from '@/lib/codingAssessmentService';
 import { isCodingEnabled } from '@/lib/codingFeatureFlag';
 import { codingDisabledResponse } from '@/app/api/coding/_disabledResponse';
+import { readStarterFiles } from '@/lib/projectFiles';
+import type { SqlDialect, StarterFile } from '@/lib/coding-bank-schemas';
+import { readSqlDialect } from '@/lib/sqlSource';
+import { describeSchema, type SchemaPreview } from '@/lib/sqlSchemaPreview';
 
 // IN-03: reject degenerate inputs (empty, oversized) before hitting Prisma.
 const IdSchema = z.string().min(1).max(64);
@@ -72,6 +86,12 @@ export async function GET(
       );
     }
   }
+  if (
+    caller.kind === 'associate' &&
+    (await isHeldForAssessment({ associateId: caller.associateId, challengeId: challenge.id }))
+  ) {
+    return codingApiError('NOT_FOUND', 'Challenge not found');
+  }
 
   // Load full content from coding-challenge-service (GitHub-backed). For
   // locally-seeded demo challenges (no GitHub repo), fall back to DB-stored
@@ -79,7 +99,9 @@ export async function GET(
   let full: {
     readme: string;
     starters: Record<string, string>;
+    starterFiles: Partial<Record<string, StarterFile[]>>;
     meta: { languages: string[] };
+    setupSql?: string;
   };
   try {
     full = await loadChallenge(challenge.slug);
@@ -99,9 +121,14 @@ export async function GET(
       sql: "-- Write your query. Wrap the answer between sentinel markers:\nSELECT '---BEGIN-ANSWER---';\n-- your SELECT here\nSELECT '---END-ANSWER---';\n",
       csharp: 'using System;\n\nclass Program {\n  static void Main() {\n    // Your code here\n  }\n}\n',
     };
+    // Multi-file layout was synced for the graded language only.
+    const storedFiles = readStarterFiles(challenge.starterFiles);
     full = {
       readme: challenge.description,
-      starters: { [challenge.language]: starterByLang[challenge.language] ?? '' },
+      starters: {
+        [challenge.language]: storedFiles?.[0]?.content ?? starterByLang[challenge.language] ?? '',
+      },
+      starterFiles: storedFiles ? { [challenge.language]: storedFiles } : {},
       meta: { languages: [challenge.language] },
     };
   }
@@ -113,6 +140,19 @@ export async function GET(
     select: { id: true, stdin: true, expectedStdout: true },
   });
 
+  let sqlDialect: SqlDialect | null = null;
+  let schema: SchemaPreview | null = null;
+  if (full.meta.languages.includes('sql')) {
+    try {
+      sqlDialect = readSqlDialect(challenge.sqlDialect);
+    } catch (err) {
+      console.error('[coding/challenges/[id]] invalid stored sqlDialect for', challenge.slug, err);
+      return codingApiError('INTERNAL', 'Challenge configuration is invalid');
+    }
+    // Structure only — the seed rows in setup.sql stay server-side.
+    schema = full.setupSql ? describeSchema(full.setupSql) : null;
+  }
+
   const body = {
     id: challenge.id,
     slug: challenge.slug,
@@ -123,6 +163,11 @@ export async function GET(
     language: challenge.language,
     languages: full.meta.languages,
     starters: full.starters,
+    /** Per-language file layout for multi-file challenges; {} otherwise */
+    starterFiles: full.starterFiles,
+    /** SQL challenges only; null otherwise */
+    sqlDialect,
+    schema,
     visibleTests: visibleCases.map((c) => ({
       caseId: c.id,
       stdin: c.stdin,
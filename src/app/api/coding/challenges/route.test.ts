@@ -2,7 +2,8 @@
  * route.test.ts — GET /api/coding/challenges
  *
  * Phase 39 Plan 03 Task 2. Tests for auth, cohort+curriculum scope,
- * cursor pagination, filters, latest-attempt join.
+ * cursor pagination, filters, latest-attempt join, and challenges held back
+ * for an assessment.
  */
 
 import { describe, it, expect, beforeEach, afterEach, vi, type Mock } from 'vitest';
@@ -20,9 +21,14 @@ vi.mock('@/lib/prisma', () => ({
   },
 }));
 
+vi.mock('@/lib/codingAssessmentService', () => ({
+  heldAssessmentChallengeIds: vi.fn(),
+}));
+
 import { GET } from './route';
 import { getCallerIdentity } from '@/lib/identity';
 import { prisma } from '@/lib/prisma';
+import { heldAssessmentChallengeIds } from '@/lib/codingAssessmentService';
 
 function buildReq(query: Record<string, string> = {}): Request {
   const url = new URL('http://localhost/api/coding/challenges');
@@ -34,7 +40,7 @@ function buildReq(query: Record<string, string> = {}): Request {
 
 function mkChallenge(overrides: Partial<{
   id: string; slug: string; title: string; language: string; difficulty: string;
-  skillSlug: string; cohortId: number | null;
+  skillSlug: string; cohortId: number | null; sqlDialect: string | null;
 }> = {}) {
   return {
     id: overrides.id ?? 'c-' + Math.random().toString(36).slice(2, 8),
@@ -44,6 +50,7 @@ function mkChallenge(overrides: Partial<{
     difficulty: overrides.difficulty ?? 'easy',
     skillSlug: overrides.skillSlug ?? 'python-basics',
     cohortId: overrides.cohortId ?? null,
+    sqlDialect: overrides.sqlDialect ?? null,
   };
 }
 
@@ -52,6 +59,7 @@ describe('GET /api/coding/challenges', () => {
     vi.resetAllMocks();
     // Phase 50: flag-on for existing tests; flag-off behavior tested by submit route.
     vi.stubEnv('CODING_CHALLENGES_ENABLED', 'true');
+    (heldAssessmentChallengeIds as Mock).mockResolvedValue([]);
   });
   afterEach(() => {
     vi.unstubAllEnvs();
@@ -108,6 +116,21 @@ describe('GET /api/coding/challenges', () => {
     expect(body.items).toHaveLength(2);
   });
 
+  it('hides challenges held for a scheduled or open assessment from associates', async () => {
+    (getCallerIdentity as Mock).mockResolvedValue({
+      kind: 'associate', userId: 'u', email: 'a', associateId: 42, associateSlug: 's',
+    });
+    (prisma.associate.findUnique as Mock).mockResolvedValue({ cohortId: 5 });
+    (prisma.curriculumWeek.findMany as Mock).mockResolvedValue([]);
+    (prisma.codingChallenge.findMany as Mock).mockResolvedValue([]);
+    (heldAssessmentChallengeIds as Mock).mockResolvedValue(['c-exam']);
+
+    expect((await GET(buildReq())).status).toBe(200);
+    expect(heldAssessmentChallengeIds).toHaveBeenCalledWith({ associateId: 42 });
+    const call = (prisma.codingChallenge.findMany as Mock).mock.calls[0][0];
+    expect(call.where.id).toEqual({ notIn: ['c-exam'] });
+  });
+
   it('Test 4: associate with cohort curriculum → skillSlug narrowing', async () => {
     (getCallerIdentity as Mock).mockResolvedValue({
       kind: 'associate', userId: 'u', email: 'a', associateId: 42, associateSlug: 's',
@@ -327,7 +350,8 @@ describe('GET /api/coding/challenges', () => {
     const res = await GET(buildReq() as any);
     const body = await res.json();
     const expectedKeys = [
-      'id', 'slug', 'title', 'language', 'difficulty', 'skillSlug', 'cohortId', 'latestAttempt',
+      'id', 'slug', 'title', 'language', 'difficulty', 'skillSlug', 'cohortId', 'sqlDialect',
+      'latestAttempt',
     ];
     expect(Object.keys(body.items[0]).sort()).toEqual(expectedKeys.sort());
     expect(body.items[0]).not.toHaveProperty('description');
@@ -337,7 +361,7 @@ describe('GET /api/coding/challenges', () => {
     const call = (prisma.codingChallenge.findMany as Mock).mock.calls[0][0];
     expect(call.select).toEqual({
       id: true, slug: true, title: true, language: true,
-      difficulty: true, skillSlug: true, cohortId: true,
+      difficulty: true, skillSlug: true, cohortId: true, sqlDialect: true,
     });
   });
 
@@ -9,6 +9,8 @@
  *   - Associate without cohort → challenges where cohortId IS NULL
  *   - Associate with cohort → cohortId IS NULL OR caller's cohortId
  *     AND, if cohort has curriculum weeks, skillSlug IN taught slugs
+ *   - Associates never see challenges held for one of their cohort's
+ *     assessments until it closes
  *
  * Response items exclude description + test cases. Latest-attempt join
  * returns {verdict, submittedAt} per associate.
@@ -19,6 +21,7 @@ import { z } from 'zod';
 import { getCallerIdentity } from '@/lib/identity';
 import { prisma } from '@/lib/prisma';
 import { codingApiError } from '@/lib/codingApiErrors';
+import { heldAssessmentChallengeIds } from '@/lib/codingAssessmentService';
 import { isCodingEnabled } from '@/lib/codingFeatureFlag';
 import { codingDisabledResponse } from '@/app/api/coding/_disabledResponse';
 
@@ -41,10 +44,13 @@ interface ListItem {
   difficulty: string;
   skillSlug: string;
   cohortId: number | null;
+  /** SQL challenges: 'sqlite' | 'postgres'; null for other languages or legacy rows (sqlite) */
+  sqlDialect: string | null;
   latestAttempt: { verdict: string; submittedAt: string } | null;
 }
 
 type WhereClause = {
+  id?: { notIn: string[] };
   language?: string;
   difficulty?: string;
   cohortId?: number | null;
@@ -113,6 +119,9 @@ export async function GET(request: Request): Promise<NextResponse> {
       }
       // else: no curriculum at all — skip skillSlug narrowing (D-14)
     }
+
+    const held = await heldAssessmentChallengeIds({ associateId: caller.associateId });
+    if (held.length > 0) where.id = { notIn: held };
   }
   // trainer / admin: no extra scope
 
@@ -134,6 +143,7 @@ export async function GET(request: Request): Promise<NextResponse> {
       difficulty: true,
       skillSlug: true,
       cohortId: true,
+      sqlDialect: true,
     },
   });
 
@@ -0,0 +1,270 @@
+/**
+ * route.test.ts — POST /api/coding/run
+ *
+ * Scratch runs: visible tests or custom stdin, own rate-limit scope, and no
+ * persistence. prisma, identity, judge0Client and rateLimitService are mocked.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi, type Mock } from 'vitest';
+
+vi.mock('@/lib/identity', () => ({
+  getCallerIdentity: vi.fn(),
+}));
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    codingChallenge: { findUnique: vi.fn() },
+    associate: { findUnique: vi.fn() },
+    codingTestCase: { findMany: vi.fn() },
+    codingAttempt: { create: vi.fn(), update: vi.fn() },
+    codingSkillSignal: { create: vi.fn() },
+  },
+}));
+
+vi.mock('@/lib/judge0Client', async () => {
+  const actual = await vi.importActual<typeof import('@/lib/judge0Client')>('@/lib/judge0Client');
+  return {
+    ...actual,
+    submit: vi.fn(),
+    getSubmission: vi.fn(),
+  };
+});
+
+vi.mock('@/lib/coding-challenge-service', () => ({
+  getSetupSql: vi.fn(),
+}));
+
+vi.mock('@/lib/codingAssessmentService', () => ({
+  isHeldForAssessment: vi.fn(async () => false),
+}));
+
+vi.mock('@/lib/rateLimitService', () => ({
+  consumeCodingRunRateLimit: vi.fn(),
+  refundCodingRunCount: vi.fn(),
+  consumeCodingSubmitRateLimit: vi.fn(),
+  refundCodingSubmitCount: vi.fn(),
+}));
+
+import { POST } from './route';
+import { getCallerIdentity } from '@/lib/identity';
+import { prisma } from '@/lib/prisma';
+import * as judge0Client from '@/lib/judge0Client';
+import { isHeldForAssessment } from '@/lib/codingAssessmentService';
+import {
+  consumeCodingRunRateLimit,
+  consumeCodingSubmitRateLimit,
+  refundCodingRunCount,
+} from '@/lib/rateLimitService';
+
+const ASSOCIATE = {
+  kind: 'associate' as const,
+  userId: 'u-1',
+  email: 'a@x.com',
+  associateId: 42,
+  associateSlug: 'alice',
+};
+
+function buildRequest(body: unknown): Request {
+  return new Request('http://localhost/api/coding/run', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+}
+
+function finished(token: string, stdout: string, statusId = 3) {
+  return {
+    token,
+    stdout,
+    stderr: null,
+    compile_output: null,
+    message: null,
+    status: { id: statusId, description: '' },
+    time: '0.012',
+    memory: 3200,
+    exit_code: 0,
+  };
+}
+
+function setup() {
+  (getCallerIdentity as Mock).mockResolvedValue(ASSOCIATE);
+  (prisma.codingChallenge.findUnique as Mock).mockResolvedValue({
+    id: 'ch-1',
+    slug: 'two-sum',
+    cohortId: null,
+    language: 'python',
+  });
+  (prisma.codingTestCase.findMany as Mock).mockResolvedValue([
+    { id: 'tc-v-1', stdin: '1 2', expectedStdout: '3' },
+    { id: 'tc-v-2', stdin: '2 2', expectedStdout: '4' },
+  ]);
+  (consumeCodingRunRateLimit as Mock).mockReturnValue({
+    allowed: true,
+    hourlyRemaining: 119,
+    dailyRemaining: 599,
+  });
+  let n = 0;
+  (judge0Client.submit as Mock).mockImplementation(async () => ({ token: `tok-${n++}` }));
+  (judge0Client.getSubmission as Mock).mockImplementation(async (token: string) =>
+    token === 'tok-0' ? finished(token, '3\n') : finished(token, '5\n', 4),
+  );
+}
+
+describe('POST /api/coding/run', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubEnv('CODING_CHALLENGES_ENABLED', 'true');
+    setup();
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('returns 401 for anonymous callers', async () => {
+    (getCallerIdentity as Mock).mockResolvedValue({ kind: 'anonymous' });
+    const res = await POST(buildRequest({ challengeId: 'ch-1', language: 'python', code: 'x' }));
+    expect(res.status).toBe(401);
+  });
+
+  it('runs the visible tests and returns per-case output without persisting anything', async () => {
+    const res = await POST(buildRequest({ challengeId: 'ch-1', language: 'python', code: 'print(3)' }));
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    expect(body.resolved).toBe(true);
+    expect(body.results).toHaveLength(2);
+    expect(body.results[0]).toMatchObject({
+      caseId: 'tc-v-1',
+      passed: true,
+      stdout: '3\n',
+      timeMs: 12,
+      memoryKb: 3200,
+    });
+    expect(body.results[1]).toMatchObject({ caseId: 'tc-v-2', verdict: 'fail', passed: false });
+
+    // Visible tests only — never the hidden ones.
+    expect((prisma.codingTestCase.findMany as Mock).mock.calls[0][0].where).toEqual({
+      challengeId: 'ch-1',
+      isHidden: false,
+    });
+    expect(prisma.codingAttempt.create).not.toHaveBeenCalled();
+    expect(prisma.codingSkillSignal.create).not.toHaveBeenCalled();
+    expect(consumeCodingRunRateLimit).toHaveBeenCalledWith('associate:42');
+    expect(refundCodingRunCount).not.toHaveBeenCalled();
+    expect(consumeCodingSubmitRateLimit).not.toHaveBeenCalled();
+  });
+
+  it('runs once against custom stdin with nothing to compare', async () => {
+    const res = await POST(
+      buildRequest({ challengeId: 'ch-1', language: 'python', code: 'print(input())', stdin: 'hello' }),
+    );
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    expect(body.results).toHaveLength(1);
+    expect(body.results[0]).toMatchObject({ caseId: null, stdin: 'hello', passed: null });
+    expect(prisma.codingTestCase.findMany).not.toHaveBeenCalled();
+    expect((judge0Client.submit as Mock).mock.calls[0][0]).toMatchObject({
+      stdin: 'hello',
+      expectedStdout: undefined,
+    });
+  });
+
+  it('returns 429 with Retry-After when the run budget is spent', async () => {
+    (consumeCodingRunRateLimit as Mock).mockReturnValue({
+      allowed: false,
+      hourlyRemaining: 0,
+      dailyRemaining: 10,
+      retryAfterSeconds: 120,
+      error: 'Hourly run limit reached. Try again later.',
+    });
+    const res = await POST(buildRequest({ challengeId: 'ch-1', language: 'python', code: 'x' }));
+    expect(res.status).toBe(429);
+    expect(res.headers.get('Retry-After')).toBe('120');
+    expect(judge0Client.submit).not.toHaveBeenCalled();
+  });
+
+  it('blocks associates outside the challenge cohort', async () => {
+    (prisma.codingChallenge.findUnique as Mock).mockResolvedValue({
+      id: 'ch-1',
+      slug: 'two-sum',
+      cohortId: 9,
+      language: 'python',
+    });
+    (prisma.associate.findUnique as Mock).mockResolvedValue({ cohortId: 3 });
+    const res = await POST(buildRequest({ challengeId: 'ch-1', language: 'python', code: 'x' }));
+    expect(res.status).toBe(403);
+  });
+
+  it('returns 404 for a challenge held by an assessment that has not opened', async () => {
+    (isHeldForAssessment as Mock).mockResolvedValueOnce(true);
+    const res = await POST(buildRequest({ challengeId: 'ch-1', language: 'python', code: 'x' }));
+    expect(res.status).toBe(404);
+    expect(isHeldForAssessment).toHaveBeenCalledWith({ associateId: 42, challengeId: 'ch-1' });
+    expect(consumeCodingRunRateLimit).not.toHaveBeenCalled();
+    expect(judge0Client.submit).not.toHaveBeenCalled();
+  });
+
+  it('maps Judge0 submit failure to 503 and gives the run back', async () => {
+    (judge0Client.submit as Mock).mockRejectedValue(new Error('down'));
+    const res = await POST(buildRequest({ challengeId: 'ch-1', language: 'python', code: 'x' }));
+    expect(res.status).toBe(503);
+    expect(refundCodingRunCount).toHaveBeenCalledWith('associate:42');
+  });
+
+  it('function challenge: wraps the code, withholds expected output and compares the return value', async () => {
+    (prisma.codingChallenge.findUnique as Mock).mockResolvedValue({
+      id: 'ch-2',
+      slug: 'pair-sum',
+      cohortId: null,
+      language: 'python',
+      entryPoint: {
+        name: 'pairSum',
+        params: [{ name: 'nums', type: 'int[]' }],
+        returns: 'int[]',
+        compare: { unorderedCollections: true },
+      },
+    });
+    (prisma.codingTestCase.findMany as Mock).mockResolvedValue([
+      { id: 'tc-v-1', stdin: '[[1,2]]', expectedStdout: '[2,1]' },
+      { id: 'tc-v-2', stdin: '[[3]]', expectedStdout: '[4]' },
+    ]);
+    (judge0Client.getSubmission as Mock).mockImplementation(async (token: string) =>
+      finished(token, token === 'tok-0' ? 'dbg\n__NLM_RESULT__[1, 2]\n' : '__NLM_RESULT__[3]\n'),
+    );
+
+    const res = await POST(
+      buildRequest({ challengeId: 'ch-2', language: 'python', code: 'def pairSum(nums):\n    return nums' }),
+    );
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    expect(body.results.map((r: { passed: boolean }) => r.passed)).toEqual([true, false]);
+    expect(body.results[1].verdict).toBe('fail');
+
+    const sent = (judge0Client.submit as Mock).mock.calls[0][0];
+    expect(sent.sourceCode).toContain('_nlm_result = pairSum(*_nlm_args)');
+    expect(sent.stdin).toBe('[[1,2]]');
+    expect(sent.expectedStdout).toBeUndefined();
+  });
+
+  it('function challenge: rejects custom input that is not a JSON argument array', async () => {
+    (prisma.codingChallenge.findUnique as Mock).mockResolvedValue({
+      id: 'ch-2',
+      slug: 'pair-sum',
+      cohortId: null,
+      language: 'python',
+      entryPoint: { name: 'pairSum', params: [{ name: 'nums', type: 'int[]' }], returns: 'int[]' },
+    });
+    const res = await POST(
+      buildRequest({ challengeId: 'ch-2', language: 'python', code: 'x', stdin: '1 2 3' }),
+    );
+    expect(res.status).toBe(400);
+    expect(judge0Client.submit).not.toHaveBeenCalled();
+  });
+
+  it('returns 503 coming-soon when the coding flag is off', async () => {
+    vi.stubEnv('CODING_CHALLENGES_ENABLED', 'false');
+    const res = await POST(buildRequest({ challengeId: 'ch-1', language: 'python', code: 'x' }));
+    expect(res.status).toBe(503);
+    expect((await res.json()).enabled).toBe(false);
+  });
+});
@@ -0,0 +1,265 @@
+/**
+ * POST /api/coding/run — scratch "Run" for the solve workspace.
+ *
+ * Executes the caller's code against the challenge's VISIBLE tests, or a
+ * single custom stdin, and returns stdout/stderr/time/memory per case.
+ * Ungraded: never creates a CodingAttempt, never writes a CodingSkillSignal,
+ * never touches hidden tests. Rate-limited under its own `coding-run` scope so
+ * iterating does not spend the submit budget.
+ *
+ * Flow:
+ *   1. Feature flag → identity (401) → Zod body
+ *   2. Load challenge (404) + cohort authz for associates (403); challenges
+ *      held for an unclosed assessment are 404 outside the associate's sitting
+ *   3. Language allowlist + challenge-level match
+ *   4. Run rate limit gate: consume one run or 429 + Retry-After
+ *   5. Build cases: custom stdin, else visible tests from DB (function
+ *      challenges: stdin is the JSON argument array, compared server-side)
+ *   6. runScratch (async submit + bounded inline poll); refund the run if
+ *      it never reached Judge0
+ *   7. Return { resolved, results }
+ *
+ * Trainers may run too (previewing a challenge) — nothing is persisted, so
+ * the associate-only restriction on submit does not apply.
+ */
+
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getCallerIdentity } from '@/lib/identity';
+import { prisma } from '@/lib/prisma';
+import { isCodingEnabled } from '@/lib/codingFeatureFlag';
+import { codingDisabledResponse } from '@/app/api/coding/_disabledResponse';
+import type { Judge0Language } from '@/lib/judge0Client';
+import { getExecutionBackend } from '@/lib/executionBackend';
+import { getSetupSql } from '@/lib/coding-challenge-service';
+import {
+  consumeCodingRunRateLimit,
+  refundCodingRunCount,
+} from '@/lib/rateLimitService';
+import { codingApiError } from '@/lib/codingApiErrors';
+import { isHeldForAssessment } from '@/lib/codingAssessmentService';
+import { runScratch, type RunCase } from '@/lib/codingRun';
+import type { EntryPoint, SqlDialect } from '@/lib/coding-bank-schemas';
+import {
+  ProjectFilesError,
+  SubmittedFilesSchema,
+  prepareSource,
+  readStarterFiles,
+  type PreparedSource,
+} from '@/lib/projectFiles';
+import {
+  buildFunctionSource,
+  functionOutputMatches,
+  readEntryPoint,
+} from '@/lib/functionHarness';
+import { buildScratchSqlSource, readSqlDialect } from '@/lib/sqlSource';
+
+const RunBodySchema = z
+  .object({
+    challengeId: z.string().min(1),
+    language: z.string().min(1),
+    code: z.string().min(1).max(100_000).optional(),
+    /** Multi-file challenges send their files instead of `code` */
+    files: SubmittedFilesSchema.optional(),
+    /** Present → run once against this input instead of the visible tests */
+    stdin: z.string().max(10_000).optional(),
+  })
+  .refine((b) => (b.code === undefined) !== (b.files === undefined), {
+    message: 'Provide either code or files',
+  });
+
+function isArgumentArray(stdin: string, entryPoint: EntryPoint): boolean {
+  try {
+    const args: unknown = JSON.parse(stdin);
+    return Array.isArray(args) && args.length === entryPoint.params.length;
+  } catch {
+    return false;
+  }
+}
+
+export async function POST(request: Request): Promise<NextResponse> {
+  if (!isCodingEnabled()) {
+    return codingDisabledResponse();
+  }
+
+  // 1. Identity + body
+  const caller = await getCallerIdentity();
+  if (caller.kind === 'anonymous') {
+    return codingApiError('AUTH_REQUIRED', 'Sign-in required');
+  }
+
+  let body: z.infer<typeof RunBodySchema>;
+  try {
+    const raw = await request.json();
+    const result = RunBodySchema.safeParse(raw);
+    if (!result.success) {
+      return codingApiError('VALIDATION_ERROR', 'Invalid request body', result.error.issues);
+    }
+    body = result.data;
+  } catch {
+    return codingApiError('VALIDATION_ERROR', 'Invalid JSON body');
+  }
+
+  // 2. Challenge + authz
+  const challenge = await prisma.codingChallenge.findUnique({
+    where: { id: body.challengeId },
+    select: {
+      id: true,
+      slug: true,
+      cohortId: true,
+      language: true,
+      entryPoint: true,
+      starterFiles: true,
+      sqlDialect: true,
+    },
+  });
+  if (!challenge) {
+    return codingApiError('NOT_FOUND', 'Challenge not found');
+  }
+
+  if (caller.kind === 'associate' && challenge.cohortId !== null) {
+    const associate = await prisma.associate.findUnique({
+      where: { id: caller.associateId },
+      select: { cohortId: true },
+    });
+    if (associate?.cohortId !== challenge.cohortId) {
+      return codingApiError('FORBIDDEN', 'Challenge is not available for your cohort');
+    }
+  }
+  if (
+    caller.kind === 'associate' &&
+    (await isHeldForAssessment({ associateId: caller.associateId, challengeId: challenge.id }))
+  ) {
+    return codingApiError('NOT_FOUND', 'Challenge not found');
+  }
+
+  // 3. Language
+  if (!getExecutionBackend().languages.includes(body.language as Judge0Language)) {
+    return codingApiError(
+      'LANGUAGE_NOT_SUPPORTED',
+      `Language '${body.language}' is not in the allowlist`,
+    );
+  }
+  if (challenge.language !== body.language) {
+    return codingApiError(
+      'LANGUAGE_NOT_SUPPORTED',
+      `Challenge does not support '${body.language}'`,
+    );
+  }
+  const language = body.language as Judge0Language;
+
+  let entryPoint: EntryPoint | null;
+  try {
+    entryPoint = readEntryPoint(challenge.entryPoint);
+  } catch (err) {
+    console.error('[coding/run] invalid stored entryPoint for', challenge.slug, err);
+    return codingApiError('INTERNAL', 'Challenge configuration is invalid');
+  }
+  let sqlDialect: SqlDialect;
+  try {
+    sqlDialect = readSqlDialect(challenge.sqlDialect);
+  } catch (err) {
+    console.error('[coding/run] invalid stored sqlDialect for', challenge.slug, err);
+    return codingApiError('INTERNAL', 'Challenge configuration is invalid');
+  }
+  let source: PreparedSource;
+  try {
+    source = prepareSource(language, readStarterFiles(challenge.starterFiles), body);
+  } catch (err) {
+    if (err instanceof ProjectFilesError) {
+      return codingApiError('VALIDATION_ERROR', err.message);
+    }
+    console.error('[coding/run] invalid stored starterFiles for', challenge.slug, err);
+    return codingApiError('INTERNAL', 'Challenge configuration is invalid');
+  }
+  if (entryPoint && body.stdin !== undefined && !isArgumentArray(body.stdin, entryPoint)) {
+    return codingApiError(
+      'VALIDATION_ERROR',
+      `Custom input must be a JSON array of ${entryPoint.params.length} argument(s)`,
+    );
+  }
+
+  // 4. Run rate limit (separate scope from submit). Consumed here so parallel
+  // runs cannot all pass the gate; every return below that never reaches
+  // Judge0 gives the run back.
+  const userKey =
+    caller.kind === 'associate' ? `associate:${caller.associateId}` : `trainer:${caller.userId}`;
+  const rl = await consumeCodingRunRateLimit(userKey);
+  if (!rl.allowed) {
+    return codingApiError(
+      'RATE_LIMITED',
+      rl.error ?? 'Run rate limit exceeded',
+      undefined,
+      rl.retryAfterSeconds !== undefined
+        ? { retryAfterSeconds: rl.retryAfterSeconds }
+        : undefined,
+    );
+  }
+  const refunded = async (res: NextResponse) => {
+    await refundCodingRunCount(userKey);
+    return res;
+  };
+
+  // 5. Cases — visible tests only; hidden tests are never loaded here.
+  let cases: RunCase[];
+  if (body.stdin !== undefined) {
+    cases = [{ caseId: null, stdin: body.stdin }];
+  } else {
+    const visible = await prisma.codingTestCase.findMany({
+      where: { challengeId: challenge.id, isHidden: false },
+      orderBy: { orderIndex: 'asc' },
+      select: { id: true, stdin: true, expectedStdout: true },
+    });
+    cases = visible.map((c) => ({
+      caseId: c.id,
+      stdin: c.stdin,
+      // SQL visible expectations are row sets checked by the normalizer on
+      // submit; a scratch run just shows the raw output.
+      expectedStdout: language === 'sql' ? undefined : c.expectedStdout,
+    }));
+  }
+  if (cases.length === 0) {
+    return refunded(codingApiError('VALIDATION_ERROR', 'Challenge has no visible tests — provide custom input'));
+  }
+
+  // SQL: same source layout as submit (setup + user query + case query), so a
+  // run behaves like the graded execution. setupSql stays server-side.
+  let setupSql = '';
+  if (language === 'sql') {
+    try {
+      setupSql = (await getSetupSql(challenge.slug)) ?? '';
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      if (!/GITHUB_CODING_PUBLIC_REPO not set|GITHUB_TOKEN not set/.test(msg)) {
+        console.error('[coding/run] getSetupSql failed for', challenge.slug, err);
+        return refunded(codingApiError('VALIDATION_ERROR', 'SQL challenge setup.sql unavailable'));
+      }
+      console.warn('[coding/run] GitHub not configured — using empty setup.sql for', challenge.slug);
+    }
+  }
+
+  // 6. Execute
+  let run;
+  try {
+    run = await runScratch(cases, {
+      language,
+      useStdin: language !== 'sql',
+      ...(language === 'sql' ? { sqlDialect } : {}),
+      buildSource: (tc) => {
+        if (language === 'sql') {
+          return buildScratchSqlSource(sqlDialect, { setupSql, userSql: source.code, testSql: tc.stdin });
+        }
+        return entryPoint ? buildFunctionSource(language, entryPoint, source.code) : source.sourceCode;
+      },
+      additionalFiles: source.additionalFiles,
+      compare: entryPoint
+        ? (stdout, expected) => functionOutputMatches(stdout, expected, entryPoint.compare)
+        : undefined,
+    });
+  } catch (err) {
+    console.error('[coding/run] Judge0 run failed:', err);
+    return refunded(codingApiError('JUDGE0_UNAVAILABLE', 'Code execution service unavailable'));
+  }
+
+  return NextResponse.json(run);
+}
@@ -40,19 +40,40 @@ vi.mock('@/lib/coding-challenge-service', () => ({
   loadHiddenTests: vi.fn(),
 }));
 
+vi.mock('@/lib/codingAssessmentService', async () => {
+  const actual = await vi.importActual<typeof import('@/lib/codingAssessmentService')>(
+    '@/lib/codingAssessmentService',
+  );
+  return {
+    ...actual,
+    authorizeAssessmentSubmit: vi.fn(),
+    assertNotHeldForAssessment: vi.fn(async () => undefined),
+    claimAssessmentAttempt: vi.fn(
+      async (_gate: unknown, insert: (seq: number) => Promise<unknown>) => insert(1),
+    ),
+  };
+});
+
 vi.mock('@/lib/rateLimitService', () => ({
-  checkCodingSubmitRateLimit: vi.fn(),
-  incrementCodingSubmitCount: vi.fn(),
+  consumeCodingSubmitRateLimit: vi.fn(),
+  refundCodingSubmitCount: vi.fn(),
 }));
 
 import { POST } from './route';
+import { MAX_STORED_TIMELINE_BYTES } from '@/lib/editTimeline';
 import { getCallerIdentity } from '@/lib/identity';
 import { prisma } from '@/lib/prisma';
 import * as judge0Client from '@/lib/judge0Client';
 import { loadHiddenTests } from '@/lib/coding-challenge-service';
 import {
-  checkCodingSubmitRateLimit,
-  incrementCodingSubmitCount,
+  AssessmentError,
+  assertNotHeldForAssessment,
+  authorizeAssessmentSubmit,
+  claimAssessmentAttempt,
+} from '@/lib/codingAssessmentService';
+import {
+  consumeCodingSubmitRateLimit,
+  refundCodingSubmitCount,
 } from '@/lib/rateLimitService';
 
 // Shared fixtures
@@ -108,7 +129,7 @@ function happyPathSetup(overrides: Partial<{
     },
   ]);
 
-  (checkCodingSubmitRateLimit as Mock).mockReturnValue({
+  (consumeCodingSubmitRateLimit as Mock).mockReturnValue({
     allowed: true,
     hourlyRemaining: 29,
     dailyRemaining: 199,
@@ -265,7 +286,7 @@ describe('POST /api/coding/submit', () => {
 
   it('Test 10: rate limit exceeded → 429 RATE_LIMITED with Retry-After', async () => {
     happyPathSetup();
-    (checkCodingSubmitRateLimit as Mock).mockReturnValue({
+    (consumeCodingSubmitRateLimit as Mock).mockReturnValue({
       allowed: false,
       hourlyRemaining: 0,
       dailyRemaining: 150,
@@ -364,7 +385,7 @@ describe('POST /api/coding/submit', () => {
       // 429
       async () => {
         happyPathSetup();
-        (checkCodingSubmitRateLimit as Mock).mockReturnValue({
+        (consumeCodingSubmitRateLimit as Mock).mockReturnValue({
           allowed: false, hourlyRemaining: 0, dailyRemaining: 0, retryAfterSeconds: 1, error: 'e',
         });
         return POST(buildRequest({ challengeId: 'ch-1', language: 'python', code: 'x' }) as any);
@@ -396,9 +417,10 @@ describe('POST /api/coding/submit', () => {
     expect(prisma.codingAttempt.delete).toHaveBeenCalledWith({
       where: { id: 'attempt-1' },
     });
+    expect(refundCodingSubmitCount).toHaveBeenCalledWith('associate:42');
   });
 
-  it('Test 16: incrementCodingSubmitCount called exactly once on successful submit', async () => {
+  it('Test 16: consumeCodingSubmitRateLimit called exactly once on successful submit, never refunded', async () => {
     happyPathSetup();
 
     await POST(buildRequest({
@@ -407,8 +429,9 @@ describe('POST /api/coding/submit', () => {
       code: 'print(1)',
     }) as any);
 
-    expect(incrementCodingSubmitCount).toHaveBeenCalledTimes(1);
-    expect(incrementCodingSubmitCount).toHaveBeenCalledWith('associate:42');
+    expect(consumeCodingSubmitRateLimit).toHaveBeenCalledTimes(1);
+    expect(consumeCodingSubmitRateLimit).toHaveBeenCalledWith('associate:42');
+    expect(refundCodingSubmitCount).not.toHaveBeenCalled();
   });
 
   it('Test 17: CodingAttempt.associateId equals caller.associateId (no cross-user write)', async () => {
@@ -446,8 +469,8 @@ describe('POST /api/coding/submit', () => {
       where: { id: 'attempt-1' },
     });
 
-    // Rate limit NOT incremented — caller will retry.
-    expect(incrementCodingSubmitCount).not.toHaveBeenCalled();
+    // The consumed submit is given back — caller will retry.
+    expect(refundCodingSubmitCount).toHaveBeenCalledWith('associate:42');
   });
 
   it('Test: oversized code payload rejected (WR-02 Phase 36 review — max 100_000)', async () => {
@@ -464,6 +487,260 @@ describe('POST /api/coding/submit', () => {
     expect(body.error.code).toBe('VALIDATION_ERROR');
   });
 
+  describe('multi-file challenges', () => {
+    const starterFiles = [
+      { path: 'main.py', content: 'from helpers import add\n', readOnly: false },
+      { path: 'helpers.py', content: 'def add(a, b):\n    return a + b\n', readOnly: true },
+    ];
+
+    it('packages the entry file as source and the rest as additional files', async () => {
+      happyPathSetup({
+        challenge: {
+          id: 'ch-1',
+          slug: 'two-sum',
+          cohortId: null,
+          language: 'python',
+          skillSlug: 'python-basics',
+          entryPoint: null,
+          starterFiles,
+        },
+      });
+
+      const res = await POST(buildRequest({
+        challengeId: 'ch-1',
+        language: 'python',
+        files: [
+          { path: 'main.py', content: 'from helpers import add\nprint(add(1, 2))\n' },
+          // Read-only edits are ignored — the bank copy is used.
+          { path: 'helpers.py', content: 'def add(a, b):\n    return 3\n' },
+        ],
+      }));
+      expect(res.status).toBe(201);
+
+      const call = (judge0Client.submit as Mock).mock.calls[0][0];
+      expect(call.sourceCode).toBe('from helpers import add\nprint(add(1, 2))\n');
+      expect(call.additionalFiles).toEqual([
+        { path: 'helpers.py', content: 'def add(a, b):\n    return a + b\n' },
+      ]);
+      const createCall = (prisma.codingAttempt.create as Mock).mock.calls[0][0];
+      expect(createCall.data.submittedCode).toContain('# ==== helpers.py ====');
+    });
+
+    it('rejects `code` for a multi-file challenge and unknown paths', async () => {
+      happyPathSetup({
+        challenge: {
+          id: 'ch-1',
+          slug: 'two-sum',
+          cohortId: null,
+          language: 'python',
+          skillSlug: 'python-basics',
+          entryPoint: null,
+          starterFiles,
+        },
+      });
+
+      const single = await POST(buildRequest({
+        challengeId: 'ch-1',
+        language: 'python',
+        code: 'print(1)',
+      }));
+      expect(single.status).toBe(400);
+      expect((await single.json()).error.code).toBe('VALIDATION_ERROR');
+
+      const unknown = await POST(buildRequest({
+        challengeId: 'ch-1',
+        language: 'python',
+        files: [{ path: 'extra.py', content: 'x = 1' }],
+      }));
+      expect(unknown.status).toBe(400);
+      expect(judge0Client.submit).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('timed assessments', () => {
+    it('stamps the attempt with the sitting id when the assessment allows it', async () => {
+      happyPathSetup();
+      (authorizeAssessmentSubmit as Mock).mockResolvedValue({ sessionId: 'sess-1', attemptCap: 3 });
+
+      const res = await POST(buildRequest({
+        challengeId: 'ch-1',
+        language: 'python',
+        code: 'print(3)',
+        assessmentId: 'as-1',
+      }));
+      expect(res.status).toBe(201);
+      expect(authorizeAssessmentSubmit).toHaveBeenCalledWith({
+        assessmentId: 'as-1',
+        associateId: 42,
+        challengeId: 'ch-1',
+        language: 'python',
+      });
+      expect(claimAssessmentAttempt).toHaveBeenCalledWith(
+        { sessionId: 'sess-1', attemptCap: 3, challengeId: 'ch-1' },
+        expect.any(Function),
+      );
+      expect(assertNotHeldForAssessment).not.toHaveBeenCalled();
+      const createCall = (prisma.codingAttempt.create as Mock).mock.calls[0][0];
+      expect(createCall.data.assessmentSessionId).toBe('sess-1');
+      expect(createCall.data.assessmentSeq).toBe(1);
+    });
+
+    it('returns 403 when a parallel submit took the last attempt slot', async () => {
+      happyPathSetup();
+      (authorizeAssessmentSubmit as Mock).mockResolvedValue({ sessionId: 'sess-1', attemptCap: 1 });
+      (claimAssessmentAttempt as Mock).mockRejectedValueOnce(
+        new AssessmentError('ATTEMPT_CAP_REACHED', 'Attempt limit reached (1)'),
+      );
+
+      const res = await POST(buildRequest({
+        challengeId: 'ch-1',
+        language: 'python',
+        code: 'print(3)',
+        assessmentId: 'as-1',
+      }));
+      expect(res.status).toBe(403);
+      expect((await res.json()).error.details).toEqual({ reason: 'ATTEMPT_CAP_REACHED' });
+      expect(judge0Client.submit).not.toHaveBeenCalled();
+    });
+
+    it('refuses a submit that drops assessmentId while the assessment is open', async () => {
+      happyPathSetup();
+      (assertNotHeldForAssessment as Mock).mockRejectedValueOnce(
+        new AssessmentError('ASSESSMENT_REQUIRED', 'This challenge is part of "Week 3"'),
+      );
+
+      const res = await POST(buildRequest({ challengeId: 'ch-1', language: 'python', code: 'print(3)' }));
+      expect(res.status).toBe(403);
+      expect((await res.json()).error.details).toEqual({ reason: 'ASSESSMENT_REQUIRED' });
+      expect(assertNotHeldForAssessment).toHaveBeenCalledWith({ associateId: 42, challengeId: 'ch-1' });
+      expect(prisma.codingAttempt.create).not.toHaveBeenCalled();
+    });
+
+    it('refuses a practice submit before the assessment holding the challenge opens', async () => {
+      happyPathSetup();
+      (assertNotHeldForAssessment as Mock).mockRejectedValueOnce(
+        new AssessmentError('NOT_OPEN', 'This challenge is part of "Week 4", which has not opened yet'),
+      );
+
+      const res = await POST(buildRequest({ challengeId: 'ch-1', language: 'python', code: 'print(3)' }));
+      expect(res.status).toBe(403);
+      expect((await res.json()).error.details).toEqual({ reason: 'NOT_OPEN' });
+      expect(consumeCodingSubmitRateLimit).not.toHaveBeenCalled();
+      expect(judge0Client.submit).not.toHaveBeenCalled();
+    });
+
+    it('rejects with the assessment reason and creates no attempt', async () => {
+      happyPathSetup();
+      (authorizeAssessmentSubmit as Mock).mockRejectedValue(
+        new AssessmentError('ATTEMPT_CAP_REACHED', 'Attempt limit reached (3)'),
+      );
+
+      const res = await POST(buildRequest({
+        challengeId: 'ch-1',
+        language: 'python',
+        code: 'print(3)',
+        assessmentId: 'as-1',
+      }));
+      expect(res.status).toBe(403);
+      const body = await res.json();
+      expect(body.error).toEqual({
+        code: 'FORBIDDEN',
+        message: 'Attempt limit reached (3)',
+        details: { reason: 'ATTEMPT_CAP_REACHED' },
+      });
+      expect(prisma.codingAttempt.create).not.toHaveBeenCalled();
+      expect(consumeCodingSubmitRateLimit).not.toHaveBeenCalled();
+    });
+
+    it('leaves practice submits untouched', async () => {
+      happyPathSetup();
+      const res = await POST(buildRequest({ challengeId: 'ch-1', language: 'python', code: 'print(3)' }));
+      expect(res.status).toBe(201);
+      expect(authorizeAssessmentSubmit).not.toHaveBeenCalled();
+      expect(claimAssessmentAttempt).not.toHaveBeenCalled();
+      const createCall = (prisma.codingAttempt.create as Mock).mock.calls[0][0];
+      expect(createCall.data).not.toHaveProperty('assessmentSessionId');
+      expect(createCall.data).not.toHaveProperty('assessmentSeq');
+    });
+  });
+
+  describe('edit timeline', () => {
+    const timeline = {
+      v: 1,
+      files: [{ path: 'main', content: '' }],
+      events: [
+        [0, 'e', 0, 0, 0, 'print(3)'],
+        [2500, 'run'],
+        [4000, 'submit'],
+      ],
+    };
+
+    beforeEach(() => {
+      vi.stubEnv('CODING_EDIT_TIMELINE_ENABLED', 'true');
+    });
+
+    it('stores the timeline alongside the attempt', async () => {
+      happyPathSetup();
+      const res = await POST(buildRequest({
+        challengeId: 'ch-1',
+        language: 'python',
+        code: 'print(3)',
+        timeline,
+      }));
+      expect(res.status).toBe(201);
+      const createCall = (prisma.codingAttempt.create as Mock).mock.calls[0][0];
+      expect(createCall.data.timeline).toEqual({
+        create: { timeline, eventCount: 3, durationMs: 4000, truncated: false },
+      });
+    });
+
+    it('rejects a timeline that edits an unknown file', async () => {
+      happyPathSetup();
+      const res = await POST(buildRequest({
+        challengeId: 'ch-1',
+        language: 'python',
+        code: 'print(3)',
+        timeline: { ...timeline, events: [[0, 'e', 3, 0, 0, 'x']] },
+      }));
+      expect(res.status).toBe(400);
+      expect(prisma.codingAttempt.create).not.toHaveBeenCalled();
+    });
+
+    it('discards the timeline when recording is disabled', async () => {
+      vi.stubEnv('CODING_EDIT_TIMELINE_ENABLED', 'false');
+      happyPathSetup();
+      const res = await POST(buildRequest({
+        challengeId: 'ch-1',
+        language: 'python',
+        code: 'print(3)',
+        timeline,
+      }));
+      expect(res.status).toBe(201);
+      const createCall = (prisma.codingAttempt.create as Mock).mock.calls[0][0];
+      expect(createCall.data).not.toHaveProperty('timeline');
+    });
+
+    it('trims an oversized timeline to the stored size cap', async () => {
+      happyPathSetup();
+      const big = {
+        ...timeline,
+        events: Array.from({ length: 2000 }, (_, i) => [i * 10, 'e', 0, i * 150, 0, 'z'.repeat(150)]),
+      };
+      await POST(buildRequest({ challengeId: 'ch-1', language: 'python', code: 'print(3)', timeline: big }));
+      const created = (prisma.codingAttempt.create as Mock).mock.calls[0][0].data.timeline.create;
+      expect(created.truncated).toBe(true);
+      expect(created.eventCount).toBeLessThan(2000);
+      expect(JSON.stringify(created.timeline).length).toBeLessThanOrEqual(MAX_STORED_TIMELINE_BYTES);
+    });
+
+    it('omits the timeline relation when none is sent', async () => {
+      happyPathSetup();
+      await POST(buildRequest({ challengeId: 'ch-1', language: 'python', code: 'print(3)' }));
+      const createCall = (prisma.codingAttempt.create as Mock).mock.calls[0][0];
+      expect(createCall.data).not.toHaveProperty('timeline');
+    });
+  });
+
   // ---------- Phase 50 (JUDGE-INTEG-02) — flag-off short-circuit ----------
   describe('Phase 50 — CODING_CHALLENGES_ENABLED gating', () => {
     it('returns 503 + coming-soon body when flag is "false" (before identity check)', async () => {
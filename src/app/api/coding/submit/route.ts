@@ -5,16 +5,23 @@
  * wait=true. Never leaks hidden test fixtures.
  *
  * Flow (D-04):
- *   1. Zod-parse body
+ *   1. Zod-parse body (`code`, or `files` for multi-file challenges)
  *   2. getCallerIdentity — 401 if anonymous
  *   3. Trainers cannot submit in v1.4 (no associateId); 403 FORBIDDEN
  *   4. Load challenge — 404 if missing
  *   5. Authz: associate cohortId must match OR challenge.cohortId is null
  *   6. Language allowlist + challenge.language match
+ *   6b. With `assessmentId`: the sitting must be running (plus grace), hold
+ *      this challenge, honour the language lock and the attempt cap; the
+ *      attempt is stamped with the sitting id. Without it: 403 while an open
+ *      assessment for the associate's cohort contains this challenge
  *   7. Rate limit gate — 429 + Retry-After if blocked
  *   8. Load hidden tests (server-only) + visible test cases
- *   9. Create CodingAttempt(verdict='pending')
- *  10. judge0Client.submit per test case (no wait)
+ *   9. Create CodingAttempt(verdict='pending'), with its edit timeline when sent
+ *      and recording is enabled (size-capped); assessment attempts take a
+ *      numbered cap slot (claimAssessmentAttempt)
+ *  10. judge0Client.submit per test case (no wait); function challenges wrap
+ *      the code in the generated harness and compare server-side on poll
  *  11. Persist tokens JSON-stringified into judge0Token
  *  12. Return { attemptId } 201
  *
@@ -25,34 +32,55 @@ import { NextResponse } from 'next/server';
 import { z } from 'zod';
 import { getCallerIdentity } from '@/lib/identity';
 import { prisma } from '@/lib/prisma';
-import { isCodingEnabled } from '@/lib/codingFeatureFlag';
+import { isCodingEnabled, isEditTimelineEnabled } from '@/lib/codingFeatureFlag';
 import { codingDisabledResponse } from '@/app/api/coding/_disabledResponse';
-import {
-  submit as judge0Submit,
-  JUDGE0_LANGUAGE_MAP,
-  type Judge0Language,
-} from '@/lib/judge0Client';
+import type { Judge0Language } from '@/lib/judge0Client';
+import { getExecutionBackend, submit as judge0Submit } from '@/lib/executionBackend';
 import { loadHiddenTests, getSetupSql } from '@/lib/coding-challenge-service';
+import type { EntryPoint, SqlDialect } from '@/lib/coding-bank-schemas';
+import { buildFunctionSource, readEntryPoint } from '@/lib/functionHarness';
+import { buildGradedSqlSource, readSqlDialect } from '@/lib/sqlSource';
+import {
+  ProjectFilesError,
+  SubmittedFilesSchema,
+  prepareSource,
+  readStarterFiles,
+  type PreparedSource,
+} from '@/lib/projectFiles';
 // Phase 42 §D-06: for SQL attempts, per-test `passed` is derived by
-// `normalizeSqliteResult` (see src/lib/codingAttemptPoll.ts SQL branch).
+// `normalizeSqlResult` (see src/lib/codingAttemptPoll.ts SQL branch).
 // We do NOT pass expected_output to Judge0 for SQL — normalization runs
 // server-side during poll, against trainer-authored expectedRows. This route
 // only builds + submits the concatenated source; the verdict compare path
 // lives in the poll helper.
 import {
-  checkCodingSubmitRateLimit,
-  incrementCodingSubmitCount,
+  consumeCodingSubmitRateLimit,
+  refundCodingSubmitCount,
 } from '@/lib/rateLimitService';
 import { codingApiError } from '@/lib/codingApiErrors';
+import { EditTimelineSchema, capTimelineSize, timelineDuration } from '@/lib/editTimeline';
+import {
+  AssessmentError,
+  assessmentErrorResponse,
+  assertNotHeldForAssessment,
+  authorizeAssessmentSubmit,
+  claimAssessmentAttempt,
+  type AssessmentSubmitGate,
+} from '@/lib/codingAssessmentService';
 
-// WR-02 (Phase 36 review): cap code payload at 100KB.
-const SubmitBodySchema = z.object({
-  challengeId: z.string().min(1),
-  language: z.string().min(1),
-  code: z.string().min(1).max(100_000),
-});
-
-const SUPPORTED_LANGUAGES = Object.keys(JUDGE0_LANGUAGE_MAP) as Judge0Language[];
+// WR-02 (Phase 36 review): cap code payload at 100KB (files: combined).
+const SubmitBodySchema = z
+  .object({
+    challengeId: z.string().min(1),
+    language: z.string().min(1),
+    code: z.string().min(1).max(100_000).optional(),
+    files: SubmittedFilesSchema.optional(),
+    assessmentId: z.string().min(1).max(64).optional(),
+    timeline: EditTimelineSchema.optional(),
+  })
+  .refine((b) => (b.code === undefined) !== (b.files === undefined), {
+    message: 'Provide either code or files',
+  });
 
 export async function POST(request: Request): Promise<NextResponse> {
   // Phase 50 (JUDGE-INTEG-02 / D-05): feature-flag gate. Fires BEFORE
@@ -98,6 +126,9 @@ export async function POST(request: Request): Promise<NextResponse> {
       cohortId: true,
       language: true,
       skillSlug: true,
+      entryPoint: true,
+      starterFiles: true,
+      sqlDialect: true,
     },
   });
   if (!challenge) {
@@ -115,8 +146,8 @@ export async function POST(request: Request): Promise<NextResponse> {
     }
   }
 
-  // 6. Language allowlist + challenge-level match
-  if (!SUPPORTED_LANGUAGES.includes(parsedBody.language as Judge0Language)) {
+  // 6. Language allowlist (of the configured execution backend) + challenge-level match
+  if (!getExecutionBackend().languages.includes(parsedBody.language as Judge0Language)) {
     return codingApiError(
       'LANGUAGE_NOT_SUPPORTED',
       `Language '${parsedBody.language}' is not in the allowlist`,
@@ -129,9 +160,62 @@ export async function POST(request: Request): Promise<NextResponse> {
     );
   }
 
-  // 7. Rate limit gate
+  // 6b. Timed assessment gate — clock, challenge list, language lock, attempt cap.
+  let assessmentGate: AssessmentSubmitGate | undefined;
+  try {
+    if (parsedBody.assessmentId !== undefined) {
+      assessmentGate = await authorizeAssessmentSubmit({
+        assessmentId: parsedBody.assessmentId,
+        associateId: caller.associateId,
+        challengeId: challenge.id,
+        language: parsedBody.language,
+      });
+    } else {
+      await assertNotHeldForAssessment({ associateId: caller.associateId, challengeId: challenge.id });
+    }
+  } catch (err) {
+    if (err instanceof AssessmentError) return assessmentErrorResponse(err);
+    throw err;
+  }
+
+  // Function challenges: the stored signature drives the generated wrapper.
+  let entryPoint: EntryPoint | null;
+  try {
+    entryPoint = readEntryPoint(challenge.entryPoint);
+  } catch (err) {
+    console.error('[coding/submit] invalid stored entryPoint for', challenge.slug, err);
+    return codingApiError('INTERNAL', 'Challenge configuration is invalid');
+  }
+  let sqlDialect: SqlDialect;
+  try {
+    sqlDialect = readSqlDialect(challenge.sqlDialect);
+  } catch (err) {
+    console.error('[coding/submit] invalid stored sqlDialect for', challenge.slug, err);
+    return codingApiError('INTERNAL', 'Challenge configuration is invalid');
+  }
+
+  // Multi-file challenges: overlay the submitted files on the stored layout
+  // (read-only files always come from the bank) and package for the runner.
+  let source: PreparedSource;
+  try {
+    source = prepareSource(
+      parsedBody.language as Judge0Language,
+      readStarterFiles(challenge.starterFiles),
+      parsedBody,
+    );
+  } catch (err) {
+    if (err instanceof ProjectFilesError) {
+      return codingApiError('VALIDATION_ERROR', err.message);
+    }
+    console.error('[coding/submit] invalid stored starterFiles for', challenge.slug, err);
+    return codingApiError('INTERNAL', 'Challenge configuration is invalid');
+  }
+
+  // 7. Rate limit gate — consumed here so parallel submits cannot all pass
+  // it. Returns below that leave no attempt behind give the submit back; an
+  // unexpected throw keeps it.
   const userKey = `associate:${caller.associateId}`;
-  const rl = checkCodingSubmitRateLimit(userKey);
+  const rl = await consumeCodingSubmitRateLimit(userKey);
   if (!rl.allowed) {
     return codingApiError(
       'RATE_LIMITED',
@@ -142,6 +226,10 @@ export async function POST(request: Request): Promise<NextResponse> {
         : undefined,
     );
   }
+  const refunded = async (res: NextResponse) => {
+    await refundCodingSubmitCount(userKey);
+    return res;
+  };
 
   // 8. Load test cases — visible from DB, hidden from private loader
   const visibleCases = await prisma.codingTestCase.findMany({
@@ -190,31 +278,59 @@ export async function POST(request: Request): Promise<NextResponse> {
         setupSql = '';
       } else {
         console.error('[coding/submit] getSetupSql failed for', challenge.slug, err);
-        return codingApiError(
+        return refunded(codingApiError(
           'VALIDATION_ERROR',
           'SQL challenge setup.sql unavailable',
-        );
+        ));
       }
     }
     if (setupSql === null) {
-      return codingApiError(
+      return refunded(codingApiError(
         'VALIDATION_ERROR',
         'SQL challenge missing setup.sql',
-      );
+      ));
     }
   }
 
-  // 9. Create CodingAttempt(pending) BEFORE Judge0 submit — so we can roll back on failure
-  const attempt = await prisma.codingAttempt.create({
-    data: {
-      associateId: caller.associateId,
-      challengeId: challenge.id,
-      submittedCode: parsedBody.code,
-      language: parsedBody.language,
-      verdict: 'pending',
-    },
-    select: { id: true },
-  });
+  // 9. Create CodingAttempt(pending) BEFORE Judge0 submit — so we can roll back on failure.
+  // The edit timeline rides along in the same write (cascade-deleted on rollback).
+  // Timelines are only kept while recording is enabled, and trimmed to the
+  // per-attempt size cap.
+  const timeline =
+    parsedBody.timeline && isEditTimelineEnabled() ? capTimelineSize(parsedBody.timeline) : undefined;
+  const createAttempt = (assessmentSeq?: number) =>
+    prisma.codingAttempt.create({
+      data: {
+        associateId: caller.associateId,
+        challengeId: challenge.id,
+        submittedCode: source.code,
+        language: parsedBody.language,
+        verdict: 'pending',
+        ...(assessmentGate ? { assessmentSessionId: assessmentGate.sessionId, assessmentSeq } : {}),
+        ...(timeline
+          ? {
+              timeline: {
+                create: {
+                  timeline,
+                  eventCount: timeline.events.length,
+                  durationMs: timelineDuration(timeline),
+                  truncated: timeline.truncated ?? false,
+                },
+              },
+            }
+          : {}),
+      },
+      select: { id: true },
+    });
+  let attempt: { id: string };
+  try {
+    attempt = assessmentGate
+      ? await claimAssessmentAttempt({ ...assessmentGate, challengeId: challenge.id }, createAttempt)
+      : await createAttempt();
+  } catch (err) {
+    if (err instanceof AssessmentError) return refunded(assessmentErrorResponse(err));
+    throw err;
+  }
 
   // 10. Submit to Judge0 — one submission per case. NO wait param.
   //
@@ -222,7 +338,8 @@ export async function POST(request: Request): Promise<NextResponse> {
   // The sourceCode built below (which may contain hidden trainer queries + setup.sql)
   // is handed to Judge0 via HTTPS; it never crosses a response-body boundary here.
   // For SQL language (§D-03 + D-04): concatenation order is
-  //   `.mode tabs` + `.headers off` + setup.sql + user query + test query-per-case.
+  //   dialect preamble (headers off) + setup.sql + user query + test query-per-case
+  // (see sqlSource.ts); Postgres-dialect challenges run on the Postgres sandbox.
   // Expected-output stdout comparison is performed server-side via
   // sqlResultNormalizer during poll (see codingAttemptPoll.ts SQL branch).
   let tokens: string[];
@@ -242,22 +359,28 @@ export async function POST(request: Request): Promise<NextResponse> {
           // etc.) before comparing against expectedRows. Without these
           // markers, `SELECT * FROM users` in the user's answer prepends to
           // the test query's output and corrupts row-count/cell checks.
-          sourceCode = [
-            '.mode tabs',
-            '.headers off',
-            setupSql ?? '',
-            parsedBody.code, // associate-submitted SQL (user query)
-            "SELECT '---BEGIN-ANSWER---';",
-            tc.stdin, // trainer-authored test query — NEVER surfaces to client for hidden tests
-            "SELECT '---END-ANSWER---';",
-          ].join('\n');
-          // SQLite in Judge0 runs the source; stdin pipe is unused for SQL.
+          sourceCode = buildGradedSqlSource(sqlDialect, {
+            setupSql: setupSql ?? '',
+            userSql: source.code, // associate-submitted SQL (user query)
+            testSql: tc.stdin, // trainer-authored test query — NEVER surfaces to client for hidden tests
+          });
+          // The SQL engine runs the source; stdin pipe is unused for SQL.
           submissionStdin = '';
           // Do NOT pass expected_output for SQL — our normalizer handles compare
           // (Judge0's built-in match cannot understand column/row order + coerce).
           submissionExpected = undefined;
+        } else if (entryPoint) {
+          // Function challenge: stdin carries the JSON args; the return value
+          // is compared with tolerance during poll, not by Judge0.
+          sourceCode = buildFunctionSource(
+            parsedBody.language as Judge0Language,
+            entryPoint,
+            source.code,
+          );
+          submissionStdin = tc.stdin;
+          submissionExpected = undefined;
         } else {
-          sourceCode = parsedBody.code;
+          sourceCode = source.sourceCode;
           submissionStdin = tc.stdin;
           submissionExpected = tc.expectedStdout;
         }
@@ -267,6 +390,10 @@ export async function POST(request: Request): Promise<NextResponse> {
           language: parsedBody.language as Judge0Language,
           stdin: submissionStdin,
           expectedStdout: submissionExpected,
+          ...(parsedBody.language === 'sql' ? { sqlDialect } : {}),
+          ...(source.additionalFiles.length > 0
+            ? { additionalFiles: source.additionalFiles }
+            : {}),
         });
       }),
     );
@@ -279,7 +406,7 @@ export async function POST(request: Request): Promise<NextResponse> {
       console.error('[coding/submit] failed to roll back attempt', attempt.id, delErr);
     }
     console.error('[coding/submit] Judge0 submit failed:', err);
-    return codingApiError('JUDGE0_UNAVAILABLE', 'Code execution service unavailable');
+    return refunded(codingApiError('JUDGE0_UNAVAILABLE', 'Code execution service unavailable'));
   }
 
   // 11. Persist tokens — FATAL if this fails. WR-02 (Phase 39 review):
@@ -299,14 +426,12 @@ export async function POST(request: Request): Promise<NextResponse> {
     } catch (delErr) {
       console.error('[coding/submit] failed to roll back orphan attempt', attempt.id, delErr);
     }
-    return codingApiError(
+    return refunded(codingApiError(
       'JUDGE0_UNAVAILABLE',
       'Code execution service unavailable — please retry',
-    );
+    ));
   }
 
-  // 12. Increment rate limit counter, return attemptId
-  incrementCodingSubmitCount(userKey);
-
+  // 12. Return attemptId
   return NextResponse.json({ attemptId: attempt.id }, { status: 201 });
 }
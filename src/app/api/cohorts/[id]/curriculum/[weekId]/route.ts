@@ -13,8 +13,10 @@
 import { NextResponse } from 'next/server';
 import { z } from 'zod';
 import { getCallerIdentity } from '@/lib/identity';
+import { can, canAccessCohort } from '@/lib/authorization';
 import { prisma } from '@/lib/prisma';
 import { updateWeek, deleteWeek } from '@/lib/curriculumService';
+import { diffValues, recordAuditEvent } from '@/lib/auditLog';
 
 // ---------------------------------------------------------------------------
 // Zod schema for PATCH body (all fields optional)
@@ -41,6 +43,27 @@ const PatchWeekSchema = z
 // Helpers
 // ---------------------------------------------------------------------------
 
+// Ownership check fields plus the editable ones the audit trail diffs.
+const WEEK_AUDIT_SELECT = {
+  id: true,
+  cohortId: true,
+  weekNumber: true,
+  skillName: true,
+  skillSlug: true,
+  topicTags: true,
+  startDate: true,
+} as const;
+
+function auditedWeek({ weekNumber, skillName, skillSlug, topicTags, startDate }: {
+  weekNumber: number;
+  skillName: string;
+  skillSlug: string;
+  topicTags: string[];
+  startDate: Date;
+}) {
+  return { weekNumber, skillName, skillSlug, topicTags, startDate: startDate.toISOString() };
+}
+
 function parseId(raw: string): number | null {
   const n = Number(raw);
   if (!Number.isInteger(n) || n <= 0) return null;
@@ -65,7 +88,7 @@ export async function PATCH(
   { params }: { params: Promise<{ id: string; weekId: string }> }
 ) {
   const caller = await getCallerIdentity() // [AUDIT-VERIFIED: P20]
-  if (caller.kind !== 'trainer' && caller.kind !== 'admin') {
+  if (!can(caller, 'content:write')) {
     return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
   }
 
@@ -76,6 +99,9 @@ export async function PATCH(
   if (cohortId === null) {
     return NextResponse.json({ error: 'Invalid cohort id' }, { status: 400 });
   }
+  if (!canAccessCohort(caller, cohortId)) {
+    return NextResponse.json({ error: 'Cohort not found' }, { status: 404 });
+  }
   if (weekIdNum === null) {
     return NextResponse.json({ error: 'Invalid week id' }, { status: 400 });
   }
@@ -83,7 +109,7 @@ export async function PATCH(
   // Fetch existing week to verify ownership
   const existing = await prisma.curriculumWeek.findUnique({
     where: { id: weekIdNum },
-    select: { id: true, cohortId: true },
+    select: WEEK_AUDIT_SELECT,
   });
   if (!existing) {
     return NextResponse.json({ error: 'Week not found' }, { status: 404 });
@@ -117,6 +143,8 @@ export async function PATCH(
     if (parsed.data.startDate !== undefined) updateData.startDate = new Date(parsed.data.startDate);
 
     const updated = await updateWeek(weekIdNum, updateData);
+    const diff = diffValues(auditedWeek(existing), auditedWeek(updated));
+    if (diff) await recordAuditEvent(caller, { action: 'curriculum_week.update', targetId: weekIdNum, ...diff });
     return NextResponse.json(updated);
   } catch (error) {
     if (isPrismaError(error, 'P2002')) {
@@ -142,7 +170,7 @@ export async function DELETE(
   { params }: { params: Promise<{ id: string; weekId: string }> }
 ) {
   const caller = await getCallerIdentity() // [AUDIT-VERIFIED: P20]
-  if (caller.kind !== 'trainer' && caller.kind !== 'admin') {
+  if (!can(caller, 'content:write')) {
     return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
   }
 
@@ -153,6 +181,9 @@ export async function DELETE(
   if (cohortId === null) {
     return NextResponse.json({ error: 'Invalid cohort id' }, { status: 400 });
   }
+  if (!canAccessCohort(caller, cohortId)) {
+    return NextResponse.json({ error: 'Cohort not found' }, { status: 404 });
+  }
   if (weekIdNum === null) {
     return NextResponse.json({ error: 'Invalid week id' }, { status: 400 });
   }
@@ -160,7 +191,7 @@ export async function DELETE(
   // Fetch existing week to verify ownership
   const existing = await prisma.curriculumWeek.findUnique({
     where: { id: weekIdNum },
-    select: { id: true, cohortId: true },
+    select: WEEK_AUDIT_SELECT,
   });
   if (!existing) {
     return NextResponse.json({ error: 'Week not found' }, { status: 404 });
@@ -172,6 +203,11 @@ export async function DELETE(
 
   try {
     await deleteWeek(weekIdNum);
+    await recordAuditEvent(caller, {
+      action: 'curriculum_week.delete',
+      targetId: weekIdNum,
+      before: { cohortId, ...auditedWeek(existing) },
+    });
     return new NextResponse(null, { status: 204 });
   } catch (error) {
     if (isPrismaError(error, 'P2025')) {
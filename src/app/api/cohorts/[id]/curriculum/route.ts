@@ -11,6 +11,8 @@
 import { NextResponse } from 'next/server';
 import { z } from 'zod';
 import { getCallerIdentity } from '@/lib/identity';
+import { can, canAccessCohort } from '@/lib/authorization';
+import { recordAuditEvent } from '@/lib/auditLog';
 import { prisma } from '@/lib/prisma';
 import { listWeeks, getTaughtWeeks, createWeek } from '@/lib/curriculumService';
 
@@ -58,7 +60,7 @@ export async function GET(
   { params }: { params: Promise<{ id: string }> }
 ) {
   const caller = await getCallerIdentity() // [AUDIT-VERIFIED: P20]
-  if (caller.kind !== 'trainer' && caller.kind !== 'admin') {
+  if (!can(caller, 'associates:read') && !can(caller, 'content:write')) {
     return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
   }
 
@@ -67,6 +69,9 @@ export async function GET(
   if (cohortId === null) {
     return NextResponse.json({ error: 'Invalid cohort id' }, { status: 400 });
   }
+  if (!canAccessCohort(caller, cohortId)) {
+    return NextResponse.json({ error: 'Cohort not found' }, { status: 404 });
+  }
 
   // Verify cohort exists
   const cohort = await prisma.cohort.findUnique({ where: { id: cohortId }, select: { id: true } });
@@ -98,7 +103,7 @@ export async function POST(
   { params }: { params: Promise<{ id: string }> }
 ) {
   const caller = await getCallerIdentity() // [AUDIT-VERIFIED: P20]
-  if (caller.kind !== 'trainer' && caller.kind !== 'admin') {
+  if (!can(caller, 'content:write')) {
     return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
   }
 
@@ -107,6 +112,9 @@ export async function POST(
   if (cohortId === null) {
     return NextResponse.json({ error: 'Invalid cohort id' }, { status: 400 });
   }
+  if (!canAccessCohort(caller, cohortId)) {
+    return NextResponse.json({ error: 'Cohort not found' }, { status: 404 });
+  }
 
   // Verify cohort exists
   const cohort = await prisma.cohort.findUnique({ where: { id: cohortId }, select: { id: true } });
@@ -137,6 +145,18 @@ export async function POST(
       topicTags: parsed.data.topicTags,
       startDate: new Date(parsed.data.startDate),
     });
+    await recordAuditEvent(caller, {
+      action: 'curriculum_week.create',
+      targetId: week.id,
+      after: {
+        cohortId,
+        weekNumber: week.weekNumber,
+        skillName: week.skillName,
+        skillSlug: week.skillSlug,
+        topicTags: week.topicTags,
+        startDate: week.startDate.toISOString(),
+      },
+    });
 
     return NextResponse.json(week, { status: 201 });
   } catch (error) {
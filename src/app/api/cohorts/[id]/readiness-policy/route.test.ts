@@ -0,0 +1,136 @@
+/**
+ * Unit tests for /api/cohorts/[id]/readiness-policy (GET + PUT + DELETE).
+ *
+ * Prisma, auth, settings and the readiness recompute are mocked.
+ *
+ * Covers:
+ * - Auth guard (401)
+ * - GET: default policy when the cohort has none; stored policy otherwise
+ * - PUT: validates bounds, normalizes required skills, upserts and recomputes
+ * - PUT: missing cohort (P2003) -> 404
+ * - DELETE: removes the policy and recomputes against the default
+ */
+
+import { vi, describe, it, expect, beforeEach } from 'vitest';
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    readinessPolicy: {
+      findUnique: vi.fn(),
+      upsert: vi.fn(),
+      deleteMany: vi.fn(),
+    },
+  },
+}));
+
+vi.mock('@/lib/identity', () => ({
+  getCallerIdentity: vi.fn(),
+}));
+
+vi.mock('@/lib/settingsService', () => ({
+  getSettings: vi.fn().mockResolvedValue({ readinessThreshold: 75 }),
+}));
+
+vi.mock('@/lib/readinessService', () => ({
+  recomputeCohortReadiness: vi.fn().mockResolvedValue(undefined),
+}));
+
+import { prisma } from '@/lib/prisma';
+import { getCallerIdentity } from '@/lib/identity';
+import { recomputeCohortReadiness } from '@/lib/readinessService';
+import { GET, PUT, DELETE } from '@/app/api/cohorts/[id]/readiness-policy/route';
+import { DEFAULT_READINESS_POLICY } from '@/lib/readinessPolicy';
+
+const mockFindUnique = prisma.readinessPolicy.findUnique as ReturnType<typeof vi.fn>;
+const mockUpsert = prisma.readinessPolicy.upsert as ReturnType<typeof vi.fn>;
+const mockDeleteMany = prisma.readinessPolicy.deleteMany as ReturnType<typeof vi.fn>;
+const mockRecompute = recomputeCohortReadiness as ReturnType<typeof vi.fn>;
+const mockAuth = getCallerIdentity as ReturnType<typeof vi.fn>;
+
+const VALID = {
+  minSessions: 4,
+  trendWindow: 5,
+  threshold: 80,
+  requiredSkills: ['SQL', 'sql', 'React'],
+  codingWeight: 0.3,
+};
+
+function makeCtx(id: string) {
+  return { params: Promise.resolve({ id }) };
+}
+
+function makeRequest(method: string, body?: unknown) {
+  return new Request('http://localhost/api/cohorts/1/readiness-policy', {
+    method,
+    headers: body ? { 'Content-Type': 'application/json' } : undefined,
+    body: body ? JSON.stringify(body) : undefined,
+  });
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mockAuth.mockResolvedValue({ kind: 'trainer' });
+});
+
+describe('/api/cohorts/[id]/readiness-policy', () => {
+  it('returns 401 when unauthenticated', async () => {
+    mockAuth.mockResolvedValue({ kind: 'anonymous' });
+    expect((await GET(makeRequest('GET'), makeCtx('1'))).status).toBe(401);
+    expect((await PUT(makeRequest('PUT', VALID), makeCtx('1'))).status).toBe(401);
+    expect((await DELETE(makeRequest('DELETE'), makeCtx('1'))).status).toBe(401);
+  });
+
+  it('GET returns the default policy when the cohort has none', async () => {
+    mockFindUnique.mockResolvedValue(null);
+    const res = await GET(makeRequest('GET'), makeCtx('1'));
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({
+      policy: DEFAULT_READINESS_POLICY,
+      isDefault: true,
+      globalThreshold: 75,
+    });
+  });
+
+  it('GET returns 400 for an invalid id', async () => {
+    const res = await GET(makeRequest('GET'), makeCtx('abc'));
+    expect(res.status).toBe(400);
+  });
+
+  it('PUT rejects out-of-range values and unknown keys', async () => {
+    expect((await PUT(makeRequest('PUT', { ...VALID, trendWindow: 1 }), makeCtx('1'))).status).toBe(400);
+    expect((await PUT(makeRequest('PUT', { ...VALID, codingWeight: 2 }), makeCtx('1'))).status).toBe(400);
+    expect((await PUT(makeRequest('PUT', { ...VALID, extra: true }), makeCtx('1'))).status).toBe(400);
+    expect(mockUpsert).not.toHaveBeenCalled();
+  });
+
+  it('PUT upserts with deduped lowercase skills and recomputes the cohort', async () => {
+    mockUpsert.mockImplementation(async ({ create }) => ({ id: 1, ...create }));
+    const res = await PUT(makeRequest('PUT', VALID), makeCtx('7'));
+    expect(res.status).toBe(200);
+
+    const args = mockUpsert.mock.calls[0][0];
+    expect(args.where).toEqual({ cohortId: 7 });
+    expect(args.update.requiredSkills).toEqual(['sql', 'react']);
+    expect(mockRecompute).toHaveBeenCalledWith(7, 75);
+
+    const body = await res.json();
+    expect(body.isDefault).toBe(false);
+    expect(body.policy).toEqual({ ...VALID, requiredSkills: ['sql', 'react'] });
+  });
+
+  it('PUT returns 404 when the cohort does not exist', async () => {
+    mockUpsert.mockRejectedValue(Object.assign(new Error('fk'), { code: 'P2003' }));
+    const res = await PUT(makeRequest('PUT', VALID), makeCtx('99'));
+    expect(res.status).toBe(404);
+    expect(mockRecompute).not.toHaveBeenCalled();
+  });
+
+  it('DELETE resets to the default policy and recomputes', async () => {
+    mockDeleteMany.mockResolvedValue({ count: 1 });
+    const res = await DELETE(makeRequest('DELETE'), makeCtx('3'));
+    expect(res.status).toBe(200);
+    expect(mockDeleteMany).toHaveBeenCalledWith({ where: { cohortId: 3 } });
+    expect(mockRecompute).toHaveBeenCalledWith(3, 75);
+    expect((await res.json()).isDefault).toBe(true);
+  });
+});
@@ -0,0 +1,190 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getCallerIdentity } from '@/lib/identity';
+import { can, canAccessCohort } from '@/lib/authorization';
+import { prisma } from '@/lib/prisma';
+import { getSettings } from '@/lib/settingsService';
+import { diffValues, recordAuditEvent } from '@/lib/auditLog';
+import { recomputeCohortReadiness } from '@/lib/readinessService';
+import { DEFAULT_READINESS_POLICY, type ReadinessPolicy } from '@/lib/readinessPolicy';
+
+// Inline zod schema (D-04). Bounds keep the regression meaningful (≥ 2 points)
+// and the gate reachable.
+const PolicySchema = z
+  .object({
+    minSessions: z.number().int().min(1).max(20),
+    trendWindow: z.number().int().min(2).max(10),
+    threshold: z.number().min(0).max(100).nullable(),
+    requiredSkills: z.array(z.string().trim().min(1).max(100)).max(50),
+    codingWeight: z.number().min(0).max(1),
+  })
+  .strict();
+
+function parseId(raw: string): number | null {
+  const n = Number(raw);
+  if (!Number.isInteger(n) || n <= 0) return null;
+  return n;
+}
+
+function isPrismaError(error: unknown, code: string): boolean {
+  return (
+    !!error &&
+    typeof error === 'object' &&
+    'code' in error &&
+    (error as { code?: string }).code === code
+  );
+}
+
+function toPolicy(row: ReadinessPolicy): ReadinessPolicy {
+  return {
+    minSessions: row.minSessions,
+    trendWindow: row.trendWindow,
+    threshold: row.threshold,
+    requiredSkills: row.requiredSkills,
+    codingWeight: row.codingWeight,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// GET /api/cohorts/[id]/readiness-policy
+// { policy, isDefault, globalThreshold } — policy is the default when the
+// cohort has no row.
+// ---------------------------------------------------------------------------
+
+export async function GET(
+  _req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const caller = await getCallerIdentity() // [AUDIT-VERIFIED: P20]
+  if (!can(caller, 'cohorts:manage')) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { id } = await params;
+  const cohortId = parseId(id);
+  if (cohortId === null) {
+    return NextResponse.json({ error: 'Invalid id' }, { status: 400 });
+  }
+  if (!canAccessCohort(caller, cohortId)) {
+    return NextResponse.json({ error: 'Cohort not found' }, { status: 404 });
+  }
+
+  try {
+    const [row, settings] = await Promise.all([
+      prisma.readinessPolicy.findUnique({ where: { cohortId } }),
+      getSettings(),
+    ]);
+    return NextResponse.json({
+      policy: row ? toPolicy(row) : DEFAULT_READINESS_POLICY,
+      isDefault: !row,
+      globalThreshold: settings.readinessThreshold,
+    });
+  } catch (error) {
+    console.error('[/api/cohorts/[id]/readiness-policy GET] Failed to fetch policy:', error);
+    return NextResponse.json({ error: 'Failed to fetch readiness policy' }, { status: 500 });
+  }
+}
+
+// ---------------------------------------------------------------------------
+// PUT /api/cohorts/[id]/readiness-policy — upsert, then recompute the cohort
+// ---------------------------------------------------------------------------
+
+export async function PUT(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const caller = await getCallerIdentity() // [AUDIT-VERIFIED: P20]
+  if (!can(caller, 'cohorts:manage')) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { id } = await params;
+  const cohortId = parseId(id);
+  if (cohortId === null) {
+    return NextResponse.json({ error: 'Invalid id' }, { status: 400 });
+  }
+  if (!canAccessCohort(caller, cohortId)) {
+    return NextResponse.json({ error: 'Cohort not found' }, { status: 404 });
+  }
+
+  let payload: unknown;
+  try {
+    payload = await req.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON' }, { status: 400 });
+  }
+
+  const parsed = PolicySchema.safeParse(payload);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: 'Invalid input', issues: parsed.error.issues },
+      { status: 400 }
+    );
+  }
+
+  const data = {
+    ...parsed.data,
+    requiredSkills: [...new Set(parsed.data.requiredSkills.map((s) => s.toLowerCase()))],
+  };
+
+  try {
+    const previous = await prisma.readinessPolicy.findUnique({ where: { cohortId } });
+    const row = await prisma.readinessPolicy.upsert({
+      where: { cohortId },
+      create: { cohortId, ...data },
+      update: data,
+    });
+    const diff = diffValues({ ...(previous ? toPolicy(previous) : DEFAULT_READINESS_POLICY) }, { ...toPolicy(row) });
+    if (diff) await recordAuditEvent(caller, { action: 'readiness_policy.update', targetId: cohortId, ...diff });
+    const { readinessThreshold } = await getSettings();
+    await recomputeCohortReadiness(cohortId, readinessThreshold);
+    return NextResponse.json({ policy: toPolicy(row), isDefault: false, globalThreshold: readinessThreshold });
+  } catch (error) {
+    if (isPrismaError(error, 'P2003')) {
+      return NextResponse.json({ error: 'Cohort not found' }, { status: 404 });
+    }
+    console.error('[/api/cohorts/[id]/readiness-policy PUT] Failed to save policy:', error);
+    return NextResponse.json({ error: 'Failed to save readiness policy' }, { status: 500 });
+  }
+}
+
+// ---------------------------------------------------------------------------
+// DELETE /api/cohorts/[id]/readiness-policy — back to the default model
+// ---------------------------------------------------------------------------
+
+export async function DELETE(
+  _req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const caller = await getCallerIdentity() // [AUDIT-VERIFIED: P20]
+  if (!can(caller, 'cohorts:manage')) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { id } = await params;
+  const cohortId = parseId(id);
+  if (cohortId === null) {
+    return NextResponse.json({ error: 'Invalid id' }, { status: 400 });
+  }
+  if (!canAccessCohort(caller, cohortId)) {
+    return NextResponse.json({ error: 'Cohort not found' }, { status: 404 });
+  }
+
+  try {
+    const previous = await prisma.readinessPolicy.findUnique({ where: { cohortId } });
+    await prisma.readinessPolicy.deleteMany({ where: { cohortId } });
+    if (previous) {
+      await recordAuditEvent(caller, { action: 'readiness_policy.delete', targetId: cohortId, before: { ...toPolicy(previous) } });
+    }
+    const { readinessThreshold } = await getSettings();
+    await recomputeCohortReadiness(cohortId, readinessThreshold);
+    return NextResponse.json({
+      policy: DEFAULT_READINESS_POLICY,
+      isDefault: true,
+      globalThreshold: readinessThreshold,
+    });
+  } catch (error) {
+    console.error('[/api/cohorts/[id]/readiness-policy DELETE] Failed to reset policy:', error);
+    return NextResponse.json({ error: 'Failed to reset readiness policy' }, { status: 500 });
+  }
+}
@@ -1,6 +1,8 @@
 import { NextResponse } from 'next/server';
 import { z } from 'zod';
 import { getCallerIdentity } from '@/lib/identity';
+import { can, canAccessCohort, isStaff } from '@/lib/authorization';
+import { recordAuditEvent } from '@/lib/auditLog';
 import { prisma } from '@/lib/prisma';
 import type { CohortDTO } from '@/lib/cohort-types';
 
@@ -68,7 +70,7 @@ export async function GET(
   { params }: { params: Promise<{ id: string }> }
 ) {
   const caller = await getCallerIdentity() // [AUDIT-VERIFIED: P20]
-  if (caller.kind !== 'trainer' && caller.kind !== 'admin') {
+  if (!isStaff(caller)) {
     return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
   }
 
@@ -77,6 +79,9 @@ export async function GET(
   if (idNum === null) {
     return NextResponse.json({ error: 'Invalid id' }, { status: 400 });
   }
+  if (!canAccessCohort(caller, idNum)) {
+    return NextResponse.json({ error: 'Cohort not found' }, { status: 404 });
+  }
 
   try {
     const cohort = await prisma.cohort.findUnique({
@@ -105,7 +110,7 @@ export async function PATCH(
   { params }: { params: Promise<{ id: string }> }
 ) {
   const caller = await getCallerIdentity() // [AUDIT-VERIFIED: P20]
-  if (caller.kind !== 'trainer' && caller.kind !== 'admin') {
+  if (!can(caller, 'cohorts:manage')) {
     return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
   }
 
@@ -114,6 +119,9 @@ export async function PATCH(
   if (idNum === null) {
     return NextResponse.json({ error: 'Invalid id' }, { status: 400 });
   }
+  if (!canAccessCohort(caller, idNum)) {
+    return NextResponse.json({ error: 'Cohort not found' }, { status: 404 });
+  }
 
   let payload: unknown;
   try {
@@ -211,7 +219,7 @@ export async function DELETE(
   { params }: { params: Promise<{ id: string }> }
 ) {
   const caller = await getCallerIdentity() // [AUDIT-VERIFIED: P20]
-  if (caller.kind !== 'trainer' && caller.kind !== 'admin') {
+  if (!can(caller, 'cohorts:manage')) {
     return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
   }
 
@@ -220,19 +228,33 @@ export async function DELETE(
   if (idNum === null) {
     return NextResponse.json({ error: 'Invalid id' }, { status: 400 });
   }
+  if (!canAccessCohort(caller, idNum)) {
+    return NextResponse.json({ error: 'Cohort not found' }, { status: 404 });
+  }
 
   try {
     // interactive tx: requires session-scoped connection (Supabase transaction pooler handles this)
-    await prisma.$transaction(
+    const { cohort, unassigned } = await prisma.$transaction(
       async (tx) => {
-        await tx.associate.updateMany({
+        const { count } = await tx.associate.updateMany({
           where: { cohortId: idNum },
           data: { cohortId: null },
         });
-        await tx.cohort.delete({ where: { id: idNum } });
+        const deleted = await tx.cohort.delete({ where: { id: idNum } });
+        return { cohort: deleted, unassigned: count };
       },
       { timeout: 10_000 }
     );
+    await recordAuditEvent(caller, {
+      action: 'cohort.delete',
+      targetId: idNum,
+      before: {
+        name: cohort.name,
+        startDate: cohort.startDate,
+        endDate: cohort.endDate,
+        unassignedAssociates: unassigned,
+      },
+    });
     return new NextResponse(null, { status: 204 });
   } catch (error) {
     if (isPrismaError(error, 'P2025')) {
@@ -1,6 +1,7 @@
 import { NextResponse } from 'next/server';
 import { z } from 'zod';
 import { getCallerIdentity } from '@/lib/identity';
+import { can, cohortScope, isStaff } from '@/lib/authorization';
 import { prisma } from '@/lib/prisma';
 import type { CohortDTO } from '@/lib/cohort-types';
 
@@ -41,12 +42,14 @@ function toDTO(row: CohortRow): CohortDTO {
 
 export async function GET() {
   const caller = await getCallerIdentity() // [AUDIT-VERIFIED: P20]
-  if (caller.kind !== 'trainer' && caller.kind !== 'admin') {
+  if (!isStaff(caller)) {
     return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
   }
 
   try {
+    const scope = cohortScope(caller);
     const cohorts = await prisma.cohort.findMany({
+      ...(scope ? { where: { id: { in: scope } } } : {}),
       include: { _count: { select: { associates: true } } },
       orderBy: { startDate: 'desc' },
     });
@@ -60,7 +63,7 @@ export async function GET() {
 
 export async function POST(req: Request) {
   const caller = await getCallerIdentity() // [AUDIT-VERIFIED: P20]
-  if (caller.kind !== 'trainer' && caller.kind !== 'admin') {
+  if (!can(caller, 'cohorts:manage')) {
     return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
   }
 
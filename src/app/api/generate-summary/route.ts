@@ -1,6 +1,5 @@
 // API route for generating overall interview feedback summary
 import { NextRequest, NextResponse } from 'next/server';
-import { ChatOpenAI } from '@langchain/openai';
 import { ChatPromptTemplate } from '@langchain/core/prompts';
 import { StateGraph, START, END, Annotation } from "@langchain/langgraph";
 
@@ -42,27 +41,51 @@ Ensure the output is valid JSON.`],
     ['human', `Generate an interview summary for this session:
 
 {sessionData}
+{summaryGuidance}
 `]
 ]);
 
 import { getCallerIdentity } from '@/lib/identity';
+import { can } from '@/lib/authorization';
+import { createChatModel, getLlmConfigProblem, isHeuristicProvider } from '@/lib/llmProvider';
+import { heuristicSummary } from '@/lib/heuristicScorer';
+import { resolveRubric, type ScoringRubric } from '@/lib/rubricService';
+
+// Trainer-authored summary guidance from each session skill's rubric, deduped
+// (several skills may fall back to the same default rubric).
+async function loadSummaryGuidance(skills: unknown): Promise<string> {
+    if (!Array.isArray(skills)) return '';
+    const rubrics = new Map<string, ScoringRubric>();
+    for (const skill of skills) {
+        if (typeof skill !== 'string') continue;
+        const rubric = await resolveRubric({ skill });
+        if (rubric?.summaryGuidance) rubrics.set(`${rubric.skillSlug}@${rubric.version}`, rubric);
+    }
+    if (rubrics.size === 0) return '';
+    const sections = [...rubrics.values()].map((r) => `[${r.skillSlug} v${r.version}]\n${r.summaryGuidance}`);
+    return `\nTRAINER SUMMARY GUIDANCE (follow where applicable):\n${sections.join('\n\n')}`;
+}
 
 export async function POST(request: NextRequest) {
     try {
         const caller = await getCallerIdentity()
-        if (caller.kind !== 'trainer' && caller.kind !== 'admin') {
+        if (!can(caller, 'associates:write')) {
             return NextResponse.json({ error: 'Unauthorized access' }, { status: 401 });
         }
-        const apiKey = process.env.OPENAI_API_KEY;
-        if (!apiKey || !apiKey.startsWith('sk-')) {
+        const body = await request.json();
+        const { assessments, questions, skills } = body;
+
+        if (isHeuristicProvider()) {
+            return NextResponse.json(heuristicSummary(questions, assessments));
+        }
+
+        const configProblem = getLlmConfigProblem();
+        if (configProblem) {
             return NextResponse.json({
-                error: 'OpenAI API Key not configured'
+                error: configProblem
             }, { status: 500 });
         }
 
-        const body = await request.json();
-        const { assessments, questions } = body;
-
         // format data for the prompt to save tokens but keep context
         const sessionSummary = questions.map((q: any, i: number) => {
             const assessment = assessments[q.id];
@@ -78,22 +101,29 @@ Specific Feedback: ${assessment.llmFeedback || assessment.finalFeedback}
 `;
         }).filter(Boolean).join('\n---\n');
 
-        const model = new ChatOpenAI({
-            modelName: 'gpt-4o-mini',
+        const model = createChatModel({
             temperature: 0.4, // Slightly creative for narrative, but grounded
-            openAIApiKey: apiKey,
         });
 
+        let summaryGuidance = '';
+        try {
+            summaryGuidance = await loadSummaryGuidance(skills);
+        } catch (error) {
+            console.warn('Rubric lookup failed; summarizing without trainer guidance:', error);
+        }
+
         // LANGGRAPH WORKFLOW SETUP
         const SummaryState = Annotation.Root({
             sessionData: Annotation<string>(),
+            summaryGuidance: Annotation<string>(),
             questionCount: Annotation<number>(),
             responseContent: Annotation<string>()
         });
 
         const generateSummaryNode = async (state: typeof SummaryState.State) => {
             const response = await SUMMARY_PROMPT.pipe(model).invoke({
-                sessionData: state.sessionData
+                sessionData: state.sessionData,
+                summaryGuidance: state.summaryGuidance
             }, {
                 tags: ["summary-agent"],
                 metadata: {
@@ -111,6 +141,7 @@ Specific Feedback: ${assessment.llmFeedback || assessment.finalFeedback}
 
         const finalState = await workflow.invoke({
             sessionData: sessionSummary,
+            summaryGuidance,
             questionCount: questions.length,
             responseContent: ''
         }, {
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getCallerIdentity } from '@/lib/identity';
+import { can } from '@/lib/authorization';
 import { invalidate } from '@/lib/githubManifestCache';
 
 const OWNER = 'JesterCharles';
@@ -30,7 +31,7 @@ export async function POST(request: NextRequest) {
   }
 
   const caller = await getCallerIdentity(); // [AUDIT-VERIFIED: P20]
-  if (caller.kind !== 'trainer' && caller.kind !== 'admin') {
+  if (!can(caller, 'content:write')) {
     return NextResponse.json({ error: 'unauthorized' }, { status: 401 });
   }
 
@@ -1,6 +1,6 @@
 import { NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
-import { systemInfo } from '@/lib/judge0Client';
+import { executionBackendName, systemInfo } from '@/lib/executionBackend';
 import { isCodingEnabled } from '@/lib/codingFeatureFlag';
 import { log } from '@/lib/logger';
 
@@ -27,6 +27,8 @@ function judge0IsConfigured(): boolean {
   // - JUDGE0_URL unset or empty string → disabled, skip network call
   // Either signal is sufficient; both are expected in v1.5 prod.
   if (!isCodingEnabled()) return false;
+  // The local sandbox runner needs no URL — it executes on this machine.
+  if (executionBackendName() === 'local') return true;
   const url = process.env.JUDGE0_URL;
   if (!url || url.trim() === '') return false;
   return true;
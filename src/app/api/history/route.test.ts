@@ -0,0 +1,143 @@
+/**
+ * Unit tests for /api/history (GET list, POST save, DELETE remove).
+ *
+ * Auth gate and cohort scoping of the history file; persistence side effects
+ * are mocked.
+ */
+
+import { vi, describe, it, expect, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+
+vi.mock('@/lib/identity', () => ({
+  getCallerIdentity: vi.fn(),
+}));
+
+vi.mock('@/lib/historyService', () => ({
+  readHistory: vi.fn(),
+  writeHistory: vi.fn(),
+}));
+
+vi.mock('@/lib/sessionPersistence', () => ({
+  diffScoreOverrides: vi.fn(() => null),
+  persistSessionToDb: vi.fn(),
+}));
+
+vi.mock('@/lib/auditLog', () => ({
+  recordAuditEvent: vi.fn(),
+}));
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    associate: { findMany: vi.fn(), findUnique: vi.fn() },
+    session: { findUnique: vi.fn(), deleteMany: vi.fn() },
+  },
+}));
+
+vi.mock('@/lib/gapPersistence', () => ({ saveGapScores: vi.fn() }));
+vi.mock('@/lib/readinessService', () => ({ updateAssociateReadiness: vi.fn() }));
+vi.mock('@/lib/settingsService', () => ({ getSettings: vi.fn() }));
+
+import { getCallerIdentity } from '@/lib/identity';
+import { readHistory, writeHistory } from '@/lib/historyService';
+import { persistSessionToDb } from '@/lib/sessionPersistence';
+import { prisma } from '@/lib/prisma';
+import { GET, POST, DELETE } from './route';
+
+const mockAuth = getCallerIdentity as ReturnType<typeof vi.fn>;
+const mockRead = readHistory as ReturnType<typeof vi.fn>;
+const mockWrite = writeHistory as ReturnType<typeof vi.fn>;
+const mockAssociates = prisma.associate.findMany as ReturnType<typeof vi.fn>;
+const mockAssociate = prisma.associate.findUnique as ReturnType<typeof vi.fn>;
+const mockSession = prisma.session.findUnique as ReturnType<typeof vi.fn>;
+const mockDelete = prisma.session.deleteMany as ReturnType<typeof vi.fn>;
+
+const TRAINER = { kind: 'trainer', userId: 't-1', email: 'coach@x.io' };
+const SCOPED = { ...TRAINER, cohortIds: [1] };
+
+const HISTORY = [
+  { id: 's-ada', associateSlug: 'ada', date: '2026-05-01' },
+  { id: 's-bob', associateSlug: 'bob', date: '2026-05-02' },
+  { id: 's-anon', date: '2026-05-03' },
+];
+
+function req(method: string, body: unknown) {
+  return new NextRequest('http://localhost/api/history', {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mockAuth.mockResolvedValue(TRAINER);
+  mockRead.mockReturnValue(HISTORY);
+  mockSession.mockResolvedValue(null);
+  mockAssociate.mockResolvedValue(null);
+  mockDelete.mockResolvedValue({ count: 1 });
+  // Only ada is in cohort 1.
+  mockAssociates.mockImplementation(({ where }) =>
+    Promise.resolve(where.slug.in.filter((s: string) => s === 'ada').map((slug: string) => ({ slug }))),
+  );
+});
+
+describe('GET /api/history', () => {
+  it('returns 401 for callers without associates:read', async () => {
+    mockAuth.mockResolvedValue({ kind: 'anonymous' });
+    expect((await GET()).status).toBe(401);
+  });
+
+  it('returns everything to unscoped staff', async () => {
+    const res = await GET();
+    expect((await res.json()).history).toHaveLength(3);
+    expect(mockAssociates).not.toHaveBeenCalled();
+  });
+
+  it('limits a scoped trainer to associates in their cohorts', async () => {
+    mockAuth.mockResolvedValue(SCOPED);
+    const res = await GET();
+    expect((await res.json()).history.map((h: { id: string }) => h.id)).toEqual(['s-ada']);
+    expect(mockAssociates).toHaveBeenCalledWith({
+      where: { slug: { in: ['ada', 'bob'] }, cohortId: { in: [1] } },
+      select: { slug: true },
+    });
+  });
+});
+
+describe('POST /api/history', () => {
+  it('saves a session for an associate in scope', async () => {
+    mockAuth.mockResolvedValue(SCOPED);
+    const res = await POST(req('POST', { id: 's-new', associateSlug: 'ada', assessments: {} }));
+    expect(res.status).toBe(200);
+    expect(persistSessionToDb).toHaveBeenCalled();
+  });
+
+  it('returns 403 for an associate outside the trainer scope', async () => {
+    mockAuth.mockResolvedValue(SCOPED);
+    expect((await POST(req('POST', { id: 's-new', associateSlug: 'bob', assessments: {} }))).status).toBe(403);
+    // Re-pointing bob's session at ada must not overwrite it either.
+    expect((await POST(req('POST', { id: 's-bob', associateSlug: 'ada', assessments: {} }))).status).toBe(403);
+    expect(mockWrite).not.toHaveBeenCalled();
+    expect(persistSessionToDb).not.toHaveBeenCalled();
+  });
+});
+
+describe('DELETE /api/history', () => {
+  it('deletes a session in scope', async () => {
+    mockAuth.mockResolvedValue(SCOPED);
+    const res = await DELETE(req('DELETE', { sessionId: 's-ada' }));
+    expect(res.status).toBe(200);
+    expect(mockDelete).toHaveBeenCalledWith({ where: { id: 's-ada' } });
+  });
+
+  it('returns 404 for a session outside the trainer scope', async () => {
+    mockAuth.mockResolvedValue(SCOPED);
+    expect((await DELETE(req('DELETE', { sessionId: 's-bob' }))).status).toBe(404);
+
+    // Not in the file: the DB row's associate decides.
+    mockSession.mockResolvedValue({ associate: { slug: 'bob' } });
+    expect((await DELETE(req('DELETE', { sessionId: 's-db' }))).status).toBe(404);
+    expect(mockWrite).not.toHaveBeenCalled();
+    expect(mockDelete).not.toHaveBeenCalled();
+  });
+});
@@ -3,21 +3,43 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { InterviewSession } from '@/lib/types';
 import { getCallerIdentity } from '@/lib/identity';
+import { can, cohortScopeWhere, type StaffIdentity } from '@/lib/authorization';
 import { readHistory, writeHistory } from '@/lib/historyService';
-import { persistSessionToDb } from '@/lib/sessionPersistence';
+import { diffScoreOverrides, persistSessionToDb } from '@/lib/sessionPersistence';
+import { recordAuditEvent } from '@/lib/auditLog';
 import { prisma } from '@/lib/prisma';
 import { saveGapScores } from '@/lib/gapPersistence';
 import { updateAssociateReadiness } from '@/lib/readinessService';
 import { getSettings } from '@/lib/settingsService';
 
-// GET - Retrieve all interview history
+// Slugs a cohort-scoped caller may see among `slugs`; null when unscoped.
+// Sessions with no associate are only visible to unscoped staff.
+async function slugsInScope(caller: StaffIdentity, slugs: Array<string | undefined>): Promise<Set<string> | null> {
+    const scopeWhere = cohortScopeWhere(caller);
+    if (!scopeWhere) return null;
+    const wanted = [...new Set(slugs.filter((s): s is string => !!s))];
+    if (wanted.length === 0) return new Set();
+    const rows = await prisma.associate.findMany({
+        where: { slug: { in: wanted }, ...scopeWhere },
+        select: { slug: true },
+    });
+    return new Set(rows.map(r => r.slug));
+}
+
+function inScope(slugs: Set<string> | null, slug: string | undefined): boolean {
+    return slugs === null || (!!slug && slugs.has(slug));
+}
+
+// GET - Retrieve interview history (limited to the caller's cohorts when scoped)
 export async function GET() {
     try {
         const caller = await getCallerIdentity() // [AUDIT-VERIFIED: P20]
-        if (caller.kind !== 'trainer' && caller.kind !== 'admin') {
+        if (!can(caller, 'associates:read')) {
             return NextResponse.json({ error: 'Unauthorized access' }, { status: 401 });
         }
-        const history = readHistory();
+        const all = readHistory();
+        const slugs = await slugsInScope(caller, all.map(h => h.associateSlug));
+        const history = all.filter(h => inScope(slugs, h.associateSlug));
         return NextResponse.json({ history });
     } catch (error) {
         console.error('Error loading history:', error);
@@ -29,7 +51,7 @@ export async function GET() {
 export async function POST(request: NextRequest) {
     try {
         const caller = await getCallerIdentity() // [AUDIT-VERIFIED: P20]
-        if (caller.kind !== 'trainer' && caller.kind !== 'admin') {
+        if (!can(caller, 'associates:write')) {
             return NextResponse.json({ error: 'Unauthorized access' }, { status: 401 });
         }
         const session: InterviewSession = await request.json();
@@ -38,6 +60,14 @@ export async function POST(request: NextRequest) {
 
         // Check if session already exists (update it) or add new
         const existingIndex = history.findIndex(h => h.id === session.id);
+
+        // A scoped trainer may neither save a session for, nor overwrite one
+        // belonging to, an associate outside their cohorts.
+        const previousSlug = existingIndex >= 0 ? history[existingIndex].associateSlug : session.associateSlug;
+        const slugs = await slugsInScope(caller, [session.associateSlug, previousSlug]);
+        if (!inScope(slugs, session.associateSlug) || !inScope(slugs, previousSlug)) {
+            return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+        }
         if (existingIndex >= 0) {
             history[existingIndex] = session;
         } else {
@@ -49,9 +79,22 @@ export async function POST(request: NextRequest) {
         const trimmedHistory = history.slice(0, 100);
         writeHistory(trimmedHistory);
 
+        // Stored scores, so re-saving a reviewed session doesn't re-report its overrides.
+        const stored = await prisma.session
+            .findUnique({ where: { id: session.id }, select: { assessments: true } })
+            .catch(() => null);
+
         // Dual-write to Supabase (D-01: log-and-continue on failure)
         await persistSessionToDb(session);
 
+        const overrides = diffScoreOverrides(
+            (stored?.assessments ?? null) as Record<string, { finalScore?: number }> | null,
+            session.assessments ?? {},
+        );
+        if (overrides) {
+            await recordAuditEvent(caller, { action: 'session.score_override', targetId: session.id, ...overrides });
+        }
+
         // Fire-and-forget gap score + readiness computation (D-04: never block session save)
         // Pipeline: computeGapScores → updateAssociateReadiness (sequential per Pitfall 3)
         if (session.associateSlug) {
@@ -84,22 +127,45 @@ export async function POST(request: NextRequest) {
 export async function DELETE(request: NextRequest) {
     try {
         const caller = await getCallerIdentity() // [AUDIT-VERIFIED: P20]
-        if (caller.kind !== 'trainer' && caller.kind !== 'admin') {
+        if (!can(caller, 'associates:write')) {
             return NextResponse.json({ error: 'Unauthorized access' }, { status: 401 });
         }
         const { sessionId } = await request.json();
+        const removed = readHistory().find(h => h.id === sessionId);
+
+        // Out-of-scope sessions look the same as missing ones.
+        if (cohortScopeWhere(caller)) {
+            const slug = removed?.associateSlug ?? (
+                await prisma.session.findUnique({
+                    where: { id: sessionId },
+                    select: { associate: { select: { slug: true } } },
+                })
+            )?.associate?.slug;
+            if (!inScope(await slugsInScope(caller, [slug]), slug)) {
+                return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+            }
+        }
 
         const history = readHistory();
         const filteredHistory = history.filter(h => h.id !== sessionId);
         writeHistory(filteredHistory);
 
         // Dual-delete from Supabase (log-and-continue on failure)
+        let deletedRows = 0;
         try {
-            await prisma.session.deleteMany({ where: { id: sessionId } });
+            ({ count: deletedRows } = await prisma.session.deleteMany({ where: { id: sessionId } }));
         } catch (error) {
             console.error('[history] DB delete failed:', error);
         }
 
+        if (removed || deletedRows > 0) {
+            await recordAuditEvent(caller, {
+                action: 'session.delete',
+                targetId: sessionId,
+                before: { associateSlug: removed?.associateSlug ?? null, date: removed?.date ?? null },
+            });
+        }
+
         return NextResponse.json({ success: true, totalSessions: filteredHistory.length });
     } catch (error) {
         console.error('Error deleting from history:', error);
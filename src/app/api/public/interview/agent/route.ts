@@ -1,9 +1,10 @@
 import { NextResponse } from 'next/server';
-import { ChatOpenAI } from "@langchain/openai";
 import { PromptTemplate } from "@langchain/core/prompts";
 import { StringOutputParser } from "@langchain/core/output_parsers";
 import { StateGraph, START, END, Annotation } from "@langchain/langgraph";
 import { log } from '@/lib/logger';
+import { createChatModel, isHeuristicProvider } from '@/lib/llmProvider';
+import { heuristicFollowUp } from '@/lib/heuristicScorer';
 
 export async function POST(request: Request) {
     try {
@@ -47,8 +48,16 @@ export async function POST(request: Request) {
         // Budget warning at 1300 characters
         const character_count_warning = char_count > 1300;
 
-        const model = new ChatOpenAI({
-            modelName: "gpt-4o-mini",
+        if (isHeuristicProvider()) {
+            const decision = heuristicFollowUp(original_question || topic, full_response_so_far);
+            return NextResponse.json({
+                ...decision,
+                appended_response: full_response_so_far,
+                character_count_warning,
+            });
+        }
+
+        const model = createChatModel({
             temperature: 0.1, // Very low temperature for conservative, consistent decisions
         });
 
@@ -46,7 +46,7 @@ export async function POST(request: Request) {
     }
 
     // Fingerprint-based auth — same gate as /api/public/interview/start
-    const rateLimit = checkRateLimit(fingerprint);
+    const rateLimit = await checkRateLimit(fingerprint);
     if (!rateLimit.allowed) {
       return NextResponse.json(
         { error: 'Rate limit exceeded', nextReset: rateLimit.nextReset.toISOString() },
@@ -1,5 +1,5 @@
 import { NextResponse } from 'next/server';
-import { checkRateLimit, incrementInterviewCount } from '@/lib/rateLimitService';
+import { checkRateLimit, consumeInterviewRateLimit } from '@/lib/rateLimitService';
 import { log } from '@/lib/logger';
 
 export async function POST(request: Request) {
@@ -14,9 +14,10 @@ export async function POST(request: Request) {
             );
         }
 
-        const rateLimit = checkRateLimit(fingerprint);
-
         if (action === 'start') {
+            // Check and take the slot in one step, so parallel starts from one
+            // fingerprint cannot all pass the check before any is counted.
+            const rateLimit = await consumeInterviewRateLimit(fingerprint);
             if (!rateLimit.allowed) {
                 log.warn('public.interview.start.rate_limited', {
                     route: '/api/public/interview/start',
@@ -31,22 +32,20 @@ export async function POST(request: Request) {
                 );
             }
 
-            // We explicitly increment here to consume one interview slot
-            incrementInterviewCount(fingerprint);
-
             log.info('public.interview.start', {
                 route: '/api/public/interview/start',
                 action,
-                remaining: rateLimit.remaining - 1,
+                remaining: rateLimit.remaining,
             });
             return NextResponse.json({
                 success: true,
-                remaining: rateLimit.remaining - 1,
+                remaining: rateLimit.remaining,
                 nextReset: rateLimit.nextReset.toISOString()
             });
         }
 
         // Default action: just check status
+        const rateLimit = await checkRateLimit(fingerprint);
         log.info('public.interview.start.status', {
             route: '/api/public/interview/start',
             allowed: rateLimit.allowed,
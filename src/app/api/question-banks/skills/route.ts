@@ -0,0 +1,26 @@
+/**
+ * /api/question-banks/skills — curriculum skill slugs for the bank linter
+ *
+ * GET  — Distinct CurriculumWeek.skillSlug values. The /question-banks
+ *        validation panel checks each question's topic against this list.
+ */
+
+import { NextResponse } from 'next/server';
+import { getCallerIdentity } from '@/lib/identity';
+import { can } from '@/lib/authorization';
+import { listSkillSlugs } from '@/lib/curriculumService';
+
+export async function GET() {
+  const caller = await getCallerIdentity();
+  if (!can(caller, 'content:write')) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const skillSlugs = await listSkillSlugs();
+    return NextResponse.json({ skillSlugs });
+  } catch (error) {
+    console.error('[/api/question-banks/skills GET] Failed:', error);
+    return NextResponse.json({ error: 'Failed to load curriculum skills' }, { status: 500 });
+  }
+}
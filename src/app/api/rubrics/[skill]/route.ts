@@ -0,0 +1,33 @@
+/**
+ * /api/rubrics/[skill] — Version history for one skill's rubric
+ *
+ * GET /api/rubrics/[skill]  — All versions, newest first. 404 when the skill has none.
+ */
+
+import { NextResponse } from 'next/server';
+import { getCallerIdentity } from '@/lib/identity';
+import { can } from '@/lib/authorization';
+import { listRubricVersions } from '@/lib/rubricService';
+
+export async function GET(
+  _req: Request,
+  { params }: { params: Promise<{ skill: string }> }
+) {
+  const caller = await getCallerIdentity();
+  if (!can(caller, 'content:write')) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { skill } = await params;
+
+  try {
+    const versions = await listRubricVersions(skill);
+    if (versions.length === 0) {
+      return NextResponse.json({ error: 'Rubric not found' }, { status: 404 });
+    }
+    return NextResponse.json(versions);
+  } catch (error) {
+    console.error('[/api/rubrics/[skill] GET] Failed:', error);
+    return NextResponse.json({ error: 'Failed to load rubric versions' }, { status: 500 });
+  }
+}
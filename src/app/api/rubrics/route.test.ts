@@ -0,0 +1,130 @@
+/**
+ * Unit tests for /api/rubrics route (GET list + POST new version).
+ *
+ * The rubric service and auth are mocked — no DB connection or cookie required.
+ *
+ * Covers:
+ * - Auth guard (401) on both methods
+ * - GET returns the latest rubric per skill
+ * - POST explicit fields → source 'settings', createdBy from caller
+ * - POST markdown → parsed server-side, source 'repo'
+ * - POST invalid payloads return 400 + zod issues
+ * - POST P2002 (concurrent save) returns 409
+ */
+
+import { vi, describe, it, expect, beforeEach } from 'vitest';
+
+vi.mock('@/lib/rubricService', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('@/lib/rubricService')>();
+  return {
+    ...actual,
+    listLatestRubrics: vi.fn(),
+    createRubricVersion: vi.fn(),
+  };
+});
+
+vi.mock('@/lib/prisma', () => ({ prisma: {} }));
+
+vi.mock('@/lib/identity', () => ({
+  getCallerIdentity: vi.fn(),
+}));
+
+import { getCallerIdentity } from '@/lib/identity';
+import { listLatestRubrics, createRubricVersion } from '@/lib/rubricService';
+import { GET, POST } from '@/app/api/rubrics/route';
+
+const mockAuth = getCallerIdentity as ReturnType<typeof vi.fn>;
+const mockList = listLatestRubrics as ReturnType<typeof vi.fn>;
+const mockCreate = createRubricVersion as ReturnType<typeof vi.fn>;
+
+const trainer = { kind: 'trainer', userId: 'u1', email: 'trainer@test.com' };
+
+function makePost(body: unknown): Request {
+  return new Request('http://localhost/api/rubrics', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+describe('GET /api/rubrics', () => {
+  it('returns 401 when unauthenticated', async () => {
+    mockAuth.mockResolvedValue({ kind: 'anonymous' });
+    const res = await GET();
+    expect(res.status).toBe(401);
+    expect(mockList).not.toHaveBeenCalled();
+  });
+
+  it('returns the latest rubric per skill', async () => {
+    mockAuth.mockResolvedValue(trainer);
+    mockList.mockResolvedValue([{ skillSlug: 'react', version: 2, versionCount: 2 }]);
+    const res = await GET();
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual([{ skillSlug: 'react', version: 2, versionCount: 2 }]);
+  });
+});
+
+describe('POST /api/rubrics', () => {
+  it('returns 401 when unauthenticated', async () => {
+    mockAuth.mockResolvedValue({ kind: 'associate', userId: 'a', email: 'a@test.com', associateId: 1, associateSlug: 'a' });
+    const res = await POST(makePost({ skillSlug: 'react', scoringGuidance: 'x' }));
+    expect(res.status).toBe(401);
+  });
+
+  it('creates a settings-sourced version from explicit fields', async () => {
+    mockAuth.mockResolvedValue(trainer);
+    mockCreate.mockResolvedValue({ skillSlug: 'react', version: 1 });
+    const res = await POST(makePost({ skillSlug: 'react', scoringGuidance: 'be fair', summaryGuidance: null }));
+    expect(res.status).toBe(201);
+    expect(mockCreate).toHaveBeenCalledWith({
+      skillSlug: 'react',
+      scoringGuidance: 'be fair',
+      summaryGuidance: null,
+      source: 'settings',
+      createdBy: 'trainer@test.com',
+    });
+  });
+
+  it('parses a question-bank rubric file as source repo', async () => {
+    mockAuth.mockResolvedValue(trainer);
+    mockCreate.mockResolvedValue({ skillSlug: 'sql', version: 3 });
+    const markdown = '## Scoring\nReward joins.\n## Summary\nMention indexes.';
+    const res = await POST(makePost({ markdown, skillSlug: 'sql' }));
+    expect(res.status).toBe(201);
+    expect(mockCreate).toHaveBeenCalledWith(
+      expect.objectContaining({
+        skillSlug: 'sql',
+        scoringGuidance: 'Reward joins.',
+        summaryGuidance: 'Mention indexes.',
+        source: 'repo',
+      }),
+    );
+  });
+
+  it('returns 400 for a rubric file without a skill', async () => {
+    mockAuth.mockResolvedValue(trainer);
+    const res = await POST(makePost({ markdown: '## Scoring\nx' }));
+    expect(res.status).toBe(400);
+    expect(mockCreate).not.toHaveBeenCalled();
+  });
+
+  it('returns 400 + issues for an invalid slug', async () => {
+    mockAuth.mockResolvedValue(trainer);
+    const res = await POST(makePost({ skillSlug: 'React JS', scoringGuidance: 'x' }));
+    expect(res.status).toBe(400);
+    const body = await res.json();
+    expect(body.error).toBe('Invalid input');
+    expect(Array.isArray(body.issues)).toBe(true);
+  });
+
+  it('returns 409 on P2002', async () => {
+    mockAuth.mockResolvedValue(trainer);
+    mockCreate.mockRejectedValue(Object.assign(new Error('Unique constraint'), { code: 'P2002' }));
+    const res = await POST(makePost({ skillSlug: 'react', scoringGuidance: 'x' }));
+    expect(res.status).toBe(409);
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * /api/rubrics — Trainer-editable scoring rubrics per skill
+ *
+ * GET  /api/rubrics  — Latest version of every skill's rubric (with version counts)
+ * POST /api/rubrics  — Save a new version of one skill's rubric
+ *
+ * POST accepts either explicit fields ({ skillSlug, scoringGuidance, summaryGuidance? })
+ * or a question-bank rubric file ({ markdown, skillSlug? }) which is parsed
+ * server-side and stored with source 'repo'. Rubrics are append-only; saving
+ * never edits a previous version, so past scores keep pointing at the text
+ * that graded them.
+ *
+ * POST maps Prisma P2002 → 409 (two trainers saving the same skill at once).
+ */
+
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getCallerIdentity } from '@/lib/identity';
+import { can } from '@/lib/authorization';
+import {
+  createRubricVersion,
+  listLatestRubrics,
+  parseRubricMarkdown,
+} from '@/lib/rubricService';
+
+const slug = z.string().regex(/^[a-z0-9][a-z0-9-]*$/).max(50);
+
+const CreateRubricSchema = z.union([
+  z.object({
+    skillSlug: slug,
+    scoringGuidance: z.string().trim().min(1).max(8000),
+    summaryGuidance: z.string().max(4000).nullable().optional(),
+  }),
+  z.object({
+    markdown: z.string().min(1).max(16000),
+    skillSlug: slug.optional(),
+  }),
+]);
+
+function isPrismaError(error: unknown, code: string): boolean {
+  return (
+    !!error &&
+    typeof error === 'object' &&
+    'code' in error &&
+    (error as { code?: string }).code === code
+  );
+}
+
+export async function GET() {
+  const caller = await getCallerIdentity();
+  if (!can(caller, 'content:write')) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const rubrics = await listLatestRubrics();
+    return NextResponse.json(rubrics);
+  } catch (error) {
+    console.error('[/api/rubrics GET] Failed to list rubrics:', error);
+    return NextResponse.json({ error: 'Failed to list rubrics' }, { status: 500 });
+  }
+}
+
+export async function POST(req: Request) {
+  const caller = await getCallerIdentity();
+  if (!can(caller, 'content:write')) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  let payload: unknown;
+  try {
+    payload = await req.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON' }, { status: 400 });
+  }
+
+  const parsed = CreateRubricSchema.safeParse(payload);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: 'Invalid input', issues: parsed.error.issues },
+      { status: 400 }
+    );
+  }
+
+  let input: Parameters<typeof createRubricVersion>[0];
+  if ('markdown' in parsed.data) {
+    const fromFile = parseRubricMarkdown(parsed.data.markdown);
+    const skillSlug = parsed.data.skillSlug ?? fromFile.skillSlug;
+    if (!skillSlug || !fromFile.scoringGuidance) {
+      return NextResponse.json(
+        { error: 'Rubric file needs a skill and a non-empty ## Scoring section' },
+        { status: 400 }
+      );
+    }
+    input = {
+      skillSlug,
+      scoringGuidance: fromFile.scoringGuidance,
+      summaryGuidance: fromFile.summaryGuidance,
+      source: 'repo',
+      createdBy: caller.email || null,
+    };
+  } else {
+    input = {
+      ...parsed.data,
+      source: 'settings',
+      createdBy: caller.email || null,
+    };
+  }
+
+  try {
+    const rubric = await createRubricVersion(input);
+    return NextResponse.json(rubric, { status: 201 });
+  } catch (error) {
+    if (isPrismaError(error, 'P2002')) {
+      return NextResponse.json(
+        { error: 'Rubric was saved concurrently; reload and try again' },
+        { status: 409 }
+      );
+    }
+    console.error('[/api/rubrics POST] Failed:', error);
+    return NextResponse.json({ error: 'Failed to save rubric' }, { status: 500 });
+  }
+}
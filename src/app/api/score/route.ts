@@ -1,10 +1,20 @@
 // API route for LLM-assisted interview scoring
-// Uses OPENAI_API_KEY from environment variables (server-side only)
+// Model is chosen by LLM_PROVIDER (see src/lib/llmProvider.ts); server-side only
 
 import { NextRequest, NextResponse } from 'next/server';
-import { ChatOpenAI } from '@langchain/openai';
 import { ChatPromptTemplate } from '@langchain/core/prompts';
 import { StateGraph, START, END, Annotation } from "@langchain/langgraph";
+import {
+    StructuredScoreSchema,
+    STRUCTURED_SCORE_INSTRUCTIONS,
+    parseStructuredScore,
+    toScoreBreakdown,
+    type StructuredScore,
+} from '@/lib/structuredScore';
+import { createChatModel, getLlmConfigProblem, isHeuristicProvider } from '@/lib/llmProvider';
+import { heuristicScore } from '@/lib/heuristicScorer';
+import type { KeywordGroup } from '@/lib/types';
+import { formatRubricSection, resolveRubric, toRubricRef, type ScoringRubric } from '@/lib/rubricService';
 
 // Enhanced prompt for TECHNICAL QUESTIONS - detailed feedback addressing missed keywords and soft skills
 const TECHNICAL_SCORING_PROMPT = ChatPromptTemplate.fromMessages([
@@ -34,6 +44,8 @@ Example good feedback:
 QUESTION: {question}
 {modelAnswerSection}
 
+{rubricSection}
+
 KEYWORD ANALYSIS:
 - Keywords HIT ({keywordsHit} of {totalKeywords}): {keywordsList}
 - Keywords MISSED: {keywordsMissed}
@@ -52,8 +64,7 @@ Provide DETAILED feedback (4-5 sentences) that:
 3. Comments on soft skills (both positive and areas to improve)
 4. Gives one actionable improvement tip
 
-SCORE: [1-5]
-FEEDBACK: [your detailed feedback]`],
+${STRUCTURED_SCORE_INSTRUCTIONS}`],
 ]);
 
 // Public prompt for automated interviews - entirely transcript based
@@ -86,12 +97,13 @@ QUESTION: {question}
 MODEL EXPECTATION:
 {modelAnswerSection}
 
+{rubricSection}
+
 {transcript}
 
-Provide DETAILED feedback (4-5 sentences) and a score from 1-5 evaluating only their technical accuracy.
+Provide DETAILED feedback (4-5 sentences) and an overall score from 1-5 evaluating only their technical accuracy. Grade communication on the written clarity of the transcript.
 
-SCORE: [1-5]
-FEEDBACK: [your detailed feedback]`],
+${STRUCTURED_SCORE_INSTRUCTIONS}`],
 ]);
 
 // Separate prompt for STARTER QUESTIONS - evaluates against guidelines, not keywords
@@ -130,6 +142,8 @@ QUESTION: {question}
 EXPECTED GUIDELINES:
 {guidelines}
 
+{rubricSection}
+
 SOFT SKILLS OBSERVED:
 - Clearly Spoken: {clearlySpoken}
 - Eye Contact: {eyeContact}
@@ -138,12 +152,26 @@ SOFT SKILLS OBSERVED:
 
 INTERVIEWER NOTES: {notes}
 
-Evaluate how well they addressed each guideline and their overall presentation.
+Evaluate how well they addressed each guideline and their overall presentation. For accuracy, completeness and depth, grade against the guidelines rather than technical keywords.
 
-SCORE: [1-5]
-FEEDBACK: [your detailed feedback]`],
+${STRUCTURED_SCORE_INSTRUCTIONS}`],
 ]);
 
+// "closure (also: lexical scope; weight 2)" — lets the model credit synonyms and
+// weigh important concepts without changing the keyword lists themselves.
+function describeKeywords(keywords: string[], groups?: KeywordGroup[]): string {
+    if (keywords.length === 0) return 'None';
+    const byKeyword = new Map((groups ?? []).map(g => [g.keyword, g]));
+    return keywords.map(k => {
+        const group = byKeyword.get(k);
+        const notes = [
+            group && group.synonyms.length > 0 ? `also: ${group.synonyms.join(', ')}` : null,
+            group && group.weight !== 1 ? `weight ${group.weight}` : null,
+        ].filter(Boolean);
+        return notes.length > 0 ? `${k} (${notes.join('; ')})` : k;
+    }).join(', ');
+}
+
 interface ScoreRequestBody {
     isPublic?: boolean;
     candidateName?: string;
@@ -152,6 +180,9 @@ interface ScoreRequestBody {
         modelAnswer?: string;
         type?: 'about-yourself' | 'project-work';  // For starter questions
         guidelines?: string[];  // For starter questions
+        keywordGroups?: KeywordGroup[];  // synonyms / weights from the question bank
+        skill?: string;  // session techMap entry, e.g. "react" — selects the skill rubric
+        topic?: string;
     };
     assessment: {
         keywordsHit: string[];
@@ -168,24 +199,39 @@ interface ScoreRequestBody {
 
 export async function POST(request: NextRequest) {
     try {
-        // Get API key from environment variable
-        const apiKey = process.env.OPENAI_API_KEY;
+        const body: ScoreRequestBody = await request.json();
+        const { question, assessment } = body;
+
+        // Offline deterministic scoring (CI / air-gapped rooms)
+        if (isHeuristicProvider()) {
+            const result = heuristicScore(question, assessment, { transcriptOnly: !!body.isPublic });
+            return NextResponse.json({
+                score: result.score,
+                feedback: result.feedback,
+                breakdown: toScoreBreakdown(result),
+            });
+        }
 
-        if (!apiKey || !apiKey.startsWith('sk-')) {
+        const configProblem = getLlmConfigProblem();
+        if (configProblem) {
             return NextResponse.json({
                 score: 3,
-                feedback: 'AI scoring not available - OPENAI_API_KEY environment variable not configured. Please review manually.',
+                feedback: `AI scoring not available - ${configProblem}. Please review manually.`,
             });
         }
 
-        const body: ScoreRequestBody = await request.json();
-        const { question, assessment } = body;
+        const model = createChatModel({ temperature: 0.3 })
+            .withStructuredOutput(StructuredScoreSchema, { name: 'interview_score' });
 
-        const model = new ChatOpenAI({
-            modelName: 'gpt-4o-mini',
-            temperature: 0.3,
-            openAIApiKey: apiKey,
-        });
+        // Trainer-authored rubric for this skill (falls back to topic, then default).
+        // A database outage should not block scoring — grade with the generic prompt instead.
+        let rubric: ScoringRubric | null = null;
+        try {
+            rubric = await resolveRubric({ skill: question.skill, topic: question.topic });
+        } catch (error) {
+            console.warn('Rubric lookup failed; scoring without a skill rubric:', error);
+        }
+        const rubricSection = formatRubricSection(rubric);
 
         // Determine if this is a starter question or technical question
         const isStarterQuestion = question.type === 'about-yourself' || question.type === 'project-work';
@@ -197,7 +243,8 @@ export async function POST(request: NextRequest) {
             question: Annotation<any>(),
             assessment: Annotation<any>(),
             candidateName: Annotation<string>(),
-            responseContent: Annotation<string>()
+            rubricSection: Annotation<string>(),
+            result: Annotation<StructuredScore | null>()
         });
 
         const routeEvaluation = (state: typeof ScoringState.State) => {
@@ -211,6 +258,7 @@ export async function POST(request: NextRequest) {
                 candidateName: state.candidateName,
                 question: state.question.question,
                 modelAnswerSection: state.question.modelAnswer || 'No model answer provided.',
+                rubricSection: state.rubricSection,
                 transcript: state.assessment.interviewerNotes || 'No transcript available.'
             };
             const response = await PUBLIC_SCORING_PROMPT.pipe(model).invoke(input, {
@@ -221,7 +269,7 @@ export async function POST(request: NextRequest) {
                     question_length: state.question.question.length
                 }
             });
-            return { responseContent: typeof response.content === 'string' ? response.content : JSON.stringify(response.content) };
+            return { result: parseStructuredScore(response) };
         };
 
         const evaluateStarter = async (state: typeof ScoringState.State) => {
@@ -229,6 +277,7 @@ export async function POST(request: NextRequest) {
                 questionType: state.question.type === 'about-yourself' ? 'About Yourself / Background' : 'Project Experience',
                 question: state.question.question,
                 guidelines: state.question.guidelines.map((g: string, i: number) => `${i + 1}. ${g}`).join('\n'),
+                rubricSection: state.rubricSection,
                 clearlySpoken: state.assessment.softSkills.clearlySpoken ? 'Yes' : 'No',
                 eyeContact: state.assessment.softSkills.eyeContact ? 'Yes' : 'No',
                 confidence: state.assessment.softSkills.confidence ? 'Yes' : 'No',
@@ -242,7 +291,7 @@ export async function POST(request: NextRequest) {
                     question_length: state.question.question.length
                 }
             });
-            return { responseContent: typeof response.content === 'string' ? response.content : JSON.stringify(response.content) };
+            return { result: parseStructuredScore(response) };
         };
 
         const evaluateTechnical = async (state: typeof ScoringState.State) => {
@@ -253,10 +302,11 @@ export async function POST(request: NextRequest) {
                 modelAnswerSection: state.question.modelAnswer
                     ? `MODEL ANSWER (for reference):\n${state.question.modelAnswer.slice(0, 800)}`
                     : '',
+                rubricSection: state.rubricSection,
                 keywordsHit: keywordsHit,
                 totalKeywords: totalKeywords,
-                keywordsList: state.assessment.keywordsHit.length > 0 ? state.assessment.keywordsHit.join(', ') : 'None',
-                keywordsMissed: state.assessment.keywordsMissed.length > 0 ? state.assessment.keywordsMissed.join(', ') : 'None',
+                keywordsList: describeKeywords(state.assessment.keywordsHit, state.question.keywordGroups),
+                keywordsMissed: describeKeywords(state.assessment.keywordsMissed, state.question.keywordGroups),
                 clearlySpoken: state.assessment.softSkills.clearlySpoken ? 'Yes' : 'No',
                 eyeContact: state.assessment.softSkills.eyeContact ? 'Yes' : 'No',
                 confidence: state.assessment.softSkills.confidence ? 'Yes' : 'No',
@@ -271,7 +321,7 @@ export async function POST(request: NextRequest) {
                     model_answer_provided: !!state.question.modelAnswer
                 }
             });
-            return { responseContent: typeof response.content === 'string' ? response.content : JSON.stringify(response.content) };
+            return { result: parseStructuredScore(response) };
         };
 
         const workflow = new StateGraph(ScoringState)
@@ -290,71 +340,25 @@ export async function POST(request: NextRequest) {
             question: question,
             assessment: assessment,
             candidateName: body.candidateName || 'Candidate',
-            responseContent: ''
+            rubricSection,
+            result: null
         }, {
             runName: "Scoring_Agent",
             tags: ["score-workflow"]
         });
 
-        const content = finalState.responseContent;
-
-        // Try to extract score with various patterns
-        let score = 3;
-        const scorePatterns = [
-            /SCORE:\s*(\d)/i,
-            /Score:\s*(\d)/i,
-            /\*\*SCORE\*\*:\s*(\d)/i,
-            /(\d)\s*\/\s*5/,
-        ];
-
-        for (const pattern of scorePatterns) {
-            const match = content.match(pattern);
-            if (match) {
-                score = parseInt(match[1], 10);
-                break;
-            }
-        }
-
-        // Try to extract feedback with various patterns
-        let feedback = '';
-        const feedbackPatterns = [
-            /FEEDBACK:\s*(.+)/is,
-            /Feedback:\s*(.+)/is,
-            /\*\*FEEDBACK\*\*:\s*(.+)/is,
-        ];
-
-        for (const pattern of feedbackPatterns) {
-            const match = content.match(pattern);
-            if (match) {
-                feedback = match[1].trim();
-                // Remove any trailing markdown or formatting
-                feedback = feedback.replace(/\n+SCORE:.*/is, '').trim();
-                break;
-            }
-        }
-
-        // If no structured feedback found, use the whole response (minus score line)
-        if (!feedback && content.length > 20) {
-            feedback = content
-                .replace(/SCORE:\s*\d/gi, '')
-                .replace(/Score:\s*\d/gi, '')
-                .replace(/^\s*[\d]\s*\/\s*5\s*/gm, '')
-                .trim();
-
-            // Limit length if too long
-            if (feedback.length > 1000) {
-                feedback = feedback.slice(0, 1000) + '...';
-            }
-        }
-
-        if (!feedback) {
-            feedback = 'Feedback could not be parsed from LLM response. Please review manually.';
-            console.warn('Could not parse feedback from response:', content.slice(0, 200));
+        // Nodes throw ScoreParseError on invalid output, so a null result
+        // here means the graph never reached an evaluation node.
+        const result = finalState.result;
+        if (!result) {
+            throw new Error('Scoring workflow produced no result');
         }
 
         return NextResponse.json({
-            score: Math.min(5, Math.max(1, score)),
-            feedback,
+            score: result.score,
+            feedback: result.feedback,
+            breakdown: toScoreBreakdown(result),
+            rubric: rubric ? toRubricRef(rubric) : undefined,
         });
     } catch (error) {
         console.error('Scoring API error:', error);
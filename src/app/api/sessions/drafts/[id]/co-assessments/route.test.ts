@@ -0,0 +1,118 @@
+/**
+ * Unit tests for /api/sessions/drafts/[id]/co-assessments (co-interviewer mode).
+ *
+ * The co-interview service and auth are mocked — no DB connection or cookie required.
+ *
+ * Covers:
+ * - Auth guard (401)
+ * - GET returns every co-interviewer row plus the caller's email
+ * - PUT saves under the caller's email, never a client-supplied one
+ * - PUT validation (400) and completed session (404)
+ * - Sessions outside the caller's cohort scope (404)
+ */
+
+import { vi, describe, it, expect, beforeEach } from 'vitest';
+
+vi.mock('@/lib/coInterviewService', () => ({
+  listCoAssessments: vi.fn(),
+  saveCoAssessment: vi.fn(),
+}));
+
+vi.mock('@/lib/sessionDraftService', () => ({
+  canAccessSessionDraft: vi.fn(),
+}));
+
+vi.mock('@/lib/prisma', () => ({ prisma: {} }));
+
+vi.mock('@/lib/identity', () => ({
+  getCallerIdentity: vi.fn(),
+}));
+
+import { getCallerIdentity } from '@/lib/identity';
+import { listCoAssessments, saveCoAssessment } from '@/lib/coInterviewService';
+import { canAccessSessionDraft } from '@/lib/sessionDraftService';
+import { GET, PUT } from '@/app/api/sessions/drafts/[id]/co-assessments/route';
+
+const mockAuth = getCallerIdentity as ReturnType<typeof vi.fn>;
+const mockList = listCoAssessments as ReturnType<typeof vi.fn>;
+const mockSave = saveCoAssessment as ReturnType<typeof vi.fn>;
+const mockCanDraft = canAccessSessionDraft as ReturnType<typeof vi.fn>;
+
+const shadow = { kind: 'trainer', userId: 'u2', email: 'shadow@test.com' };
+const params = { params: Promise.resolve({ id: 'session-1' }) };
+
+const observation = {
+  keywordsHit: ['closure'],
+  keywordsMissed: ['scope'],
+  softSkills: { clearlySpoken: true, eyeContact: false, confidence: true, structuredThinking: false },
+  interviewerNotes: 'Solid',
+  didNotGetTo: false,
+};
+
+function put(body: unknown) {
+  return PUT(
+    new Request('http://localhost/api/sessions/drafts/session-1/co-assessments', {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    }),
+    params,
+  );
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mockAuth.mockResolvedValue(shadow);
+  mockCanDraft.mockResolvedValue(true);
+});
+
+describe('GET co-assessments', () => {
+  it('returns 401 for associates', async () => {
+    mockAuth.mockResolvedValue({ kind: 'associate', userId: 'a', email: 'a@test.com', associateId: 1, associateSlug: 'a' });
+    const res = await GET(new Request('http://localhost'), params);
+    expect(res.status).toBe(401);
+  });
+
+  it('returns rows plus the caller email', async () => {
+    mockList.mockResolvedValue([{ interviewerEmail: 'shadow@test.com', assessments: {}, updatedAt: '' }]);
+    const res = await GET(new Request('http://localhost'), params);
+    expect(await res.json()).toEqual({
+      coAssessments: [{ interviewerEmail: 'shadow@test.com', assessments: {}, updatedAt: '' }],
+      me: 'shadow@test.com',
+    });
+  });
+});
+
+describe('PUT co-assessments', () => {
+  it('saves under the caller email', async () => {
+    mockSave.mockResolvedValue({ interviewerEmail: 'shadow@test.com', assessments: { q1: observation }, updatedAt: '' });
+    const res = await put({ interviewerEmail: 'spoof@test.com', assessments: { q1: observation } });
+    expect(res.status).toBe(200);
+    expect(mockSave).toHaveBeenCalledWith('session-1', {
+      interviewerEmail: 'shadow@test.com',
+      interviewerName: undefined,
+      assessments: { q1: observation },
+    });
+  });
+
+  it('rejects malformed observations', async () => {
+    const res = await put({ assessments: { q1: { ...observation, softSkills: {} } } });
+    expect(res.status).toBe(400);
+    expect(mockSave).not.toHaveBeenCalled();
+  });
+
+  it('returns 404 once the session is completed', async () => {
+    mockSave.mockResolvedValue(null);
+    const res = await put({ assessments: {} });
+    expect(res.status).toBe(404);
+  });
+
+  it('returns 404 for a session outside the trainer scope', async () => {
+    mockCanDraft.mockResolvedValue(false);
+    expect((await GET(new Request('http://localhost'), params)).status).toBe(404);
+    expect((await put({ assessments: { q1: observation } })).status).toBe(404);
+    expect(mockCanDraft).toHaveBeenCalledWith(shadow, 'session-1');
+    expect(mockList).not.toHaveBeenCalled();
+    expect(mockSave).not.toHaveBeenCalled();
+  });
+});
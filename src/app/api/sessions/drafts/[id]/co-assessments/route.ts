@@ -0,0 +1,94 @@
+/**
+ * /api/sessions/drafts/[id]/co-assessments — Co-interviewer mode
+ *
+ * GET — Every co-interviewer's assessments for the session, plus `me` (the
+ *       caller's email) so the join page can find its own row and the review
+ *       page can tell the lead apart.
+ * PUT — Save the caller's own assessments. Body: { interviewerName?, assessments }.
+ *       404 when the session is missing or already completed.
+ *
+ * Sessions for associates outside a cohort-scoped caller's cohorts are 404.
+ */
+
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getCallerIdentity } from '@/lib/identity';
+import { can } from '@/lib/authorization';
+import { listCoAssessments, saveCoAssessment } from '@/lib/coInterviewService';
+import { canAccessSessionDraft } from '@/lib/sessionDraftService';
+
+const CoQuestionSchema = z.object({
+  keywordsHit: z.array(z.string().max(200)).max(100),
+  keywordsMissed: z.array(z.string().max(200)).max(100),
+  softSkills: z.object({
+    clearlySpoken: z.boolean(),
+    eyeContact: z.boolean(),
+    confidence: z.boolean(),
+    structuredThinking: z.boolean(),
+  }),
+  interviewerNotes: z.string().max(10000),
+  didNotGetTo: z.boolean(),
+});
+
+const SaveCoSchema = z.object({
+  interviewerName: z.string().trim().max(100).nullable().optional(),
+  assessments: z.record(z.string().max(100), CoQuestionSchema),
+});
+
+type Params = { params: Promise<{ id: string }> };
+
+export async function GET(_req: Request, { params }: Params) {
+  const caller = await getCallerIdentity();
+  if (!can(caller, 'associates:write')) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  const { id } = await params;
+
+  try {
+    if (!(await canAccessSessionDraft(caller, id))) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
+    const coAssessments = await listCoAssessments(id);
+    return NextResponse.json({ coAssessments, me: caller.email });
+  } catch (error) {
+    console.error('[/api/sessions/drafts/[id]/co-assessments GET] Failed:', error);
+    return NextResponse.json({ error: 'Failed to load co-interviewer assessments' }, { status: 500 });
+  }
+}
+
+export async function PUT(req: Request, { params }: Params) {
+  const caller = await getCallerIdentity();
+  if (!can(caller, 'associates:write')) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  const { id } = await params;
+
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON' }, { status: 400 });
+  }
+  const parsed = SaveCoSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'Invalid input', issues: parsed.error.issues }, { status: 400 });
+  }
+
+  try {
+    if (!(await canAccessSessionDraft(caller, id))) {
+      return NextResponse.json({ error: 'Session not found or already completed' }, { status: 404 });
+    }
+    const saved = await saveCoAssessment(id, {
+      interviewerEmail: caller.email,
+      interviewerName: parsed.data.interviewerName,
+      assessments: parsed.data.assessments,
+    });
+    if (!saved) {
+      return NextResponse.json({ error: 'Session not found or already completed' }, { status: 404 });
+    }
+    return NextResponse.json(saved);
+  } catch (error) {
+    console.error('[/api/sessions/drafts/[id]/co-assessments PUT] Failed:', error);
+    return NextResponse.json({ error: 'Failed to save co-interviewer assessment' }, { status: 500 });
+  }
+}
@@ -0,0 +1,169 @@
+/**
+ * Unit tests for /api/sessions/drafts/[id] (GET resume, PUT autosave, DELETE).
+ *
+ * The draft service and auth are mocked — no DB connection or cookie required.
+ *
+ * Covers:
+ * - Auth guard (401)
+ * - GET 404 when the draft is gone
+ * - PUT saves with the caller's email and returns the new revision
+ * - PUT validation (400) and URL/body id mismatch
+ * - PUT revision conflict and concurrent create (P2002) → 409
+ * - Cohort scope: out-of-scope drafts are 404, out-of-scope associates 403
+ */
+
+import { vi, describe, it, expect, beforeEach } from 'vitest';
+
+vi.mock('@/lib/sessionDraftService', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('@/lib/sessionDraftService')>();
+  return {
+    ...actual,
+    canAccessDraftAssociate: vi.fn(),
+    canAccessSessionDraft: vi.fn(),
+    getSessionDraft: vi.fn(),
+    saveSessionDraft: vi.fn(),
+    discardSessionDraft: vi.fn(),
+  };
+});
+
+vi.mock('@/lib/prisma', () => ({ prisma: {} }));
+
+vi.mock('@/lib/identity', () => ({
+  getCallerIdentity: vi.fn(),
+}));
+
+import { getCallerIdentity } from '@/lib/identity';
+import {
+  DraftConflictError,
+  canAccessDraftAssociate,
+  canAccessSessionDraft,
+  discardSessionDraft,
+  getSessionDraft,
+  saveSessionDraft,
+} from '@/lib/sessionDraftService';
+import { DELETE, GET, PUT } from '@/app/api/sessions/drafts/[id]/route';
+
+const mockAuth = getCallerIdentity as ReturnType<typeof vi.fn>;
+const mockGet = getSessionDraft as ReturnType<typeof vi.fn>;
+const mockSave = saveSessionDraft as ReturnType<typeof vi.fn>;
+const mockDiscard = discardSessionDraft as ReturnType<typeof vi.fn>;
+const mockCanDraft = canAccessSessionDraft as ReturnType<typeof vi.fn>;
+const mockCanAssociate = canAccessDraftAssociate as ReturnType<typeof vi.fn>;
+
+const trainer = { kind: 'trainer', userId: 'u1', email: 'trainer@test.com' };
+const params = (id: string) => ({ params: Promise.resolve({ id }) });
+
+const session = {
+  id: 'session-1',
+  status: 'in-progress',
+  date: '2026-04-22T10:00:00.000Z',
+  questionCount: 1,
+  selectedWeeks: [1],
+  questions: [],
+  starterQuestions: [],
+  assessments: {},
+  currentQuestionIndex: 0,
+  candidateName: 'Ada',
+};
+
+function put(body: unknown, id = 'session-1') {
+  return PUT(
+    new Request(`http://localhost/api/sessions/drafts/${id}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    }),
+    params(id),
+  );
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mockAuth.mockResolvedValue(trainer);
+  mockCanDraft.mockResolvedValue(true);
+  mockCanAssociate.mockResolvedValue(true);
+});
+
+describe('GET /api/sessions/drafts/[id]', () => {
+  it('returns 401 for non-trainers', async () => {
+    mockAuth.mockResolvedValue({ kind: 'anonymous' });
+    const res = await GET(new Request('http://localhost'), params('session-1'));
+    expect(res.status).toBe(401);
+  });
+
+  it('returns 404 when the draft is gone', async () => {
+    mockGet.mockResolvedValue(null);
+    const res = await GET(new Request('http://localhost'), params('session-1'));
+    expect(res.status).toBe(404);
+  });
+
+  it('returns 404 for a draft outside the trainer scope', async () => {
+    mockCanDraft.mockResolvedValue(false);
+    const res = await GET(new Request('http://localhost'), params('session-1'));
+    expect(res.status).toBe(404);
+    expect(mockGet).not.toHaveBeenCalled();
+  });
+});
+
+describe('PUT /api/sessions/drafts/[id]', () => {
+  it('saves and returns the new revision', async () => {
+    mockSave.mockResolvedValue(4);
+    const res = await put({ session, baseRevision: 3 });
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({ revision: 4 });
+    expect(mockSave).toHaveBeenCalledWith(expect.objectContaining({ id: 'session-1', candidateName: 'Ada' }), {
+      baseRevision: 3,
+      updatedBy: 'trainer@test.com',
+    });
+  });
+
+  it('rejects completed sessions and missing revisions', async () => {
+    expect((await put({ session: { ...session, status: 'completed' }, baseRevision: 1 })).status).toBe(400);
+    expect((await put({ session })).status).toBe(400);
+    expect(mockSave).not.toHaveBeenCalled();
+  });
+
+  it('rejects a body whose id does not match the URL', async () => {
+    const res = await put({ session, baseRevision: 1 }, 'other');
+    expect(res.status).toBe(400);
+  });
+
+  it('returns 409 with the server state on a revision conflict', async () => {
+    const current = { revision: 5, status: 'in-progress', updatedBy: 'b@test.com', updatedAt: new Date(0) };
+    mockSave.mockRejectedValue(new DraftConflictError(current));
+    const res = await put({ session, baseRevision: 3 });
+    expect(res.status).toBe(409);
+    expect((await res.json()).current).toMatchObject({ revision: 5, updatedBy: 'b@test.com' });
+  });
+
+  it('returns 409 when two tabs create the same draft (P2002)', async () => {
+    mockSave.mockRejectedValue(Object.assign(new Error('Unique constraint'), { code: 'P2002' }));
+    const res = await put({ session, baseRevision: 0 });
+    expect(res.status).toBe(409);
+  });
+
+  it('refuses to overwrite an out-of-scope draft or point one at an out-of-scope associate', async () => {
+    mockCanDraft.mockResolvedValueOnce(false);
+    expect((await put({ session: { ...session, associateSlug: 'ada' }, baseRevision: 3 })).status).toBe(404);
+
+    mockCanAssociate.mockResolvedValueOnce(false);
+    expect((await put({ session: { ...session, associateSlug: 'bob' }, baseRevision: 3 })).status).toBe(403);
+    expect(mockCanAssociate).toHaveBeenLastCalledWith(trainer, 'bob');
+    expect(mockSave).not.toHaveBeenCalled();
+  });
+});
+
+describe('DELETE /api/sessions/drafts/[id]', () => {
+  it('returns 404 when nothing was discarded', async () => {
+    mockDiscard.mockResolvedValue(false);
+    const res = await DELETE(new Request('http://localhost'), params('session-1'));
+    expect(res.status).toBe(404);
+  });
+
+  it('returns 404 without discarding a draft outside the trainer scope', async () => {
+    mockCanDraft.mockResolvedValue(false);
+    const res = await DELETE(new Request('http://localhost'), params('session-1'));
+    expect(res.status).toBe(404);
+    expect(mockDiscard).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * /api/sessions/drafts/[id] — One server-side interview draft
+ *
+ * GET    — Full session + revision, for resuming on another device. 404 when
+ *          missing or already completed.
+ * PUT    — Autosave. Body: { session, baseRevision }. Returns { revision }.
+ *          409 { error, current } when another tab/device saved first or the
+ *          session was completed — the client shows a conflict banner.
+ * DELETE — Discard the draft (completed sessions are never deleted here).
+ *
+ * Drafts for associates outside a cohort-scoped caller's cohorts look the
+ * same as missing ones; saving one for such an associate is refused (403).
+ */
+
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getCallerIdentity } from '@/lib/identity';
+import { can } from '@/lib/authorization';
+import {
+  DraftConflictError,
+  canAccessDraftAssociate,
+  canAccessSessionDraft,
+  discardSessionDraft,
+  getSessionDraft,
+  saveSessionDraft,
+} from '@/lib/sessionDraftService';
+import type { InterviewSession } from '@/lib/types';
+
+const SaveDraftSchema = z.object({
+  baseRevision: z.number().int().min(0),
+  session: z
+    .object({
+      id: z.string().min(1).max(100),
+      status: z.enum(['in-progress', 'review']),
+      date: z.string(),
+      questionCount: z.number().int().min(0),
+      selectedWeeks: z.array(z.number()),
+      questions: z.array(z.unknown()),
+      starterQuestions: z.array(z.unknown()),
+      assessments: z.record(z.string(), z.unknown()),
+      currentQuestionIndex: z.number().int().min(0),
+      associateSlug: z.string().optional(),
+    })
+    .passthrough(),
+});
+
+function isPrismaError(error: unknown, code: string): boolean {
+  return (
+    !!error &&
+    typeof error === 'object' &&
+    'code' in error &&
+    (error as { code?: string }).code === code
+  );
+}
+
+type Params = { params: Promise<{ id: string }> };
+
+async function requireTrainer() {
+  const caller = await getCallerIdentity();
+  return can(caller, 'associates:write') ? caller : null;
+}
+
+export async function GET(_req: Request, { params }: Params) {
+  const caller = await requireTrainer();
+  if (!caller) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  const { id } = await params;
+
+  try {
+    const draft = (await canAccessSessionDraft(caller, id)) ? await getSessionDraft(id) : null;
+    if (!draft) {
+      return NextResponse.json({ error: 'Draft not found' }, { status: 404 });
+    }
+    return NextResponse.json(draft);
+  } catch (error) {
+    console.error('[/api/sessions/drafts/[id] GET] Failed:', error);
+    return NextResponse.json({ error: 'Failed to load session draft' }, { status: 500 });
+  }
+}
+
+export async function PUT(req: Request, { params }: Params) {
+  const caller = await requireTrainer();
+  if (!caller) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  const { id } = await params;
+
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON' }, { status: 400 });
+  }
+  const parsed = SaveDraftSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'Invalid input', issues: parsed.error.issues }, { status: 400 });
+  }
+  if (parsed.data.session.id !== id) {
+    return NextResponse.json({ error: 'Session id does not match URL' }, { status: 400 });
+  }
+
+  try {
+    if (!(await canAccessSessionDraft(caller, id))) {
+      return NextResponse.json({ error: 'Draft not found' }, { status: 404 });
+    }
+    if (!(await canAccessDraftAssociate(caller, parsed.data.session.associateSlug))) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+    const revision = await saveSessionDraft(parsed.data.session as unknown as InterviewSession, {
+      baseRevision: parsed.data.baseRevision,
+      updatedBy: caller.email,
+    });
+    return NextResponse.json({ revision });
+  } catch (error) {
+    if (error instanceof DraftConflictError) {
+      return NextResponse.json({ error: error.message, current: error.current }, { status: 409 });
+    }
+    if (isPrismaError(error, 'P2002')) {
+      return NextResponse.json({ error: 'Session was saved elsewhere', current: null }, { status: 409 });
+    }
+    console.error('[/api/sessions/drafts/[id] PUT] Failed:', error);
+    return NextResponse.json({ error: 'Failed to save session draft' }, { status: 500 });
+  }
+}
+
+export async function DELETE(_req: Request, { params }: Params) {
+  const caller = await requireTrainer();
+  if (!caller) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  const { id } = await params;
+
+  try {
+    const deleted = (await canAccessSessionDraft(caller, id)) && (await discardSessionDraft(id));
+    if (!deleted) {
+      return NextResponse.json({ error: 'Draft not found' }, { status: 404 });
+    }
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('[/api/sessions/drafts/[id] DELETE] Failed:', error);
+    return NextResponse.json({ error: 'Failed to discard session draft' }, { status: 500 });
+  }
+}
@@ -0,0 +1,28 @@
+/**
+ * /api/sessions/drafts — Resumable trainer-led interviews
+ *
+ * GET /api/sessions/drafts  — Every in-progress / review session saved
+ *                             server-side, most recently touched first. Feeds
+ *                             the "Resume interview" list on /interview/new.
+ *                             Limited to the caller's cohorts when scoped.
+ */
+
+import { NextResponse } from 'next/server';
+import { getCallerIdentity } from '@/lib/identity';
+import { can, cohortScope } from '@/lib/authorization';
+import { listSessionDrafts } from '@/lib/sessionDraftService';
+
+export async function GET() {
+  const caller = await getCallerIdentity();
+  if (!can(caller, 'associates:write')) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const drafts = await listSessionDrafts(cohortScope(caller));
+    return NextResponse.json({ drafts });
+  } catch (error) {
+    console.error('[/api/sessions/drafts GET] Failed:', error);
+    return NextResponse.json({ error: 'Failed to list session drafts' }, { status: 500 });
+  }
+}
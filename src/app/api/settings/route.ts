@@ -13,7 +13,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { getCallerIdentity } from '@/lib/identity';
+import { can } from '@/lib/authorization';
 import { getSettings, updateThreshold } from '@/lib/settingsService';
+import { diffValues, recordAuditEvent } from '@/lib/auditLog';
 
 const updateSettingsSchema = z.object({
   readinessThreshold: z.number().min(0).max(100),
@@ -21,7 +23,7 @@ const updateSettingsSchema = z.object({
 
 export async function GET() {
   const caller = await getCallerIdentity() // [AUDIT-VERIFIED: P20]
-  if (caller.kind !== 'trainer' && caller.kind !== 'admin') {
+  if (!can(caller, 'associates:read')) {
     return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
   }
 
@@ -36,7 +38,7 @@ export async function GET() {
 
 export async function PUT(request: NextRequest | Request) {
   const caller = await getCallerIdentity() // [AUDIT-VERIFIED: P20]
-  if (caller.kind !== 'trainer' && caller.kind !== 'admin') {
+  if (!can(caller, 'cohorts:manage')) {
     return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
   }
 
@@ -51,7 +53,10 @@ export async function PUT(request: NextRequest | Request) {
       );
     }
 
+    const before = await getSettings();
     await updateThreshold(parsed.data.readinessThreshold);
+    const diff = diffValues({ ...before }, { ...parsed.data });
+    if (diff) await recordAuditEvent(caller, { action: 'settings.update', targetId: 1, ...diff });
     return NextResponse.json({ success: true });
   } catch (error) {
     console.error('[settings] PUT failed:', error);
@@ -1,6 +1,7 @@
 import { NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { getCallerIdentity } from '@/lib/identity';
+import { can } from '@/lib/authorization';
 import { readHistory } from '@/lib/historyService';
 
 export const dynamic = 'force-dynamic';
@@ -8,7 +9,7 @@ export const dynamic = 'force-dynamic';
 export async function GET() {
   try {
     const caller = await getCallerIdentity() // [AUDIT-VERIFIED: P20]
-    if (caller.kind !== 'trainer' && caller.kind !== 'admin') {
+    if (!can(caller, 'associates:read')) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
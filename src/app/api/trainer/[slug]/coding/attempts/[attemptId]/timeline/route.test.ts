@@ -0,0 +1,117 @@
+/**
+ * Unit tests for GET /api/trainer/[slug]/coding/attempts/[attemptId]/timeline.
+ *
+ * Auth gates, associate scoping (an attempt id from another associate is a
+ * 404), missing/invalid stored timelines, and the payload shape.
+ */
+
+import { vi, describe, it, expect, beforeEach, afterEach } from 'vitest';
+
+vi.mock('@/lib/prisma', () => {
+  const mockPrisma = {
+    codingAttempt: { findUnique: vi.fn() },
+  };
+  return { prisma: mockPrisma };
+});
+
+vi.mock('@/lib/identity', () => ({
+  getCallerIdentity: vi.fn(),
+}));
+
+import { prisma } from '@/lib/prisma';
+import { getCallerIdentity } from '@/lib/identity';
+import { GET } from '@/app/api/trainer/[slug]/coding/attempts/[attemptId]/timeline/route';
+
+const mockAttempt = prisma.codingAttempt.findUnique as ReturnType<typeof vi.fn>;
+const mockAuth = getCallerIdentity as ReturnType<typeof vi.fn>;
+
+function makeCtx(slug: string, attemptId = 'att-1') {
+  return { params: Promise.resolve({ slug, attemptId }) };
+}
+function req() {
+  return new Request('http://localhost/api/trainer/alice/coding/attempts/att-1/timeline');
+}
+
+const TIMELINE = {
+  v: 1,
+  files: [{ path: 'main', content: '' }],
+  events: [
+    [0, 'e', 0, 0, 0, 'print(1)'],
+    [1500, 'run'],
+    [4000, 'submit'],
+  ],
+};
+
+function row(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'att-1',
+    language: 'python',
+    verdict: 'pass',
+    submittedAt: new Date('2026-05-01T12:00:00Z'),
+    submittedCode: 'print(1)',
+    associate: { slug: 'alice', cohortId: 4 },
+    challenge: { title: 'Hello' },
+    timeline: { timeline: TIMELINE },
+    ...overrides,
+  };
+}
+
+describe('GET /api/trainer/[slug]/coding/attempts/[attemptId]/timeline', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubEnv('CODING_CHALLENGES_ENABLED', 'true');
+  });
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('rejects anonymous (401) and associate (403) callers', async () => {
+    mockAuth.mockResolvedValueOnce({ kind: 'anonymous' });
+    expect((await GET(req(), makeCtx('alice'))).status).toBe(401);
+    mockAuth.mockResolvedValueOnce({ kind: 'associate', associateId: 1, associateSlug: 'alice' });
+    expect((await GET(req(), makeCtx('alice'))).status).toBe(403);
+    expect(mockAttempt).not.toHaveBeenCalled();
+  });
+
+  it('rejects a malformed slug', async () => {
+    mockAuth.mockResolvedValue({ kind: 'trainer', userId: 't-1' });
+    expect((await GET(req(), makeCtx('Alice!'))).status).toBe(400);
+  });
+
+  it('returns 404 when the attempt belongs to another associate', async () => {
+    mockAuth.mockResolvedValue({ kind: 'trainer', userId: 't-1' });
+    mockAttempt.mockResolvedValue(row({ associate: { slug: 'bob', cohortId: 4 } }));
+    expect((await GET(req(), makeCtx('alice'))).status).toBe(404);
+  });
+
+  it('returns 404 when the associate is outside a scoped trainer\'s cohorts', async () => {
+    mockAuth.mockResolvedValue({ kind: 'trainer', userId: 't-1', cohortIds: [5] });
+    mockAttempt.mockResolvedValue(row());
+    expect((await GET(req(), makeCtx('alice'))).status).toBe(404);
+  });
+
+  it('returns 404 when no (valid) timeline was recorded', async () => {
+    mockAuth.mockResolvedValue({ kind: 'trainer', userId: 't-1' });
+    mockAttempt.mockResolvedValueOnce(row({ timeline: null }));
+    expect((await GET(req(), makeCtx('alice'))).status).toBe(404);
+    mockAttempt.mockResolvedValueOnce(row({ timeline: { timeline: { v: 99 } } }));
+    expect((await GET(req(), makeCtx('alice'))).status).toBe(404);
+  });
+
+  it('returns the timeline with attempt context', async () => {
+    mockAuth.mockResolvedValue({ kind: 'trainer', userId: 't-1' });
+    mockAttempt.mockResolvedValue(row());
+    const res = await GET(req(), makeCtx('alice'));
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({
+      attemptId: 'att-1',
+      challengeTitle: 'Hello',
+      language: 'python',
+      verdict: 'pass',
+      submittedAt: '2026-05-01T12:00:00.000Z',
+      submittedCode: 'print(1)',
+      timeline: TIMELINE,
+    });
+    expect(mockAttempt.mock.calls[0][0].where).toEqual({ id: 'att-1' });
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * GET /api/trainer/[slug]/coding/attempts/[attemptId]/timeline
+ *
+ * Trainer-only. The recorded edit timeline of one attempt, for the replay
+ * scrubber on the trainer coding panel (AttemptReplay):
+ *   AttemptTimelinePayload
+ *
+ * Loaded on demand — the sibling /coding route only reports `hasTimeline`.
+ * The attempt must belong to the associate named by [slug], in the caller's
+ * cohort scope; 404 otherwise, and when the attempt was submitted without a
+ * timeline. Like the similarity
+ * route this returns associate-authored code only; hidden-test fixtures
+ * never cross this boundary.
+ */
+
+import { NextResponse } from 'next/server';
+import { getCallerIdentity } from '@/lib/identity';
+import { can, canAccessCohort } from '@/lib/authorization';
+import { prisma } from '@/lib/prisma';
+import { EditTimelineSchema } from '@/lib/editTimeline';
+import type { AttemptTimelinePayload } from '@/lib/trainer-types';
+import { isCodingEnabled } from '@/lib/codingFeatureFlag';
+import { codingDisabledResponse } from '@/app/api/coding/_disabledResponse';
+
+// Same pattern as sibling /api/trainer/[slug]/route.ts (T-06-04 defense-in-depth).
+const SLUG_RE = /^[a-z0-9-]+$/;
+
+export async function GET(
+  _req: Request,
+  { params }: { params: Promise<{ slug: string; attemptId: string }> },
+) {
+  if (!isCodingEnabled()) {
+    return codingDisabledResponse();
+  }
+
+  const caller = await getCallerIdentity();
+  if (caller.kind === 'anonymous') {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  if (!can(caller, 'associates:read')) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  const { slug, attemptId } = await params;
+  if (!slug || !SLUG_RE.test(slug)) {
+    return NextResponse.json({ error: 'Invalid slug' }, { status: 400 });
+  }
+
+  try {
+    const attempt = await prisma.codingAttempt.findUnique({
+      where: { id: attemptId },
+      select: {
+        id: true,
+        language: true,
+        verdict: true,
+        submittedAt: true,
+        submittedCode: true,
+        associate: { select: { slug: true, cohortId: true } },
+        challenge: { select: { title: true } },
+        timeline: { select: { timeline: true } },
+      },
+    });
+    if (!attempt || attempt.associate.slug !== slug || !canAccessCohort(caller, attempt.associate.cohortId)) {
+      return NextResponse.json({ error: 'Attempt not found' }, { status: 404 });
+    }
+    // Stored timelines were validated on submit; re-parse so a row written by
+    // an older recorder version reads as "no timeline" instead of crashing
+    // the replay.
+    const parsed = EditTimelineSchema.safeParse(attempt.timeline?.timeline);
+    if (!parsed.success) {
+      return NextResponse.json({ error: 'No timeline recorded' }, { status: 404 });
+    }
+
+    const payload: AttemptTimelinePayload = {
+      attemptId: attempt.id,
+      challengeTitle: attempt.challenge?.title ?? 'Untitled challenge',
+      language: attempt.language,
+      verdict: attempt.verdict,
+      submittedAt: attempt.submittedAt.toISOString(),
+      submittedCode: attempt.submittedCode,
+      timeline: parsed.data,
+    };
+    return NextResponse.json(payload);
+  } catch (error) {
+    console.error('[/api/trainer/[slug]/coding/attempts/[attemptId]/timeline] Failed:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch timeline' },
+      { status: 500 },
+    );
+  }
+}
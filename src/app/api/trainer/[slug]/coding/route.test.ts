@@ -46,6 +46,8 @@ const ALLOWED_KEYS = new Set([
   'difficulty',
   'verdict',
   'score',
+  'hasTimeline',
+  'hasReview',
 ]);
 
 describe('GET /api/trainer/[slug]/coding', () => {
@@ -88,6 +90,14 @@ describe('GET /api/trainer/[slug]/coding', () => {
     expect(res.status).toBe(404);
   });
 
+  it('returns 404 for an associate outside a scoped trainer\'s cohorts', async () => {
+    mockAuth.mockResolvedValue({ kind: 'trainer', userId: 'u', email: 't@t.co', cohortIds: [1] });
+    mockAssoc.mockResolvedValue({ id: 42, slug: 'jane', cohortId: 2 });
+    const res = await GET(req(), makeCtx('jane'));
+    expect(res.status).toBe(404);
+    expect(mockAttempts).not.toHaveBeenCalled();
+  });
+
   it('returns 200 with attempts + codingSkillScores for trainer caller', async () => {
     mockAuth.mockResolvedValue({ kind: 'trainer', userId: 'u', email: 't@t.co' });
     mockAssoc.mockResolvedValue({ id: 42, slug: 'jane' });
@@ -100,6 +110,8 @@ describe('GET /api/trainer/[slug]/coding', () => {
         verdict: 'pass',
         score: 100,
         challenge: { slug: 'two-sum', title: 'Two Sum', difficulty: 'medium' },
+        timeline: { eventCount: 12 },
+        review: { status: 'ready' },
       },
       {
         id: 'a2',
@@ -134,7 +146,11 @@ describe('GET /api/trainer/[slug]/coding', () => {
       difficulty: 'medium',
       verdict: 'pass',
       score: 100,
+      hasTimeline: true,
+      hasReview: true,
     });
+    expect(body.attempts[1].hasTimeline).toBe(false);
+    expect(body.attempts[1].hasReview).toBe(false);
     expect(typeof body.attempts[0].submittedAt).toBe('string');
 
     // Aggregated by skillSlug: python-fundamentals has two rows
@@ -11,6 +11,7 @@
 
 import { NextResponse } from 'next/server';
 import { getCallerIdentity } from '@/lib/identity';
+import { can, canAccessCohort } from '@/lib/authorization';
 import { prisma } from '@/lib/prisma';
 import type {
   CodingAttemptSummary,
@@ -67,7 +68,7 @@ export async function GET(
   if (caller.kind === 'anonymous') {
     return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
   }
-  if (caller.kind !== 'trainer' && caller.kind !== 'admin') {
+  if (!can(caller, 'associates:read')) {
     return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
   }
 
@@ -79,9 +80,10 @@ export async function GET(
   try {
     const associate = await prisma.associate.findUnique({
       where: { slug },
-      select: { id: true, slug: true },
+      select: { id: true, slug: true, cohortId: true },
     });
-    if (!associate) {
+    // Out-of-scope associates look the same as missing ones (no slug probing).
+    if (!associate || !canAccessCohort(caller, associate.cohortId)) {
       return NextResponse.json({ error: 'Associate not found' }, { status: 404 });
     }
 
@@ -98,6 +100,9 @@ export async function GET(
           verdict: true,
           score: true,
           challenge: { select: { slug: true, title: true, difficulty: true } },
+          // Presence only — the timeline itself loads on demand for replay.
+          timeline: { select: { eventCount: true } },
+          review: { select: { status: true } },
         },
       }),
       prisma.gapScore.findMany({
@@ -127,6 +132,8 @@ export async function GET(
       difficulty: validDifficulty(a.challenge?.difficulty),
       verdict: a.verdict,
       score: typeof a.score === 'number' ? a.score : null,
+      hasTimeline: !!a.timeline,
+      hasReview: !!a.review,
     }));
 
     // Aggregate by skill (multiple topics per skill → weighted mean across
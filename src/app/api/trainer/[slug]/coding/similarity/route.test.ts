@@ -0,0 +1,142 @@
+/**
+ * Unit tests for GET /api/trainer/[slug]/coding/similarity.
+ *
+ * Auth gates, threshold validation, cohort scoping of the attempt query, and
+ * that a renamed copy of a cohort-mate's code is flagged with both sides'
+ * code for the diff.
+ */
+
+import { vi, describe, it, expect, beforeEach, afterEach } from 'vitest';
+
+vi.mock('@/lib/prisma', () => {
+  const mockPrisma = {
+    associate: { findUnique: vi.fn() },
+    codingAttempt: { findMany: vi.fn() },
+  };
+  return { prisma: mockPrisma };
+});
+
+vi.mock('@/lib/identity', () => ({
+  getCallerIdentity: vi.fn(),
+}));
+
+import { prisma } from '@/lib/prisma';
+import { getCallerIdentity } from '@/lib/identity';
+import { GET } from '@/app/api/trainer/[slug]/coding/similarity/route';
+
+const mockAssoc = prisma.associate.findUnique as ReturnType<typeof vi.fn>;
+const mockAttempts = prisma.codingAttempt.findMany as ReturnType<typeof vi.fn>;
+const mockAuth = getCallerIdentity as ReturnType<typeof vi.fn>;
+
+function makeCtx(slug: string) {
+  return { params: Promise.resolve({ slug }) };
+}
+function req(query = '') {
+  return new Request(`http://localhost/api/trainer/alice/coding/similarity${query}`);
+}
+
+const ALICE_CODE = `
+def count_words(text):
+    counts = {}
+    for word in text.split():
+        counts[word] = counts.get(word, 0) + 1
+    return sorted(counts.items(), key=lambda kv: (-kv[1], kv[0]))
+
+for w, c in count_words(input()):
+    print(w, c)
+`;
+// Bob renamed everything — still a copy.
+const BOB_CODE = `
+def tally(s):
+    freq = {}
+    for token in s.split():
+        freq[token] = freq.get(token, 0) + 1
+    return sorted(freq.items(), key=lambda p: (-p[1], p[0]))
+for a, b in tally(input()):
+    print(a, b)
+`;
+const CAROL_CODE = `
+import sys
+from collections import Counter
+words = sys.stdin.read().split()
+ranked = Counter(words).most_common()
+ranked.sort(key=lambda item: (-item[1], item[0]))
+print("\\n".join(f"{w} {n}" for w, n in ranked))
+`;
+
+function attempt(id: string, associateId: number, slug: string, code: string) {
+  return {
+    id,
+    associateId,
+    language: 'python',
+    verdict: 'pass',
+    submittedAt: new Date('2026-05-01T12:00:00Z'),
+    submittedCode: code,
+    associate: { slug, displayName: slug.toUpperCase() },
+  };
+}
+
+describe('GET /api/trainer/[slug]/coding/similarity', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubEnv('CODING_CHALLENGES_ENABLED', 'true');
+  });
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('rejects anonymous (401) and associate (403) callers', async () => {
+    mockAuth.mockResolvedValueOnce({ kind: 'anonymous' });
+    expect((await GET(req(), makeCtx('alice'))).status).toBe(401);
+    mockAuth.mockResolvedValueOnce({ kind: 'associate', associateId: 1, associateSlug: 'alice' });
+    expect((await GET(req(), makeCtx('alice'))).status).toBe(403);
+  });
+
+  it('rejects an out-of-range threshold', async () => {
+    mockAuth.mockResolvedValue({ kind: 'trainer', userId: 't-1' });
+    expect((await GET(req('?threshold=0.1'), makeCtx('alice'))).status).toBe(400);
+    expect((await GET(req('?threshold=abc'), makeCtx('alice'))).status).toBe(400);
+  });
+
+  it('returns 404 for an associate outside a scoped trainer\'s cohorts', async () => {
+    mockAuth.mockResolvedValue({ kind: 'trainer', userId: 't-1', cohortIds: [3] });
+    mockAssoc.mockResolvedValue({ id: 1, cohortId: 7 });
+    expect((await GET(req(), makeCtx('alice'))).status).toBe(404);
+  });
+
+  it('flags a renamed copy within the cohort and returns both sides for the diff', async () => {
+    mockAuth.mockResolvedValue({ kind: 'trainer', userId: 't-1' });
+    mockAssoc.mockResolvedValue({ id: 1, cohortId: 7 });
+    mockAttempts
+      // Alice's recently attempted challenges
+      .mockResolvedValueOnce([{ challenge: { id: 'ch-1', slug: 'word-count', title: 'Word Count' } }])
+      // Cohort submissions on ch-1, newest first (Alice's older attempt is ignored)
+      .mockResolvedValueOnce([
+        attempt('a-2', 1, 'alice', ALICE_CODE),
+        attempt('b-1', 2, 'bob', BOB_CODE),
+        attempt('c-1', 3, 'carol', CAROL_CODE),
+        attempt('a-1', 1, 'alice', 'print(1)'),
+      ]);
+
+    const res = await GET(req(), makeCtx('alice'));
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    expect(body.threshold).toBe(0.6);
+    expect(body.matches).toHaveLength(1);
+    expect(body.matches[0]).toMatchObject({
+      challengeTitle: 'Word Count',
+      clusterSize: 2,
+      self: { attemptId: 'a-2', code: ALICE_CODE },
+      other: { attemptId: 'b-1', associateSlug: 'bob', code: BOB_CODE },
+    });
+    expect(body.matches[0].similarity).toBeGreaterThanOrEqual(0.6);
+
+    const cohortQuery = mockAttempts.mock.calls[1][0];
+    expect(cohortQuery.where).toEqual({
+      challengeId: 'ch-1',
+      verdict: { not: 'pending' },
+      codePurgedAt: null,
+      associate: { cohortId: 7 },
+    });
+  });
+});
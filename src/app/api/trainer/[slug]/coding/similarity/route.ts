@@ -0,0 +1,73 @@
+/**
+ * GET /api/trainer/[slug]/coding/similarity
+ *
+ * Trainer-only. Flags this associate's latest submissions that closely match
+ * a cohort-mate's on the same challenge (similarityService.ts):
+ *   { threshold, matches: SimilarityMatch[] }
+ *
+ * `?threshold=` (0.3–1, default 0.6) tunes the cut-off. Unlike the sibling
+ * /coding route this returns submittedCode for both sides of each match — the
+ * panel renders them side by side. Only associate-authored code is returned;
+ * hidden-test fixtures never are.
+ */
+
+import { NextResponse } from 'next/server';
+import { getCallerIdentity } from '@/lib/identity';
+import { can, canAccessCohort } from '@/lib/authorization';
+import { prisma } from '@/lib/prisma';
+import { findAssociateMatches, parseThreshold } from '@/lib/similarityService';
+import type { AssociateSimilarityPayload } from '@/lib/trainer-types';
+import { isCodingEnabled } from '@/lib/codingFeatureFlag';
+import { codingDisabledResponse } from '@/app/api/coding/_disabledResponse';
+
+// Same pattern as sibling /api/trainer/[slug]/route.ts (T-06-04 defense-in-depth).
+const SLUG_RE = /^[a-z0-9-]+$/;
+
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ slug: string }> },
+) {
+  if (!isCodingEnabled()) {
+    return codingDisabledResponse();
+  }
+
+  const caller = await getCallerIdentity();
+  if (caller.kind === 'anonymous') {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  if (!can(caller, 'associates:read')) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  const { slug } = await params;
+  if (!slug || !SLUG_RE.test(slug)) {
+    return NextResponse.json({ error: 'Invalid slug' }, { status: 400 });
+  }
+  const threshold = parseThreshold(new URL(req.url).searchParams.get('threshold'));
+  if (threshold === null) {
+    return NextResponse.json({ error: 'Invalid threshold' }, { status: 400 });
+  }
+
+  try {
+    const associate = await prisma.associate.findUnique({
+      where: { slug },
+      select: { id: true, cohortId: true },
+    });
+    // Out-of-scope associates look the same as missing ones (no slug probing).
+    if (!associate || !canAccessCohort(caller, associate.cohortId)) {
+      return NextResponse.json({ error: 'Associate not found' }, { status: 404 });
+    }
+
+    const payload: AssociateSimilarityPayload = {
+      threshold,
+      matches: await findAssociateMatches(associate, threshold),
+    };
+    return NextResponse.json(payload);
+  } catch (error) {
+    console.error('[/api/trainer/[slug]/coding/similarity] Failed:', error);
+    return NextResponse.json(
+      { error: 'Failed to compute similarity' },
+      { status: 500 },
+    );
+  }
+}
@@ -25,8 +25,13 @@ vi.mock('@/lib/identity', () => ({
   getCallerIdentity: vi.fn(),
 }))
 
+vi.mock('@/lib/auditLog', () => ({
+  recordAuditEvent: vi.fn(),
+}))
+
 import { prisma } from '@/lib/prisma'
 import { getCallerIdentity } from '@/lib/identity'
+import { recordAuditEvent } from '@/lib/auditLog'
 import { GET, PATCH } from '@/app/api/trainer/[slug]/route'
 
 const mockFindUnique = prisma.associate.findUnique as ReturnType<typeof vi.fn>
@@ -106,6 +111,7 @@ describe('PATCH /api/trainer/[slug]', () => {
   beforeEach(() => {
     vi.clearAllMocks()
     mockAuth.mockResolvedValue({ kind: 'trainer', userId: 'u1', email: 'trainer@test.com' })
+    mockFindUnique.mockResolvedValue({ cohortId: 3 })
   })
 
   it('returns 401 when unauthenticated', async () => {
@@ -179,4 +185,21 @@ describe('PATCH /api/trainer/[slug]', () => {
     const res = await PATCH(makeRequest('PATCH', { cohortId: -1 }), makeCtx('jane'))
     expect(res.status).toBe(400)
   })
+
+  it('records the cohort change with the previous cohort', async () => {
+    mockUpdate.mockResolvedValue({ slug: 'jane', cohortId: 7 })
+    await PATCH(makeRequest('PATCH', { cohortId: 7 }), makeCtx('jane'))
+    expect(recordAuditEvent).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: 'u1' }),
+      { action: 'associate.cohort_change', targetId: 'jane', before: { cohortId: 3 }, after: { cohortId: 7 } },
+    )
+  })
+
+  it('returns 404 without updating when the associate does not exist', async () => {
+    mockFindUnique.mockResolvedValue(null)
+    const res = await PATCH(makeRequest('PATCH', { cohortId: 7 }), makeCtx('missing'))
+    expect(res.status).toBe(404)
+    expect(mockUpdate).not.toHaveBeenCalled()
+    expect(recordAuditEvent).not.toHaveBeenCalled()
+  })
 })
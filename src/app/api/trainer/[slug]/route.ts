@@ -1,8 +1,11 @@
 import { NextResponse } from 'next/server'
 import { z } from 'zod'
 import { getCallerIdentity } from '@/lib/identity'
+import { can, canAccessCohort } from '@/lib/authorization'
+import { recordAuditEvent } from '@/lib/auditLog'
 import { prisma } from '@/lib/prisma'
 import { AssociateDetail, SessionSummary, GapScoreEntry } from '@/lib/trainer-types'
+import type { ReadinessExplanation } from '@/lib/readinessPolicy'
 
 // Validate readinessStatus from DB before casting to union type (WR-03)
 const VALID_READINESS_STATUSES = new Set(['ready', 'improving', 'not_ready'])
@@ -26,7 +29,7 @@ export async function GET(
 ) {
   // Auth check first — prevent slug probing by unauthenticated users (CR-04)
   const caller = await getCallerIdentity() // [AUDIT-VERIFIED: P20]
-  if (caller.kind !== 'trainer' && caller.kind !== 'admin') {
+  if (!can(caller, 'associates:read')) {
     return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
   }
 
@@ -61,7 +64,8 @@ export async function GET(
       },
     })
 
-    if (!associate) {
+    // Out-of-scope associates look the same as missing ones (no slug probing).
+    if (!associate || !canAccessCohort(caller, associate.cohortId)) {
       return NextResponse.json({ error: 'Associate not found' }, { status: 404 })
     }
 
@@ -119,6 +123,7 @@ export async function GET(
       lastSessionDate: sessions[0]?.date ?? null,
       cohortId: associate.cohortId ?? null,
       cohortName: associate.cohort?.name ?? null,
+      readinessExplanation: (associate.readinessExplanation as ReadinessExplanation | null) ?? null,
       sessions,
       gapScores,
     }
@@ -135,7 +140,7 @@ export async function PATCH(
   { params }: { params: Promise<{ slug: string }> }
 ) {
   const caller = await getCallerIdentity() // [AUDIT-VERIFIED: P20]
-  if (caller.kind !== 'trainer' && caller.kind !== 'admin') {
+  if (!can(caller, 'associates:write')) {
     return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
   }
 
@@ -161,12 +166,30 @@ export async function PATCH(
 
   const { cohortId } = parsed.data
 
+  // Read the current cohort first: scoped trainers may only move associates
+  // between their own cohorts, and the audit trail records where they came from.
+  const current = await prisma.associate.findUnique({ where: { slug }, select: { cohortId: true } })
+  if (!current || !canAccessCohort(caller, current.cohortId)) {
+    return NextResponse.json({ error: 'Associate not found' }, { status: 404 })
+  }
+  if (!canAccessCohort(caller, cohortId)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+  }
+
   try {
     const updated = await prisma.associate.update({
       where: { slug },
       data: { cohortId },
       select: { slug: true, cohortId: true },
     })
+    if (current.cohortId !== updated.cohortId) {
+      await recordAuditEvent(caller, {
+        action: 'associate.cohort_change',
+        targetId: slug,
+        before: { cohortId: current.cohortId },
+        after: { cohortId: updated.cohortId },
+      })
+    }
     return NextResponse.json({ slug: updated.slug, cohortId: updated.cohortId })
   } catch (error) {
     const code = (error as { code?: string })?.code
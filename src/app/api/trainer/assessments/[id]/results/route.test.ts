@@ -0,0 +1,75 @@
+/**
+ * Unit tests for GET /api/trainer/assessments/[id]/results.
+ *
+ * Auth gates and cohort scoping; the grid itself is covered by
+ * codingAssessmentService.test.ts.
+ */
+
+import { vi, describe, it, expect, beforeEach, afterEach } from 'vitest';
+
+vi.mock('@/lib/identity', () => ({
+  getCallerIdentity: vi.fn(),
+}));
+
+vi.mock('@/lib/codingAssessmentService', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/codingAssessmentService')>()),
+  getAssessmentResults: vi.fn(),
+}));
+
+import { getCallerIdentity } from '@/lib/identity';
+import { AssessmentError, getAssessmentResults } from '@/lib/codingAssessmentService';
+import { GET } from './route';
+
+const mockAuth = getCallerIdentity as ReturnType<typeof vi.fn>;
+const mockResults = getAssessmentResults as ReturnType<typeof vi.fn>;
+
+const TRAINER = { kind: 'trainer', userId: 't-1', email: 'coach@x.io' };
+const RESULTS = { assessment: { id: 'as-1', cohortId: 3 }, challenges: [], rows: [] };
+
+function get() {
+  return GET(new Request('http://localhost/api/trainer/assessments/as-1/results'), {
+    params: Promise.resolve({ id: 'as-1' }),
+  });
+}
+
+describe('GET /api/trainer/assessments/[id]/results', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubEnv('CODING_CHALLENGES_ENABLED', 'true');
+    mockResults.mockResolvedValue(RESULTS);
+  });
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('is trainer-only', async () => {
+    mockAuth.mockResolvedValue({ kind: 'anonymous' });
+    expect((await get()).status).toBe(401);
+    mockAuth.mockResolvedValue({
+      kind: 'associate',
+      userId: 'u',
+      email: 'a@x.io',
+      associateId: 7,
+      associateSlug: 'alice',
+    });
+    expect((await get()).status).toBe(403);
+  });
+
+  it('returns the grid, or 404 for an unknown assessment', async () => {
+    mockAuth.mockResolvedValue(TRAINER);
+    const res = await get();
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual(RESULTS);
+
+    mockResults.mockRejectedValue(new AssessmentError('NOT_FOUND', 'Assessment not found'));
+    expect((await get()).status).toBe(404);
+  });
+
+  it('returns 404 for an assessment outside the trainer scope', async () => {
+    mockAuth.mockResolvedValue({ ...TRAINER, cohortIds: [4] });
+    expect((await get()).status).toBe(404);
+
+    mockAuth.mockResolvedValue({ ...TRAINER, cohortIds: [3] });
+    expect((await get()).status).toBe(200);
+  });
+});
@@ -0,0 +1,47 @@
+/**
+ * GET /api/trainer/assessments/[id]/results
+ *
+ * Trainer/admin results grid for one assessment: every associate in the
+ * cohort × every challenge (best score, attempts used), their sitting times
+ * and proctor event counts. Associates who never started still get a row.
+ * Assessments outside a cohort-scoped caller's cohorts read as not found.
+ */
+
+import { NextResponse } from 'next/server';
+import { getCallerIdentity } from '@/lib/identity';
+import { can, canAccessCohort } from '@/lib/authorization';
+import { AssessmentError, getAssessmentResults } from '@/lib/codingAssessmentService';
+import { isCodingEnabled } from '@/lib/codingFeatureFlag';
+import { codingDisabledResponse } from '@/app/api/coding/_disabledResponse';
+
+export async function GET(
+  _req: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  if (!isCodingEnabled()) {
+    return codingDisabledResponse();
+  }
+
+  const caller = await getCallerIdentity();
+  if (caller.kind === 'anonymous') {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  if (!can(caller, 'associates:read')) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  const { id } = await params;
+  try {
+    const results = await getAssessmentResults(id);
+    if (!canAccessCohort(caller, results.assessment.cohortId)) {
+      return NextResponse.json({ error: 'Assessment not found' }, { status: 404 });
+    }
+    return NextResponse.json(results);
+  } catch (error) {
+    if (error instanceof AssessmentError && error.reason === 'NOT_FOUND') {
+      return NextResponse.json({ error: 'Assessment not found' }, { status: 404 });
+    }
+    console.error('[/api/trainer/assessments/[id]/results] Failed:', error);
+    return NextResponse.json({ error: 'Failed to load results' }, { status: 500 });
+  }
+}
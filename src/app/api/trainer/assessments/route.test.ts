@@ -0,0 +1,122 @@
+/**
+ * Unit tests for /api/trainer/assessments (GET list, POST create).
+ *
+ * Auth gates, cohort scoping, body validation and the service's cross-cohort
+ * rejection.
+ */
+
+import { vi, describe, it, expect, beforeEach, afterEach } from 'vitest';
+
+vi.mock('@/lib/prisma', () => {
+  const mockPrisma = {
+    cohort: { findUnique: vi.fn() },
+    codingChallenge: { findMany: vi.fn() },
+    codingAssessment: { findMany: vi.fn(), create: vi.fn() },
+  };
+  return { prisma: mockPrisma };
+});
+
+vi.mock('@/lib/identity', () => ({
+  getCallerIdentity: vi.fn(),
+}));
+
+import { prisma } from '@/lib/prisma';
+import { getCallerIdentity } from '@/lib/identity';
+import { GET, POST } from './route';
+
+const mockCohort = prisma.cohort.findUnique as ReturnType<typeof vi.fn>;
+const mockChallenges = prisma.codingChallenge.findMany as ReturnType<typeof vi.fn>;
+const mockList = prisma.codingAssessment.findMany as ReturnType<typeof vi.fn>;
+const mockCreate = prisma.codingAssessment.create as ReturnType<typeof vi.fn>;
+const mockAuth = getCallerIdentity as ReturnType<typeof vi.fn>;
+
+const TRAINER = { kind: 'trainer', userId: 't-1', email: 'coach@x.io' };
+
+function post(body: unknown) {
+  return new Request('http://localhost/api/trainer/assessments', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+}
+
+const INPUT = {
+  title: 'Week 3 check',
+  cohortId: 1,
+  challengeIds: ['ch-a'],
+  opensAt: '2026-05-04T09:00:00Z',
+  closesAt: '2026-05-04T12:00:00Z',
+  durationMinutes: 60,
+  attemptCap: 3,
+};
+
+describe('/api/trainer/assessments', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubEnv('CODING_CHALLENGES_ENABLED', 'true');
+  });
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('is trainer-only', async () => {
+    mockAuth.mockResolvedValue({ kind: 'anonymous' });
+    expect((await GET(new Request('http://localhost/api/trainer/assessments'))).status).toBe(401);
+    mockAuth.mockResolvedValue({
+      kind: 'associate',
+      userId: 'u',
+      email: 'a@x.io',
+      associateId: 7,
+      associateSlug: 'alice',
+    });
+    expect((await POST(post(INPUT))).status).toBe(403);
+  });
+
+  it('GET scopes the list to ?cohort', async () => {
+    mockAuth.mockResolvedValue(TRAINER);
+    mockList.mockResolvedValue([]);
+    const res = await GET(new Request('http://localhost/api/trainer/assessments?cohort=3'));
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({ assessments: [] });
+    expect(mockList.mock.calls[0][0].where).toEqual({ cohortId: { in: [3] } });
+  });
+
+  it('GET limits a scoped trainer to their cohorts', async () => {
+    mockAuth.mockResolvedValue({ ...TRAINER, cohortIds: [3, 4] });
+    mockList.mockResolvedValue([]);
+    expect((await GET(new Request('http://localhost/api/trainer/assessments'))).status).toBe(200);
+    expect(mockList.mock.calls[0][0].where).toEqual({ cohortId: { in: [3, 4] } });
+
+    expect((await GET(new Request('http://localhost/api/trainer/assessments?cohort=5'))).status).toBe(403);
+    expect(mockList).toHaveBeenCalledTimes(1);
+  });
+
+  it('POST creates the assessment and records the trainer', async () => {
+    mockAuth.mockResolvedValue(TRAINER);
+    mockCohort.mockResolvedValue({ id: 1 });
+    mockChallenges.mockResolvedValue([{ id: 'ch-a', slug: 'a', cohortId: null, language: 'python' }]);
+    mockCreate.mockResolvedValue({ id: 'as-1' });
+    const res = await POST(post(INPUT));
+    expect(res.status).toBe(201);
+    expect(await res.json()).toEqual({ id: 'as-1' });
+    expect(mockCreate.mock.calls[0][0].data).toMatchObject({ createdBy: 'coach@x.io', language: null });
+  });
+
+  it('POST rejects invalid bodies and challenges from another cohort', async () => {
+    mockAuth.mockResolvedValue(TRAINER);
+    expect((await POST(post({ ...INPUT, durationMinutes: 1 }))).status).toBe(400);
+
+    mockCohort.mockResolvedValue({ id: 1 });
+    mockChallenges.mockResolvedValue([{ id: 'ch-a', slug: 'a', cohortId: 2, language: 'python' }]);
+    const res = await POST(post(INPUT));
+    expect(res.status).toBe(400);
+    expect((await res.json()).error).toBe('Challenge a belongs to another cohort');
+    expect(mockCreate).not.toHaveBeenCalled();
+  });
+
+  it('POST refuses a cohort outside the trainer scope', async () => {
+    mockAuth.mockResolvedValue({ ...TRAINER, cohortIds: [2] });
+    expect((await POST(post(INPUT))).status).toBe(403);
+    expect(mockCreate).not.toHaveBeenCalled();
+  });
+});
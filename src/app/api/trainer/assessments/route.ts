@@ -0,0 +1,95 @@
+/**
+ * /api/trainer/assessments
+ *
+ *   GET  ?cohort=<id> — assessments (all cohorts in scope when omitted), newest first
+ *   POST              — create a timed assessment (codingAssessmentService.ts)
+ *
+ * Trainer/admin only; cohort-scoped staff see and create assessments for
+ * their own cohorts only. Challenges must be visible to the target cohort and,
+ * when a language lock is set, graded in that language.
+ */
+
+import { NextResponse } from 'next/server';
+import { getCallerIdentity } from '@/lib/identity';
+import { can, canAccessCohort, cohortScope } from '@/lib/authorization';
+import {
+  AssessmentError,
+  AssessmentInputSchema,
+  createAssessment,
+  listAssessments,
+} from '@/lib/codingAssessmentService';
+import { isCodingEnabled } from '@/lib/codingFeatureFlag';
+import { codingDisabledResponse } from '@/app/api/coding/_disabledResponse';
+
+export async function GET(req: Request) {
+  if (!isCodingEnabled()) {
+    return codingDisabledResponse();
+  }
+
+  const caller = await getCallerIdentity();
+  if (caller.kind === 'anonymous') {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  if (!can(caller, 'associates:read')) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  const cohortParam = new URL(req.url).searchParams.get('cohort');
+  const cohortId = cohortParam ? Number.parseInt(cohortParam, 10) : null;
+  if (cohortId !== null && !Number.isInteger(cohortId)) {
+    return NextResponse.json({ error: 'cohort must be an id' }, { status: 400 });
+  }
+  if (cohortId !== null && !canAccessCohort(caller, cohortId)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  try {
+    const cohortIds = cohortId !== null ? [cohortId] : cohortScope(caller);
+    return NextResponse.json({ assessments: await listAssessments(cohortIds) });
+  } catch (error) {
+    console.error('[/api/trainer/assessments] GET failed:', error);
+    return NextResponse.json({ error: 'Failed to load assessments' }, { status: 500 });
+  }
+}
+
+export async function POST(req: Request) {
+  if (!isCodingEnabled()) {
+    return codingDisabledResponse();
+  }
+
+  const caller = await getCallerIdentity();
+  if (caller.kind === 'anonymous') {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  if (!can(caller, 'associates:write')) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+  const parsed = AssessmentInputSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: 'Invalid assessment', issues: parsed.error.issues },
+      { status: 400 },
+    );
+  }
+  if (!canAccessCohort(caller, parsed.data.cohortId)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  try {
+    const created = await createAssessment(parsed.data, caller.email);
+    return NextResponse.json(created, { status: 201 });
+  } catch (error) {
+    if (error instanceof AssessmentError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('[/api/trainer/assessments] POST failed:', error);
+    return NextResponse.json({ error: 'Failed to create assessment' }, { status: 500 });
+  }
+}
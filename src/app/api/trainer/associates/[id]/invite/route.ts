@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getCallerIdentity } from '@/lib/identity';
+import { can, canAccessCohort } from '@/lib/authorization';
 import { prisma } from '@/lib/prisma';
 import { checkAuthRateLimit } from '@/lib/authRateLimit';
 
@@ -15,7 +16,7 @@ export async function POST(
 ): Promise<NextResponse> {
   try {
     const caller = await getCallerIdentity(); // [AUDIT-VERIFIED: P20]
-    if (caller.kind !== 'trainer' && caller.kind !== 'admin') {
+    if (!can(caller, 'associates:write')) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
@@ -31,7 +32,7 @@ export async function POST(
       select: { id: true, slug: true, email: true, authUserId: true, cohortId: true, lastInvitedAt: true },
     });
 
-    if (!associate) {
+    if (!associate || !canAccessCohort(caller, associate.cohortId)) {
       return NextResponse.json({ error: 'Associate not found' }, { status: 404 });
     }
 
@@ -45,7 +46,7 @@ export async function POST(
 
     // Per-email rate limit: 3/hr (separate from bulk daily limit)
     const ip = caller.email ?? 'trainer';
-    const limit = checkAuthRateLimit({ email: ip, ip: 'trainer-invite', type: 'magic-link' });
+    const limit = await checkAuthRateLimit({ email: ip, ip: 'trainer-invite', type: 'magic-link' });
     if (!limit.allowed) {
       return NextResponse.json({ error: 'Daily invite limit reached' }, { status: 429 });
     }
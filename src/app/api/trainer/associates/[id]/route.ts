@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { z } from 'zod'
 import { getCallerIdentity } from '@/lib/identity'
+import { can, canAccessCohort, cohortScope } from '@/lib/authorization'
+import { recordAuditEvent } from '@/lib/auditLog'
 import { prisma } from '@/lib/prisma'
 
 // CSRF defense-in-depth — reject cross-origin state changes before touching DB.
@@ -42,7 +44,7 @@ export async function PATCH(
   if (originErr) return originErr
 
   const caller = await getCallerIdentity() // [AUDIT-VERIFIED: P20]
-  if (caller.kind !== 'trainer' && caller.kind !== 'admin') {
+  if (!can(caller, 'associates:write')) {
     return NextResponse.json({ error: 'unauthorized' }, { status: 401 })
   }
 
@@ -62,6 +64,13 @@ export async function PATCH(
   }
   const normalized = parsed.data.email === '' ? null : parsed.data.email
 
+  if (cohortScope(caller) !== null) {
+    const target = await prisma.associate.findUnique({ where: { id }, select: { cohortId: true } })
+    if (!target || !canAccessCohort(caller, target.cohortId)) {
+      return NextResponse.json({ error: 'not_found' }, { status: 404 })
+    }
+  }
+
   try {
     const updated = await prisma.associate.update({
       where: { id },
@@ -96,7 +105,7 @@ export async function DELETE(
   if (originErr) return originErr
 
   const caller = await getCallerIdentity() // [AUDIT-VERIFIED: P20]
-  if (caller.kind !== 'trainer' && caller.kind !== 'admin') {
+  if (!can(caller, 'associates:write')) {
     return NextResponse.json({ error: 'unauthorized' }, { status: 401 })
   }
 
@@ -108,9 +117,9 @@ export async function DELETE(
   // client-supplied counts. If the row has any sessions, refuse delete.
   const target = await prisma.associate.findUnique({
     where: { id },
-    select: { id: true, _count: { select: { sessions: true } } },
+    select: { id: true, slug: true, email: true, cohortId: true, _count: { select: { sessions: true } } },
   })
-  if (!target) return NextResponse.json({ error: 'not_found' }, { status: 404 })
+  if (!target || !canAccessCohort(caller, target.cohortId)) return NextResponse.json({ error: 'not_found' }, { status: 404 })
   if (target._count.sessions > 0) {
     return NextResponse.json(
       { error: 'has_sessions', sessionCount: target._count.sessions },
@@ -120,6 +129,11 @@ export async function DELETE(
 
   try {
     await prisma.associate.delete({ where: { id } })
+    await recordAuditEvent(caller, {
+      action: 'associate.delete',
+      targetId: id,
+      before: { slug: target.slug, email: target.email, cohortId: target.cohortId },
+    })
     return NextResponse.json({ ok: true, id })
   } catch (error) {
     console.error(
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getCallerIdentity } from '@/lib/identity'
+import { can } from '@/lib/authorization'
 import { prisma } from '@/lib/prisma'
 import type { BackfillPreview } from '@/lib/trainer-types'
 
@@ -7,7 +8,7 @@ import type { BackfillPreview } from '@/lib/trainer-types'
 // before Phase 18 email-auth enforcement. Pure math over Associate rows; no writes.
 export async function GET(request: NextRequest) {
   const caller = await getCallerIdentity() // [AUDIT-VERIFIED: P20]
-  if (caller.kind !== 'trainer' && caller.kind !== 'admin') {
+  if (!can(caller, 'associates:write')) {
     return NextResponse.json({ error: 'unauthorized' }, { status: 401 })
   }
 
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getCallerIdentity } from '@/lib/identity'
+import { can, cohortScopeWhere } from '@/lib/authorization'
 import { prisma } from '@/lib/prisma'
 import type { AssociateBackfillRow } from '@/lib/trainer-types'
 
@@ -9,12 +10,13 @@ import type { AssociateBackfillRow } from '@/lib/trainer-types'
 // delete-safety UI on Plan 17-03.
 export async function GET(request: NextRequest) {
   const caller = await getCallerIdentity() // [AUDIT-VERIFIED: P20]
-  if (caller.kind !== 'trainer' && caller.kind !== 'admin') {
+  if (!can(caller, 'associates:read')) {
     return NextResponse.json({ error: 'unauthorized' }, { status: 401 })
   }
 
   try {
     const rows = await prisma.associate.findMany({
+      where: cohortScopeWhere(caller),
       orderBy: { createdAt: 'asc' },
       include: {
         _count: { select: { sessions: true } },
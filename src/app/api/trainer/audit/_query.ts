@@ -0,0 +1,17 @@
+import { z } from 'zod'
+
+// Filters shared by the JSON viewer and the CSV export so both select the
+// same rows. `from` / `to` accept a date or datetime; `to` is exclusive.
+export const AuditFilterQuery = z.object({
+  actor: z.string().trim().min(1).optional(),
+  action: z.string().trim().min(1).optional(),
+  targetType: z.string().trim().min(1).optional(),
+  targetId: z.string().trim().min(1).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+})
+
+/** Search params as an object, with empty values dropped (blank filter inputs). */
+export function queryParams(url: string): Record<string, string> {
+  return Object.fromEntries([...new URL(url).searchParams].filter(([, v]) => v !== ''))
+}
@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server'
+import { getCallerIdentity } from '@/lib/identity'
+import { can } from '@/lib/authorization'
+import { auditEventsToCsv, exportAuditEvents } from '@/lib/auditLog'
+import { AuditFilterQuery, queryParams } from '../_query'
+
+/** Same filters as GET /api/trainer/audit, every matching row as CSV (oldest first). */
+export async function GET(request: Request) {
+  const caller = await getCallerIdentity()
+  if (!can(caller, 'audit:read')) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const parsed = AuditFilterQuery.safeParse(queryParams(request.url))
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'Invalid query', issues: parsed.error.issues }, { status: 400 })
+  }
+
+  try {
+    const csv = auditEventsToCsv(await exportAuditEvents(parsed.data))
+    const stamp = new Date().toISOString().slice(0, 10)
+    return new NextResponse(csv, {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="audit-log-${stamp}.csv"`,
+        'Cache-Control': 'no-store',
+      },
+    })
+  } catch (err) {
+    console.error('[/api/trainer/audit/export] GET failed:', err)
+    return NextResponse.json({ error: 'Failed to export audit log' }, { status: 500 })
+  }
+}
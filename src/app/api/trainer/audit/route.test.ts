@@ -0,0 +1,69 @@
+/**
+ * Unit tests for GET /api/trainer/audit and /api/trainer/audit/export.
+ * The audit library is mocked — these cover auth, query parsing and the
+ * CSV response headers.
+ */
+
+import { vi, describe, it, expect, beforeEach } from 'vitest'
+
+vi.mock('@/lib/identity', () => ({
+  getCallerIdentity: vi.fn(),
+}))
+
+vi.mock('@/lib/auditLog', () => ({
+  listAuditEvents: vi.fn(),
+  exportAuditEvents: vi.fn(),
+  auditEventsToCsv: vi.fn(() => 'header\r\n'),
+}))
+
+import { getCallerIdentity } from '@/lib/identity'
+import { exportAuditEvents, listAuditEvents } from '@/lib/auditLog'
+import { GET } from '@/app/api/trainer/audit/route'
+import { GET as EXPORT } from '@/app/api/trainer/audit/export/route'
+
+const mockAuth = getCallerIdentity as ReturnType<typeof vi.fn>
+const mockList = listAuditEvents as ReturnType<typeof vi.fn>
+const mockExport = exportAuditEvents as ReturnType<typeof vi.fn>
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  mockAuth.mockResolvedValue({ kind: 'admin', userId: 'a1', email: 'admin@test.com' })
+  mockList.mockResolvedValue({ events: [], nextCursor: null })
+  mockExport.mockResolvedValue([])
+})
+
+describe('GET /api/trainer/audit', () => {
+  it('is limited to admins', async () => {
+    mockAuth.mockResolvedValue({ kind: 'trainer', userId: 'u1', email: 'trainer@test.com' })
+    const res = await GET(new Request('http://localhost/api/trainer/audit'))
+    expect(res.status).toBe(401)
+    expect(mockList).not.toHaveBeenCalled()
+  })
+
+  it('passes filters, ignores blank ones and defaults the page size', async () => {
+    const res = await GET(
+      new Request('http://localhost/api/trainer/audit?actor=ada&action=cohort.delete&targetId=&from=2026-05-01&cursor=abc'),
+    )
+    expect(res.status).toBe(200)
+    expect(mockList).toHaveBeenCalledWith(
+      { actor: 'ada', action: 'cohort.delete', from: new Date('2026-05-01') },
+      { cursor: 'abc', limit: 50 },
+    )
+  })
+
+  it('rejects a bad date', async () => {
+    const res = await GET(new Request('http://localhost/api/trainer/audit?from=yesterday'))
+    expect(res.status).toBe(400)
+  })
+})
+
+describe('GET /api/trainer/audit/export', () => {
+  it('returns CSV as a download', async () => {
+    const res = await EXPORT(new Request('http://localhost/api/trainer/audit/export?targetType=session'))
+    expect(res.status).toBe(200)
+    expect(res.headers.get('content-type')).toContain('text/csv')
+    expect(res.headers.get('content-disposition')).toMatch(/^attachment; filename="audit-log-\d{4}-\d{2}-\d{2}\.csv"$/)
+    expect(mockExport).toHaveBeenCalledWith({ targetType: 'session' })
+    expect(await res.text()).toBe('header\r\n')
+  })
+})
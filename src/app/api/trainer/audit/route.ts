@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { getCallerIdentity } from '@/lib/identity'
+import { can } from '@/lib/authorization'
+import { listAuditEvents } from '@/lib/auditLog'
+import { AuditFilterQuery, queryParams } from './_query'
+
+const ListQuery = AuditFilterQuery.extend({
+  cursor: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+})
+
+export async function GET(request: Request) {
+  const caller = await getCallerIdentity()
+  if (!can(caller, 'audit:read')) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const parsed = ListQuery.safeParse(queryParams(request.url))
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'Invalid query', issues: parsed.error.issues }, { status: 400 })
+  }
+  const { cursor, limit, ...filter } = parsed.data
+
+  try {
+    return NextResponse.json(await listAuditEvents(filter, { cursor, limit }))
+  } catch (err) {
+    console.error('[/api/trainer/audit] GET failed:', err)
+    return NextResponse.json({ error: 'Failed to load audit log' }, { status: 500 })
+  }
+}
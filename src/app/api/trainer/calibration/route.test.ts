@@ -7,6 +7,7 @@
  * Null assessments: sessions with null assessments are skipped
  * Override count: counts questions where finalScore !== llmScore
  * Cohort scoping: ?cohort=<id> narrows query
+ * Criterion calibration: structured llmBreakdown sub-scores vs finalScore
  *
  * Prisma + auth are mocked — no DB connection required.
  */
@@ -51,7 +52,7 @@ const ASSOCIATE_IDENTITY = {
 }
 
 // Helper: build a mock session with assessments JSON
-function makeSession(assessments: Record<string, { llmScore?: number; finalScore?: number }> | null) {
+function makeSession(assessments: Record<string, { llmScore?: number; finalScore?: number; llmBreakdown?: unknown }> | null) {
   return { assessments }
 }
 
@@ -221,4 +222,39 @@ describe('GET /api/trainer/calibration', () => {
       }),
     )
   })
+
+  it('computes per-criterion calibration from structured breakdowns only', async () => {
+    const breakdown = (accuracy: number, depth: number) => ({
+      confidence: 0.8,
+      criteria: {
+        accuracy: { score: accuracy, rationale: 'r' },
+        completeness: { score: 3, rationale: 'r' },
+        depth: { score: depth, rationale: 'r' },
+        communication: { score: 4, rationale: 'r' },
+      },
+    })
+    mockGetCallerIdentity.mockResolvedValue(TRAINER_IDENTITY)
+    mockFindMany.mockResolvedValue([
+      makeSession({
+        q1: { llmScore: 4, finalScore: 5, llmBreakdown: breakdown(4, 2) },
+        q2: { llmScore: 3, finalScore: 3, llmBreakdown: breakdown(3, 2) },
+        q3: { llmScore: 2, finalScore: 4 },  // legacy free-text score — excluded
+      }),
+    ])
+    const res = await GET(makeRequest())
+    const body = await res.json()
+    expect(body.totalScoredQuestions).toBe(3)
+    expect(body.criterionCalibration.accuracy).toEqual({ count: 2, meanAiScore: 3.5, meanDelta: 0.5 })
+    expect(body.criterionCalibration.depth).toEqual({ count: 2, meanAiScore: 2, meanDelta: 2 })
+  })
+
+  it('returns null criterion calibration when no structured scores exist', async () => {
+    mockGetCallerIdentity.mockResolvedValue(TRAINER_IDENTITY)
+    mockFindMany.mockResolvedValue([makeSession({ q1: { llmScore: 3, finalScore: 4 } })])
+    const res = await GET(makeRequest())
+    const body = await res.json()
+    expect(body.criterionCalibration).toEqual({
+      accuracy: null, completeness: null, depth: null, communication: null,
+    })
+  })
 })
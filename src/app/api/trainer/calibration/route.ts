@@ -1,11 +1,14 @@
 import { NextResponse } from 'next/server'
 import { getCallerIdentity } from '@/lib/identity'
+import { can, canAccessCohort } from '@/lib/authorization'
 import { prisma } from '@/lib/prisma'
+import { computeCriterionCalibration } from '@/lib/structuredScore'
 import type { CalibrationData } from '@/lib/trainer-types'
+import type { QuestionAssessment } from '@/lib/types'
 
 export async function GET(request: Request) {
   const caller = await getCallerIdentity()
-  if (caller.kind !== 'trainer' && caller.kind !== 'admin') {
+  if (!can(caller, 'associates:read')) {
     return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
   }
 
@@ -19,6 +22,10 @@ export async function GET(request: Request) {
     }
   }
 
+  if (!canAccessCohort(caller, cohortId)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+  }
+
   try {
     const sessions = await prisma.session.findMany({
       where: {
@@ -44,6 +51,7 @@ export async function GET(request: Request) {
 
     let overrideCount = 0
     let totalScoredQuestions = 0
+    const structuredEntries: Array<Pick<QuestionAssessment, 'llmBreakdown' | 'finalScore'>> = []
 
     for (const session of sessions) {
       // Skip sessions with null assessments (graceful fallback per D-19)
@@ -52,7 +60,7 @@ export async function GET(request: Request) {
       // assessments is stored as JSON — cast to the expected shape
       const assessments = session.assessments as Record<
         string,
-        { llmScore?: number; finalScore?: number }
+        Pick<QuestionAssessment, 'llmScore' | 'finalScore' | 'llmBreakdown'>
       >
 
       for (const entry of Object.values(assessments)) {
@@ -64,6 +72,7 @@ export async function GET(request: Request) {
         }
 
         totalScoredQuestions++
+        if (entry.llmBreakdown) structuredEntries.push(entry)
 
         if (entry.finalScore !== entry.llmScore) {
           overrideCount++
@@ -86,6 +95,7 @@ export async function GET(request: Request) {
       overrideCount,
       totalScoredQuestions,
       deltaBuckets,
+      criterionCalibration: computeCriterionCalibration(structuredEntries),
     }
 
     return NextResponse.json(calibrationData)
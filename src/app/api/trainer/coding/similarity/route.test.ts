@@ -0,0 +1,79 @@
+/**
+ * Unit tests for GET /api/trainer/coding/similarity.
+ *
+ * Auth gates, query validation and cohort scoping; the report itself is
+ * covered by similarityService.test.ts.
+ */
+
+import { vi, describe, it, expect, beforeEach, afterEach } from 'vitest';
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: { codingChallenge: { findUnique: vi.fn() } },
+}));
+
+vi.mock('@/lib/identity', () => ({
+  getCallerIdentity: vi.fn(),
+}));
+
+vi.mock('@/lib/similarityService', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/similarityService')>()),
+  buildSimilarityReport: vi.fn(),
+}));
+
+import { prisma } from '@/lib/prisma';
+import { getCallerIdentity } from '@/lib/identity';
+import { buildSimilarityReport } from '@/lib/similarityService';
+import { GET } from '@/app/api/trainer/coding/similarity/route';
+
+const mockChallenge = prisma.codingChallenge.findUnique as ReturnType<typeof vi.fn>;
+const mockAuth = getCallerIdentity as ReturnType<typeof vi.fn>;
+const mockReport = buildSimilarityReport as ReturnType<typeof vi.fn>;
+
+function req(query: string) {
+  return new Request(`http://localhost/api/trainer/coding/similarity${query}`);
+}
+
+describe('GET /api/trainer/coding/similarity', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubEnv('CODING_CHALLENGES_ENABLED', 'true');
+    mockAuth.mockResolvedValue({ kind: 'trainer', userId: 't1', email: 't@example.com' });
+    mockChallenge.mockResolvedValue({ id: 'ch-1' });
+    mockReport.mockResolvedValue({ pairs: [], clusters: [] });
+  });
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('returns 401 for anonymous and 403 for associates', async () => {
+    mockAuth.mockResolvedValueOnce({ kind: 'anonymous' });
+    expect((await GET(req('?challengeId=ch-1&cohort=3'))).status).toBe(401);
+
+    mockAuth.mockResolvedValueOnce({ kind: 'associate', userId: 'u', email: 'a', associateId: 1, associateSlug: 'a' });
+    expect((await GET(req('?challengeId=ch-1&cohort=3'))).status).toBe(403);
+  });
+
+  it('returns 400 without a challenge or with a malformed cohort', async () => {
+    expect((await GET(req('?cohort=3'))).status).toBe(400);
+    expect((await GET(req('?challengeId=ch-1&cohort=abc'))).status).toBe(400);
+  });
+
+  it('builds the report for the requested cohort', async () => {
+    const res = await GET(req('?challengeId=ch-1&cohort=3'));
+    expect(res.status).toBe(200);
+    expect(mockReport).toHaveBeenCalledWith('ch-1', 3, expect.any(Number));
+
+    await GET(req('?challengeId=ch-1&cohort=none'));
+    expect(mockReport).toHaveBeenLastCalledWith('ch-1', null, expect.any(Number));
+  });
+
+  it('returns 403 when a scoped trainer asks for another cohort or for unassigned associates', async () => {
+    mockAuth.mockResolvedValue({ kind: 'trainer', userId: 't1', email: 't@example.com', cohortIds: [4] });
+
+    expect((await GET(req('?challengeId=ch-1&cohort=3'))).status).toBe(403);
+    expect((await GET(req('?challengeId=ch-1&cohort=none'))).status).toBe(403);
+    expect(mockReport).not.toHaveBeenCalled();
+
+    expect((await GET(req('?challengeId=ch-1&cohort=4'))).status).toBe(200);
+  });
+});
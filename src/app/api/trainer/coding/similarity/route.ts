@@ -0,0 +1,68 @@
+/**
+ * GET /api/trainer/coding/similarity?challengeId=…&cohort=…&threshold=…
+ *
+ * Trainer-only per-challenge similarity report (similarityService.ts): every
+ * associate's latest submission in the cohort, the pairs at or above the
+ * threshold and the clusters they form. Code is not included — open an
+ * associate's coding panel for the side-by-side diff.
+ *
+ * `cohort` is a cohort id, or `none` for associates without a cohort; a
+ * cohort-scoped caller may only ask for one of their own cohorts.
+ */
+
+import { NextResponse } from 'next/server';
+import { getCallerIdentity } from '@/lib/identity';
+import { can, canAccessCohort } from '@/lib/authorization';
+import { prisma } from '@/lib/prisma';
+import { buildSimilarityReport, parseThreshold } from '@/lib/similarityService';
+import { isCodingEnabled } from '@/lib/codingFeatureFlag';
+import { codingDisabledResponse } from '@/app/api/coding/_disabledResponse';
+
+export async function GET(req: Request) {
+  if (!isCodingEnabled()) {
+    return codingDisabledResponse();
+  }
+
+  const caller = await getCallerIdentity();
+  if (caller.kind === 'anonymous') {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  if (!can(caller, 'associates:read')) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  const url = new URL(req.url);
+  const challengeId = url.searchParams.get('challengeId');
+  if (!challengeId || challengeId.length > 64) {
+    return NextResponse.json({ error: 'challengeId is required' }, { status: 400 });
+  }
+  const cohortParam = url.searchParams.get('cohort');
+  const cohortId = cohortParam === 'none' ? null : Number.parseInt(cohortParam ?? '', 10);
+  if (cohortId !== null && !Number.isInteger(cohortId)) {
+    return NextResponse.json({ error: 'cohort must be an id or "none"' }, { status: 400 });
+  }
+  if (!canAccessCohort(caller, cohortId)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+  const threshold = parseThreshold(url.searchParams.get('threshold'));
+  if (threshold === null) {
+    return NextResponse.json({ error: 'Invalid threshold' }, { status: 400 });
+  }
+
+  try {
+    const challenge = await prisma.codingChallenge.findUnique({
+      where: { id: challengeId },
+      select: { id: true },
+    });
+    if (!challenge) {
+      return NextResponse.json({ error: 'Challenge not found' }, { status: 404 });
+    }
+    return NextResponse.json(await buildSimilarityReport(challenge.id, cohortId, threshold));
+  } catch (error) {
+    console.error('[/api/trainer/coding/similarity] Failed:', error);
+    return NextResponse.json(
+      { error: 'Failed to compute similarity' },
+      { status: 500 },
+    );
+  }
+}
@@ -1,6 +1,7 @@
 import { NextResponse } from 'next/server'
 import { Prisma } from '@/generated/prisma'
 import { getCallerIdentity } from '@/lib/identity'
+import { can, canAccessCohort } from '@/lib/authorization'
 import { prisma } from '@/lib/prisma'
 import type { CohortTrendPoint } from '@/lib/trainer-types'
 
@@ -12,7 +13,7 @@ interface TrendRawRow {
 
 export async function GET(request: Request) {
   const caller = await getCallerIdentity()
-  if (caller.kind !== 'trainer' && caller.kind !== 'admin') {
+  if (!can(caller, 'readiness:read')) {
     return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
   }
 
@@ -29,6 +30,10 @@ export async function GET(request: Request) {
     return NextResponse.json([])
   }
 
+  if (!canAccessCohort(caller, cohortId)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+  }
+
   try {
     // Weekly buckets using DATE_TRUNC on createdAt (not a date string field — per D-22)
     // Returns up to 12 weeks of data in ascending order
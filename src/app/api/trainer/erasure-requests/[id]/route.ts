@@ -0,0 +1,58 @@
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { getCallerIdentity } from '@/lib/identity'
+import { can } from '@/lib/authorization'
+import { ErasureError, approveErasure, rejectErasure } from '@/lib/associateData'
+
+const DecisionBody = z.discriminatedUnion('decision', [
+  z.object({ decision: z.literal('approve') }),
+  z.object({ decision: z.literal('reject'), note: z.string().trim().max(1000).optional() }),
+])
+
+const ERROR_STATUS: Record<ErasureError['reason'], number> = {
+  NOT_FOUND: 404,
+  NOT_PENDING: 409,
+  ASSOCIATE_NOT_FOUND: 409,
+}
+
+/**
+ * Approve (runs the erasure and returns the request with its report) or
+ * reject a pending request. A failed erasure leaves the request 'failed' and
+ * can be approved again.
+ */
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const caller = await getCallerIdentity()
+  if (!can(caller, 'privacy:manage')) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const { id } = await params
+
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 })
+  }
+  const parsed = DecisionBody.safeParse(body)
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'Validation failed', issues: parsed.error.issues }, { status: 400 })
+  }
+
+  try {
+    const saved =
+      parsed.data.decision === 'approve'
+        ? await approveErasure(id, caller)
+        : await rejectErasure(id, caller, parsed.data.note || null)
+    return NextResponse.json({ request: saved })
+  } catch (err) {
+    if (err instanceof ErasureError) {
+      return NextResponse.json({ error: err.message }, { status: ERROR_STATUS[err.reason] })
+    }
+    console.error('[/api/trainer/erasure-requests/[id]] PATCH failed:', err)
+    return NextResponse.json({ error: 'Erasure failed; the request was marked failed and can be retried' }, { status: 500 })
+  }
+}
@@ -0,0 +1,103 @@
+/**
+ * Unit tests for GET /api/trainer/erasure-requests and PATCH
+ * /api/trainer/erasure-requests/[id]. The erasure library is mocked — these
+ * cover auth, decision parsing and error mapping.
+ */
+
+import { vi, describe, it, expect, beforeEach } from 'vitest'
+
+vi.mock('@/lib/identity', () => ({
+  getCallerIdentity: vi.fn(),
+}))
+
+vi.mock('@/lib/associateData', async () => {
+  const actual = await vi.importActual<typeof import('@/lib/associateData')>('@/lib/associateData')
+  return {
+    ERASURE_STATUSES: actual.ERASURE_STATUSES,
+    ErasureError: actual.ErasureError,
+    listErasureRequests: vi.fn(),
+    approveErasure: vi.fn(),
+    rejectErasure: vi.fn(),
+  }
+})
+
+vi.mock('@/lib/prisma', () => ({ prisma: {} }))
+vi.mock('@/lib/supabase/admin', () => ({ supabaseAdmin: {} }))
+
+import { getCallerIdentity } from '@/lib/identity'
+import { ErasureError, approveErasure, listErasureRequests, rejectErasure } from '@/lib/associateData'
+import { GET } from '@/app/api/trainer/erasure-requests/route'
+import { PATCH } from '@/app/api/trainer/erasure-requests/[id]/route'
+
+const mockAuth = getCallerIdentity as ReturnType<typeof vi.fn>
+const mockList = listErasureRequests as ReturnType<typeof vi.fn>
+const mockApprove = approveErasure as ReturnType<typeof vi.fn>
+const mockReject = rejectErasure as ReturnType<typeof vi.fn>
+
+const ADMIN = { kind: 'admin', userId: 'a1', email: 'admin@test.com' }
+
+function patch(body: unknown) {
+  return PATCH(
+    new Request('http://localhost/api/trainer/erasure-requests/req1', { method: 'PATCH', body: JSON.stringify(body) }),
+    { params: Promise.resolve({ id: 'req1' }) },
+  )
+}
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  mockAuth.mockResolvedValue(ADMIN)
+  mockList.mockResolvedValue([])
+  mockApprove.mockResolvedValue({ id: 'req1', status: 'completed' })
+  mockReject.mockResolvedValue({ id: 'req1', status: 'rejected' })
+})
+
+describe('GET /api/trainer/erasure-requests', () => {
+  it('is limited to admins', async () => {
+    mockAuth.mockResolvedValue({ kind: 'trainer', userId: 'u1', email: 'trainer@test.com' })
+    const res = await GET(new Request('http://localhost/api/trainer/erasure-requests'))
+    expect(res.status).toBe(401)
+    expect(mockList).not.toHaveBeenCalled()
+  })
+
+  it('filters by status', async () => {
+    await GET(new Request('http://localhost/api/trainer/erasure-requests?status=pending'))
+    expect(mockList).toHaveBeenCalledWith('pending')
+    const bad = await GET(new Request('http://localhost/api/trainer/erasure-requests?status=done'))
+    expect(bad.status).toBe(400)
+  })
+})
+
+describe('PATCH /api/trainer/erasure-requests/[id]', () => {
+  it('is limited to admins', async () => {
+    mockAuth.mockResolvedValue({ kind: 'recruiter', userId: 'r1', email: 'r@test.com' })
+    expect((await patch({ decision: 'approve' })).status).toBe(401)
+    expect(mockApprove).not.toHaveBeenCalled()
+  })
+
+  it('approves and returns the completed request', async () => {
+    const res = await patch({ decision: 'approve' })
+    expect(res.status).toBe(200)
+    expect(mockApprove).toHaveBeenCalledWith('req1', ADMIN)
+    expect(await res.json()).toEqual({ request: { id: 'req1', status: 'completed' } })
+  })
+
+  it('rejects with an optional note', async () => {
+    await patch({ decision: 'reject', note: ' active contract ' })
+    expect(mockReject).toHaveBeenCalledWith('req1', ADMIN, 'active contract')
+  })
+
+  it('maps request errors and unexpected failures', async () => {
+    mockApprove.mockRejectedValueOnce(new ErasureError('NOT_PENDING', 'Erasure request is already completed'))
+    expect((await patch({ decision: 'approve' })).status).toBe(409)
+
+    mockApprove.mockRejectedValueOnce(new ErasureError('NOT_FOUND', 'Erasure request not found'))
+    expect((await patch({ decision: 'approve' })).status).toBe(404)
+
+    mockApprove.mockRejectedValueOnce(new Error('supabase down'))
+    expect((await patch({ decision: 'approve' })).status).toBe(500)
+  })
+
+  it('validates the decision', async () => {
+    expect((await patch({ decision: 'delete' })).status).toBe(400)
+  })
+})
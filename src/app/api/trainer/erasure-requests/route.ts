@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { getCallerIdentity } from '@/lib/identity'
+import { can } from '@/lib/authorization'
+import { ERASURE_STATUSES, listErasureRequests } from '@/lib/associateData'
+
+const ListQuery = z.object({
+  status: z.enum(ERASURE_STATUSES).optional(),
+})
+
+export async function GET(request: Request) {
+  const caller = await getCallerIdentity()
+  if (!can(caller, 'privacy:manage')) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const status = new URL(request.url).searchParams.get('status') || undefined
+  const parsed = ListQuery.safeParse({ status })
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'Invalid query', issues: parsed.error.issues }, { status: 400 })
+  }
+
+  try {
+    return NextResponse.json({ requests: await listErasureRequests(parsed.data.status) })
+  } catch (err) {
+    console.error('[/api/trainer/erasure-requests] GET failed:', err)
+    return NextResponse.json({ error: 'Failed to load erasure requests' }, { status: 500 })
+  }
+}
@@ -1,6 +1,7 @@
 import { NextResponse } from 'next/server'
 import { Prisma } from '@/generated/prisma'
 import { getCallerIdentity } from '@/lib/identity'
+import { can, canAccessCohort } from '@/lib/authorization'
 import { prisma } from '@/lib/prisma'
 import type { GapAnalysisRow, GapDrillThroughRow } from '@/lib/trainer-types'
 
@@ -20,7 +21,7 @@ interface DrillThroughRawRow {
 
 export async function GET(request: Request) {
   const caller = await getCallerIdentity()
-  if (caller.kind !== 'trainer' && caller.kind !== 'admin') {
+  if (!can(caller, 'associates:read')) {
     return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
   }
 
@@ -38,6 +39,10 @@ export async function GET(request: Request) {
     }
   }
 
+  if (!canAccessCohort(caller, cohortId)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+  }
+
   // Drill-through mode: skill AND topic must both be present (or neither)
   const hasDrill = skillParam !== null || topicParam !== null
   if (hasDrill && (!skillParam || !topicParam)) {
@@ -114,6 +114,13 @@ describe('POST /api/trainer/invites/bulk', () => {
       const body = await res.json();
       expect(body.error).toMatch(/cohort not found/i);
     });
+
+    it('returns 404 when the cohort is outside a scoped trainer\'s cohorts', async () => {
+      mockGetCallerIdentity.mockResolvedValue({ ...trainerCaller, cohortIds: [2] });
+      const res = await POST(makeRequest({ emails: ['a@b.com'], cohortId: 1 }));
+      expect(res.status).toBe(404);
+      expect(mockInviteAssociate).not.toHaveBeenCalled();
+    });
   });
 
   describe('daily rate limit pre-flight', () => {
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { getCallerIdentity } from '@/lib/identity';
+import { can, canAccessCohort } from '@/lib/authorization';
 import { prisma } from '@/lib/prisma';
 import { inviteAssociate } from '@/lib/inviteHelper';
 
@@ -17,7 +18,7 @@ const BulkInviteSchema = z.object({
  * Bulk invite up to 50 associates to a cohort via magic-link email.
  * - Trainer/admin only (401 for others)
  * - Zod validates body shape (400 on invalid)
- * - Verifies cohort exists (404 if not)
+ * - Verifies cohort exists and is in the caller's cohort scope (404 if not)
  * - Pre-flight daily limit: 20 invites/day per trainer (429 if exceeded)
  * - Sequential processing with partial-failure isolation
  * - Response: { results: [{ email, status, error? }] }
@@ -25,7 +26,7 @@ const BulkInviteSchema = z.object({
 export async function POST(req: NextRequest): Promise<NextResponse> {
   // 1. Auth gate
   const caller = await getCallerIdentity(); // [AUDIT-VERIFIED: P20]
-  if (caller.kind !== 'trainer' && caller.kind !== 'admin') {
+  if (!can(caller, 'associates:write')) {
     return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
   }
 
@@ -44,9 +45,9 @@ export async function POST(req: NextRequest): Promise<NextResponse> {
 
   const { emails, cohortId } = parsed.data;
 
-  // 3. Verify cohort exists
+  // 3. Verify cohort exists (out-of-scope cohorts look the same as missing ones)
   const cohort = await prisma.cohort.findUnique({ where: { id: cohortId } });
-  if (!cohort) {
+  if (!cohort || !canAccessCohort(caller, cohortId)) {
     return NextResponse.json({ error: 'Cohort not found' }, { status: 404 });
   }
 
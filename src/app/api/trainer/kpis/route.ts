@@ -1,6 +1,7 @@
 import { NextResponse } from 'next/server'
 import { Prisma } from '@/generated/prisma'
 import { getCallerIdentity } from '@/lib/identity'
+import { can, canAccessCohort } from '@/lib/authorization'
 import { prisma } from '@/lib/prisma'
 import type { KpiData } from '@/lib/trainer-types'
 
@@ -14,7 +15,7 @@ interface KpiRawRow {
 
 export async function GET(request: Request) {
   const caller = await getCallerIdentity()
-  if (caller.kind !== 'trainer' && caller.kind !== 'admin') {
+  if (!can(caller, 'readiness:read')) {
     return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
   }
 
@@ -28,6 +29,10 @@ export async function GET(request: Request) {
     }
   }
 
+  if (!canAccessCohort(caller, cohortId)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+  }
+
   try {
     let rows: KpiRawRow[]
 
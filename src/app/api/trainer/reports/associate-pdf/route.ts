@@ -2,6 +2,7 @@ import React from 'react'
 import { NextResponse } from 'next/server'
 import { renderToBuffer } from '@react-pdf/renderer'
 import { getCallerIdentity } from '@/lib/identity'
+import { can, canAccessCohort } from '@/lib/authorization'
 import { prisma } from '@/lib/prisma'
 import { AssociateAnalyticsPdf } from '@/lib/pdf/AssociateAnalyticsPdf'
 import type { GapScoreEntry, SessionSummary } from '@/lib/trainer-types'
@@ -15,7 +16,7 @@ function validatedReadinessStatus(raw: unknown): 'ready' | 'improving' | 'not_re
 
 export async function GET(request: Request) {
   const caller = await getCallerIdentity()
-  if (caller.kind !== 'trainer' && caller.kind !== 'admin') {
+  if (!can(caller, 'readiness:read')) {
     return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
   }
 
@@ -31,7 +32,7 @@ export async function GET(request: Request) {
       where: { slug },
       include: { cohort: true },
     })
-    if (!associate) {
+    if (!associate || !canAccessCohort(caller, associate.cohortId)) {
       return NextResponse.json({ error: 'Associate not found' }, { status: 404 })
     }
 
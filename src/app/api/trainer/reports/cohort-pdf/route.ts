@@ -3,6 +3,7 @@ import { NextResponse } from 'next/server'
 import { renderToBuffer } from '@react-pdf/renderer'
 import { Prisma } from '@/generated/prisma'
 import { getCallerIdentity } from '@/lib/identity'
+import { can, canAccessCohort } from '@/lib/authorization'
 import { prisma } from '@/lib/prisma'
 import { CohortAnalyticsPdf } from '@/lib/pdf/CohortAnalyticsPdf'
 import type { KpiData, GapAnalysisRow, RosterAssociate } from '@/lib/trainer-types'
@@ -79,7 +80,7 @@ function validatedReadinessStatus(raw: unknown): 'ready' | 'improving' | 'not_re
 
 export async function GET(request: Request) {
   const caller = await getCallerIdentity()
-  if (caller.kind !== 'trainer' && caller.kind !== 'admin') {
+  if (!can(caller, 'readiness:read')) {
     return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
   }
 
@@ -93,6 +94,10 @@ export async function GET(request: Request) {
     }
   }
 
+  if (!canAccessCohort(caller, cohortId)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+  }
+
   try {
     // ── 1. Cohort name ─────────────────────────────────────────────────────
     let cohortName = 'All Associates'
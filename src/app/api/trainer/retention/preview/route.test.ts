@@ -0,0 +1,58 @@
+/**
+ * Unit tests for POST /api/trainer/retention/preview. The sweep is mocked —
+ * these cover access, body validation and that nothing is saved.
+ */
+
+import { vi, describe, it, expect, beforeEach } from 'vitest'
+
+vi.mock('@/lib/identity', () => ({
+  getCallerIdentity: vi.fn(),
+}))
+
+vi.mock('@/lib/retentionPolicy', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/retentionPolicy')>()),
+  saveRetentionPolicies: vi.fn(),
+  runRetentionSweep: vi.fn(),
+}))
+
+import { getCallerIdentity } from '@/lib/identity'
+import { runRetentionSweep, saveRetentionPolicies } from '@/lib/retentionPolicy'
+import { POST } from '@/app/api/trainer/retention/preview/route'
+
+const mockAuth = getCallerIdentity as ReturnType<typeof vi.fn>
+const mockSave = saveRetentionPolicies as ReturnType<typeof vi.fn>
+const mockSweep = runRetentionSweep as ReturnType<typeof vi.fn>
+
+const PREVIEW = { dryRun: true, generatedAt: '2026-06-15T12:00:00.000Z', classes: [] }
+
+function post(body: unknown) {
+  return POST(new Request('http://localhost/api/trainer/retention/preview', { method: 'POST', body: JSON.stringify(body) }))
+}
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  mockAuth.mockResolvedValue({ kind: 'trainer', userId: 't1', email: 'trainer@test.com' })
+  mockSweep.mockResolvedValue(PREVIEW)
+})
+
+describe('POST /api/trainer/retention/preview', () => {
+  it('dry-runs the proposed periods without saving them', async () => {
+    const res = await post({ auth_events: 6, transcripts: null })
+    expect(res.status).toBe(200)
+    expect(mockSweep).toHaveBeenCalledWith({ dryRun: true, policies: { auth_events: 6, transcripts: null } })
+    expect(mockSave).not.toHaveBeenCalled()
+    expect(await res.json()).toEqual({ preview: PREVIEW })
+  })
+
+  it('is closed to recruiters', async () => {
+    mockAuth.mockResolvedValue({ kind: 'recruiter', userId: 'r1', email: 'r@test.com' })
+    expect((await post({ auth_events: 6 })).status).toBe(401)
+    expect(mockSweep).not.toHaveBeenCalled()
+  })
+
+  it('validates periods and class names', async () => {
+    expect((await post({ auth_events: 0 })).status).toBe(400)
+    expect((await post({ gap_scores: 6 })).status).toBe(400)
+    expect(mockSweep).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server'
+import { getCallerIdentity } from '@/lib/identity'
+import { can } from '@/lib/authorization'
+import { RetentionPolicyChangesSchema, runRetentionSweep } from '@/lib/retentionPolicy'
+
+/**
+ * Dry run of proposed retention periods (same body as PUT /api/trainer/retention)
+ * without saving them, so the settings page can show what a change would purge
+ * before it is applied.
+ */
+export async function POST(request: Request) {
+  const caller = await getCallerIdentity()
+  if (!can(caller, 'cohorts:manage') && !can(caller, 'privacy:manage')) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 })
+  }
+  const parsed = RetentionPolicyChangesSchema.safeParse(body)
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'Validation failed', issues: parsed.error.issues }, { status: 400 })
+  }
+
+  try {
+    const preview = await runRetentionSweep({ dryRun: true, policies: parsed.data })
+    return NextResponse.json({ preview })
+  } catch (err) {
+    console.error('[/api/trainer/retention/preview] POST failed:', err)
+    return NextResponse.json({ error: 'Failed to preview retention policies' }, { status: 500 })
+  }
+}
@@ -0,0 +1,100 @@
+/**
+ * Unit tests for GET/PUT /api/trainer/retention. The retention library is
+ * mocked — these cover who may view vs. edit, body validation and auditing.
+ */
+
+import { vi, describe, it, expect, beforeEach } from 'vitest'
+
+vi.mock('@/lib/identity', () => ({
+  getCallerIdentity: vi.fn(),
+}))
+
+vi.mock('@/lib/auditLog', () => ({
+  recordAuditEvent: vi.fn(),
+}))
+
+vi.mock('@/lib/retentionPolicy', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/retentionPolicy')>()),
+  getRetentionPolicies: vi.fn(),
+  saveRetentionPolicies: vi.fn(),
+  runRetentionSweep: vi.fn(),
+}))
+
+import { getCallerIdentity } from '@/lib/identity'
+import { recordAuditEvent } from '@/lib/auditLog'
+import { getRetentionPolicies, runRetentionSweep, saveRetentionPolicies } from '@/lib/retentionPolicy'
+import { GET, PUT } from '@/app/api/trainer/retention/route'
+
+const mockAuth = getCallerIdentity as ReturnType<typeof vi.fn>
+const mockAudit = recordAuditEvent as ReturnType<typeof vi.fn>
+const mockGet = getRetentionPolicies as ReturnType<typeof vi.fn>
+const mockSave = saveRetentionPolicies as ReturnType<typeof vi.fn>
+const mockSweep = runRetentionSweep as ReturnType<typeof vi.fn>
+
+const ADMIN = { kind: 'admin', userId: 'a1', email: 'admin@test.com' }
+const TRAINER = { kind: 'trainer', userId: 't1', email: 'trainer@test.com' }
+
+const NONE = {
+  completed_sessions: null,
+  interviewer_notes: null,
+  transcripts: null,
+  submitted_code: null,
+  auth_events: null,
+}
+const PREVIEW = { dryRun: true, generatedAt: '2026-06-15T12:00:00.000Z', classes: [] }
+
+function put(body: unknown) {
+  return PUT(new Request('http://localhost/api/trainer/retention', { method: 'PUT', body: JSON.stringify(body) }))
+}
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  mockAuth.mockResolvedValue(ADMIN)
+  mockGet.mockResolvedValue(NONE)
+  mockSave.mockResolvedValue({ ...NONE, auth_events: 6 })
+  mockSweep.mockResolvedValue(PREVIEW)
+})
+
+describe('GET /api/trainer/retention', () => {
+  it('lets trainers review the dry run', async () => {
+    mockAuth.mockResolvedValue(TRAINER)
+    const res = await GET()
+    expect(res.status).toBe(200)
+    expect(mockSweep).toHaveBeenCalledWith({ dryRun: true })
+    expect(await res.json()).toEqual({ policies: NONE, preview: PREVIEW })
+  })
+
+  it('is closed to recruiters', async () => {
+    mockAuth.mockResolvedValue({ kind: 'recruiter', userId: 'r1', email: 'r@test.com' })
+    expect((await GET()).status).toBe(401)
+  })
+})
+
+describe('PUT /api/trainer/retention', () => {
+  it('is limited to admins', async () => {
+    mockAuth.mockResolvedValue(TRAINER)
+    expect((await put({ auth_events: 6 })).status).toBe(401)
+    expect(mockSave).not.toHaveBeenCalled()
+  })
+
+  it('saves, audits each changed class and returns a fresh dry run', async () => {
+    const res = await put({ auth_events: 6, transcripts: null })
+    expect(res.status).toBe(200)
+    expect(mockSave).toHaveBeenCalledWith({ auth_events: 6, transcripts: null }, 'admin@test.com')
+    expect(mockAudit).toHaveBeenCalledTimes(1)
+    expect(mockAudit).toHaveBeenCalledWith(ADMIN, {
+      action: 'retention_policy.update',
+      targetId: 'auth_events',
+      before: { retainMonths: null },
+      after: { retainMonths: 6 },
+    })
+    expect((await res.json()).preview).toEqual(PREVIEW)
+  })
+
+  it('validates periods and class names', async () => {
+    expect((await put({ auth_events: 0 })).status).toBe(400)
+    expect((await put({ auth_events: 1.5 })).status).toBe(400)
+    expect((await put({ auth_events: 121 })).status).toBe(400)
+    expect((await put({ gap_scores: 6 })).status).toBe(400)
+  })
+})
@@ -0,0 +1,69 @@
+import { NextResponse } from 'next/server'
+import { getCallerIdentity } from '@/lib/identity'
+import { can } from '@/lib/authorization'
+import { recordAuditEvent } from '@/lib/auditLog'
+import {
+  DATA_CLASSES,
+  RetentionPolicyChangesSchema,
+  getRetentionPolicies,
+  runRetentionSweep,
+  saveRetentionPolicies,
+} from '@/lib/retentionPolicy'
+
+/** Current retention periods plus a dry run of what the next sweep would purge. */
+export async function GET() {
+  const caller = await getCallerIdentity()
+  if (!can(caller, 'cohorts:manage') && !can(caller, 'privacy:manage')) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const [policies, preview] = await Promise.all([getRetentionPolicies(), runRetentionSweep({ dryRun: true })])
+    return NextResponse.json({ policies, preview })
+  } catch (err) {
+    console.error('[/api/trainer/retention] GET failed:', err)
+    return NextResponse.json({ error: 'Failed to load retention policies' }, { status: 500 })
+  }
+}
+
+/**
+ * Save retention periods. This is the apply step: the settings page previews
+ * the same changes via POST /api/trainer/retention/preview first, and the
+ * scheduled sweep enforces them from the moment they are saved.
+ */
+export async function PUT(request: Request) {
+  const caller = await getCallerIdentity()
+  if (!can(caller, 'privacy:manage')) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 })
+  }
+  const parsed = RetentionPolicyChangesSchema.safeParse(body)
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'Validation failed', issues: parsed.error.issues }, { status: 400 })
+  }
+
+  try {
+    const before = await getRetentionPolicies()
+    const policies = await saveRetentionPolicies(parsed.data, caller.email)
+    for (const dataClass of DATA_CLASSES) {
+      if (before[dataClass] === policies[dataClass]) continue
+      await recordAuditEvent(caller, {
+        action: 'retention_policy.update',
+        targetId: dataClass,
+        before: { retainMonths: before[dataClass] },
+        after: { retainMonths: policies[dataClass] },
+      })
+    }
+    const preview = await runRetentionSweep({ dryRun: true })
+    return NextResponse.json({ policies, preview })
+  } catch (err) {
+    console.error('[/api/trainer/retention] PUT failed:', err)
+    return NextResponse.json({ error: 'Failed to save retention policies' }, { status: 500 })
+  }
+}
@@ -142,6 +142,33 @@ describe('GET /api/trainer — cohortId filter (raw array)', () => {
   });
 });
 
+describe('GET /api/trainer — cohort-scoped staff', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockFindMany.mockResolvedValue([]);
+  });
+
+  it('limits the default roster to the caller cohorts', async () => {
+    mockIsAuthenticated.mockResolvedValue({ kind: 'recruiter', userId: 'r1', email: 'r@test.com', cohortIds: [3, 4] });
+    const res = await GET(makeRequest());
+    expect(res.status).toBe(200);
+    expect(mockFindMany.mock.calls[0][0].where).toEqual({ cohortId: { in: [3, 4] } });
+  });
+
+  it('rejects a cohort outside the caller scope', async () => {
+    mockIsAuthenticated.mockResolvedValue({ kind: 'trainer', userId: 'u1', email: 't@test.com', cohortIds: [3] });
+    const res = await GET(makeRequest('http://localhost/api/trainer?cohortId=42'));
+    expect(res.status).toBe(403);
+    expect(mockFindMany).not.toHaveBeenCalled();
+  });
+
+  it('rejects content authors', async () => {
+    mockIsAuthenticated.mockResolvedValue({ kind: 'author', userId: 'a1', email: 'a@test.com' });
+    const res = await GET(makeRequest());
+    expect(res.status).toBe(401);
+  });
+});
+
 describe('GET /api/trainer — cohortId + includeSummary (wrapped)', () => {
   beforeEach(() => {
     vi.clearAllMocks();
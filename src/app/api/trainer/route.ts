@@ -1,5 +1,6 @@
 import { NextResponse } from 'next/server'
 import { getCallerIdentity } from '@/lib/identity'
+import { can, canAccessCohort, cohortScopeWhere } from '@/lib/authorization'
 import { prisma } from '@/lib/prisma'
 import { CohortSummary, RosterAssociate, RosterResponse } from '@/lib/trainer-types'
 
@@ -13,7 +14,7 @@ function validatedReadinessStatus(raw: unknown): 'ready' | 'improving' | 'not_re
 
 export async function GET(request: Request) {
   const caller = await getCallerIdentity() // [AUDIT-VERIFIED: P20]
-  if (caller.kind !== 'trainer' && caller.kind !== 'admin') {
+  if (!can(caller, 'readiness:read')) {
     return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
   }
 
@@ -35,10 +36,15 @@ export async function GET(request: Request) {
     }
   }
 
+  if (cohortId && !canAccessCohort(caller, cohortId)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+  }
+
   try {
-    // `where: undefined` preserves v1.0 behavior — associates with cohortId = null
-    // continue to appear in the default (unfiltered) roster (D-02).
-    const where = cohortId ? { cohortId } : undefined
+    // An empty scope preserves v1.0 behavior — associates with cohortId = null
+    // continue to appear in the default (unfiltered) roster (D-02). Cohort-scoped
+    // staff see only their own cohorts.
+    const where = cohortId ? { cohortId } : cohortScopeWhere(caller)
 
     const associates = await prisma.associate.findMany({
       where,
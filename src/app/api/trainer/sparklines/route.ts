@@ -1,6 +1,7 @@
 import { NextResponse } from 'next/server'
 import { Prisma } from '@/generated/prisma'
 import { getCallerIdentity } from '@/lib/identity'
+import { can, canAccessCohort } from '@/lib/authorization'
 import { prisma } from '@/lib/prisma'
 import type { RosterSparklineData, SparklinePoint } from '@/lib/trainer-types'
 
@@ -52,7 +53,7 @@ function computeTrendWord(
 
 export async function GET(request: Request) {
   const caller = await getCallerIdentity()
-  if (caller.kind !== 'trainer' && caller.kind !== 'admin') {
+  if (!can(caller, 'readiness:read')) {
     return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
   }
 
@@ -66,6 +67,10 @@ export async function GET(request: Request) {
     }
   }
 
+  if (!canAccessCohort(caller, cohortId)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+  }
+
   try {
     // Windowed query: ROW_NUMBER() OVER PARTITION BY associateId ORDER BY createdAt DESC
     // Returns top 6 sessions per associate in DESC order
@@ -0,0 +1,45 @@
+import { NextResponse } from 'next/server'
+import { getCallerIdentity } from '@/lib/identity'
+import { can } from '@/lib/authorization'
+import { assignStaffRole, getUser } from '@/lib/staffUsers'
+import { AssignmentBody, toAssignment } from '../_schema'
+
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const caller = await getCallerIdentity()
+  if (!can(caller, 'users:manage')) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const { id } = await params
+
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 })
+  }
+  const parsed = AssignmentBody.safeParse(body)
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'Validation failed', issues: parsed.error.issues }, { status: 400 })
+  }
+
+  // Keep at least the caller able to reach this page again.
+  if (id === caller.userId && parsed.data.role !== 'admin') {
+    return NextResponse.json({ error: 'You cannot remove your own admin role' }, { status: 409 })
+  }
+
+  try {
+    const user = await getUser(id)
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 })
+    }
+    const saved = await assignStaffRole(user, toAssignment(parsed.data))
+    return NextResponse.json(saved ?? { id: user.id, email: user.email ?? null, role: null, cohortIds: null })
+  } catch (err) {
+    console.error('[/api/trainer/users/[id]] PATCH failed:', err)
+    return NextResponse.json({ error: 'Failed to update role' }, { status: 500 })
+  }
+}
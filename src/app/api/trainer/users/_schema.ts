@@ -0,0 +1,16 @@
+import { z } from 'zod'
+import { STAFF_ROLES } from '@/lib/authorization'
+import type { StaffAssignment } from '@/lib/staffUsers'
+
+// 'none' removes the staff role; cohortIds null (or omitted) = every cohort.
+export const AssignmentBody = z.object({
+  role: z.enum([...STAFF_ROLES, 'none']),
+  cohortIds: z.array(z.number().int().positive()).nullable().optional(),
+})
+
+export function toAssignment(body: z.infer<typeof AssignmentBody>): StaffAssignment {
+  return {
+    role: body.role === 'none' ? null : body.role,
+    cohortIds: body.cohortIds ?? null,
+  }
+}
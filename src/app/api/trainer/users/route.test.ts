@@ -0,0 +1,116 @@
+/**
+ * Unit tests for /api/trainer/users and /api/trainer/users/[id] — staff
+ * role assignment. Supabase admin is mocked; no auth server required.
+ */
+
+import { vi, describe, it, expect, beforeEach } from 'vitest';
+
+vi.mock('server-only', () => ({}));
+
+const { listUsers, getUserById, updateUserById } = vi.hoisted(() => ({
+  listUsers: vi.fn(),
+  getUserById: vi.fn(),
+  updateUserById: vi.fn(),
+}));
+
+vi.mock('@/lib/supabase/admin', () => ({
+  supabaseAdmin: { auth: { admin: { listUsers, getUserById, updateUserById } } },
+}));
+
+vi.mock('@/lib/identity', () => ({
+  getCallerIdentity: vi.fn(),
+}));
+
+import { getCallerIdentity } from '@/lib/identity';
+import { GET, POST } from '@/app/api/trainer/users/route';
+import { PATCH } from '@/app/api/trainer/users/[id]/route';
+
+const mockCaller = getCallerIdentity as ReturnType<typeof vi.fn>;
+
+const ADMIN = { kind: 'admin', userId: 'admin-1', email: 'boss@test.com' };
+
+const users = [
+  { id: 'u1', email: 'trainer@test.com', app_metadata: { provider: 'email', role: 'trainer', cohortIds: [2] }, user_metadata: { password_set: true } },
+  { id: 'u2', email: 'ada@test.com', app_metadata: { role: 'associate' } },
+  { id: 'u3', email: 'author@test.com', app_metadata: { role: 'author' } },
+];
+
+function jsonRequest(url: string, method: string, body: unknown): Request {
+  return new Request(url, { method, headers: { 'content-type': 'application/json' }, body: JSON.stringify(body) });
+}
+
+function params(id: string) {
+  return { params: Promise.resolve({ id }) };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mockCaller.mockResolvedValue(ADMIN);
+  listUsers.mockResolvedValue({ data: { users }, error: null });
+  updateUserById.mockImplementation(async (id: string, attrs: { app_metadata: unknown }) => ({
+    data: { user: { id, email: users.find((u) => u.id === id)?.email, app_metadata: attrs.app_metadata } },
+    error: null,
+  }));
+});
+
+describe('GET /api/trainer/users', () => {
+  it('lists staff accounts only, sorted by email', async () => {
+    const res = await GET();
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual([
+      { id: 'u3', email: 'author@test.com', role: 'author', cohortIds: null },
+      { id: 'u1', email: 'trainer@test.com', role: 'trainer', cohortIds: [2] },
+    ]);
+  });
+
+  it('is admin-only', async () => {
+    mockCaller.mockResolvedValue({ kind: 'trainer', userId: 'u1', email: 'trainer@test.com' });
+    expect((await GET()).status).toBe(401);
+  });
+});
+
+describe('POST /api/trainer/users', () => {
+  it('grants a role by email in app_metadata', async () => {
+    const res = await POST(
+      jsonRequest('http://localhost/api/trainer/users', 'POST', { email: 'ADA@test.com', role: 'recruiter', cohortIds: [5] }),
+    );
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({ id: 'u2', email: 'ada@test.com', role: 'recruiter', cohortIds: [5] });
+    expect(updateUserById).toHaveBeenCalledWith('u2', { app_metadata: { role: 'recruiter', cohortIds: [5] } });
+  });
+
+  it('404s for an email with no account', async () => {
+    const res = await POST(jsonRequest('http://localhost/api/trainer/users', 'POST', { email: 'nobody@test.com', role: 'author' }));
+    expect(res.status).toBe(404);
+    expect(updateUserById).not.toHaveBeenCalled();
+  });
+
+  it('rejects unknown roles', async () => {
+    const res = await POST(jsonRequest('http://localhost/api/trainer/users', 'POST', { email: 'ada@test.com', role: 'owner' }));
+    expect(res.status).toBe(400);
+  });
+});
+
+describe('PATCH /api/trainer/users/[id]', () => {
+  beforeEach(() => {
+    getUserById.mockImplementation(async (id: string) => ({ data: { user: users.find((u) => u.id === id) ?? null }, error: null }));
+  });
+
+  it('drops the cohort scope for roles that do not use one', async () => {
+    const res = await PATCH(jsonRequest('http://localhost/api/trainer/users/u1', 'PATCH', { role: 'author', cohortIds: [2] }), params('u1'));
+    expect(res.status).toBe(200);
+    expect(updateUserById).toHaveBeenCalledWith('u1', { app_metadata: { role: 'author', cohortIds: null } });
+  });
+
+  it('demotes with role none', async () => {
+    const res = await PATCH(jsonRequest('http://localhost/api/trainer/users/u3', 'PATCH', { role: 'none' }), params('u3'));
+    expect(await res.json()).toMatchObject({ id: 'u3', role: null });
+    expect(updateUserById).toHaveBeenCalledWith('u3', { app_metadata: { role: 'associate', cohortIds: null } });
+  });
+
+  it('refuses to remove the caller own admin role', async () => {
+    const res = await PATCH(jsonRequest('http://localhost/api/trainer/users/admin-1', 'PATCH', { role: 'trainer' }), params('admin-1'));
+    expect(res.status).toBe(409);
+    expect(updateUserById).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,59 @@
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { getCallerIdentity } from '@/lib/identity'
+import { can } from '@/lib/authorization'
+import { assignStaffRole, findUserByEmail, listStaffUsers } from '@/lib/staffUsers'
+import { AssignmentBody, toAssignment } from './_schema'
+
+const PostBody = AssignmentBody.extend({ email: z.string().trim().email() })
+
+export async function GET() {
+  const caller = await getCallerIdentity()
+  if (!can(caller, 'users:manage')) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    return NextResponse.json(await listStaffUsers())
+  } catch (err) {
+    console.error('[/api/trainer/users] GET failed:', err)
+    return NextResponse.json({ error: 'Failed to list users' }, { status: 500 })
+  }
+}
+
+/**
+ * Grant a staff role by email. The person must already have an account
+ * (signed in once, or been invited) — roles are not a way to create users.
+ */
+export async function POST(request: Request) {
+  const caller = await getCallerIdentity()
+  if (!can(caller, 'users:manage')) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 })
+  }
+  const parsed = PostBody.safeParse(body)
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'Validation failed', issues: parsed.error.issues }, { status: 400 })
+  }
+
+  try {
+    const user = await findUserByEmail(parsed.data.email)
+    if (!user) {
+      return NextResponse.json({ error: 'No account with that email — ask them to sign in once first' }, { status: 404 })
+    }
+    if (user.id === caller.userId && parsed.data.role !== 'admin') {
+      return NextResponse.json({ error: 'You cannot remove your own admin role' }, { status: 409 })
+    }
+    const saved = await assignStaffRole(user, toAssignment(parsed.data))
+    return NextResponse.json(saved ?? { id: user.id, email: user.email ?? null, role: null, cohortIds: null })
+  } catch (err) {
+    console.error('[/api/trainer/users] POST failed:', err)
+    return NextResponse.json({ error: 'Failed to assign role' }, { status: 500 })
+  }
+}
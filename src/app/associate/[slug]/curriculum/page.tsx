@@ -1,5 +1,6 @@
 import { prisma } from '@/lib/prisma';
 import { getCallerIdentity } from '@/lib/identity';
+import { can } from '@/lib/authorization';
 import { validateSlug } from '@/lib/slug-validation';
 import { listWeeks } from '@/lib/curriculumService';
 import { redirect, notFound } from 'next/navigation';
@@ -92,7 +93,7 @@ export default async function CurriculumPage({ params }: PageProps) {
   }
 
   // Auth guard: wrong associate → 403
-  const isTrainerOrAdmin = caller.kind === 'trainer' || caller.kind === 'admin';
+  const isTrainerOrAdmin = can(caller, 'associates:read');
   if (!isTrainerOrAdmin && caller.kind === 'associate' && caller.associateId !== associate.id) {
     return renderForbidden();
   }
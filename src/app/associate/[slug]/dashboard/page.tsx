@@ -1,5 +1,6 @@
 import { prisma } from '@/lib/prisma';
 import { getCallerIdentity } from '@/lib/identity';
+import { can } from '@/lib/authorization';
 import { getAssociateIdBySlug } from '@/lib/associateService';
 import { validateSlug } from '@/lib/slug-validation';
 import { getSettings } from '@/lib/settingsService';
@@ -75,7 +76,7 @@ export default async function AssociateDashboardPage({ params }: PageProps) {
     notFound();
   }
 
-  const isTrainerOrAdmin = caller.kind === 'trainer' || caller.kind === 'admin';
+  const isTrainerOrAdmin = can(caller, 'associates:read');
   if (!isTrainerOrAdmin && caller.kind === 'associate' && caller.associateId !== targetId) {
     return renderForbidden();
   }
@@ -1,5 +1,6 @@
 import { prisma } from '@/lib/prisma';
 import { getCallerIdentity } from '@/lib/identity';
+import { can } from '@/lib/authorization';
 import { getAssociateIdBySlug } from '@/lib/associateService';
 import { validateSlug } from '@/lib/slug-validation';
 import { redirect, notFound } from 'next/navigation';
@@ -194,7 +195,7 @@ export default async function AssociateProfilePage({ params }: PageProps) {
   }
 
   // Associates can only view their own profile; trainers/admins can view any
-  const isTrainerOrAdmin = caller.kind === 'trainer' || caller.kind === 'admin';
+  const isTrainerOrAdmin = can(caller, 'associates:read');
   if (!isTrainerOrAdmin && caller.kind === 'associate' && caller.associateId !== targetId) {
     return renderForbidden();
   }
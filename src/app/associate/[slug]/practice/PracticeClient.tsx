@@ -0,0 +1,214 @@
+'use client';
+
+import { useState } from 'react';
+import type { PracticeCardView, PracticeQueue } from '@/lib/practiceService';
+
+/**
+ * PracticeClient — steps through the due practice cards one at a time.
+ *
+ * Associate answers out loud (or on paper), reveals the model answer, then
+ * grades their own recall 1–5; POST /api/associate/practice/[id]/review
+ * reschedules the card. Trainers viewing the page see the queue read-only.
+ */
+
+interface PracticeClientProps {
+  queue: PracticeQueue;
+  canReview: boolean;
+}
+
+const GRADES: { grade: 1 | 2 | 3 | 4 | 5; label: string }[] = [
+  { grade: 1, label: 'Forgot' },
+  { grade: 2, label: 'Hard' },
+  { grade: 3, label: 'Okay' },
+  { grade: 4, label: 'Good' },
+  { grade: 5, label: 'Easy' },
+];
+
+const monoLabel: React.CSSProperties = {
+  fontFamily: 'var(--font-jetbrains-mono), JetBrains Mono, monospace',
+  fontSize: '11px',
+  fontWeight: 500,
+  textTransform: 'uppercase',
+  letterSpacing: '0.06em',
+  color: 'var(--muted)',
+};
+
+const cardStyle: React.CSSProperties = {
+  background: 'var(--surface)',
+  border: '1px solid var(--border-subtle)',
+  borderRadius: '12px',
+  padding: '20px 24px',
+};
+
+function formatDue(iso: string): string {
+  return new Date(iso).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+}
+
+export function PracticeClient({ queue, canReview }: PracticeClientProps) {
+  const [index, setIndex] = useState(0);
+  const [revealed, setRevealed] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [reviewed, setReviewed] = useState<PracticeCardView[]>([]);
+
+  if (queue.totalCards === 0) {
+    return (
+      <div style={cardStyle}>
+        <p style={{ fontSize: '14px', color: 'var(--muted)', margin: 0 }}>
+          No practice cards yet. Questions scored 3 or below in a completed mock
+          interview will show up here.
+        </p>
+      </div>
+    );
+  }
+
+  const card = queue.due[index];
+
+  const grade = async (value: 1 | 2 | 3 | 4 | 5) => {
+    if (!card) return;
+    setSubmitting(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/associate/practice/${card.id}/review`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ grade: value }),
+      });
+      if (!res.ok) throw new Error(`Review failed: ${res.status}`);
+      const { card: updated } = await res.json();
+      setReviewed((prev) => [...prev, updated]);
+      setIndex((i) => i + 1);
+      setRevealed(false);
+    } catch (err) {
+      console.warn('[practice] Review failed:', err);
+      setError('Could not save your answer — try again.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '16px' }}>
+      <div style={{ display: 'flex', gap: '24px', flexWrap: 'wrap' }}>
+        <span style={monoLabel}>{Math.max(queue.due.length - index, 0)} due</span>
+        <span style={monoLabel}>{reviewed.length} reviewed today</span>
+        <span style={monoLabel}>
+          {queue.upcomingCount} upcoming
+          {queue.nextDueAt ? ` · next ${formatDue(queue.nextDueAt)}` : ''}
+        </span>
+      </div>
+
+      {!card ? (
+        <div style={cardStyle}>
+          <p style={{ fontSize: '14px', color: 'var(--ink)', margin: 0 }}>
+            {queue.due.length === 0 ? 'Nothing due today.' : 'All caught up for today.'}
+          </p>
+          {reviewed.length > 0 && (
+            <ul style={{ margin: '12px 0 0', padding: 0, listStyle: 'none', fontSize: '13px', color: 'var(--muted)' }}>
+              {reviewed.map((r) => (
+                <li key={r.id}>
+                  {r.topic || r.skill} — back {formatDue(r.dueAt)}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      ) : (
+        <div style={cardStyle}>
+          <p style={{ ...monoLabel, margin: '0 0 8px 0' }}>
+            {card.skill}{card.topic ? ` · ${card.topic}` : ''} · scored {card.sourceScore}
+          </p>
+          <h2
+            style={{
+              fontFamily: 'var(--font-clash-display), Clash Display, DM Sans, system-ui, sans-serif',
+              fontSize: '20px',
+              fontWeight: 600,
+              color: 'var(--ink)',
+              margin: '0 0 16px 0',
+              lineHeight: 1.3,
+            }}
+          >
+            {card.question}
+          </h2>
+
+          {!revealed ? (
+            <button
+              onClick={() => setRevealed(true)}
+              className="btn-secondary-flat"
+              style={{ padding: '8px 16px', fontSize: '14px' }}
+            >
+              Show model answer
+            </button>
+          ) : (
+            <>
+              <div
+                style={{
+                  whiteSpace: 'pre-wrap',
+                  fontSize: '14px',
+                  color: 'var(--ink)',
+                  background: 'var(--surface-muted)',
+                  borderRadius: '8px',
+                  padding: '12px 16px',
+                  margin: '0 0 12px 0',
+                }}
+              >
+                {card.modelAnswer || 'No model answer recorded for this question.'}
+              </div>
+              {card.keywords.length > 0 && (
+                <div style={{ display: 'flex', flexWrap: 'wrap', gap: '6px', margin: '0 0 16px 0' }}>
+                  {card.keywords.map((k) => (
+                    <span
+                      key={k}
+                      style={{
+                        fontSize: '12px',
+                        padding: '2px 8px',
+                        borderRadius: '6px',
+                        background: 'var(--highlight)',
+                        color: 'var(--ink)',
+                      }}
+                    >
+                      {k}
+                    </span>
+                  ))}
+                </div>
+              )}
+
+              {canReview ? (
+                <div>
+                  <p style={{ ...monoLabel, margin: '0 0 8px 0' }}>How well did you recall it?</p>
+                  <div style={{ display: 'flex', gap: '8px', flexWrap: 'wrap' }}>
+                    {GRADES.map(({ grade: value, label }) => (
+                      <button
+                        key={value}
+                        onClick={() => grade(value)}
+                        disabled={submitting}
+                        className={value >= 4 ? 'btn-accent-flat' : 'btn-secondary-flat'}
+                        style={{ padding: '8px 14px', fontSize: '14px', opacity: submitting ? 0.6 : 1 }}
+                      >
+                        {value} · {label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              ) : (
+                <button
+                  onClick={() => {
+                    setIndex((i) => i + 1);
+                    setRevealed(false);
+                  }}
+                  className="btn-secondary-flat"
+                  style={{ padding: '8px 16px', fontSize: '14px' }}
+                >
+                  Next card
+                </button>
+              )}
+              {error && (
+                <p style={{ fontSize: '13px', color: 'var(--danger)', margin: '12px 0 0 0' }}>{error}</p>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
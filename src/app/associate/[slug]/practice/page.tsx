@@ -0,0 +1,114 @@
+import { getCallerIdentity } from '@/lib/identity';
+import { can } from '@/lib/authorization';
+import { getAssociateIdBySlug } from '@/lib/associateService';
+import { validateSlug } from '@/lib/slug-validation';
+import { syncPracticeCards, getPracticeQueue } from '@/lib/practiceService';
+import { redirect, notFound } from 'next/navigation';
+import { PracticeClient } from './PracticeClient';
+
+/**
+ * Associate "Today's practice" page.
+ *
+ * Server-rendered. Syncs review cards from low-scoring questions in completed
+ * sessions, then hands the due queue to PracticeClient. Identity guard matches
+ * the dashboard:
+ *   anonymous → /signin
+ *   wrong-slug associate → 403
+ *   trainer/admin → allowed for any slug (read-only: grading needs the associate)
+ */
+
+interface PageProps {
+  params: Promise<{ slug: string }>;
+}
+
+function renderForbidden() {
+  return (
+    <div
+      data-testid="practice-forbidden"
+      data-http-status="403"
+      style={{
+        maxWidth: '480px',
+        margin: '0 auto',
+        textAlign: 'center',
+        padding: '48px 0',
+      }}
+    >
+      <h1
+        style={{
+          fontFamily:
+            "var(--font-clash-display), 'Clash Display', system-ui, sans-serif",
+          fontSize: '28px',
+          fontWeight: 600,
+          margin: '0 0 8px 0',
+          color: 'var(--ink)',
+        }}
+      >
+        Access denied
+      </h1>
+      <p style={{ fontSize: '14px', color: 'var(--muted)', margin: 0 }}>
+        You are signed in as a different associate. Contact your trainer if
+        you believe this is an error.
+      </p>
+    </div>
+  );
+}
+
+export default async function AssociatePracticePage({ params }: PageProps) {
+  const { slug } = await params;
+  const slugValidation = validateSlug(slug);
+  if (!slugValidation.success) {
+    notFound();
+  }
+
+  const caller = await getCallerIdentity();
+
+  if (caller.kind === 'anonymous') {
+    redirect(
+      '/signin?as=associate&next=' +
+        encodeURIComponent('/associate/' + slugValidation.slug + '/practice'),
+    );
+  }
+
+  const targetId = await getAssociateIdBySlug(slugValidation.slug);
+  if (targetId === null) {
+    notFound();
+  }
+
+  const isTrainerOrAdmin = can(caller, 'associates:read');
+  if (!isTrainerOrAdmin && caller.kind === 'associate' && caller.associateId !== targetId) {
+    return renderForbidden();
+  }
+
+  await syncPracticeCards(targetId);
+  const queue = await getPracticeQueue(targetId);
+
+  return (
+    <div
+      style={{
+        maxWidth: '760px',
+        margin: '0 auto',
+        padding: '32px 24px',
+      }}
+    >
+      <h1
+        style={{
+          fontFamily:
+            "var(--font-clash-display), 'Clash Display', system-ui, sans-serif",
+          fontSize: '24px',
+          fontWeight: 600,
+          color: 'var(--ink)',
+          margin: '0 0 8px 0',
+        }}
+      >
+        Today&rsquo;s Practice
+      </h1>
+      <p style={{ fontSize: '14px', color: 'var(--muted)', margin: '0 0 32px 0' }}>
+        Questions you scored 3 or below in mock interviews come back on a
+        spaced schedule — the better you recall them, the longer until you see
+        them again.
+      </p>
+
+      <PracticeClient queue={queue} canReview={caller.kind === 'associate'} />
+    </div>
+  );
+}
@@ -3,6 +3,7 @@
 import { useState, FormEvent, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import { createSupabaseBrowserClient } from '@/lib/supabase/browser';
+import { isStaffRole, staffHomePath } from '@/lib/authorization';
 
 const inputBase: React.CSSProperties = {
   width: '100%',
@@ -80,11 +81,11 @@ export default function SetPasswordPage() {
 
     // Determine role-appropriate dashboard and redirect after brief delay
     const { data: { user } } = await supabase.auth.getUser();
-    const role = user?.user_metadata?.role as string | undefined;
+    const role = user?.app_metadata?.role as string | undefined;
 
     setTimeout(async () => {
-      if (role === 'trainer' || role === 'admin') {
-        router.replace('/trainer');
+      if (isStaffRole(role)) {
+        router.replace(staffHomePath(role));
         return;
       }
 
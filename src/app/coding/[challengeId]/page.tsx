@@ -3,6 +3,11 @@
  *
  * Server component: fetches challenge detail from /api/coding/challenges/[id],
  * renders SolveWorkspace (prompt + editor + submit) inside role-aware shell.
+ *
+ * `?assessment=<id>` solves the challenge inside a timed assessment: the
+ * associate's sitting is loaded from /api/coding/assessments/[id] and passed
+ * to the workspace (countdown, language lock, attempt cap). Without a started
+ * sitting the associate is sent to the assessment lobby first.
  */
 
 import { redirect } from 'next/navigation';
@@ -13,21 +18,26 @@ import { AppShell } from '@/components/shell/AppShell';
 import { AssociateShell } from '@/components/shell/AssociateShell';
 import {
   SolveWorkspace,
+  type AssessmentContext,
   type ChallengeDetail,
 } from '@/components/coding/SolveWorkspace';
+import type { AssociateAssessmentView } from '@/lib/codingAssessmentService';
 import { CodingComingSoon } from '@/components/coding/CodingComingSoon';
-import { isCodingEnabled } from '@/lib/codingFeatureFlag';
-// Phase 42 §D-07/D-08: the SQL dialect label (`SQL_DIALECT_LABEL`) is rendered
+import { isCodingEnabled, isEditTimelineEnabled } from '@/lib/codingFeatureFlag';
+// Phase 42 §D-07/D-08: the SQL dialect label (`getSqlDialectLabel`) is rendered
 // inside SolveWorkspace via `isSqlDialectChallenge`. The header markup lives
 // in the client component so the label sits adjacent to the title without
 // duplicating the page-level layout.
 
 interface CodingSolvePageProps {
   params: Promise<{ challengeId: string }>;
+  searchParams?: Promise<Record<string, string | string[] | undefined>>;
 }
 
-export default async function CodingSolvePage({ params }: CodingSolvePageProps) {
+export default async function CodingSolvePage({ params, searchParams }: CodingSolvePageProps) {
   const { challengeId } = await params;
+  const rawAssessment = ((await searchParams) ?? {}).assessment;
+  const assessmentId = Array.isArray(rawAssessment) ? rawAssessment[0] : rawAssessment;
 
   const caller = await getCallerIdentity();
   if (caller.kind === 'anonymous') {
@@ -85,6 +95,27 @@ export default async function CodingSolvePage({ params }: CodingSolvePageProps)
     errorMessage = err instanceof Error ? err.message : 'Fetch failed';
   }
 
+  let assessment: AssessmentContext | undefined;
+  if (challenge && assessmentId && caller.kind === 'associate') {
+    const res = await fetch(
+      `${proto}://${host}/api/coding/assessments/${encodeURIComponent(assessmentId)}`,
+      { headers: { cookie }, cache: 'no-store' },
+    );
+    const view = res.ok ? ((await res.json()) as AssociateAssessmentView) : null;
+    const entry = view?.challenges.find((c) => c.id === challenge?.id);
+    if (!view?.session || !entry) {
+      redirect(`/coding/assessments/${encodeURIComponent(assessmentId)}`);
+    }
+    assessment = {
+      id: view.id,
+      title: view.title,
+      expiresAt: view.session.expiresAt,
+      language: view.language,
+      attemptCap: view.attemptCap,
+      attemptsUsed: entry.attemptsUsed,
+    };
+  }
+
   const content = challenge ? (
     <main
       style={{
@@ -93,7 +124,11 @@ export default async function CodingSolvePage({ params }: CodingSolvePageProps)
         padding: '32px 24px 64px',
       }}
     >
-      <SolveWorkspace challenge={challenge} />
+      <SolveWorkspace
+        challenge={challenge}
+        assessment={assessment}
+        recordEdits={isEditTimelineEnabled()}
+      />
     </main>
   ) : (
     <main
@@ -0,0 +1,97 @@
+/**
+ * /coding/assessments/[id] — timed assessment lobby
+ *
+ * Server component: fetches the associate's view of the assessment from
+ * /api/coding/assessments/[id] and renders AssessmentLobby (rules + Start,
+ * then the challenge list). Trainers manage assessments from
+ * /trainer/assessments instead.
+ */
+
+import { redirect } from 'next/navigation';
+import { headers } from 'next/headers';
+import { getCallerIdentity } from '@/lib/identity';
+import { AssociateShell } from '@/components/shell/AssociateShell';
+import { AssessmentLobby } from '@/components/coding/AssessmentLobby';
+import { CodingComingSoon } from '@/components/coding/CodingComingSoon';
+import { isCodingEnabled } from '@/lib/codingFeatureFlag';
+import type { AssociateAssessmentView } from '@/lib/codingAssessmentService';
+
+interface AssessmentLobbyPageProps {
+  params: Promise<{ id: string }>;
+}
+
+export default async function AssessmentLobbyPage({ params }: AssessmentLobbyPageProps) {
+  const { id } = await params;
+
+  const caller = await getCallerIdentity();
+  if (caller.kind === 'anonymous') {
+    redirect('/signin');
+  }
+  if (caller.kind !== 'associate') {
+    redirect(`/trainer/assessments/${encodeURIComponent(id)}`);
+  }
+
+  if (!isCodingEnabled()) {
+    return (
+      <AssociateShell slug={caller.associateSlug} cohortName={null}>
+        <CodingComingSoon backHref={`/associate/${caller.associateSlug}`} />
+      </AssociateShell>
+    );
+  }
+
+  const hdrs = await headers();
+  const host = hdrs.get('host') ?? 'localhost:3000';
+  const proto = hdrs.get('x-forwarded-proto') ?? (host.startsWith('localhost') ? 'http' : 'https');
+  const cookie = hdrs.get('cookie') ?? '';
+
+  let assessment: AssociateAssessmentView | null = null;
+  let errorMessage = '';
+  try {
+    const res = await fetch(
+      `${proto}://${host}/api/coding/assessments/${encodeURIComponent(id)}`,
+      { headers: { cookie }, cache: 'no-store' },
+    );
+    if (res.ok) {
+      assessment = (await res.json()) as AssociateAssessmentView;
+    } else {
+      const body = await res.json().catch(() => null);
+      errorMessage = body?.error?.message ?? `HTTP ${res.status}`;
+    }
+  } catch (err) {
+    errorMessage = err instanceof Error ? err.message : 'Fetch failed';
+  }
+
+  return (
+    <AssociateShell slug={caller.associateSlug} cohortName={null}>
+      <main style={{ maxWidth: '720px', margin: '0 auto', padding: '48px 24px 64px' }}>
+        {assessment ? (
+          <AssessmentLobby assessment={assessment} />
+        ) : (
+          <>
+            <h1
+              style={{
+                fontFamily: "var(--font-display), 'Clash Display', sans-serif",
+                fontWeight: 600,
+                fontSize: '32px',
+                color: 'var(--ink)',
+                margin: 0,
+              }}
+            >
+              Unable to load assessment
+            </h1>
+            <p
+              style={{
+                fontFamily: "var(--font-dm-sans), 'DM Sans', sans-serif",
+                fontSize: '16px',
+                color: 'var(--muted)',
+                marginTop: '12px',
+              }}
+            >
+              {errorMessage}
+            </p>
+          </>
+        )}
+      </main>
+    </AssociateShell>
+  );
+}
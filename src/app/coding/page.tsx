@@ -3,7 +3,8 @@
  *
  * Server component: identity gate, server-fetches the first page of
  * /api/coding/challenges with filters from searchParams, hydrates the
- * <ChallengeList> client component with initial data.
+ * <ChallengeList> client component with initial data. Associates also see
+ * their cohort's open timed assessments (/api/coding/assessments) above it.
  *
  * Role-aware shell: trainer/admin → AppShell, associate → AssociateShell.
  */
@@ -16,9 +17,13 @@ import { AppShell } from '@/components/shell/AppShell';
 import { AssociateShell } from '@/components/shell/AssociateShell';
 import { ChallengeList } from '@/components/coding/ChallengeList';
 import { CodingComingSoon } from '@/components/coding/CodingComingSoon';
+import {
+  AssignedAssessments,
+  type AssignedAssessment,
+} from '@/components/coding/AssignedAssessments';
 import { isCodingEnabled } from '@/lib/codingFeatureFlag';
 import type { ChallengeListItem } from '@/hooks/useChallengeList';
-// Phase 42 §D-07/D-08: the SQL dialect label (`SQL_DIALECT_LABEL`) is rendered
+// Phase 42 §D-07/D-08: the SQL dialect label (`getSqlDialectLabel`) is rendered
 // on challenge cards via `isSqlDialectChallenge` inside
 // src/components/coding/ChallengeCard.tsx. Import lives there (server
 // component cannot directly render per-item conditional markup — the client
@@ -102,6 +107,22 @@ export default async function CodingListPage({ searchParams }: CodingListPagePro
     };
   }
 
+  // Assigned assessments are an extra; a failed fetch just hides the section.
+  let assessments: AssignedAssessment[] = [];
+  if (caller.kind === 'associate') {
+    try {
+      const res = await fetch(`${proto}://${host}/api/coding/assessments`, {
+        headers: { cookie },
+        cache: 'no-store',
+      });
+      if (res.ok) {
+        assessments = ((await res.json()) as { assessments: AssignedAssessment[] }).assessments;
+      }
+    } catch {
+      /* ignore */
+    }
+  }
+
   // Determine caller-has-cohort up-front for the empty-state branch.
   let callerHasCohort = caller.kind !== 'associate';
   if (caller.kind === 'associate') {
@@ -165,6 +186,8 @@ export default async function CodingListPage({ searchParams }: CodingListPagePro
         </p>
       </header>
 
+      <AssignedAssessments assessments={assessments} />
+
       {listFetchError ? (
         <div
           role="alert"
@@ -0,0 +1,202 @@
+'use client';
+
+// Co-interviewer view - follows the lead's current question (polling the
+// server draft) and autosaves this trainer's own observations.
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Loader2, Radio, Users } from 'lucide-react';
+import QuestionCard from '@/components/QuestionCard';
+import {
+    CoQuestionAssessment,
+    DEFAULT_SOFT_SKILLS,
+    InterviewSession,
+    ParsedQuestion,
+    QuestionAssessment,
+    SoftSkillsAssessment,
+} from '@/lib/types';
+
+const POLL_INTERVAL_MS = 3000;
+const SAVE_DELAY_MS = 1000;
+
+const monoLabel = {
+    fontFamily: 'var(--font-jetbrains-mono), ui-monospace, monospace',
+    fontSize: 11,
+    fontWeight: 500,
+    textTransform: 'uppercase' as const,
+    letterSpacing: '0.08em',
+};
+
+function blankAssessment(keywords: string[]): CoQuestionAssessment {
+    return {
+        keywordsHit: [],
+        keywordsMissed: [...keywords],
+        softSkills: { ...DEFAULT_SOFT_SKILLS },
+        interviewerNotes: '',
+        didNotGetTo: false,
+    };
+}
+
+export default function CoInterviewerClient({ sessionId }: { sessionId: string }) {
+    const [session, setSession] = useState<InterviewSession | null>(null);
+    const [ended, setEnded] = useState(false);
+    const [mine, setMine] = useState<Record<string, CoQuestionAssessment>>({});
+    const [saveState, setSaveState] = useState<'idle' | 'saving' | 'saved' | 'error'>('idle');
+    const loadedMine = useRef(false);
+    const dirty = useRef(false);
+
+    const draftUrl = `/api/sessions/drafts/${encodeURIComponent(sessionId)}`;
+
+    // Follow the lead: poll their autosaved draft for the current question.
+    const poll = useCallback(async () => {
+        try {
+            const res = await fetch(draftUrl);
+            if (res.status === 404) {
+                setEnded(true);
+                return;
+            }
+            if (!res.ok) return;
+            const data = await res.json();
+            setSession(data.session);
+        } catch (err) {
+            console.warn('Co-interviewer poll failed:', err);
+        }
+    }, [draftUrl]);
+
+    useEffect(() => {
+        const first = setTimeout(() => { void poll(); }, 0);
+        const timer = setInterval(() => { void poll(); }, POLL_INTERVAL_MS);
+        return () => {
+            clearTimeout(first);
+            clearInterval(timer);
+        };
+    }, [poll]);
+
+    // Pick up our own earlier observations (rejoin after refresh / device switch).
+    useEffect(() => {
+        fetch(`${draftUrl}/co-assessments`)
+            .then(res => (res.ok ? res.json() : null))
+            .then(data => {
+                const own = data?.coAssessments?.find((c: { interviewerEmail: string }) => c.interviewerEmail === data.me);
+                if (own) setMine(prev => ({ ...own.assessments, ...prev }));
+            })
+            .catch(err => console.warn('Failed to load co-interviewer assessments:', err))
+            .finally(() => { loadedMine.current = true; });
+    }, [draftUrl]);
+
+    useEffect(() => {
+        if (!loadedMine.current || !dirty.current || ended) return;
+        const timer = setTimeout(async () => {
+            dirty.current = false;
+            setSaveState('saving');
+            try {
+                const res = await fetch(`${draftUrl}/co-assessments`, {
+                    method: 'PUT',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify({ assessments: mine }),
+                });
+                if (res.status === 404) setEnded(true);
+                setSaveState(res.ok ? 'saved' : 'error');
+            } catch {
+                setSaveState('error');
+            }
+        }, SAVE_DELAY_MS);
+        return () => clearTimeout(timer);
+    }, [mine, draftUrl, ended]);
+
+    if (ended) {
+        return (
+            <div className="container mx-auto px-4 py-16 max-w-xl text-center">
+                <h1 className="text-2xl mb-2" style={{ fontFamily: 'var(--font-display)', fontWeight: 600, color: 'var(--ink)' }}>
+                    Session ended
+                </h1>
+                <p style={{ color: 'var(--muted)' }}>
+                    The lead interviewer has finalized this session. Your observations were shared with them.
+                </p>
+            </div>
+        );
+    }
+
+    if (!session) {
+        return (
+            <div className="flex items-center justify-center p-16">
+                <Loader2 className="w-7 h-7 animate-spin" style={{ color: 'var(--accent)' }} />
+            </div>
+        );
+    }
+
+    const allQuestions = [...session.starterQuestions, ...session.questions];
+    const current = allQuestions[Math.min(session.currentQuestionIndex, allQuestions.length - 1)];
+    const keywords = current && 'keywords' in current ? (current as ParsedQuestion).keywords : [];
+    const own = current ? (mine[current.id] ?? blankAssessment(keywords)) : null;
+
+    const update = (changes: Partial<CoQuestionAssessment>) => {
+        if (!current || !own) return;
+        dirty.current = true;
+        setMine(prev => ({ ...prev, [current.id]: { ...own, ...changes } }));
+    };
+
+    const toggleKeyword = (keyword: string) => {
+        if (!own) return;
+        const hit = own.keywordsHit.includes(keyword);
+        update({
+            keywordsHit: hit ? own.keywordsHit.filter(k => k !== keyword) : [...own.keywordsHit, keyword],
+            keywordsMissed: hit ? [...own.keywordsMissed, keyword] : own.keywordsMissed.filter(k => k !== keyword),
+        });
+    };
+
+    const toggleSoftSkill = (skill: keyof SoftSkillsAssessment) => {
+        if (!own) return;
+        update({ softSkills: { ...own.softSkills, [skill]: !own.softSkills[skill] } });
+    };
+
+    return (
+        <div className="min-h-full" style={{ background: 'var(--bg)' }}>
+            <div className="container mx-auto px-4 py-8 max-w-4xl flex flex-col">
+                <header
+                    className="flex items-center justify-between mb-6 pb-4"
+                    style={{ borderBottom: '1px solid var(--border-subtle)' }}
+                >
+                    <div className="flex items-center gap-2" style={{ color: 'var(--accent)' }}>
+                        <Users className="w-4 h-4" />
+                        <span style={monoLabel}>Co-interviewer</span>
+                    </div>
+                    <div className="flex flex-col items-end gap-1">
+                        <span className="flex items-center gap-1.5" style={{ ...monoLabel, color: 'var(--muted)' }}>
+                            <Radio className="w-3 h-3" style={{ color: 'var(--success)' }} />
+                            Following {session.interviewerName || 'lead'} · Q{session.currentQuestionIndex + 1}/{allQuestions.length}
+                        </span>
+                        <span className="text-sm font-medium" style={{ color: 'var(--ink)' }}>
+                            {session.candidateName || 'Unnamed'}
+                        </span>
+                    </div>
+                </header>
+
+                {session.status === 'review' && (
+                    <p className="mb-4 text-sm" style={{ color: 'var(--muted)' }}>
+                        The lead is reviewing scores. You can still adjust your observations until they finalize.
+                    </p>
+                )}
+
+                <div className="mb-3 text-right" style={{ ...monoLabel, color: 'var(--muted)' }} aria-live="polite">
+                    {saveState === 'saving' && 'Saving'}
+                    {saveState === 'saved' && 'Shared with lead'}
+                    {saveState === 'error' && <span style={{ color: 'var(--warning)' }}>Not saved — retrying on next change</span>}
+                </div>
+
+                {current && own && (
+                    <QuestionCard
+                        key={current.id}
+                        question={current}
+                        assessment={{ questionId: current.id, status: 'in-progress', ...own } as QuestionAssessment}
+                        questionNumber={session.currentQuestionIndex + 1}
+                        totalQuestions={allQuestions.length}
+                        onToggleKeyword={toggleKeyword}
+                        onToggleSoftSkill={toggleSoftSkill}
+                        onNotesChange={(notes) => update({ interviewerNotes: notes })}
+                        onDidNotGetTo={(value) => update({ didNotGetTo: value })}
+                    />
+                )}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,25 @@
+import { redirect } from 'next/navigation';
+import { getCallerIdentity } from '@/lib/identity';
+import { can } from '@/lib/authorization';
+import CoInterviewerClient from './CoInterviewerClient';
+
+/**
+ * Co-interviewer join page. The lead shares this link from /interview; the
+ * second trainer follows the lead's current question and records their own
+ * observations, which the lead reconciles on /review.
+ */
+
+export const dynamic = 'force-dynamic';
+
+interface PageProps {
+    params: Promise<{ sessionId: string }>;
+}
+
+export default async function CoInterviewerPage({ params }: PageProps) {
+    const caller = await getCallerIdentity();
+    if (!can(caller, 'associates:write')) {
+        redirect('/signin');
+    }
+    const { sessionId } = await params;
+    return <CoInterviewerClient sessionId={sessionId} />;
+}
@@ -14,8 +14,10 @@ import { GitHubService, GitHubFile } from '@/lib/github-service';
 import { useAuth } from '@/lib/auth-context';
 import { validateSlug } from '@/lib/slug-validation';
 import { mapGapScoresToWeights, GapScoreResponse } from '@/lib/adaptiveSetup';
+import { RECENT_SESSION_WINDOW, weakestTopics, type QuestionHistoryResponse } from '@/lib/adaptiveSelector';
 import { filterTechsByCurriculum, filterGapScoresByCurriculum } from '@/lib/curriculumFilter';
 import { CurriculumFilterBadge, TaughtWeek } from '@/components/dashboard/CurriculumFilterBadge';
+import ResumeInterviewList from '@/components/interview/ResumeInterviewList';
 
 const displayFont = { fontFamily: 'var(--font-display)' } as const;
 const monoLabel = {
@@ -65,6 +67,7 @@ export default function DashboardPage() {
   const {
     createSession,
     session,
+    draftRevision,
     resetSession,
     setupPhase,
     setSetupPhase,
@@ -107,6 +110,8 @@ export default function DashboardPage() {
   const [prePopulatedPaths, setPrePopulatedPaths] = useState<Set<string>>(new Set());
   const [pendingGapScores, setPendingGapScores] = useState<GapScoreResponse['scores'] | null>(null);
   const [prePopulatedWeights, setPrePopulatedWeights] = useState<Record<string, number>>({});
+  // Topic gaps + asked questions for adaptive selection; null = random selection
+  const [questionHistory, setQuestionHistory] = useState<QuestionHistoryResponse | null>(null);
 
   // Curriculum filter state (D-14, D-17, D-18)
   const [taughtWeeks, setTaughtWeeks] = useState<TaughtWeek[]>([]);
@@ -292,6 +297,17 @@ export default function DashboardPage() {
     const trimmed = slug.trim().toLowerCase();
     if (!trimmed) return;
     setIsLoadingGapScores(true);
+    setQuestionHistory(null);
+    fetch(`/api/associates/${encodeURIComponent(trimmed)}/question-history`)
+      .then(res => res.ok ? res.json() : null)
+      .then((history: QuestionHistoryResponse | null) => {
+        if (history?.found && (history.asked.length > 0 || history.topicScores.length > 0)) {
+          setQuestionHistory(history);
+        }
+      })
+      .catch(() => {
+        // Fall back to random selection
+      });
     try {
       const res = await fetch(`/api/associates/${encodeURIComponent(trimmed)}/gap-scores`);
       if (!res.ok) return;
@@ -405,7 +421,8 @@ export default function DashboardPage() {
       candidateName || undefined,
       interviewerName || undefined,
       interviewLevel,
-      associateSlug || undefined
+      associateSlug || undefined,
+      associateSlug ? questionHistory ?? undefined : undefined
     );
 
     router.push('/interview');
@@ -926,6 +943,18 @@ export default function DashboardPage() {
             </>
           )}
 
+          {associateSlug && questionHistory && (
+            <>
+              <span style={{ color: 'var(--muted)' }}>Selection</span>
+              <span className="font-medium" style={{ color: 'var(--ink)' }}>
+                Adaptive — avoids questions from the last {RECENT_SESSION_WINDOW} sessions
+                {questionHistory.topicScores.length > 0 && (
+                  <>, targets {weakestTopics(questionHistory.topicScores, 3).map(t => t.topic).join(', ')}</>
+                )}
+              </span>
+            </>
+          )}
+
           <span style={{ color: 'var(--muted)' }}>Questions</span>
           <span className="font-medium" style={{ color: 'var(--ink)', fontVariantNumeric: 'tabular-nums' }}>
             {questionCount} (~{questionCount * 2} min)
@@ -990,6 +1019,17 @@ export default function DashboardPage() {
 
   // --- Main Render ---
 
+  // Discarding the local session also drops its server draft so it doesn't
+  // reappear in the resume list.
+  const handleDiscardActive = () => {
+    if (session && draftRevision > 0) {
+      fetch(`/api/sessions/drafts/${encodeURIComponent(session.id)}`, { method: 'DELETE' }).catch((err) =>
+        console.warn('Failed to discard server draft:', err)
+      );
+    }
+    resetSession();
+  };
+
   const steps: { num: 1 | 2 | 3; label: string }[] = [
     { num: 1, label: 'Focus' },
     { num: 2, label: 'Details' },
@@ -1071,7 +1111,7 @@ export default function DashboardPage() {
             </div>
             <div className="flex gap-3">
               <button
-                onClick={resetSession}
+                onClick={handleDiscardActive}
                 className="text-sm px-3 py-1"
                 style={{ color: 'var(--muted)' }}
               >
@@ -1087,6 +1127,9 @@ export default function DashboardPage() {
           </div>
         )}
 
+        {/* Server-side drafts from other devices */}
+        <ResumeInterviewList />
+
         {/* Wizard Card */}
         <div
           className="rounded-xl overflow-hidden flex-1 flex flex-col"
@@ -6,6 +6,8 @@ import { useEffect, useState, useCallback } from 'react';
 import { useRouter } from 'next/navigation';
 import { ArrowLeft, ArrowRight, Flag, Loader2 } from 'lucide-react';
 import { useInterviewStore } from '@/store/interviewStore';
+import DraftSyncBar from '@/components/interview/DraftSyncBar';
+import CoInterviewerInvite from '@/components/interview/CoInterviewerInvite';
 import QuestionCard from '@/components/QuestionCard';
 import ProgressBar from '@/components/ProgressBar';
 import { ParsedQuestion, StarterQuestion } from '@/lib/types';
@@ -70,6 +72,9 @@ export default function InterviewPage() {
                     modelAnswer: 'modelAnswer' in currentQuestion ? (currentQuestion as ParsedQuestion).modelAnswer : undefined,
                     type: isStarter ? (currentQuestion as StarterQuestion).type : undefined,
                     guidelines: isStarter ? (currentQuestion as StarterQuestion).guidelines : undefined,
+                    skill: isStarter ? undefined : session?.techMap?.[(currentQuestion as ParsedQuestion).weekNumber],
+                    topic: isStarter ? undefined : (currentQuestion as ParsedQuestion).topic,
+                    keywordGroups: isStarter ? undefined : (currentQuestion as ParsedQuestion).keywordGroups,
                 },
                 assessment: currentAssessment,
             }),
@@ -79,7 +84,10 @@ export default function InterviewPage() {
             }
             throw new Error('Network response was not ok');
         }).then(result => {
-            setLLMResult(currentQId, result.score, result.feedback);
+            setLLMResult(currentQId, result.score, result.feedback, {
+                breakdown: result.breakdown,
+                rubric: result.rubric,
+            });
         }).catch(error => {
             console.error('LLM scoring failed:', error);
             setLLMResult(currentQId, 3, 'Scoring temporarily unavailable. Please review manually.');
@@ -89,7 +97,7 @@ export default function InterviewPage() {
         if (progress.current < progress.total) {
             nextQuestion();
         }
-    }, [currentQuestion, currentAssessment, progress, completeQuestion, setLLMResult, nextQuestion]);
+    }, [currentQuestion, currentAssessment, progress, session, completeQuestion, setLLMResult, nextQuestion]);
     const handleSkip = useCallback(() => {
         if (progress.current < progress.total) {
             nextQuestion();
@@ -140,6 +148,8 @@ export default function InterviewPage() {
                         Exit Interview
                     </button>
 
+                    <CoInterviewerInvite />
+
                     {session.candidateName && (
                         <div className="flex flex-col items-end gap-1">
                             <span
@@ -169,6 +179,8 @@ export default function InterviewPage() {
                     )}
                 </header>
 
+                <DraftSyncBar />
+
                 {/* Progress Bar */}
                 <ProgressBar
                     currentIndex={session.currentQuestionIndex}
@@ -180,6 +192,7 @@ export default function InterviewPage() {
 
                 {/* Question Card */}
                 <QuestionCard
+                    key={currentQuestion.id}
                     question={currentQuestion}
                     assessment={currentAssessment}
                     questionNumber={progress.current}
@@ -9,6 +9,7 @@ import { PDFReport } from '@/components/PDFReport';
 import ProgressBar from '@/components/ProgressBar';
 import { pdf } from '@react-pdf/renderer';
 import { parseInterviewQuestions, selectRandomQuestions } from '@/lib/markdownParser';
+import ModelAnswer from '@/components/ModelAnswer';
 import { calculateAggregateScores } from '@/lib/langchain';
 import { GitHubService } from '@/lib/github-service';
 
@@ -349,6 +350,7 @@ export default function PublicInterviewPage() {
                                 didNotGetTo: false,
                                 llmScore: scoreResult.score || 3,
                                 llmFeedback: scoreResult.feedback || 'Follow-up completed.',
+                                llmBreakdown: scoreResult.breakdown,
                                 finalScore: scoreResult.score || 3,
                                 finalFeedback: scoreResult.feedback || 'Follow-up completed.',
                                 keywordsHit: [],
@@ -399,6 +401,7 @@ export default function PublicInterviewPage() {
                             didNotGetTo: false,
                             llmScore: scoreResult.score || 3,
                             llmFeedback: scoreResult.feedback || 'Follow-up completed.',
+                            llmBreakdown: scoreResult.breakdown,
                             finalScore: scoreResult.score || 3,
                             finalFeedback: scoreResult.feedback || 'Follow-up completed.',
                             keywordsHit: [],
@@ -517,6 +520,7 @@ export default function PublicInterviewPage() {
                                     didNotGetTo: false,
                                     llmScore: scoreResult.score || 3,
                                     llmFeedback: scoreResult.feedback || `Agent observed: ${agentReasoning}`,
+                                    llmBreakdown: scoreResult.breakdown,
                                     finalScore: scoreResult.score || 3,
                                     finalFeedback: scoreResult.feedback || `Agent observed: ${agentReasoning}`,
                                     keywordsHit: [],
@@ -567,6 +571,7 @@ export default function PublicInterviewPage() {
                                 didNotGetTo: false,
                                 llmScore: scoreResult.score || 3,
                                 llmFeedback: scoreResult.feedback || `Agent observed: ${agentReasoning}`,
+                                llmBreakdown: scoreResult.breakdown,
                                 finalScore: scoreResult.score || 3,
                                 finalFeedback: scoreResult.feedback || `Agent observed: ${agentReasoning}`,
                                 keywordsHit: [],
@@ -1075,8 +1080,8 @@ export default function PublicInterviewPage() {
                                     <CheckCircle2 className="w-4 h-4" />
                                     Ideal Response
                                 </h3>
-                                <div style={{ color: 'var(--ink)', fontSize: 14, lineHeight: 1.6, whiteSpace: 'pre-wrap' }}>
-                                    {currentQ.modelAnswer || "No ideal response provided for this question."}
+                                <div style={{ color: 'var(--ink)', fontSize: 14, lineHeight: 1.6 }}>
+                                    <ModelAnswer text={currentQ.modelAnswer || "No ideal response provided for this question."} />
                                 </div>
                                 {currentQ.keywords && currentQ.keywords.length > 0 && (
                                     <div className="mt-4 pt-4" style={{ borderTop: '1px solid var(--border-subtle)' }}>
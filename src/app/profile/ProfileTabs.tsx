@@ -2,6 +2,7 @@
 
 import { useState, useEffect, FormEvent } from 'react';
 import { createSupabaseBrowserClient } from '@/lib/supabase/browser';
+import { YourDataPanel } from './YourDataPanel';
 
 interface ProfileData {
   displayName: string | null;
@@ -57,7 +58,7 @@ const fieldGroup: React.CSSProperties = {
   marginBottom: 16,
 };
 
-type Tab = 'profile' | 'security' | 'learning';
+type Tab = 'profile' | 'security' | 'learning' | 'data';
 
 function readinessBadgeStyle(status: string): React.CSSProperties {
   if (status === 'ready') {
@@ -322,6 +323,11 @@ export function ProfileTabs({ profile, email, role, readiness, initialTab }: Pro
           <button style={tabButtonStyle('learning')} onClick={() => setActiveTab('learning')}>
             Learning
           </button>
+          {role === 'associate' && (
+            <button style={tabButtonStyle('data')} onClick={() => setActiveTab('data')}>
+              Your data
+            </button>
+          )}
         </div>
 
         {/* Profile Tab */}
@@ -704,6 +710,9 @@ export function ProfileTabs({ profile, email, role, readiness, initialTab }: Pro
             )}
           </div>
         )}
+
+        {/* Data Tab */}
+        {activeTab === 'data' && role === 'associate' && <YourDataPanel />}
       </div>
   );
 }
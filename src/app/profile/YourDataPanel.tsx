@@ -0,0 +1,153 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+interface OpenRequest {
+  id: string;
+  status: string;
+  createdAt: string;
+}
+
+const sectionLabel: React.CSSProperties = {
+  fontSize: 11,
+  fontFamily: "'JetBrains Mono', monospace",
+  fontWeight: 500,
+  textTransform: 'uppercase',
+  letterSpacing: '0.07em',
+  color: 'var(--muted)',
+  margin: '0 0 12px 0',
+};
+
+const bodyText: React.CSSProperties = {
+  fontSize: 14,
+  color: 'var(--muted)',
+  margin: '0 0 16px 0',
+  lineHeight: 1.5,
+};
+
+/** "Your data" tab: download an export, or ask an admin to erase the account. */
+export function YourDataPanel() {
+  const [request, setRequest] = useState<OpenRequest | null>(null);
+  const [loaded, setLoaded] = useState(false);
+  const [confirming, setConfirming] = useState(false);
+  const [reason, setReason] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch('/api/associate/me/erasure')
+      .then((res) => (res.ok ? (res.json() as Promise<{ request: OpenRequest | null }>) : { request: null }))
+      .then((json) => setRequest(json.request))
+      .catch(() => setRequest(null))
+      .finally(() => setLoaded(true));
+  }, []);
+
+  async function submitRequest() {
+    setSubmitting(true);
+    setError(null);
+    try {
+      const res = await fetch('/api/associate/me/erasure', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ reason: reason.trim() || undefined }),
+      });
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        setError(json?.error ?? 'Could not send the request.');
+        return;
+      }
+      setRequest(json.request);
+      setConfirming(false);
+    } catch {
+      setError('Network error. Please try again.');
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  return (
+    <div>
+      <p style={sectionLabel}>Download my data</p>
+      <p style={bodyText}>
+        A copy of everything stored about you: profile, mock interview sessions and feedback, gap scores, practice
+        cards, coding submissions and assessment activity.
+      </p>
+      <div style={{ display: 'flex', gap: 8, marginBottom: 32 }}>
+        <a href="/api/associate/me/export?format=zip" className="btn-accent-flat" style={{ flex: 1, textAlign: 'center' }}>
+          Download ZIP
+        </a>
+        <a href="/api/associate/me/export?format=json" className="btn-secondary-flat" style={{ flex: 1, textAlign: 'center' }}>
+          Download JSON
+        </a>
+      </div>
+
+      <p style={sectionLabel}>Erase my account</p>
+      {!loaded ? null : request ? (
+        <div
+          role="status"
+          style={{
+            padding: 16,
+            backgroundColor: 'var(--surface-muted)',
+            border: '1px solid var(--border)',
+            borderRadius: 8,
+            fontSize: 14,
+            color: 'var(--ink)',
+            lineHeight: 1.5,
+          }}
+        >
+          Erasure requested on {new Date(request.createdAt).toLocaleDateString()}. An admin will review it; once
+          approved your account and data are deleted and you will no longer be able to sign in.
+        </div>
+      ) : confirming ? (
+        <div>
+          <p style={bodyText}>
+            This asks an admin to permanently delete your account and all of the data above. Download a copy first if
+            you want to keep it.
+          </p>
+          <label htmlFor="erasure-reason" style={{ display: 'block', fontSize: 13, fontWeight: 500, marginBottom: 6 }}>
+            Reason (optional)
+          </label>
+          <textarea
+            id="erasure-reason"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            rows={3}
+            maxLength={1000}
+            style={{
+              width: '100%',
+              padding: '10px 14px',
+              fontSize: 14,
+              color: 'var(--ink)',
+              backgroundColor: 'var(--bg)',
+              border: '1px solid var(--border)',
+              borderRadius: 8,
+              boxSizing: 'border-box',
+              resize: 'vertical',
+              marginBottom: 12,
+            }}
+          />
+          {error && (
+            <div role="alert" style={{ color: 'var(--danger)', fontSize: 13, marginBottom: 12 }}>
+              {error}
+            </div>
+          )}
+          <div style={{ display: 'flex', gap: 8 }}>
+            <button onClick={submitRequest} disabled={submitting} className="btn-accent-flat" style={{ flex: 1 }}>
+              {submitting ? 'Sending…' : 'Request erasure'}
+            </button>
+            <button onClick={() => setConfirming(false)} disabled={submitting} className="btn-secondary-flat" style={{ flex: 1 }}>
+              Cancel
+            </button>
+          </div>
+        </div>
+      ) : (
+        <>
+          <p style={bodyText}>Ask for your account and all associated data to be deleted.</p>
+          <button onClick={() => setConfirming(true)} className="btn-secondary-flat" style={{ width: '100%' }}>
+            Request erasure…
+          </button>
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
 import { redirect } from 'next/navigation';
 import { getCallerIdentity } from '@/lib/identity';
+import { isStaff, staffHomePath } from '@/lib/authorization';
 
 export default async function ProfilePage() {
   const identity = await getCallerIdentity();
@@ -8,8 +9,8 @@ export default async function ProfilePage() {
     redirect('/signin');
   }
 
-  if (identity.kind === 'trainer' || identity.kind === 'admin') {
-    redirect('/trainer');
+  if (isStaff(identity)) {
+    redirect(staffHomePath(identity.kind));
   }
 
   if (identity.kind === 'associate') {
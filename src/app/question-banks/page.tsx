@@ -18,6 +18,7 @@ import {
 import { parseInterviewQuestions } from '@/lib/markdownParser';
 import { ParsedQuestion } from '@/lib/types';
 import { useAuth } from '@/lib/auth-context';
+import BankValidationPanel from '@/components/question-banks/BankValidationPanel';
 
 const displayFont = { fontFamily: 'var(--font-display)' } as const;
 const monoLabel = {
@@ -353,6 +354,9 @@ export default function QuestionBanksPage() {
                             </div>
                         </div>
 
+                        {/* Repository lint report */}
+                        <BankValidationPanel />
+
                         {/* Custom Banks */}
                         <div>
                             <h2
@@ -17,8 +17,10 @@ import {
     RefreshCw
 } from 'lucide-react';
 import { useInterviewStore } from '@/store/interviewStore';
+import DraftSyncBar from '@/components/interview/DraftSyncBar';
+import InterRaterPanel from '@/components/interview/InterRaterPanel';
 import { calculateAggregateScores } from '@/lib/langchain';
-import { ParsedQuestion, StarterQuestion } from '@/lib/types';
+import { ParsedQuestion, StarterQuestion, SCORING_CRITERIA } from '@/lib/types';
 import { useAuth } from '@/lib/auth-context';
 
 const surfaceCard: React.CSSProperties = {
@@ -128,7 +130,8 @@ export default function ReviewPage() {
                         headers: { 'Content-Type': 'application/json' },
                         body: JSON.stringify({
                             assessments: session.assessments,
-                            questions: allQs
+                            questions: allQs,
+                            skills: Object.values(session.techMap ?? {})
                         })
                     });
 
@@ -224,6 +227,9 @@ export default function ReviewPage() {
                         modelAnswer: 'modelAnswer' in question ? (question as ParsedQuestion).modelAnswer : undefined,
                         type: isStarter ? (question as StarterQuestion).type : undefined,
                         guidelines: isStarter ? (question as StarterQuestion).guidelines : undefined,
+                        skill: isStarter ? undefined : session?.techMap?.[(question as ParsedQuestion).weekNumber],
+                        topic: isStarter ? undefined : (question as ParsedQuestion).topic,
+                        keywordGroups: isStarter ? undefined : (question as ParsedQuestion).keywordGroups,
                     },
                     assessment: {
                         keywordsHit: assessment.keywordsHit,
@@ -236,7 +242,10 @@ export default function ReviewPage() {
 
             if (response.ok) {
                 const result = await response.json();
-                setLLMResult(questionId, result.score, result.feedback);
+                setLLMResult(questionId, result.score, result.feedback, {
+                    breakdown: result.breakdown,
+                    rubric: result.rubric,
+                });
             } else {
                 console.error('Retry failed:', response.statusText);
             }
@@ -325,6 +334,8 @@ export default function ReviewPage() {
     return (
         <div className="min-h-full" style={{ background: 'var(--bg)' }}>
             <div className="container mx-auto px-4 py-8 max-w-5xl">
+                <DraftSyncBar />
+
                 {/* Header */}
                 <div className="flex items-center justify-between mb-8">
                     <button
@@ -560,6 +571,9 @@ export default function ReviewPage() {
                     </div>
                 </div>
 
+                {/* Co-interviewer reconciliation (renders nothing without a co-interviewer) */}
+                <InterRaterPanel questions={allQuestions} />
+
                 {/* Questions List */}
                 <div className="space-y-4">
                     {allQuestions.map((question, index) => {
@@ -729,6 +743,32 @@ export default function ReviewPage() {
                                         )}
                                     </div>
 
+                                    {/* AI Rubric Breakdown */}
+                                    {assessment.llmBreakdown && !assessment.didNotGetTo && (
+                                        <div className="mt-4 pt-4" style={{ borderTop: '1px solid var(--border-subtle)' }}>
+                                            <div className="flex items-center justify-between mb-2">
+                                                <p style={monoLabel}>AI Rubric</p>
+                                                <p style={{ fontSize: 12, color: 'var(--muted)', ...tabularNums }}>
+                                                    Confidence {Math.round(assessment.llmBreakdown.confidence * 100)}%
+                                                </p>
+                                            </div>
+                                            <dl className="space-y-1">
+                                                {SCORING_CRITERIA.map((criterion) => {
+                                                    const entry = assessment.llmBreakdown?.criteria[criterion];
+                                                    if (!entry) return null;
+                                                    return (
+                                                        <div key={criterion} className="flex gap-3" style={{ fontSize: 13 }}>
+                                                            <dt style={{ width: 120, color: 'var(--muted)', textTransform: 'capitalize' }}>
+                                                                {criterion} <span style={{ color: 'var(--ink)', ...tabularNums }}>{entry.score}/5</span>
+                                                            </dt>
+                                                            <dd style={{ flex: 1, color: 'var(--ink)', lineHeight: 1.5 }}>{entry.rationale}</dd>
+                                                        </div>
+                                                    );
+                                                })}
+                                            </dl>
+                                        </div>
+                                    )}
+
                                     {/* Keywords Summary */}
                                     {isParsedQuestion && !assessment.didNotGetTo && (
                                         <div className="mt-4 pt-4" style={{ borderTop: '1px solid var(--border-subtle)' }}>
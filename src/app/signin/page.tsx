@@ -1,5 +1,6 @@
 import { redirect } from 'next/navigation';
 import { createSupabaseServerClient } from '@/lib/supabase/server';
+import { isStaffRole, staffHomePath } from '@/lib/authorization';
 import { SignInTabs } from './SignInTabs';
 
 /**
@@ -25,11 +26,11 @@ export default async function SignInPage({ searchParams }: PageProps) {
   const supabase = await createSupabaseServerClient();
   const { data: { user } } = await supabase.auth.getUser();
   if (user) {
-    const role = user.user_metadata?.role as string | undefined;
+    const role = user.app_metadata?.role as string | undefined;
     if (nextPath) {
       redirect(nextPath);
-    } else if (role === 'trainer' || role === 'admin') {
-      redirect('/trainer');
+    } else if (isStaffRole(role)) {
+      redirect(staffHomePath(role));
     } else {
       redirect('/');
     }
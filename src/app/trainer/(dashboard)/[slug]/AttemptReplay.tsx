@@ -0,0 +1,277 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import type { AttemptTimelinePayload } from '@/lib/trainer-types'
+import {
+  createReplayer,
+  summarizeTimeline,
+  type TimelineMarker,
+} from '@/lib/editTimeline'
+
+interface Props {
+  slug: string
+  attemptId: string
+  onClose: () => void
+}
+
+/** Playback advances one event per tick. */
+const PLAY_TICK_MS = 60
+
+const MARKER_STYLE: Record<TimelineMarker['kind'], { color: string; bg: string; label: string }> = {
+  paste: { color: 'var(--danger)', bg: 'var(--danger-bg)', label: 'Paste' },
+  run: { color: 'var(--ink)', bg: 'var(--surface-muted)', label: 'Run' },
+  submit: { color: 'var(--success)', bg: 'var(--success-bg)', label: 'Submit' },
+  pause: { color: 'var(--muted)', bg: 'var(--warning-bg)', label: 'Pause' },
+}
+
+export function formatClock(ms: number): string {
+  const total = Math.max(0, Math.floor(ms / 1000))
+  const m = Math.floor(total / 60)
+  const s = String(total % 60).padStart(2, '0')
+  return `${m}:${s}`
+}
+
+function markerText(m: TimelineMarker): string {
+  const label = MARKER_STYLE[m.kind].label
+  if (m.kind === 'paste') return `${label} ${m.size} chars @ ${formatClock(m.t)}`
+  if (m.kind === 'pause') return `${label} ${formatClock(m.size ?? 0)} @ ${formatClock(m.t)}`
+  return `${label} @ ${formatClock(m.t)}`
+}
+
+const labelStyle = {
+  fontFamily: 'DM Sans, sans-serif',
+  fontSize: '12px',
+  color: 'var(--muted)',
+} as const
+
+/**
+ * AttemptReplay — replays an attempt's recorded edit timeline
+ * (GET /api/trainer/[slug]/coding/attempts/[attemptId]/timeline). A range
+ * scrubber walks the events; pastes, runs, submits and long pauses are
+ * listed as jump points, so a trainer can see the approach, where the
+ * associate stalled and what arrived in one paste.
+ */
+export function AttemptReplay({ slug, attemptId, onClose }: Props) {
+  const [data, setData] = useState<AttemptTimelinePayload | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [position, setPosition] = useState(0)
+  const [playing, setPlaying] = useState(false)
+  const [fileIndex, setFileIndex] = useState(0)
+
+  useEffect(() => {
+    let cancelled = false
+    async function fetchData() {
+      try {
+        const res = await fetch(
+          `/api/trainer/${encodeURIComponent(slug)}/coding/attempts/${encodeURIComponent(attemptId)}/timeline`,
+        )
+        if (!res.ok) {
+          throw new Error(`Timeline fetch failed (${res.status})`)
+        }
+        const json: AttemptTimelinePayload = await res.json()
+        if (!cancelled) {
+          setData(json)
+          setError(null)
+          // Open on the final state — what was submitted.
+          setPosition(json.timeline.events.length)
+          setFileIndex(0)
+          setPlaying(false)
+        }
+      } catch (err) {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Failed to load timeline')
+        }
+      }
+    }
+    fetchData()
+    return () => {
+      cancelled = true
+    }
+  }, [slug, attemptId])
+
+  const replayer = useMemo(() => (data ? createReplayer(data.timeline) : null), [data])
+  const summary = useMemo(() => (data ? summarizeTimeline(data.timeline) : null), [data])
+  const length = replayer?.length ?? 0
+  // Playback stops by itself at the end of the timeline.
+  const isPlaying = playing && position < length
+
+  useEffect(() => {
+    if (!isPlaying) return
+    const timer = setTimeout(() => setPosition((p) => p + 1), PLAY_TICK_MS)
+    return () => clearTimeout(timer)
+  }, [isPlaying, position])
+
+  const contents = useMemo(() => replayer?.at(position) ?? [], [replayer, position])
+
+  if (error) {
+    return (
+      <p role="alert" style={{ ...labelStyle, fontSize: '13px', color: 'var(--danger)', marginTop: '16px' }}>
+        {error}
+      </p>
+    )
+  }
+  if (!data || !summary) {
+    return <p style={{ ...labelStyle, marginTop: '16px' }}>Loading replay…</p>
+  }
+
+  const files = data.timeline.files
+  const elapsed = position > 0 ? data.timeline.events[position - 1][0] : 0
+
+  const buttonStyle = {
+    padding: '4px 12px',
+    fontFamily: 'DM Sans, sans-serif',
+    fontSize: '12px',
+    color: 'var(--ink)',
+    backgroundColor: 'var(--surface)',
+    border: '1px solid var(--border)',
+    borderRadius: '6px',
+    cursor: 'pointer',
+  } as const
+
+  return (
+    <div
+      data-testid="attempt-replay"
+      style={{
+        marginTop: '16px',
+        padding: '16px',
+        border: '1px solid var(--border)',
+        borderRadius: '8px',
+        backgroundColor: 'var(--surface)',
+      }}
+    >
+      <div style={{ display: 'flex', alignItems: 'baseline', gap: '12px', marginBottom: '12px' }}>
+        <h3
+          style={{
+            flex: 1,
+            margin: 0,
+            fontFamily: 'DM Sans, sans-serif',
+            fontSize: '14px',
+            fontWeight: 600,
+            color: 'var(--ink)',
+          }}
+        >
+          Replay: {data.challengeTitle} &middot; {data.language} &middot; {data.verdict}
+        </h3>
+        <button type="button" onClick={onClose} style={buttonStyle}>
+          Close
+        </button>
+      </div>
+
+      <p style={{ ...labelStyle, margin: '0 0 12px 0' }}>
+        {formatClock(summary.durationMs)} recorded &middot; {summary.edits} edits &middot;{' '}
+        {summary.runs} runs &middot; {summary.submits} submits &middot; {summary.pastes} pastes
+        {summary.pastes > 0 && ` (${summary.pastedChars} chars)`} &middot; longest pause{' '}
+        {formatClock(summary.longestPauseMs)}
+        {data.timeline.truncated && ' · recording hit its size cap; later edits are missing'}
+      </p>
+
+      <div style={{ display: 'flex', alignItems: 'center', gap: '12px', marginBottom: '12px' }}>
+        <button
+          type="button"
+          onClick={() => {
+            if (isPlaying) {
+              setPlaying(false)
+              return
+            }
+            if (position >= length) setPosition(0)
+            setPlaying(true)
+          }}
+          disabled={length === 0}
+          style={buttonStyle}
+        >
+          {isPlaying ? 'Pause' : 'Play'}
+        </button>
+        <input
+          type="range"
+          aria-label="Replay position"
+          min={0}
+          max={length}
+          value={position}
+          onChange={(e) => {
+            setPlaying(false)
+            setPosition(Number(e.target.value))
+          }}
+          style={{ flex: 1 }}
+        />
+        <span style={{ ...labelStyle, fontVariantNumeric: 'tabular-nums', minWidth: '96px' }}>
+          {formatClock(elapsed)} &middot; {position}/{length}
+        </span>
+      </div>
+
+      {summary.markers.length > 0 && (
+        <ul
+          role="list"
+          aria-label="Replay markers"
+          style={{ listStyle: 'none', margin: '0 0 12px 0', padding: 0, display: 'flex', flexWrap: 'wrap', gap: '6px' }}
+        >
+          {summary.markers.map((m, i) => {
+            const ms = MARKER_STYLE[m.kind]
+            return (
+              <li key={i}>
+                <button
+                  type="button"
+                  onClick={() => {
+                    setPlaying(false)
+                    setPosition(m.position)
+                  }}
+                  style={{
+                    ...buttonStyle,
+                    padding: '2px 8px',
+                    fontSize: '11px',
+                    color: ms.color,
+                    backgroundColor: ms.bg,
+                  }}
+                >
+                  {markerText(m)}
+                </button>
+              </li>
+            )
+          })}
+        </ul>
+      )}
+
+      {files.length > 1 && (
+        <div role="tablist" style={{ display: 'flex', gap: '4px', marginBottom: '8px' }}>
+          {files.map((f, i) => (
+            <button
+              key={f.path}
+              type="button"
+              role="tab"
+              aria-selected={i === fileIndex}
+              onClick={() => setFileIndex(i)}
+              style={{
+                ...buttonStyle,
+                fontFamily: "'JetBrains Mono', monospace",
+                fontWeight: i === fileIndex ? 600 : 400,
+                borderColor: i === fileIndex ? 'var(--accent)' : 'var(--border)',
+              }}
+            >
+              {f.path}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <pre
+        data-testid="replay-code"
+        style={{
+          margin: 0,
+          padding: '12px',
+          maxHeight: '480px',
+          overflow: 'auto',
+          backgroundColor: 'var(--surface-muted)',
+          border: '1px solid var(--border-subtle)',
+          borderRadius: '6px',
+          fontFamily: "'JetBrains Mono', monospace",
+          fontSize: '12px',
+          lineHeight: '18px',
+          color: 'var(--ink)',
+          whiteSpace: 'pre-wrap',
+          wordBreak: 'break-all',
+        }}
+      >
+        {contents[fileIndex] ?? ''}
+      </pre>
+    </div>
+  )
+}
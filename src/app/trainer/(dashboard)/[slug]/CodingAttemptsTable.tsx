@@ -5,6 +5,10 @@ import { getLanguageDialectLabel } from '@/lib/codingLabels'
 
 interface Props {
   attempts: CodingAttemptSummary[]
+  /** When set, attempts with a recorded edit timeline get a Replay button. */
+  onReplay?: (attemptId: string) => void
+  /** When set, attempts with an AI code review get a Review button. */
+  onReview?: (attemptId: string) => void
 }
 
 const DATE_FMT = new Intl.DateTimeFormat('en-US', {
@@ -25,7 +29,29 @@ function verdictStyle(verdict: string): { color: string; bg: string } {
  * Styling via DESIGN.md tokens only (no hardcoded colors).
  * Phase 41 Plan 02 Task 2.
  */
-export function CodingAttemptsTable({ attempts }: Props) {
+function RowButton({ label, title, onClick }: { label: string; title: string; onClick: () => void }) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      aria-label={`${label} ${title} attempt`}
+      style={{
+        padding: '2px 10px',
+        fontFamily: 'DM Sans, sans-serif',
+        fontSize: '12px',
+        color: 'var(--ink)',
+        backgroundColor: 'var(--surface)',
+        border: '1px solid var(--border)',
+        borderRadius: '4px',
+        cursor: 'pointer',
+      }}
+    >
+      {label}
+    </button>
+  )
+}
+
+export function CodingAttemptsTable({ attempts, onReplay, onReview }: Props) {
   if (attempts.length === 0) {
     return (
       <p
@@ -54,7 +80,16 @@ export function CodingAttemptsTable({ attempts }: Props) {
       >
         <thead>
           <tr>
-            {['Date', 'Challenge', 'Language', 'Difficulty', 'Verdict', 'Score'].map((h) => (
+            {[
+              'Date',
+              'Challenge',
+              'Language',
+              'Difficulty',
+              'Verdict',
+              'Score',
+              ...(onReplay ? ['Replay'] : []),
+              ...(onReview ? ['Review'] : []),
+            ].map((h) => (
               <th
                 key={h}
                 style={{
@@ -167,6 +202,30 @@ export function CodingAttemptsTable({ attempts }: Props) {
                 >
                   {a.score === null ? '—' : `${Math.round(a.score)}%`}
                 </td>
+                {onReplay && (
+                  <td
+                    style={{
+                      padding: '12px',
+                      borderBottom: '1px solid var(--border-subtle)',
+                    }}
+                  >
+                    {a.hasTimeline && (
+                      <RowButton label="Replay" title={a.challengeTitle} onClick={() => onReplay(a.id)} />
+                    )}
+                  </td>
+                )}
+                {onReview && (
+                  <td
+                    style={{
+                      padding: '12px',
+                      borderBottom: '1px solid var(--border-subtle)',
+                    }}
+                  >
+                    {a.hasReview && (
+                      <RowButton label="Review" title={a.challengeTitle} onClick={() => onReview(a.id)} />
+                    )}
+                  </td>
+                )}
               </tr>
             )
           })}
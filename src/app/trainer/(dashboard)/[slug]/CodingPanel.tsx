@@ -3,6 +3,9 @@
 import { useEffect, useMemo, useState } from 'react'
 import { CodingAttemptsTable } from './CodingAttemptsTable'
 import { CodingSkillBars } from './CodingSkillBars'
+import { SimilarityMatches } from './SimilarityMatches'
+import { AttemptReplay } from './AttemptReplay'
+import { CodeReviewPanel } from '@/components/coding/CodeReviewPanel'
 import type { AssociateCodingPayload } from '@/lib/trainer-types'
 
 interface Props {
@@ -15,7 +18,9 @@ interface Props {
  * <AssociateDashboardClient /> per DESIGN.md (panel, not tab) so trainer
  * can keep interview + coding context visible simultaneously.
  *
- * Phase 41 Plan 02 Task 3.
+ * Phase 41 Plan 02 Task 3. SimilarityMatches (below the table) flags
+ * submissions that closely match a cohort-mate's; attempts with a recorded
+ * edit timeline open in AttemptReplay, and AI code reviews in CodeReviewPanel.
  */
 export function CodingPanel({ slug }: Props) {
   const [data, setData] = useState<AssociateCodingPayload | null>(null)
@@ -23,6 +28,8 @@ export function CodingPanel({ slug }: Props) {
   const [error, setError] = useState<string | null>(null)
   const [languageFilter, setLanguageFilter] = useState<string>('all')
   const [skillFilter, setSkillFilter] = useState<string>('all')
+  const [replayId, setReplayId] = useState<string | null>(null)
+  const [reviewId, setReviewId] = useState<string | null>(null)
 
   useEffect(() => {
     let cancelled = false
@@ -225,7 +232,20 @@ export function CodingPanel({ slug }: Props) {
           </div>
 
           <CodingSkillBars scores={filteredSkillScores} />
-          <CodingAttemptsTable attempts={filteredAttempts} />
+          <CodingAttemptsTable
+            attempts={filteredAttempts}
+            onReplay={setReplayId}
+            onReview={(id) => setReviewId((current) => (current === id ? null : id))}
+          />
+          {reviewId && (
+            <div style={{ marginTop: '16px' }}>
+              <CodeReviewPanel key={reviewId} attemptId={reviewId} />
+            </div>
+          )}
+          {replayId && (
+            <AttemptReplay slug={slug} attemptId={replayId} onClose={() => setReplayId(null)} />
+          )}
+          <SimilarityMatches slug={slug} />
         </>
       )}
     </section>
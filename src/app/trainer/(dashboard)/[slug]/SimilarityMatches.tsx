@@ -0,0 +1,204 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import type { AssociateSimilarityPayload, SimilarityMatch } from '@/lib/trainer-types'
+import { lineDiff, type DiffRow } from '@/lib/codeSimilarity'
+
+interface Props {
+  slug: string
+}
+
+const DATE_FMT = new Intl.DateTimeFormat('en-US', {
+  month: 'short',
+  day: 'numeric',
+  year: 'numeric',
+})
+
+function rowBackground(kind: DiffRow['kind'], side: 'left' | 'right'): string {
+  if (kind === 'same') return 'transparent'
+  if (kind === 'changed') return 'var(--warning-bg)'
+  if (kind === 'removed') return side === 'left' ? 'var(--danger-bg)' : 'var(--surface-muted)'
+  return side === 'right' ? 'var(--success-bg)' : 'var(--surface-muted)'
+}
+
+function CodeDiff({ match }: { match: SimilarityMatch }) {
+  const rows = useMemo(() => lineDiff(match.self.code, match.other.code), [match])
+  const header = (label: string, submittedAt: string) => (
+    <div
+      style={{
+        padding: '8px 12px',
+        borderBottom: '1px solid var(--border)',
+        fontFamily: 'DM Sans, sans-serif',
+        fontSize: '12px',
+        color: 'var(--muted)',
+      }}
+    >
+      {label} &middot; {DATE_FMT.format(new Date(submittedAt))}
+    </div>
+  )
+  const cell = (text: string | null, kind: DiffRow['kind'], side: 'left' | 'right') => (
+    <pre
+      style={{
+        margin: 0,
+        padding: '0 12px',
+        minHeight: '18px',
+        background: rowBackground(kind, side),
+        fontFamily: "'JetBrains Mono', monospace",
+        fontSize: '12px',
+        lineHeight: '18px',
+        color: 'var(--ink)',
+        whiteSpace: 'pre-wrap',
+        wordBreak: 'break-all',
+      }}
+    >
+      {text ?? ''}
+    </pre>
+  )
+
+  return (
+    <div
+      data-testid="similarity-diff"
+      style={{
+        display: 'grid',
+        gridTemplateColumns: '1fr 1fr',
+        border: '1px solid var(--border)',
+        borderRadius: '8px',
+        overflow: 'auto',
+        maxHeight: '480px',
+        marginTop: '12px',
+      }}
+    >
+      {header('This associate', match.self.submittedAt)}
+      {header(match.other.displayName ?? match.other.associateSlug, match.other.submittedAt)}
+      {rows.map((row, i) => (
+        <div key={i} style={{ display: 'contents' }}>
+          {cell(row.left, row.kind, 'left')}
+          {cell(row.right, row.kind, 'right')}
+        </div>
+      ))}
+    </div>
+  )
+}
+
+/**
+ * SimilarityMatches — flagged submissions that closely match a cohort-mate's
+ * on the same challenge (GET /api/trainer/[slug]/coding/similarity). Each row
+ * expands into a side-by-side line diff. A high score is a prompt to look,
+ * not a verdict: short challenges legitimately converge on similar code.
+ */
+export function SimilarityMatches({ slug }: Props) {
+  const [data, setData] = useState<AssociateSimilarityPayload | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [openKey, setOpenKey] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    async function fetchData() {
+      try {
+        const res = await fetch(`/api/trainer/${encodeURIComponent(slug)}/coding/similarity`)
+        if (!res.ok) {
+          throw new Error(`Similarity fetch failed (${res.status})`)
+        }
+        const json: AssociateSimilarityPayload = await res.json()
+        if (!cancelled) {
+          setData(json)
+          setError(null)
+        }
+      } catch (err) {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Failed to load similarity data')
+        }
+      }
+    }
+    fetchData()
+    return () => {
+      cancelled = true
+    }
+  }, [slug])
+
+  if (error) {
+    return (
+      <p style={{ fontFamily: 'DM Sans, sans-serif', fontSize: '13px', color: 'var(--danger)', marginTop: '24px' }}>
+        {error}
+      </p>
+    )
+  }
+  if (!data) return null
+
+  return (
+    <div style={{ marginTop: '32px' }}>
+      <h3
+        style={{
+          fontFamily: 'DM Sans, sans-serif',
+          fontSize: '11px',
+          fontWeight: 500,
+          color: 'var(--muted)',
+          textTransform: 'uppercase',
+          letterSpacing: '0.06em',
+          margin: '0 0 8px 0',
+        }}
+      >
+        Similar submissions (&ge; {Math.round(data.threshold * 100)}%)
+      </h3>
+      {data.matches.length === 0 ? (
+        <p style={{ fontFamily: 'DM Sans, sans-serif', fontSize: '14px', color: 'var(--muted)', margin: 0 }}>
+          No submissions closely match a cohort-mate&rsquo;s.
+        </p>
+      ) : (
+        <ul role="list" style={{ listStyle: 'none', margin: 0, padding: 0 }}>
+          {data.matches.map((m) => {
+            const key = `${m.self.attemptId}:${m.other.attemptId}`
+            const open = openKey === key
+            return (
+              <li key={key} style={{ borderBottom: '1px solid var(--border)', padding: '12px 0' }}>
+                <button
+                  type="button"
+                  onClick={() => setOpenKey(open ? null : key)}
+                  aria-expanded={open}
+                  style={{
+                    display: 'flex',
+                    width: '100%',
+                    gap: '16px',
+                    alignItems: 'baseline',
+                    background: 'none',
+                    border: 'none',
+                    padding: 0,
+                    cursor: 'pointer',
+                    textAlign: 'left',
+                    fontFamily: 'DM Sans, sans-serif',
+                    fontSize: '14px',
+                    color: 'var(--ink)',
+                  }}
+                >
+                  <span
+                    style={{
+                      fontFamily: "'JetBrains Mono', monospace",
+                      fontWeight: 600,
+                      color: 'var(--danger)',
+                      minWidth: '48px',
+                    }}
+                  >
+                    {Math.round(m.similarity * 100)}%
+                  </span>
+                  <span style={{ flex: 1 }}>
+                    {m.challengeTitle}
+                    <span style={{ color: 'var(--muted)' }}>
+                      {' '}
+                      &middot; {m.language} &middot; matches{' '}
+                      {m.other.displayName ?? m.other.associateSlug}
+                      {m.clusterSize > 2 ? ` (cluster of ${m.clusterSize})` : ''}
+                    </span>
+                  </span>
+                  <span style={{ color: 'var(--accent)', fontSize: '13px' }}>
+                    {open ? 'Hide diff' : 'Compare'}
+                  </span>
+                </button>
+                {open && <CodeDiff match={m} />}
+              </li>
+            )
+          })}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,71 @@
+// @vitest-environment jsdom
+/**
+ * Tests for AttemptReplay — the edit-timeline scrubber on the trainer coding
+ * panel. Fetch is stubbed; the scrubber and marker buttons move the replayed
+ * code through the recorded events.
+ */
+
+import React from 'react';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { fireEvent, render, screen } from '@testing-library/react';
+import '@testing-library/jest-dom/vitest';
+import { AttemptReplay } from '@/app/trainer/(dashboard)/[slug]/AttemptReplay';
+import type { AttemptTimelinePayload } from '@/lib/trainer-types';
+
+const pasted = 'def solve():\n    return sorted(set(input().split()))\n';
+
+const payload: AttemptTimelinePayload = {
+  attemptId: 'att-1',
+  challengeTitle: 'Unique Words',
+  language: 'python',
+  verdict: 'pass',
+  submittedAt: '2026-05-01T12:00:00Z',
+  submittedCode: pasted + 'print(solve())',
+  timeline: {
+    v: 1,
+    files: [{ path: 'main', content: '# write here\n' }],
+    events: [
+      [0, 'e', 0, 0, 13, ''],
+      [90_000, 'e', 0, 0, 0, pasted],
+      [95_000, 'e', 0, pasted.length, 0, 'print(solve())'],
+      [97_000, 'run'],
+      [99_000, 'submit'],
+    ],
+  },
+};
+
+describe('AttemptReplay', () => {
+  beforeEach(() => {
+    globalThis.fetch = vi.fn().mockResolvedValue({ ok: true, json: async () => payload }) as never;
+  });
+
+  it('opens on the submitted code with the session summary', async () => {
+    render(<AttemptReplay slug="alice" attemptId="att-1" onClose={() => {}} />);
+    const code = await screen.findByTestId('replay-code');
+    expect(globalThis.fetch).toHaveBeenCalledWith('/api/trainer/alice/coding/attempts/att-1/timeline');
+    expect(code.textContent).toBe(payload.submittedCode);
+    expect(screen.getByText(/3 edits/)).toBeInTheDocument();
+    expect(screen.getByText(/1 pastes/)).toBeInTheDocument();
+    expect(screen.getByText(/longest pause 1:30/)).toBeInTheDocument();
+  });
+
+  it('scrubs back to the starter code and jumps to markers', async () => {
+    render(<AttemptReplay slug="alice" attemptId="att-1" onClose={() => {}} />);
+    const code = await screen.findByTestId('replay-code');
+
+    fireEvent.change(screen.getByLabelText('Replay position'), { target: { value: '0' } });
+    expect(code.textContent).toBe('# write here\n');
+
+    fireEvent.click(screen.getByRole('button', { name: /^Paste \d+ chars/ }));
+    expect(code.textContent).toBe(pasted);
+
+    fireEvent.click(screen.getByRole('button', { name: /^Pause 1:30/ }));
+    expect(code.textContent).toBe('');
+  });
+
+  it('shows an error when the timeline cannot be loaded', async () => {
+    globalThis.fetch = vi.fn().mockResolvedValue({ ok: false, status: 404 }) as never;
+    render(<AttemptReplay slug="alice" attemptId="att-1" onClose={() => {}} />);
+    expect(await screen.findByRole('alert')).toHaveTextContent('Timeline fetch failed (404)');
+  });
+});
@@ -8,8 +8,8 @@
  */
 
 import React from 'react';
-import { describe, it, expect } from 'vitest';
-import { render, screen } from '@testing-library/react';
+import { describe, it, expect, vi } from 'vitest';
+import { fireEvent, render, screen } from '@testing-library/react';
 import '@testing-library/jest-dom/vitest';
 import { CodingAttemptsTable } from '@/app/trainer/(dashboard)/[slug]/CodingAttemptsTable';
 import type { CodingAttemptSummary } from '@/lib/trainer-types';
@@ -24,6 +24,8 @@ function attempt(overrides: Partial<CodingAttemptSummary> = {}): CodingAttemptSu
     difficulty: 'medium',
     verdict: 'pass',
     score: 100,
+    hasTimeline: false,
+    hasReview: false,
     ...overrides,
   };
 }
@@ -105,4 +107,38 @@ describe('CodingAttemptsTable', () => {
       expect(screen.getByRole('columnheader', { name: h })).toBeInTheDocument();
     }
   });
+
+  it('offers Replay only for attempts with a recorded timeline', () => {
+    const onReplay = vi.fn();
+    render(
+      <CodingAttemptsTable
+        attempts={[
+          attempt({ id: 'r1', challengeTitle: 'Two Sum', hasTimeline: true }),
+          attempt({ id: 'r2', challengeTitle: 'Reverse String', hasTimeline: false }),
+        ]}
+        onReplay={onReplay}
+      />,
+    );
+    expect(screen.getByRole('columnheader', { name: 'Replay' })).toBeInTheDocument();
+    const buttons = screen.getAllByRole('button', { name: /Replay/ });
+    expect(buttons).toHaveLength(1);
+    fireEvent.click(buttons[0]);
+    expect(onReplay).toHaveBeenCalledWith('r1');
+  });
+
+  it('offers Review only for attempts with an AI review', () => {
+    const onReview = vi.fn();
+    render(
+      <CodingAttemptsTable
+        attempts={[
+          attempt({ id: 'r1', challengeTitle: 'Two Sum', hasReview: false }),
+          attempt({ id: 'r2', challengeTitle: 'Reverse String', hasReview: true }),
+        ]}
+        onReview={onReview}
+      />,
+    );
+    expect(screen.getByRole('columnheader', { name: 'Review' })).toBeInTheDocument();
+    fireEvent.click(screen.getByRole('button', { name: 'Review Reverse String attempt' }));
+    expect(onReview).toHaveBeenCalledWith('r2');
+  });
 });
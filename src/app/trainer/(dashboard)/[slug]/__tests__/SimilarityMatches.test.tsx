@@ -0,0 +1,70 @@
+// @vitest-environment jsdom
+/**
+ * Tests for SimilarityMatches — the flagged-submission list on the trainer
+ * coding panel. Fetch is stubbed; expanding a row renders the side-by-side
+ * diff from lineDiff.
+ */
+
+import React from 'react';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { fireEvent, render, screen } from '@testing-library/react';
+import '@testing-library/jest-dom/vitest';
+import { SimilarityMatches } from '@/app/trainer/(dashboard)/[slug]/SimilarityMatches';
+import type { AssociateSimilarityPayload } from '@/lib/trainer-types';
+
+const payload: AssociateSimilarityPayload = {
+  threshold: 0.6,
+  matches: [
+    {
+      challengeId: 'ch-1',
+      challengeSlug: 'word-count',
+      challengeTitle: 'Word Count',
+      language: 'python',
+      similarity: 0.92,
+      clusterSize: 3,
+      self: {
+        attemptId: 'a-1',
+        associateSlug: 'alice',
+        displayName: 'Alice',
+        submittedAt: '2026-05-01T12:00:00Z',
+        verdict: 'pass',
+        code: 'x = 1\nprint(x)',
+      },
+      other: {
+        attemptId: 'b-1',
+        associateSlug: 'bob',
+        displayName: 'Bob',
+        submittedAt: '2026-05-01T13:00:00Z',
+        verdict: 'pass',
+        code: 'y = 1\nprint(x)',
+      },
+    },
+  ],
+};
+
+describe('SimilarityMatches', () => {
+  beforeEach(() => {
+    globalThis.fetch = vi.fn().mockResolvedValue({ ok: true, json: async () => payload }) as never;
+  });
+
+  it('lists matches with score and cluster size, and expands a diff', async () => {
+    render(<SimilarityMatches slug="alice" />);
+    expect(await screen.findByText('92%')).toBeInTheDocument();
+    expect(screen.getByText(/matches Bob \(cluster of 3\)/)).toBeInTheDocument();
+    expect(globalThis.fetch).toHaveBeenCalledWith('/api/trainer/alice/coding/similarity');
+
+    fireEvent.click(screen.getByRole('button', { name: /compare/i }));
+    const diff = screen.getByTestId('similarity-diff');
+    expect(diff).toHaveTextContent('x = 1');
+    expect(diff).toHaveTextContent('y = 1');
+  });
+
+  it('shows the empty state when nothing is flagged', async () => {
+    globalThis.fetch = vi.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({ threshold: 0.6, matches: [] }),
+    }) as never;
+    render(<SimilarityMatches slug="alice" />);
+    expect(await screen.findByText(/No submissions closely match/)).toBeInTheDocument();
+  });
+});
@@ -6,6 +6,7 @@ import Link from 'next/link'
 import { useAuth } from '@/lib/auth-context'
 import { AssociateDetail } from '@/lib/trainer-types'
 import ReadinessDisplay from '@/components/trainer/ReadinessDisplay'
+import ReadinessExplanationPanel from '@/components/trainer/ReadinessExplanationPanel'
 import AssociateCohortSelect from './AssociateCohortSelect'
 import { AssociateDashboardClient } from '@/app/associate/[slug]/dashboard/AssociateDashboardClient'
 import { CodingPanel } from './CodingPanel'
@@ -244,6 +245,8 @@ export default function AssociateDetailPage() {
               </div>
             </div>
 
+            <ReadinessExplanationPanel explanation={detail.readinessExplanation} />
+
             {/* Associate dashboard view — same component associates see */}
             <AssociateDashboardClient
               displayName={detail.displayName}
@@ -0,0 +1,273 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { CODING_LANGUAGES } from '@/lib/coding-bank-schemas'
+
+interface CohortOption {
+  id: number
+  name: string
+}
+
+interface ChallengeOption {
+  id: string
+  title: string
+  language: string
+  cohortId: number | null
+}
+
+interface Props {
+  onCreated: () => void
+}
+
+const labelStyle = {
+  display: 'flex',
+  flexDirection: 'column' as const,
+  gap: '4px',
+  fontFamily: 'DM Sans, sans-serif',
+  fontSize: '12px',
+  color: 'var(--muted)',
+}
+
+const inputStyle = {
+  padding: '8px 10px',
+  background: 'var(--surface)',
+  border: '1px solid var(--border)',
+  borderRadius: '6px',
+  fontFamily: 'DM Sans, sans-serif',
+  fontSize: '14px',
+  color: 'var(--ink)',
+}
+
+/** `datetime-local` value (browser local time) → ISO instant. */
+function toIso(local: string): string {
+  return new Date(local).toISOString()
+}
+
+/**
+ * CreateAssessmentForm — POST /api/trainer/assessments. Challenges offered are
+ * those visible to the chosen cohort and, with a language lock, in that
+ * language; the server re-checks both.
+ */
+export function CreateAssessmentForm({ onCreated }: Props) {
+  const [cohorts, setCohorts] = useState<CohortOption[]>([])
+  const [challenges, setChallenges] = useState<ChallengeOption[]>([])
+  const [title, setTitle] = useState('')
+  const [cohortId, setCohortId] = useState<number | null>(null)
+  const [selected, setSelected] = useState<string[]>([])
+  const [opensAt, setOpensAt] = useState('')
+  const [closesAt, setClosesAt] = useState('')
+  const [durationMinutes, setDurationMinutes] = useState(60)
+  const [attemptCap, setAttemptCap] = useState(3)
+  const [language, setLanguage] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    Promise.all([
+      fetch('/api/cohorts').then((r) => (r.ok ? r.json() : [])),
+      fetch('/api/coding/challenges?limit=100').then((r) => (r.ok ? r.json() : { items: [] })),
+    ])
+      .then(([cohortRows, challengeBody]: [CohortOption[], { items: ChallengeOption[] }]) => {
+        if (cancelled) return
+        setCohorts(cohortRows)
+        setChallenges(challengeBody.items)
+      })
+      .catch(() => {
+        if (!cancelled) setError('Failed to load cohorts and challenges')
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  const available = challenges.filter(
+    (c) =>
+      (c.cohortId === null || c.cohortId === cohortId) && (!language || c.language === language),
+  )
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault()
+    if (cohortId === null) {
+      setError('Choose a cohort')
+      return
+    }
+    setSaving(true)
+    setError(null)
+    try {
+      const res = await fetch('/api/trainer/assessments', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          title,
+          cohortId,
+          challengeIds: selected.filter((id) => available.some((c) => c.id === id)),
+          opensAt: toIso(opensAt),
+          closesAt: toIso(closesAt),
+          durationMinutes,
+          attemptCap,
+          language: language || null,
+        }),
+      })
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}))
+        throw new Error((body as { error?: string }).error ?? `Request failed (${res.status})`)
+      }
+      setTitle('')
+      setSelected([])
+      onCreated()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create assessment')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      aria-label="New assessment"
+      style={{
+        display: 'grid',
+        gridTemplateColumns: 'repeat(auto-fill, minmax(200px, 1fr))',
+        gap: '16px',
+        background: 'var(--surface)',
+        border: '1px solid var(--border)',
+        borderRadius: '10px',
+        padding: '24px',
+      }}
+    >
+      <label style={{ ...labelStyle, gridColumn: '1 / -1' }}>
+        Title
+        <input required value={title} onChange={(e) => setTitle(e.target.value)} style={inputStyle} />
+      </label>
+      <label style={labelStyle}>
+        Cohort
+        <select
+          required
+          value={cohortId ?? ''}
+          onChange={(e) => setCohortId(e.target.value ? Number(e.target.value) : null)}
+          style={inputStyle}
+        >
+          <option value="">Select…</option>
+          {cohorts.map((c) => (
+            <option key={c.id} value={c.id}>
+              {c.name}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label style={labelStyle}>
+        Language lock
+        <select value={language} onChange={(e) => setLanguage(e.target.value)} style={inputStyle}>
+          <option value="">Any</option>
+          {CODING_LANGUAGES.map((l) => (
+            <option key={l} value={l}>
+              {l}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label style={labelStyle}>
+        Opens
+        <input
+          required
+          type="datetime-local"
+          value={opensAt}
+          onChange={(e) => setOpensAt(e.target.value)}
+          style={inputStyle}
+        />
+      </label>
+      <label style={labelStyle}>
+        Closes
+        <input
+          required
+          type="datetime-local"
+          value={closesAt}
+          onChange={(e) => setClosesAt(e.target.value)}
+          style={inputStyle}
+        />
+      </label>
+      <label style={labelStyle}>
+        Time limit (minutes)
+        <input
+          required
+          type="number"
+          min={5}
+          max={480}
+          value={durationMinutes}
+          onChange={(e) => setDurationMinutes(Number(e.target.value))}
+          style={inputStyle}
+        />
+      </label>
+      <label style={labelStyle}>
+        Attempts per challenge
+        <input
+          required
+          type="number"
+          min={1}
+          max={50}
+          value={attemptCap}
+          onChange={(e) => setAttemptCap(Number(e.target.value))}
+          style={inputStyle}
+        />
+      </label>
+
+      <fieldset style={{ gridColumn: '1 / -1', border: 'none', margin: 0, padding: 0 }}>
+        <legend style={{ ...labelStyle, marginBottom: '8px' }}>Challenges</legend>
+        {cohortId === null ? (
+          <p style={{ ...labelStyle, margin: 0 }}>Choose a cohort to see its challenges.</p>
+        ) : available.length === 0 ? (
+          <p style={{ ...labelStyle, margin: 0 }}>No challenges match this cohort and language.</p>
+        ) : (
+          <div style={{ display: 'flex', flexDirection: 'column', gap: '6px', maxHeight: '240px', overflow: 'auto' }}>
+            {available.map((c) => (
+              <label
+                key={c.id}
+                style={{ display: 'flex', gap: '8px', fontFamily: 'DM Sans, sans-serif', fontSize: '14px', color: 'var(--ink)' }}
+              >
+                <input
+                  type="checkbox"
+                  checked={selected.includes(c.id)}
+                  onChange={(e) =>
+                    setSelected((prev) =>
+                      e.target.checked ? [...prev, c.id] : prev.filter((id) => id !== c.id),
+                    )
+                  }
+                />
+                {c.title}
+                <span style={{ color: 'var(--muted)' }}>{c.language}</span>
+              </label>
+            ))}
+          </div>
+        )}
+      </fieldset>
+
+      {error && (
+        <p style={{ gridColumn: '1 / -1', margin: 0, fontFamily: 'DM Sans, sans-serif', fontSize: '13px', color: 'var(--danger)' }}>
+          {error}
+        </p>
+      )}
+      <div style={{ gridColumn: '1 / -1' }}>
+        <button
+          type="submit"
+          disabled={saving || selected.length === 0}
+          style={{
+            background: 'var(--accent)',
+            color: 'var(--text-on-accent)',
+            border: 'none',
+            borderRadius: '8px',
+            padding: '10px 20px',
+            fontFamily: 'DM Sans, sans-serif',
+            fontSize: '13px',
+            fontWeight: 600,
+            cursor: saving || selected.length === 0 ? 'not-allowed' : 'pointer',
+            opacity: saving || selected.length === 0 ? 0.6 : 1,
+          }}
+        >
+          {saving ? 'Creating…' : 'Create assessment'}
+        </button>
+      </div>
+    </form>
+  )
+}
@@ -0,0 +1,90 @@
+'use client'
+
+import type { AssessmentResults } from '@/lib/codingAssessmentService'
+
+interface Props {
+  results: AssessmentResults
+}
+
+const TIME_FMT = new Intl.DateTimeFormat('en-US', {
+  month: 'short',
+  day: 'numeric',
+  hour: 'numeric',
+  minute: '2-digit',
+})
+
+const cellStyle = {
+  padding: '8px 12px',
+  borderBottom: '1px solid var(--border)',
+  fontFamily: 'DM Sans, sans-serif',
+  fontSize: '13px',
+  color: 'var(--ink)',
+  textAlign: 'left' as const,
+  whiteSpace: 'nowrap' as const,
+}
+
+function scoreColor(cell: { bestScore: number | null; passed: boolean }): string {
+  if (cell.passed) return 'var(--success)'
+  if (cell.bestScore === null) return 'var(--muted)'
+  return cell.bestScore >= 50 ? 'var(--warning)' : 'var(--danger)'
+}
+
+/**
+ * AssessmentResultsGrid — associates × challenges for one assessment. Cells
+ * show the best score and attempts used; the proctor columns count tab
+ * switches and pastes during the sitting. Counts are prompts to review, not
+ * verdicts — an associate may switch tabs to read documentation.
+ */
+export function AssessmentResultsGrid({ results }: Props) {
+  const { assessment, challenges, rows } = results
+  return (
+    <div style={{ overflowX: 'auto' }}>
+      <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+        <thead>
+          <tr>
+            <th style={{ ...cellStyle, color: 'var(--muted)', fontWeight: 500 }}>Associate</th>
+            <th style={{ ...cellStyle, color: 'var(--muted)', fontWeight: 500 }}>Started</th>
+            {challenges.map((c) => (
+              <th key={c.id} style={{ ...cellStyle, color: 'var(--muted)', fontWeight: 500 }} title={c.slug}>
+                {c.title}
+              </th>
+            ))}
+            <th style={{ ...cellStyle, color: 'var(--muted)', fontWeight: 500 }}>Total</th>
+            <th style={{ ...cellStyle, color: 'var(--muted)', fontWeight: 500 }}>Tab switches</th>
+            <th style={{ ...cellStyle, color: 'var(--muted)', fontWeight: 500 }}>Pastes</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((r) => (
+            <tr key={r.associateId}>
+              <td style={cellStyle}>{r.displayName ?? r.associateSlug}</td>
+              <td style={{ ...cellStyle, color: 'var(--muted)' }}>
+                {r.startedAt ? TIME_FMT.format(new Date(r.startedAt)) : 'Not started'}
+              </td>
+              {r.cells.map((cell) => (
+                <td key={cell.challengeId} style={cellStyle}>
+                  <span style={{ color: scoreColor(cell), fontWeight: 600 }}>
+                    {cell.bestScore === null ? '—' : `${Math.round(cell.bestScore)}%`}
+                  </span>
+                  <span style={{ color: 'var(--muted)' }}>
+                    {' '}
+                    {cell.attemptsUsed}/{assessment.attemptCap}
+                  </span>
+                </td>
+              ))}
+              <td style={{ ...cellStyle, fontWeight: 600 }}>
+                {r.startedAt ? `${Math.round(r.totalScore)}%` : '—'}
+              </td>
+              <td style={{ ...cellStyle, color: r.proctor.tab_hidden > 0 ? 'var(--danger)' : 'var(--muted)' }}>
+                {r.proctor.tab_hidden}
+              </td>
+              <td style={{ ...cellStyle, color: r.proctor.paste > 0 ? 'var(--danger)' : 'var(--muted)' }}>
+                {r.proctor.paste}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
@@ -0,0 +1,84 @@
+'use client'
+
+import { use, useEffect, useState } from 'react'
+import Link from 'next/link'
+import type { AssessmentResults } from '@/lib/codingAssessmentService'
+import { AssessmentResultsGrid } from './AssessmentResultsGrid'
+
+const DATE_FMT = new Intl.DateTimeFormat('en-US', {
+  month: 'short',
+  day: 'numeric',
+  hour: 'numeric',
+  minute: '2-digit',
+})
+
+export default function AssessmentResultsPage({ params }: { params: Promise<{ id: string }> }) {
+  const { id } = use(params)
+  const [results, setResults] = useState<AssessmentResults | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    async function fetchData() {
+      try {
+        const res = await fetch(`/api/trainer/assessments/${encodeURIComponent(id)}/results`)
+        if (!res.ok) throw new Error(`Results fetch failed (${res.status})`)
+        const json: AssessmentResults = await res.json()
+        if (!cancelled) {
+          setResults(json)
+          setError(null)
+        }
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load results')
+      }
+    }
+    fetchData()
+    return () => {
+      cancelled = true
+    }
+  }, [id])
+
+  return (
+    <div style={{ maxWidth: '1280px', margin: '0 auto', padding: '48px 24px' }}>
+      <Link
+        href="/trainer/assessments"
+        style={{ fontFamily: 'DM Sans, sans-serif', fontSize: '13px', color: 'var(--accent)' }}
+      >
+        &larr; Assessments
+      </Link>
+      {error && (
+        <p style={{ fontFamily: 'DM Sans, sans-serif', fontSize: '13px', color: 'var(--danger)' }}>{error}</p>
+      )}
+      {results && (
+        <>
+          <h1
+            style={{
+              fontFamily: 'var(--font-display), "Clash Display", sans-serif',
+              fontWeight: 500,
+              fontSize: '32px',
+              color: 'var(--ink)',
+              margin: '12px 0 8px',
+              letterSpacing: '-0.01em',
+            }}
+          >
+            {results.assessment.title}
+          </h1>
+          <p
+            style={{
+              fontFamily: 'var(--font-dm-sans), "DM Sans", sans-serif',
+              fontSize: '14px',
+              color: 'var(--muted)',
+              marginBottom: '32px',
+            }}
+          >
+            {results.assessment.cohortName} &middot;{' '}
+            {DATE_FMT.format(new Date(results.assessment.opensAt))} –{' '}
+            {DATE_FMT.format(new Date(results.assessment.closesAt))} &middot;{' '}
+            {results.assessment.durationMinutes} min &middot; {results.assessment.startedCount} started
+          </p>
+          <AssessmentResultsGrid results={results} />
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,118 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import Link from 'next/link'
+import type { AssessmentSummary } from '@/lib/codingAssessmentService'
+import { CreateAssessmentForm } from './CreateAssessmentForm'
+
+const DATE_FMT = new Intl.DateTimeFormat('en-US', {
+  month: 'short',
+  day: 'numeric',
+  hour: 'numeric',
+  minute: '2-digit',
+})
+
+const cellStyle = {
+  padding: '10px 12px',
+  borderBottom: '1px solid var(--border)',
+  fontFamily: 'DM Sans, sans-serif',
+  fontSize: '14px',
+  color: 'var(--ink)',
+  textAlign: 'left' as const,
+}
+
+export default function AssessmentsPage() {
+  const [assessments, setAssessments] = useState<AssessmentSummary[] | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const load = useCallback(async () => {
+    try {
+      const res = await fetch('/api/trainer/assessments')
+      if (!res.ok) throw new Error(`Assessments fetch failed (${res.status})`)
+      const json: { assessments: AssessmentSummary[] } = await res.json()
+      setAssessments(json.assessments)
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load assessments')
+    }
+  }, [])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  return (
+    <div style={{ maxWidth: '1120px', margin: '0 auto', padding: '48px 24px' }}>
+      <h1
+        style={{
+          fontFamily: 'var(--font-display), "Clash Display", sans-serif',
+          fontWeight: 500,
+          fontSize: '32px',
+          color: 'var(--ink)',
+          marginBottom: '8px',
+          letterSpacing: '-0.01em',
+        }}
+      >
+        Assessments
+      </h1>
+      <p
+        style={{
+          fontFamily: 'var(--font-dm-sans), "DM Sans", sans-serif',
+          fontSize: '14px',
+          color: 'var(--muted)',
+          marginBottom: '32px',
+        }}
+      >
+        Timed coding assessments: a set of challenges, a window, a time limit per associate and an
+        attempt cap. Tab switches and pastes are logged for review.
+      </p>
+
+      <CreateAssessmentForm onCreated={load} />
+
+      <div style={{ marginTop: '40px' }}>
+        {error && (
+          <p style={{ fontFamily: 'DM Sans, sans-serif', fontSize: '13px', color: 'var(--danger)' }}>{error}</p>
+        )}
+        {assessments && assessments.length === 0 && (
+          <p style={{ fontFamily: 'DM Sans, sans-serif', fontSize: '14px', color: 'var(--muted)' }}>
+            No assessments yet.
+          </p>
+        )}
+        {assessments && assessments.length > 0 && (
+          <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+            <thead>
+              <tr>
+                {['Title', 'Cohort', 'Window', 'Limit', 'Challenges', 'Started', 'Status'].map((h) => (
+                  <th key={h} style={{ ...cellStyle, fontSize: '12px', color: 'var(--muted)', fontWeight: 500 }}>
+                    {h}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {assessments.map((a) => (
+                <tr key={a.id}>
+                  <td style={cellStyle}>
+                    <Link href={`/trainer/assessments/${a.id}`} style={{ color: 'var(--accent)' }}>
+                      {a.title}
+                    </Link>
+                  </td>
+                  <td style={cellStyle}>{a.cohortName}</td>
+                  <td style={cellStyle}>
+                    {DATE_FMT.format(new Date(a.opensAt))} – {DATE_FMT.format(new Date(a.closesAt))}
+                  </td>
+                  <td style={cellStyle}>
+                    {a.durationMinutes} min{a.language ? ` · ${a.language}` : ''}
+                  </td>
+                  <td style={cellStyle}>{a.challengeCount}</td>
+                  <td style={cellStyle}>{a.startedCount}</td>
+                  <td style={{ ...cellStyle, textTransform: 'capitalize' }}>{a.status}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  )
+}
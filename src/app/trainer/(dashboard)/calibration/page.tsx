@@ -13,6 +13,7 @@ import {
   ResponsiveContainer,
 } from 'recharts'
 import type { CalibrationData } from '@/lib/trainer-types'
+import { SCORING_CRITERIA } from '@/lib/types'
 
 // Recharts custom tooltip
 interface TooltipProps {
@@ -316,6 +317,110 @@ function CalibrationPageInner() {
               Positive delta = trainer raised AI score. Negative = trainer lowered.
             </p>
           </div>
+
+          {/* Section 3 — Per-Criterion Calibration */}
+          <div style={{ marginTop: '32px' }}>
+            <h2
+              style={{
+                fontFamily: 'var(--font-dm-sans), "DM Sans", sans-serif',
+                fontWeight: 500,
+                fontSize: '16px',
+                color: 'var(--ink)',
+                marginBottom: '16px',
+              }}
+            >
+              AI Rubric vs Trainer Score
+            </h2>
+            {SCORING_CRITERIA.every((c) => !data?.criterionCalibration?.[c]) ? (
+              <p
+                style={{
+                  fontFamily: 'var(--font-dm-sans), "DM Sans", sans-serif',
+                  fontSize: '14px',
+                  color: 'var(--muted)',
+                  margin: 0,
+                }}
+              >
+                No rubric-scored questions yet.
+              </p>
+            ) : (
+              <table
+                style={{
+                  width: '100%',
+                  borderCollapse: 'collapse',
+                  fontFamily: 'var(--font-dm-sans), "DM Sans", sans-serif',
+                  fontSize: '14px',
+                  fontVariantNumeric: 'tabular-nums',
+                }}
+              >
+                <thead>
+                  <tr>
+                    {['Criterion', 'Avg AI', 'Avg Delta', 'Questions'].map((label, i) => (
+                      <th
+                        key={label}
+                        style={{
+                          textAlign: i === 0 ? 'left' : 'right',
+                          fontSize: '11px',
+                          fontFamily: 'JetBrains Mono, monospace',
+                          fontWeight: 500,
+                          textTransform: 'uppercase',
+                          letterSpacing: '0.07em',
+                          color: 'var(--muted)',
+                          borderBottom: '1px solid var(--border)',
+                          padding: '8px 0',
+                        }}
+                      >
+                        {label}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {SCORING_CRITERIA.map((criterion) => {
+                    const row = data?.criterionCalibration?.[criterion]
+                    const delta = row?.meanDelta ?? null
+                    return (
+                      <tr key={criterion}>
+                        <td style={{ padding: '10px 0', borderBottom: '1px solid var(--border-subtle)', color: 'var(--ink)', textTransform: 'capitalize' }}>
+                          {criterion}
+                        </td>
+                        <td style={{ padding: '10px 0', borderBottom: '1px solid var(--border-subtle)', textAlign: 'right', color: 'var(--ink)' }}>
+                          {row ? row.meanAiScore.toFixed(1) : '---'}
+                        </td>
+                        <td
+                          style={{
+                            padding: '10px 0',
+                            borderBottom: '1px solid var(--border-subtle)',
+                            textAlign: 'right',
+                            color:
+                              delta === null || delta === 0
+                                ? 'var(--muted)'
+                                : delta > 0
+                                  ? 'var(--success)'
+                                  : 'var(--danger)',
+                          }}
+                        >
+                          {delta === null ? '---' : `${delta > 0 ? '+' : ''}${delta.toFixed(1)}`}
+                        </td>
+                        <td style={{ padding: '10px 0', borderBottom: '1px solid var(--border-subtle)', textAlign: 'right', color: 'var(--muted)' }}>
+                          {row?.count ?? 0}
+                        </td>
+                      </tr>
+                    )
+                  })}
+                </tbody>
+              </table>
+            )}
+            <p
+              style={{
+                fontFamily: 'var(--font-dm-sans), "DM Sans", sans-serif',
+                fontSize: '12px',
+                color: 'var(--muted)',
+                margin: '8px 0 0',
+              }}
+            >
+              Delta = trainer overall score minus AI criterion score. A criterion with a consistently positive delta is under-rated by the AI.
+            </p>
+          </div>
         </>
       )}
     </div>
@@ -0,0 +1,702 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { ChallengePrompt } from '@/components/coding/ChallengePrompt'
+import { CODING_LANGUAGES, SQL_DIALECTS, type CodingLanguage, type SqlDialect } from '@/lib/coding-bank-schemas'
+import { describeSchema } from '@/lib/sqlSchemaPreview'
+import type { ChallengeDraft, DryRunResult, PublishResult } from '@/lib/challengeAuthoring'
+
+interface CohortOption {
+  id: number
+  name: string
+}
+
+export interface WizardForm {
+  slug: string
+  title: string
+  difficulty: 'easy' | 'medium' | 'hard'
+  skillSlug: string
+  /** '' = global */
+  cohortId: string
+  languages: CodingLanguage[]
+  type: 'stdio' | 'function'
+  /** JSON text of meta.entryPoint (function challenges) */
+  entryPoint: string
+  readme: string
+  starters: Partial<Record<CodingLanguage, string>>
+  /** JSON text of visible-tests.json / hidden-tests.json */
+  visibleTests: string
+  hiddenTests: string
+  setupSql: string
+  /** SQL challenges: engine the tests are graded on */
+  sqlDialect: SqlDialect
+  referenceLanguage: CodingLanguage | ''
+  referenceCode: string
+}
+
+const STEPS = ['Details', 'Prompt', 'Starters', 'Tests', 'Dry run & publish'] as const
+
+export const INITIAL_FORM: WizardForm = {
+  slug: '',
+  title: '',
+  difficulty: 'easy',
+  skillSlug: '',
+  cohortId: '',
+  languages: ['python'],
+  type: 'stdio',
+  entryPoint: JSON.stringify({ name: 'solve', params: [{ name: 'nums', type: 'int[]' }], returns: 'int' }, null, 2),
+  readme: '# Title\n\nProblem statement.\n\n## Input\n\n## Output\n\n## Example\n',
+  starters: {},
+  visibleTests: JSON.stringify([{ id: 'vis-1', stdin: '', expectedStdout: '', orderIndex: 0 }], null, 2),
+  hiddenTests: JSON.stringify([{ id: 'hid-1', stdin: '', expectedStdout: '', orderIndex: 0 }], null, 2),
+  setupSql: '',
+  sqlDialect: 'sqlite',
+  referenceLanguage: '',
+  referenceCode: '',
+}
+
+function parseJsonField(text: string, label: string): unknown {
+  try {
+    return JSON.parse(text)
+  } catch {
+    throw new Error(`${label} is not valid JSON`)
+  }
+}
+
+/**
+ * Form → the draft the /api/coding/bank/author routes take. Only JSON syntax
+ * is checked here; everything else is the server validator's call, so the
+ * wizard and a bank refresh can never disagree.
+ */
+export function buildDraft(form: WizardForm): { draft: ChallengeDraft } | { error: string } {
+  try {
+    const starters: Record<string, string> = {}
+    for (const lang of form.languages) starters[lang] = form.starters[lang] ?? ''
+    const meta: Record<string, unknown> = {
+      slug: form.slug.trim(),
+      title: form.title.trim(),
+      difficulty: form.difficulty,
+      skillSlug: form.skillSlug.trim(),
+      cohortId: form.cohortId === '' ? null : Number(form.cohortId),
+      languages: form.languages,
+    }
+    if (form.type === 'function') {
+      meta.type = 'function'
+      meta.entryPoint = parseJsonField(form.entryPoint, 'Entry point')
+    }
+    // SQLite is the bank default, so only Postgres is written to meta.json.
+    if (form.languages.includes('sql') && form.sqlDialect === 'postgres') meta.sqlDialect = 'postgres'
+    return {
+      draft: {
+        meta,
+        readme: form.readme,
+        starters,
+        visibleTests: parseJsonField(form.visibleTests, 'Visible tests'),
+        hiddenTests: parseJsonField(form.hiddenTests, 'Hidden tests'),
+        ...(form.languages.includes('sql') ? { setupSql: form.setupSql } : {}),
+      },
+    }
+  } catch (err) {
+    return { error: err instanceof Error ? err.message : 'Invalid draft' }
+  }
+}
+
+async function readError(res: Response): Promise<string> {
+  try {
+    const body: { message?: string } = await res.json()
+    return body.message ?? `Request failed (${res.status})`
+  } catch {
+    return `Request failed (${res.status})`
+  }
+}
+
+const labelStyle = {
+  display: 'flex',
+  flexDirection: 'column' as const,
+  gap: '4px',
+  fontFamily: 'DM Sans, sans-serif',
+  fontSize: '12px',
+  color: 'var(--muted)',
+}
+
+const inputStyle = {
+  padding: '8px 10px',
+  background: 'var(--surface)',
+  border: '1px solid var(--border)',
+  borderRadius: '6px',
+  fontFamily: 'DM Sans, sans-serif',
+  fontSize: '14px',
+  color: 'var(--ink)',
+}
+
+const codeStyle = {
+  ...inputStyle,
+  fontFamily: "'JetBrains Mono', monospace",
+  fontSize: '12px',
+  lineHeight: '18px',
+  minHeight: '220px',
+  resize: 'vertical' as const,
+}
+
+const cellStyle = {
+  padding: '6px 10px',
+  borderBottom: '1px solid var(--border)',
+  fontFamily: 'DM Sans, sans-serif',
+  fontSize: '13px',
+  color: 'var(--ink)',
+  textAlign: 'left' as const,
+}
+
+function buttonStyle(primary: boolean, disabled: boolean) {
+  return {
+    background: primary ? 'var(--accent)' : 'var(--surface)',
+    color: primary ? 'var(--text-on-accent)' : 'var(--ink)',
+    border: primary ? 'none' : '1px solid var(--border)',
+    borderRadius: '8px',
+    padding: '8px 16px',
+    fontFamily: 'DM Sans, sans-serif',
+    fontSize: '13px',
+    fontWeight: 600,
+    cursor: disabled ? 'not-allowed' : 'pointer',
+    opacity: disabled ? 0.6 : 1,
+  }
+}
+
+/**
+ * ChallengeAuthoringWizard — author a coding challenge in the app instead of
+ * hand-editing two repos. Each step edits one part of `challenges/<slug>/`;
+ * the last step validates it with the bank's own validator, dry-runs a
+ * reference solution against every test (hidden included) and then either
+ * commits to both repos or downloads a zip. Publish unlocks only after a
+ * fully passing dry run of the current draft — any edit invalidates it — and
+ * the publish route repeats that dry run before committing.
+ */
+export function ChallengeAuthoringWizard() {
+  const [form, setForm] = useState<WizardForm>(INITIAL_FORM)
+  const [step, setStep] = useState(0)
+  const [cohorts, setCohorts] = useState<CohortOption[]>([])
+  const [busy, setBusy] = useState<'validate' | 'dry-run' | 'publish' | 'export' | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [validation, setValidation] = useState<{
+    key: string
+    files: { public: string[]; private: string[] }
+    publishConfigured: boolean
+  } | null>(null)
+  const [dryRun, setDryRun] = useState<{ key: string; result: DryRunResult } | null>(null)
+  const [published, setPublished] = useState<PublishResult | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    fetch('/api/cohorts')
+      .then((r) => (r.ok ? r.json() : []))
+      .then((rows: CohortOption[]) => {
+        if (!cancelled) setCohorts(rows)
+      })
+      .catch(() => {})
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  const built = buildDraft(form)
+  const reference =
+    form.referenceLanguage && form.referenceCode.trim()
+      ? { language: form.referenceLanguage, code: form.referenceCode }
+      : null
+  const draftKey = 'draft' in built ? JSON.stringify(built.draft) : null
+  const runKey = draftKey && reference ? JSON.stringify([draftKey, reference]) : null
+  const currentValidation = validation && validation.key === draftKey ? validation : null
+  const currentDryRun = dryRun && dryRun.key === runKey ? dryRun.result : null
+  const dryRunPassed =
+    currentDryRun !== null && currentDryRun.resolved && currentDryRun.passed === currentDryRun.total
+
+  function update<K extends keyof WizardForm>(key: K, value: WizardForm[K]) {
+    setForm((f) => ({ ...f, [key]: value }))
+    setPublished(null)
+  }
+
+  function toggleLanguage(lang: CodingLanguage) {
+    const next = form.languages.includes(lang)
+      ? form.languages.filter((l) => l !== lang)
+      : [...form.languages, lang]
+    update('languages', next)
+  }
+
+  async function post(path: string, body: unknown): Promise<Response> {
+    return fetch(`/api/coding/bank/author/${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    })
+  }
+
+  async function handleValidate() {
+    if (!('draft' in built) || !draftKey) return
+    setBusy('validate')
+    setError(null)
+    try {
+      const res = await post('validate', { draft: built.draft })
+      if (!res.ok) {
+        setError(await readError(res))
+        return
+      }
+      const json: { files: { public: string[]; private: string[] }; publishConfigured: boolean } =
+        await res.json()
+      setValidation({ key: draftKey, ...json })
+    } catch {
+      setError('Validation request failed')
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  async function handleDryRun() {
+    if (!('draft' in built) || !reference || !runKey) return
+    setBusy('dry-run')
+    setError(null)
+    try {
+      const res = await post('dry-run', { draft: built.draft, reference })
+      if (!res.ok) {
+        setError(await readError(res))
+        return
+      }
+      const result: DryRunResult = await res.json()
+      setDryRun({ key: runKey, result })
+    } catch {
+      setError('Dry run request failed')
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  async function handlePublish() {
+    if (!('draft' in built) || !reference || !runKey) return
+    setBusy('publish')
+    setError(null)
+    try {
+      const res = await post('publish', { draft: built.draft, reference })
+      if (!res.ok) {
+        // The server re-runs the reference; show its results if they differ.
+        const body: { message?: string; result?: DryRunResult } = await res.json().catch(() => ({}))
+        if (body.result) setDryRun({ key: runKey, result: body.result })
+        setError(body.message ?? `Request failed (${res.status})`)
+        return
+      }
+      setPublished(await res.json())
+    } catch {
+      setError('Publish request failed')
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  async function handleExport() {
+    if (!('draft' in built)) return
+    setBusy('export')
+    setError(null)
+    try {
+      const res = await post('export', { draft: built.draft })
+      if (!res.ok) {
+        setError(await readError(res))
+        return
+      }
+      const url = URL.createObjectURL(await res.blob())
+      const a = document.createElement('a')
+      a.href = url
+      a.download = `${form.slug.trim() || 'challenge'}.zip`
+      a.click()
+      URL.revokeObjectURL(url)
+    } catch {
+      setError('Export request failed')
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '24px' }}>
+      <div role="tablist" aria-label="Wizard steps" style={{ display: 'flex', gap: '6px', flexWrap: 'wrap' }}>
+        {STEPS.map((label, i) => (
+          <button
+            key={label}
+            type="button"
+            role="tab"
+            aria-selected={i === step}
+            onClick={() => setStep(i)}
+            style={{
+              ...buttonStyle(false, false),
+              fontWeight: i === step ? 600 : 400,
+              borderColor: i === step ? 'var(--accent)' : 'var(--border)',
+            }}
+          >
+            {i + 1}. {label}
+          </button>
+        ))}
+      </div>
+
+      {step === 0 && (
+        <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(220px, 1fr))', gap: '16px' }}>
+          <label style={labelStyle}>
+            Slug
+            <input value={form.slug} onChange={(e) => update('slug', e.target.value)} style={inputStyle} />
+          </label>
+          <label style={labelStyle}>
+            Title
+            <input value={form.title} onChange={(e) => update('title', e.target.value)} style={inputStyle} />
+          </label>
+          <label style={labelStyle}>
+            Difficulty
+            <select
+              value={form.difficulty}
+              onChange={(e) => update('difficulty', e.target.value as WizardForm['difficulty'])}
+              style={inputStyle}
+            >
+              <option value="easy">Easy</option>
+              <option value="medium">Medium</option>
+              <option value="hard">Hard</option>
+            </select>
+          </label>
+          <label style={labelStyle}>
+            Skill slug
+            <input value={form.skillSlug} onChange={(e) => update('skillSlug', e.target.value)} style={inputStyle} />
+          </label>
+          <label style={labelStyle}>
+            Cohort
+            <select value={form.cohortId} onChange={(e) => update('cohortId', e.target.value)} style={inputStyle}>
+              <option value="">All cohorts</option>
+              {cohorts.map((c) => (
+                <option key={c.id} value={String(c.id)}>
+                  {c.name}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label style={labelStyle}>
+            Type
+            <select
+              value={form.type}
+              onChange={(e) => update('type', e.target.value as WizardForm['type'])}
+              style={inputStyle}
+            >
+              <option value="stdio">stdin / stdout</option>
+              <option value="function">Function</option>
+            </select>
+          </label>
+          {form.languages.includes('sql') && (
+            <label style={labelStyle}>
+              SQL dialect
+              <select
+                value={form.sqlDialect}
+                onChange={(e) => update('sqlDialect', e.target.value as SqlDialect)}
+                style={inputStyle}
+              >
+                {SQL_DIALECTS.map((d) => (
+                  <option key={d} value={d}>
+                    {d === 'postgres' ? 'PostgreSQL' : 'SQLite'}
+                  </option>
+                ))}
+              </select>
+            </label>
+          )}
+          <fieldset style={{ gridColumn: '1 / -1', border: 'none', margin: 0, padding: 0 }}>
+            <legend style={{ ...labelStyle, marginBottom: '8px' }}>Languages</legend>
+            <div style={{ display: 'flex', gap: '16px', flexWrap: 'wrap' }}>
+              {CODING_LANGUAGES.map((lang) => (
+                <label
+                  key={lang}
+                  style={{ display: 'flex', gap: '6px', fontFamily: 'DM Sans, sans-serif', fontSize: '14px', color: 'var(--ink)' }}
+                >
+                  <input
+                    type="checkbox"
+                    checked={form.languages.includes(lang)}
+                    onChange={() => toggleLanguage(lang)}
+                  />
+                  {lang}
+                </label>
+              ))}
+            </div>
+          </fieldset>
+          {form.type === 'function' && (
+            <label style={{ ...labelStyle, gridColumn: '1 / -1' }}>
+              Entry point (JSON)
+              <textarea
+                value={form.entryPoint}
+                onChange={(e) => update('entryPoint', e.target.value)}
+                style={{ ...codeStyle, minHeight: '140px' }}
+                spellCheck={false}
+              />
+            </label>
+          )}
+        </div>
+      )}
+
+      {step === 1 && (
+        <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '16px' }}>
+          <label style={labelStyle}>
+            README.md
+            <textarea
+              value={form.readme}
+              onChange={(e) => update('readme', e.target.value)}
+              style={{ ...codeStyle, minHeight: '420px' }}
+              spellCheck={false}
+            />
+          </label>
+          <div style={{ ...labelStyle, gap: '8px' }}>
+            Preview
+            <div
+              style={{
+                padding: '12px 16px',
+                border: '1px solid var(--border)',
+                borderRadius: '6px',
+                background: 'var(--surface)',
+                overflow: 'auto',
+                maxHeight: '420px',
+              }}
+            >
+              <ChallengePrompt
+                markdown={form.readme}
+                schema={form.languages.includes('sql') ? describeSchema(form.setupSql) : null}
+              />
+            </div>
+          </div>
+        </div>
+      )}
+
+      {step === 2 && (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '16px' }}>
+          {form.languages.length === 0 && (
+            <p style={{ ...labelStyle, margin: 0 }}>Choose at least one language under Details.</p>
+          )}
+          {form.languages.map((lang) => (
+            <label key={lang} style={labelStyle}>
+              Starter — {lang}
+              <textarea
+                value={form.starters[lang] ?? ''}
+                onChange={(e) => update('starters', { ...form.starters, [lang]: e.target.value })}
+                style={codeStyle}
+                spellCheck={false}
+              />
+            </label>
+          ))}
+        </div>
+      )}
+
+      {step === 3 && (
+        <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '16px' }}>
+          <label style={labelStyle}>
+            visible-tests.json (shown to associates)
+            <textarea
+              value={form.visibleTests}
+              onChange={(e) => update('visibleTests', e.target.value)}
+              style={{ ...codeStyle, minHeight: '320px' }}
+              spellCheck={false}
+            />
+          </label>
+          <label style={labelStyle}>
+            hidden-tests.json (private repo only)
+            <textarea
+              value={form.hiddenTests}
+              onChange={(e) => update('hiddenTests', e.target.value)}
+              style={{ ...codeStyle, minHeight: '320px' }}
+              spellCheck={false}
+            />
+          </label>
+          {form.languages.includes('sql') && (
+            <label style={{ ...labelStyle, gridColumn: '1 / -1' }}>
+              setup.sql (schema + seed, server-only)
+              <textarea
+                value={form.setupSql}
+                onChange={(e) => update('setupSql', e.target.value)}
+                style={codeStyle}
+                spellCheck={false}
+              />
+            </label>
+          )}
+        </div>
+      )}
+
+      {step === 4 && (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '16px' }}>
+          <div style={{ display: 'flex', gap: '12px', alignItems: 'center' }}>
+            <button
+              type="button"
+              onClick={handleValidate}
+              disabled={busy !== null || !('draft' in built)}
+              style={buttonStyle(false, busy !== null || !('draft' in built))}
+            >
+              {busy === 'validate' ? 'Validating…' : 'Validate'}
+            </button>
+            {currentValidation && (
+              <span style={{ ...labelStyle, color: 'var(--success)' }}>
+                Valid — {currentValidation.files.public.length} public file(s), hidden tests to the private repo
+              </span>
+            )}
+          </div>
+          {currentValidation && (
+            <ul aria-label="Files to commit" style={{ margin: 0, paddingLeft: '18px', ...labelStyle, gap: '2px' }}>
+              {currentValidation.files.public.map((p) => (
+                <li key={p}>public: {p}</li>
+              ))}
+              {currentValidation.files.private.map((p) => (
+                <li key={p}>private: {p}</li>
+              ))}
+            </ul>
+          )}
+
+          <div style={{ display: 'grid', gridTemplateColumns: '200px 1fr', gap: '16px' }}>
+            <label style={labelStyle}>
+              Reference language
+              <select
+                value={form.referenceLanguage}
+                onChange={(e) => update('referenceLanguage', e.target.value as WizardForm['referenceLanguage'])}
+                style={inputStyle}
+              >
+                <option value="">Choose…</option>
+                {form.languages.map((lang) => (
+                  <option key={lang} value={lang}>
+                    {lang}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label style={labelStyle}>
+              Reference solution
+              <textarea
+                value={form.referenceCode}
+                onChange={(e) => update('referenceCode', e.target.value)}
+                style={codeStyle}
+                spellCheck={false}
+              />
+            </label>
+          </div>
+
+          <div>
+            <button
+              type="button"
+              onClick={handleDryRun}
+              disabled={busy !== null || runKey === null}
+              style={buttonStyle(false, busy !== null || runKey === null)}
+            >
+              {busy === 'dry-run' ? 'Running…' : 'Dry run against all tests'}
+            </button>
+          </div>
+
+          {currentDryRun && (
+            <div data-testid="dry-run-results">
+              <p
+                style={{
+                  ...labelStyle,
+                  fontSize: '13px',
+                  margin: '0 0 8px 0',
+                  color: dryRunPassed ? 'var(--success)' : 'var(--danger)',
+                }}
+              >
+                {currentDryRun.passed}/{currentDryRun.total} tests passed
+                {!currentDryRun.resolved && ' — some cases did not finish in time'}
+              </p>
+              <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+                <thead>
+                  <tr>
+                    {['Test', 'Set', 'Verdict', 'Time', 'Output'].map((h) => (
+                      <th key={h} style={{ ...cellStyle, fontSize: '12px', color: 'var(--muted)', fontWeight: 500 }}>
+                        {h}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {currentDryRun.cases.map((c) => (
+                    <tr key={c.caseId}>
+                      <td style={cellStyle}>{c.caseId}</td>
+                      <td style={cellStyle}>{c.hidden ? 'hidden' : 'visible'}</td>
+                      <td style={{ ...cellStyle, color: c.passed ? 'var(--success)' : 'var(--danger)' }}>
+                        {c.verdict}
+                      </td>
+                      <td style={cellStyle}>{c.timeMs === null ? '—' : `${c.timeMs} ms`}</td>
+                      <td style={{ ...cellStyle, fontFamily: "'JetBrains Mono', monospace", fontSize: '12px' }}>
+                        {c.reason ?? c.compileOutput ?? c.stderr ?? c.stdout ?? ''}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          <div style={{ display: 'flex', gap: '12px', alignItems: 'center' }}>
+            <button
+              type="button"
+              onClick={handlePublish}
+              disabled={busy !== null || !dryRunPassed || currentValidation?.publishConfigured === false}
+              style={buttonStyle(
+                true,
+                busy !== null || !dryRunPassed || currentValidation?.publishConfigured === false,
+              )}
+            >
+              {busy === 'publish' ? 'Publishing…' : 'Publish to challenge repos'}
+            </button>
+            <button
+              type="button"
+              onClick={handleExport}
+              disabled={busy !== null || !('draft' in built)}
+              style={buttonStyle(false, busy !== null || !('draft' in built))}
+            >
+              {busy === 'export' ? 'Exporting…' : 'Export zip'}
+            </button>
+            {!dryRunPassed && (
+              <span style={labelStyle}>Publishing unlocks once the reference solution passes every test.</span>
+            )}
+            {currentValidation?.publishConfigured === false && (
+              <span style={labelStyle}>Repo publishing is not configured — export a zip instead.</span>
+            )}
+          </div>
+
+          {published && (
+            <div role="status" style={{ ...labelStyle, fontSize: '13px', color: 'var(--ink)', gap: '4px' }}>
+              <span>
+                Published <strong>{published.slug}</strong> —{' '}
+                <a href={published.privateCommit.url} style={{ color: 'var(--accent)' }}>
+                  private commit
+                </a>
+                ,{' '}
+                <a href={published.publicCommit.url} style={{ color: 'var(--accent)' }}>
+                  public commit
+                </a>
+              </span>
+              <span style={{ color: 'var(--muted)' }}>
+                {published.synced
+                  ? 'Synced — the challenge is live.'
+                  : `Committed, but the sync failed (${published.syncError ?? 'unknown'}); run a bank refresh shortly.`}
+              </span>
+            </div>
+          )}
+        </div>
+      )}
+
+      {('error' in built || error) && (
+        <p role="alert" style={{ margin: 0, fontFamily: 'DM Sans, sans-serif', fontSize: '13px', color: 'var(--danger)' }}>
+          {'error' in built ? built.error : error}
+        </p>
+      )}
+
+      <div style={{ display: 'flex', gap: '12px' }}>
+        <button
+          type="button"
+          onClick={() => setStep((s) => s - 1)}
+          disabled={step === 0}
+          style={buttonStyle(false, step === 0)}
+        >
+          Back
+        </button>
+        <button
+          type="button"
+          onClick={() => setStep((s) => s + 1)}
+          disabled={step === STEPS.length - 1}
+          style={buttonStyle(false, step === STEPS.length - 1)}
+        >
+          Next
+        </button>
+      </div>
+    </div>
+  )
+}
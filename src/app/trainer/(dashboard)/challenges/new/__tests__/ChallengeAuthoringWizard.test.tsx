@@ -0,0 +1,136 @@
+// @vitest-environment jsdom
+/**
+ * Tests for ChallengeAuthoringWizard — draft assembly from the form, and the
+ * publish gate: a fully passing dry run of the current draft unlocks it, and
+ * any later edit locks it again.
+ */
+
+import React from 'react';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { fireEvent, render, screen, waitFor } from '@testing-library/react';
+import '@testing-library/jest-dom/vitest';
+import {
+  ChallengeAuthoringWizard,
+  INITIAL_FORM,
+  buildDraft,
+} from '@/app/trainer/(dashboard)/challenges/new/ChallengeAuthoringWizard';
+
+const passing = {
+  resolved: true,
+  passed: 2,
+  total: 2,
+  cases: [
+    { caseId: 'vis-1', hidden: false, verdict: 'pass', passed: true, stdout: '3', stderr: null, compileOutput: null, timeMs: 10 },
+    { caseId: 'hid-1', hidden: true, verdict: 'pass', passed: true, stdout: '42', stderr: null, compileOutput: null, timeMs: 12 },
+  ],
+};
+
+function json(body: unknown, ok = true) {
+  return { ok, status: ok ? 200 : 422, json: async () => body };
+}
+
+describe('buildDraft', () => {
+  it('assembles meta, starters for the chosen languages and parsed tests', () => {
+    const result = buildDraft({
+      ...INITIAL_FORM,
+      slug: ' echo-sum ',
+      cohortId: '4',
+      languages: ['python', 'sql'],
+      starters: { python: 'pass', java: 'ignored' },
+      setupSql: 'CREATE TABLE t (x int);',
+    });
+    expect(result).toMatchObject({
+      draft: {
+        meta: { slug: 'echo-sum', cohortId: 4, languages: ['python', 'sql'] },
+        starters: { python: 'pass', sql: '' },
+        visibleTests: [{ id: 'vis-1' }],
+        setupSql: 'CREATE TABLE t (x int);',
+      },
+    });
+    expect('draft' in result && result.draft.meta).not.toHaveProperty('type');
+  });
+
+  it('writes sqlDialect only for Postgres SQL challenges', () => {
+    const pg = buildDraft({ ...INITIAL_FORM, languages: ['sql'], sqlDialect: 'postgres' });
+    expect('draft' in pg && pg.draft.meta).toMatchObject({ sqlDialect: 'postgres' });
+    const lite = buildDraft({ ...INITIAL_FORM, languages: ['sql'] });
+    expect('draft' in lite && lite.draft.meta).not.toHaveProperty('sqlDialect');
+    const python = buildDraft({ ...INITIAL_FORM, sqlDialect: 'postgres' });
+    expect('draft' in python && python.draft.meta).not.toHaveProperty('sqlDialect');
+  });
+
+  it('reports which JSON field does not parse', () => {
+    expect(buildDraft({ ...INITIAL_FORM, hiddenTests: '[{' })).toEqual({ error: 'Hidden tests is not valid JSON' });
+    expect(buildDraft({ ...INITIAL_FORM, type: 'function', entryPoint: 'nope' })).toEqual({
+      error: 'Entry point is not valid JSON',
+    });
+  });
+});
+
+describe('ChallengeAuthoringWizard', () => {
+  beforeEach(() => {
+    globalThis.fetch = vi.fn(async (url: string) => {
+      if (url === '/api/cohorts') return json([]);
+      if (url.endsWith('/dry-run')) return json(passing);
+      if (url.endsWith('/publish')) {
+        return json({
+          slug: 'echo-sum',
+          synced: true,
+          privateCommit: { sha: 'a', url: 'https://github.com/org/private/commit/a' },
+          publicCommit: { sha: 'b', url: 'https://github.com/org/public/commit/b' },
+        });
+      }
+      return json({ message: 'unexpected' }, false);
+    }) as never;
+  });
+
+  it('unlocks publish after a passing dry run and locks it again on edit', async () => {
+    render(<ChallengeAuthoringWizard />);
+    fireEvent.click(screen.getByRole('tab', { name: /Dry run & publish/ }));
+
+    const publish = screen.getByRole('button', { name: 'Publish to challenge repos' });
+    expect(publish).toBeDisabled();
+
+    fireEvent.change(screen.getByLabelText('Reference language'), { target: { value: 'python' } });
+    fireEvent.change(screen.getByLabelText('Reference solution'), { target: { value: 'print(3)' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Dry run against all tests' }));
+
+    expect(await screen.findByText('2/2 tests passed')).toBeInTheDocument();
+    expect(screen.getByText('hidden')).toBeInTheDocument();
+    expect(publish).toBeEnabled();
+
+    fireEvent.change(screen.getByLabelText('Reference solution'), { target: { value: 'print(4)' } });
+    expect(screen.queryByTestId('dry-run-results')).not.toBeInTheDocument();
+    expect(publish).toBeDisabled();
+  });
+
+  it('publishes the draft and links both commits', async () => {
+    render(<ChallengeAuthoringWizard />);
+    fireEvent.click(screen.getByRole('tab', { name: /Dry run & publish/ }));
+    fireEvent.change(screen.getByLabelText('Reference language'), { target: { value: 'python' } });
+    fireEvent.change(screen.getByLabelText('Reference solution'), { target: { value: 'print(3)' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Dry run against all tests' }));
+    await screen.findByText('2/2 tests passed');
+
+    fireEvent.click(screen.getByRole('button', { name: 'Publish to challenge repos' }));
+    await waitFor(() => expect(screen.getByRole('status')).toHaveTextContent('Synced'));
+    expect(screen.getByRole('link', { name: 'public commit' })).toHaveAttribute(
+      'href',
+      'https://github.com/org/public/commit/b',
+    );
+    const publishCall = (globalThis.fetch as ReturnType<typeof vi.fn>).mock.calls.find(([u]) =>
+      String(u).endsWith('/publish'),
+    );
+    expect(JSON.parse(publishCall?.[1].body).draft.meta.languages).toEqual(['python']);
+  });
+
+  it('shows the server validator message', async () => {
+    (globalThis.fetch as ReturnType<typeof vi.fn>).mockImplementation(async (url: string) =>
+      url === '/api/cohorts' ? json([]) : json({ message: 'meta.slug: slug must match' }, false),
+    );
+    render(<ChallengeAuthoringWizard />);
+    fireEvent.click(screen.getByRole('tab', { name: /Dry run & publish/ }));
+    fireEvent.click(screen.getByRole('button', { name: 'Validate' }));
+    expect(await screen.findByRole('alert')).toHaveTextContent('meta.slug: slug must match');
+  });
+});
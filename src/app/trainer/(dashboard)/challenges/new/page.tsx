@@ -0,0 +1,35 @@
+'use client'
+
+import { ChallengeAuthoringWizard } from './ChallengeAuthoringWizard'
+
+export default function NewChallengePage() {
+  return (
+    <div style={{ maxWidth: '1120px', margin: '0 auto', padding: '48px 24px' }}>
+      <h1
+        style={{
+          fontFamily: 'var(--font-display), "Clash Display", sans-serif',
+          fontWeight: 500,
+          fontSize: '32px',
+          color: 'var(--ink)',
+          marginBottom: '8px',
+          letterSpacing: '-0.01em',
+        }}
+      >
+        New Challenge
+      </h1>
+      <p
+        style={{
+          fontFamily: 'var(--font-dm-sans), "DM Sans", sans-serif',
+          fontSize: '14px',
+          color: 'var(--muted)',
+          marginBottom: '32px',
+        }}
+      >
+        Author a coding challenge, check it with the bank validator, dry-run a reference solution
+        against every test, then commit it to both challenge repos or download it as a zip.
+      </p>
+
+      <ChallengeAuthoringWizard />
+    </div>
+  )
+}
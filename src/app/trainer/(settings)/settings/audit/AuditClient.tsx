@@ -0,0 +1,259 @@
+'use client'
+
+import { useState } from 'react'
+import type { AuditEventRow } from '@/lib/auditLog'
+
+interface AuditPage {
+  events: AuditEventRow[]
+  nextCursor: string | null
+}
+
+interface Props {
+  initialPage: AuditPage
+  actions: string[]
+}
+
+interface Filters {
+  actor: string
+  action: string
+  targetType: string
+  targetId: string
+  from: string
+  to: string
+}
+
+const EMPTY_FILTERS: Filters = { actor: '', action: '', targetType: '', targetId: '', from: '', to: '' }
+
+const FONT = "var(--font-dm-sans), 'DM Sans', sans-serif"
+const MONO = "var(--font-jetbrains-mono), 'JetBrains Mono', monospace"
+
+const inputStyle: React.CSSProperties = {
+  width: '100%',
+  padding: '8px 12px',
+  border: '1px solid var(--border)',
+  borderRadius: '8px',
+  backgroundColor: 'var(--surface)',
+  color: 'var(--ink)',
+  fontFamily: FONT,
+  fontSize: '14px',
+  boxSizing: 'border-box',
+}
+
+const labelStyle: React.CSSProperties = {
+  display: 'block',
+  fontSize: '12px',
+  fontWeight: 600,
+  color: 'var(--muted)',
+  textTransform: 'uppercase',
+  letterSpacing: '0.05em',
+  marginBottom: '6px',
+}
+
+function toQuery(filters: Filters, cursor?: string): string {
+  const params = new URLSearchParams()
+  for (const [key, value] of Object.entries(filters)) {
+    if (value.trim()) params.set(key, value.trim())
+  }
+  if (cursor) params.set('cursor', cursor)
+  return params.toString()
+}
+
+function formatChange(value: unknown): string {
+  if (value === null || value === undefined) return '—'
+  return JSON.stringify(value)
+}
+
+export default function AuditClient({ initialPage, actions }: Props) {
+  const [events, setEvents] = useState<AuditEventRow[]>(initialPage.events)
+  const [nextCursor, setNextCursor] = useState<string | null>(initialPage.nextCursor)
+  const [filters, setFilters] = useState<Filters>(EMPTY_FILTERS)
+  const [applied, setApplied] = useState<Filters>(EMPTY_FILTERS)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  async function load(query: Filters, cursor?: string) {
+    setLoading(true)
+    setError(null)
+    try {
+      const res = await fetch(`/api/trainer/audit?${toQuery(query, cursor)}`, { credentials: 'include' })
+      const body = await res.json().catch(() => ({}))
+      if (!res.ok) {
+        setError(body?.error ?? `Request failed (${res.status})`)
+        return
+      }
+      const page = body as AuditPage
+      setEvents((prev) => (cursor ? [...prev, ...page.events] : page.events))
+      setNextCursor(page.nextCursor)
+      setApplied(query)
+    } catch (err) {
+      console.error('[AuditClient] load failed', err)
+      setError('Network error loading audit log')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  function field(key: keyof Filters, label: string, type = 'text') {
+    return (
+      <div>
+        <label htmlFor={`audit-${key}`} style={labelStyle}>{label}</label>
+        <input
+          id={`audit-${key}`}
+          type={type}
+          value={filters[key]}
+          onChange={(e) => setFilters((f) => ({ ...f, [key]: e.target.value }))}
+          style={inputStyle}
+        />
+      </div>
+    )
+  }
+
+  return (
+    <div style={{ minHeight: '100vh', backgroundColor: 'var(--bg)', color: 'var(--ink)', fontFamily: FONT }}>
+      <div style={{ maxWidth: '1120px', margin: '0 auto', padding: '48px 24px' }}>
+        <div
+          style={{
+            display: 'flex',
+            alignItems: 'baseline',
+            justifyContent: 'space-between',
+            marginBottom: '8px',
+            gap: '16px',
+          }}
+        >
+          <h1
+            style={{
+              fontFamily: "var(--font-display), 'Clash Display', sans-serif",
+              fontWeight: 600,
+              fontSize: '48px',
+              color: 'var(--ink)',
+              lineHeight: 1.1,
+              margin: 0,
+              letterSpacing: '-0.02em',
+            }}
+          >
+            Audit Log
+          </h1>
+          <a className="btn-secondary-flat" href={`/api/trainer/audit/export?${toQuery(applied)}`}>
+            Export CSV
+          </a>
+        </div>
+        <p style={{ color: 'var(--muted)', fontSize: '14px', margin: '0 0 32px' }}>
+          Score overrides, threshold and policy changes, curriculum edits, cohort moves and deletions, with who
+          made them. Entries cannot be edited or removed. The export uses the filters currently applied.
+        </p>
+
+        <form
+          onSubmit={(e) => {
+            e.preventDefault()
+            load(filters)
+          }}
+          style={{
+            display: 'grid',
+            gridTemplateColumns: 'repeat(auto-fit, minmax(160px, 1fr))',
+            gap: '12px',
+            alignItems: 'end',
+            marginBottom: '24px',
+          }}
+        >
+          {field('actor', 'Actor')}
+          <div>
+            <label htmlFor="audit-action" style={labelStyle}>Action</label>
+            <select
+              id="audit-action"
+              value={filters.action}
+              onChange={(e) => setFilters((f) => ({ ...f, action: e.target.value }))}
+              style={inputStyle}
+            >
+              <option value="">Any</option>
+              {actions.map((a) => (
+                <option key={a} value={a}>{a}</option>
+              ))}
+            </select>
+          </div>
+          {field('targetType', 'Target type')}
+          {field('targetId', 'Target id')}
+          {field('from', 'From', 'date')}
+          {field('to', 'Before', 'date')}
+          <div style={{ display: 'flex', gap: '8px' }}>
+            <button type="submit" className="btn-accent-flat" disabled={loading}>
+              Filter
+            </button>
+            <button
+              type="button"
+              className="btn-secondary-flat"
+              disabled={loading}
+              onClick={() => {
+                setFilters(EMPTY_FILTERS)
+                load(EMPTY_FILTERS)
+              }}
+            >
+              Clear
+            </button>
+          </div>
+        </form>
+
+        {error && (
+          <div role="alert" style={{ color: 'var(--danger)', fontSize: '14px', marginBottom: '12px' }}>
+            {error}
+          </div>
+        )}
+
+        {events.length === 0 ? (
+          <div
+            style={{
+              padding: '24px',
+              textAlign: 'center',
+              color: 'var(--muted)',
+              fontSize: '14px',
+              border: '1px dashed var(--border)',
+              borderRadius: '12px',
+              backgroundColor: 'var(--surface)',
+            }}
+          >
+            No audit events match these filters.
+          </div>
+        ) : (
+          <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '13px' }}>
+            <thead>
+              <tr>
+                {['When', 'Actor', 'Action', 'Target', 'Before', 'After'].map((h) => (
+                  <th key={h} style={{ ...labelStyle, textAlign: 'left', padding: '8px' }}>{h}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {events.map((e) => (
+                <tr key={e.id} style={{ borderTop: '1px solid var(--border)', verticalAlign: 'top' }}>
+                  <td style={{ padding: '8px', whiteSpace: 'nowrap' }}>{new Date(e.createdAt).toLocaleString()}</td>
+                  <td style={{ padding: '8px' }}>
+                    {e.actorEmail}
+                    <div style={{ color: 'var(--muted)' }}>{e.actorRole}</div>
+                  </td>
+                  <td style={{ padding: '8px', fontFamily: MONO }}>{e.action}</td>
+                  <td style={{ padding: '8px', fontFamily: MONO }}>
+                    {e.targetType}:{e.targetId}
+                  </td>
+                  <td style={{ padding: '8px', fontFamily: MONO, wordBreak: 'break-word' }}>{formatChange(e.before)}</td>
+                  <td style={{ padding: '8px', fontFamily: MONO, wordBreak: 'break-word' }}>{formatChange(e.after)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        {nextCursor && (
+          <div style={{ marginTop: '16px', textAlign: 'center' }}>
+            <button
+              type="button"
+              className="btn-secondary-flat"
+              disabled={loading}
+              onClick={() => load(applied, nextCursor)}
+            >
+              {loading ? 'Loading…' : 'Load more'}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
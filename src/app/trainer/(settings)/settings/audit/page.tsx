@@ -0,0 +1,17 @@
+import { redirect } from 'next/navigation'
+import { getCallerIdentity } from '@/lib/identity'
+import { can } from '@/lib/authorization'
+import { AUDIT_ACTIONS, listAuditEvents } from '@/lib/auditLog'
+import AuditClient from './AuditClient'
+
+export const dynamic = 'force-dynamic'
+
+export default async function AuditPage() {
+  const caller = await getCallerIdentity()
+  if (!can(caller, 'audit:read')) {
+    redirect('/signin')
+  }
+
+  const initial = await listAuditEvents({}, { limit: 50 })
+  return <AuditClient initialPage={initial} actions={[...AUDIT_ACTIONS]} />
+}
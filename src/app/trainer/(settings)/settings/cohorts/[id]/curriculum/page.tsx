@@ -1,6 +1,7 @@
 import { redirect, notFound } from 'next/navigation'
 import Link from 'next/link'
 import { getCallerIdentity } from '@/lib/identity'
+import { can } from '@/lib/authorization'
 import { prisma } from '@/lib/prisma'
 import CurriculumManager from './CurriculumManager'
 
@@ -26,7 +27,7 @@ function formatDate(d: Date | null): string {
 
 export default async function CurriculumPage({ params }: Props) {
   const caller = await getCallerIdentity()
-  if (caller.kind !== 'trainer' && caller.kind !== 'admin') {
+  if (!can(caller, 'content:write')) {
     redirect('/signin')
   }
 
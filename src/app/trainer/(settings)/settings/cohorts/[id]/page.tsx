@@ -1,7 +1,11 @@
 import { redirect, notFound } from 'next/navigation'
 import Link from 'next/link'
 import { getCallerIdentity } from '@/lib/identity'
+import { can } from '@/lib/authorization'
 import { prisma } from '@/lib/prisma'
+import { getSettings } from '@/lib/settingsService'
+import { DEFAULT_READINESS_POLICY } from '@/lib/readinessPolicy'
+import ReadinessPolicyForm from '@/components/trainer/ReadinessPolicyForm'
 
 export const dynamic = 'force-dynamic'
 
@@ -25,7 +29,7 @@ function formatDate(d: Date | null): string {
 
 export default async function CohortDetailPage({ params }: Props) {
   const caller = await getCallerIdentity()
-  if (caller.kind !== 'trainer' && caller.kind !== 'admin') {
+  if (!can(caller, 'cohorts:manage')) {
     redirect('/signin')
   }
 
@@ -47,6 +51,7 @@ export default async function CohortDetailPage({ params }: Props) {
         },
         orderBy: { displayName: 'asc' },
       },
+      readinessPolicy: true,
     },
   })
 
@@ -54,6 +59,9 @@ export default async function CohortDetailPage({ params }: Props) {
     notFound()
   }
 
+  const { readinessThreshold } = await getSettings()
+  const policy = cohort.readinessPolicy
+
   const dateRange = `${formatDate(cohort.startDate)} – ${formatDate(cohort.endDate)}`
 
   const readyCount = cohort.associates.filter(
@@ -197,6 +205,40 @@ export default async function CohortDetailPage({ params }: Props) {
           </Link>
         </div>
 
+        {/* Readiness policy */}
+        <section style={{ marginTop: '40px' }}>
+          <h2
+            style={{
+              fontFamily:
+                "var(--font-jetbrains-mono), 'JetBrains Mono', monospace",
+              fontWeight: 500,
+              fontSize: '11px',
+              textTransform: 'uppercase',
+              letterSpacing: '0.08em',
+              color: 'var(--muted)',
+              margin: '0 0 12px 0',
+            }}
+          >
+            Readiness policy
+          </h2>
+          <ReadinessPolicyForm
+            cohortId={cohort.id}
+            initialPolicy={
+              policy
+                ? {
+                    minSessions: policy.minSessions,
+                    trendWindow: policy.trendWindow,
+                    threshold: policy.threshold,
+                    requiredSkills: policy.requiredSkills,
+                    codingWeight: policy.codingWeight,
+                  }
+                : DEFAULT_READINESS_POLICY
+            }
+            isDefault={!policy}
+            globalThreshold={readinessThreshold}
+          />
+        </section>
+
         {/* Associate list */}
         <section style={{ marginTop: '40px' }}>
           <h2
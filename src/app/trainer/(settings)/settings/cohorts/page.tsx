@@ -1,5 +1,6 @@
 import { redirect } from 'next/navigation'
 import { getCallerIdentity } from '@/lib/identity'
+import { can, cohortScope } from '@/lib/authorization'
 import { prisma } from '@/lib/prisma'
 import CohortsClient, { type CohortWithCounts } from './CohortsClient'
 
@@ -7,13 +8,15 @@ export const dynamic = 'force-dynamic'
 
 export default async function CohortsPage() {
   const caller = await getCallerIdentity()
-  if (caller.kind !== 'trainer' && caller.kind !== 'admin') {
+  if (!can(caller, 'cohorts:manage') && !can(caller, 'content:write')) {
     redirect('/signin')
   }
 
   // Fetch cohorts + readiness counts per cohort. Readiness counts are computed
   // from the Associate.readinessStatus column maintained by readinessService.
+  const scope = cohortScope(caller)
   const rows = await prisma.cohort.findMany({
+    ...(scope ? { where: { id: { in: scope } } } : {}),
     orderBy: { startDate: 'desc' },
     include: {
       _count: { select: { associates: true } },
@@ -0,0 +1,183 @@
+'use client'
+
+import { useState } from 'react'
+import type { ErasureReport, ErasureRequestRow } from '@/lib/associateData'
+
+interface Props {
+  initialRequests: ErasureRequestRow[]
+}
+
+const FONT = "var(--font-dm-sans), 'DM Sans', sans-serif"
+const MONO = "var(--font-jetbrains-mono), 'JetBrains Mono', monospace"
+
+const labelStyle: React.CSSProperties = {
+  display: 'block',
+  fontSize: '12px',
+  fontWeight: 600,
+  color: 'var(--muted)',
+  textTransform: 'uppercase',
+  letterSpacing: '0.05em',
+  marginBottom: '6px',
+}
+
+const cardStyle: React.CSSProperties = {
+  border: '1px solid var(--border)',
+  borderRadius: '12px',
+  backgroundColor: 'var(--surface)',
+  padding: '16px 20px',
+  marginBottom: '12px',
+}
+
+function isReport(report: ErasureRequestRow['report']): report is ErasureReport {
+  return report !== null && 'deleted' in report
+}
+
+function ReportSummary({ report }: { report: ErasureRequestRow['report'] }) {
+  if (!report) return null
+  if (!isReport(report)) {
+    return (
+      <div role="alert" style={{ color: 'var(--danger)', fontSize: '13px', marginTop: '12px' }}>
+        Erasure failed: {report.error}
+      </div>
+    )
+  }
+  return (
+    <div style={{ marginTop: '12px', fontSize: '13px' }}>
+      <span style={labelStyle}>Confirmation report</span>
+      <div style={{ fontFamily: MONO, display: 'grid', gridTemplateColumns: 'repeat(auto-fill, minmax(220px, 1fr))', gap: '4px' }}>
+        {Object.entries(report.deleted).map(([table, count]) => (
+          <div key={table}>
+            {table}: {count} deleted
+          </div>
+        ))}
+        <div>auth user: {report.authUser.replace('_', ' ')}</div>
+      </div>
+      <div style={{ color: 'var(--muted)', marginTop: '8px' }}>
+        Erased {new Date(report.erasedAt).toLocaleString()}. Kept: {report.retained.join('; ')}.
+      </div>
+    </div>
+  )
+}
+
+export default function PrivacyClient({ initialRequests }: Props) {
+  const [requests, setRequests] = useState<ErasureRequestRow[]>(initialRequests)
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  async function decide(row: ErasureRequestRow, decision: 'approve' | 'reject') {
+    if (decision === 'approve') {
+      const ok = window.confirm(
+        `Permanently erase ${row.associateSlug}? This deletes their sign-in account, sessions, gap scores, ` +
+          'coding submissions and profile. It cannot be undone.',
+      )
+      if (!ok) return
+    }
+    const note = decision === 'reject' ? window.prompt('Reason for rejecting (optional)') : null
+    if (decision === 'reject' && note === null) return
+
+    setBusyId(row.id)
+    setError(null)
+    try {
+      const res = await fetch(`/api/trainer/erasure-requests/${encodeURIComponent(row.id)}`, {
+        method: 'PATCH',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(decision === 'approve' ? { decision } : { decision, note: note || undefined }),
+      })
+      const body = await res.json().catch(() => ({}))
+      if (!res.ok) {
+        setError(body?.error ?? `Request failed (${res.status})`)
+      }
+      // Refresh either way: a failed approval is stored as 'failed' with its error.
+      const list = await fetch('/api/trainer/erasure-requests', { credentials: 'include' })
+      if (list.ok) setRequests(((await list.json()) as { requests: ErasureRequestRow[] }).requests)
+    } catch (err) {
+      console.error('[PrivacyClient] decision failed', err)
+      setError('Network error updating the request')
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  return (
+    <div style={{ minHeight: '100vh', backgroundColor: 'var(--bg)', color: 'var(--ink)', fontFamily: FONT }}>
+      <div style={{ maxWidth: '960px', margin: '0 auto', padding: '48px 24px' }}>
+        <h1
+          style={{
+            fontFamily: "var(--font-display), 'Clash Display', sans-serif",
+            fontWeight: 600,
+            fontSize: '48px',
+            color: 'var(--ink)',
+            lineHeight: 1.1,
+            margin: '0 0 8px',
+            letterSpacing: '-0.02em',
+          }}
+        >
+          Data Requests
+        </h1>
+        <p style={{ color: 'var(--muted)', fontSize: '14px', margin: '0 0 32px' }}>
+          Erasure requests filed by associates from their profile. Approving deletes the associate&apos;s sign-in
+          account and every linked record, then shows what was removed. Audit log entries are kept.
+        </p>
+
+        {error && (
+          <div role="alert" style={{ color: 'var(--danger)', fontSize: '14px', marginBottom: '12px' }}>
+            {error}
+          </div>
+        )}
+
+        {requests.length === 0 ? (
+          <div style={{ ...cardStyle, textAlign: 'center', color: 'var(--muted)', fontSize: '14px', borderStyle: 'dashed' }}>
+            No erasure requests.
+          </div>
+        ) : (
+          requests.map((r) => {
+            const open = r.status === 'pending' || r.status === 'failed'
+            return (
+              <div key={r.id} style={cardStyle}>
+                <div style={{ display: 'flex', justifyContent: 'space-between', gap: '16px', alignItems: 'baseline' }}>
+                  <div>
+                    <span style={{ fontFamily: MONO, fontWeight: 600 }}>{r.associateSlug}</span>
+                    <span style={{ color: 'var(--muted)', fontSize: '13px', marginLeft: '8px' }}>
+                      #{r.associateId} · requested {new Date(r.createdAt).toLocaleString()}
+                    </span>
+                  </div>
+                  <span style={{ fontFamily: MONO, fontSize: '12px', textTransform: 'uppercase' }}>{r.status}</span>
+                </div>
+                {r.reason && <p style={{ fontSize: '14px', margin: '8px 0 0' }}>&ldquo;{r.reason}&rdquo;</p>}
+                {r.reviewedBy && (
+                  <div style={{ color: 'var(--muted)', fontSize: '13px', marginTop: '8px' }}>
+                    Reviewed by {r.reviewedBy}
+                    {r.reviewedAt && ` on ${new Date(r.reviewedAt).toLocaleString()}`}
+                    {r.note && ` — ${r.note}`}
+                  </div>
+                )}
+                <ReportSummary report={r.report} />
+                {open && (
+                  <div style={{ display: 'flex', gap: '8px', marginTop: '12px' }}>
+                    <button
+                      type="button"
+                      className="btn-accent-flat"
+                      disabled={busyId !== null}
+                      onClick={() => decide(r, 'approve')}
+                    >
+                      {busyId === r.id ? 'Working…' : r.status === 'failed' ? 'Retry erasure' : 'Approve & erase'}
+                    </button>
+                    <button
+                      type="button"
+                      className="btn-secondary-flat"
+                      disabled={busyId !== null}
+                      onClick={() => decide(r, 'reject')}
+                    >
+                      Reject
+                    </button>
+                  </div>
+                )}
+              </div>
+            )
+          })
+        )}
+      </div>
+    </div>
+  )
+}
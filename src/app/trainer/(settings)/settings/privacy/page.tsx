@@ -0,0 +1,17 @@
+import { redirect } from 'next/navigation'
+import { getCallerIdentity } from '@/lib/identity'
+import { can } from '@/lib/authorization'
+import { listErasureRequests } from '@/lib/associateData'
+import PrivacyClient from './PrivacyClient'
+
+export const dynamic = 'force-dynamic'
+
+export default async function PrivacyPage() {
+  const caller = await getCallerIdentity()
+  if (!can(caller, 'privacy:manage')) {
+    redirect('/signin')
+  }
+
+  const requests = await listErasureRequests()
+  return <PrivacyClient initialRequests={requests} />
+}
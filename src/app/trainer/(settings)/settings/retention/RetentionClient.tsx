@@ -0,0 +1,245 @@
+'use client'
+
+import { useState } from 'react'
+import type { DataClass, RetentionPolicies, RetentionReport } from '@/lib/retentionPolicy'
+
+interface Props {
+  initialPolicies: RetentionPolicies
+  initialPreview: RetentionReport
+  canEdit: boolean
+}
+
+const FONT = "var(--font-dm-sans), 'DM Sans', sans-serif"
+const MONO = "var(--font-jetbrains-mono), 'JetBrains Mono', monospace"
+
+const CLASS_INFO: Record<DataClass, { label: string; effect: string }> = {
+  completed_sessions: { label: 'Completed sessions', effect: 'Session deleted' },
+  interviewer_notes: { label: 'Interviewer notes', effect: 'Notes cleared, scores kept' },
+  transcripts: { label: 'Automated interview transcripts', effect: 'Transcript cleared, scores kept' },
+  submitted_code: { label: 'Submitted code', effect: 'Code and edit replay cleared, verdict kept' },
+  auth_events: { label: 'Sign-in events', effect: 'Event deleted' },
+}
+
+const inputStyle: React.CSSProperties = {
+  width: '96px',
+  padding: '6px 10px',
+  border: '1px solid var(--border)',
+  borderRadius: '8px',
+  backgroundColor: 'var(--surface)',
+  color: 'var(--ink)',
+  fontFamily: FONT,
+  fontSize: '14px',
+}
+
+const headStyle: React.CSSProperties = {
+  fontSize: '12px',
+  fontWeight: 600,
+  color: 'var(--muted)',
+  textTransform: 'uppercase',
+  letterSpacing: '0.05em',
+  textAlign: 'left',
+  padding: '8px',
+}
+
+function toInputs(policies: RetentionPolicies): Record<DataClass, string> {
+  return Object.fromEntries(
+    Object.entries(policies).map(([c, months]) => [c, months === null ? '' : String(months)]),
+  ) as Record<DataClass, string>
+}
+
+function toPolicies(inputs: Record<DataClass, string>): Record<string, number | null> {
+  const policies: Record<string, number | null> = {}
+  for (const [c, value] of Object.entries(inputs)) {
+    policies[c] = value.trim() === '' ? null : Number(value)
+  }
+  return policies
+}
+
+function formatDate(iso: string | null): string {
+  return iso ? new Date(iso).toLocaleDateString() : '—'
+}
+
+export default function RetentionClient({ initialPolicies, initialPreview, canEdit }: Props) {
+  const [inputs, setInputs] = useState<Record<DataClass, string>>(toInputs(initialPolicies))
+  const [savedInputs, setSavedInputs] = useState<Record<DataClass, string>>(toInputs(initialPolicies))
+  const [preview, setPreview] = useState<RetentionReport>(initialPreview)
+  // Dry run of unsaved periods, and the inputs it was computed for.
+  const [proposed, setProposed] = useState<{ inputs: string; report: RetentionReport } | null>(null)
+  const [lastRun, setLastRun] = useState<RetentionReport | null>(null)
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [saved, setSaved] = useState(false)
+
+  async function request(url: string, init?: RequestInit): Promise<Record<string, unknown> | null> {
+    setBusy(true)
+    setError(null)
+    setSaved(false)
+    try {
+      const res = await fetch(url, { credentials: 'include', ...init })
+      const body = await res.json().catch(() => ({}))
+      if (!res.ok) {
+        setError(body?.error ?? `Request failed (${res.status})`)
+        return null
+      }
+      return body
+    } catch (err) {
+      console.error('[RetentionClient] request failed', err)
+      setError('Network error')
+      return null
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const dirty = JSON.stringify(inputs) !== JSON.stringify(savedInputs)
+  const previewed = proposed !== null && proposed.inputs === JSON.stringify(inputs)
+  const shown = dirty && previewed ? proposed.report : preview
+
+  async function previewChanges() {
+    const body = await request('/api/trainer/retention/preview', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(toPolicies(inputs)),
+    })
+    if (body) setProposed({ inputs: JSON.stringify(inputs), report: body.preview as RetentionReport })
+  }
+
+  async function apply() {
+    if (!proposed) return
+    const total = proposed.report.classes.reduce((n, c) => n + (c.retainMonths === null ? 0 : c.eligible), 0)
+    if (!window.confirm(`Apply these periods? The next sweep will purge ${total} rows.`)) return
+    const body = await request('/api/trainer/retention', {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(toPolicies(inputs)),
+    })
+    if (!body) return
+    const next = toInputs(body.policies as RetentionPolicies)
+    setInputs(next)
+    setSavedInputs(next)
+    setProposed(null)
+    setPreview(body.preview as RetentionReport)
+    setSaved(true)
+  }
+
+  async function refresh() {
+    const body = await request('/api/trainer/retention')
+    if (body) setPreview(body.preview as RetentionReport)
+  }
+
+  async function runNow() {
+    const total = preview.classes.reduce((n, c) => n + c.eligible, 0)
+    if (!window.confirm(`Purge ${total} rows now? Deleted and cleared data cannot be recovered.`)) return
+    const report = await request('/api/admin/retention-sweep', { method: 'POST' })
+    if (!report) return
+    setLastRun(report as unknown as RetentionReport)
+    await refresh()
+  }
+
+  return (
+    <div style={{ minHeight: '100vh', backgroundColor: 'var(--bg)', color: 'var(--ink)', fontFamily: FONT }}>
+      <div style={{ maxWidth: '1040px', margin: '0 auto', padding: '48px 24px' }}>
+        <h1
+          style={{
+            fontFamily: "var(--font-display), 'Clash Display', sans-serif",
+            fontWeight: 600,
+            fontSize: '48px',
+            color: 'var(--ink)',
+            lineHeight: 1.1,
+            margin: '0 0 8px',
+            letterSpacing: '-0.02em',
+          }}
+        >
+          Data Retention
+        </h1>
+        <p style={{ color: 'var(--muted)', fontSize: '14px', margin: '0 0 32px' }}>
+          How many months each kind of data is kept. A scheduled sweep runs every 12 hours and purges anything older;
+          leave a period blank to keep that data indefinitely. The dry run below shows exactly what the next sweep
+          will remove. Changed periods are previewed first and only take effect once applied.
+          {!canEdit && ' Only admins can change these periods.'}
+        </p>
+
+        {error && (
+          <div role="alert" style={{ color: 'var(--danger)', fontSize: '14px', marginBottom: '12px' }}>
+            {error}
+          </div>
+        )}
+
+        <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '14px', marginBottom: '16px' }}>
+          <thead>
+            <tr>
+              {['Data', 'Keep (months)', 'When purged', 'Cutoff', 'Due for purge', 'Oldest'].map((h) => (
+                <th key={h} style={headStyle}>{h}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {shown.classes.map((c) => (
+              <tr key={c.dataClass} style={{ borderTop: '1px solid var(--border)' }}>
+                <td style={{ padding: '8px' }}>{CLASS_INFO[c.dataClass].label}</td>
+                <td style={{ padding: '8px' }}>
+                  <input
+                    aria-label={`${CLASS_INFO[c.dataClass].label} retention in months`}
+                    type="number"
+                    min={1}
+                    max={120}
+                    placeholder="Forever"
+                    value={inputs[c.dataClass]}
+                    disabled={!canEdit || busy}
+                    onChange={(e) => setInputs((prev) => ({ ...prev, [c.dataClass]: e.target.value }))}
+                    style={inputStyle}
+                  />
+                </td>
+                <td style={{ padding: '8px', color: 'var(--muted)' }}>{CLASS_INFO[c.dataClass].effect}</td>
+                <td style={{ padding: '8px', fontFamily: MONO }}>{formatDate(c.cutoff)}</td>
+                <td style={{ padding: '8px', fontFamily: MONO }}>
+                  {c.retainMonths === null ? '—' : c.eligible}
+                  {c.error && <span style={{ color: 'var(--danger)' }}> ({c.error})</span>}
+                </td>
+                <td style={{ padding: '8px', fontFamily: MONO }}>{formatDate(c.oldest)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <p style={{ color: 'var(--muted)', fontSize: '12px', margin: '0 0 24px' }}>
+          {dirty && previewed
+            ? `Preview of unsaved periods at ${new Date(shown.generatedAt).toLocaleString()}. Nothing changes until you apply them.`
+            : dirty
+              ? 'Periods changed. Preview them to see what they would purge before applying.'
+              : `Dry run at ${new Date(shown.generatedAt).toLocaleString()}.`}
+        </p>
+
+        <div style={{ display: 'flex', gap: '8px' }}>
+          {canEdit && dirty && (
+            <button type="button" className="btn-secondary-flat" disabled={busy || previewed} onClick={previewChanges}>
+              Preview changes
+            </button>
+          )}
+          {canEdit && (
+            <button type="button" className="btn-accent-flat" disabled={busy || !dirty || !previewed} onClick={apply}>
+              {saved && !dirty ? 'Applied' : 'Apply periods'}
+            </button>
+          )}
+          <button type="button" className="btn-secondary-flat" disabled={busy} onClick={refresh}>
+            Refresh dry run
+          </button>
+          {canEdit && (
+            <button type="button" className="btn-secondary-flat" disabled={busy} onClick={runNow}>
+              Run sweep now
+            </button>
+          )}
+        </div>
+
+        {lastRun && (
+          <div role="status" style={{ marginTop: '24px', fontSize: '14px' }}>
+            <strong>Sweep finished {new Date(lastRun.generatedAt).toLocaleString()}:</strong>{' '}
+            {lastRun.classes
+              .filter((c) => c.retainMonths !== null)
+              .map((c) => `${CLASS_INFO[c.dataClass].label} ${c.processed}${c.truncated ? '+' : ''}`)
+              .join(' · ') || 'no retention periods set'}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
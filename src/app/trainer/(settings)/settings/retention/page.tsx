@@ -0,0 +1,17 @@
+import { redirect } from 'next/navigation'
+import { getCallerIdentity } from '@/lib/identity'
+import { can } from '@/lib/authorization'
+import { getRetentionPolicies, runRetentionSweep } from '@/lib/retentionPolicy'
+import RetentionClient from './RetentionClient'
+
+export const dynamic = 'force-dynamic'
+
+export default async function RetentionPage() {
+  const caller = await getCallerIdentity()
+  if (!can(caller, 'cohorts:manage') && !can(caller, 'privacy:manage')) {
+    redirect('/signin')
+  }
+
+  const [policies, preview] = await Promise.all([getRetentionPolicies(), runRetentionSweep({ dryRun: true })])
+  return <RetentionClient initialPolicies={policies} initialPreview={preview} canEdit={can(caller, 'privacy:manage')} />
+}
@@ -0,0 +1,387 @@
+'use client'
+
+import { useState } from 'react'
+import { GitHubService } from '@/lib/github-service'
+
+export interface RubricRow {
+  skillSlug: string
+  version: number
+  versionCount: number
+  scoringGuidance: string
+  summaryGuidance: string | null
+  source: string
+  createdBy: string | null
+  createdAt: string
+}
+
+type RubricVersion = Omit<RubricRow, 'versionCount'>
+
+interface Props {
+  initialRubrics: RubricRow[]
+}
+
+interface ZodIssue {
+  path: (string | number)[]
+  message: string
+}
+
+const FONT = "var(--font-dm-sans), 'DM Sans', sans-serif"
+const MONO = "var(--font-jetbrains-mono), 'JetBrains Mono', monospace"
+
+const inputStyle: React.CSSProperties = {
+  width: '100%',
+  padding: '8px 12px',
+  border: '1px solid var(--border)',
+  borderRadius: '8px',
+  backgroundColor: 'var(--surface)',
+  color: 'var(--ink)',
+  fontFamily: FONT,
+  fontSize: '14px',
+  boxSizing: 'border-box',
+}
+
+const labelStyle: React.CSSProperties = {
+  display: 'block',
+  fontSize: '12px',
+  fontWeight: 600,
+  color: 'var(--muted)',
+  textTransform: 'uppercase',
+  letterSpacing: '0.05em',
+  marginBottom: '6px',
+}
+
+async function readError(res: Response): Promise<string> {
+  const body = await res.json().catch(() => ({}))
+  if (res.status === 400 && Array.isArray(body?.issues)) {
+    return (body.issues as ZodIssue[]).map((i) => `${i.path.join('.')}: ${i.message}`).join('; ')
+  }
+  if (res.status === 409) return 'Someone else saved this rubric at the same time. Reload and try again.'
+  return body?.error ?? `Request failed (${res.status})`
+}
+
+export default function RubricsClient({ initialRubrics }: Props) {
+  const [rubrics, setRubrics] = useState<RubricRow[]>(initialRubrics)
+  const [skillSlug, setSkillSlug] = useState('')
+  const [scoringGuidance, setScoringGuidance] = useState('')
+  const [summaryGuidance, setSummaryGuidance] = useState('')
+  const [history, setHistory] = useState<RubricVersion[] | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [notice, setNotice] = useState<string | null>(null)
+
+  const isExisting = rubrics.some((r) => r.skillSlug === skillSlug)
+
+  function upsertRow(saved: RubricVersion) {
+    setRubrics((prev) => {
+      const existing = prev.find((r) => r.skillSlug === saved.skillSlug)
+      const row: RubricRow = { ...saved, versionCount: (existing?.versionCount ?? 0) + 1 }
+      const rest = prev.filter((r) => r.skillSlug !== saved.skillSlug)
+      return [...rest, row].sort((a, b) => a.skillSlug.localeCompare(b.skillSlug))
+    })
+  }
+
+  function edit(row: RubricVersion) {
+    setSkillSlug(row.skillSlug)
+    setScoringGuidance(row.scoringGuidance)
+    setSummaryGuidance(row.summaryGuidance ?? '')
+    setHistory(null)
+    setError(null)
+    setNotice(null)
+  }
+
+  function startNew() {
+    setSkillSlug('')
+    setScoringGuidance('')
+    setSummaryGuidance('')
+    setHistory(null)
+    setError(null)
+    setNotice(null)
+  }
+
+  async function post(payload: Record<string, unknown>): Promise<RubricVersion | null> {
+    setSaving(true)
+    setError(null)
+    setNotice(null)
+    try {
+      const res = await fetch('/api/rubrics', {
+        method: 'POST',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload),
+      })
+      if (!res.ok) {
+        setError(await readError(res))
+        return null
+      }
+      const saved = (await res.json()) as RubricVersion
+      upsertRow(saved)
+      setHistory(null)
+      return saved
+    } catch (err) {
+      console.error('[RubricsClient] save failed', err)
+      setError('Network error saving rubric')
+      return null
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  async function handleSave(e: React.FormEvent) {
+    e.preventDefault()
+    const saved = await post({
+      skillSlug: skillSlug.trim(),
+      scoringGuidance,
+      summaryGuidance: summaryGuidance.trim() || null,
+    })
+    if (saved) setNotice(`Saved ${saved.skillSlug} v${saved.version}`)
+  }
+
+  async function handleImport() {
+    const slug = skillSlug.trim()
+    if (!slug) {
+      setError('Enter the skill to import (reads rubrics/<skill>.md from the question bank)')
+      return
+    }
+    setError(null)
+    let markdown: string
+    try {
+      markdown = await new GitHubService('owner', 'repo', 'main').getFileContent(`rubrics/${slug}.md`)
+    } catch {
+      setError(`No rubrics/${slug}.md found in the question bank`)
+      return
+    }
+    const saved = await post({ markdown, skillSlug: slug })
+    if (saved) {
+      edit(saved)
+      setNotice(`Imported ${saved.skillSlug} v${saved.version} from the question bank`)
+    }
+  }
+
+  async function loadHistory() {
+    setError(null)
+    try {
+      const res = await fetch(`/api/rubrics/${encodeURIComponent(skillSlug)}`, {
+        credentials: 'include',
+      })
+      if (!res.ok) {
+        setError(await readError(res))
+        return
+      }
+      setHistory(await res.json())
+    } catch (err) {
+      console.error('[RubricsClient] history failed', err)
+      setError('Network error loading history')
+    }
+  }
+
+  return (
+    <div
+      style={{
+        minHeight: '100vh',
+        backgroundColor: 'var(--bg)',
+        color: 'var(--ink)',
+        fontFamily: FONT,
+      }}
+    >
+      <div style={{ maxWidth: '1120px', margin: '0 auto', padding: '48px 24px' }}>
+        <div
+          style={{
+            display: 'flex',
+            alignItems: 'baseline',
+            justifyContent: 'space-between',
+            marginBottom: '8px',
+            gap: '16px',
+          }}
+        >
+          <h1
+            style={{
+              fontFamily: "var(--font-display), 'Clash Display', sans-serif",
+              fontWeight: 600,
+              fontSize: '48px',
+              color: 'var(--ink)',
+              lineHeight: 1.1,
+              margin: 0,
+              letterSpacing: '-0.02em',
+            }}
+          >
+            Rubrics
+          </h1>
+          <button type="button" className="btn-accent-flat" onClick={startNew}>
+            New Rubric
+          </button>
+        </div>
+        <p style={{ color: 'var(--muted)', fontSize: '14px', margin: '0 0 32px' }}>
+          Per-skill scoring guidance injected into AI scoring prompts. Questions use their
+          skill&apos;s rubric, then their topic&apos;s, then the <code style={{ fontFamily: MONO }}>default</code> rubric.
+          Every save creates a new version; past scores keep the version that graded them.
+        </p>
+
+        <div style={{ display: 'grid', gridTemplateColumns: '280px 1fr', gap: '32px' }}>
+          <div>
+            {rubrics.length === 0 ? (
+              <div
+                style={{
+                  padding: '24px',
+                  textAlign: 'center',
+                  color: 'var(--muted)',
+                  fontSize: '14px',
+                  border: '1px dashed var(--border)',
+                  borderRadius: '12px',
+                  backgroundColor: 'var(--surface)',
+                }}
+              >
+                No rubrics yet. All questions use the generic scoring prompt.
+              </div>
+            ) : (
+              <ul style={{ listStyle: 'none', margin: 0, padding: 0 }}>
+                {rubrics.map((r) => (
+                  <li key={r.skillSlug}>
+                    <button
+                      type="button"
+                      onClick={() => edit(r)}
+                      style={{
+                        width: '100%',
+                        textAlign: 'left',
+                        padding: '12px 16px',
+                        marginBottom: '8px',
+                        border: '1px solid var(--border)',
+                        borderRadius: '8px',
+                        backgroundColor: r.skillSlug === skillSlug ? 'var(--surface-muted)' : 'var(--surface)',
+                        color: 'var(--ink)',
+                        cursor: 'pointer',
+                        fontFamily: FONT,
+                      }}
+                    >
+                      <div style={{ fontFamily: MONO, fontSize: '14px', fontWeight: 600 }}>{r.skillSlug}</div>
+                      <div style={{ fontSize: '12px', color: 'var(--muted)', marginTop: '2px' }}>
+                        v{r.version} · {r.source === 'repo' ? 'from question bank' : 'edited in settings'}
+                        {r.versionCount > 1 ? ` · ${r.versionCount} versions` : ''}
+                      </div>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          <form
+            onSubmit={handleSave}
+            style={{
+              backgroundColor: 'var(--surface)',
+              border: '1px solid var(--border)',
+              borderRadius: '12px',
+              padding: '24px',
+            }}
+          >
+            <div style={{ marginBottom: '16px' }}>
+              <label htmlFor="rubric-skill" style={labelStyle}>Skill</label>
+              <input
+                id="rubric-skill"
+                value={skillSlug}
+                onChange={(e) => setSkillSlug(e.target.value.toLowerCase())}
+                placeholder="react, sql, default"
+                style={{ ...inputStyle, fontFamily: MONO }}
+              />
+            </div>
+            <div style={{ marginBottom: '16px' }}>
+              <label htmlFor="rubric-scoring" style={labelStyle}>Scoring guidance</label>
+              <textarea
+                id="rubric-scoring"
+                value={scoringGuidance}
+                onChange={(e) => setScoringGuidance(e.target.value)}
+                rows={12}
+                placeholder={'5 — explains the virtual DOM diff and when keys matter\n3 — knows hooks exist but not the rules of hooks\n...'}
+                style={{ ...inputStyle, fontFamily: MONO, fontSize: '13px', resize: 'vertical' }}
+              />
+            </div>
+            <div style={{ marginBottom: '16px' }}>
+              <label htmlFor="rubric-summary" style={labelStyle}>Summary guidance (optional)</label>
+              <textarea
+                id="rubric-summary"
+                value={summaryGuidance}
+                onChange={(e) => setSummaryGuidance(e.target.value)}
+                rows={4}
+                placeholder="What the end-of-interview summary should emphasise for this skill"
+                style={{ ...inputStyle, resize: 'vertical' }}
+              />
+            </div>
+
+            {error && (
+              <div role="alert" style={{ color: 'var(--danger)', fontSize: '14px', marginBottom: '12px' }}>
+                {error}
+              </div>
+            )}
+            {notice && (
+              <div role="status" style={{ color: 'var(--success)', fontSize: '14px', marginBottom: '12px' }}>
+                {notice}
+              </div>
+            )}
+
+            <div style={{ display: 'flex', gap: '12px', flexWrap: 'wrap' }}>
+              <button
+                type="submit"
+                className="btn-accent-flat"
+                disabled={saving || !skillSlug.trim() || !scoringGuidance.trim()}
+              >
+                {saving ? 'Saving…' : isExisting ? 'Save new version' : 'Create rubric'}
+              </button>
+              <button type="button" className="btn-secondary-flat" onClick={handleImport} disabled={saving}>
+                Import from question bank
+              </button>
+              {isExisting && (
+                <button type="button" className="btn-secondary-flat" onClick={loadHistory} disabled={saving}>
+                  Version history
+                </button>
+              )}
+            </div>
+
+            {history && (
+              <div style={{ marginTop: '24px', borderTop: '1px solid var(--border)', paddingTop: '16px' }}>
+                <div style={labelStyle}>History</div>
+                {history.map((v) => (
+                  <div
+                    key={v.version}
+                    style={{
+                      display: 'flex',
+                      justifyContent: 'space-between',
+                      alignItems: 'center',
+                      padding: '8px 0',
+                      fontSize: '13px',
+                      borderBottom: '1px solid var(--border)',
+                    }}
+                  >
+                    <span>
+                      <span style={{ fontFamily: MONO, fontWeight: 600 }}>v{v.version}</span>
+                      <span style={{ color: 'var(--muted)' }}>
+                        {' '}· {new Date(v.createdAt).toLocaleString()}
+                        {v.createdBy ? ` · ${v.createdBy}` : ''} · {v.source}
+                      </span>
+                    </span>
+                    <button
+                      type="button"
+                      onClick={() => {
+                        setScoringGuidance(v.scoringGuidance)
+                        setSummaryGuidance(v.summaryGuidance ?? '')
+                        setNotice(`Loaded v${v.version} — save to make it the current version`)
+                      }}
+                      style={{
+                        background: 'none',
+                        border: 'none',
+                        color: 'var(--accent)',
+                        cursor: 'pointer',
+                        fontFamily: FONT,
+                        fontSize: '13px',
+                      }}
+                    >
+                      Restore
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </form>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,28 @@
+import { redirect } from 'next/navigation'
+import { getCallerIdentity } from '@/lib/identity'
+import { can } from '@/lib/authorization'
+import { listLatestRubrics } from '@/lib/rubricService'
+import RubricsClient, { type RubricRow } from './RubricsClient'
+
+export const dynamic = 'force-dynamic'
+
+export default async function RubricsPage() {
+  const caller = await getCallerIdentity()
+  if (!can(caller, 'content:write')) {
+    redirect('/signin')
+  }
+
+  const rubrics = await listLatestRubrics()
+  const initialRubrics: RubricRow[] = rubrics.map((r) => ({
+    skillSlug: r.skillSlug,
+    version: r.version,
+    versionCount: r.versionCount,
+    scoringGuidance: r.scoringGuidance,
+    summaryGuidance: r.summaryGuidance,
+    source: r.source,
+    createdBy: r.createdBy,
+    createdAt: r.createdAt.toISOString(),
+  }))
+
+  return <RubricsClient initialRubrics={initialRubrics} />
+}
@@ -0,0 +1,347 @@
+'use client'
+
+import { useState } from 'react'
+import { STAFF_ROLES, type StaffRole } from '@/lib/authorization'
+import type { StaffUser } from '@/lib/staffUsers'
+
+interface CohortOption {
+  id: number
+  name: string
+}
+
+interface Props {
+  initialUsers: StaffUser[]
+  cohorts: CohortOption[]
+  currentUserId: string
+}
+
+interface ZodIssue {
+  path: (string | number)[]
+  message: string
+}
+
+type Draft = { role: StaffRole; cohortIds: number[] | null }
+
+const FONT = "var(--font-dm-sans), 'DM Sans', sans-serif"
+
+const ROLE_HELP: Record<StaffRole, string> = {
+  admin: 'Everything, including this page',
+  trainer: 'Associates, interviews, readiness, cohorts and content',
+  recruiter: 'Read-only readiness roster and reports',
+  author: 'Curriculum, rubrics and challenge banks; no associate data',
+}
+
+const inputStyle: React.CSSProperties = {
+  padding: '8px 12px',
+  border: '1px solid var(--border)',
+  borderRadius: '8px',
+  backgroundColor: 'var(--surface)',
+  color: 'var(--ink)',
+  fontFamily: FONT,
+  fontSize: '14px',
+}
+
+const labelStyle: React.CSSProperties = {
+  display: 'block',
+  fontSize: '12px',
+  fontWeight: 600,
+  color: 'var(--muted)',
+  textTransform: 'uppercase',
+  letterSpacing: '0.05em',
+  marginBottom: '6px',
+}
+
+function isCohortScoped(role: StaffRole): boolean {
+  return role === 'trainer' || role === 'recruiter'
+}
+
+async function readError(res: Response): Promise<string> {
+  const body = await res.json().catch(() => ({}))
+  if (res.status === 400 && Array.isArray(body?.issues)) {
+    return (body.issues as ZodIssue[]).map((i) => `${i.path.join('.')}: ${i.message}`).join('; ')
+  }
+  return body?.error ?? `Request failed (${res.status})`
+}
+
+function CohortPicker({
+  cohorts,
+  value,
+  onChange,
+}: {
+  cohorts: CohortOption[]
+  value: number[] | null
+  onChange: (next: number[] | null) => void
+}) {
+  return (
+    <div style={{ display: 'flex', flexWrap: 'wrap', gap: '4px 12px', fontSize: '13px' }}>
+      <label>
+        <input type="checkbox" checked={value === null} onChange={(e) => onChange(e.target.checked ? null : [])} /> All
+        cohorts
+      </label>
+      {value !== null &&
+        cohorts.map((c) => (
+          <label key={c.id}>
+            <input
+              type="checkbox"
+              checked={value.includes(c.id)}
+              onChange={(e) =>
+                onChange(e.target.checked ? [...value, c.id] : value.filter((id) => id !== c.id))
+              }
+            />{' '}
+            {c.name}
+          </label>
+        ))}
+    </div>
+  )
+}
+
+export default function UsersClient({ initialUsers, cohorts, currentUserId }: Props) {
+  const [users, setUsers] = useState<StaffUser[]>(initialUsers)
+  const [drafts, setDrafts] = useState<Record<string, Draft>>({})
+  const [email, setEmail] = useState('')
+  const [newRole, setNewRole] = useState<StaffRole>('trainer')
+  const [newCohortIds, setNewCohortIds] = useState<number[] | null>(null)
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [notice, setNotice] = useState<string | null>(null)
+
+  function draftFor(u: StaffUser): Draft {
+    return drafts[u.id] ?? { role: u.role, cohortIds: u.cohortIds }
+  }
+
+  function applySaved(saved: StaffUser & { role: StaffRole | null }) {
+    setUsers((prev) => {
+      const rest = prev.filter((u) => u.id !== saved.id)
+      if (!saved.role) return rest
+      return [...rest, saved as StaffUser].sort((a, b) => (a.email ?? '').localeCompare(b.email ?? ''))
+    })
+    setDrafts((prev) => {
+      const next = { ...prev }
+      delete next[saved.id]
+      return next
+    })
+  }
+
+  async function send(url: string, method: 'POST' | 'PATCH', payload: Record<string, unknown>) {
+    setBusy(true)
+    setError(null)
+    setNotice(null)
+    try {
+      const res = await fetch(url, {
+        method,
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload),
+      })
+      if (!res.ok) {
+        setError(await readError(res))
+        return null
+      }
+      const saved = (await res.json()) as StaffUser & { role: StaffRole | null }
+      applySaved(saved)
+      return saved
+    } catch (err) {
+      console.error('[UsersClient] save failed', err)
+      setError('Network error saving role')
+      return null
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  async function handleGrant(e: React.FormEvent) {
+    e.preventDefault()
+    const saved = await send('/api/trainer/users', 'POST', {
+      email: email.trim(),
+      role: newRole,
+      cohortIds: isCohortScoped(newRole) ? newCohortIds : null,
+    })
+    if (saved) {
+      setEmail('')
+      setNotice(`${saved.email ?? 'User'} is now ${saved.role}`)
+    }
+  }
+
+  async function handleSave(u: StaffUser) {
+    const draft = draftFor(u)
+    const saved = await send(`/api/trainer/users/${u.id}`, 'PATCH', {
+      role: draft.role,
+      cohortIds: isCohortScoped(draft.role) ? draft.cohortIds : null,
+    })
+    if (saved) setNotice(`Updated ${saved.email ?? 'user'}`)
+  }
+
+  async function handleRemove(u: StaffUser) {
+    if (!window.confirm(`Remove staff access for ${u.email ?? u.id}?`)) return
+    const saved = await send(`/api/trainer/users/${u.id}`, 'PATCH', { role: 'none', cohortIds: null })
+    if (saved) setNotice(`Removed staff access for ${u.email ?? 'user'}`)
+  }
+
+  return (
+    <div style={{ minHeight: '100vh', backgroundColor: 'var(--bg)', color: 'var(--ink)', fontFamily: FONT }}>
+      <div style={{ maxWidth: '1120px', margin: '0 auto', padding: '48px 24px' }}>
+        <h1
+          style={{
+            fontFamily: "var(--font-display), 'Clash Display', sans-serif",
+            fontWeight: 600,
+            fontSize: '48px',
+            color: 'var(--ink)',
+            lineHeight: 1.1,
+            margin: '0 0 8px',
+            letterSpacing: '-0.02em',
+          }}
+        >
+          Users
+        </h1>
+        <p style={{ color: 'var(--muted)', fontSize: '14px', margin: '0 0 32px' }}>
+          Staff roles and the cohorts each trainer or recruiter can see. Changes apply on the person&apos;s
+          next page load.
+        </p>
+
+        <form
+          onSubmit={handleGrant}
+          style={{
+            backgroundColor: 'var(--surface)',
+            border: '1px solid var(--border)',
+            borderRadius: '12px',
+            padding: '24px',
+            marginBottom: '32px',
+          }}
+        >
+          <div style={{ display: 'flex', gap: '16px', flexWrap: 'wrap', alignItems: 'flex-end' }}>
+            <div style={{ flex: '1 1 280px' }}>
+              <label htmlFor="user-email" style={labelStyle}>Email</label>
+              <input
+                id="user-email"
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                placeholder="someone@example.com"
+                style={{ ...inputStyle, width: '100%', boxSizing: 'border-box' }}
+              />
+            </div>
+            <div>
+              <label htmlFor="user-role" style={labelStyle}>Role</label>
+              <select
+                id="user-role"
+                value={newRole}
+                onChange={(e) => setNewRole(e.target.value as StaffRole)}
+                style={inputStyle}
+              >
+                {STAFF_ROLES.map((r) => (
+                  <option key={r} value={r}>{r}</option>
+                ))}
+              </select>
+            </div>
+            <button type="submit" className="btn-accent-flat" disabled={busy || !email.trim()}>
+              Grant role
+            </button>
+          </div>
+          <p style={{ color: 'var(--muted)', fontSize: '13px', margin: '8px 0 0' }}>{ROLE_HELP[newRole]}</p>
+          {isCohortScoped(newRole) && (
+            <div style={{ marginTop: '12px' }}>
+              <CohortPicker cohorts={cohorts} value={newCohortIds} onChange={setNewCohortIds} />
+            </div>
+          )}
+        </form>
+
+        {error && (
+          <div role="alert" style={{ color: 'var(--danger)', fontSize: '14px', marginBottom: '12px' }}>
+            {error}
+          </div>
+        )}
+        {notice && (
+          <div role="status" style={{ color: 'var(--success)', fontSize: '14px', marginBottom: '12px' }}>
+            {notice}
+          </div>
+        )}
+
+        {users.length === 0 ? (
+          <div
+            style={{
+              padding: '24px',
+              textAlign: 'center',
+              color: 'var(--muted)',
+              fontSize: '14px',
+              border: '1px dashed var(--border)',
+              borderRadius: '12px',
+              backgroundColor: 'var(--surface)',
+            }}
+          >
+            No staff accounts yet.
+          </div>
+        ) : (
+          <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '14px' }}>
+            <thead>
+              <tr>
+                <th style={{ ...labelStyle, textAlign: 'left', padding: '8px' }}>Email</th>
+                <th style={{ ...labelStyle, textAlign: 'left', padding: '8px' }}>Role</th>
+                <th style={{ ...labelStyle, textAlign: 'left', padding: '8px' }}>Cohorts</th>
+                <th style={{ padding: '8px' }} />
+              </tr>
+            </thead>
+            <tbody>
+              {users.map((u) => {
+                const draft = draftFor(u)
+                const isSelf = u.id === currentUserId
+                const dirty = draft.role !== u.role || JSON.stringify(draft.cohortIds) !== JSON.stringify(u.cohortIds)
+                return (
+                  <tr key={u.id} style={{ borderTop: '1px solid var(--border)', verticalAlign: 'top' }}>
+                    <td style={{ padding: '12px 8px' }}>
+                      {u.email ?? u.id}
+                      {isSelf && <span style={{ color: 'var(--muted)' }}> (you)</span>}
+                    </td>
+                    <td style={{ padding: '12px 8px' }}>
+                      <select
+                        aria-label={`Role for ${u.email ?? u.id}`}
+                        value={draft.role}
+                        disabled={isSelf}
+                        onChange={(e) =>
+                          setDrafts((prev) => ({ ...prev, [u.id]: { ...draft, role: e.target.value as StaffRole } }))
+                        }
+                        style={inputStyle}
+                      >
+                        {STAFF_ROLES.map((r) => (
+                          <option key={r} value={r}>{r}</option>
+                        ))}
+                      </select>
+                    </td>
+                    <td style={{ padding: '12px 8px' }}>
+                      {isCohortScoped(draft.role) ? (
+                        <CohortPicker
+                          cohorts={cohorts}
+                          value={draft.cohortIds}
+                          onChange={(cohortIds) => setDrafts((prev) => ({ ...prev, [u.id]: { ...draft, cohortIds } }))}
+                        />
+                      ) : (
+                        <span style={{ color: 'var(--muted)' }}>—</span>
+                      )}
+                    </td>
+                    <td style={{ padding: '12px 8px', whiteSpace: 'nowrap', textAlign: 'right' }}>
+                      <button
+                        type="button"
+                        className="btn-accent-flat"
+                        disabled={busy || !dirty}
+                        onClick={() => handleSave(u)}
+                      >
+                        Save
+                      </button>{' '}
+                      <button
+                        type="button"
+                        className="btn-secondary-flat"
+                        disabled={busy || isSelf}
+                        onClick={() => handleRemove(u)}
+                      >
+                        Remove
+                      </button>
+                    </td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  )
+}
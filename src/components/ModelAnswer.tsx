@@ -0,0 +1,47 @@
+/**
+ * ModelAnswer — renders a question-bank model answer as markdown with
+ * highlighted fenced code (see src/lib/codeHighlight.ts).
+ *
+ * Question banks come from a GitHub repo any trainer can push to, so the
+ * rendered HTML is sanitized with DOMPurify like ChallengePrompt.
+ */
+'use client';
+
+import { useMemo } from 'react';
+import { Marked, type Tokens } from 'marked';
+import DOMPurify from 'isomorphic-dompurify';
+import { escapeHtml, highlightCode } from '@/lib/codeHighlight';
+
+const markdown = new Marked({
+  gfm: true,
+  breaks: true,
+  renderer: {
+    code({ text, lang }: Tokens.Code) {
+      const language = (lang ?? '').split(/\s+/)[0];
+      const label = language ? `<span class="model-answer-lang">${escapeHtml(language)}</span>` : '';
+      return `<pre>${label}<code>${highlightCode(text, language)}</code></pre>`;
+    },
+  },
+});
+
+export interface ModelAnswerProps {
+  text: string;
+  className?: string;
+}
+
+export function ModelAnswer({ text, className }: ModelAnswerProps) {
+  const html = useMemo(() => {
+    const raw = markdown.parse(text) as string;
+    return DOMPurify.sanitize(raw);
+  }, [text]);
+
+  return (
+    <div
+      className={`model-answer ${className ?? ''}`}
+      data-testid="model-answer"
+      dangerouslySetInnerHTML={{ __html: html }}
+    />
+  );
+}
+
+export default ModelAnswer;
@@ -12,9 +12,14 @@ import {
     Loader2,
     SkipForward,
     ChevronDown,
-    ChevronUp
+    ChevronUp,
+    Clock,
+    Lightbulb,
+    CornerDownRight
 } from 'lucide-react';
 import { ParsedQuestion, StarterQuestion, QuestionAssessment, SoftSkillsAssessment } from '@/lib/types';
+import { weightedKeywordCoverage } from '@/lib/markdownParser';
+import ModelAnswer from './ModelAnswer';
 
 interface QuestionCardProps {
     question: ParsedQuestion | StarterQuestion;
@@ -24,10 +29,11 @@ interface QuestionCardProps {
     onToggleKeyword: (keyword: string) => void;
     onToggleSoftSkill: (skill: keyof SoftSkillsAssessment) => void;
     onNotesChange: (notes: string) => void;
-    onComplete: () => void;
-    onSkip: () => void;
+    // Omit both to hide the action bar (co-interviewer view follows the lead).
+    onComplete?: () => void;
+    onSkip?: () => void;
     onDidNotGetTo: (value: boolean) => void;
-    isProcessing: boolean;
+    isProcessing?: boolean;
 }
 
 // DESIGN.md difficulty → semantic token color
@@ -58,9 +64,13 @@ export default function QuestionCard({
     isProcessing,
 }: QuestionCardProps) {
     const [showModelAnswer, setShowModelAnswer] = useState(false);
+    const [hintsRevealed, setHintsRevealed] = useState(0);
 
     const isParsedQuestion = 'modelAnswer' in question;
     const isStarterQuestion = 'type' in question;
+    const parsed = isParsedQuestion ? (question as ParsedQuestion) : null;
+    const keywordGroups = new Map((parsed?.keywordGroups ?? []).map(g => [g.keyword, g]));
+    const isWeighted = (parsed?.keywordGroups ?? []).some(g => g.weight !== 1);
 
     const softSkillItems: Array<{
         key: keyof SoftSkillsAssessment;
@@ -98,6 +108,12 @@ export default function QuestionCard({
                                 Starter Question
                             </span>
                         )}
+                        {parsed?.estimatedMinutes && (
+                            <span className="flex items-center gap-1 text-[var(--muted)] text-xs font-medium tabular-nums">
+                                <Clock className="w-3.5 h-3.5" />
+                                ~{parsed.estimatedMinutes} min
+                            </span>
+                        )}
                     </div>
                     <label className="flex items-center gap-2 text-[var(--muted)] text-sm cursor-pointer hover:text-[var(--ink)] transition-colors">
                         <input
@@ -147,10 +163,12 @@ export default function QuestionCard({
                             <div className="flex flex-wrap gap-2">
                                 {(question as ParsedQuestion).keywords.map((keyword) => {
                                     const isHit = assessment.keywordsHit.includes(keyword);
+                                    const group = keywordGroups.get(keyword);
                                     return (
                                         <button
                                             key={keyword}
                                             onClick={() => onToggleKeyword(keyword)}
+                                            title={group && group.synonyms.length > 0 ? `Also accept: ${group.synonyms.join(', ')}` : undefined}
                                             className={`px-3.5 py-1.5 rounded-full text-sm font-medium transition-colors duration-150 border ${isHit
                                                     ? 'border-[var(--success)] bg-[var(--surface-muted)] text-[var(--success)]'
                                                     : 'border-[var(--border)] bg-[var(--surface-muted)] text-[var(--muted)] hover:text-[var(--ink)] hover:bg-[var(--highlight)]'
@@ -159,6 +177,14 @@ export default function QuestionCard({
                                             <span className="flex items-center gap-1.5">
                                                 {isHit && <CheckCircle2 className="w-3.5 h-3.5 text-[var(--success)]" />}
                                                 {keyword}
+                                                {group && group.synonyms.length > 0 && (
+                                                    <span className="text-xs opacity-70">/ {group.synonyms.join(' / ')}</span>
+                                                )}
+                                                {group && group.weight !== 1 && (
+                                                    <span className="text-[10px] font-semibold tabular-nums" style={{ fontFamily: 'var(--font-jetbrains-mono)' }}>
+                                                        ×{group.weight}
+                                                    </span>
+                                                )}
                                             </span>
                                         </button>
                                     );
@@ -166,6 +192,9 @@ export default function QuestionCard({
                             </div>
                             <p className="mt-3 text-xs font-medium text-[var(--muted)] tabular-nums">
                                 {assessment.keywordsHit.length} of {(question as ParsedQuestion).keywords.length} keywords mentioned
+                                {isWeighted && (
+                                    <> · {Math.round((weightedKeywordCoverage(question as ParsedQuestion, assessment.keywordsHit) ?? 0) * 100)}% weighted</>
+                                )}
                             </p>
                         </div>
                     )}
@@ -192,6 +221,57 @@ export default function QuestionCard({
                         </div>
                     )}
 
+                    {/* Hints - revealed one at a time so the interviewer can nudge without giving the answer away */}
+                    {parsed?.hints && parsed.hints.length > 0 && (
+                        <div className="p-6 border-b border-[var(--border-subtle)]">
+                            <h3
+                                className="text-[11px] font-semibold text-[var(--muted)] mb-3 flex items-center gap-2 uppercase"
+                                style={{ fontFamily: 'var(--font-jetbrains-mono)', letterSpacing: '0.08em' }}
+                            >
+                                <Lightbulb className="w-3.5 h-3.5" />
+                                Hints ({hintsRevealed} of {parsed.hints.length} revealed)
+                            </h3>
+                            {hintsRevealed > 0 && (
+                                <ol className="space-y-2 mb-3">
+                                    {parsed.hints.slice(0, hintsRevealed).map((hint, i) => (
+                                        <li key={i} className="text-sm text-[var(--ink)]">
+                                            <span className="text-[var(--muted)] tabular-nums mr-2">{i + 1}.</span>
+                                            {hint}
+                                        </li>
+                                    ))}
+                                </ol>
+                            )}
+                            {hintsRevealed < parsed.hints.length && (
+                                <button
+                                    onClick={() => setHintsRevealed(hintsRevealed + 1)}
+                                    className="text-[var(--accent)] hover:text-[var(--accent-hover)] font-medium text-sm transition-colors"
+                                >
+                                    Reveal {hintsRevealed === 0 ? 'a hint' : 'next hint'}
+                                </button>
+                            )}
+                        </div>
+                    )}
+
+                    {/* Scripted follow-ups */}
+                    {parsed?.followUps && parsed.followUps.length > 0 && (
+                        <div className="p-6 border-b border-[var(--border-subtle)]">
+                            <h3
+                                className="text-[11px] font-semibold text-[var(--muted)] mb-3 uppercase"
+                                style={{ fontFamily: 'var(--font-jetbrains-mono)', letterSpacing: '0.08em' }}
+                            >
+                                Follow-up Questions
+                            </h3>
+                            <ul className="space-y-2">
+                                {parsed.followUps.map((followUp, i) => (
+                                    <li key={i} className="flex items-start gap-2 text-sm text-[var(--ink)]">
+                                        <CornerDownRight className="w-4 h-4 text-[var(--muted)] flex-shrink-0 mt-0.5" />
+                                        {followUp}
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    )}
+
                     {/* Soft Skills Section */}
                     <div className="p-6 border-b border-[var(--border-subtle)]">
                         <h3
@@ -236,9 +316,10 @@ export default function QuestionCard({
                             </button>
                             {showModelAnswer && (
                                 <div className="px-6 pb-6 pt-2 animate-slide-up">
-                                    <div className="bg-[var(--surface-muted)] border border-[var(--border-subtle)] rounded-lg p-5 text-sm text-[var(--ink)] whitespace-pre-wrap max-h-64 overflow-y-auto custom-scrollbar leading-relaxed">
-                                        {(question as ParsedQuestion).modelAnswer}
-                                    </div>
+                                    <ModelAnswer
+                                        text={(question as ParsedQuestion).modelAnswer}
+                                        className="bg-[var(--surface-muted)] border border-[var(--border-subtle)] rounded-lg p-5 text-sm text-[var(--ink)] max-h-64 overflow-y-auto custom-scrollbar leading-relaxed"
+                                    />
                                 </div>
                             )}
                         </div>
@@ -261,32 +342,34 @@ export default function QuestionCard({
                     </div>
 
                     {/* Actions */}
-                    <div className="p-6 bg-[var(--surface-muted)] flex flex-col sm:flex-row items-center justify-between gap-4">
-                        <button
-                            onClick={onSkip}
-                            className="w-full sm:w-auto px-4 py-2.5 text-[var(--muted)] hover:text-[var(--ink)] hover:bg-[var(--highlight)] rounded-md font-medium flex items-center justify-center gap-2 transition-colors text-sm"
-                        >
-                            <SkipForward className="w-4 h-4" />
-                            Skip to Next
-                        </button>
-                        <button
-                            onClick={onComplete}
-                            disabled={isProcessing}
-                            className="btn-accent-flat w-full sm:w-auto flex items-center justify-center gap-2 text-sm"
-                        >
-                            {isProcessing ? (
-                                <>
-                                    <Loader2 className="w-4 h-4 animate-spin" />
-                                    Processing...
-                                </>
-                            ) : (
-                                <>
-                                    <CheckCircle2 className="w-4 h-4" />
-                                    Complete & Continue
-                                </>
-                            )}
-                        </button>
-                    </div>
+                    {(onComplete || onSkip) && (
+                        <div className="p-6 bg-[var(--surface-muted)] flex flex-col sm:flex-row items-center justify-between gap-4">
+                            <button
+                                onClick={onSkip}
+                                className="w-full sm:w-auto px-4 py-2.5 text-[var(--muted)] hover:text-[var(--ink)] hover:bg-[var(--highlight)] rounded-md font-medium flex items-center justify-center gap-2 transition-colors text-sm"
+                            >
+                                <SkipForward className="w-4 h-4" />
+                                Skip to Next
+                            </button>
+                            <button
+                                onClick={onComplete}
+                                disabled={isProcessing}
+                                className="btn-accent-flat w-full sm:w-auto flex items-center justify-center gap-2 text-sm"
+                            >
+                                {isProcessing ? (
+                                    <>
+                                        <Loader2 className="w-4 h-4 animate-spin" />
+                                        Processing...
+                                    </>
+                                ) : (
+                                    <>
+                                        <CheckCircle2 className="w-4 h-4" />
+                                        Complete & Continue
+                                    </>
+                                )}
+                            </button>
+                        </div>
+                    )}
                 </div>
             )}
         </div>
@@ -0,0 +1,99 @@
+/**
+ * AssessmentCountdown — timed-assessment strip above the solve workspace.
+ *
+ * Shows the assessment title, the time left in the associate's sitting
+ * (ticking once a second, red in the last five minutes) and attempts used
+ * on this challenge. Calls onExpire once when the clock reaches zero.
+ */
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+
+export interface AssessmentCountdownProps {
+  title: string;
+  expiresAt: string;
+  attemptsUsed: number;
+  attemptCap: number;
+  onExpire?: () => void;
+}
+
+const WARNING_MS = 5 * 60_000;
+
+export function formatRemaining(ms: number): string {
+  const total = Math.max(0, Math.ceil(ms / 1000));
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = total % 60;
+  const mm = String(m).padStart(2, '0');
+  const ss = String(s).padStart(2, '0');
+  return h > 0 ? `${h}:${mm}:${ss}` : `${mm}:${ss}`;
+}
+
+export function AssessmentCountdown({
+  title,
+  expiresAt,
+  attemptsUsed,
+  attemptCap,
+  onExpire,
+}: AssessmentCountdownProps) {
+  const deadline = Date.parse(expiresAt);
+  const [now, setNow] = useState(() => Date.now());
+  const expiredRef = useRef(false);
+  const onExpireRef = useRef(onExpire);
+  useEffect(() => {
+    onExpireRef.current = onExpire;
+  }, [onExpire]);
+
+  const remaining = deadline - now;
+
+  useEffect(() => {
+    if (remaining <= 0) {
+      if (!expiredRef.current) {
+        expiredRef.current = true;
+        onExpireRef.current?.();
+      }
+      return;
+    }
+    const timer = setTimeout(() => setNow(Date.now()), Math.min(1000, remaining));
+    return () => clearTimeout(timer);
+  }, [remaining]);
+
+  const urgent = remaining <= WARNING_MS;
+
+  return (
+    <div
+      style={{
+        display: 'flex',
+        alignItems: 'center',
+        gap: '16px',
+        padding: '10px 16px',
+        marginBottom: '16px',
+        background: urgent ? 'var(--danger-bg)' : 'var(--surface-muted)',
+        border: `1px solid ${urgent ? 'var(--danger)' : 'var(--border)'}`,
+        borderRadius: '8px',
+        fontFamily: "var(--font-dm-sans), 'DM Sans', sans-serif",
+        fontSize: '13px',
+        color: 'var(--ink)',
+      }}
+    >
+      <span style={{ flex: 1, fontWeight: 600 }}>{title}</span>
+      <span style={{ color: 'var(--muted)' }}>
+        Attempts {attemptsUsed}/{attemptCap}
+      </span>
+      <span
+        role="timer"
+        aria-label="Time remaining"
+        style={{
+          fontFamily: "var(--font-jetbrains-mono), 'JetBrains Mono', monospace",
+          fontWeight: 600,
+          fontSize: '15px',
+          color: urgent ? 'var(--danger)' : 'var(--ink)',
+        }}
+      >
+        {remaining > 0 ? formatRemaining(remaining) : "Time's up"}
+      </span>
+    </div>
+  );
+}
+
+export default AssessmentCountdown;
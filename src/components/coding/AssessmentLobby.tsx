@@ -0,0 +1,158 @@
+/**
+ * AssessmentLobby — entry point of a timed assessment for an associate.
+ *
+ * Before the sitting: rules (window, time limit, attempt cap, language lock)
+ * and a Start button that POSTs /api/coding/assessments/[id]/start. After:
+ * the challenge list with attempts used, each linking to the solve view with
+ * `?assessment=<id>` so the workspace runs the countdown.
+ */
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import type { AssociateAssessmentView } from '@/lib/codingAssessmentService';
+import { formatRemaining } from './AssessmentCountdown';
+
+export interface AssessmentLobbyProps {
+  assessment: AssociateAssessmentView;
+}
+
+const DATE_FMT = new Intl.DateTimeFormat('en-US', {
+  month: 'short',
+  day: 'numeric',
+  hour: 'numeric',
+  minute: '2-digit',
+});
+
+const textStyle = {
+  fontFamily: "var(--font-dm-sans), 'DM Sans', sans-serif",
+  fontSize: '14px',
+  color: 'var(--muted)',
+} as const;
+
+export function AssessmentLobby({ assessment }: AssessmentLobbyProps) {
+  const [starting, setStarting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleStart = async () => {
+    setStarting(true);
+    setError(null);
+    try {
+      const res = await fetch(
+        `/api/coding/assessments/${encodeURIComponent(assessment.id)}/start`,
+        { method: 'POST', credentials: 'include' },
+      );
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}));
+        throw new Error(body?.error?.message ?? `HTTP ${res.status}`);
+      }
+      // Reload so the server renders the challenge list for the new sitting.
+      window.location.reload();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to start');
+      setStarting(false);
+    }
+  };
+
+  const session = assessment.session;
+  const remaining = session ? Date.parse(session.expiresAt) - Date.now() : 0;
+
+  return (
+    <div>
+      <h1
+        style={{
+          fontFamily: "var(--font-display), 'Clash Display', sans-serif",
+          fontWeight: 600,
+          fontSize: '32px',
+          color: 'var(--ink)',
+          margin: 0,
+        }}
+      >
+        {assessment.title}
+      </h1>
+      <ul style={{ ...textStyle, margin: '16px 0 24px', paddingLeft: '20px', lineHeight: 1.7 }}>
+        <li>
+          Open {DATE_FMT.format(new Date(assessment.opensAt))} –{' '}
+          {DATE_FMT.format(new Date(assessment.closesAt))}
+        </li>
+        <li>{assessment.durationMinutes} minutes once started; the clock does not pause</li>
+        <li>Up to {assessment.attemptCap} graded submissions per challenge</li>
+        {assessment.language && <li>Answers must be written in {assessment.language}</li>}
+        <li>Your code is submitted automatically when time runs out</li>
+        <li>Leaving the tab and pasting are recorded for your trainer</li>
+      </ul>
+
+      {error && (
+        <p role="alert" style={{ ...textStyle, color: 'var(--danger)' }}>
+          {error}
+        </p>
+      )}
+
+      {!session ? (
+        assessment.status === 'open' ? (
+          <button
+            type="button"
+            onClick={handleStart}
+            disabled={starting}
+            style={{
+              background: 'var(--accent)',
+              color: 'var(--text-on-accent)',
+              border: 'none',
+              borderRadius: '8px',
+              padding: '10px 20px',
+              fontFamily: "var(--font-dm-sans), 'DM Sans', sans-serif",
+              fontSize: '14px',
+              fontWeight: 600,
+              cursor: starting ? 'not-allowed' : 'pointer',
+              opacity: starting ? 0.6 : 1,
+            }}
+          >
+            {starting ? 'Starting…' : 'Start assessment'}
+          </button>
+        ) : (
+          <p style={textStyle}>
+            {assessment.status === 'upcoming'
+              ? 'This assessment has not opened yet.'
+              : 'This assessment has closed.'}
+          </p>
+        )
+      ) : (
+        <>
+          <p style={{ ...textStyle, color: 'var(--ink)' }}>
+            {remaining > 0
+              ? `Time remaining: ${formatRemaining(remaining)}`
+              : 'Your time is over. Submitted attempts are with your trainer.'}
+          </p>
+          <ul role="list" style={{ listStyle: 'none', margin: 0, padding: 0 }}>
+            {assessment.challenges.map((c) => (
+              <li
+                key={c.id}
+                style={{
+                  display: 'flex',
+                  alignItems: 'baseline',
+                  gap: '12px',
+                  padding: '12px 0',
+                  borderBottom: '1px solid var(--border)',
+                  ...textStyle,
+                }}
+              >
+                <Link
+                  href={`/coding/${encodeURIComponent(c.id)}?assessment=${encodeURIComponent(assessment.id)}`}
+                  style={{ flex: 1, color: 'var(--ink)', fontWeight: 600 }}
+                >
+                  {c.title}
+                </Link>
+                <span>{c.difficulty}</span>
+                <span>
+                  {c.attemptsUsed}/{assessment.attemptCap} attempts
+                </span>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+}
+
+export default AssessmentLobby;
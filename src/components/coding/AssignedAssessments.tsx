@@ -0,0 +1,82 @@
+/**
+ * AssignedAssessments — timed assessments assigned to the associate's cohort
+ * that have not closed, shown above the challenge list on /coding. Each row
+ * links to the assessment lobby.
+ */
+import Link from 'next/link';
+import type { AssociateAssessmentView } from '@/lib/codingAssessmentService';
+
+export type AssignedAssessment = Omit<AssociateAssessmentView, 'challenges'> & {
+  challengeCount: number;
+};
+
+export interface AssignedAssessmentsProps {
+  assessments: AssignedAssessment[];
+}
+
+const DATE_FMT = new Intl.DateTimeFormat('en-US', {
+  month: 'short',
+  day: 'numeric',
+  hour: 'numeric',
+  minute: '2-digit',
+});
+
+function statusLabel(a: AssignedAssessment): string {
+  if (a.session) return 'In progress';
+  if (a.status === 'upcoming') return `Opens ${DATE_FMT.format(new Date(a.opensAt))}`;
+  return `Open until ${DATE_FMT.format(new Date(a.closesAt))}`;
+}
+
+export function AssignedAssessments({ assessments }: AssignedAssessmentsProps) {
+  if (assessments.length === 0) return null;
+  return (
+    <section style={{ margin: '0 24px 24px' }} aria-label="Assigned assessments">
+      <h2
+        style={{
+          fontFamily: "var(--font-dm-sans), 'DM Sans', sans-serif",
+          fontSize: '11px',
+          fontWeight: 500,
+          color: 'var(--muted)',
+          textTransform: 'uppercase',
+          letterSpacing: '0.06em',
+          margin: '0 0 8px 0',
+        }}
+      >
+        Assessments
+      </h2>
+      <ul role="list" style={{ listStyle: 'none', margin: 0, padding: 0 }}>
+        {assessments.map((a) => (
+          <li
+            key={a.id}
+            style={{
+              display: 'flex',
+              gap: '16px',
+              alignItems: 'baseline',
+              padding: '12px 16px',
+              marginBottom: '8px',
+              background: 'var(--surface)',
+              border: '1px solid var(--border)',
+              borderRadius: '8px',
+              fontFamily: "var(--font-dm-sans), 'DM Sans', sans-serif",
+              fontSize: '14px',
+              color: 'var(--muted)',
+            }}
+          >
+            <Link
+              href={`/coding/assessments/${encodeURIComponent(a.id)}`}
+              style={{ flex: 1, color: 'var(--ink)', fontWeight: 600 }}
+            >
+              {a.title}
+            </Link>
+            <span>
+              {a.challengeCount} challenges &middot; {a.durationMinutes} min
+            </span>
+            <span>{statusLabel(a)}</span>
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+}
+
+export default AssignedAssessments;
@@ -12,7 +12,7 @@
 
 import Link from 'next/link';
 import type { ChallengeListItem } from '@/hooks/useChallengeList';
-import { SQL_DIALECT_LABEL, isSqlDialectChallenge } from '@/lib/codingLabels';
+import { getSqlDialectLabel, isSqlDialectChallenge } from '@/lib/codingLabels';
 
 export interface ChallengeCardProps {
   challenge: ChallengeListItem;
@@ -126,7 +126,7 @@ export function ChallengeCard({ challenge }: ChallengeCardProps) {
                   margin: '4px 0 0 0',
                 }}
               >
-                {SQL_DIALECT_LABEL}
+                {getSqlDialectLabel(challenge.sqlDialect)}
               </p>
             )}
           </div>
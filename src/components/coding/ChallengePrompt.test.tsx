@@ -6,9 +6,10 @@
  * markdown is untrusted; any <script>/<iframe>/on* attribute must be stripped.
  */
 import { describe, it, expect } from 'vitest';
-import { render, screen } from '@testing-library/react';
+import { render, screen, within } from '@testing-library/react';
 import '@testing-library/jest-dom/vitest';
 import { ChallengePrompt } from './ChallengePrompt';
+import { describeSchema } from '@/lib/sqlSchemaPreview';
 
 describe('ChallengePrompt sanitization (WR-01)', () => {
   it('strips <script> tags from rendered output', () => {
@@ -45,3 +46,22 @@ describe('ChallengePrompt sanitization (WR-01)', () => {
     expect(anchor?.getAttribute('href')).toBe('https://example.com');
   });
 });
+
+describe('ChallengePrompt schema preview', () => {
+  it('renders table cards and relationships for SQL challenges', () => {
+    const schema = describeSchema(
+      'CREATE TABLE customers (id INTEGER PRIMARY KEY, name TEXT NOT NULL);\n' +
+        'CREATE TABLE orders (id INTEGER PRIMARY KEY, customer_id INTEGER REFERENCES customers(id));',
+    );
+    render(<ChallengePrompt markdown="# Orders" schema={schema} />);
+    const preview = screen.getByRole('region', { name: 'Database schema' });
+    expect(within(preview).getByRole('heading', { name: 'customers' })).toBeInTheDocument();
+    expect(within(preview).getByText('customer_id')).toBeInTheDocument();
+    expect(within(preview).getByText('orders.customer_id → customers.id')).toBeInTheDocument();
+  });
+
+  it('renders no preview without a schema', () => {
+    render(<ChallengePrompt markdown="# Two Sum" />);
+    expect(screen.queryByTestId('schema-preview')).not.toBeInTheDocument();
+  });
+});
@@ -7,35 +7,45 @@
  *
  * Phase 40 review WR-01: removed "trusted source" assumption; `marked` does
  * not strip <script>/<iframe>/javascript: URLs on its own.
+ *
+ * SQL challenges pass `schema` (derived server-side from setup.sql) and get
+ * an ER outline of the tables they query below the prompt.
  */
 'use client';
 
 import { useMemo } from 'react';
 import { marked } from 'marked';
 import DOMPurify from 'isomorphic-dompurify';
+import type { SchemaPreview as SchemaPreviewData } from '@/lib/sqlSchemaPreview';
+import { SchemaPreview } from './SchemaPreview';
 
 export interface ChallengePromptProps {
   markdown: string;
+  /** SQL challenges: tables + relationships from setup.sql */
+  schema?: SchemaPreviewData | null;
 }
 
-export function ChallengePrompt({ markdown }: ChallengePromptProps) {
+export function ChallengePrompt({ markdown, schema }: ChallengePromptProps) {
   const html = useMemo(() => {
     const raw = marked.parse(markdown, { gfm: true, breaks: false }) as string;
     return DOMPurify.sanitize(raw);
   }, [markdown]);
 
   return (
-    <div
-      className="coding-prompt"
-      data-testid="challenge-prompt"
-      dangerouslySetInnerHTML={{ __html: html }}
-      style={{
-        fontFamily: "var(--font-dm-sans), 'DM Sans', sans-serif",
-        fontSize: '16px',
-        color: 'var(--ink)',
-        lineHeight: 1.55,
-      }}
-    />
+    <>
+      <div
+        className="coding-prompt"
+        data-testid="challenge-prompt"
+        dangerouslySetInnerHTML={{ __html: html }}
+        style={{
+          fontFamily: "var(--font-dm-sans), 'DM Sans', sans-serif",
+          fontSize: '16px',
+          color: 'var(--ink)',
+          lineHeight: 1.55,
+        }}
+      />
+      {schema && <SchemaPreview schema={schema} />}
+    </>
   );
 }
 
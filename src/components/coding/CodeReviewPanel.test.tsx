@@ -0,0 +1,83 @@
+// @vitest-environment jsdom
+/**
+ * CodeReviewPanel.test.tsx — polling the review endpoint until the review is
+ * ready, the disabled (render nothing) and failed states.
+ */
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { act, render, screen } from '@testing-library/react';
+import '@testing-library/jest-dom/vitest';
+import { CodeReviewPanel, REVIEW_POLL_MS } from './CodeReviewPanel';
+
+const READY = {
+  status: 'ready',
+  model: 'review-model',
+  summary: 'Works, but sorts twice.',
+  correctness: 'Handles empty input.',
+  complexity: 'O(n log n).',
+  readability: 'Clear names.',
+  style: 'Use a Counter.',
+  completedAt: '2026-05-01T12:00:05.000Z',
+};
+
+function reply(body: unknown) {
+  return { ok: true, status: 200, json: async () => body };
+}
+
+describe('CodeReviewPanel', () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    fetchMock = vi.fn();
+    globalThis.fetch = fetchMock as never;
+  });
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('polls while the review is pending, then renders its sections', async () => {
+    fetchMock
+      .mockResolvedValueOnce(reply({ enabled: true, review: { status: 'pending', model: null, completedAt: null } }))
+      .mockResolvedValueOnce(reply({ enabled: true, review: READY }));
+
+    render(<CodeReviewPanel attemptId="att-1" />);
+    await act(async () => {});
+    expect(screen.getByText('Review in progress…')).toBeInTheDocument();
+    expect(fetchMock).toHaveBeenCalledWith('/api/coding/attempts/att-1/review', { credentials: 'include' });
+
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(REVIEW_POLL_MS);
+    });
+    expect(screen.getByText('Works, but sorts twice.')).toBeInTheDocument();
+    expect(screen.getByText('Use a Counter.')).toBeInTheDocument();
+    expect(screen.getByRole('heading', { name: 'Complexity' })).toBeInTheDocument();
+
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(REVIEW_POLL_MS * 3);
+    });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('renders nothing and stops when reviews are disabled', async () => {
+    fetchMock.mockResolvedValue(reply({ enabled: false, review: null }));
+    const { container } = render(<CodeReviewPanel attemptId="att-1" />);
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(REVIEW_POLL_MS * 3);
+    });
+    expect(container).toBeEmptyDOMElement();
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('shows an unavailable note for a failed review', async () => {
+    fetchMock.mockResolvedValue(reply({ enabled: true, review: { status: 'failed', model: null, completedAt: null } }));
+    render(<CodeReviewPanel attemptId="att-1" />);
+    await act(async () => {});
+    expect(screen.getByText('AI review is unavailable for this attempt.')).toBeInTheDocument();
+  });
+
+  it('waits for the attempt to resolve before polling', async () => {
+    render(<CodeReviewPanel attemptId="att-1" resolved={false} />);
+    await act(async () => {});
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
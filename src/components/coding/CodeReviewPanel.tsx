@@ -0,0 +1,148 @@
+/**
+ * CodeReviewPanel — AI code review of a resolved attempt.
+ *
+ * Polls GET /api/coding/attempts/[id]/review every REVIEW_POLL_MS while the
+ * review is on its way (the first poll that resolves the attempt starts it),
+ * then renders the correctness / complexity / readability / style sections.
+ * Renders nothing when reviews are disabled. Used under the VerdictCard on
+ * the solve page and in the trainer coding panel; callers key it by attempt
+ * id so a new attempt starts from a clean state.
+ */
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { CodeReviewView } from '@/lib/codeReviewService';
+
+export interface CodeReviewPanelProps {
+  attemptId: string;
+  /** Start polling only once the attempt has a verdict. */
+  resolved?: boolean;
+}
+
+interface ReviewResponse {
+  enabled: boolean;
+  review: CodeReviewView | null;
+}
+
+export const REVIEW_POLL_MS = 3_000;
+/** Give up waiting after this many polls (~2 min), matching REVIEW_STALE_MS. */
+const MAX_POLLS = 40;
+
+const SECTIONS = [
+  ['correctness', 'Correctness'],
+  ['complexity', 'Complexity'],
+  ['readability', 'Readability'],
+  ['style', 'Style'],
+] as const;
+
+const textStyle = {
+  fontFamily: "var(--font-dm-sans), 'DM Sans', sans-serif",
+  fontSize: '14px',
+  lineHeight: 1.55,
+  color: 'var(--ink)',
+  margin: 0,
+} as const;
+
+const headingStyle = {
+  fontFamily: "var(--font-jetbrains-mono), 'JetBrains Mono', monospace",
+  fontSize: '11px',
+  textTransform: 'uppercase',
+  letterSpacing: '0.08em',
+  color: 'var(--muted)',
+  margin: 0,
+} as const;
+
+export function CodeReviewPanel({ attemptId, resolved = true }: CodeReviewPanelProps) {
+  const [data, setData] = useState<ReviewResponse | null>(null);
+  const [gaveUp, setGaveUp] = useState(false);
+
+  useEffect(() => {
+    if (!resolved) return;
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    let polls = 0;
+
+    async function poll() {
+      polls += 1;
+      try {
+        const res = await fetch(`/api/coding/attempts/${encodeURIComponent(attemptId)}/review`, {
+          credentials: 'include',
+        });
+        if (cancelled) return;
+        if (res.ok) {
+          const body = (await res.json()) as ReviewResponse;
+          if (cancelled) return;
+          setData(body);
+          const waiting = body.enabled && (body.review === null || body.review.status === 'pending');
+          if (!waiting) return;
+        }
+      } catch {
+        // Network blip — retry on the next tick.
+      }
+      if (cancelled) return;
+      if (polls >= MAX_POLLS) {
+        setGaveUp(true);
+        return;
+      }
+      timer = setTimeout(poll, REVIEW_POLL_MS);
+    }
+
+    void poll();
+    return () => {
+      cancelled = true;
+      if (timer) clearTimeout(timer);
+    };
+  }, [attemptId, resolved]);
+
+  if (!data || !data.enabled) return null;
+  const review = data.review;
+
+  let body: React.ReactNode;
+  if (review?.status === 'ready') {
+    body = (
+      <>
+        {review.summary && <p style={textStyle}>{review.summary}</p>}
+        {SECTIONS.map(([key, label]) =>
+          review[key] ? (
+            <div key={key} style={{ display: 'flex', flexDirection: 'column', gap: '4px' }}>
+              <h4 style={headingStyle}>{label}</h4>
+              <p style={textStyle}>{review[key]}</p>
+            </div>
+          ) : null,
+        )}
+      </>
+    );
+  } else if (review?.status === 'failed' || gaveUp) {
+    body = (
+      <p style={{ ...textStyle, color: 'var(--muted)' }}>AI review is unavailable for this attempt.</p>
+    );
+  } else {
+    body = <p style={{ ...textStyle, color: 'var(--muted)' }}>Review in progress…</p>;
+  }
+
+  return (
+    <section
+      data-testid="code-review"
+      aria-live="polite"
+      style={{
+        background: 'var(--surface)',
+        border: '1px solid var(--border)',
+        borderRadius: '12px',
+        padding: '20px 24px',
+        display: 'flex',
+        flexDirection: 'column',
+        gap: '12px',
+      }}
+    >
+      <h3 style={headingStyle}>
+        AI Review
+        {review?.status === 'ready' && review.model && (
+          <span style={{ textTransform: 'none', letterSpacing: 0 }}> · {review.model}</span>
+        )}
+      </h3>
+      {body}
+    </section>
+  );
+}
+
+export default CodeReviewPanel;
@@ -4,6 +4,13 @@
  * Composes LanguageToggle + CodingEditor. Per CONTEXT D-08: switching language
  * resets code to `starters[lang]` (literal reset on each switch — preserve-draft
  * behavior is deferred to v1.5).
+ *
+ * Multi-file challenges (`starterFiles[lang]`) add a FileTree beside the
+ * editor. Edits are tracked per path and reported through onFilesChange;
+ * read-only files open in a read-only editor and are never reported.
+ *
+ * `onEdits` forwards the editor's raw changes with the edited file's path
+ * (SINGLE_FILE_PATH for single-file challenges) for the edit timeline.
  */
 'use client';
 
@@ -11,30 +18,48 @@ import { useState } from 'react';
 import { LanguageToggle } from './LanguageToggle';
 import { CodingEditor } from './MonacoEditor';
 import type { CodingEditorLanguage } from './MonacoEditor';
+import { FileTree } from './FileTree';
 import { useColorMode } from '@/hooks/useColorMode';
+import type { StarterFile } from '@/lib/coding-bank-schemas';
+import type { ProjectFile } from '@/lib/projectFiles';
+import { SINGLE_FILE_PATH, type TextChange } from '@/lib/editTimeline';
 
 export interface EditorPaneProps {
   languages: string[];
   starters: Record<string, string>;
   onCodeChange: (language: string, code: string) => void;
+  starterFiles?: Partial<Record<string, StarterFile[]>>;
+  /** Editable files after each edit; null when the language is single-file */
+  onFilesChange?: (language: string, files: ProjectFile[] | null) => void;
   initialLanguage?: string;
   editorHeight?: string | number;
+  onEdits?: (path: string, changes: TextChange[]) => void;
 }
 
 function isSupportedLanguage(l: string): l is CodingEditorLanguage {
   return ['python', 'javascript', 'typescript', 'java', 'sql', 'csharp'].includes(l);
 }
 
+/** Editable files only — the server re-applies read-only ones from the bank. */
+export function editableFiles(files: StarterFile[]): ProjectFile[] {
+  return files.filter((f) => !f.readOnly).map(({ path, content }) => ({ path, content }));
+}
+
 export function EditorPane({
   languages,
   starters,
   onCodeChange,
+  starterFiles,
+  onFilesChange,
   initialLanguage,
   editorHeight = 'calc(100vh - 320px)',
+  onEdits,
 }: EditorPaneProps) {
   const first = initialLanguage ?? languages[0] ?? 'python';
   const [currentLang, setCurrentLang] = useState<string>(first);
   const [code, setCode] = useState<string>(starters[first] ?? '');
+  const [files, setFiles] = useState<StarterFile[] | null>(starterFiles?.[first] ?? null);
+  const [selectedPath, setSelectedPath] = useState<string>(files?.[0]?.path ?? '');
   const mode = useColorMode();
 
   const handleLangChange = (lang: string) => {
@@ -42,13 +67,26 @@ export function EditorPane({
     const next = starters[lang] ?? '';
     setCode(next);
     onCodeChange(lang, next);
+    const nextFiles = starterFiles?.[lang] ?? null;
+    setFiles(nextFiles);
+    setSelectedPath(nextFiles?.[0]?.path ?? '');
+    onFilesChange?.(lang, nextFiles ? editableFiles(nextFiles) : null);
   };
 
   const handleCodeChange = (next: string) => {
+    if (files) {
+      const updated = files.map((f) => (f.path === selectedPath ? { ...f, content: next } : f));
+      setFiles(updated);
+      onFilesChange?.(currentLang, editableFiles(updated));
+      // Keep `code` tracking the entry file so empty-submit checks still work.
+      if (selectedPath !== files[0].path) return;
+    }
     setCode(next);
     onCodeChange(currentLang, next);
   };
 
+  const selectedFile = files?.find((f) => f.path === selectedPath) ?? null;
+
   const editorLang: CodingEditorLanguage = isSupportedLanguage(currentLang)
     ? currentLang
     : 'python';
@@ -76,14 +114,24 @@ export function EditorPane({
           minHeight: '320px',
           height: editorHeight,
           display: 'flex',
+          gap: '12px',
         }}
       >
+        {files && (
+          <FileTree files={files} selected={selectedPath} onSelect={setSelectedPath} />
+        )}
         <CodingEditor
           language={editorLang}
-          value={code}
+          value={selectedFile ? selectedFile.content : code}
           onChange={handleCodeChange}
           theme={mode}
           height="100%"
+          readOnly={selectedFile?.readOnly ?? false}
+          onEdits={
+            onEdits
+              ? (changes) => onEdits(selectedFile ? selectedFile.path : SINGLE_FILE_PATH, changes)
+              : undefined
+          }
         />
       </div>
     </div>
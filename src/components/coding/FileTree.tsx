@@ -0,0 +1,121 @@
+/**
+ * FileTree — file list for multi-file challenges.
+ *
+ * Paths are grouped under their directories (one level of indentation per
+ * segment); read-only files carry a lock badge. Emits `onSelect(path)`.
+ */
+'use client';
+
+export interface FileTreeEntry {
+  path: string;
+  readOnly: boolean;
+}
+
+export interface FileTreeProps {
+  files: FileTreeEntry[];
+  selected: string;
+  onSelect: (path: string) => void;
+}
+
+type Row =
+  | { kind: 'dir'; key: string; name: string; depth: number }
+  | { kind: 'file'; key: string; name: string; depth: number; file: FileTreeEntry };
+
+/** Flatten paths into display rows, emitting each directory once before its first file. */
+function toRows(files: FileTreeEntry[]): Row[] {
+  const rows: Row[] = [];
+  const seenDirs = new Set<string>();
+  for (const file of files) {
+    const parts = file.path.split('/');
+    for (let i = 0; i < parts.length - 1; i++) {
+      const dir = parts.slice(0, i + 1).join('/');
+      if (!seenDirs.has(dir)) {
+        seenDirs.add(dir);
+        rows.push({ kind: 'dir', key: `${dir}/`, name: parts[i], depth: i });
+      }
+    }
+    rows.push({
+      kind: 'file',
+      key: file.path,
+      name: parts[parts.length - 1],
+      depth: parts.length - 1,
+      file,
+    });
+  }
+  return rows;
+}
+
+export function FileTree({ files, selected, onSelect }: FileTreeProps) {
+  return (
+    <nav
+      aria-label="Project files"
+      style={{
+        minWidth: '160px',
+        maxWidth: '220px',
+        padding: '8px 0',
+        border: '1px solid var(--border)',
+        borderRadius: '8px',
+        background: 'var(--surface-muted)',
+        fontFamily: "var(--font-jetbrains-mono), 'JetBrains Mono', monospace",
+        fontSize: '12px',
+        overflowY: 'auto',
+      }}
+    >
+      <ul role="list" style={{ listStyle: 'none', margin: 0, padding: 0 }}>
+        {toRows(files).map((row) =>
+          row.kind === 'dir' ? (
+            <li
+              key={row.key}
+              style={{
+                padding: `4px 12px 4px ${12 + row.depth * 12}px`,
+                color: 'var(--muted)',
+              }}
+            >
+              {row.name}/
+            </li>
+          ) : (
+            <li key={row.key}>
+              <button
+                type="button"
+                onClick={() => onSelect(row.file.path)}
+                aria-current={row.file.path === selected ? 'true' : undefined}
+                title={row.file.readOnly ? `${row.file.path} (read-only)` : row.file.path}
+                style={{
+                  display: 'flex',
+                  alignItems: 'center',
+                  justifyContent: 'space-between',
+                  gap: '8px',
+                  width: '100%',
+                  padding: `4px 12px 4px ${12 + row.depth * 12}px`,
+                  background: row.file.path === selected ? 'var(--surface)' : 'transparent',
+                  border: 'none',
+                  cursor: 'pointer',
+                  textAlign: 'left',
+                  font: 'inherit',
+                  color: row.file.path === selected ? 'var(--ink)' : 'var(--muted)',
+                  fontWeight: row.file.path === selected ? 600 : 400,
+                }}
+              >
+                <span>{row.name}</span>
+                {row.file.readOnly && (
+                  <span
+                    style={{
+                      fontSize: '10px',
+                      textTransform: 'uppercase',
+                      letterSpacing: '0.06em',
+                      color: 'var(--muted)',
+                    }}
+                  >
+                    read-only
+                  </span>
+                )}
+              </button>
+            </li>
+          ),
+        )}
+      </ul>
+    </nav>
+  );
+}
+
+export default FileTree;
@@ -9,11 +9,16 @@
  * Why `next/dynamic` + `ssr:false`:
  *   - Monaco depends on `window`/`document` — SSR would throw.
  *   - Dynamic import code-splits the ~2MB chunk; initial page bundles stay lean.
+ *
+ * `onEdits` optionally reports each user edit as model-offset changes for
+ * the attempt edit timeline (src/lib/editTimeline.ts). Programmatic value
+ * updates (language reset, file switch) are not user edits and not reported.
  */
 'use client';
 
 import dynamic from 'next/dynamic';
 import type { CSSProperties } from 'react';
+import type { TextChange } from '@/lib/editTimeline';
 
 const MonacoEditorDynamic = dynamic(
   () => import('@monaco-editor/react').then((m) => m.Editor),
@@ -53,6 +58,10 @@ export interface CodingEditorProps {
   onChange: (value: string) => void;
   theme: 'light' | 'dark';
   height?: string | number;
+  /** Read-only files in multi-file challenges */
+  readOnly?: boolean;
+  /** Edit-timeline recording hook; called with the changes of each user edit */
+  onEdits?: (changes: TextChange[]) => void;
   className?: string;
   style?: CSSProperties;
 }
@@ -71,6 +80,8 @@ export function CodingEditor({
   onChange,
   theme,
   height = '100%',
+  readOnly = false,
+  onEdits,
   className,
   style,
 }: CodingEditorProps) {
@@ -97,10 +108,22 @@ export function CodingEditor({
       <MonacoEditorDynamic
         language={monacoLanguageId(language)}
         value={value}
-        onChange={(v) => onChange(v ?? '')}
+        onChange={(v, ev) => {
+          if (onEdits && !ev.isFlush) {
+            onEdits(
+              ev.changes.map((c) => ({
+                offset: c.rangeOffset,
+                deleted: c.rangeLength,
+                text: c.text,
+              })),
+            );
+          }
+          onChange(v ?? '');
+        }}
         theme={monacoTheme}
         options={{
           minimap: { enabled: false },
+          readOnly,
           fontSize: 13,
           fontFamily:
             "var(--font-jetbrains-mono), 'JetBrains Mono', Menlo, Consolas, monospace",
@@ -0,0 +1,121 @@
+/**
+ * RunOutputPanel — output of an ungraded scratch run (/api/coding/run).
+ *
+ * One block per case: verdict, pass/fail when there was an expected output,
+ * time + memory, then stdout and any stderr / compiler output. Deliberately
+ * styled apart from VerdictCard so nobody mistakes a run for a submission.
+ */
+'use client';
+
+import type { RunCaseResult, RunResult } from '@/lib/codingRun';
+
+export interface RunOutputPanelProps {
+  result: RunResult;
+  onClose?: () => void;
+}
+
+const monoLabel: React.CSSProperties = {
+  fontFamily: "var(--font-jetbrains-mono), 'JetBrains Mono', monospace",
+  fontSize: '11px',
+  fontWeight: 500,
+  textTransform: 'uppercase',
+  letterSpacing: '0.06em',
+  color: 'var(--muted)',
+};
+
+const preStyle: React.CSSProperties = {
+  margin: '4px 0 0 0',
+  padding: '8px 10px',
+  background: 'var(--surface-muted)',
+  borderRadius: '6px',
+  fontFamily: "var(--font-jetbrains-mono), 'JetBrains Mono', monospace",
+  fontSize: '12px',
+  color: 'var(--ink)',
+  whiteSpace: 'pre-wrap',
+  wordBreak: 'break-word',
+  maxHeight: '200px',
+  overflow: 'auto',
+};
+
+function statusLine(r: RunCaseResult): { text: string; color: string } {
+  if (r.verdict === 'pending') return { text: 'Still running', color: 'var(--muted)' };
+  if (r.passed === true) return { text: 'Passed', color: 'var(--success)' };
+  if (r.passed === false && r.verdict === 'fail') return { text: 'Wrong output', color: 'var(--danger)' };
+  if (r.verdict === 'pass' || r.verdict === 'fail') return { text: 'Ran', color: 'var(--ink)' };
+  return { text: r.verdict.replace('_', ' '), color: 'var(--danger)' };
+}
+
+function Output({ label, value }: { label: string; value: string | null }) {
+  if (value === null || value === '') return null;
+  return (
+    <div style={{ marginTop: '8px' }}>
+      <span style={monoLabel}>{label}</span>
+      <pre style={preStyle}>{value}</pre>
+    </div>
+  );
+}
+
+export function RunOutputPanel({ result, onClose }: RunOutputPanelProps) {
+  return (
+    <section
+      aria-label="Run output"
+      style={{
+        background: 'var(--surface)',
+        border: '1px dashed var(--border)',
+        borderRadius: '12px',
+        padding: '16px 20px',
+        fontFamily: "var(--font-dm-sans), 'DM Sans', sans-serif",
+      }}
+    >
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '8px' }}>
+        <span style={monoLabel}>Run output · not graded</span>
+        {onClose && (
+          <button
+            type="button"
+            onClick={onClose}
+            style={{ ...monoLabel, background: 'none', border: 'none', cursor: 'pointer', padding: 0 }}
+          >
+            Clear
+          </button>
+        )}
+      </div>
+      {!result.resolved && (
+        <p style={{ fontSize: '13px', color: 'var(--muted)', margin: '0 0 8px 0' }}>
+          The sandbox is slow right now — some cases had not finished. Run again to refresh.
+        </p>
+      )}
+      {result.results.map((r, i) => {
+        const status = statusLine(r);
+        return (
+          <div
+            key={r.caseId ?? `custom-${i}`}
+            style={{
+              padding: '12px 0',
+              borderTop: i === 0 ? 'none' : '1px solid var(--border-subtle)',
+            }}
+          >
+            <div style={{ display: 'flex', gap: '12px', alignItems: 'baseline', flexWrap: 'wrap' }}>
+              <span style={{ fontSize: '14px', fontWeight: 600, color: 'var(--ink)' }}>
+                {r.caseId === null ? 'Custom input' : `Test ${i + 1}`}
+              </span>
+              <span style={{ fontSize: '13px', fontWeight: 600, color: status.color, textTransform: 'capitalize' }}>
+                {status.text}
+              </span>
+              <span style={monoLabel}>
+                {r.timeMs !== null ? `${r.timeMs} ms` : '—'}
+                {r.memoryKb !== null ? ` · ${Math.round(r.memoryKb / 1024)} MB` : ''}
+              </span>
+            </div>
+            <Output label="Input" value={r.stdin} />
+            {r.passed === false && <Output label="Expected" value={r.expectedStdout} />}
+            <Output label="Stdout" value={r.stdout} />
+            <Output label="Stderr" value={r.stderr} />
+            <Output label="Compiler" value={r.compileOutput} />
+          </div>
+        );
+      })}
+    </section>
+  );
+}
+
+export default RunOutputPanel;
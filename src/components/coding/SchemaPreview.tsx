@@ -0,0 +1,149 @@
+/**
+ * SchemaPreview — ER outline of a SQL challenge's tables under the prompt.
+ *
+ * Data comes from the challenge detail route's `schema` field, which
+ * sqlSchemaPreview.ts derives from setup.sql server-side: table cards with
+ * column types and PK / FK markers, then the foreign-key relationships as
+ * `from.column → to.column` lines. Structure only — no seed rows.
+ */
+'use client';
+
+import type { SchemaColumn, SchemaPreview as SchemaPreviewData } from '@/lib/sqlSchemaPreview';
+
+export interface SchemaPreviewProps {
+  schema: SchemaPreviewData;
+}
+
+const monoLabel: React.CSSProperties = {
+  fontFamily: "var(--font-jetbrains-mono), 'JetBrains Mono', monospace",
+  fontSize: '11px',
+  fontWeight: 500,
+  textTransform: 'uppercase',
+  letterSpacing: '0.06em',
+  color: 'var(--muted)',
+};
+
+const badge: React.CSSProperties = {
+  fontFamily: "var(--font-jetbrains-mono), 'JetBrains Mono', monospace",
+  fontSize: '10px',
+  fontWeight: 600,
+  padding: '1px 5px',
+  borderRadius: '4px',
+  marginLeft: '6px',
+};
+
+function ColumnRow({ column }: { column: SchemaColumn }) {
+  return (
+    <li
+      style={{
+        display: 'flex',
+        justifyContent: 'space-between',
+        gap: '12px',
+        padding: '4px 10px',
+        borderTop: '1px solid var(--border)',
+      }}
+    >
+      <span style={{ color: 'var(--ink)', fontWeight: column.primaryKey ? 600 : 400 }}>
+        {column.name}
+        {column.primaryKey && (
+          <span style={{ ...badge, background: 'var(--highlight)', color: 'var(--accent)' }} title="Primary key">
+            PK
+          </span>
+        )}
+        {column.references && (
+          <span
+            style={{ ...badge, background: 'var(--surface-muted)', color: 'var(--muted)' }}
+            title={`References ${column.references.table}`}
+          >
+            FK
+          </span>
+        )}
+      </span>
+      <span style={{ color: 'var(--muted)' }}>
+        {column.type || '—'}
+        {column.notNull && !column.primaryKey ? ' not null' : ''}
+      </span>
+    </li>
+  );
+}
+
+export function SchemaPreview({ schema }: SchemaPreviewProps) {
+  if (schema.tables.length === 0) return null;
+  return (
+    <section
+      aria-label="Database schema"
+      data-testid="schema-preview"
+      style={{ marginTop: '24px', paddingTop: '16px', borderTop: '1px solid var(--border)' }}
+    >
+      <span style={monoLabel}>Schema</span>
+      <div
+        style={{
+          display: 'grid',
+          gridTemplateColumns: 'repeat(auto-fill, minmax(220px, 1fr))',
+          gap: '12px',
+          marginTop: '8px',
+        }}
+      >
+        {schema.tables.map((table) => (
+          <div
+            key={table.name}
+            style={{
+              border: '1px solid var(--border)',
+              borderRadius: '8px',
+              background: 'var(--surface)',
+              overflow: 'hidden',
+            }}
+          >
+            <h4
+              style={{
+                margin: 0,
+                padding: '6px 10px',
+                background: 'var(--surface-muted)',
+                fontFamily: "var(--font-jetbrains-mono), 'JetBrains Mono', monospace",
+                fontSize: '13px',
+                fontWeight: 600,
+                color: 'var(--ink)',
+              }}
+            >
+              {table.name}
+            </h4>
+            <ul
+              style={{
+                listStyle: 'none',
+                margin: 0,
+                padding: 0,
+                fontFamily: "var(--font-jetbrains-mono), 'JetBrains Mono', monospace",
+                fontSize: '12px',
+              }}
+            >
+              {table.columns.map((column) => (
+                <ColumnRow key={column.name} column={column} />
+              ))}
+            </ul>
+          </div>
+        ))}
+      </div>
+      {schema.relationships.length > 0 && (
+        <div style={{ marginTop: '12px' }}>
+          <span style={monoLabel}>Relationships</span>
+          <ul
+            style={{
+              margin: '4px 0 0 0',
+              paddingLeft: '18px',
+              fontFamily: "var(--font-jetbrains-mono), 'JetBrains Mono', monospace",
+              fontSize: '12px',
+              color: 'var(--ink)',
+            }}
+          >
+            {schema.relationships.map((rel) => (
+              <li key={`${rel.fromTable}.${rel.fromColumn}`}>
+                {rel.fromTable}.{rel.fromColumn} → {rel.toTable}
+                {rel.toColumn ? `.${rel.toColumn}` : ''}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </section>
+  );
+}
@@ -7,9 +7,12 @@
  *   - LanguageToggle filters to challenge.languages and emits selection
  *   - useColorMode reads <html class="dark"> reactively
  *   - EditorPane resets code on language switch (D-08 literal)
+ *   - EditorPane file tree for multi-file challenges (read-only files locked)
  *   - SubmitBar POSTs to /api/coding/submit and disables while pending
  *   - SubmitBar handles 429 + FORBIDDEN error envelopes
- *   - SubmitBar Run button is present but disabled with tooltip
+ *   - SubmitBar Run button is disabled until wired, then POSTs to /api/coding/run
+ *   - Timed assessments: SubmitBar auto-submits at the deadline with the
+ *     assessmentId, locked Submit, AssessmentCountdown expiry
  */
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { act, fireEvent, render, screen, waitFor } from '@testing-library/react';
@@ -26,14 +29,17 @@ vi.mock('./MonacoEditor', () => ({
     value,
     onChange,
     language,
+    readOnly,
   }: {
     value: string;
     onChange: (v: string) => void;
     language: string;
+    readOnly?: boolean;
   }) => (
     <textarea
       data-testid="coding-editor"
       data-language={language}
+      readOnly={readOnly}
       value={value}
       onChange={(e) => onChange(e.target.value)}
     />
@@ -44,6 +50,7 @@ import { ChallengePrompt } from './ChallengePrompt';
 import { LanguageToggle } from './LanguageToggle';
 import { EditorPane } from './EditorPane';
 import { SubmitBar } from './SubmitBar';
+import { AssessmentCountdown, formatRemaining } from './AssessmentCountdown';
 import { useColorMode } from '@/hooks/useColorMode';
 
 describe('ChallengePrompt', () => {
@@ -147,6 +154,38 @@ describe('EditorPane', () => {
     const editor = screen.getByTestId('coding-editor') as HTMLTextAreaElement;
     expect(editor.value).toBe('// js starter');
   });
+
+  it('multi-file: shows a file tree, locks read-only files, reports editable files', () => {
+    const onFilesChange = vi.fn();
+    render(
+      <EditorPane
+        languages={['python']}
+        starters={{ python: 'from lib.util import f' }}
+        starterFiles={{
+          python: [
+            { path: 'main.py', content: 'from lib.util import f', readOnly: false },
+            { path: 'lib/util.py', content: 'def f(): pass', readOnly: true },
+          ],
+        }}
+        onCodeChange={() => {}}
+        onFilesChange={onFilesChange}
+      />,
+    );
+    const tree = screen.getByRole('navigation', { name: 'Project files' });
+    expect(tree).toHaveTextContent('lib/');
+    const editor = screen.getByTestId('coding-editor') as HTMLTextAreaElement;
+    fireEvent.change(editor, { target: { value: 'print(1)' } });
+    expect(onFilesChange).toHaveBeenLastCalledWith('python', [{ path: 'main.py', content: 'print(1)' }]);
+
+    fireEvent.click(screen.getByTitle('lib/util.py (read-only)'));
+    const util = screen.getByTestId('coding-editor') as HTMLTextAreaElement;
+    expect(util.value).toBe('def f(): pass');
+    expect(util.readOnly).toBe(true);
+
+    // Switching back keeps the edit.
+    fireEvent.click(screen.getByTitle('main.py'));
+    expect((screen.getByTestId('coding-editor') as HTMLTextAreaElement).value).toBe('print(1)');
+  });
 });
 
 describe('SubmitBar', () => {
@@ -161,7 +200,7 @@ describe('SubmitBar', () => {
     delete (globalThis as unknown as { fetch?: unknown }).fetch;
   });
 
-  it('renders a disabled Run button with Coming soon tooltip', () => {
+  it('renders a disabled Run button when no onRunComplete is wired', () => {
     render(
       <SubmitBar
         challengeId="c1"
@@ -170,9 +209,38 @@ describe('SubmitBar', () => {
         onAttemptStarted={() => {}}
       />,
     );
+    expect(screen.getByRole('button', { name: /run/i })).toBeDisabled();
+  });
+
+  it('Run POSTs custom stdin to /api/coding/run and hands back the result', async () => {
+    const result = { resolved: true, results: [] };
+    fetchMock.mockResolvedValueOnce({
+      ok: true,
+      status: 200,
+      json: async () => result,
+    });
+    const onRun = vi.fn();
+    const onStarted = vi.fn();
+    render(
+      <SubmitBar
+        challengeId="c1"
+        language="python"
+        code="x=1"
+        stdin="5"
+        onAttemptStarted={onStarted}
+        onRunComplete={onRun}
+      />,
+    );
     const run = screen.getByRole('button', { name: /run/i });
-    expect(run).toBeDisabled();
-    expect(run.getAttribute('title')).toMatch(/coming soon/i);
+    expect(run.getAttribute('title')).toMatch(/not graded/i);
+    await act(async () => {
+      fireEvent.click(run);
+    });
+    await waitFor(() => expect(onRun).toHaveBeenCalledWith(result));
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('/api/coding/run');
+    expect(JSON.parse(init.body)).toEqual({ challengeId: 'c1', language: 'python', code: 'x=1', stdin: '5' });
+    expect(onStarted).not.toHaveBeenCalled();
   });
 
   it('Submit POSTs and calls onAttemptStarted with 201 attemptId', async () => {
@@ -200,6 +268,59 @@ describe('SubmitBar', () => {
     );
   });
 
+  it('multi-file: Submit sends files instead of code', async () => {
+    fetchMock.mockResolvedValueOnce({
+      ok: true,
+      status: 201,
+      json: async () => ({ attemptId: 'a-9' }),
+    });
+    render(
+      <SubmitBar
+        challengeId="c1"
+        language="python"
+        code="ignored"
+        files={[{ path: 'main.py', content: 'print(1)' }]}
+        onAttemptStarted={() => {}}
+      />,
+    );
+    await act(async () => {
+      fireEvent.click(screen.getByRole('button', { name: /submit/i }));
+    });
+    const body = JSON.parse(fetchMock.mock.calls[0][1].body as string);
+    expect(body).toEqual({
+      challengeId: 'c1',
+      language: 'python',
+      files: [{ path: 'main.py', content: 'print(1)' }],
+    });
+  });
+
+  it('Submit sends the recorded edit timeline when one exists', async () => {
+    fetchMock.mockResolvedValueOnce({
+      ok: true,
+      status: 201,
+      json: async () => ({ attemptId: 'a-10' }),
+    });
+    const timeline = {
+      v: 1 as const,
+      files: [{ path: 'main', content: '' }],
+      events: [[0, 'e', 0, 0, 0, 'x=1'] as [number, 'e', number, number, number, string]],
+    };
+    render(
+      <SubmitBar
+        challengeId="c1"
+        language="python"
+        code="x=1"
+        getTimeline={() => timeline}
+        onAttemptStarted={() => {}}
+      />,
+    );
+    await act(async () => {
+      fireEvent.click(screen.getByRole('button', { name: /submit/i }));
+    });
+    const body = JSON.parse(fetchMock.mock.calls[0][1].body as string);
+    expect(body).toEqual({ challengeId: 'c1', language: 'python', code: 'x=1', timeline });
+  });
+
   it('Submit disables while pending (aria-busy)', async () => {
     let resolveFetch: (v: unknown) => void = () => {};
     fetchMock.mockImplementationOnce(
@@ -349,4 +470,91 @@ describe('SubmitBar', () => {
     expect(err.code).toBe('FEATURE_DISABLED');
     expect(err.message).toMatch(/coming soon/i);
   });
+  describe('timed assessments', () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('auto-submits once at the deadline with the assessmentId', async () => {
+      vi.useFakeTimers();
+      fetchMock.mockResolvedValue({
+        ok: true,
+        status: 201,
+        json: async () => ({ attemptId: 'att-auto' }),
+      });
+      const onStarted = vi.fn();
+      const onAuto = vi.fn();
+      render(
+        <SubmitBar
+          challengeId="c1"
+          language="python"
+          code="print(1)"
+          onAttemptStarted={onStarted}
+          assessmentId="as-1"
+          autoSubmitAt={new Date(Date.now() + 5000).toISOString()}
+          onAutoSubmit={onAuto}
+        />,
+      );
+      await act(async () => {
+        vi.advanceTimersByTime(4999);
+      });
+      expect(fetchMock).not.toHaveBeenCalled();
+      await act(async () => {
+        vi.advanceTimersByTime(1);
+      });
+      expect(onAuto).toHaveBeenCalledTimes(1);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      const body = JSON.parse(fetchMock.mock.calls[0][1].body as string);
+      expect(body).toEqual({
+        challengeId: 'c1',
+        language: 'python',
+        code: 'print(1)',
+        assessmentId: 'as-1',
+      });
+      await act(async () => {
+        vi.advanceTimersByTime(60_000);
+      });
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      expect(onStarted).toHaveBeenCalledWith('att-auto');
+    });
+
+    it('locks Submit with the given reason', () => {
+      render(
+        <SubmitBar
+          challengeId="c1"
+          language="python"
+          code="print(1)"
+          onAttemptStarted={() => {}}
+          submitLockedReason="Attempt limit reached (3)"
+        />,
+      );
+      const btn = screen.getByRole('button', { name: /submit/i });
+      expect(btn).toBeDisabled();
+      expect(btn).toHaveAttribute('title', 'Attempt limit reached (3)');
+    });
+
+    it('AssessmentCountdown ticks down and reports expiry once', async () => {
+      vi.useFakeTimers();
+      const onExpire = vi.fn();
+      render(
+        <AssessmentCountdown
+          title="Week 3 check"
+          expiresAt={new Date(Date.now() + 2000).toISOString()}
+          attemptsUsed={1}
+          attemptCap={3}
+          onExpire={onExpire}
+        />,
+      );
+      expect(screen.getByRole('timer')).toHaveTextContent('00:02');
+      expect(screen.getByText('Attempts 1/3')).toBeInTheDocument();
+      for (let i = 0; i < 3; i++) {
+        await act(async () => {
+          vi.advanceTimersByTime(1000);
+        });
+      }
+      expect(screen.getByRole('timer')).toHaveTextContent("Time's up");
+      expect(onExpire).toHaveBeenCalledTimes(1);
+      expect(formatRemaining(3_725_000)).toBe('1:02:05');
+    });
+  });
 });
@@ -8,20 +8,47 @@
  *   - usePollAttempt(latestAttemptId) → VerdictCard state driver
  *   - AttemptHistorySidebar with onSelectAttempt swap-in
  *   - Error surfaces via react-hot-toast (Toaster mounted at shell root — see DesignToaster)
+ *
+ * Scratch runs: "Run" executes against the visible tests, or the custom input
+ * box when it is open, and shows RunOutputPanel. Runs are never graded and do
+ * not appear in attempt history.
+ *
+ * Timed assessments (`assessment` prop, from /coding/[id]?assessment=…) add a
+ * countdown, restrict the language toggle to the locked language, submit
+ * automatically when the sitting expires and log tab switches/paste sizes
+ * via useProctorLog. Submit locks at expiry or once the attempt cap is used.
+ *
+ * With `recordEdits` (CODING_EDIT_TIMELINE_ENABLED), edits are recorded into
+ * an edit timeline (useEditTimeline) with run/submit marks; each submit
+ * carries the edits since the previous one so trainers can replay the
+ * attempt, and a notice under the editor tells the associate.
+ *
+ * Resolved attempts show the AI code review (CodeReviewPanel) under the
+ * VerdictCard when reviews are enabled — except inside a timed assessment.
  */
 'use client';
 
-import { useState } from 'react';
+import { useMemo, useState } from 'react';
 import { Toaster, toast } from 'react-hot-toast';
 import { ChallengePrompt } from './ChallengePrompt';
-import { EditorPane } from './EditorPane';
+import { EditorPane, editableFiles } from './EditorPane';
 import { SubmitBar } from './SubmitBar';
 import type { SubmitBarError } from './SubmitBar';
 import { VerdictCard } from './VerdictCard';
+import { CodeReviewPanel } from './CodeReviewPanel';
 import { AttemptHistorySidebar } from './AttemptHistorySidebar';
 import { CodingComingSoon } from './CodingComingSoon';
+import { RunOutputPanel } from './RunOutputPanel';
+import { AssessmentCountdown } from './AssessmentCountdown';
+import type { RunResult } from '@/lib/codingRun';
+import type { SqlDialect, StarterFile } from '@/lib/coding-bank-schemas';
+import type { SchemaPreview } from '@/lib/sqlSchemaPreview';
+import type { ProjectFile } from '@/lib/projectFiles';
 import { usePollAttempt } from '@/hooks/usePollAttempt';
-import { SQL_DIALECT_LABEL, isSqlDialectChallenge } from '@/lib/codingLabels';
+import { useProctorLog } from '@/hooks/useProctorLog';
+import { useEditTimeline } from '@/hooks/useEditTimeline';
+import { SINGLE_FILE_PATH, type TimelineFile } from '@/lib/editTimeline';
+import { getSqlDialectLabel, isSqlDialectChallenge } from '@/lib/codingLabels';
 
 export interface ChallengeDetail {
   id: string;
@@ -33,11 +60,32 @@ export interface ChallengeDetail {
   language: string;
   languages: string[];
   starters: Record<string, string>;
+  /** Multi-file challenges only */
+  starterFiles?: Partial<Record<string, StarterFile[]>>;
   visibleTests?: Array<{ caseId: string; stdin: string; expectedStdout: string }>;
+  /** SQL challenges only */
+  sqlDialect?: SqlDialect | null;
+  /** SQL challenges only: tables + relationships derived from setup.sql */
+  schema?: SchemaPreview | null;
+}
+
+/** The associate's running assessment sitting, when solving inside one. */
+export interface AssessmentContext {
+  id: string;
+  title: string;
+  expiresAt: string;
+  /** Language lock; null allows any of the challenge's languages */
+  language: string | null;
+  attemptCap: number;
+  /** Graded attempts already used on this challenge in this sitting */
+  attemptsUsed: number;
 }
 
 export interface SolveWorkspaceProps {
   challenge: ChallengeDetail;
+  assessment?: AssessmentContext;
+  /** Record the edit timeline and send it with submits */
+  recordEdits?: boolean;
 }
 
 function difficultyPill(d: string): { bg: string; fg: string; label: string } {
@@ -54,10 +102,18 @@ function difficultyPill(d: string): { bg: string; fg: string; label: string } {
   };
 }
 
-export function SolveWorkspace({ challenge }: SolveWorkspaceProps) {
-  const initialLang = challenge.languages[0] ?? challenge.language ?? 'python';
+export function SolveWorkspace({ challenge, assessment, recordEdits = false }: SolveWorkspaceProps) {
+  const languages =
+    assessment?.language && challenge.languages.includes(assessment.language)
+      ? [assessment.language]
+      : challenge.languages;
+  const initialLang = languages[0] ?? challenge.language ?? 'python';
   const [language, setLanguage] = useState<string>(initialLang);
   const [code, setCode] = useState<string>(challenge.starters[initialLang] ?? '');
+  const [files, setFiles] = useState<ProjectFile[] | null>(() => {
+    const initialFiles = challenge.starterFiles?.[initialLang];
+    return initialFiles ? editableFiles(initialFiles) : null;
+  });
   const [latestAttemptId, setLatestAttemptId] = useState<string | null>(null);
   const [historyRefresh, setHistoryRefresh] = useState<number>(0);
   // Phase 50 (JUDGE-INTEG-02): race-case defense-in-depth. If the server-side
@@ -65,6 +121,23 @@ export function SolveWorkspace({ challenge }: SolveWorkspaceProps) {
   // hits a revision where the flag is off, swap in ComingSoon rather than
   // toasting a misleading "sandbox down" message.
   const [disabledByServer, setDisabledByServer] = useState<boolean>(false);
+  const [customInputOpen, setCustomInputOpen] = useState<boolean>(false);
+  const [customInput, setCustomInput] = useState<string>('');
+  const [runResult, setRunResult] = useState<RunResult | null>(null);
+  const [attemptsUsed, setAttemptsUsed] = useState<number>(assessment?.attemptsUsed ?? 0);
+  const [expired, setExpired] = useState<boolean>(
+    () => !!assessment && Date.parse(assessment.expiresAt) <= Date.now(),
+  );
+  const logProctorEvent = useProctorLog(assessment?.id ?? null, challenge.id);
+  // Timeline starting point for the current language; a switch resets the editor.
+  const timelineFiles = useMemo<TimelineFile[]>(
+    () =>
+      challenge.starterFiles?.[language]?.map(({ path, content }) => ({ path, content })) ?? [
+        { path: SINGLE_FILE_PATH, content: challenge.starters[language] ?? '' },
+      ],
+    [challenge, language],
+  );
+  const timeline = useEditTimeline(timelineFiles, recordEdits);
 
   const poll = usePollAttempt(latestAttemptId);
 
@@ -75,8 +148,13 @@ export function SolveWorkspace({ challenge }: SolveWorkspaceProps) {
       setDisabledByServer(true);
       return;
     }
-    if (err.code === 'RATE_LIMITED' && err.retryAfterSeconds) {
-      toast.error(`Too many submissions — try again in ${err.retryAfterSeconds}s.`);
+    if (err.reason === 'EXPIRED') {
+      setExpired(true);
+      toast.error('Assessment time is over — this submission was not recorded.');
+    } else if (err.reason) {
+      toast.error(err.message);
+    } else if (err.code === 'RATE_LIMITED' && err.retryAfterSeconds) {
+      toast.error(`Rate limit reached — try again in ${err.retryAfterSeconds}s.`);
     } else if (err.code === 'FORBIDDEN') {
       toast.error(`Language not available for your cohort: ${err.message}`);
     } else if (err.code === 'NETWORK_ERROR') {
@@ -90,6 +168,13 @@ export function SolveWorkspace({ challenge }: SolveWorkspaceProps) {
     return <CodingComingSoon />;
   }
 
+  let submitLockedReason: string | null = null;
+  if (assessment && expired) {
+    submitLockedReason = 'Assessment time is over';
+  } else if (assessment && attemptsUsed >= assessment.attemptCap) {
+    submitLockedReason = `Attempt limit reached (${assessment.attemptCap})`;
+  }
+
   return (
     <>
       <Toaster
@@ -104,6 +189,15 @@ export function SolveWorkspace({ challenge }: SolveWorkspaceProps) {
           },
         }}
       />
+      {assessment && (
+        <AssessmentCountdown
+          title={assessment.title}
+          expiresAt={assessment.expiresAt}
+          attemptsUsed={attemptsUsed}
+          attemptCap={assessment.attemptCap}
+          onExpire={() => setExpired(true)}
+        />
+      )}
       <div
         className="grid grid-cols-1 md:grid-cols-12 gap-6"
         style={{ alignItems: 'start' }}
@@ -133,7 +227,7 @@ export function SolveWorkspace({ challenge }: SolveWorkspaceProps) {
                   margin: '6px 0 0 0',
                 }}
               >
-                {SQL_DIALECT_LABEL}
+                {getSqlDialectLabel(challenge.sqlDialect)}
               </p>
             )}
             <div
@@ -175,7 +269,7 @@ export function SolveWorkspace({ challenge }: SolveWorkspaceProps) {
               </span>
             </div>
           </header>
-          <ChallengePrompt markdown={challenge.description} />
+          <ChallengePrompt markdown={challenge.description} schema={challenge.schema} />
         </section>
 
         {/* Editor + verdict + history column */}
@@ -184,25 +278,104 @@ export function SolveWorkspace({ challenge }: SolveWorkspaceProps) {
           style={{ display: 'flex', flexDirection: 'column', gap: '12px', minWidth: 0 }}
         >
           <EditorPane
-            languages={challenge.languages}
+            languages={languages}
             starters={challenge.starters}
             onCodeChange={(lang, c) => {
               setLanguage(lang);
               setCode(c);
             }}
+            starterFiles={challenge.starterFiles}
+            onFilesChange={(_lang, f) => setFiles(f)}
             initialLanguage={initialLang}
+            onEdits={recordEdits ? timeline.recordEdits : undefined}
           />
+          {recordEdits && (
+            <p
+              style={{
+                fontFamily: "var(--font-dm-sans), 'DM Sans', sans-serif",
+                fontSize: '12px',
+                color: 'var(--muted)',
+                margin: 0,
+              }}
+            >
+              Your edits are recorded and sent with each submission so your trainer can replay how
+              you worked.
+            </p>
+          )}
+          <div>
+            <button
+              type="button"
+              onClick={() => setCustomInputOpen((open) => !open)}
+              aria-expanded={customInputOpen}
+              style={{
+                background: 'none',
+                border: 'none',
+                padding: 0,
+                cursor: 'pointer',
+                fontFamily: "var(--font-dm-sans), 'DM Sans', sans-serif",
+                fontSize: '13px',
+                color: 'var(--accent)',
+              }}
+            >
+              {customInputOpen ? 'Run visible tests instead' : 'Use custom input'}
+            </button>
+            {customInputOpen && (
+              <textarea
+                aria-label="Custom input"
+                value={customInput}
+                onChange={(e) => setCustomInput(e.target.value)}
+                rows={4}
+                placeholder={language === 'sql' ? 'SELECT … (runs after your query)' : 'stdin for Run'}
+                style={{
+                  display: 'block',
+                  width: '100%',
+                  marginTop: '8px',
+                  padding: '8px 10px',
+                  background: 'var(--surface)',
+                  border: '1px solid var(--border)',
+                  borderRadius: '8px',
+                  fontFamily: "var(--font-jetbrains-mono), 'JetBrains Mono', monospace",
+                  fontSize: '12px',
+                  color: 'var(--ink)',
+                  boxSizing: 'border-box',
+                  resize: 'vertical',
+                }}
+              />
+            )}
+          </div>
           <SubmitBar
             challengeId={challenge.id}
             language={language}
             code={code}
+            files={files}
             onAttemptStarted={(id) => {
+              timeline.commitSubmit();
               setLatestAttemptId(id);
               setHistoryRefresh((n) => n + 1);
+              setAttemptsUsed((n) => n + 1);
             }}
             onError={handleSubmitError}
+            stdin={customInputOpen ? customInput : null}
+            onRunComplete={(result) => {
+              timeline.mark('run');
+              setRunResult(result);
+            }}
+            getTimeline={recordEdits ? timeline.snapshotForSubmit : undefined}
+            {...(assessment
+              ? {
+                  assessmentId: assessment.id,
+                  autoSubmitAt:
+                    attemptsUsed < assessment.attemptCap ? assessment.expiresAt : null,
+                  onAutoSubmit: () => logProctorEvent('auto_submit'),
+                  submitLockedReason,
+                }
+              : {})}
           />
 
+          {runResult && (
+            <RunOutputPanel result={runResult} onClose={() => setRunResult(null)} />
+          )}
+
           {latestAttemptId && (
             <VerdictCard
               response={poll.response}
@@ -212,6 +385,11 @@ export function SolveWorkspace({ challenge }: SolveWorkspaceProps) {
             />
           )}
 
+          {/* No AI hints mid-assessment — trainers still see the review. */}
+          {latestAttemptId && poll.status === 'resolved' && !assessment && (
+            <CodeReviewPanel key={latestAttemptId} attemptId={latestAttemptId} />
+          )}
+
           <AttemptHistorySidebar
             challengeId={challenge.id}
             onSelectAttempt={(id) => setLatestAttemptId(id)}
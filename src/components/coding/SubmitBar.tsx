@@ -1,95 +1,183 @@
 /**
  * SubmitBar — Phase 40 Plan 03 Task 2
  *
- * Horizontal control strip: Submit (primary) + Run (disabled, "Coming soon").
- * Per CONTEXT D-09/D-10: Submit hits /api/coding/submit; Run has no backend
- * in v1.4 (v1.5 deferred).
+ * Horizontal control strip: Submit (primary) + Run (secondary).
+ * Submit hits /api/coding/submit and creates a graded attempt. Run hits
+ * /api/coding/run — an ungraded scratch execution against the visible tests,
+ * or `stdin` when custom input is set — and hands the output to
+ * onRunComplete. Run is only enabled when the host wires onRunComplete.
+ * Multi-file challenges pass `files`, which are sent instead of `code`.
+ *
+ * Timed assessments pass `assessmentId` (sent with every submit) and
+ * `autoSubmitAt`: when that instant passes the current code is submitted
+ * once, automatically. `submitLockedReason` disables Submit (time over,
+ * attempt cap reached) and is shown as the button title.
+ *
+ * `getTimeline` supplies the editor's edit timeline, sent with each submit
+ * so trainers can replay the attempt.
  */
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
+import type { RunResult } from '@/lib/codingRun';
+import type { ProjectFile } from '@/lib/projectFiles';
+import type { EditTimeline } from '@/lib/editTimeline';
 
 export interface SubmitBarError {
   code?: string;
   message: string;
   retryAfterSeconds?: number;
+  /** `details.reason` of an assessment rejection (EXPIRED, ATTEMPT_CAP_REACHED, …) */
+  reason?: string;
 }
 
 export interface SubmitBarProps {
   challengeId: string;
   language: string;
   code: string;
+  /** Editable files of a multi-file challenge; replaces `code` in the request */
+  files?: ProjectFile[] | null;
   onAttemptStarted: (attemptId: string) => void;
   onError?: (err: SubmitBarError) => void;
+  /** Custom input for Run; null/undefined runs the visible tests */
+  stdin?: string | null;
+  onRunComplete?: (result: RunResult) => void;
+  /** Timed assessment this submit counts towards */
+  assessmentId?: string;
+  /** ISO instant at which the current code is submitted automatically */
+  autoSubmitAt?: string | null;
+  onAutoSubmit?: () => void;
+  /** Non-null disables Submit (assessment over, attempt cap reached) */
+  submitLockedReason?: string | null;
+  /** Edit timeline to store with the attempt; null when nothing was recorded */
+  getTimeline?: () => EditTimeline | null;
+}
+
+/** Map a non-OK /api/coding/* response to the SubmitBarError envelope. */
+async function toSubmitBarError(res: Response): Promise<SubmitBarError> {
+  let code: string | undefined;
+  let message = `HTTP ${res.status}`;
+  let body503Enabled: boolean | undefined;
+  let reason: string | undefined;
+  try {
+    const body = await res.json();
+    code = body?.error?.code;
+    reason = body?.error?.details?.reason;
+    message = body?.error?.message ?? body?.message ?? message;
+    // Phase 50 (JUDGE-INTEG-02 / D-05): flag-dark 503 has shape
+    // { enabled: false, message: "..." }. Detect it here so SolveWorkspace
+    // can swap in the ComingSoon card instead of toasting "sandbox down".
+    if (typeof body?.enabled === 'boolean') body503Enabled = body.enabled;
+  } catch {
+    /* ignore */
+  }
+  let retryAfterSeconds: number | undefined;
+  if (res.status === 429) {
+    const hdr = res.headers.get('Retry-After');
+    if (hdr) {
+      const n = Number.parseInt(hdr, 10);
+      if (Number.isFinite(n)) retryAfterSeconds = n;
+    }
+  }
+  // WR-02: 401 indicates session expiry. Surface AUTH_REQUIRED so the
+  // host page can redirect to /signin instead of a generic toast.
+  if (res.status === 401) {
+    code = 'AUTH_REQUIRED';
+    message = 'Session expired — please sign in again';
+  }
+  // Phase 50: flag-dark 503 → FEATURE_DISABLED so SolveWorkspace swaps
+  // in the ComingSoon card. Use error code, not string matching.
+  if (res.status === 503 && body503Enabled === false) {
+    code = 'FEATURE_DISABLED';
+    message = message || 'Coding challenges coming soon. Check back later!';
+  } else if (res.status === 503) {
+    // WR-03: real Judge0 outage (v1.6+) — keep the sandbox-unavailable
+    // mapping for non-flag 503s.
+    code = code ?? 'SANDBOX_UNAVAILABLE';
+    message = 'Judge0 sandbox temporarily unavailable — try again in a moment';
+  }
+  return { code, message, retryAfterSeconds, ...(reason ? { reason } : {}) };
 }
 
 export function SubmitBar({
   challengeId,
   language,
   code,
+  files,
   onAttemptStarted,
   onError,
+  stdin,
+  onRunComplete,
+  assessmentId,
+  autoSubmitAt,
+  onAutoSubmit,
+  submitLockedReason,
+  getTimeline,
 }: SubmitBarProps) {
   const [pending, setPending] = useState(false);
-  const trimmedEmpty = code.trim().length === 0;
-  const submitDisabled = pending || trimmedEmpty;
+  const [running, setRunning] = useState(false);
+  const trimmedEmpty = files
+    ? files.every((f) => f.content.trim().length === 0)
+    : code.trim().length === 0;
+  const source = files ? { files } : { code };
+  const submitDisabled = pending || trimmedEmpty || !!submitLockedReason;
+  const runDisabled = !onRunComplete || running || pending || trimmedEmpty;
 
-  const handleSubmit = async () => {
-    if (submitDisabled) return;
+  const handleRun = async () => {
+    if (runDisabled) return;
+    setRunning(true);
+    try {
+      const res = await fetch('/api/coding/run', {
+        method: 'POST',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          challengeId,
+          language,
+          ...source,
+          ...(stdin !== null && stdin !== undefined ? { stdin } : {}),
+        }),
+      });
+      if (res.ok) {
+        onRunComplete?.((await res.json()) as RunResult);
+        return;
+      }
+      onError?.(await toSubmitBarError(res));
+    } catch (err) {
+      onError?.({
+        code: 'NETWORK_ERROR',
+        message: err instanceof Error ? err.message : 'Network error',
+      });
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  // The auto-submit at the deadline goes through even though the host locks
+  // Submit at that same instant; the server allows a short grace period.
+  const handleSubmit = async (auto = false) => {
+    if (auto ? pending || trimmedEmpty : submitDisabled) return;
     setPending(true);
+    const timeline = getTimeline?.() ?? null;
     try {
       const res = await fetch('/api/coding/submit', {
         method: 'POST',
         credentials: 'include',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ challengeId, language, code }),
+        body: JSON.stringify({
+          challengeId,
+          language,
+          ...source,
+          ...(assessmentId ? { assessmentId } : {}),
+          ...(timeline ? { timeline } : {}),
+        }),
       });
       if (res.ok) {
         const body = (await res.json()) as { attemptId: string };
         onAttemptStarted(body.attemptId);
         return;
       }
-      // Error path
-      let code2: string | undefined;
-      let message = `HTTP ${res.status}`;
-      let body503Enabled: boolean | undefined;
-      try {
-        const body = await res.json();
-        code2 = body?.error?.code;
-        message = body?.error?.message ?? body?.message ?? message;
-        // Phase 50 (JUDGE-INTEG-02 / D-05): flag-dark 503 has shape
-        // { enabled: false, message: "..." }. Detect it here so SolveWorkspace
-        // can swap in the ComingSoon card instead of toasting "sandbox down".
-        if (typeof body?.enabled === 'boolean') body503Enabled = body.enabled;
-      } catch {
-        /* ignore */
-      }
-      let retryAfterSeconds: number | undefined;
-      if (res.status === 429) {
-        const hdr = res.headers.get('Retry-After');
-        if (hdr) {
-          const n = Number.parseInt(hdr, 10);
-          if (Number.isFinite(n)) retryAfterSeconds = n;
-        }
-      }
-      // WR-02: 401 indicates session expiry. Surface AUTH_REQUIRED so the
-      // host page can redirect to /signin instead of a generic toast.
-      if (res.status === 401) {
-        code2 = 'AUTH_REQUIRED';
-        message = 'Session expired — please sign in again';
-      }
-      // Phase 50: flag-dark 503 → FEATURE_DISABLED so SolveWorkspace swaps
-      // in the ComingSoon card. Use error code, not string matching.
-      if (res.status === 503 && body503Enabled === false) {
-        code2 = 'FEATURE_DISABLED';
-        message = message || 'Coding challenges coming soon. Check back later!';
-      } else if (res.status === 503) {
-        // WR-03: real Judge0 outage (v1.6+) — keep the sandbox-unavailable
-        // mapping for non-flag 503s.
-        code2 = code2 ?? 'SANDBOX_UNAVAILABLE';
-        message = 'Judge0 sandbox temporarily unavailable — try again in a moment';
-      }
-      onError?.({ code: code2, message, retryAfterSeconds });
+      onError?.(await toSubmitBarError(res));
     } catch (err) {
       onError?.({
         code: 'NETWORK_ERROR',
@@ -100,6 +188,23 @@ export function SubmitBar({
     }
   };
 
+  // Auto-submit fires once per deadline; the ref always holds the latest
+  // handler so the timer submits the code as it is at expiry.
+  const submitRef = useRef(handleSubmit);
+  submitRef.current = handleSubmit;
+  const autoSubmitRef = useRef(onAutoSubmit);
+  autoSubmitRef.current = onAutoSubmit;
+  useEffect(() => {
+    if (!autoSubmitAt) return;
+    const delay = Date.parse(autoSubmitAt) - Date.now();
+    if (!Number.isFinite(delay) || delay < 0) return;
+    const timer = setTimeout(() => {
+      autoSubmitRef.current?.();
+      void submitRef.current(true);
+    }, delay);
+    return () => clearTimeout(timer);
+  }, [autoSubmitAt]);
+
   return (
     <div
       style={{
@@ -111,9 +216,14 @@ export function SubmitBar({
     >
       <button
         type="button"
-        disabled
-        aria-disabled="true"
-        title="Coming soon — Submit runs all tests"
+        onClick={handleRun}
+        disabled={runDisabled}
+        aria-busy={running ? 'true' : 'false'}
+        title={
+          stdin !== null && stdin !== undefined
+            ? 'Run against your custom input — not graded'
+            : 'Run against the visible tests — not graded'
+        }
         style={{
           background: 'transparent',
           border: '1px solid var(--border)',
@@ -122,18 +232,19 @@ export function SubmitBar({
           fontFamily: "var(--font-dm-sans), 'DM Sans', sans-serif",
           fontSize: '13px',
           fontWeight: 600,
-          color: 'var(--muted)',
-          cursor: 'not-allowed',
-          opacity: 0.6,
+          color: runDisabled ? 'var(--muted)' : 'var(--ink)',
+          cursor: runDisabled ? 'not-allowed' : 'pointer',
+          opacity: runDisabled ? 0.6 : 1,
         }}
       >
-        Run
+        {running ? 'Running…' : 'Run'}
       </button>
       <button
         type="button"
-        onClick={handleSubmit}
+        onClick={() => handleSubmit()}
         disabled={submitDisabled}
         aria-busy={pending ? 'true' : 'false'}
+        title={submitLockedReason ?? undefined}
         style={{
           background: 'var(--accent)',
           color: 'var(--text-on-accent)',
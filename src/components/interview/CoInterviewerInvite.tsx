@@ -0,0 +1,42 @@
+'use client';
+
+// CoInterviewerInvite - copies the co-interviewer join link for the current
+// session. The link only works once the session exists server-side, so the
+// button waits for the first autosave.
+
+import { useState } from 'react';
+import { Check, UserPlus } from 'lucide-react';
+import { useInterviewStore } from '@/store/interviewStore';
+
+export default function CoInterviewerInvite() {
+  const session = useInterviewStore((s) => s.session);
+  const draftRevision = useInterviewStore((s) => s.draftRevision);
+  const [copied, setCopied] = useState(false);
+
+  if (!session) return null;
+  const ready = draftRevision > 0;
+
+  const handleCopy = async () => {
+    const link = `${window.location.origin}/interview/co/${encodeURIComponent(session.id)}`;
+    try {
+      await navigator.clipboard.writeText(link);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      window.prompt('Copy this link for your co-interviewer:', link);
+    }
+  };
+
+  return (
+    <button
+      onClick={handleCopy}
+      disabled={!ready}
+      title={ready ? 'Copy a join link for a second trainer' : 'Available once the session has autosaved'}
+      className="flex items-center gap-2 text-sm font-medium hover:underline disabled:opacity-50 disabled:no-underline"
+      style={{ color: copied ? 'var(--success)' : 'var(--muted)' }}
+    >
+      {copied ? <Check className="w-4 h-4" /> : <UserPlus className="w-4 h-4" />}
+      {copied ? 'Link copied' : 'Invite co-interviewer'}
+    </button>
+  );
+}
@@ -0,0 +1,64 @@
+'use client';
+
+// DraftSyncBar - autosave indicator + conflict banner for trainer-led sessions.
+// Mount once per page that edits the session (interview, review).
+
+import { AlertTriangle, CloudOff, Check, Loader2 } from 'lucide-react';
+import { useSessionAutosave } from '@/hooks/useSessionAutosave';
+
+const monoLabel = {
+  fontFamily: 'var(--font-jetbrains-mono), ui-monospace, monospace',
+  fontSize: 11,
+  letterSpacing: '0.08em',
+  textTransform: 'uppercase' as const,
+};
+
+export default function DraftSyncBar() {
+  const { status, conflict, loadLatest, keepMine } = useSessionAutosave();
+
+  if (status === 'conflict') {
+    const current = conflict?.current;
+    const stillDraft = current && (current.status === 'in-progress' || current.status === 'review');
+    return (
+      <div
+        role="alert"
+        className="mb-6 rounded-xl p-4 flex items-center justify-between gap-4 flex-wrap"
+        style={{ background: 'var(--warning-bg)', border: '1px solid var(--warning)' }}
+      >
+        <div className="flex items-start gap-3">
+          <AlertTriangle className="w-5 h-5 flex-shrink-0 mt-0.5" style={{ color: 'var(--warning)' }} />
+          <div>
+            <h3 className="font-semibold" style={{ color: 'var(--warning)' }}>
+              {stillDraft ? 'This session was edited in another tab or device' : 'This session was completed elsewhere'}
+            </h3>
+            <p className="text-sm" style={{ color: 'var(--muted)' }}>
+              {stillDraft
+                ? `Saved ${new Date(current.updatedAt).toLocaleTimeString()}${current.updatedBy ? ` by ${current.updatedBy}` : ''}. Autosave is paused until you choose which copy to keep.`
+                : 'Changes in this tab are no longer being saved.'}
+            </p>
+          </div>
+        </div>
+        {stillDraft && (
+          <div className="flex gap-3">
+            <button onClick={() => void keepMine()} className="btn-secondary-flat text-sm">
+              Keep this tab&apos;s copy
+            </button>
+            <button onClick={() => void loadLatest()} className="btn-accent-flat text-sm">
+              Load latest
+            </button>
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  if (status === 'idle') return null;
+
+  return (
+    <div className="mb-4 flex items-center justify-end gap-1.5" style={{ ...monoLabel, color: 'var(--muted)' }} aria-live="polite">
+      {status === 'saving' && <><Loader2 className="w-3 h-3 animate-spin" /> Saving</>}
+      {status === 'saved' && <><Check className="w-3 h-3" style={{ color: 'var(--success)' }} /> Saved to server</>}
+      {status === 'offline' && <><CloudOff className="w-3 h-3" style={{ color: 'var(--warning)' }} /> Saved on this device only</>}
+    </div>
+  );
+}
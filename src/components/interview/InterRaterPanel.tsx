@@ -0,0 +1,156 @@
+'use client';
+
+// InterRaterPanel - co-interviewer reconciliation on /review. Shows how far the
+// lead's and each co-interviewer's keyword / soft-skill calls agree (percent +
+// Cohen's kappa), lists every disagreement per question, and lets the lead
+// adopt the co-interviewer's call or their notes before validating scores.
+
+import { useEffect, useMemo, useState } from 'react';
+import { Users } from 'lucide-react';
+import { useInterviewStore } from '@/store/interviewStore';
+import {
+  computeSessionAgreement,
+  describeKappa,
+  type RatingDisagreement,
+} from '@/lib/interRaterAgreement';
+import type {
+  CoInterviewerAssessment,
+  ParsedQuestion,
+  SoftSkillsAssessment,
+  StarterQuestion,
+} from '@/lib/types';
+
+const SOFT_SKILL_LABELS: Record<keyof SoftSkillsAssessment, string> = {
+  clearlySpoken: 'Clearly spoken',
+  eyeContact: 'Eye contact',
+  confidence: 'Confidence',
+  structuredThinking: 'Structured thinking',
+};
+
+const monoLabel: React.CSSProperties = {
+  fontFamily: 'var(--font-jetbrains-mono), ui-monospace, monospace',
+  fontSize: 11,
+  fontWeight: 500,
+  textTransform: 'uppercase',
+  letterSpacing: '0.08em',
+  color: 'var(--muted)',
+};
+
+function pct(value: number): string {
+  return `${Math.round(value * 100)}%`;
+}
+
+export default function InterRaterPanel({ questions }: { questions: (ParsedQuestion | StarterQuestion)[] }) {
+  const { session, toggleKeyword, toggleSoftSkill, setInterviewerNotes } = useInterviewStore();
+  const [coAssessments, setCoAssessments] = useState<CoInterviewerAssessment[]>([]);
+  const [appended, setAppended] = useState<Set<string>>(new Set());
+
+  const sessionId = session?.id;
+  useEffect(() => {
+    if (!sessionId) return;
+    fetch(`/api/sessions/drafts/${encodeURIComponent(sessionId)}/co-assessments`)
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => setCoAssessments(data?.coAssessments ?? []))
+      .catch((err) => console.warn('Failed to load co-interviewer assessments:', err));
+  }, [sessionId]);
+
+  const questionIds = useMemo(() => questions.map((q) => q.id), [questions]);
+  const agreements = useMemo(
+    () =>
+      session
+        ? coAssessments.map((co) => ({ co, result: computeSessionAgreement(questionIds, session.assessments, co.assessments) }))
+        : [],
+    [coAssessments, questionIds, session],
+  );
+
+  if (!session || agreements.length === 0) return null;
+
+  const questionText = (id: string) => questions.find((q) => q.id === id)?.question ?? id;
+
+  const adopt = (questionId: string, d: RatingDisagreement) => {
+    if (d.kind === 'keyword') toggleKeyword(questionId, d.item);
+    else toggleSoftSkill(questionId, d.item as keyof SoftSkillsAssessment);
+  };
+
+  const appendNotes = (questionId: string, co: CoInterviewerAssessment, notes: string) => {
+    const current = session.assessments[questionId]?.interviewerNotes ?? '';
+    const who = co.interviewerName || co.interviewerEmail;
+    setInterviewerNotes(questionId, `${current}${current ? '\n\n' : ''}[${who}] ${notes}`);
+    setAppended((prev) => new Set(prev).add(`${co.interviewerEmail}:${questionId}`));
+  };
+
+  return (
+    <div className="mb-6 p-6" style={{ background: 'var(--surface)', border: '1px solid var(--border)', borderRadius: 12 }}>
+      <h2 className="flex items-center gap-2 mb-1" style={{ fontFamily: 'var(--font-display)', fontWeight: 600, fontSize: 22, color: 'var(--ink)' }}>
+        <Users className="w-5 h-5" style={{ color: 'var(--accent)' }} />
+        Inter-rater Agreement
+      </h2>
+      <p className="text-sm mb-4" style={{ color: 'var(--muted)' }}>
+        Reconcile disagreements before validating scores — adopting a call updates your assessment.
+      </p>
+
+      {agreements.map(({ co, result }) => (
+        <div key={co.interviewerEmail} className="mb-4 last:mb-0">
+          <div className="flex items-baseline gap-4 flex-wrap mb-3">
+            <span className="font-medium" style={{ color: 'var(--ink)' }}>
+              {co.interviewerName || co.interviewerEmail}
+            </span>
+            <span style={monoLabel}>{result.ratings} ratings</span>
+            <span style={{ ...monoLabel, color: 'var(--ink)' }}>Agreement {pct(result.percentAgreement)}</span>
+            <span style={{ ...monoLabel, color: 'var(--ink)' }}>
+              κ {result.kappa === null ? '—' : result.kappa.toFixed(2)} ({describeKappa(result.kappa)})
+            </span>
+          </div>
+
+          <ul className="space-y-3">
+            {result.questions
+              .filter((q) => q.disagreements.length > 0 || q.coNotes.trim())
+              .map((q) => (
+                <li key={q.questionId} className="pt-3" style={{ borderTop: '1px solid var(--border-subtle)' }}>
+                  <div className="flex items-start justify-between gap-4 mb-2">
+                    <p className="text-sm" style={{ color: 'var(--ink)' }}>{questionText(q.questionId)}</p>
+                    <span style={{ ...monoLabel, flexShrink: 0 }}>{pct(q.agreement)}</span>
+                  </div>
+                  {q.disagreements.length > 0 && (
+                    <div className="flex flex-wrap gap-2 mb-2">
+                      {q.disagreements.map((d) => {
+                        const label = d.kind === 'softSkill' ? SOFT_SKILL_LABELS[d.item as keyof SoftSkillsAssessment] ?? d.item : d.item;
+                        return (
+                          <button
+                            key={`${d.kind}:${d.item}`}
+                            onClick={() => adopt(q.questionId, d)}
+                            title={`You: ${d.lead ? 'yes' : 'no'} · Co-interviewer: ${d.co ? 'yes' : 'no'} — click to adopt their call`}
+                            className="px-2.5 py-1 rounded-full text-xs font-medium"
+                            style={{
+                              background: d.co ? 'var(--success-bg)' : 'var(--warning-bg)',
+                              color: d.co ? 'var(--success)' : 'var(--warning)',
+                              border: '1px solid var(--border-subtle)',
+                            }}
+                          >
+                            {label}: co {d.co ? 'yes' : 'no'}
+                          </button>
+                        );
+                      })}
+                    </div>
+                  )}
+                  {q.coNotes.trim() && (
+                    <div className="text-sm flex items-start justify-between gap-4" style={{ color: 'var(--muted)' }}>
+                      <p className="whitespace-pre-wrap">{q.coNotes}</p>
+                      <button
+                        onClick={() => appendNotes(q.questionId, co, q.coNotes.trim())}
+                        disabled={appended.has(`${co.interviewerEmail}:${q.questionId}`)}
+                        className="text-xs font-medium flex-shrink-0 hover:underline disabled:opacity-50 disabled:no-underline"
+                        style={{ color: 'var(--accent)' }}
+                      >
+                        {appended.has(`${co.interviewerEmail}:${q.questionId}`) ? 'Appended' : 'Append to my notes'}
+                      </button>
+                    </div>
+                  )}
+                </li>
+              ))}
+          </ul>
+        </div>
+      ))}
+    </div>
+  );
+}
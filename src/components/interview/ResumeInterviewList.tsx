@@ -0,0 +1,141 @@
+'use client';
+
+// ResumeInterviewList - server-side interview drafts on /interview/new, so a
+// trainer can pick up a session started on another laptop or browser.
+
+import { useCallback, useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { History, Loader2 } from 'lucide-react';
+import { useInterviewStore } from '@/store/interviewStore';
+
+interface DraftSummary {
+  id: string;
+  candidateName: string | null;
+  interviewerName: string | null;
+  associateSlug: string | null;
+  status: string;
+  questionCount: number;
+  currentQuestionIndex: number;
+  revision: number;
+  updatedBy: string | null;
+  updatedAt: string;
+}
+
+const monoLabel = {
+  fontFamily: 'var(--font-mono)',
+  letterSpacing: '0.08em',
+  textTransform: 'uppercase' as const,
+};
+
+export default function ResumeInterviewList() {
+  const router = useRouter();
+  const { session, resumeSession } = useInterviewStore();
+  const [drafts, setDrafts] = useState<DraftSummary[]>([]);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadDrafts = useCallback(async () => {
+    try {
+      const res = await fetch('/api/sessions/drafts');
+      if (!res.ok) return;
+      const data = await res.json();
+      setDrafts(data.drafts ?? []);
+    } catch (err) {
+      console.warn('Failed to load session drafts:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadDrafts();
+  }, [loadDrafts]);
+
+  const handleResume = async (draft: DraftSummary) => {
+    setBusyId(draft.id);
+    setError(null);
+    try {
+      const res = await fetch(`/api/sessions/drafts/${encodeURIComponent(draft.id)}`);
+      if (!res.ok) {
+        setError('That session is no longer available — it may have been completed.');
+        await loadDrafts();
+        return;
+      }
+      const data = await res.json();
+      resumeSession(data.session, data.revision);
+      router.push(data.session.status === 'review' ? '/review' : '/interview');
+    } catch (err) {
+      console.error('Failed to resume session:', err);
+      setError('Failed to load the session. Try again.');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDiscard = async (draft: DraftSummary) => {
+    if (!confirm(`Discard the interview with ${draft.candidateName || 'Unnamed'}? This cannot be undone.`)) return;
+    setBusyId(draft.id);
+    try {
+      await fetch(`/api/sessions/drafts/${encodeURIComponent(draft.id)}`, { method: 'DELETE' });
+      await loadDrafts();
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  // The banner above already covers the session open in this browser.
+  const others = drafts.filter((d) => d.id !== session?.id);
+  if (others.length === 0 && !error) return null;
+
+  return (
+    <div
+      className="mb-8 rounded-xl p-4"
+      style={{ background: 'var(--surface)', border: '1px solid var(--border)' }}
+    >
+      <h3 className="font-semibold flex items-center gap-2 mb-3" style={{ color: 'var(--ink)' }}>
+        <History className="w-4 h-4" style={{ color: 'var(--accent)' }} />
+        Resume an Interview
+      </h3>
+      {error && <p className="text-sm mb-2" style={{ color: 'var(--danger)' }}>{error}</p>}
+      <ul className="space-y-2">
+        {others.map((draft) => (
+          <li
+            key={draft.id}
+            className="flex items-center justify-between gap-4 py-2"
+            style={{ borderTop: '1px solid var(--border-subtle)' }}
+          >
+            <div className="min-w-0">
+              <p className="text-sm font-medium truncate" style={{ color: 'var(--ink)' }}>
+                {draft.candidateName || 'Unnamed'}
+                {draft.associateSlug && <span style={{ color: 'var(--muted)' }}> · {draft.associateSlug}</span>}
+              </p>
+              <p className="text-xs" style={{ color: 'var(--muted)' }}>
+                <span style={monoLabel}>
+                  {draft.status === 'review' ? 'Review' : `Q${draft.currentQuestionIndex + 1}`}
+                </span>
+                {' · '}saved {new Date(draft.updatedAt).toLocaleString()}
+                {draft.updatedBy && ` by ${draft.updatedBy}`}
+              </p>
+            </div>
+            <div className="flex gap-3 flex-shrink-0">
+              <button
+                onClick={() => handleDiscard(draft)}
+                disabled={busyId === draft.id}
+                className="text-sm px-3 py-1"
+                style={{ color: 'var(--muted)' }}
+              >
+                Discard
+              </button>
+              <button
+                onClick={() => handleResume(draft)}
+                disabled={busyId === draft.id}
+                className="btn-secondary-flat text-sm inline-flex items-center gap-2"
+              >
+                {busyId === draft.id && <Loader2 className="w-4 h-4 animate-spin" />}
+                Resume
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
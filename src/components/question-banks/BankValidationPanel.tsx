@@ -0,0 +1,185 @@
+'use client';
+
+// BankValidationPanel - strict-mode lint report for every question bank in the
+// configured GitHub repo. Same checks as `npm run validate-question-bank`.
+
+import { useState } from 'react';
+import { AlertTriangle, CheckCircle2, Loader2, ShieldCheck, XCircle } from 'lucide-react';
+import { GitHubService } from '@/lib/github-service';
+import {
+    isQuestionBankPath,
+    lintQuestionBank,
+    type QuestionBankLintResult,
+} from '@/lib/questionBankLint';
+
+const displayFont = { fontFamily: 'var(--font-display)' } as const;
+const monoLabel = {
+    fontFamily: 'var(--font-mono)',
+    letterSpacing: '0.08em',
+    textTransform: 'uppercase' as const,
+};
+
+// Parallel file fetches per batch — keeps the GitHub proxy under its rate limit.
+const FETCH_BATCH_SIZE = 5;
+
+async function loadSkillSlugs(): Promise<string[] | null> {
+    try {
+        const res = await fetch('/api/question-banks/skills');
+        if (!res.ok) return null;
+        const data = await res.json();
+        return Array.isArray(data.skillSlugs) ? data.skillSlugs : null;
+    } catch {
+        return null;
+    }
+}
+
+export default function BankValidationPanel() {
+    const [isRunning, setIsRunning] = useState(false);
+    const [progress, setProgress] = useState({ done: 0, total: 0 });
+    const [results, setResults] = useState<QuestionBankLintResult[] | null>(null);
+    const [topicsChecked, setTopicsChecked] = useState(false);
+    const [unreadable, setUnreadable] = useState<string[]>([]);
+    const [error, setError] = useState<string | null>(null);
+
+    const runValidation = async () => {
+        setIsRunning(true);
+        setError(null);
+        setResults(null);
+        setUnreadable([]);
+        try {
+            const service = new GitHubService('owner', 'repo', 'main');
+            const [{ files }, skillSlugs] = await Promise.all([service.loadManifest(), loadSkillSlugs()]);
+            const banks = files.filter(f => isQuestionBankPath(f.path));
+            setTopicsChecked(skillSlugs !== null);
+            setProgress({ done: 0, total: banks.length });
+
+            const collected: QuestionBankLintResult[] = [];
+            const failed: string[] = [];
+            for (let i = 0; i < banks.length; i += FETCH_BATCH_SIZE) {
+                const batch = banks.slice(i, i + FETCH_BATCH_SIZE);
+                const linted = await Promise.all(batch.map(async file => {
+                    try {
+                        const content = await service.getFileContent(file.path);
+                        return lintQuestionBank(file.path, content, { skillSlugs: skillSlugs ?? undefined });
+                    } catch {
+                        failed.push(file.path);
+                        return null;
+                    }
+                }));
+                collected.push(...linted.filter((r): r is QuestionBankLintResult => r !== null));
+                setProgress({ done: Math.min(i + FETCH_BATCH_SIZE, banks.length), total: banks.length });
+            }
+
+            // Files with problems first, errors before warnings.
+            collected.sort((a, b) =>
+                b.errorCount - a.errorCount || b.warningCount - a.warningCount || a.path.localeCompare(b.path)
+            );
+            setResults(collected);
+            setUnreadable(failed);
+        } catch (err) {
+            console.error('Question bank validation failed:', err);
+            setError('Failed to load question banks from GitHub.');
+        } finally {
+            setIsRunning(false);
+        }
+    };
+
+    const totals = results?.reduce(
+        (acc, r) => ({ errors: acc.errors + r.errorCount, warnings: acc.warnings + r.warningCount }),
+        { errors: 0, warnings: 0 }
+    );
+
+    return (
+        <div
+            className="rounded-xl p-6"
+            style={{
+                background: 'var(--surface)',
+                border: '1px solid var(--border)',
+                boxShadow: '0 1px 2px rgba(0,0,0,0.04)',
+            }}
+        >
+            <div className="flex items-start justify-between gap-4 flex-wrap">
+                <div>
+                    <h2
+                        className="mb-1 flex items-center gap-2"
+                        style={{ ...displayFont, fontWeight: 600, fontSize: '28px', color: 'var(--ink)' }}
+                    >
+                        <ShieldCheck className="w-5 h-5" style={{ color: 'var(--accent)' }} />
+                        Validate Repository
+                    </h2>
+                    <p className="text-sm" style={{ color: 'var(--muted)' }}>
+                        Checks every bank for missing keywords, duplicate question numbers, empty model answers,
+                        unknown difficulty sections and topics outside the curriculum.
+                    </p>
+                </div>
+                <button onClick={runValidation} disabled={isRunning} className="btn-secondary-flat text-sm inline-flex items-center gap-2">
+                    {isRunning ? <Loader2 className="w-4 h-4 animate-spin" /> : <ShieldCheck className="w-4 h-4" />}
+                    {isRunning ? `Checking ${progress.done}/${progress.total}` : 'Run Validation'}
+                </button>
+            </div>
+
+            {error && (
+                <p className="mt-4 text-sm" style={{ color: 'var(--danger)' }}>{error}</p>
+            )}
+
+            {results && totals && (
+                <div className="mt-5 space-y-3">
+                    <div className="flex items-center gap-4 text-sm" style={{ color: 'var(--muted)' }}>
+                        <span>{results.length} files</span>
+                        <span style={{ color: totals.errors > 0 ? 'var(--danger)' : 'var(--success)' }}>
+                            {totals.errors} errors
+                        </span>
+                        <span style={{ color: totals.warnings > 0 ? 'var(--warning)' : 'var(--muted)' }}>
+                            {totals.warnings} warnings
+                        </span>
+                        {!topicsChecked && <span>Topic checks skipped (curriculum unavailable)</span>}
+                    </div>
+
+                    {unreadable.length > 0 && (
+                        <p className="text-sm" style={{ color: 'var(--danger)' }}>
+                            Could not fetch {unreadable.length} file(s): {unreadable.join(', ')}
+                        </p>
+                    )}
+
+                    {results.map(result => (
+                        <details
+                            key={result.path}
+                            className="rounded-lg"
+                            style={{ border: '1px solid var(--border-subtle)' }}
+                            open={result.errorCount > 0}
+                        >
+                            <summary className="flex items-center gap-2 px-3 py-2 cursor-pointer text-sm" style={{ color: 'var(--ink)' }}>
+                                {result.errorCount > 0 ? (
+                                    <XCircle className="w-4 h-4 flex-shrink-0" style={{ color: 'var(--danger)' }} />
+                                ) : result.warningCount > 0 ? (
+                                    <AlertTriangle className="w-4 h-4 flex-shrink-0" style={{ color: 'var(--warning)' }} />
+                                ) : (
+                                    <CheckCircle2 className="w-4 h-4 flex-shrink-0" style={{ color: 'var(--success)' }} />
+                                )}
+                                <span className="truncate" style={{ fontFamily: 'var(--font-mono)' }}>{result.path}</span>
+                                <span className="ml-auto text-xs" style={{ color: 'var(--muted)' }}>
+                                    {result.questionCount} Q · {result.errorCount} E · {result.warningCount} W
+                                </span>
+                            </summary>
+                            {result.issues.length > 0 && (
+                                <ul className="px-3 pb-3 space-y-1">
+                                    {result.issues.map((issue, i) => (
+                                        <li key={i} className="flex items-start gap-3 text-sm">
+                                            <span
+                                                className="text-xs flex-shrink-0 w-14"
+                                                style={{ ...monoLabel, color: issue.severity === 'error' ? 'var(--danger)' : 'var(--warning)' }}
+                                            >
+                                                L{issue.line}
+                                            </span>
+                                            <span style={{ color: 'var(--ink)' }}>{issue.message}</span>
+                                        </li>
+                                    ))}
+                                </ul>
+                            )}
+                        </details>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -3,8 +3,12 @@
 import { useEffect, useState } from 'react';
 import { TopBar } from './TopBar';
 import { SectionSidebar } from './SectionSidebar';
+import { useAuth } from '@/lib/auth-context';
+import { readStaffAccess } from '@/lib/authorization';
 import {
   dashboardSidebarGroups,
+  settingsAccordionForRole,
+  sidebarGroupsForRole,
   trainerSettingsAccordion,
 } from './sidebar-configs';
 
@@ -16,7 +20,10 @@ interface AppShellProps {
 }
 
 export function AppShell({ children, variant = 'trainer' }: AppShellProps) {
-  const groups = dashboardSidebarGroups;
+  const { user } = useAuth();
+  const role = readStaffAccess(user?.app_metadata)?.role ?? null;
+  const groups = sidebarGroupsForRole(dashboardSidebarGroups, role);
+  const settingsGroup = settingsAccordionForRole(trainerSettingsAccordion, role);
   const startCollapsed = variant === 'mock';
 
   const [collapsed, setCollapsed] = useState(startCollapsed);
@@ -46,7 +53,7 @@ export function AppShell({ children, variant = 'trainer' }: AppShellProps) {
     <div className="flex h-screen overflow-hidden" style={{ background: 'var(--bg)' }}>
       <SectionSidebar
         groups={groups}
-        settingsGroup={trainerSettingsAccordion}
+        settingsGroup={settingsGroup}
         collapsed={collapsed}
         mounted={mounted}
         onExpandSidebar={expandSidebar}
@@ -54,7 +61,7 @@ export function AppShell({ children, variant = 'trainer' }: AppShellProps) {
       <div className="flex flex-col flex-1 min-w-0 min-h-0">
         <TopBar
           sidebarGroups={groups}
-          settingsGroup={trainerSettingsAccordion}
+          settingsGroup={settingsGroup}
           onToggleSidebar={toggleCollapsed}
           sidebarCollapsed={collapsed}
         />
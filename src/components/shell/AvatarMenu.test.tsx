@@ -10,7 +10,7 @@ vi.mock('next/navigation', () => ({
 
 vi.mock('@/lib/auth-context', () => ({
   useAuth: () => ({
-    user: { email: 'a@b.com', user_metadata: { role: 'associate' } },
+    user: { email: 'a@b.com', app_metadata: { role: 'associate' } },
     loading: false,
     login: vi.fn(),
     logout: vi.fn(),
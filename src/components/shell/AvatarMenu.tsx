@@ -4,6 +4,7 @@ import { useState } from 'react';
 import * as DropdownMenu from '@radix-ui/react-dropdown-menu';
 import { useRouter } from 'next/navigation';
 import { useAuth } from '@/lib/auth-context';
+import { isStaffRole } from '@/lib/authorization';
 import { ProfileModal } from './ProfileModal';
 
 type ProfileTab = 'profile' | 'security' | 'learning';
@@ -29,7 +30,7 @@ export function AvatarMenu({ onOpenProfile }: AvatarMenuProps = {}) {
 
   const email = user?.email ?? '';
   const initial = email[0]?.toUpperCase() ?? '?';
-  const role = (user?.user_metadata?.role as string | undefined) ?? 'trainer';
+  const role = (user?.app_metadata?.role as string | undefined) ?? 'trainer';
 
   const [profileOpen, setProfileOpen] = useState(false);
   const [profileInitialTab, setProfileInitialTab] = useState<ProfileTab>('profile');
@@ -51,7 +52,7 @@ export function AvatarMenu({ onOpenProfile }: AvatarMenuProps = {}) {
   };
 
   const handleSettingsSelect = () => {
-    if (role === 'trainer' || role === 'admin') {
+    if (isStaffRole(role)) {
       router.push('/trainer/settings');
     } else {
       openProfileTab('security');
@@ -5,7 +5,7 @@ import * as Dialog from '@radix-ui/react-dialog';
 import { X } from 'lucide-react';
 import { ProfileTabs } from '@/app/profile/ProfileTabs';
 
-type Tab = 'profile' | 'security' | 'learning';
+type Tab = 'profile' | 'security' | 'learning' | 'data';
 
 interface ProfileData {
   displayName: string | null;
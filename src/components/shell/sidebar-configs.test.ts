@@ -3,6 +3,8 @@ import {
   dashboardSidebarGroups,
   trainerSettingsAccordion,
   associateSidebarGroups,
+  settingsAccordionForRole,
+  sidebarGroupsForRole,
 } from './sidebar-configs';
 
 describe('dashboardSidebarGroups', () => {
@@ -16,10 +18,10 @@ describe('dashboardSidebarGroups', () => {
     expect(overview.items).toHaveLength(3);
   });
 
-  it('second group is Actions with 4 items (Coding added in Phase 40)', () => {
+  it('second group is Actions with 6 items (Coding added in Phase 40, Assessments and New Challenge after)', () => {
     const actions = dashboardSidebarGroups[1];
     expect(actions.label).toBe('Actions');
-    expect(actions.items).toHaveLength(4);
+    expect(actions.items).toHaveLength(6);
   });
 
   it('has correct hrefs for Overview items', () => {
@@ -35,6 +37,8 @@ describe('dashboardSidebarGroups', () => {
     expect(items[1].href).toBe('/coding');
     expect(items[2].href).toBe('/trainer/reports');
     expect(items[3].href).toBe('/trainer/onboarding');
+    expect(items[4].href).toBe('/trainer/assessments');
+    expect(items[5].href).toBe('/trainer/challenges/new');
   });
 
   it('trainer sidebar contains a Coding entry labeled "Coding"', () => {
@@ -70,8 +74,8 @@ describe('trainerSettingsAccordion', () => {
     expect(trainerSettingsAccordion.label).toBe('Settings');
   });
 
-  it('has 5 items', () => {
-    expect(trainerSettingsAccordion.items).toHaveLength(5);
+  it('has 9 items', () => {
+    expect(trainerSettingsAccordion.items).toHaveLength(9);
   });
 
   it('has correct hrefs for Settings items', () => {
@@ -81,6 +85,10 @@ describe('trainerSettingsAccordion', () => {
     expect(items[2].href).toBe('/trainer/settings/curriculum');
     expect(items[3].href).toBe('/trainer/settings/users');
     expect(items[4].href).toBe('/trainer/settings/associates');
+    expect(items[5].href).toBe('/trainer/settings/rubrics');
+    expect(items[6].href).toBe('/trainer/settings/audit');
+    expect(items[7].href).toBe('/trainer/settings/privacy');
+    expect(items[8].href).toBe('/trainer/settings/retention');
   });
 
   it('group icon is a React component', () => {
@@ -99,3 +107,27 @@ describe('trainerSettingsAccordion', () => {
     }
   });
 });
+
+describe('role-filtered nav', () => {
+  it('keeps everything while the role is unknown', () => {
+    expect(sidebarGroupsForRole(dashboardSidebarGroups, null)).toBe(dashboardSidebarGroups);
+    expect(settingsAccordionForRole(trainerSettingsAccordion, null)).toBe(trainerSettingsAccordion);
+  });
+
+  it('shows a recruiter only readiness pages and shared surfaces', () => {
+    const hrefs = sidebarGroupsForRole(dashboardSidebarGroups, 'recruiter').flatMap((g) => g.items.map((i) => i.href));
+    expect(hrefs).toEqual(['/trainer', '/coding', '/trainer/reports']);
+    expect(settingsAccordionForRole(trainerSettingsAccordion, 'recruiter').items).toEqual([]);
+  });
+
+  it('shows an author content pages and hides Users from trainers', () => {
+    const authorSettings = settingsAccordionForRole(trainerSettingsAccordion, 'author').items.map((i) => i.href);
+    expect(authorSettings).toEqual(['/trainer/settings/cohorts', '/trainer/settings/curriculum', '/trainer/settings/rubrics']);
+    const trainerSettings = settingsAccordionForRole(trainerSettingsAccordion, 'trainer').items.map((i) => i.href);
+    expect(trainerSettings).not.toContain('/trainer/settings/users');
+    expect(trainerSettings).not.toContain('/trainer/settings/audit');
+    expect(trainerSettings).not.toContain('/trainer/settings/privacy');
+    expect(trainerSettings).toContain('/trainer/settings/retention');
+    expect(settingsAccordionForRole(trainerSettingsAccordion, 'admin').items).toHaveLength(9);
+  });
+});
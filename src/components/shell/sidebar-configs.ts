@@ -14,7 +14,15 @@ import {
   Settings,
   Shield,
   Code2,
+  ClipboardList,
+  Repeat,
+  Timer,
+  FilePlus2,
+  History,
+  UserX,
+  Archive,
 } from 'lucide-react';
+import { pagePermissions, roleHasPermission, type StaffRole } from '@/lib/authorization';
 import type { SidebarGroup, SettingsAccordionGroup } from './types';
 
 export const dashboardSidebarGroups: SidebarGroup[] = [
@@ -33,6 +41,8 @@ export const dashboardSidebarGroups: SidebarGroup[] = [
       { href: '/coding', label: 'Coding', icon: Code2 },
       { href: '/trainer/reports', label: 'Reports', icon: FileText },
       { href: '/trainer/onboarding', label: 'Batch Upload', icon: Upload },
+      { href: '/trainer/assessments', label: 'Assessments', icon: Timer },
+      { href: '/trainer/challenges/new', label: 'New Challenge', icon: FilePlus2 },
     ],
   },
 ];
@@ -46,6 +56,7 @@ export function associateSidebarGroups(slug: string): SidebarGroup[] {
         { href: '/', label: 'Interviews', icon: PlayCircle },
         { href: '/coding', label: 'Coding', icon: Code2 },
         { href: `/associate/${slug}/curriculum`, label: 'Curriculum', icon: BookOpen },
+        { href: `/associate/${slug}/practice`, label: 'Practice', icon: Repeat },
       ],
     },
   ];
@@ -60,6 +71,10 @@ export const trainerSettingsAccordion: SettingsAccordionGroup = {
     { href: '/trainer/settings/curriculum', label: 'Curriculum', icon: BookOpen },
     { href: '/trainer/settings/users', label: 'Users', icon: UserCog },
     { href: '/trainer/settings/associates', label: 'Associates', icon: User },
+    { href: '/trainer/settings/rubrics', label: 'Rubrics', icon: ClipboardList },
+    { href: '/trainer/settings/audit', label: 'Audit Log', icon: History },
+    { href: '/trainer/settings/privacy', label: 'Data Requests', icon: UserX },
+    { href: '/trainer/settings/retention', label: 'Data Retention', icon: Archive },
   ],
 };
 
@@ -76,3 +91,27 @@ export function associateSettingsAccordion(
     ],
   };
 }
+
+function roleCanOpen(role: StaffRole, href: string): boolean {
+  const required = pagePermissions(href);
+  return !required || required.some((p) => roleHasPermission(role, p));
+}
+
+/**
+ * Trainer nav trimmed to the pages middleware would let `role` open. A null
+ * role (auth still loading) keeps everything rather than flashing an empty nav.
+ */
+export function sidebarGroupsForRole(groups: SidebarGroup[], role: StaffRole | null): SidebarGroup[] {
+  if (!role) return groups;
+  return groups
+    .map((group) => ({ ...group, items: group.items.filter((item) => roleCanOpen(role, item.href)) }))
+    .filter((group) => group.items.length > 0);
+}
+
+export function settingsAccordionForRole(
+  group: SettingsAccordionGroup,
+  role: StaffRole | null,
+): SettingsAccordionGroup {
+  if (!role) return group;
+  return { ...group, items: group.items.filter((item) => !item.href || roleCanOpen(role, item.href)) };
+}
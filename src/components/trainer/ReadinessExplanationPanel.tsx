@@ -0,0 +1,101 @@
+'use client'
+
+import type { ReadinessExplanation } from '@/lib/readinessPolicy'
+
+interface ReadinessExplanationPanelProps {
+  explanation: ReadinessExplanation | null
+}
+
+const STATUS_COLOR = {
+  ready: 'var(--success)',
+  improving: 'var(--accent)',
+  not_ready: 'var(--danger)',
+} as const
+
+const monoLabel: React.CSSProperties = {
+  fontFamily: 'JetBrains Mono, monospace',
+  fontWeight: 500,
+  fontSize: '11px',
+  textTransform: 'uppercase',
+  letterSpacing: '0.08em',
+  color: 'var(--muted)',
+}
+
+function round(value: number | null): string {
+  return value === null ? '—' : String(Math.round(value))
+}
+
+/**
+ * "Why this status" — the ReadinessExplanation stored by the last readiness
+ * computation: the deciding reasons, the policy that applied (cohort or
+ * default) and each skill against the threshold.
+ */
+export default function ReadinessExplanationPanel({ explanation }: ReadinessExplanationPanelProps) {
+  if (!explanation) return null
+
+  const { policy } = explanation
+  const color = STATUS_COLOR[explanation.status]
+
+  return (
+    <section
+      style={{
+        marginBottom: '32px',
+        padding: '20px 24px',
+        background: 'var(--surface)',
+        border: '1px solid var(--border-subtle)',
+        borderRadius: '12px',
+        fontFamily: 'DM Sans, sans-serif',
+      }}
+    >
+      <div style={{ display: 'flex', justifyContent: 'space-between', gap: '16px', flexWrap: 'wrap', marginBottom: '12px' }}>
+        <h2 style={{ ...monoLabel, margin: 0 }}>Why this status</h2>
+        <span style={monoLabel}>
+          {policy.source === 'cohort' ? 'Cohort policy' : 'Default policy'} · threshold {round(policy.threshold)} ·{' '}
+          {policy.minSessions}+ sessions · trend over {policy.trendWindow}
+          {policy.codingWeight > 0 ? ` · coding ${Math.round(policy.codingWeight * 100)}%` : ''}
+        </span>
+      </div>
+
+      <p style={{ margin: '0 0 16px 0', fontSize: '15px', color: 'var(--ink)' }}>
+        <span style={{ fontWeight: 600, color }}>{explanation.status.replace('_', ' ')}</span>
+        {' because '}
+        {explanation.reasons.join(' and ')}
+      </p>
+
+      {explanation.skills.length > 0 && (
+        <div style={{ display: 'flex', flexWrap: 'wrap', gap: '8px' }}>
+          {explanation.skills.map((s) => (
+            <span
+              key={s.skill}
+              style={{
+                display: 'inline-flex',
+                gap: '6px',
+                alignItems: 'baseline',
+                padding: '4px 10px',
+                borderRadius: '6px',
+                fontSize: '13px',
+                background: s.meetsThreshold ? 'var(--success-bg)' : 'var(--danger-bg)',
+                color: s.meetsThreshold ? 'var(--success)' : 'var(--danger)',
+                border: s.required ? '1px solid currentColor' : '1px solid transparent',
+              }}
+              title={s.required ? 'Required by the cohort policy' : undefined}
+            >
+              <span style={{ color: 'var(--ink)' }}>{s.skill}</span>
+              <span style={{ fontWeight: 600, fontVariantNumeric: 'tabular-nums' }}>{round(s.score)}</span>
+            </span>
+          ))}
+        </div>
+      )}
+
+      {explanation.average !== null && (
+        <p style={{ ...monoLabel, margin: '12px 0 0 0' }}>
+          Average {round(explanation.average)}
+          {explanation.codingAverage !== null
+            ? ` (interview ${round(explanation.interviewAverage)}, coding ${round(explanation.codingAverage)})`
+            : ''}
+          {explanation.trend !== null ? ` · trend ${explanation.trend > 0 ? '+' : ''}${explanation.trend.toFixed(1)}` : ''}
+        </p>
+      )}
+    </section>
+  )
+}
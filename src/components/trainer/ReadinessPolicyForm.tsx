@@ -0,0 +1,224 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import type { ReadinessPolicy } from '@/lib/readinessPolicy'
+
+interface ReadinessPolicyFormProps {
+  cohortId: number
+  initialPolicy: ReadinessPolicy
+  isDefault: boolean
+  globalThreshold: number
+}
+
+interface FormState {
+  minSessions: string
+  trendWindow: string
+  threshold: string
+  requiredSkills: string
+  codingWeight: string
+}
+
+function toForm(policy: ReadinessPolicy): FormState {
+  return {
+    minSessions: String(policy.minSessions),
+    trendWindow: String(policy.trendWindow),
+    threshold: policy.threshold === null ? '' : String(policy.threshold),
+    requiredSkills: policy.requiredSkills.join(', '),
+    codingWeight: String(Math.round(policy.codingWeight * 100)),
+  }
+}
+
+/**
+ * Per-cohort readiness policy editor. Saving (PUT) or resetting (DELETE)
+ * /api/cohorts/[id]/readiness-policy recomputes every associate in the cohort,
+ * so the page is refreshed afterwards to pick up the new statuses.
+ */
+export default function ReadinessPolicyForm({
+  cohortId,
+  initialPolicy,
+  isDefault: initialIsDefault,
+  globalThreshold,
+}: ReadinessPolicyFormProps) {
+  const router = useRouter()
+  const [form, setForm] = useState<FormState>(toForm(initialPolicy))
+  const [isDefault, setIsDefault] = useState(initialIsDefault)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [saved, setSaved] = useState(false)
+
+  function update(field: keyof FormState, value: string) {
+    setForm((f) => ({ ...f, [field]: value }))
+    setSaved(false)
+  }
+
+  async function send(method: 'PUT' | 'DELETE') {
+    setSaving(true)
+    setError(null)
+    setSaved(false)
+    try {
+      const res = await fetch(`/api/cohorts/${cohortId}/readiness-policy`, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body:
+          method === 'PUT'
+            ? JSON.stringify({
+                minSessions: parseInt(form.minSessions, 10),
+                trendWindow: parseInt(form.trendWindow, 10),
+                threshold: form.threshold.trim() === '' ? null : Number(form.threshold),
+                requiredSkills: form.requiredSkills
+                  .split(',')
+                  .map((s) => s.trim())
+                  .filter(Boolean),
+                codingWeight: Number(form.codingWeight) / 100,
+              })
+            : undefined,
+      })
+      const body = await res.json().catch(() => ({}))
+      if (!res.ok) {
+        setError(body.issues?.[0]?.message ?? body.error ?? `Failed to save policy (${res.status})`)
+        return
+      }
+      setForm(toForm(body.policy))
+      setIsDefault(body.isDefault)
+      setSaved(true)
+      router.refresh()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save policy')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const inputStyle: React.CSSProperties = {
+    background: 'var(--surface)',
+    border: '1px solid var(--border)',
+    borderRadius: '8px',
+    padding: '10px 12px',
+    fontFamily: "'DM Sans', sans-serif",
+    fontSize: '14px',
+    color: 'var(--ink)',
+    outline: 'none',
+    width: '100%',
+    boxSizing: 'border-box',
+  }
+
+  const fieldLabelStyle: React.CSSProperties = {
+    fontSize: '11px',
+    fontFamily: "'JetBrains Mono', monospace",
+    fontWeight: 500,
+    textTransform: 'uppercase',
+    letterSpacing: '0.07em',
+    color: 'var(--muted)',
+    display: 'block',
+    marginBottom: '6px',
+  }
+
+  return (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault()
+        send('PUT')
+      }}
+      style={{
+        padding: '20px 24px',
+        backgroundColor: 'var(--surface)',
+        border: '1px solid var(--border)',
+        borderRadius: '12px',
+      }}
+    >
+      <p style={{ fontSize: '14px', color: 'var(--muted)', margin: '0 0 16px 0' }}>
+        {isDefault
+          ? `Using the default model (global threshold ${globalThreshold}). Saving creates a policy for this cohort.`
+          : 'This cohort has its own readiness policy.'}
+      </p>
+
+      <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(160px, 1fr))', gap: '16px' }}>
+        <label>
+          <span style={fieldLabelStyle}>Min sessions</span>
+          <input
+            type="number"
+            min={1}
+            max={20}
+            value={form.minSessions}
+            onChange={(e) => update('minSessions', e.target.value)}
+            style={inputStyle}
+          />
+        </label>
+        <label>
+          <span style={fieldLabelStyle}>Trend window</span>
+          <input
+            type="number"
+            min={2}
+            max={10}
+            value={form.trendWindow}
+            onChange={(e) => update('trendWindow', e.target.value)}
+            style={inputStyle}
+          />
+        </label>
+        <label>
+          <span style={fieldLabelStyle}>Threshold</span>
+          <input
+            type="number"
+            min={0}
+            max={100}
+            step="0.5"
+            placeholder={`${globalThreshold} (global)`}
+            value={form.threshold}
+            onChange={(e) => update('threshold', e.target.value)}
+            style={inputStyle}
+          />
+        </label>
+        <label>
+          <span style={fieldLabelStyle}>Coding weight %</span>
+          <input
+            type="number"
+            min={0}
+            max={100}
+            value={form.codingWeight}
+            onChange={(e) => update('codingWeight', e.target.value)}
+            style={inputStyle}
+          />
+        </label>
+      </div>
+
+      <label style={{ display: 'block', marginTop: '16px' }}>
+        <span style={fieldLabelStyle}>Required skills (comma-separated)</span>
+        <input
+          type="text"
+          placeholder="e.g. sql, react"
+          value={form.requiredSkills}
+          onChange={(e) => update('requiredSkills', e.target.value)}
+          style={inputStyle}
+        />
+      </label>
+
+      {error && (
+        <p style={{ fontSize: '13px', color: 'var(--danger)', margin: '12px 0 0 0' }}>{error}</p>
+      )}
+
+      <div style={{ display: 'flex', gap: '12px', alignItems: 'center', marginTop: '16px' }}>
+        <button
+          type="submit"
+          disabled={saving}
+          className="btn-accent-flat"
+          style={{ padding: '8px 16px', fontSize: '14px', opacity: saving ? 0.6 : 1 }}
+        >
+          {saving ? 'Saving…' : 'Save policy'}
+        </button>
+        {!isDefault && (
+          <button
+            type="button"
+            disabled={saving}
+            onClick={() => send('DELETE')}
+            className="btn-secondary-flat"
+            style={{ padding: '8px 16px', fontSize: '14px' }}
+          >
+            Reset to default
+          </button>
+        )}
+        {saved && <span style={{ fontSize: '13px', color: 'var(--success)' }}>Saved — readiness recomputed</span>}
+      </div>
+    </form>
+  )
+}
@@ -134,6 +134,7 @@ exports.Prisma.AssociateScalarFieldEnum = {
   readinessStatus: 'readinessStatus',
   recommendedArea: 'recommendedArea',
   lastComputedAt: 'lastComputedAt',
+  readinessExplanation: 'readinessExplanation',
   email: 'email',
   authUserId: 'authUserId',
   lastInvitedAt: 'lastInvitedAt',
@@ -161,6 +162,21 @@ exports.Prisma.SessionScalarFieldEnum = {
   aiTrainerVariance: 'aiTrainerVariance',
   mode: 'mode',
   readinessRecomputeStatus: 'readinessRecomputeStatus',
+  revision: 'revision',
+  currentQuestionIndex: 'currentQuestionIndex',
+  draftAssociateSlug: 'draftAssociateSlug',
+  draftUpdatedBy: 'draftUpdatedBy',
+  notesPurgedAt: 'notesPurgedAt',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+};
+
+exports.Prisma.CoInterviewerAssessmentScalarFieldEnum = {
+  id: 'id',
+  sessionId: 'sessionId',
+  interviewerEmail: 'interviewerEmail',
+  interviewerName: 'interviewerName',
+  assessments: 'assessments',
   createdAt: 'createdAt',
   updatedAt: 'updatedAt'
 };
@@ -176,6 +192,27 @@ exports.Prisma.GapScoreScalarFieldEnum = {
   lastUpdated: 'lastUpdated'
 };
 
+exports.Prisma.PracticeCardScalarFieldEnum = {
+  id: 'id',
+  associateId: 'associateId',
+  cardKey: 'cardKey',
+  skill: 'skill',
+  topic: 'topic',
+  question: 'question',
+  modelAnswer: 'modelAnswer',
+  keywords: 'keywords',
+  sourceSessionId: 'sourceSessionId',
+  sourceScore: 'sourceScore',
+  easeFactor: 'easeFactor',
+  intervalDays: 'intervalDays',
+  repetitions: 'repetitions',
+  dueAt: 'dueAt',
+  lastReviewedAt: 'lastReviewedAt',
+  lastGrade: 'lastGrade',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+};
+
 exports.Prisma.SettingsScalarFieldEnum = {
   id: 'id',
   readinessThreshold: 'readinessThreshold',
@@ -192,6 +229,18 @@ exports.Prisma.CohortScalarFieldEnum = {
   updatedAt: 'updatedAt'
 };
 
+exports.Prisma.ReadinessPolicyScalarFieldEnum = {
+  id: 'id',
+  cohortId: 'cohortId',
+  minSessions: 'minSessions',
+  trendWindow: 'trendWindow',
+  threshold: 'threshold',
+  requiredSkills: 'requiredSkills',
+  codingWeight: 'codingWeight',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+};
+
 exports.Prisma.CurriculumWeekScalarFieldEnum = {
   id: 'id',
   cohortId: 'cohortId',
@@ -214,6 +263,32 @@ exports.Prisma.ProfileScalarFieldEnum = {
   updatedAt: 'updatedAt'
 };
 
+exports.Prisma.ScoringRubricScalarFieldEnum = {
+  id: 'id',
+  skillSlug: 'skillSlug',
+  version: 'version',
+  scoringGuidance: 'scoringGuidance',
+  summaryGuidance: 'summaryGuidance',
+  source: 'source',
+  createdBy: 'createdBy',
+  createdAt: 'createdAt'
+};
+
+exports.Prisma.RateLimitBucketScalarFieldEnum = {
+  key: 'key',
+  state: 'state',
+  version: 'version',
+  expiresAt: 'expiresAt',
+  updatedAt: 'updatedAt'
+};
+
+exports.Prisma.PostgresSandboxRunScalarFieldEnum = {
+  token: 'token',
+  submission: 'submission',
+  createdAt: 'createdAt',
+  finishedAt: 'finishedAt'
+};
+
 exports.Prisma.AuthEventScalarFieldEnum = {
   id: 'id',
   type: 'type',
@@ -223,6 +298,40 @@ exports.Prisma.AuthEventScalarFieldEnum = {
   createdAt: 'createdAt'
 };
 
+exports.Prisma.AuditEventScalarFieldEnum = {
+  id: 'id',
+  actorId: 'actorId',
+  actorEmail: 'actorEmail',
+  actorRole: 'actorRole',
+  action: 'action',
+  targetType: 'targetType',
+  targetId: 'targetId',
+  before: 'before',
+  after: 'after',
+  createdAt: 'createdAt'
+};
+
+exports.Prisma.ErasureRequestScalarFieldEnum = {
+  id: 'id',
+  associateId: 'associateId',
+  associateSlug: 'associateSlug',
+  reason: 'reason',
+  status: 'status',
+  reviewedBy: 'reviewedBy',
+  reviewedAt: 'reviewedAt',
+  note: 'note',
+  report: 'report',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+};
+
+exports.Prisma.RetentionPolicyScalarFieldEnum = {
+  dataClass: 'dataClass',
+  retainMonths: 'retainMonths',
+  updatedBy: 'updatedBy',
+  updatedAt: 'updatedAt'
+};
+
 exports.Prisma.CodingChallengeScalarFieldEnum = {
   id: 'id',
   slug: 'slug',
@@ -232,6 +341,9 @@ exports.Prisma.CodingChallengeScalarFieldEnum = {
   description: 'description',
   skillSlug: 'skillSlug',
   cohortId: 'cohortId',
+  entryPoint: 'entryPoint',
+  starterFiles: 'starterFiles',
+  sqlDialect: 'sqlDialect',
   createdAt: 'createdAt',
   updatedAt: 'updatedAt'
 };
@@ -248,6 +360,32 @@ exports.Prisma.CodingAttemptScalarFieldEnum = {
   score: 'score',
   judge0Token: 'judge0Token',
   submittedAt: 'submittedAt',
+  completedAt: 'completedAt',
+  assessmentSessionId: 'assessmentSessionId',
+  assessmentSeq: 'assessmentSeq',
+  codePurgedAt: 'codePurgedAt'
+};
+
+exports.Prisma.CodingAttemptTimelineScalarFieldEnum = {
+  attemptId: 'attemptId',
+  timeline: 'timeline',
+  eventCount: 'eventCount',
+  durationMs: 'durationMs',
+  truncated: 'truncated',
+  createdAt: 'createdAt'
+};
+
+exports.Prisma.CodingAttemptReviewScalarFieldEnum = {
+  attemptId: 'attemptId',
+  status: 'status',
+  model: 'model',
+  summary: 'summary',
+  correctness: 'correctness',
+  complexity: 'complexity',
+  readability: 'readability',
+  style: 'style',
+  error: 'error',
+  createdAt: 'createdAt',
   completedAt: 'completedAt'
 };
 
@@ -270,17 +408,55 @@ exports.Prisma.CodingSkillSignalScalarFieldEnum = {
   mappedScore: 'mappedScore'
 };
 
+exports.Prisma.CodingAssessmentScalarFieldEnum = {
+  id: 'id',
+  title: 'title',
+  cohortId: 'cohortId',
+  opensAt: 'opensAt',
+  closesAt: 'closesAt',
+  durationMinutes: 'durationMinutes',
+  attemptCap: 'attemptCap',
+  language: 'language',
+  createdBy: 'createdBy',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+};
+
+exports.Prisma.CodingAssessmentChallengeScalarFieldEnum = {
+  assessmentId: 'assessmentId',
+  challengeId: 'challengeId',
+  orderIndex: 'orderIndex'
+};
+
+exports.Prisma.CodingAssessmentSessionScalarFieldEnum = {
+  id: 'id',
+  assessmentId: 'assessmentId',
+  associateId: 'associateId',
+  startedAt: 'startedAt',
+  expiresAt: 'expiresAt'
+};
+
+exports.Prisma.CodingProctorEventScalarFieldEnum = {
+  id: 'id',
+  sessionId: 'sessionId',
+  type: 'type',
+  challengeId: 'challengeId',
+  chars: 'chars',
+  occurredAt: 'occurredAt',
+  createdAt: 'createdAt'
+};
+
 exports.Prisma.SortOrder = {
   asc: 'asc',
   desc: 'desc'
 };
 
-exports.Prisma.JsonNullValueInput = {
+exports.Prisma.NullableJsonNullValueInput = {
+  DbNull: Prisma.DbNull,
   JsonNull: Prisma.JsonNull
 };
 
-exports.Prisma.NullableJsonNullValueInput = {
-  DbNull: Prisma.DbNull,
+exports.Prisma.JsonNullValueInput = {
   JsonNull: Prisma.JsonNull
 };
 
@@ -289,32 +465,47 @@ exports.Prisma.QueryMode = {
   insensitive: 'insensitive'
 };
 
-exports.Prisma.NullsOrder = {
-  first: 'first',
-  last: 'last'
-};
-
 exports.Prisma.JsonNullValueFilter = {
   DbNull: Prisma.DbNull,
   JsonNull: Prisma.JsonNull,
   AnyNull: Prisma.AnyNull
 };
 
+exports.Prisma.NullsOrder = {
+  first: 'first',
+  last: 'last'
+};
+
 
 exports.Prisma.ModelName = {
   HealthCheck: 'HealthCheck',
   Associate: 'Associate',
   Session: 'Session',
+  CoInterviewerAssessment: 'CoInterviewerAssessment',
   GapScore: 'GapScore',
+  PracticeCard: 'PracticeCard',
   Settings: 'Settings',
   Cohort: 'Cohort',
+  ReadinessPolicy: 'ReadinessPolicy',
   CurriculumWeek: 'CurriculumWeek',
   Profile: 'Profile',
+  ScoringRubric: 'ScoringRubric',
+  RateLimitBucket: 'RateLimitBucket',
+  PostgresSandboxRun: 'PostgresSandboxRun',
   AuthEvent: 'AuthEvent',
+  AuditEvent: 'AuditEvent',
+  ErasureRequest: 'ErasureRequest',
+  RetentionPolicy: 'RetentionPolicy',
   CodingChallenge: 'CodingChallenge',
   CodingAttempt: 'CodingAttempt',
+  CodingAttemptTimeline: 'CodingAttemptTimeline',
+  CodingAttemptReview: 'CodingAttemptReview',
   CodingTestCase: 'CodingTestCase',
-  CodingSkillSignal: 'CodingSkillSignal'
+  CodingSkillSignal: 'CodingSkillSignal',
+  CodingAssessment: 'CodingAssessment',
+  CodingAssessmentChallenge: 'CodingAssessmentChallenge',
+  CodingAssessmentSession: 'CodingAssessmentSession',
+  CodingProctorEvent: 'CodingProctorEvent'
 };
 
 /**
@@ -107,6 +107,7 @@ exports.Prisma.AssociateScalarFieldEnum = {
   readinessStatus: 'readinessStatus',
   recommendedArea: 'recommendedArea',
   lastComputedAt: 'lastComputedAt',
+  readinessExplanation: 'readinessExplanation',
   email: 'email',
   authUserId: 'authUserId',
   lastInvitedAt: 'lastInvitedAt',
@@ -134,6 +135,21 @@ exports.Prisma.SessionScalarFieldEnum = {
   aiTrainerVariance: 'aiTrainerVariance',
   mode: 'mode',
   readinessRecomputeStatus: 'readinessRecomputeStatus',
+  revision: 'revision',
+  currentQuestionIndex: 'currentQuestionIndex',
+  draftAssociateSlug: 'draftAssociateSlug',
+  draftUpdatedBy: 'draftUpdatedBy',
+  notesPurgedAt: 'notesPurgedAt',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+};
+
+exports.Prisma.CoInterviewerAssessmentScalarFieldEnum = {
+  id: 'id',
+  sessionId: 'sessionId',
+  interviewerEmail: 'interviewerEmail',
+  interviewerName: 'interviewerName',
+  assessments: 'assessments',
   createdAt: 'createdAt',
   updatedAt: 'updatedAt'
 };
@@ -149,6 +165,27 @@ exports.Prisma.GapScoreScalarFieldEnum = {
   lastUpdated: 'lastUpdated'
 };
 
+exports.Prisma.PracticeCardScalarFieldEnum = {
+  id: 'id',
+  associateId: 'associateId',
+  cardKey: 'cardKey',
+  skill: 'skill',
+  topic: 'topic',
+  question: 'question',
+  modelAnswer: 'modelAnswer',
+  keywords: 'keywords',
+  sourceSessionId: 'sourceSessionId',
+  sourceScore: 'sourceScore',
+  easeFactor: 'easeFactor',
+  intervalDays: 'intervalDays',
+  repetitions: 'repetitions',
+  dueAt: 'dueAt',
+  lastReviewedAt: 'lastReviewedAt',
+  lastGrade: 'lastGrade',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+};
+
 exports.Prisma.SettingsScalarFieldEnum = {
   id: 'id',
   readinessThreshold: 'readinessThreshold',
@@ -165,6 +202,18 @@ exports.Prisma.CohortScalarFieldEnum = {
   updatedAt: 'updatedAt'
 };
 
+exports.Prisma.ReadinessPolicyScalarFieldEnum = {
+  id: 'id',
+  cohortId: 'cohortId',
+  minSessions: 'minSessions',
+  trendWindow: 'trendWindow',
+  threshold: 'threshold',
+  requiredSkills: 'requiredSkills',
+  codingWeight: 'codingWeight',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+};
+
 exports.Prisma.CurriculumWeekScalarFieldEnum = {
   id: 'id',
   cohortId: 'cohortId',
@@ -187,6 +236,32 @@ exports.Prisma.ProfileScalarFieldEnum = {
   updatedAt: 'updatedAt'
 };
 
+exports.Prisma.ScoringRubricScalarFieldEnum = {
+  id: 'id',
+  skillSlug: 'skillSlug',
+  version: 'version',
+  scoringGuidance: 'scoringGuidance',
+  summaryGuidance: 'summaryGuidance',
+  source: 'source',
+  createdBy: 'createdBy',
+  createdAt: 'createdAt'
+};
+
+exports.Prisma.RateLimitBucketScalarFieldEnum = {
+  key: 'key',
+  state: 'state',
+  version: 'version',
+  expiresAt: 'expiresAt',
+  updatedAt: 'updatedAt'
+};
+
+exports.Prisma.PostgresSandboxRunScalarFieldEnum = {
+  token: 'token',
+  submission: 'submission',
+  createdAt: 'createdAt',
+  finishedAt: 'finishedAt'
+};
+
 exports.Prisma.AuthEventScalarFieldEnum = {
   id: 'id',
   type: 'type',
@@ -196,6 +271,40 @@ exports.Prisma.AuthEventScalarFieldEnum = {
   createdAt: 'createdAt'
 };
 
+exports.Prisma.AuditEventScalarFieldEnum = {
+  id: 'id',
+  actorId: 'actorId',
+  actorEmail: 'actorEmail',
+  actorRole: 'actorRole',
+  action: 'action',
+  targetType: 'targetType',
+  targetId: 'targetId',
+  before: 'before',
+  after: 'after',
+  createdAt: 'createdAt'
+};
+
+exports.Prisma.ErasureRequestScalarFieldEnum = {
+  id: 'id',
+  associateId: 'associateId',
+  associateSlug: 'associateSlug',
+  reason: 'reason',
+  status: 'status',
+  reviewedBy: 'reviewedBy',
+  reviewedAt: 'reviewedAt',
+  note: 'note',
+  report: 'report',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+};
+
+exports.Prisma.RetentionPolicyScalarFieldEnum = {
+  dataClass: 'dataClass',
+  retainMonths: 'retainMonths',
+  updatedBy: 'updatedBy',
+  updatedAt: 'updatedAt'
+};
+
 exports.Prisma.CodingChallengeScalarFieldEnum = {
   id: 'id',
   slug: 'slug',
@@ -205,6 +314,9 @@ exports.Prisma.CodingChallengeScalarFieldEnum = {
   description: 'description',
   skillSlug: 'skillSlug',
   cohortId: 'cohortId',
+  entryPoint: 'entryPoint',
+  starterFiles: 'starterFiles',
+  sqlDialect: 'sqlDialect',
   createdAt: 'createdAt',
   updatedAt: 'updatedAt'
 };
@@ -221,6 +333,32 @@ exports.Prisma.CodingAttemptScalarFieldEnum = {
   score: 'score',
   judge0Token: 'judge0Token',
   submittedAt: 'submittedAt',
+  completedAt: 'completedAt',
+  assessmentSessionId: 'assessmentSessionId',
+  assessmentSeq: 'assessmentSeq',
+  codePurgedAt: 'codePurgedAt'
+};
+
+exports.Prisma.CodingAttemptTimelineScalarFieldEnum = {
+  attemptId: 'attemptId',
+  timeline: 'timeline',
+  eventCount: 'eventCount',
+  durationMs: 'durationMs',
+  truncated: 'truncated',
+  createdAt: 'createdAt'
+};
+
+exports.Prisma.CodingAttemptReviewScalarFieldEnum = {
+  attemptId: 'attemptId',
+  status: 'status',
+  model: 'model',
+  summary: 'summary',
+  correctness: 'correctness',
+  complexity: 'complexity',
+  readability: 'readability',
+  style: 'style',
+  error: 'error',
+  createdAt: 'createdAt',
   completedAt: 'completedAt'
 };
 
@@ -243,17 +381,55 @@ exports.Prisma.CodingSkillSignalScalarFieldEnum = {
   mappedScore: 'mappedScore'
 };
 
+exports.Prisma.CodingAssessmentScalarFieldEnum = {
+  id: 'id',
+  title: 'title',
+  cohortId: 'cohortId',
+  opensAt: 'opensAt',
+  closesAt: 'closesAt',
+  durationMinutes: 'durationMinutes',
+  attemptCap: 'attemptCap',
+  language: 'language',
+  createdBy: 'createdBy',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+};
+
+exports.Prisma.CodingAssessmentChallengeScalarFieldEnum = {
+  assessmentId: 'assessmentId',
+  challengeId: 'challengeId',
+  orderIndex: 'orderIndex'
+};
+
+exports.Prisma.CodingAssessmentSessionScalarFieldEnum = {
+  id: 'id',
+  assessmentId: 'assessmentId',
+  associateId: 'associateId',
+  startedAt: 'startedAt',
+  expiresAt: 'expiresAt'
+};
+
+exports.Prisma.CodingProctorEventScalarFieldEnum = {
+  id: 'id',
+  sessionId: 'sessionId',
+  type: 'type',
+  challengeId: 'challengeId',
+  chars: 'chars',
+  occurredAt: 'occurredAt',
+  createdAt: 'createdAt'
+};
+
 exports.Prisma.SortOrder = {
   asc: 'asc',
   desc: 'desc'
 };
 
-exports.Prisma.JsonNullValueInput = {
+exports.Prisma.NullableJsonNullValueInput = {
+  DbNull: Prisma.DbNull,
   JsonNull: Prisma.JsonNull
 };
 
-exports.Prisma.NullableJsonNullValueInput = {
-  DbNull: Prisma.DbNull,
+exports.Prisma.JsonNullValueInput = {
   JsonNull: Prisma.JsonNull
 };
 
@@ -262,32 +438,47 @@ exports.Prisma.QueryMode = {
   insensitive: 'insensitive'
 };
 
-exports.Prisma.NullsOrder = {
-  first: 'first',
-  last: 'last'
-};
-
 exports.Prisma.JsonNullValueFilter = {
   DbNull: Prisma.DbNull,
   JsonNull: Prisma.JsonNull,
   AnyNull: Prisma.AnyNull
 };
 
+exports.Prisma.NullsOrder = {
+  first: 'first',
+  last: 'last'
+};
+
 
 exports.Prisma.ModelName = {
   HealthCheck: 'HealthCheck',
   Associate: 'Associate',
   Session: 'Session',
+  CoInterviewerAssessment: 'CoInterviewerAssessment',
   GapScore: 'GapScore',
+  PracticeCard: 'PracticeCard',
   Settings: 'Settings',
   Cohort: 'Cohort',
+  ReadinessPolicy: 'ReadinessPolicy',
   CurriculumWeek: 'CurriculumWeek',
   Profile: 'Profile',
+  ScoringRubric: 'ScoringRubric',
+  RateLimitBucket: 'RateLimitBucket',
+  PostgresSandboxRun: 'PostgresSandboxRun',
   AuthEvent: 'AuthEvent',
+  AuditEvent: 'AuditEvent',
+  ErasureRequest: 'ErasureRequest',
+  RetentionPolicy: 'RetentionPolicy',
   CodingChallenge: 'CodingChallenge',
   CodingAttempt: 'CodingAttempt',
+  CodingAttemptTimeline: 'CodingAttemptTimeline',
+  CodingAttemptReview: 'CodingAttemptReview',
   CodingTestCase: 'CodingTestCase',
-  CodingSkillSignal: 'CodingSkillSignal'
+  CodingSkillSignal: 'CodingSkillSignal',
+  CodingAssessment: 'CodingAssessment',
+  CodingAssessmentChallenge: 'CodingAssessmentChallenge',
+  CodingAssessmentSession: 'CodingAssessmentSession',
+  CodingProctorEvent: 'CodingProctorEvent'
 };
 /**
  * Create the Client
@@ -297,14 +488,14 @@ const config = {
   "clientVersion": "7.7.0",
   "engineVersion": "75cbdc1eb7150937890ad5465d861175c6624711",
   "activeProvider": "postgresql",
-  "inlineSchema": "generator client {\n  provider = \"prisma-client-js\"\n  output   = \"../src/generated/prisma\"\n}\n\ndatasource db {\n  provider = \"postgresql\"\n}\n\n// Connectivity test table — proves the pipeline works\nmodel HealthCheck {\n  id        Int      @id @default(autoincrement())\n  createdAt DateTime @default(now())\n}\n\nmodel Associate {\n  id              Int             @id @default(autoincrement())\n  slug            String          @unique\n  displayName     String?\n  createdAt       DateTime        @default(now())\n  updatedAt       DateTime        @updatedAt\n  readinessStatus String? // 'ready' | 'improving' | 'not_ready'\n  recommendedArea String? // topic or skill name — lowest gap score\n  lastComputedAt  DateTime? // when readiness was last computed\n  email           String?         @unique\n  authUserId      String?         @unique\n  lastInvitedAt   DateTime?\n  cohortId        Int?\n  cohort          Cohort?         @relation(fields: [cohortId], references: [id], onDelete: SetNull)\n  sessions        Session[]\n  gapScores       GapScore[]\n  codingAttempts  CodingAttempt[]\n\n  @@index([cohortId])\n}\n\nmodel Session {\n  id                       String     @id\n  candidateName            String?\n  interviewerName          String?\n  date                     String\n  status                   String\n  questionCount            Int\n  selectedWeeks            Json\n  overallTechnicalScore    Float?\n  overallSoftSkillScore    Float?\n  technicalFeedback        String?\n  softSkillFeedback        String?\n  questions                Json\n  starterQuestions         Json\n  assessments              Json\n  techMap                  Json? // Record<number, string> mapping weekNumber -> skill name\n  associateId              Int?\n  associate                Associate? @relation(fields: [associateId], references: [id])\n  cohortId                 Int?\n  cohort                   Cohort?    @relation(fields: [cohortId], references: [id], onDelete: SetNull)\n  aiTrainerVariance        Float?\n  mode                     String     @default(\"trainer-led\")\n  readinessRecomputeStatus String     @default(\"not_applicable\") // not_applicable | pending | done | failed\n  createdAt                DateTime   @default(now())\n  updatedAt                DateTime   @updatedAt\n\n  @@index([cohortId])\n  @@index([readinessRecomputeStatus])\n}\n\nmodel GapScore {\n  id                String   @id @default(cuid())\n  associateId       Int\n  skill             String\n  topic             String   @default(\"\")\n  weightedScore     Float\n  prevWeightedScore Float?\n  sessionCount      Int\n  lastUpdated       DateTime @updatedAt\n\n  associate Associate @relation(fields: [associateId], references: [id], onDelete: Cascade)\n\n  @@unique([associateId, skill, topic])\n  @@index([associateId])\n}\n\n// Singleton-row trainer configuration. id is pinned to 1 — only one row ever exists.\n// Additional trainer-configurable settings can be added here in future phases.\nmodel Settings {\n  id                 Int      @id @default(1)\n  readinessThreshold Float    @default(75)\n  updatedAt          DateTime @updatedAt\n}\n\nmodel Cohort {\n  id               Int               @id @default(autoincrement())\n  name             String\n  startDate        DateTime\n  endDate          DateTime?\n  description      String?\n  createdAt        DateTime          @default(now())\n  updatedAt        DateTime          @updatedAt\n  associates       Associate[]\n  sessions         Session[]\n  curriculumWeeks  CurriculumWeek[]\n  codingChallenges CodingChallenge[]\n}\n\nmodel CurriculumWeek {\n  id         Int      @id @default(autoincrement())\n  cohortId   Int\n  weekNumber Int\n  skillName  String // display text only\n  skillSlug  String // canonical matcher value (e.g. \"react\", \"node\")\n  topicTags  String[] // Postgres native array\n  startDate  DateTime\n\n  cohort Cohort @relation(fields: [cohortId], references: [id], onDelete: Cascade)\n\n  @@unique([cohortId, weekNumber])\n  @@index([cohortId])\n}\n\nmodel Profile {\n  id             Int       @id @default(autoincrement())\n  authUserId     String    @unique // Supabase auth.users.id — one profile per user\n  displayName    String?\n  githubUsername String?\n  bio            String?\n  learningGoals  String?\n  passwordSetAt  DateTime? // Replaces user_metadata.password_set detection\n  createdAt      DateTime  @default(now())\n  updatedAt      DateTime  @updatedAt\n}\n\n// Auth event log for rate-limit abuse tracking and admin visibility\nmodel AuthEvent {\n  id        String   @id @default(cuid())\n  type      String // 'magic-link' | 'reset' | 'reset-abuse-flag' | 'login-failure'\n  email     String\n  ip        String\n  metadata  Json? // e.g. { flagCount: N, deduplicatedUntil: ISO }\n  createdAt DateTime @default(now())\n\n  @@index([email, type])\n  @@index([createdAt])\n}\n\n// ─────────────────────────────────────────────────────────────────────\n// v1.4 Coding Challenges (Phase 36)\n// ─────────────────────────────────────────────────────────────────────\n\nmodel CodingChallenge {\n  id          String   @id @default(cuid())\n  slug        String   @unique\n  title       String\n  language    String // 'python' | 'javascript' | 'typescript' | 'java' | 'sql' | 'csharp' (per D-03, Zod-validated at write)\n  difficulty  String // 'easy' | 'medium' | 'hard' (Zod-validated at write)\n  description String // markdown path in public repo (e.g. \"challenges/two-sum/README.md\")\n  skillSlug   String // joins to CurriculumWeek.skillSlug\n  cohortId    Int?\n  createdAt   DateTime @default(now())\n  updatedAt   DateTime @updatedAt\n\n  cohort    Cohort?          @relation(fields: [cohortId], references: [id], onDelete: SetNull)\n  attempts  CodingAttempt[]\n  testCases CodingTestCase[]\n\n  @@index([cohortId])\n  @@index([skillSlug])\n  @@index([language])\n}\n\nmodel CodingAttempt {\n  id                 String    @id @default(cuid())\n  associateId        Int\n  challengeId        String\n  submittedCode      String // raw user code, could be large\n  language           String // same allowlist as challenge\n  verdict            String    @default(\"pending\")\n  // 'pass' | 'fail' | 'timeout' | 'mle' | 'runtime_error' | 'compile_error' | 'pending'\n  visibleTestResults Json      @default(\"[]\")\n  // array of {caseId, passed, stdin?, stdout?, expected?, durationMs}\n  hiddenTestResults  Json      @default(\"[]\")\n  // array of verdict-only {caseId, passed, durationMs} — NEVER stdin/expected (D-06)\n  score              Float? // 0-100, server-computed, null until Judge0 callback resolves (D-07)\n  judge0Token        String? // nullable — filled in by Phase 39 when Judge0 returns\n  submittedAt        DateTime  @default(now())\n  completedAt        DateTime?\n\n  associate Associate          @relation(fields: [associateId], references: [id], onDelete: Cascade)\n  challenge CodingChallenge    @relation(fields: [challengeId], references: [id], onDelete: Restrict)\n  signal    CodingSkillSignal?\n\n  @@index([associateId])\n  @@index([challengeId])\n  @@index([verdict])\n  @@index([submittedAt])\n}\n\nmodel CodingTestCase {\n  id             String  @id @default(cuid())\n  challengeId    String\n  isHidden       Boolean @default(false)\n  stdin          String\n  expectedStdout String\n  weight         Float   @default(1.0) // partial-credit multiplier\n  orderIndex     Int     @default(0)\n\n  challenge CodingChallenge @relation(fields: [challengeId], references: [id], onDelete: Cascade)\n\n  @@unique([challengeId, id])\n  @@index([challengeId])\n  @@index([isHidden])\n}\n\nmodel CodingSkillSignal {\n  id          String @id @default(cuid())\n  attemptId   String @unique\n  skillSlug   String\n  signalType  String // 'pass' | 'partial' | 'fail' | 'compile_error' | 'timeout' (per D-03)\n  weight      Float // 1.0 / 0.85 / 1.0 / 0.6 / 0.8 (per D-16 weight table)\n  mappedScore Float // 0-100\n\n  attempt CodingAttempt @relation(fields: [attemptId], references: [id], onDelete: Cascade)\n\n  @@index([skillSlug])\n}\n"
+  "inlineSchema": "generator client {\n  provider = \"prisma-client-js\"\n  output   = \"../src/generated/prisma\"\n}\n\ndatasource db {\n  provider = \"postgresql\"\n}\n\n// Connectivity test table — proves the pipeline works\nmodel HealthCheck {\n  id        Int      @id @default(autoincrement())\n  createdAt DateTime @default(now())\n}\n\nmodel Associate {\n  id                   Int                       @id @default(autoincrement())\n  slug                 String                    @unique\n  displayName          String?\n  createdAt            DateTime                  @default(now())\n  updatedAt            DateTime                  @updatedAt\n  readinessStatus      String? // 'ready' | 'improving' | 'not_ready'\n  recommendedArea      String? // topic or skill name — lowest gap score\n  lastComputedAt       DateTime? // when readiness was last computed\n  readinessExplanation Json? // ReadinessExplanation from the last computation (src/lib/readinessPolicy.ts)\n  email                String?                   @unique\n  authUserId           String?                   @unique\n  lastInvitedAt        DateTime?\n  cohortId             Int?\n  cohort               Cohort?                   @relation(fields: [cohortId], references: [id], onDelete: SetNull)\n  sessions             Session[]\n  gapScores            GapScore[]\n  codingAttempts       CodingAttempt[]\n  practiceCards        PracticeCard[]\n  assessmentSessions   CodingAssessmentSession[]\n\n  @@index([cohortId])\n}\n\nmodel Session {\n  id                       String                    @id\n  candidateName            String?\n  interviewerName          String?\n  date                     String\n  status                   String\n  questionCount            Int\n  selectedWeeks            Json\n  overallTechnicalScore    Float?\n  overallSoftSkillScore    Float?\n  technicalFeedback        String?\n  softSkillFeedback        String?\n  questions                Json\n  starterQuestions         Json\n  assessments              Json\n  techMap                  Json? // Record<number, string> mapping weekNumber -> skill name\n  associateId              Int?\n  associate                Associate?                @relation(fields: [associateId], references: [id])\n  cohortId                 Int?\n  cohort                   Cohort?                   @relation(fields: [cohortId], references: [id], onDelete: SetNull)\n  aiTrainerVariance        Float?\n  mode                     String                    @default(\"trainer-led\")\n  readinessRecomputeStatus String                    @default(\"not_applicable\") // not_applicable | pending | done | failed\n  // Server-side drafts (in-progress / review). associateId stays null until the\n  // final save so drafts never reach gap scores or readiness.\n  revision                 Int                       @default(0) // bumped on every draft save; stale saves → 409\n  currentQuestionIndex     Int                       @default(0)\n  draftAssociateSlug       String?\n  draftUpdatedBy           String?\n  notesPurgedAt            DateTime? // interviewer notes / transcript cleared by the retention sweep\n  coAssessments            CoInterviewerAssessment[]\n  createdAt                DateTime                  @default(now())\n  updatedAt                DateTime                  @updatedAt\n\n  @@index([cohortId])\n  @@index([readinessRecomputeStatus])\n  @@index([status])\n}\n\n// Second (shadow) trainer's assessments for a live session — one row per\n// co-interviewer. Kept apart from Session.assessments so co-interviewer saves\n// never bump the lead's draft revision.\nmodel CoInterviewerAssessment {\n  id               Int      @id @default(autoincrement())\n  sessionId        String\n  session          Session  @relation(fields: [sessionId], references: [id], onDelete: Cascade)\n  interviewerEmail String\n  interviewerName  String?\n  assessments      Json // Record<questionId, CoQuestionAssessment>\n  createdAt        DateTime @default(now())\n  updatedAt        DateTime @updatedAt\n\n  @@unique([sessionId, interviewerEmail])\n  @@index([sessionId])\n}\n\nmodel GapScore {\n  id                String   @id @default(cuid())\n  associateId       Int\n  skill             String\n  topic             String   @default(\"\")\n  weightedScore     Float\n  prevWeightedScore Float?\n  sessionCount      Int\n  lastUpdated       DateTime @updatedAt\n\n  associate Associate @relation(fields: [associateId], references: [id], onDelete: Cascade)\n\n  @@unique([associateId, skill, topic])\n  @@index([associateId])\n}\n\n// Spaced-repetition review card for one low-scoring interview question\n// (see src/lib/spacedRepetition.ts). Question text is snapshotted from the\n// session so cards survive question-bank edits. cardKey = \"<skill>#<questionNumber>\".\nmodel PracticeCard {\n  id              Int       @id @default(autoincrement())\n  associateId     Int\n  associate       Associate @relation(fields: [associateId], references: [id], onDelete: Cascade)\n  cardKey         String\n  skill           String\n  topic           String\n  question        String\n  modelAnswer     String\n  keywords        Json // string[]\n  sourceSessionId String\n  sourceScore     Float\n  easeFactor      Float     @default(2.5)\n  intervalDays    Int       @default(0)\n  repetitions     Int       @default(0)\n  dueAt           DateTime  @default(now())\n  lastReviewedAt  DateTime?\n  lastGrade       Int?\n  createdAt       DateTime  @default(now())\n  updatedAt       DateTime  @updatedAt\n\n  @@unique([associateId, cardKey])\n  @@index([associateId, dueAt])\n}\n\n// Singleton-row trainer configuration. id is pinned to 1 — only one row ever exists.\n// Additional trainer-configurable settings can be added here in future phases.\nmodel Settings {\n  id                 Int      @id @default(1)\n  readinessThreshold Float    @default(75)\n  updatedAt          DateTime @updatedAt\n}\n\nmodel Cohort {\n  id                Int                @id @default(autoincrement())\n  name              String\n  startDate         DateTime\n  endDate           DateTime?\n  description       String?\n  createdAt         DateTime           @default(now())\n  updatedAt         DateTime           @updatedAt\n  associates        Associate[]\n  sessions          Session[]\n  curriculumWeeks   CurriculumWeek[]\n  codingChallenges  CodingChallenge[]\n  readinessPolicy   ReadinessPolicy?\n  codingAssessments CodingAssessment[]\n}\n\n// Per-cohort override of the readiness model (src/lib/readinessPolicy.ts).\n// Cohorts without a row use DEFAULT_READINESS_POLICY + Settings.readinessThreshold.\nmodel ReadinessPolicy {\n  id             Int      @id @default(autoincrement())\n  cohortId       Int      @unique\n  cohort         Cohort   @relation(fields: [cohortId], references: [id], onDelete: Cascade)\n  minSessions    Int      @default(3)\n  trendWindow    Int      @default(3)\n  threshold      Float? // null = global Settings.readinessThreshold\n  requiredSkills String[] @default([])\n  codingWeight   Float    @default(0) // 0-1 share of coding GapScores in the readiness average\n  createdAt      DateTime @default(now())\n  updatedAt      DateTime @updatedAt\n}\n\nmodel CurriculumWeek {\n  id         Int      @id @default(autoincrement())\n  cohortId   Int\n  weekNumber Int\n  skillName  String // display text only\n  skillSlug  String // canonical matcher value (e.g. \"react\", \"node\")\n  topicTags  String[] // Postgres native array\n  startDate  DateTime\n\n  cohort Cohort @relation(fields: [cohortId], references: [id], onDelete: Cascade)\n\n  @@unique([cohortId, weekNumber])\n  @@index([cohortId])\n}\n\nmodel Profile {\n  id             Int       @id @default(autoincrement())\n  authUserId     String    @unique // Supabase auth.users.id — one profile per user\n  displayName    String?\n  githubUsername String?\n  bio            String?\n  learningGoals  String?\n  passwordSetAt  DateTime? // Replaces user_metadata.password_set detection\n  createdAt      DateTime  @default(now())\n  updatedAt      DateTime  @updatedAt\n}\n\n// Trainer-authored scoring rubric for one skill. Append-only: every save\n// inserts a new version so past sessions can cite the exact rubric that graded\n// them (QuestionAssessment.rubric = { skillSlug, version }). skillSlug \"default\"\n// is the fallback for skills without their own rubric.\nmodel ScoringRubric {\n  id              Int      @id @default(autoincrement())\n  skillSlug       String // matches CurriculumWeek.skillSlug / techMap skill names\n  version         Int\n  scoringGuidance String // what each 1-5 score means for this skill\n  summaryGuidance String? // optional extra instructions for the session summary\n  source          String   @default(\"settings\") // 'settings' | 'repo'\n  createdBy       String? // trainer email\n  createdAt       DateTime @default(now())\n\n  @@unique([skillSlug, version])\n  @@index([skillSlug])\n}\n\n// Shared rate-limit state (RATE_LIMIT_STORE=postgres). One row per limiter\n// key; `version` is bumped on every write so concurrent instances update a\n// bucket with compare-and-set instead of clobbering each other.\nmodel RateLimitBucket {\n  key       String   @id // '<scope>:<subject>', e.g. 'coding-submit:associate:42:hour'\n  state     Json // policy-specific: { count, windowStart } | { hits } | { tokens, updatedAt }\n  version   Int\n  expiresAt DateTime // state is meaningless after this; purged by cleanupService\n  updatedAt DateTime @updatedAt\n\n  @@index([expiresAt])\n}\n\n// Result of one Postgres-dialect SQL run (src/lib/postgresSandboxRunner.ts),\n// keyed by its `pg-` token so whichever instance serves the poll can answer\n// it. Written 'In Queue' on submit and once more when the run finishes;\n// purged by cleanupService.\nmodel PostgresSandboxRun {\n  token      String    @id\n  submission Json // Judge0Submission shape\n  createdAt  DateTime  @default(now())\n  finishedAt DateTime?\n\n  @@index([createdAt])\n}\n\n// Auth event log for rate-limit abuse tracking and admin visibility\nmodel AuthEvent {\n  id        String   @id @default(cuid())\n  type      String // 'magic-link' | 'reset' | 'reset-abuse-flag' | 'login-failure'\n  email     String\n  ip        String\n  metadata  Json? // e.g. { flagCount: N, deduplicatedUntil: ISO }\n  createdAt DateTime @default(now())\n\n  @@index([email, type])\n  @@index([createdAt])\n}\n\n// Who changed what, for compliance review. Append-only: a trigger in the\n// migration rejects UPDATE and DELETE. `before` / `after` hold only the\n// fields that changed (null for creates and deletes respectively).\nmodel AuditEvent {\n  id         String   @id @default(cuid())\n  actorId    String // Supabase auth user id\n  actorEmail String\n  actorRole  String // staff role at the time of the action\n  action     String // '<target>.<verb>', e.g. 'session.score_override', 'curriculum_week.delete'\n  targetType String // 'session' | 'associate' | 'cohort' | 'curriculum_week' | 'settings' | 'readiness_policy' | 'erasure_request' | 'retention_policy'\n  targetId   String\n  before     Json?\n  after      Json?\n  createdAt  DateTime @default(now())\n\n  @@index([createdAt])\n  @@index([targetType, targetId])\n  @@index([actorId])\n  @@index([action])\n}\n\n// Associate-initiated right-to-erasure request (src/lib/associateData.ts).\n// Nothing is removed until an admin approves; the approval runs the erasure\n// and stores its confirmation report here. associateId has no relation so the\n// request (and report) outlives the rows it erased.\nmodel ErasureRequest {\n  id            String    @id @default(cuid())\n  associateId   Int\n  associateSlug String\n  reason        String?\n  status        String    @default(\"pending\") // 'pending' | 'rejected' | 'completed' | 'failed'\n  reviewedBy    String? // admin email\n  reviewedAt    DateTime?\n  note          String? // admin's reason when rejecting\n  report        Json? // ErasureReport once completed (or how far a failed run got)\n  createdAt     DateTime  @default(now())\n  updatedAt     DateTime  @updatedAt\n\n  @@index([status, createdAt])\n  @@index([associateId])\n}\n\n// How long each data class is kept (src/lib/retentionPolicy.ts). A missing\n// row or null retainMonths keeps that class indefinitely.\nmodel RetentionPolicy {\n  dataClass    String   @id // 'submitted_code' | 'interviewer_notes' | 'transcripts' | 'auth_events' | 'completed_sessions'\n  retainMonths Int?\n  updatedBy    String? // staff email\n  updatedAt    DateTime @updatedAt\n}\n\n// ─────────────────────────────────────────────────────────────────────\n// v1.4 Coding Challenges (Phase 36)\n// ─────────────────────────────────────────────────────────────────────\n\nmodel CodingChallenge {\n  id           String   @id @default(cuid())\n  slug         String   @unique\n  title        String\n  language     String // 'python' | 'javascript' | 'typescript' | 'java' | 'sql' | 'csharp' (per D-03, Zod-validated at write)\n  difficulty   String // 'easy' | 'medium' | 'hard' (Zod-validated at write)\n  description  String // markdown path in public repo (e.g. \"challenges/two-sum/README.md\")\n  skillSlug    String // joins to CurriculumWeek.skillSlug\n  cohortId     Int?\n  entryPoint   Json? // function challenges: meta.entryPoint (signature + compare options); null → stdin/stdout\n  starterFiles Json? // multi-file challenges: [{ path, content, readOnly }] for `language`, entry first; null → single file\n  sqlDialect   String? // SQL challenges: meta.sqlDialect ('sqlite' | 'postgres'); null → sqlite\n  createdAt    DateTime @default(now())\n  updatedAt    DateTime @updatedAt\n\n  cohort      Cohort?                     @relation(fields: [cohortId], references: [id], onDelete: SetNull)\n  attempts    CodingAttempt[]\n  testCases   CodingTestCase[]\n  assessments CodingAssessmentChallenge[]\n\n  @@index([cohortId])\n  @@index([skillSlug])\n  @@index([language])\n}\n\nmodel CodingAttempt {\n  id                  String    @id @default(cuid())\n  associateId         Int\n  challengeId         String\n  submittedCode       String // raw user code, could be large\n  language            String // same allowlist as challenge\n  verdict             String    @default(\"pending\")\n  // 'pass' | 'fail' | 'timeout' | 'mle' | 'runtime_error' | 'compile_error' | 'pending'\n  visibleTestResults  Json      @default(\"[]\")\n  // array of {caseId, passed, stdin?, stdout?, expected?, durationMs}\n  hiddenTestResults   Json      @default(\"[]\")\n  // array of verdict-only {caseId, passed, durationMs} — NEVER stdin/expected (D-06)\n  score               Float? // 0-100, server-computed, null until Judge0 callback resolves (D-07)\n  judge0Token         String? // nullable — filled in by Phase 39 when Judge0 returns\n  submittedAt         DateTime  @default(now())\n  completedAt         DateTime?\n  assessmentSessionId String? // set when submitted inside a timed assessment\n  assessmentSeq       Int? // attempt slot 1..attemptCap within the sitting + challenge\n  codePurgedAt        DateTime? // submittedCode + edit timeline cleared by the retention sweep\n\n  associate         Associate                @relation(fields: [associateId], references: [id], onDelete: Cascade)\n  challenge         CodingChallenge          @relation(fields: [challengeId], references: [id], onDelete: Restrict)\n  signal            CodingSkillSignal?\n  assessmentSession CodingAssessmentSession? @relation(fields: [assessmentSessionId], references: [id], onDelete: SetNull)\n  timeline          CodingAttemptTimeline?\n  review            CodingAttemptReview?\n\n  @@unique([assessmentSessionId, challengeId, assessmentSeq])\n  @@index([associateId])\n  @@index([assessmentSessionId])\n  @@index([challengeId])\n  @@index([verdict])\n  @@index([submittedAt])\n}\n\n// Edit timeline recorded by the solve editor, replayed on the trainer coding\n// panel (src/lib/editTimeline.ts). One row per attempt, kept off CodingAttempt\n// so attempt lists never load it.\nmodel CodingAttemptTimeline {\n  attemptId  String   @id\n  timeline   Json // { v, files, events } — compressed edits + run/submit marks\n  eventCount Int\n  durationMs Int\n  truncated  Boolean  @default(false) // recorder hit its size cap; later edits missing\n  createdAt  DateTime @default(now())\n\n  attempt CodingAttempt @relation(fields: [attemptId], references: [id], onDelete: Cascade)\n}\n\n// LLM code review of a resolved attempt (src/lib/codeReviewService.ts). Created\n// 'pending' by the first poll that resolves the attempt; the row doubles as\n// the claim so concurrent polls never request two reviews.\nmodel CodingAttemptReview {\n  attemptId   String    @id\n  status      String    @default(\"pending\") // 'pending' | 'ready' | 'failed'\n  model       String? // provider model that wrote the review\n  summary     String?\n  correctness String?\n  complexity  String?\n  readability String?\n  style       String?\n  error       String? // failure reason, server logs only — never sent to clients\n  createdAt   DateTime  @default(now())\n  completedAt DateTime?\n\n  attempt CodingAttempt @relation(fields: [attemptId], references: [id], onDelete: Cascade)\n}\n\nmodel CodingTestCase {\n  id             String  @id @default(cuid())\n  challengeId    String\n  isHidden       Boolean @default(false)\n  stdin          String\n  expectedStdout String\n  weight         Float   @default(1.0) // partial-credit multiplier\n  orderIndex     Int     @default(0)\n\n  challenge CodingChallenge @relation(fields: [challengeId], references: [id], onDelete: Cascade)\n\n  @@unique([challengeId, id])\n  @@index([challengeId])\n  @@index([isHidden])\n}\n\nmodel CodingSkillSignal {\n  id          String @id @default(cuid())\n  attemptId   String @unique\n  skillSlug   String\n  signalType  String // 'pass' | 'partial' | 'fail' | 'compile_error' | 'timeout' (per D-03)\n  weight      Float // 1.0 / 0.85 / 1.0 / 0.6 / 0.8 (per D-16 weight table)\n  mappedScore Float // 0-100\n\n  attempt CodingAttempt @relation(fields: [attemptId], references: [id], onDelete: Cascade)\n\n  @@index([skillSlug])\n}\n\n// Timed coding assessment assigned to a cohort (src/lib/codingAssessmentService.ts).\n// Each associate's timer starts when they open it and never runs past closesAt.\nmodel CodingAssessment {\n  id              String   @id @default(cuid())\n  title           String\n  cohortId        Int\n  opensAt         DateTime\n  closesAt        DateTime\n  durationMinutes Int // per-associate time limit from the moment they start\n  attemptCap      Int // graded submissions allowed per challenge\n  language        String? // language lock; null → each challenge's own language\n  createdBy       String? // trainer/admin auth user id\n  createdAt       DateTime @default(now())\n  updatedAt       DateTime @updatedAt\n\n  cohort     Cohort                      @relation(fields: [cohortId], references: [id], onDelete: Cascade)\n  challenges CodingAssessmentChallenge[]\n  sessions   CodingAssessmentSession[]\n\n  @@index([cohortId])\n}\n\nmodel CodingAssessmentChallenge {\n  assessmentId String\n  challengeId  String\n  orderIndex   Int\n\n  assessment CodingAssessment @relation(fields: [assessmentId], references: [id], onDelete: Cascade)\n  challenge  CodingChallenge  @relation(fields: [challengeId], references: [id], onDelete: Restrict)\n\n  @@id([assessmentId, challengeId])\n}\n\n// One associate's sitting of an assessment, created when they start it.\nmodel CodingAssessmentSession {\n  id           String   @id @default(cuid())\n  assessmentId String\n  associateId  Int\n  startedAt    DateTime @default(now())\n  expiresAt    DateTime // min(startedAt + durationMinutes, assessment.closesAt)\n\n  assessment CodingAssessment     @relation(fields: [assessmentId], references: [id], onDelete: Cascade)\n  associate  Associate            @relation(fields: [associateId], references: [id], onDelete: Cascade)\n  attempts   CodingAttempt[]\n  events     CodingProctorEvent[]\n\n  @@unique([assessmentId, associateId])\n  @@index([associateId])\n}\n\n// Client-reported integrity signals during an assessment sitting.\nmodel CodingProctorEvent {\n  id          Int      @id @default(autoincrement())\n  sessionId   String\n  type        String // 'tab_hidden' | 'tab_visible' | 'paste' | 'copy' | 'auto_submit'\n  challengeId String?\n  chars       Int? // paste/copy size\n  occurredAt  DateTime // client clock\n  createdAt   DateTime @default(now())\n\n  session CodingAssessmentSession @relation(fields: [sessionId], references: [id], onDelete: Cascade)\n\n  @@index([sessionId, occurredAt])\n}\n"
 }
 
-config.runtimeDataModel = JSON.parse("{\"models\":{\"HealthCheck\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"Associate\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"slug\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"displayName\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"readinessStatus\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"recommendedArea\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"lastComputedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"email\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"authUserId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"lastInvitedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"cohortId\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"cohort\",\"kind\":\"object\",\"type\":\"Cohort\",\"relationName\":\"AssociateToCohort\"},{\"name\":\"sessions\",\"kind\":\"object\",\"type\":\"Session\",\"relationName\":\"AssociateToSession\"},{\"name\":\"gapScores\",\"kind\":\"object\",\"type\":\"GapScore\",\"relationName\":\"AssociateToGapScore\"},{\"name\":\"codingAttempts\",\"kind\":\"object\",\"type\":\"CodingAttempt\",\"relationName\":\"AssociateToCodingAttempt\"}],\"dbName\":null},\"Session\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"candidateName\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"interviewerName\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"date\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"status\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"questionCount\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"selectedWeeks\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"overallTechnicalScore\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"overallSoftSkillScore\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"technicalFeedback\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"softSkillFeedback\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"questions\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"starterQuestions\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"assessments\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"techMap\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"associateId\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"associate\",\"kind\":\"object\",\"type\":\"Associate\",\"relationName\":\"AssociateToSession\"},{\"name\":\"cohortId\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"cohort\",\"kind\":\"object\",\"type\":\"Cohort\",\"relationName\":\"CohortToSession\"},{\"name\":\"aiTrainerVariance\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"mode\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"readinessRecomputeStatus\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"GapScore\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"associateId\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"skill\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"topic\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"weightedScore\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"prevWeightedScore\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"sessionCount\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"lastUpdated\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"associate\",\"kind\":\"object\",\"type\":\"Associate\",\"relationName\":\"AssociateToGapScore\"}],\"dbName\":null},\"Settings\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"readinessThreshold\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"Cohort\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"startDate\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"endDate\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"description\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"associates\",\"kind\":\"object\",\"type\":\"Associate\",\"relationName\":\"AssociateToCohort\"},{\"name\":\"sessions\",\"kind\":\"object\",\"type\":\"Session\",\"relationName\":\"CohortToSession\"},{\"name\":\"curriculumWeeks\",\"kind\":\"object\",\"type\":\"CurriculumWeek\",\"relationName\":\"CohortToCurriculumWeek\"},{\"name\":\"codingChallenges\",\"kind\":\"object\",\"type\":\"CodingChallenge\",\"relationName\":\"CodingChallengeToCohort\"}],\"dbName\":null},\"CurriculumWeek\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"cohortId\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"weekNumber\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"skillName\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"skillSlug\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"topicTags\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"startDate\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"cohort\",\"kind\":\"object\",\"type\":\"Cohort\",\"relationName\":\"CohortToCurriculumWeek\"}],\"dbName\":null},\"Profile\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"authUserId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"displayName\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"githubUsername\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"bio\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"learningGoals\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"passwordSetAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"AuthEvent\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"type\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"email\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"ip\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"metadata\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"CodingChallenge\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"slug\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"title\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"language\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"difficulty\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"description\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"skillSlug\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"cohortId\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"cohort\",\"kind\":\"object\",\"type\":\"Cohort\",\"relationName\":\"CodingChallengeToCohort\"},{\"name\":\"attempts\",\"kind\":\"object\",\"type\":\"CodingAttempt\",\"relationName\":\"CodingAttemptToCodingChallenge\"},{\"name\":\"testCases\",\"kind\":\"object\",\"type\":\"CodingTestCase\",\"relationName\":\"CodingChallengeToCodingTestCase\"}],\"dbName\":null},\"CodingAttempt\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"associateId\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"challengeId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"submittedCode\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"language\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"verdict\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"visibleTestResults\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"hiddenTestResults\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"score\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"judge0Token\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"submittedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"completedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"associate\",\"kind\":\"object\",\"type\":\"Associate\",\"relationName\":\"AssociateToCodingAttempt\"},{\"name\":\"challenge\",\"kind\":\"object\",\"type\":\"CodingChallenge\",\"relationName\":\"CodingAttemptToCodingChallenge\"},{\"name\":\"signal\",\"kind\":\"object\",\"type\":\"CodingSkillSignal\",\"relationName\":\"CodingAttemptToCodingSkillSignal\"}],\"dbName\":null},\"CodingTestCase\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"challengeId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"isHidden\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"stdin\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"expectedStdout\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"weight\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"orderIndex\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"challenge\",\"kind\":\"object\",\"type\":\"CodingChallenge\",\"relationName\":\"CodingChallengeToCodingTestCase\"}],\"dbName\":null},\"CodingSkillSignal\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"attemptId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"skillSlug\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"signalType\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"weight\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"mappedScore\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"attempt\",\"kind\":\"object\",\"type\":\"CodingAttempt\",\"relationName\":\"CodingAttemptToCodingSkillSignal\"}],\"dbName\":null}},\"enums\":{},\"types\":{}}")
+config.runtimeDataModel = JSON.parse("{\"models\":{\"HealthCheck\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"Associate\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"slug\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"displayName\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"readinessStatus\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"recommendedArea\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"lastComputedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"readinessExplanation\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"email\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"authUserId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"lastInvitedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"cohortId\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"cohort\",\"kind\":\"object\",\"type\":\"Cohort\",\"relationName\":\"AssociateToCohort\"},{\"name\":\"sessions\",\"kind\":\"object\",\"type\":\"Session\",\"relationName\":\"AssociateToSession\"},{\"name\":\"gapScores\",\"kind\":\"object\",\"type\":\"GapScore\",\"relationName\":\"AssociateToGapScore\"},{\"name\":\"codingAttempts\",\"kind\":\"object\",\"type\":\"CodingAttempt\",\"relationName\":\"AssociateToCodingAttempt\"},{\"name\":\"practiceCards\",\"kind\":\"object\",\"type\":\"PracticeCard\",\"relationName\":\"AssociateToPracticeCard\"},{\"name\":\"assessmentSessions\",\"kind\":\"object\",\"type\":\"CodingAssessmentSession\",\"relationName\":\"AssociateToCodingAssessmentSession\"}],\"dbName\":null},\"Session\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"candidateName\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"interviewerName\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"date\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"status\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"questionCount\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"selectedWeeks\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"overallTechnicalScore\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"overallSoftSkillScore\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"technicalFeedback\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"softSkillFeedback\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"questions\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"starterQuestions\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"assessments\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"techMap\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"associateId\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"associate\",\"kind\":\"object\",\"type\":\"Associate\",\"relationName\":\"AssociateToSession\"},{\"name\":\"cohortId\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"cohort\",\"kind\":\"object\",\"type\":\"Cohort\",\"relationName\":\"CohortToSession\"},{\"name\":\"aiTrainerVariance\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"mode\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"readinessRecomputeStatus\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"revision\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"currentQuestionIndex\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"draftAssociateSlug\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"draftUpdatedBy\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"notesPurgedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"coAssessments\",\"kind\":\"object\",\"type\":\"CoInterviewerAssessment\",\"relationName\":\"CoInterviewerAssessmentToSession\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"CoInterviewerAssessment\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"sessionId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"session\",\"kind\":\"object\",\"type\":\"Session\",\"relationName\":\"CoInterviewerAssessmentToSession\"},{\"name\":\"interviewerEmail\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"interviewerName\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"assessments\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"GapScore\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"associateId\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"skill\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"topic\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"weightedScore\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"prevWeightedScore\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"sessionCount\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"lastUpdated\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"associate\",\"kind\":\"object\",\"type\":\"Associate\",\"relationName\":\"AssociateToGapScore\"}],\"dbName\":null},\"PracticeCard\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"associateId\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"associate\",\"kind\":\"object\",\"type\":\"Associate\",\"relationName\":\"AssociateToPracticeCard\"},{\"name\":\"cardKey\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"skill\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"topic\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"question\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"modelAnswer\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"keywords\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"sourceSessionId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"sourceScore\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"easeFactor\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"intervalDays\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"repetitions\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"dueAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"lastReviewedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"lastGrade\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"Settings\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"readinessThreshold\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"Cohort\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"startDate\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"endDate\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"description\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"associates\",\"kind\":\"object\",\"type\":\"Associate\",\"relationName\":\"AssociateToCohort\"},{\"name\":\"sessions\",\"kind\":\"object\",\"type\":\"Session\",\"relationName\":\"CohortToSession\"},{\"name\":\"curriculumWeeks\",\"kind\":\"object\",\"type\":\"CurriculumWeek\",\"relationName\":\"CohortToCurriculumWeek\"},{\"name\":\"codingChallenges\",\"kind\":\"object\",\"type\":\"CodingChallenge\",\"relationName\":\"CodingChallengeToCohort\"},{\"name\":\"readinessPolicy\",\"kind\":\"object\",\"type\":\"ReadinessPolicy\",\"relationName\":\"CohortToReadinessPolicy\"},{\"name\":\"codingAssessments\",\"kind\":\"object\",\"type\":\"CodingAssessment\",\"relationName\":\"CodingAssessmentToCohort\"}],\"dbName\":null},\"ReadinessPolicy\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"cohortId\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"cohort\",\"kind\":\"object\",\"type\":\"Cohort\",\"relationName\":\"CohortToReadinessPolicy\"},{\"name\":\"minSessions\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"trendWindow\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"threshold\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"requiredSkills\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"codingWeight\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"CurriculumWeek\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"cohortId\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"weekNumber\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"skillName\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"skillSlug\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"topicTags\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"startDate\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"cohort\",\"kind\":\"object\",\"type\":\"Cohort\",\"relationName\":\"CohortToCurriculumWeek\"}],\"dbName\":null},\"Profile\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"authUserId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"displayName\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"githubUsername\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"bio\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"learningGoals\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"passwordSetAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"ScoringRubric\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"skillSlug\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"version\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"scoringGuidance\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"summaryGuidance\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"source\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdBy\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"RateLimitBucket\":{\"fields\":[{\"name\":\"key\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"state\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"version\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"expiresAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"PostgresSandboxRun\":{\"fields\":[{\"name\":\"token\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"submission\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"finishedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"AuthEvent\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"type\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"email\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"ip\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"metadata\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"AuditEvent\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"actorId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"actorEmail\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"actorRole\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"action\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"targetType\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"targetId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"before\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"after\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"ErasureRequest\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"associateId\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"associateSlug\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"reason\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"status\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"reviewedBy\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"reviewedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"note\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"report\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"RetentionPolicy\":{\"fields\":[{\"name\":\"dataClass\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"retainMonths\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"updatedBy\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"CodingChallenge\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"slug\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"title\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"language\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"difficulty\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"description\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"skillSlug\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"cohortId\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"entryPoint\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"starterFiles\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"sqlDialect\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"cohort\",\"kind\":\"object\",\"type\":\"Cohort\",\"relationName\":\"CodingChallengeToCohort\"},{\"name\":\"attempts\",\"kind\":\"object\",\"type\":\"CodingAttempt\",\"relationName\":\"CodingAttemptToCodingChallenge\"},{\"name\":\"testCases\",\"kind\":\"object\",\"type\":\"CodingTestCase\",\"relationName\":\"CodingChallengeToCodingTestCase\"},{\"name\":\"assessments\",\"kind\":\"object\",\"type\":\"CodingAssessmentChallenge\",\"relationName\":\"CodingAssessmentChallengeToCodingChallenge\"}],\"dbName\":null},\"CodingAttempt\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"associateId\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"challengeId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"submittedCode\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"language\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"verdict\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"visibleTestResults\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"hiddenTestResults\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"score\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"judge0Token\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"submittedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"completedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"assessmentSessionId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"assessmentSeq\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"codePurgedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"associate\",\"kind\":\"object\",\"type\":\"Associate\",\"relationName\":\"AssociateToCodingAttempt\"},{\"name\":\"challenge\",\"kind\":\"object\",\"type\":\"CodingChallenge\",\"relationName\":\"CodingAttemptToCodingChallenge\"},{\"name\":\"signal\",\"kind\":\"object\",\"type\":\"CodingSkillSignal\",\"relationName\":\"CodingAttemptToCodingSkillSignal\"},{\"name\":\"assessmentSession\",\"kind\":\"object\",\"type\":\"CodingAssessmentSession\",\"relationName\":\"CodingAssessmentSessionToCodingAttempt\"},{\"name\":\"timeline\",\"kind\":\"object\",\"type\":\"CodingAttemptTimeline\",\"relationName\":\"CodingAttemptToCodingAttemptTimeline\"},{\"name\":\"review\",\"kind\":\"object\",\"type\":\"CodingAttemptReview\",\"relationName\":\"CodingAttemptToCodingAttemptReview\"}],\"dbName\":null},\"CodingAttemptTimeline\":{\"fields\":[{\"name\":\"attemptId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"timeline\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"eventCount\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"durationMs\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"truncated\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"attempt\",\"kind\":\"object\",\"type\":\"CodingAttempt\",\"relationName\":\"CodingAttemptToCodingAttemptTimeline\"}],\"dbName\":null},\"CodingAttemptReview\":{\"fields\":[{\"name\":\"attemptId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"status\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"model\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"summary\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"correctness\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"complexity\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"readability\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"style\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"error\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"completedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"attempt\",\"kind\":\"object\",\"type\":\"CodingAttempt\",\"relationName\":\"CodingAttemptToCodingAttemptReview\"}],\"dbName\":null},\"CodingTestCase\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"challengeId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"isHidden\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"stdin\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"expectedStdout\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"weight\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"orderIndex\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"challenge\",\"kind\":\"object\",\"type\":\"CodingChallenge\",\"relationName\":\"CodingChallengeToCodingTestCase\"}],\"dbName\":null},\"CodingSkillSignal\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"attemptId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"skillSlug\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"signalType\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"weight\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"mappedScore\",\"kind\":\"scalar\",\"type\":\"Float\"},{\"name\":\"attempt\",\"kind\":\"object\",\"type\":\"CodingAttempt\",\"relationName\":\"CodingAttemptToCodingSkillSignal\"}],\"dbName\":null},\"CodingAssessment\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"title\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"cohortId\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"opensAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"closesAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"durationMinutes\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"attemptCap\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"language\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdBy\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"cohort\",\"kind\":\"object\",\"type\":\"Cohort\",\"relationName\":\"CodingAssessmentToCohort\"},{\"name\":\"challenges\",\"kind\":\"object\",\"type\":\"CodingAssessmentChallenge\",\"relationName\":\"CodingAssessmentToCodingAssessmentChallenge\"},{\"name\":\"sessions\",\"kind\":\"object\",\"type\":\"CodingAssessmentSession\",\"relationName\":\"CodingAssessmentToCodingAssessmentSession\"}],\"dbName\":null},\"CodingAssessmentChallenge\":{\"fields\":[{\"name\":\"assessmentId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"challengeId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"orderIndex\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"assessment\",\"kind\":\"object\",\"type\":\"CodingAssessment\",\"relationName\":\"CodingAssessmentToCodingAssessmentChallenge\"},{\"name\":\"challenge\",\"kind\":\"object\",\"type\":\"CodingChallenge\",\"relationName\":\"CodingAssessmentChallengeToCodingChallenge\"}],\"dbName\":null},\"CodingAssessmentSession\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"assessmentId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"associateId\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"startedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"expiresAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"assessment\",\"kind\":\"object\",\"type\":\"CodingAssessment\",\"relationName\":\"CodingAssessmentToCodingAssessmentSession\"},{\"name\":\"associate\",\"kind\":\"object\",\"type\":\"Associate\",\"relationName\":\"AssociateToCodingAssessmentSession\"},{\"name\":\"attempts\",\"kind\":\"object\",\"type\":\"CodingAttempt\",\"relationName\":\"CodingAssessmentSessionToCodingAttempt\"},{\"name\":\"events\",\"kind\":\"object\",\"type\":\"CodingProctorEvent\",\"relationName\":\"CodingAssessmentSessionToCodingProctorEvent\"}],\"dbName\":null},\"CodingProctorEvent\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"sessionId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"type\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"challengeId\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"chars\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"occurredAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"session\",\"kind\":\"object\",\"type\":\"CodingAssessmentSession\",\"relationName\":\"CodingAssessmentSessionToCodingProctorEvent\"}],\"dbName\":null}},\"enums\":{},\"types\":{}}")
 defineDmmfProperty(exports.Prisma, config.runtimeDataModel)
 config.parameterizationSchema = {
-  strings: JSON.parse("[\"where\",\"HealthCheck.findUnique\",\"HealthCheck.findUniqueOrThrow\",\"orderBy\",\"cursor\",\"HealthCheck.findFirst\",\"HealthCheck.findFirstOrThrow\",\"HealthCheck.findMany\",\"data\",\"HealthCheck.createOne\",\"HealthCheck.createMany\",\"HealthCheck.createManyAndReturn\",\"HealthCheck.updateOne\",\"HealthCheck.updateMany\",\"HealthCheck.updateManyAndReturn\",\"create\",\"update\",\"HealthCheck.upsertOne\",\"HealthCheck.deleteOne\",\"HealthCheck.deleteMany\",\"having\",\"_count\",\"_avg\",\"_sum\",\"_min\",\"_max\",\"HealthCheck.groupBy\",\"HealthCheck.aggregate\",\"associates\",\"associate\",\"cohort\",\"sessions\",\"curriculumWeeks\",\"challenge\",\"attempt\",\"signal\",\"attempts\",\"testCases\",\"codingChallenges\",\"gapScores\",\"codingAttempts\",\"Associate.findUnique\",\"Associate.findUniqueOrThrow\",\"Associate.findFirst\",\"Associate.findFirstOrThrow\",\"Associate.findMany\",\"Associate.createOne\",\"Associate.createMany\",\"Associate.createManyAndReturn\",\"Associate.updateOne\",\"Associate.updateMany\",\"Associate.updateManyAndReturn\",\"Associate.upsertOne\",\"Associate.deleteOne\",\"Associate.deleteMany\",\"Associate.groupBy\",\"Associate.aggregate\",\"Session.findUnique\",\"Session.findUniqueOrThrow\",\"Session.findFirst\",\"Session.findFirstOrThrow\",\"Session.findMany\",\"Session.createOne\",\"Session.createMany\",\"Session.createManyAndReturn\",\"Session.updateOne\",\"Session.updateMany\",\"Session.updateManyAndReturn\",\"Session.upsertOne\",\"Session.deleteOne\",\"Session.deleteMany\",\"Session.groupBy\",\"Session.aggregate\",\"GapScore.findUnique\",\"GapScore.findUniqueOrThrow\",\"GapScore.findFirst\",\"GapScore.findFirstOrThrow\",\"GapScore.findMany\",\"GapScore.createOne\",\"GapScore.createMany\",\"GapScore.createManyAndReturn\",\"GapScore.updateOne\",\"GapScore.updateMany\",\"GapScore.updateManyAndReturn\",\"GapScore.upsertOne\",\"GapScore.deleteOne\",\"GapScore.deleteMany\",\"GapScore.groupBy\",\"GapScore.aggregate\",\"Settings.findUnique\",\"Settings.findUniqueOrThrow\",\"Settings.findFirst\",\"Settings.findFirstOrThrow\",\"Settings.findMany\",\"Settings.createOne\",\"Settings.createMany\",\"Settings.createManyAndReturn\",\"Settings.updateOne\",\"Settings.updateMany\",\"Settings.updateManyAndReturn\",\"Settings.upsertOne\",\"Settings.deleteOne\",\"Settings.deleteMany\",\"Settings.groupBy\",\"Settings.aggregate\",\"Cohort.findUnique\",\"Cohort.findUniqueOrThrow\",\"Cohort.findFirst\",\"Cohort.findFirstOrThrow\",\"Cohort.findMany\",\"Cohort.createOne\",\"Cohort.createMany\",\"Cohort.createManyAndReturn\",\"Cohort.updateOne\",\"Cohort.updateMany\",\"Cohort.updateManyAndReturn\",\"Cohort.upsertOne\",\"Cohort.deleteOne\",\"Cohort.deleteMany\",\"Cohort.groupBy\",\"Cohort.aggregate\",\"CurriculumWeek.findUnique\",\"CurriculumWeek.findUniqueOrThrow\",\"CurriculumWeek.findFirst\",\"CurriculumWeek.findFirstOrThrow\",\"CurriculumWeek.findMany\",\"CurriculumWeek.createOne\",\"CurriculumWeek.createMany\",\"CurriculumWeek.createManyAndReturn\",\"CurriculumWeek.updateOne\",\"CurriculumWeek.updateMany\",\"CurriculumWeek.updateManyAndReturn\",\"CurriculumWeek.upsertOne\",\"CurriculumWeek.deleteOne\",\"CurriculumWeek.deleteMany\",\"CurriculumWeek.groupBy\",\"CurriculumWeek.aggregate\",\"Profile.findUnique\",\"Profile.findUniqueOrThrow\",\"Profile.findFirst\",\"Profile.findFirstOrThrow\",\"Profile.findMany\",\"Profile.createOne\",\"Profile.createMany\",\"Profile.createManyAndReturn\",\"Profile.updateOne\",\"Profile.updateMany\",\"Profile.updateManyAndReturn\",\"Profile.upsertOne\",\"Profile.deleteOne\",\"Profile.deleteMany\",\"Profile.groupBy\",\"Profile.aggregate\",\"AuthEvent.findUnique\",\"AuthEvent.findUniqueOrThrow\",\"AuthEvent.findFirst\",\"AuthEvent.findFirstOrThrow\",\"AuthEvent.findMany\",\"AuthEvent.createOne\",\"AuthEvent.createMany\",\"AuthEvent.createManyAndReturn\",\"AuthEvent.updateOne\",\"AuthEvent.updateMany\",\"AuthEvent.updateManyAndReturn\",\"AuthEvent.upsertOne\",\"AuthEvent.deleteOne\",\"AuthEvent.deleteMany\",\"AuthEvent.groupBy\",\"AuthEvent.aggregate\",\"CodingChallenge.findUnique\",\"CodingChallenge.findUniqueOrThrow\",\"CodingChallenge.findFirst\",\"CodingChallenge.findFirstOrThrow\",\"CodingChallenge.findMany\",\"CodingChallenge.createOne\",\"CodingChallenge.createMany\",\"CodingChallenge.createManyAndReturn\",\"CodingChallenge.updateOne\",\"CodingChallenge.updateMany\",\"CodingChallenge.updateManyAndReturn\",\"CodingChallenge.upsertOne\",\"CodingChallenge.deleteOne\",\"CodingChallenge.deleteMany\",\"CodingChallenge.groupBy\",\"CodingChallenge.aggregate\",\"CodingAttempt.findUnique\",\"CodingAttempt.findUniqueOrThrow\",\"CodingAttempt.findFirst\",\"CodingAttempt.findFirstOrThrow\",\"CodingAttempt.findMany\",\"CodingAttempt.createOne\",\"CodingAttempt.createMany\",\"CodingAttempt.createManyAndReturn\",\"CodingAttempt.updateOne\",\"CodingAttempt.updateMany\",\"CodingAttempt.updateManyAndReturn\",\"CodingAttempt.upsertOne\",\"CodingAttempt.deleteOne\",\"CodingAttempt.deleteMany\",\"CodingAttempt.groupBy\",\"CodingAttempt.aggregate\",\"CodingTestCase.findUnique\",\"CodingTestCase.findUniqueOrThrow\",\"CodingTestCase.findFirst\",\"CodingTestCase.findFirstOrThrow\",\"CodingTestCase.findMany\",\"CodingTestCase.createOne\",\"CodingTestCase.createMany\",\"CodingTestCase.createManyAndReturn\",\"CodingTestCase.updateOne\",\"CodingTestCase.updateMany\",\"CodingTestCase.updateManyAndReturn\",\"CodingTestCase.upsertOne\",\"CodingTestCase.deleteOne\",\"CodingTestCase.deleteMany\",\"CodingTestCase.groupBy\",\"CodingTestCase.aggregate\",\"CodingSkillSignal.findUnique\",\"CodingSkillSignal.findUniqueOrThrow\",\"CodingSkillSignal.findFirst\",\"CodingSkillSignal.findFirstOrThrow\",\"CodingSkillSignal.findMany\",\"CodingSkillSignal.createOne\",\"CodingSkillSignal.createMany\",\"CodingSkillSignal.createManyAndReturn\",\"CodingSkillSignal.updateOne\",\"CodingSkillSignal.updateMany\",\"CodingSkillSignal.updateManyAndReturn\",\"CodingSkillSignal.upsertOne\",\"CodingSkillSignal.deleteOne\",\"CodingSkillSignal.deleteMany\",\"CodingSkillSignal.groupBy\",\"CodingSkillSignal.aggregate\",\"AND\",\"OR\",\"NOT\",\"id\",\"attemptId\",\"skillSlug\",\"signalType\",\"weight\",\"mappedScore\",\"equals\",\"in\",\"notIn\",\"lt\",\"lte\",\"gt\",\"gte\",\"not\",\"contains\",\"startsWith\",\"endsWith\",\"challengeId\",\"isHidden\",\"stdin\",\"expectedStdout\",\"orderIndex\",\"associateId\",\"submittedCode\",\"language\",\"verdict\",\"visibleTestResults\",\"hiddenTestResults\",\"score\",\"judge0Token\",\"submittedAt\",\"completedAt\",\"string_contains\",\"string_starts_with\",\"string_ends_with\",\"array_starts_with\",\"array_ends_with\",\"array_contains\",\"slug\",\"title\",\"difficulty\",\"description\",\"cohortId\",\"createdAt\",\"updatedAt\",\"type\",\"email\",\"ip\",\"metadata\",\"authUserId\",\"displayName\",\"githubUsername\",\"bio\",\"learningGoals\",\"passwordSetAt\",\"weekNumber\",\"skillName\",\"topicTags\",\"startDate\",\"has\",\"hasEvery\",\"hasSome\",\"name\",\"endDate\",\"every\",\"some\",\"none\",\"readinessThreshold\",\"skill\",\"topic\",\"weightedScore\",\"prevWeightedScore\",\"sessionCount\",\"lastUpdated\",\"candidateName\",\"interviewerName\",\"date\",\"status\",\"questionCount\",\"selectedWeeks\",\"overallTechnicalScore\",\"overallSoftSkillScore\",\"technicalFeedback\",\"softSkillFeedback\",\"questions\",\"starterQuestions\",\"assessments\",\"techMap\",\"aiTrainerVariance\",\"mode\",\"readinessRecomputeStatus\",\"readinessStatus\",\"recommendedArea\",\"lastComputedAt\",\"lastInvitedAt\",\"associateId_skill_topic\",\"challengeId_id\",\"cohortId_weekNumber\",\"is\",\"isNot\",\"connectOrCreate\",\"upsert\",\"disconnect\",\"delete\",\"connect\",\"createMany\",\"set\",\"updateMany\",\"deleteMany\",\"push\",\"increment\",\"decrement\",\"multiply\",\"divide\"]"),
-  graph: "3wWEAdABBekBAAC6AwAw6gEAAAQAEOsBAAC6AwAw7AECAAAAAZcCQACPAwAhAQAAAAEAIAEAAAABACAF6QEAALoDADDqAQAABAAQ6wEAALoDADDsAQIAkgMAIZcCQACPAwAhAAMAAAAEACADAAAFADAEAAABACADAAAABAAgAwAABQAwBAAAAQAgAwAAAAQAIAMAAAUAMAQAAAEAIALsAQIAAAABlwJAAAAAAQEIAAAJACAC7AECAAAAAZcCQAAAAAEBCAAACwAwAQgAAAsAMALsAQIAywMAIZcCQADWAwAhAgAAAAEAIAgAAA4AIALsAQIAywMAIZcCQADWAwAhAgAAAAQAIAgAABAAIAIAAAAEACAIAAAQACADAAAAAQAgDwAACQAgEAAADgAgAQAAAAEAIAEAAAAEACAFFQAAoAUAIBYAAKEFACAXAACkBQAgGAAAowUAIBkAAKIFACAF6QEAALkDADDqAQAAFwAQ6wEAALkDADDsAQIA8wIAIZcCQAD7AgAhAwAAAAQAIAMAABYAMBQAABcAIAMAAAAEACADAAAFADAEAAABACATHgAArwMAIB8AAJoDACAnAAC4AwAgKAAAsAMAIOkBAAC3AwAw6gEAAB4AEOsBAAC3AwAw7AECAAAAAZICAQAAAAGWAgIArgMAIZcCQACPAwAhmAJAAI8DACGaAgEAAAABnQIBAAAAAZ4CAQCTAwAhxwIBAJMDACHIAgEAkwMAIckCQACUAwAhygJAAJQDACEBAAAAGgAgDhwAAJkDACAfAACaAwAgIAAAmwMAICYAAJwDACDpAQAAmAMAMOoBAAAcABDrAQAAmAMAMOwBAgCSAwAhlQIBAJMDACGXAkAAjwMAIZgCQACPAwAhpgJAAI8DACGqAgEA7gIAIasCQACUAwAhAQAAABwAIBMeAACvAwAgHwAAmgMAICcAALgDACAoAACwAwAg6QEAALcDADDqAQAAHgAQ6wEAALcDADDsAQIAkgMAIZICAQDuAgAhlgICAK4DACGXAkAAjwMAIZgCQACPAwAhmgIBAJMDACGdAgEAkwMAIZ4CAQCTAwAhxwIBAJMDACHIAgEAkwMAIckCQACUAwAhygJAAJQDACEMHgAAnAUAIB8AAP4EACAnAACfBQAgKAAAnQUAIJYCAADOAwAgmgIAAM4DACCdAgAAzgMAIJ4CAADOAwAgxwIAAM4DACDIAgAAzgMAIMkCAADOAwAgygIAAM4DACADAAAAHgAgAwAAHwAwBAAAGgAgGx0AALYDACAeAACvAwAg6QEAALUDADDqAQAAIQAQ6wEAALUDADDsAQEA7gIAIYICAgCuAwAhlgICAK4DACGXAkAAjwMAIZgCQACPAwAhtgIBAJMDACG3AgEAkwMAIbgCAQDuAgAhuQIBAO4CACG6AgIAkgMAIbsCAACrAwAgvAIIAKQDACG9AggApAMAIb4CAQCTAwAhvwIBAJMDACHAAgAAqwMAIMECAACrAwAgwgIAAKsDACDDAgAAjgMAIMQCCACkAwAhxQIBAO4CACHGAgEA7gIAIQwdAACZBQAgHgAAnAUAIIICAADOAwAglgIAAM4DACC2AgAAzgMAILcCAADOAwAgvAIAAM4DACC9AgAAzgMAIL4CAADOAwAgvwIAAM4DACDDAgAAzgMAIMQCAADOAwAgGx0AALYDACAeAACvAwAg6QEAALUDADDqAQAAIQAQ6wEAALUDADDsAQEAAAABggICAK4DACGWAgIArgMAIZcCQACPAwAhmAJAAI8DACG2AgEAkwMAIbcCAQCTAwAhuAIBAO4CACG5AgEA7gIAIboCAgCSAwAhuwIAAKsDACC8AggApAMAIb0CCACkAwAhvgIBAJMDACG_AgEAkwMAIcACAACrAwAgwQIAAKsDACDCAgAAqwMAIMMCAACOAwAgxAIIAKQDACHFAgEA7gIAIcYCAQDuAgAhAwAAACEAIAMAACIAMAQAACMAIAEAAAAeACABAAAAHAAgCx4AALQDACDpAQAAswMAMOoBAAAnABDrAQAAswMAMOwBAgCSAwAh7gEBAO4CACGWAgIAkgMAIaMCAgCSAwAhpAIBAO4CACGlAgAAlgMAIKYCQACPAwAhAR4AAJwFACAMHgAAtAMAIOkBAACzAwAw6gEAACcAEOsBAACzAwAw7AECAAAAAe4BAQDuAgAhlgICAJIDACGjAgIAkgMAIaQCAQDuAgAhpQIAAJYDACCmAkAAjwMAIc0CAACyAwAgAwAAACcAIAMAACgAMAQAACkAIBAeAACvAwAgJAAAsAMAICUAALEDACDpAQAArQMAMOoBAAArABDrAQAArQMAMOwBAQDuAgAh7gEBAO4CACGEAgEA7gIAIZICAQDuAgAhkwIBAO4CACGUAgEA7gIAIZUCAQDuAgAhlgICAK4DACGXAkAAjwMAIZgCQACPAwAhBB4AAJwFACAkAACdBQAgJQAAngUAIJYCAADOAwAgEB4AAK8DACAkAACwAwAgJQAAsQMAIOkBAACtAwAw6gEAACsAEOsBAACtAwAw7AEBAAAAAe4BAQDuAgAhhAIBAO4CACGSAgEAAAABkwIBAO4CACGUAgEA7gIAIZUCAQDuAgAhlgICAK4DACGXAkAAjwMAIZgCQACPAwAhAwAAACsAIAMAACwAMAQAAC0AIAEAAAAcACASHQAApQMAICEAAKkDACAjAACsAwAg6QEAAKoDADDqAQAAMAAQ6wEAAKoDADDsAQEA7gIAIf0BAQDuAgAhggICAJIDACGDAgEA7gIAIYQCAQDuAgAhhQIBAO4CACGGAgAAqwMAIIcCAACrAwAgiAIIAKQDACGJAgEAkwMAIYoCQACPAwAhiwJAAJQDACEGHQAAmQUAICEAAJoFACAjAACbBQAgiAIAAM4DACCJAgAAzgMAIIsCAADOAwAgEh0AAKUDACAhAACpAwAgIwAArAMAIOkBAACqAwAw6gEAADAAEOsBAACqAwAw7AEBAAAAAf0BAQDuAgAhggICAJIDACGDAgEA7gIAIYQCAQDuAgAhhQIBAO4CACGGAgAAqwMAIIcCAACrAwAgiAIIAKQDACGJAgEAkwMAIYoCQACPAwAhiwJAAJQDACEDAAAAMAAgAwAAMQAwBAAAMgAgCiIAAPACACDpAQAA7QIAMOoBAAA0ABDrAQAA7QIAMOwBAQDuAgAh7QEBAO4CACHuAQEA7gIAIe8BAQDuAgAh8AEIAO8CACHxAQgA7wIAIQEAAAA0ACALIQAAqQMAIOkBAACnAwAw6gEAADYAEOsBAACnAwAw7AEBAO4CACHwAQgA7wIAIf0BAQDuAgAh_gEgAKgDACH_AQEA7gIAIYACAQDuAgAhgQICAJIDACEBIQAAmgUAIAwhAACpAwAg6QEAAKcDADDqAQAANgAQ6wEAAKcDADDsAQEAAAAB8AEIAO8CACH9AQEA7gIAIf4BIACoAwAh_wEBAO4CACGAAgEA7gIAIYECAgCSAwAhzAIAAKYDACADAAAANgAgAwAANwAwBAAAOAAgAQAAADAAIAEAAAA2ACABAAAAHgAgAQAAACEAIAEAAAAnACABAAAAKwAgAwAAACEAIAMAACIAMAQAACMAIAwdAAClAwAg6QEAAKMDADDqAQAAQQAQ6wEAAKMDADDsAQEA7gIAIYICAgCSAwAhsAIBAO4CACGxAgEA7gIAIbICCADvAgAhswIIAKQDACG0AgIAkgMAIbUCQACPAwAhAh0AAJkFACCzAgAAzgMAIA0dAAClAwAg6QEAAKMDADDqAQAAQQAQ6wEAAKMDADDsAQEAAAABggICAJIDACGwAgEA7gIAIbECAQDuAgAhsgIIAO8CACGzAggApAMAIbQCAgCSAwAhtQJAAI8DACHLAgAAogMAIAMAAABBACADAABCADAEAABDACADAAAAMAAgAwAAMQAwBAAAMgAgAQAAACEAIAEAAABBACABAAAAMAAgAQAAABoAIAMAAAAeACADAAAfADAEAAAaACADAAAAHgAgAwAAHwAwBAAAGgAgAwAAAB4AIAMAAB8AMAQAABoAIBAeAACYBQAgHwAA9gQAICcAAPcEACAoAAD4BAAg7AECAAAAAZICAQAAAAGWAgIAAAABlwJAAAAAAZgCQAAAAAGaAgEAAAABnQIBAAAAAZ4CAQAAAAHHAgEAAAAByAIBAAAAAckCQAAAAAHKAkAAAAABAQgAAE0AIAzsAQIAAAABkgIBAAAAAZYCAgAAAAGXAkAAAAABmAJAAAAAAZoCAQAAAAGdAgEAAAABngIBAAAAAccCAQAAAAHIAgEAAAAByQJAAAAAAcoCQAAAAAEBCAAATwAwAQgAAE8AMAEAAAAcACAQHgAAlwUAIB8AANIEACAnAADTBAAgKAAA1AQAIOwBAgDLAwAhkgIBAMADACGWAgIA6AMAIZcCQADWAwAhmAJAANYDACGaAgEA1QMAIZ0CAQDVAwAhngIBANUDACHHAgEA1QMAIcgCAQDVAwAhyQJAANcDACHKAkAA1wMAIQIAAAAaACAIAABTACAM7AECAMsDACGSAgEAwAMAIZYCAgDoAwAhlwJAANYDACGYAkAA1gMAIZoCAQDVAwAhnQIBANUDACGeAgEA1QMAIccCAQDVAwAhyAIBANUDACHJAkAA1wMAIcoCQADXAwAhAgAAAB4AIAgAAFUAIAIAAAAeACAIAABVACABAAAAHAAgAwAAABoAIA8AAE0AIBAAAFMAIAEAAAAaACABAAAAHgAgDRUAAJIFACAWAACTBQAgFwAAlgUAIBgAAJUFACAZAACUBQAglgIAAM4DACCaAgAAzgMAIJ0CAADOAwAgngIAAM4DACDHAgAAzgMAIMgCAADOAwAgyQIAAM4DACDKAgAAzgMAIA_pAQAAoQMAMOoBAABdABDrAQAAoQMAMOwBAgDzAgAhkgIBAOYCACGWAgIAiAMAIZcCQAD7AgAhmAJAAPsCACGaAgEA-gIAIZ0CAQD6AgAhngIBAPoCACHHAgEA-gIAIcgCAQD6AgAhyQJAAPwCACHKAkAA_AIAIQMAAAAeACADAABcADAUAABdACADAAAAHgAgAwAAHwAwBAAAGgAgAQAAACMAIAEAAAAjACADAAAAIQAgAwAAIgAwBAAAIwAgAwAAACEAIAMAACIAMAQAACMAIAMAAAAhACADAAAiADAEAAAjACAYHQAAxgQAIB4AAPQEACDsAQEAAAABggICAAAAAZYCAgAAAAGXAkAAAAABmAJAAAAAAbYCAQAAAAG3AgEAAAABuAIBAAAAAbkCAQAAAAG6AgIAAAABuwKAAAAAAbwCCAAAAAG9AggAAAABvgIBAAAAAb8CAQAAAAHAAoAAAAABwQKAAAAAAcICgAAAAAHDAoAAAAABxAIIAAAAAcUCAQAAAAHGAgEAAAABAQgAAGUAIBbsAQEAAAABggICAAAAAZYCAgAAAAGXAkAAAAABmAJAAAAAAbYCAQAAAAG3AgEAAAABuAIBAAAAAbkCAQAAAAG6AgIAAAABuwKAAAAAAbwCCAAAAAG9AggAAAABvgIBAAAAAb8CAQAAAAHAAoAAAAABwQKAAAAAAcICgAAAAAHDAoAAAAABxAIIAAAAAcUCAQAAAAHGAgEAAAABAQgAAGcAMAEIAABnADABAAAAHgAgAQAAABwAIBgdAADEBAAgHgAA8gQAIOwBAQDAAwAhggICAOgDACGWAgIA6AMAIZcCQADWAwAhmAJAANYDACG2AgEA1QMAIbcCAQDVAwAhuAIBAMADACG5AgEAwAMAIboCAgDLAwAhuwKAAAAAAbwCCADUAwAhvQIIANQDACG-AgEA1QMAIb8CAQDVAwAhwAKAAAAAAcECgAAAAAHCAoAAAAABwwKAAAAAAcQCCADUAwAhxQIBAMADACHGAgEAwAMAIQIAAAAjACAIAABsACAW7AEBAMADACGCAgIA6AMAIZYCAgDoAwAhlwJAANYDACGYAkAA1gMAIbYCAQDVAwAhtwIBANUDACG4AgEAwAMAIbkCAQDAAwAhugICAMsDACG7AoAAAAABvAIIANQDACG9AggA1AMAIb4CAQDVAwAhvwIBANUDACHAAoAAAAABwQKAAAAAAcICgAAAAAHDAoAAAAABxAIIANQDACHFAgEAwAMAIcYCAQDAAwAhAgAAACEAIAgAAG4AIAIAAAAhACAIAABuACABAAAAHgAgAQAAABwAIAMAAAAjACAPAABlACAQAABsACABAAAAIwAgAQAAACEAIA8VAACNBQAgFgAAjgUAIBcAAJEFACAYAACQBQAgGQAAjwUAIIICAADOAwAglgIAAM4DACC2AgAAzgMAILcCAADOAwAgvAIAAM4DACC9AgAAzgMAIL4CAADOAwAgvwIAAM4DACDDAgAAzgMAIMQCAADOAwAgGekBAACgAwAw6gEAAHcAEOsBAACgAwAw7AEBAOYCACGCAgIAiAMAIZYCAgCIAwAhlwJAAPsCACGYAkAA-wIAIbYCAQD6AgAhtwIBAPoCACG4AgEA5gIAIbkCAQDmAgAhugICAPMCACG7AgAA-AIAILwCCAD5AgAhvQIIAPkCACG-AgEA-gIAIb8CAQD6AgAhwAIAAPgCACDBAgAA-AIAIMICAAD4AgAgwwIAAIsDACDEAggA-QIAIcUCAQDmAgAhxgIBAOYCACEDAAAAIQAgAwAAdgAwFAAAdwAgAwAAACEAIAMAACIAMAQAACMAIAEAAABDACABAAAAQwAgAwAAAEEAIAMAAEIAMAQAAEMAIAMAAABBACADAABCADAEAABDACADAAAAQQAgAwAAQgAwBAAAQwAgCR0AAIwFACDsAQEAAAABggICAAAAAbACAQAAAAGxAgEAAAABsgIIAAAAAbMCCAAAAAG0AgIAAAABtQJAAAAAAQEIAAB_ACAI7AEBAAAAAYICAgAAAAGwAgEAAAABsQIBAAAAAbICCAAAAAGzAggAAAABtAICAAAAAbUCQAAAAAEBCAAAgQEAMAEIAACBAQAwCR0AAIsFACDsAQEAwAMAIYICAgDLAwAhsAIBAMADACGxAgEAwAMAIbICCADBAwAhswIIANQDACG0AgIAywMAIbUCQADWAwAhAgAAAEMAIAgAAIQBACAI7AEBAMADACGCAgIAywMAIbACAQDAAwAhsQIBAMADACGyAggAwQMAIbMCCADUAwAhtAICAMsDACG1AkAA1gMAIQIAAABBACAIAACGAQAgAgAAAEEAIAgAAIYBACADAAAAQwAgDwAAfwAgEAAAhAEAIAEAAABDACABAAAAQQAgBhUAAIYFACAWAACHBQAgFwAAigUAIBgAAIkFACAZAACIBQAgswIAAM4DACAL6QEAAJ8DADDqAQAAjQEAEOsBAACfAwAw7AEBAOYCACGCAgIA8wIAIbACAQDmAgAhsQIBAOYCACGyAggA5wIAIbMCCAD5AgAhtAICAPMCACG1AkAA-wIAIQMAAABBACADAACMAQAwFAAAjQEAIAMAAABBACADAABCADAEAABDACAG6QEAAJ4DADDqAQAAkwEAEOsBAACeAwAw7AECAAAAAZgCQACPAwAhrwIIAO8CACEBAAAAkAEAIAEAAACQAQAgBukBAACeAwAw6gEAAJMBABDrAQAAngMAMOwBAgCSAwAhmAJAAI8DACGvAggA7wIAIQADAAAAkwEAIAMAAJQBADAEAACQAQAgAwAAAJMBACADAACUAQAwBAAAkAEAIAMAAACTAQAgAwAAlAEAMAQAAJABACAD7AECAAAAAZgCQAAAAAGvAggAAAABAQgAAJgBACAD7AECAAAAAZgCQAAAAAGvAggAAAABAQgAAJoBADABCAAAmgEAMAPsAQIAywMAIZgCQADWAwAhrwIIAMEDACECAAAAkAEAIAgAAJ0BACAD7AECAMsDACGYAkAA1gMAIa8CCADBAwAhAgAAAJMBACAIAACfAQAgAgAAAJMBACAIAACfAQAgAwAAAJABACAPAACYAQAgEAAAnQEAIAEAAACQAQAgAQAAAJMBACAFFQAAgQUAIBYAAIIFACAXAACFBQAgGAAAhAUAIBkAAIMFACAG6QEAAJ0DADDqAQAApgEAEOsBAACdAwAw7AECAPMCACGYAkAA-wIAIa8CCADnAgAhAwAAAJMBACADAAClAQAwFAAApgEAIAMAAACTAQAgAwAAlAEAMAQAAJABACAOHAAAmQMAIB8AAJoDACAgAACbAwAgJgAAnAMAIOkBAACYAwAw6gEAABwAEOsBAACYAwAw7AECAAAAAZUCAQCTAwAhlwJAAI8DACGYAkAAjwMAIaYCQACPAwAhqgIBAO4CACGrAkAAlAMAIQEAAACpAQAgAQAAAKkBACAGHAAA_QQAIB8AAP4EACAgAAD_BAAgJgAAgAUAIJUCAADOAwAgqwIAAM4DACADAAAAHAAgAwAArAEAMAQAAKkBACADAAAAHAAgAwAArAEAMAQAAKkBACADAAAAHAAgAwAArAEAMAQAAKkBACALHAAA-QQAIB8AAPoEACAgAAD7BAAgJgAA_AQAIOwBAgAAAAGVAgEAAAABlwJAAAAAAZgCQAAAAAGmAkAAAAABqgIBAAAAAasCQAAAAAEBCAAAsAEAIAfsAQIAAAABlQIBAAAAAZcCQAAAAAGYAkAAAAABpgJAAAAAAaoCAQAAAAGrAkAAAAABAQgAALIBADABCAAAsgEAMAscAACdBAAgHwAAngQAICAAAJ8EACAmAACgBAAg7AECAMsDACGVAgEA1QMAIZcCQADWAwAhmAJAANYDACGmAkAA1gMAIaoCAQDAAwAhqwJAANcDACECAAAAqQEAIAgAALUBACAH7AECAMsDACGVAgEA1QMAIZcCQADWAwAhmAJAANYDACGmAkAA1gMAIaoCAQDAAwAhqwJAANcDACECAAAAHAAgCAAAtwEAIAIAAAAcACAIAAC3AQAgAwAAAKkBACAPAACwAQAgEAAAtQEAIAEAAACpAQAgAQAAABwAIAcVAACYBAAgFgAAmQQAIBcAAJwEACAYAACbBAAgGQAAmgQAIJUCAADOAwAgqwIAAM4DACAK6QEAAJcDADDqAQAAvgEAEOsBAACXAwAw7AECAPMCACGVAgEA-gIAIZcCQAD7AgAhmAJAAPsCACGmAkAA-wIAIaoCAQDmAgAhqwJAAPwCACEDAAAAHAAgAwAAvQEAMBQAAL4BACADAAAAHAAgAwAArAEAMAQAAKkBACABAAAAKQAgAQAAACkAIAMAAAAnACADAAAoADAEAAApACADAAAAJwAgAwAAKAAwBAAAKQAgAwAAACcAIAMAACgAMAQAACkAIAgeAACXBAAg7AECAAAAAe4BAQAAAAGWAgIAAAABowICAAAAAaQCAQAAAAGlAgAAlgQAIKYCQAAAAAEBCAAAxgEAIAfsAQIAAAAB7gEBAAAAAZYCAgAAAAGjAgIAAAABpAIBAAAAAaUCAACWBAAgpgJAAAAAAQEIAADIAQAwAQgAAMgBADAIHgAAlQQAIOwBAgDLAwAh7gEBAMADACGWAgIAywMAIaMCAgDLAwAhpAIBAMADACGlAgAAlAQAIKYCQADWAwAhAgAAACkAIAgAAMsBACAH7AECAMsDACHuAQEAwAMAIZYCAgDLAwAhowICAMsDACGkAgEAwAMAIaUCAACUBAAgpgJAANYDACECAAAAJwAgCAAAzQEAIAIAAAAnACAIAADNAQAgAwAAACkAIA8AAMYBACAQAADLAQAgAQAAACkAIAEAAAAnACAFFQAAjwQAIBYAAJAEACAXAACTBAAgGAAAkgQAIBkAAJEEACAK6QEAAJUDADDqAQAA1AEAEOsBAACVAwAw7AECAPMCACHuAQEA5gIAIZYCAgDzAgAhowICAPMCACGkAgEA5gIAIaUCAACWAwAgpgJAAPsCACEDAAAAJwAgAwAA0wEAMBQAANQBACADAAAAJwAgAwAAKAAwBAAAKQAgDOkBAACRAwAw6gEAANoBABDrAQAAkQMAMOwBAgAAAAGXAkAAjwMAIZgCQACPAwAhnQIBAAAAAZ4CAQCTAwAhnwIBAJMDACGgAgEAkwMAIaECAQCTAwAhogJAAJQDACEBAAAA1wEAIAEAAADXAQAgDOkBAACRAwAw6gEAANoBABDrAQAAkQMAMOwBAgCSAwAhlwJAAI8DACGYAkAAjwMAIZ0CAQDuAgAhngIBAJMDACGfAgEAkwMAIaACAQCTAwAhoQIBAJMDACGiAkAAlAMAIQWeAgAAzgMAIJ8CAADOAwAgoAIAAM4DACChAgAAzgMAIKICAADOAwAgAwAAANoBACADAADbAQAwBAAA1wEAIAMAAADaAQAgAwAA2wEAMAQAANcBACADAAAA2gEAIAMAANsBADAEAADXAQAgCewBAgAAAAGXAkAAAAABmAJAAAAAAZ0CAQAAAAGeAgEAAAABnwIBAAAAAaACAQAAAAGhAgEAAAABogJAAAAAAQEIAADfAQAgCewBAgAAAAGXAkAAAAABmAJAAAAAAZ0CAQAAAAGeAgEAAAABnwIBAAAAAaACAQAAAAGhAgEAAAABogJAAAAAAQEIAADhAQAwAQgAAOEBADAJ7AECAMsDACGXAkAA1gMAIZgCQADWAwAhnQIBAMADACGeAgEA1QMAIZ8CAQDVAwAhoAIBANUDACGhAgEA1QMAIaICQADXAwAhAgAAANcBACAIAADkAQAgCewBAgDLAwAhlwJAANYDACGYAkAA1gMAIZ0CAQDAAwAhngIBANUDACGfAgEA1QMAIaACAQDVAwAhoQIBANUDACGiAkAA1wMAIQIAAADaAQAgCAAA5gEAIAIAAADaAQAgCAAA5gEAIAMAAADXAQAgDwAA3wEAIBAAAOQBACABAAAA1wEAIAEAAADaAQAgChUAAIoEACAWAACLBAAgFwAAjgQAIBgAAI0EACAZAACMBAAgngIAAM4DACCfAgAAzgMAIKACAADOAwAgoQIAAM4DACCiAgAAzgMAIAzpAQAAkAMAMOoBAADtAQAQ6wEAAJADADDsAQIA8wIAIZcCQAD7AgAhmAJAAPsCACGdAgEA5gIAIZ4CAQD6AgAhnwIBAPoCACGgAgEA-gIAIaECAQD6AgAhogJAAPwCACEDAAAA2gEAIAMAAOwBADAUAADtAQAgAwAAANoBACADAADbAQAwBAAA1wEAIAnpAQAAjQMAMOoBAADzAQAQ6wEAAI0DADDsAQEAAAABlwJAAI8DACGZAgEA7gIAIZoCAQDuAgAhmwIBAO4CACGcAgAAjgMAIAEAAADwAQAgAQAAAPABACAJ6QEAAI0DADDqAQAA8wEAEOsBAACNAwAw7AEBAO4CACGXAkAAjwMAIZkCAQDuAgAhmgIBAO4CACGbAgEA7gIAIZwCAACOAwAgAZwCAADOAwAgAwAAAPMBACADAAD0AQAwBAAA8AEAIAMAAADzAQAgAwAA9AEAMAQAAPABACADAAAA8wEAIAMAAPQBADAEAADwAQAgBuwBAQAAAAGXAkAAAAABmQIBAAAAAZoCAQAAAAGbAgEAAAABnAKAAAAAAQEIAAD4AQAgBuwBAQAAAAGXAkAAAAABmQIBAAAAAZoCAQAAAAGbAgEAAAABnAKAAAAAAQEIAAD6AQAwAQgAAPoBADAG7AEBAMADACGXAkAA1gMAIZkCAQDAAwAhmgIBAMADACGbAgEAwAMAIZwCgAAAAAECAAAA8AEAIAgAAP0BACAG7AEBAMADACGXAkAA1gMAIZkCAQDAAwAhmgIBAMADACGbAgEAwAMAIZwCgAAAAAECAAAA8wEAIAgAAP8BACACAAAA8wEAIAgAAP8BACADAAAA8AEAIA8AAPgBACAQAAD9AQAgAQAAAPABACABAAAA8wEAIAQVAACHBAAgGAAAiQQAIBkAAIgEACCcAgAAzgMAIAnpAQAAigMAMOoBAACGAgAQ6wEAAIoDADDsAQEA5gIAIZcCQAD7AgAhmQIBAOYCACGaAgEA5gIAIZsCAQDmAgAhnAIAAIsDACADAAAA8wEAIAMAAIUCADAUAACGAgAgAwAAAPMBACADAAD0AQAwBAAA8AEAIAEAAAAtACABAAAALQAgAwAAACsAIAMAACwAMAQAAC0AIAMAAAArACADAAAsADAEAAAtACADAAAAKwAgAwAALAAwBAAALQAgDR4AAIQEACAkAACFBAAgJQAAhgQAIOwBAQAAAAHuAQEAAAABhAIBAAAAAZICAQAAAAGTAgEAAAABlAIBAAAAAZUCAQAAAAGWAgIAAAABlwJAAAAAAZgCQAAAAAEBCAAAjgIAIArsAQEAAAAB7gEBAAAAAYQCAQAAAAGSAgEAAAABkwIBAAAAAZQCAQAAAAGVAgEAAAABlgICAAAAAZcCQAAAAAGYAkAAAAABAQgAAJACADABCAAAkAIAMAEAAAAcACANHgAA6QMAICQAAOoDACAlAADrAwAg7AEBAMADACHuAQEAwAMAIYQCAQDAAwAhkgIBAMADACGTAgEAwAMAIZQCAQDAAwAhlQIBAMADACGWAgIA6AMAIZcCQADWAwAhmAJAANYDACECAAAALQAgCAAAlAIAIArsAQEAwAMAIe4BAQDAAwAhhAIBAMADACGSAgEAwAMAIZMCAQDAAwAhlAIBAMADACGVAgEAwAMAIZYCAgDoAwAhlwJAANYDACGYAkAA1gMAIQIAAAArACAIAACWAgAgAgAAACsAIAgAAJYCACABAAAAHAAgAwAAAC0AIA8AAI4CACAQAACUAgAgAQAAAC0AIAEAAAArACAGFQAA4wMAIBYAAOQDACAXAADnAwAgGAAA5gMAIBkAAOUDACCWAgAAzgMAIA3pAQAAhwMAMOoBAACeAgAQ6wEAAIcDADDsAQEA5gIAIe4BAQDmAgAhhAIBAOYCACGSAgEA5gIAIZMCAQDmAgAhlAIBAOYCACGVAgEA5gIAIZYCAgCIAwAhlwJAAPsCACGYAkAA-wIAIQMAAAArACADAACdAgAwFAAAngIAIAMAAAArACADAAAsADAEAAAtACABAAAAMgAgAQAAADIAIAMAAAAwACADAAAxADAEAAAyACADAAAAMAAgAwAAMQAwBAAAMgAgAwAAADAAIAMAADEAMAQAADIAIA8dAADgAwAgIQAA4QMAICMAAOIDACDsAQEAAAAB_QEBAAAAAYICAgAAAAGDAgEAAAABhAIBAAAAAYUCAQAAAAGGAoAAAAABhwKAAAAAAYgCCAAAAAGJAgEAAAABigJAAAAAAYsCQAAAAAEBCAAApgIAIAzsAQEAAAAB_QEBAAAAAYICAgAAAAGDAgEAAAABhAIBAAAAAYUCAQAAAAGGAoAAAAABhwKAAAAAAYgCCAAAAAGJAgEAAAABigJAAAAAAYsCQAAAAAEBCAAAqAIAMAEIAACoAgAwDx0AANgDACAhAADZAwAgIwAA2gMAIOwBAQDAAwAh_QEBAMADACGCAgIAywMAIYMCAQDAAwAhhAIBAMADACGFAgEAwAMAIYYCgAAAAAGHAoAAAAABiAIIANQDACGJAgEA1QMAIYoCQADWAwAhiwJAANcDACECAAAAMgAgCAAAqwIAIAzsAQEAwAMAIf0BAQDAAwAhggICAMsDACGDAgEAwAMAIYQCAQDAAwAhhQIBAMADACGGAoAAAAABhwKAAAAAAYgCCADUAwAhiQIBANUDACGKAkAA1gMAIYsCQADXAwAhAgAAADAAIAgAAK0CACACAAAAMAAgCAAArQIAIAMAAAAyACAPAACmAgAgEAAAqwIAIAEAAAAyACABAAAAMAAgCBUAAM8DACAWAADQAwAgFwAA0wMAIBgAANIDACAZAADRAwAgiAIAAM4DACCJAgAAzgMAIIsCAADOAwAgD-kBAAD3AgAw6gEAALQCABDrAQAA9wIAMOwBAQDmAgAh_QEBAOYCACGCAgIA8wIAIYMCAQDmAgAhhAIBAOYCACGFAgEA5gIAIYYCAAD4AgAghwIAAPgCACCIAggA-QIAIYkCAQD6AgAhigJAAPsCACGLAkAA_AIAIQMAAAAwACADAACzAgAwFAAAtAIAIAMAAAAwACADAAAxADAEAAAyACABAAAAOAAgAQAAADgAIAMAAAA2ACADAAA3ADAEAAA4ACADAAAANgAgAwAANwAwBAAAOAAgAwAAADYAIAMAADcAMAQAADgAIAghAADNAwAg7AEBAAAAAfABCAAAAAH9AQEAAAAB_gEgAAAAAf8BAQAAAAGAAgEAAAABgQICAAAAAQEIAAC8AgAgB-wBAQAAAAHwAQgAAAAB_QEBAAAAAf4BIAAAAAH_AQEAAAABgAIBAAAAAYECAgAAAAEBCAAAvgIAMAEIAAC-AgAwCCEAAMwDACDsAQEAwAMAIfABCADBAwAh_QEBAMADACH-ASAAygMAIf8BAQDAAwAhgAIBAMADACGBAgIAywMAIQIAAAA4ACAIAADBAgAgB-wBAQDAAwAh8AEIAMEDACH9AQEAwAMAIf4BIADKAwAh_wEBAMADACGAAgEAwAMAIYECAgDLAwAhAgAAADYAIAgAAMMCACACAAAANgAgCAAAwwIAIAMAAAA4ACAPAAC8AgAgEAAAwQIAIAEAAAA4ACABAAAANgAgBRUAAMUDACAWAADGAwAgFwAAyQMAIBgAAMgDACAZAADHAwAgCukBAADxAgAw6gEAAMoCABDrAQAA8QIAMOwBAQDmAgAh8AEIAOcCACH9AQEA5gIAIf4BIADyAgAh_wEBAOYCACGAAgEA5gIAIYECAgDzAgAhAwAAADYAIAMAAMkCADAUAADKAgAgAwAAADYAIAMAADcAMAQAADgAIAoiAADwAgAg6QEAAO0CADDqAQAANAAQ6wEAAO0CADDsAQEAAAAB7QEBAAAAAe4BAQDuAgAh7wEBAO4CACHwAQgA7wIAIfEBCADvAgAhAQAAAM0CACABAAAAzQIAIAEiAADEAwAgAwAAADQAIAMAANACADAEAADNAgAgAwAAADQAIAMAANACADAEAADNAgAgAwAAADQAIAMAANACADAEAADNAgAgByIAAMMDACDsAQEAAAAB7QEBAAAAAe4BAQAAAAHvAQEAAAAB8AEIAAAAAfEBCAAAAAEBCAAA1AIAIAbsAQEAAAAB7QEBAAAAAe4BAQAAAAHvAQEAAAAB8AEIAAAAAfEBCAAAAAEBCAAA1gIAMAEIAADWAgAwByIAAMIDACDsAQEAwAMAIe0BAQDAAwAh7gEBAMADACHvAQEAwAMAIfABCADBAwAh8QEIAMEDACECAAAAzQIAIAgAANkCACAG7AEBAMADACHtAQEAwAMAIe4BAQDAAwAh7wEBAMADACHwAQgAwQMAIfEBCADBAwAhAgAAADQAIAgAANsCACACAAAANAAgCAAA2wIAIAMAAADNAgAgDwAA1AIAIBAAANkCACABAAAAzQIAIAEAAAA0ACAFFQAAuwMAIBYAALwDACAXAAC_AwAgGAAAvgMAIBkAAL0DACAJ6QEAAOUCADDqAQAA4gIAEOsBAADlAgAw7AEBAOYCACHtAQEA5gIAIe4BAQDmAgAh7wEBAOYCACHwAQgA5wIAIfEBCADnAgAhAwAAADQAIAMAAOECADAUAADiAgAgAwAAADQAIAMAANACADAEAADNAgAgCekBAADlAgAw6gEAAOICABDrAQAA5QIAMOwBAQDmAgAh7QEBAOYCACHuAQEA5gIAIe8BAQDmAgAh8AEIAOcCACHxAQgA5wIAIQ4VAADpAgAgGAAA7AIAIBkAAOwCACDyAQEAAAAB8wEBAAAABPQBAQAAAAT1AQEAAAAB9gEBAAAAAfcBAQAAAAH4AQEAAAAB-QEBAOsCACH6AQEAAAAB-wEBAAAAAfwBAQAAAAENFQAA6QIAIBYAAOoCACAXAADqAgAgGAAA6gIAIBkAAOoCACDyAQgAAAAB8wEIAAAABPQBCAAAAAT1AQgAAAAB9gEIAAAAAfcBCAAAAAH4AQgAAAAB-QEIAOgCACENFQAA6QIAIBYAAOoCACAXAADqAgAgGAAA6gIAIBkAAOoCACDyAQgAAAAB8wEIAAAABPQBCAAAAAT1AQgAAAAB9gEIAAAAAfcBCAAAAAH4AQgAAAAB-QEIAOgCACEI8gECAAAAAfMBAgAAAAT0AQIAAAAE9QECAAAAAfYBAgAAAAH3AQIAAAAB-AECAAAAAfkBAgDpAgAhCPIBCAAAAAHzAQgAAAAE9AEIAAAABPUBCAAAAAH2AQgAAAAB9wEIAAAAAfgBCAAAAAH5AQgA6gIAIQ4VAADpAgAgGAAA7AIAIBkAAOwCACDyAQEAAAAB8wEBAAAABPQBAQAAAAT1AQEAAAAB9gEBAAAAAfcBAQAAAAH4AQEAAAAB-QEBAOsCACH6AQEAAAAB-wEBAAAAAfwBAQAAAAEL8gEBAAAAAfMBAQAAAAT0AQEAAAAE9QEBAAAAAfYBAQAAAAH3AQEAAAAB-AEBAAAAAfkBAQDsAgAh-gEBAAAAAfsBAQAAAAH8AQEAAAABCiIAAPACACDpAQAA7QIAMOoBAAA0ABDrAQAA7QIAMOwBAQDuAgAh7QEBAO4CACHuAQEA7gIAIe8BAQDuAgAh8AEIAO8CACHxAQgA7wIAIQvyAQEAAAAB8wEBAAAABPQBAQAAAAT1AQEAAAAB9gEBAAAAAfcBAQAAAAH4AQEAAAAB-QEBAOwCACH6AQEAAAAB-wEBAAAAAfwBAQAAAAEI8gEIAAAAAfMBCAAAAAT0AQgAAAAE9QEIAAAAAfYBCAAAAAH3AQgAAAAB-AEIAAAAAfkBCADqAgAhFB0AAKUDACAhAACpAwAgIwAArAMAIOkBAACqAwAw6gEAADAAEOsBAACqAwAw7AEBAO4CACH9AQEA7gIAIYICAgCSAwAhgwIBAO4CACGEAgEA7gIAIYUCAQDuAgAhhgIAAKsDACCHAgAAqwMAIIgCCACkAwAhiQIBAJMDACGKAkAAjwMAIYsCQACUAwAhzgIAADAAIM8CAAAwACAK6QEAAPECADDqAQAAygIAEOsBAADxAgAw7AEBAOYCACHwAQgA5wIAIf0BAQDmAgAh_gEgAPICACH_AQEA5gIAIYACAQDmAgAhgQICAPMCACEFFQAA6QIAIBgAAPYCACAZAAD2AgAg8gEgAAAAAfkBIAD1AgAhDRUAAOkCACAWAADqAgAgFwAA6QIAIBgAAOkCACAZAADpAgAg8gECAAAAAfMBAgAAAAT0AQIAAAAE9QECAAAAAfYBAgAAAAH3AQIAAAAB-AECAAAAAfkBAgD0AgAhDRUAAOkCACAWAADqAgAgFwAA6QIAIBgAAOkCACAZAADpAgAg8gECAAAAAfMBAgAAAAT0AQIAAAAE9QECAAAAAfYBAgAAAAH3AQIAAAAB-AECAAAAAfkBAgD0AgAhBRUAAOkCACAYAAD2AgAgGQAA9gIAIPIBIAAAAAH5ASAA9QIAIQLyASAAAAAB-QEgAPYCACEP6QEAAPcCADDqAQAAtAIAEOsBAAD3AgAw7AEBAOYCACH9AQEA5gIAIYICAgDzAgAhgwIBAOYCACGEAgEA5gIAIYUCAQDmAgAhhgIAAPgCACCHAgAA-AIAIIgCCAD5AgAhiQIBAPoCACGKAkAA-wIAIYsCQAD8AgAhDxUAAOkCACAYAACGAwAgGQAAhgMAIPIBgAAAAAH1AYAAAAAB9gGAAAAAAfcBgAAAAAH4AYAAAAAB-QGAAAAAAYwCAQAAAAGNAgEAAAABjgIBAAAAAY8CgAAAAAGQAoAAAAABkQKAAAAAAQ0VAAD-AgAgFgAAhQMAIBcAAIUDACAYAACFAwAgGQAAhQMAIPIBCAAAAAHzAQgAAAAF9AEIAAAABfUBCAAAAAH2AQgAAAAB9wEIAAAAAfgBCAAAAAH5AQgAhAMAIQ4VAAD-AgAgGAAAgwMAIBkAAIMDACDyAQEAAAAB8wEBAAAABfQBAQAAAAX1AQEAAAAB9gEBAAAAAfcBAQAAAAH4AQEAAAAB-QEBAIIDACH6AQEAAAAB-wEBAAAAAfwBAQAAAAELFQAA6QIAIBgAAIEDACAZAACBAwAg8gFAAAAAAfMBQAAAAAT0AUAAAAAE9QFAAAAAAfYBQAAAAAH3AUAAAAAB-AFAAAAAAfkBQACAAwAhCxUAAP4CACAYAAD_AgAgGQAA_wIAIPIBQAAAAAHzAUAAAAAF9AFAAAAABfUBQAAAAAH2AUAAAAAB9wFAAAAAAfgBQAAAAAH5AUAA_QIAIQsVAAD-AgAgGAAA_wIAIBkAAP8CACDyAUAAAAAB8wFAAAAABfQBQAAAAAX1AUAAAAAB9gFAAAAAAfcBQAAAAAH4AUAAAAAB-QFAAP0CACEI8gECAAAAAfMBAgAAAAX0AQIAAAAF9QECAAAAAfYBAgAAAAH3AQIAAAAB-AECAAAAAfkBAgD-AgAhCPIBQAAAAAHzAUAAAAAF9AFAAAAABfUBQAAAAAH2AUAAAAAB9wFAAAAAAfgBQAAAAAH5AUAA_wIAIQsVAADpAgAgGAAAgQMAIBkAAIEDACDyAUAAAAAB8wFAAAAABPQBQAAAAAT1AUAAAAAB9gFAAAAAAfcBQAAAAAH4AUAAAAAB-QFAAIADACEI8gFAAAAAAfMBQAAAAAT0AUAAAAAE9QFAAAAAAfYBQAAAAAH3AUAAAAAB-AFAAAAAAfkBQACBAwAhDhUAAP4CACAYAACDAwAgGQAAgwMAIPIBAQAAAAHzAQEAAAAF9AEBAAAABfUBAQAAAAH2AQEAAAAB9wEBAAAAAfgBAQAAAAH5AQEAggMAIfoBAQAAAAH7AQEAAAAB_AEBAAAAAQvyAQEAAAAB8wEBAAAABfQBAQAAAAX1AQEAAAAB9gEBAAAAAfcBAQAAAAH4AQEAAAAB-QEBAIMDACH6AQEAAAAB-wEBAAAAAfwBAQAAAAENFQAA_gIAIBYAAIUDACAXAACFAwAgGAAAhQMAIBkAAIUDACDyAQgAAAAB8wEIAAAABfQBCAAAAAX1AQgAAAAB9gEIAAAAAfcBCAAAAAH4AQgAAAAB-QEIAIQDACEI8gEIAAAAAfMBCAAAAAX0AQgAAAAF9QEIAAAAAfYBCAAAAAH3AQgAAAAB-AEIAAAAAfkBCACFAwAhDPIBgAAAAAH1AYAAAAAB9gGAAAAAAfcBgAAAAAH4AYAAAAAB-QGAAAAAAYwCAQAAAAGNAgEAAAABjgIBAAAAAY8CgAAAAAGQAoAAAAABkQKAAAAAAQ3pAQAAhwMAMOoBAACeAgAQ6wEAAIcDADDsAQEA5gIAIe4BAQDmAgAhhAIBAOYCACGSAgEA5gIAIZMCAQDmAgAhlAIBAOYCACGVAgEA5gIAIZYCAgCIAwAhlwJAAPsCACGYAkAA-wIAIQ0VAAD-AgAgFgAAhQMAIBcAAP4CACAYAAD-AgAgGQAA_gIAIPIBAgAAAAHzAQIAAAAF9AECAAAABfUBAgAAAAH2AQIAAAAB9wECAAAAAfgBAgAAAAH5AQIAiQMAIQ0VAAD-AgAgFgAAhQMAIBcAAP4CACAYAAD-AgAgGQAA_gIAIPIBAgAAAAHzAQIAAAAF9AECAAAABfUBAgAAAAH2AQIAAAAB9wECAAAAAfgBAgAAAAH5AQIAiQMAIQnpAQAAigMAMOoBAACGAgAQ6wEAAIoDADDsAQEA5gIAIZcCQAD7AgAhmQIBAOYCACGaAgEA5gIAIZsCAQDmAgAhnAIAAIsDACAPFQAA_gIAIBgAAIwDACAZAACMAwAg8gGAAAAAAfUBgAAAAAH2AYAAAAAB9wGAAAAAAfgBgAAAAAH5AYAAAAABjAIBAAAAAY0CAQAAAAGOAgEAAAABjwKAAAAAAZACgAAAAAGRAoAAAAABDPIBgAAAAAH1AYAAAAAB9gGAAAAAAfcBgAAAAAH4AYAAAAAB-QGAAAAAAYwCAQAAAAGNAgEAAAABjgIBAAAAAY8CgAAAAAGQAoAAAAABkQKAAAAAAQnpAQAAjQMAMOoBAADzAQAQ6wEAAI0DADDsAQEA7gIAIZcCQACPAwAhmQIBAO4CACGaAgEA7gIAIZsCAQDuAgAhnAIAAI4DACAM8gGAAAAAAfUBgAAAAAH2AYAAAAAB9wGAAAAAAfgBgAAAAAH5AYAAAAABjAIBAAAAAY0CAQAAAAGOAgEAAAABjwKAAAAAAZACgAAAAAGRAoAAAAABCPIBQAAAAAHzAUAAAAAE9AFAAAAABPUBQAAAAAH2AUAAAAAB9wFAAAAAAfgBQAAAAAH5AUAAgQMAIQzpAQAAkAMAMOoBAADtAQAQ6wEAAJADADDsAQIA8wIAIZcCQAD7AgAhmAJAAPsCACGdAgEA5gIAIZ4CAQD6AgAhnwIBAPoCACGgAgEA-gIAIaECAQD6AgAhogJAAPwCACEM6QEAAJEDADDqAQAA2gEAEOsBAACRAwAw7AECAJIDACGXAkAAjwMAIZgCQACPAwAhnQIBAO4CACGeAgEAkwMAIZ8CAQCTAwAhoAIBAJMDACGhAgEAkwMAIaICQACUAwAhCPIBAgAAAAHzAQIAAAAE9AECAAAABPUBAgAAAAH2AQIAAAAB9wECAAAAAfgBAgAAAAH5AQIA6QIAIQvyAQEAAAAB8wEBAAAABfQBAQAAAAX1AQEAAAAB9gEBAAAAAfcBAQAAAAH4AQEAAAAB-QEBAIMDACH6AQEAAAAB-wEBAAAAAfwBAQAAAAEI8gFAAAAAAfMBQAAAAAX0AUAAAAAF9QFAAAAAAfYBQAAAAAH3AUAAAAAB-AFAAAAAAfkBQAD_AgAhCukBAACVAwAw6gEAANQBABDrAQAAlQMAMOwBAgDzAgAh7gEBAOYCACGWAgIA8wIAIaMCAgDzAgAhpAIBAOYCACGlAgAAlgMAIKYCQAD7AgAhBPIBAQAAAAWnAgEAAAABqAIBAAAABKkCAQAAAAQK6QEAAJcDADDqAQAAvgEAEOsBAACXAwAw7AECAPMCACGVAgEA-gIAIZcCQAD7AgAhmAJAAPsCACGmAkAA-wIAIaoCAQDmAgAhqwJAAPwCACEOHAAAmQMAIB8AAJoDACAgAACbAwAgJgAAnAMAIOkBAACYAwAw6gEAABwAEOsBAACYAwAw7AECAJIDACGVAgEAkwMAIZcCQACPAwAhmAJAAI8DACGmAkAAjwMAIaoCAQDuAgAhqwJAAJQDACEDrAIAAB4AIK0CAAAeACCuAgAAHgAgA6wCAAAhACCtAgAAIQAgrgIAACEAIAOsAgAAJwAgrQIAACcAIK4CAAAnACADrAIAACsAIK0CAAArACCuAgAAKwAgBukBAACdAwAw6gEAAKYBABDrAQAAnQMAMOwBAgDzAgAhmAJAAPsCACGvAggA5wIAIQbpAQAAngMAMOoBAACTAQAQ6wEAAJ4DADDsAQIAkgMAIZgCQACPAwAhrwIIAO8CACEL6QEAAJ8DADDqAQAAjQEAEOsBAACfAwAw7AEBAOYCACGCAgIA8wIAIbACAQDmAgAhsQIBAOYCACGyAggA5wIAIbMCCAD5AgAhtAICAPMCACG1AkAA-wIAIRnpAQAAoAMAMOoBAAB3ABDrAQAAoAMAMOwBAQDmAgAhggICAIgDACGWAgIAiAMAIZcCQAD7AgAhmAJAAPsCACG2AgEA-gIAIbcCAQD6AgAhuAIBAOYCACG5AgEA5gIAIboCAgDzAgAhuwIAAPgCACC8AggA-QIAIb0CCAD5AgAhvgIBAPoCACG_AgEA-gIAIcACAAD4AgAgwQIAAPgCACDCAgAA-AIAIMMCAACLAwAgxAIIAPkCACHFAgEA5gIAIcYCAQDmAgAhD-kBAAChAwAw6gEAAF0AEOsBAAChAwAw7AECAPMCACGSAgEA5gIAIZYCAgCIAwAhlwJAAPsCACGYAkAA-wIAIZoCAQD6AgAhnQIBAPoCACGeAgEA-gIAIccCAQD6AgAhyAIBAPoCACHJAkAA_AIAIcoCQAD8AgAhA4ICAgAAAAGwAgEAAAABsQIBAAAAAQwdAAClAwAg6QEAAKMDADDqAQAAQQAQ6wEAAKMDADDsAQEA7gIAIYICAgCSAwAhsAIBAO4CACGxAgEA7gIAIbICCADvAgAhswIIAKQDACG0AgIAkgMAIbUCQACPAwAhCPIBCAAAAAHzAQgAAAAF9AEIAAAABfUBCAAAAAH2AQgAAAAB9wEIAAAAAfgBCAAAAAH5AQgAhQMAIRUeAACvAwAgHwAAmgMAICcAALgDACAoAACwAwAg6QEAALcDADDqAQAAHgAQ6wEAALcDADDsAQIAkgMAIZICAQDuAgAhlgICAK4DACGXAkAAjwMAIZgCQACPAwAhmgIBAJMDACGdAgEAkwMAIZ4CAQCTAwAhxwIBAJMDACHIAgEAkwMAIckCQACUAwAhygJAAJQDACHOAgAAHgAgzwIAAB4AIALsAQEAAAAB_QEBAAAAAQshAACpAwAg6QEAAKcDADDqAQAANgAQ6wEAAKcDADDsAQEA7gIAIfABCADvAgAh_QEBAO4CACH-ASAAqAMAIf8BAQDuAgAhgAIBAO4CACGBAgIAkgMAIQLyASAAAAAB-QEgAPYCACESHgAArwMAICQAALADACAlAACxAwAg6QEAAK0DADDqAQAAKwAQ6wEAAK0DADDsAQEA7gIAIe4BAQDuAgAhhAIBAO4CACGSAgEA7gIAIZMCAQDuAgAhlAIBAO4CACGVAgEA7gIAIZYCAgCuAwAhlwJAAI8DACGYAkAAjwMAIc4CAAArACDPAgAAKwAgEh0AAKUDACAhAACpAwAgIwAArAMAIOkBAACqAwAw6gEAADAAEOsBAACqAwAw7AEBAO4CACH9AQEA7gIAIYICAgCSAwAhgwIBAO4CACGEAgEA7gIAIYUCAQDuAgAhhgIAAKsDACCHAgAAqwMAIIgCCACkAwAhiQIBAJMDACGKAkAAjwMAIYsCQACUAwAhDPIBgAAAAAH1AYAAAAAB9gGAAAAAAfcBgAAAAAH4AYAAAAAB-QGAAAAAAYwCAQAAAAGNAgEAAAABjgIBAAAAAY8CgAAAAAGQAoAAAAABkQKAAAAAAQwiAADwAgAg6QEAAO0CADDqAQAANAAQ6wEAAO0CADDsAQEA7gIAIe0BAQDuAgAh7gEBAO4CACHvAQEA7gIAIfABCADvAgAh8QEIAO8CACHOAgAANAAgzwIAADQAIBAeAACvAwAgJAAAsAMAICUAALEDACDpAQAArQMAMOoBAAArABDrAQAArQMAMOwBAQDuAgAh7gEBAO4CACGEAgEA7gIAIZICAQDuAgAhkwIBAO4CACGUAgEA7gIAIZUCAQDuAgAhlgICAK4DACGXAkAAjwMAIZgCQACPAwAhCPIBAgAAAAHzAQIAAAAF9AECAAAABfUBAgAAAAH2AQIAAAAB9wECAAAAAfgBAgAAAAH5AQIA_gIAIRAcAACZAwAgHwAAmgMAICAAAJsDACAmAACcAwAg6QEAAJgDADDqAQAAHAAQ6wEAAJgDADDsAQIAkgMAIZUCAQCTAwAhlwJAAI8DACGYAkAAjwMAIaYCQACPAwAhqgIBAO4CACGrAkAAlAMAIc4CAAAcACDPAgAAHAAgA6wCAAAwACCtAgAAMAAgrgIAADAAIAOsAgAANgAgrQIAADYAIK4CAAA2ACAClgICAAAAAaMCAgAAAAELHgAAtAMAIOkBAACzAwAw6gEAACcAEOsBAACzAwAw7AECAJIDACHuAQEA7gIAIZYCAgCSAwAhowICAJIDACGkAgEA7gIAIaUCAACWAwAgpgJAAI8DACEQHAAAmQMAIB8AAJoDACAgAACbAwAgJgAAnAMAIOkBAACYAwAw6gEAABwAEOsBAACYAwAw7AECAJIDACGVAgEAkwMAIZcCQACPAwAhmAJAAI8DACGmAkAAjwMAIaoCAQDuAgAhqwJAAJQDACHOAgAAHAAgzwIAABwAIBsdAAC2AwAgHgAArwMAIOkBAAC1AwAw6gEAACEAEOsBAAC1AwAw7AEBAO4CACGCAgIArgMAIZYCAgCuAwAhlwJAAI8DACGYAkAAjwMAIbYCAQCTAwAhtwIBAJMDACG4AgEA7gIAIbkCAQDuAgAhugICAJIDACG7AgAAqwMAILwCCACkAwAhvQIIAKQDACG-AgEAkwMAIb8CAQCTAwAhwAIAAKsDACDBAgAAqwMAIMICAACrAwAgwwIAAI4DACDEAggApAMAIcUCAQDuAgAhxgIBAO4CACEVHgAArwMAIB8AAJoDACAnAAC4AwAgKAAAsAMAIOkBAAC3AwAw6gEAAB4AEOsBAAC3AwAw7AECAJIDACGSAgEA7gIAIZYCAgCuAwAhlwJAAI8DACGYAkAAjwMAIZoCAQCTAwAhnQIBAJMDACGeAgEAkwMAIccCAQCTAwAhyAIBAJMDACHJAkAAlAMAIcoCQACUAwAhzgIAAB4AIM8CAAAeACATHgAArwMAIB8AAJoDACAnAAC4AwAgKAAAsAMAIOkBAAC3AwAw6gEAAB4AEOsBAAC3AwAw7AECAJIDACGSAgEA7gIAIZYCAgCuAwAhlwJAAI8DACGYAkAAjwMAIZoCAQCTAwAhnQIBAJMDACGeAgEAkwMAIccCAQCTAwAhyAIBAJMDACHJAkAAlAMAIcoCQACUAwAhA6wCAABBACCtAgAAQQAgrgIAAEEAIAXpAQAAuQMAMOoBAAAXABDrAQAAuQMAMOwBAgDzAgAhlwJAAPsCACEF6QEAALoDADDqAQAABAAQ6wEAALoDADDsAQIAkgMAIZcCQACPAwAhAAAAAAAB1gIBAAAAAQXWAggAAAAB2gIIAAAAAdsCCAAAAAHcAggAAAAB3QIIAAAAAQUPAADbBQAgEAAA3gUAINACAADcBQAg0QIAAN0FACDUAgAAMgAgAw8AANsFACDQAgAA3AUAINQCAAAyACAGHQAAmQUAICEAAJoFACAjAACbBQAgiAIAAM4DACCJAgAAzgMAIIsCAADOAwAgAAAAAAAB1gIgAAAAAQXWAgIAAAAB2gICAAAAAdsCAgAAAAHcAgIAAAAB3QICAAAAAQUPAADWBQAgEAAA2QUAINACAADXBQAg0QIAANgFACDUAgAALQAgAw8AANYFACDQAgAA1wUAINQCAAAtACAAAAAAAAAF1gIIAAAAAdoCCAAAAAHbAggAAAAB3AIIAAAAAd0CCAAAAAEB1gIBAAAAAQHWAkAAAAABAdYCQAAAAAEFDwAAzgUAIBAAANQFACDQAgAAzwUAINECAADTBQAg1AIAABoAIAUPAADMBQAgEAAA0QUAINACAADNBQAg0QIAANAFACDUAgAALQAgBw8AANsDACAQAADeAwAg0AIAANwDACDRAgAA3QMAINICAAA0ACDTAgAANAAg1AIAAM0CACAF7AEBAAAAAe4BAQAAAAHvAQEAAAAB8AEIAAAAAfEBCAAAAAECAAAAzQIAIA8AANsDACADAAAANAAgDwAA2wMAIBAAAN8DACAHAAAANAAgCAAA3wMAIOwBAQDAAwAh7gEBAMADACHvAQEAwAMAIfABCADBAwAh8QEIAMEDACEF7AEBAMADACHuAQEAwAMAIe8BAQDAAwAh8AEIAMEDACHxAQgAwQMAIQMPAADOBQAg0AIAAM8FACDUAgAAGgAgAw8AAMwFACDQAgAAzQUAINQCAAAtACADDwAA2wMAINACAADcAwAg1AIAAM0CACAAAAAAAAXWAgIAAAAB2gICAAAAAdsCAgAAAAHcAgIAAAAB3QICAAAAAQcPAADFBQAgEAAAygUAINACAADGBQAg0QIAAMkFACDSAgAAHAAg0wIAABwAINQCAACpAQAgCw8AAPgDADAQAAD9AwAw0AIAAPkDADDRAgAA-gMAMNICAAD8AwAw0wIAAPwDADDUAgAA_AMAMNUCAAD7AwAg1gIAAPwDADDXAgAA_gMAMNgCAAD_AwAwCw8AAOwDADAQAADxAwAw0AIAAO0DADDRAgAA7gMAMNICAADwAwAw0wIAAPADADDUAgAA8AMAMNUCAADvAwAg1gIAAPADADDXAgAA8gMAMNgCAADzAwAwBuwBAQAAAAHwAQgAAAAB_gEgAAAAAf8BAQAAAAGAAgEAAAABgQICAAAAAQIAAAA4ACAPAAD3AwAgAwAAADgAIA8AAPcDACAQAAD2AwAgAQgAAMgFADAMIQAAqQMAIOkBAACnAwAw6gEAADYAEOsBAACnAwAw7AEBAAAAAfABCADvAgAh_QEBAO4CACH-ASAAqAMAIf8BAQDuAgAhgAIBAO4CACGBAgIAkgMAIcwCAACmAwAgAgAAADgAIAgAAPYDACACAAAA9AMAIAgAAPUDACAK6QEAAPMDADDqAQAA9AMAEOsBAADzAwAw7AEBAO4CACHwAQgA7wIAIf0BAQDuAgAh_gEgAKgDACH_AQEA7gIAIYACAQDuAgAhgQICAJIDACEK6QEAAPMDADDqAQAA9AMAEOsBAADzAwAw7AEBAO4CACHwAQgA7wIAIf0BAQDuAgAh_gEgAKgDACH_AQEA7gIAIYACAQDuAgAhgQICAJIDACEG7AEBAMADACHwAQgAwQMAIf4BIADKAwAh_wEBAMADACGAAgEAwAMAIYECAgDLAwAhBuwBAQDAAwAh8AEIAMEDACH-ASAAygMAIf8BAQDAAwAhgAIBAMADACGBAgIAywMAIQbsAQEAAAAB8AEIAAAAAf4BIAAAAAH_AQEAAAABgAIBAAAAAYECAgAAAAENHQAA4AMAICMAAOIDACDsAQEAAAABggICAAAAAYMCAQAAAAGEAgEAAAABhQIBAAAAAYYCgAAAAAGHAoAAAAABiAIIAAAAAYkCAQAAAAGKAkAAAAABiwJAAAAAAQIAAAAyACAPAACDBAAgAwAAADIAIA8AAIMEACAQAACCBAAgAQgAAMcFADASHQAApQMAICEAAKkDACAjAACsAwAg6QEAAKoDADDqAQAAMAAQ6wEAAKoDADDsAQEAAAAB_QEBAO4CACGCAgIAkgMAIYMCAQDuAgAhhAIBAO4CACGFAgEA7gIAIYYCAACrAwAghwIAAKsDACCIAggApAMAIYkCAQCTAwAhigJAAI8DACGLAkAAlAMAIQIAAAAyACAIAACCBAAgAgAAAIAEACAIAACBBAAgD-kBAAD_AwAw6gEAAIAEABDrAQAA_wMAMOwBAQDuAgAh_QEBAO4CACGCAgIAkgMAIYMCAQDuAgAhhAIBAO4CACGFAgEA7gIAIYYCAACrAwAghwIAAKsDACCIAggApAMAIYkCAQCTAwAhigJAAI8DACGLAkAAlAMAIQ_pAQAA_wMAMOoBAACABAAQ6wEAAP8DADDsAQEA7gIAIf0BAQDuAgAhggICAJIDACGDAgEA7gIAIYQCAQDuAgAhhQIBAO4CACGGAgAAqwMAIIcCAACrAwAgiAIIAKQDACGJAgEAkwMAIYoCQACPAwAhiwJAAJQDACEL7AEBAMADACGCAgIAywMAIYMCAQDAAwAhhAIBAMADACGFAgEAwAMAIYYCgAAAAAGHAoAAAAABiAIIANQDACGJAgEA1QMAIYoCQADWAwAhiwJAANcDACENHQAA2AMAICMAANoDACDsAQEAwAMAIYICAgDLAwAhgwIBAMADACGEAgEAwAMAIYUCAQDAAwAhhgKAAAAAAYcCgAAAAAGIAggA1AMAIYkCAQDVAwAhigJAANYDACGLAkAA1wMAIQ0dAADgAwAgIwAA4gMAIOwBAQAAAAGCAgIAAAABgwIBAAAAAYQCAQAAAAGFAgEAAAABhgKAAAAAAYcCgAAAAAGIAggAAAABiQIBAAAAAYoCQAAAAAGLAkAAAAABAw8AAMUFACDQAgAAxgUAINQCAACpAQAgBA8AAPgDADDQAgAA-QMAMNQCAAD8AwAw1QIAAPsDACAEDwAA7AMAMNACAADtAwAw1AIAAPADADDVAgAA7wMAIAAAAAAAAAAAAAAAAAAC1gIBAAAABNkCAQAAAAUFDwAAwAUAIBAAAMMFACDQAgAAwQUAINECAADCBQAg1AIAAKkBACAB1gIBAAAABAMPAADABQAg0AIAAMEFACDUAgAAqQEAIAAAAAAACw8AAMcEADAQAADMBAAw0AIAAMgEADDRAgAAyQQAMNICAADLBAAw0wIAAMsEADDUAgAAywQAMNUCAADKBAAg1gIAAMsEADDXAgAAzQQAMNgCAADOBAAwCw8AALkEADAQAAC-BAAw0AIAALoEADDRAgAAuwQAMNICAAC9BAAw0wIAAL0EADDUAgAAvQQAMNUCAAC8BAAg1gIAAL0EADDXAgAAvwQAMNgCAADABAAwCw8AAK0EADAQAACyBAAw0AIAAK4EADDRAgAArwQAMNICAACxBAAw0wIAALEEADDUAgAAsQQAMNUCAACwBAAg1gIAALEEADDXAgAAswQAMNgCAAC0BAAwCw8AAKEEADAQAACmBAAw0AIAAKIEADDRAgAAowQAMNICAAClBAAw0wIAAKUEADDUAgAApQQAMNUCAACkBAAg1gIAAKUEADDXAgAApwQAMNgCAACoBAAwCyQAAIUEACAlAACGBAAg7AEBAAAAAe4BAQAAAAGEAgEAAAABkgIBAAAAAZMCAQAAAAGUAgEAAAABlQIBAAAAAZcCQAAAAAGYAkAAAAABAgAAAC0AIA8AAKwEACADAAAALQAgDwAArAQAIBAAAKsEACABCAAAvwUAMBAeAACvAwAgJAAAsAMAICUAALEDACDpAQAArQMAMOoBAAArABDrAQAArQMAMOwBAQAAAAHuAQEA7gIAIYQCAQDuAgAhkgIBAAAAAZMCAQDuAgAhlAIBAO4CACGVAgEA7gIAIZYCAgCuAwAhlwJAAI8DACGYAkAAjwMAIQIAAAAtACAIAACrBAAgAgAAAKkEACAIAACqBAAgDekBAACoBAAw6gEAAKkEABDrAQAAqAQAMOwBAQDuAgAh7gEBAO4CACGEAgEA7gIAIZICAQDuAgAhkwIBAO4CACGUAgEA7gIAIZUCAQDuAgAhlgICAK4DACGXAkAAjwMAIZgCQACPAwAhDekBAACoBAAw6gEAAKkEABDrAQAAqAQAMOwBAQDuAgAh7gEBAO4CACGEAgEA7gIAIZICAQDuAgAhkwIBAO4CACGUAgEA7gIAIZUCAQDuAgAhlgICAK4DACGXAkAAjwMAIZgCQACPAwAhCewBAQDAAwAh7gEBAMADACGEAgEAwAMAIZICAQDAAwAhkwIBAMADACGUAgEAwAMAIZUCAQDAAwAhlwJAANYDACGYAkAA1gMAIQskAADqAwAgJQAA6wMAIOwBAQDAAwAh7gEBAMADACGEAgEAwAMAIZICAQDAAwAhkwIBAMADACGUAgEAwAMAIZUCAQDAAwAhlwJAANYDACGYAkAA1gMAIQskAACFBAAgJQAAhgQAIOwBAQAAAAHuAQEAAAABhAIBAAAAAZICAQAAAAGTAgEAAAABlAIBAAAAAZUCAQAAAAGXAkAAAAABmAJAAAAAAQbsAQIAAAAB7gEBAAAAAaMCAgAAAAGkAgEAAAABpQIAAJYEACCmAkAAAAABAgAAACkAIA8AALgEACADAAAAKQAgDwAAuAQAIBAAALcEACABCAAAvgUAMAweAAC0AwAg6QEAALMDADDqAQAAJwAQ6wEAALMDADDsAQIAAAAB7gEBAO4CACGWAgIAkgMAIaMCAgCSAwAhpAIBAO4CACGlAgAAlgMAIKYCQACPAwAhzQIAALIDACACAAAAKQAgCAAAtwQAIAIAAAC1BAAgCAAAtgQAIArpAQAAtAQAMOoBAAC1BAAQ6wEAALQEADDsAQIAkgMAIe4BAQDuAgAhlgICAJIDACGjAgIAkgMAIaQCAQDuAgAhpQIAAJYDACCmAkAAjwMAIQrpAQAAtAQAMOoBAAC1BAAQ6wEAALQEADDsAQIAkgMAIe4BAQDuAgAhlgICAJIDACGjAgIAkgMAIaQCAQDuAgAhpQIAAJYDACCmAkAAjwMAIQbsAQIAywMAIe4BAQDAAwAhowICAMsDACGkAgEAwAMAIaUCAACUBAAgpgJAANYDACEG7AECAMsDACHuAQEAwAMAIaMCAgDLAwAhpAIBAMADACGlAgAAlAQAIKYCQADWAwAhBuwBAgAAAAHuAQEAAAABowICAAAAAaQCAQAAAAGlAgAAlgQAIKYCQAAAAAEWHQAAxgQAIOwBAQAAAAGCAgIAAAABlwJAAAAAAZgCQAAAAAG2AgEAAAABtwIBAAAAAbgCAQAAAAG5AgEAAAABugICAAAAAbsCgAAAAAG8AggAAAABvQIIAAAAAb4CAQAAAAG_AgEAAAABwAKAAAAAAcECgAAAAAHCAoAAAAABwwKAAAAAAcQCCAAAAAHFAgEAAAABxgIBAAAAAQIAAAAjACAPAADFBAAgAwAAACMAIA8AAMUEACAQAADDBAAgAQgAAL0FADAbHQAAtgMAIB4AAK8DACDpAQAAtQMAMOoBAAAhABDrAQAAtQMAMOwBAQAAAAGCAgIArgMAIZYCAgCuAwAhlwJAAI8DACGYAkAAjwMAIbYCAQCTAwAhtwIBAJMDACG4AgEA7gIAIbkCAQDuAgAhugICAJIDACG7AgAAqwMAILwCCACkAwAhvQIIAKQDACG-AgEAkwMAIb8CAQCTAwAhwAIAAKsDACDBAgAAqwMAIMICAACrAwAgwwIAAI4DACDEAggApAMAIcUCAQDuAgAhxgIBAO4CACECAAAAIwAgCAAAwwQAIAIAAADBBAAgCAAAwgQAIBnpAQAAwAQAMOoBAADBBAAQ6wEAAMAEADDsAQEA7gIAIYICAgCuAwAhlgICAK4DACGXAkAAjwMAIZgCQACPAwAhtgIBAJMDACG3AgEAkwMAIbgCAQDuAgAhuQIBAO4CACG6AgIAkgMAIbsCAACrAwAgvAIIAKQDACG9AggApAMAIb4CAQCTAwAhvwIBAJMDACHAAgAAqwMAIMECAACrAwAgwgIAAKsDACDDAgAAjgMAIMQCCACkAwAhxQIBAO4CACHGAgEA7gIAIRnpAQAAwAQAMOoBAADBBAAQ6wEAAMAEADDsAQEA7gIAIYICAgCuAwAhlgICAK4DACGXAkAAjwMAIZgCQACPAwAhtgIBAJMDACG3AgEAkwMAIbgCAQDuAgAhuQIBAO4CACG6AgIAkgMAIbsCAACrAwAgvAIIAKQDACG9AggApAMAIb4CAQCTAwAhvwIBAJMDACHAAgAAqwMAIMECAACrAwAgwgIAAKsDACDDAgAAjgMAIMQCCACkAwAhxQIBAO4CACHGAgEA7gIAIRXsAQEAwAMAIYICAgDoAwAhlwJAANYDACGYAkAA1gMAIbYCAQDVAwAhtwIBANUDACG4AgEAwAMAIbkCAQDAAwAhugICAMsDACG7AoAAAAABvAIIANQDACG9AggA1AMAIb4CAQDVAwAhvwIBANUDACHAAoAAAAABwQKAAAAAAcICgAAAAAHDAoAAAAABxAIIANQDACHFAgEAwAMAIcYCAQDAAwAhFh0AAMQEACDsAQEAwAMAIYICAgDoAwAhlwJAANYDACGYAkAA1gMAIbYCAQDVAwAhtwIBANUDACG4AgEAwAMAIbkCAQDAAwAhugICAMsDACG7AoAAAAABvAIIANQDACG9AggA1AMAIb4CAQDVAwAhvwIBANUDACHAAoAAAAABwQKAAAAAAcICgAAAAAHDAoAAAAABxAIIANQDACHFAgEAwAMAIcYCAQDAAwAhBw8AALgFACAQAAC7BQAg0AIAALkFACDRAgAAugUAINICAAAeACDTAgAAHgAg1AIAABoAIBYdAADGBAAg7AEBAAAAAYICAgAAAAGXAkAAAAABmAJAAAAAAbYCAQAAAAG3AgEAAAABuAIBAAAAAbkCAQAAAAG6AgIAAAABuwKAAAAAAbwCCAAAAAG9AggAAAABvgIBAAAAAb8CAQAAAAHAAoAAAAABwQKAAAAAAcICgAAAAAHDAoAAAAABxAIIAAAAAcUCAQAAAAHGAgEAAAABAw8AALgFACDQAgAAuQUAINQCAAAaACAOHwAA9gQAICcAAPcEACAoAAD4BAAg7AECAAAAAZICAQAAAAGXAkAAAAABmAJAAAAAAZoCAQAAAAGdAgEAAAABngIBAAAAAccCAQAAAAHIAgEAAAAByQJAAAAAAcoCQAAAAAECAAAAGgAgDwAA9QQAIAMAAAAaACAPAAD1BAAgEAAA0QQAIAEIAAC3BQAwEx4AAK8DACAfAACaAwAgJwAAuAMAICgAALADACDpAQAAtwMAMOoBAAAeABDrAQAAtwMAMOwBAgAAAAGSAgEAAAABlgICAK4DACGXAkAAjwMAIZgCQACPAwAhmgIBAAAAAZ0CAQAAAAGeAgEAkwMAIccCAQCTAwAhyAIBAJMDACHJAkAAlAMAIcoCQACUAwAhAgAAABoAIAgAANEEACACAAAAzwQAIAgAANAEACAP6QEAAM4EADDqAQAAzwQAEOsBAADOBAAw7AECAJIDACGSAgEA7gIAIZYCAgCuAwAhlwJAAI8DACGYAkAAjwMAIZoCAQCTAwAhnQIBAJMDACGeAgEAkwMAIccCAQCTAwAhyAIBAJMDACHJAkAAlAMAIcoCQACUAwAhD-kBAADOBAAw6gEAAM8EABDrAQAAzgQAMOwBAgCSAwAhkgIBAO4CACGWAgIArgMAIZcCQACPAwAhmAJAAI8DACGaAgEAkwMAIZ0CAQCTAwAhngIBAJMDACHHAgEAkwMAIcgCAQCTAwAhyQJAAJQDACHKAkAAlAMAIQvsAQIAywMAIZICAQDAAwAhlwJAANYDACGYAkAA1gMAIZoCAQDVAwAhnQIBANUDACGeAgEA1QMAIccCAQDVAwAhyAIBANUDACHJAkAA1wMAIcoCQADXAwAhDh8AANIEACAnAADTBAAgKAAA1AQAIOwBAgDLAwAhkgIBAMADACGXAkAA1gMAIZgCQADWAwAhmgIBANUDACGdAgEA1QMAIZ4CAQDVAwAhxwIBANUDACHIAgEA1QMAIckCQADXAwAhygJAANcDACELDwAA6gQAMBAAAO4EADDQAgAA6wQAMNECAADsBAAw0gIAAL0EADDTAgAAvQQAMNQCAAC9BAAw1QIAAO0EACDWAgAAvQQAMNcCAADvBAAw2AIAAMAEADALDwAA3gQAMBAAAOMEADDQAgAA3wQAMNECAADgBAAw0gIAAOIEADDTAgAA4gQAMNQCAADiBAAw1QIAAOEEACDWAgAA4gQAMNcCAADkBAAw2AIAAOUEADALDwAA1QQAMBAAANkEADDQAgAA1gQAMNECAADXBAAw0gIAAPwDADDTAgAA_AMAMNQCAAD8AwAw1QIAANgEACDWAgAA_AMAMNcCAADaBAAw2AIAAP8DADANIQAA4QMAICMAAOIDACDsAQEAAAAB_QEBAAAAAYMCAQAAAAGEAgEAAAABhQIBAAAAAYYCgAAAAAGHAoAAAAABiAIIAAAAAYkCAQAAAAGKAkAAAAABiwJAAAAAAQIAAAAyACAPAADdBAAgAwAAADIAIA8AAN0EACAQAADcBAAgAQgAALYFADACAAAAMgAgCAAA3AQAIAIAAACABAAgCAAA2wQAIAvsAQEAwAMAIf0BAQDAAwAhgwIBAMADACGEAgEAwAMAIYUCAQDAAwAhhgKAAAAAAYcCgAAAAAGIAggA1AMAIYkCAQDVAwAhigJAANYDACGLAkAA1wMAIQ0hAADZAwAgIwAA2gMAIOwBAQDAAwAh_QEBAMADACGDAgEAwAMAIYQCAQDAAwAhhQIBAMADACGGAoAAAAABhwKAAAAAAYgCCADUAwAhiQIBANUDACGKAkAA1gMAIYsCQADXAwAhDSEAAOEDACAjAADiAwAg7AEBAAAAAf0BAQAAAAGDAgEAAAABhAIBAAAAAYUCAQAAAAGGAoAAAAABhwKAAAAAAYgCCAAAAAGJAgEAAAABigJAAAAAAYsCQAAAAAEH7AEBAAAAAbACAQAAAAGxAgEAAAABsgIIAAAAAbMCCAAAAAG0AgIAAAABtQJAAAAAAQIAAABDACAPAADpBAAgAwAAAEMAIA8AAOkEACAQAADoBAAgAQgAALUFADANHQAApQMAIOkBAACjAwAw6gEAAEEAEOsBAACjAwAw7AEBAAAAAYICAgCSAwAhsAIBAO4CACGxAgEA7gIAIbICCADvAgAhswIIAKQDACG0AgIAkgMAIbUCQACPAwAhywIAAKIDACACAAAAQwAgCAAA6AQAIAIAAADmBAAgCAAA5wQAIAvpAQAA5QQAMOoBAADmBAAQ6wEAAOUEADDsAQEA7gIAIYICAgCSAwAhsAIBAO4CACGxAgEA7gIAIbICCADvAgAhswIIAKQDACG0AgIAkgMAIbUCQACPAwAhC-kBAADlBAAw6gEAAOYEABDrAQAA5QQAMOwBAQDuAgAhggICAJIDACGwAgEA7gIAIbECAQDuAgAhsgIIAO8CACGzAggApAMAIbQCAgCSAwAhtQJAAI8DACEH7AEBAMADACGwAgEAwAMAIbECAQDAAwAhsgIIAMEDACGzAggA1AMAIbQCAgDLAwAhtQJAANYDACEH7AEBAMADACGwAgEAwAMAIbECAQDAAwAhsgIIAMEDACGzAggA1AMAIbQCAgDLAwAhtQJAANYDACEH7AEBAAAAAbACAQAAAAGxAgEAAAABsgIIAAAAAbMCCAAAAAG0AgIAAAABtQJAAAAAARYeAAD0BAAg7AEBAAAAAZYCAgAAAAGXAkAAAAABmAJAAAAAAbYCAQAAAAG3AgEAAAABuAIBAAAAAbkCAQAAAAG6AgIAAAABuwKAAAAAAbwCCAAAAAG9AggAAAABvgIBAAAAAb8CAQAAAAHAAoAAAAABwQKAAAAAAcICgAAAAAHDAoAAAAABxAIIAAAAAcUCAQAAAAHGAgEAAAABAgAAACMAIA8AAPMEACADAAAAIwAgDwAA8wQAIBAAAPEEACABCAAAtAUAMAIAAAAjACAIAADxBAAgAgAAAMEEACAIAADwBAAgFewBAQDAAwAhlgICAOgDACGXAkAA1gMAIZgCQADWAwAhtgIBANUDACG3AgEA1QMAIbgCAQDAAwAhuQIBAMADACG6AgIAywMAIbsCgAAAAAG8AggA1AMAIb0CCADUAwAhvgIBANUDACG_AgEA1QMAIcACgAAAAAHBAoAAAAABwgKAAAAAAcMCgAAAAAHEAggA1AMAIcUCAQDAAwAhxgIBAMADACEWHgAA8gQAIOwBAQDAAwAhlgICAOgDACGXAkAA1gMAIZgCQADWAwAhtgIBANUDACG3AgEA1QMAIbgCAQDAAwAhuQIBAMADACG6AgIAywMAIbsCgAAAAAG8AggA1AMAIb0CCADUAwAhvgIBANUDACG_AgEA1QMAIcACgAAAAAHBAoAAAAABwgKAAAAAAcMCgAAAAAHEAggA1AMAIcUCAQDAAwAhxgIBAMADACEHDwAArwUAIBAAALIFACDQAgAAsAUAINECAACxBQAg0gIAABwAINMCAAAcACDUAgAAqQEAIBYeAAD0BAAg7AEBAAAAAZYCAgAAAAGXAkAAAAABmAJAAAAAAbYCAQAAAAG3AgEAAAABuAIBAAAAAbkCAQAAAAG6AgIAAAABuwKAAAAAAbwCCAAAAAG9AggAAAABvgIBAAAAAb8CAQAAAAHAAoAAAAABwQKAAAAAAcICgAAAAAHDAoAAAAABxAIIAAAAAcUCAQAAAAHGAgEAAAABAw8AAK8FACDQAgAAsAUAINQCAACpAQAgDh8AAPYEACAnAAD3BAAgKAAA-AQAIOwBAgAAAAGSAgEAAAABlwJAAAAAAZgCQAAAAAGaAgEAAAABnQIBAAAAAZ4CAQAAAAHHAgEAAAAByAIBAAAAAckCQAAAAAHKAkAAAAABBA8AAOoEADDQAgAA6wQAMNQCAAC9BAAw1QIAAO0EACAEDwAA3gQAMNACAADfBAAw1AIAAOIEADDVAgAA4QQAIAQPAADVBAAw0AIAANYEADDUAgAA_AMAMNUCAADYBAAgBA8AAMcEADDQAgAAyAQAMNQCAADLBAAw1QIAAMoEACAEDwAAuQQAMNACAAC6BAAw1AIAAL0EADDVAgAAvAQAIAQPAACtBAAw0AIAAK4EADDUAgAAsQQAMNUCAACwBAAgBA8AAKEEADDQAgAAogQAMNQCAAClBAAw1QIAAKQEACAAAAAAAAAAAAAAAAAAAAUPAACqBQAgEAAArQUAINACAACrBQAg0QIAAKwFACDUAgAAGgAgAw8AAKoFACDQAgAAqwUAINQCAAAaACAAAAAAAAAAAAAABw8AAKUFACAQAACoBQAg0AIAAKYFACDRAgAApwUAINICAAAcACDTAgAAHAAg1AIAAKkBACADDwAApQUAINACAACmBQAg1AIAAKkBACAMHgAAnAUAIB8AAP4EACAnAACfBQAgKAAAnQUAIJYCAADOAwAgmgIAAM4DACCdAgAAzgMAIJ4CAADOAwAgxwIAAM4DACDIAgAAzgMAIMkCAADOAwAgygIAAM4DACAEHgAAnAUAICQAAJ0FACAlAACeBQAglgIAAM4DACABIgAAxAMAIAYcAAD9BAAgHwAA_gQAICAAAP8EACAmAACABQAglQIAAM4DACCrAgAAzgMAIAAAAAAAAAAACh8AAPoEACAgAAD7BAAgJgAA_AQAIOwBAgAAAAGVAgEAAAABlwJAAAAAAZgCQAAAAAGmAkAAAAABqgIBAAAAAasCQAAAAAECAAAAqQEAIA8AAKUFACADAAAAHAAgDwAApQUAIBAAAKkFACAMAAAAHAAgCAAAqQUAIB8AAJ4EACAgAACfBAAgJgAAoAQAIOwBAgDLAwAhlQIBANUDACGXAkAA1gMAIZgCQADWAwAhpgJAANYDACGqAgEAwAMAIasCQADXAwAhCh8AAJ4EACAgAACfBAAgJgAAoAQAIOwBAgDLAwAhlQIBANUDACGXAkAA1gMAIZgCQADWAwAhpgJAANYDACGqAgEAwAMAIasCQADXAwAhDx4AAJgFACAfAAD2BAAgKAAA-AQAIOwBAgAAAAGSAgEAAAABlgICAAAAAZcCQAAAAAGYAkAAAAABmgIBAAAAAZ0CAQAAAAGeAgEAAAABxwIBAAAAAcgCAQAAAAHJAkAAAAABygJAAAAAAQIAAAAaACAPAACqBQAgAwAAAB4AIA8AAKoFACAQAACuBQAgEQAAAB4AIAgAAK4FACAeAACXBQAgHwAA0gQAICgAANQEACDsAQIAywMAIZICAQDAAwAhlgICAOgDACGXAkAA1gMAIZgCQADWAwAhmgIBANUDACGdAgEA1QMAIZ4CAQDVAwAhxwIBANUDACHIAgEA1QMAIckCQADXAwAhygJAANcDACEPHgAAlwUAIB8AANIEACAoAADUBAAg7AECAMsDACGSAgEAwAMAIZYCAgDoAwAhlwJAANYDACGYAkAA1gMAIZoCAQDVAwAhnQIBANUDACGeAgEA1QMAIccCAQDVAwAhyAIBANUDACHJAkAA1wMAIcoCQADXAwAhChwAAPkEACAgAAD7BAAgJgAA_AQAIOwBAgAAAAGVAgEAAAABlwJAAAAAAZgCQAAAAAGmAkAAAAABqgIBAAAAAasCQAAAAAECAAAAqQEAIA8AAK8FACADAAAAHAAgDwAArwUAIBAAALMFACAMAAAAHAAgCAAAswUAIBwAAJ0EACAgAACfBAAgJgAAoAQAIOwBAgDLAwAhlQIBANUDACGXAkAA1gMAIZgCQADWAwAhpgJAANYDACGqAgEAwAMAIasCQADXAwAhChwAAJ0EACAgAACfBAAgJgAAoAQAIOwBAgDLAwAhlQIBANUDACGXAkAA1gMAIZgCQADWAwAhpgJAANYDACGqAgEAwAMAIasCQADXAwAhFewBAQAAAAGWAgIAAAABlwJAAAAAAZgCQAAAAAG2AgEAAAABtwIBAAAAAbgCAQAAAAG5AgEAAAABugICAAAAAbsCgAAAAAG8AggAAAABvQIIAAAAAb4CAQAAAAG_AgEAAAABwAKAAAAAAcECgAAAAAHCAoAAAAABwwKAAAAAAcQCCAAAAAHFAgEAAAABxgIBAAAAAQfsAQEAAAABsAIBAAAAAbECAQAAAAGyAggAAAABswIIAAAAAbQCAgAAAAG1AkAAAAABC-wBAQAAAAH9AQEAAAABgwIBAAAAAYQCAQAAAAGFAgEAAAABhgKAAAAAAYcCgAAAAAGIAggAAAABiQIBAAAAAYoCQAAAAAGLAkAAAAABC-wBAgAAAAGSAgEAAAABlwJAAAAAAZgCQAAAAAGaAgEAAAABnQIBAAAAAZ4CAQAAAAHHAgEAAAAByAIBAAAAAckCQAAAAAHKAkAAAAABDx4AAJgFACAnAAD3BAAgKAAA-AQAIOwBAgAAAAGSAgEAAAABlgICAAAAAZcCQAAAAAGYAkAAAAABmgIBAAAAAZ0CAQAAAAGeAgEAAAABxwIBAAAAAcgCAQAAAAHJAkAAAAABygJAAAAAAQIAAAAaACAPAAC4BQAgAwAAAB4AIA8AALgFACAQAAC8BQAgEQAAAB4AIAgAALwFACAeAACXBQAgJwAA0wQAICgAANQEACDsAQIAywMAIZICAQDAAwAhlgICAOgDACGXAkAA1gMAIZgCQADWAwAhmgIBANUDACGdAgEA1QMAIZ4CAQDVAwAhxwIBANUDACHIAgEA1QMAIckCQADXAwAhygJAANcDACEPHgAAlwUAICcAANMEACAoAADUBAAg7AECAMsDACGSAgEAwAMAIZYCAgDoAwAhlwJAANYDACGYAkAA1gMAIZoCAQDVAwAhnQIBANUDACGeAgEA1QMAIccCAQDVAwAhyAIBANUDACHJAkAA1wMAIcoCQADXAwAhFewBAQAAAAGCAgIAAAABlwJAAAAAAZgCQAAAAAG2AgEAAAABtwIBAAAAAbgCAQAAAAG5AgEAAAABugICAAAAAbsCgAAAAAG8AggAAAABvQIIAAAAAb4CAQAAAAG_AgEAAAABwAKAAAAAAcECgAAAAAHCAoAAAAABwwKAAAAAAcQCCAAAAAHFAgEAAAABxgIBAAAAAQbsAQIAAAAB7gEBAAAAAaMCAgAAAAGkAgEAAAABpQIAAJYEACCmAkAAAAABCewBAQAAAAHuAQEAAAABhAIBAAAAAZICAQAAAAGTAgEAAAABlAIBAAAAAZUCAQAAAAGXAkAAAAABmAJAAAAAAQocAAD5BAAgHwAA-gQAICYAAPwEACDsAQIAAAABlQIBAAAAAZcCQAAAAAGYAkAAAAABpgJAAAAAAaoCAQAAAAGrAkAAAAABAgAAAKkBACAPAADABQAgAwAAABwAIA8AAMAFACAQAADEBQAgDAAAABwAIAgAAMQFACAcAACdBAAgHwAAngQAICYAAKAEACDsAQIAywMAIZUCAQDVAwAhlwJAANYDACGYAkAA1gMAIaYCQADWAwAhqgIBAMADACGrAkAA1wMAIQocAACdBAAgHwAAngQAICYAAKAEACDsAQIAywMAIZUCAQDVAwAhlwJAANYDACGYAkAA1gMAIaYCQADWAwAhqgIBAMADACGrAkAA1wMAIQocAAD5BAAgHwAA-gQAICAAAPsEACDsAQIAAAABlQIBAAAAAZcCQAAAAAGYAkAAAAABpgJAAAAAAaoCAQAAAAGrAkAAAAABAgAAAKkBACAPAADFBQAgC-wBAQAAAAGCAgIAAAABgwIBAAAAAYQCAQAAAAGFAgEAAAABhgKAAAAAAYcCgAAAAAGIAggAAAABiQIBAAAAAYoCQAAAAAGLAkAAAAABBuwBAQAAAAHwAQgAAAAB_gEgAAAAAf8BAQAAAAGAAgEAAAABgQICAAAAAQMAAAAcACAPAADFBQAgEAAAywUAIAwAAAAcACAIAADLBQAgHAAAnQQAIB8AAJ4EACAgAACfBAAg7AECAMsDACGVAgEA1QMAIZcCQADWAwAhmAJAANYDACGmAkAA1gMAIaoCAQDAAwAhqwJAANcDACEKHAAAnQQAIB8AAJ4EACAgAACfBAAg7AECAMsDACGVAgEA1QMAIZcCQADWAwAhmAJAANYDACGmAkAA1gMAIaoCAQDAAwAhqwJAANcDACEMHgAAhAQAICUAAIYEACDsAQEAAAAB7gEBAAAAAYQCAQAAAAGSAgEAAAABkwIBAAAAAZQCAQAAAAGVAgEAAAABlgICAAAAAZcCQAAAAAGYAkAAAAABAgAAAC0AIA8AAMwFACAPHgAAmAUAIB8AAPYEACAnAAD3BAAg7AECAAAAAZICAQAAAAGWAgIAAAABlwJAAAAAAZgCQAAAAAGaAgEAAAABnQIBAAAAAZ4CAQAAAAHHAgEAAAAByAIBAAAAAckCQAAAAAHKAkAAAAABAgAAABoAIA8AAM4FACADAAAAKwAgDwAAzAUAIBAAANIFACAOAAAAKwAgCAAA0gUAIB4AAOkDACAlAADrAwAg7AEBAMADACHuAQEAwAMAIYQCAQDAAwAhkgIBAMADACGTAgEAwAMAIZQCAQDAAwAhlQIBAMADACGWAgIA6AMAIZcCQADWAwAhmAJAANYDACEMHgAA6QMAICUAAOsDACDsAQEAwAMAIe4BAQDAAwAhhAIBAMADACGSAgEAwAMAIZMCAQDAAwAhlAIBAMADACGVAgEAwAMAIZYCAgDoAwAhlwJAANYDACGYAkAA1gMAIQMAAAAeACAPAADOBQAgEAAA1QUAIBEAAAAeACAIAADVBQAgHgAAlwUAIB8AANIEACAnAADTBAAg7AECAMsDACGSAgEAwAMAIZYCAgDoAwAhlwJAANYDACGYAkAA1gMAIZoCAQDVAwAhnQIBANUDACGeAgEA1QMAIccCAQDVAwAhyAIBANUDACHJAkAA1wMAIcoCQADXAwAhDx4AAJcFACAfAADSBAAgJwAA0wQAIOwBAgDLAwAhkgIBAMADACGWAgIA6AMAIZcCQADWAwAhmAJAANYDACGaAgEA1QMAIZ0CAQDVAwAhngIBANUDACHHAgEA1QMAIcgCAQDVAwAhyQJAANcDACHKAkAA1wMAIQweAACEBAAgJAAAhQQAIOwBAQAAAAHuAQEAAAABhAIBAAAAAZICAQAAAAGTAgEAAAABlAIBAAAAAZUCAQAAAAGWAgIAAAABlwJAAAAAAZgCQAAAAAECAAAALQAgDwAA1gUAIAMAAAArACAPAADWBQAgEAAA2gUAIA4AAAArACAIAADaBQAgHgAA6QMAICQAAOoDACDsAQEAwAMAIe4BAQDAAwAhhAIBAMADACGSAgEAwAMAIZMCAQDAAwAhlAIBAMADACGVAgEAwAMAIZYCAgDoAwAhlwJAANYDACGYAkAA1gMAIQweAADpAwAgJAAA6gMAIOwBAQDAAwAh7gEBAMADACGEAgEAwAMAIZICAQDAAwAhkwIBAMADACGUAgEAwAMAIZUCAQDAAwAhlgICAOgDACGXAkAA1gMAIZgCQADWAwAhDh0AAOADACAhAADhAwAg7AEBAAAAAf0BAQAAAAGCAgIAAAABgwIBAAAAAYQCAQAAAAGFAgEAAAABhgKAAAAAAYcCgAAAAAGIAggAAAABiQIBAAAAAYoCQAAAAAGLAkAAAAABAgAAADIAIA8AANsFACADAAAAMAAgDwAA2wUAIBAAAN8FACAQAAAAMAAgCAAA3wUAIB0AANgDACAhAADZAwAg7AEBAMADACH9AQEAwAMAIYICAgDLAwAhgwIBAMADACGEAgEAwAMAIYUCAQDAAwAhhgKAAAAAAYcCgAAAAAGIAggA1AMAIYkCAQDVAwAhigJAANYDACGLAkAA1wMAIQ4dAADYAwAgIQAA2QMAIOwBAQDAAwAh_QEBAMADACGCAgIAywMAIYMCAQDAAwAhhAIBAMADACGFAgEAwAMAIYYCgAAAAAGHAoAAAAABiAIIANQDACGJAgEA1QMAIYoCQADWAwAhiwJAANcDACEAAAAABRUABhYABxcACBgACRkACgAAAAAABRUABhYABxcACBgACRkACgUVABceHQ0fQA4nRBYoRREFFQAVHCAMHyQOICoPJi4QAh0lDB4mDQEeAA0EFQAUHi8NJDMRJTkTAx0ADCEAECM1EgEiABEBIQAQAiQ6ACU7AAQcPAAfPQAgPgAmPwABHQAMAx9GACdHAChIAAEeUg0BHlgNBRUAGxYAHBcAHRgAHhkAHwAAAAAABRUAGxYAHBcAHRgAHhkAHwIdagweaw0CHXEMHnINBRUAJBYAJRcAJhgAJxkAKAAAAAAABRUAJBYAJRcAJhgAJxkAKAEdAAwBHQAMBRUALRYALhcALxgAMBkAMQAAAAAABRUALRYALhcALxgAMBkAMQAAAAUVADcWADgXADkYADoZADsAAAAAAAUVADcWADgXADkYADoZADsAAAUVAEAWAEEXAEIYAEMZAEQAAAAAAAUVAEAWAEEXAEIYAEMZAEQBHgANAR4ADQUVAEkWAEoXAEsYAEwZAE0AAAAAAAUVAEkWAEoXAEsYAEwZAE0AAAAFFQBTFgBUFwBVGABWGQBXAAAAAAAFFQBTFgBUFwBVGABWGQBXAAAAAxUAXRgAXhkAXwAAAAMVAF0YAF4ZAF8BHpMCDQEemQINBRUAZBYAZRcAZhgAZxkAaAAAAAAABRUAZBYAZRcAZhgAZxkAaAIdAAwhABACHQAMIQAQBRUAbRYAbhcAbxgAcBkAcQAAAAAABRUAbRYAbhcAbxgAcBkAcQEhABABIQAQBRUAdhYAdxcAeBgAeRkAegAAAAAABRUAdhYAdxcAeBgAeRkAegEiABEBIgARBRUAfxYAgAEXAIEBGACCARkAgwEAAAAAAAUVAH8WAIABFwCBARgAggEZAIMBAQIBAgMBBQYBBgcBBwgBCQoBCgwCCw0DDA8BDRECDhIEERMBEhQBExUCGhgFGxkLKRsMKkkMK0oMLEsMLUwMLk4ML1ACMFEYMVQMMlYCM1cZNFkMNVoMNlsCN14aOF8gOWAOOmEOO2IOPGMOPWQOPmYOP2gCQGkhQW0OQm8CQ3AiRHMORXQORnUCR3gjSHkpSXoWSnsWS3wWTH0WTX4WToABFk-CAQJQgwEqUYUBFlKHAQJTiAErVIkBFlWKARZWiwECV44BLFiPATJZkQEzWpIBM1uVATNclgEzXZcBM16ZATNfmwECYJwBNGGeATNioAECY6EBNWSiATNlowEzZqQBAmenATZoqAE8aaoBDWqrAQ1rrQENbK4BDW2vAQ1usQENb7MBAnC0AT1xtgENcrgBAnO5AT50ugENdbsBDXa8AQJ3vwE_eMABRXnBAQ96wgEPe8MBD3zEAQ99xQEPfscBD3_JAQKAAcoBRoEBzAEPggHOAQKDAc8BR4QB0AEPhQHRAQ-GAdIBAocB1QFIiAHWAU6JAdgBT4oB2QFPiwHcAU-MAd0BT40B3gFPjgHgAU-PAeIBApAB4wFQkQHlAU-SAecBApMB6AFRlAHpAU-VAeoBT5YB6wEClwHuAVKYAe8BWJkB8QFZmgHyAVmbAfUBWZwB9gFZnQH3AVmeAfkBWZ8B-wECoAH8AVqhAf4BWaIBgAICowGBAlukAYICWaUBgwJZpgGEAgKnAYcCXKgBiAJgqQGJAhCqAYoCEKsBiwIQrAGMAhCtAY0CEK4BjwIQrwGRAgKwAZICYbEBlQIQsgGXAgKzAZgCYrQBmgIQtQGbAhC2AZwCArcBnwJjuAGgAmm5AaECEboBogIRuwGjAhG8AaQCEb0BpQIRvgGnAhG_AakCAsABqgJqwQGsAhHCAa4CAsMBrwJrxAGwAhHFAbECEcYBsgICxwG1AmzIAbYCcskBtwITygG4AhPLAbkCE8wBugITzQG7AhPOAb0CE88BvwIC0AHAAnPRAcICE9IBxAIC0wHFAnTUAcYCE9UBxwIT1gHIAgLXAcsCddgBzAJ72QHOAhLaAc8CEtsB0QIS3AHSAhLdAdMCEt4B1QIS3wHXAgLgAdgCfOEB2gIS4gHcAgLjAd0CfeQB3gIS5QHfAhLmAeACAucB4wJ-6AHkAoQB"
+  strings: JSON.parse("[\"where\",\"HealthCheck.findUnique\",\"HealthCheck.findUniqueOrThrow\",\"orderBy\",\"cursor\",\"HealthCheck.findFirst\",\"HealthCheck.findFirstOrThrow\",\"HealthCheck.findMany\",\"data\",\"HealthCheck.createOne\",\"HealthCheck.createMany\",\"HealthCheck.createManyAndReturn\",\"HealthCheck.updateOne\",\"HealthCheck.updateMany\",\"HealthCheck.updateManyAndReturn\",\"create\",\"update\",\"HealthCheck.upsertOne\",\"HealthCheck.deleteOne\",\"HealthCheck.deleteMany\",\"having\",\"_count\",\"_avg\",\"_sum\",\"_min\",\"_max\",\"HealthCheck.groupBy\",\"HealthCheck.aggregate\",\"associates\",\"associate\",\"cohort\",\"session\",\"coAssessments\",\"sessions\",\"curriculumWeeks\",\"challenge\",\"attempt\",\"signal\",\"assessment\",\"challenges\",\"attempts\",\"events\",\"assessmentSession\",\"timeline\",\"review\",\"testCases\",\"assessments\",\"codingChallenges\",\"readinessPolicy\",\"codingAssessments\",\"gapScores\",\"codingAttempts\",\"practiceCards\",\"assessmentSessions\",\"Associate.findUnique\",\"Associate.findUniqueOrThrow\",\"Associate.findFirst\",\"Associate.findFirstOrThrow\",\"Associate.findMany\",\"Associate.createOne\",\"Associate.createMany\",\"Associate.createManyAndReturn\",\"Associate.updateOne\",\"Associate.updateMany\",\"Associate.updateManyAndReturn\",\"Associate.upsertOne\",\"Associate.deleteOne\",\"Associate.deleteMany\",\"Associate.groupBy\",\"Associate.aggregate\",\"Session.findUnique\",\"Session.findUniqueOrThrow\",\"Session.findFirst\",\"Session.findFirstOrThrow\",\"Session.findMany\",\"Session.createOne\",\"Session.createMany\",\"Session.createManyAndReturn\",\"Session.updateOne\",\"Session.updateMany\",\"Session.updateManyAndReturn\",\"Session.upsertOne\",\"Session.deleteOne\",\"Session.deleteMany\",\"Session.groupBy\",\"Session.aggregate\",\"CoInterviewerAssessment.findUnique\",\"CoInterviewerAssessment.findUniqueOrThrow\",\"CoInterviewerAssessment.findFirst\",\"CoInterviewerAssessment.findFirstOrThrow\",\"CoInterviewerAssessment.findMany\",\"CoInterviewerAssessment.createOne\",\"CoInterviewerAssessment.createMany\",\"CoInterviewerAssessment.createManyAndReturn\",\"CoInterviewerAssessment.updateOne\",\"CoInterviewerAssessment.updateMany\",\"CoInterviewerAssessment.updateManyAndReturn\",\"CoInterviewerAssessment.upsertOne\",\"CoInterviewerAssessment.deleteOne\",\"CoInterviewerAssessment.deleteMany\",\"CoInterviewerAssessment.groupBy\",\"CoInterviewerAssessment.aggregate\",\"GapScore.findUnique\",\"GapScore.findUniqueOrThrow\",\"GapScore.findFirst\",\"GapScore.findFirstOrThrow\",\"GapScore.findMany\",\"GapScore.createOne\",\"GapScore.createMany\",\"GapScore.createManyAndReturn\",\"GapScore.updateOne\",\"GapScore.updateMany\",\"GapScore.updateManyAndReturn\",\"GapScore.upsertOne\",\"GapScore.deleteOne\",\"GapScore.deleteMany\",\"GapScore.groupBy\",\"GapScore.aggregate\",\"PracticeCard.findUnique\",\"PracticeCard.findUniqueOrThrow\",\"PracticeCard.findFirst\",\"PracticeCard.findFirstOrThrow\",\"PracticeCard.findMany\",\"PracticeCard.createOne\",\"PracticeCard.createMany\",\"PracticeCard.createManyAndReturn\",\"PracticeCard.updateOne\",\"PracticeCard.updateMany\",\"PracticeCard.updateManyAndReturn\",\"PracticeCard.upsertOne\",\"PracticeCard.deleteOne\",\"PracticeCard.deleteMany\",\"PracticeCard.groupBy\",\"PracticeCard.aggregate\",\"Settings.findUnique\",\"Settings.findUniqueOrThrow\",\"Settings.findFirst\",\"Settings.findFirstOrThrow\",\"Settings.findMany\",\"Settings.createOne\",\"Settings.createMany\",\"Settings.createManyAndReturn\",\"Settings.updateOne\",\"Settings.updateMany\",\"Settings.updateManyAndReturn\",\"Settings.upsertOne\",\"Settings.deleteOne\",\"Settings.deleteMany\",\"Settings.groupBy\",\"Settings.aggregate\",\"Cohort.findUnique\",\"Cohort.findUniqueOrThrow\",\"Cohort.findFirst\",\"Cohort.findFirstOrThrow\",\"Cohort.findMany\",\"Cohort.createOne\",\"Cohort.createMany\",\"Cohort.createManyAndReturn\",\"Cohort.updateOne\",\"Cohort.updateMany\",\"Cohort.updateManyAndReturn\",\"Cohort.upsertOne\",\"Cohort.deleteOne\",\"Cohort.deleteMany\",\"Cohort.groupBy\",\"Cohort.aggregate\",\"ReadinessPolicy.findUnique\",\"ReadinessPolicy.findUniqueOrThrow\",\"ReadinessPolicy.findFirst\",\"ReadinessPolicy.findFirstOrThrow\",\"ReadinessPolicy.findMany\",\"ReadinessPolicy.createOne\",\"ReadinessPolicy.createMany\",\"ReadinessPolicy.createManyAndReturn\",\"ReadinessPolicy.updateOne\",\"ReadinessPolicy.updateMany\",\"ReadinessPolicy.updateManyAndReturn\",\"ReadinessPolicy.upsertOne\",\"ReadinessPolicy.deleteOne\",\"ReadinessPolicy.deleteMany\",\"ReadinessPolicy.groupBy\",\"ReadinessPolicy.aggregate\",\"CurriculumWeek.findUnique\",\"CurriculumWeek.findUniqueOrThrow\",\"CurriculumWeek.findFirst\",\"CurriculumWeek.findFirstOrThrow\",\"CurriculumWeek.findMany\",\"CurriculumWeek.createOne\",\"CurriculumWeek.createMany\",\"CurriculumWeek.createManyAndReturn\",\"CurriculumWeek.updateOne\",\"CurriculumWeek.updateMany\",\"CurriculumWeek.updateManyAndReturn\",\"CurriculumWeek.upsertOne\",\"CurriculumWeek.deleteOne\",\"CurriculumWeek.deleteMany\",\"CurriculumWeek.groupBy\",\"CurriculumWeek.aggregate\",\"Profile.findUnique\",\"Profile.findUniqueOrThrow\",\"Profile.findFirst\",\"Profile.findFirstOrThrow\",\"Profile.findMany\",\"Profile.createOne\",\"Profile.createMany\",\"Profile.createManyAndReturn\",\"Profile.updateOne\",\"Profile.updateMany\",\"Profile.updateManyAndReturn\",\"Profile.upsertOne\",\"Profile.deleteOne\",\"Profile.deleteMany\",\"Profile.groupBy\",\"Profile.aggregate\",\"ScoringRubric.findUnique\",\"ScoringRubric.findUniqueOrThrow\",\"ScoringRubric.findFirst\",\"ScoringRubric.findFirstOrThrow\",\"ScoringRubric.findMany\",\"ScoringRubric.createOne\",\"ScoringRubric.createMany\",\"ScoringRubric.createManyAndReturn\",\"ScoringRubric.updateOne\",\"ScoringRubric.updateMany\",\"ScoringRubric.updateManyAndReturn\",\"ScoringRubric.upsertOne\",\"ScoringRubric.deleteOne\",\"ScoringRubric.deleteMany\",\"ScoringRubric.groupBy\",\"ScoringRubric.aggregate\",\"RateLimitBucket.findUnique\",\"RateLimitBucket.findUniqueOrThrow\",\"RateLimitBucket.findFirst\",\"RateLimitBucket.findFirstOrThrow\",\"RateLimitBucket.findMany\",\"RateLimitBucket.createOne\",\"RateLimitBucket.createMany\",\"RateLimitBucket.createManyAndReturn\",\"RateLimitBucket.updateOne\",\"RateLimitBucket.updateMany\",\"RateLimitBucket.updateManyAndReturn\",\"RateLimitBucket.upsertOne\",\"RateLimitBucket.deleteOne\",\"RateLimitBucket.deleteMany\",\"RateLimitBucket.groupBy\",\"RateLimitBucket.aggregate\",\"PostgresSandboxRun.findUnique\",\"PostgresSandboxRun.findUniqueOrThrow\",\"PostgresSandboxRun.findFirst\",\"PostgresSandboxRun.findFirstOrThrow\",\"PostgresSandboxRun.findMany\",\"PostgresSandboxRun.createOne\",\"PostgresSandboxRun.createMany\",\"PostgresSandboxRun.createManyAndReturn\",\"PostgresSandboxRun.updateOne\",\"PostgresSandboxRun.updateMany\",\"PostgresSandboxRun.updateManyAndReturn\",\"PostgresSandboxRun.upsertOne\",\"PostgresSandboxRun.deleteOne\",\"PostgresSandboxRun.deleteMany\",\"PostgresSandboxRun.groupBy\",\"PostgresSandboxRun.aggregate\",\"AuthEvent.findUnique\",\"AuthEvent.findUniqueOrThrow\",\"AuthEvent.findFirst\",\"AuthEvent.findFirstOrThrow\",\"AuthEvent.findMany\",\"AuthEvent.createOne\",\"AuthEvent.createMany\",\"AuthEvent.createManyAndReturn\",\"AuthEvent.updateOne\",\"AuthEvent.updateMany\",\"AuthEvent.updateManyAndReturn\",\"AuthEvent.upsertOne\",\"AuthEvent.deleteOne\",\"AuthEvent.deleteMany\",\"AuthEvent.groupBy\",\"AuthEvent.aggregate\",\"AuditEvent.findUnique\",\"AuditEvent.findUniqueOrThrow\",\"AuditEvent.findFirst\",\"AuditEvent.findFirstOrThrow\",\"AuditEvent.findMany\",\"AuditEvent.createOne\",\"AuditEvent.createMany\",\"AuditEvent.createManyAndReturn\",\"AuditEvent.updateOne\",\"AuditEvent.updateMany\",\"AuditEvent.updateManyAndReturn\",\"AuditEvent.upsertOne\",\"AuditEvent.deleteOne\",\"AuditEvent.deleteMany\",\"AuditEvent.groupBy\",\"AuditEvent.aggregate\",\"ErasureRequest.findUnique\",\"ErasureRequest.findUniqueOrThrow\",\"ErasureRequest.findFirst\",\"ErasureRequest.findFirstOrThrow\",\"ErasureRequest.findMany\",\"ErasureRequest.createOne\",\"ErasureRequest.createMany\",\"ErasureRequest.createManyAndReturn\",\"ErasureRequest.updateOne\",\"ErasureRequest.updateMany\",\"ErasureRequest.updateManyAndReturn\",\"ErasureRequest.upsertOne\",\"ErasureRequest.deleteOne\",\"ErasureRequest.deleteMany\",\"ErasureRequest.groupBy\",\"ErasureRequest.aggregate\",\"RetentionPolicy.findUnique\",\"RetentionPolicy.findUniqueOrThrow\",\"RetentionPolicy.findFirst\",\"RetentionPolicy.findFirstOrThrow\",\"RetentionPolicy.findMany\",\"RetentionPolicy.createOne\",\"RetentionPolicy.createMany\",\"RetentionPolicy.createManyAndReturn\",\"RetentionPolicy.updateOne\",\"RetentionPolicy.updateMany\",\"RetentionPolicy.updateManyAndReturn\",\"RetentionPolicy.upsertOne\",\"RetentionPolicy.deleteOne\",\"RetentionPolicy.deleteMany\",\"RetentionPolicy.groupBy\",\"RetentionPolicy.aggregate\",\"CodingChallenge.findUnique\",\"CodingChallenge.findUniqueOrThrow\",\"CodingChallenge.findFirst\",\"CodingChallenge.findFirstOrThrow\",\"CodingChallenge.findMany\",\"CodingChallenge.createOne\",\"CodingChallenge.createMany\",\"CodingChallenge.createManyAndReturn\",\"CodingChallenge.updateOne\",\"CodingChallenge.updateMany\",\"CodingChallenge.updateManyAndReturn\",\"CodingChallenge.upsertOne\",\"CodingChallenge.deleteOne\",\"CodingChallenge.deleteMany\",\"CodingChallenge.groupBy\",\"CodingChallenge.aggregate\",\"CodingAttempt.findUnique\",\"CodingAttempt.findUniqueOrThrow\",\"CodingAttempt.findFirst\",\"CodingAttempt.findFirstOrThrow\",\"CodingAttempt.findMany\",\"CodingAttempt.createOne\",\"CodingAttempt.createMany\",\"CodingAttempt.createManyAndReturn\",\"CodingAttempt.updateOne\",\"CodingAttempt.updateMany\",\"CodingAttempt.updateManyAndReturn\",\"CodingAttempt.upsertOne\",\"CodingAttempt.deleteOne\",\"CodingAttempt.deleteMany\",\"CodingAttempt.groupBy\",\"CodingAttempt.aggregate\",\"CodingAttemptTimeline.findUnique\",\"CodingAttemptTimeline.findUniqueOrThrow\",\"CodingAttemptTimeline.findFirst\",\"CodingAttemptTimeline.findFirstOrThrow\",\"CodingAttemptTimeline.findMany\",\"CodingAttemptTimeline.createOne\",\"CodingAttemptTimeline.createMany\",\"CodingAttemptTimeline.createManyAndReturn\",\"CodingAttemptTimeline.updateOne\",\"CodingAttemptTimeline.updateMany\",\"CodingAttemptTimeline.updateManyAndReturn\",\"CodingAttemptTimeline.upsertOne\",\"CodingAttemptTimeline.deleteOne\",\"CodingAttemptTimeline.deleteMany\",\"CodingAttemptTimeline.groupBy\",\"CodingAttemptTimeline.aggregate\",\"CodingAttemptReview.findUnique\",\"CodingAttemptReview.findUniqueOrThrow\",\"CodingAttemptReview.findFirst\",\"CodingAttemptReview.findFirstOrThrow\",\"CodingAttemptReview.findMany\",\"CodingAttemptReview.createOne\",\"CodingAttemptReview.createMany\",\"CodingAttemptReview.createManyAndReturn\",\"CodingAttemptReview.updateOne\",\"CodingAttemptReview.updateMany\",\"CodingAttemptReview.updateManyAndReturn\",\"CodingAttemptReview.upsertOne\",\"CodingAttemptReview.deleteOne\",\"CodingAttemptReview.deleteMany\",\"CodingAttemptReview.groupBy\",\"CodingAttemptReview.aggregate\",\"CodingTestCase.findUnique\",\"CodingTestCase.findUniqueOrThrow\",\"CodingTestCase.findFirst\",\"CodingTestCase.findFirstOrThrow\",\"CodingTestCase.findMany\",\"CodingTestCase.createOne\",\"CodingTestCase.createMany\",\"CodingTestCase.createManyAndReturn\",\"CodingTestCase.updateOne\",\"CodingTestCase.updateMany\",\"CodingTestCase.updateManyAndReturn\",\"CodingTestCase.upsertOne\",\"CodingTestCase.deleteOne\",\"CodingTestCase.deleteMany\",\"CodingTestCase.groupBy\",\"CodingTestCase.aggregate\",\"CodingSkillSignal.findUnique\",\"CodingSkillSignal.findUniqueOrThrow\",\"CodingSkillSignal.findFirst\",\"CodingSkillSignal.findFirstOrThrow\",\"CodingSkillSignal.findMany\",\"CodingSkillSignal.createOne\",\"CodingSkillSignal.createMany\",\"CodingSkillSignal.createManyAndReturn\",\"CodingSkillSignal.updateOne\",\"CodingSkillSignal.updateMany\",\"CodingSkillSignal.updateManyAndReturn\",\"CodingSkillSignal.upsertOne\",\"CodingSkillSignal.deleteOne\",\"CodingSkillSignal.deleteMany\",\"CodingSkillSignal.groupBy\",\"CodingSkillSignal.aggregate\",\"CodingAssessment.findUnique\",\"CodingAssessment.findUniqueOrThrow\",\"CodingAssessment.findFirst\",\"CodingAssessment.findFirstOrThrow\",\"CodingAssessment.findMany\",\"CodingAssessment.createOne\",\"CodingAssessment.createMany\",\"CodingAssessment.createManyAndReturn\",\"CodingAssessment.updateOne\",\"CodingAssessment.updateMany\",\"CodingAssessment.updateManyAndReturn\",\"CodingAssessment.upsertOne\",\"CodingAssessment.deleteOne\",\"CodingAssessment.deleteMany\",\"CodingAssessment.groupBy\",\"CodingAssessment.aggregate\",\"CodingAssessmentChallenge.findUnique\",\"CodingAssessmentChallenge.findUniqueOrThrow\",\"CodingAssessmentChallenge.findFirst\",\"CodingAssessmentChallenge.findFirstOrThrow\",\"CodingAssessmentChallenge.findMany\",\"CodingAssessmentChallenge.createOne\",\"CodingAssessmentChallenge.createMany\",\"CodingAssessmentChallenge.createManyAndReturn\",\"CodingAssessmentChallenge.updateOne\",\"CodingAssessmentChallenge.updateMany\",\"CodingAssessmentChallenge.updateManyAndReturn\",\"CodingAssessmentChallenge.upsertOne\",\"CodingAssessmentChallenge.deleteOne\",\"CodingAssessmentChallenge.deleteMany\",\"CodingAssessmentChallenge.groupBy\",\"CodingAssessmentChallenge.aggregate\",\"CodingAssessmentSession.findUnique\",\"CodingAssessmentSession.findUniqueOrThrow\",\"CodingAssessmentSession.findFirst\",\"CodingAssessmentSession.findFirstOrThrow\",\"CodingAssessmentSession.findMany\",\"CodingAssessmentSession.createOne\",\"CodingAssessmentSession.createMany\",\"CodingAssessmentSession.createManyAndReturn\",\"CodingAssessmentSession.updateOne\",\"CodingAssessmentSession.updateMany\",\"CodingAssessmentSession.updateManyAndReturn\",\"CodingAssessmentSession.upsertOne\",\"CodingAssessmentSession.deleteOne\",\"CodingAssessmentSession.deleteMany\",\"CodingAssessmentSession.groupBy\",\"CodingAssessmentSession.aggregate\",\"CodingProctorEvent.findUnique\",\"CodingProctorEvent.findUniqueOrThrow\",\"CodingProctorEvent.findFirst\",\"CodingProctorEvent.findFirstOrThrow\",\"CodingProctorEvent.findMany\",\"CodingProctorEvent.createOne\",\"CodingProctorEvent.createMany\",\"CodingProctorEvent.createManyAndReturn\",\"CodingProctorEvent.updateOne\",\"CodingProctorEvent.updateMany\",\"CodingProctorEvent.updateManyAndReturn\",\"CodingProctorEvent.upsertOne\",\"CodingProctorEvent.deleteOne\",\"CodingProctorEvent.deleteMany\",\"CodingProctorEvent.groupBy\",\"CodingProctorEvent.aggregate\",\"AND\",\"OR\",\"NOT\",\"id\",\"sessionId\",\"type\",\"challengeId\",\"chars\",\"occurredAt\",\"createdAt\",\"equals\",\"in\",\"notIn\",\"lt\",\"lte\",\"gt\",\"gte\",\"not\",\"contains\",\"startsWith\",\"endsWith\",\"assessmentId\",\"associateId\",\"startedAt\",\"expiresAt\",\"orderIndex\",\"title\",\"cohortId\",\"opensAt\",\"closesAt\",\"durationMinutes\",\"attemptCap\",\"language\",\"createdBy\",\"updatedAt\",\"attemptId\",\"skillSlug\",\"signalType\",\"weight\",\"mappedScore\",\"isHidden\",\"stdin\",\"expectedStdout\",\"status\",\"model\",\"summary\",\"correctness\",\"complexity\",\"readability\",\"style\",\"error\",\"completedAt\",\"eventCount\",\"durationMs\",\"truncated\",\"string_contains\",\"string_starts_with\",\"string_ends_with\",\"array_starts_with\",\"array_ends_with\",\"array_contains\",\"submittedCode\",\"verdict\",\"visibleTestResults\",\"hiddenTestResults\",\"score\",\"judge0Token\",\"submittedAt\",\"assessmentSessionId\",\"assessmentSeq\",\"codePurgedAt\",\"slug\",\"difficulty\",\"description\",\"entryPoint\",\"starterFiles\",\"sqlDialect\",\"dataClass\",\"retainMonths\",\"updatedBy\",\"associateSlug\",\"reason\",\"reviewedBy\",\"reviewedAt\",\"note\",\"report\",\"actorId\",\"actorEmail\",\"actorRole\",\"action\",\"targetType\",\"targetId\",\"before\",\"after\",\"email\",\"ip\",\"metadata\",\"token\",\"submission\",\"finishedAt\",\"key\",\"state\",\"version\",\"scoringGuidance\",\"summaryGuidance\",\"source\",\"skillSlug_version\",\"authUserId\",\"displayName\",\"githubUsername\",\"bio\",\"learningGoals\",\"passwordSetAt\",\"weekNumber\",\"skillName\",\"topicTags\",\"startDate\",\"has\",\"hasEvery\",\"hasSome\",\"minSessions\",\"trendWindow\",\"threshold\",\"requiredSkills\",\"codingWeight\",\"name\",\"endDate\",\"every\",\"some\",\"none\",\"readinessThreshold\",\"cardKey\",\"skill\",\"topic\",\"question\",\"modelAnswer\",\"keywords\",\"sourceSessionId\",\"sourceScore\",\"easeFactor\",\"intervalDays\",\"repetitions\",\"dueAt\",\"lastReviewedAt\",\"lastGrade\",\"weightedScore\",\"prevWeightedScore\",\"sessionCount\",\"lastUpdated\",\"interviewerEmail\",\"interviewerName\",\"candidateName\",\"date\",\"questionCount\",\"selectedWeeks\",\"overallTechnicalScore\",\"overallSoftSkillScore\",\"technicalFeedback\",\"softSkillFeedback\",\"questions\",\"starterQuestions\",\"techMap\",\"aiTrainerVariance\",\"mode\",\"readinessRecomputeStatus\",\"revision\",\"currentQuestionIndex\",\"draftAssociateSlug\",\"draftUpdatedBy\",\"notesPurgedAt\",\"readinessStatus\",\"recommendedArea\",\"lastComputedAt\",\"readinessExplanation\",\"lastInvitedAt\",\"associateId_cardKey\",\"associateId_skill_topic\",\"challengeId_id\",\"assessmentId_associateId\",\"assessmentId_challengeId\",\"assessmentSessionId_challengeId_assessmentSeq\",\"cohortId_weekNumber\",\"sessionId_interviewerEmail\",\"is\",\"isNot\",\"connectOrCreate\",\"upsert\",\"createMany\",\"set\",\"disconnect\",\"delete\",\"connect\",\"updateMany\",\"deleteMany\",\"push\",\"increment\",\"decrement\",\"multiply\",\"divide\"]"),
+  graph: "2QuXAsADBeYDAAD6BgAw5wMAAAQAEOgDAAD6BgAw6QMCAAAAAe8DQACaBgAhAQAAAAEAIAEAAAABACAF5gMAAPoGADDnAwAABAAQ6AMAAPoGADDpAwIAoQYAIe8DQACaBgAhAAMAAAAEACADAAAFADAEAAABACADAAAABAAgAwAABQAwBAAAAQAgAwAAAAQAIAMAAAUAMAQAAAEAIALpAwIAAAAB7wNAAAAAAQEIAAAJACAC6QMCAAAAAe8DQAAAAAEBCAAACwAwAQgAAAsAMALpAwIAhQcAIe8DQACEBwAhAgAAAAEAIAgAAA4AIALpAwIAhQcAIe8DQACEBwAhAgAAAAQAIAgAABAAIAIAAAAEACAIAAAQACADAAAAAQAgDwAACQAgEAAADgAgAQAAAAEAIAEAAAAEACAFFQAA1QoAIBYAANYKACAXAADZCgAgGAAA2AoAIBkAANcKACAF5gMAAPkGADDnAwAAFwAQ6AMAAPkGADDpAwIA9QUAIe8DQAD5BQAhAwAAAAQAIAMAABYAMBQAABcAIAMAAAAEACADAAAFADAEAAABACAWHgAA7AYAICEAAMUGACAyAAD3BgAgMwAA4QYAIDQAAPgGACA1AADYBgAg5gMAAPYGADDnAwAAHgAQ6AMAAPYGADDpAwIAAAAB7wNAAJoGACGBBAIAqwYAIYgEQACaBgAhrQQBAAAAAcQEAQAAAAHRBAEAAAAB0gQBAJkGACGQBQEAmQYAIZEFAQCZBgAhkgVAAJsGACGTBQAArgYAIJQFQACbBgAhAQAAABoAIBAcAADEBgAgIQAAxQYAICIAAMYGACAvAADHBgAgMAAAyAYAIDEAAMkGACDmAwAAwwYAMOcDAAAcABDoAwAAwwYAMOkDAgChBgAh7wNAAJoGACGIBEAAmgYAIa8EAQCZBgAh2gRAAJoGACHjBAEAjQYAIeQEQACbBgAhAQAAABwAIBYeAADsBgAgIQAAxQYAIDIAAPcGACAzAADhBgAgNAAA-AYAIDUAANgGACDmAwAA9gYAMOcDAAAeABDoAwAA9gYAMOkDAgChBgAh7wNAAJoGACGBBAIAqwYAIYgEQACaBgAhrQQBAI0GACHEBAEAmQYAIdEEAQCZBgAh0gQBAJkGACGQBQEAmQYAIZEFAQCZBgAhkgVAAJsGACGTBQAArgYAIJQFQACbBgAhDx4AAPcIACAhAACaCgAgMgAA0woAIDMAAMsKACA0AADUCgAgNQAAxwoAIIEEAAD7BgAgxAQAAPsGACDRBAAA-wYAINIEAAD7BgAgkAUAAPsGACCRBQAA-wYAIJIFAAD7BgAgkwUAAPsGACCUBQAA-wYAIAMAAAAeACADAAAfADAEAAAaACAhHQAA9AYAIB4AAOwGACAgAAD1BgAgLgAAoAYAIOYDAADzBgAw5wMAACEAEOgDAADzBgAw6QMBAI0GACHvA0AAmgYAIfwDAgCrBgAhgQQCAKsGACGIBEAAmgYAIZEEAQCNBgAh_AQBAJkGACH9BAEAmQYAIf4EAQCNBgAh_wQCAKEGACGABQAAoAYAIIEFCADABgAhggUIAMAGACGDBQEAmQYAIYQFAQCZBgAhhQUAAKAGACCGBQAAoAYAIIcFAACuBgAgiAUIAMAGACGJBQEAjQYAIYoFAQCNBgAhiwUCAKEGACGMBQIAoQYAIY0FAQCZBgAhjgUBAJkGACGPBUAAmwYAIRAdAADFCgAgHgAA9wgAICAAANIKACD8AwAA-wYAIIEEAAD7BgAg_AQAAPsGACD9BAAA-wYAIIEFAAD7BgAgggUAAPsGACCDBQAA-wYAIIQFAAD7BgAghwUAAPsGACCIBQAA-wYAII0FAAD7BgAgjgUAAPsGACCPBQAA-wYAICEdAAD0BgAgHgAA7AYAICAAAPUGACAuAACgBgAg5gMAAPMGADDnAwAAIQAQ6AMAAPMGADDpAwEAAAAB7wNAAJoGACH8AwIAqwYAIYEEAgCrBgAhiARAAJoGACGRBAEAjQYAIfwEAQCZBgAh_QQBAJkGACH-BAEAjQYAIf8EAgChBgAhgAUAAKAGACCBBQgAwAYAIYIFCADABgAhgwUBAJkGACGEBQEAmQYAIYUFAACgBgAghgUAAKAGACCHBQAArgYAIIgFCADABgAhiQUBAI0GACGKBQEAjQYAIYsFAgChBgAhjAUCAKEGACGNBQEAmQYAIY4FAQCZBgAhjwVAAJsGACEDAAAAIQAgAwAAIgAwBAAAIwAgAQAAAB4AIAEAAAAcACALHwAA8gYAIC4AAKAGACDmAwAA8QYAMOcDAAAnABDoAwAA8QYAMOkDAgChBgAh6gMBAI0GACHvA0AAmgYAIYgEQACaBgAh-wQBAI0GACH8BAEAmQYAIQIfAADRCgAg_AQAAPsGACAMHwAA8gYAIC4AAKAGACDmAwAA8QYAMOcDAAAnABDoAwAA8QYAMOkDAgAAAAHqAwEAjQYAIe8DQACaBgAhiARAAJoGACH7BAEAjQYAIfwEAQCZBgAhnAUAAPAGACADAAAAJwAgAwAAKAAwBAAAKQAgAQAAACcAIAseAADBBgAg5gMAAO8GADDnAwAALAAQ6AMAAO8GADDpAwIAoQYAIYEEAgChBgAhigQBAI0GACHXBAIAoQYAIdgEAQCNBgAh2QQAAL0GACDaBEAAmgYAIQEeAAD3CAAgDB4AAMEGACDmAwAA7wYAMOcDAAAsABDoAwAA7wYAMOkDAgAAAAGBBAIAoQYAIYoEAQCNBgAh1wQCAKEGACHYBAEAjQYAIdkEAAC9BgAg2gRAAJoGACGbBQAA7gYAIAMAAAAsACADAAAtADAEAAAuACAUHgAA7AYAICgAAOEGACAtAADtBgAgLgAA1wYAIOYDAADrBgAw5wMAADAAEOgDAADrBgAw6QMBAI0GACHvA0AAmgYAIYAEAQCNBgAhgQQCAKsGACGGBAEAjQYAIYgEQACaBgAhigQBAI0GACGtBAEAjQYAIa4EAQCNBgAhrwQBAI0GACGwBAAArgYAILEEAACuBgAgsgQBAJkGACEIHgAA9wgAICgAAMsKACAtAADQCgAgLgAAxgoAIIEEAAD7BgAgsAQAAPsGACCxBAAA-wYAILIEAAD7BgAgFB4AAOwGACAoAADhBgAgLQAA7QYAIC4AANcGACDmAwAA6wYAMOcDAAAwABDoAwAA6wYAMOkDAQAAAAHvA0AAmgYAIYAEAQCNBgAhgQQCAKsGACGGBAEAjQYAIYgEQACaBgAhigQBAI0GACGtBAEAAAABrgQBAI0GACGvBAEAjQYAIbAEAACuBgAgsQQAAK4GACCyBAEAmQYAIQMAAAAwACADAAAxADAEAAAyACABAAAAHAAgGB0AANMGACAjAADbBgAgJQAA5wYAICoAAOgGACArAADpBgAgLAAA6gYAIOYDAADmBgAw5wMAADUAEOgDAADmBgAw6QMBAI0GACHsAwEAjQYAIfwDAgChBgAhhgQBAI0GACGZBEAAmwYAIaMEAQCNBgAhpAQBAI0GACGlBAAAoAYAIKYEAACgBgAgpwQIAMAGACGoBAEAmQYAIakEQACaBgAhqgQBAJkGACGrBAIAqwYAIawEQACbBgAhDB0AAMUKACAjAADICgAgJQAAzQoAICoAAMkKACArAADOCgAgLAAAzwoAIJkEAAD7BgAgpwQAAPsGACCoBAAA-wYAIKoEAAD7BgAgqwQAAPsGACCsBAAA-wYAIBkdAADTBgAgIwAA2wYAICUAAOcGACAqAADoBgAgKwAA6QYAICwAAOoGACDmAwAA5gYAMOcDAAA1ABDoAwAA5gYAMOkDAQAAAAHsAwEAjQYAIfwDAgChBgAhhgQBAI0GACGZBEAAmwYAIaMEAQCNBgAhpAQBAI0GACGlBAAAoAYAIKYEAACgBgAgpwQIAMAGACGoBAEAmQYAIakEQACaBgAhqgQBAJkGACGrBAIAqwYAIawEQACbBgAhmgUAAOUGACADAAAANQAgAwAANgAwBAAANwAgCiQAAI8GACDmAwAAjAYAMOcDAAA5ABDoAwAAjAYAMOkDAQCNBgAhiQQBAI0GACGKBAEAjQYAIYsEAQCNBgAhjAQIAI4GACGNBAgAjgYAIQEAAAA5ACAMHQAA0wYAICYAAOAGACAoAADhBgAgKQAA4gYAIOYDAADfBgAw5wMAADsAEOgDAADfBgAw6QMBAI0GACH7AwEAjQYAIfwDAgChBgAh_QNAAJoGACH-A0AAmgYAIQEAAAA7ACAIIwAA2wYAICYAAOAGACDmAwAA5AYAMOcDAAA9ABDoAwAA5AYAMOwDAQCNBgAh-wMBAI0GACH_AwIAoQYAIQIjAADICgAgJgAAygoAIAkjAADbBgAgJgAA4AYAIOYDAADkBgAw5wMAAD0AEOgDAADkBgAw7AMBAI0GACH7AwEAjQYAIf8DAgChBgAhmQUAAOMGACADAAAAPQAgAwAAPgAwBAAAPwAgBB0AAMUKACAmAADKCgAgKAAAywoAICkAAMwKACANHQAA0wYAICYAAOAGACAoAADhBgAgKQAA4gYAIOYDAADfBgAw5wMAADsAEOgDAADfBgAw6QMBAAAAAfsDAQCNBgAh_AMCAKEGACH9A0AAmgYAIf4DQACaBgAhmAUAAN4GACADAAAAOwAgAwAAQQAwBAAAQgAgAQAAAD0AIAEAAAA7ACADAAAANQAgAwAANgAwBAAANwAgCx8AAN0GACDmAwAA3AYAMOcDAABHABDoAwAA3AYAMOkDAgChBgAh6gMBAI0GACHrAwEAjQYAIewDAQCZBgAh7QMCAKsGACHuA0AAmgYAIe8DQACaBgAhAx8AAMkKACDsAwAA-wYAIO0DAAD7BgAgCx8AAN0GACDmAwAA3AYAMOcDAABHABDoAwAA3AYAMOkDAgAAAAHqAwEAjQYAIesDAQCNBgAh7AMBAJkGACHtAwIAqwYAIe4DQACaBgAh7wNAAJoGACEDAAAARwAgAwAASAAwBAAASQAgAQAAADUAIAEAAABHACAKJAAAjwYAICsAAKAGACDmAwAAnwYAMOcDAABNABDoAwAAnwYAMO8DQACaBgAhiQQBAI0GACGaBAIAoQYAIZsEAgChBgAhnAQgAKIGACEBAAAATQAgDyQAAI8GACDmAwAAmAYAMOcDAABPABDoAwAAmAYAMO8DQACaBgAhiQQBAI0GACGRBAEAjQYAIZIEAQCZBgAhkwQBAJkGACGUBAEAmQYAIZUEAQCZBgAhlgQBAJkGACGXBAEAmQYAIZgEAQCZBgAhmQRAAJsGACEBAAAATwAgCyMAANsGACDmAwAA2gYAMOcDAABRABDoAwAA2gYAMOkDAQCNBgAh7AMBAI0GACH_AwIAoQYAIYwECACOBgAhjgQgAKIGACGPBAEAjQYAIZAEAQCNBgAhASMAAMgKACAMIwAA2wYAIOYDAADaBgAw5wMAAFEAEOgDAADaBgAw6QMBAAAAAewDAQCNBgAh_wMCAKEGACGMBAgAjgYAIY4EIACiBgAhjwQBAI0GACGQBAEAjQYAIZcFAADZBgAgAwAAAFEAIAMAAFIAMAQAAFMAIAMAAAA9ACADAAA-ADAEAAA_ACABAAAANQAgAQAAAFEAIAEAAAA9ACANHgAAwQYAIOYDAAC_BgAw5wMAAFkAEOgDAAC_BgAw6QMCAKEGACHvA0AAmgYAIYEEAgChBgAhiARAAJoGACHeBAIAoQYAId8EAgChBgAh4AQIAMAGACHhBAAAvQYAIOIECACOBgAhAQAAAFkAIBEeAADBBgAgIQAA2AYAICcAANcGACDmAwAA1gYAMOcDAABbABDoAwAA1gYAMOkDAQCNBgAh7wNAAJoGACGABAEAjQYAIYEEAgChBgAhggRAAJoGACGDBEAAmgYAIYQEAgChBgAhhQQCAKEGACGGBAEAmQYAIYcEAQCZBgAhiARAAJoGACEFHgAA9wgAICEAAMcKACAnAADGCgAghgQAAPsGACCHBAAA-wYAIBEeAADBBgAgIQAA2AYAICcAANcGACDmAwAA1gYAMOcDAABbABDoAwAA1gYAMOkDAQAAAAHvA0AAmgYAIYAEAQCNBgAhgQQCAKEGACGCBEAAmgYAIYMEQACaBgAhhAQCAKEGACGFBAIAoQYAIYYEAQCZBgAhhwQBAJkGACGIBEAAmgYAIQMAAABbACADAABcADAEAABdACABAAAAHgAgAQAAACEAIAEAAAAsACABAAAAMAAgAQAAAFsAIAMAAAAhACADAAAiADAEAAAjACAMHQAA0wYAIOYDAADVBgAw5wMAAGUAEOgDAADVBgAw6QMBAI0GACH8AwIAoQYAIeoEAQCNBgAh6wQBAI0GACH3BAgAjgYAIfgECADABgAh-QQCAKEGACH6BEAAmgYAIQIdAADFCgAg-AQAAPsGACANHQAA0wYAIOYDAADVBgAw5wMAAGUAEOgDAADVBgAw6QMBAAAAAfwDAgChBgAh6gQBAI0GACHrBAEAjQYAIfcECACOBgAh-AQIAMAGACH5BAIAoQYAIfoEQACaBgAhlgUAANQGACADAAAAZQAgAwAAZgAwBAAAZwAgAwAAADUAIAMAADYAMAQAADcAIBYdAADTBgAg5gMAANIGADDnAwAAagAQ6AMAANIGADDpAwIAoQYAIe8DQACaBgAh_AMCAKEGACGIBEAAmgYAIekEAQCNBgAh6gQBAI0GACHrBAEAjQYAIewEAQCNBgAh7QQBAI0GACHuBAAAoAYAIO8EAQCNBgAh8AQIAI4GACHxBAgAjgYAIfIEAgChBgAh8wQCAKEGACH0BEAAmgYAIfUEQACbBgAh9gQCAKsGACEDHQAAxQoAIPUEAAD7BgAg9gQAAPsGACAXHQAA0wYAIOYDAADSBgAw5wMAAGoAEOgDAADSBgAw6QMCAAAAAe8DQACaBgAh_AMCAKEGACGIBEAAmgYAIekEAQCNBgAh6gQBAI0GACHrBAEAjQYAIewEAQCNBgAh7QQBAI0GACHuBAAAoAYAIO8EAQCNBgAh8AQIAI4GACHxBAgAjgYAIfIEAgChBgAh8wQCAKEGACH0BEAAmgYAIfUEQACbBgAh9gQCAKsGACGVBQAA0QYAIAMAAABqACADAABrADAEAABsACADAAAAOwAgAwAAQQAwBAAAQgAgAQAAACEAIAEAAABlACABAAAANQAgAQAAAGoAIAEAAAA7ACABAAAAGgAgAwAAAB4AIAMAAB8AMAQAABoAIAMAAAAeACADAAAfADAEAAAaACADAAAAHgAgAwAAHwAwBAAAGgAgEx4AAMQKACAhAACOCgAgMgAAjwoAIDMAAJAKACA0AACRCgAgNQAAkgoAIOkDAgAAAAHvA0AAAAABgQQCAAAAAYgEQAAAAAGtBAEAAAABxAQBAAAAAdEEAQAAAAHSBAEAAAABkAUBAAAAAZEFAQAAAAGSBUAAAAABkwWAAAAAAZQFQAAAAAEBCAAAeAAgDekDAgAAAAHvA0AAAAABgQQCAAAAAYgEQAAAAAGtBAEAAAABxAQBAAAAAdEEAQAAAAHSBAEAAAABkAUBAAAAAZEFAQAAAAGSBUAAAAABkwWAAAAAAZQFQAAAAAEBCAAAegAwAQgAAHoAMAEAAAAcACATHgAAwwoAICEAANMJACAyAADUCQAgMwAA1QkAIDQAANYJACA1AADXCQAg6QMCAIUHACHvA0AAhAcAIYEEAgCDBwAhiARAAIQHACGtBAEAgQcAIcQEAQCCBwAh0QQBAIIHACHSBAEAggcAIZAFAQCCBwAhkQUBAIIHACGSBUAAqAcAIZMFgAAAAAGUBUAAqAcAIQIAAAAaACAIAAB-ACAN6QMCAIUHACHvA0AAhAcAIYEEAgCDBwAhiARAAIQHACGtBAEAgQcAIcQEAQCCBwAh0QQBAIIHACHSBAEAggcAIZAFAQCCBwAhkQUBAIIHACGSBUAAqAcAIZMFgAAAAAGUBUAAqAcAIQIAAAAeACAIAACAAQAgAgAAAB4AIAgAAIABACABAAAAHAAgAwAAABoAIA8AAHgAIBAAAH4AIAEAAAAaACABAAAAHgAgDhUAAL4KACAWAAC_CgAgFwAAwgoAIBgAAMEKACAZAADACgAggQQAAPsGACDEBAAA-wYAINEEAAD7BgAg0gQAAPsGACCQBQAA-wYAIJEFAAD7BgAgkgUAAPsGACCTBQAA-wYAIJQFAAD7BgAgEOYDAADQBgAw5wMAAIgBABDoAwAA0AYAMOkDAgD1BQAh7wNAAPkFACGBBAIA-AUAIYgEQAD5BQAhrQQBAPYFACHEBAEA9wUAIdEEAQD3BQAh0gQBAPcFACGQBQEA9wUAIZEFAQD3BQAhkgVAAJUGACGTBQAApwYAIJQFQACVBgAhAwAAAB4AIAMAAIcBADAUAACIAQAgAwAAAB4AIAMAAB8AMAQAABoAIAEAAAAjACABAAAAIwAgAwAAACEAIAMAACIAMAQAACMAIAMAAAAhACADAAAiADAEAAAjACADAAAAIQAgAwAAIgAwBAAAIwAgHh0AAMYJACAeAACMCgAgIAAAxwkAIC6AAAAAAekDAQAAAAHvA0AAAAAB_AMCAAAAAYEEAgAAAAGIBEAAAAABkQQBAAAAAfwEAQAAAAH9BAEAAAAB_gQBAAAAAf8EAgAAAAGABYAAAAABgQUIAAAAAYIFCAAAAAGDBQEAAAABhAUBAAAAAYUFgAAAAAGGBYAAAAABhwWAAAAAAYgFCAAAAAGJBQEAAAABigUBAAAAAYsFAgAAAAGMBQIAAAABjQUBAAAAAY4FAQAAAAGPBUAAAAABAQgAAJABACAbLoAAAAAB6QMBAAAAAe8DQAAAAAH8AwIAAAABgQQCAAAAAYgEQAAAAAGRBAEAAAAB_AQBAAAAAf0EAQAAAAH-BAEAAAAB_wQCAAAAAYAFgAAAAAGBBQgAAAABggUIAAAAAYMFAQAAAAGEBQEAAAABhQWAAAAAAYYFgAAAAAGHBYAAAAABiAUIAAAAAYkFAQAAAAGKBQEAAAABiwUCAAAAAYwFAgAAAAGNBQEAAAABjgUBAAAAAY8FQAAAAAEBCAAAkgEAMAEIAACSAQAwAQAAAB4AIAEAAAAcACAeHQAAtwkAIB4AAIoKACAgAAC4CQAgLoAAAAAB6QMBAIEHACHvA0AAhAcAIfwDAgCDBwAhgQQCAIMHACGIBEAAhAcAIZEEAQCBBwAh_AQBAIIHACH9BAEAggcAIf4EAQCBBwAh_wQCAIUHACGABYAAAAABgQUIAKcHACGCBQgApwcAIYMFAQCCBwAhhAUBAIIHACGFBYAAAAABhgWAAAAAAYcFgAAAAAGIBQgApwcAIYkFAQCBBwAhigUBAIEHACGLBQIAhQcAIYwFAgCFBwAhjQUBAIIHACGOBQEAggcAIY8FQACoBwAhAgAAACMAIAgAAJcBACAbLoAAAAAB6QMBAIEHACHvA0AAhAcAIfwDAgCDBwAhgQQCAIMHACGIBEAAhAcAIZEEAQCBBwAh_AQBAIIHACH9BAEAggcAIf4EAQCBBwAh_wQCAIUHACGABYAAAAABgQUIAKcHACGCBQgApwcAIYMFAQCCBwAhhAUBAIIHACGFBYAAAAABhgWAAAAAAYcFgAAAAAGIBQgApwcAIYkFAQCBBwAhigUBAIEHACGLBQIAhQcAIYwFAgCFBwAhjQUBAIIHACGOBQEAggcAIY8FQACoBwAhAgAAACEAIAgAAJkBACACAAAAIQAgCAAAmQEAIAEAAAAeACABAAAAHAAgAwAAACMAIA8AAJABACAQAACXAQAgAQAAACMAIAEAAAAhACASFQAAuQoAIBYAALoKACAXAAC9CgAgGAAAvAoAIBkAALsKACD8AwAA-wYAIIEEAAD7BgAg_AQAAPsGACD9BAAA-wYAIIEFAAD7BgAgggUAAPsGACCDBQAA-wYAIIQFAAD7BgAghwUAAPsGACCIBQAA-wYAII0FAAD7BgAgjgUAAPsGACCPBQAA-wYAIB4uAACdBgAg5gMAAM8GADDnAwAAogEAEOgDAADPBgAw6QMBAPYFACHvA0AA-QUAIfwDAgD4BQAhgQQCAPgFACGIBEAA-QUAIZEEAQD2BQAh_AQBAPcFACH9BAEA9wUAIf4EAQD2BQAh_wQCAPUFACGABQAAnQYAIIEFCACkBgAhggUIAKQGACGDBQEA9wUAIYQFAQD3BQAhhQUAAJ0GACCGBQAAnQYAIIcFAACnBgAgiAUIAKQGACGJBQEA9gUAIYoFAQD2BQAhiwUCAPUFACGMBQIA9QUAIY0FAQD3BQAhjgUBAPcFACGPBUAAlQYAIQMAAAAhACADAAChAQAwFAAAogEAIAMAAAAhACADAAAiADAEAAAjACABAAAAKQAgAQAAACkAIAMAAAAnACADAAAoADAEAAApACADAAAAJwAgAwAAKAAwBAAAKQAgAwAAACcAIAMAACgAMAQAACkAIAgfAAC4CgAgLoAAAAAB6QMCAAAAAeoDAQAAAAHvA0AAAAABiARAAAAAAfsEAQAAAAH8BAEAAAABAQgAAKoBACAHLoAAAAAB6QMCAAAAAeoDAQAAAAHvA0AAAAABiARAAAAAAfsEAQAAAAH8BAEAAAABAQgAAKwBADABCAAArAEAMAgfAAC3CgAgLoAAAAAB6QMCAIUHACHqAwEAgQcAIe8DQACEBwAhiARAAIQHACH7BAEAgQcAIfwEAQCCBwAhAgAAACkAIAgAAK8BACAHLoAAAAAB6QMCAIUHACHqAwEAgQcAIe8DQACEBwAhiARAAIQHACH7BAEAgQcAIfwEAQCCBwAhAgAAACcAIAgAALEBACACAAAAJwAgCAAAsQEAIAMAAAApACAPAACqAQAgEAAArwEAIAEAAAApACABAAAAJwAgBhUAALIKACAWAACzCgAgFwAAtgoAIBgAALUKACAZAAC0CgAg_AQAAPsGACAKLgAAnQYAIOYDAADOBgAw5wMAALgBABDoAwAAzgYAMOkDAgD1BQAh6gMBAPYFACHvA0AA-QUAIYgEQAD5BQAh-wQBAPYFACH8BAEA9wUAIQMAAAAnACADAAC3AQAwFAAAuAEAIAMAAAAnACADAAAoADAEAAApACABAAAAZwAgAQAAAGcAIAMAAABlACADAABmADAEAABnACADAAAAZQAgAwAAZgAwBAAAZwAgAwAAAGUAIAMAAGYAMAQAAGcAIAkdAACxCgAg6QMBAAAAAfwDAgAAAAHqBAEAAAAB6wQBAAAAAfcECAAAAAH4BAgAAAAB-QQCAAAAAfoEQAAAAAEBCAAAwAEAIAjpAwEAAAAB_AMCAAAAAeoEAQAAAAHrBAEAAAAB9wQIAAAAAfgECAAAAAH5BAIAAAAB-gRAAAAAAQEIAADCAQAwAQgAAMIBADAJHQAAsAoAIOkDAQCBBwAh_AMCAIUHACHqBAEAgQcAIesEAQCBBwAh9wQIAL8HACH4BAgApwcAIfkEAgCFBwAh-gRAAIQHACECAAAAZwAgCAAAxQEAIAjpAwEAgQcAIfwDAgCFBwAh6gQBAIEHACHrBAEAgQcAIfcECAC_BwAh-AQIAKcHACH5BAIAhQcAIfoEQACEBwAhAgAAAGUAIAgAAMcBACACAAAAZQAgCAAAxwEAIAMAAABnACAPAADAAQAgEAAAxQEAIAEAAABnACABAAAAZQAgBhUAAKsKACAWAACsCgAgFwAArwoAIBgAAK4KACAZAACtCgAg-AQAAPsGACAL5gMAAM0GADDnAwAAzgEAEOgDAADNBgAw6QMBAPYFACH8AwIA9QUAIeoEAQD2BQAh6wQBAPYFACH3BAgAigYAIfgECACkBgAh-QQCAPUFACH6BEAA-QUAIQMAAABlACADAADNAQAwFAAAzgEAIAMAAABlACADAABmADAEAABnACABAAAAbAAgAQAAAGwAIAMAAABqACADAABrADAEAABsACADAAAAagAgAwAAawAwBAAAbAAgAwAAAGoAIAMAAGsAMAQAAGwAIBMdAACqCgAg6QMCAAAAAe8DQAAAAAH8AwIAAAABiARAAAAAAekEAQAAAAHqBAEAAAAB6wQBAAAAAewEAQAAAAHtBAEAAAAB7gSAAAAAAe8EAQAAAAHwBAgAAAAB8QQIAAAAAfIEAgAAAAHzBAIAAAAB9ARAAAAAAfUEQAAAAAH2BAIAAAABAQgAANYBACAS6QMCAAAAAe8DQAAAAAH8AwIAAAABiARAAAAAAekEAQAAAAHqBAEAAAAB6wQBAAAAAewEAQAAAAHtBAEAAAAB7gSAAAAAAe8EAQAAAAHwBAgAAAAB8QQIAAAAAfIEAgAAAAHzBAIAAAAB9ARAAAAAAfUEQAAAAAH2BAIAAAABAQgAANgBADABCAAA2AEAMBMdAACpCgAg6QMCAIUHACHvA0AAhAcAIfwDAgCFBwAhiARAAIQHACHpBAEAgQcAIeoEAQCBBwAh6wQBAIEHACHsBAEAgQcAIe0EAQCBBwAh7gSAAAAAAe8EAQCBBwAh8AQIAL8HACHxBAgAvwcAIfIEAgCFBwAh8wQCAIUHACH0BEAAhAcAIfUEQACoBwAh9gQCAIMHACECAAAAbAAgCAAA2wEAIBLpAwIAhQcAIe8DQACEBwAh_AMCAIUHACGIBEAAhAcAIekEAQCBBwAh6gQBAIEHACHrBAEAgQcAIewEAQCBBwAh7QQBAIEHACHuBIAAAAAB7wQBAIEHACHwBAgAvwcAIfEECAC_BwAh8gQCAIUHACHzBAIAhQcAIfQEQACEBwAh9QRAAKgHACH2BAIAgwcAIQIAAABqACAIAADdAQAgAgAAAGoAIAgAAN0BACADAAAAbAAgDwAA1gEAIBAAANsBACABAAAAbAAgAQAAAGoAIAcVAACkCgAgFgAApQoAIBcAAKgKACAYAACnCgAgGQAApgoAIPUEAAD7BgAg9gQAAPsGACAV5gMAAMwGADDnAwAA5AEAEOgDAADMBgAw6QMCAPUFACHvA0AA-QUAIfwDAgD1BQAhiARAAPkFACHpBAEA9gUAIeoEAQD2BQAh6wQBAPYFACHsBAEA9gUAIe0EAQD2BQAh7gQAAJ0GACDvBAEA9gUAIfAECACKBgAh8QQIAIoGACHyBAIA9QUAIfMEAgD1BQAh9ARAAPkFACH1BEAAlQYAIfYEAgD4BQAhAwAAAGoAIAMAAOMBADAUAADkAQAgAwAAAGoAIAMAAGsAMAQAAGwAIAbmAwAAywYAMOcDAADqAQAQ6AMAAMsGADDpAwIAAAABiARAAJoGACHoBAgAjgYAIQEAAADnAQAgAQAAAOcBACAG5gMAAMsGADDnAwAA6gEAEOgDAADLBgAw6QMCAKEGACGIBEAAmgYAIegECACOBgAhAAMAAADqAQAgAwAA6wEAMAQAAOcBACADAAAA6gEAIAMAAOsBADAEAADnAQAgAwAAAOoBACADAADrAQAwBAAA5wEAIAPpAwIAAAABiARAAAAAAegECAAAAAEBCAAA7wEAIAPpAwIAAAABiARAAAAAAegECAAAAAEBCAAA8QEAMAEIAADxAQAwA-kDAgCFBwAhiARAAIQHACHoBAgAvwcAIQIAAADnAQAgCAAA9AEAIAPpAwIAhQcAIYgEQACEBwAh6AQIAL8HACECAAAA6gEAIAgAAPYBACACAAAA6gEAIAgAAPYBACADAAAA5wEAIA8AAO8BACAQAAD0AQAgAQAAAOcBACABAAAA6gEAIAUVAACfCgAgFgAAoAoAIBcAAKMKACAYAACiCgAgGQAAoQoAIAbmAwAAygYAMOcDAAD9AQAQ6AMAAMoGADDpAwIA9QUAIYgEQAD5BQAh6AQIAIoGACEDAAAA6gEAIAMAAPwBADAUAAD9AQAgAwAAAOoBACADAADrAQAwBAAA5wEAIBAcAADEBgAgIQAAxQYAICIAAMYGACAvAADHBgAgMAAAyAYAIDEAAMkGACDmAwAAwwYAMOcDAAAcABDoAwAAwwYAMOkDAgAAAAHvA0AAmgYAIYgEQACaBgAhrwQBAJkGACHaBEAAmgYAIeMEAQCNBgAh5ARAAJsGACEBAAAAgAIAIAEAAACAAgAgCBwAAJkKACAhAACaCgAgIgAAmwoAIC8AAJwKACAwAACdCgAgMQAAngoAIK8EAAD7BgAg5AQAAPsGACADAAAAHAAgAwAAgwIAMAQAAIACACADAAAAHAAgAwAAgwIAMAQAAIACACADAAAAHAAgAwAAgwIAMAQAAIACACANHAAAkwoAICEAAJQKACAiAACVCgAgLwAAlgoAIDAAAJcKACAxAACYCgAg6QMCAAAAAe8DQAAAAAGIBEAAAAABrwQBAAAAAdoEQAAAAAHjBAEAAAAB5ARAAAAAAQEIAACHAgAgB-kDAgAAAAHvA0AAAAABiARAAAAAAa8EAQAAAAHaBEAAAAAB4wQBAAAAAeQEQAAAAAEBCAAAiQIAMAEIAACJAgAwDRwAAP0IACAhAAD-CAAgIgAA_wgAIC8AAIAJACAwAACBCQAgMQAAggkAIOkDAgCFBwAh7wNAAIQHACGIBEAAhAcAIa8EAQCCBwAh2gRAAIQHACHjBAEAgQcAIeQEQACoBwAhAgAAAIACACAIAACMAgAgB-kDAgCFBwAh7wNAAIQHACGIBEAAhAcAIa8EAQCCBwAh2gRAAIQHACHjBAEAgQcAIeQEQACoBwAhAgAAABwAIAgAAI4CACACAAAAHAAgCAAAjgIAIAMAAACAAgAgDwAAhwIAIBAAAIwCACABAAAAgAIAIAEAAAAcACAHFQAA-AgAIBYAAPkIACAXAAD8CAAgGAAA-wgAIBkAAPoIACCvBAAA-wYAIOQEAAD7BgAgCuYDAADCBgAw5wMAAJUCABDoAwAAwgYAMOkDAgD1BQAh7wNAAPkFACGIBEAA-QUAIa8EAQD3BQAh2gRAAPkFACHjBAEA9gUAIeQEQACVBgAhAwAAABwAIAMAAJQCADAUAACVAgAgAwAAABwAIAMAAIMCADAEAACAAgAgDR4AAMEGACDmAwAAvwYAMOcDAABZABDoAwAAvwYAMOkDAgAAAAHvA0AAmgYAIYEEAgAAAAGIBEAAmgYAId4EAgChBgAh3wQCAKEGACHgBAgAwAYAIeEEAAC9BgAg4gQIAI4GACEBAAAAmAIAIAEAAACYAgAgAh4AAPcIACDgBAAA-wYAIAMAAABZACADAACbAgAwBAAAmAIAIAMAAABZACADAACbAgAwBAAAmAIAIAMAAABZACADAACbAgAwBAAAmAIAIAoeAAD2CAAg6QMCAAAAAe8DQAAAAAGBBAIAAAABiARAAAAAAd4EAgAAAAHfBAIAAAAB4AQIAAAAAeEEAAD1CAAg4gQIAAAAAQEIAACfAgAgCekDAgAAAAHvA0AAAAABgQQCAAAAAYgEQAAAAAHeBAIAAAAB3wQCAAAAAeAECAAAAAHhBAAA9QgAIOIECAAAAAEBCAAAoQIAMAEIAAChAgAwCh4AAPQIACDpAwIAhQcAIe8DQACEBwAhgQQCAIUHACGIBEAAhAcAId4EAgCFBwAh3wQCAIUHACHgBAgApwcAIeEEAADzCAAg4gQIAL8HACECAAAAmAIAIAgAAKQCACAJ6QMCAIUHACHvA0AAhAcAIYEEAgCFBwAhiARAAIQHACHeBAIAhQcAId8EAgCFBwAh4AQIAKcHACHhBAAA8wgAIOIECAC_BwAhAgAAAFkAIAgAAKYCACACAAAAWQAgCAAApgIAIAMAAACYAgAgDwAAnwIAIBAAAKQCACABAAAAmAIAIAEAAABZACAGFQAA7ggAIBYAAO8IACAXAADyCAAgGAAA8QgAIBkAAPAIACDgBAAA-wYAIAzmAwAAvgYAMOcDAACtAgAQ6AMAAL4GADDpAwIA9QUAIe8DQAD5BQAhgQQCAPUFACGIBEAA-QUAId4EAgD1BQAh3wQCAPUFACHgBAgApAYAIeEEAAC9BgAg4gQIAIoGACEDAAAAWQAgAwAArAIAMBQAAK0CACADAAAAWQAgAwAAmwIAMAQAAJgCACABAAAALgAgAQAAAC4AIAMAAAAsACADAAAtADAEAAAuACADAAAALAAgAwAALQAwBAAALgAgAwAAACwAIAMAAC0AMAQAAC4AIAgeAADtCAAg6QMCAAAAAYEEAgAAAAGKBAEAAAAB1wQCAAAAAdgEAQAAAAHZBAAA7AgAINoEQAAAAAEBCAAAtQIAIAfpAwIAAAABgQQCAAAAAYoEAQAAAAHXBAIAAAAB2AQBAAAAAdkEAADsCAAg2gRAAAAAAQEIAAC3AgAwAQgAALcCADAIHgAA6wgAIOkDAgCFBwAhgQQCAIUHACGKBAEAgQcAIdcEAgCFBwAh2AQBAIEHACHZBAAA6ggAINoEQACEBwAhAgAAAC4AIAgAALoCACAH6QMCAIUHACGBBAIAhQcAIYoEAQCBBwAh1wQCAIUHACHYBAEAgQcAIdkEAADqCAAg2gRAAIQHACECAAAALAAgCAAAvAIAIAIAAAAsACAIAAC8AgAgAwAAAC4AIA8AALUCACAQAAC6AgAgAQAAAC4AIAEAAAAsACAFFQAA5QgAIBYAAOYIACAXAADpCAAgGAAA6AgAIBkAAOcIACAK5gMAALwGADDnAwAAwwIAEOgDAAC8BgAw6QMCAPUFACGBBAIA9QUAIYoEAQD2BQAh1wQCAPUFACHYBAEA9gUAIdkEAAC9BgAg2gRAAPkFACEDAAAALAAgAwAAwgIAMBQAAMMCACADAAAALAAgAwAALQAwBAAALgAgDOYDAAC7BgAw5wMAAMkCABDoAwAAuwYAMOkDAgAAAAHvA0AAmgYAIYgEQACaBgAh0QQBAAAAAdIEAQCZBgAh0wQBAJkGACHUBAEAmQYAIdUEAQCZBgAh1gRAAJsGACEBAAAAxgIAIAEAAADGAgAgDOYDAAC7BgAw5wMAAMkCABDoAwAAuwYAMOkDAgChBgAh7wNAAJoGACGIBEAAmgYAIdEEAQCNBgAh0gQBAJkGACHTBAEAmQYAIdQEAQCZBgAh1QQBAJkGACHWBEAAmwYAIQXSBAAA-wYAINMEAAD7BgAg1AQAAPsGACDVBAAA-wYAINYEAAD7BgAgAwAAAMkCACADAADKAgAwBAAAxgIAIAMAAADJAgAgAwAAygIAMAQAAMYCACADAAAAyQIAIAMAAMoCADAEAADGAgAgCekDAgAAAAHvA0AAAAABiARAAAAAAdEEAQAAAAHSBAEAAAAB0wQBAAAAAdQEAQAAAAHVBAEAAAAB1gRAAAAAAQEIAADOAgAgCekDAgAAAAHvA0AAAAABiARAAAAAAdEEAQAAAAHSBAEAAAAB0wQBAAAAAdQEAQAAAAHVBAEAAAAB1gRAAAAAAQEIAADQAgAwAQgAANACADAJ6QMCAIUHACHvA0AAhAcAIYgEQACEBwAh0QQBAIEHACHSBAEAggcAIdMEAQCCBwAh1AQBAIIHACHVBAEAggcAIdYEQACoBwAhAgAAAMYCACAIAADTAgAgCekDAgCFBwAh7wNAAIQHACGIBEAAhAcAIdEEAQCBBwAh0gQBAIIHACHTBAEAggcAIdQEAQCCBwAh1QQBAIIHACHWBEAAqAcAIQIAAADJAgAgCAAA1QIAIAIAAADJAgAgCAAA1QIAIAMAAADGAgAgDwAAzgIAIBAAANMCACABAAAAxgIAIAEAAADJAgAgChUAAOAIACAWAADhCAAgFwAA5AgAIBgAAOMIACAZAADiCAAg0gQAAPsGACDTBAAA-wYAINQEAAD7BgAg1QQAAPsGACDWBAAA-wYAIAzmAwAAugYAMOcDAADcAgAQ6AMAALoGADDpAwIA9QUAIe8DQAD5BQAhiARAAPkFACHRBAEA9gUAIdIEAQD3BQAh0wQBAPcFACHUBAEA9wUAIdUEAQD3BQAh1gRAAJUGACEDAAAAyQIAIAMAANsCADAUAADcAgAgAwAAAMkCACADAADKAgAwBAAAxgIAIAzmAwAAuAYAMOcDAADiAgAQ6AMAALgGADDpAwIAAAAB7wNAAJoGACGHBAEAmQYAIYoEAQCNBgAhzAQCAKEGACHNBAEAjQYAIc4EAQCZBgAhzwQBAI0GACHQBAAAuQYAIAEAAADfAgAgAQAAAN8CACAL5gMAALgGADDnAwAA4gIAEOgDAAC4BgAw6QMCAKEGACHvA0AAmgYAIYcEAQCZBgAhigQBAI0GACHMBAIAoQYAIc0EAQCNBgAhzgQBAJkGACHPBAEAjQYAIQKHBAAA-wYAIM4EAAD7BgAgAwAAAOICACADAADjAgAwBAAA3wIAIAMAAADiAgAgAwAA4wIAMAQAAN8CACADAAAA4gIAIAMAAOMCADAEAADfAgAgCOkDAgAAAAHvA0AAAAABhwQBAAAAAYoEAQAAAAHMBAIAAAABzQQBAAAAAc4EAQAAAAHPBAEAAAABAQgAAOcCACAI6QMCAAAAAe8DQAAAAAGHBAEAAAABigQBAAAAAcwEAgAAAAHNBAEAAAABzgQBAAAAAc8EAQAAAAEBCAAA6QIAMAEIAADpAgAwCOkDAgCFBwAh7wNAAIQHACGHBAEAggcAIYoEAQCBBwAhzAQCAIUHACHNBAEAgQcAIc4EAQCCBwAhzwQBAIEHACECAAAA3wIAIAgAAOwCACAI6QMCAIUHACHvA0AAhAcAIYcEAQCCBwAhigQBAIEHACHMBAIAhQcAIc0EAQCBBwAhzgQBAIIHACHPBAEAgQcAIQIAAADiAgAgCAAA7gIAIAIAAADiAgAgCAAA7gIAIAMAAADfAgAgDwAA5wIAIBAAAOwCACABAAAA3wIAIAEAAADiAgAgBxUAANsIACAWAADcCAAgFwAA3wgAIBgAAN4IACAZAADdCAAghwQAAPsGACDOBAAA-wYAIAvmAwAAtwYAMOcDAAD1AgAQ6AMAALcGADDpAwIA9QUAIe8DQAD5BQAhhwQBAPcFACGKBAEA9gUAIcwEAgD1BQAhzQQBAPYFACHOBAEA9wUAIc8EAQD2BQAhAwAAAOICACADAAD0AgAwFAAA9QIAIAMAAADiAgAgAwAA4wIAMAQAAN8CACAI5gMAALYGADDnAwAA-wIAEOgDAAC2BgAw_gNAAJoGACGIBEAAmgYAIcoEAQAAAAHLBAAAoAYAIMwEAgChBgAhAQAAAPgCACABAAAA-AIAIAjmAwAAtgYAMOcDAAD7AgAQ6AMAALYGADD-A0AAmgYAIYgEQACaBgAhygQBAI0GACHLBAAAoAYAIMwEAgChBgAhAAMAAAD7AgAgAwAA_AIAMAQAAPgCACADAAAA-wIAIAMAAPwCADAEAAD4AgAgAwAAAPsCACADAAD8AgAwBAAA-AIAIAX-A0AAAAABiARAAAAAAcoEAQAAAAHLBIAAAAABzAQCAAAAAQEIAACAAwAgBf4DQAAAAAGIBEAAAAABygQBAAAAAcsEgAAAAAHMBAIAAAABAQgAAIIDADABCAAAggMAMAX-A0AAhAcAIYgEQACEBwAhygQBAIEHACHLBIAAAAABzAQCAIUHACECAAAA-AIAIAgAAIUDACAF_gNAAIQHACGIBEAAhAcAIcoEAQCBBwAhywSAAAAAAcwEAgCFBwAhAgAAAPsCACAIAACHAwAgAgAAAPsCACAIAACHAwAgAwAAAPgCACAPAACAAwAgEAAAhQMAIAEAAAD4AgAgAQAAAPsCACAFFQAA1ggAIBYAANcIACAXAADaCAAgGAAA2QgAIBkAANgIACAI5gMAALUGADDnAwAAjgMAEOgDAAC1BgAw_gNAAPkFACGIBEAA-QUAIcoEAQD2BQAhywQAAJ0GACDMBAIA9QUAIQMAAAD7AgAgAwAAjQMAMBQAAI4DACADAAAA-wIAIAMAAPwCADAEAAD4AgAgB-YDAAC0BgAw5wMAAJQDABDoAwAAtAYAMO8DQACaBgAhxwQBAAAAAcgEAACgBgAgyQRAAJsGACEBAAAAkQMAIAEAAACRAwAgB-YDAAC0BgAw5wMAAJQDABDoAwAAtAYAMO8DQACaBgAhxwQBAI0GACHIBAAAoAYAIMkEQACbBgAhAckEAAD7BgAgAwAAAJQDACADAACVAwAwBAAAkQMAIAMAAACUAwAgAwAAlQMAMAQAAJEDACADAAAAlAMAIAMAAJUDADAEAACRAwAgBO8DQAAAAAHHBAEAAAAByASAAAAAAckEQAAAAAEBCAAAmQMAIATvA0AAAAABxwQBAAAAAcgEgAAAAAHJBEAAAAABAQgAAJsDADABCAAAmwMAMATvA0AAhAcAIccEAQCBBwAhyASAAAAAAckEQACoBwAhAgAAAJEDACAIAACeAwAgBO8DQACEBwAhxwQBAIEHACHIBIAAAAAByQRAAKgHACECAAAAlAMAIAgAAKADACACAAAAlAMAIAgAAKADACADAAAAkQMAIA8AAJkDACAQAACeAwAgAQAAAJEDACABAAAAlAMAIAQVAADTCAAgGAAA1QgAIBkAANQIACDJBAAA-wYAIAfmAwAAswYAMOcDAACnAwAQ6AMAALMGADDvA0AA-QUAIccEAQD2BQAhyAQAAJ0GACDJBEAAlQYAIQMAAACUAwAgAwAApgMAMBQAAKcDACADAAAAlAMAIAMAAJUDADAEAACRAwAgCeYDAACyBgAw5wMAAK0DABDoAwAAsgYAMOkDAQAAAAHrAwEAjQYAIe8DQACaBgAhxAQBAI0GACHFBAEAjQYAIcYEAACuBgAgAQAAAKoDACABAAAAqgMAIAnmAwAAsgYAMOcDAACtAwAQ6AMAALIGADDpAwEAjQYAIesDAQCNBgAh7wNAAJoGACHEBAEAjQYAIcUEAQCNBgAhxgQAAK4GACABxgQAAPsGACADAAAArQMAIAMAAK4DADAEAACqAwAgAwAAAK0DACADAACuAwAwBAAAqgMAIAMAAACtAwAgAwAArgMAMAQAAKoDACAG6QMBAAAAAesDAQAAAAHvA0AAAAABxAQBAAAAAcUEAQAAAAHGBIAAAAABAQgAALIDACAG6QMBAAAAAesDAQAAAAHvA0AAAAABxAQBAAAAAcUEAQAAAAHGBIAAAAABAQgAALQDADABCAAAtAMAMAbpAwEAgQcAIesDAQCBBwAh7wNAAIQHACHEBAEAgQcAIcUEAQCBBwAhxgSAAAAAAQIAAACqAwAgCAAAtwMAIAbpAwEAgQcAIesDAQCBBwAh7wNAAIQHACHEBAEAgQcAIcUEAQCBBwAhxgSAAAAAAQIAAACtAwAgCAAAuQMAIAIAAACtAwAgCAAAuQMAIAMAAACqAwAgDwAAsgMAIBAAALcDACABAAAAqgMAIAEAAACtAwAgBBUAANAIACAYAADSCAAgGQAA0QgAIMYEAAD7BgAgCeYDAACxBgAw5wMAAMADABDoAwAAsQYAMOkDAQD2BQAh6wMBAPYFACHvA0AA-QUAIcQEAQD2BQAhxQQBAPYFACHGBAAApwYAIAMAAACtAwAgAwAAvwMAMBQAAMADACADAAAArQMAIAMAAK4DADAEAACqAwAgDeYDAACwBgAw5wMAAMYDABDoAwAAsAYAMOkDAQAAAAHvA0AAmgYAIbwEAQCNBgAhvQQBAI0GACG-BAEAjQYAIb8EAQCNBgAhwAQBAI0GACHBBAEAjQYAIcIEAACuBgAgwwQAAK4GACABAAAAwwMAIAEAAADDAwAgDeYDAACwBgAw5wMAAMYDABDoAwAAsAYAMOkDAQCNBgAh7wNAAJoGACG8BAEAjQYAIb0EAQCNBgAhvgQBAI0GACG_BAEAjQYAIcAEAQCNBgAhwQQBAI0GACHCBAAArgYAIMMEAACuBgAgAsIEAAD7BgAgwwQAAPsGACADAAAAxgMAIAMAAMcDADAEAADDAwAgAwAAAMYDACADAADHAwAwBAAAwwMAIAMAAADGAwAgAwAAxwMAMAQAAMMDACAK6QMBAAAAAe8DQAAAAAG8BAEAAAABvQQBAAAAAb4EAQAAAAG_BAEAAAABwAQBAAAAAcEEAQAAAAHCBIAAAAABwwSAAAAAAQEIAADLAwAgCukDAQAAAAHvA0AAAAABvAQBAAAAAb0EAQAAAAG-BAEAAAABvwQBAAAAAcAEAQAAAAHBBAEAAAABwgSAAAAAAcMEgAAAAAEBCAAAzQMAMAEIAADNAwAwCukDAQCBBwAh7wNAAIQHACG8BAEAgQcAIb0EAQCBBwAhvgQBAIEHACG_BAEAgQcAIcAEAQCBBwAhwQQBAIEHACHCBIAAAAABwwSAAAAAAQIAAADDAwAgCAAA0AMAIArpAwEAgQcAIe8DQACEBwAhvAQBAIEHACG9BAEAgQcAIb4EAQCBBwAhvwQBAIEHACHABAEAgQcAIcEEAQCBBwAhwgSAAAAAAcMEgAAAAAECAAAAxgMAIAgAANIDACACAAAAxgMAIAgAANIDACADAAAAwwMAIA8AAMsDACAQAADQAwAgAQAAAMMDACABAAAAxgMAIAUVAADNCAAgGAAAzwgAIBkAAM4IACDCBAAA-wYAIMMEAAD7BgAgDeYDAACvBgAw5wMAANkDABDoAwAArwYAMOkDAQD2BQAh7wNAAPkFACG8BAEA9gUAIb0EAQD2BQAhvgQBAPYFACG_BAEA9gUAIcAEAQD2BQAhwQQBAPYFACHCBAAApwYAIMMEAACnBgAgAwAAAMYDACADAADYAwAwFAAA2QMAIAMAAADGAwAgAwAAxwMAMAQAAMMDACAO5gMAAK0GADDnAwAA3wMAEOgDAACtBgAw6QMBAAAAAe8DQACaBgAh_AMCAKEGACGIBEAAmgYAIZEEAQCNBgAhtgQBAI0GACG3BAEAmQYAIbgEAQCZBgAhuQRAAJsGACG6BAEAmQYAIbsEAACuBgAgAQAAANwDACABAAAA3AMAIA7mAwAArQYAMOcDAADfAwAQ6AMAAK0GADDpAwEAjQYAIe8DQACaBgAh_AMCAKEGACGIBEAAmgYAIZEEAQCNBgAhtgQBAI0GACG3BAEAmQYAIbgEAQCZBgAhuQRAAJsGACG6BAEAmQYAIbsEAACuBgAgBbcEAAD7BgAguAQAAPsGACC5BAAA-wYAILoEAAD7BgAguwQAAPsGACADAAAA3wMAIAMAAOADADAEAADcAwAgAwAAAN8DACADAADgAwAwBAAA3AMAIAMAAADfAwAgAwAA4AMAMAQAANwDACAL6QMBAAAAAe8DQAAAAAH8AwIAAAABiARAAAAAAZEEAQAAAAG2BAEAAAABtwQBAAAAAbgEAQAAAAG5BEAAAAABugQBAAAAAbsEgAAAAAEBCAAA5AMAIAvpAwEAAAAB7wNAAAAAAfwDAgAAAAGIBEAAAAABkQQBAAAAAbYEAQAAAAG3BAEAAAABuAQBAAAAAbkEQAAAAAG6BAEAAAABuwSAAAAAAQEIAADmAwAwAQgAAOYDADAL6QMBAIEHACHvA0AAhAcAIfwDAgCFBwAhiARAAIQHACGRBAEAgQcAIbYEAQCBBwAhtwQBAIIHACG4BAEAggcAIbkEQACoBwAhugQBAIIHACG7BIAAAAABAgAAANwDACAIAADpAwAgC-kDAQCBBwAh7wNAAIQHACH8AwIAhQcAIYgEQACEBwAhkQQBAIEHACG2BAEAgQcAIbcEAQCCBwAhuAQBAIIHACG5BEAAqAcAIboEAQCCBwAhuwSAAAAAAQIAAADfAwAgCAAA6wMAIAIAAADfAwAgCAAA6wMAIAMAAADcAwAgDwAA5AMAIBAAAOkDACABAAAA3AMAIAEAAADfAwAgChUAAMgIACAWAADJCAAgFwAAzAgAIBgAAMsIACAZAADKCAAgtwQAAPsGACC4BAAA-wYAILkEAAD7BgAgugQAAPsGACC7BAAA-wYAIA7mAwAArAYAMOcDAADyAwAQ6AMAAKwGADDpAwEA9gUAIe8DQAD5BQAh_AMCAPUFACGIBEAA-QUAIZEEAQD2BQAhtgQBAPYFACG3BAEA9wUAIbgEAQD3BQAhuQRAAJUGACG6BAEA9wUAIbsEAACnBgAgAwAAAN8DACADAADxAwAwFAAA8gMAIAMAAADfAwAgAwAA4AMAMAQAANwDACAH5gMAAKoGADDnAwAA-AMAEOgDAACqBgAwiARAAJoGACGzBAEAAAABtAQCAKsGACG1BAEAmQYAIQEAAAD1AwAgAQAAAPUDACAH5gMAAKoGADDnAwAA-AMAEOgDAACqBgAwiARAAJoGACGzBAEAjQYAIbQEAgCrBgAhtQQBAJkGACECtAQAAPsGACC1BAAA-wYAIAMAAAD4AwAgAwAA-QMAMAQAAPUDACADAAAA-AMAIAMAAPkDADAEAAD1AwAgAwAAAPgDACADAAD5AwAwBAAA9QMAIASIBEAAAAABswQBAAAAAbQEAgAAAAG1BAEAAAABAQgAAP0DACAEiARAAAAAAbMEAQAAAAG0BAIAAAABtQQBAAAAAQEIAAD_AwAwAQgAAP8DADAEiARAAIQHACGzBAEAgQcAIbQEAgCDBwAhtQQBAIIHACECAAAA9QMAIAgAAIIEACAEiARAAIQHACGzBAEAgQcAIbQEAgCDBwAhtQQBAIIHACECAAAA-AMAIAgAAIQEACACAAAA-AMAIAgAAIQEACADAAAA9QMAIA8AAP0DACAQAACCBAAgAQAAAPUDACABAAAA-AMAIAcVAADDCAAgFgAAxAgAIBcAAMcIACAYAADGCAAgGQAAxQgAILQEAAD7BgAgtQQAAPsGACAH5gMAAKkGADDnAwAAiwQAEOgDAACpBgAwiARAAPkFACGzBAEA9gUAIbQEAgD4BQAhtQQBAPcFACEDAAAA-AMAIAMAAIoEADAUAACLBAAgAwAAAPgDACADAAD5AwAwBAAA9QMAIAEAAAAyACABAAAAMgAgAwAAADAAIAMAADEAMAQAADIAIAMAAAAwACADAAAxADAEAAAyACADAAAAMAAgAwAAMQAwBAAAMgAgER4AAL8IACAoAADACAAgLQAAwQgAIC4AAMIIACDpAwEAAAAB7wNAAAAAAYAEAQAAAAGBBAIAAAABhgQBAAAAAYgEQAAAAAGKBAEAAAABrQQBAAAAAa4EAQAAAAGvBAEAAAABsASAAAAAAbEEgAAAAAGyBAEAAAABAQgAAJMEACAN6QMBAAAAAe8DQAAAAAGABAEAAAABgQQCAAAAAYYEAQAAAAGIBEAAAAABigQBAAAAAa0EAQAAAAGuBAEAAAABrwQBAAAAAbAEgAAAAAGxBIAAAAABsgQBAAAAAQEIAACVBAAwAQgAAJUEADABAAAAHAAgER4AAJ0IACAoAACeCAAgLQAAnwgAIC4AAKAIACDpAwEAgQcAIe8DQACEBwAhgAQBAIEHACGBBAIAgwcAIYYEAQCBBwAhiARAAIQHACGKBAEAgQcAIa0EAQCBBwAhrgQBAIEHACGvBAEAgQcAIbAEgAAAAAGxBIAAAAABsgQBAIIHACECAAAAMgAgCAAAmQQAIA3pAwEAgQcAIe8DQACEBwAhgAQBAIEHACGBBAIAgwcAIYYEAQCBBwAhiARAAIQHACGKBAEAgQcAIa0EAQCBBwAhrgQBAIEHACGvBAEAgQcAIbAEgAAAAAGxBIAAAAABsgQBAIIHACECAAAAMAAgCAAAmwQAIAIAAAAwACAIAACbBAAgAQAAABwAIAMAAAAyACAPAACTBAAgEAAAmQQAIAEAAAAyACABAAAAMAAgCRUAAJgIACAWAACZCAAgFwAAnAgAIBgAAJsIACAZAACaCAAggQQAAPsGACCwBAAA-wYAILEEAAD7BgAgsgQAAPsGACAQ5gMAAKYGADDnAwAAowQAEOgDAACmBgAw6QMBAPYFACHvA0AA-QUAIYAEAQD2BQAhgQQCAPgFACGGBAEA9gUAIYgEQAD5BQAhigQBAPYFACGtBAEA9gUAIa4EAQD2BQAhrwQBAPYFACGwBAAApwYAILEEAACnBgAgsgQBAPcFACEDAAAAMAAgAwAAogQAMBQAAKMEACADAAAAMAAgAwAAMQAwBAAAMgAgAQAAADcAIAEAAAA3ACADAAAANQAgAwAANgAwBAAANwAgAwAAADUAIAMAADYAMAQAADcAIAMAAAA1ACADAAA2ADAEAAA3ACAVHQAAwQcAICMAAMIHACAlAADDBwAgKgAAlwgAICsAAMQHACAsAADFBwAg6QMBAAAAAewDAQAAAAH8AwIAAAABhgQBAAAAAZkEQAAAAAGjBAEAAAABpAQBAAAAAaUEgAAAAAGmBIAAAAABpwQIAAAAAagEAQAAAAGpBEAAAAABqgQBAAAAAasEAgAAAAGsBEAAAAABAQgAAKsEACAP6QMBAAAAAewDAQAAAAH8AwIAAAABhgQBAAAAAZkEQAAAAAGjBAEAAAABpAQBAAAAAaUEgAAAAAGmBIAAAAABpwQIAAAAAagEAQAAAAGpBEAAAAABqgQBAAAAAasEAgAAAAGsBEAAAAABAQgAAK0EADABCAAArQQAMAEAAAA7ACAVHQAAqgcAICMAAKsHACAlAACsBwAgKgAAlggAICsAAK0HACAsAACuBwAg6QMBAIEHACHsAwEAgQcAIfwDAgCFBwAhhgQBAIEHACGZBEAAqAcAIaMEAQCBBwAhpAQBAIEHACGlBIAAAAABpgSAAAAAAacECACnBwAhqAQBAIIHACGpBEAAhAcAIaoEAQCCBwAhqwQCAIMHACGsBEAAqAcAIQIAAAA3ACAIAACxBAAgD-kDAQCBBwAh7AMBAIEHACH8AwIAhQcAIYYEAQCBBwAhmQRAAKgHACGjBAEAgQcAIaQEAQCBBwAhpQSAAAAAAaYEgAAAAAGnBAgApwcAIagEAQCCBwAhqQRAAIQHACGqBAEAggcAIasEAgCDBwAhrARAAKgHACECAAAANQAgCAAAswQAIAIAAAA1ACAIAACzBAAgAQAAADsAIAMAAAA3ACAPAACrBAAgEAAAsQQAIAEAAAA3ACABAAAANQAgCxUAAJEIACAWAACSCAAgFwAAlQgAIBgAAJQIACAZAACTCAAgmQQAAPsGACCnBAAA-wYAIKgEAAD7BgAgqgQAAPsGACCrBAAA-wYAIKwEAAD7BgAgEuYDAACjBgAw5wMAALsEABDoAwAAowYAMOkDAQD2BQAh7AMBAPYFACH8AwIA9QUAIYYEAQD2BQAhmQRAAJUGACGjBAEA9gUAIaQEAQD2BQAhpQQAAJ0GACCmBAAAnQYAIKcECACkBgAhqAQBAPcFACGpBEAA-QUAIaoEAQD3BQAhqwQCAPgFACGsBEAAlQYAIQMAAAA1ACADAAC6BAAwFAAAuwQAIAMAAAA1ACADAAA2ADAEAAA3ACAKJAAAjwYAICsAAKAGACDmAwAAnwYAMOcDAABNABDoAwAAnwYAMO8DQACaBgAhiQQBAAAAAZoEAgChBgAhmwQCAKEGACGcBCAAogYAIQEAAAC-BAAgAQAAAL4EACABJAAA_QcAIAMAAABNACADAADBBAAwBAAAvgQAIAMAAABNACADAADBBAAwBAAAvgQAIAMAAABNACADAADBBAAwBAAAvgQAIAckAACQCAAgK4AAAAAB7wNAAAAAAYkEAQAAAAGaBAIAAAABmwQCAAAAAZwEIAAAAAEBCAAAxQQAIAYrgAAAAAHvA0AAAAABiQQBAAAAAZoEAgAAAAGbBAIAAAABnAQgAAAAAQEIAADHBAAwAQgAAMcEADAHJAAAjwgAICuAAAAAAe8DQACEBwAhiQQBAIEHACGaBAIAhQcAIZsEAgCFBwAhnAQgALkHACECAAAAvgQAIAgAAMoEACAGK4AAAAAB7wNAAIQHACGJBAEAgQcAIZoEAgCFBwAhmwQCAIUHACGcBCAAuQcAIQIAAABNACAIAADMBAAgAgAAAE0AIAgAAMwEACADAAAAvgQAIA8AAMUEACAQAADKBAAgAQAAAL4EACABAAAATQAgBRUAAIoIACAWAACLCAAgFwAAjggAIBgAAI0IACAZAACMCAAgCSsAAJ0GACDmAwAAnAYAMOcDAADTBAAQ6AMAAJwGADDvA0AA-QUAIYkEAQD2BQAhmgQCAPUFACGbBAIA9QUAIZwEIACRBgAhAwAAAE0AIAMAANIEADAUAADTBAAgAwAAAE0AIAMAAMEEADAEAAC-BAAgDyQAAI8GACDmAwAAmAYAMOcDAABPABDoAwAAmAYAMO8DQACaBgAhiQQBAAAAAZEEAQCNBgAhkgQBAJkGACGTBAEAmQYAIZQEAQCZBgAhlQQBAJkGACGWBAEAmQYAIZcEAQCZBgAhmAQBAJkGACGZBEAAmwYAIQEAAADWBAAgAQAAANYEACAJJAAA_QcAIJIEAAD7BgAgkwQAAPsGACCUBAAA-wYAIJUEAAD7BgAglgQAAPsGACCXBAAA-wYAIJgEAAD7BgAgmQQAAPsGACADAAAATwAgAwAA2QQAMAQAANYEACADAAAATwAgAwAA2QQAMAQAANYEACADAAAATwAgAwAA2QQAMAQAANYEACAMJAAAiQgAIO8DQAAAAAGJBAEAAAABkQQBAAAAAZIEAQAAAAGTBAEAAAABlAQBAAAAAZUEAQAAAAGWBAEAAAABlwQBAAAAAZgEAQAAAAGZBEAAAAABAQgAAN0EACAL7wNAAAAAAYkEAQAAAAGRBAEAAAABkgQBAAAAAZMEAQAAAAGUBAEAAAABlQQBAAAAAZYEAQAAAAGXBAEAAAABmAQBAAAAAZkEQAAAAAEBCAAA3wQAMAEIAADfBAAwDCQAAIgIACDvA0AAhAcAIYkEAQCBBwAhkQQBAIEHACGSBAEAggcAIZMEAQCCBwAhlAQBAIIHACGVBAEAggcAIZYEAQCCBwAhlwQBAIIHACGYBAEAggcAIZkEQACoBwAhAgAAANYEACAIAADiBAAgC-8DQACEBwAhiQQBAIEHACGRBAEAgQcAIZIEAQCCBwAhkwQBAIIHACGUBAEAggcAIZUEAQCCBwAhlgQBAIIHACGXBAEAggcAIZgEAQCCBwAhmQRAAKgHACECAAAATwAgCAAA5AQAIAIAAABPACAIAADkBAAgAwAAANYEACAPAADdBAAgEAAA4gQAIAEAAADWBAAgAQAAAE8AIAsVAACFCAAgGAAAhwgAIBkAAIYIACCSBAAA-wYAIJMEAAD7BgAglAQAAPsGACCVBAAA-wYAIJYEAAD7BgAglwQAAPsGACCYBAAA-wYAIJkEAAD7BgAgDuYDAACUBgAw5wMAAOsEABDoAwAAlAYAMO8DQAD5BQAhiQQBAPYFACGRBAEA9gUAIZIEAQD3BQAhkwQBAPcFACGUBAEA9wUAIZUEAQD3BQAhlgQBAPcFACGXBAEA9wUAIZgEAQD3BQAhmQRAAJUGACEDAAAATwAgAwAA6gQAMBQAAOsEACADAAAATwAgAwAA2QQAMAQAANYEACABAAAAUwAgAQAAAFMAIAMAAABRACADAABSADAEAABTACADAAAAUQAgAwAAUgAwBAAAUwAgAwAAAFEAIAMAAFIAMAQAAFMAIAgjAACECAAg6QMBAAAAAewDAQAAAAH_AwIAAAABjAQIAAAAAY4EIAAAAAGPBAEAAAABkAQBAAAAAQEIAADzBAAgB-kDAQAAAAHsAwEAAAAB_wMCAAAAAYwECAAAAAGOBCAAAAABjwQBAAAAAZAEAQAAAAEBCAAA9QQAMAEIAAD1BAAwCCMAAIMIACDpAwEAgQcAIewDAQCBBwAh_wMCAIUHACGMBAgAvwcAIY4EIAC5BwAhjwQBAIEHACGQBAEAgQcAIQIAAABTACAIAAD4BAAgB-kDAQCBBwAh7AMBAIEHACH_AwIAhQcAIYwECAC_BwAhjgQgALkHACGPBAEAgQcAIZAEAQCBBwAhAgAAAFEAIAgAAPoEACACAAAAUQAgCAAA-gQAIAMAAABTACAPAADzBAAgEAAA-AQAIAEAAABTACABAAAAUQAgBRUAAP4HACAWAAD_BwAgFwAAgggAIBgAAIEIACAZAACACAAgCuYDAACQBgAw5wMAAIEFABDoAwAAkAYAMOkDAQD2BQAh7AMBAPYFACH_AwIA9QUAIYwECACKBgAhjgQgAJEGACGPBAEA9gUAIZAEAQD2BQAhAwAAAFEAIAMAAIAFADAUAACBBQAgAwAAAFEAIAMAAFIAMAQAAFMAIAokAACPBgAg5gMAAIwGADDnAwAAOQAQ6AMAAIwGADDpAwEAAAABiQQBAAAAAYoEAQCNBgAhiwQBAI0GACGMBAgAjgYAIY0ECACOBgAhAQAAAIQFACABAAAAhAUAIAEkAAD9BwAgAwAAADkAIAMAAIcFADAEAACEBQAgAwAAADkAIAMAAIcFADAEAACEBQAgAwAAADkAIAMAAIcFADAEAACEBQAgByQAAPwHACDpAwEAAAABiQQBAAAAAYoEAQAAAAGLBAEAAAABjAQIAAAAAY0ECAAAAAEBCAAAiwUAIAbpAwEAAAABiQQBAAAAAYoEAQAAAAGLBAEAAAABjAQIAAAAAY0ECAAAAAEBCAAAjQUAMAEIAACNBQAwByQAAPsHACDpAwEAgQcAIYkEAQCBBwAhigQBAIEHACGLBAEAgQcAIYwECAC_BwAhjQQIAL8HACECAAAAhAUAIAgAAJAFACAG6QMBAIEHACGJBAEAgQcAIYoEAQCBBwAhiwQBAIEHACGMBAgAvwcAIY0ECAC_BwAhAgAAADkAIAgAAJIFACACAAAAOQAgCAAAkgUAIAMAAACEBQAgDwAAiwUAIBAAAJAFACABAAAAhAUAIAEAAAA5ACAFFQAA9gcAIBYAAPcHACAXAAD6BwAgGAAA-QcAIBkAAPgHACAJ5gMAAIkGADDnAwAAmQUAEOgDAACJBgAw6QMBAPYFACGJBAEA9gUAIYoEAQD2BQAhiwQBAPYFACGMBAgAigYAIY0ECACKBgAhAwAAADkAIAMAAJgFADAUAACZBQAgAwAAADkAIAMAAIcFADAEAACEBQAgAQAAAF0AIAEAAABdACADAAAAWwAgAwAAXAAwBAAAXQAgAwAAAFsAIAMAAFwAMAQAAF0AIAMAAABbACADAABcADAEAABdACAOHgAA8wcAICEAAPUHACAnAAD0BwAg6QMBAAAAAe8DQAAAAAGABAEAAAABgQQCAAAAAYIEQAAAAAGDBEAAAAABhAQCAAAAAYUEAgAAAAGGBAEAAAABhwQBAAAAAYgEQAAAAAEBCAAAoQUAIAvpAwEAAAAB7wNAAAAAAYAEAQAAAAGBBAIAAAABggRAAAAAAYMEQAAAAAGEBAIAAAABhQQCAAAAAYYEAQAAAAGHBAEAAAABiARAAAAAAQEIAACjBQAwAQgAAKMFADAOHgAA2AcAICEAANoHACAnAADZBwAg6QMBAIEHACHvA0AAhAcAIYAEAQCBBwAhgQQCAIUHACGCBEAAhAcAIYMEQACEBwAhhAQCAIUHACGFBAIAhQcAIYYEAQCCBwAhhwQBAIIHACGIBEAAhAcAIQIAAABdACAIAACmBQAgC-kDAQCBBwAh7wNAAIQHACGABAEAgQcAIYEEAgCFBwAhggRAAIQHACGDBEAAhAcAIYQEAgCFBwAhhQQCAIUHACGGBAEAggcAIYcEAQCCBwAhiARAAIQHACECAAAAWwAgCAAAqAUAIAIAAABbACAIAACoBQAgAwAAAF0AIA8AAKEFACAQAACmBQAgAQAAAF0AIAEAAABbACAHFQAA0wcAIBYAANQHACAXAADXBwAgGAAA1gcAIBkAANUHACCGBAAA-wYAIIcEAAD7BgAgDuYDAACIBgAw5wMAAK8FABDoAwAAiAYAMOkDAQD2BQAh7wNAAPkFACGABAEA9gUAIYEEAgD1BQAhggRAAPkFACGDBEAA-QUAIYQEAgD1BQAhhQQCAPUFACGGBAEA9wUAIYcEAQD3BQAhiARAAPkFACEDAAAAWwAgAwAArgUAMBQAAK8FACADAAAAWwAgAwAAXAAwBAAAXQAgAQAAAD8AIAEAAAA_ACADAAAAPQAgAwAAPgAwBAAAPwAgAwAAAD0AIAMAAD4AMAQAAD8AIAMAAAA9ACADAAA-ADAEAAA_ACAFIwAA0gcAICYAANEHACDsAwEAAAAB-wMBAAAAAf8DAgAAAAEBCAAAtwUAIAPsAwEAAAAB-wMBAAAAAf8DAgAAAAEBCAAAuQUAMAEIAAC5BQAwBSMAANAHACAmAADPBwAg7AMBAIEHACH7AwEAgQcAIf8DAgCFBwAhAgAAAD8AIAgAALwFACAD7AMBAIEHACH7AwEAgQcAIf8DAgCFBwAhAgAAAD0AIAgAAL4FACACAAAAPQAgCAAAvgUAIAMAAAA_ACAPAAC3BQAgEAAAvAUAIAEAAAA_ACABAAAAPQAgBRUAAMoHACAWAADLBwAgFwAAzgcAIBgAAM0HACAZAADMBwAgBuYDAACHBgAw5wMAAMUFABDoAwAAhwYAMOwDAQD2BQAh-wMBAPYFACH_AwIA9QUAIQMAAAA9ACADAADEBQAwFAAAxQUAIAMAAAA9ACADAAA-ADAEAAA_ACABAAAAQgAgAQAAAEIAIAMAAAA7ACADAABBADAEAABCACADAAAAOwAgAwAAQQAwBAAAQgAgAwAAADsAIAMAAEEAMAQAAEIAIAkdAADHBwAgJgAAxgcAICgAAMgHACApAADJBwAg6QMBAAAAAfsDAQAAAAH8AwIAAAAB_QNAAAAAAf4DQAAAAAEBCAAAzQUAIAXpAwEAAAAB-wMBAAAAAfwDAgAAAAH9A0AAAAAB_gNAAAAAAQEIAADPBQAwAQgAAM8FADAJHQAAjgcAICYAAI0HACAoAACPBwAgKQAAkAcAIOkDAQCBBwAh-wMBAIEHACH8AwIAhQcAIf0DQACEBwAh_gNAAIQHACECAAAAQgAgCAAA0gUAIAXpAwEAgQcAIfsDAQCBBwAh_AMCAIUHACH9A0AAhAcAIf4DQACEBwAhAgAAADsAIAgAANQFACACAAAAOwAgCAAA1AUAIAMAAABCACAPAADNBQAgEAAA0gUAIAEAAABCACABAAAAOwAgBRUAAIgHACAWAACJBwAgFwAAjAcAIBgAAIsHACAZAACKBwAgCOYDAACGBgAw5wMAANsFABDoAwAAhgYAMOkDAQD2BQAh-wMBAPYFACH8AwIA9QUAIf0DQAD5BQAh_gNAAPkFACEDAAAAOwAgAwAA2gUAMBQAANsFACADAAAAOwAgAwAAQQAwBAAAQgAgAQAAAEkAIAEAAABJACADAAAARwAgAwAASAAwBAAASQAgAwAAAEcAIAMAAEgAMAQAAEkAIAMAAABHACADAABIADAEAABJACAIHwAAhwcAIOkDAgAAAAHqAwEAAAAB6wMBAAAAAewDAQAAAAHtAwIAAAAB7gNAAAAAAe8DQAAAAAEBCAAA4wUAIAfpAwIAAAAB6gMBAAAAAesDAQAAAAHsAwEAAAAB7QMCAAAAAe4DQAAAAAHvA0AAAAABAQgAAOUFADABCAAA5QUAMAgfAACGBwAg6QMCAIUHACHqAwEAgQcAIesDAQCBBwAh7AMBAIIHACHtAwIAgwcAIe4DQACEBwAh7wNAAIQHACECAAAASQAgCAAA6AUAIAfpAwIAhQcAIeoDAQCBBwAh6wMBAIEHACHsAwEAggcAIe0DAgCDBwAh7gNAAIQHACHvA0AAhAcAIQIAAABHACAIAADqBQAgAgAAAEcAIAgAAOoFACADAAAASQAgDwAA4wUAIBAAAOgFACABAAAASQAgAQAAAEcAIAcVAAD8BgAgFgAA_QYAIBcAAIAHACAYAAD_BgAgGQAA_gYAIOwDAAD7BgAg7QMAAPsGACAK5gMAAPQFADDnAwAA8QUAEOgDAAD0BQAw6QMCAPUFACHqAwEA9gUAIesDAQD2BQAh7AMBAPcFACHtAwIA-AUAIe4DQAD5BQAh7wNAAPkFACEDAAAARwAgAwAA8AUAMBQAAPEFACADAAAARwAgAwAASAAwBAAASQAgCuYDAAD0BQAw5wMAAPEFABDoAwAA9AUAMOkDAgD1BQAh6gMBAPYFACHrAwEA9gUAIewDAQD3BQAh7QMCAPgFACHuA0AA-QUAIe8DQAD5BQAhDRUAAPsFACAWAACFBgAgFwAA-wUAIBgAAPsFACAZAAD7BQAg8AMCAAAAAfEDAgAAAATyAwIAAAAE8wMCAAAAAfQDAgAAAAH1AwIAAAAB9gMCAAAAAfcDAgCEBgAhDhUAAPsFACAYAACDBgAgGQAAgwYAIPADAQAAAAHxAwEAAAAE8gMBAAAABPMDAQAAAAH0AwEAAAAB9QMBAAAAAfYDAQAAAAH3AwEAggYAIfgDAQAAAAH5AwEAAAAB-gMBAAAAAQ4VAAD-BQAgGAAAgQYAIBkAAIEGACDwAwEAAAAB8QMBAAAABfIDAQAAAAXzAwEAAAAB9AMBAAAAAfUDAQAAAAH2AwEAAAAB9wMBAIAGACH4AwEAAAAB-QMBAAAAAfoDAQAAAAENFQAA_gUAIBYAAP8FACAXAAD-BQAgGAAA_gUAIBkAAP4FACDwAwIAAAAB8QMCAAAABfIDAgAAAAXzAwIAAAAB9AMCAAAAAfUDAgAAAAH2AwIAAAAB9wMCAP0FACELFQAA-wUAIBgAAPwFACAZAAD8BQAg8ANAAAAAAfEDQAAAAATyA0AAAAAE8wNAAAAAAfQDQAAAAAH1A0AAAAAB9gNAAAAAAfcDQAD6BQAhCxUAAPsFACAYAAD8BQAgGQAA_AUAIPADQAAAAAHxA0AAAAAE8gNAAAAABPMDQAAAAAH0A0AAAAAB9QNAAAAAAfYDQAAAAAH3A0AA-gUAIQjwAwIAAAAB8QMCAAAABPIDAgAAAATzAwIAAAAB9AMCAAAAAfUDAgAAAAH2AwIAAAAB9wMCAPsFACEI8ANAAAAAAfEDQAAAAATyA0AAAAAE8wNAAAAAAfQDQAAAAAH1A0AAAAAB9gNAAAAAAfcDQAD8BQAhDRUAAP4FACAWAAD_BQAgFwAA_gUAIBgAAP4FACAZAAD-BQAg8AMCAAAAAfEDAgAAAAXyAwIAAAAF8wMCAAAAAfQDAgAAAAH1AwIAAAAB9gMCAAAAAfcDAgD9BQAhCPADAgAAAAHxAwIAAAAF8gMCAAAABfMDAgAAAAH0AwIAAAAB9QMCAAAAAfYDAgAAAAH3AwIA_gUAIQjwAwgAAAAB8QMIAAAABfIDCAAAAAXzAwgAAAAB9AMIAAAAAfUDCAAAAAH2AwgAAAAB9wMIAP8FACEOFQAA_gUAIBgAAIEGACAZAACBBgAg8AMBAAAAAfEDAQAAAAXyAwEAAAAF8wMBAAAAAfQDAQAAAAH1AwEAAAAB9gMBAAAAAfcDAQCABgAh-AMBAAAAAfkDAQAAAAH6AwEAAAABC_ADAQAAAAHxAwEAAAAF8gMBAAAABfMDAQAAAAH0AwEAAAAB9QMBAAAAAfYDAQAAAAH3AwEAgQYAIfgDAQAAAAH5AwEAAAAB-gMBAAAAAQ4VAAD7BQAgGAAAgwYAIBkAAIMGACDwAwEAAAAB8QMBAAAABPIDAQAAAATzAwEAAAAB9AMBAAAAAfUDAQAAAAH2AwEAAAAB9wMBAIIGACH4AwEAAAAB-QMBAAAAAfoDAQAAAAEL8AMBAAAAAfEDAQAAAATyAwEAAAAE8wMBAAAAAfQDAQAAAAH1AwEAAAAB9gMBAAAAAfcDAQCDBgAh-AMBAAAAAfkDAQAAAAH6AwEAAAABDRUAAPsFACAWAACFBgAgFwAA-wUAIBgAAPsFACAZAAD7BQAg8AMCAAAAAfEDAgAAAATyAwIAAAAE8wMCAAAAAfQDAgAAAAH1AwIAAAAB9gMCAAAAAfcDAgCEBgAhCPADCAAAAAHxAwgAAAAE8gMIAAAABPMDCAAAAAH0AwgAAAAB9QMIAAAAAfYDCAAAAAH3AwgAhQYAIQjmAwAAhgYAMOcDAADbBQAQ6AMAAIYGADDpAwEA9gUAIfsDAQD2BQAh_AMCAPUFACH9A0AA-QUAIf4DQAD5BQAhBuYDAACHBgAw5wMAAMUFABDoAwAAhwYAMOwDAQD2BQAh-wMBAPYFACH_AwIA9QUAIQ7mAwAAiAYAMOcDAACvBQAQ6AMAAIgGADDpAwEA9gUAIe8DQAD5BQAhgAQBAPYFACGBBAIA9QUAIYIEQAD5BQAhgwRAAPkFACGEBAIA9QUAIYUEAgD1BQAhhgQBAPcFACGHBAEA9wUAIYgEQAD5BQAhCeYDAACJBgAw5wMAAJkFABDoAwAAiQYAMOkDAQD2BQAhiQQBAPYFACGKBAEA9gUAIYsEAQD2BQAhjAQIAIoGACGNBAgAigYAIQ0VAAD7BQAgFgAAhQYAIBcAAIUGACAYAACFBgAgGQAAhQYAIPADCAAAAAHxAwgAAAAE8gMIAAAABPMDCAAAAAH0AwgAAAAB9QMIAAAAAfYDCAAAAAH3AwgAiwYAIQ0VAAD7BQAgFgAAhQYAIBcAAIUGACAYAACFBgAgGQAAhQYAIPADCAAAAAHxAwgAAAAE8gMIAAAABPMDCAAAAAH0AwgAAAAB9QMIAAAAAfYDCAAAAAH3AwgAiwYAIQokAACPBgAg5gMAAIwGADDnAwAAOQAQ6AMAAIwGADDpAwEAjQYAIYkEAQCNBgAhigQBAI0GACGLBAEAjQYAIYwECACOBgAhjQQIAI4GACEL8AMBAAAAAfEDAQAAAATyAwEAAAAE8wMBAAAAAfQDAQAAAAH1AwEAAAAB9gMBAAAAAfcDAQCDBgAh-AMBAAAAAfkDAQAAAAH6AwEAAAABCPADCAAAAAHxAwgAAAAE8gMIAAAABPMDCAAAAAH0AwgAAAAB9QMIAAAAAfYDCAAAAAH3AwgAhQYAIRodAADTBgAgIwAA2wYAICUAAOcGACAqAADoBgAgKwAA6QYAICwAAOoGACDmAwAA5gYAMOcDAAA1ABDoAwAA5gYAMOkDAQCNBgAh7AMBAI0GACH8AwIAoQYAIYYEAQCNBgAhmQRAAJsGACGjBAEAjQYAIaQEAQCNBgAhpQQAAKAGACCmBAAAoAYAIKcECADABgAhqAQBAJkGACGpBEAAmgYAIaoEAQCZBgAhqwQCAKsGACGsBEAAmwYAIZ0FAAA1ACCeBQAANQAgCuYDAACQBgAw5wMAAIEFABDoAwAAkAYAMOkDAQD2BQAh7AMBAPYFACH_AwIA9QUAIYwECACKBgAhjgQgAJEGACGPBAEA9gUAIZAEAQD2BQAhBRUAAPsFACAYAACTBgAgGQAAkwYAIPADIAAAAAH3AyAAkgYAIQUVAAD7BQAgGAAAkwYAIBkAAJMGACDwAyAAAAAB9wMgAJIGACEC8AMgAAAAAfcDIACTBgAhDuYDAACUBgAw5wMAAOsEABDoAwAAlAYAMO8DQAD5BQAhiQQBAPYFACGRBAEA9gUAIZIEAQD3BQAhkwQBAPcFACGUBAEA9wUAIZUEAQD3BQAhlgQBAPcFACGXBAEA9wUAIZgEAQD3BQAhmQRAAJUGACELFQAA_gUAIBgAAJcGACAZAACXBgAg8ANAAAAAAfEDQAAAAAXyA0AAAAAF8wNAAAAAAfQDQAAAAAH1A0AAAAAB9gNAAAAAAfcDQACWBgAhCxUAAP4FACAYAACXBgAgGQAAlwYAIPADQAAAAAHxA0AAAAAF8gNAAAAABfMDQAAAAAH0A0AAAAAB9QNAAAAAAfYDQAAAAAH3A0AAlgYAIQjwA0AAAAAB8QNAAAAABfIDQAAAAAXzA0AAAAAB9ANAAAAAAfUDQAAAAAH2A0AAAAAB9wNAAJcGACEPJAAAjwYAIOYDAACYBgAw5wMAAE8AEOgDAACYBgAw7wNAAJoGACGJBAEAjQYAIZEEAQCNBgAhkgQBAJkGACGTBAEAmQYAIZQEAQCZBgAhlQQBAJkGACGWBAEAmQYAIZcEAQCZBgAhmAQBAJkGACGZBEAAmwYAIQvwAwEAAAAB8QMBAAAABfIDAQAAAAXzAwEAAAAB9AMBAAAAAfUDAQAAAAH2AwEAAAAB9wMBAIEGACH4AwEAAAAB-QMBAAAAAfoDAQAAAAEI8ANAAAAAAfEDQAAAAATyA0AAAAAE8wNAAAAAAfQDQAAAAAH1A0AAAAAB9gNAAAAAAfcDQAD8BQAhCPADQAAAAAHxA0AAAAAF8gNAAAAABfMDQAAAAAH0A0AAAAAB9QNAAAAAAfYDQAAAAAH3A0AAlwYAIQkrAACdBgAg5gMAAJwGADDnAwAA0wQAEOgDAACcBgAw7wNAAPkFACGJBAEA9gUAIZoEAgD1BQAhmwQCAPUFACGcBCAAkQYAIQ8VAAD7BQAgGAAAngYAIBkAAJ4GACDwA4AAAAAB8wOAAAAAAfQDgAAAAAH1A4AAAAAB9gOAAAAAAfcDgAAAAAGdBAEAAAABngQBAAAAAZ8EAQAAAAGgBIAAAAABoQSAAAAAAaIEgAAAAAEM8AOAAAAAAfMDgAAAAAH0A4AAAAAB9QOAAAAAAfYDgAAAAAH3A4AAAAABnQQBAAAAAZ4EAQAAAAGfBAEAAAABoASAAAAAAaEEgAAAAAGiBIAAAAABCiQAAI8GACArAACgBgAg5gMAAJ8GADDnAwAATQAQ6AMAAJ8GADDvA0AAmgYAIYkEAQCNBgAhmgQCAKEGACGbBAIAoQYAIZwEIACiBgAhDPADgAAAAAHzA4AAAAAB9AOAAAAAAfUDgAAAAAH2A4AAAAAB9wOAAAAAAZ0EAQAAAAGeBAEAAAABnwQBAAAAAaAEgAAAAAGhBIAAAAABogSAAAAAAQjwAwIAAAAB8QMCAAAABPIDAgAAAATzAwIAAAAB9AMCAAAAAfUDAgAAAAH2AwIAAAAB9wMCAPsFACEC8AMgAAAAAfcDIACTBgAhEuYDAACjBgAw5wMAALsEABDoAwAAowYAMOkDAQD2BQAh7AMBAPYFACH8AwIA9QUAIYYEAQD2BQAhmQRAAJUGACGjBAEA9gUAIaQEAQD2BQAhpQQAAJ0GACCmBAAAnQYAIKcECACkBgAhqAQBAPcFACGpBEAA-QUAIaoEAQD3BQAhqwQCAPgFACGsBEAAlQYAIQ0VAAD-BQAgFgAA_wUAIBcAAP8FACAYAAD_BQAgGQAA_wUAIPADCAAAAAHxAwgAAAAF8gMIAAAABfMDCAAAAAH0AwgAAAAB9QMIAAAAAfYDCAAAAAH3AwgApQYAIQ0VAAD-BQAgFgAA_wUAIBcAAP8FACAYAAD_BQAgGQAA_wUAIPADCAAAAAHxAwgAAAAF8gMIAAAABfMDCAAAAAH0AwgAAAAB9QMIAAAAAfYDCAAAAAH3AwgApQYAIRDmAwAApgYAMOcDAACjBAAQ6AMAAKYGADDpAwEA9gUAIe8DQAD5BQAhgAQBAPYFACGBBAIA-AUAIYYEAQD2BQAhiARAAPkFACGKBAEA9gUAIa0EAQD2BQAhrgQBAPYFACGvBAEA9gUAIbAEAACnBgAgsQQAAKcGACCyBAEA9wUAIQ8VAAD-BQAgGAAAqAYAIBkAAKgGACDwA4AAAAAB8wOAAAAAAfQDgAAAAAH1A4AAAAAB9gOAAAAAAfcDgAAAAAGdBAEAAAABngQBAAAAAZ8EAQAAAAGgBIAAAAABoQSAAAAAAaIEgAAAAAEM8AOAAAAAAfMDgAAAAAH0A4AAAAAB9QOAAAAAAfYDgAAAAAH3A4AAAAABnQQBAAAAAZ4EAQAAAAGfBAEAAAABoASAAAAAAaEEgAAAAAGiBIAAAAABB-YDAACpBgAw5wMAAIsEABDoAwAAqQYAMIgEQAD5BQAhswQBAPYFACG0BAIA-AUAIbUEAQD3BQAhB-YDAACqBgAw5wMAAPgDABDoAwAAqgYAMIgEQACaBgAhswQBAI0GACG0BAIAqwYAIbUEAQCZBgAhCPADAgAAAAHxAwIAAAAF8gMCAAAABfMDAgAAAAH0AwIAAAAB9QMCAAAAAfYDAgAAAAH3AwIA_gUAIQ7mAwAArAYAMOcDAADyAwAQ6AMAAKwGADDpAwEA9gUAIe8DQAD5BQAh_AMCAPUFACGIBEAA-QUAIZEEAQD2BQAhtgQBAPYFACG3BAEA9wUAIbgEAQD3BQAhuQRAAJUGACG6BAEA9wUAIbsEAACnBgAgDuYDAACtBgAw5wMAAN8DABDoAwAArQYAMOkDAQCNBgAh7wNAAJoGACH8AwIAoQYAIYgEQACaBgAhkQQBAI0GACG2BAEAjQYAIbcEAQCZBgAhuAQBAJkGACG5BEAAmwYAIboEAQCZBgAhuwQAAK4GACAM8AOAAAAAAfMDgAAAAAH0A4AAAAAB9QOAAAAAAfYDgAAAAAH3A4AAAAABnQQBAAAAAZ4EAQAAAAGfBAEAAAABoASAAAAAAaEEgAAAAAGiBIAAAAABDeYDAACvBgAw5wMAANkDABDoAwAArwYAMOkDAQD2BQAh7wNAAPkFACG8BAEA9gUAIb0EAQD2BQAhvgQBAPYFACG_BAEA9gUAIcAEAQD2BQAhwQQBAPYFACHCBAAApwYAIMMEAACnBgAgDeYDAACwBgAw5wMAAMYDABDoAwAAsAYAMOkDAQCNBgAh7wNAAJoGACG8BAEAjQYAIb0EAQCNBgAhvgQBAI0GACG_BAEAjQYAIcAEAQCNBgAhwQQBAI0GACHCBAAArgYAIMMEAACuBgAgCeYDAACxBgAw5wMAAMADABDoAwAAsQYAMOkDAQD2BQAh6wMBAPYFACHvA0AA-QUAIcQEAQD2BQAhxQQBAPYFACHGBAAApwYAIAnmAwAAsgYAMOcDAACtAwAQ6AMAALIGADDpAwEAjQYAIesDAQCNBgAh7wNAAJoGACHEBAEAjQYAIcUEAQCNBgAhxgQAAK4GACAH5gMAALMGADDnAwAApwMAEOgDAACzBgAw7wNAAPkFACHHBAEA9gUAIcgEAACdBgAgyQRAAJUGACEH5gMAALQGADDnAwAAlAMAEOgDAAC0BgAw7wNAAJoGACHHBAEAjQYAIcgEAACgBgAgyQRAAJsGACEI5gMAALUGADDnAwAAjgMAEOgDAAC1BgAw_gNAAPkFACGIBEAA-QUAIcoEAQD2BQAhywQAAJ0GACDMBAIA9QUAIQjmAwAAtgYAMOcDAAD7AgAQ6AMAALYGADD-A0AAmgYAIYgEQACaBgAhygQBAI0GACHLBAAAoAYAIMwEAgChBgAhC-YDAAC3BgAw5wMAAPUCABDoAwAAtwYAMOkDAgD1BQAh7wNAAPkFACGHBAEA9wUAIYoEAQD2BQAhzAQCAPUFACHNBAEA9gUAIc4EAQD3BQAhzwQBAPYFACEL5gMAALgGADDnAwAA4gIAEOgDAAC4BgAw6QMCAKEGACHvA0AAmgYAIYcEAQCZBgAhigQBAI0GACHMBAIAoQYAIc0EAQCNBgAhzgQBAJkGACHPBAEAjQYAIQKKBAEAAAABzAQCAAAAAQzmAwAAugYAMOcDAADcAgAQ6AMAALoGADDpAwIA9QUAIe8DQAD5BQAhiARAAPkFACHRBAEA9gUAIdIEAQD3BQAh0wQBAPcFACHUBAEA9wUAIdUEAQD3BQAh1gRAAJUGACEM5gMAALsGADDnAwAAyQIAEOgDAAC7BgAw6QMCAKEGACHvA0AAmgYAIYgEQACaBgAh0QQBAI0GACHSBAEAmQYAIdMEAQCZBgAh1AQBAJkGACHVBAEAmQYAIdYEQACbBgAhCuYDAAC8BgAw5wMAAMMCABDoAwAAvAYAMOkDAgD1BQAhgQQCAPUFACGKBAEA9gUAIdcEAgD1BQAh2AQBAPYFACHZBAAAvQYAINoEQAD5BQAhBPADAQAAAAXbBAEAAAAB3AQBAAAABN0EAQAAAAQM5gMAAL4GADDnAwAArQIAEOgDAAC-BgAw6QMCAPUFACHvA0AA-QUAIYEEAgD1BQAhiARAAPkFACHeBAIA9QUAId8EAgD1BQAh4AQIAKQGACHhBAAAvQYAIOIECACKBgAhDR4AAMEGACDmAwAAvwYAMOcDAABZABDoAwAAvwYAMOkDAgChBgAh7wNAAJoGACGBBAIAoQYAIYgEQACaBgAh3gQCAKEGACHfBAIAoQYAIeAECADABgAh4QQAAL0GACDiBAgAjgYAIQjwAwgAAAAB8QMIAAAABfIDCAAAAAXzAwgAAAAB9AMIAAAAAfUDCAAAAAH2AwgAAAAB9wMIAP8FACESHAAAxAYAICEAAMUGACAiAADGBgAgLwAAxwYAIDAAAMgGACAxAADJBgAg5gMAAMMGADDnAwAAHAAQ6AMAAMMGADDpAwIAoQYAIe8DQACaBgAhiARAAJoGACGvBAEAmQYAIdoEQACaBgAh4wQBAI0GACHkBEAAmwYAIZ0FAAAcACCeBQAAHAAgCuYDAADCBgAw5wMAAJUCABDoAwAAwgYAMOkDAgD1BQAh7wNAAPkFACGIBEAA-QUAIa8EAQD3BQAh2gRAAPkFACHjBAEA9gUAIeQEQACVBgAhEBwAAMQGACAhAADFBgAgIgAAxgYAIC8AAMcGACAwAADIBgAgMQAAyQYAIOYDAADDBgAw5wMAABwAEOgDAADDBgAw6QMCAKEGACHvA0AAmgYAIYgEQACaBgAhrwQBAJkGACHaBEAAmgYAIeMEAQCNBgAh5ARAAJsGACED5QQAAB4AIOYEAAAeACDnBAAAHgAgA-UEAAAhACDmBAAAIQAg5wQAACEAIAPlBAAALAAg5gQAACwAIOcEAAAsACAD5QQAADAAIOYEAAAwACDnBAAAMAAgDx4AAMEGACDmAwAAvwYAMOcDAABZABDoAwAAvwYAMOkDAgChBgAh7wNAAJoGACGBBAIAoQYAIYgEQACaBgAh3gQCAKEGACHfBAIAoQYAIeAECADABgAh4QQAAL0GACDiBAgAjgYAIZ0FAABZACCeBQAAWQAgA-UEAABbACDmBAAAWwAg5wQAAFsAIAbmAwAAygYAMOcDAAD9AQAQ6AMAAMoGADDpAwIA9QUAIYgEQAD5BQAh6AQIAIoGACEG5gMAAMsGADDnAwAA6gEAEOgDAADLBgAw6QMCAKEGACGIBEAAmgYAIegECACOBgAhFeYDAADMBgAw5wMAAOQBABDoAwAAzAYAMOkDAgD1BQAh7wNAAPkFACH8AwIA9QUAIYgEQAD5BQAh6QQBAPYFACHqBAEA9gUAIesEAQD2BQAh7AQBAPYFACHtBAEA9gUAIe4EAACdBgAg7wQBAPYFACHwBAgAigYAIfEECACKBgAh8gQCAPUFACHzBAIA9QUAIfQEQAD5BQAh9QRAAJUGACH2BAIA-AUAIQvmAwAAzQYAMOcDAADOAQAQ6AMAAM0GADDpAwEA9gUAIfwDAgD1BQAh6gQBAPYFACHrBAEA9gUAIfcECACKBgAh-AQIAKQGACH5BAIA9QUAIfoEQAD5BQAhCi4AAJ0GACDmAwAAzgYAMOcDAAC4AQAQ6AMAAM4GADDpAwIA9QUAIeoDAQD2BQAh7wNAAPkFACGIBEAA-QUAIfsEAQD2BQAh_AQBAPcFACEeLgAAnQYAIOYDAADPBgAw5wMAAKIBABDoAwAAzwYAMOkDAQD2BQAh7wNAAPkFACH8AwIA-AUAIYEEAgD4BQAhiARAAPkFACGRBAEA9gUAIfwEAQD3BQAh_QQBAPcFACH-BAEA9gUAIf8EAgD1BQAhgAUAAJ0GACCBBQgApAYAIYIFCACkBgAhgwUBAPcFACGEBQEA9wUAIYUFAACdBgAghgUAAJ0GACCHBQAApwYAIIgFCACkBgAhiQUBAPYFACGKBQEA9gUAIYsFAgD1BQAhjAUCAPUFACGNBQEA9wUAIY4FAQD3BQAhjwVAAJUGACEQ5gMAANAGADDnAwAAiAEAEOgDAADQBgAw6QMCAPUFACHvA0AA-QUAIYEEAgD4BQAhiARAAPkFACGtBAEA9gUAIcQEAQD3BQAh0QQBAPcFACHSBAEA9wUAIZAFAQD3BQAhkQUBAPcFACGSBUAAlQYAIZMFAACnBgAglAVAAJUGACEC_AMCAAAAAekEAQAAAAEWHQAA0wYAIOYDAADSBgAw5wMAAGoAEOgDAADSBgAw6QMCAKEGACHvA0AAmgYAIfwDAgChBgAhiARAAJoGACHpBAEAjQYAIeoEAQCNBgAh6wQBAI0GACHsBAEAjQYAIe0EAQCNBgAh7gQAAKAGACDvBAEAjQYAIfAECACOBgAh8QQIAI4GACHyBAIAoQYAIfMEAgChBgAh9ARAAJoGACH1BEAAmwYAIfYEAgCrBgAhGB4AAOwGACAhAADFBgAgMgAA9wYAIDMAAOEGACA0AAD4BgAgNQAA2AYAIOYDAAD2BgAw5wMAAB4AEOgDAAD2BgAw6QMCAKEGACHvA0AAmgYAIYEEAgCrBgAhiARAAJoGACGtBAEAjQYAIcQEAQCZBgAh0QQBAJkGACHSBAEAmQYAIZAFAQCZBgAhkQUBAJkGACGSBUAAmwYAIZMFAACuBgAglAVAAJsGACGdBQAAHgAgngUAAB4AIAP8AwIAAAAB6gQBAAAAAesEAQAAAAEMHQAA0wYAIOYDAADVBgAw5wMAAGUAEOgDAADVBgAw6QMBAI0GACH8AwIAoQYAIeoEAQCNBgAh6wQBAI0GACH3BAgAjgYAIfgECADABgAh-QQCAKEGACH6BEAAmgYAIREeAADBBgAgIQAA2AYAICcAANcGACDmAwAA1gYAMOcDAABbABDoAwAA1gYAMOkDAQCNBgAh7wNAAJoGACGABAEAjQYAIYEEAgChBgAhggRAAJoGACGDBEAAmgYAIYQEAgChBgAhhQQCAKEGACGGBAEAmQYAIYcEAQCZBgAhiARAAJoGACED5QQAAD0AIOYEAAA9ACDnBAAAPQAgA-UEAAA7ACDmBAAAOwAg5wQAADsAIALpAwEAAAAB7AMBAAAAAQsjAADbBgAg5gMAANoGADDnAwAAUQAQ6AMAANoGADDpAwEAjQYAIewDAQCNBgAh_wMCAKEGACGMBAgAjgYAIY4EIACiBgAhjwQBAI0GACGQBAEAjQYAIRYeAADsBgAgKAAA4QYAIC0AAO0GACAuAADXBgAg5gMAAOsGADDnAwAAMAAQ6AMAAOsGADDpAwEAjQYAIe8DQACaBgAhgAQBAI0GACGBBAIAqwYAIYYEAQCNBgAhiARAAJoGACGKBAEAjQYAIa0EAQCNBgAhrgQBAI0GACGvBAEAjQYAIbAEAACuBgAgsQQAAK4GACCyBAEAmQYAIZ0FAAAwACCeBQAAMAAgCx8AAN0GACDmAwAA3AYAMOcDAABHABDoAwAA3AYAMOkDAgChBgAh6gMBAI0GACHrAwEAjQYAIewDAQCZBgAh7QMCAKsGACHuA0AAmgYAIe8DQACaBgAhDh0AANMGACAmAADgBgAgKAAA4QYAICkAAOIGACDmAwAA3wYAMOcDAAA7ABDoAwAA3wYAMOkDAQCNBgAh-wMBAI0GACH8AwIAoQYAIf0DQACaBgAh_gNAAJoGACGdBQAAOwAgngUAADsAIAL7AwEAAAAB_AMCAAAAAQwdAADTBgAgJgAA4AYAICgAAOEGACApAADiBgAg5gMAAN8GADDnAwAAOwAQ6AMAAN8GADDpAwEAjQYAIfsDAQCNBgAh_AMCAKEGACH9A0AAmgYAIf4DQACaBgAhEx4AAMEGACAhAADYBgAgJwAA1wYAIOYDAADWBgAw5wMAAFsAEOgDAADWBgAw6QMBAI0GACHvA0AAmgYAIYAEAQCNBgAhgQQCAKEGACGCBEAAmgYAIYMEQACaBgAhhAQCAKEGACGFBAIAoQYAIYYEAQCZBgAhhwQBAJkGACGIBEAAmgYAIZ0FAABbACCeBQAAWwAgA-UEAAA1ACDmBAAANQAg5wQAADUAIAPlBAAARwAg5gQAAEcAIOcEAABHACAC7AMBAAAAAfsDAQAAAAEIIwAA2wYAICYAAOAGACDmAwAA5AYAMOcDAAA9ABDoAwAA5AYAMOwDAQCNBgAh-wMBAI0GACH_AwIAoQYAIQPsAwEAAAABqgQBAAAAAasEAgAAAAEYHQAA0wYAICMAANsGACAlAADnBgAgKgAA6AYAICsAAOkGACAsAADqBgAg5gMAAOYGADDnAwAANQAQ6AMAAOYGADDpAwEAjQYAIewDAQCNBgAh_AMCAKEGACGGBAEAjQYAIZkEQACbBgAhowQBAI0GACGkBAEAjQYAIaUEAACgBgAgpgQAAKAGACCnBAgAwAYAIagEAQCZBgAhqQRAAJoGACGqBAEAmQYAIasEAgCrBgAhrARAAJsGACEMJAAAjwYAIOYDAACMBgAw5wMAADkAEOgDAACMBgAw6QMBAI0GACGJBAEAjQYAIYoEAQCNBgAhiwQBAI0GACGMBAgAjgYAIY0ECACOBgAhnQUAADkAIJ4FAAA5ACAOHQAA0wYAICYAAOAGACAoAADhBgAgKQAA4gYAIOYDAADfBgAw5wMAADsAEOgDAADfBgAw6QMBAI0GACH7AwEAjQYAIfwDAgChBgAh_QNAAJoGACH-A0AAmgYAIZ0FAAA7ACCeBQAAOwAgDCQAAI8GACArAACgBgAg5gMAAJ8GADDnAwAATQAQ6AMAAJ8GADDvA0AAmgYAIYkEAQCNBgAhmgQCAKEGACGbBAIAoQYAIZwEIACiBgAhnQUAAE0AIJ4FAABNACARJAAAjwYAIOYDAACYBgAw5wMAAE8AEOgDAACYBgAw7wNAAJoGACGJBAEAjQYAIZEEAQCNBgAhkgQBAJkGACGTBAEAmQYAIZQEAQCZBgAhlQQBAJkGACGWBAEAmQYAIZcEAQCZBgAhmAQBAJkGACGZBEAAmwYAIZ0FAABPACCeBQAATwAgFB4AAOwGACAoAADhBgAgLQAA7QYAIC4AANcGACDmAwAA6wYAMOcDAAAwABDoAwAA6wYAMOkDAQCNBgAh7wNAAJoGACGABAEAjQYAIYEEAgCrBgAhhgQBAI0GACGIBEAAmgYAIYoEAQCNBgAhrQQBAI0GACGuBAEAjQYAIa8EAQCNBgAhsAQAAK4GACCxBAAArgYAILIEAQCZBgAhEhwAAMQGACAhAADFBgAgIgAAxgYAIC8AAMcGACAwAADIBgAgMQAAyQYAIOYDAADDBgAw5wMAABwAEOgDAADDBgAw6QMCAKEGACHvA0AAmgYAIYgEQACaBgAhrwQBAJkGACHaBEAAmgYAIeMEAQCNBgAh5ARAAJsGACGdBQAAHAAgngUAABwAIAPlBAAAUQAg5gQAAFEAIOcEAABRACACgQQCAAAAAdcEAgAAAAELHgAAwQYAIOYDAADvBgAw5wMAACwAEOgDAADvBgAw6QMCAKEGACGBBAIAoQYAIYoEAQCNBgAh1wQCAKEGACHYBAEAjQYAIdkEAAC9BgAg2gRAAJoGACEC6gMBAAAAAfsEAQAAAAELHwAA8gYAIC4AAKAGACDmAwAA8QYAMOcDAAAnABDoAwAA8QYAMOkDAgChBgAh6gMBAI0GACHvA0AAmgYAIYgEQACaBgAh-wQBAI0GACH8BAEAmQYAISMdAAD0BgAgHgAA7AYAICAAAPUGACAuAACgBgAg5gMAAPMGADDnAwAAIQAQ6AMAAPMGADDpAwEAjQYAIe8DQACaBgAh_AMCAKsGACGBBAIAqwYAIYgEQACaBgAhkQQBAI0GACH8BAEAmQYAIf0EAQCZBgAh_gQBAI0GACH_BAIAoQYAIYAFAACgBgAggQUIAMAGACGCBQgAwAYAIYMFAQCZBgAhhAUBAJkGACGFBQAAoAYAIIYFAACgBgAghwUAAK4GACCIBQgAwAYAIYkFAQCNBgAhigUBAI0GACGLBQIAoQYAIYwFAgChBgAhjQUBAJkGACGOBQEAmQYAIY8FQACbBgAhnQUAACEAIJ4FAAAhACAhHQAA9AYAIB4AAOwGACAgAAD1BgAgLgAAoAYAIOYDAADzBgAw5wMAACEAEOgDAADzBgAw6QMBAI0GACHvA0AAmgYAIfwDAgCrBgAhgQQCAKsGACGIBEAAmgYAIZEEAQCNBgAh_AQBAJkGACH9BAEAmQYAIf4EAQCNBgAh_wQCAKEGACGABQAAoAYAIIEFCADABgAhggUIAMAGACGDBQEAmQYAIYQFAQCZBgAhhQUAAKAGACCGBQAAoAYAIIcFAACuBgAgiAUIAMAGACGJBQEAjQYAIYoFAQCNBgAhiwUCAKEGACGMBQIAoQYAIY0FAQCZBgAhjgUBAJkGACGPBUAAmwYAIRgeAADsBgAgIQAAxQYAIDIAAPcGACAzAADhBgAgNAAA-AYAIDUAANgGACDmAwAA9gYAMOcDAAAeABDoAwAA9gYAMOkDAgChBgAh7wNAAJoGACGBBAIAqwYAIYgEQACaBgAhrQQBAI0GACHEBAEAmQYAIdEEAQCZBgAh0gQBAJkGACGQBQEAmQYAIZEFAQCZBgAhkgVAAJsGACGTBQAArgYAIJQFQACbBgAhnQUAAB4AIJ4FAAAeACAD5QQAACcAIOYEAAAnACDnBAAAJwAgFh4AAOwGACAhAADFBgAgMgAA9wYAIDMAAOEGACA0AAD4BgAgNQAA2AYAIOYDAAD2BgAw5wMAAB4AEOgDAAD2BgAw6QMCAKEGACHvA0AAmgYAIYEEAgCrBgAhiARAAJoGACGtBAEAjQYAIcQEAQCZBgAh0QQBAJkGACHSBAEAmQYAIZAFAQCZBgAhkQUBAJkGACGSBUAAmwYAIZMFAACuBgAglAVAAJsGACED5QQAAGUAIOYEAABlACDnBAAAZQAgA-UEAABqACDmBAAAagAg5wQAAGoAIAXmAwAA-QYAMOcDAAAXABDoAwAA-QYAMOkDAgD1BQAh7wNAAPkFACEF5gMAAPoGADDnAwAABAAQ6AMAAPoGADDpAwIAoQYAIe8DQACaBgAhAAAAAAAAAaIFAQAAAAEBogUBAAAAAQWiBQIAAAABqQUCAAAAAaoFAgAAAAGrBQIAAAABrAUCAAAAAQGiBUAAAAABBaIFAgAAAAGpBQIAAAABqgUCAAAAAasFAgAAAAGsBQIAAAABBQ8AANULACAQAADYCwAgnwUAANYLACCgBQAA1wsAIKUFAABCACADDwAA1QsAIJ8FAADWCwAgpQUAAEIAIAAAAAAABQ8AAMELACAQAADTCwAgnwUAAMILACCgBQAA0gsAIKUFAABdACAFDwAAvwsAIBAAANALACCfBQAAwAsAIKAFAADPCwAgpQUAABoAIAsPAACdBwAwEAAAogcAMJ8FAACeBwAwoAUAAJ8HADChBQAAoAcAIKIFAAChBwAwowUAAKEHADCkBQAAoQcAMKUFAAChBwAwpgUAAKMHADCnBQAApAcAMAsPAACRBwAwEAAAlgcAMJ8FAACSBwAwoAUAAJMHADChBQAAlAcAIKIFAACVBwAwowUAAJUHADCkBQAAlQcAMKUFAACVBwAwpgUAAJcHADCnBQAAmAcAMAbpAwIAAAAB6wMBAAAAAewDAQAAAAHtAwIAAAAB7gNAAAAAAe8DQAAAAAECAAAASQAgDwAAnAcAIAMAAABJACAPAACcBwAgEAAAmwcAIAEIAADOCwAwCx8AAN0GACDmAwAA3AYAMOcDAABHABDoAwAA3AYAMOkDAgAAAAHqAwEAjQYAIesDAQCNBgAh7AMBAJkGACHtAwIAqwYAIe4DQACaBgAh7wNAAJoGACECAAAASQAgCAAAmwcAIAIAAACZBwAgCAAAmgcAIArmAwAAmAcAMOcDAACZBwAQ6AMAAJgHADDpAwIAoQYAIeoDAQCNBgAh6wMBAI0GACHsAwEAmQYAIe0DAgCrBgAh7gNAAJoGACHvA0AAmgYAIQrmAwAAmAcAMOcDAACZBwAQ6AMAAJgHADDpAwIAoQYAIeoDAQCNBgAh6wMBAI0GACHsAwEAmQYAIe0DAgCrBgAh7gNAAJoGACHvA0AAmgYAIQbpAwIAhQcAIesDAQCBBwAh7AMBAIIHACHtAwIAgwcAIe4DQACEBwAh7wNAAIQHACEG6QMCAIUHACHrAwEAgQcAIewDAQCCBwAh7QMCAIMHACHuA0AAhAcAIe8DQACEBwAhBukDAgAAAAHrAwEAAAAB7AMBAAAAAe0DAgAAAAHuA0AAAAAB7wNAAAAAARMdAADBBwAgIwAAwgcAICUAAMMHACArAADEBwAgLAAAxQcAIOkDAQAAAAHsAwEAAAAB_AMCAAAAAYYEAQAAAAGZBEAAAAABowQBAAAAAaQEAQAAAAGlBIAAAAABpgSAAAAAAacECAAAAAGoBAEAAAABqQRAAAAAAasEAgAAAAGsBEAAAAABAgAAADcAIA8AAMAHACADAAAANwAgDwAAwAcAIBAAAKkHACABCAAAzQsAMBkdAADTBgAgIwAA2wYAICUAAOcGACAqAADoBgAgKwAA6QYAICwAAOoGACDmAwAA5gYAMOcDAAA1ABDoAwAA5gYAMOkDAQAAAAHsAwEAjQYAIfwDAgChBgAhhgQBAI0GACGZBEAAmwYAIaMEAQCNBgAhpAQBAI0GACGlBAAAoAYAIKYEAACgBgAgpwQIAMAGACGoBAEAmQYAIakEQACaBgAhqgQBAJkGACGrBAIAqwYAIawEQACbBgAhmgUAAOUGACACAAAANwAgCAAAqQcAIAIAAAClBwAgCAAApgcAIBLmAwAApAcAMOcDAAClBwAQ6AMAAKQHADDpAwEAjQYAIewDAQCNBgAh_AMCAKEGACGGBAEAjQYAIZkEQACbBgAhowQBAI0GACGkBAEAjQYAIaUEAACgBgAgpgQAAKAGACCnBAgAwAYAIagEAQCZBgAhqQRAAJoGACGqBAEAmQYAIasEAgCrBgAhrARAAJsGACES5gMAAKQHADDnAwAApQcAEOgDAACkBwAw6QMBAI0GACHsAwEAjQYAIfwDAgChBgAhhgQBAI0GACGZBEAAmwYAIaMEAQCNBgAhpAQBAI0GACGlBAAAoAYAIKYEAACgBgAgpwQIAMAGACGoBAEAmQYAIakEQACaBgAhqgQBAJkGACGrBAIAqwYAIawEQACbBgAhDukDAQCBBwAh7AMBAIEHACH8AwIAhQcAIYYEAQCBBwAhmQRAAKgHACGjBAEAgQcAIaQEAQCBBwAhpQSAAAAAAaYEgAAAAAGnBAgApwcAIagEAQCCBwAhqQRAAIQHACGrBAIAgwcAIawEQACoBwAhBaIFCAAAAAGpBQgAAAABqgUIAAAAAasFCAAAAAGsBQgAAAABAaIFQAAAAAETHQAAqgcAICMAAKsHACAlAACsBwAgKwAArQcAICwAAK4HACDpAwEAgQcAIewDAQCBBwAh_AMCAIUHACGGBAEAgQcAIZkEQACoBwAhowQBAIEHACGkBAEAgQcAIaUEgAAAAAGmBIAAAAABpwQIAKcHACGoBAEAggcAIakEQACEBwAhqwQCAIMHACGsBEAAqAcAIQUPAADFCwAgEAAAywsAIJ8FAADGCwAgoAUAAMoLACClBQAAGgAgBQ8AAMMLACAQAADICwAgnwUAAMQLACCgBQAAxwsAIKUFAAAyACAHDwAAugcAIBAAAL0HACCfBQAAuwcAIKAFAAC8BwAgowUAADkAIKQFAAA5ACClBQAAhAUAIAcPAAC0BwAgEAAAtwcAIJ8FAAC1BwAgoAUAALYHACCjBQAATQAgpAUAAE0AIKUFAAC-BAAgBw8AAK8HACAQAACyBwAgnwUAALAHACCgBQAAsQcAIKMFAABPACCkBQAATwAgpQUAANYEACAK7wNAAAAAAZEEAQAAAAGSBAEAAAABkwQBAAAAAZQEAQAAAAGVBAEAAAABlgQBAAAAAZcEAQAAAAGYBAEAAAABmQRAAAAAAQIAAADWBAAgDwAArwcAIAMAAABPACAPAACvBwAgEAAAswcAIAwAAABPACAIAACzBwAg7wNAAIQHACGRBAEAgQcAIZIEAQCCBwAhkwQBAIIHACGUBAEAggcAIZUEAQCCBwAhlgQBAIIHACGXBAEAggcAIZgEAQCCBwAhmQRAAKgHACEK7wNAAIQHACGRBAEAgQcAIZIEAQCCBwAhkwQBAIIHACGUBAEAggcAIZUEAQCCBwAhlgQBAIIHACGXBAEAggcAIZgEAQCCBwAhmQRAAKgHACEFK4AAAAAB7wNAAAAAAZoEAgAAAAGbBAIAAAABnAQgAAAAAQIAAAC-BAAgDwAAtAcAIAMAAABNACAPAAC0BwAgEAAAuAcAIAcAAABNACAIAAC4BwAgK4AAAAAB7wNAAIQHACGaBAIAhQcAIZsEAgCFBwAhnAQgALkHACEFK4AAAAAB7wNAAIQHACGaBAIAhQcAIZsEAgCFBwAhnAQgALkHACEBogUgAAAAAQXpAwEAAAABigQBAAAAAYsEAQAAAAGMBAgAAAABjQQIAAAAAQIAAACEBQAgDwAAugcAIAMAAAA5ACAPAAC6BwAgEAAAvgcAIAcAAAA5ACAIAAC-BwAg6QMBAIEHACGKBAEAgQcAIYsEAQCBBwAhjAQIAL8HACGNBAgAvwcAIQXpAwEAgQcAIYoEAQCBBwAhiwQBAIEHACGMBAgAvwcAIY0ECAC_BwAhBaIFCAAAAAGpBQgAAAABqgUIAAAAAasFCAAAAAGsBQgAAAABEx0AAMEHACAjAADCBwAgJQAAwwcAICsAAMQHACAsAADFBwAg6QMBAAAAAewDAQAAAAH8AwIAAAABhgQBAAAAAZkEQAAAAAGjBAEAAAABpAQBAAAAAaUEgAAAAAGmBIAAAAABpwQIAAAAAagEAQAAAAGpBEAAAAABqwQCAAAAAawEQAAAAAEDDwAAxQsAIJ8FAADGCwAgpQUAABoAIAMPAADDCwAgnwUAAMQLACClBQAAMgAgAw8AALoHACCfBQAAuwcAIKUFAACEBQAgAw8AALQHACCfBQAAtQcAIKUFAAC-BAAgAw8AAK8HACCfBQAAsAcAIKUFAADWBAAgAw8AAMELACCfBQAAwgsAIKUFAABdACADDwAAvwsAIJ8FAADACwAgpQUAABoAIAQPAACdBwAwnwUAAJ4HADChBQAAoAcAIKUFAAChBwAwBA8AAJEHADCfBQAAkgcAMKEFAACUBwAgpQUAAJUHADAAAAAAAAUPAAC3CwAgEAAAvQsAIJ8FAAC4CwAgoAUAALwLACClBQAAXQAgBQ8AALULACAQAAC6CwAgnwUAALYLACCgBQAAuQsAIKUFAAAyACADDwAAtwsAIJ8FAAC4CwAgpQUAAF0AIAMPAAC1CwAgnwUAALYLACClBQAAMgAgAAAAAAAFDwAArgsAIBAAALMLACCfBQAArwsAIKAFAACyCwAgpQUAAIACACALDwAA5wcAMBAAAOwHADCfBQAA6AcAMKAFAADpBwAwoQUAAOoHACCiBQAA6wcAMKMFAADrBwAwpAUAAOsHADClBQAA6wcAMKYFAADtBwAwpwUAAO4HADALDwAA2wcAMBAAAOAHADCfBQAA3AcAMKAFAADdBwAwoQUAAN4HACCiBQAA3wcAMKMFAADfBwAwpAUAAN8HADClBQAA3wcAMKYFAADhBwAwpwUAAOIHADAHHQAAxwcAICgAAMgHACApAADJBwAg6QMBAAAAAfwDAgAAAAH9A0AAAAAB_gNAAAAAAQIAAABCACAPAADmBwAgAwAAAEIAIA8AAOYHACAQAADlBwAgAQgAALELADANHQAA0wYAICYAAOAGACAoAADhBgAgKQAA4gYAIOYDAADfBgAw5wMAADsAEOgDAADfBgAw6QMBAAAAAfsDAQCNBgAh_AMCAKEGACH9A0AAmgYAIf4DQACaBgAhmAUAAN4GACACAAAAQgAgCAAA5QcAIAIAAADjBwAgCAAA5AcAIAjmAwAA4gcAMOcDAADjBwAQ6AMAAOIHADDpAwEAjQYAIfsDAQCNBgAh_AMCAKEGACH9A0AAmgYAIf4DQACaBgAhCOYDAADiBwAw5wMAAOMHABDoAwAA4gcAMOkDAQCNBgAh-wMBAI0GACH8AwIAoQYAIf0DQACaBgAh_gNAAJoGACEE6QMBAIEHACH8AwIAhQcAIf0DQACEBwAh_gNAAIQHACEHHQAAjgcAICgAAI8HACApAACQBwAg6QMBAIEHACH8AwIAhQcAIf0DQACEBwAh_gNAAIQHACEHHQAAxwcAICgAAMgHACApAADJBwAg6QMBAAAAAfwDAgAAAAH9A0AAAAAB_gNAAAAAAQMjAADSBwAg7AMBAAAAAf8DAgAAAAECAAAAPwAgDwAA8gcAIAMAAAA_ACAPAADyBwAgEAAA8QcAIAEIAACwCwAwCSMAANsGACAmAADgBgAg5gMAAOQGADDnAwAAPQAQ6AMAAOQGADDsAwEAjQYAIfsDAQCNBgAh_wMCAKEGACGZBQAA4wYAIAIAAAA_ACAIAADxBwAgAgAAAO8HACAIAADwBwAgBuYDAADuBwAw5wMAAO8HABDoAwAA7gcAMOwDAQCNBgAh-wMBAI0GACH_AwIAoQYAIQbmAwAA7gcAMOcDAADvBwAQ6AMAAO4HADDsAwEAjQYAIfsDAQCNBgAh_wMCAKEGACEC7AMBAIEHACH_AwIAhQcAIQMjAADQBwAg7AMBAIEHACH_AwIAhQcAIQMjAADSBwAg7AMBAAAAAf8DAgAAAAEDDwAArgsAIJ8FAACvCwAgpQUAAIACACAEDwAA5wcAMJ8FAADoBwAwoQUAAOoHACClBQAA6wcAMAQPAADbBwAwnwUAANwHADChBQAA3gcAIKUFAADfBwAwAAAAAAAFDwAAqQsAIBAAAKwLACCfBQAAqgsAIKAFAACrCwAgpQUAADcAIAMPAACpCwAgnwUAAKoLACClBQAANwAgDB0AAMUKACAjAADICgAgJQAAzQoAICoAAMkKACArAADOCgAgLAAAzwoAIJkEAAD7BgAgpwQAAPsGACCoBAAA-wYAIKoEAAD7BgAgqwQAAPsGACCsBAAA-wYAIAAAAAAABQ8AAKQLACAQAACnCwAgnwUAAKULACCgBQAApgsAIKUFAAAyACADDwAApAsAIJ8FAAClCwAgpQUAADIAIAAAAAUPAACfCwAgEAAAogsAIJ8FAACgCwAgoAUAAKELACClBQAANwAgAw8AAJ8LACCfBQAAoAsAIKUFAAA3ACAAAAAAAAUPAACaCwAgEAAAnQsAIJ8FAACbCwAgoAUAAJwLACClBQAANwAgAw8AAJoLACCfBQAAmwsAIKUFAAA3ACAAAAAAAAcPAACVCwAgEAAAmAsAIJ8FAACWCwAgoAUAAJcLACCjBQAAOwAgpAUAADsAIKUFAABCACADDwAAlQsAIJ8FAACWCwAgpQUAAEIAIAAAAAAABw8AAI0LACAQAACTCwAgnwUAAI4LACCgBQAAkgsAIKMFAAAcACCkBQAAHAAgpQUAAIACACALDwAAtggAMBAAALoIADCfBQAAtwgAMKAFAAC4CAAwoQUAALkIACCiBQAAoQcAMKMFAAChBwAwpAUAAKEHADClBQAAoQcAMKYFAAC7CAAwpwUAAKQHADALDwAAqggAMBAAAK8IADCfBQAAqwgAMKAFAACsCAAwoQUAAK0IACCiBQAArggAMKMFAACuCAAwpAUAAK4IADClBQAArggAMKYFAACwCAAwpwUAALEIADALDwAAoQgAMBAAAKUIADCfBQAAoggAMKAFAACjCAAwoQUAAKQIACCiBQAA6wcAMKMFAADrBwAwpAUAAOsHADClBQAA6wcAMKYFAACmCAAwpwUAAO4HADADJgAA0QcAIPsDAQAAAAH_AwIAAAABAgAAAD8AIA8AAKkIACADAAAAPwAgDwAAqQgAIBAAAKgIACABCAAAkQsAMAIAAAA_ACAIAACoCAAgAgAAAO8HACAIAACnCAAgAvsDAQCBBwAh_wMCAIUHACEDJgAAzwcAIPsDAQCBBwAh_wMCAIUHACEDJgAA0QcAIPsDAQAAAAH_AwIAAAABBukDAQAAAAH_AwIAAAABjAQIAAAAAY4EIAAAAAGPBAEAAAABkAQBAAAAAQIAAABTACAPAAC1CAAgAwAAAFMAIA8AALUIACAQAAC0CAAgAQgAAJALADAMIwAA2wYAIOYDAADaBgAw5wMAAFEAEOgDAADaBgAw6QMBAAAAAewDAQCNBgAh_wMCAKEGACGMBAgAjgYAIY4EIACiBgAhjwQBAI0GACGQBAEAjQYAIZcFAADZBgAgAgAAAFMAIAgAALQIACACAAAAsggAIAgAALMIACAK5gMAALEIADDnAwAAsggAEOgDAACxCAAw6QMBAI0GACHsAwEAjQYAIf8DAgChBgAhjAQIAI4GACGOBCAAogYAIY8EAQCNBgAhkAQBAI0GACEK5gMAALEIADDnAwAAsggAEOgDAACxCAAw6QMBAI0GACHsAwEAjQYAIf8DAgChBgAhjAQIAI4GACGOBCAAogYAIY8EAQCNBgAhkAQBAI0GACEG6QMBAIEHACH_AwIAhQcAIYwECAC_BwAhjgQgALkHACGPBAEAgQcAIZAEAQCBBwAhBukDAQCBBwAh_wMCAIUHACGMBAgAvwcAIY4EIAC5BwAhjwQBAIEHACGQBAEAgQcAIQbpAwEAAAAB_wMCAAAAAYwECAAAAAGOBCAAAAABjwQBAAAAAZAEAQAAAAETHQAAwQcAICUAAMMHACAqAACXCAAgKwAAxAcAICwAAMUHACDpAwEAAAAB_AMCAAAAAYYEAQAAAAGZBEAAAAABowQBAAAAAaQEAQAAAAGlBIAAAAABpgSAAAAAAacECAAAAAGoBAEAAAABqQRAAAAAAaoEAQAAAAGrBAIAAAABrARAAAAAAQIAAAA3ACAPAAC-CAAgAwAAADcAIA8AAL4IACAQAAC9CAAgAQgAAI8LADACAAAANwAgCAAAvQgAIAIAAAClBwAgCAAAvAgAIA7pAwEAgQcAIfwDAgCFBwAhhgQBAIEHACGZBEAAqAcAIaMEAQCBBwAhpAQBAIEHACGlBIAAAAABpgSAAAAAAacECACnBwAhqAQBAIIHACGpBEAAhAcAIaoEAQCCBwAhqwQCAIMHACGsBEAAqAcAIRMdAACqBwAgJQAArAcAICoAAJYIACArAACtBwAgLAAArgcAIOkDAQCBBwAh_AMCAIUHACGGBAEAgQcAIZkEQACoBwAhowQBAIEHACGkBAEAgQcAIaUEgAAAAAGmBIAAAAABpwQIAKcHACGoBAEAggcAIakEQACEBwAhqgQBAIIHACGrBAIAgwcAIawEQACoBwAhEx0AAMEHACAlAADDBwAgKgAAlwgAICsAAMQHACAsAADFBwAg6QMBAAAAAfwDAgAAAAGGBAEAAAABmQRAAAAAAaMEAQAAAAGkBAEAAAABpQSAAAAAAaYEgAAAAAGnBAgAAAABqAQBAAAAAakEQAAAAAGqBAEAAAABqwQCAAAAAawEQAAAAAEDDwAAjQsAIJ8FAACOCwAgpQUAAIACACAEDwAAtggAMJ8FAAC3CAAwoQUAALkIACClBQAAoQcAMAQPAACqCAAwnwUAAKsIADChBQAArQgAIKUFAACuCAAwBA8AAKEIADCfBQAAoggAMKEFAACkCAAgpQUAAOsHADAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAACogUBAAAABKgFAQAAAAUFDwAAiAsAIBAAAIsLACCfBQAAiQsAIKAFAACKCwAgpQUAAIACACABogUBAAAABAMPAACICwAgnwUAAIkLACClBQAAgAIAIAAAAAAAAqIFAQAAAASoBQEAAAAFBQ8AAIMLACAQAACGCwAgnwUAAIQLACCgBQAAhQsAIKUFAACAAgAgAaIFAQAAAAQDDwAAgwsAIJ8FAACECwAgpQUAAIACACAIHAAAmQoAICEAAJoKACAiAACbCgAgLwAAnAoAIDAAAJ0KACAxAACeCgAgrwQAAPsGACDkBAAA-wYAIAAAAAAACw8AAMgJADAQAADNCQAwnwUAAMkJADCgBQAAygkAMKEFAADLCQAgogUAAMwJADCjBQAAzAkAMKQFAADMCQAwpQUAAMwJADCmBQAAzgkAMKcFAADPCQAwCw8AAKwJADAQAACxCQAwnwUAAK0JADCgBQAArgkAMKEFAACvCQAgogUAALAJADCjBQAAsAkAMKQFAACwCQAwpQUAALAJADCmBQAAsgkAMKcFAACzCQAwCw8AAKAJADAQAAClCQAwnwUAAKEJADCgBQAAogkAMKEFAACjCQAgogUAAKQJADCjBQAApAkAMKQFAACkCQAwpQUAAKQJADCmBQAApgkAMKcFAACnCQAwCw8AAJQJADAQAACZCQAwnwUAAJUJADCgBQAAlgkAMKEFAACXCQAgogUAAJgJADCjBQAAmAkAMKQFAACYCQAwpQUAAJgJADCmBQAAmgkAMKcFAACbCQAwBw8AAI8JACAQAACSCQAgnwUAAJAJACCgBQAAkQkAIKMFAABZACCkBQAAWQAgpQUAAJgCACALDwAAgwkAMBAAAIgJADCfBQAAhAkAMKAFAACFCQAwoQUAAIYJACCiBQAAhwkAMKMFAACHCQAwpAUAAIcJADClBQAAhwkAMKYFAACJCQAwpwUAAIoJADAMIQAA9QcAICcAAPQHACDpAwEAAAAB7wNAAAAAAYAEAQAAAAGCBEAAAAABgwRAAAAAAYQEAgAAAAGFBAIAAAABhgQBAAAAAYcEAQAAAAGIBEAAAAABAgAAAF0AIA8AAI4JACADAAAAXQAgDwAAjgkAIBAAAI0JACABCAAAggsAMBEeAADBBgAgIQAA2AYAICcAANcGACDmAwAA1gYAMOcDAABbABDoAwAA1gYAMOkDAQAAAAHvA0AAmgYAIYAEAQCNBgAhgQQCAKEGACGCBEAAmgYAIYMEQACaBgAhhAQCAKEGACGFBAIAoQYAIYYEAQCZBgAhhwQBAJkGACGIBEAAmgYAIQIAAABdACAIAACNCQAgAgAAAIsJACAIAACMCQAgDuYDAACKCQAw5wMAAIsJABDoAwAAigkAMOkDAQCNBgAh7wNAAJoGACGABAEAjQYAIYEEAgChBgAhggRAAJoGACGDBEAAmgYAIYQEAgChBgAhhQQCAKEGACGGBAEAmQYAIYcEAQCZBgAhiARAAJoGACEO5gMAAIoJADDnAwAAiwkAEOgDAACKCQAw6QMBAI0GACHvA0AAmgYAIYAEAQCNBgAhgQQCAKEGACGCBEAAmgYAIYMEQACaBgAhhAQCAKEGACGFBAIAoQYAIYYEAQCZBgAhhwQBAJkGACGIBEAAmgYAIQrpAwEAgQcAIe8DQACEBwAhgAQBAIEHACGCBEAAhAcAIYMEQACEBwAhhAQCAIUHACGFBAIAhQcAIYYEAQCCBwAhhwQBAIIHACGIBEAAhAcAIQwhAADaBwAgJwAA2QcAIOkDAQCBBwAh7wNAAIQHACGABAEAgQcAIYIEQACEBwAhgwRAAIQHACGEBAIAhQcAIYUEAgCFBwAhhgQBAIIHACGHBAEAggcAIYgEQACEBwAhDCEAAPUHACAnAAD0BwAg6QMBAAAAAe8DQAAAAAGABAEAAAABggRAAAAAAYMEQAAAAAGEBAIAAAABhQQCAAAAAYYEAQAAAAGHBAEAAAABiARAAAAAAQjpAwIAAAAB7wNAAAAAAYgEQAAAAAHeBAIAAAAB3wQCAAAAAeAECAAAAAHhBAAA9QgAIOIECAAAAAECAAAAmAIAIA8AAI8JACADAAAAWQAgDwAAjwkAIBAAAJMJACAKAAAAWQAgCAAAkwkAIOkDAgCFBwAh7wNAAIQHACGIBEAAhAcAId4EAgCFBwAh3wQCAIUHACHgBAgApwcAIeEEAADzCAAg4gQIAL8HACEI6QMCAIUHACHvA0AAhAcAIYgEQACEBwAh3gQCAIUHACHfBAIAhQcAIeAECACnBwAh4QQAAPMIACDiBAgAvwcAIQ8oAADACAAgLQAAwQgAIC4AAMIIACDpAwEAAAAB7wNAAAAAAYAEAQAAAAGGBAEAAAABiARAAAAAAYoEAQAAAAGtBAEAAAABrgQBAAAAAa8EAQAAAAGwBIAAAAABsQSAAAAAAbIEAQAAAAECAAAAMgAgDwAAnwkAIAMAAAAyACAPAACfCQAgEAAAngkAIAEIAACBCwAwFB4AAOwGACAoAADhBgAgLQAA7QYAIC4AANcGACDmAwAA6wYAMOcDAAAwABDoAwAA6wYAMOkDAQAAAAHvA0AAmgYAIYAEAQCNBgAhgQQCAKsGACGGBAEAjQYAIYgEQACaBgAhigQBAI0GACGtBAEAAAABrgQBAI0GACGvBAEAjQYAIbAEAACuBgAgsQQAAK4GACCyBAEAmQYAIQIAAAAyACAIAACeCQAgAgAAAJwJACAIAACdCQAgEOYDAACbCQAw5wMAAJwJABDoAwAAmwkAMOkDAQCNBgAh7wNAAJoGACGABAEAjQYAIYEEAgCrBgAhhgQBAI0GACGIBEAAmgYAIYoEAQCNBgAhrQQBAI0GACGuBAEAjQYAIa8EAQCNBgAhsAQAAK4GACCxBAAArgYAILIEAQCZBgAhEOYDAACbCQAw5wMAAJwJABDoAwAAmwkAMOkDAQCNBgAh7wNAAJoGACGABAEAjQYAIYEEAgCrBgAhhgQBAI0GACGIBEAAmgYAIYoEAQCNBgAhrQQBAI0GACGuBAEAjQYAIa8EAQCNBgAhsAQAAK4GACCxBAAArgYAILIEAQCZBgAhDOkDAQCBBwAh7wNAAIQHACGABAEAgQcAIYYEAQCBBwAhiARAAIQHACGKBAEAgQcAIa0EAQCBBwAhrgQBAIEHACGvBAEAgQcAIbAEgAAAAAGxBIAAAAABsgQBAIIHACEPKAAAnggAIC0AAJ8IACAuAACgCAAg6QMBAIEHACHvA0AAhAcAIYAEAQCBBwAhhgQBAIEHACGIBEAAhAcAIYoEAQCBBwAhrQQBAIEHACGuBAEAgQcAIa8EAQCBBwAhsASAAAAAAbEEgAAAAAGyBAEAggcAIQ8oAADACAAgLQAAwQgAIC4AAMIIACDpAwEAAAAB7wNAAAAAAYAEAQAAAAGGBAEAAAABiARAAAAAAYoEAQAAAAGtBAEAAAABrgQBAAAAAa8EAQAAAAGwBIAAAAABsQSAAAAAAbIEAQAAAAEG6QMCAAAAAYoEAQAAAAHXBAIAAAAB2AQBAAAAAdkEAADsCAAg2gRAAAAAAQIAAAAuACAPAACrCQAgAwAAAC4AIA8AAKsJACAQAACqCQAgAQgAAIALADAMHgAAwQYAIOYDAADvBgAw5wMAACwAEOgDAADvBgAw6QMCAAAAAYEEAgChBgAhigQBAI0GACHXBAIAoQYAIdgEAQCNBgAh2QQAAL0GACDaBEAAmgYAIZsFAADuBgAgAgAAAC4AIAgAAKoJACACAAAAqAkAIAgAAKkJACAK5gMAAKcJADDnAwAAqAkAEOgDAACnCQAw6QMCAKEGACGBBAIAoQYAIYoEAQCNBgAh1wQCAKEGACHYBAEAjQYAIdkEAAC9BgAg2gRAAJoGACEK5gMAAKcJADDnAwAAqAkAEOgDAACnCQAw6QMCAKEGACGBBAIAoQYAIYoEAQCNBgAh1wQCAKEGACHYBAEAjQYAIdkEAAC9BgAg2gRAAJoGACEG6QMCAIUHACGKBAEAgQcAIdcEAgCFBwAh2AQBAIEHACHZBAAA6ggAINoEQACEBwAhBukDAgCFBwAhigQBAIEHACHXBAIAhQcAIdgEAQCBBwAh2QQAAOoIACDaBEAAhAcAIQbpAwIAAAABigQBAAAAAdcEAgAAAAHYBAEAAAAB2QQAAOwIACDaBEAAAAABHB0AAMYJACAgAADHCQAgLoAAAAAB6QMBAAAAAe8DQAAAAAH8AwIAAAABiARAAAAAAZEEAQAAAAH8BAEAAAAB_QQBAAAAAf4EAQAAAAH_BAIAAAABgAWAAAAAAYEFCAAAAAGCBQgAAAABgwUBAAAAAYQFAQAAAAGFBYAAAAABhgWAAAAAAYcFgAAAAAGIBQgAAAABiQUBAAAAAYoFAQAAAAGLBQIAAAABjAUCAAAAAY0FAQAAAAGOBQEAAAABjwVAAAAAAQIAAAAjACAPAADFCQAgAwAAACMAIA8AAMUJACAQAAC2CQAgAQgAAP8KADAhHQAA9AYAIB4AAOwGACAgAAD1BgAgLgAAoAYAIOYDAADzBgAw5wMAACEAEOgDAADzBgAw6QMBAAAAAe8DQACaBgAh_AMCAKsGACGBBAIAqwYAIYgEQACaBgAhkQQBAI0GACH8BAEAmQYAIf0EAQCZBgAh_gQBAI0GACH_BAIAoQYAIYAFAACgBgAggQUIAMAGACGCBQgAwAYAIYMFAQCZBgAhhAUBAJkGACGFBQAAoAYAIIYFAACgBgAghwUAAK4GACCIBQgAwAYAIYkFAQCNBgAhigUBAI0GACGLBQIAoQYAIYwFAgChBgAhjQUBAJkGACGOBQEAmQYAIY8FQACbBgAhAgAAACMAIAgAALYJACACAAAAtAkAIAgAALUJACAeLgAAoAYAIOYDAACzCQAw5wMAALQJABDoAwAAswkAMOkDAQCNBgAh7wNAAJoGACH8AwIAqwYAIYEEAgCrBgAhiARAAJoGACGRBAEAjQYAIfwEAQCZBgAh_QQBAJkGACH-BAEAjQYAIf8EAgChBgAhgAUAAKAGACCBBQgAwAYAIYIFCADABgAhgwUBAJkGACGEBQEAmQYAIYUFAACgBgAghgUAAKAGACCHBQAArgYAIIgFCADABgAhiQUBAI0GACGKBQEAjQYAIYsFAgChBgAhjAUCAKEGACGNBQEAmQYAIY4FAQCZBgAhjwVAAJsGACEeLgAAoAYAIOYDAACzCQAw5wMAALQJABDoAwAAswkAMOkDAQCNBgAh7wNAAJoGACH8AwIAqwYAIYEEAgCrBgAhiARAAJoGACGRBAEAjQYAIfwEAQCZBgAh_QQBAJkGACH-BAEAjQYAIf8EAgChBgAhgAUAAKAGACCBBQgAwAYAIYIFCADABgAhgwUBAJkGACGEBQEAmQYAIYUFAACgBgAghgUAAKAGACCHBQAArgYAIIgFCADABgAhiQUBAI0GACGKBQEAjQYAIYsFAgChBgAhjAUCAKEGACGNBQEAmQYAIY4FAQCZBgAhjwVAAJsGACEaLoAAAAAB6QMBAIEHACHvA0AAhAcAIfwDAgCDBwAhiARAAIQHACGRBAEAgQcAIfwEAQCCBwAh_QQBAIIHACH-BAEAgQcAIf8EAgCFBwAhgAWAAAAAAYEFCACnBwAhggUIAKcHACGDBQEAggcAIYQFAQCCBwAhhQWAAAAAAYYFgAAAAAGHBYAAAAABiAUIAKcHACGJBQEAgQcAIYoFAQCBBwAhiwUCAIUHACGMBQIAhQcAIY0FAQCCBwAhjgUBAIIHACGPBUAAqAcAIRwdAAC3CQAgIAAAuAkAIC6AAAAAAekDAQCBBwAh7wNAAIQHACH8AwIAgwcAIYgEQACEBwAhkQQBAIEHACH8BAEAggcAIf0EAQCCBwAh_gQBAIEHACH_BAIAhQcAIYAFgAAAAAGBBQgApwcAIYIFCACnBwAhgwUBAIIHACGEBQEAggcAIYUFgAAAAAGGBYAAAAABhwWAAAAAAYgFCACnBwAhiQUBAIEHACGKBQEAgQcAIYsFAgCFBwAhjAUCAIUHACGNBQEAggcAIY4FAQCCBwAhjwVAAKgHACEHDwAA-QoAIBAAAP0KACCfBQAA-goAIKAFAAD8CgAgowUAAB4AIKQFAAAeACClBQAAGgAgCw8AALkJADAQAAC-CQAwnwUAALoJADCgBQAAuwkAMKEFAAC8CQAgogUAAL0JADCjBQAAvQkAMKQFAAC9CQAwpQUAAL0JADCmBQAAvwkAMKcFAADACQAwBi6AAAAAAekDAgAAAAHvA0AAAAABiARAAAAAAfsEAQAAAAH8BAEAAAABAgAAACkAIA8AAMQJACADAAAAKQAgDwAAxAkAIBAAAMMJACABCAAA-woAMAwfAADyBgAgLgAAoAYAIOYDAADxBgAw5wMAACcAEOgDAADxBgAw6QMCAAAAAeoDAQCNBgAh7wNAAJoGACGIBEAAmgYAIfsEAQCNBgAh_AQBAJkGACGcBQAA8AYAIAIAAAApACAIAADDCQAgAgAAAMEJACAIAADCCQAgCi4AAKAGACDmAwAAwAkAMOcDAADBCQAQ6AMAAMAJADDpAwIAoQYAIeoDAQCNBgAh7wNAAJoGACGIBEAAmgYAIfsEAQCNBgAh_AQBAJkGACEKLgAAoAYAIOYDAADACQAw5wMAAMEJABDoAwAAwAkAMOkDAgChBgAh6gMBAI0GACHvA0AAmgYAIYgEQACaBgAh-wQBAI0GACH8BAEAmQYAIQYugAAAAAHpAwIAhQcAIe8DQACEBwAhiARAAIQHACH7BAEAgQcAIfwEAQCCBwAhBi6AAAAAAekDAgCFBwAh7wNAAIQHACGIBEAAhAcAIfsEAQCBBwAh_AQBAIIHACEGLoAAAAAB6QMCAAAAAe8DQAAAAAGIBEAAAAAB-wQBAAAAAfwEAQAAAAEcHQAAxgkAICAAAMcJACAugAAAAAHpAwEAAAAB7wNAAAAAAfwDAgAAAAGIBEAAAAABkQQBAAAAAfwEAQAAAAH9BAEAAAAB_gQBAAAAAf8EAgAAAAGABYAAAAABgQUIAAAAAYIFCAAAAAGDBQEAAAABhAUBAAAAAYUFgAAAAAGGBYAAAAABhwWAAAAAAYgFCAAAAAGJBQEAAAABigUBAAAAAYsFAgAAAAGMBQIAAAABjQUBAAAAAY4FAQAAAAGPBUAAAAABAw8AAPkKACCfBQAA-goAIKUFAAAaACAEDwAAuQkAMJ8FAAC6CQAwoQUAALwJACClBQAAvQkAMBEhAACOCgAgMgAAjwoAIDMAAJAKACA0AACRCgAgNQAAkgoAIOkDAgAAAAHvA0AAAAABiARAAAAAAa0EAQAAAAHEBAEAAAAB0QQBAAAAAdIEAQAAAAGQBQEAAAABkQUBAAAAAZIFQAAAAAGTBYAAAAABlAVAAAAAAQIAAAAaACAPAACNCgAgAwAAABoAIA8AAI0KACAQAADSCQAgAQgAAPgKADAWHgAA7AYAICEAAMUGACAyAAD3BgAgMwAA4QYAIDQAAPgGACA1AADYBgAg5gMAAPYGADDnAwAAHgAQ6AMAAPYGADDpAwIAAAAB7wNAAJoGACGBBAIAqwYAIYgEQACaBgAhrQQBAAAAAcQEAQAAAAHRBAEAAAAB0gQBAJkGACGQBQEAmQYAIZEFAQCZBgAhkgVAAJsGACGTBQAArgYAIJQFQACbBgAhAgAAABoAIAgAANIJACACAAAA0AkAIAgAANEJACAQ5gMAAM8JADDnAwAA0AkAEOgDAADPCQAw6QMCAKEGACHvA0AAmgYAIYEEAgCrBgAhiARAAJoGACGtBAEAjQYAIcQEAQCZBgAh0QQBAJkGACHSBAEAmQYAIZAFAQCZBgAhkQUBAJkGACGSBUAAmwYAIZMFAACuBgAglAVAAJsGACEQ5gMAAM8JADDnAwAA0AkAEOgDAADPCQAw6QMCAKEGACHvA0AAmgYAIYEEAgCrBgAhiARAAJoGACGtBAEAjQYAIcQEAQCZBgAh0QQBAJkGACHSBAEAmQYAIZAFAQCZBgAhkQUBAJkGACGSBUAAmwYAIZMFAACuBgAglAVAAJsGACEM6QMCAIUHACHvA0AAhAcAIYgEQACEBwAhrQQBAIEHACHEBAEAggcAIdEEAQCCBwAh0gQBAIIHACGQBQEAggcAIZEFAQCCBwAhkgVAAKgHACGTBYAAAAABlAVAAKgHACERIQAA0wkAIDIAANQJACAzAADVCQAgNAAA1gkAIDUAANcJACDpAwIAhQcAIe8DQACEBwAhiARAAIQHACGtBAEAgQcAIcQEAQCCBwAh0QQBAIIHACHSBAEAggcAIZAFAQCCBwAhkQUBAIIHACGSBUAAqAcAIZMFgAAAAAGUBUAAqAcAIQsPAACCCgAwEAAAhgoAMJ8FAACDCgAwoAUAAIQKADChBQAAhQoAIKIFAACwCQAwowUAALAJADCkBQAAsAkAMKUFAACwCQAwpgUAAIcKADCnBQAAswkAMAsPAAD2CQAwEAAA-wkAMJ8FAAD3CQAwoAUAAPgJADChBQAA-QkAIKIFAAD6CQAwowUAAPoJADCkBQAA-gkAMKUFAAD6CQAwpgUAAPwJADCnBQAA_QkAMAsPAADtCQAwEAAA8QkAMJ8FAADuCQAwoAUAAO8JADChBQAA8AkAIKIFAAChBwAwowUAAKEHADCkBQAAoQcAMKUFAAChBwAwpgUAAPIJADCnBQAApAcAMAsPAADhCQAwEAAA5gkAMJ8FAADiCQAwoAUAAOMJADChBQAA5AkAIKIFAADlCQAwowUAAOUJADCkBQAA5QkAMKUFAADlCQAwpgUAAOcJADCnBQAA6AkAMAsPAADYCQAwEAAA3AkAMJ8FAADZCQAwoAUAANoJADChBQAA2wkAIKIFAADfBwAwowUAAN8HADCkBQAA3wcAMKUFAADfBwAwpgUAAN0JADCnBQAA4gcAMAcmAADGBwAgKAAAyAcAICkAAMkHACDpAwEAAAAB-wMBAAAAAf0DQAAAAAH-A0AAAAABAgAAAEIAIA8AAOAJACADAAAAQgAgDwAA4AkAIBAAAN8JACABCAAA9woAMAIAAABCACAIAADfCQAgAgAAAOMHACAIAADeCQAgBOkDAQCBBwAh-wMBAIEHACH9A0AAhAcAIf4DQACEBwAhByYAAI0HACAoAACPBwAgKQAAkAcAIOkDAQCBBwAh-wMBAIEHACH9A0AAhAcAIf4DQACEBwAhByYAAMYHACAoAADIBwAgKQAAyQcAIOkDAQAAAAH7AwEAAAAB_QNAAAAAAf4DQAAAAAER6QMCAAAAAe8DQAAAAAGIBEAAAAAB6QQBAAAAAeoEAQAAAAHrBAEAAAAB7AQBAAAAAe0EAQAAAAHuBIAAAAAB7wQBAAAAAfAECAAAAAHxBAgAAAAB8gQCAAAAAfMEAgAAAAH0BEAAAAAB9QRAAAAAAfYEAgAAAAECAAAAbAAgDwAA7AkAIAMAAABsACAPAADsCQAgEAAA6wkAIAEIAAD2CgAwFx0AANMGACDmAwAA0gYAMOcDAABqABDoAwAA0gYAMOkDAgAAAAHvA0AAmgYAIfwDAgChBgAhiARAAJoGACHpBAEAjQYAIeoEAQCNBgAh6wQBAI0GACHsBAEAjQYAIe0EAQCNBgAh7gQAAKAGACDvBAEAjQYAIfAECACOBgAh8QQIAI4GACHyBAIAoQYAIfMEAgChBgAh9ARAAJoGACH1BEAAmwYAIfYEAgCrBgAhlQUAANEGACACAAAAbAAgCAAA6wkAIAIAAADpCQAgCAAA6gkAIBXmAwAA6AkAMOcDAADpCQAQ6AMAAOgJADDpAwIAoQYAIe8DQACaBgAh_AMCAKEGACGIBEAAmgYAIekEAQCNBgAh6gQBAI0GACHrBAEAjQYAIewEAQCNBgAh7QQBAI0GACHuBAAAoAYAIO8EAQCNBgAh8AQIAI4GACHxBAgAjgYAIfIEAgChBgAh8wQCAKEGACH0BEAAmgYAIfUEQACbBgAh9gQCAKsGACEV5gMAAOgJADDnAwAA6QkAEOgDAADoCQAw6QMCAKEGACHvA0AAmgYAIfwDAgChBgAhiARAAJoGACHpBAEAjQYAIeoEAQCNBgAh6wQBAI0GACHsBAEAjQYAIe0EAQCNBgAh7gQAAKAGACDvBAEAjQYAIfAECACOBgAh8QQIAI4GACHyBAIAoQYAIfMEAgChBgAh9ARAAJoGACH1BEAAmwYAIfYEAgCrBgAhEekDAgCFBwAh7wNAAIQHACGIBEAAhAcAIekEAQCBBwAh6gQBAIEHACHrBAEAgQcAIewEAQCBBwAh7QQBAIEHACHuBIAAAAAB7wQBAIEHACHwBAgAvwcAIfEECAC_BwAh8gQCAIUHACHzBAIAhQcAIfQEQACEBwAh9QRAAKgHACH2BAIAgwcAIRHpAwIAhQcAIe8DQACEBwAhiARAAIQHACHpBAEAgQcAIeoEAQCBBwAh6wQBAIEHACHsBAEAgQcAIe0EAQCBBwAh7gSAAAAAAe8EAQCBBwAh8AQIAL8HACHxBAgAvwcAIfIEAgCFBwAh8wQCAIUHACH0BEAAhAcAIfUEQACoBwAh9gQCAIMHACER6QMCAAAAAe8DQAAAAAGIBEAAAAAB6QQBAAAAAeoEAQAAAAHrBAEAAAAB7AQBAAAAAe0EAQAAAAHuBIAAAAAB7wQBAAAAAfAECAAAAAHxBAgAAAAB8gQCAAAAAfMEAgAAAAH0BEAAAAAB9QRAAAAAAfYEAgAAAAETIwAAwgcAICUAAMMHACAqAACXCAAgKwAAxAcAICwAAMUHACDpAwEAAAAB7AMBAAAAAYYEAQAAAAGZBEAAAAABowQBAAAAAaQEAQAAAAGlBIAAAAABpgSAAAAAAacECAAAAAGoBAEAAAABqQRAAAAAAaoEAQAAAAGrBAIAAAABrARAAAAAAQIAAAA3ACAPAAD1CQAgAwAAADcAIA8AAPUJACAQAAD0CQAgAQgAAPUKADACAAAANwAgCAAA9AkAIAIAAAClBwAgCAAA8wkAIA7pAwEAgQcAIewDAQCBBwAhhgQBAIEHACGZBEAAqAcAIaMEAQCBBwAhpAQBAIEHACGlBIAAAAABpgSAAAAAAacECACnBwAhqAQBAIIHACGpBEAAhAcAIaoEAQCCBwAhqwQCAIMHACGsBEAAqAcAIRMjAACrBwAgJQAArAcAICoAAJYIACArAACtBwAgLAAArgcAIOkDAQCBBwAh7AMBAIEHACGGBAEAgQcAIZkEQACoBwAhowQBAIEHACGkBAEAgQcAIaUEgAAAAAGmBIAAAAABpwQIAKcHACGoBAEAggcAIakEQACEBwAhqgQBAIIHACGrBAIAgwcAIawEQACoBwAhEyMAAMIHACAlAADDBwAgKgAAlwgAICsAAMQHACAsAADFBwAg6QMBAAAAAewDAQAAAAGGBAEAAAABmQRAAAAAAaMEAQAAAAGkBAEAAAABpQSAAAAAAaYEgAAAAAGnBAgAAAABqAQBAAAAAakEQAAAAAGqBAEAAAABqwQCAAAAAawEQAAAAAEH6QMBAAAAAeoEAQAAAAHrBAEAAAAB9wQIAAAAAfgECAAAAAH5BAIAAAAB-gRAAAAAAQIAAABnACAPAACBCgAgAwAAAGcAIA8AAIEKACAQAACACgAgAQgAAPQKADANHQAA0wYAIOYDAADVBgAw5wMAAGUAEOgDAADVBgAw6QMBAAAAAfwDAgChBgAh6gQBAI0GACHrBAEAjQYAIfcECACOBgAh-AQIAMAGACH5BAIAoQYAIfoEQACaBgAhlgUAANQGACACAAAAZwAgCAAAgAoAIAIAAAD-CQAgCAAA_wkAIAvmAwAA_QkAMOcDAAD-CQAQ6AMAAP0JADDpAwEAjQYAIfwDAgChBgAh6gQBAI0GACHrBAEAjQYAIfcECACOBgAh-AQIAMAGACH5BAIAoQYAIfoEQACaBgAhC-YDAAD9CQAw5wMAAP4JABDoAwAA_QkAMOkDAQCNBgAh_AMCAKEGACHqBAEAjQYAIesEAQCNBgAh9wQIAI4GACH4BAgAwAYAIfkEAgChBgAh-gRAAJoGACEH6QMBAIEHACHqBAEAgQcAIesEAQCBBwAh9wQIAL8HACH4BAgApwcAIfkEAgCFBwAh-gRAAIQHACEH6QMBAIEHACHqBAEAgQcAIesEAQCBBwAh9wQIAL8HACH4BAgApwcAIfkEAgCFBwAh-gRAAIQHACEH6QMBAAAAAeoEAQAAAAHrBAEAAAAB9wQIAAAAAfgECAAAAAH5BAIAAAAB-gRAAAAAARweAACMCgAgIAAAxwkAIC6AAAAAAekDAQAAAAHvA0AAAAABgQQCAAAAAYgEQAAAAAGRBAEAAAAB_AQBAAAAAf0EAQAAAAH-BAEAAAAB_wQCAAAAAYAFgAAAAAGBBQgAAAABggUIAAAAAYMFAQAAAAGEBQEAAAABhQWAAAAAAYYFgAAAAAGHBYAAAAABiAUIAAAAAYkFAQAAAAGKBQEAAAABiwUCAAAAAYwFAgAAAAGNBQEAAAABjgUBAAAAAY8FQAAAAAECAAAAIwAgDwAAiwoAIAMAAAAjACAPAACLCgAgEAAAiQoAIAEIAADzCgAwAgAAACMAIAgAAIkKACACAAAAtAkAIAgAAIgKACAaLoAAAAAB6QMBAIEHACHvA0AAhAcAIYEEAgCDBwAhiARAAIQHACGRBAEAgQcAIfwEAQCCBwAh_QQBAIIHACH-BAEAgQcAIf8EAgCFBwAhgAWAAAAAAYEFCACnBwAhggUIAKcHACGDBQEAggcAIYQFAQCCBwAhhQWAAAAAAYYFgAAAAAGHBYAAAAABiAUIAKcHACGJBQEAgQcAIYoFAQCBBwAhiwUCAIUHACGMBQIAhQcAIY0FAQCCBwAhjgUBAIIHACGPBUAAqAcAIRweAACKCgAgIAAAuAkAIC6AAAAAAekDAQCBBwAh7wNAAIQHACGBBAIAgwcAIYgEQACEBwAhkQQBAIEHACH8BAEAggcAIf0EAQCCBwAh_gQBAIEHACH_BAIAhQcAIYAFgAAAAAGBBQgApwcAIYIFCACnBwAhgwUBAIIHACGEBQEAggcAIYUFgAAAAAGGBYAAAAABhwWAAAAAAYgFCACnBwAhiQUBAIEHACGKBQEAgQcAIYsFAgCFBwAhjAUCAIUHACGNBQEAggcAIY4FAQCCBwAhjwVAAKgHACEHDwAA7goAIBAAAPEKACCfBQAA7woAIKAFAADwCgAgowUAABwAIKQFAAAcACClBQAAgAIAIBweAACMCgAgIAAAxwkAIC6AAAAAAekDAQAAAAHvA0AAAAABgQQCAAAAAYgEQAAAAAGRBAEAAAAB_AQBAAAAAf0EAQAAAAH-BAEAAAAB_wQCAAAAAYAFgAAAAAGBBQgAAAABggUIAAAAAYMFAQAAAAGEBQEAAAABhQWAAAAAAYYFgAAAAAGHBYAAAAABiAUIAAAAAYkFAQAAAAGKBQEAAAABiwUCAAAAAYwFAgAAAAGNBQEAAAABjgUBAAAAAY8FQAAAAAEDDwAA7goAIJ8FAADvCgAgpQUAAIACACARIQAAjgoAIDIAAI8KACAzAACQCgAgNAAAkQoAIDUAAJIKACDpAwIAAAAB7wNAAAAAAYgEQAAAAAGtBAEAAAABxAQBAAAAAdEEAQAAAAHSBAEAAAABkAUBAAAAAZEFAQAAAAGSBUAAAAABkwWAAAAAAZQFQAAAAAEEDwAAggoAMJ8FAACDCgAwoQUAAIUKACClBQAAsAkAMAQPAAD2CQAwnwUAAPcJADChBQAA-QkAIKUFAAD6CQAwBA8AAO0JADCfBQAA7gkAMKEFAADwCQAgpQUAAKEHADAEDwAA4QkAMJ8FAADiCQAwoQUAAOQJACClBQAA5QkAMAQPAADYCQAwnwUAANkJADChBQAA2wkAIKUFAADfBwAwBA8AAMgJADCfBQAAyQkAMKEFAADLCQAgpQUAAMwJADAEDwAArAkAMJ8FAACtCQAwoQUAAK8JACClBQAAsAkAMAQPAACgCQAwnwUAAKEJADChBQAAowkAIKUFAACkCQAwBA8AAJQJADCfBQAAlQkAMKEFAACXCQAgpQUAAJgJADADDwAAjwkAIJ8FAACQCQAgpQUAAJgCACAEDwAAgwkAMJ8FAACECQAwoQUAAIYJACClBQAAhwkAMAAAAAACHgAA9wgAIOAEAAD7BgAgAAAAAAAAAAAAAAAFDwAA6QoAIBAAAOwKACCfBQAA6goAIKAFAADrCgAgpQUAABoAIAMPAADpCgAgnwUAAOoKACClBQAAGgAgAAAAAAAFDwAA5AoAIBAAAOcKACCfBQAA5QoAIKAFAADmCgAgpQUAABoAIAMPAADkCgAgnwUAAOUKACClBQAAGgAgAAAAAAAFDwAA3woAIBAAAOIKACCfBQAA4AoAIKAFAADhCgAgpQUAACMAIAMPAADfCgAgnwUAAOAKACClBQAAIwAgAAAAAAAAAAAAAAcPAADaCgAgEAAA3QoAIJ8FAADbCgAgoAUAANwKACCjBQAAHAAgpAUAABwAIKUFAACAAgAgAw8AANoKACCfBQAA2woAIKUFAACAAgAgDx4AAPcIACAhAACaCgAgMgAA0woAIDMAAMsKACA0AADUCgAgNQAAxwoAIIEEAAD7BgAgxAQAAPsGACDRBAAA-wYAINIEAAD7BgAgkAUAAPsGACCRBQAA-wYAIJIFAAD7BgAgkwUAAPsGACCUBQAA-wYAIAAACB4AAPcIACAoAADLCgAgLQAA0AoAIC4AAMYKACCBBAAA-wYAILAEAAD7BgAgsQQAAPsGACCyBAAA-wYAIAQdAADFCgAgJgAAygoAICgAAMsKACApAADMCgAgBR4AAPcIACAhAADHCgAgJwAAxgoAIIYEAAD7BgAghwQAAPsGACAAAAEkAAD9BwAgASQAAP0HACAJJAAA_QcAIJIEAAD7BgAgkwQAAPsGACCUBAAA-wYAIJUEAAD7BgAglgQAAPsGACCXBAAA-wYAIJgEAAD7BgAgmQQAAPsGACAAEB0AAMUKACAeAAD3CAAgIAAA0goAIPwDAAD7BgAggQQAAPsGACD8BAAA-wYAIP0EAAD7BgAggQUAAPsGACCCBQAA-wYAIIMFAAD7BgAghAUAAPsGACCHBQAA-wYAIIgFAAD7BgAgjQUAAPsGACCOBQAA-wYAII8FAAD7BgAgAAAAAAAAAAAMIQAAlAoAICIAAJUKACAvAACWCgAgMAAAlwoAIDEAAJgKACDpAwIAAAAB7wNAAAAAAYgEQAAAAAGvBAEAAAAB2gRAAAAAAeMEAQAAAAHkBEAAAAABAgAAAIACACAPAADaCgAgAwAAABwAIA8AANoKACAQAADeCgAgDgAAABwAIAgAAN4KACAhAAD-CAAgIgAA_wgAIC8AAIAJACAwAACBCQAgMQAAggkAIOkDAgCFBwAh7wNAAIQHACGIBEAAhAcAIa8EAQCCBwAh2gRAAIQHACHjBAEAgQcAIeQEQACoBwAhDCEAAP4IACAiAAD_CAAgLwAAgAkAIDAAAIEJACAxAACCCQAg6QMCAIUHACHvA0AAhAcAIYgEQACEBwAhrwQBAIIHACHaBEAAhAcAIeMEAQCBBwAh5ARAAKgHACEdHQAAxgkAIB4AAIwKACAugAAAAAHpAwEAAAAB7wNAAAAAAfwDAgAAAAGBBAIAAAABiARAAAAAAZEEAQAAAAH8BAEAAAAB_QQBAAAAAf4EAQAAAAH_BAIAAAABgAWAAAAAAYEFCAAAAAGCBQgAAAABgwUBAAAAAYQFAQAAAAGFBYAAAAABhgWAAAAAAYcFgAAAAAGIBQgAAAABiQUBAAAAAYoFAQAAAAGLBQIAAAABjAUCAAAAAY0FAQAAAAGOBQEAAAABjwVAAAAAAQIAAAAjACAPAADfCgAgAwAAACEAIA8AAN8KACAQAADjCgAgHwAAACEAIAgAAOMKACAdAAC3CQAgHgAAigoAIC6AAAAAAekDAQCBBwAh7wNAAIQHACH8AwIAgwcAIYEEAgCDBwAhiARAAIQHACGRBAEAgQcAIfwEAQCCBwAh_QQBAIIHACH-BAEAgQcAIf8EAgCFBwAhgAWAAAAAAYEFCACnBwAhggUIAKcHACGDBQEAggcAIYQFAQCCBwAhhQWAAAAAAYYFgAAAAAGHBYAAAAABiAUIAKcHACGJBQEAgQcAIYoFAQCBBwAhiwUCAIUHACGMBQIAhQcAIY0FAQCCBwAhjgUBAIIHACGPBUAAqAcAIR0dAAC3CQAgHgAAigoAIC6AAAAAAekDAQCBBwAh7wNAAIQHACH8AwIAgwcAIYEEAgCDBwAhiARAAIQHACGRBAEAgQcAIfwEAQCCBwAh_QQBAIIHACH-BAEAgQcAIf8EAgCFBwAhgAWAAAAAAYEFCACnBwAhggUIAKcHACGDBQEAggcAIYQFAQCCBwAhhQWAAAAAAYYFgAAAAAGHBYAAAAABiAUIAKcHACGJBQEAgQcAIYoFAQCBBwAhiwUCAIUHACGMBQIAhQcAIY0FAQCCBwAhjgUBAIIHACGPBUAAqAcAIRIeAADECgAgIQAAjgoAIDMAAJAKACA0AACRCgAgNQAAkgoAIOkDAgAAAAHvA0AAAAABgQQCAAAAAYgEQAAAAAGtBAEAAAABxAQBAAAAAdEEAQAAAAHSBAEAAAABkAUBAAAAAZEFAQAAAAGSBUAAAAABkwWAAAAAAZQFQAAAAAECAAAAGgAgDwAA5AoAIAMAAAAeACAPAADkCgAgEAAA6AoAIBQAAAAeACAIAADoCgAgHgAAwwoAICEAANMJACAzAADVCQAgNAAA1gkAIDUAANcJACDpAwIAhQcAIe8DQACEBwAhgQQCAIMHACGIBEAAhAcAIa0EAQCBBwAhxAQBAIIHACHRBAEAggcAIdIEAQCCBwAhkAUBAIIHACGRBQEAggcAIZIFQACoBwAhkwWAAAAAAZQFQACoBwAhEh4AAMMKACAhAADTCQAgMwAA1QkAIDQAANYJACA1AADXCQAg6QMCAIUHACHvA0AAhAcAIYEEAgCDBwAhiARAAIQHACGtBAEAgQcAIcQEAQCCBwAh0QQBAIIHACHSBAEAggcAIZAFAQCCBwAhkQUBAIIHACGSBUAAqAcAIZMFgAAAAAGUBUAAqAcAIRIeAADECgAgIQAAjgoAIDIAAI8KACAzAACQCgAgNQAAkgoAIOkDAgAAAAHvA0AAAAABgQQCAAAAAYgEQAAAAAGtBAEAAAABxAQBAAAAAdEEAQAAAAHSBAEAAAABkAUBAAAAAZEFAQAAAAGSBUAAAAABkwWAAAAAAZQFQAAAAAECAAAAGgAgDwAA6QoAIAMAAAAeACAPAADpCgAgEAAA7QoAIBQAAAAeACAIAADtCgAgHgAAwwoAICEAANMJACAyAADUCQAgMwAA1QkAIDUAANcJACDpAwIAhQcAIe8DQACEBwAhgQQCAIMHACGIBEAAhAcAIa0EAQCBBwAhxAQBAIIHACHRBAEAggcAIdIEAQCCBwAhkAUBAIIHACGRBQEAggcAIZIFQACoBwAhkwWAAAAAAZQFQACoBwAhEh4AAMMKACAhAADTCQAgMgAA1AkAIDMAANUJACA1AADXCQAg6QMCAIUHACHvA0AAhAcAIYEEAgCDBwAhiARAAIQHACGtBAEAgQcAIcQEAQCCBwAh0QQBAIIHACHSBAEAggcAIZAFAQCCBwAhkQUBAIIHACGSBUAAqAcAIZMFgAAAAAGUBUAAqAcAIQwcAACTCgAgIgAAlQoAIC8AAJYKACAwAACXCgAgMQAAmAoAIOkDAgAAAAHvA0AAAAABiARAAAAAAa8EAQAAAAHaBEAAAAAB4wQBAAAAAeQEQAAAAAECAAAAgAIAIA8AAO4KACADAAAAHAAgDwAA7goAIBAAAPIKACAOAAAAHAAgCAAA8goAIBwAAP0IACAiAAD_CAAgLwAAgAkAIDAAAIEJACAxAACCCQAg6QMCAIUHACHvA0AAhAcAIYgEQACEBwAhrwQBAIIHACHaBEAAhAcAIeMEAQCBBwAh5ARAAKgHACEMHAAA_QgAICIAAP8IACAvAACACQAgMAAAgQkAIDEAAIIJACDpAwIAhQcAIe8DQACEBwAhiARAAIQHACGvBAEAggcAIdoEQACEBwAh4wQBAIEHACHkBEAAqAcAIRougAAAAAHpAwEAAAAB7wNAAAAAAYEEAgAAAAGIBEAAAAABkQQBAAAAAfwEAQAAAAH9BAEAAAAB_gQBAAAAAf8EAgAAAAGABYAAAAABgQUIAAAAAYIFCAAAAAGDBQEAAAABhAUBAAAAAYUFgAAAAAGGBYAAAAABhwWAAAAAAYgFCAAAAAGJBQEAAAABigUBAAAAAYsFAgAAAAGMBQIAAAABjQUBAAAAAY4FAQAAAAGPBUAAAAABB-kDAQAAAAHqBAEAAAAB6wQBAAAAAfcECAAAAAH4BAgAAAAB-QQCAAAAAfoEQAAAAAEO6QMBAAAAAewDAQAAAAGGBAEAAAABmQRAAAAAAaMEAQAAAAGkBAEAAAABpQSAAAAAAaYEgAAAAAGnBAgAAAABqAQBAAAAAakEQAAAAAGqBAEAAAABqwQCAAAAAawEQAAAAAER6QMCAAAAAe8DQAAAAAGIBEAAAAAB6QQBAAAAAeoEAQAAAAHrBAEAAAAB7AQBAAAAAe0EAQAAAAHuBIAAAAAB7wQBAAAAAfAECAAAAAHxBAgAAAAB8gQCAAAAAfMEAgAAAAH0BEAAAAAB9QRAAAAAAfYEAgAAAAEE6QMBAAAAAfsDAQAAAAH9A0AAAAAB_gNAAAAAAQzpAwIAAAAB7wNAAAAAAYgEQAAAAAGtBAEAAAABxAQBAAAAAdEEAQAAAAHSBAEAAAABkAUBAAAAAZEFAQAAAAGSBUAAAAABkwWAAAAAAZQFQAAAAAESHgAAxAoAIDIAAI8KACAzAACQCgAgNAAAkQoAIDUAAJIKACDpAwIAAAAB7wNAAAAAAYEEAgAAAAGIBEAAAAABrQQBAAAAAcQEAQAAAAHRBAEAAAAB0gQBAAAAAZAFAQAAAAGRBQEAAAABkgVAAAAAAZMFgAAAAAGUBUAAAAABAgAAABoAIA8AAPkKACAGLoAAAAAB6QMCAAAAAe8DQAAAAAGIBEAAAAAB-wQBAAAAAfwEAQAAAAEDAAAAHgAgDwAA-QoAIBAAAP4KACAUAAAAHgAgCAAA_goAIB4AAMMKACAyAADUCQAgMwAA1QkAIDQAANYJACA1AADXCQAg6QMCAIUHACHvA0AAhAcAIYEEAgCDBwAhiARAAIQHACGtBAEAgQcAIcQEAQCCBwAh0QQBAIIHACHSBAEAggcAIZAFAQCCBwAhkQUBAIIHACGSBUAAqAcAIZMFgAAAAAGUBUAAqAcAIRIeAADDCgAgMgAA1AkAIDMAANUJACA0AADWCQAgNQAA1wkAIOkDAgCFBwAh7wNAAIQHACGBBAIAgwcAIYgEQACEBwAhrQQBAIEHACHEBAEAggcAIdEEAQCCBwAh0gQBAIIHACGQBQEAggcAIZEFAQCCBwAhkgVAAKgHACGTBYAAAAABlAVAAKgHACEaLoAAAAAB6QMBAAAAAe8DQAAAAAH8AwIAAAABiARAAAAAAZEEAQAAAAH8BAEAAAAB_QQBAAAAAf4EAQAAAAH_BAIAAAABgAWAAAAAAYEFCAAAAAGCBQgAAAABgwUBAAAAAYQFAQAAAAGFBYAAAAABhgWAAAAAAYcFgAAAAAGIBQgAAAABiQUBAAAAAYoFAQAAAAGLBQIAAAABjAUCAAAAAY0FAQAAAAGOBQEAAAABjwVAAAAAAQbpAwIAAAABigQBAAAAAdcEAgAAAAHYBAEAAAAB2QQAAOwIACDaBEAAAAABDOkDAQAAAAHvA0AAAAABgAQBAAAAAYYEAQAAAAGIBEAAAAABigQBAAAAAa0EAQAAAAGuBAEAAAABrwQBAAAAAbAEgAAAAAGxBIAAAAABsgQBAAAAAQrpAwEAAAAB7wNAAAAAAYAEAQAAAAGCBEAAAAABgwRAAAAAAYQEAgAAAAGFBAIAAAABhgQBAAAAAYcEAQAAAAGIBEAAAAABDBwAAJMKACAhAACUCgAgIgAAlQoAIC8AAJYKACAxAACYCgAg6QMCAAAAAe8DQAAAAAGIBEAAAAABrwQBAAAAAdoEQAAAAAHjBAEAAAAB5ARAAAAAAQIAAACAAgAgDwAAgwsAIAMAAAAcACAPAACDCwAgEAAAhwsAIA4AAAAcACAIAACHCwAgHAAA_QgAICEAAP4IACAiAAD_CAAgLwAAgAkAIDEAAIIJACDpAwIAhQcAIe8DQACEBwAhiARAAIQHACGvBAEAggcAIdoEQACEBwAh4wQBAIEHACHkBEAAqAcAIQwcAAD9CAAgIQAA_ggAICIAAP8IACAvAACACQAgMQAAggkAIOkDAgCFBwAh7wNAAIQHACGIBEAAhAcAIa8EAQCCBwAh2gRAAIQHACHjBAEAgQcAIeQEQACoBwAhDBwAAJMKACAhAACUCgAgLwAAlgoAIDAAAJcKACAxAACYCgAg6QMCAAAAAe8DQAAAAAGIBEAAAAABrwQBAAAAAdoEQAAAAAHjBAEAAAAB5ARAAAAAAQIAAACAAgAgDwAAiAsAIAMAAAAcACAPAACICwAgEAAAjAsAIA4AAAAcACAIAACMCwAgHAAA_QgAICEAAP4IACAvAACACQAgMAAAgQkAIDEAAIIJACDpAwIAhQcAIe8DQACEBwAhiARAAIQHACGvBAEAggcAIdoEQACEBwAh4wQBAIEHACHkBEAAqAcAIQwcAAD9CAAgIQAA_ggAIC8AAIAJACAwAACBCQAgMQAAggkAIOkDAgCFBwAh7wNAAIQHACGIBEAAhAcAIa8EAQCCBwAh2gRAAIQHACHjBAEAgQcAIeQEQACoBwAhDBwAAJMKACAhAACUCgAgIgAAlQoAIDAAAJcKACAxAACYCgAg6QMCAAAAAe8DQAAAAAGIBEAAAAABrwQBAAAAAdoEQAAAAAHjBAEAAAAB5ARAAAAAAQIAAACAAgAgDwAAjQsAIA7pAwEAAAAB_AMCAAAAAYYEAQAAAAGZBEAAAAABowQBAAAAAaQEAQAAAAGlBIAAAAABpgSAAAAAAacECAAAAAGoBAEAAAABqQRAAAAAAaoEAQAAAAGrBAIAAAABrARAAAAAAQbpAwEAAAAB_wMCAAAAAYwECAAAAAGOBCAAAAABjwQBAAAAAZAEAQAAAAEC-wMBAAAAAf8DAgAAAAEDAAAAHAAgDwAAjQsAIBAAAJQLACAOAAAAHAAgCAAAlAsAIBwAAP0IACAhAAD-CAAgIgAA_wgAIDAAAIEJACAxAACCCQAg6QMCAIUHACHvA0AAhAcAIYgEQACEBwAhrwQBAIIHACHaBEAAhAcAIeMEAQCBBwAh5ARAAKgHACEMHAAA_QgAICEAAP4IACAiAAD_CAAgMAAAgQkAIDEAAIIJACDpAwIAhQcAIe8DQACEBwAhiARAAIQHACGvBAEAggcAIdoEQACEBwAh4wQBAIEHACHkBEAAqAcAIQgdAADHBwAgJgAAxgcAICkAAMkHACDpAwEAAAAB-wMBAAAAAfwDAgAAAAH9A0AAAAAB_gNAAAAAAQIAAABCACAPAACVCwAgAwAAADsAIA8AAJULACAQAACZCwAgCgAAADsAIAgAAJkLACAdAACOBwAgJgAAjQcAICkAAJAHACDpAwEAgQcAIfsDAQCBBwAh_AMCAIUHACH9A0AAhAcAIf4DQACEBwAhCB0AAI4HACAmAACNBwAgKQAAkAcAIOkDAQCBBwAh-wMBAIEHACH8AwIAhQcAIf0DQACEBwAh_gNAAIQHACEUHQAAwQcAICMAAMIHACAlAADDBwAgKgAAlwgAICwAAMUHACDpAwEAAAAB7AMBAAAAAfwDAgAAAAGGBAEAAAABmQRAAAAAAaMEAQAAAAGkBAEAAAABpQSAAAAAAaYEgAAAAAGnBAgAAAABqAQBAAAAAakEQAAAAAGqBAEAAAABqwQCAAAAAawEQAAAAAECAAAANwAgDwAAmgsAIAMAAAA1ACAPAACaCwAgEAAAngsAIBYAAAA1ACAIAACeCwAgHQAAqgcAICMAAKsHACAlAACsBwAgKgAAlggAICwAAK4HACDpAwEAgQcAIewDAQCBBwAh_AMCAIUHACGGBAEAgQcAIZkEQACoBwAhowQBAIEHACGkBAEAgQcAIaUEgAAAAAGmBIAAAAABpwQIAKcHACGoBAEAggcAIakEQACEBwAhqgQBAIIHACGrBAIAgwcAIawEQACoBwAhFB0AAKoHACAjAACrBwAgJQAArAcAICoAAJYIACAsAACuBwAg6QMBAIEHACHsAwEAgQcAIfwDAgCFBwAhhgQBAIEHACGZBEAAqAcAIaMEAQCBBwAhpAQBAIEHACGlBIAAAAABpgSAAAAAAacECACnBwAhqAQBAIIHACGpBEAAhAcAIaoEAQCCBwAhqwQCAIMHACGsBEAAqAcAIRQdAADBBwAgIwAAwgcAICUAAMMHACAqAACXCAAgKwAAxAcAIOkDAQAAAAHsAwEAAAAB_AMCAAAAAYYEAQAAAAGZBEAAAAABowQBAAAAAaQEAQAAAAGlBIAAAAABpgSAAAAAAacECAAAAAGoBAEAAAABqQRAAAAAAaoEAQAAAAGrBAIAAAABrARAAAAAAQIAAAA3ACAPAACfCwAgAwAAADUAIA8AAJ8LACAQAACjCwAgFgAAADUAIAgAAKMLACAdAACqBwAgIwAAqwcAICUAAKwHACAqAACWCAAgKwAArQcAIOkDAQCBBwAh7AMBAIEHACH8AwIAhQcAIYYEAQCBBwAhmQRAAKgHACGjBAEAgQcAIaQEAQCBBwAhpQSAAAAAAaYEgAAAAAGnBAgApwcAIagEAQCCBwAhqQRAAIQHACGqBAEAggcAIasEAgCDBwAhrARAAKgHACEUHQAAqgcAICMAAKsHACAlAACsBwAgKgAAlggAICsAAK0HACDpAwEAgQcAIewDAQCBBwAh_AMCAIUHACGGBAEAgQcAIZkEQACoBwAhowQBAIEHACGkBAEAgQcAIaUEgAAAAAGmBIAAAAABpwQIAKcHACGoBAEAggcAIakEQACEBwAhqgQBAIIHACGrBAIAgwcAIawEQACoBwAhEB4AAL8IACAoAADACAAgLgAAwggAIOkDAQAAAAHvA0AAAAABgAQBAAAAAYEEAgAAAAGGBAEAAAABiARAAAAAAYoEAQAAAAGtBAEAAAABrgQBAAAAAa8EAQAAAAGwBIAAAAABsQSAAAAAAbIEAQAAAAECAAAAMgAgDwAApAsAIAMAAAAwACAPAACkCwAgEAAAqAsAIBIAAAAwACAIAACoCwAgHgAAnQgAICgAAJ4IACAuAACgCAAg6QMBAIEHACHvA0AAhAcAIYAEAQCBBwAhgQQCAIMHACGGBAEAgQcAIYgEQACEBwAhigQBAIEHACGtBAEAgQcAIa4EAQCBBwAhrwQBAIEHACGwBIAAAAABsQSAAAAAAbIEAQCCBwAhEB4AAJ0IACAoAACeCAAgLgAAoAgAIOkDAQCBBwAh7wNAAIQHACGABAEAgQcAIYEEAgCDBwAhhgQBAIEHACGIBEAAhAcAIYoEAQCBBwAhrQQBAIEHACGuBAEAgQcAIa8EAQCBBwAhsASAAAAAAbEEgAAAAAGyBAEAggcAIRQdAADBBwAgIwAAwgcAICoAAJcIACArAADEBwAgLAAAxQcAIOkDAQAAAAHsAwEAAAAB_AMCAAAAAYYEAQAAAAGZBEAAAAABowQBAAAAAaQEAQAAAAGlBIAAAAABpgSAAAAAAacECAAAAAGoBAEAAAABqQRAAAAAAaoEAQAAAAGrBAIAAAABrARAAAAAAQIAAAA3ACAPAACpCwAgAwAAADUAIA8AAKkLACAQAACtCwAgFgAAADUAIAgAAK0LACAdAACqBwAgIwAAqwcAICoAAJYIACArAACtBwAgLAAArgcAIOkDAQCBBwAh7AMBAIEHACH8AwIAhQcAIYYEAQCBBwAhmQRAAKgHACGjBAEAgQcAIaQEAQCBBwAhpQSAAAAAAaYEgAAAAAGnBAgApwcAIagEAQCCBwAhqQRAAIQHACGqBAEAggcAIasEAgCDBwAhrARAAKgHACEUHQAAqgcAICMAAKsHACAqAACWCAAgKwAArQcAICwAAK4HACDpAwEAgQcAIewDAQCBBwAh_AMCAIUHACGGBAEAgQcAIZkEQACoBwAhowQBAIEHACGkBAEAgQcAIaUEgAAAAAGmBIAAAAABpwQIAKcHACGoBAEAggcAIakEQACEBwAhqgQBAIIHACGrBAIAgwcAIawEQACoBwAhDBwAAJMKACAhAACUCgAgIgAAlQoAIC8AAJYKACAwAACXCgAg6QMCAAAAAe8DQAAAAAGIBEAAAAABrwQBAAAAAdoEQAAAAAHjBAEAAAAB5ARAAAAAAQIAAACAAgAgDwAArgsAIALsAwEAAAAB_wMCAAAAAQTpAwEAAAAB_AMCAAAAAf0DQAAAAAH-A0AAAAABAwAAABwAIA8AAK4LACAQAAC0CwAgDgAAABwAIAgAALQLACAcAAD9CAAgIQAA_ggAICIAAP8IACAvAACACQAgMAAAgQkAIOkDAgCFBwAh7wNAAIQHACGIBEAAhAcAIa8EAQCCBwAh2gRAAIQHACHjBAEAgQcAIeQEQACoBwAhDBwAAP0IACAhAAD-CAAgIgAA_wgAIC8AAIAJACAwAACBCQAg6QMCAIUHACHvA0AAhAcAIYgEQACEBwAhrwQBAIIHACHaBEAAhAcAIeMEAQCBBwAh5ARAAKgHACEQHgAAvwgAICgAAMAIACAtAADBCAAg6QMBAAAAAe8DQAAAAAGABAEAAAABgQQCAAAAAYYEAQAAAAGIBEAAAAABigQBAAAAAa0EAQAAAAGuBAEAAAABrwQBAAAAAbAEgAAAAAGxBIAAAAABsgQBAAAAAQIAAAAyACAPAAC1CwAgDR4AAPMHACAhAAD1BwAg6QMBAAAAAe8DQAAAAAGABAEAAAABgQQCAAAAAYIEQAAAAAGDBEAAAAABhAQCAAAAAYUEAgAAAAGGBAEAAAABhwQBAAAAAYgEQAAAAAECAAAAXQAgDwAAtwsAIAMAAAAwACAPAAC1CwAgEAAAuwsAIBIAAAAwACAIAAC7CwAgHgAAnQgAICgAAJ4IACAtAACfCAAg6QMBAIEHACHvA0AAhAcAIYAEAQCBBwAhgQQCAIMHACGGBAEAgQcAIYgEQACEBwAhigQBAIEHACGtBAEAgQcAIa4EAQCBBwAhrwQBAIEHACGwBIAAAAABsQSAAAAAAbIEAQCCBwAhEB4AAJ0IACAoAACeCAAgLQAAnwgAIOkDAQCBBwAh7wNAAIQHACGABAEAgQcAIYEEAgCDBwAhhgQBAIEHACGIBEAAhAcAIYoEAQCBBwAhrQQBAIEHACGuBAEAgQcAIa8EAQCBBwAhsASAAAAAAbEEgAAAAAGyBAEAggcAIQMAAABbACAPAAC3CwAgEAAAvgsAIA8AAABbACAIAAC-CwAgHgAA2AcAICEAANoHACDpAwEAgQcAIe8DQACEBwAhgAQBAIEHACGBBAIAhQcAIYIEQACEBwAhgwRAAIQHACGEBAIAhQcAIYUEAgCFBwAhhgQBAIIHACGHBAEAggcAIYgEQACEBwAhDR4AANgHACAhAADaBwAg6QMBAIEHACHvA0AAhAcAIYAEAQCBBwAhgQQCAIUHACGCBEAAhAcAIYMEQACEBwAhhAQCAIUHACGFBAIAhQcAIYYEAQCCBwAhhwQBAIIHACGIBEAAhAcAIRIeAADECgAgIQAAjgoAIDIAAI8KACAzAACQCgAgNAAAkQoAIOkDAgAAAAHvA0AAAAABgQQCAAAAAYgEQAAAAAGtBAEAAAABxAQBAAAAAdEEAQAAAAHSBAEAAAABkAUBAAAAAZEFAQAAAAGSBUAAAAABkwWAAAAAAZQFQAAAAAECAAAAGgAgDwAAvwsAIA0eAADzBwAgJwAA9AcAIOkDAQAAAAHvA0AAAAABgAQBAAAAAYEEAgAAAAGCBEAAAAABgwRAAAAAAYQEAgAAAAGFBAIAAAABhgQBAAAAAYcEAQAAAAGIBEAAAAABAgAAAF0AIA8AAMELACAQHgAAvwgAIC0AAMEIACAuAADCCAAg6QMBAAAAAe8DQAAAAAGABAEAAAABgQQCAAAAAYYEAQAAAAGIBEAAAAABigQBAAAAAa0EAQAAAAGuBAEAAAABrwQBAAAAAbAEgAAAAAGxBIAAAAABsgQBAAAAAQIAAAAyACAPAADDCwAgEh4AAMQKACAhAACOCgAgMgAAjwoAIDQAAJEKACA1AACSCgAg6QMCAAAAAe8DQAAAAAGBBAIAAAABiARAAAAAAa0EAQAAAAHEBAEAAAAB0QQBAAAAAdIEAQAAAAGQBQEAAAABkQUBAAAAAZIFQAAAAAGTBYAAAAABlAVAAAAAAQIAAAAaACAPAADFCwAgAwAAADAAIA8AAMMLACAQAADJCwAgEgAAADAAIAgAAMkLACAeAACdCAAgLQAAnwgAIC4AAKAIACDpAwEAgQcAIe8DQACEBwAhgAQBAIEHACGBBAIAgwcAIYYEAQCBBwAhiARAAIQHACGKBAEAgQcAIa0EAQCBBwAhrgQBAIEHACGvBAEAgQcAIbAEgAAAAAGxBIAAAAABsgQBAIIHACEQHgAAnQgAIC0AAJ8IACAuAACgCAAg6QMBAIEHACHvA0AAhAcAIYAEAQCBBwAhgQQCAIMHACGGBAEAgQcAIYgEQACEBwAhigQBAIEHACGtBAEAgQcAIa4EAQCBBwAhrwQBAIEHACGwBIAAAAABsQSAAAAAAbIEAQCCBwAhAwAAAB4AIA8AAMULACAQAADMCwAgFAAAAB4AIAgAAMwLACAeAADDCgAgIQAA0wkAIDIAANQJACA0AADWCQAgNQAA1wkAIOkDAgCFBwAh7wNAAIQHACGBBAIAgwcAIYgEQACEBwAhrQQBAIEHACHEBAEAggcAIdEEAQCCBwAh0gQBAIIHACGQBQEAggcAIZEFAQCCBwAhkgVAAKgHACGTBYAAAAABlAVAAKgHACESHgAAwwoAICEAANMJACAyAADUCQAgNAAA1gkAIDUAANcJACDpAwIAhQcAIe8DQACEBwAhgQQCAIMHACGIBEAAhAcAIa0EAQCBBwAhxAQBAIIHACHRBAEAggcAIdIEAQCCBwAhkAUBAIIHACGRBQEAggcAIZIFQACoBwAhkwWAAAAAAZQFQACoBwAhDukDAQAAAAHsAwEAAAAB_AMCAAAAAYYEAQAAAAGZBEAAAAABowQBAAAAAaQEAQAAAAGlBIAAAAABpgSAAAAAAacECAAAAAGoBAEAAAABqQRAAAAAAasEAgAAAAGsBEAAAAABBukDAgAAAAHrAwEAAAAB7AMBAAAAAe0DAgAAAAHuA0AAAAAB7wNAAAAAAQMAAAAeACAPAAC_CwAgEAAA0QsAIBQAAAAeACAIAADRCwAgHgAAwwoAICEAANMJACAyAADUCQAgMwAA1QkAIDQAANYJACDpAwIAhQcAIe8DQACEBwAhgQQCAIMHACGIBEAAhAcAIa0EAQCBBwAhxAQBAIIHACHRBAEAggcAIdIEAQCCBwAhkAUBAIIHACGRBQEAggcAIZIFQACoBwAhkwWAAAAAAZQFQACoBwAhEh4AAMMKACAhAADTCQAgMgAA1AkAIDMAANUJACA0AADWCQAg6QMCAIUHACHvA0AAhAcAIYEEAgCDBwAhiARAAIQHACGtBAEAgQcAIcQEAQCCBwAh0QQBAIIHACHSBAEAggcAIZAFAQCCBwAhkQUBAIIHACGSBUAAqAcAIZMFgAAAAAGUBUAAqAcAIQMAAABbACAPAADBCwAgEAAA1AsAIA8AAABbACAIAADUCwAgHgAA2AcAICcAANkHACDpAwEAgQcAIe8DQACEBwAhgAQBAIEHACGBBAIAhQcAIYIEQACEBwAhgwRAAIQHACGEBAIAhQcAIYUEAgCFBwAhhgQBAIIHACGHBAEAggcAIYgEQACEBwAhDR4AANgHACAnAADZBwAg6QMBAIEHACHvA0AAhAcAIYAEAQCBBwAhgQQCAIUHACGCBEAAhAcAIYMEQACEBwAhhAQCAIUHACGFBAIAhQcAIYYEAQCCBwAhhwQBAIIHACGIBEAAhAcAIQgdAADHBwAgJgAAxgcAICgAAMgHACDpAwEAAAAB-wMBAAAAAfwDAgAAAAH9A0AAAAAB_gNAAAAAAQIAAABCACAPAADVCwAgAwAAADsAIA8AANULACAQAADZCwAgCgAAADsAIAgAANkLACAdAACOBwAgJgAAjQcAICgAAI8HACDpAwEAgQcAIfsDAQCBBwAh_AMCAIUHACH9A0AAhAcAIf4DQACEBwAhCB0AAI4HACAmAACNBwAgKAAAjwcAIOkDAQCBBwAh-wMBAIEHACH8AwIAhQcAIf0DQACEBwAh_gNAAIQHACEAAAAABRUABhYABxcACBgACRkACgAAAAAABRUABhYABxcACBgACRkACgcVACMeHQ0hZA4yaCEzaRM0bSI1bhUHFQAgHCAMISQOIi8RLzMSMFofMV4WBBUAEB0lDB4mDSAqDwEfAA4BICsAAR4ADQUVAB4eNA0oOBMtVB0uVRcGHQAMIwASJToUKjwVK04bLFAcASQAEwUVABodAAwmABYoRhMpShkEFQAYHgANIUMVJ0AXAiMAEiYAFgIhRQAnRAABHwAVAihLAClMAAEkABMBJAATASMAEgMoVgAtVwAuWAABHgANBRxfACFgACJhAC9iADFjAAEdAAwBHQAMBSFvADJwADNxADRyADVzAAEefQ0BHoMBDQUVACcWACgXACkYACoZACsAAAAAAAUVACcWACgXACkYACoZACsCHZUBDB6WAQ0CHZwBDB6dAQ0FFQAwFgAxFwAyGAAzGQA0AAAAAAAFFQAwFgAxFwAyGAAzGQA0AR8ADgEfAA4FFQA5FgA6FwA7GAA8GQA9AAAAAAAFFQA5FgA6FwA7GAA8GQA9AR0ADAEdAAwFFQBCFgBDFwBEGABFGQBGAAAAAAAFFQBCFgBDFwBEGABFGQBGAR0ADAEdAAwFFQBLFgBMFwBNGABOGQBPAAAAAAAFFQBLFgBMFwBNGABOGQBPAAAABRUAVRYAVhcAVxgAWBkAWQAAAAAABRUAVRYAVhcAVxgAWBkAWQAABRUAXhYAXxcAYBgAYRkAYgAAAAAABRUAXhYAXxcAYBgAYRkAYgEeAA0BHgANBRUAZxYAaBcAaRgAahkAawAAAAAABRUAZxYAaBcAaRgAahkAawEeAA0BHgANBRUAcBYAcRcAchgAcxkAdAAAAAAABRUAcBYAcRcAchgAcxkAdAAAAAUVAHoWAHsXAHwYAH0ZAH4AAAAAAAUVAHoWAHsXAHwYAH0ZAH4AAAAFFQCEARYAhQEXAIYBGACHARkAiAEAAAAAAAUVAIQBFgCFARcAhgEYAIcBGQCIAQAAAAUVAI4BFgCPARcAkAEYAJEBGQCSAQAAAAAABRUAjgEWAI8BFwCQARgAkQEZAJIBAAAAAxUAmAEYAJkBGQCaAQAAAAMVAJgBGACZARkAmgEAAAADFQCgARgAoQEZAKIBAAAAAxUAoAEYAKEBGQCiAQAAAAMVAKgBGACpARkAqgEAAAADFQCoARgAqQEZAKoBAAAABRUAsAEWALEBFwCyARgAswEZALQBAAAAAAAFFQCwARYAsQEXALIBGACzARkAtAEAAAAFFQC6ARYAuwEXALwBGAC9ARkAvgEAAAAAAAUVALoBFgC7ARcAvAEYAL0BGQC-AQEemAQNAR6eBA0FFQDDARYAxAEXAMUBGADGARkAxwEAAAAAAAUVAMMBFgDEARcAxQEYAMYBGQDHAQMdAAwjABIqsAQVAx0ADCMAEiq2BBUFFQDMARYAzQEXAM4BGADPARkA0AEAAAAAAAUVAMwBFgDNARcAzgEYAM8BGQDQAQEkABMBJAATBRUA1QEWANYBFwDXARgA2AEZANkBAAAAAAAFFQDVARYA1gEXANcBGADYARkA2QEBJAATASQAEwMVAN4BGADfARkA4AEAAAADFQDeARgA3wEZAOABASMAEgEjABIFFQDlARYA5gEXAOcBGADoARkA6QEAAAAAAAUVAOUBFgDmARcA5wEYAOgBGQDpAQEkABMBJAATBRUA7gEWAO8BFwDwARgA8QEZAPIBAAAAAAAFFQDuARYA7wEXAPABGADxARkA8gEBHgANAR4ADQUVAPcBFgD4ARcA-QEYAPoBGQD7AQAAAAAABRUA9wEWAPgBFwD5ARgA-gEZAPsBAiMAEiYAFgIjABImABYFFQCAAhYAgQIXAIICGACDAhkAhAIAAAAAAAUVAIACFgCBAhcAggIYAIMCGQCEAgIdAAwmABYCHQAMJgAWBRUAiQIWAIoCFwCLAhgAjAIZAI0CAAAAAAAFFQCJAhYAigIXAIsCGACMAhkAjQIBHwAVAR8AFQUVAJICFgCTAhcAlAIYAJUCGQCWAgAAAAAABRUAkgIWAJMCFwCUAhgAlQIZAJYCAQIBAgMBBQYBBgcBBwgBCQoBCgwCCw0DDA8BDRECDhIEERMBEhQBExUCGhgFGxkLNhsMN3QMOHUMOXYMOncMO3kMPHsCPXwkPn8MP4EBAkCCASVBhAEMQoUBDEOGAQJEiQEmRYoBLEaLAQ5HjAEOSI0BDkmOAQ5KjwEOS5EBDkyTAQJNlAEtTpgBDk-aAQJQmwEuUZ4BDlKfAQ5ToAECVKMBL1WkATVWpQEPV6YBD1inAQ9ZqAEPWqkBD1urAQ9crQECXa4BNl6wAQ9fsgECYLMBN2G0AQ9itQEPY7YBAmS5AThlugE-ZrsBIWe8ASFovQEhab4BIWq_ASFrwQEhbMMBAm3EAT9uxgEhb8gBAnDJAUBxygEhcssBIXPMAQJ0zwFBddABR3bRASJ30gEieNMBInnUASJ61QEie9cBInzZAQJ92gFIftwBIn_eAQKAAd8BSYEB4AEiggHhASKDAeIBAoQB5QFKhQHmAVCGAegBUYcB6QFRiAHsAVGJAe0BUYoB7gFRiwHwAVGMAfIBAo0B8wFSjgH1AVGPAfcBApAB-AFTkQH5AVGSAfoBUZMB-wEClAH-AVSVAf8BWpYBgQINlwGCAg2YAYQCDZkBhQINmgGGAg2bAYgCDZwBigICnQGLAlueAY0CDZ8BjwICoAGQAlyhAZECDaIBkgINowGTAgKkAZYCXaUBlwJjpgGZAh-nAZoCH6gBnAIfqQGdAh-qAZ4CH6sBoAIfrAGiAgKtAaMCZK4BpQIfrwGnAgKwAagCZbEBqQIfsgGqAh-zAasCArQBrgJmtQGvAmy2AbACEbcBsQIRuAGyAhG5AbMCEboBtAIRuwG2AhG8AbgCAr0BuQJtvgG7AhG_Ab0CAsABvgJuwQG_AhHCAcACEcMBwQICxAHEAm_FAcUCdcYBxwJ2xwHIAnbIAcsCdskBzAJ2ygHNAnbLAc8CdswB0QICzQHSAnfOAdQCds8B1gIC0AHXAnjRAdgCdtIB2QJ20wHaAgLUAd0CedUB3gJ_1gHgAoAB1wHhAoAB2AHkAoAB2QHlAoAB2gHmAoAB2wHoAoAB3AHqAgLdAesCgQHeAe0CgAHfAe8CAuAB8AKCAeEB8QKAAeIB8gKAAeMB8wIC5AH2AoMB5QH3AokB5gH5AooB5wH6AooB6AH9AooB6QH-AooB6gH_AooB6wGBA4oB7AGDAwLtAYQDiwHuAYYDigHvAYgDAvABiQOMAfEBigOKAfIBiwOKAfMBjAMC9AGPA40B9QGQA5MB9gGSA5QB9wGTA5QB-AGWA5QB-QGXA5QB-gGYA5QB-wGaA5QB_AGcAwL9AZ0DlQH-AZ8DlAH_AaEDAoACogOWAYECowOUAYICpAOUAYMCpQMChAKoA5cBhQKpA5sBhgKrA5wBhwKsA5wBiAKvA5wBiQKwA5wBigKxA5wBiwKzA5wBjAK1AwKNArYDnQGOArgDnAGPAroDApACuwOeAZECvAOcAZICvQOcAZMCvgMClALBA58BlQLCA6MBlgLEA6QBlwLFA6QBmALIA6QBmQLJA6QBmgLKA6QBmwLMA6QBnALOAwKdAs8DpQGeAtEDpAGfAtMDAqAC1AOmAaEC1QOkAaIC1gOkAaMC1wMCpALaA6cBpQLbA6sBpgLdA6wBpwLeA6wBqALhA6wBqQLiA6wBqgLjA6wBqwLlA6wBrALnAwKtAugDrQGuAuoDrAGvAuwDArAC7QOuAbEC7gOsAbIC7wOsAbMC8AMCtALzA68BtQL0A7UBtgL2A7YBtwL3A7YBuAL6A7YBuQL7A7YBugL8A7YBuwL-A7YBvAKABAK9AoEEtwG-AoMEtgG_AoUEAsAChgS4AcEChwS2AcICiAS2AcMCiQQCxAKMBLkBxQKNBL8BxgKOBBLHAo8EEsgCkAQSyQKRBBLKApIEEssClAQSzAKWBALNApcEwAHOApoEEs8CnAQC0AKdBMEB0QKfBBLSAqAEEtMCoQQC1AKkBMIB1QKlBMgB1gKmBBPXAqcEE9gCqAQT2QKpBBPaAqoEE9sCrAQT3AKuBALdAq8EyQHeArIEE98CtAQC4AK1BMoB4QK3BBPiArgEE-MCuQQC5AK8BMsB5QK9BNEB5gK_BBvnAsAEG-gCwgQb6QLDBBvqAsQEG-sCxgQb7ALIBALtAskE0gHuAssEG-8CzQQC8ALOBNMB8QLPBBvyAtAEG_MC0QQC9ALUBNQB9QLVBNoB9gLXBBz3AtgEHPgC2gQc-QLbBBz6AtwEHPsC3gQc_ALgBAL9AuEE2wH-AuMEHP8C5QQCgAPmBNwBgQPnBByCA-gEHIMD6QQChAPsBN0BhQPtBOEBhgPuBB2HA-8EHYgD8AQdiQPxBB2KA_IEHYsD9AQdjAP2BAKNA_cE4gGOA_kEHY8D-wQCkAP8BOMBkQP9BB2SA_4EHZMD_wQClAOCBeQBlQODBeoBlgOFBRSXA4YFFJgDiAUUmQOJBRSaA4oFFJsDjAUUnAOOBQKdA48F6wGeA5EFFJ8DkwUCoAOUBewBoQOVBRSiA5YFFKMDlwUCpAOaBe0BpQObBfMBpgOcBRanA50FFqgDngUWqQOfBRaqA6AFFqsDogUWrAOkBQKtA6UF9AGuA6cFFq8DqQUCsAOqBfUBsQOrBRayA6wFFrMDrQUCtAOwBfYBtQOxBfwBtgOyBRe3A7MFF7gDtAUXuQO1BRe6A7YFF7sDuAUXvAO6BQK9A7sF_QG-A70FF78DvwUCwAPABf4BwQPBBRfCA8IFF8MDwwUCxAPGBf8BxQPHBYUCxgPIBRXHA8kFFcgDygUVyQPLBRXKA8wFFcsDzgUVzAPQBQLNA9EFhgLOA9MFFc8D1QUC0APWBYcC0QPXBRXSA9gFFdMD2QUC1APcBYgC1QPdBY4C1gPeBRnXA98FGdgD4AUZ2QPhBRnaA-IFGdsD5AUZ3APmBQLdA-cFjwLeA-kFGd8D6wUC4APsBZAC4QPtBRniA-4FGeMD7wUC5APyBZEC5QPzBZcC"
 }
 config.compilerWasm = {
       getRuntime: async () => require('./query_compiler_fast_bg.js'),
@@ -34,6 +34,7 @@ export interface ChallengeListItem {
   difficulty: string;
   skillSlug: string;
   cohortId: number | null;
+  sqlDialect?: string | null;
   latestAttempt: { verdict: string; submittedAt: string } | null;
 }
 
@@ -0,0 +1,58 @@
+// @vitest-environment jsdom
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { renderHook } from '@testing-library/react';
+import { useEditTimeline } from './useEditTimeline';
+import { createReplayer } from '@/lib/editTimeline';
+
+const FILES = [{ path: 'main', content: '' }];
+
+describe('useEditTimeline', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-05-04T10:00:00Z'));
+  });
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('records nothing when disabled', () => {
+    const { result } = renderHook(() => useEditTimeline(FILES, false));
+    result.current.recordEdits('main', [{ offset: 0, deleted: 0, text: 'x' }]);
+    expect(result.current.snapshotForSubmit()).toBeNull();
+  });
+
+  it('sends only the edits since the last accepted submit', () => {
+    const { result } = renderHook(() => useEditTimeline(FILES, true));
+    result.current.recordEdits('main', [{ offset: 0, deleted: 0, text: 'a' }]);
+    vi.advanceTimersByTime(2000);
+
+    const first = result.current.snapshotForSubmit()!;
+    expect(first.events).toEqual([
+      [0, 'e', 0, 0, 0, 'a'],
+      [2000, 'submit'],
+    ]);
+    // Typing while the submit is in flight stays out of the submitted stretch.
+    vi.advanceTimersByTime(500);
+    result.current.recordEdits('main', [{ offset: 1, deleted: 0, text: 'b' }]);
+    result.current.commitSubmit();
+
+    vi.advanceTimersByTime(1000);
+    const second = result.current.snapshotForSubmit()!;
+    expect(second.files).toEqual([{ path: 'main', content: 'a' }]);
+    expect(second.events).toEqual([
+      [500, 'e', 0, 1, 0, 'b'],
+      [1500, 'submit'],
+    ]);
+    expect(createReplayer(second).at(second.events.length)).toEqual(['ab']);
+  });
+
+  it('keeps the stretch when the submit is not accepted', () => {
+    const { result } = renderHook(() => useEditTimeline(FILES, true));
+    result.current.recordEdits('main', [{ offset: 0, deleted: 0, text: 'a' }]);
+    result.current.snapshotForSubmit();
+    // No commitSubmit — the retry carries the same edits plus both marks.
+    const retry = result.current.snapshotForSubmit()!;
+    expect(retry.files).toEqual(FILES);
+    expect(retry.events.map((e) => e[1])).toEqual(['e', 'submit', 'submit']);
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * useEditTimeline — records the solve editor's edit timeline
+ *
+ * Holds the timeline in a ref (recording must never re-render the editor).
+ * `files` is the starting point: the starter code, or the starter files of a
+ * multi-file challenge. A new `files` array (language switch resets the
+ * editor) restarts the recording, so the timeline always matches the code
+ * being submitted.
+ *
+ * Recording stops with `truncated: true` once the events or inserted text
+ * reach the caps in editTimeline.ts; the rest of the session is not kept.
+ *
+ * Submits send only the edits since the previous submit: snapshotForSubmit
+ * ends the stretch with a 'submit' mark (so later typing cannot coalesce into
+ * it) and commitSubmit, once the attempt is accepted, rebases the recording
+ * onto the submitted code. A failed submit keeps the stretch for the retry.
+ *
+ * `enabled: false` records nothing and every snapshot is null.
+ */
+'use client';
+
+import { useCallback, useEffect, useRef } from 'react';
+import {
+  EDIT_TIMELINE_VERSION,
+  MAX_TIMELINE_EVENTS,
+  MAX_TIMELINE_TEXT,
+  appendChange,
+  rebaseTimeline,
+  type EditTimeline,
+  type TextChange,
+  type TimelineFile,
+} from '@/lib/editTimeline';
+
+export interface EditTimelineRecorder {
+  /** Record editor changes to the file at `path` */
+  recordEdits: (path: string, changes: TextChange[]) => void;
+  mark: (kind: 'run') => void;
+  /** Timeline since the last accepted submit, ending in a 'submit' mark; null before the first edit */
+  snapshotForSubmit: () => EditTimeline | null;
+  /** The submit that used the last snapshot was accepted — start the next stretch there */
+  commitSubmit: () => void;
+}
+
+interface RecorderState {
+  timeline: EditTimeline;
+  startedAt: number | null;
+  textSize: number;
+  /** Last snapshotForSubmit result, until it is committed */
+  pending: EditTimeline | null;
+}
+
+function freshState(files: TimelineFile[]): RecorderState {
+  return {
+    timeline: { v: EDIT_TIMELINE_VERSION, files, events: [] },
+    startedAt: null,
+    textSize: 0,
+    pending: null,
+  };
+}
+
+function insertedText(events: EditTimeline['events']): number {
+  return events.reduce((n, e) => n + (e[1] === 'e' ? e[5].length : 0), 0);
+}
+
+function elapsed(s: RecorderState): number {
+  const now = Date.now();
+  s.startedAt ??= now;
+  return now - s.startedAt;
+}
+
+function full(s: RecorderState): boolean {
+  if (s.timeline.events.length >= MAX_TIMELINE_EVENTS || s.textSize >= MAX_TIMELINE_TEXT) {
+    s.timeline.truncated = true;
+    return true;
+  }
+  return false;
+}
+
+export function useEditTimeline(files: TimelineFile[], enabled: boolean): EditTimelineRecorder {
+  const state = useRef<RecorderState>(freshState(files));
+
+  useEffect(() => {
+    state.current = freshState(files);
+  }, [files]);
+
+  const recordEdits = useCallback((path: string, changes: TextChange[]) => {
+    if (!enabled) return;
+    const s = state.current;
+    const file = s.timeline.files.findIndex((f) => f.path === path);
+    if (file < 0 || full(s)) return;
+    const t = elapsed(s);
+    // Monaco reports simultaneous changes (multi-cursor) with offsets against
+    // the pre-change model, highest offset first — applying in order is safe.
+    for (const change of changes) {
+      appendChange(s.timeline.events, t, file, change);
+      s.textSize += change.text.length;
+    }
+  }, [enabled]);
+
+  const mark = useCallback((kind: 'run' | 'submit') => {
+    const s = state.current;
+    if (s.startedAt === null || full(s)) return;
+    s.timeline.events.push([elapsed(s), kind]);
+  }, []);
+
+  const snapshotForSubmit = useCallback((): EditTimeline | null => {
+    const s = state.current;
+    if (!enabled || s.timeline.events.length === 0) return null;
+    mark('submit');
+    s.pending = {
+      ...s.timeline,
+      events: s.timeline.events.map((e) => [...e] as typeof e),
+    };
+    return s.pending;
+  }, [enabled, mark]);
+
+  const commitSubmit = useCallback(() => {
+    const s = state.current;
+    if (!s.pending || s.startedAt === null) return;
+    const next = rebaseTimeline(s.timeline, s.pending);
+    s.startedAt += s.pending.events[s.pending.events.length - 1][0];
+    s.timeline = next;
+    s.textSize = insertedText(next.events);
+    s.pending = null;
+  }, []);
+
+  return { recordEdits, mark, snapshotForSubmit, commitSubmit };
+}
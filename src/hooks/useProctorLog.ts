@@ -0,0 +1,103 @@
+/**
+ * useProctorLog — timed-assessment event log
+ *
+ * While an assessment sitting is active, records tab switches
+ * (visibilitychange) and paste/copy sizes on the page, buffers them and
+ * POSTs batches to /api/coding/assessments/[id]/events. The buffer flushes
+ * every FLUSH_INTERVAL_MS, when the tab is hidden and on unmount; requests
+ * use `keepalive` so a closing tab still delivers its last batch.
+ *
+ * Only sizes are logged — never clipboard contents. Failures are swallowed:
+ * the log is a signal for trainers and must never interrupt the associate.
+ *
+ * Returns `log(type, chars?)` for events the host raises itself
+ * (auto_submit).
+ */
+'use client';
+
+import { useCallback, useEffect, useRef } from 'react';
+import type { ProctorEventType } from '@/lib/codingAssessmentService';
+
+export const FLUSH_INTERVAL_MS = 10_000;
+/** Matches ProctorEventsSchema's per-request maximum. */
+const MAX_BATCH = 50;
+
+interface BufferedEvent {
+  type: ProctorEventType;
+  at: string;
+  challengeId?: string;
+  chars?: number;
+}
+
+export function useProctorLog(
+  assessmentId: string | null,
+  challengeId: string,
+): (type: ProctorEventType, chars?: number) => void {
+  const buffer = useRef<BufferedEvent[]>([]);
+
+  const flush = useCallback(() => {
+    if (!assessmentId) return;
+    while (buffer.current.length > 0) {
+      const events = buffer.current.splice(0, MAX_BATCH);
+      fetch(`/api/coding/assessments/${encodeURIComponent(assessmentId)}/events`, {
+        method: 'POST',
+        credentials: 'include',
+        keepalive: true,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ events }),
+      }).catch(() => {
+        /* best effort */
+      });
+    }
+  }, [assessmentId]);
+
+  const log = useCallback(
+    (type: ProctorEventType, chars?: number) => {
+      if (!assessmentId) return;
+      buffer.current.push({
+        type,
+        at: new Date().toISOString(),
+        challengeId,
+        ...(chars !== undefined ? { chars } : {}),
+      });
+    },
+    [assessmentId, challengeId],
+  );
+
+  useEffect(() => {
+    if (!assessmentId) return;
+
+    const onVisibility = () => {
+      if (document.visibilityState === 'hidden') {
+        log('tab_hidden');
+        flush();
+      } else {
+        log('tab_visible');
+      }
+    };
+    const clipboardSize = (e: ClipboardEvent, kind: 'paste' | 'copy') => {
+      const text =
+        kind === 'paste'
+          ? (e.clipboardData?.getData('text') ?? '')
+          : (document.getSelection()?.toString() ?? '');
+      log(kind, text.length);
+    };
+    const onPaste = (e: ClipboardEvent) => clipboardSize(e, 'paste');
+    const onCopy = (e: ClipboardEvent) => clipboardSize(e, 'copy');
+
+    document.addEventListener('visibilitychange', onVisibility);
+    // Capture phase: the editor stops propagation of its own clipboard events.
+    document.addEventListener('paste', onPaste, true);
+    document.addEventListener('copy', onCopy, true);
+    const timer = setInterval(flush, FLUSH_INTERVAL_MS);
+    return () => {
+      document.removeEventListener('visibilitychange', onVisibility);
+      document.removeEventListener('paste', onPaste, true);
+      document.removeEventListener('copy', onCopy, true);
+      clearInterval(timer);
+      flush();
+    };
+  }, [assessmentId, log, flush]);
+
+  return log;
+}
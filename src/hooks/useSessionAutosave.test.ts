@@ -0,0 +1,87 @@
+// @vitest-environment jsdom
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { useSessionAutosave } from './useSessionAutosave';
+import { useInterviewStore } from '@/store/interviewStore';
+import type { InterviewSession } from '@/lib/types';
+
+const session: InterviewSession = {
+  id: 'session-1',
+  date: '2026-04-22T10:00:00.000Z',
+  selectedWeeks: [1],
+  questionCount: 0,
+  starterQuestions: [],
+  questions: [],
+  assessments: {},
+  currentQuestionIndex: 0,
+  status: 'in-progress',
+};
+
+const fetchMock = () => globalThis.fetch as ReturnType<typeof vi.fn>;
+
+function respond(status: number, body: unknown) {
+  return { ok: status < 400, status, json: async () => body } as Response;
+}
+
+describe('useSessionAutosave', () => {
+  beforeEach(() => {
+    vi.stubGlobal('fetch', vi.fn());
+    useInterviewStore.setState({ session, draftRevision: 0 });
+  });
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    useInterviewStore.setState({ session: null, draftRevision: 0 });
+  });
+
+  it('saves the session after the debounce and records the new revision', async () => {
+    fetchMock().mockResolvedValue(respond(200, { revision: 1 }));
+    const { result } = renderHook(() => useSessionAutosave(10));
+
+    await waitFor(() => expect(result.current.status).toBe('saved'));
+    const [url, init] = fetchMock().mock.calls[0];
+    expect(url).toBe('/api/sessions/drafts/session-1');
+    expect(JSON.parse(init.body)).toMatchObject({ baseRevision: 0, session: { id: 'session-1' } });
+    expect(useInterviewStore.getState().draftRevision).toBe(1);
+  });
+
+  it('does not save sessions that are not drafts', async () => {
+    useInterviewStore.setState({ session: { ...session, status: 'completed' } });
+    renderHook(() => useSessionAutosave(10));
+    await new Promise((r) => setTimeout(r, 30));
+    expect(fetchMock()).not.toHaveBeenCalled();
+  });
+
+  it('pauses on conflict until the trainer keeps their copy', async () => {
+    const current = { revision: 5, status: 'in-progress', updatedBy: 'b@test.com', updatedAt: '2026-04-22T10:05:00Z' };
+    fetchMock().mockResolvedValueOnce(respond(409, { error: 'conflict', current }));
+    const { result } = renderHook(() => useSessionAutosave(10));
+
+    await waitFor(() => expect(result.current.status).toBe('conflict'));
+    expect(result.current.conflict?.current?.revision).toBe(5);
+
+    // Further edits are not sent while the conflict is open.
+    act(() => useInterviewStore.setState({ session: { ...session, currentQuestionIndex: 1 } }));
+    await new Promise((r) => setTimeout(r, 30));
+    expect(fetchMock()).toHaveBeenCalledTimes(1);
+
+    fetchMock().mockResolvedValueOnce(respond(200, { revision: 6 }));
+    await act(() => result.current.keepMine());
+    expect(JSON.parse(fetchMock().mock.calls[1][1].body).baseRevision).toBe(5);
+    expect(useInterviewStore.getState().draftRevision).toBe(6);
+    expect(result.current.status).toBe('saved');
+  });
+
+  it('loadLatest replaces the local session with the server copy', async () => {
+    fetchMock().mockResolvedValueOnce(respond(409, { current: { revision: 2, status: 'review', updatedBy: null, updatedAt: '' } }));
+    const { result } = renderHook(() => useSessionAutosave(10));
+    await waitFor(() => expect(result.current.status).toBe('conflict'));
+
+    fetchMock().mockResolvedValueOnce(respond(200, { session: { ...session, status: 'review' }, revision: 2 }));
+    await act(async () => {
+      expect(await result.current.loadLatest()).toBe(true);
+    });
+    expect(useInterviewStore.getState().session?.status).toBe('review');
+    expect(useInterviewStore.getState().draftRevision).toBe(2);
+    expect(result.current.conflict).toBeNull();
+  });
+});
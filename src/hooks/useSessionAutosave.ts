@@ -0,0 +1,117 @@
+/**
+ * useSessionAutosave — server-side drafts for the trainer-led interview.
+ *
+ * Debounces every change to the in-progress / review session in the Zustand
+ * store into PUT /api/sessions/drafts/[id], carrying the revision this
+ * browser last saw. A 409 means another tab or device saved first (or the
+ * session was completed there): autosave pauses and `conflict` is set until
+ * the trainer picks `loadLatest` (take the server copy) or `keepMine`
+ * (overwrite it with this tab's copy).
+ *
+ * Saves are serialized — a change that lands while a save is in flight is
+ * sent after it returns, with the new revision — so one tab never conflicts
+ * with itself. Network failures leave state 'offline'; the next change
+ * retries. localStorage persistence is unchanged and still the fast path.
+ *
+ * Import this from client components only.
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useInterviewStore } from '@/store/interviewStore';
+
+export type AutosaveStatus = 'idle' | 'saving' | 'saved' | 'offline' | 'conflict';
+
+export interface DraftConflict {
+  /** Server state at conflict time; null when the draft no longer exists. */
+  current: { revision: number; status: string; updatedBy: string | null; updatedAt: string } | null;
+}
+
+const DRAFT_STATUSES = new Set(['in-progress', 'review']);
+const DEFAULT_DELAY_MS = 1500;
+
+export function useSessionAutosave(delayMs: number = DEFAULT_DELAY_MS) {
+  const session = useInterviewStore((s) => s.session);
+  const [status, setStatus] = useState<AutosaveStatus>('idle');
+  const [conflict, setConflict] = useState<DraftConflict | null>(null);
+
+  const inFlight = useRef(false);
+  const dirty = useRef(false);
+  const conflictRef = useRef(false);
+  // Session object just loaded from the server — no need to send it back.
+  const loaded = useRef<unknown>(null);
+
+  const save = useCallback(async (baseRevision?: number): Promise<void> => {
+    const { session: current, draftRevision, setDraftRevision } = useInterviewStore.getState();
+    if (!current || !DRAFT_STATUSES.has(current.status)) return;
+    if (inFlight.current) {
+      dirty.current = true;
+      return;
+    }
+
+    inFlight.current = true;
+    dirty.current = false;
+    setStatus('saving');
+    try {
+      const res = await fetch(`/api/sessions/drafts/${encodeURIComponent(current.id)}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ session: current, baseRevision: baseRevision ?? draftRevision }),
+      });
+      if (res.status === 409) {
+        const body = await res.json().catch(() => ({}));
+        conflictRef.current = true;
+        setConflict({ current: body.current ?? null });
+        setStatus('conflict');
+        return;
+      }
+      if (!res.ok) throw new Error(`Draft save failed: ${res.status}`);
+      const { revision } = await res.json();
+      // Ignore the response if the trainer discarded or switched sessions meanwhile.
+      if (useInterviewStore.getState().session?.id === current.id) {
+        setDraftRevision(revision);
+      }
+      setStatus('saved');
+    } catch (err) {
+      console.warn('[autosave] Draft save failed; will retry on next change:', err);
+      setStatus('offline');
+    } finally {
+      inFlight.current = false;
+    }
+    if (dirty.current && !conflictRef.current) await save();
+  }, []);
+
+  useEffect(() => {
+    if (!session || !DRAFT_STATUSES.has(session.status) || conflictRef.current) return;
+    if (session === loaded.current) return;
+    const timer = setTimeout(() => { void save(); }, delayMs);
+    return () => clearTimeout(timer);
+  }, [session, delayMs, save]);
+
+  /** Replace this tab's session with the server copy. Returns false when the draft is gone (completed or discarded). */
+  const loadLatest = useCallback(async (): Promise<boolean> => {
+    const { session: current, resumeSession } = useInterviewStore.getState();
+    if (!current) return false;
+    const res = await fetch(`/api/sessions/drafts/${encodeURIComponent(current.id)}`);
+    if (!res.ok) return false;
+    const draft = await res.json();
+    resumeSession(draft.session, draft.revision);
+    loaded.current = useInterviewStore.getState().session;
+    conflictRef.current = false;
+    setConflict(null);
+    setStatus('saved');
+    return true;
+  }, []);
+
+  /** Overwrite the server copy with this tab's session. Only possible while the server copy is still a draft. */
+  const keepMine = useCallback(async (): Promise<void> => {
+    const serverRevision = conflict?.current && DRAFT_STATUSES.has(conflict.current.status)
+      ? conflict.current.revision
+      : null;
+    if (serverRevision === null) return;
+    conflictRef.current = false;
+    setConflict(null);
+    await save(serverRevision);
+  }, [conflict, save]);
+
+  return { status, conflict, loadLatest, keepMine };
+}
@@ -0,0 +1,222 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildQuestionHistory,
+  selectAdaptiveQuestions,
+  targetDifficulty,
+  weakestTopics,
+  type AskedQuestion,
+} from '@/lib/adaptiveSelector';
+import type { ParsedQuestion, QuestionAssessment } from '@/lib/types';
+
+const noJitter = () => 0;
+
+function q(
+  weekNumber: number,
+  questionNumber: number,
+  topic: string,
+  difficulty: ParsedQuestion['difficulty'] = 'beginner',
+): ParsedQuestion {
+  return {
+    id: `week${weekNumber}-q${questionNumber}`,
+    questionNumber,
+    question: `Question ${questionNumber}`,
+    keywords: [topic],
+    modelAnswer: '',
+    difficulty,
+    weekNumber,
+    topic,
+  };
+}
+
+function asked(partial: Partial<AskedQuestion>): AskedQuestion {
+  return {
+    sessionId: 's1',
+    skill: 'react',
+    questionNumber: 1,
+    topic: 'hooks',
+    difficulty: 'beginner',
+    score: 3,
+    ...partial,
+  };
+}
+
+function assessment(questionId: string, extra: Partial<QuestionAssessment>): QuestionAssessment {
+  return {
+    questionId,
+    keywordsHit: [],
+    keywordsMissed: [],
+    softSkills: { clearlySpoken: false, eyeContact: false, confidence: false, structuredThinking: false },
+    interviewerNotes: '',
+    didNotGetTo: false,
+    status: 'validated',
+    ...extra,
+  };
+}
+
+describe('buildQuestionHistory', () => {
+  it('maps questions to skill + questionNumber with normalized topic and score', () => {
+    const history = buildQuestionHistory([
+      {
+        id: 's1',
+        techMap: { 1: 'react' },
+        questions: [q(1, 4, ' Hooks ', 'intermediate'), q(2, 1, 'orphan')],
+        assessments: { 'week1-q4': assessment('week1-q4', { finalScore: 4, llmScore: 2 }) },
+      },
+    ]);
+    expect(history).toEqual([
+      { sessionId: 's1', skill: 'react', questionNumber: 4, topic: 'hooks', difficulty: 'intermediate', score: 4 },
+    ]);
+  });
+
+  it('records null score for skipped questions and skips sessions without techMap', () => {
+    const history = buildQuestionHistory([
+      {
+        id: 's1',
+        techMap: { 1: 'react' },
+        questions: [q(1, 1, 'hooks')],
+        assessments: { 'week1-q1': assessment('week1-q1', { didNotGetTo: true, finalScore: 5 }) },
+      },
+      { id: 's2', questions: [q(1, 2, 'state')], assessments: {} },
+    ]);
+    expect(history).toHaveLength(1);
+    expect(history[0].score).toBeNull();
+  });
+});
+
+describe('targetDifficulty', () => {
+  it('steps up after a strong score and down after a weak one', () => {
+    expect(targetDifficulty([asked({ difficulty: 'beginner', score: 5 })], 'react', 'hooks')).toBe('intermediate');
+    expect(targetDifficulty([asked({ difficulty: 'advanced', score: 1 })], 'react', 'hooks')).toBe('intermediate');
+    expect(targetDifficulty([asked({ difficulty: 'advanced', score: 3 })], 'react', 'hooks')).toBe('advanced');
+  });
+
+  it('clamps at the ends of the scale', () => {
+    expect(targetDifficulty([asked({ difficulty: 'advanced', score: 5 })], 'react', 'hooks')).toBe('advanced');
+    expect(targetDifficulty([asked({ difficulty: 'beginner', score: 1 })], 'react', 'hooks')).toBe('beginner');
+  });
+
+  it('uses the most recent scored attempt and ignores other skills', () => {
+    const history = [
+      asked({ score: null, difficulty: 'advanced' }),
+      asked({ score: 5, difficulty: 'beginner' }),
+      asked({ score: 1, difficulty: 'advanced' }),
+    ];
+    expect(targetDifficulty(history, 'react', 'hooks')).toBe('intermediate');
+    expect(targetDifficulty(history, 'node', 'hooks')).toBeNull();
+  });
+});
+
+describe('weakestTopics', () => {
+  it('orders topics by score ascending and limits', () => {
+    const result = weakestTopics(
+      [
+        { skill: 'react', topic: 'hooks', weightedScore: 3 },
+        { skill: 'react', topic: 'state', weightedScore: 1 },
+        { skill: 'node', topic: 'streams', weightedScore: 2 },
+      ],
+      2,
+    );
+    expect(result.map((t) => t.topic)).toEqual(['state', 'streams']);
+  });
+});
+
+describe('selectAdaptiveQuestions', () => {
+  const techMap = { 1: 'react' };
+
+  it('prefers the weakest topics', () => {
+    const pool = [q(1, 1, 'hooks'), q(1, 2, 'state'), q(1, 3, 'routing')];
+    const selected = selectAdaptiveQuestions(pool, 1, 'entry', undefined, techMap, {
+      topicScores: [
+        { skill: 'react', topic: 'hooks', weightedScore: 4 },
+        { skill: 'react', topic: 'state', weightedScore: 1.5 },
+        { skill: 'react', topic: 'routing', weightedScore: 3 },
+      ],
+      asked: [],
+    }, { random: noJitter });
+    expect(selected.map((x) => x.topic)).toEqual(['state']);
+  });
+
+  it('avoids questions asked in recent sessions', () => {
+    const pool = [q(1, 1, 'state'), q(1, 2, 'hooks')];
+    const selected = selectAdaptiveQuestions(pool, 1, 'entry', undefined, techMap, {
+      topicScores: [
+        { skill: 'react', topic: 'state', weightedScore: 1 },
+        { skill: 'react', topic: 'hooks', weightedScore: 4 },
+      ],
+      asked: [asked({ questionNumber: 1, topic: 'state' })],
+    }, { random: noJitter });
+    expect(selected.map((x) => x.questionNumber)).toEqual([2]);
+  });
+
+  it('matches history by skill, not by week position', () => {
+    // react was week 1 last time, week 2 now
+    const pool = [q(2, 1, 'state'), q(2, 2, 'hooks')];
+    const selected = selectAdaptiveQuestions(pool, 1, 'entry', undefined, { 2: 'react' }, {
+      topicScores: [],
+      asked: [asked({ questionNumber: 1, topic: 'state' })],
+    }, { random: noJitter });
+    expect(selected.map((x) => x.questionNumber)).toEqual([2]);
+  });
+
+  it('reuses recent questions only when the pool runs out', () => {
+    const pool = [q(1, 1, 'state'), q(1, 2, 'hooks')];
+    const selected = selectAdaptiveQuestions(pool, 2, 'entry', undefined, techMap, {
+      topicScores: [],
+      asked: [asked({ questionNumber: 1 }), asked({ questionNumber: 2 })],
+    }, { random: noJitter });
+    expect(selected).toHaveLength(2);
+  });
+
+  it('forgets questions older than the recent-session window', () => {
+    const pool = [q(1, 1, 'state'), q(1, 2, 'hooks')];
+    const selected = selectAdaptiveQuestions(pool, 1, 'entry', undefined, techMap, {
+      topicScores: [
+        { skill: 'react', topic: 'state', weightedScore: 1 },
+        { skill: 'react', topic: 'hooks', weightedScore: 4 },
+      ],
+      asked: [asked({ sessionId: 'new', questionNumber: 9 }), asked({ sessionId: 'old', questionNumber: 1 })],
+    }, { random: noJitter, recentSessionWindow: 1 });
+    expect(selected.map((x) => x.questionNumber)).toEqual([1]);
+  });
+
+  it('steps difficulty up on a topic the associate aced', () => {
+    const pool = [q(1, 1, 'hooks', 'beginner'), q(1, 2, 'hooks', 'intermediate'), q(1, 3, 'hooks', 'advanced')];
+    const selected = selectAdaptiveQuestions(pool, 1, 'entry', undefined, techMap, {
+      topicScores: [],
+      asked: [asked({ questionNumber: 9, difficulty: 'intermediate', score: 5 })],
+    }, { random: noJitter });
+    expect(selected[0].difficulty).toBe('advanced');
+  });
+
+  it('steps difficulty down on a topic the associate struggled with', () => {
+    const pool = [q(1, 1, 'hooks', 'beginner'), q(1, 2, 'hooks', 'intermediate'), q(1, 3, 'hooks', 'advanced')];
+    const selected = selectAdaptiveQuestions(pool, 1, 'experienced', undefined, techMap, {
+      topicScores: [],
+      asked: [asked({ questionNumber: 9, difficulty: 'advanced', score: 1 })],
+    }, { random: noJitter });
+    expect(selected[0].difficulty).toBe('intermediate');
+  });
+
+  it('spreads picks across topics rather than repeating the weakest', () => {
+    const pool = [q(1, 1, 'state'), q(1, 2, 'state'), q(1, 3, 'hooks'), q(1, 4, 'routing')];
+    const selected = selectAdaptiveQuestions(pool, 2, 'entry', undefined, techMap, {
+      topicScores: [
+        { skill: 'react', topic: 'state', weightedScore: 1 },
+        { skill: 'react', topic: 'hooks', weightedScore: 2 },
+        { skill: 'react', topic: 'routing', weightedScore: 5 },
+      ],
+      asked: [],
+    }, { random: noJitter });
+    expect(selected.map((x) => x.topic).sort()).toEqual(['hooks', 'state']);
+  });
+
+  it('honours tech weights and fills from the full pool when a tech runs short', () => {
+    const pool = [q(1, 1, 'a'), q(2, 1, 'b'), q(2, 2, 'c'), q(2, 3, 'd')];
+    const selected = selectAdaptiveQuestions(pool, 4, 'entry', { 1: 3, 2: 1 }, { 1: 'react', 2: 'node' }, {
+      topicScores: [],
+      asked: [],
+    }, { random: noJitter });
+    expect(selected).toHaveLength(4);
+    expect(new Set(selected.map((x) => x.id)).size).toBe(4);
+  });
+});
@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'vitest';
+import { highlightCode } from '@/lib/codeHighlight';
+
+describe('highlightCode', () => {
+  it('wraps keywords, strings, numbers and comments', () => {
+    const html = highlightCode('const x = "hi"; // note\nreturn 42;', 'ts');
+    expect(html).toContain('<span class="tok-keyword">const</span>');
+    expect(html).toContain('<span class="tok-string">&quot;hi&quot;</span>');
+    expect(html).toContain('<span class="tok-comment">// note</span>');
+    expect(html).toContain('<span class="tok-number">42</span>');
+  });
+
+  it('escapes HTML in code and tokens', () => {
+    const html = highlightCode('if (a < b) "<script>"', 'js');
+    expect(html).not.toContain('<script>');
+    expect(html).toContain('a &lt; b');
+  });
+
+  it('uses per-language keywords (case-insensitive SQL, # comments in Python)', () => {
+    expect(highlightCode('SELECT id FROM t', 'sql')).toContain('<span class="tok-keyword">SELECT</span>');
+    const py = highlightCode('def f(): # hi', 'python');
+    expect(py).toContain('<span class="tok-keyword">def</span>');
+    expect(py).toContain('<span class="tok-comment"># hi</span>');
+  });
+
+  it('leaves identifiers unwrapped', () => {
+    expect(highlightCode('counter', 'js')).toBe('counter');
+  });
+});
@@ -6,7 +6,9 @@ import { describe, it, expect, vi, beforeEach } from 'vitest';
 vi.mock('@/lib/prisma', () => {
   const gapScore = {
     findMany: vi.fn(),
+    findUnique: vi.fn(),
     upsert: vi.fn(),
+    update: vi.fn(),
     deleteMany: vi.fn(),
   };
   return {
@@ -26,7 +28,7 @@ vi.mock('@/lib/gapService', () => ({
 
 import { prisma } from '@/lib/prisma';
 import { computeGapScores } from '@/lib/gapService';
-import { saveGapScores } from '@/lib/gapPersistence';
+import { saveGapScores, persistPracticeOutcomeToGapScore } from '@/lib/gapPersistence';
 
 describe('saveGapScores prevWeightedScore lifecycle', () => {
   beforeEach(() => {
@@ -149,6 +151,39 @@ describe('saveGapScores prevWeightedScore lifecycle', () => {
     });
   });
 
+  it('never deletes practice:* rows — they are not derived from sessions', async () => {
+    (prisma.gapScore.findMany as ReturnType<typeof vi.fn>).mockResolvedValue([
+      { id: 'g1', skill: 'React', topic: '', weightedScore: 0.6 },
+      { id: 'g2', skill: 'React', topic: 'practice:hooks', weightedScore: 3 },
+    ]);
+    (computeGapScores as ReturnType<typeof vi.fn>).mockReturnValue([
+      { skill: 'React', topic: '', weightedScore: 0.72, sessionCount: 2 },
+    ]);
+    (prisma.gapScore.upsert as ReturnType<typeof vi.fn>).mockResolvedValue({});
+
+    await saveGapScores(1);
+
+    expect(prisma.gapScore.deleteMany).not.toHaveBeenCalled();
+  });
+
+  it('blends a matching practice:<topic> average into the interview topic row', async () => {
+    (prisma.gapScore.findMany as ReturnType<typeof vi.fn>).mockResolvedValue([
+      { id: 'g1', skill: 'React', topic: 'practice:hooks', weightedScore: 5 },
+    ]);
+    (computeGapScores as ReturnType<typeof vi.fn>).mockReturnValue([
+      { skill: 'React', topic: '', weightedScore: 2, sessionCount: 2 },
+      { skill: 'React', topic: 'hooks', weightedScore: 2, sessionCount: 2 },
+    ]);
+    (prisma.gapScore.upsert as ReturnType<typeof vi.fn>).mockResolvedValue({});
+
+    await saveGapScores(1);
+
+    const calls = (prisma.gapScore.upsert as ReturnType<typeof vi.fn>).mock.calls.map((c) => c[0]);
+    // Skill-level row stays interview-only; the topic row moves 25% toward practice.
+    expect(calls[0].update.weightedScore).toBe(2);
+    expect(calls[1].update.weightedScore).toBeCloseTo(0.75 * 2 + 0.25 * 5);
+  });
+
   it('wraps read+write path in prisma.$transaction (P2 fix: TOCTOU prevention)', async () => {
     (prisma.gapScore.findMany as ReturnType<typeof vi.fn>).mockResolvedValue([]);
     (computeGapScores as ReturnType<typeof vi.fn>).mockReturnValue([
@@ -219,3 +254,52 @@ describe('saveGapScores prevWeightedScore lifecycle', () => {
     expect(calls[1].update.prevWeightedScore).not.toBe(calls[1].update.weightedScore);
   });
 });
+
+describe('persistPracticeOutcomeToGapScore', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (prisma.gapScore.upsert as ReturnType<typeof vi.fn>).mockResolvedValue({});
+  });
+
+  it('creates a practice:<topic> row holding the grade on first review', async () => {
+    (prisma.gapScore.findUnique as ReturnType<typeof vi.fn>).mockResolvedValue(null);
+
+    await persistPracticeOutcomeToGapScore(7, 'react', 'hooks', 2);
+
+    const call = (prisma.gapScore.upsert as ReturnType<typeof vi.fn>).mock.calls[0][0];
+    expect(call.where.associateId_skill_topic).toEqual({ associateId: 7, skill: 'react', topic: 'practice:hooks' });
+    expect(call.create).toMatchObject({ weightedScore: 2, prevWeightedScore: null, sessionCount: 1 });
+  });
+
+  it('blends the new grade with the prior value using 0.8 decay', async () => {
+    (prisma.gapScore.findUnique as ReturnType<typeof vi.fn>).mockResolvedValue({ weightedScore: 2, sessionCount: 3 });
+
+    await persistPracticeOutcomeToGapScore(7, 'react', 'hooks', 5);
+
+    const call = (prisma.gapScore.upsert as ReturnType<typeof vi.fn>).mock.calls[0][0];
+    expect(call.update.weightedScore).toBeCloseTo((5 + 0.8 * 2) / 1.8);
+    expect(call.update.prevWeightedScore).toBe(2);
+    expect(call.update.sessionCount).toBe(4);
+  });
+
+  it('re-blends the interview (skill, topic) row with the new practice average', async () => {
+    const findUnique = prisma.gapScore.findUnique as ReturnType<typeof vi.fn>;
+    // Practice row at 2; interview row stored as blend(raw 3, practice 2) = 2.75.
+    findUnique.mockResolvedValueOnce({ weightedScore: 2, sessionCount: 1 }).mockResolvedValueOnce({ weightedScore: 2.75 });
+
+    await persistPracticeOutcomeToGapScore(7, 'react', 'hooks', 5);
+
+    const practice = (5 + 0.8 * 2) / 1.8;
+    const update = (prisma.gapScore.update as ReturnType<typeof vi.fn>).mock.calls[0][0];
+    expect(update.where.associateId_skill_topic).toEqual({ associateId: 7, skill: 'react', topic: 'hooks' });
+    expect(update.data.weightedScore).toBeCloseTo(0.75 * 3 + 0.25 * practice);
+  });
+
+  it('leaves interview rows alone when the topic was never scored in an interview', async () => {
+    (prisma.gapScore.findUnique as ReturnType<typeof vi.fn>).mockResolvedValue(null);
+
+    await persistPracticeOutcomeToGapScore(7, 'react', 'hooks', 5);
+
+    expect(prisma.gapScore.update).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,143 @@
+import { describe, it, expect } from 'vitest';
+import {
+  heuristicScore,
+  heuristicSummary,
+  heuristicFollowUp,
+  heuristicEmailParagraphs,
+  textSimilarity,
+} from '@/lib/heuristicScorer';
+import { parseStructuredScore } from '@/lib/structuredScore';
+import { DEFAULT_SOFT_SKILLS } from '@/lib/types';
+
+const question = {
+  question: 'What is a closure in JavaScript?',
+  modelAnswer:
+    'A closure is a function that retains access to variables from its lexical scope even after the outer function has returned. Closures enable data privacy and function factories.',
+};
+
+describe('textSimilarity', () => {
+  it('is 1 for identical text and 0 for disjoint text', () => {
+    expect(textSimilarity('lexical scope closure', 'lexical scope closure')).toBeCloseTo(1);
+    expect(textSimilarity('database index', 'closure scope')).toBe(0);
+    expect(textSimilarity('', 'closure')).toBe(0);
+  });
+});
+
+describe('heuristicScore', () => {
+  it('produces schema-valid structured output', () => {
+    const result = heuristicScore(question, {
+      keywordsHit: ['closure'],
+      keywordsMissed: ['lexical scope'],
+      softSkills: DEFAULT_SOFT_SKILLS,
+      interviewerNotes: 'Explained closures keep variables alive',
+    });
+    expect(() => parseStructuredScore(result)).not.toThrow();
+  });
+
+  it('is deterministic', () => {
+    const assessment = {
+      keywordsHit: ['closure'],
+      keywordsMissed: [],
+      softSkills: { ...DEFAULT_SOFT_SKILLS, confidence: true },
+      interviewerNotes: 'A function that retains access to its lexical scope variables.',
+    };
+    expect(heuristicScore(question, assessment)).toEqual(heuristicScore(question, assessment));
+  });
+
+  it('scores a strong, covered answer above a weak one', () => {
+    const strong = heuristicScore(question, {
+      keywordsHit: ['closure', 'lexical scope', 'data privacy'],
+      keywordsMissed: [],
+      softSkills: { clearlySpoken: true, eyeContact: true, confidence: true, structuredThinking: true },
+      interviewerNotes:
+        'A closure is a function that keeps access to variables from its lexical scope after the outer function returned. Used for data privacy and function factories.',
+    });
+    const weak = heuristicScore(question, {
+      keywordsHit: [],
+      keywordsMissed: ['closure', 'lexical scope', 'data privacy'],
+      softSkills: DEFAULT_SOFT_SKILLS,
+      interviewerNotes: 'Not sure.',
+    });
+    expect(strong.score).toBeGreaterThanOrEqual(4);
+    expect(weak.score).toBeLessThanOrEqual(2);
+    expect(strong.criteria.communication.score).toBe(5);
+    expect(weak.feedback).toContain('Review: closure, lexical scope, data privacy.');
+  });
+
+  it('grades starter questions against guidelines', () => {
+    const result = heuristicScore(
+      { question: 'Tell me about yourself', guidelines: ['Relevant technical background', 'Career goals'] },
+      {
+        keywordsHit: [],
+        keywordsMissed: [],
+        softSkills: DEFAULT_SOFT_SKILLS,
+        interviewerNotes: 'Strong technical background in Java, career goals in cloud.',
+      },
+    );
+    expect(result.criteria.accuracy.score).toBeGreaterThan(1);
+  });
+
+  it('weights keyword coverage by bank keyword weights', () => {
+    const assessment = {
+      keywordsHit: ['closure'],
+      keywordsMissed: ['data privacy', 'function factories'],
+      softSkills: DEFAULT_SOFT_SKILLS,
+      interviewerNotes: '',
+    };
+    const plain = heuristicScore({ question: question.question }, assessment);
+    const weighted = heuristicScore(
+      {
+        question: question.question,
+        keywordGroups: [
+          { keyword: 'closure', synonyms: [], weight: 4 },
+          { keyword: 'data privacy', synonyms: [], weight: 1 },
+          { keyword: 'function factories', synonyms: [], weight: 1 },
+        ],
+      },
+      assessment,
+    );
+    expect(weighted.criteria.completeness.score).toBeGreaterThan(plain.criteria.completeness.score);
+  });
+});
+
+describe('heuristicSummary', () => {
+  it('summarizes scores, keywords and soft skills', () => {
+    const summary = heuristicSummary(
+      [{ id: 'q1', question: 'Q1' }, { id: 'q2', question: 'Q2' }],
+      {
+        q1: { finalScore: 4, keywordsHit: ['closure'], keywordsMissed: ['hoisting'], softSkills: { clearlySpoken: true } },
+        q2: { llmScore: 2, keywordsHit: [], keywordsMissed: ['event loop'], softSkills: { clearlySpoken: true } },
+      },
+    );
+    expect(summary.technicalFeedback).toContain('Average score 3.0/5 across 2 answered questions.');
+    expect(summary.technicalFeedback).toContain('Areas for review: hoisting, event loop.');
+    expect(summary.softSkillFeedback).toContain('Consistently showed clear speech.');
+  });
+
+  it('handles sessions with no answered questions', () => {
+    expect(heuristicSummary([{ id: 'q1', question: 'Q1' }], { q1: { didNotGetTo: true } }).technicalFeedback)
+      .toBe('No answered questions to summarize.');
+  });
+});
+
+describe('heuristicFollowUp', () => {
+  it('asks a follow-up only for very short answers', () => {
+    expect(heuristicFollowUp(question.question, 'No idea').needs_followup).toBe(true);
+    expect(
+      heuristicFollowUp(
+        question.question,
+        'A closure is when an inner function keeps references to the variables of the outer function scope, so those values survive after the outer function returns and can be used later.',
+      ).needs_followup,
+    ).toBe(false);
+  });
+});
+
+describe('heuristicEmailParagraphs', () => {
+  it('uses the first two paragraphs with defaults when missing', () => {
+    expect(heuristicEmailParagraphs('Great SQL.\n\nReview joins.\n\nExtra')).toEqual({
+      strengths: 'Great SQL.',
+      improvements: 'Review joins.',
+    });
+    expect(heuristicEmailParagraphs('Only one').improvements).toContain('attached report');
+  });
+});
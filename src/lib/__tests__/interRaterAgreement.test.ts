@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import {
+  cohensKappa,
+  compareQuestion,
+  computeSessionAgreement,
+  describeKappa,
+} from '@/lib/interRaterAgreement';
+import { DEFAULT_SOFT_SKILLS, type QuestionAssessment } from '@/lib/types';
+
+function lead(hit: string[], missed: string[], soft = DEFAULT_SOFT_SKILLS, didNotGetTo = false): QuestionAssessment {
+  return {
+    questionId: 'q',
+    keywordsHit: hit,
+    keywordsMissed: missed,
+    softSkills: soft,
+    interviewerNotes: '',
+    didNotGetTo,
+    status: 'validated',
+  };
+}
+
+function co(hit: string[], missed: string[], soft = DEFAULT_SOFT_SKILLS, notes = '') {
+  return { keywordsHit: hit, keywordsMissed: missed, softSkills: soft, interviewerNotes: notes, didNotGetTo: false };
+}
+
+describe('cohensKappa', () => {
+  it('matches the textbook example', () => {
+    // a=20 both yes, b=5, c=10, d=15 → po=0.7, pe=0.5 → κ=0.4
+    expect(cohensKappa({ a: 20, b: 5, c: 10, d: 15 })).toBeCloseTo(0.4);
+  });
+
+  it('handles degenerate tables', () => {
+    expect(cohensKappa({ a: 0, b: 0, c: 0, d: 0 })).toBeNull();
+    expect(cohensKappa({ a: 0, b: 0, c: 0, d: 6 })).toBe(1);
+  });
+});
+
+describe('compareQuestion', () => {
+  it('lists keyword and soft-skill disagreements', () => {
+    const result = compareQuestion(
+      'q1',
+      lead(['closure'], ['scope', 'hoisting'], { ...DEFAULT_SOFT_SKILLS, confidence: true }),
+      co(['closure', 'scope'], ['hoisting'], DEFAULT_SOFT_SKILLS, 'Good example'),
+    );
+    expect(result.disagreements).toEqual([
+      { item: 'scope', kind: 'keyword', lead: false, co: true },
+      { item: 'confidence', kind: 'softSkill', lead: true, co: false },
+    ]);
+    // 3 keywords + 4 soft skills, 2 disagreements
+    expect(result.ratings).toBe(7);
+    expect(result.agreement).toBeCloseTo(5 / 7);
+    expect(result.coNotes).toBe('Good example');
+  });
+});
+
+describe('computeSessionAgreement', () => {
+  it('pools ratings across questions and skips did-not-get-to', () => {
+    const result = computeSessionAgreement(
+      ['q1', 'q2', 'q3'],
+      {
+        q1: lead(['a'], ['b']),
+        q2: lead(['c'], []),
+        q3: lead([], ['d'], DEFAULT_SOFT_SKILLS, true),
+      },
+      {
+        q1: co(['a'], ['b']),
+        q2: co([], ['c']),
+        q3: co(['d'], []),
+      },
+    );
+    expect(result.questions.map((q) => q.questionId)).toEqual(['q1', 'q2']);
+    expect(result.ratings).toBe(2 + 4 + 1 + 4);
+    expect(result.percentAgreement).toBeCloseTo(10 / 11);
+    expect(result.kappa).not.toBeNull();
+  });
+
+  it('reports full agreement with nothing to compare', () => {
+    const result = computeSessionAgreement(['q1'], {}, {});
+    expect(result).toMatchObject({ ratings: 0, percentAgreement: 1, kappa: null, questions: [] });
+  });
+});
+
+describe('describeKappa', () => {
+  it('uses Landis & Koch bands', () => {
+    expect(describeKappa(null)).toBe('n/a');
+    expect(describeKappa(-0.1)).toBe('poor');
+    expect(describeKappa(0.4)).toBe('fair');
+    expect(describeKappa(0.7)).toBe('substantial');
+    expect(describeKappa(0.95)).toBe('almost perfect');
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseInterviewQuestions,
+  parseKeywordGroups,
+  parseQuestionFrontmatter,
+  weightedKeywordCoverage,
+} from '@/lib/markdownParser';
+
+const EXTENDED = `## Beginner
+
+### Q1: What is a closure?
+---
+difficulty: advanced   # harder than its section
+topic: Closures
+estimatedMinutes: 4
+followUps:
+  - How do closures interact with loop variables?
+  - "What leaks can closures cause?"
+hints: [Think about scope, Where is the variable looked up?]
+---
+**Keywords:** closure|lexical scope^2, scope chain
+<details>
+<summary>Model Answer</summary>
+A closure keeps its lexical scope alive.
+
+
+
+\`\`\`js
+function counter() {
+  let n = 0;
+
+
+  return () => ++n;
+}
+\`\`\`
+</details>
+
+---
+
+### Q2: Plain question
+**Keywords:** hoisting, TDZ
+<details>
+<summary>Model Answer</summary>
+Declarations move up.
+</details>
+`;
+
+describe('markdownParser — extended format', () => {
+  const [closure, plain] = parseInterviewQuestions(EXTENDED, 1);
+
+  it('reads per-question frontmatter', () => {
+    expect(closure.difficulty).toBe('advanced');
+    expect(closure.topic).toBe('Closures');
+    expect(closure.estimatedMinutes).toBe(4);
+    expect(closure.followUps).toEqual([
+      'How do closures interact with loop variables?',
+      'What leaks can closures cause?',
+    ]);
+    expect(closure.hints).toEqual(['Think about scope', 'Where is the variable looked up?']);
+  });
+
+  it('keeps canonical keywords and exposes synonym/weight groups', () => {
+    expect(closure.keywords).toEqual(['closure', 'scope chain']);
+    expect(closure.keywordGroups).toEqual([
+      { keyword: 'closure', synonyms: ['lexical scope'], weight: 2 },
+      { keyword: 'scope chain', synonyms: [], weight: 1 },
+    ]);
+  });
+
+  it('preserves fenced code verbatim while collapsing prose blank lines', () => {
+    expect(closure.modelAnswer).toContain('```js\nfunction counter() {\n  let n = 0;\n\n\n  return () => ++n;\n}\n```');
+    expect(closure.modelAnswer).not.toContain('[Code Example]');
+    expect(closure.modelAnswer).toContain('alive.\n\n```js');
+  });
+
+  it('leaves legacy questions unchanged and does not treat a horizontal rule as frontmatter', () => {
+    expect(plain.keywords).toEqual(['hoisting', 'TDZ']);
+    expect(plain.difficulty).toBe('beginner');
+    expect(plain.keywordGroups).toBeUndefined();
+    expect(plain.followUps).toBeUndefined();
+    expect(plain.hints).toBeUndefined();
+    expect(plain.estimatedMinutes).toBeUndefined();
+  });
+});
+
+describe('parseQuestionFrontmatter', () => {
+  it('parses scalars, inline lists and block lists', () => {
+    expect(parseQuestionFrontmatter('a: 1\nb: "two"\nc: [x, y]\nd:\n  - p\n  - q')).toEqual({
+      a: 1,
+      b: 'two',
+      c: ['x', 'y'],
+      d: ['p', 'q'],
+    });
+  });
+
+  it('ignores lines it cannot read', () => {
+    expect(parseQuestionFrontmatter('not yaml at all\nok: yes')).toEqual({ ok: 'yes' });
+  });
+});
+
+describe('parseKeywordGroups', () => {
+  it('drops empty entries and non-positive weights fall back to 1', () => {
+    expect(parseKeywordGroups([' a | b ', '', 'c^0'])).toEqual([
+      { keyword: 'a', synonyms: ['b'], weight: 1 },
+      { keyword: 'c', synonyms: [], weight: 1 },
+    ]);
+  });
+});
+
+describe('weightedKeywordCoverage', () => {
+  it('weights hits by keyword group', () => {
+    const q = {
+      keywords: ['closure', 'scope chain'],
+      keywordGroups: [
+        { keyword: 'closure', synonyms: [], weight: 3 },
+        { keyword: 'scope chain', synonyms: [], weight: 1 },
+      ],
+    };
+    expect(weightedKeywordCoverage(q, ['closure'])).toBe(0.75);
+  });
+
+  it('treats plain keywords as weight 1 and returns null with no keywords', () => {
+    expect(weightedKeywordCoverage({ keywords: ['a', 'b'] }, ['a'])).toBe(0.5);
+    expect(weightedKeywordCoverage({ keywords: [] }, [])).toBeNull();
+  });
+});
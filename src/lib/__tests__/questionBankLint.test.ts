@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import { parseInterviewQuestions, parseInterviewQuestionsStrict } from '@/lib/markdownParser';
+import { formatLintResult, isQuestionBankPath, lintQuestionBank } from '@/lib/questionBankLint';
+import { toSkillSlug } from '@/lib/skillSlug';
+import { toRubricSlug } from '@/lib/rubricService';
+
+const CLEAN = `# Week 1
+
+## Beginner
+
+### Q1: What is a closure?
+**Keywords:** closure, lexical scope
+**Topic:** React Hooks
+<details><summary>Model Answer</summary>
+A function that keeps its lexical scope.
+</details>
+`;
+
+const BROKEN = `# Week 1
+
+## Beginner
+
+### Q1: What is a closure?
+**Keywords:** closure
+<details><summary>Model Answer</summary>
+Scope.
+</details>
+
+### Q1: Duplicate number
+<details><summary>Model Answer</summary>
+</details>
+
+## Expert
+
+### Q3 missing colon
+`;
+
+describe('parseInterviewQuestionsStrict', () => {
+  it('reports no issues for a well-formed bank', () => {
+    const { questions, issues } = parseInterviewQuestionsStrict(CLEAN, 1);
+    expect(questions).toHaveLength(1);
+    expect(issues).toEqual([]);
+  });
+
+  it('flags duplicates, missing keywords, empty answers, unknown sections and bad headers', () => {
+    const { issues } = parseInterviewQuestionsStrict(BROKEN, 1);
+    expect(issues.map((i) => [i.code, i.severity, i.line])).toEqual([
+      ['duplicate-question-number', 'error', 11],
+      ['missing-keywords', 'warning', 11],
+      ['empty-model-answer', 'warning', 11],
+      ['unknown-difficulty-section', 'warning', 15],
+      ['malformed-header', 'error', 17],
+    ]);
+  });
+
+  it('errors when a file has no questions', () => {
+    const { issues } = parseInterviewQuestionsStrict('# Notes\n\nNothing here.', 1);
+    expect(issues).toEqual([expect.objectContaining({ code: 'no-questions', severity: 'error' })]);
+  });
+
+  it('returns the same questions as the lenient parser', () => {
+    expect(parseInterviewQuestionsStrict(BROKEN, 2).questions).toEqual(parseInterviewQuestions(BROKEN, 2));
+  });
+});
+
+describe('lintQuestionBank', () => {
+  it('skips topic checks when no skills are known', () => {
+    expect(lintQuestionBank('week1.md', CLEAN).issues).toEqual([]);
+  });
+
+  it('accepts topics that equal or extend a curriculum skill', () => {
+    expect(lintQuestionBank('week1.md', CLEAN, { skillSlugs: ['react'] }).warningCount).toBe(0);
+    expect(lintQuestionBank('week1.md', CLEAN, { skillSlugs: ['react-hooks'] }).warningCount).toBe(0);
+  });
+
+  it('warns on topics outside the curriculum', () => {
+    const result = lintQuestionBank('week1.md', CLEAN, { skillSlugs: ['sql'] });
+    expect(result.issues).toEqual([
+      expect.objectContaining({ code: 'unknown-topic', line: 5, questionNumber: 1 }),
+    ]);
+    expect(formatLintResult(result)[0]).toMatch(/^week1\.md:5 {2}warning {2}unknown-topic/);
+  });
+
+  it('counts errors and warnings', () => {
+    const result = lintQuestionBank('broken.md', BROKEN);
+    expect(result).toMatchObject({ questionCount: 2, errorCount: 2, warningCount: 3 });
+  });
+});
+
+describe('isQuestionBankPath / toSkillSlug', () => {
+  it('skips READMEs and rubric files', () => {
+    expect(isQuestionBankPath('week-1/interview_questions_week1.md')).toBe(true);
+    expect(isQuestionBankPath('week-1/README.md')).toBe(false);
+    expect(isQuestionBankPath('rubrics/sql.md')).toBe(false);
+    expect(isQuestionBankPath('notes.txt')).toBe(false);
+  });
+
+  it('slugifies labels', () => {
+    expect(toSkillSlug(' React Hooks ')).toBe('react-hooks');
+    expect(toSkillSlug('React Hooks.md')).toBe('react-hooks');
+    expect(toSkillSlug('C# / .NET')).toBe(toRubricSlug('C# / .NET'));
+  });
+});
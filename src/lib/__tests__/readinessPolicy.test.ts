@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_READINESS_POLICY,
+  classifyReadiness,
+  linearSlope,
+  resolveReadinessPolicy,
+  type ReadinessInput,
+} from '@/lib/readinessPolicy';
+
+const DEFAULT = resolveReadinessPolicy(null, 75);
+
+function input(overrides: Partial<ReadinessInput> = {}): ReadinessInput {
+  return {
+    sessionCount: 3,
+    trend: 0.5,
+    skillScores: [
+      { skill: 'react', weightedScore: 85 },
+      { skill: 'sql', weightedScore: 80 },
+    ],
+    codingScores: [],
+    ...overrides,
+  };
+}
+
+describe('resolveReadinessPolicy', () => {
+  it('falls back to the global threshold and marks the source', () => {
+    expect(DEFAULT).toMatchObject({ threshold: 75, source: 'default', minSessions: 3 });
+    const cohort = resolveReadinessPolicy(
+      { ...DEFAULT_READINESS_POLICY, threshold: 60, requiredSkills: [' SQL '] },
+      75,
+    );
+    expect(cohort).toMatchObject({ threshold: 60, source: 'cohort', requiredSkills: ['sql'] });
+  });
+});
+
+describe('linearSlope', () => {
+  it('returns the least-squares slope and 0 for fewer than two points', () => {
+    expect(linearSlope([60, 70, 80])).toBeCloseTo(10);
+    expect(linearSlope([80])).toBe(0);
+  });
+});
+
+describe('classifyReadiness', () => {
+  it('is not_ready below the session gate, with the gate as the reason', () => {
+    const { status, explanation } = classifyReadiness(input({ sessionCount: 2 }), DEFAULT);
+    expect(status).toBe('not_ready');
+    expect(explanation.summary).toBe('not_ready because only 2 of 3 required sessions');
+    expect(explanation.average).toBeNull();
+  });
+
+  it('is ready when the average clears the threshold and the trend is not negative', () => {
+    const { status, explanation } = classifyReadiness(input(), DEFAULT);
+    expect(status).toBe('ready');
+    expect(explanation.reasons[0]).toBe('average 83 ≥ 75');
+  });
+
+  it('holds back an associate whose required skill is below the threshold', () => {
+    const policy = resolveReadinessPolicy(
+      { ...DEFAULT_READINESS_POLICY, requiredSkills: ['sql'] },
+      75,
+    );
+    const { status, explanation } = classifyReadiness(
+      input({
+        trend: -2.1,
+        skillScores: [
+          { skill: 'react', weightedScore: 95 },
+          { skill: 'sql', weightedScore: 58 },
+        ],
+      }),
+      policy,
+    );
+    expect(status).toBe('not_ready');
+    expect(explanation.summary).toBe('not_ready because sql is 58 < 75 (required) and trend -2.1');
+    expect(explanation.skills[0]).toMatchObject({ skill: 'sql', required: true, meetsThreshold: false });
+  });
+
+  it('lists required skills with no score yet', () => {
+    const policy = resolveReadinessPolicy(
+      { ...DEFAULT_READINESS_POLICY, requiredSkills: ['java'] },
+      75,
+    );
+    const { status, explanation } = classifyReadiness(input({ trend: 1 }), policy);
+    expect(status).toBe('improving');
+    expect(explanation.reasons).toContain('java has no score yet (required)');
+  });
+
+  it('blends coding scores by codingWeight only when both sources exist', () => {
+    const policy = resolveReadinessPolicy(
+      { ...DEFAULT_READINESS_POLICY, codingWeight: 0.5 },
+      75,
+    );
+    const blended = classifyReadiness(input({ codingScores: [50, 60] }), policy).explanation;
+    expect(blended.codingAverage).toBe(55);
+    expect(blended.average).toBeCloseTo(0.5 * 82.5 + 0.5 * 55);
+    expect(blended.status).toBe('improving');
+
+    const noCoding = classifyReadiness(input({ codingScores: [] }), policy).explanation;
+    expect(noCoding.average).toBe(82.5);
+
+    const ignored = classifyReadiness(input({ codingScores: [10] }), DEFAULT).explanation;
+    expect(ignored.codingAverage).toBeNull();
+  });
+});
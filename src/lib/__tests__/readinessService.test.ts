@@ -239,6 +239,32 @@ describe('computeReadiness', () => {
     expect(result80.status).toBe('ready');
   });
 
+  it('applies a cohort policy threshold and required skills, and explains the result', async () => {
+    mockSessionFindMany.mockResolvedValue([
+      makeSession(85, 85, new Date('2024-01-15')),
+      makeSession(83, 83, new Date('2024-01-08')),
+      makeSession(81, 81, new Date('2024-01-01')),
+    ]);
+    mockGapFindMany.mockResolvedValue([
+      makeGapScore('react', '', 95),
+      makeGapScore('sql', '', 70),
+    ]);
+    mockGapFindFirst.mockResolvedValue(null);
+
+    const result = await computeReadiness(1, 75, {
+      minSessions: 3,
+      trendWindow: 3,
+      threshold: 72,
+      requiredSkills: ['sql'],
+      codingWeight: 0,
+    });
+
+    // Average 82.5 clears 72, but required sql (70) does not — trend is positive.
+    expect(result.status).toBe('improving');
+    expect(result.explanation.policy).toMatchObject({ threshold: 72, source: 'cohort' });
+    expect(result.explanation.summary).toBe('improving because sql is 70 < 72 (required) and trend +2.0');
+  });
+
   it('recommendedArea equals the topic with the lowest weightedScore from GapScore (topic != "")', async () => {
     // Positive trend
     mockSessionFindMany.mockResolvedValue([
@@ -256,6 +282,27 @@ describe('computeReadiness', () => {
     expect(result.recommendedArea).toBe('hooks');
   });
 
+  it('recommendedArea ignores practice: and coding: bookkeeping rows', async () => {
+    mockSessionFindMany.mockResolvedValue([
+      makeSession(80, 80, new Date('2024-01-15')),
+      makeSession(78, 78, new Date('2024-01-08')),
+      makeSession(76, 76, new Date('2024-01-01')),
+    ]);
+    mockGapFindMany.mockResolvedValue([makeGapScore('React', '', 78)]);
+    mockGapFindFirst.mockResolvedValue(makeGapScore('React', 'hooks', 55));
+
+    await computeReadiness(1, 75);
+
+    expect(mockGapFindFirst).toHaveBeenCalledWith({
+      where: {
+        associateId: 1,
+        topic: { not: '' },
+        NOT: [{ topic: { startsWith: 'practice:' } }, { topic: { startsWith: 'coding:' } }],
+      },
+      orderBy: { weightedScore: 'asc' },
+    });
+  });
+
   it('recommendedArea falls back to lowest skill name when no topic-level scores exist', async () => {
     // Positive trend
     mockSessionFindMany.mockResolvedValue([
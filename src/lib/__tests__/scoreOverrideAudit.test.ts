@@ -0,0 +1,23 @@
+import { describe, it, expect } from 'vitest';
+import { diffScoreOverrides } from '@/lib/sessionPersistence';
+
+describe('diffScoreOverrides', () => {
+  it('reports validated scores that differ from the AI score', () => {
+    const assessments = {
+      q1: { llmScore: 3, finalScore: 5, status: 'validated' },
+      q2: { llmScore: 4, finalScore: 4, status: 'validated' }, // accepted as-is
+      q3: { llmScore: 2, finalScore: 1, status: 'ready' }, // not validated yet
+    };
+    expect(diffScoreOverrides(null, assessments)).toEqual({ before: { q1: 3 }, after: { q1: 5 } });
+  });
+
+  it('ignores overrides already stored and diffs against the stored score', () => {
+    const assessments = {
+      q1: { llmScore: 3, finalScore: 5, status: 'validated' },
+      q2: { llmScore: 3, finalScore: 2, status: 'validated' },
+    };
+    const stored = { q1: { finalScore: 5 }, q2: { finalScore: 4 } };
+    expect(diffScoreOverrides(stored, assessments)).toEqual({ before: { q2: 4 }, after: { q2: 2 } });
+    expect(diffScoreOverrides({ ...stored, q2: { finalScore: 2 } }, assessments)).toBeNull();
+  });
+});
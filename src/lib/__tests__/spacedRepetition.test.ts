@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_EASE,
+  practiceCandidates,
+  scheduleReview,
+} from '@/lib/spacedRepetition';
+import type { ParsedQuestion, QuestionAssessment } from '@/lib/types';
+
+const NOW = new Date('2026-05-01T09:00:00Z');
+const DAY = 24 * 60 * 60 * 1000;
+
+function q(questionNumber: number, topic = 'hooks'): ParsedQuestion {
+  return {
+    id: `week1-q${questionNumber}`,
+    questionNumber,
+    question: `Question ${questionNumber}`,
+    keywords: [topic],
+    modelAnswer: `Answer ${questionNumber}`,
+    difficulty: 'beginner',
+    weekNumber: 1,
+    topic,
+  };
+}
+
+function scored(questionId: string, finalScore: number | undefined, didNotGetTo = false): QuestionAssessment {
+  return {
+    questionId,
+    keywordsHit: [],
+    keywordsMissed: [],
+    softSkills: { clearlySpoken: false, eyeContact: false, confidence: false, structuredThinking: false },
+    interviewerNotes: '',
+    didNotGetTo,
+    finalScore,
+    status: 'validated',
+  };
+}
+
+describe('practiceCandidates', () => {
+  it('creates a card for each question scored 3 or below', () => {
+    const candidates = practiceCandidates([
+      {
+        id: 's1',
+        techMap: { 1: 'react' },
+        questions: [q(1), q(2, 'State'), q(3)],
+        assessments: {
+          'week1-q1': scored('week1-q1', 2),
+          'week1-q2': scored('week1-q2', 3),
+          'week1-q3': scored('week1-q3', 4),
+        },
+      },
+    ]);
+    expect(candidates.map((c) => c.cardKey)).toEqual(['react#1', 'react#2']);
+    expect(candidates[1]).toMatchObject({
+      skill: 'react',
+      topic: 'state',
+      question: 'Question 2',
+      modelAnswer: 'Answer 2',
+      sourceSessionId: 's1',
+      sourceScore: 3,
+    });
+  });
+
+  it('lets the newest attempt decide when a question was asked twice', () => {
+    const candidates = practiceCandidates([
+      { id: 'new', techMap: { 1: 'react' }, questions: [q(1)], assessments: { 'week1-q1': scored('week1-q1', 5) } },
+      { id: 'old', techMap: { 1: 'react' }, questions: [q(1)], assessments: { 'week1-q1': scored('week1-q1', 1) } },
+    ]);
+    expect(candidates).toEqual([]);
+  });
+
+  it('ignores skipped, unscored and starter questions', () => {
+    const starter = { ...q(9), id: 'starter-1' };
+    const candidates = practiceCandidates([
+      {
+        id: 's1',
+        techMap: { 1: 'react' },
+        questions: [q(1), q(2), starter],
+        assessments: {
+          'week1-q1': scored('week1-q1', 1, true),
+          'week1-q2': scored('week1-q2', undefined),
+          'starter-1': scored('starter-1', 1),
+        },
+      },
+    ]);
+    expect(candidates).toEqual([]);
+  });
+});
+
+describe('scheduleReview', () => {
+  const fresh = { easeFactor: DEFAULT_EASE, intervalDays: 0, repetitions: 0 };
+
+  it('follows the 1 → 6 → interval × ease progression on passing grades', () => {
+    const first = scheduleReview(fresh, 4, NOW);
+    expect(first).toMatchObject({ repetitions: 1, intervalDays: 1 });
+    expect(first.dueAt.getTime()).toBe(NOW.getTime() + DAY);
+
+    const second = scheduleReview(first, 4, NOW);
+    expect(second).toMatchObject({ repetitions: 2, intervalDays: 6 });
+
+    const third = scheduleReview(second, 4, NOW);
+    expect(third.intervalDays).toBe(Math.round(6 * second.easeFactor));
+  });
+
+  it('resets the card to tomorrow on a lapse', () => {
+    const result = scheduleReview({ easeFactor: 2.5, intervalDays: 15, repetitions: 4 }, 2, NOW);
+    expect(result).toMatchObject({ repetitions: 0, intervalDays: 1 });
+    expect(result.dueAt.getTime()).toBe(NOW.getTime() + DAY);
+  });
+
+  it('raises ease on easy recalls and lowers it on hard ones, never below 1.3', () => {
+    expect(scheduleReview(fresh, 5, NOW).easeFactor).toBeCloseTo(2.6);
+    expect(scheduleReview(fresh, 3, NOW).easeFactor).toBeCloseTo(2.36);
+    expect(scheduleReview({ ...fresh, easeFactor: 1.3 }, 1, NOW).easeFactor).toBe(1.3);
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseStructuredScore,
+  toScoreBreakdown,
+  computeCriterionCalibration,
+  ScoreParseError,
+} from '@/lib/structuredScore';
+
+const valid = {
+  criteria: {
+    accuracy: { score: 4, rationale: 'Correct definition of closures.' },
+    completeness: { score: 3, rationale: 'Did not mention lexical scope.' },
+    depth: { score: 4, rationale: 'Gave a real memoization example.' },
+    communication: { score: 5, rationale: 'Clear and well structured.' },
+  },
+  score: 4,
+  feedback: 'Solid answer with a practical example.',
+  confidence: 0.8,
+};
+
+describe('parseStructuredScore', () => {
+  it('accepts a well-formed structured score', () => {
+    expect(parseStructuredScore(valid)).toEqual(valid);
+  });
+
+  it('throws ScoreParseError instead of defaulting when a criterion is missing', () => {
+    const criteria: Partial<typeof valid.criteria> = { ...valid.criteria };
+    delete criteria.depth;
+    expect(() => parseStructuredScore({ ...valid, criteria })).toThrow(ScoreParseError);
+  });
+
+  it('rejects out-of-range scores and confidence', () => {
+    expect(() => parseStructuredScore({ ...valid, score: 6 })).toThrow(ScoreParseError);
+    expect(() => parseStructuredScore({ ...valid, confidence: 1.5 })).toThrow(ScoreParseError);
+    expect(() =>
+      parseStructuredScore({
+        ...valid,
+        criteria: { ...valid.criteria, accuracy: { score: 0, rationale: 'x' } },
+      }),
+    ).toThrow(ScoreParseError);
+  });
+
+  it('rejects empty rationales', () => {
+    expect(() =>
+      parseStructuredScore({
+        ...valid,
+        criteria: { ...valid.criteria, communication: { score: 3, rationale: '  ' } },
+      }),
+    ).toThrow(/criteria\.communication\.rationale/);
+  });
+
+  it('rejects free-text responses', () => {
+    expect(() => parseStructuredScore('SCORE: 4\nFEEDBACK: good')).toThrow(ScoreParseError);
+  });
+});
+
+describe('toScoreBreakdown', () => {
+  it('keeps criteria and confidence only', () => {
+    expect(toScoreBreakdown(parseStructuredScore(valid))).toEqual({
+      criteria: valid.criteria,
+      confidence: 0.8,
+    });
+  });
+});
+
+describe('computeCriterionCalibration', () => {
+  it('averages AI sub-scores and trainer deltas per criterion', () => {
+    const breakdown = toScoreBreakdown(parseStructuredScore(valid));
+    const result = computeCriterionCalibration([
+      { finalScore: 5, llmBreakdown: breakdown },
+      { finalScore: 3, llmBreakdown: breakdown },
+    ]);
+    expect(result.accuracy).toEqual({ count: 2, meanAiScore: 4, meanDelta: 0 });
+    expect(result.completeness).toEqual({ count: 2, meanAiScore: 3, meanDelta: 1 });
+    expect(result.communication).toEqual({ count: 2, meanAiScore: 5, meanDelta: -1 });
+  });
+
+  it('skips assessments without a trainer score or breakdown', () => {
+    const breakdown = toScoreBreakdown(parseStructuredScore(valid));
+    const result = computeCriterionCalibration([
+      { llmBreakdown: breakdown },
+      { finalScore: 4 },
+    ]);
+    expect(result).toEqual({
+      accuracy: null,
+      completeness: null,
+      depth: null,
+      communication: null,
+    });
+  });
+});
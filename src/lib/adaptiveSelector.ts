@@ -0,0 +1,267 @@
+/**
+ * adaptiveSelector.ts
+ *
+ * Gap-driven question selection for returning associates. Where
+ * selectRandomQuestions (markdownParser.ts) only honours per-tech weights,
+ * this selector also looks at the associate's history:
+ *
+ *   - questions asked in their most recent sessions are avoided (used only
+ *     when a tech's pool would otherwise run dry)
+ *   - questions on their weakest topics (topic-level GapScore rows) come first
+ *   - difficulty steps up or down per topic from their last score on it
+ *
+ * Question ids (`week{n}-q{m}`) depend on the tech's position in the setup
+ * wizard, so history is matched on skill + questionNumber instead.
+ *
+ * Pure: no React, no Prisma — imported by the interview store.
+ */
+
+import type { InterviewSession, ParsedQuestion } from './types';
+import { extractScore } from './gapService';
+
+type Difficulty = ParsedQuestion['difficulty'];
+
+const DIFFICULTIES: Difficulty[] = ['beginner', 'intermediate', 'advanced'];
+
+/** Last score on a topic (1–5 scale) at or above which the next question steps up. */
+export const STEP_UP_AT = 4;
+/** Last score on a topic at or below which the next question steps down. */
+export const STEP_DOWN_AT = 2;
+/** Questions from this many most recent sessions count as "seen recently". */
+export const RECENT_SESSION_WINDOW = 3;
+
+/** A topic-level GapScore row (topic is the normalized keyword / frontmatter topic). */
+export interface TopicGapScore {
+  skill: string;
+  topic: string;
+  weightedScore: number;
+}
+
+/** One technical question from a completed session, newest session first. */
+export interface AskedQuestion {
+  sessionId: string;
+  skill: string;
+  questionNumber: number;
+  topic: string;
+  difficulty: Difficulty;
+  /** finalScore ?? llmScore; null when skipped or unscored */
+  score: number | null;
+}
+
+/** Response shape of GET /api/associates/[slug]/question-history. */
+export interface QuestionHistoryResponse {
+  found: boolean;
+  topicScores: TopicGapScore[];
+  asked: AskedQuestion[];
+}
+
+export interface AdaptiveOptions {
+  recentSessionWindow?: number;
+  /** Injectable for tests; defaults to Math.random. */
+  random?: () => number;
+}
+
+export function normalizeTopic(topic: string): string {
+  return topic.trim().toLowerCase();
+}
+
+function historyKey(skill: string, questionNumber: number): string {
+  return `${skill}#${questionNumber}`;
+}
+
+/**
+ * Flatten completed sessions (newest first) into the asked-question history.
+ * Starter questions and questions whose tech can't be resolved are dropped.
+ */
+export function buildQuestionHistory(
+  sessions: Pick<InterviewSession, 'id' | 'questions' | 'assessments' | 'techMap'>[],
+): AskedQuestion[] {
+  const asked: AskedQuestion[] = [];
+  for (const session of sessions) {
+    if (!session.techMap) continue;
+    for (const question of session.questions) {
+      if (question.id.startsWith('starter-')) continue;
+      const skill = session.techMap[question.weekNumber];
+      if (!skill) continue;
+      const assessment = session.assessments[question.id];
+      asked.push({
+        sessionId: session.id,
+        skill,
+        questionNumber: question.questionNumber,
+        topic: normalizeTopic(question.topic || question.keywords[0] || ''),
+        difficulty: question.difficulty,
+        score: assessment ? extractScore(assessment) : null,
+      });
+    }
+  }
+  return asked;
+}
+
+/**
+ * Difficulty to aim for on a topic: one step above the last scored attempt when
+ * it went well, one below when it went badly, the same otherwise. null when the
+ * associate has never been scored on the topic.
+ */
+export function targetDifficulty(asked: AskedQuestion[], skill: string, topic: string): Difficulty | null {
+  const last = asked.find((a) => a.skill === skill && a.topic === topic && a.score !== null);
+  if (!last) return null;
+  const index = DIFFICULTIES.indexOf(last.difficulty);
+  if (last.score! >= STEP_UP_AT) return DIFFICULTIES[Math.min(index + 1, DIFFICULTIES.length - 1)];
+  if (last.score! <= STEP_DOWN_AT) return DIFFICULTIES[Math.max(index - 1, 0)];
+  return last.difficulty;
+}
+
+/** The `limit` weakest topics across all skills, weakest first. */
+export function weakestTopics(topicScores: TopicGapScore[], limit: number): TopicGapScore[] {
+  return [...topicScores].sort((a, b) => a.weightedScore - b.weightedScore).slice(0, limit);
+}
+
+/**
+ * 0 (strongest) – 1 (weakest) per topic, normalized within each skill so the
+ * selector works whatever scale the scores were recorded on. Topics with a
+ * single score in their skill get 0.5.
+ */
+function topicWeakness(topicScores: TopicGapScore[]): Map<string, number> {
+  const bySkill = new Map<string, TopicGapScore[]>();
+  for (const row of topicScores) {
+    if (!row.topic) continue;
+    if (!bySkill.has(row.skill)) bySkill.set(row.skill, []);
+    bySkill.get(row.skill)!.push(row);
+  }
+
+  const result = new Map<string, number>();
+  for (const [skill, rows] of bySkill) {
+    const min = Math.min(...rows.map((r) => r.weightedScore));
+    const max = Math.max(...rows.map((r) => r.weightedScore));
+    for (const row of rows) {
+      const weakness = max === min ? 0.5 : 1 - (row.weightedScore - min) / (max - min);
+      result.set(`${skill}::${normalizeTopic(row.topic)}`, weakness);
+    }
+  }
+  return result;
+}
+
+/** Level preference used when a topic has no history (mirrors selectRandomQuestions' ratios). */
+const LEVEL_FIT: Record<'entry' | 'experienced', Record<Difficulty, number>> = {
+  entry: { beginner: 1, intermediate: 0.6, advanced: 0.2 },
+  experienced: { beginner: 0.2, intermediate: 0.6, advanced: 1 },
+};
+
+function difficultyFit(difficulty: Difficulty, target: Difficulty | null, level: 'entry' | 'experienced'): number {
+  if (target === null) return LEVEL_FIT[level][difficulty];
+  const distance = Math.abs(DIFFICULTIES.indexOf(difficulty) - DIFFICULTIES.indexOf(target));
+  return distance === 0 ? 1 : distance === 1 ? 0.4 : 0;
+}
+
+/** Split `count` across weeks proportionally to weight; the last week takes the remainder. */
+function allocate(weeks: number[], count: number, weights?: Record<number, number>): number[] {
+  const weekWeights = weeks.map((w) => weights?.[w] ?? 1);
+  const total = weekWeights.reduce((sum, w) => sum + w, 0);
+  let assigned = 0;
+  return weeks.map((_, i) => {
+    if (i === weeks.length - 1) return count - assigned;
+    const n = Math.floor((weekWeights[i] / total) * count);
+    assigned += n;
+    return n;
+  });
+}
+
+/**
+ * Select `count` questions using the associate's history. Same inputs as
+ * selectRandomQuestions plus the week → skill techMap and the history; the
+ * result is shuffled so techs are interleaved.
+ *
+ * Each candidate is scored 2 × topic weakness + difficulty fit (+ a little
+ * jitter), then picked greedily; a topic already picked in this session is
+ * penalized so one weak topic doesn't take every slot.
+ */
+export function selectAdaptiveQuestions(
+  questions: ParsedQuestion[],
+  count: number,
+  interviewLevel: 'entry' | 'experienced',
+  weights: Record<number, number> | undefined,
+  techMap: Record<number, string>,
+  history: Pick<QuestionHistoryResponse, 'topicScores' | 'asked'>,
+  options: AdaptiveOptions = {},
+): ParsedQuestion[] {
+  const random = options.random ?? Math.random;
+  const window = options.recentSessionWindow ?? RECENT_SESSION_WINDOW;
+
+  const recentSessions = [...new Set(history.asked.map((a) => a.sessionId))].slice(0, window);
+  const recent = new Set(
+    history.asked
+      .filter((a) => recentSessions.includes(a.sessionId))
+      .map((a) => historyKey(a.skill, a.questionNumber)),
+  );
+  const weakness = topicWeakness(history.topicScores);
+
+  const skillOf = (q: ParsedQuestion) => techMap[q.weekNumber] ?? '';
+  const topicOf = (q: ParsedQuestion) => normalizeTopic(q.topic || q.keywords[0] || '');
+  const isRecent = (q: ParsedQuestion) => recent.has(historyKey(skillOf(q), q.questionNumber));
+
+  const baseScore = new Map<string, number>();
+  for (const q of questions) {
+    const skill = skillOf(q);
+    const topic = topicOf(q);
+    // Topic weakness: the frontmatter topic if scored, else the weakest scored keyword.
+    const candidates = [topic, ...q.keywords.map(normalizeTopic)]
+      .map((t) => weakness.get(`${skill}::${t}`))
+      .filter((w): w is number => w !== undefined);
+    const weak = weakness.has(`${skill}::${topic}`)
+      ? weakness.get(`${skill}::${topic}`)!
+      : candidates.length > 0 ? Math.max(...candidates) : 0.5;
+    const fit = difficultyFit(q.difficulty, targetDifficulty(history.asked, skill, topic), interviewLevel);
+    baseScore.set(q.id, 2 * weak + fit + 0.25 * random());
+  }
+
+  const selected: ParsedQuestion[] = [];
+  const chosenIds = new Set<string>();
+  const chosenTopics = new Set<string>();
+
+  const pick = (pool: ParsedQuestion[], n: number) => {
+    const available = pool.filter((q) => !chosenIds.has(q.id));
+    // Fresh questions first; recently asked ones only if the pool runs dry.
+    for (const tier of [available.filter((q) => !isRecent(q)), available.filter(isRecent)]) {
+      const remaining = [...tier];
+      while (n > 0 && remaining.length > 0) {
+        let best = 0;
+        let bestScore = -Infinity;
+        remaining.forEach((q, i) => {
+          const key = `${skillOf(q)}::${topicOf(q)}`;
+          const score = baseScore.get(q.id)! - (chosenTopics.has(key) ? 1 : 0);
+          if (score > bestScore) {
+            best = i;
+            bestScore = score;
+          }
+        });
+        const [q] = remaining.splice(best, 1);
+        selected.push(q);
+        chosenIds.add(q.id);
+        chosenTopics.add(`${skillOf(q)}::${topicOf(q)}`);
+        n--;
+      }
+    }
+  };
+
+  const byWeek = new Map<number, ParsedQuestion[]>();
+  for (const q of questions) {
+    const week = q.weekNumber || 99;
+    if (!byWeek.has(week)) byWeek.set(week, []);
+    byWeek.get(week)!.push(q);
+  }
+  const weeks = Array.from(byWeek.keys()).sort((a, b) => a - b);
+  if (weeks.length === 0) return [];
+
+  const perWeek = allocate(weeks, count, weights);
+  weeks.forEach((week, i) => pick(byWeek.get(week)!, perWeek[i]));
+
+  // A tech with too few questions leaves slots; fill them from the full pool.
+  if (selected.length < count) pick(questions, count - selected.length);
+
+  const shuffled = [...selected];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
@@ -0,0 +1,305 @@
+/**
+ * associateData.test.ts — export archive, export/erasure agreement, the
+ * erasure run and the request lifecycle. Prisma, Supabase admin and the history file are mocked.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { inflateRawSync } from 'zlib';
+
+const tx = {
+  coInterviewerAssessment: { count: vi.fn() },
+  gapScore: { count: vi.fn() },
+  practiceCard: { count: vi.fn() },
+  codingAttempt: { count: vi.fn() },
+  codingAssessmentSession: { count: vi.fn() },
+  session: { deleteMany: vi.fn() },
+  authEvent: { deleteMany: vi.fn() },
+  profile: { deleteMany: vi.fn() },
+  associate: { delete: vi.fn() },
+};
+
+const reads = vi.hoisted(() => ({
+  profile: { findUnique: vi.fn() },
+  session: { findMany: vi.fn() },
+  gapScore: { findMany: vi.fn() },
+  practiceCard: { findMany: vi.fn() },
+  codingAttempt: { findMany: vi.fn() },
+  codingAssessmentSession: { findMany: vi.fn() },
+  authEvent: { findMany: vi.fn() },
+}));
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    ...reads,
+    associate: { findUnique: vi.fn() },
+    erasureRequest: { findFirst: vi.fn(), findUnique: vi.fn(), create: vi.fn(), update: vi.fn() },
+    $transaction: vi.fn((fn: (t: typeof tx) => unknown) => fn(tx)),
+  },
+}));
+
+vi.mock('@/lib/supabase/admin', () => ({
+  supabaseAdmin: { auth: { admin: { deleteUser: vi.fn() } } },
+}));
+
+vi.mock('@/lib/historyService', () => ({
+  readHistory: vi.fn(() => []),
+  writeHistory: vi.fn(),
+}));
+
+vi.mock('@/lib/auditLog', () => ({
+  recordAuditEvent: vi.fn(),
+}));
+
+import { prisma } from '@/lib/prisma';
+import { supabaseAdmin } from '@/lib/supabase/admin';
+import { readHistory, writeHistory } from '@/lib/historyService';
+import { recordAuditEvent } from '@/lib/auditLog';
+import {
+  ErasureError,
+  approveErasure,
+  associateDataArchive,
+  collectAssociateData,
+  eraseAssociate,
+  rejectErasure,
+  requestErasure,
+  type AssociateDataExport,
+} from './associateData';
+
+const findAssociate = prisma.associate.findUnique as ReturnType<typeof vi.fn>;
+const deleteUser = supabaseAdmin.auth.admin.deleteUser as ReturnType<typeof vi.fn>;
+const findRequest = prisma.erasureRequest.findUnique as ReturnType<typeof vi.fn>;
+const findOpen = prisma.erasureRequest.findFirst as ReturnType<typeof vi.fn>;
+const createRequest = prisma.erasureRequest.create as ReturnType<typeof vi.fn>;
+const updateRequest = prisma.erasureRequest.update as ReturnType<typeof vi.fn>;
+
+const admin = { kind: 'admin', userId: 'a1', email: 'admin@test.com' } as const;
+
+const ADA = { id: 7, slug: 'ada', email: 'Ada@Test.com', authUserId: 'auth-ada' };
+
+function requestRecord(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'req1',
+    associateId: 7,
+    associateSlug: 'ada',
+    reason: null,
+    status: 'pending',
+    reviewedBy: null,
+    reviewedAt: null,
+    note: null,
+    report: null,
+    createdAt: new Date('2026-05-01T00:00:00Z'),
+    updatedAt: new Date('2026-05-01T00:00:00Z'),
+    ...overrides,
+  };
+}
+
+/** Entry names and contents from a ZIP's local file headers. */
+function unzip(buf: Buffer): Record<string, string> {
+  const files: Record<string, string> = {};
+  let at = 0;
+  while (buf.readUInt32LE(at) === 0x04034b50) {
+    const method = buf.readUInt16LE(at + 8);
+    const size = buf.readUInt32LE(at + 18);
+    const nameLen = buf.readUInt16LE(at + 26);
+    const name = buf.toString('utf8', at + 30, at + 30 + nameLen);
+    const data = buf.subarray(at + 30 + nameLen, at + 30 + nameLen + size);
+    files[name] = (method === 8 ? inflateRawSync(data) : data).toString('utf8');
+    at += 30 + nameLen + size;
+  }
+  return files;
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  findAssociate.mockResolvedValue(ADA);
+  deleteUser.mockResolvedValue({ data: {}, error: null });
+  tx.coInterviewerAssessment.count.mockResolvedValue(1);
+  tx.gapScore.count.mockResolvedValue(4);
+  tx.practiceCard.count.mockResolvedValue(2);
+  tx.codingAttempt.count.mockResolvedValue(3);
+  tx.codingAssessmentSession.count.mockResolvedValue(1);
+  tx.session.deleteMany.mockResolvedValue({ count: 5 });
+  tx.authEvent.deleteMany.mockResolvedValue({ count: 6 });
+  tx.profile.deleteMany.mockResolvedValue({ count: 1 });
+  tx.associate.delete.mockResolvedValue({});
+  updateRequest.mockImplementation(({ data }) => Promise.resolve(requestRecord(data)));
+  reads.profile.findUnique.mockResolvedValue(null);
+  for (const model of Object.values(reads)) {
+    if ('findMany' in model) model.findMany.mockResolvedValue([]);
+  }
+  (readHistory as ReturnType<typeof vi.fn>).mockReturnValue([]);
+});
+
+describe('associateDataArchive', () => {
+  it('writes a README and one JSON file per section', () => {
+    const data: AssociateDataExport = {
+      exportedAt: '2026-05-02T10:00:00.000Z',
+      associate: { slug: 'ada' },
+      profile: null,
+      sessions: [{ id: 's1' }],
+      gapScores: [],
+      practiceCards: [],
+      codingAttempts: [],
+      assessmentSessions: [],
+      authEvents: [],
+      historyFileSessions: [],
+    };
+    const files = unzip(associateDataArchive(data));
+    expect(Object.keys(files)).toEqual([
+      'README.txt',
+      'export.json',
+      'associate.json',
+      'profile.json',
+      'sessions.json',
+      'gapScores.json',
+      'practiceCards.json',
+      'codingAttempts.json',
+      'assessmentSessions.json',
+      'authEvents.json',
+      'historyFileSessions.json',
+    ]);
+    expect(JSON.parse(files['sessions.json'])).toEqual([{ id: 's1' }]);
+    expect(JSON.parse(files['profile.json'])).toBeNull();
+  });
+});
+
+describe('export and erasure', () => {
+  it('select the same rows', async () => {
+    const history = [
+      { id: 'h1', associateSlug: 'ada' },
+      { id: 'h2', associateSlug: 'bob' },
+    ];
+    (readHistory as ReturnType<typeof vi.fn>).mockReturnValue(history);
+
+    const data = await collectAssociateData(7);
+    await eraseAssociate(7);
+
+    expect(reads.session.findMany.mock.calls[0][0].where).toEqual(tx.session.deleteMany.mock.calls[0][0].where);
+    expect(reads.authEvent.findMany.mock.calls[0][0].where).toEqual(tx.authEvent.deleteMany.mock.calls[0][0].where);
+    expect(reads.profile.findUnique.mock.calls[0][0].where).toEqual(tx.profile.deleteMany.mock.calls[0][0].where);
+    for (const model of ['gapScore', 'practiceCard', 'codingAttempt', 'codingAssessmentSession'] as const) {
+      expect(reads[model].findMany.mock.calls[0][0].where).toEqual(tx[model].count.mock.calls[0][0].where);
+    }
+    // Drafts (not yet linked by associateId) and any-case sign-in emails are included.
+    expect(reads.session.findMany.mock.calls[0][0].where).toEqual({ OR: [{ associateId: 7 }, { draftAssociateSlug: 'ada' }] });
+    expect(reads.authEvent.findMany.mock.calls[0][0].where).toEqual({
+      email: { equals: 'Ada@Test.com', mode: 'insensitive' },
+    });
+    expect(data?.historyFileSessions).toEqual([{ id: 'h1', associateSlug: 'ada' }]);
+    expect(writeHistory).toHaveBeenCalledWith([{ id: 'h2', associateSlug: 'bob' }]);
+  });
+});
+
+describe('eraseAssociate', () => {
+  it('deletes the auth user, every linked row and history-file sessions, and reports counts', async () => {
+    (readHistory as ReturnType<typeof vi.fn>).mockReturnValue([
+      { id: 'h1', associateSlug: 'ada' },
+      { id: 'h2', associateSlug: 'bob' },
+    ]);
+
+    const report = await eraseAssociate(7);
+
+    expect(deleteUser).toHaveBeenCalledWith('auth-ada');
+    expect(tx.session.deleteMany).toHaveBeenCalledWith({
+      where: { OR: [{ associateId: 7 }, { draftAssociateSlug: 'ada' }] },
+    });
+    expect(tx.profile.deleteMany).toHaveBeenCalledWith({ where: { authUserId: 'auth-ada' } });
+    expect(tx.associate.delete).toHaveBeenCalledWith({ where: { id: 7 } });
+    expect(writeHistory).toHaveBeenCalledWith([{ id: 'h2', associateSlug: 'bob' }]);
+    expect(report).toMatchObject({
+      associateId: 7,
+      authUser: 'deleted',
+      deleted: {
+        associate: 1,
+        sessions: 5,
+        coInterviewerAssessments: 1,
+        gapScores: 4,
+        practiceCards: 2,
+        codingAttempts: 3,
+        assessmentSessions: 1,
+        profile: 1,
+        authEvents: 6,
+        historyFileSessions: 1,
+      },
+    });
+    expect(JSON.stringify(report)).not.toContain('Ada@Test.com');
+  });
+
+  it('touches no rows when the auth user cannot be deleted', async () => {
+    deleteUser.mockResolvedValue({ data: null, error: { status: 500, message: 'boom' } });
+    await expect(eraseAssociate(7)).rejects.toMatchObject({ message: 'boom' });
+    expect(prisma.$transaction).not.toHaveBeenCalled();
+  });
+
+  it('treats an already-deleted auth user as done and skips unlinked accounts', async () => {
+    deleteUser.mockResolvedValue({ data: null, error: { status: 404, message: 'User not found' } });
+    expect((await eraseAssociate(7)).authUser).toBe('not_found');
+
+    findAssociate.mockResolvedValue({ ...ADA, email: null, authUserId: null });
+    const report = await eraseAssociate(7);
+    expect(report.authUser).toBe('not_linked');
+    expect(report.deleted.profile).toBe(0);
+    expect(report.deleted.authEvents).toBe(0);
+  });
+
+  it('fails when the associate is gone', async () => {
+    findAssociate.mockResolvedValue(null);
+    await expect(eraseAssociate(7)).rejects.toBeInstanceOf(ErasureError);
+  });
+});
+
+describe('erasure requests', () => {
+  it('returns the open request instead of filing a second one', async () => {
+    findOpen.mockResolvedValue(requestRecord());
+    const result = await requestErasure({ id: 7, slug: 'ada' }, null);
+    expect(result.created).toBe(false);
+    expect(createRequest).not.toHaveBeenCalled();
+
+    findOpen.mockResolvedValue(null);
+    createRequest.mockResolvedValue(requestRecord({ reason: 'leaving' }));
+    expect((await requestErasure({ id: 7, slug: 'ada' }, 'leaving')).created).toBe(true);
+  });
+
+  it('approval runs the erasure, stores the report and audits counts only', async () => {
+    findRequest.mockResolvedValue(requestRecord());
+    const saved = await approveErasure('req1', admin);
+
+    expect(saved.status).toBe('completed');
+    expect(saved.reviewedBy).toBe('admin@test.com');
+    expect(saved.report).toMatchObject({ associateId: 7, authUser: 'deleted' });
+    expect(recordAuditEvent).toHaveBeenCalledWith(
+      admin,
+      expect.objectContaining({ action: 'erasure_request.approve', targetId: 'req1' }),
+    );
+  });
+
+  it('marks the request failed and rethrows when the erasure fails', async () => {
+    findRequest.mockResolvedValue(requestRecord());
+    deleteUser.mockResolvedValue({ data: null, error: { status: 500, message: 'boom' } });
+
+    await expect(approveErasure('req1', admin)).rejects.toMatchObject({ message: 'boom' });
+    expect(updateRequest).toHaveBeenCalledWith({
+      where: { id: 'req1' },
+      data: expect.objectContaining({ status: 'failed', report: { error: 'boom' } }),
+    });
+    expect(recordAuditEvent).not.toHaveBeenCalled();
+  });
+
+  it('refuses to act on closed requests', async () => {
+    findRequest.mockResolvedValue(requestRecord({ status: 'completed' }));
+    await expect(approveErasure('req1', admin)).rejects.toMatchObject({ reason: 'NOT_PENDING' });
+    findRequest.mockResolvedValue(null);
+    await expect(rejectErasure('req1', admin, null)).rejects.toMatchObject({ reason: 'NOT_FOUND' });
+  });
+
+  it('rejection keeps the data and records the note', async () => {
+    findRequest.mockResolvedValue(requestRecord());
+    const saved = await rejectErasure('req1', admin, 'active contract');
+    expect(saved).toMatchObject({ status: 'rejected', note: 'active contract' });
+    expect(deleteUser).not.toHaveBeenCalled();
+    expect(recordAuditEvent).toHaveBeenCalledWith(
+      admin,
+      expect.objectContaining({ action: 'erasure_request.reject', targetId: 'req1' }),
+    );
+  });
+});
@@ -0,0 +1,435 @@
+import 'server-only';
+import { prisma } from '@/lib/prisma';
+import { Prisma } from '@/generated/prisma';
+import { supabaseAdmin } from '@/lib/supabase/admin';
+import { readHistory, writeHistory } from '@/lib/historyService';
+import { createZip } from '@/lib/zipArchive';
+import { recordAuditEvent } from '@/lib/auditLog';
+import type { StaffIdentity } from '@/lib/authorization';
+import type { InterviewSession } from '@/lib/types';
+
+/**
+ * Everything stored about one associate, for "download my data" and for the
+ * admin-approved right-to-erasure flow.
+ *
+ * Associate data lives in Associate, Session (+ co-interviewer assessments),
+ * GapScore, PracticeCard, CodingAttempt (+ timeline / review / skill signal),
+ * CodingAssessmentSession (+ proctor events), Profile and AuthEvent (both
+ * keyed off the auth account, not the associate), the legacy local history
+ * file, and the Supabase auth user. The export and the erasure below select
+ * rows through the same filters (associateFilters), so the export is a
+ * complete copy of what erasure deletes; add new associate-linked tables there.
+ */
+
+interface AssociateKeys {
+  id: number;
+  slug: string;
+  email: string | null;
+  authUserId: string | null;
+}
+
+/** Which rows belong to the associate, shared by export and erasure. */
+function associateFilters({ id, slug, email, authUserId }: AssociateKeys) {
+  return {
+    // Drafts are not linked by associateId until the final save.
+    sessions: { OR: [{ associateId: id }, { draftAssociateSlug: slug }] } satisfies Prisma.SessionWhereInput,
+    byAssociate: { associateId: id },
+    // Sign-in emails are matched case-insensitively, as they are entered.
+    authEvents: email
+      ? ({ email: { equals: email, mode: 'insensitive' } } satisfies Prisma.AuthEventWhereInput)
+      : null,
+    profile: authUserId ? { authUserId } : null,
+    historyFile: (session: InterviewSession) => session.associateSlug === slug,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Export
+// ---------------------------------------------------------------------------
+
+export interface AssociateDataExport {
+  exportedAt: string;
+  associate: Record<string, unknown>;
+  profile: Record<string, unknown> | null;
+  sessions: Record<string, unknown>[];
+  gapScores: Record<string, unknown>[];
+  practiceCards: Record<string, unknown>[];
+  codingAttempts: Record<string, unknown>[];
+  assessmentSessions: Record<string, unknown>[];
+  authEvents: Record<string, unknown>[];
+  historyFileSessions: Record<string, unknown>[];
+}
+
+/** Export sections written as one JSON file each in the ZIP. */
+const EXPORT_SECTIONS = [
+  'associate',
+  'profile',
+  'sessions',
+  'gapScores',
+  'practiceCards',
+  'codingAttempts',
+  'assessmentSessions',
+  'authEvents',
+  'historyFileSessions',
+] as const satisfies readonly (keyof AssociateDataExport)[];
+
+/** Null when the associate no longer exists. */
+export async function collectAssociateData(associateId: number): Promise<AssociateDataExport | null> {
+  const associate = await prisma.associate.findUnique({
+    where: { id: associateId },
+    select: {
+      id: true,
+      slug: true,
+      displayName: true,
+      email: true,
+      createdAt: true,
+      updatedAt: true,
+      readinessStatus: true,
+      recommendedArea: true,
+      lastComputedAt: true,
+      readinessExplanation: true,
+      lastInvitedAt: true,
+      cohort: { select: { id: true, name: true } },
+      authUserId: true,
+    },
+  });
+  if (!associate) return null;
+
+  const { authUserId, ...associateFields } = associate;
+  const filters = associateFilters({ ...associate, authUserId });
+  const [profile, sessions, gapScores, practiceCards, codingAttempts, assessmentSessions, authEvents] =
+    await Promise.all([
+      filters.profile
+        ? prisma.profile.findUnique({
+            where: filters.profile,
+            select: { displayName: true, githubUsername: true, bio: true, learningGoals: true, createdAt: true, updatedAt: true },
+          })
+        : null,
+      prisma.session.findMany({
+        where: filters.sessions,
+        orderBy: { createdAt: 'asc' },
+        include: { coAssessments: { select: { interviewerName: true, assessments: true, createdAt: true } } },
+      }),
+      prisma.gapScore.findMany({ where: filters.byAssociate, orderBy: [{ skill: 'asc' }, { topic: 'asc' }] }),
+      prisma.practiceCard.findMany({ where: filters.byAssociate, orderBy: { createdAt: 'asc' } }),
+      prisma.codingAttempt.findMany({
+        where: filters.byAssociate,
+        orderBy: { submittedAt: 'asc' },
+        omit: { judge0Token: true },
+        include: {
+          challenge: { select: { slug: true, title: true } },
+          timeline: true,
+          // `error` is a server-side failure reason, never shown to associates.
+          review: { omit: { error: true } },
+          signal: true,
+        },
+      }),
+      prisma.codingAssessmentSession.findMany({
+        where: filters.byAssociate,
+        orderBy: { startedAt: 'asc' },
+        include: {
+          assessment: { select: { title: true } },
+          events: { orderBy: { occurredAt: 'asc' } },
+        },
+      }),
+      filters.authEvents
+        ? prisma.authEvent.findMany({
+            where: filters.authEvents,
+            orderBy: { createdAt: 'asc' },
+            select: { type: true, ip: true, createdAt: true },
+          })
+        : [],
+    ]);
+
+  return {
+    exportedAt: new Date().toISOString(),
+    associate: associateFields,
+    profile,
+    sessions,
+    gapScores,
+    practiceCards,
+    codingAttempts,
+    assessmentSessions,
+    authEvents,
+    historyFileSessions: readHistoryFile().filter(filters.historyFile) as unknown as Record<string, unknown>[],
+  };
+}
+
+const ARCHIVE_README = `Your Next Level Mock data export
+
+Each file holds one kind of record, as JSON:
+
+  associate.json           your account, cohort and latest readiness result
+  profile.json             profile fields you edited (display name, bio, goals)
+  sessions.json            mock interviews: questions, your answers' assessments, scores and feedback
+  gapScores.json           per-skill / per-topic scores derived from your sessions
+  practiceCards.json       spaced-repetition review cards and your progress on them
+  codingAttempts.json      coding submissions: code, test results, edit timeline, review
+  assessmentSessions.json  timed assessments you started and their integrity events
+  authEvents.json          sign-in link and password-reset requests made for your email
+  historyFileSessions.json the same interviews as kept in the legacy local history file
+
+Times are UTC (ISO 8601).
+`;
+
+/** The export as a ZIP: a README plus one pretty-printed JSON file per section. */
+export function associateDataArchive(data: AssociateDataExport): Buffer {
+  return createZip([
+    { path: 'README.txt', content: ARCHIVE_README },
+    { path: 'export.json', content: JSON.stringify({ exportedAt: data.exportedAt }, null, 2) },
+    ...EXPORT_SECTIONS.map((section) => ({
+      path: `${section}.json`,
+      content: JSON.stringify(data[section], null, 2),
+    })),
+  ]);
+}
+
+// ---------------------------------------------------------------------------
+// Erasure
+// ---------------------------------------------------------------------------
+
+/** Confirmation report stored on the ErasureRequest. Counts only, no personal data. */
+export interface ErasureReport {
+  associateId: number;
+  erasedAt: string;
+  authUser: 'deleted' | 'not_found' | 'not_linked';
+  deleted: {
+    associate: number;
+    sessions: number;
+    coInterviewerAssessments: number;
+    gapScores: number;
+    practiceCards: number;
+    codingAttempts: number;
+    assessmentSessions: number;
+    profile: number;
+    authEvents: number;
+    historyFileSessions: number;
+  };
+  retained: string[];
+}
+
+const RETAINED = [
+  'Audit log entries that reference this associate (append-only compliance record)',
+  'This erasure request: associate id, slug and the reason given',
+];
+
+export type ErasureErrorReason = 'NOT_FOUND' | 'NOT_PENDING' | 'ASSOCIATE_NOT_FOUND';
+
+export class ErasureError extends Error {
+  constructor(
+    public readonly reason: ErasureErrorReason,
+    message: string,
+  ) {
+    super(message);
+    this.name = 'ErasureError';
+  }
+}
+
+/**
+ * Delete the auth account first: if that fails nothing has been touched and
+ * the admin can simply retry; once it succeeds the associate can no longer
+ * sign in, and a retry after a later failure treats the missing user as done.
+ */
+async function deleteAuthUser(authUserId: string | null): Promise<ErasureReport['authUser']> {
+  if (!authUserId) return 'not_linked';
+  const { error } = await supabaseAdmin.auth.admin.deleteUser(authUserId);
+  if (!error) return 'deleted';
+  if (error.status === 404) return 'not_found';
+  throw error;
+}
+
+function readHistoryFile(): InterviewSession[] {
+  try {
+    return readHistory();
+  } catch (err) {
+    console.error('[associateData] history file read failed:', err);
+    return [];
+  }
+}
+
+function removeFromHistoryFile(belongs: (session: InterviewSession) => boolean): number {
+  try {
+    const history = readHistory();
+    const kept = history.filter((s) => !belongs(s));
+    if (kept.length !== history.length) writeHistory(kept);
+    return history.length - kept.length;
+  } catch (err) {
+    console.error('[associateData] history file cleanup failed:', err);
+    return 0;
+  }
+}
+
+/**
+ * Remove every row linked to the associate, the Supabase auth user and their
+ * sessions in the local history file. Sessions are deleted outright (they hold
+ * the transcript and feedback); everything hanging off Associate cascades.
+ */
+export async function eraseAssociate(associateId: number): Promise<ErasureReport> {
+  const associate = await prisma.associate.findUnique({
+    where: { id: associateId },
+    select: { id: true, slug: true, email: true, authUserId: true },
+  });
+  if (!associate) throw new ErasureError('ASSOCIATE_NOT_FOUND', 'Associate no longer exists');
+
+  const authUser = await deleteAuthUser(associate.authUserId);
+
+  const filters = associateFilters(associate);
+  const deleted = await prisma.$transaction(async (tx) => {
+    const [coInterviewerAssessments, gapScores, practiceCards, codingAttempts, assessmentSessions] = await Promise.all([
+      tx.coInterviewerAssessment.count({ where: { session: filters.sessions } }),
+      tx.gapScore.count({ where: filters.byAssociate }),
+      tx.practiceCard.count({ where: filters.byAssociate }),
+      tx.codingAttempt.count({ where: filters.byAssociate }),
+      tx.codingAssessmentSession.count({ where: filters.byAssociate }),
+    ]);
+    const sessions = await tx.session.deleteMany({ where: filters.sessions });
+    const authEvents = filters.authEvents ? await tx.authEvent.deleteMany({ where: filters.authEvents }) : { count: 0 };
+    const profile = filters.profile ? await tx.profile.deleteMany({ where: filters.profile }) : { count: 0 };
+    await tx.associate.delete({ where: { id: associateId } });
+    return {
+      associate: 1,
+      sessions: sessions.count,
+      coInterviewerAssessments,
+      gapScores,
+      practiceCards,
+      codingAttempts,
+      assessmentSessions,
+      profile: profile.count,
+      authEvents: authEvents.count,
+    };
+  });
+
+  return {
+    associateId,
+    erasedAt: new Date().toISOString(),
+    authUser,
+    deleted: { ...deleted, historyFileSessions: removeFromHistoryFile(filters.historyFile) },
+    retained: RETAINED,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Requests
+// ---------------------------------------------------------------------------
+
+export const ERASURE_STATUSES = ['pending', 'rejected', 'completed', 'failed'] as const;
+export type ErasureStatus = (typeof ERASURE_STATUSES)[number];
+
+/** Statuses an admin can still act on; 'failed' can be approved again. */
+const OPEN_STATUSES: ErasureStatus[] = ['pending', 'failed'];
+
+export interface ErasureRequestRow {
+  id: string;
+  associateId: number;
+  associateSlug: string;
+  reason: string | null;
+  status: ErasureStatus;
+  reviewedBy: string | null;
+  reviewedAt: string | null;
+  note: string | null;
+  report: ErasureReport | { error: string } | null;
+  createdAt: string;
+}
+
+type ErasureRequestRecord = Prisma.ErasureRequestGetPayload<object>;
+
+function toRow(r: ErasureRequestRecord): ErasureRequestRow {
+  return {
+    id: r.id,
+    associateId: r.associateId,
+    associateSlug: r.associateSlug,
+    reason: r.reason,
+    status: r.status as ErasureStatus,
+    reviewedBy: r.reviewedBy,
+    reviewedAt: r.reviewedAt?.toISOString() ?? null,
+    note: r.note,
+    report: r.report as ErasureRequestRow['report'],
+    createdAt: r.createdAt.toISOString(),
+  };
+}
+
+/** The associate's open request, if any. */
+export async function findOpenErasureRequest(associateId: number): Promise<ErasureRequestRow | null> {
+  const row = await prisma.erasureRequest.findFirst({
+    where: { associateId, status: { in: OPEN_STATUSES } },
+    orderBy: { createdAt: 'desc' },
+  });
+  return row ? toRow(row) : null;
+}
+
+/** Idempotent: returns the open request instead of filing a second one. */
+export async function requestErasure(
+  associate: { id: number; slug: string },
+  reason: string | null,
+): Promise<{ request: ErasureRequestRow; created: boolean }> {
+  const open = await findOpenErasureRequest(associate.id);
+  if (open) return { request: open, created: false };
+  const row = await prisma.erasureRequest.create({
+    data: { associateId: associate.id, associateSlug: associate.slug, reason },
+  });
+  return { request: toRow(row), created: true };
+}
+
+export async function listErasureRequests(status?: ErasureStatus): Promise<ErasureRequestRow[]> {
+  const rows = await prisma.erasureRequest.findMany({
+    where: status ? { status } : undefined,
+    orderBy: { createdAt: 'desc' },
+    take: 200,
+  });
+  return rows.map(toRow);
+}
+
+async function openRequest(id: string): Promise<ErasureRequestRecord> {
+  const row = await prisma.erasureRequest.findUnique({ where: { id } });
+  if (!row) throw new ErasureError('NOT_FOUND', 'Erasure request not found');
+  if (!OPEN_STATUSES.includes(row.status as ErasureStatus)) {
+    throw new ErasureError('NOT_PENDING', `Erasure request is already ${row.status}`);
+  }
+  return row;
+}
+
+/**
+ * Approve and run the erasure. A failed run is kept as 'failed' with the error
+ * so the admin sees it and can approve again; the error is rethrown.
+ */
+export async function approveErasure(id: string, reviewer: StaffIdentity): Promise<ErasureRequestRow> {
+  const request = await openRequest(id);
+  const reviewed = { reviewedBy: reviewer.email, reviewedAt: new Date() };
+
+  let report: ErasureReport;
+  try {
+    report = await eraseAssociate(request.associateId);
+  } catch (err) {
+    await prisma.erasureRequest.update({
+      where: { id },
+      data: { ...reviewed, status: 'failed', report: { error: (err as Error).message } },
+    });
+    throw err;
+  }
+
+  const row = await prisma.erasureRequest.update({
+    where: { id },
+    data: { ...reviewed, status: 'completed', report: report as unknown as Prisma.InputJsonValue },
+  });
+  await recordAuditEvent(reviewer, {
+    action: 'erasure_request.approve',
+    targetId: id,
+    after: { associateId: report.associateId, authUser: report.authUser, deleted: report.deleted },
+  });
+  return toRow(row);
+}
+
+export async function rejectErasure(id: string, reviewer: StaffIdentity, note: string | null): Promise<ErasureRequestRow> {
+  const request = await openRequest(id);
+  const row = await prisma.erasureRequest.update({
+    where: { id },
+    data: { status: 'rejected', reviewedBy: reviewer.email, reviewedAt: new Date(), note },
+  });
+  await recordAuditEvent(reviewer, {
+    action: 'erasure_request.reject',
+    targetId: id,
+    before: { status: request.status },
+    after: { status: 'rejected', associateId: request.associateId },
+  });
+  return toRow(row);
+}
@@ -0,0 +1,130 @@
+/**
+ * auditLog.test.ts — diffing, the log-and-continue writer, filters and CSV.
+ * Prisma is mocked; the append-only trigger lives in the migration.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    auditEvent: {
+      create: vi.fn(),
+      findMany: vi.fn(),
+    },
+  },
+}));
+
+import { prisma } from '@/lib/prisma';
+import {
+  auditEventsToCsv,
+  auditWhere,
+  diffValues,
+  exportAuditEvents,
+  listAuditEvents,
+  recordAuditEvent,
+  type AuditEventRow,
+} from './auditLog';
+
+const create = prisma.auditEvent.create as ReturnType<typeof vi.fn>;
+const findMany = prisma.auditEvent.findMany as ReturnType<typeof vi.fn>;
+
+const trainer = { kind: 'trainer', userId: 'u1', email: 't@test.com' } as const;
+
+function row(id: string, overrides: Partial<AuditEventRow> = {}) {
+  return {
+    id,
+    actorId: 'u1',
+    actorEmail: 't@test.com',
+    actorRole: 'trainer',
+    action: 'settings.update',
+    targetType: 'settings',
+    targetId: '1',
+    before: { readinessThreshold: 75 },
+    after: { readinessThreshold: 80 },
+    createdAt: new Date('2026-05-01T00:00:00Z'),
+    ...overrides,
+  };
+}
+
+beforeEach(() => vi.clearAllMocks());
+
+describe('diffValues', () => {
+  it('keeps changed keys only and returns null for no-op saves', () => {
+    expect(diffValues({ a: 1, b: [1, 2], c: 'x' }, { a: 1, b: [1, 3], d: true })).toEqual({
+      before: { b: [1, 2], c: 'x', d: null },
+      after: { b: [1, 3], c: null, d: true },
+    });
+    expect(diffValues({ a: 1 }, { a: 1 })).toBeNull();
+  });
+});
+
+describe('recordAuditEvent', () => {
+  it('stores the actor, derives targetType from the action and stringifies the id', async () => {
+    await recordAuditEvent(trainer, { action: 'curriculum_week.delete', targetId: 12, before: { weekNumber: 3 } });
+    expect(create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        actorId: 'u1',
+        actorEmail: 't@test.com',
+        actorRole: 'trainer',
+        action: 'curriculum_week.delete',
+        targetType: 'curriculum_week',
+        targetId: '12',
+        before: { weekNumber: 3 },
+      }),
+    });
+  });
+
+  it('never throws when the insert fails', async () => {
+    const spy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    create.mockRejectedValueOnce(new Error('db down'));
+    await expect(recordAuditEvent(trainer, { action: 'settings.update', targetId: 1 })).resolves.toBeUndefined();
+    expect(spy).toHaveBeenCalled();
+    spy.mockRestore();
+  });
+});
+
+describe('auditWhere', () => {
+  it('matches an actor by id or email and treats `to` as exclusive', () => {
+    const from = new Date('2026-05-01');
+    const to = new Date('2026-06-01');
+    expect(auditWhere({ actor: 'ada', action: 'cohort.delete', from, to })).toEqual({
+      OR: [{ actorId: 'ada' }, { actorEmail: { contains: 'ada', mode: 'insensitive' } }],
+      action: 'cohort.delete',
+      createdAt: { gte: from, lt: to },
+    });
+    expect(auditWhere({})).toEqual({});
+  });
+});
+
+describe('listAuditEvents / exportAuditEvents', () => {
+  it('pages newest first with a cursor', async () => {
+    findMany.mockResolvedValue([row('c'), row('b'), row('a')]);
+    const page = await listAuditEvents({}, { limit: 2 });
+    expect(page.nextCursor).toBe('b');
+    expect(page.events.map((e) => e.id)).toEqual(['c', 'b']);
+    expect(page.events[0].createdAt).toBe('2026-05-01T00:00:00.000Z');
+  });
+
+  it('reads exports in batches until a short batch', async () => {
+    findMany
+      .mockResolvedValueOnce(Array.from({ length: 1000 }, (_, i) => row(`r${i}`)))
+      .mockResolvedValueOnce([row('last')]);
+    const rows = await exportAuditEvents({ action: 'settings.update' });
+    expect(rows).toHaveLength(1001);
+    expect(findMany.mock.calls[1][0]).toMatchObject({ cursor: { id: 'r999' }, skip: 1 });
+  });
+});
+
+describe('auditEventsToCsv', () => {
+  it('quotes JSON and commas and defuses spreadsheet formulas', () => {
+    const csv = auditEventsToCsv([
+      { ...row('x'), createdAt: '2026-05-01T00:00:00.000Z', actorEmail: '=HYPERLINK("x")', targetId: 'a,b' },
+    ]);
+    const [header, line] = csv.trim().split('\r\n');
+    expect(header).toBe('createdAt,actorEmail,actorRole,actorId,action,targetType,targetId,before,after,id');
+    expect(line).toBe(
+      `2026-05-01T00:00:00.000Z,"'=HYPERLINK(""x"")",trainer,u1,settings.update,settings,"a,b",` +
+        `"{""readinessThreshold"":75}","{""readinessThreshold"":80}",x`,
+    );
+  });
+});
@@ -0,0 +1,186 @@
+import { prisma } from '@/lib/prisma';
+import { Prisma } from '@/generated/prisma';
+import type { StaffIdentity } from '@/lib/authorization';
+
+/**
+ * Audit trail for staff actions that change scores, thresholds, curriculum,
+ * cohort membership, or delete data. Rows are append-only (DB trigger).
+ *
+ * Writes are log-and-continue, like the session dual-write: a failed audit
+ * insert is logged loudly but never turns a completed change into a 500.
+ */
+
+export const AUDIT_ACTIONS = [
+  'session.score_override',
+  'session.delete',
+  'settings.update',
+  'readiness_policy.update',
+  'readiness_policy.delete',
+  'curriculum_week.create',
+  'curriculum_week.update',
+  'curriculum_week.delete',
+  'associate.cohort_change',
+  'associate.delete',
+  'cohort.delete',
+  'erasure_request.approve',
+  'erasure_request.reject',
+  'retention_policy.update',
+  'retention_policy.run',
+] as const;
+export type AuditAction = (typeof AUDIT_ACTIONS)[number];
+
+type AuditValues = Record<string, unknown>;
+
+export interface AuditEntry {
+  action: AuditAction;
+  targetId: string | number;
+  before?: AuditValues | null;
+  after?: AuditValues | null;
+}
+
+function toJson(values: AuditValues | null | undefined): Prisma.InputJsonValue | typeof Prisma.DbNull {
+  return values ? (JSON.parse(JSON.stringify(values)) as Prisma.InputJsonValue) : Prisma.DbNull;
+}
+
+/**
+ * Keep only the keys whose values differ. Returns null when nothing changed so
+ * callers can skip no-op saves.
+ */
+export function diffValues(
+  before: AuditValues,
+  after: AuditValues,
+): { before: AuditValues; after: AuditValues } | null {
+  const changedBefore: AuditValues = {};
+  const changedAfter: AuditValues = {};
+  for (const key of new Set([...Object.keys(before), ...Object.keys(after)])) {
+    if (JSON.stringify(before[key]) === JSON.stringify(after[key])) continue;
+    changedBefore[key] = before[key] ?? null;
+    changedAfter[key] = after[key] ?? null;
+  }
+  return Object.keys(changedAfter).length > 0 ? { before: changedBefore, after: changedAfter } : null;
+}
+
+export async function recordAuditEvent(actor: StaffIdentity, entry: AuditEntry): Promise<void> {
+  try {
+    await prisma.auditEvent.create({
+      data: {
+        actorId: actor.userId,
+        actorEmail: actor.email,
+        actorRole: actor.kind,
+        action: entry.action,
+        targetType: entry.action.slice(0, entry.action.indexOf('.')),
+        targetId: String(entry.targetId),
+        before: toJson(entry.before),
+        after: toJson(entry.after),
+      },
+    });
+  } catch (err) {
+    console.error(`[audit] failed to record ${entry.action} on ${entry.targetId}:`, err);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Viewer / export
+// ---------------------------------------------------------------------------
+
+export interface AuditFilter {
+  actor?: string; // matches actorEmail (contains) or actorId (exact)
+  action?: string;
+  targetType?: string;
+  targetId?: string;
+  from?: Date;
+  to?: Date;
+}
+
+export interface AuditEventRow {
+  id: string;
+  actorId: string;
+  actorEmail: string;
+  actorRole: string;
+  action: string;
+  targetType: string;
+  targetId: string;
+  before: unknown;
+  after: unknown;
+  createdAt: string;
+}
+
+export function auditWhere(filter: AuditFilter): Prisma.AuditEventWhereInput {
+  return {
+    ...(filter.actor
+      ? { OR: [{ actorId: filter.actor }, { actorEmail: { contains: filter.actor, mode: 'insensitive' } }] }
+      : {}),
+    ...(filter.action ? { action: filter.action } : {}),
+    ...(filter.targetType ? { targetType: filter.targetType } : {}),
+    ...(filter.targetId ? { targetId: filter.targetId } : {}),
+    ...(filter.from || filter.to
+      ? { createdAt: { ...(filter.from ? { gte: filter.from } : {}), ...(filter.to ? { lt: filter.to } : {}) } }
+      : {}),
+  };
+}
+
+type AuditEventRecord = Prisma.AuditEventGetPayload<object>;
+
+function toRow(e: AuditEventRecord): AuditEventRow {
+  return { ...e, createdAt: e.createdAt.toISOString() };
+}
+
+/** Newest first, keyset-paginated on id. */
+export async function listAuditEvents(
+  filter: AuditFilter,
+  { cursor, limit }: { cursor?: string; limit: number },
+): Promise<{ events: AuditEventRow[]; nextCursor: string | null }> {
+  const rows = await prisma.auditEvent.findMany({
+    where: auditWhere(filter),
+    orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+    take: limit + 1,
+    ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+  });
+  const hasMore = rows.length > limit;
+  const page = hasMore ? rows.slice(0, limit) : rows;
+  return { events: page.map(toRow), nextCursor: hasMore ? page[page.length - 1].id : null };
+}
+
+const CSV_COLUMNS: (keyof AuditEventRow)[] = [
+  'createdAt',
+  'actorEmail',
+  'actorRole',
+  'actorId',
+  'action',
+  'targetType',
+  'targetId',
+  'before',
+  'after',
+  'id',
+];
+
+function csvCell(value: unknown): string {
+  const text = value === null || value === undefined ? '' : typeof value === 'string' ? value : JSON.stringify(value);
+  // Quote everything that could break a row, and neutralise spreadsheet formulas.
+  const safe = /^[=+\-@\t\r]/.test(text) ? `'${text}` : text;
+  return /[",\n\r]/.test(safe) || safe !== text ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+export function auditEventsToCsv(events: AuditEventRow[]): string {
+  const lines = [CSV_COLUMNS.join(',')];
+  for (const e of events) lines.push(CSV_COLUMNS.map((c) => csvCell(e[c])).join(','));
+  return lines.join('\r\n') + '\r\n';
+}
+
+/** Every matching event (up to maxRows), oldest first, read 1000 rows at a time. */
+export async function exportAuditEvents(filter: AuditFilter, maxRows = 50_000): Promise<AuditEventRow[]> {
+  const out: AuditEventRow[] = [];
+  let cursor: string | undefined;
+  while (out.length < maxRows) {
+    const batch = await prisma.auditEvent.findMany({
+      where: auditWhere(filter),
+      orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+      take: Math.min(1000, maxRows - out.length),
+      ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+    });
+    out.push(...batch.map(toRow));
+    if (batch.length < 1000) break;
+    cursor = batch[batch.length - 1].id;
+  }
+  return out;
+}
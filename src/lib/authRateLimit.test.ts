@@ -10,11 +10,12 @@ vi.mock('@/lib/prisma', () => ({
 }));
 
 // Import after mock setup
-import { checkAuthRateLimit, recordAuthEvent, _resetForTest } from './authRateLimit';
+import { checkAuthRateLimit, recordAuthEvent } from './authRateLimit';
+import { _setRateLimitStorageForTest, createMemoryRateLimitStorage } from './rateLimiter';
 
 describe('checkAuthRateLimit', () => {
   beforeEach(() => {
-    _resetForTest();
+    _setRateLimitStorageForTest(createMemoryRateLimitStorage());
     vi.useFakeTimers();
     vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
   });
@@ -23,8 +24,8 @@ describe('checkAuthRateLimit', () => {
     vi.useRealTimers();
   });
 
-  it('allows the first request', () => {
-    const result = checkAuthRateLimit({
+  it('allows the first request', async () => {
+    const result = await checkAuthRateLimit({
       email: 'user@example.com',
       ip: '1.2.3.4',
       type: 'magic-link',
@@ -33,11 +34,11 @@ describe('checkAuthRateLimit', () => {
     expect(result.remaining).toBe(2);
   });
 
-  it('blocks after 3 same-email requests within an hour', () => {
+  it('blocks after 3 same-email requests within an hour', async () => {
     for (let i = 0; i < 3; i++) {
-      checkAuthRateLimit({ email: 'user@example.com', ip: `1.2.3.${i}`, type: 'magic-link' });
+      await checkAuthRateLimit({ email: 'user@example.com', ip: `1.2.3.${i}`, type: 'magic-link' });
     }
-    const result = checkAuthRateLimit({
+    const result = await checkAuthRateLimit({
       email: 'user@example.com',
       ip: '9.9.9.9',
       type: 'magic-link',
@@ -46,11 +47,11 @@ describe('checkAuthRateLimit', () => {
     expect(result.remaining).toBe(0);
   });
 
-  it('blocks after 10 same-IP requests within an hour', () => {
+  it('blocks after 10 same-IP requests within an hour', async () => {
     for (let i = 0; i < 10; i++) {
-      checkAuthRateLimit({ email: `user${i}@example.com`, ip: '1.2.3.4', type: 'reset' });
+      await checkAuthRateLimit({ email: `user${i}@example.com`, ip: '1.2.3.4', type: 'reset' });
     }
-    const result = checkAuthRateLimit({
+    const result = await checkAuthRateLimit({
       email: 'newuser@example.com',
       ip: '1.2.3.4',
       type: 'reset',
@@ -59,13 +60,22 @@ describe('checkAuthRateLimit', () => {
     expect(result.remaining).toBe(0);
   });
 
-  it('magic-link and reset namespaces do not interfere', () => {
+  it('does not count a request blocked by the IP limit against the email', async () => {
+    for (let i = 0; i < 10; i++) {
+      await checkAuthRateLimit({ email: `user${i}@example.com`, ip: '1.2.3.4', type: 'reset' });
+    }
+    expect((await checkAuthRateLimit({ email: 'late@example.com', ip: '1.2.3.4', type: 'reset' })).allowed).toBe(false);
+    const result = await checkAuthRateLimit({ email: 'late@example.com', ip: '9.9.9.9', type: 'reset' });
+    expect(result).toMatchObject({ allowed: true, remaining: 2 });
+  });
+
+  it('magic-link and reset namespaces do not interfere', async () => {
     // Max out magic-link for email
     for (let i = 0; i < 3; i++) {
-      checkAuthRateLimit({ email: 'user@example.com', ip: `1.2.3.${i}`, type: 'magic-link' });
+      await checkAuthRateLimit({ email: 'user@example.com', ip: `1.2.3.${i}`, type: 'magic-link' });
     }
     // reset namespace should still allow
-    const result = checkAuthRateLimit({
+    const result = await checkAuthRateLimit({
       email: 'user@example.com',
       ip: '9.9.9.9',
       type: 'reset',
@@ -73,14 +83,14 @@ describe('checkAuthRateLimit', () => {
     expect(result.allowed).toBe(true);
   });
 
-  it('allows requests after hour window expires', () => {
+  it('allows requests after hour window expires', async () => {
     // Max out
     for (let i = 0; i < 3; i++) {
-      checkAuthRateLimit({ email: 'user@example.com', ip: `1.2.3.${i}`, type: 'magic-link' });
+      await checkAuthRateLimit({ email: 'user@example.com', ip: `1.2.3.${i}`, type: 'magic-link' });
     }
     // Advance 61 minutes
     vi.advanceTimersByTime(61 * 60 * 1000);
-    const result = checkAuthRateLimit({
+    const result = await checkAuthRateLimit({
       email: 'user@example.com',
       ip: '9.9.9.9',
       type: 'magic-link',
@@ -88,11 +98,11 @@ describe('checkAuthRateLimit', () => {
     expect(result.allowed).toBe(true);
   });
 
-  it('retryAfterMs is positive when blocked', () => {
+  it('retryAfterMs is positive when blocked', async () => {
     for (let i = 0; i < 3; i++) {
-      checkAuthRateLimit({ email: 'user@example.com', ip: `1.2.3.${i}`, type: 'magic-link' });
+      await checkAuthRateLimit({ email: 'user@example.com', ip: `1.2.3.${i}`, type: 'magic-link' });
     }
-    const result = checkAuthRateLimit({
+    const result = await checkAuthRateLimit({
       email: 'user@example.com',
       ip: '9.9.9.9',
       type: 'magic-link',
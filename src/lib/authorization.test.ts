@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import type { CallerIdentity } from '@/lib/identity';
+import {
+  type StaffIdentity,
+  can,
+  canAccessCohort,
+  cohortScopeWhere,
+  pagePermissions,
+  readStaffAccess,
+  staffHomePath,
+} from './authorization';
+
+const admin: CallerIdentity = { kind: 'admin', userId: 'a', email: 'a@x' };
+const scopedTrainer: StaffIdentity = { kind: 'trainer', userId: 't', email: 't@x', cohortIds: [1, 2] };
+const recruiter: StaffIdentity = { kind: 'recruiter', userId: 'r', email: 'r@x' };
+const author: StaffIdentity = { kind: 'author', userId: 'w', email: 'w@x' };
+const associate: CallerIdentity = { kind: 'associate', userId: 's', email: 's@x', associateId: 1, associateSlug: 'ada' };
+
+describe('readStaffAccess', () => {
+  it('reads role and cohort scope from app_metadata', () => {
+    expect(readStaffAccess({ role: 'trainer', cohortIds: [3, 'x', 4] })).toEqual({ role: 'trainer', cohortIds: [3, 4] });
+    expect(readStaffAccess({ role: 'recruiter' })).toEqual({ role: 'recruiter', cohortIds: null });
+    expect(readStaffAccess({ role: 'author', cohortIds: [3] })).toEqual({ role: 'author', cohortIds: null });
+  });
+
+  it('scopes a malformed cohortIds to nothing and ignores non-staff roles', () => {
+    expect(readStaffAccess({ role: 'trainer', cohortIds: '3' })).toEqual({ role: 'trainer', cohortIds: [] });
+    expect(readStaffAccess({ role: 'associate' })).toBeNull();
+    expect(readStaffAccess(undefined)).toBeNull();
+  });
+});
+
+describe('can', () => {
+  it('grants by role', () => {
+    expect(can(admin, 'users:manage')).toBe(true);
+    expect(can(scopedTrainer, 'users:manage')).toBe(false);
+    expect(can(recruiter, 'readiness:read')).toBe(true);
+    expect(can(recruiter, 'associates:read')).toBe(false);
+    expect(can(author, 'content:write')).toBe(true);
+    expect(can(author, 'associates:read')).toBe(false);
+    expect(can(associate, 'associates:read')).toBe(false);
+  });
+});
+
+describe('cohort scope', () => {
+  it('lets unscoped staff see every cohort, including unassigned associates', () => {
+    expect(canAccessCohort(recruiter, 9)).toBe(true);
+    expect(canAccessCohort(recruiter, null)).toBe(true);
+    expect(cohortScopeWhere(recruiter)).toBeUndefined();
+  });
+
+  it('limits scoped staff to their cohorts', () => {
+    expect(canAccessCohort(scopedTrainer, 2)).toBe(true);
+    expect(canAccessCohort(scopedTrainer, 9)).toBe(false);
+    expect(canAccessCohort(scopedTrainer, null)).toBe(false);
+    expect(cohortScopeWhere(scopedTrainer)).toEqual({ cohortId: { in: [1, 2] } });
+  });
+});
+
+describe('pagePermissions', () => {
+  it('maps staff pages to the permissions that open them', () => {
+    expect(pagePermissions('/trainer')).toEqual(['readiness:read']);
+    expect(pagePermissions('/trainer/ada')).toEqual(['associates:read']);
+    expect(pagePermissions('/trainer/settings/users')).toEqual(['users:manage']);
+    expect(pagePermissions('/trainer/settings/privacy')).toEqual(['privacy:manage']);
+    expect(pagePermissions('/trainer/settings/retention')).toEqual(['cohorts:manage', 'privacy:manage']);
+    expect(pagePermissions('/trainer/settings/cohorts/4/curriculum')).toEqual(['content:write']);
+    expect(pagePermissions('/trainer/settings/threshold')).toEqual(['cohorts:manage']);
+    expect(pagePermissions('/interview/new')).toEqual(['associates:write']);
+    expect(pagePermissions('/trainerish')).toBeNull();
+    expect(pagePermissions('/coding')).toBeNull();
+  });
+
+  it('sends roles without roster access to content settings', () => {
+    expect(staffHomePath('recruiter')).toBe('/trainer');
+    expect(staffHomePath('author')).toBe('/trainer/settings/rubrics');
+  });
+});
@@ -0,0 +1,145 @@
+import type { CallerIdentity } from '@/lib/identity';
+
+/**
+ * Authorization — staff roles, the permissions they grant, and cohort scope.
+ *
+ * Roles live in auth.users.app_metadata.role (see identity.ts); a cohort
+ * scope lives beside it in app_metadata.cohortIds. Never user_metadata —
+ * users can rewrite that themselves with supabase.auth.updateUser(). Routes
+ * ask `can(caller,
+ * permission)` rather than comparing kinds, and middleware.ts asks
+ * `pagePermissions(pathname)` with the role read from the same metadata, so
+ * both layers answer from this one table.
+ *
+ *   admin     — everything, including assigning roles, the audit trail and
+ *               data-erasure requests and retention periods
+ *   trainer   — associates, interviews, readiness, cohorts and content;
+ *               limited to `cohortIds` when set
+ *   recruiter — read-only readiness roster and reports; limited to
+ *               `cohortIds` when set
+ *   author    — curriculum, rubrics and challenge banks; no associate data
+ *
+ * Pure module (type-only imports) so the Edge middleware can load it.
+ */
+
+export const STAFF_ROLES = ['admin', 'trainer', 'recruiter', 'author'] as const;
+export type StaffRole = (typeof STAFF_ROLES)[number];
+
+export const PERMISSIONS = [
+  'associates:read', // associate profiles, sessions, gap scores, coding attempts
+  'associates:write', // invite/edit associates, run mock interviews
+  'readiness:read', // roster readiness, KPIs, trends, PDF reports
+  'cohorts:manage', // create/edit cohorts, thresholds, readiness policy
+  'content:write', // curriculum, rubrics, question and challenge banks
+  'users:manage', // assign staff roles
+  'audit:read', // audit trail viewer and CSV export
+  'privacy:manage', // data-erasure requests, retention periods and purge runs
+] as const;
+export type Permission = (typeof PERMISSIONS)[number];
+
+export const ROLE_PERMISSIONS: Record<StaffRole, readonly Permission[]> = {
+  admin: PERMISSIONS,
+  trainer: ['associates:read', 'associates:write', 'readiness:read', 'cohorts:manage', 'content:write'],
+  recruiter: ['readiness:read'],
+  author: ['content:write'],
+};
+
+/** Roles whose `cohortIds` narrows what they see. */
+const COHORT_SCOPED_ROLES: ReadonlySet<StaffRole> = new Set(['trainer', 'recruiter']);
+
+export function isStaffRole(value: unknown): value is StaffRole {
+  return typeof value === 'string' && (STAFF_ROLES as readonly string[]).includes(value);
+}
+
+export interface StaffAccess {
+  role: StaffRole;
+  /** null = every cohort. Always null for roles that are not cohort-scoped. */
+  cohortIds: number[] | null;
+}
+
+/**
+ * Read role + cohort scope from Supabase app_metadata. Returns null for
+ * associates and anyone without a staff role. A malformed `cohortIds` scopes
+ * to nothing rather than everything.
+ */
+export function readStaffAccess(metadata: Record<string, unknown> | null | undefined): StaffAccess | null {
+  const role = metadata?.role;
+  if (!isStaffRole(role)) return null;
+  const raw = metadata?.cohortIds;
+  if (!COHORT_SCOPED_ROLES.has(role) || raw === undefined || raw === null) {
+    return { role, cohortIds: null };
+  }
+  const cohortIds = Array.isArray(raw) ? raw.filter((id): id is number => Number.isInteger(id)) : [];
+  return { role, cohortIds };
+}
+
+export function roleHasPermission(role: StaffRole, permission: Permission): boolean {
+  return ROLE_PERMISSIONS[role].includes(permission);
+}
+
+export type StaffIdentity = Extract<CallerIdentity, { kind: StaffRole }>;
+
+export function isStaff(caller: CallerIdentity): caller is StaffIdentity {
+  return isStaffRole(caller.kind);
+}
+
+export function can(caller: CallerIdentity, permission: Permission): caller is StaffIdentity {
+  return isStaff(caller) && roleHasPermission(caller.kind, permission);
+}
+
+/** Cohorts the caller is limited to, or null for all of them. */
+export function cohortScope(caller: StaffIdentity): number[] | null {
+  return 'cohortIds' in caller && caller.cohortIds ? caller.cohortIds : null;
+}
+
+/**
+ * Whether a cohort-scoped caller may see a record in `cohortId`. Associates
+ * with no cohort are only visible to unscoped staff.
+ */
+export function canAccessCohort(caller: StaffIdentity, cohortId: number | null): boolean {
+  const scope = cohortScope(caller);
+  return scope === null || (cohortId !== null && scope.includes(cohortId));
+}
+
+/**
+ * Prisma `where` limiting cohort-keyed rows (Associate, …) to the caller's
+ * scope; undefined when unscoped so unassigned associates still match.
+ */
+export function cohortScopeWhere(caller: StaffIdentity): { cohortId: { in: number[] } } | undefined {
+  const scope = cohortScope(caller);
+  return scope === null ? undefined : { cohortId: { in: scope } };
+}
+
+// ---------------------------------------------------------------------------
+// Pages (middleware.ts)
+// ---------------------------------------------------------------------------
+
+// First match wins; a page needs ANY of the listed permissions.
+const PAGE_RULES: Array<[RegExp, Permission[]]> = [
+  [/^\/trainer\/settings\/users(\/|$)/, ['users:manage']],
+  [/^\/trainer\/settings\/audit(\/|$)/, ['audit:read']],
+  [/^\/trainer\/settings\/privacy(\/|$)/, ['privacy:manage']],
+  [/^\/trainer\/settings\/retention(\/|$)/, ['cohorts:manage', 'privacy:manage']],
+  [/^\/trainer\/settings\/(curriculum|rubrics)(\/|$)/, ['content:write']],
+  [/^\/trainer\/settings\/cohorts\/[^/]+\/curriculum(\/|$)/, ['content:write']],
+  [/^\/trainer\/settings\/cohorts\/?$/, ['cohorts:manage', 'content:write']],
+  [/^\/trainer\/settings\/associates(\/|$)/, ['associates:write']],
+  [/^\/trainer\/settings\/?$/, ['cohorts:manage', 'content:write', 'users:manage', 'audit:read', 'privacy:manage']],
+  [/^\/trainer\/settings(\/|$)/, ['cohorts:manage']],
+  [/^\/trainer\/challenges(\/|$)/, ['content:write']],
+  [/^\/trainer\/reports(\/|$)/, ['readiness:read']],
+  [/^\/trainer\/onboarding(\/|$)/, ['associates:write']],
+  [/^\/trainer\/?$/, ['readiness:read']],
+  [/^\/trainer(\/|$)/, ['associates:read']],
+  [/^\/(dashboard|interview|review)(\/|$)/, ['associates:write']],
+];
+
+/** Permissions a staff page needs (any one suffices), or null if not a staff page. */
+export function pagePermissions(pathname: string): Permission[] | null {
+  return PAGE_RULES.find(([pattern]) => pattern.test(pathname))?.[1] ?? null;
+}
+
+/** Where a staff member lands after sign-in, or when sent away from a page they cannot open. */
+export function staffHomePath(role: StaffRole): string {
+  return roleHasPermission(role, 'readiness:read') ? '/trainer' : '/trainer/settings/rubrics';
+}
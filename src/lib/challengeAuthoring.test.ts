@@ -0,0 +1,278 @@
+/**
+ * challengeAuthoring.test.ts — draft validation, the two-repo file layout,
+ * reference dry runs graded like submit, publish ordering and the zip export.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi, type Mock } from 'vitest';
+
+vi.mock('@/lib/executionBackend', () => ({
+  submit: vi.fn(),
+  getSubmission: vi.fn(),
+  getExecutionBackend: vi.fn(() => ({
+    languages: ['python', 'javascript', 'typescript', 'java', 'sql', 'csharp'],
+  })),
+}));
+
+vi.mock('@/lib/coding-challenge-service', () => ({
+  invalidateCache: vi.fn(() => 0),
+  syncChallengeToDb: vi.fn(),
+}));
+
+vi.mock('@/lib/githubCommit', () => ({
+  readRepoFile: vi.fn(),
+  commitFiles: vi.fn(),
+}));
+
+import { submit } from '@/lib/executionBackend';
+import { invalidateCache, syncChallengeToDb } from '@/lib/coding-challenge-service';
+import { commitFiles, readRepoFile } from '@/lib/githubCommit';
+import { ChallengeValidationError } from '@/lib/coding-bank-schemas';
+import {
+  PublishError,
+  ReferenceSolutionError,
+  challengeArchive,
+  draftFiles,
+  dryRunReference,
+  publishChallenge,
+  validateDraft,
+  type ChallengeDraft,
+} from './challengeAuthoring';
+
+function draft(overrides: Partial<ChallengeDraft> = {}): ChallengeDraft {
+  return {
+    meta: {
+      slug: 'echo-sum',
+      title: 'Echo Sum',
+      difficulty: 'easy',
+      skillSlug: 'basics',
+      cohortId: null,
+      languages: ['python'],
+    },
+    readme: '# Echo Sum\n\nAdd two numbers.',
+    starters: { python: 'a, b = map(int, input().split())\n' },
+    visibleTests: [{ id: 'v1', stdin: '1 2', expectedStdout: '3', orderIndex: 0 }],
+    hiddenTests: [{ id: 'h1', stdin: '40 2', expectedStdout: '42', orderIndex: 0 }],
+    ...overrides,
+  };
+}
+
+function sub(statusId: number, stdout: string | null) {
+  return {
+    token: 't',
+    stdout,
+    stderr: null,
+    compile_output: null,
+    message: null,
+    status: { id: statusId, description: '' },
+    time: '0.01',
+    memory: null,
+    exit_code: null,
+  };
+}
+
+const fast = { sleep: async () => {}, pollIntervalMs: 1 };
+
+describe('validateDraft', () => {
+  it('runs the bank validator and the loader README check', () => {
+    expect(validateDraft(draft()).challenge.meta.slug).toBe('echo-sum');
+    expect(() => validateDraft(draft({ readme: '  ' }))).toThrow(ChallengeValidationError);
+    let caught: unknown;
+    try {
+      validateDraft(draft({ hiddenTests: [{ id: 'v1', stdin: '1', expectedStdout: '1', orderIndex: 0 }] }));
+    } catch (err) {
+      caught = err;
+    }
+    expect(caught).toMatchObject({ path: 'hiddenTests[0].id' });
+  });
+
+  it('requires setup.sql for SQL challenges and keeps expectedRows', () => {
+    const sqlDraft = draft({
+      meta: { ...(draft().meta as object), languages: ['sql'] },
+      starters: { sql: '-- query' },
+      visibleTests: [
+        { id: 'v1', stdin: 'SELECT 1;', expectedStdout: '1', orderIndex: 0, expectedRows: [[1]] },
+      ],
+      hiddenTests: [{ id: 'h1', stdin: 'SELECT 2;', expectedStdout: '2', orderIndex: 0 }],
+    });
+    expect(() => validateDraft(sqlDraft)).toThrow(/setup\.sql|required for SQL/);
+    const validated = validateDraft({ ...sqlDraft, setupSql: 'CREATE TABLE t (x int);' });
+    expect(validated.sqlCases?.visible[0].expectedRows).toEqual([[1]]);
+  });
+});
+
+describe('draftFiles', () => {
+  it('puts hidden tests in the private repo only', () => {
+    const d = draft();
+    const files = draftFiles(d, validateDraft(d));
+    expect(files.public.map((f) => f.path)).toEqual([
+      'challenges/echo-sum/meta.json',
+      'challenges/echo-sum/README.md',
+      'challenges/echo-sum/starters/python.py',
+      'challenges/echo-sum/visible-tests.json',
+    ]);
+    expect(files.private).toEqual([
+      { path: 'challenges/echo-sum/hidden-tests.json', content: expect.stringContaining('"40 2"') },
+    ]);
+    expect(files.public.some((f) => f.content.includes('40 2'))).toBe(false);
+  });
+});
+
+describe('dryRunReference', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+    (submit as Mock).mockImplementation(async (opts: { stdin: string }) => ({ token: opts.stdin }));
+  });
+
+  it('grades visible and hidden cases', async () => {
+    const getSub = vi.fn(async (token: string) => (token === '1 2' ? sub(3, '3\n') : sub(4, '41\n')));
+    const result = await dryRunReference(
+      validateDraft(draft()),
+      { language: 'python', code: 'print(sum(map(int, input().split())))' },
+      { ...fast, getSub },
+    );
+    expect(result).toMatchObject({ resolved: true, passed: 1, total: 2 });
+    expect(result.cases.map((c) => [c.caseId, c.hidden, c.passed])).toEqual([
+      ['v1', false, true],
+      ['h1', true, false],
+    ]);
+    expect(submit).toHaveBeenCalledWith(expect.objectContaining({ expectedStdout: '42' }));
+  });
+
+  it('compares function results server-side', async () => {
+    const d = draft({
+      meta: {
+        ...(draft().meta as object),
+        type: 'function',
+        entryPoint: { name: 'add', params: [{ name: 'a', type: 'int' }, { name: 'b', type: 'int' }], returns: 'int' },
+      },
+      starters: { python: 'def add(a, b):\n    pass\n' },
+      visibleTests: [{ id: 'v1', args: [1, 2], expected: 3, orderIndex: 0 }],
+      hiddenTests: [{ id: 'h1', args: [40, 2], expected: 42, orderIndex: 0 }],
+    });
+    const getSub = vi.fn(async () => sub(3, '__NLM_RESULT__3\n'));
+    const result = await dryRunReference(
+      validateDraft(d),
+      { language: 'python', code: 'def add(a, b):\n    return a + b\n' },
+      { ...fast, getSub },
+    );
+    expect(result.cases.map((c) => c.passed)).toEqual([true, false]);
+    expect(submit).toHaveBeenCalledWith(expect.objectContaining({ expectedStdout: undefined }));
+  });
+
+  it('grades SQL on row sets, not raw stdout', async () => {
+    const d = draft({
+      meta: { ...(draft().meta as object), languages: ['sql'] },
+      starters: { sql: '-- query' },
+      setupSql: 'CREATE TABLE t (x int);',
+      visibleTests: [
+        { id: 'v1', stdin: 'SELECT x FROM t;', expectedStdout: '1', orderIndex: 0, expectedRows: [[1]] },
+      ],
+      hiddenTests: [
+        { id: 'h1', stdin: 'SELECT x FROM t;', expectedStdout: '2', orderIndex: 0, expectedRows: [[2]] },
+      ],
+    });
+    const getSub = vi.fn(async () => sub(3, '---BEGIN-ANSWER---\n1\n---END-ANSWER---\n'));
+    const result = await dryRunReference(validateDraft(d), { language: 'sql', code: 'INSERT INTO t VALUES (1);' }, {
+      ...fast,
+      getSub,
+    });
+    expect(result.cases.map((c) => [c.caseId, c.verdict])).toEqual([
+      ['v1', 'pass'],
+      ['h1', 'fail'],
+    ]);
+    expect(result.cases[1].reason).toBeDefined();
+  });
+
+  it('runs Postgres challenges on the Postgres sandbox and parses COPY-text rows', async () => {
+    const d = draft({
+      meta: { ...(draft().meta as object), languages: ['sql'], sqlDialect: 'postgres' },
+      starters: { sql: '-- query' },
+      setupSql: 'CREATE TABLE t (x int, ok boolean);',
+      visibleTests: [
+        { id: 'v1', stdin: 'SELECT x, ok FROM t;', expectedStdout: '1', orderIndex: 0, expectedRows: [[1, true]] },
+      ],
+      hiddenTests: [
+        { id: 'h1', stdin: 'SELECT x, ok FROM t;', expectedStdout: '1', orderIndex: 0, expectedRows: [[1, null]] },
+      ],
+    });
+    const getSub = vi.fn(async () => sub(3, '---BEGIN-ANSWER---\n1\tt\n---END-ANSWER---\n'));
+    const result = await dryRunReference(validateDraft(d), { language: 'sql', code: 'INSERT INTO t VALUES (1, true);' }, {
+      ...fast,
+      getSub,
+    });
+    expect(result.cases.map((c) => c.verdict)).toEqual(['pass', 'fail']);
+    expect(submit).toHaveBeenCalledWith(
+      expect.objectContaining({ sqlDialect: 'postgres', sourceCode: expect.stringMatching(/^\\pset tuples_only on\n/) }),
+    );
+  });
+
+  it('rejects a reference in an undeclared language', async () => {
+    await expect(
+      dryRunReference(validateDraft(draft()), { language: 'java', code: 'class A {}' }, fast),
+    ).rejects.toBeInstanceOf(ReferenceSolutionError);
+    expect(submit).not.toHaveBeenCalled();
+  });
+});
+
+describe('publishChallenge', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+    vi.stubEnv('GITHUB_CODING_PUBLIC_REPO', 'org/public');
+    vi.stubEnv('GITHUB_TOKEN', 'pub');
+    vi.stubEnv('GITHUB_CODING_PRIVATE_REPO', 'org/private');
+    vi.stubEnv('GITHUB_CODING_PRIVATE_TOKEN', 'priv');
+    (readRepoFile as Mock).mockResolvedValue(JSON.stringify([{ slug: 'two-sum' }]));
+    (commitFiles as Mock).mockImplementation(async (target: { repo: string }) => ({
+      sha: `${target.repo}-sha`,
+      url: `https://github.com/${target.repo}/commit/x`,
+    }));
+  });
+  afterEach(() => vi.unstubAllEnvs());
+
+  it('commits the private repo first, then files + manifest, then syncs', async () => {
+    const d = draft();
+    const result = await publishChallenge(d, validateDraft(d), 'trainer@x');
+
+    const calls = (commitFiles as Mock).mock.calls;
+    expect(calls.map((c) => c[0].repo)).toEqual(['org/private', 'org/public']);
+    expect(calls[0][2].map((f: { path: string }) => f.path)).toEqual(['challenges/echo-sum/hidden-tests.json']);
+    const manifest = calls[1][2].find((f: { path: string }) => f.path === 'challenges/manifest.json');
+    expect(JSON.parse(manifest.content)).toEqual([{ slug: 'two-sum' }, { slug: 'echo-sum' }]);
+    expect(invalidateCache).toHaveBeenCalledWith('public:manifest');
+    expect(syncChallengeToDb).toHaveBeenCalledWith('echo-sum');
+    expect(result).toMatchObject({ slug: 'echo-sum', synced: true, publicCommit: { sha: 'org/public-sha' } });
+  });
+
+  it('refuses a slug already in the manifest before committing anything', async () => {
+    (readRepoFile as Mock).mockResolvedValue(JSON.stringify([{ slug: 'echo-sum' }]));
+    const d = draft();
+    await expect(publishChallenge(d, validateDraft(d), 'trainer@x')).rejects.toMatchObject({
+      code: 'SLUG_EXISTS',
+    });
+    expect(commitFiles).not.toHaveBeenCalled();
+  });
+
+  it('reports a failed post-publish sync without failing the publish', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    (syncChallengeToDb as Mock).mockRejectedValue(new Error('404 meta.json'));
+    const d = draft();
+    const result = await publishChallenge(d, validateDraft(d), 'trainer@x');
+    expect(result).toMatchObject({ synced: false, syncError: '404 meta.json' });
+  });
+
+  it('needs all four repo settings', async () => {
+    vi.stubEnv('GITHUB_CODING_PRIVATE_TOKEN', '');
+    const d = draft();
+    await expect(publishChallenge(d, validateDraft(d), 'trainer@x')).rejects.toBeInstanceOf(PublishError);
+  });
+});
+
+describe('challengeArchive', () => {
+  it('zips both repos under public/ and private/', () => {
+    const d = draft();
+    const text = challengeArchive(d, validateDraft(d)).toString('utf-8');
+    expect(text).toContain('public/challenges/echo-sum/meta.json');
+    expect(text).toContain('private/challenges/echo-sum/hidden-tests.json');
+    expect(text).not.toContain('public/challenges/echo-sum/hidden-tests.json');
+  });
+});
@@ -0,0 +1,449 @@
+/**
+ * challengeAuthoring.ts
+ *
+ * Server side of the trainer challenge-authoring wizard
+ * (/trainer/challenges/new). A draft is the in-memory form of one
+ * `challenges/<slug>/` directory; the wizard walks it through:
+ *
+ *   1. validateDraft      — the exact validateChallenge() the bank loader runs,
+ *                           plus the loader's README / setup.sql checks, so a
+ *                           draft that passes here syncs on refresh
+ *   2. dryRunReference    — the trainer's reference solution against EVERY
+ *                           test (visible + hidden) through the execution
+ *                           backend, graded the way submit + poll grade
+ *   3. publishChallenge   — private repo first (hidden-tests.json), then the
+ *                           public repo (files + manifest entry), then a
+ *                           targeted cache flush + DB sync
+ *      challengeArchive   — or the same files as a .zip for the manual PR flow
+ *
+ * Hidden tests are the trainer's own input here, so dry-run results echo
+ * them back — every caller of this module is trainer-gated.
+ */
+
+import 'server-only';
+import { z } from 'zod';
+import type { Judge0Language } from '@/lib/judge0Client';
+import { getExecutionBackend } from '@/lib/executionBackend';
+import {
+  CODING_LANGUAGES,
+  ChallengeValidationError,
+  LANGUAGE_EXTENSIONS,
+  MAX_README_SIZE,
+  SetupSqlSchema,
+  SqlTestCaseSchema,
+  validateChallenge,
+  type CodingLanguage,
+  type SqlTestCase,
+  type ValidatedChallenge,
+} from '@/lib/coding-bank-schemas';
+import { invalidateCache, syncChallengeToDb } from '@/lib/coding-challenge-service';
+import { runScratch, type RunCase, type RunOptions } from '@/lib/codingRun';
+import type { CanonicalVerdict } from '@/lib/judge0Verdict';
+import { buildFunctionSource, functionOutputMatches } from '@/lib/functionHarness';
+import { SubmittedFilesSchema, prepareSource } from '@/lib/projectFiles';
+import { normalizeSqlResult } from '@/lib/sqlResultNormalizer';
+import { buildGradedSqlSource } from '@/lib/sqlSource';
+import { commitFiles, readRepoFile, type CommitFile, type RepoTarget } from '@/lib/githubCommit';
+import { createZip } from '@/lib/zipArchive';
+
+/** A dry run may cover up to 400 cases; give it longer than a scratch run. */
+export const DRY_RUN_DEADLINE_MS = 60_000;
+
+const MANIFEST_PATH = 'challenges/manifest.json';
+
+// ---------------------------------------------------------------------------
+// Wire shapes
+// ---------------------------------------------------------------------------
+
+/**
+ * One challenge directory in memory. Test files and meta are the parsed JSON
+ * exactly as they would be committed; validateDraft() checks them.
+ */
+export const ChallengeDraftSchema = z
+  .object({
+    meta: z.unknown(),
+    readme: z.string(),
+    /** language → single-file starter */
+    starters: z.record(z.string(), z.string()),
+    /** language → path → content, for languages declared in meta.files */
+    starterFiles: z.record(z.string(), z.record(z.string(), z.string())).optional(),
+    visibleTests: z.unknown(),
+    hiddenTests: z.unknown(),
+    setupSql: z.string().optional(),
+  })
+  .strict();
+
+export type ChallengeDraft = z.infer<typeof ChallengeDraftSchema>;
+
+export const ReferenceSolutionSchema = z
+  .object({
+    language: z.enum(CODING_LANGUAGES),
+    code: z.string().min(1).max(100_000).optional(),
+    /** Multi-file languages send every file, like a submit */
+    files: SubmittedFilesSchema.optional(),
+  })
+  .refine((b) => (b.code === undefined) !== (b.files === undefined), {
+    message: 'Provide either code or files',
+  });
+
+export type ReferenceSolution = z.infer<typeof ReferenceSolutionSchema>;
+
+export interface ValidatedDraft {
+  challenge: ValidatedChallenge;
+  readme: string;
+  setupSql: string | null;
+  /** SQL challenges: cases re-parsed with expectedRows + normalizer flags kept */
+  sqlCases: { visible: SqlTestCase[]; hidden: SqlTestCase[] } | null;
+}
+
+export interface DraftFiles {
+  public: CommitFile[];
+  private: CommitFile[];
+}
+
+export interface DryRunCase {
+  caseId: string;
+  hidden: boolean;
+  verdict: CanonicalVerdict;
+  passed: boolean;
+  stdout: string | null;
+  stderr: string | null;
+  compileOutput: string | null;
+  timeMs: number | null;
+  /** SQL row-set mismatch description */
+  reason?: string;
+}
+
+export interface DryRunResult {
+  /** false when the deadline passed before every case finished */
+  resolved: boolean;
+  passed: number;
+  total: number;
+  cases: DryRunCase[];
+}
+
+export interface PublishResult {
+  slug: string;
+  privateCommit: { sha: string; url: string };
+  publicCommit: { sha: string; url: string };
+  /** The DB row was refreshed; false leaves it to the next bank refresh */
+  synced: boolean;
+  syncError?: string;
+}
+
+/** Bad reference solution or a language the backend cannot run. */
+export class ReferenceSolutionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ReferenceSolutionError';
+  }
+}
+
+/** Publish is impossible (no write config) or would clobber an existing slug. */
+export class PublishError extends Error {
+  public readonly code: 'NOT_CONFIGURED' | 'SLUG_EXISTS';
+
+  constructor(code: PublishError['code'], message: string) {
+    super(message);
+    this.name = 'PublishError';
+    this.code = code;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Validation + file layout
+// ---------------------------------------------------------------------------
+
+function parseSqlCases(raw: unknown, label: 'visibleTests' | 'hiddenTests', slug: string): SqlTestCase[] {
+  const parsed = z.array(SqlTestCaseSchema).safeParse(raw);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new ChallengeValidationError(label, issue?.message ?? 'invalid SQL test cases', slug);
+  }
+  return parsed.data;
+}
+
+/** Throws ChallengeValidationError with the same path/reason the loader would. */
+export function validateDraft(draft: ChallengeDraft): ValidatedDraft {
+  const challenge = validateChallenge({
+    meta: draft.meta,
+    visibleTests: draft.visibleTests,
+    hiddenTests: draft.hiddenTests,
+    starters: draft.starters,
+    starterFiles: draft.starterFiles,
+  });
+  const slug = challenge.meta.slug;
+
+  if (draft.readme.trim().length === 0) {
+    throw new ChallengeValidationError('readme', 'README.md must not be empty', slug);
+  }
+  if (draft.readme.length > MAX_README_SIZE) {
+    throw new ChallengeValidationError(
+      'readme',
+      `README.md exceeds ${MAX_README_SIZE} char cap (got ${draft.readme.length})`,
+      slug,
+    );
+  }
+
+  if (!challenge.meta.languages.includes('sql')) {
+    return { challenge, readme: draft.readme, setupSql: null, sqlCases: null };
+  }
+  if (draft.setupSql === undefined || draft.setupSql.trim().length === 0) {
+    throw new ChallengeValidationError(
+      'setup.sql',
+      'required for SQL challenges (meta.languages includes "sql")',
+      slug,
+    );
+  }
+  const setupSql = SetupSqlSchema.safeParse(draft.setupSql);
+  if (!setupSql.success) {
+    throw new ChallengeValidationError('setup.sql', setupSql.error.issues[0].message, slug);
+  }
+  return {
+    challenge,
+    readme: draft.readme,
+    setupSql: setupSql.data,
+    sqlCases: {
+      visible: parseSqlCases(draft.visibleTests, 'visibleTests', slug),
+      hidden: parseSqlCases(draft.hiddenTests, 'hiddenTests', slug),
+    },
+  };
+}
+
+function json(value: unknown): string {
+  return `${JSON.stringify(value, null, 2)}\n`;
+}
+
+/**
+ * Repo-root paths and contents for both repos. Test files are written as
+ * authored (function cases keep their { args, expected } form); meta is the
+ * validated copy.
+ */
+export function draftFiles(draft: ChallengeDraft, validated: ValidatedDraft): DraftFiles {
+  const { meta, starters, starterFiles } = validated.challenge;
+  const dir = `challenges/${meta.slug}`;
+  const files: CommitFile[] = [
+    { path: `${dir}/meta.json`, content: json(meta) },
+    { path: `${dir}/README.md`, content: validated.readme },
+  ];
+  for (const lang of meta.languages) {
+    const project = starterFiles[lang];
+    if (project) {
+      for (const f of project) {
+        files.push({ path: `${dir}/starters/${lang}/${f.path}`, content: f.content });
+      }
+    } else {
+      files.push({
+        path: `${dir}/starters/${lang}.${LANGUAGE_EXTENSIONS[lang]}`,
+        content: starters[lang] ?? '',
+      });
+    }
+  }
+  files.push({ path: `${dir}/visible-tests.json`, content: json(draft.visibleTests) });
+  if (validated.setupSql !== null) {
+    files.push({ path: `${dir}/setup.sql`, content: validated.setupSql });
+  }
+  return {
+    public: files,
+    private: [{ path: `${dir}/hidden-tests.json`, content: json(draft.hiddenTests) }],
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Dry run
+// ---------------------------------------------------------------------------
+
+type DryRunOptions = Pick<RunOptions, 'pollIntervalMs' | 'deadlineMs' | 'sleep' | 'getSub'>;
+
+/**
+ * Run the reference solution against every visible and hidden case and
+ * grade it like submit + poll do: Judge0 compare for stdio, the function
+ * comparator for function challenges, the row-set normalizer for SQL.
+ * Throws ReferenceSolutionError for a solution the draft cannot take;
+ * execution-backend failures propagate.
+ */
+export async function dryRunReference(
+  validated: ValidatedDraft,
+  reference: ReferenceSolution,
+  opts: DryRunOptions = {},
+): Promise<DryRunResult> {
+  const { meta, visibleTests, hiddenTests, starterFiles } = validated.challenge;
+  const language = reference.language as CodingLanguage & Judge0Language;
+  if (!meta.languages.includes(language)) {
+    throw new ReferenceSolutionError(`'${language}' is not one of the challenge's languages`);
+  }
+  if (!getExecutionBackend().languages.includes(language)) {
+    throw new ReferenceSolutionError(`'${language}' is not supported by the execution backend`);
+  }
+
+  let source;
+  try {
+    source = prepareSource(language, starterFiles[language] ?? null, reference);
+  } catch (err) {
+    throw new ReferenceSolutionError(err instanceof Error ? err.message : String(err));
+  }
+
+  const all = [
+    ...visibleTests.map((tc) => ({ tc, hidden: false })),
+    ...hiddenTests.map((tc) => ({ tc, hidden: true })),
+  ];
+  const isSql = language === 'sql';
+  const sqlDialect = meta.sqlDialect ?? 'sqlite';
+  const entryPoint = meta.type === 'function' ? meta.entryPoint ?? null : null;
+  const cases: RunCase[] = all.map(({ tc }) => ({
+    caseId: tc.id,
+    stdin: tc.stdin,
+    // SQL is graded on row sets below, not by Judge0's stdout compare.
+    expectedStdout: isSql ? undefined : tc.expectedStdout,
+  }));
+
+  const run = await runScratch(cases, {
+    language,
+    useStdin: !isSql,
+    ...(isSql ? { sqlDialect } : {}),
+    buildSource: (tc) => {
+      if (isSql) {
+        // Same layout as submit so the normalizer's answer markers apply.
+        return buildGradedSqlSource(sqlDialect, {
+          setupSql: validated.setupSql ?? '',
+          userSql: source.code,
+          testSql: tc.stdin,
+        });
+      }
+      return entryPoint ? buildFunctionSource(language, entryPoint, source.code) : source.sourceCode;
+    },
+    additionalFiles: source.additionalFiles,
+    compare: entryPoint
+      ? (stdout, expected) => functionOutputMatches(stdout, expected, entryPoint.compare)
+      : undefined,
+    deadlineMs: DRY_RUN_DEADLINE_MS,
+    ...opts,
+  });
+
+  const sqlById = new Map(
+    validated.sqlCases
+      ? [...validated.sqlCases.visible, ...validated.sqlCases.hidden].map((tc) => [tc.id, tc])
+      : [],
+  );
+  const results: DryRunCase[] = run.results.map((r, i) => {
+    let verdict = r.verdict;
+    let passed = r.passed === true;
+    let reason: string | undefined;
+    const sqlCase = sqlById.get(all[i].tc.id);
+    if (isSql && sqlCase && (verdict === 'pass' || verdict === 'fail')) {
+      const norm = normalizeSqlResult(r.stdout ?? '', sqlCase, sqlDialect);
+      passed = norm.passed;
+      verdict = norm.passed ? 'pass' : 'fail';
+      reason = norm.reason;
+    }
+    return {
+      caseId: all[i].tc.id,
+      hidden: all[i].hidden,
+      verdict,
+      passed,
+      stdout: r.stdout,
+      stderr: r.stderr,
+      compileOutput: r.compileOutput,
+      timeMs: r.timeMs,
+      ...(reason ? { reason } : {}),
+    };
+  });
+
+  return {
+    resolved: run.resolved,
+    passed: results.filter((c) => c.passed).length,
+    total: results.length,
+    cases: results,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Publish / export
+// ---------------------------------------------------------------------------
+
+function repoTargets(): { public: RepoTarget; private: RepoTarget } | null {
+  const publicRepo = process.env.GITHUB_CODING_PUBLIC_REPO;
+  const publicToken = process.env.GITHUB_TOKEN;
+  const privateRepo = process.env.GITHUB_CODING_PRIVATE_REPO;
+  const privateToken = process.env.GITHUB_CODING_PRIVATE_TOKEN;
+  if (!publicRepo || !publicToken || !privateRepo || !privateToken) return null;
+  return {
+    public: { repo: publicRepo, token: publicToken },
+    private: { repo: privateRepo, token: privateToken },
+  };
+}
+
+/** Whether the wizard can commit; without it the wizard offers the zip only. */
+export function isPublishConfigured(): boolean {
+  return repoTargets() !== null;
+}
+
+const ManifestSchema = z.array(z.object({ slug: z.string() }).passthrough());
+
+/**
+ * Commit a validated draft to both repos. Hidden tests land first so the
+ * public listing never points at a challenge whose submissions would fail
+ * with HIDDEN_TESTS_UNAVAILABLE. A slug already in the manifest is refused —
+ * the wizard authors new challenges; edits go through a reviewed PR. If the
+ * public commit fails after the private one, re-publishing is safe: the
+ * manifest still lacks the slug and the private commit just repeats.
+ */
+export async function publishChallenge(
+  draft: ChallengeDraft,
+  validated: ValidatedDraft,
+  author: string,
+): Promise<PublishResult> {
+  const targets = repoTargets();
+  if (!targets) {
+    throw new PublishError(
+      'NOT_CONFIGURED',
+      'Challenge repos are not configured for publishing — export a zip instead',
+    );
+  }
+  const { meta } = validated.challenge;
+
+  const manifestRaw = await readRepoFile(targets.public, MANIFEST_PATH);
+  const manifest = manifestRaw === null ? [] : ManifestSchema.parse(JSON.parse(manifestRaw));
+  if (manifest.some((e) => e.slug === meta.slug)) {
+    throw new PublishError('SLUG_EXISTS', `Challenge "${meta.slug}" is already in the bank`);
+  }
+
+  const files = draftFiles(draft, validated);
+  const message = `[challenge] ${meta.slug} — ${meta.title}\n\nAuthored in the trainer wizard by ${author}.`;
+  const privateCommit = await commitFiles(targets.private, message, files.private);
+  const publicCommit = await commitFiles(targets.public, message, [
+    ...files.public,
+    { path: MANIFEST_PATH, content: json([...manifest, { slug: meta.slug }]) },
+  ]);
+
+  invalidateCache('public:manifest');
+  invalidateCache(`public:${meta.slug}:*`);
+  invalidateCache(`private:${meta.slug}:*`);
+  try {
+    await syncChallengeToDb(meta.slug);
+    return { slug: meta.slug, privateCommit, publicCommit, synced: true };
+  } catch (err) {
+    // GitHub's contents API can lag a fresh commit; the next refresh picks it up.
+    console.warn('[challengeAuthoring] post-publish sync failed for', meta.slug, err);
+    return {
+      slug: meta.slug,
+      privateCommit,
+      publicCommit,
+      synced: false,
+      syncError: err instanceof Error ? err.message.split('\n')[0].slice(0, 500) : 'sync failed',
+    };
+  }
+}
+
+/**
+ * The draft as a .zip with `public/` and `private/` roots mirroring the two
+ * repos, for trainers without write access. The manifest entry is left to
+ * the PR author — it is one line and conflicts with every other PR.
+ */
+export function challengeArchive(draft: ChallengeDraft, validated: ValidatedDraft): Buffer {
+  const files = draftFiles(draft, validated);
+  return createZip([
+    ...files.public.map((f) => ({ path: `public/${f.path}`, content: f.content })),
+    ...files.private.map((f) => ({ path: `private/${f.path}`, content: f.content })),
+  ]);
+}
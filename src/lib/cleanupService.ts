@@ -1,48 +1,35 @@
 import fs from 'fs';
 import path from 'path';
 import { InterviewSession } from './types';
-import { RateLimitStore } from './rateLimitService';
+import { purgeExpiredRateLimits } from './rateLimiter';
+import { runRetentionSweep } from './retentionPolicy';
+import { purgeExpiredSandboxRuns } from './postgresSandboxRunner';
 
 const DATA_DIR = path.join(process.cwd(), 'data');
 const HISTORY_FILE = path.join(DATA_DIR, 'interview-history.json');
-const RATE_LIMIT_FILE = path.join(DATA_DIR, 'rate-limits.json');
 
-export function cleanRateLimits(): void {
-    if (!fs.existsSync(RATE_LIMIT_FILE)) return;
-    
+export async function cleanRateLimits(): Promise<void> {
     try {
-        const content = fs.readFileSync(RATE_LIMIT_FILE, 'utf-8');
-        if (!content) return;
-        
-        const store: RateLimitStore = JSON.parse(content);
-        let modified = false;
-        
-        const now = new Date();
-        const TWENTY_FOUR_HOURS_MS = 24 * 60 * 60 * 1000;
-        const GLOBAL_STATS_KEY = '_GLOBAL_STATS_';
-        
-        for (const fingerprint in store) {
-            if (fingerprint === GLOBAL_STATS_KEY) continue;
-            
-            const userData = store[fingerprint];
-            const lastResetDate = new Date(userData.lastReset);
-            
-            // Remove entries that are older than 24 hours
-            if (now.getTime() - lastResetDate.getTime() > TWENTY_FOUR_HOURS_MS) {
-                delete store[fingerprint];
-                modified = true;
-            }
-        }
-        
-        if (modified) {
-            fs.writeFileSync(RATE_LIMIT_FILE, JSON.stringify(store, null, 2), 'utf-8');
-            console.log(`[Cleanup] Cleaned up old rate limits at ${new Date().toISOString()}`);
+        const purged = await purgeExpiredRateLimits();
+        if (purged > 0) {
+            console.log(`[Cleanup] Cleaned up ${purged} expired rate limits at ${new Date().toISOString()}`);
         }
     } catch (error) {
         console.error('Error cleaning rate limits:', error);
     }
 }
 
+export async function cleanSandboxRuns(): Promise<void> {
+    try {
+        const purged = await purgeExpiredSandboxRuns();
+        if (purged > 0) {
+            console.log(`[Cleanup] Cleaned up ${purged} Postgres sandbox runs at ${new Date().toISOString()}`);
+        }
+    } catch (error) {
+        console.error('Error cleaning Postgres sandbox runs:', error);
+    }
+}
+
 export function cleanInterviewHistory(): void {
     if (!fs.existsSync(HISTORY_FILE)) return;
     
@@ -70,7 +57,22 @@ export function cleanInterviewHistory(): void {
     }
 }
 
+export async function purgeExpiredData(): Promise<void> {
+    try {
+        const report = await runRetentionSweep();
+        for (const c of report.classes) {
+            if (c.processed > 0 || c.error) {
+                console.log(`[Cleanup] Retention ${c.dataClass}: ${c.processed} of ${c.eligible} rows purged${c.error ? ` (error: ${c.error})` : ''}`);
+            }
+        }
+    } catch (error) {
+        console.error('Error running retention sweep:', error);
+    }
+}
+
 export function runCleanupJob(): void {
-    cleanRateLimits();
+    void cleanRateLimits();
+    void cleanSandboxRuns();
+    void purgeExpiredData();
     cleanInterviewHistory();
 }
@@ -0,0 +1,66 @@
+/**
+ * coInterviewService.ts
+ *
+ * Co-interviewer mode: a second (shadow) trainer joins a live trainer-led
+ * session by link and records their own keyword hits, soft-skill toggles and
+ * notes. Each co-interviewer gets one CoInterviewerAssessment row per session
+ * (keyed by email); the lead's Session row is never written here, so the
+ * lead's draft revision (sessionDraftService) is unaffected.
+ *
+ * Co-interviewers can only write while the session is still a draft
+ * (in-progress / review). Reading stays open after completion so reports can
+ * show who else assessed the candidate.
+ */
+
+import { prisma } from '@/lib/prisma';
+import { Prisma } from '@/generated/prisma';
+import type { CoInterviewerAssessment, CoQuestionAssessment } from '@/lib/types';
+import { DRAFT_STATUSES } from '@/lib/sessionDraftService';
+
+type CoRow = Prisma.CoInterviewerAssessmentGetPayload<object>;
+
+function toCoAssessment(row: CoRow): CoInterviewerAssessment {
+  return {
+    interviewerEmail: row.interviewerEmail,
+    interviewerName: row.interviewerName ?? undefined,
+    assessments: row.assessments as unknown as Record<string, CoQuestionAssessment>,
+    updatedAt: row.updatedAt.toISOString(),
+  };
+}
+
+/** All co-interviewer assessments for a session, oldest joiner first. */
+export async function listCoAssessments(sessionId: string): Promise<CoInterviewerAssessment[]> {
+  const rows = await prisma.coInterviewerAssessment.findMany({
+    where: { sessionId },
+    orderBy: { createdAt: 'asc' },
+  });
+  return rows.map(toCoAssessment);
+}
+
+/**
+ * Create or replace one co-interviewer's assessments.
+ * Returns null when the session doesn't exist or is no longer a draft.
+ */
+export async function saveCoAssessment(
+  sessionId: string,
+  input: { interviewerEmail: string; interviewerName?: string | null; assessments: Record<string, CoQuestionAssessment> },
+): Promise<CoInterviewerAssessment | null> {
+  const session = await prisma.session.findUnique({ where: { id: sessionId }, select: { status: true } });
+  if (!session || !(DRAFT_STATUSES as readonly string[]).includes(session.status)) return null;
+
+  const assessments = input.assessments as unknown as Prisma.InputJsonValue;
+  const row = await prisma.coInterviewerAssessment.upsert({
+    where: { sessionId_interviewerEmail: { sessionId, interviewerEmail: input.interviewerEmail } },
+    create: {
+      sessionId,
+      interviewerEmail: input.interviewerEmail,
+      interviewerName: input.interviewerName ?? null,
+      assessments,
+    },
+    update: {
+      interviewerName: input.interviewerName ?? null,
+      assessments,
+    },
+  });
+  return toCoAssessment(row);
+}
@@ -0,0 +1,117 @@
+/**
+ * codeHighlight.ts
+ *
+ * Dependency-free syntax highlighting for code in question-bank model
+ * answers. Not a parser: a single-pass tokenizer that recognises comments,
+ * strings, numbers and a keyword list for the languages our banks use
+ * (JS/TS, Java, C#, Python, SQL, shell). Unknown languages fall back to the
+ * JS/TS keyword set, which covers most C-family snippets.
+ *
+ * Output is HTML with every token escaped and wrapped in
+ * `<span class="tok-…">`; styles live in globals.css under `.model-answer`.
+ */
+
+const KEYWORDS: Record<string, string[]> = {
+  js: [
+    'async', 'await', 'break', 'case', 'catch', 'class', 'const', 'continue', 'default', 'delete',
+    'do', 'else', 'export', 'extends', 'false', 'finally', 'for', 'function', 'if', 'import', 'in',
+    'instanceof', 'interface', 'let', 'new', 'null', 'of', 'return', 'static', 'super', 'switch',
+    'this', 'throw', 'true', 'try', 'type', 'typeof', 'undefined', 'var', 'void', 'while', 'yield',
+  ],
+  java: [
+    'abstract', 'boolean', 'break', 'case', 'catch', 'char', 'class', 'continue', 'default', 'do',
+    'double', 'else', 'enum', 'extends', 'false', 'final', 'finally', 'float', 'for', 'if',
+    'implements', 'import', 'int', 'interface', 'long', 'new', 'null', 'package', 'private',
+    'protected', 'public', 'return', 'static', 'string', 'super', 'switch', 'this', 'throw',
+    'throws', 'true', 'try', 'var', 'void', 'while', 'using', 'namespace', 'async', 'await',
+  ],
+  python: [
+    'and', 'as', 'assert', 'async', 'await', 'break', 'class', 'continue', 'def', 'del', 'elif',
+    'else', 'except', 'False', 'finally', 'for', 'from', 'global', 'if', 'import', 'in', 'is',
+    'lambda', 'None', 'nonlocal', 'not', 'or', 'pass', 'raise', 'return', 'True', 'try', 'while',
+    'with', 'yield',
+  ],
+  sql: [
+    'select', 'from', 'where', 'join', 'inner', 'left', 'right', 'outer', 'full', 'on', 'group',
+    'by', 'order', 'having', 'insert', 'into', 'values', 'update', 'set', 'delete', 'create',
+    'table', 'index', 'primary', 'key', 'foreign', 'references', 'not', 'null', 'and', 'or', 'as',
+    'distinct', 'limit', 'offset', 'union', 'all', 'case', 'when', 'then', 'else', 'end', 'in',
+    'exists', 'between', 'like', 'is', 'count', 'sum', 'avg', 'min', 'max', 'with', 'over',
+    'partition',
+  ],
+  shell: [
+    'if', 'then', 'else', 'elif', 'fi', 'for', 'in', 'do', 'done', 'while', 'case', 'esac',
+    'function', 'return', 'export', 'local', 'echo', 'cd', 'sudo',
+  ],
+};
+
+const LANGUAGE_ALIASES: Record<string, keyof typeof KEYWORDS> = {
+  js: 'js', javascript: 'js', jsx: 'js', ts: 'js', typescript: 'js', tsx: 'js',
+  java: 'java', csharp: 'java', cs: 'java', 'c#': 'java', kotlin: 'java',
+  py: 'python', python: 'python',
+  sql: 'sql', postgres: 'sql', postgresql: 'sql', mysql: 'sql',
+  sh: 'shell', bash: 'shell', shell: 'shell', zsh: 'shell',
+};
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function commentPattern(lang: keyof typeof KEYWORDS): string {
+  switch (lang) {
+    case 'python':
+    case 'shell':
+      return '#.*';
+    case 'sql':
+      return '--.*|\\/\\*[\\s\\S]*?\\*\\/';
+    default:
+      return '\\/\\/.*|\\/\\*[\\s\\S]*?\\*\\/';
+  }
+}
+
+/**
+ * Highlight `code` as `language` (a fence info string such as "ts" or
+ * "python"). Returns escaped HTML safe to place inside `<code>`.
+ */
+export function highlightCode(code: string, language?: string): string {
+  const lang = LANGUAGE_ALIASES[(language ?? '').trim().toLowerCase()] ?? 'js';
+  const caseInsensitive = lang === 'sql';
+  const keywords = new Set(KEYWORDS[lang]);
+
+  const token = new RegExp(
+    [
+      `(${commentPattern(lang)})`,
+      '("(?:\\\\.|[^"\\\\\\n])*"|\'(?:\\\\.|[^\'\\\\\\n])*\'|`(?:\\\\.|[^`\\\\])*`)',
+      '(\\b\\d+(?:\\.\\d+)?\\b)',
+      '([A-Za-z_$][\\w$]*)',
+    ].join('|'),
+    'g',
+  );
+
+  let html = '';
+  let last = 0;
+  for (const match of code.matchAll(token)) {
+    const index = match.index ?? 0;
+    html += escapeHtml(code.slice(last, index));
+    const [text, comment, string, number, word] = match;
+    if (comment) {
+      html += `<span class="tok-comment">${escapeHtml(comment)}</span>`;
+    } else if (string) {
+      html += `<span class="tok-string">${escapeHtml(string)}</span>`;
+    } else if (number) {
+      html += `<span class="tok-number">${number}</span>`;
+    } else if (word && keywords.has(caseInsensitive ? word.toLowerCase() : word)) {
+      html += `<span class="tok-keyword">${escapeHtml(word)}</span>`;
+    } else {
+      html += escapeHtml(text);
+    }
+    last = index + text.length;
+  }
+  html += escapeHtml(code.slice(last));
+  return html;
+}
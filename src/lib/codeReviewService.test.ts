@@ -0,0 +1,239 @@
+/**
+ * codeReviewService.test.ts — enablement, the claim-once review flow, held
+ * assessment attempts, the hidden-test shield on the prompt, failure handling
+ * and the client view.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi, type Mock } from 'vitest';
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    codingAttempt: { findUnique: vi.fn() },
+    codingAttemptReview: { createMany: vi.fn(), update: vi.fn(), findUnique: vi.fn() },
+  },
+}));
+
+vi.mock('@/lib/coding-challenge-service', () => ({
+  loadChallenge: vi.fn(),
+}));
+
+vi.mock('@/lib/llmProvider', async () => {
+  const actual = await vi.importActual<typeof import('@/lib/llmProvider')>('@/lib/llmProvider');
+  return { ...actual, createChatModel: vi.fn() };
+});
+
+import { prisma } from '@/lib/prisma';
+import { loadChallenge } from '@/lib/coding-challenge-service';
+import { createChatModel } from '@/lib/llmProvider';
+import { SUBMIT_GRACE_MS } from '@/lib/codingAssessmentService';
+import {
+  REVIEW_STALE_MS,
+  getCodeReview,
+  isCodeReviewEnabled,
+  requestCodeReview,
+} from './codeReviewService';
+
+const REVIEW = {
+  summary: 'Correct and readable.',
+  correctness: 'Handles empty input.',
+  complexity: 'O(n log n) from the sort; a Counter keeps it O(n) before ordering.',
+  readability: 'Clear names.',
+  style: 'Prefer collections.Counter over a manual dict.',
+};
+
+const HIDDEN_SENTINEL = 'HIDDEN_FIXTURE_SHOULD_NEVER_LEAK';
+
+function attemptRow(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'att-1',
+    submittedCode: 'print(sorted(input().split()))',
+    language: 'python',
+    verdict: 'fail',
+    score: 50,
+    visibleTestResults: [{ caseId: 'v1', passed: true, stdout: 'a b', durationMs: 5 }],
+    hiddenTestResults: [
+      { caseId: 'h1', passed: true, durationMs: 5 },
+      { caseId: 'h2', passed: false, durationMs: 5 },
+    ],
+    challenge: { slug: 'word-sort', title: 'Word Sort' },
+    ...overrides,
+  };
+}
+
+/** Fake chat model: records the rendered prompt and returns `output`. */
+function stubModel(output: unknown) {
+  const prompts: string[] = [];
+  (createChatModel as Mock).mockReturnValue({
+    withStructuredOutput: () => async (prompt: { toString(): string }) => {
+      prompts.push(prompt.toString());
+      if (output instanceof Error) throw output;
+      return output;
+    },
+  });
+  return prompts;
+}
+
+describe('isCodeReviewEnabled', () => {
+  afterEach(() => vi.unstubAllEnvs());
+
+  it('needs the flag and a usable, non-heuristic provider', () => {
+    vi.stubEnv('LLM_PROVIDER', 'anthropic');
+    vi.stubEnv('ANTHROPIC_API_KEY', 'key');
+    expect(isCodeReviewEnabled()).toBe(false);
+    vi.stubEnv('CODING_AI_REVIEW_ENABLED', 'true');
+    expect(isCodeReviewEnabled()).toBe(true);
+    vi.stubEnv('ANTHROPIC_API_KEY', '');
+    expect(isCodeReviewEnabled()).toBe(false);
+    vi.stubEnv('LLM_PROVIDER', 'heuristic');
+    expect(isCodeReviewEnabled()).toBe(false);
+    vi.stubEnv('LLM_PROVIDER', 'bogus');
+    expect(isCodeReviewEnabled()).toBe(false);
+  });
+});
+
+describe('requestCodeReview', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+    vi.stubEnv('CODING_AI_REVIEW_ENABLED', 'true');
+    vi.stubEnv('LLM_PROVIDER', 'anthropic');
+    vi.stubEnv('ANTHROPIC_API_KEY', 'key');
+    vi.stubEnv('LLM_MODEL', 'review-model');
+    (prisma.codingAttempt.findUnique as Mock).mockResolvedValue(attemptRow());
+    (prisma.codingAttemptReview.createMany as Mock).mockResolvedValue({ count: 1 });
+    (loadChallenge as Mock).mockResolvedValue({ readme: '# Word Sort\nSort the words.' });
+  });
+  afterEach(() => vi.unstubAllEnvs());
+
+  it('does nothing when disabled', async () => {
+    vi.stubEnv('CODING_AI_REVIEW_ENABLED', 'false');
+    await requestCodeReview('att-1');
+    expect(prisma.codingAttempt.findUnique).not.toHaveBeenCalled();
+  });
+
+  it('skips pending attempts and attempts another caller already claimed', async () => {
+    (prisma.codingAttempt.findUnique as Mock).mockResolvedValueOnce(attemptRow({ verdict: 'pending' }));
+    await requestCodeReview('att-1');
+    expect(prisma.codingAttemptReview.createMany).not.toHaveBeenCalled();
+
+    (prisma.codingAttemptReview.createMany as Mock).mockResolvedValueOnce({ count: 0 });
+    await requestCodeReview('att-1');
+    expect(createChatModel).not.toHaveBeenCalled();
+  });
+
+  it('holds assessment attempts until the sitting and its grace period are over', async () => {
+    const expiresAt = new Date('2026-06-01T10:00:00Z');
+    (prisma.codingAttempt.findUnique as Mock).mockResolvedValue(attemptRow({ assessmentSession: { expiresAt } }));
+    stubModel(REVIEW);
+
+    await requestCodeReview('att-1', new Date(expiresAt.getTime() + SUBMIT_GRACE_MS));
+    expect(prisma.codingAttemptReview.createMany).not.toHaveBeenCalled();
+    expect(createChatModel).not.toHaveBeenCalled();
+
+    await requestCodeReview('att-1', new Date(expiresAt.getTime() + SUBMIT_GRACE_MS + 1));
+    expect(prisma.codingAttemptReview.createMany).toHaveBeenCalledTimes(1);
+  });
+
+  it('stores the review; the prompt carries hidden counts only', async () => {
+    const prompts = stubModel(REVIEW);
+    await requestCodeReview('att-1');
+
+    expect(prisma.codingAttemptReview.createMany).toHaveBeenCalledWith({
+      data: [{ attemptId: 'att-1' }],
+      skipDuplicates: true,
+    });
+    expect(prisma.codingAttemptReview.update).toHaveBeenCalledWith({
+      where: { attemptId: 'att-1' },
+      data: expect.objectContaining({ ...REVIEW, status: 'ready', model: 'review-model' }),
+    });
+    expect(prompts).toHaveLength(1);
+    expect(prompts[0]).toContain('print(sorted(input().split()))');
+    expect(prompts[0]).toContain('HIDDEN TESTS: 1/2 passed');
+    expect(prompts[0]).toContain('case 1 pass');
+    expect(prompts[0]).not.toContain('h1');
+  });
+
+  it('never forwards stored hidden detail even if a row carries it', async () => {
+    (prisma.codingAttempt.findUnique as Mock).mockResolvedValue(
+      attemptRow({
+        hiddenTestResults: [{ caseId: 'h1', passed: false, stdin: HIDDEN_SENTINEL, expected: HIDDEN_SENTINEL }],
+      }),
+    );
+    const prompts = stubModel(REVIEW);
+    await requestCodeReview('att-1');
+    expect(prompts[0]).not.toContain(HIDDEN_SENTINEL);
+  });
+
+  it('marks the review failed when the model errors or drifts from the schema', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    stubModel(new Error('rate limited'));
+    await requestCodeReview('att-1');
+    expect(prisma.codingAttemptReview.update).toHaveBeenLastCalledWith({
+      where: { attemptId: 'att-1' },
+      data: expect.objectContaining({ status: 'failed', error: 'rate limited' }),
+    });
+
+    stubModel({ summary: 'only this' });
+    await requestCodeReview('att-1');
+    expect(prisma.codingAttemptReview.update).toHaveBeenLastCalledWith({
+      where: { attemptId: 'att-1' },
+      data: expect.objectContaining({ status: 'failed' }),
+    });
+  });
+
+  it('still reviews when the README cannot be loaded', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    (loadChallenge as Mock).mockRejectedValue(new Error('github down'));
+    const prompts = stubModel(REVIEW);
+    await requestCodeReview('att-1');
+    expect(prompts[0]).toContain('(prompt unavailable)');
+    expect(prisma.codingAttemptReview.update).toHaveBeenCalledWith(
+      expect.objectContaining({ data: expect.objectContaining({ status: 'ready' }) }),
+    );
+  });
+});
+
+describe('getCodeReview', () => {
+  const created = new Date('2026-05-01T12:00:00Z');
+
+  beforeEach(() => vi.resetAllMocks());
+
+  it('returns null when no review exists', async () => {
+    (prisma.codingAttemptReview.findUnique as Mock).mockResolvedValue(null);
+    expect(await getCodeReview('att-1')).toBeNull();
+  });
+
+  it('returns the sections of a ready review', async () => {
+    (prisma.codingAttemptReview.findUnique as Mock).mockResolvedValue({
+      ...REVIEW,
+      status: 'ready',
+      model: 'review-model',
+      createdAt: created,
+      completedAt: new Date('2026-05-01T12:00:05Z'),
+    });
+    expect(await getCodeReview('att-1')).toEqual({
+      ...REVIEW,
+      status: 'ready',
+      model: 'review-model',
+      completedAt: '2026-05-01T12:00:05.000Z',
+    });
+  });
+
+  it('reports a pending review that outlived REVIEW_STALE_MS as failed', async () => {
+    const pending = {
+      status: 'pending',
+      model: null,
+      summary: null,
+      correctness: null,
+      complexity: null,
+      readability: null,
+      style: null,
+      createdAt: created,
+      completedAt: null,
+    };
+    (prisma.codingAttemptReview.findUnique as Mock).mockResolvedValue(pending);
+    expect((await getCodeReview('att-1', new Date(created.getTime() + 1000)))?.status).toBe('pending');
+    expect(
+      (await getCodeReview('att-1', new Date(created.getTime() + REVIEW_STALE_MS + 1)))?.status,
+    ).toBe('failed');
+  });
+});
@@ -0,0 +1,242 @@
+/**
+ * codeReviewService.ts
+ *
+ * Optional LLM code review of a resolved coding attempt. Once
+ * pollAndMaybeResolveAttempt() grades an attempt it fires requestCodeReview()
+ * (fire-and-forget, like the signal writeback); the review comments on
+ * correctness, complexity, readability and idiomatic style for the attempt's
+ * language and is stored in CodingAttemptReview for both the associate's
+ * VerdictCard and the trainer coding panel.
+ *
+ * Attempts made inside a timed assessment are held until the sitting is over
+ * (expiresAt + SUBMIT_GRACE_MS): no review runs, and nothing is stored, while
+ * the associate could still use it on their next attempt. The review route
+ * requests the held review on the first read after the sitting ends.
+ *
+ * Enabled by CODING_AI_REVIEW_ENABLED=true on a real chat provider
+ * (llmProvider.ts). The heuristic provider has no review — the step is
+ * skipped rather than faked.
+ *
+ * HIDDEN TEST SHIELD — the prompt carries the public README, the associate's
+ * own code, visible-case pass/fail and the hidden pass COUNT only. Hidden
+ * stdin / expected output never reach the model, so the review cannot
+ * reveal them.
+ */
+
+import { ChatPromptTemplate } from '@langchain/core/prompts';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { loadChallenge } from '@/lib/coding-challenge-service';
+import { SUBMIT_GRACE_MS } from '@/lib/codingAssessmentService';
+import {
+  createChatModel,
+  getLlmConfig,
+  getLlmConfigProblem,
+  LlmConfigError,
+} from '@/lib/llmProvider';
+
+/** Prompt budget: oversized code / READMEs are cut, not rejected. */
+const MAX_PROMPT_CODE_CHARS = 20_000;
+const MAX_PROMPT_README_CHARS = 4_000;
+/** A review still 'pending' after this long was lost (process exit mid-call). */
+export const REVIEW_STALE_MS = 2 * 60_000;
+
+export type CodeReviewStatus = 'pending' | 'ready' | 'failed';
+
+const SectionSchema = z.string().trim().min(1).max(2_000);
+
+export const CodeReviewSchema = z.object({
+  summary: SectionSchema.describe('Two or three sentence overall assessment'),
+  correctness: SectionSchema.describe('Logic errors, edge cases and why tests may fail'),
+  complexity: SectionSchema.describe('Time and space complexity, and a better bound if one exists'),
+  readability: SectionSchema.describe('Naming, structure, comments and decomposition'),
+  style: SectionSchema.describe('Idiomatic use of the language and its standard library'),
+});
+
+export type CodeReview = z.infer<typeof CodeReviewSchema>;
+
+/** What the associate and trainer views receive. `error` stays server-side. */
+export interface CodeReviewView extends Partial<CodeReview> {
+  status: CodeReviewStatus;
+  model: string | null;
+  completedAt: string | null;
+}
+
+const REVIEW_PROMPT = ChatPromptTemplate.fromMessages([
+  [
+    'system',
+    `You are a senior engineer reviewing a trainee's solution to a coding exercise.
+Be specific, constructive and brief: each section is 1-4 sentences and refers to the code.
+Judge idiomatic style against {language} conventions.
+You are told how many hidden tests passed but not what they contain; never guess or invent
+hidden test inputs or expected outputs. Do not rewrite the whole solution.`,
+  ],
+  [
+    'human',
+    `CHALLENGE: {title}
+LANGUAGE: {language}
+
+PROMPT (markdown):
+{readme}
+
+VERDICT: {verdict} (score {score})
+VISIBLE TESTS: {visibleSummary}
+HIDDEN TESTS: {hiddenSummary}
+
+SUBMITTED CODE:
+{code}`,
+  ],
+]);
+
+/**
+ * Whether reviews run at all. False for the heuristic provider and for a
+ * misconfigured one — the attempt flow must never fail because of reviews.
+ */
+export function isCodeReviewEnabled(): boolean {
+  if (process.env.CODING_AI_REVIEW_ENABLED !== 'true') return false;
+  try {
+    const config = getLlmConfig();
+    return config.provider !== 'heuristic' && getLlmConfigProblem(config) === null;
+  } catch (err) {
+    if (err instanceof LlmConfigError) return false;
+    throw err;
+  }
+}
+
+function truncate(text: string, max: number): string {
+  return text.length > max ? `${text.slice(0, max)}\n… (truncated)` : text;
+}
+
+function passedList(raw: unknown): boolean[] {
+  return Array.isArray(raw)
+    ? raw.map((r) => (r as { passed?: unknown })?.passed === true)
+    : [];
+}
+
+/**
+ * Review one resolved attempt and persist the result. No-op when reviews are
+ * disabled, the attempt is still pending, its assessment sitting is still
+ * running, or another caller already claimed it. Never throws for LLM
+ * failures — those mark the review 'failed'.
+ */
+export async function requestCodeReview(attemptId: string, now: Date = new Date()): Promise<void> {
+  if (!isCodeReviewEnabled()) return;
+
+  const attempt = await prisma.codingAttempt.findUnique({
+    where: { id: attemptId },
+    select: {
+      id: true,
+      submittedCode: true,
+      language: true,
+      verdict: true,
+      score: true,
+      visibleTestResults: true,
+      hiddenTestResults: true,
+      challenge: { select: { slug: true, title: true } },
+      assessmentSession: { select: { expiresAt: true } },
+    },
+  });
+  if (!attempt || attempt.verdict === 'pending') return;
+  if (
+    attempt.assessmentSession &&
+    now.getTime() <= attempt.assessmentSession.expiresAt.getTime() + SUBMIT_GRACE_MS
+  ) {
+    return;
+  }
+
+  // The row is the claim: only the caller that inserts it runs the review.
+  const claimed = await prisma.codingAttemptReview.createMany({
+    data: [{ attemptId }],
+    skipDuplicates: true,
+  });
+  if (claimed.count === 0) return;
+
+  try {
+    let readme = '(prompt unavailable)';
+    try {
+      readme = truncate((await loadChallenge(attempt.challenge.slug)).readme, MAX_PROMPT_README_CHARS);
+    } catch (err) {
+      console.warn('[codeReviewService] README load failed; reviewing without it', attemptId, err);
+    }
+
+    const visible = passedList(attempt.visibleTestResults);
+    const hidden = passedList(attempt.hiddenTestResults);
+    const config = getLlmConfig();
+    const model = createChatModel({ temperature: 0.2, maxTokens: 1_200 });
+    const chain = REVIEW_PROMPT.pipe(
+      model.withStructuredOutput(CodeReviewSchema, { name: 'code_review' }),
+    );
+    const review = CodeReviewSchema.parse(
+      await chain.invoke({
+        title: attempt.challenge.title,
+        language: attempt.language,
+        readme,
+        verdict: attempt.verdict,
+        score: attempt.score === null ? 'n/a' : `${Math.round(attempt.score)}%`,
+        visibleSummary:
+          visible.length === 0
+            ? 'none'
+            : visible.map((p, i) => `case ${i + 1} ${p ? 'pass' : 'fail'}`).join(', '),
+        hiddenSummary: `${hidden.filter(Boolean).length}/${hidden.length} passed`,
+        code: truncate(attempt.submittedCode, MAX_PROMPT_CODE_CHARS),
+      }),
+    );
+
+    await prisma.codingAttemptReview.update({
+      where: { attemptId },
+      data: { ...review, status: 'ready', model: config.model, completedAt: new Date() },
+    });
+  } catch (err) {
+    console.error('[codeReviewService] review failed for', attemptId, err);
+    await prisma.codingAttemptReview.update({
+      where: { attemptId },
+      data: {
+        status: 'failed',
+        error: (err instanceof Error ? err.message : String(err)).slice(0, 500),
+        completedAt: new Date(),
+      },
+    });
+  }
+}
+
+/** The stored review for an attempt, or null when none was requested. */
+export async function getCodeReview(
+  attemptId: string,
+  now: Date = new Date(),
+): Promise<CodeReviewView | null> {
+  const row = await prisma.codingAttemptReview.findUnique({
+    where: { attemptId },
+    select: {
+      status: true,
+      model: true,
+      summary: true,
+      correctness: true,
+      complexity: true,
+      readability: true,
+      style: true,
+      createdAt: true,
+      completedAt: true,
+    },
+  });
+  if (!row) return null;
+
+  const stale = row.status === 'pending' && now.getTime() - row.createdAt.getTime() > REVIEW_STALE_MS;
+  const status: CodeReviewStatus = stale
+    ? 'failed'
+    : row.status === 'ready' || row.status === 'failed'
+      ? row.status
+      : 'pending';
+  if (status !== 'ready') {
+    return { status, model: null, completedAt: row.completedAt?.toISOString() ?? null };
+  }
+  return {
+    status,
+    model: row.model,
+    summary: row.summary ?? undefined,
+    correctness: row.correctness ?? undefined,
+    complexity: row.complexity ?? undefined,
+    readability: row.readability ?? undefined,
+    style: row.style ?? undefined,
+    completedAt: row.completedAt?.toISOString() ?? null,
+  };
+}
@@ -0,0 +1,123 @@
+/**
+ * codeSimilarity.test.ts — normalization, winnowing, clustering and the
+ * side-by-side line diff behind the trainer similarity report.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  clusterPairs,
+  fingerprint,
+  jaccard,
+  lineDiff,
+  normalizeTokens,
+  scoreSubmissions,
+} from './codeSimilarity';
+
+const original = `
+def two_sum(nums, target):
+    # remember what we have seen
+    seen = {}
+    for i, n in enumerate(nums):
+        if target - n in seen:
+            return [seen[target - n], i]
+        seen[n] = i
+    return []
+
+print(two_sum([2, 7, 11, 15], 9))
+`;
+
+// Same program: identifiers renamed, comments and spacing changed.
+const renamed = `
+def find_pair(values, goal):
+    lookup = {}   # index by value
+    for idx, v in enumerate(values):
+        if goal - v in lookup: return [lookup[goal - v], idx]
+        lookup[v] = idx
+    return []
+print(find_pair([3, 2, 4], 6))
+`;
+
+const different = `
+def two_sum(nums, target):
+    for i in range(len(nums)):
+        for j in range(i + 1, len(nums)):
+            if nums[i] + nums[j] == target:
+                return [i, j]
+    return None
+
+import sys
+data = sys.stdin.read().split()
+print(two_sum(list(map(int, data[1:])), int(data[0])))
+`;
+
+describe('normalizeTokens', () => {
+  it('collapses identifiers, literals and comments but keeps keywords', () => {
+    expect(normalizeTokens('x = "a # not a comment" + 42  # real comment', 'python')).toEqual([
+      'V', '=', 'S', '+', 'N',
+    ]);
+    expect(normalizeTokens('const total = items.length; // n', 'javascript')).toEqual([
+      'const', 'V', '=', 'V', '.', 'V', ';',
+    ]);
+    expect(normalizeTokens('SELECT name FROM t -- x', 'sql')).toEqual(['select', 'V', 'from', 'V']);
+  });
+});
+
+describe('fingerprint / jaccard', () => {
+  it('renaming and reformatting do not change the score; a different approach does', () => {
+    const fp = (code: string) => fingerprint(normalizeTokens(code, 'python'));
+    expect(jaccard(fp(original), fp(renamed))).toBe(1);
+    expect(jaccard(fp(original), fp(different))).toBeLessThan(0.3);
+  });
+});
+
+describe('scoreSubmissions', () => {
+  it('only compares same-language submissions and skips trivial ones', () => {
+    const pairs = scoreSubmissions([
+      { id: 'a', language: 'python', code: original },
+      { id: 'b', language: 'python', code: renamed },
+      { id: 'c', language: 'python', code: different },
+      { id: 'd', language: 'javascript', code: 'console.log(1)' },
+    ]);
+    expect(pairs.map((p) => [p.a, p.b])).toEqual([
+      ['a', 'b'],
+      expect.any(Array),
+      expect.any(Array),
+    ]);
+    expect(pairs[0].similarity).toBe(1);
+    expect(pairs.some((p) => p.a === 'd' || p.b === 'd')).toBe(false);
+  });
+});
+
+describe('clusterPairs', () => {
+  it('joins pairs above the threshold transitively', () => {
+    const clusters = clusterPairs(
+      [
+        { a: 'a', b: 'b', similarity: 0.9 },
+        { a: 'b', b: 'c', similarity: 0.7 },
+        { a: 'd', b: 'e', similarity: 0.8 },
+        { a: 'c', b: 'd', similarity: 0.2 },
+      ],
+      0.6,
+    );
+    expect(clusters).toEqual([
+      ['a', 'b', 'c'],
+      ['d', 'e'],
+    ]);
+  });
+});
+
+describe('lineDiff', () => {
+  it('aligns common lines and pairs replaced lines as changed', () => {
+    expect(lineDiff('a\nb\nc\nd', 'a\nB\nc\nd\ne')).toEqual([
+      { kind: 'same', left: 'a', right: 'a' },
+      { kind: 'changed', left: 'b', right: 'B' },
+      { kind: 'same', left: 'c', right: 'c' },
+      { kind: 'same', left: 'd', right: 'd' },
+      { kind: 'added', left: null, right: 'e' },
+    ]);
+    expect(lineDiff('x\ny', 'y')).toEqual([
+      { kind: 'removed', left: 'x', right: null },
+      { kind: 'same', left: 'y', right: 'y' },
+    ]);
+  });
+});
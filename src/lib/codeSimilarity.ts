@@ -0,0 +1,298 @@
+/**
+ * codeSimilarity.ts
+ *
+ * Pure helpers behind the trainer similarity report (similarityService.ts):
+ *
+ *   1. normalizeTokens — strip comments and whitespace, then collapse every
+ *      identifier to `V`, string literal to `S` and number to `N`. Keywords
+ *      and punctuation survive, so renaming variables or reformatting does
+ *      not hide a copy.
+ *   2. fingerprint — winnowing (Schleimer et al., the MOSS algorithm): hash
+ *      every k-gram of tokens and keep the minimum hash of each window of w
+ *      consecutive hashes. Any shared run of at least w + k - 1 tokens is
+ *      guaranteed to yield a shared fingerprint.
+ *   3. jaccard / clusterPairs — pairwise score and single-link clusters.
+ *   4. lineDiff — LCS line alignment for the side-by-side view.
+ *
+ * No server imports: the trainer panel uses lineDiff client-side.
+ */
+
+import type { CodingLanguage } from '@/lib/coding-bank-schemas';
+
+/** Tokens per k-gram. */
+export const KGRAM_SIZE = 5;
+/** Hashes per winnowing window. */
+export const WINDOW_SIZE = 4;
+
+const KEYWORDS: Record<CodingLanguage, readonly string[]> = {
+  python: [
+    'and', 'as', 'assert', 'async', 'await', 'break', 'class', 'continue', 'def', 'del', 'elif',
+    'else', 'except', 'finally', 'for', 'from', 'global', 'if', 'import', 'in', 'is', 'lambda',
+    'None', 'nonlocal', 'not', 'or', 'pass', 'raise', 'return', 'True', 'False', 'try', 'while',
+    'with', 'yield',
+  ],
+  javascript: [
+    'async', 'await', 'break', 'case', 'catch', 'class', 'const', 'continue', 'default', 'delete',
+    'do', 'else', 'export', 'extends', 'false', 'finally', 'for', 'function', 'if', 'import', 'in',
+    'instanceof', 'let', 'new', 'null', 'of', 'return', 'switch', 'this', 'throw', 'true', 'try',
+    'typeof', 'undefined', 'var', 'void', 'while', 'yield',
+  ],
+  typescript: [
+    'async', 'await', 'break', 'case', 'catch', 'class', 'const', 'continue', 'default', 'delete',
+    'do', 'else', 'enum', 'export', 'extends', 'false', 'finally', 'for', 'function', 'if',
+    'implements', 'import', 'in', 'instanceof', 'interface', 'let', 'new', 'null', 'of', 'return',
+    'switch', 'this', 'throw', 'true', 'try', 'type', 'typeof', 'undefined', 'var', 'void', 'while',
+    'yield',
+  ],
+  java: [
+    'abstract', 'boolean', 'break', 'case', 'catch', 'char', 'class', 'continue', 'default', 'do',
+    'double', 'else', 'extends', 'false', 'final', 'finally', 'float', 'for', 'if', 'implements',
+    'import', 'instanceof', 'int', 'interface', 'long', 'new', 'null', 'private', 'protected',
+    'public', 'return', 'static', 'switch', 'this', 'throw', 'throws', 'true', 'try', 'var', 'void',
+    'while',
+  ],
+  csharp: [
+    'abstract', 'bool', 'break', 'case', 'catch', 'char', 'class', 'const', 'continue', 'default',
+    'do', 'double', 'else', 'false', 'finally', 'float', 'for', 'foreach', 'if', 'in', 'int',
+    'interface', 'is', 'long', 'namespace', 'new', 'null', 'out', 'private', 'protected', 'public',
+    'ref', 'return', 'static', 'string', 'switch', 'this', 'throw', 'true', 'try', 'using', 'var',
+    'void', 'while',
+  ],
+  sql: [
+    'all', 'and', 'as', 'asc', 'between', 'by', 'case', 'count', 'desc', 'distinct', 'else', 'end',
+    'exists', 'from', 'group', 'having', 'in', 'inner', 'is', 'join', 'left', 'like', 'limit', 'not',
+    'null', 'on', 'or', 'order', 'outer', 'right', 'select', 'sum', 'avg', 'min', 'max', 'then',
+    'union', 'when', 'where', 'with',
+  ],
+};
+
+const KEYWORD_SETS = Object.fromEntries(
+  Object.entries(KEYWORDS).map(([lang, words]) => [
+    lang,
+    // SQL keywords are case-insensitive; everything else is case-sensitive.
+    new Set(lang === 'sql' ? words.map((w) => w.toLowerCase()) : words),
+  ]),
+) as Record<CodingLanguage, Set<string>>;
+
+function stripComments(code: string, language: CodingLanguage): string {
+  // String literals are matched first so comment markers inside them survive.
+  const strings = String.raw`"(?:\\.|[^"\\\n])*"|'(?:\\.|[^'\\\n])*'|` + '`(?:\\\\.|[^`\\\\])*`';
+  const comments =
+    language === 'python'
+      ? '#[^\\n]*'
+      : language === 'sql'
+        ? '--[^\\n]*|/\\*[\\s\\S]*?\\*/'
+        : '//[^\\n]*|/\\*[\\s\\S]*?\\*/';
+  return code.replace(new RegExp(`(${strings})|${comments}`, 'g'), (_match, str: string | undefined) => str ?? ' ');
+}
+
+const TOKEN_RE =
+  /"(?:\\.|[^"\\\n])*"|'(?:\\.|[^'\\\n])*'|`(?:\\.|[^`\\])*`|\d+(?:\.\d+)?|[A-Za-z_$][\w$]*|[^\s\w]/g;
+
+/** Normalized token stream: identifiers → V, strings → S, numbers → N. */
+export function normalizeTokens(code: string, language: CodingLanguage): string[] {
+  const keywords = KEYWORD_SETS[language];
+  const tokens: string[] = [];
+  for (const [tok] of stripComments(code, language).matchAll(TOKEN_RE)) {
+    const first = tok[0];
+    if (first === '"' || first === "'" || first === '`') tokens.push('S');
+    else if (/\d/.test(first)) tokens.push('N');
+    else if (/[A-Za-z_$]/.test(first)) {
+      const word = language === 'sql' ? tok.toLowerCase() : tok;
+      tokens.push(keywords.has(word) ? word : 'V');
+    } else tokens.push(tok);
+  }
+  return tokens;
+}
+
+/** 32-bit FNV-1a. */
+function hash(text: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+/** Winnowed fingerprint set of a token stream. */
+export function fingerprint(
+  tokens: string[],
+  k: number = KGRAM_SIZE,
+  w: number = WINDOW_SIZE,
+): Set<number> {
+  const hashes: number[] = [];
+  for (let i = 0; i + k <= tokens.length; i++) {
+    hashes.push(hash(tokens.slice(i, i + k).join(' ')));
+  }
+  const selected = new Set<number>();
+  if (hashes.length === 0) return selected;
+  if (hashes.length <= w) {
+    selected.add(Math.min(...hashes));
+    return selected;
+  }
+  for (let start = 0; start + w <= hashes.length; start++) {
+    // Rightmost minimum, per the paper, so runs of equal hashes pick one.
+    let min = start;
+    for (let j = start + 1; j < start + w; j++) {
+      if (hashes[j] <= hashes[min]) min = j;
+    }
+    selected.add(hashes[min]);
+  }
+  return selected;
+}
+
+/** |A ∩ B| / |A ∪ B|; 0 when both are empty. */
+export function jaccard(a: Set<number>, b: Set<number>): number {
+  if (a.size === 0 && b.size === 0) return 0;
+  let shared = 0;
+  for (const h of a) if (b.has(h)) shared++;
+  return shared / (a.size + b.size - shared);
+}
+
+export interface ScoredPair {
+  a: string;
+  b: string;
+  similarity: number;
+}
+
+/**
+ * Single-link clusters over pairs at or above `threshold`. Only ids that
+ * appear in such a pair are returned; each cluster is sorted, and clusters
+ * are ordered largest first.
+ */
+export function clusterPairs(pairs: ScoredPair[], threshold: number): string[][] {
+  const parent = new Map<string, string>();
+  const find = (id: string): string => {
+    let root = id;
+    while (parent.get(root) !== root) root = parent.get(root)!;
+    parent.set(id, root);
+    return root;
+  };
+  for (const { a, b, similarity } of pairs) {
+    if (similarity < threshold) continue;
+    if (!parent.has(a)) parent.set(a, a);
+    if (!parent.has(b)) parent.set(b, b);
+    parent.set(find(a), find(b));
+  }
+  const groups = new Map<string, string[]>();
+  for (const id of parent.keys()) {
+    const root = find(id);
+    groups.set(root, [...(groups.get(root) ?? []), id]);
+  }
+  return [...groups.values()]
+    .map((ids) => ids.sort())
+    .sort((x, y) => y.length - x.length || x[0].localeCompare(y[0]));
+}
+
+export interface DiffRow {
+  kind: 'same' | 'changed' | 'removed' | 'added';
+  left: string | null;
+  right: string | null;
+}
+
+/** Longer inputs fall back to a positional comparison to bound the LCS table. */
+const MAX_DIFF_LINES = 2000;
+
+/**
+ * Side-by-side line diff. Lines are aligned on their longest common
+ * subsequence; a removed line directly followed by an added one is shown as
+ * a single `changed` row.
+ */
+export function lineDiff(left: string, right: string): DiffRow[] {
+  const a = left.split('\n');
+  const b = right.split('\n');
+  if (a.length > MAX_DIFF_LINES || b.length > MAX_DIFF_LINES) {
+    return Array.from({ length: Math.max(a.length, b.length) }, (_, i) => {
+      const l = a[i] ?? null;
+      const r = b[i] ?? null;
+      const kind = l === r ? 'same' : l === null ? 'added' : r === null ? 'removed' : 'changed';
+      return { kind, left: l, right: r };
+    });
+  }
+
+  // lcs[i][j] = LCS length of a[i..] and b[j..]
+  const lcs = Array.from({ length: a.length + 1 }, () => new Uint32Array(b.length + 1));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const rows: DiffRow[] = [];
+  // Removed rows since the last common line, waiting to pair with additions.
+  let unpaired: DiffRow[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      rows.push({ kind: 'same', left: a[i++], right: b[j++] });
+      unpaired = [];
+    } else if (i < a.length && (j === b.length || lcs[i + 1][j] >= lcs[i][j + 1])) {
+      const row: DiffRow = { kind: 'removed', left: a[i++], right: null };
+      rows.push(row);
+      unpaired.push(row);
+    } else {
+      const row = unpaired.shift();
+      if (row) {
+        row.kind = 'changed';
+        row.right = b[j++];
+      } else {
+        rows.push({ kind: 'added', left: null, right: b[j++] });
+      }
+    }
+  }
+  return rows;
+}
+
+export interface SimilarityInput {
+  id: string;
+  language: CodingLanguage;
+  code: string;
+}
+
+/** Submissions shorter than this (in tokens) are too small to compare. */
+export const MIN_COMPARABLE_TOKENS = 20;
+
+/**
+ * Fingerprints present in more than this share of a challenge's submissions
+ * are treated as shared boilerplate (starter code, the obvious solution
+ * skeleton) and ignored — MOSS's "-m" option. Never below 2 submissions, so a
+ * lone copied pair is still caught.
+ */
+const COMMON_FINGERPRINT_SHARE = 0.5;
+
+/** Score every same-language pair; result sorted by similarity, highest first. */
+export function scoreSubmissions(inputs: SimilarityInput[]): ScoredPair[] {
+  const byLanguage = new Map<CodingLanguage, Array<{ id: string; prints: Set<number> }>>();
+  for (const input of inputs) {
+    const tokens = normalizeTokens(input.code, input.language);
+    if (tokens.length < MIN_COMPARABLE_TOKENS) continue;
+    const group = byLanguage.get(input.language) ?? [];
+    group.push({ id: input.id, prints: fingerprint(tokens) });
+    byLanguage.set(input.language, group);
+  }
+
+  const pairs: ScoredPair[] = [];
+  for (const group of byLanguage.values()) {
+    const counts = new Map<number, number>();
+    for (const { prints } of group) {
+      for (const h of prints) counts.set(h, (counts.get(h) ?? 0) + 1);
+    }
+    const maxShared = Math.max(2, Math.floor(group.length * COMMON_FINGERPRINT_SHARE));
+    const filtered = group.map(({ id, prints }) => ({
+      id,
+      prints: new Set([...prints].filter((h) => counts.get(h)! <= maxShared)),
+    }));
+    for (let x = 0; x < filtered.length; x++) {
+      for (let y = x + 1; y < filtered.length; y++) {
+        pairs.push({
+          a: filtered[x].id,
+          b: filtered[y].id,
+          similarity: jaccard(filtered[x].prints, filtered[y].prints),
+        });
+      }
+    }
+  }
+  return pairs.sort((p, q) => q.similarity - p.similarity);
+}
@@ -597,3 +597,193 @@ describe('parseVisibleTestsForChallenge', () => {
     expect(result).toHaveLength(1);
   });
 });
+
+describe('function challenges (meta.type === "function")', () => {
+  const meta = {
+    slug: 'two-sum-fn',
+    title: 'Two Sum',
+    difficulty: 'easy' as const,
+    skillSlug: 'arrays',
+    cohortId: null,
+    languages: ['python' as const, 'java' as const],
+    type: 'function' as const,
+    entryPoint: {
+      name: 'twoSum',
+      params: [
+        { name: 'nums', type: 'int[]' },
+        { name: 'target', type: 'int' },
+      ],
+      returns: 'int[]',
+      compare: { unorderedCollections: true },
+    },
+  };
+  const starters = { python: 'def twoSum(nums, target): pass', java: 'class Solution {}' };
+  const visible = [{ id: 'v-1', args: [[2, 7, 11], 9], expected: [0, 1], orderIndex: 0 }];
+  const hidden = [{ id: 'h-1', args: [[3, 3], 6], expected: [0, 1], weight: 2, orderIndex: 0 }];
+
+  function pathOf(fn: () => unknown): string | undefined {
+    try {
+      fn();
+    } catch (e) {
+      return (e as ChallengeValidationError).path;
+    }
+    return undefined;
+  }
+
+  it('stores args / expected as JSON in the stdin / expectedStdout columns', () => {
+    const result = validateChallenge({ meta, visibleTests: visible, hiddenTests: hidden, starters });
+    expect(result.meta.entryPoint?.name).toBe('twoSum');
+    expect(result.visibleTests[0]).toEqual({
+      id: 'v-1',
+      stdin: '[[2,7,11],9]',
+      expectedStdout: '[0,1]',
+      weight: 1,
+      orderIndex: 0,
+    });
+    expect(HiddenTestsSchema.parse(hidden)[0].stdin).toBe('[[3,3],6]');
+  });
+
+  it('requires entryPoint for function challenges and type "function" for an entryPoint', () => {
+    expect(
+      pathOf(() =>
+        validateChallenge({ meta: { ...meta, entryPoint: undefined }, visibleTests: visible, hiddenTests: hidden, starters }),
+      ),
+    ).toBe('meta.entryPoint');
+    expect(
+      pathOf(() =>
+        validateChallenge({ meta: { ...meta, type: undefined }, visibleTests: visible, hiddenTests: hidden, starters }),
+      ),
+    ).toBe('meta.type');
+  });
+
+  it('rejects SQL and non-identifier names (they are interpolated into generated source)', () => {
+    expect(
+      pathOf(() =>
+        validateChallenge({
+          meta: { ...meta, languages: ['sql'] },
+          visibleTests: visible,
+          hiddenTests: hidden,
+          starters: { sql: 'SELECT 1;' },
+        }),
+      ),
+    ).toBe('meta.languages');
+    expect(
+      MetaSchema.safeParse({ ...meta, entryPoint: { ...meta.entryPoint, name: 'a(); evil' } }).success,
+    ).toBe(false);
+  });
+
+  it('rejects args whose arity does not match entryPoint.params, and raw stdio cases', () => {
+    expect(
+      pathOf(() =>
+        validateChallenge({
+          meta,
+          visibleTests: [{ ...visible[0], args: [[2, 7]] }],
+          hiddenTests: hidden,
+          starters,
+        }),
+      ),
+    ).toBe('visibleTests[0].args');
+    expect(
+      pathOf(() =>
+        validateChallenge({
+          meta,
+          visibleTests: visible,
+          hiddenTests: [{ id: 'h-1', stdin: '3 3', expectedStdout: '0 1', weight: 1, orderIndex: 0 }],
+          starters,
+        }),
+      ),
+    ).toBe('hiddenTests[0]');
+  });
+});
+
+describe('multi-file starters (meta.files)', () => {
+  const meta = {
+    slug: 'inventory',
+    title: 'Inventory',
+    difficulty: 'medium' as const,
+    skillSlug: 'modules',
+    cohortId: null,
+    languages: ['python' as const],
+    files: {
+      python: [{ path: 'main.py' }, { path: 'lib/inventory.py', readOnly: true }],
+    },
+  };
+  const starterFiles = {
+    python: { 'main.py': 'from lib.inventory import Inventory\n', 'lib/inventory.py': 'class Inventory: pass\n' },
+  };
+  const visible = [{ id: 'v-1', stdin: 'add apple 2', expectedStdout: 'apple: 2', orderIndex: 0 }];
+  const hidden = [{ id: 'h-1', stdin: 'add pear 1', expectedStdout: 'pear: 1', weight: 1, orderIndex: 0 }];
+
+  function pathOf(fn: () => unknown): string | undefined {
+    try {
+      fn();
+    } catch (e) {
+      return (e as ChallengeValidationError).path;
+    }
+    return undefined;
+  }
+
+  it('keeps the declared file order and uses the entry file as the language starter', () => {
+    const result = validateChallenge({ meta, visibleTests: visible, hiddenTests: hidden, starters: {}, starterFiles });
+    expect(result.starterFiles.python).toEqual([
+      { path: 'main.py', content: 'from lib.inventory import Inventory\n', readOnly: false },
+      { path: 'lib/inventory.py', content: 'class Inventory: pass\n', readOnly: true },
+    ]);
+    expect(result.starters.python).toBe('from lib.inventory import Inventory\n');
+  });
+
+  it('rejects missing files, all-read-only layouts and path traversal', () => {
+    const run = (m: unknown, files: Record<string, Record<string, string>> = starterFiles) =>
+      pathOf(() =>
+        validateChallenge({ meta: m, visibleTests: visible, hiddenTests: hidden, starters: {}, starterFiles: files }),
+      );
+    expect(run(meta, { python: { 'main.py': 'x' } })).toBe('starters.python/lib/inventory.py');
+    expect(
+      run({ ...meta, files: { python: [{ path: 'main.py', readOnly: true }] } }),
+    ).toBe('meta.files.python');
+    expect(run({ ...meta, files: { python: [{ path: '../main.py' }] } })).toMatch(/^meta/);
+  });
+});
+
+describe('SQL dialect (meta.sqlDialect)', () => {
+  const meta = {
+    slug: 'top-customers',
+    title: 'Top Customers',
+    difficulty: 'medium',
+    skillSlug: 'sql-windows',
+    cohortId: null,
+    languages: ['sql'],
+  };
+  const visible = [{ id: 'v-1', stdin: 'SELECT 1;', expectedStdout: '1', weight: 1, orderIndex: 0 }];
+  const hidden = [{ id: 'h-1', stdin: 'SELECT 2;', expectedStdout: '2', weight: 1, orderIndex: 0 }];
+
+  it('accepts sqlite and postgres, rejects anything else', () => {
+    expect(MetaSchema.parse({ ...meta, sqlDialect: 'postgres' }).sqlDialect).toBe('postgres');
+    expect(MetaSchema.parse(meta).sqlDialect).toBeUndefined();
+    expect(() => MetaSchema.parse({ ...meta, sqlDialect: 'mysql' })).toThrow();
+  });
+
+  it('only allows a dialect on challenges that declare sql', () => {
+    expect(
+      validateChallenge({ meta: { ...meta, sqlDialect: 'postgres' }, visibleTests: visible, hiddenTests: hidden, starters: { sql: '--' } })
+        .meta.sqlDialect,
+    ).toBe('postgres');
+    let caught: unknown;
+    try {
+      validateChallenge({
+        meta: { ...meta, languages: ['python'], sqlDialect: 'postgres' },
+        visibleTests: visible,
+        hiddenTests: hidden,
+        starters: { python: 'pass' },
+      });
+    } catch (e) {
+      caught = e;
+    }
+    expect(caught).toMatchObject({ path: 'meta.sqlDialect' });
+  });
+
+  it('accepts boolean cells in expectedRows', () => {
+    const parsed = SqlTestCaseSchema.parse({ ...visible[0], expectedRows: [[true, 'a', null]] });
+    expect(parsed.expectedRows).toEqual([[true, 'a', null]]);
+  });
+});
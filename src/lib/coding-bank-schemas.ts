@@ -4,7 +4,9 @@
  * Implements the 5-step pipeline from Phase 37 CONTEXT D-15:
  *   1. Schema shape (MetaSchema, VisibleTestsSchema, HiddenTestsSchema, StarterSchema)
  *   2. Language allowlist + starter-file presence per declared language
- *   3. Test-case sanity (non-empty stdin/stdout, distinct ids, positive weight, contiguous orderIndex)
+ *      (multi-file languages: every file in meta.files present)
+ *   3. Test-case sanity (non-empty stdin/stdout, distinct ids, positive weight, contiguous orderIndex;
+ *      function challenges: JSON args matching the entry-point arity)
  *   4. (Manifest-scope; enforced in listChallenges)
  *   5. Hidden/visible id disjointness
  *
@@ -41,6 +43,107 @@ const SLUG_REGEX = /^[a-z0-9][a-z0-9-]*$/;
 
 const LanguageEnum = z.enum(CODING_LANGUAGES);
 
+// ──────────────────────────────────────────────────────────────────────────
+// Function challenges — meta.type === 'function'
+//
+// The author declares an entry-point signature instead of writing stdin
+// parsing into every starter. Test cases carry JSON `args` / `expected`; the
+// platform wraps the associate's code per language (functionHarness.ts) so the
+// wrapper decodes the args, calls the function and prints the JSON result.
+// Identifiers are interpolated into generated source, hence the strict regex.
+// ──────────────────────────────────────────────────────────────────────────
+export const FUNCTION_LANGUAGES = [
+  'python',
+  'javascript',
+  'typescript',
+  'java',
+  'csharp',
+] as const satisfies readonly CodingLanguage[];
+
+export const FUNCTION_VALUE_TYPES = [
+  'int',
+  'float',
+  'string',
+  'bool',
+  'int[]',
+  'float[]',
+  'string[]',
+  'bool[]',
+  'int[][]',
+  'float[][]',
+  'string[][]',
+  'bool[][]',
+] as const;
+
+export type FunctionValueType = (typeof FUNCTION_VALUE_TYPES)[number];
+
+const IDENTIFIER_REGEX = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const identifier = () =>
+  z.string().regex(IDENTIFIER_REGEX, 'must be an identifier (/^[A-Za-z_][A-Za-z0-9_]*$/)').max(64);
+
+const ValueTypeEnum = z.enum(FUNCTION_VALUE_TYPES);
+
+export const EntryPointSchema = z
+  .object({
+    name: identifier(),
+    // Java / C# wrap the method in a class (default "Solution"); Python/JS/TS
+    // call a free function unless a class is named.
+    className: identifier().optional(),
+    params: z.array(z.object({ name: identifier(), type: ValueTypeEnum }).strict()).max(10),
+    returns: ValueTypeEnum,
+    compare: z
+      .object({
+        // Absolute tolerance for numeric compare; default 1e-9 (same drift
+        // allowance as the SQL normalizer's epsilon).
+        floatTolerance: z.number().nonnegative().optional(),
+        // Arrays compare as multisets at every depth.
+        unorderedCollections: z.boolean().optional(),
+      })
+      .strict()
+      .optional(),
+  })
+  .strict();
+
+export type EntryPoint = z.infer<typeof EntryPointSchema>;
+
+// ──────────────────────────────────────────────────────────────────────────
+// Multi-file (project-style) starters — meta.files[lang]
+//
+// A language listed in meta.files ships a directory `starters/<lang>/` instead
+// of the single `starters/<lang>.<ext>`. The FIRST file is the entry point
+// handed to the runner as the main source; the rest travel alongside it.
+// readOnly files are re-applied from the bank at submit time, so associates
+// cannot edit the harness or fixtures they are graded against.
+// ──────────────────────────────────────────────────────────────────────────
+export const MAX_STARTER_FILES = 10;
+
+// Relative POSIX path, no dot-segments: every segment starts with [A-Za-z0-9_].
+const FILE_PATH_REGEX = /^[A-Za-z0-9_][A-Za-z0-9_.-]*(\/[A-Za-z0-9_][A-Za-z0-9_.-]*)*$/;
+
+export const StarterFilePathSchema = z
+  .string()
+  .max(200)
+  .regex(FILE_PATH_REGEX, 'path must be relative, without "." / ".." segments');
+
+export const StarterFileSpecSchema = z
+  .object({
+    path: StarterFilePathSchema,
+    readOnly: z.boolean().optional(),
+  })
+  .strict();
+
+export interface StarterFile {
+  path: string;
+  content: string;
+  readOnly: boolean;
+}
+
+// SQL dialects a challenge can be graded against. 'sqlite' runs on Judge0
+// (language 82) or the local sqlite3 runner; 'postgres' runs on the
+// CODING_POSTGRES_URL sandbox (postgresSandboxRunner.ts).
+export const SQL_DIALECTS = ['sqlite', 'postgres'] as const;
+export type SqlDialect = (typeof SQL_DIALECTS)[number];
+
 // ──────────────────────────────────────────────────────────────────────────
 // meta.json (D-03)
 // ──────────────────────────────────────────────────────────────────────────
@@ -55,6 +158,18 @@ export const MetaSchema = z
       .max(50),
     cohortId: z.number().int().nullable(),
     languages: z.array(LanguageEnum).min(1, 'languages must be non-empty'),
+    // Absent → 'stdio' (raw stdin / expectedStdout cases).
+    type: z.enum(['stdio', 'function']).optional(),
+    entryPoint: EntryPointSchema.optional(),
+    // SQL challenges only. Absent → 'sqlite' (Judge0 / sqlite3 runner).
+    sqlDialect: z.enum(SQL_DIALECTS).optional(),
+    // Per-language file list for project-style starters (entry file first).
+    files: z
+      .partialRecord(
+        LanguageEnum,
+        z.array(StarterFileSpecSchema).min(1).max(MAX_STARTER_FILES),
+      )
+      .optional(),
   })
   .strict();
 
@@ -73,6 +188,22 @@ export const TestCaseSchema = z.object({
   orderIndex: z.number().int().nonnegative(),
 });
 
+// Function cases are authored as { args: [...], expected: <json> } and stored
+// in the stdin / expectedStdout columns as JSON text — the wrapper reads the
+// args from stdin, the comparator parses expectedStdout. Converting at parse
+// time keeps one test-case shape for the DB sync, submit and poll paths.
+function functionCaseToStdio(raw: unknown): unknown {
+  if (!raw || typeof raw !== 'object' || !('args' in raw) || 'stdin' in raw) return raw;
+  const { args, expected, ...rest } = raw as Record<string, unknown>;
+  return {
+    ...rest,
+    stdin: JSON.stringify(args),
+    expectedStdout: expected === undefined ? undefined : JSON.stringify(expected),
+  };
+}
+
+const BankTestCaseSchema = z.preprocess(functionCaseToStdio, TestCaseSchema);
+
 function testArrayRefinement(arr: Array<z.infer<typeof TestCaseSchema>>, ctx: z.RefinementCtx) {
   // Unique ids.
   const seen = new Map<string, number>();
@@ -105,12 +236,12 @@ function testArrayRefinement(arr: Array<z.infer<typeof TestCaseSchema>>, ctx: z.
 const MAX_TEST_CASES = 200;
 
 export const VisibleTestsSchema = z
-  .array(TestCaseSchema)
+  .array(BankTestCaseSchema)
   .max(MAX_TEST_CASES, `visibleTests array must have at most ${MAX_TEST_CASES} entries`)
   .superRefine(testArrayRefinement);
 
 export const HiddenTestsSchema = z
-  .array(TestCaseSchema)
+  .array(BankTestCaseSchema)
   .max(MAX_TEST_CASES, `hiddenTests array must have at most ${MAX_TEST_CASES} entries`)
   .superRefine(testArrayRefinement);
 
@@ -158,8 +289,9 @@ export const SetupSqlSchema = z
 // expectedRows/expectedColumns optional — normalizer falls back to
 // expectedStdout string compare when absent (backward compat with base shape).
 export const SqlTestCaseSchema = TestCaseSchema.extend({
+  // Booleans compare as 1/0 under SQLite and t/f under Postgres.
   expectedRows: z
-    .array(z.array(z.union([z.string(), z.number(), z.null()])))
+    .array(z.array(z.union([z.string(), z.number(), z.boolean(), z.null()])))
     .optional(),
   expectedColumns: z.array(z.string()).optional(),
   // D-05 normalization flags (all optional; normalizer applies conservative defaults):
@@ -219,13 +351,17 @@ export interface RawChallenge {
   visibleTests: unknown;
   hiddenTests: unknown;
   starters: Partial<Record<string, string>>;
+  /** Contents for languages declared in meta.files, keyed by path */
+  starterFiles?: Partial<Record<string, Record<string, string>>>;
 }
 
 export interface ValidatedChallenge {
   meta: z.infer<typeof MetaSchema>;
   visibleTests: z.infer<typeof VisibleTestsSchema>;
   hiddenTests: z.infer<typeof HiddenTestsSchema>;
+  /** Single-file starter, or the entry file's content for multi-file languages */
   starters: Partial<Record<CodingLanguage, string>>;
+  starterFiles: Partial<Record<CodingLanguage, StarterFile[]>>;
 }
 
 function firstIssuePath(err: z.ZodError, prefix: string): { path: string; message: string } {
@@ -274,7 +410,15 @@ export function validateChallenge(raw: RawChallenge): ValidatedChallenge {
   const starters = startersResult.data;
 
   // ─── Step 2: every declared language must have a non-empty starter ───
+  const starterFiles: Partial<Record<CodingLanguage, StarterFile[]>> = {};
   for (const lang of meta.languages) {
+    const specs = meta.files?.[lang];
+    if (specs) {
+      starterFiles[lang] = validateStarterFiles(lang, specs, raw.starterFiles?.[lang] ?? {}, meta);
+      // Entry file doubles as the language's starter for single-file consumers.
+      starters[lang] = starterFiles[lang][0].content;
+      continue;
+    }
     const src = starters[lang];
     if (!src || src.length === 0) {
       throw new ChallengeValidationError(
@@ -285,6 +429,44 @@ export function validateChallenge(raw: RawChallenge): ValidatedChallenge {
     }
   }
 
+  // ─── Step 2b: function challenges need a signature the harness supports ───
+  const isFunction = meta.type === 'function';
+  if (isFunction && !meta.entryPoint) {
+    throw new ChallengeValidationError(
+      'meta.entryPoint',
+      'required when meta.type is "function"',
+      meta.slug,
+    );
+  }
+  if (!isFunction && meta.entryPoint) {
+    throw new ChallengeValidationError(
+      'meta.type',
+      'must be "function" when meta.entryPoint is declared',
+      meta.slug,
+    );
+  }
+  if (isFunction) {
+    const unsupported = meta.languages.find(
+      (lang) => !(FUNCTION_LANGUAGES as readonly string[]).includes(lang),
+    );
+    if (unsupported) {
+      throw new ChallengeValidationError(
+        'meta.languages',
+        `language "${unsupported}" is not supported for function challenges`,
+        meta.slug,
+      );
+    }
+  }
+
+  // ─── Step 2c: a SQL dialect only means something for SQL challenges ───
+  if (meta.sqlDialect && !meta.languages.includes('sql')) {
+    throw new ChallengeValidationError(
+      'meta.sqlDialect',
+      'only allowed when meta.languages includes "sql"',
+      meta.slug,
+    );
+  }
+
   // ─── Step 3: test-case sanity (belt-and-suspenders after schema) ─────
   const assertDistinct = (
     list: Array<{ id: string }>,
@@ -306,6 +488,37 @@ export function validateChallenge(raw: RawChallenge): ValidatedChallenge {
   assertDistinct(visibleTests, 'visibleTests');
   assertDistinct(hiddenTests, 'hiddenTests');
 
+  if (isFunction && meta.entryPoint) {
+    const arity = meta.entryPoint.params.length;
+    const assertFunctionCases = (
+      list: Array<{ stdin: string; expectedStdout: string }>,
+      label: 'visibleTests' | 'hiddenTests',
+    ) => {
+      for (let i = 0; i < list.length; i++) {
+        let args: unknown;
+        try {
+          args = JSON.parse(list[i].stdin);
+          JSON.parse(list[i].expectedStdout);
+        } catch {
+          throw new ChallengeValidationError(
+            `${label}[${i}]`,
+            'function challenges need { args, expected } test cases',
+            meta.slug,
+          );
+        }
+        if (!Array.isArray(args) || args.length !== arity) {
+          throw new ChallengeValidationError(
+            `${label}[${i}].args`,
+            `must be an array of ${arity} argument(s) matching entryPoint.params`,
+            meta.slug,
+          );
+        }
+      }
+    };
+    assertFunctionCases(visibleTests, 'visibleTests');
+    assertFunctionCases(hiddenTests, 'hiddenTests');
+  }
+
   // ─── Step 4: duplicate-slug guard is enforced in listChallenges manifest walk ───
   // (see Plan 37-02; intentionally not run here because validateChallenge has single-challenge scope)
 
@@ -322,5 +535,58 @@ export function validateChallenge(raw: RawChallenge): ValidatedChallenge {
     }
   }
 
-  return { meta, visibleTests, hiddenTests, starters };
+  return { meta, visibleTests, hiddenTests, starters, starterFiles };
+}
+
+function validateStarterFiles(
+  lang: CodingLanguage,
+  specs: Array<z.infer<typeof StarterFileSpecSchema>>,
+  contents: Record<string, string>,
+  meta: z.infer<typeof MetaSchema>,
+): StarterFile[] {
+  if (lang === 'sql') {
+    throw new ChallengeValidationError('meta.files.sql', 'SQL challenges are single-file', meta.slug);
+  }
+  if (meta.type === 'function') {
+    throw new ChallengeValidationError(
+      `meta.files.${lang}`,
+      'function challenges generate their own entry point and are single-file',
+      meta.slug,
+    );
+  }
+  const seen = new Set<string>();
+  const files = specs.map((spec, i) => {
+    if (seen.has(spec.path)) {
+      throw new ChallengeValidationError(
+        `meta.files.${lang}[${i}].path`,
+        `duplicate path "${spec.path}"`,
+        meta.slug,
+      );
+    }
+    seen.add(spec.path);
+    const content = contents[spec.path];
+    if (content === undefined) {
+      throw new ChallengeValidationError(
+        `starters.${lang}/${spec.path}`,
+        `missing starter file declared in meta.files.${lang}`,
+        meta.slug,
+      );
+    }
+    if (content.length > MAX_STARTER_SIZE) {
+      throw new ChallengeValidationError(
+        `starters.${lang}/${spec.path}`,
+        `exceeds ${MAX_STARTER_SIZE} char cap`,
+        meta.slug,
+      );
+    }
+    return { path: spec.path, content, readOnly: spec.readOnly ?? false };
+  });
+  if (files.every((f) => f.readOnly)) {
+    throw new ChallengeValidationError(
+      `meta.files.${lang}`,
+      'at least one file must be editable',
+      meta.slug,
+    );
+  }
+  return files;
 }
@@ -18,7 +18,7 @@
 
 import 'server-only';
 import { z } from 'zod';
-import type { CodingChallenge, CodingTestCase } from '@/generated/prisma';
+import { Prisma, type CodingChallenge, type CodingTestCase } from '@/generated/prisma';
 import { prisma } from '@/lib/prisma';
 import {
   CODING_LANGUAGES,
@@ -30,6 +30,7 @@ import {
   ChallengeValidationError,
   validateChallenge,
   SetupSqlSchema,
+  type StarterFile,
   SETUP_SQL_MAX_BYTES,
   type CodingLanguage,
 } from './coding-bank-schemas';
@@ -51,6 +52,8 @@ export interface FullChallenge {
   meta: z.infer<typeof MetaSchema>;
   readme: string;
   starters: Partial<Record<CodingLanguage, string>>;
+  /** Project-style languages (meta.files): every file, entry first */
+  starterFiles: Partial<Record<CodingLanguage, StarterFile[]>>;
   visibleTests: z.infer<typeof VisibleTestsSchema>;
   /**
    * SQL challenges (meta.languages includes 'sql') carry the trainer-authored
@@ -380,9 +383,24 @@ export async function loadChallenge(slug: string): Promise<FullChallenge> {
   }
   const meta = metaCheck.data;
 
-  // Fetch starters for every declared language.
+  // Fetch starters for every declared language — a directory of files for
+  // languages listed in meta.files, else the single starters/<lang>.<ext>.
   const starters: Partial<Record<CodingLanguage, string>> = {};
+  const starterFiles: Partial<Record<CodingLanguage, Record<string, string>>> = {};
   for (const lang of meta.languages) {
+    const specs = meta.files?.[lang];
+    if (specs) {
+      const byPath: Record<string, string> = {};
+      for (const spec of specs) {
+        byPath[spec.path] = await getCachedPublic<string>(
+          `public:${slug}:starter:${lang}/${spec.path}`,
+          `challenges/${slug}/starters/${lang}/${spec.path}`,
+          'text',
+        );
+      }
+      starterFiles[lang] = byPath;
+      continue;
+    }
     const ext = LANGUAGE_EXTENSIONS[lang];
     const source = await getCachedPublic<string>(
       `public:${slug}:starter:${lang}`,
@@ -413,6 +431,7 @@ export async function loadChallenge(slug: string): Promise<FullChallenge> {
     visibleTests: visibleRaw,
     hiddenTests,
     starters,
+    starterFiles,
   });
 
   // Phase 42 §D-01: SQL challenges attach setup.sql. Missing setup.sql for a
@@ -435,6 +454,7 @@ export async function loadChallenge(slug: string): Promise<FullChallenge> {
     meta: validated.meta,
     readme,
     starters: validated.starters,
+    starterFiles: validated.starterFiles,
     visibleTests: validated.visibleTests,
     // hiddenTests intentionally absent — D-05 type boundary.
     ...(setupSql !== undefined ? { setupSql } : {}),
@@ -512,8 +532,22 @@ export async function syncChallengeToDb(slug: string): Promise<SyncResult> {
   }
 
   return prisma.$transaction(async (tx) => {
-    const { meta, readme, visibleTests } = full;
+    const { meta, readme, visibleTests, starterFiles } = full;
     const primaryLanguage = meta.languages[0];
+    // Function challenges keep their signature on the row so submit / run can
+    // generate the wrapper and poll can apply the compare options.
+    const entryPoint =
+      meta.type === 'function' && meta.entryPoint
+        ? (meta.entryPoint as Prisma.InputJsonValue)
+        : Prisma.JsonNull;
+    // Multi-file starters for the graded language: submit re-applies the
+    // read-only files from here rather than trusting the client's copy.
+    const primaryFiles = starterFiles[primaryLanguage];
+    const starterFilesJson = primaryFiles
+      ? (primaryFiles as unknown as Prisma.InputJsonValue)
+      : Prisma.JsonNull;
+    // Dialect only applies to SQL challenges; null reads as sqlite.
+    const sqlDialect = meta.languages.includes('sql') ? (meta.sqlDialect ?? null) : null;
 
     const challenge = await tx.codingChallenge.upsert({
       where: { slug: meta.slug },
@@ -525,6 +559,9 @@ export async function syncChallengeToDb(slug: string): Promise<SyncResult> {
         difficulty: meta.difficulty,
         skillSlug: meta.skillSlug,
         cohortId: meta.cohortId,
+        entryPoint,
+        starterFiles: starterFilesJson,
+        sqlDialect,
       },
       update: {
         title: meta.title,
@@ -533,6 +570,9 @@ export async function syncChallengeToDb(slug: string): Promise<SyncResult> {
         difficulty: meta.difficulty,
         skillSlug: meta.skillSlug,
         cohortId: meta.cohortId,
+        entryPoint,
+        starterFiles: starterFilesJson,
+        sqlDialect,
       },
     });
 
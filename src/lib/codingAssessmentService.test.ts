@@ -0,0 +1,428 @@
+/**
+ * codingAssessmentService.test.ts — assessment input validation, the sitting
+ * clock, submit authorization (clock/grace, challenge list, language lock,
+ * attempt cap), holding challenges back until an assessment closes,
+ * proctor-event capping and the trainer results grid.
+ */
+
+import { vi, describe, it, expect, beforeEach } from 'vitest';
+
+vi.mock('@/lib/prisma', () => {
+  const mockPrisma = {
+    associate: { findUnique: vi.fn() },
+    cohort: { findUnique: vi.fn() },
+    codingChallenge: { findMany: vi.fn() },
+    codingAssessment: { findUnique: vi.fn(), findFirst: vi.fn(), create: vi.fn() },
+    codingAssessmentChallenge: { findMany: vi.fn() },
+    codingAssessmentSession: { findUnique: vi.fn(), upsert: vi.fn() },
+    codingAttempt: { count: vi.fn(), findMany: vi.fn() },
+    codingProctorEvent: { createMany: vi.fn() },
+  };
+  return { prisma: mockPrisma };
+});
+
+import { prisma } from '@/lib/prisma';
+import {
+  AssessmentError,
+  AssessmentInputSchema,
+  MAX_PROCTOR_EVENTS_PER_SESSION,
+  SUBMIT_GRACE_MS,
+  assertNotHeldForAssessment,
+  authorizeAssessmentSubmit,
+  claimAssessmentAttempt,
+  createAssessment,
+  getAssessmentResults,
+  heldAssessmentChallengeIds,
+  isHeldForAssessment,
+  recordProctorEvents,
+  sessionExpiry,
+  startAssessment,
+} from './codingAssessmentService';
+
+const mockAssoc = prisma.associate.findUnique as ReturnType<typeof vi.fn>;
+const mockCohort = prisma.cohort.findUnique as ReturnType<typeof vi.fn>;
+const mockChallenges = prisma.codingChallenge.findMany as ReturnType<typeof vi.fn>;
+const mockAssessment = prisma.codingAssessment.findUnique as ReturnType<typeof vi.fn>;
+const mockCreate = prisma.codingAssessment.create as ReturnType<typeof vi.fn>;
+const mockSession = prisma.codingAssessmentSession.findUnique as ReturnType<typeof vi.fn>;
+const mockUpsert = prisma.codingAssessmentSession.upsert as ReturnType<typeof vi.fn>;
+const mockCount = prisma.codingAttempt.count as ReturnType<typeof vi.fn>;
+const mockAttempts = prisma.codingAttempt.findMany as ReturnType<typeof vi.fn>;
+const mockOpenAssessment = prisma.codingAssessment.findFirst as ReturnType<typeof vi.fn>;
+const mockEvents = prisma.codingProctorEvent.createMany as ReturnType<typeof vi.fn>;
+const mockHeld = prisma.codingAssessmentChallenge.findMany as ReturnType<typeof vi.fn>;
+
+const NOW = new Date('2026-05-04T10:00:00Z');
+
+const validInput = {
+  title: 'Week 3 check',
+  cohortId: 1,
+  challengeIds: ['ch-a', 'ch-b'],
+  opensAt: '2026-05-04T09:00:00Z',
+  closesAt: '2026-05-04T12:00:00Z',
+  durationMinutes: 60,
+  attemptCap: 3,
+  language: 'python',
+};
+
+async function reasonOf(p: Promise<unknown>): Promise<string | undefined> {
+  try {
+    await p;
+    return undefined;
+  } catch (err) {
+    expect(err).toBeInstanceOf(AssessmentError);
+    return (err as AssessmentError).reason;
+  }
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+describe('AssessmentInputSchema', () => {
+  it('accepts a valid assessment and defaults the language lock to null', () => {
+    const rest: Record<string, unknown> = { ...validInput };
+    delete rest.language;
+    expect(AssessmentInputSchema.parse(rest).language).toBeNull();
+  });
+
+  it('rejects a window that closes before it opens and duplicate challenges', () => {
+    expect(
+      AssessmentInputSchema.safeParse({ ...validInput, closesAt: validInput.opensAt }).success,
+    ).toBe(false);
+    expect(
+      AssessmentInputSchema.safeParse({ ...validInput, challengeIds: ['ch-a', 'ch-a'] }).success,
+    ).toBe(false);
+  });
+});
+
+describe('sessionExpiry', () => {
+  it('is the earlier of start + duration and the window close', () => {
+    const closes = new Date('2026-05-04T12:00:00Z');
+    expect(sessionExpiry(NOW, 60, closes).toISOString()).toBe('2026-05-04T11:00:00.000Z');
+    expect(sessionExpiry(NOW, 180, closes).toISOString()).toBe('2026-05-04T12:00:00.000Z');
+  });
+});
+
+describe('createAssessment', () => {
+  beforeEach(() => {
+    mockCohort.mockResolvedValue({ id: 1 });
+    mockCreate.mockResolvedValue({ id: 'as-1' });
+  });
+
+  it('stores the challenges in the given order', async () => {
+    mockChallenges.mockResolvedValue([
+      { id: 'ch-b', slug: 'b', cohortId: null, language: 'python' },
+      { id: 'ch-a', slug: 'a', cohortId: 1, language: 'python' },
+    ]);
+    const input = AssessmentInputSchema.parse(validInput);
+    await expect(createAssessment(input, 'trainer@x.io')).resolves.toEqual({ id: 'as-1' });
+    expect(mockCreate.mock.calls[0][0].data.challenges.create).toEqual([
+      { challengeId: 'ch-a', orderIndex: 0 },
+      { challengeId: 'ch-b', orderIndex: 1 },
+    ]);
+  });
+
+  it('rejects challenges from another cohort or in another language', async () => {
+    const input = AssessmentInputSchema.parse(validInput);
+    mockChallenges.mockResolvedValue([
+      { id: 'ch-a', slug: 'a', cohortId: 2, language: 'python' },
+      { id: 'ch-b', slug: 'b', cohortId: null, language: 'python' },
+    ]);
+    expect(await reasonOf(createAssessment(input, null))).toBe('INVALID');
+    mockChallenges.mockResolvedValue([
+      { id: 'ch-a', slug: 'a', cohortId: null, language: 'java' },
+      { id: 'ch-b', slug: 'b', cohortId: null, language: 'python' },
+    ]);
+    expect(await reasonOf(createAssessment(input, null))).toBe('INVALID');
+    expect(mockCreate).not.toHaveBeenCalled();
+  });
+});
+
+describe('startAssessment', () => {
+  const assessment = {
+    id: 'as-1',
+    cohortId: 1,
+    opensAt: new Date('2026-05-04T09:00:00Z'),
+    closesAt: new Date('2026-05-04T12:00:00Z'),
+    durationMinutes: 60,
+  };
+
+  it('creates a sitting clamped to the window inside the window', async () => {
+    mockAssessment.mockResolvedValue(assessment);
+    mockAssoc.mockResolvedValue({ cohortId: 1 });
+    mockSession.mockResolvedValue(null);
+    mockUpsert.mockImplementation(({ create }) => Promise.resolve(create));
+    await expect(startAssessment('as-1', { associateId: 7 }, NOW)).resolves.toEqual({
+      startedAt: '2026-05-04T10:00:00.000Z',
+      expiresAt: '2026-05-04T11:00:00.000Z',
+    });
+  });
+
+  it('returns the existing sitting instead of restarting the clock', async () => {
+    mockAssessment.mockResolvedValue(assessment);
+    mockAssoc.mockResolvedValue({ cohortId: 1 });
+    mockSession.mockResolvedValue({
+      startedAt: new Date('2026-05-04T09:30:00Z'),
+      expiresAt: new Date('2026-05-04T10:30:00Z'),
+    });
+    const later = new Date('2026-05-04T13:00:00Z');
+    await expect(startAssessment('as-1', { associateId: 7 }, later)).resolves.toEqual({
+      startedAt: '2026-05-04T09:30:00.000Z',
+      expiresAt: '2026-05-04T10:30:00.000Z',
+    });
+    expect(mockUpsert).not.toHaveBeenCalled();
+  });
+
+  it('refuses other cohorts and starts outside the window', async () => {
+    mockAssessment.mockResolvedValue(assessment);
+    mockSession.mockResolvedValue(null);
+    mockAssoc.mockResolvedValue({ cohortId: 2 });
+    expect(await reasonOf(startAssessment('as-1', { associateId: 7 }, NOW))).toBe('NOT_ASSIGNED');
+    mockAssoc.mockResolvedValue({ cohortId: 1 });
+    expect(
+      await reasonOf(startAssessment('as-1', { associateId: 7 }, new Date('2026-05-04T08:00:00Z'))),
+    ).toBe('NOT_OPEN');
+    expect(
+      await reasonOf(startAssessment('as-1', { associateId: 7 }, new Date('2026-05-04T12:00:00Z'))),
+    ).toBe('CLOSED');
+  });
+});
+
+describe('authorizeAssessmentSubmit', () => {
+  const expiresAt = new Date('2026-05-04T11:00:00Z');
+  const session = {
+    id: 'sess-1',
+    expiresAt,
+    assessment: {
+      attemptCap: 2,
+      language: 'python',
+      challenges: [{ challengeId: 'ch-a' }],
+    },
+  };
+  const base = { assessmentId: 'as-1', associateId: 7, challengeId: 'ch-a', language: 'python' };
+
+  it('returns the sitting id while time and attempts remain', async () => {
+    mockSession.mockResolvedValue(session);
+    mockCount.mockResolvedValue(1);
+    await expect(authorizeAssessmentSubmit({ ...base, now: NOW })).resolves.toEqual({
+      sessionId: 'sess-1',
+      attemptCap: 2,
+    });
+    expect(mockCount).toHaveBeenCalledWith({
+      where: { assessmentSessionId: 'sess-1', challengeId: 'ch-a' },
+    });
+  });
+
+  it('accepts the auto-submit within the grace period, not after', async () => {
+    mockSession.mockResolvedValue(session);
+    mockCount.mockResolvedValue(0);
+    const inGrace = new Date(expiresAt.getTime() + SUBMIT_GRACE_MS);
+    await expect(authorizeAssessmentSubmit({ ...base, now: inGrace })).resolves.toBeDefined();
+    const late = new Date(expiresAt.getTime() + SUBMIT_GRACE_MS + 1);
+    expect(await reasonOf(authorizeAssessmentSubmit({ ...base, now: late }))).toBe('EXPIRED');
+  });
+
+  it('enforces start, challenge list, language lock and attempt cap', async () => {
+    mockSession.mockResolvedValue(null);
+    expect(await reasonOf(authorizeAssessmentSubmit({ ...base, now: NOW }))).toBe('NOT_STARTED');
+
+    mockSession.mockResolvedValue(session);
+    mockCount.mockResolvedValue(0);
+    expect(
+      await reasonOf(authorizeAssessmentSubmit({ ...base, challengeId: 'ch-z', now: NOW })),
+    ).toBe('CHALLENGE_NOT_IN_ASSESSMENT');
+    expect(
+      await reasonOf(authorizeAssessmentSubmit({ ...base, language: 'java', now: NOW })),
+    ).toBe('LANGUAGE_LOCKED');
+
+    mockCount.mockResolvedValue(2);
+    expect(await reasonOf(authorizeAssessmentSubmit({ ...base, now: NOW }))).toBe(
+      'ATTEMPT_CAP_REACHED',
+    );
+  });
+});
+
+describe('assertNotHeldForAssessment', () => {
+  it('refuses while an open assessment for the cohort holds the challenge', async () => {
+    mockAssoc.mockResolvedValue({ cohortId: 1 });
+    mockOpenAssessment.mockResolvedValue({ title: 'Week 3 check', opensAt: new Date('2026-05-04T09:00:00Z') });
+    expect(
+      await reasonOf(assertNotHeldForAssessment({ associateId: 7, challengeId: 'ch-a', now: NOW })),
+    ).toBe('ASSESSMENT_REQUIRED');
+    expect(mockOpenAssessment).toHaveBeenCalledWith({
+      where: {
+        cohortId: 1,
+        closesAt: { gt: NOW },
+        challenges: { some: { challengeId: 'ch-a' } },
+      },
+      orderBy: { opensAt: 'asc' },
+      select: { title: true, opensAt: true },
+    });
+  });
+
+  it('refuses before a scheduled assessment opens', async () => {
+    mockAssoc.mockResolvedValue({ cohortId: 1 });
+    mockOpenAssessment.mockResolvedValue({ title: 'Week 4 check', opensAt: new Date('2026-05-05T09:00:00Z') });
+    expect(
+      await reasonOf(assertNotHeldForAssessment({ associateId: 7, challengeId: 'ch-a', now: NOW })),
+    ).toBe('NOT_OPEN');
+  });
+
+  it('allows practice when nothing is open or the associate has no cohort', async () => {
+    mockAssoc.mockResolvedValue({ cohortId: 1 });
+    mockOpenAssessment.mockResolvedValue(null);
+    await expect(assertNotHeldForAssessment({ associateId: 7, challengeId: 'ch-a', now: NOW })).resolves.toBeUndefined();
+
+    mockAssoc.mockResolvedValue({ cohortId: null });
+    mockOpenAssessment.mockClear();
+    await expect(assertNotHeldForAssessment({ associateId: 7, challengeId: 'ch-a', now: NOW })).resolves.toBeUndefined();
+    expect(mockOpenAssessment).not.toHaveBeenCalled();
+  });
+});
+
+describe('held assessment challenges', () => {
+  it('lists every challenge of an unclosed assessment for the cohort once', async () => {
+    mockAssoc.mockResolvedValue({ cohortId: 1 });
+    mockHeld.mockResolvedValue([{ challengeId: 'ch-a' }, { challengeId: 'ch-b' }, { challengeId: 'ch-a' }]);
+    expect(await heldAssessmentChallengeIds({ associateId: 7 }, NOW)).toEqual(['ch-a', 'ch-b']);
+    expect(mockHeld).toHaveBeenCalledWith({
+      where: { assessment: { cohortId: 1, closesAt: { gt: NOW } } },
+      select: { challengeId: true },
+    });
+  });
+
+  it('releases a held challenge only to an associate in a live sitting', async () => {
+    mockAssoc.mockResolvedValue({ cohortId: 1 });
+    mockOpenAssessment.mockResolvedValue({ id: 'as-1' });
+    expect(await isHeldForAssessment({ associateId: 7, challengeId: 'ch-a', now: NOW })).toBe(true);
+    expect(mockOpenAssessment).toHaveBeenCalledWith({
+      where: {
+        cohortId: 1,
+        closesAt: { gt: NOW },
+        challenges: { some: { challengeId: 'ch-a' } },
+        sessions: { none: { associateId: 7, expiresAt: { gt: NOW } } },
+      },
+      select: { id: true },
+    });
+
+    mockOpenAssessment.mockResolvedValue(null);
+    expect(await isHeldForAssessment({ associateId: 7, challengeId: 'ch-a', now: NOW })).toBe(false);
+  });
+});
+
+describe('claimAssessmentAttempt', () => {
+  const gate = { sessionId: 'sess-1', attemptCap: 3, challengeId: 'ch-a' };
+  const p2002 = Object.assign(new Error('Unique constraint failed'), { code: 'P2002' });
+
+  it('inserts into the lowest free slot, reusing rolled-back ones', async () => {
+    mockAttempts.mockResolvedValue([{ assessmentSeq: 1 }, { assessmentSeq: 3 }]);
+    const insert = vi.fn(async (seq: number) => ({ id: `att-${seq}` }));
+    await expect(claimAssessmentAttempt(gate, insert)).resolves.toEqual({ id: 'att-2' });
+    expect(mockAttempts).toHaveBeenCalledWith({
+      where: { assessmentSessionId: 'sess-1', challengeId: 'ch-a' },
+      select: { assessmentSeq: true },
+    });
+  });
+
+  it('retries on a slot collision and stops at the cap', async () => {
+    // A parallel submit takes slot 3 between our read and insert.
+    mockAttempts
+      .mockResolvedValueOnce([{ assessmentSeq: 1 }, { assessmentSeq: 2 }])
+      .mockResolvedValueOnce([{ assessmentSeq: 1 }, { assessmentSeq: 2 }, { assessmentSeq: 3 }]);
+    const insert = vi.fn().mockRejectedValueOnce(p2002);
+    expect(await reasonOf(claimAssessmentAttempt(gate, insert))).toBe('ATTEMPT_CAP_REACHED');
+    expect(insert).toHaveBeenCalledTimes(1);
+    expect(insert).toHaveBeenCalledWith(3);
+  });
+
+  it('rethrows anything other than a unique violation', async () => {
+    mockAttempts.mockResolvedValue([]);
+    const insert = vi.fn().mockRejectedValue(new Error('db down'));
+    await expect(claimAssessmentAttempt(gate, insert)).rejects.toThrow('db down');
+  });
+});
+
+describe('recordProctorEvents', () => {
+  const event = { type: 'paste' as const, at: NOW.toISOString(), challengeId: 'ch-a', chars: 120 };
+
+  it('stores events up to the per-sitting cap', async () => {
+    mockSession.mockResolvedValue({
+      id: 'sess-1',
+      _count: { events: MAX_PROCTOR_EVENTS_PER_SESSION - 1 },
+    });
+    await expect(recordProctorEvents('as-1', { associateId: 7 }, [event, event])).resolves.toBe(1);
+    expect(mockEvents.mock.calls[0][0].data).toEqual([
+      {
+        sessionId: 'sess-1',
+        type: 'paste',
+        challengeId: 'ch-a',
+        chars: 120,
+        occurredAt: NOW,
+      },
+    ]);
+  });
+
+  it('requires a started sitting', async () => {
+    mockSession.mockResolvedValue(null);
+    expect(await reasonOf(recordProctorEvents('as-1', { associateId: 7 }, [event]))).toBe(
+      'NOT_STARTED',
+    );
+  });
+});
+
+describe('getAssessmentResults', () => {
+  it('gives every cohort associate a row with best scores and proctor counts', async () => {
+    mockAssessment.mockResolvedValue({
+      id: 'as-1',
+      title: 'Week 3 check',
+      cohortId: 1,
+      opensAt: new Date('2026-05-04T09:00:00Z'),
+      closesAt: new Date('2026-05-04T12:00:00Z'),
+      durationMinutes: 60,
+      attemptCap: 3,
+      language: null,
+      cohort: {
+        name: 'Cohort A',
+        associates: [
+          { id: 7, slug: 'alice', displayName: 'Alice' },
+          { id: 8, slug: 'bob', displayName: null },
+        ],
+      },
+      challenges: [
+        { challenge: { id: 'ch-a', slug: 'a', title: 'A' } },
+        { challenge: { id: 'ch-b', slug: 'b', title: 'B' } },
+      ],
+      sessions: [
+        {
+          associateId: 7,
+          startedAt: new Date('2026-05-04T09:30:00Z'),
+          expiresAt: new Date('2026-05-04T10:30:00Z'),
+          attempts: [
+            { challengeId: 'ch-a', score: 40, verdict: 'fail' },
+            { challengeId: 'ch-a', score: 100, verdict: 'pass' },
+            { challengeId: 'ch-b', score: null, verdict: 'pending' },
+          ],
+          events: [{ type: 'tab_hidden' }, { type: 'tab_hidden' }, { type: 'paste' }],
+        },
+      ],
+    });
+
+    const results = await getAssessmentResults('as-1', NOW);
+    expect(results.assessment).toMatchObject({ status: 'open', challengeCount: 2, startedCount: 1 });
+    const [alice, bob] = results.rows;
+    expect(alice.cells).toEqual([
+      { challengeId: 'ch-a', attemptsUsed: 2, bestScore: 100, passed: true },
+      { challengeId: 'ch-b', attemptsUsed: 1, bestScore: null, passed: false },
+    ]);
+    expect(alice.totalScore).toBe(50);
+    expect(alice.proctor).toMatchObject({ tab_hidden: 2, paste: 1, copy: 0 });
+    expect(bob).toMatchObject({ associateSlug: 'bob', startedAt: null, totalScore: 0 });
+    expect(bob.cells.every((c) => c.attemptsUsed === 0)).toBe(true);
+  });
+
+  it('throws NOT_FOUND for an unknown assessment', async () => {
+    mockAssessment.mockResolvedValue(null);
+    expect(await reasonOf(getAssessmentResults('nope'))).toBe('NOT_FOUND');
+  });
+});
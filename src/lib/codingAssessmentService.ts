@@ -0,0 +1,768 @@
+/**
+ * codingAssessmentService.ts
+ *
+ * Timed coding assessments. A trainer assembles challenges into an
+ * assessment for one cohort with an open/close window, a per-associate time
+ * limit, a per-challenge attempt cap and an optional language lock.
+ *
+ * Lifecycle for an associate:
+ *   1. startAssessment — inside the window, creates their sitting
+ *      (CodingAssessmentSession) with expiresAt = min(start + duration,
+ *      closesAt). Idempotent: reopening returns the same sitting, so a
+ *      refresh never resets the clock.
+ *   2. authorizeAssessmentSubmit — called by /api/coding/submit for every
+ *      graded attempt that names the assessment. Enforces the clock (with
+ *      SUBMIT_GRACE_MS for the client's auto-submit at 0:00), the challenge
+ *      list, the language lock and the attempt cap. claimAssessmentAttempt
+ *      then inserts the attempt into a numbered slot (1..attemptCap, unique
+ *      per sitting and challenge) so parallel submits cannot exceed the cap.
+ *      Submits that omit the assessment are refused by
+ *      assertNotHeldForAssessment while one of the associate's assessments
+ *      containing the challenge is scheduled or open — the gate is not
+ *      opt-in. Until it closes the challenge is also held out of the
+ *      practice list, detail and run routes (heldAssessmentChallengeIds,
+ *      isHeldForAssessment) except during the associate's own sitting.
+ *   3. recordProctorEvents — tab switches and paste/copy sizes reported by
+ *      the workspace. These are signals for the trainer, never blocking.
+ *
+ * getAssessmentResults builds the trainer grid: one row per cohort associate,
+ * best score and attempts used per challenge, plus proctor event counts.
+ */
+
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { CODING_LANGUAGES } from '@/lib/coding-bank-schemas';
+import { codingApiError, type CodingApiErrorCode } from '@/lib/codingApiErrors';
+
+/** Submissions that land this long after expiresAt are still accepted (auto-submit latency). */
+export const SUBMIT_GRACE_MS = 30_000;
+/** Ceiling on stored proctor events per sitting; later events are dropped. */
+export const MAX_PROCTOR_EVENTS_PER_SESSION = 2000;
+
+export const PROCTOR_EVENT_TYPES = [
+  'tab_hidden',
+  'tab_visible',
+  'paste',
+  'copy',
+  'auto_submit',
+] as const;
+export type ProctorEventType = (typeof PROCTOR_EVENT_TYPES)[number];
+
+export const AssessmentInputSchema = z
+  .object({
+    title: z.string().trim().min(1).max(200),
+    cohortId: z.number().int().positive(),
+    challengeIds: z.array(z.string().min(1).max(64)).min(1).max(20),
+    opensAt: z.iso.datetime(),
+    closesAt: z.iso.datetime(),
+    durationMinutes: z.number().int().min(5).max(480),
+    attemptCap: z.number().int().min(1).max(50),
+    language: z.enum(CODING_LANGUAGES).nullable().default(null),
+  })
+  .refine((a) => Date.parse(a.closesAt) > Date.parse(a.opensAt), {
+    message: 'closesAt must be after opensAt',
+    path: ['closesAt'],
+  })
+  .refine((a) => new Set(a.challengeIds).size === a.challengeIds.length, {
+    message: 'challengeIds must be distinct',
+    path: ['challengeIds'],
+  });
+export type AssessmentInput = z.infer<typeof AssessmentInputSchema>;
+
+export const ProctorEventsSchema = z
+  .array(
+    z.object({
+      type: z.enum(PROCTOR_EVENT_TYPES),
+      at: z.iso.datetime(),
+      challengeId: z.string().min(1).max(64).optional(),
+      chars: z.number().int().min(0).max(10_000_000).optional(),
+    }),
+  )
+  .min(1)
+  .max(50);
+export type ProctorEventInput = z.infer<typeof ProctorEventsSchema>[number];
+
+export type AssessmentErrorReason =
+  | 'NOT_FOUND'
+  | 'INVALID'
+  | 'NOT_ASSIGNED'
+  | 'NOT_OPEN'
+  | 'CLOSED'
+  | 'NOT_STARTED'
+  | 'EXPIRED'
+  | 'CHALLENGE_NOT_IN_ASSESSMENT'
+  | 'LANGUAGE_LOCKED'
+  | 'ATTEMPT_CAP_REACHED'
+  | 'ASSESSMENT_REQUIRED';
+
+export class AssessmentError extends Error {
+  constructor(
+    public readonly reason: AssessmentErrorReason,
+    message: string,
+  ) {
+    super(message);
+    this.name = 'AssessmentError';
+  }
+}
+
+const REASON_TO_API_CODE: Record<AssessmentErrorReason, CodingApiErrorCode> = {
+  NOT_FOUND: 'NOT_FOUND',
+  INVALID: 'VALIDATION_ERROR',
+  NOT_ASSIGNED: 'FORBIDDEN',
+  NOT_OPEN: 'FORBIDDEN',
+  CLOSED: 'FORBIDDEN',
+  NOT_STARTED: 'FORBIDDEN',
+  EXPIRED: 'FORBIDDEN',
+  CHALLENGE_NOT_IN_ASSESSMENT: 'FORBIDDEN',
+  LANGUAGE_LOCKED: 'LANGUAGE_NOT_SUPPORTED',
+  ATTEMPT_CAP_REACHED: 'FORBIDDEN',
+  ASSESSMENT_REQUIRED: 'FORBIDDEN',
+};
+
+/** Coding API envelope for an AssessmentError; `details.reason` lets the UI tell 403s apart. */
+export function assessmentErrorResponse(err: AssessmentError) {
+  return codingApiError(REASON_TO_API_CODE[err.reason], err.message, { reason: err.reason });
+}
+
+export type AssessmentStatus = 'upcoming' | 'open' | 'closed';
+
+export function assessmentStatus(
+  a: { opensAt: Date; closesAt: Date },
+  now: Date = new Date(),
+): AssessmentStatus {
+  if (now < a.opensAt) return 'upcoming';
+  if (now >= a.closesAt) return 'closed';
+  return 'open';
+}
+
+/** A sitting never outlives the assessment window. */
+export function sessionExpiry(startedAt: Date, durationMinutes: number, closesAt: Date): Date {
+  const byDuration = startedAt.getTime() + durationMinutes * 60_000;
+  return new Date(Math.min(byDuration, closesAt.getTime()));
+}
+
+// ─── Trainer ────────────────────────────────────────────────────────────
+
+export interface AssessmentSummary {
+  id: string;
+  title: string;
+  cohortId: number;
+  cohortName: string;
+  opensAt: string;
+  closesAt: string;
+  durationMinutes: number;
+  attemptCap: number;
+  language: string | null;
+  status: AssessmentStatus;
+  challengeCount: number;
+  startedCount: number;
+}
+
+/**
+ * Create an assessment. Every challenge must be visible to the cohort
+ * (global or cohort-scoped to it) and, with a language lock, graded in that
+ * language — otherwise associates could never submit it.
+ */
+export async function createAssessment(
+  input: AssessmentInput,
+  createdBy: string | null,
+): Promise<{ id: string }> {
+  const cohort = await prisma.cohort.findUnique({
+    where: { id: input.cohortId },
+    select: { id: true },
+  });
+  if (!cohort) throw new AssessmentError('INVALID', 'Cohort not found');
+
+  const challenges = await prisma.codingChallenge.findMany({
+    where: { id: { in: input.challengeIds } },
+    select: { id: true, slug: true, cohortId: true, language: true },
+  });
+  const byId = new Map(challenges.map((c) => [c.id, c]));
+  for (const id of input.challengeIds) {
+    const c = byId.get(id);
+    if (!c) throw new AssessmentError('INVALID', `Challenge ${id} not found`);
+    if (c.cohortId !== null && c.cohortId !== input.cohortId) {
+      throw new AssessmentError('INVALID', `Challenge ${c.slug} belongs to another cohort`);
+    }
+    if (input.language && c.language !== input.language) {
+      throw new AssessmentError(
+        'INVALID',
+        `Challenge ${c.slug} is graded in ${c.language}, not ${input.language}`,
+      );
+    }
+  }
+
+  return prisma.codingAssessment.create({
+    data: {
+      title: input.title,
+      cohortId: input.cohortId,
+      opensAt: new Date(input.opensAt),
+      closesAt: new Date(input.closesAt),
+      durationMinutes: input.durationMinutes,
+      attemptCap: input.attemptCap,
+      language: input.language,
+      createdBy,
+      challenges: {
+        create: input.challengeIds.map((challengeId, orderIndex) => ({ challengeId, orderIndex })),
+      },
+    },
+    select: { id: true },
+  });
+}
+
+/** Assessments in `cohortIds` (every cohort when null), newest first. */
+export async function listAssessments(
+  cohortIds: number[] | null,
+  now: Date = new Date(),
+): Promise<AssessmentSummary[]> {
+  const rows = await prisma.codingAssessment.findMany({
+    where: cohortIds !== null ? { cohortId: { in: cohortIds } } : {},
+    orderBy: { opensAt: 'desc' },
+    select: {
+      id: true,
+      title: true,
+      cohortId: true,
+      opensAt: true,
+      closesAt: true,
+      durationMinutes: true,
+      attemptCap: true,
+      language: true,
+      cohort: { select: { name: true } },
+      _count: { select: { challenges: true, sessions: true } },
+    },
+  });
+  return rows.map((r) => ({
+    id: r.id,
+    title: r.title,
+    cohortId: r.cohortId,
+    cohortName: r.cohort.name,
+    opensAt: r.opensAt.toISOString(),
+    closesAt: r.closesAt.toISOString(),
+    durationMinutes: r.durationMinutes,
+    attemptCap: r.attemptCap,
+    language: r.language,
+    status: assessmentStatus(r, now),
+    challengeCount: r._count.challenges,
+    startedCount: r._count.sessions,
+  }));
+}
+
+export interface AssessmentResultCell {
+  challengeId: string;
+  attemptsUsed: number;
+  bestScore: number | null;
+  passed: boolean;
+}
+
+export interface AssessmentResultRow {
+  associateId: number;
+  associateSlug: string;
+  displayName: string | null;
+  startedAt: string | null;
+  expiresAt: string | null;
+  cells: AssessmentResultCell[];
+  totalScore: number;
+  proctor: Record<ProctorEventType, number>;
+}
+
+export interface AssessmentResults {
+  assessment: AssessmentSummary;
+  challenges: Array<{ id: string; slug: string; title: string }>;
+  rows: AssessmentResultRow[];
+}
+
+function emptyProctorCounts(): Record<ProctorEventType, number> {
+  return Object.fromEntries(PROCTOR_EVENT_TYPES.map((t) => [t, 0])) as Record<
+    ProctorEventType,
+    number
+  >;
+}
+
+/**
+ * Trainer results grid. Every associate in the cohort gets a row, including
+ * those who never started; only attempts made inside their sitting count.
+ */
+export async function getAssessmentResults(
+  assessmentId: string,
+  now: Date = new Date(),
+): Promise<AssessmentResults> {
+  const a = await prisma.codingAssessment.findUnique({
+    where: { id: assessmentId },
+    select: {
+      id: true,
+      title: true,
+      cohortId: true,
+      opensAt: true,
+      closesAt: true,
+      durationMinutes: true,
+      attemptCap: true,
+      language: true,
+      cohort: {
+        select: {
+          name: true,
+          associates: {
+            select: { id: true, slug: true, displayName: true },
+            orderBy: { slug: 'asc' },
+          },
+        },
+      },
+      challenges: {
+        orderBy: { orderIndex: 'asc' },
+        select: { challenge: { select: { id: true, slug: true, title: true } } },
+      },
+      sessions: {
+        select: {
+          associateId: true,
+          startedAt: true,
+          expiresAt: true,
+          attempts: { select: { challengeId: true, score: true, verdict: true } },
+          events: { select: { type: true } },
+        },
+      },
+    },
+  });
+  if (!a) throw new AssessmentError('NOT_FOUND', 'Assessment not found');
+
+  const challenges = a.challenges.map((c) => c.challenge);
+  const sessions = new Map(a.sessions.map((s) => [s.associateId, s]));
+
+  const rows = a.cohort.associates.map((assoc): AssessmentResultRow => {
+    const s = sessions.get(assoc.id);
+    const cells = challenges.map((c): AssessmentResultCell => {
+      const attempts = s?.attempts.filter((t) => t.challengeId === c.id) ?? [];
+      const scores = attempts.map((t) => t.score).filter((x): x is number => typeof x === 'number');
+      return {
+        challengeId: c.id,
+        attemptsUsed: attempts.length,
+        bestScore: scores.length > 0 ? Math.max(...scores) : null,
+        passed: attempts.some((t) => t.verdict === 'pass'),
+      };
+    });
+    const proctor = emptyProctorCounts();
+    for (const e of s?.events ?? []) {
+      if (e.type in proctor) proctor[e.type as ProctorEventType] += 1;
+    }
+    return {
+      associateId: assoc.id,
+      associateSlug: assoc.slug,
+      displayName: assoc.displayName,
+      startedAt: s?.startedAt.toISOString() ?? null,
+      expiresAt: s?.expiresAt.toISOString() ?? null,
+      cells,
+      // Mean of best scores; challenges never submitted count as 0.
+      totalScore:
+        challenges.length > 0
+          ? cells.reduce((sum, c) => sum + (c.bestScore ?? 0), 0) / challenges.length
+          : 0,
+      proctor,
+    };
+  });
+
+  return {
+    assessment: {
+      id: a.id,
+      title: a.title,
+      cohortId: a.cohortId,
+      cohortName: a.cohort.name,
+      opensAt: a.opensAt.toISOString(),
+      closesAt: a.closesAt.toISOString(),
+      durationMinutes: a.durationMinutes,
+      attemptCap: a.attemptCap,
+      language: a.language,
+      status: assessmentStatus(a, now),
+      challengeCount: challenges.length,
+      startedCount: a.sessions.length,
+    },
+    challenges,
+    rows,
+  };
+}
+
+// ─── Associate ──────────────────────────────────────────────────────────
+
+export interface AssociateAssessmentView {
+  id: string;
+  title: string;
+  opensAt: string;
+  closesAt: string;
+  durationMinutes: number;
+  attemptCap: number;
+  language: string | null;
+  status: AssessmentStatus;
+  session: { startedAt: string; expiresAt: string } | null;
+  challenges: Array<{
+    id: string;
+    slug: string;
+    title: string;
+    difficulty: string;
+    language: string;
+    attemptsUsed: number;
+  }>;
+}
+
+interface AssociateRef {
+  associateId: number;
+}
+
+async function cohortOf(associateId: number): Promise<number | null> {
+  const assoc = await prisma.associate.findUnique({
+    where: { id: associateId },
+    select: { cohortId: true },
+  });
+  return assoc?.cohortId ?? null;
+}
+
+/** Assessments assigned to the associate's cohort that have not closed yet. */
+export async function listAssociateAssessments(
+  { associateId }: AssociateRef,
+  now: Date = new Date(),
+): Promise<Array<Omit<AssociateAssessmentView, 'challenges'> & { challengeCount: number }>> {
+  const cohortId = await cohortOf(associateId);
+  if (cohortId === null) return [];
+  const rows = await prisma.codingAssessment.findMany({
+    where: { cohortId, closesAt: { gt: now } },
+    orderBy: { opensAt: 'asc' },
+    select: {
+      id: true,
+      title: true,
+      opensAt: true,
+      closesAt: true,
+      durationMinutes: true,
+      attemptCap: true,
+      language: true,
+      _count: { select: { challenges: true } },
+      sessions: { where: { associateId }, select: { startedAt: true, expiresAt: true } },
+    },
+  });
+  return rows.map((r) => ({
+    id: r.id,
+    title: r.title,
+    opensAt: r.opensAt.toISOString(),
+    closesAt: r.closesAt.toISOString(),
+    durationMinutes: r.durationMinutes,
+    attemptCap: r.attemptCap,
+    language: r.language,
+    status: assessmentStatus(r, now),
+    session: r.sessions[0]
+      ? {
+          startedAt: r.sessions[0].startedAt.toISOString(),
+          expiresAt: r.sessions[0].expiresAt.toISOString(),
+        }
+      : null,
+    challengeCount: r._count.challenges,
+  }));
+}
+
+/**
+ * Assessment detail for an associate. Challenges are only listed once the
+ * sitting has started, so nobody previews the questions before the clock runs.
+ */
+export async function getAssociateAssessment(
+  assessmentId: string,
+  { associateId }: AssociateRef,
+  now: Date = new Date(),
+): Promise<AssociateAssessmentView> {
+  const a = await prisma.codingAssessment.findUnique({
+    where: { id: assessmentId },
+    select: {
+      id: true,
+      title: true,
+      cohortId: true,
+      opensAt: true,
+      closesAt: true,
+      durationMinutes: true,
+      attemptCap: true,
+      language: true,
+      challenges: {
+        orderBy: { orderIndex: 'asc' },
+        select: {
+          challenge: {
+            select: { id: true, slug: true, title: true, difficulty: true, language: true },
+          },
+        },
+      },
+      sessions: {
+        where: { associateId },
+        select: {
+          startedAt: true,
+          expiresAt: true,
+          attempts: { select: { challengeId: true } },
+        },
+      },
+    },
+  });
+  if (!a) throw new AssessmentError('NOT_FOUND', 'Assessment not found');
+  if ((await cohortOf(associateId)) !== a.cohortId) {
+    throw new AssessmentError('NOT_ASSIGNED', 'Assessment is not assigned to your cohort');
+  }
+
+  const session = a.sessions[0] ?? null;
+  return {
+    id: a.id,
+    title: a.title,
+    opensAt: a.opensAt.toISOString(),
+    closesAt: a.closesAt.toISOString(),
+    durationMinutes: a.durationMinutes,
+    attemptCap: a.attemptCap,
+    language: a.language,
+    status: assessmentStatus(a, now),
+    session: session
+      ? { startedAt: session.startedAt.toISOString(), expiresAt: session.expiresAt.toISOString() }
+      : null,
+    challenges: session
+      ? a.challenges.map(({ challenge }) => ({
+          ...challenge,
+          attemptsUsed: session.attempts.filter((t) => t.challengeId === challenge.id).length,
+        }))
+      : [],
+  };
+}
+
+export async function startAssessment(
+  assessmentId: string,
+  { associateId }: AssociateRef,
+  now: Date = new Date(),
+): Promise<{ startedAt: string; expiresAt: string }> {
+  const a = await prisma.codingAssessment.findUnique({
+    where: { id: assessmentId },
+    select: { id: true, cohortId: true, opensAt: true, closesAt: true, durationMinutes: true },
+  });
+  if (!a) throw new AssessmentError('NOT_FOUND', 'Assessment not found');
+  if ((await cohortOf(associateId)) !== a.cohortId) {
+    throw new AssessmentError('NOT_ASSIGNED', 'Assessment is not assigned to your cohort');
+  }
+
+  const existing = await prisma.codingAssessmentSession.findUnique({
+    where: { assessmentId_associateId: { assessmentId, associateId } },
+    select: { startedAt: true, expiresAt: true },
+  });
+  if (existing) {
+    return { startedAt: existing.startedAt.toISOString(), expiresAt: existing.expiresAt.toISOString() };
+  }
+
+  const status = assessmentStatus(a, now);
+  if (status === 'upcoming') throw new AssessmentError('NOT_OPEN', 'Assessment has not opened yet');
+  if (status === 'closed') throw new AssessmentError('CLOSED', 'Assessment has closed');
+
+  // upsert: two tabs starting at once resolve to the same sitting.
+  const session = await prisma.codingAssessmentSession.upsert({
+    where: { assessmentId_associateId: { assessmentId, associateId } },
+    create: {
+      assessmentId,
+      associateId,
+      startedAt: now,
+      expiresAt: sessionExpiry(now, a.durationMinutes, a.closesAt),
+    },
+    update: {},
+    select: { startedAt: true, expiresAt: true },
+  });
+  return { startedAt: session.startedAt.toISOString(), expiresAt: session.expiresAt.toISOString() };
+}
+
+export interface AssessmentSubmitGate {
+  sessionId: string;
+  attemptCap: number;
+}
+
+/**
+ * Gate for a graded submission inside an assessment. Returns the sitting id
+ * to stamp on the CodingAttempt and the cap for claimAssessmentAttempt;
+ * throws AssessmentError when not allowed.
+ */
+export async function authorizeAssessmentSubmit(params: {
+  assessmentId: string;
+  associateId: number;
+  challengeId: string;
+  language: string;
+  now?: Date;
+}): Promise<AssessmentSubmitGate> {
+  const now = params.now ?? new Date();
+  const session = await prisma.codingAssessmentSession.findUnique({
+    where: {
+      assessmentId_associateId: {
+        assessmentId: params.assessmentId,
+        associateId: params.associateId,
+      },
+    },
+    select: {
+      id: true,
+      expiresAt: true,
+      assessment: {
+        select: {
+          attemptCap: true,
+          language: true,
+          challenges: { select: { challengeId: true } },
+        },
+      },
+    },
+  });
+  if (!session) {
+    throw new AssessmentError('NOT_STARTED', 'Start the assessment before submitting');
+  }
+  if (now.getTime() > session.expiresAt.getTime() + SUBMIT_GRACE_MS) {
+    throw new AssessmentError('EXPIRED', 'Assessment time is over');
+  }
+  if (!session.assessment.challenges.some((c) => c.challengeId === params.challengeId)) {
+    throw new AssessmentError(
+      'CHALLENGE_NOT_IN_ASSESSMENT',
+      'Challenge is not part of this assessment',
+    );
+  }
+  if (session.assessment.language && session.assessment.language !== params.language) {
+    throw new AssessmentError(
+      'LANGUAGE_LOCKED',
+      `This assessment must be answered in ${session.assessment.language}`,
+    );
+  }
+  const used = await prisma.codingAttempt.count({
+    where: { assessmentSessionId: session.id, challengeId: params.challengeId },
+  });
+  if (used >= session.assessment.attemptCap) {
+    throw new AssessmentError(
+      'ATTEMPT_CAP_REACHED',
+      `Attempt limit reached (${session.assessment.attemptCap})`,
+    );
+  }
+  return { sessionId: session.id, attemptCap: session.assessment.attemptCap };
+}
+
+/**
+ * Assessments for `cohortId` that have not closed. Their challenges are held
+ * back from scheduling until close, so the questions cannot be previewed or
+ * practised before the clock runs.
+ */
+function unclosedAssessments(cohortId: number, now: Date) {
+  return { cohortId, closesAt: { gt: now } };
+}
+
+/** Challenge ids to leave out of the associate's practice list. */
+export async function heldAssessmentChallengeIds(
+  { associateId }: AssociateRef,
+  now: Date = new Date(),
+): Promise<string[]> {
+  const cohortId = await cohortOf(associateId);
+  if (cohortId === null) return [];
+  const rows = await prisma.codingAssessmentChallenge.findMany({
+    where: { assessment: unclosedAssessments(cohortId, now) },
+    select: { challengeId: true },
+  });
+  return [...new Set(rows.map((r) => r.challengeId))];
+}
+
+/**
+ * Whether detail and scratch runs of the challenge are refused to the
+ * associate: it is held by an assessment for their cohort, and they are not
+ * in a live sitting of that assessment.
+ */
+export async function isHeldForAssessment(params: {
+  associateId: number;
+  challengeId: string;
+  now?: Date;
+}): Promise<boolean> {
+  const now = params.now ?? new Date();
+  const cohortId = await cohortOf(params.associateId);
+  if (cohortId === null) return false;
+  const held = await prisma.codingAssessment.findFirst({
+    where: {
+      ...unclosedAssessments(cohortId, now),
+      challenges: { some: { challengeId: params.challengeId } },
+      sessions: { none: { associateId: params.associateId, expiresAt: { gt: now } } },
+    },
+    select: { id: true },
+  });
+  return held !== null;
+}
+
+/**
+ * Gate for a submission that names no assessment: refuses it while an
+ * assessment for the associate's cohort containing the challenge is scheduled
+ * or open, so dropping `assessmentId` from the request cannot sidestep the
+ * clock, cap or language lock, or answer the questions early.
+ */
+export async function assertNotHeldForAssessment(params: {
+  associateId: number;
+  challengeId: string;
+  now?: Date;
+}): Promise<void> {
+  const now = params.now ?? new Date();
+  const cohortId = await cohortOf(params.associateId);
+  if (cohortId === null) return;
+  const held = await prisma.codingAssessment.findFirst({
+    where: {
+      ...unclosedAssessments(cohortId, now),
+      challenges: { some: { challengeId: params.challengeId } },
+    },
+    orderBy: { opensAt: 'asc' },
+    select: { title: true, opensAt: true },
+  });
+  if (!held) return;
+  if (held.opensAt > now) {
+    throw new AssessmentError('NOT_OPEN', `This challenge is part of "${held.title}", which has not opened yet`);
+  }
+  throw new AssessmentError(
+    'ASSESSMENT_REQUIRED',
+    `This challenge is part of "${held.title}" — submit it from the assessment`,
+  );
+}
+
+function isUniqueViolation(err: unknown): boolean {
+  return typeof err === 'object' && err !== null && (err as { code?: string }).code === 'P2002';
+}
+
+/**
+ * Insert an assessment attempt into the lowest free slot (assessmentSeq
+ * 1..attemptCap). The (assessmentSessionId, challengeId, assessmentSeq)
+ * unique key turns a parallel submit that picked the same slot into P2002;
+ * that submit re-reads the slots and either takes the next one or hits the
+ * cap. Slots freed by a rolled-back attempt are reused.
+ */
+export async function claimAssessmentAttempt<T>(
+  gate: AssessmentSubmitGate & { challengeId: string },
+  insert: (assessmentSeq: number) => Promise<T>,
+): Promise<T> {
+  // Each retry means another submit took a slot, so attemptCap bounds the loop.
+  for (let round = 0; round <= gate.attemptCap; round++) {
+    const taken = await prisma.codingAttempt.findMany({
+      where: { assessmentSessionId: gate.sessionId, challengeId: gate.challengeId },
+      select: { assessmentSeq: true },
+    });
+    if (taken.length >= gate.attemptCap) break;
+    const used = new Set(taken.map((t) => t.assessmentSeq));
+    let seq = 1;
+    while (used.has(seq)) seq++;
+    try {
+      return await insert(seq);
+    } catch (err) {
+      if (!isUniqueViolation(err)) throw err;
+    }
+  }
+  throw new AssessmentError('ATTEMPT_CAP_REACHED', `Attempt limit reached (${gate.attemptCap})`);
+}
+
+/** Append proctor events to the associate's sitting; returns how many were stored. */
+export async function recordProctorEvents(
+  assessmentId: string,
+  { associateId }: AssociateRef,
+  events: ProctorEventInput[],
+): Promise<number> {
+  const session = await prisma.codingAssessmentSession.findUnique({
+    where: { assessmentId_associateId: { assessmentId, associateId } },
+    select: { id: true, _count: { select: { events: true } } },
+  });
+  if (!session) {
+    throw new AssessmentError('NOT_STARTED', 'Assessment has not been started');
+  }
+  const room = Math.max(0, MAX_PROCTOR_EVENTS_PER_SESSION - session._count.events);
+  const accepted = events.slice(0, room);
+  if (accepted.length === 0) return 0;
+  await prisma.codingProctorEvent.createMany({
+    data: accepted.map((e) => ({
+      sessionId: session.id,
+      type: e.type,
+      challengeId: e.challengeId ?? null,
+      chars: e.chars ?? null,
+      occurredAt: new Date(e.at),
+    })),
+  });
+  return accepted.length;
+}
@@ -35,6 +35,11 @@ vi.mock('@/lib/gapPersistence', () => ({
   persistCodingSignalToGapScore: vi.fn(async () => undefined),
 }));
 
+// Optional LLM review — fire-and-forget like the GapScore writeback.
+vi.mock('@/lib/codeReviewService', () => ({
+  requestCodeReview: vi.fn(async () => undefined),
+}));
+
 import {
   aggregateJudge0Results,
   computeFinalVerdict,
@@ -46,6 +51,7 @@ import {
 import { prisma } from '@/lib/prisma';
 import * as judge0Client from '@/lib/judge0Client';
 import { persistCodingSignalToGapScore } from '@/lib/gapPersistence';
+import { requestCodeReview } from '@/lib/codeReviewService';
 
 function j0Result(status: number, overrides: Partial<{ stdout: string; stderr: string; time: string; memory: number; token: string }> = {}) {
   return {
@@ -229,6 +235,7 @@ describe('pollAndMaybeResolveAttempt', () => {
     expect(result.verdict).toBe('pass');
     expect(judge0Client.getSubmission).not.toHaveBeenCalled();
     expect(prisma.codingAttempt.update).not.toHaveBeenCalled();
+    expect(requestCodeReview).not.toHaveBeenCalled();
   });
 
   it('pending + judge0 still running → verdict stays pending, no DB write', async () => {
@@ -562,6 +569,7 @@ describe('pollAndMaybeResolveAttempt', () => {
     });
     expect(challengeArg).toEqual({ difficulty: 'hard', language: 'python' });
     expect(associateIdArg).toBe(77);
+    expect(requestCodeReview).toHaveBeenCalledWith('a-gap');
   });
 
   it('persistCodingSignalToGapScore rejection is swallowed (poll still resolves)', async () => {
@@ -598,4 +606,46 @@ describe('pollAndMaybeResolveAttempt', () => {
 
     consoleSpy.mockRestore();
   });
+
+  it('function challenge: re-derives passed from the harness return value with tolerance', async () => {
+    (prisma.codingAttempt.findUnique as Mock).mockResolvedValue({
+      id: 'a-fn',
+      verdict: 'pending',
+      score: null,
+      visibleTestResults: [],
+      hiddenTestResults: [],
+      judge0Token: JSON.stringify(['t-v', 't-h']),
+      submittedAt: new Date('2026-01-01T00:00:00Z'),
+      completedAt: null,
+      associateId: 7,
+      challengeId: 'ch-fn',
+      challenge: {
+        skillSlug: 'arrays',
+        difficulty: 'easy',
+        language: 'python',
+        entryPoint: {
+          name: 'mean',
+          params: [{ name: 'xs', type: 'float[]' }],
+          returns: 'float',
+          compare: { floatTolerance: 0.01 },
+        },
+      },
+    });
+    (prisma.codingTestCase.findMany as Mock).mockResolvedValue([
+      { id: 'v1', isHidden: false, weight: 1, orderIndex: 0, expectedStdout: '2.5' },
+      { id: 'h1', isHidden: true, weight: 3, orderIndex: 0, expectedStdout: '1' },
+    ]);
+    // Judge0 says Accepted for both (no expected_output was sent).
+    (judge0Client.getSubmission as Mock)
+      .mockResolvedValueOnce(j0Result(3, { stdout: '\n__NLM_RESULT__2.504\n' }))
+      .mockResolvedValueOnce(j0Result(3, { stdout: '\n__NLM_RESULT__1.5\n' }));
+    (prisma.codingAttempt.update as Mock).mockResolvedValue({ id: 'a-fn' });
+    (prisma.codingSkillSignal.upsert as Mock).mockResolvedValue({ id: 's-fn' });
+
+    const result = await pollAndMaybeResolveAttempt('a-fn');
+    expect(result.verdict).toBe('fail');
+    expect(result.score).toBe(25);
+    expect(result.visibleTestResults[0].passed).toBe(true);
+    expect(result.hiddenAggregate).toEqual({ passed: 0, total: 1 });
+  });
 });
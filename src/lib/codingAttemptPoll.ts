@@ -13,14 +13,17 @@
  */
 
 import { prisma } from '@/lib/prisma';
-import { getSubmission } from '@/lib/judge0Client';
+import { getSubmission } from '@/lib/executionBackend';
 import { isCodingEnabled } from '@/lib/codingFeatureFlag';
 import { normalizeJudge0Verdict, type CanonicalVerdict } from '@/lib/judge0Verdict';
 import { mapSignalToScore, type SignalType } from '@/lib/codingSignalService';
 import { persistCodingSignalToGapScore } from '@/lib/gapPersistence';
 import { loadHiddenTests } from '@/lib/coding-challenge-service';
-import { normalizeSqliteResult } from '@/lib/sqlResultNormalizer';
+import { normalizeSqlResult } from '@/lib/sqlResultNormalizer';
+import { readSqlDialect } from '@/lib/sqlSource';
 import type { SqlTestCase } from '@/lib/coding-bank-schemas';
+import { functionOutputMatches, readEntryPoint } from '@/lib/functionHarness';
+import { requestCodeReview } from '@/lib/codeReviewService';
 
 export class AttemptNotFoundError extends Error {
   constructor(id: string) {
@@ -186,6 +189,8 @@ interface AttemptRow {
     // topic="coding:<language>" on the GapScore upsert.
     difficulty: 'easy' | 'medium' | 'hard';
     language: string;
+    // Function challenges: signature + compare options (null → stdin/stdout).
+    entryPoint?: unknown;
   } | null;
 }
 
@@ -236,7 +241,7 @@ export async function pollAndMaybeResolveAttempt(attemptId: string): Promise<Pol
       completedAt: true,
       associateId: true,
       challengeId: true,
-      challenge: { select: { skillSlug: true, difficulty: true, language: true } },
+      challenge: { select: { skillSlug: true, difficulty: true, language: true, entryPoint: true } },
     },
   })) as AttemptRow | null;
 
@@ -268,7 +273,7 @@ export async function pollAndMaybeResolveAttempt(attemptId: string): Promise<Pol
   const cases = await prisma.codingTestCase.findMany({
     where: { challengeId: attempt.challengeId },
     orderBy: [{ isHidden: 'asc' }, { orderIndex: 'asc' }],
-    select: { id: true, isHidden: true, weight: true, orderIndex: true },
+    select: { id: true, isHidden: true, weight: true, orderIndex: true, expectedStdout: true },
   });
 
   const orderedCases = cases.map((c) => ({
@@ -305,8 +310,9 @@ export async function pollAndMaybeResolveAttempt(attemptId: string): Promise<Pol
     try {
       const ch = await prisma.codingChallenge.findUnique({
         where: { id: attempt.challengeId },
-        select: { slug: true },
+        select: { slug: true, sqlDialect: true },
       });
+      const sqlDialect = readSqlDialect(ch?.sqlDialect);
       const hiddenSql = ch
         ? ((await loadHiddenTests(ch.slug)) as SqlTestCase[])
         : [];
@@ -316,7 +322,7 @@ export async function pollAndMaybeResolveAttempt(attemptId: string): Promise<Pol
         if (!pc.isHidden) return pc;
         const tc = hiddenById.get(pc.caseId);
         if (!tc || tc.expectedRows === undefined) return pc;
-        const normResult = normalizeSqliteResult(pc.stdout ?? '', tc);
+        const normResult = normalizeSqlResult(pc.stdout ?? '', tc, sqlDialect);
         return {
           ...pc,
           passed: normResult.passed,
@@ -339,6 +345,23 @@ export async function pollAndMaybeResolveAttempt(attemptId: string): Promise<Pol
     }
   }
 
+  // Function challenges: submit withheld expected_output, so Judge0 reports
+  // Accepted for every clean exit. Re-derive `passed` from the harness's
+  // printed return value under the challenge's tolerance options.
+  // expectedStdout (hidden included) stays in this scope like expectedRows.
+  // A corrupt entryPoint row throws (attempt stays pending) rather than
+  // grading every clean exit as a pass.
+  const entryPoint = readEntryPoint(attempt.challenge?.entryPoint);
+  if (entryPoint) {
+    const expectedById = new Map(cases.map((c) => [c.id, c.expectedStdout]));
+    agg.perCase = agg.perCase.map((pc) => {
+      const expected = expectedById.get(pc.caseId);
+      if (expected === undefined || pc.verdict !== 'pass') return pc;
+      const passed = functionOutputMatches(pc.stdout, expected, entryPoint.compare);
+      return { ...pc, passed, verdict: passed ? 'pass' : 'fail' };
+    });
+  }
+
   // Compute final verdict + score
   const finalVerdict = computeFinalVerdict(agg.perCase);
   const score = computeScore(agg.perCase);
@@ -389,7 +412,7 @@ export async function pollAndMaybeResolveAttempt(attemptId: string): Promise<Pol
         completedAt: true,
         associateId: true,
         challengeId: true,
-        challenge: { select: { skillSlug: true, difficulty: true, language: true } },
+        challenge: { select: { skillSlug: true, difficulty: true, language: true, entryPoint: true } },
       },
     })) as AttemptRow | null;
     if (refreshed) return toPollResultFromPersisted(refreshed);
@@ -453,6 +476,12 @@ export async function pollAndMaybeResolveAttempt(attemptId: string): Promise<Pol
     });
   }
 
+  // Optional LLM code review (CODING_AI_REVIEW_ENABLED). Fire-and-forget for
+  // the same reason as the writebacks above; the VerdictCard polls for it.
+  void requestCodeReview(attemptId).catch((reviewErr) => {
+    console.error('[codingAttemptPoll] code review failed for', attemptId, reviewErr);
+  });
+
   const hiddenPassedCount = agg.perCase.filter((pc) => pc.isHidden && pc.passed).length;
   const hiddenTotal = agg.perCase.filter((pc) => pc.isHidden).length;
 
@@ -23,3 +23,13 @@ export const CODING_COMING_SOON_MESSAGE =
 export function isCodingEnabled(): boolean {
   return process.env.CODING_CHALLENGES_ENABLED === 'true';
 }
+
+/**
+ * Edit-timeline recording in the solve editor (useEditTimeline → stored with
+ * each submit for the trainer replay). Off unless CODING_EDIT_TIMELINE_ENABLED
+ * is exactly 'true'; when off the workspace records nothing and the submit
+ * route discards any timeline it is sent.
+ */
+export function isEditTimelineEnabled(): boolean {
+  return process.env.CODING_EDIT_TIMELINE_ENABLED === 'true';
+}
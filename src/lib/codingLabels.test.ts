@@ -11,7 +11,9 @@
 import { describe, it, expect } from 'vitest';
 import {
   SQL_DIALECT_LABEL,
+  SQL_POSTGRES_DIALECT_LABEL,
   getLanguageDialectLabel,
+  getSqlDialectLabel,
   isSqlDialectChallenge,
 } from './codingLabels';
 
@@ -64,3 +66,16 @@ describe('isSqlDialectChallenge', () => {
     ).toBe(true);
   });
 });
+
+describe('getSqlDialectLabel', () => {
+  it('labels postgres challenges with the PostgreSQL dialect', () => {
+    expect(getSqlDialectLabel('postgres')).toBe(SQL_POSTGRES_DIALECT_LABEL);
+    expect(SQL_POSTGRES_DIALECT_LABEL).toBe('SQL fundamentals (PostgreSQL dialect)');
+  });
+
+  it('falls back to the SQLite label for sqlite, null and legacy rows', () => {
+    expect(getSqlDialectLabel('sqlite')).toBe(SQL_DIALECT_LABEL);
+    expect(getSqlDialectLabel(null)).toBe(SQL_DIALECT_LABEL);
+    expect(getSqlDialectLabel(undefined)).toBe(SQL_DIALECT_LABEL);
+  });
+});
@@ -6,12 +6,24 @@
  * is grep-enforced by Plan 02 verify — `grep -r "SQL fundamentals (SQLite dialect)"
  * src/` should return exactly ONE file (this one).
  *
- * Rationale: the v1.4 coding stack ships SQL as SQLite-only. Associates and trainers
- * need to know this up-front — Postgres-syntax queries will fail. The label makes the
- * dialect commitment visible without requiring a footnote. Real Postgres SQL is
- * deferred to v1.5 (see PROJECT.md Out of Scope).
+ * Rationale: SQL challenges run on SQLite unless meta.json opts into Postgres
+ * (`sqlDialect`). Associates and trainers need to know which up-front — Postgres-only
+ * syntax fails on SQLite and vice versa. The label makes the dialect commitment
+ * visible without requiring a footnote. The same one-file rule applies to the
+ * Postgres label.
  */
+import type { SqlDialect } from './coding-bank-schemas';
+
 export const SQL_DIALECT_LABEL = 'SQL fundamentals (SQLite dialect)' as const;
+export const SQL_POSTGRES_DIALECT_LABEL = 'SQL fundamentals (PostgreSQL dialect)' as const;
+
+/**
+ * Dialect label for a SQL challenge. Null / unknown reads as SQLite, matching
+ * how the graders treat a CodingChallenge.sqlDialect that predates dialects.
+ */
+export function getSqlDialectLabel(dialect: SqlDialect | string | null | undefined): string {
+  return dialect === 'postgres' ? SQL_POSTGRES_DIALECT_LABEL : SQL_DIALECT_LABEL;
+}
 
 /**
  * Returns the display label for a coding challenge language, or null if no special
@@ -0,0 +1,81 @@
+/**
+ * codingRun.test.ts — bounded inline polling for scratch runs.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach, type Mock } from 'vitest';
+
+vi.mock('@/lib/judge0Client', async () => {
+  const actual = await vi.importActual<typeof import('@/lib/judge0Client')>('@/lib/judge0Client');
+  return { ...actual, submit: vi.fn() };
+});
+
+import * as judge0Client from '@/lib/judge0Client';
+import { runScratch } from './codingRun';
+
+function sub(statusId: number, stdout: string | null = null) {
+  return {
+    token: 't',
+    stdout,
+    stderr: null,
+    compile_output: null,
+    message: null,
+    status: { id: statusId, description: '' },
+    time: statusId >= 3 ? '0.5' : null,
+    memory: null,
+    exit_code: null,
+  };
+}
+
+const opts = {
+  language: 'python' as const,
+  useStdin: true,
+  buildSource: () => 'print(1)',
+  sleep: async () => {},
+};
+
+describe('runScratch', () => {
+  beforeEach(() => {
+    vi.stubEnv('CODING_CHALLENGES_ENABLED', 'true');
+    (judge0Client.submit as Mock).mockResolvedValue({ token: 'tok' });
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.clearAllMocks();
+  });
+
+  it('polls until every case resolves', async () => {
+    const getSub = vi
+      .fn()
+      .mockResolvedValueOnce(sub(1))
+      .mockResolvedValueOnce(sub(2))
+      .mockResolvedValueOnce(sub(3, '1\n'));
+    const result = await runScratch([{ caseId: 'a', stdin: '', expectedStdout: '1' }], { ...opts, getSub });
+    expect(getSub).toHaveBeenCalledTimes(3);
+    expect(result.resolved).toBe(true);
+    expect(result.results[0]).toMatchObject({ verdict: 'pass', passed: true, stdout: '1\n', timeMs: 500 });
+  });
+
+  it('gives up at the deadline and reports the case as pending', async () => {
+    const getSub = vi.fn().mockResolvedValue(sub(2));
+    const result = await runScratch([{ caseId: null, stdin: 'x' }], {
+      ...opts,
+      getSub,
+      pollIntervalMs: 10,
+      deadlineMs: 0,
+    });
+    expect(result.resolved).toBe(false);
+    expect(result.results[0]).toMatchObject({ verdict: 'pending', passed: null });
+  });
+
+  it('keeps polling through a transient poll failure', async () => {
+    const getSub = vi
+      .fn()
+      .mockRejectedValueOnce(new Error('blip'))
+      .mockResolvedValueOnce(sub(6));
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const result = await runScratch([{ caseId: null, stdin: '' }], { ...opts, getSub });
+    expect(result.results[0]).toMatchObject({ verdict: 'compile_error', passed: null });
+    warn.mockRestore();
+  });
+});
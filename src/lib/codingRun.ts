@@ -0,0 +1,157 @@
+/**
+ * codingRun.ts
+ *
+ * Scratch "Run" execution for /api/coding/run. Unlike submit, a run is
+ * ungraded and leaves no trace: no CodingAttempt, no CodingSkillSignal, no
+ * GapScore. It submits the associate's code against the challenge's visible
+ * tests (or one custom stdin) and polls Judge0 inline for a bounded time so
+ * the route can answer in a single request.
+ *
+ * Hidden tests never enter this module — callers only pass visible cases or
+ * caller-supplied stdin, so every field here is safe to return on the wire.
+ */
+
+import type { Judge0Language, Judge0Submission } from '@/lib/judge0Client';
+import type { SqlDialect } from '@/lib/coding-bank-schemas';
+import { submit as judge0Submit, getSubmission } from '@/lib/executionBackend';
+import { normalizeJudge0Verdict, type CanonicalVerdict } from '@/lib/judge0Verdict';
+
+export const RUN_POLL_INTERVAL_MS = 500;
+export const RUN_POLL_DEADLINE_MS = 15_000;
+
+export interface RunCase {
+  /** Visible test case id; null for a custom-input run */
+  caseId: string | null;
+  stdin: string;
+  /** undefined → no comparison (custom input or SQL) */
+  expectedStdout?: string;
+}
+
+export interface RunCaseResult {
+  caseId: string | null;
+  stdin: string;
+  expectedStdout: string | null;
+  verdict: CanonicalVerdict;
+  /** null when there was nothing to compare against */
+  passed: boolean | null;
+  stdout: string | null;
+  stderr: string | null;
+  compileOutput: string | null;
+  timeMs: number | null;
+  memoryKb: number | null;
+}
+
+export interface RunResult {
+  /** false when the poll deadline passed before Judge0 finished every case */
+  resolved: boolean;
+  results: RunCaseResult[];
+}
+
+export interface RunOptions {
+  language: Judge0Language;
+  /** Builds the Judge0 source for a case (SQL wraps setup + query per case) */
+  buildSource: (tc: RunCase) => string;
+  /** SQL pipes nothing through stdin — the query lives in the source */
+  useStdin: boolean;
+  /** SQL only: engine the source targets (postgres runs on the Postgres sandbox) */
+  sqlDialect?: SqlDialect;
+  /** Multi-file challenges: files placed next to the main source */
+  additionalFiles?: Array<{ path: string; content: string }>;
+  /**
+   * Server-side comparator (function challenges). When set, expected output
+   * is not sent to Judge0; a clean run passes iff compare() says so.
+   */
+  compare?: (stdout: string | null, expectedStdout: string) => boolean;
+  pollIntervalMs?: number;
+  deadlineMs?: number;
+  sleep?: (ms: number) => Promise<void>;
+  getSub?: (token: string) => Promise<Judge0Submission>;
+}
+
+function judge0TimeToMs(time: string | null): number | null {
+  if (!time) return null;
+  const secs = parseFloat(time);
+  if (!Number.isFinite(secs)) return null;
+  return Math.round(secs * 1000);
+}
+
+function toResult(
+  tc: RunCase,
+  sub: Judge0Submission | null,
+  compare: RunOptions['compare'],
+): RunCaseResult {
+  let verdict: CanonicalVerdict = sub
+    ? normalizeJudge0Verdict(sub.status.id, sub.stderr).verdict
+    : 'pending';
+  const compared = tc.expectedStdout !== undefined;
+  if (compare && tc.expectedStdout !== undefined && verdict === 'pass') {
+    verdict = compare(sub?.stdout ?? null, tc.expectedStdout) ? 'pass' : 'fail';
+  }
+  return {
+    caseId: tc.caseId,
+    stdin: tc.stdin,
+    expectedStdout: tc.expectedStdout ?? null,
+    verdict,
+    // Without an expected output Judge0 reports Accepted for any clean exit —
+    // that is "ran", not "passed".
+    passed: compared && verdict !== 'pending' ? verdict === 'pass' : null,
+    stdout: sub?.stdout ?? null,
+    stderr: sub?.stderr ?? null,
+    compileOutput: sub?.compile_output ?? null,
+    timeMs: sub ? judge0TimeToMs(sub.time) : null,
+    memoryKb: sub?.memory ?? null,
+  };
+}
+
+/**
+ * Submit every case (async, no wait) and poll until all resolve or the
+ * deadline passes. Judge0 submit failures propagate so the route can map
+ * them to JUDGE0_UNAVAILABLE; poll failures are retried until the deadline.
+ */
+export async function runScratch(cases: RunCase[], opts: RunOptions): Promise<RunResult> {
+  const interval = opts.pollIntervalMs ?? RUN_POLL_INTERVAL_MS;
+  const deadline = Date.now() + (opts.deadlineMs ?? RUN_POLL_DEADLINE_MS);
+  const sleep = opts.sleep ?? ((ms: number) => new Promise<void>((r) => setTimeout(r, ms)));
+  const getSub = opts.getSub ?? getSubmission;
+
+  const submissions = await Promise.all(
+    cases.map((tc) =>
+      judge0Submit({
+        sourceCode: opts.buildSource(tc),
+        language: opts.language,
+        stdin: opts.useStdin ? tc.stdin : '',
+        expectedStdout: opts.compare ? undefined : tc.expectedStdout,
+        ...(opts.sqlDialect ? { sqlDialect: opts.sqlDialect } : {}),
+        ...(opts.additionalFiles && opts.additionalFiles.length > 0
+          ? { additionalFiles: opts.additionalFiles }
+          : {}),
+      }),
+    ),
+  );
+  const tokens = submissions.map((s) => s.token);
+
+  const latest: Array<Judge0Submission | null> = cases.map(() => null);
+  const isDone = (sub: Judge0Submission | null) =>
+    sub !== null && normalizeJudge0Verdict(sub.status.id, sub.stderr).verdict !== 'pending';
+
+  for (;;) {
+    await Promise.all(
+      tokens.map(async (token, i) => {
+        if (isDone(latest[i])) return;
+        try {
+          latest[i] = await getSub(token);
+        } catch (err) {
+          console.warn('[codingRun] poll failed for token', token, err);
+        }
+      }),
+    );
+    if (latest.every(isDone)) break;
+    if (Date.now() + interval > deadline) break;
+    await sleep(interval);
+  }
+
+  return {
+    resolved: latest.every(isDone),
+    results: cases.map((tc, i) => toResult(tc, latest[i], opts.compare)),
+  };
+}
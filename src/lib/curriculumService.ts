@@ -110,6 +110,19 @@ export async function getTaughtWeeks(
   });
 }
 
+/**
+ * Distinct skillSlug values across every cohort's curriculum, sorted.
+ * Used by the question-bank linter to flag topics no cohort teaches.
+ */
+export async function listSkillSlugs(): Promise<string[]> {
+  const rows = await prisma.curriculumWeek.findMany({
+    distinct: ['skillSlug'],
+    select: { skillSlug: true },
+    orderBy: { skillSlug: 'asc' },
+  });
+  return rows.map((r) => r.skillSlug);
+}
+
 /**
  * Creates a new curriculum week for a cohort.
  *
@@ -0,0 +1,181 @@
+/**
+ * editTimeline.test.ts — typing/backspace coalescing, checkpointed replay,
+ * the marker summary behind the trainer scrubber, wire validation, and the
+ * per-attempt delta/size cap.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  COALESCE_MS,
+  EditTimelineSchema,
+  PAUSE_MIN_MS,
+  appendChange,
+  capTimelineSize,
+  createReplayer,
+  rebaseTimeline,
+  summarizeTimeline,
+  timelineDuration,
+  type EditTimeline,
+  type TimelineEvent,
+} from './editTimeline';
+
+function typed(text: string, start = 0, t0 = 0): TimelineEvent[] {
+  const events: TimelineEvent[] = [];
+  [...text].forEach((ch, i) => appendChange(events, t0 + i * 100, 0, { offset: start + i, deleted: 0, text: ch }));
+  return events;
+}
+
+describe('appendChange', () => {
+  it('merges a typing burst into one insert', () => {
+    expect(typed('abc')).toEqual([[200, 'e', 0, 0, 0, 'abc']]);
+  });
+
+  it('starts a new event after a pause, a jump, or in another file', () => {
+    const events = typed('ab');
+    appendChange(events, 100 + COALESCE_MS, 0, { offset: 2, deleted: 0, text: 'c' });
+    appendChange(events, 100 + COALESCE_MS + 50, 0, { offset: 0, deleted: 0, text: 'x' });
+    appendChange(events, 100 + COALESCE_MS + 60, 1, { offset: 1, deleted: 0, text: 'y' });
+    expect(events).toHaveLength(4);
+  });
+
+  it('merges consecutive backspaces into one delete', () => {
+    const events = typed('abcd');
+    appendChange(events, 1000, 0, { offset: 3, deleted: 1, text: '' });
+    appendChange(events, 1100, 0, { offset: 2, deleted: 1, text: '' });
+    expect(events).toEqual([
+      [300, 'e', 0, 0, 0, 'abcd'],
+      [1100, 'e', 0, 2, 2, ''],
+    ]);
+  });
+
+  it('never merges a paste into a typing burst', () => {
+    const events = typed('ab');
+    appendChange(events, 150, 0, { offset: 2, deleted: 0, text: 'x'.repeat(60) });
+    expect(events).toHaveLength(2);
+  });
+});
+
+describe('createReplayer', () => {
+  it('rebuilds file contents at any position', () => {
+    const tl: EditTimeline = {
+      v: 1,
+      files: [{ path: 'main', content: 'print()' }],
+      events: [
+        [0, 'e', 0, 6, 0, '1'],
+        [500, 'run'],
+        [900, 'e', 0, 6, 1, '42'],
+      ],
+    };
+    const replay = createReplayer(tl);
+    expect(replay.length).toBe(3);
+    expect(replay.at(0)).toEqual(['print()']);
+    expect(replay.at(1)).toEqual(['print(1)']);
+    expect(replay.at(2)).toEqual(['print(1)']);
+    expect(replay.at(3)).toEqual(['print(42)']);
+    expect(replay.at(99)).toEqual(['print(42)']);
+  });
+
+  it('agrees with a naive replay across checkpoints', () => {
+    const events: TimelineEvent[] = [];
+    let text = '';
+    // Each char 2s apart so nothing coalesces: 600 events, two checkpoints.
+    for (let i = 0; i < 600; i++) {
+      appendChange(events, i * 2000, 0, { offset: text.length, deleted: 0, text: String(i % 10) });
+      text += String(i % 10);
+    }
+    const replay = createReplayer({ v: 1, files: [{ path: 'main', content: '' }], events });
+    expect(replay.at(600)).toEqual([text]);
+    expect(replay.at(251)).toEqual([text.slice(0, 251)]);
+    expect(replay.at(500)).toEqual([text.slice(0, 500)]);
+  });
+});
+
+describe('summarizeTimeline', () => {
+  it('flags pastes, runs, submits and long pauses with scrubber positions', () => {
+    const tl: EditTimeline = {
+      v: 1,
+      files: [{ path: 'main', content: '' }],
+      events: [
+        [0, 'e', 0, 0, 0, 'def f():'],
+        [1000 + PAUSE_MIN_MS, 'e', 0, 8, 0, '\n' + 'x'.repeat(80)],
+        [62_000, 'run'],
+        [63_000, 'submit'],
+      ],
+    };
+    const summary = summarizeTimeline(tl);
+    expect(summary).toMatchObject({
+      durationMs: 63_000,
+      edits: 2,
+      pastes: 1,
+      pastedChars: 81,
+      runs: 1,
+      submits: 1,
+      longestPauseMs: 1000 + PAUSE_MIN_MS,
+    });
+    expect(summary.markers.map((m) => [m.kind, m.position])).toEqual([
+      ['pause', 1],
+      ['paste', 2],
+      ['run', 3],
+      ['submit', 4],
+    ]);
+    expect(timelineDuration(tl)).toBe(63_000);
+  });
+});
+
+describe('EditTimelineSchema', () => {
+  const base = { v: 1, files: [{ path: 'main', content: '' }] };
+
+  it('accepts a well-formed timeline', () => {
+    expect(EditTimelineSchema.safeParse({ ...base, events: [[0, 'e', 0, 0, 0, 'a'], [5, 'run']] }).success).toBe(true);
+  });
+
+  it('rejects unknown file indexes, versions and event kinds', () => {
+    expect(EditTimelineSchema.safeParse({ ...base, events: [[0, 'e', 1, 0, 0, 'a']] }).success).toBe(false);
+    expect(EditTimelineSchema.safeParse({ ...base, v: 2, events: [] }).success).toBe(false);
+    expect(EditTimelineSchema.safeParse({ ...base, events: [[0, 'paste']] }).success).toBe(false);
+  });
+});
+
+describe('rebaseTimeline', () => {
+  it('starts the next stretch from the submitted code with times shifted to the submit', () => {
+    const submitted: EditTimeline = {
+      v: 1,
+      files: [{ path: 'main', content: '' }],
+      events: [
+        [0, 'e', 0, 0, 0, 'x = 1'],
+        [3000, 'submit'],
+      ],
+    };
+    const current: EditTimeline = {
+      ...submitted,
+      events: [...submitted.events, [4500, 'e', 0, 5, 0, '\ny = 2']],
+    };
+
+    const next = rebaseTimeline(current, submitted);
+
+    expect(next.files).toEqual([{ path: 'main', content: 'x = 1' }]);
+    expect(next.events).toEqual([[1500, 'e', 0, 5, 0, '\ny = 2']]);
+    expect(createReplayer(next).at(1)).toEqual(['x = 1\ny = 2']);
+    expect(current.events[2][0]).toBe(4500);
+  });
+});
+
+describe('capTimelineSize', () => {
+  const tl: EditTimeline = {
+    v: 1,
+    files: [{ path: 'main', content: '' }],
+    events: Array.from({ length: 50 }, (_, i): TimelineEvent => [i * 10, 'e', 0, i * 20, 0, 'y'.repeat(20)]),
+  };
+
+  it('leaves timelines under the cap alone', () => {
+    expect(capTimelineSize(tl, 1_000_000)).toBe(tl);
+  });
+
+  it('drops trailing events until the JSON fits and marks it truncated', () => {
+    const capped = capTimelineSize(tl, 500);
+    expect(JSON.stringify(capped).length).toBeLessThanOrEqual(500);
+    expect(capped.truncated).toBe(true);
+    expect(capped.events.length).toBeGreaterThan(0);
+    expect(capped.events).toEqual(tl.events.slice(0, capped.events.length));
+  });
+});
@@ -0,0 +1,300 @@
+/**
+ * editTimeline.ts
+ *
+ * Compact edit timeline for coding attempts. The solve editor records every
+ * content change (offset, deleted length, inserted text) plus run/submit
+ * marks; the timeline is sent with each graded submit and replayed for
+ * trainers with a scrubber (AttemptReplay on the trainer coding panel).
+ *
+ * Wire/storage shape — tuples keep the JSON small:
+ *
+ *   { v: 1, files: [{ path, content }], events: TimelineEvent[], truncated? }
+ *
+ *   [t, 'e', file, offset, deleted, text]   edit in files[file]
+ *   [t, 'run'] | [t, 'submit']               toolbar actions
+ *
+ * `t` is milliseconds since recording started. Typing is compressed as it is
+ * recorded: consecutive single-position inserts (and backspaces) within
+ * COALESCE_MS merge into one event. Single-file challenges use one file with
+ * path SINGLE_FILE_PATH.
+ *
+ * Each attempt stores only the edits since the previous submit: after a
+ * submit the recorder rebases onto the submitted code (rebaseTimeline), so
+ * `files` is the starting point of that stretch, not the starter code.
+ * capTimelineSize bounds what the submit route stores per attempt.
+ *
+ * Pure module: shared by the client recorder, the submit route's validation
+ * and the trainer replay.
+ */
+
+import { z } from 'zod';
+
+export const EDIT_TIMELINE_VERSION = 1;
+export const SINGLE_FILE_PATH = 'main';
+
+/** Typing bursts closer together than this merge into one event. */
+export const COALESCE_MS = 1000;
+/** Hard caps — the recorder stops (truncated: true) rather than exceed them. */
+export const MAX_TIMELINE_EVENTS = 20_000;
+export const MAX_TIMELINE_TEXT = 400_000;
+/** Stored JSON size cap per attempt; the submit route trims trailing events beyond it. */
+export const MAX_STORED_TIMELINE_BYTES = 256_000;
+/** A single insert this long is flagged as a paste in the replay. */
+export const PASTE_MIN_CHARS = 40;
+/** Gaps without activity at least this long are flagged as pauses. */
+export const PAUSE_MIN_MS = 60_000;
+
+export type EditEvent = [
+  t: number,
+  kind: 'e',
+  file: number,
+  offset: number,
+  deleted: number,
+  text: string,
+];
+export type MarkEvent = [t: number, kind: 'run' | 'submit'];
+export type TimelineEvent = EditEvent | MarkEvent;
+
+export interface TimelineFile {
+  path: string;
+  content: string;
+}
+
+export interface EditTimeline {
+  v: typeof EDIT_TIMELINE_VERSION;
+  files: TimelineFile[];
+  events: TimelineEvent[];
+  truncated?: boolean;
+}
+
+/** One Monaco content change, in model offsets. */
+export interface TextChange {
+  offset: number;
+  deleted: number;
+  text: string;
+}
+
+const EditEventSchema = z.tuple([
+  z.number().int().min(0),
+  z.literal('e'),
+  z.number().int().min(0),
+  z.number().int().min(0),
+  z.number().int().min(0),
+  z.string(),
+]);
+const MarkEventSchema = z.tuple([z.number().int().min(0), z.enum(['run', 'submit'])]);
+
+export const EditTimelineSchema = z
+  .object({
+    v: z.literal(EDIT_TIMELINE_VERSION),
+    files: z
+      .array(z.object({ path: z.string().min(1).max(200), content: z.string().max(100_000) }))
+      .min(1)
+      .max(20),
+    events: z.array(z.union([EditEventSchema, MarkEventSchema])).max(MAX_TIMELINE_EVENTS),
+    truncated: z.boolean().optional(),
+  })
+  .refine((tl) => tl.events.every((e) => e[1] !== 'e' || e[2] < tl.files.length), {
+    message: 'Edit event refers to an unknown file',
+  })
+  .refine(
+    (tl) =>
+      tl.events.reduce((n, e) => n + (e[1] === 'e' ? e[5].length : 0), 0) <= MAX_TIMELINE_TEXT,
+    { message: 'Timeline text exceeds the size cap' },
+  );
+
+export function isEditEvent(e: TimelineEvent): e is EditEvent {
+  return e[1] === 'e';
+}
+
+export function timelineDuration(tl: EditTimeline): number {
+  return tl.events.length > 0 ? tl.events[tl.events.length - 1][0] : 0;
+}
+
+/**
+ * Trim trailing events until the serialized timeline fits in `maxBytes`
+ * (marking it truncated). Returns the timeline unchanged when it already fits.
+ */
+export function capTimelineSize<T extends EditTimeline>(
+  tl: T,
+  maxBytes: number = MAX_STORED_TIMELINE_BYTES,
+): T {
+  if (JSON.stringify(tl).length <= maxBytes) return tl;
+  let size = JSON.stringify({ ...tl, events: [], truncated: true }).length;
+  let keep = 0;
+  for (const e of tl.events) {
+    size += JSON.stringify(e).length + 1; // + separating comma
+    if (size > maxBytes) break;
+    keep += 1;
+  }
+  return { ...tl, events: tl.events.slice(0, keep), truncated: true };
+}
+
+/**
+ * The recording that continues after `submitted` was sent: `current` (which
+ * starts with the submitted events) minus those events, starting from the
+ * file contents they produced, with times shifted to start at the submit.
+ */
+export function rebaseTimeline(current: EditTimeline, submitted: EditTimeline): EditTimeline {
+  const covered = submitted.events.length;
+  const contents = createReplayer(submitted).at(covered);
+  const offset = timelineDuration(submitted);
+  return {
+    v: EDIT_TIMELINE_VERSION,
+    files: current.files.map((f, i) => ({ path: f.path, content: contents[i] ?? f.content })),
+    events: current.events.slice(covered).map((e) => {
+      const shifted = [...e] as typeof e;
+      shifted[0] = Math.max(0, e[0] - offset);
+      return shifted;
+    }),
+  };
+}
+
+/**
+ * Append one change, merging it into the previous event when it continues a
+ * typing burst (insert right after the last insert) or a run of backspaces.
+ * Mutates and returns `events`.
+ */
+export function appendChange(
+  events: TimelineEvent[],
+  t: number,
+  file: number,
+  change: TextChange,
+): TimelineEvent[] {
+  const prev = events[events.length - 1];
+  if (prev && isEditEvent(prev) && prev[2] === file && t - prev[0] < COALESCE_MS) {
+    const [, , , pOffset, pDeleted, pText] = prev;
+    // Typing: a pure insert continuing right where the previous one ended.
+    if (
+      change.deleted === 0 &&
+      change.text.length > 0 &&
+      change.text.length < PASTE_MIN_CHARS &&
+      pText.length > 0 &&
+      change.offset === pOffset + pText.length
+    ) {
+      prev[0] = t;
+      prev[5] = pText + change.text;
+      return events;
+    }
+    // Backspacing: a pure delete ending where the previous pure delete began.
+    if (
+      change.text === '' &&
+      pText === '' &&
+      change.deleted > 0 &&
+      change.offset + change.deleted === pOffset
+    ) {
+      prev[0] = t;
+      prev[3] = change.offset;
+      prev[4] = pDeleted + change.deleted;
+      return events;
+    }
+  }
+  events.push([t, 'e', file, change.offset, change.deleted, change.text]);
+  return events;
+}
+
+function applyEdit(content: string, e: EditEvent): string {
+  const [, , , offset, deleted, text] = e;
+  return content.slice(0, offset) + text + content.slice(offset + deleted);
+}
+
+/** Checkpoint spacing for replay; scrubbing replays at most this many events. */
+const CHECKPOINT_EVERY = 250;
+
+export interface TimelineReplayer {
+  /** Number of events; positions run 0..length (0 = starter code). */
+  length: number;
+  /** File contents after the first `position` events. */
+  at(position: number): string[];
+}
+
+/** Replay helper with periodic checkpoints so scrubbing stays cheap. */
+export function createReplayer(tl: EditTimeline): TimelineReplayer {
+  const checkpoints: string[][] = [tl.files.map((f) => f.content)];
+  let state = checkpoints[0].slice();
+  tl.events.forEach((e, i) => {
+    if (isEditEvent(e) && e[2] < state.length) state[e[2]] = applyEdit(state[e[2]], e);
+    if ((i + 1) % CHECKPOINT_EVERY === 0) {
+      checkpoints.push(state);
+      state = state.slice();
+    }
+  });
+  return {
+    length: tl.events.length,
+    at(position: number): string[] {
+      const pos = Math.max(0, Math.min(position, tl.events.length));
+      const base = Math.floor(pos / CHECKPOINT_EVERY);
+      const contents = checkpoints[base].slice();
+      for (let i = base * CHECKPOINT_EVERY; i < pos; i++) {
+        const e = tl.events[i];
+        if (isEditEvent(e) && e[2] < contents.length) contents[e[2]] = applyEdit(contents[e[2]], e);
+      }
+      return contents;
+    },
+  };
+}
+
+export type TimelineMarkerKind = 'paste' | 'run' | 'submit' | 'pause';
+
+export interface TimelineMarker {
+  kind: TimelineMarkerKind;
+  /** Event position the marker belongs to (scrubber index after the event) */
+  position: number;
+  t: number;
+  /** paste: characters inserted; pause: idle milliseconds before the event */
+  size?: number;
+}
+
+export interface TimelineSummary {
+  durationMs: number;
+  edits: number;
+  pastes: number;
+  pastedChars: number;
+  runs: number;
+  submits: number;
+  longestPauseMs: number;
+  markers: TimelineMarker[];
+}
+
+/** Pastes, runs, submits and long pauses — the points a trainer jumps to. */
+export function summarizeTimeline(tl: EditTimeline): TimelineSummary {
+  const markers: TimelineMarker[] = [];
+  let edits = 0;
+  let pastes = 0;
+  let pastedChars = 0;
+  let runs = 0;
+  let submits = 0;
+  let longestPauseMs = 0;
+  let lastT = 0;
+  tl.events.forEach((e, i) => {
+    const position = i + 1;
+    const gap = e[0] - lastT;
+    if (gap >= PAUSE_MIN_MS) {
+      markers.push({ kind: 'pause', position: i, t: lastT, size: gap });
+    }
+    longestPauseMs = Math.max(longestPauseMs, gap);
+    lastT = e[0];
+    if (isEditEvent(e)) {
+      edits += 1;
+      if (e[5].length >= PASTE_MIN_CHARS) {
+        pastes += 1;
+        pastedChars += e[5].length;
+        markers.push({ kind: 'paste', position, t: e[0], size: e[5].length });
+      }
+    } else {
+      if (e[1] === 'run') runs += 1;
+      else submits += 1;
+      markers.push({ kind: e[1], position, t: e[0] });
+    }
+  });
+  return {
+    durationMs: timelineDuration(tl),
+    edits,
+    pastes,
+    pastedChars,
+    runs,
+    submits,
+    longestPauseMs,
+    markers,
+  };
+}
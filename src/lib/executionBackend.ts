@@ -0,0 +1,80 @@
+/**
+ * executionBackend.ts — the single route from app code to a code runner.
+ *
+ * Two implementations of one contract:
+ *   - judge0 (default): judge0Client.ts → the Judge0 VM (iac/gce-judge0)
+ *   - local:            localSandboxRunner.ts → resource-limited child
+ *                       processes on this machine (python / javascript / sql)
+ *
+ * Selected by CODE_EXECUTION_BACKEND ('judge0' | 'local'). Postgres-dialect
+ * SQL is the exception: it always runs on postgresSandboxRunner.ts (Judge0
+ * has no Postgres), routed by `opts.sqlDialect` and its `pg-` token prefix. The contract is
+ * Judge0's own: async submit → token, poll getSubmission until status.id >= 3,
+ * results in the Judge0Submission shape, so judge0Verdict.ts and
+ * codingAttemptPoll.ts work unchanged whichever backend ran the code.
+ *
+ * Consumers (submit / run routes, codingAttemptPoll, /api/health) import from
+ * here — never judge0Client.ts or the local runner directly.
+ */
+
+import * as judge0 from './judge0Client';
+import type { Judge0Language, Judge0Submission, Judge0SystemInfo, SubmitOptions } from './judge0Client';
+import { Judge0ConfigError } from './judge0Errors';
+import { localSandboxBackend } from './localSandboxRunner';
+import { POSTGRES_TOKEN_PREFIX, postgresSandboxBackend } from './postgresSandboxRunner';
+
+export type ExecutionBackendName = 'judge0' | 'local';
+
+export interface ExecutionBackend {
+  readonly name: ExecutionBackendName;
+  /** Languages this backend can execute; a subset of the Judge0 allowlist */
+  readonly languages: readonly Judge0Language[];
+  submit(opts: SubmitOptions): Promise<{ token: string }>;
+  getSubmission(token: string): Promise<Judge0Submission>;
+  systemInfo(timeoutMs?: number): Promise<Judge0SystemInfo>;
+}
+
+export const judge0Backend: ExecutionBackend = {
+  name: 'judge0',
+  // Getter: read lazily so tests that mock judge0Client partially still load.
+  get languages() {
+    return Object.keys(judge0.JUDGE0_LANGUAGE_MAP) as Judge0Language[];
+  },
+  submit: (opts) => judge0.submit(opts),
+  getSubmission: (token) => judge0.getSubmission(token),
+  systemInfo: (timeoutMs) => judge0.systemInfo(timeoutMs),
+};
+
+export function executionBackendName(): ExecutionBackendName {
+  return process.env.CODE_EXECUTION_BACKEND === 'local' ? 'local' : 'judge0';
+}
+
+/**
+ * Resolve the configured backend. The local runner is a development and CI
+ * tool, not an isolation boundary, so it refuses to run in production.
+ */
+export function getExecutionBackend(): ExecutionBackend {
+  if (executionBackendName() !== 'local') return judge0Backend;
+  if (process.env.NODE_ENV === 'production') {
+    throw new Judge0ConfigError('CODE_EXECUTION_BACKEND=local is not allowed in production');
+  }
+  return localSandboxBackend;
+}
+
+export function submit(opts: SubmitOptions): Promise<{ token: string }> {
+  if (opts.language === 'sql' && opts.sqlDialect === 'postgres') {
+    return postgresSandboxBackend.submit(opts);
+  }
+  return getExecutionBackend().submit(opts);
+}
+
+export function getSubmission(token: string): Promise<Judge0Submission> {
+  if (token.startsWith(POSTGRES_TOKEN_PREFIX)) {
+    return postgresSandboxBackend.getSubmission(token);
+  }
+  return getExecutionBackend().getSubmission(token);
+}
+
+export function systemInfo(timeoutMs?: number): Promise<Judge0SystemInfo> {
+  return getExecutionBackend().systemInfo(timeoutMs);
+}
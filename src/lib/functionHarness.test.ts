@@ -0,0 +1,160 @@
+/**
+ * functionHarness.test.ts — wrapper generation + tolerance compare for
+ * function challenges. Python / JavaScript wrappers run for real through the
+ * local sandbox backend (python cases skip when python3 is missing); Java and
+ * C# are checked structurally since their toolchains are not in CI.
+ */
+
+import { execFileSync } from 'node:child_process';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+vi.mock('@/lib/prisma', () => ({ prisma: {} }));
+
+import { getSubmission, submit } from './executionBackend';
+import type { EntryPoint } from './coding-bank-schemas';
+import type { Judge0Submission } from './judge0Client';
+import {
+  RESULT_MARKER,
+  UnsupportedHarnessLanguageError,
+  buildFunctionSource,
+  functionOutputMatches,
+  readEntryPoint,
+  splitHarnessOutput,
+} from './functionHarness';
+
+const twoSum: EntryPoint = {
+  name: 'twoSum',
+  params: [
+    { name: 'nums', type: 'int[]' },
+    { name: 'target', type: 'int' },
+  ],
+  returns: 'int[]',
+};
+
+function hasBinary(bin: string): boolean {
+  try {
+    execFileSync(bin, ['--version'], { stdio: 'ignore' });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function runLocal(
+  language: 'python' | 'javascript',
+  sourceCode: string,
+  stdin: string,
+): Promise<Judge0Submission> {
+  const { token } = await submit({ sourceCode, language, stdin });
+  for (let i = 0; i < 200; i++) {
+    const sub = await getSubmission(token);
+    if (sub.status.id >= 3) return sub;
+    await new Promise((r) => setTimeout(r, 25));
+  }
+  throw new Error(`token ${token} never resolved`);
+}
+
+describe('functionOutputMatches', () => {
+  const out = (json: string, log = '') => `${log}\n${RESULT_MARKER}${json}\n`;
+
+  it('compares the value after the last marker, ignoring debug prints', () => {
+    expect(functionOutputMatches(out('[0, 1]', 'dbg [9]'), '[0,1]')).toBe(true);
+    expect(functionOutputMatches(out('[1,0]'), '[0,1]')).toBe(false);
+  });
+
+  it('applies float tolerance (default 1e-9, configurable)', () => {
+    expect(functionOutputMatches(out('0.30000000000000004'), '0.3')).toBe(true);
+    expect(functionOutputMatches(out('0.3001'), '0.3')).toBe(false);
+    expect(functionOutputMatches(out('0.3001'), '0.3', { floatTolerance: 1e-3 })).toBe(true);
+  });
+
+  it('matches unordered collections as multisets at every depth', () => {
+    const opts = { unorderedCollections: true };
+    expect(functionOutputMatches(out('[[2,1],[3]]'), '[[3],[1,2]]', opts)).toBe(true);
+    expect(functionOutputMatches(out('[1,1,2]'), '[1,2,2]', opts)).toBe(false);
+    expect(functionOutputMatches(out('[[2,1],[3]]'), '[[3],[1,2]]')).toBe(false);
+  });
+
+  it('never matches when the harness printed nothing or invalid JSON', () => {
+    expect(functionOutputMatches('just prints', '1')).toBe(false);
+    expect(functionOutputMatches(null, '1')).toBe(false);
+    expect(functionOutputMatches(out('{oops'), '1')).toBe(false);
+  });
+
+  it('splitHarnessOutput strips the marker line from the log', () => {
+    expect(splitHarnessOutput(out('42', 'hello'))).toEqual({ log: 'hello', resultJson: '42' });
+    expect(splitHarnessOutput('no marker')).toEqual({ log: 'no marker', resultJson: null });
+  });
+});
+
+describe('readEntryPoint', () => {
+  it('returns null for stdin/stdout challenges and throws on a corrupt row', () => {
+    expect(readEntryPoint(null)).toBeNull();
+    expect(readEntryPoint(twoSum)).toEqual(twoSum);
+    expect(() => readEntryPoint({ name: 'x; rm -rf /', params: [], returns: 'int' })).toThrow();
+  });
+});
+
+describe('buildFunctionSource', () => {
+  it('appends a Java Main that converts typed args and calls Solution', () => {
+    const src = buildFunctionSource('java', twoSum, 'class Solution { int[] twoSum(int[] n, int t) { return n; } }');
+    expect(src.startsWith('class Solution')).toBe(true);
+    expect(src).toContain('public class Main {');
+    expect(src).toContain(
+      'new Solution().twoSum((int[]) NlmHarness.conv(nlmArgs.get(0), "int[]"), (Integer) NlmHarness.conv(nlmArgs.get(1), "int"))',
+    );
+    // Harness must not add imports after the associate's code.
+    expect(src).not.toMatch(/^import /m);
+  });
+
+  it('appends a C# entry point honouring a custom class name', () => {
+    const src = buildFunctionSource('csharp', { ...twoSum, className: 'Kata' }, 'public class Kata {}');
+    expect(src).toContain('public static void Main()');
+    expect(src).toContain('new Kata().twoSum((int[]) NlmHarness.Conv(nlmArgs[0], "int[]"), (int) NlmHarness.Conv(nlmArgs[1], "int"))');
+    expect(src).not.toMatch(/^using /m);
+  });
+
+  it('rejects languages without a harness', () => {
+    expect(() => buildFunctionSource('sql', twoSum, 'SELECT 1;')).toThrow(UnsupportedHarnessLanguageError);
+  });
+});
+
+describe('generated wrappers under the local sandbox', () => {
+  beforeEach(() => {
+    vi.stubEnv('CODING_CHALLENGES_ENABLED', 'true');
+    vi.stubEnv('CODE_EXECUTION_BACKEND', 'local');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('javascript: calls the function with decoded args, awaiting async results', async () => {
+    const code = [
+      'async function twoSum(nums, target) {',
+      '  console.log("debug", nums.length);',
+      '  for (let i = 0; i < nums.length; i++)',
+      '    for (let j = i + 1; j < nums.length; j++)',
+      '      if (nums[i] + nums[j] === target) return [i, j];',
+      '}',
+    ].join('\n');
+    const sub = await runLocal('javascript', buildFunctionSource('javascript', twoSum, code), '[[2,7,11,15],9]');
+    expect(sub.status.id).toBe(3);
+    expect(splitHarnessOutput(sub.stdout).log).toBe('debug 4\n');
+    expect(functionOutputMatches(sub.stdout, '[0,1]')).toBe(true);
+  });
+
+  it.skipIf(!hasBinary('python3'))('python: free function and class-based entry points', async () => {
+    const fn = 'def twoSum(nums, target):\n    return sorted([nums.index(target - nums[-1]), len(nums) - 1])\n';
+    const sub = await runLocal('python', buildFunctionSource('python', twoSum, fn), '[[3,2,4],6]');
+    expect(functionOutputMatches(sub.stdout, '[1,2]')).toBe(true);
+
+    const cls = 'class Solution:\n    def twoSum(self, nums, target):\n        return [1, 0]\n';
+    const sub2 = await runLocal(
+      'python',
+      buildFunctionSource('python', { ...twoSum, className: 'Solution' }, cls),
+      '[[3,3],6]',
+    );
+    expect(functionOutputMatches(sub2.stdout, '[0,1]', { unorderedCollections: true })).toBe(true);
+  });
+});
@@ -0,0 +1,518 @@
+/**
+ * functionHarness.ts
+ *
+ * Wrappers for "function" challenges (meta.type === 'function'). The associate
+ * implements a declared entry point; the platform appends a per-language
+ * harness that reads the JSON argument array from stdin, calls the function
+ * and prints the JSON result on a marker line:
+ *
+ *   <anything the associate printed>
+ *   __NLM_RESULT__<json>
+ *
+ * The marker keeps debug prints from corrupting the result. Judge0's built-in
+ * stdout compare cannot apply float tolerance or unordered collections, so
+ * function cases are submitted without expected_output and compared
+ * server-side by `functionOutputMatches` (same split as the SQL normalizer).
+ *
+ * Java and C# have no JSON in the standard library the sandbox guarantees, so
+ * their harness carries a small parser/serializer. Harness code is appended
+ * after the user's source, so it uses fully-qualified names — imports/usings
+ * are only legal at the top of the file, which belongs to the associate.
+ */
+
+import type { Judge0Language } from '@/lib/judge0Client';
+import {
+  EntryPointSchema,
+  type EntryPoint,
+  type FunctionValueType,
+} from '@/lib/coding-bank-schemas';
+
+export const RESULT_MARKER = '__NLM_RESULT__';
+
+/** Default numeric tolerance — matches sqlResultNormalizer's epsilon */
+export const DEFAULT_FLOAT_TOLERANCE = 1e-9;
+
+const DEFAULT_CLASS_NAME = 'Solution';
+
+export class UnsupportedHarnessLanguageError extends Error {
+  constructor(language: string) {
+    super(`Function challenges are not supported for '${language}'`);
+    this.name = 'UnsupportedHarnessLanguageError';
+  }
+}
+
+/**
+ * CodingChallenge.entryPoint → EntryPoint. Null means a stdin/stdout
+ * challenge. Rows are written from validated meta.json, so a parse failure is
+ * a corrupt row and throws rather than silently grading as stdio.
+ */
+export function readEntryPoint(stored: unknown): EntryPoint | null {
+  if (stored === null || stored === undefined) return null;
+  return EntryPointSchema.parse(stored);
+}
+
+// ---------------------------------------------------------------------------
+// Source generation
+// ---------------------------------------------------------------------------
+
+function pythonHarness(ep: EntryPoint): string {
+  const target = ep.className ? `${ep.className}().${ep.name}` : ep.name;
+  return [
+    '',
+    '',
+    '# --- function harness (generated) ---',
+    'import json as _nlm_json, sys as _nlm_sys',
+    '_nlm_args = _nlm_json.loads(_nlm_sys.stdin.read())',
+    `_nlm_result = ${target}(*_nlm_args)`,
+    `_nlm_sys.stdout.write("\\n${RESULT_MARKER}" + _nlm_json.dumps(_nlm_result) + "\\n")`,
+    '',
+  ].join('\n');
+}
+
+// One body for JS and TS: reads stdin through process events so it needs no
+// `require` (undeclared in a TS sandbox without @types/node).
+function scriptHarness(ep: EntryPoint, typescript: boolean): string {
+  const g = typescript ? '(globalThis as any)' : 'globalThis';
+  const target = ep.className ? `new ${ep.className}().${ep.name}` : ep.name;
+  const chunkType = typescript ? ': string' : '';
+  const resultType = typescript ? ': unknown' : '';
+  // Indexed args rather than a spread: TS rejects spreading `any` into a
+  // fixed-arity signature.
+  const args = ep.params.map((_, i) => `nlmArgs[${i}]`).join(', ');
+  return [
+    '',
+    '',
+    '// --- function harness (generated) ---',
+    ';(() => {',
+    `  const nlmProcess = ${g}.process;`,
+    "  let nlmInput = '';",
+    "  nlmProcess.stdin.setEncoding('utf8');",
+    `  nlmProcess.stdin.on('data', (chunk${chunkType}) => { nlmInput += chunk; });`,
+    "  nlmProcess.stdin.on('end', () => {",
+    '    const nlmArgs = JSON.parse(nlmInput);',
+    `    Promise.resolve(${target}(${args})).then((nlmResult${resultType}) => {`,
+    `      nlmProcess.stdout.write('\\n${RESULT_MARKER}' + JSON.stringify(nlmResult === undefined ? null : nlmResult) + '\\n');`,
+    '    });',
+    '  });',
+    '})();',
+    '',
+  ].join('\n');
+}
+
+const JAVA_SCALARS: Record<string, { type: string; boxed: string }> = {
+  int: { type: 'int', boxed: 'Integer' },
+  float: { type: 'double', boxed: 'Double' },
+  string: { type: 'String', boxed: 'String' },
+  bool: { type: 'boolean', boxed: 'Boolean' },
+};
+
+function javaCast(t: FunctionValueType): string {
+  const base = t.replace(/\[\]/g, '');
+  const dims = t.slice(base.length);
+  return dims ? JAVA_SCALARS[base].type + dims : JAVA_SCALARS[base].boxed;
+}
+
+const JAVA_SUPPORT = `
+final class NlmJson {
+  private final String s;
+  private int i = 0;
+  NlmJson(String s) { this.s = s; }
+  private void ws() { while (i < s.length() && Character.isWhitespace(s.charAt(i))) i++; }
+  Object value() {
+    ws();
+    char c = s.charAt(i);
+    if (c == '[') {
+      i++;
+      java.util.List<Object> list = new java.util.ArrayList<>();
+      ws();
+      if (s.charAt(i) == ']') { i++; return list; }
+      while (true) {
+        list.add(value());
+        ws();
+        if (s.charAt(i++) == ']') return list;
+      }
+    }
+    if (c == '"') {
+      StringBuilder b = new StringBuilder();
+      i++;
+      while (s.charAt(i) != '"') {
+        char ch = s.charAt(i++);
+        if (ch != '\\\\') { b.append(ch); continue; }
+        char e = s.charAt(i++);
+        switch (e) {
+          case 'n': b.append('\\n'); break;
+          case 't': b.append('\\t'); break;
+          case 'r': b.append('\\r'); break;
+          case 'b': b.append('\\b'); break;
+          case 'f': b.append('\\f'); break;
+          case 'u': b.append((char) Integer.parseInt(s.substring(i, i + 4), 16)); i += 4; break;
+          default: b.append(e);
+        }
+      }
+      i++;
+      return b.toString();
+    }
+    if (s.startsWith("true", i)) { i += 4; return Boolean.TRUE; }
+    if (s.startsWith("false", i)) { i += 5; return Boolean.FALSE; }
+    if (s.startsWith("null", i)) { i += 4; return null; }
+    int start = i;
+    while (i < s.length() && "+-0123456789.eE".indexOf(s.charAt(i)) >= 0) i++;
+    String n = s.substring(start, i);
+    if (n.indexOf('.') >= 0 || n.indexOf('e') >= 0 || n.indexOf('E') >= 0) return Double.parseDouble(n);
+    return Long.parseLong(n);
+  }
+}
+
+final class NlmHarness {
+  static Class<?> cls(String t) {
+    if (t.endsWith("[]")) return java.lang.reflect.Array.newInstance(cls(t.substring(0, t.length() - 2)), 0).getClass();
+    switch (t) {
+      case "int": return int.class;
+      case "float": return double.class;
+      case "bool": return boolean.class;
+      default: return String.class;
+    }
+  }
+  static Object conv(Object o, String t) {
+    if (t.endsWith("[]")) {
+      String inner = t.substring(0, t.length() - 2);
+      java.util.List<?> list = (java.util.List<?>) o;
+      Object arr = java.lang.reflect.Array.newInstance(cls(inner), list.size());
+      for (int k = 0; k < list.size(); k++) java.lang.reflect.Array.set(arr, k, conv(list.get(k), inner));
+      return arr;
+    }
+    switch (t) {
+      case "int": return ((Number) o).intValue();
+      case "float": return ((Number) o).doubleValue();
+      case "bool": return (Boolean) o;
+      default: return (String) o;
+    }
+  }
+  static String quote(String v) {
+    StringBuilder b = new StringBuilder("\\"");
+    for (int k = 0; k < v.length(); k++) {
+      char c = v.charAt(k);
+      if (c == '"' || c == '\\\\') b.append('\\\\').append(c);
+      else if (c < 0x20) b.append(String.format("\\\\u%04x", (int) c));
+      else b.append(c);
+    }
+    return b.append('"').toString();
+  }
+  static String json(Object o) {
+    if (o == null) return "null";
+    if (o instanceof String || o instanceof Character) return quote(o.toString());
+    if (o instanceof Boolean || o instanceof Integer || o instanceof Long || o instanceof Short || o instanceof Byte) return o.toString();
+    if (o instanceof Number) {
+      double d = ((Number) o).doubleValue();
+      return Double.isNaN(d) || Double.isInfinite(d) ? "null" : Double.toString(d);
+    }
+    StringBuilder b = new StringBuilder("[");
+    if (o.getClass().isArray()) {
+      for (int k = 0; k < java.lang.reflect.Array.getLength(o); k++) {
+        if (k > 0) b.append(',');
+        b.append(json(java.lang.reflect.Array.get(o, k)));
+      }
+    } else {
+      int k = 0;
+      for (Object item : (Iterable<?>) o) {
+        if (k++ > 0) b.append(',');
+        b.append(json(item));
+      }
+    }
+    return b.append(']').toString();
+  }
+}
+`;
+
+function javaHarness(ep: EntryPoint): string {
+  const className = ep.className ?? DEFAULT_CLASS_NAME;
+  const args = ep.params
+    .map((p, i) => `(${javaCast(p.type)}) NlmHarness.conv(nlmArgs.get(${i}), "${p.type}")`)
+    .join(', ');
+  return [
+    '',
+    '',
+    '// --- function harness (generated) ---',
+    'public class Main {',
+    '  public static void main(String[] argv) throws Exception {',
+    '    String nlmInput = new String(System.in.readAllBytes(), java.nio.charset.StandardCharsets.UTF_8);',
+    '    java.util.List<?> nlmArgs = (java.util.List<?>) new NlmJson(nlmInput).value();',
+    `    Object nlmResult = new ${className}().${ep.name}(${args});`,
+    `    System.out.print("\\n${RESULT_MARKER}" + NlmHarness.json(nlmResult) + "\\n");`,
+    '    System.out.flush();',
+    '  }',
+    '}',
+    JAVA_SUPPORT,
+  ].join('\n');
+}
+
+const CSHARP_SCALARS: Record<string, string> = {
+  int: 'int',
+  float: 'double',
+  string: 'string',
+  bool: 'bool',
+};
+
+function csharpCast(t: FunctionValueType): string {
+  const base = t.replace(/\[\]/g, '');
+  return CSHARP_SCALARS[base] + t.slice(base.length);
+}
+
+const CSHARP_SUPPORT = `
+internal sealed class NlmJson
+{
+    private readonly string s;
+    private int i;
+    public NlmJson(string s) { this.s = s; }
+    private void Ws() { while (i < s.Length && char.IsWhiteSpace(s[i])) i++; }
+    public object Value()
+    {
+        Ws();
+        char c = s[i];
+        if (c == '[')
+        {
+            i++;
+            var list = new System.Collections.Generic.List<object>();
+            Ws();
+            if (s[i] == ']') { i++; return list; }
+            while (true)
+            {
+                list.Add(Value());
+                Ws();
+                if (s[i++] == ']') return list;
+            }
+        }
+        if (c == '"')
+        {
+            var b = new System.Text.StringBuilder();
+            i++;
+            while (s[i] != '"')
+            {
+                char ch = s[i++];
+                if (ch != '\\\\') { b.Append(ch); continue; }
+                char e = s[i++];
+                switch (e)
+                {
+                    case 'n': b.Append('\\n'); break;
+                    case 't': b.Append('\\t'); break;
+                    case 'r': b.Append('\\r'); break;
+                    case 'b': b.Append('\\b'); break;
+                    case 'f': b.Append('\\f'); break;
+                    case 'u': b.Append((char) System.Convert.ToInt32(s.Substring(i, 4), 16)); i += 4; break;
+                    default: b.Append(e); break;
+                }
+            }
+            i++;
+            return b.ToString();
+        }
+        if (string.CompareOrdinal(s, i, "true", 0, 4) == 0) { i += 4; return true; }
+        if (string.CompareOrdinal(s, i, "false", 0, 5) == 0) { i += 5; return false; }
+        if (string.CompareOrdinal(s, i, "null", 0, 4) == 0) { i += 4; return null; }
+        int start = i;
+        while (i < s.Length && "+-0123456789.eE".IndexOf(s[i]) >= 0) i++;
+        string n = s.Substring(start, i - start);
+        if (n.IndexOfAny(new[] { '.', 'e', 'E' }) >= 0)
+            return double.Parse(n, System.Globalization.CultureInfo.InvariantCulture);
+        return long.Parse(n, System.Globalization.CultureInfo.InvariantCulture);
+    }
+}
+
+internal static class NlmHarness
+{
+    private static System.Type Cls(string t)
+    {
+        if (t.EndsWith("[]")) return Cls(t.Substring(0, t.Length - 2)).MakeArrayType();
+        switch (t)
+        {
+            case "int": return typeof(int);
+            case "float": return typeof(double);
+            case "bool": return typeof(bool);
+            default: return typeof(string);
+        }
+    }
+    public static object Conv(object o, string t)
+    {
+        if (t.EndsWith("[]"))
+        {
+            string inner = t.Substring(0, t.Length - 2);
+            var list = (System.Collections.Generic.List<object>) o;
+            var arr = System.Array.CreateInstance(Cls(inner), list.Count);
+            for (int k = 0; k < list.Count; k++) arr.SetValue(Conv(list[k], inner), k);
+            return arr;
+        }
+        switch (t)
+        {
+            case "int": return System.Convert.ToInt32(o, System.Globalization.CultureInfo.InvariantCulture);
+            case "float": return System.Convert.ToDouble(o, System.Globalization.CultureInfo.InvariantCulture);
+            case "bool": return (bool) o;
+            default: return (string) o;
+        }
+    }
+    private static string Quote(string v)
+    {
+        var b = new System.Text.StringBuilder("\\"");
+        foreach (char c in v)
+        {
+            if (c == '"' || c == '\\\\') b.Append('\\\\').Append(c);
+            else if (c < 0x20) b.Append("\\\\u").Append(((int) c).ToString("x4"));
+            else b.Append(c);
+        }
+        return b.Append('"').ToString();
+    }
+    public static string Json(object o)
+    {
+        if (o == null) return "null";
+        if (o is string || o is char) return Quote(o.ToString());
+        if (o is bool) return (bool) o ? "true" : "false";
+        if (o is int || o is long || o is short || o is byte) return System.Convert.ToString(o, System.Globalization.CultureInfo.InvariantCulture);
+        if (o is double || o is float || o is decimal)
+        {
+            double d = System.Convert.ToDouble(o, System.Globalization.CultureInfo.InvariantCulture);
+            return double.IsNaN(d) || double.IsInfinity(d) ? "null" : d.ToString("R", System.Globalization.CultureInfo.InvariantCulture);
+        }
+        var b = new System.Text.StringBuilder("[");
+        int k = 0;
+        foreach (object item in (System.Collections.IEnumerable) o)
+        {
+            if (k++ > 0) b.Append(',');
+            b.Append(Json(item));
+        }
+        return b.Append(']').ToString();
+    }
+}
+`;
+
+function csharpHarness(ep: EntryPoint): string {
+  const className = ep.className ?? DEFAULT_CLASS_NAME;
+  const args = ep.params
+    .map((p, i) => `(${csharpCast(p.type)}) NlmHarness.Conv(nlmArgs[${i}], "${p.type}")`)
+    .join(', ');
+  return [
+    '',
+    '',
+    '// --- function harness (generated) ---',
+    'public static class NlmHarnessMain',
+    '{',
+    '    public static void Main()',
+    '    {',
+    '        string nlmInput = System.Console.In.ReadToEnd();',
+    '        var nlmArgs = (System.Collections.Generic.List<object>) new NlmJson(nlmInput).Value();',
+    `        object nlmResult = new ${className}().${ep.name}(${args});`,
+    `        System.Console.Out.Write("\\n${RESULT_MARKER}" + NlmHarness.Json(nlmResult) + "\\n");`,
+    '    }',
+    '}',
+    CSHARP_SUPPORT,
+  ].join('\n');
+}
+
+/**
+ * Append the harness for `language` to the associate's source. Throws
+ * UnsupportedHarnessLanguageError for languages without a harness (sql) —
+ * the bank validator already rejects those for function challenges.
+ */
+export function buildFunctionSource(
+  language: Judge0Language,
+  entryPoint: EntryPoint,
+  userCode: string,
+): string {
+  switch (language) {
+    case 'python':
+      return userCode + pythonHarness(entryPoint);
+    case 'javascript':
+      return userCode + scriptHarness(entryPoint, false);
+    case 'typescript':
+      return userCode + scriptHarness(entryPoint, true);
+    case 'java':
+      return userCode + javaHarness(entryPoint);
+    case 'csharp':
+      return userCode + csharpHarness(entryPoint);
+    default:
+      throw new UnsupportedHarnessLanguageError(language);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Result comparison
+// ---------------------------------------------------------------------------
+
+export interface HarnessOutput {
+  /** Everything the associate printed, marker line removed */
+  log: string;
+  /** Raw JSON text after the last marker; null when the harness never printed */
+  resultJson: string | null;
+}
+
+export function splitHarnessOutput(stdout: string | null): HarnessOutput {
+  const text = stdout ?? '';
+  const at = text.lastIndexOf(RESULT_MARKER);
+  if (at === -1) return { log: text, resultJson: null };
+  const lineEnd = text.indexOf('\n', at);
+  const resultJson = text.slice(at + RESULT_MARKER.length, lineEnd === -1 ? undefined : lineEnd).trim();
+  // Drop the newline the harness writes before the marker.
+  const before = text.slice(0, at).replace(/\n$/, '');
+  const log = before + (lineEnd === -1 ? '' : text.slice(lineEnd + 1));
+  return { log, resultJson };
+}
+
+type CompareOptions = NonNullable<EntryPoint['compare']>;
+
+function valuesMatch(actual: unknown, expected: unknown, opts: Required<CompareOptions>): boolean {
+  if (typeof actual === 'number' && typeof expected === 'number') {
+    return Math.abs(actual - expected) <= opts.floatTolerance;
+  }
+  if (Array.isArray(actual) && Array.isArray(expected)) {
+    if (actual.length !== expected.length) return false;
+    if (!opts.unorderedCollections) {
+      return expected.every((e, i) => valuesMatch(actual[i], e, opts));
+    }
+    // Multiset match: each expected element claims the first unused actual
+    // element it matches.
+    const unused = actual.slice();
+    return expected.every((e) => {
+      const idx = unused.findIndex((a) => valuesMatch(a, e, opts));
+      if (idx === -1) return false;
+      unused.splice(idx, 1);
+      return true;
+    });
+  }
+  if (
+    actual !== null &&
+    expected !== null &&
+    typeof actual === 'object' &&
+    typeof expected === 'object' &&
+    !Array.isArray(actual) &&
+    !Array.isArray(expected)
+  ) {
+    const a = actual as Record<string, unknown>;
+    const e = expected as Record<string, unknown>;
+    const keys = Object.keys(e);
+    if (Object.keys(a).length !== keys.length) return false;
+    return keys.every((k) => k in a && valuesMatch(a[k], e[k], opts));
+  }
+  return actual === expected;
+}
+
+/**
+ * Did the harness print a return value equal to `expectedJson` under the
+ * challenge's compare options? Missing or unparseable output never matches.
+ */
+export function functionOutputMatches(
+  stdout: string | null,
+  expectedJson: string,
+  compare?: EntryPoint['compare'],
+): boolean {
+  const { resultJson } = splitHarnessOutput(stdout);
+  if (resultJson === null) return false;
+  let actual: unknown;
+  let expected: unknown;
+  try {
+    actual = JSON.parse(resultJson);
+    expected = JSON.parse(expectedJson);
+  } catch {
+    return false;
+  }
+  return valuesMatch(actual, expected, {
+    floatTolerance: compare?.floatTolerance ?? DEFAULT_FLOAT_TOLERANCE,
+    unorderedCollections: compare?.unorderedCollections ?? false,
+  });
+}
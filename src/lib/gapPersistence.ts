@@ -6,6 +6,7 @@
  */
 
 import { prisma } from '@/lib/prisma';
+import type { Prisma } from '@/generated/prisma';
 import { computeGapScores } from '@/lib/gapService';
 import type { InterviewSession, QuestionAssessment } from '@/lib/types';
 
@@ -57,6 +58,45 @@ export interface GapScoreResult {
 
 const REQUIRED_SESSIONS = 3;
 
+/** GapScore topic prefix for spaced-repetition practice outcomes. */
+export const PRACTICE_TOPIC_PREFIX = 'practice:';
+
+/** GapScore topic prefix for coding-attempt signals ("coding:<language>"). */
+export const CODING_TOPIC_PREFIX = 'coding:';
+
+/**
+ * Topic-level rows derived from interviews: excludes skill-level ("") rows
+ * and the practice:/coding: bookkeeping rows, which share the table but are
+ * not interview topics. Use for recommendations and adaptive selection.
+ */
+export const INTERVIEW_TOPIC_WHERE: Prisma.GapScoreWhereInput = {
+  topic: { not: '' },
+  NOT: [
+    { topic: { startsWith: PRACTICE_TOPIC_PREFIX } },
+    { topic: { startsWith: CODING_TOPIC_PREFIX } },
+  ],
+};
+
+/** Weight of prior practice outcomes vs. the newest — matches gapService's 0.8 decay. */
+const PRACTICE_DECAY = 0.8;
+
+/**
+ * Share of an interview topic row's weightedScore taken from the practice
+ * average on the same (skill, topic): stored = (1 − w) × interview + w × practice.
+ * Practice nudges the row that readiness, adaptive selection and the
+ * recommended area read; interviews stay the dominant signal.
+ */
+export const PRACTICE_BLEND_WEIGHT = 0.25;
+
+export function blendPracticeScore(interviewScore: number, practiceScore: number): number {
+  return (1 - PRACTICE_BLEND_WEIGHT) * interviewScore + PRACTICE_BLEND_WEIGHT * practiceScore;
+}
+
+/** Inverse of blendPracticeScore — recovers the interview score from a blended row. */
+function unblendPracticeScore(storedScore: number, practiceScore: number): number {
+  return (storedScore - PRACTICE_BLEND_WEIGHT * practiceScore) / (1 - PRACTICE_BLEND_WEIGHT);
+}
+
 /**
  * Compute and persist gap scores for an associate.
  *
@@ -64,7 +104,8 @@ const REQUIRED_SESSIONS = 3;
  * 2. Convert Prisma Session records to InterviewSession-compatible objects
  * 3. Call computeGapScores from gapService.ts
  * 4. Pre-fetch existing rows once (prior weightedScore lookup + cleanup ids)
- * 5. Upsert each result into the GapScore table (captures prevWeightedScore)
+ * 5. Upsert each result into the GapScore table (captures prevWeightedScore);
+ *    topic rows with a matching practice:<topic> row store the blended score
  * 6. Clean up stale GapScore records no longer in computed results
  */
 export async function saveGapScores(associateId: number): Promise<void> {
@@ -122,8 +163,12 @@ export async function saveGapScores(associateId: number): Promise<void> {
     });
 
     const priorByKey = new Map<string, number>();
+    const practiceByKey = new Map<string, number>();
     for (const row of existingScores) {
       priorByKey.set(`${row.skill}::${row.topic}`, row.weightedScore);
+      if (row.topic.startsWith(PRACTICE_TOPIC_PREFIX)) {
+        practiceByKey.set(`${row.skill}::${row.topic.slice(PRACTICE_TOPIC_PREFIX.length)}`, row.weightedScore);
+      }
     }
 
     // 5. Upsert each gap score — capture prior weightedScore into prevWeightedScore.
@@ -131,6 +176,9 @@ export async function saveGapScores(associateId: number): Promise<void> {
     for (const input of gapScores) {
       const key = `${input.skill}::${input.topic}`;
       const prior = priorByKey.has(key) ? priorByKey.get(key)! : null;
+      const practice = input.topic ? practiceByKey.get(key) : undefined;
+      const weightedScore =
+        practice === undefined ? input.weightedScore : blendPracticeScore(input.weightedScore, practice);
       await tx.gapScore.upsert({
         where: {
           associateId_skill_topic: {
@@ -140,7 +188,7 @@ export async function saveGapScores(associateId: number): Promise<void> {
           },
         },
         update: {
-          weightedScore: input.weightedScore,
+          weightedScore,
           prevWeightedScore: prior,
           sessionCount: input.sessionCount,
         },
@@ -148,7 +196,7 @@ export async function saveGapScores(associateId: number): Promise<void> {
           associateId,
           skill: input.skill,
           topic: input.topic,
-          weightedScore: input.weightedScore,
+          weightedScore,
           prevWeightedScore: null,
           sessionCount: input.sessionCount,
         },
@@ -156,7 +204,9 @@ export async function saveGapScores(associateId: number): Promise<void> {
     }
 
     // 6. Delete stale GapScore records not in current computation (reuses existingScores).
+    // Practice rows aren't derived from sessions, so they are never stale here.
     const staleIds = existingScores
+      .filter((s) => !s.topic.startsWith(PRACTICE_TOPIC_PREFIX))
       .filter((s) => !currentKeys.has(`${s.skill}::${s.topic}`))
       .map((s) => s.id);
 
@@ -255,7 +305,7 @@ export async function persistCodingSignalToGapScore(
   }
 
   const weightedScore = signal.mappedScore * multiplier * signal.weight;
-  const topic = `coding:${challenge.language}`;
+  const topic = `${CODING_TOPIC_PREFIX}${challenge.language}`;
   const skill = signal.skillSlug;
 
   // Transaction wraps findUnique + upsert so the prior value captured for
@@ -293,3 +343,81 @@ export async function persistCodingSignalToGapScore(
     });
   });
 }
+
+/**
+ * Persist one spaced-repetition review into the GapScore table.
+ *
+ * Keyed on (associateId, skill, topic="practice:<topic>") so practice never
+ * overwrites the interview-derived (skill, topic) row and saveGapScores leaves
+ * it alone. `grade` is on the interview score scale (1–5); the stored value is
+ * a running recency-weighted average — (grade + 0.8 × prior) / 1.8 — and
+ * `sessionCount` counts reviews. Same prior-read-inside-transaction shape as
+ * persistCodingSignalToGapScore.
+ *
+ * The interview row for the same (skill, topic), when one exists, is re-blended
+ * with the new practice average (blendPracticeScore) so the review moves the
+ * score consumers read straight away; saveGapScores re-applies the blend on
+ * every recompute. prevWeightedScore on that row is left alone — it tracks
+ * the previous session, not the previous review.
+ *
+ * Caller is fire-and-forget (practice review route wraps with `.catch(log)`).
+ */
+export async function persistPracticeOutcomeToGapScore(
+  associateId: number,
+  skill: string,
+  practiceTopic: string,
+  grade: number,
+): Promise<void> {
+  const topic = `${PRACTICE_TOPIC_PREFIX}${practiceTopic}`;
+
+  await prisma.$transaction(async (tx) => {
+    const existing = await tx.gapScore.findUnique({
+      where: {
+        associateId_skill_topic: { associateId, skill, topic },
+      },
+      select: { weightedScore: true, sessionCount: true },
+    });
+
+    const prior = existing?.weightedScore ?? null;
+    const weightedScore =
+      prior === null ? grade : (grade + PRACTICE_DECAY * prior) / (1 + PRACTICE_DECAY);
+
+    await tx.gapScore.upsert({
+      where: {
+        associateId_skill_topic: { associateId, skill, topic },
+      },
+      update: {
+        weightedScore,
+        prevWeightedScore: prior,
+        sessionCount: (existing?.sessionCount ?? 0) + 1,
+      },
+      create: {
+        associateId,
+        skill,
+        topic,
+        weightedScore,
+        prevWeightedScore: null,
+        sessionCount: 1,
+      },
+    });
+
+    // Interview rows are stored blended with the practice average as of their
+    // last write (or raw before the first review) — unblend with that value.
+    const interviewRow = await tx.gapScore.findUnique({
+      where: {
+        associateId_skill_topic: { associateId, skill, topic: practiceTopic },
+      },
+      select: { weightedScore: true },
+    });
+    if (interviewRow) {
+      const interviewScore =
+        prior === null ? interviewRow.weightedScore : unblendPracticeScore(interviewRow.weightedScore, prior);
+      await tx.gapScore.update({
+        where: {
+          associateId_skill_topic: { associateId, skill, topic: practiceTopic },
+        },
+        data: { weightedScore: blendPracticeScore(interviewScore, weightedScore) },
+      });
+    }
+  });
+}
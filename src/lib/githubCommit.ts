@@ -0,0 +1,123 @@
+/**
+ * githubCommit.ts
+ *
+ * Server-only write path to the challenge-bank repos for the trainer
+ * authoring wizard. Everything else in the bank is read-only
+ * (coding-challenge-service.ts); this module adds exactly two operations:
+ *
+ *   - readRepoFile — raw file content on the default branch, null on 404
+ *   - commitFiles  — one commit on the default branch adding/replacing a set
+ *                    of files, via the Git Data API (tree with base_tree →
+ *                    commit → fast-forward ref update)
+ *
+ * The ref update is NOT forced: if someone pushed in between, GitHub answers
+ * 422 and the caller sees a GitHubCommitError instead of a clobbered branch.
+ * Tokens need `contents: write` on their repo.
+ */
+
+import 'server-only';
+
+export interface RepoTarget {
+  /** owner/name */
+  repo: string;
+  token: string;
+}
+
+export interface CommitFile {
+  /** Repo-root relative path */
+  path: string;
+  content: string;
+}
+
+export interface CommitResult {
+  sha: string;
+  url: string;
+}
+
+export class GitHubCommitError extends Error {
+  public readonly status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'GitHubCommitError';
+    this.status = status;
+  }
+}
+
+async function github<T>(
+  target: RepoTarget,
+  path: string,
+  init: { method?: string; body?: unknown } = {},
+): Promise<T> {
+  const res = await fetch(`https://api.github.com/repos/${target.repo}${path}`, {
+    method: init.method ?? 'GET',
+    headers: {
+      Accept: 'application/vnd.github+json',
+      Authorization: `token ${target.token}`,
+      ...(init.body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+    },
+    ...(init.body !== undefined ? { body: JSON.stringify(init.body) } : {}),
+  });
+  if (!res.ok) {
+    throw new GitHubCommitError(
+      `GitHub ${init.method ?? 'GET'} ${path} failed: ${res.status} ${res.statusText}`,
+      res.status,
+    );
+  }
+  return (await res.json()) as T;
+}
+
+async function defaultBranch(target: RepoTarget): Promise<string> {
+  const repo = await github<{ default_branch: string }>(target, '');
+  return repo.default_branch;
+}
+
+/** Raw content of `path` on the default branch, or null when it does not exist. */
+export async function readRepoFile(target: RepoTarget, path: string): Promise<string | null> {
+  const res = await fetch(`https://api.github.com/repos/${target.repo}/contents/${path}`, {
+    headers: {
+      Accept: 'application/vnd.github.v3.raw',
+      Authorization: `token ${target.token}`,
+    },
+  });
+  if (res.status === 404) return null;
+  if (!res.ok) {
+    throw new GitHubCommitError(
+      `GitHub GET /contents/${path} failed: ${res.status} ${res.statusText}`,
+      res.status,
+    );
+  }
+  return res.text();
+}
+
+/** Commit `files` on top of the default branch in a single commit. */
+export async function commitFiles(
+  target: RepoTarget,
+  message: string,
+  files: CommitFile[],
+): Promise<CommitResult> {
+  const branch = await defaultBranch(target);
+  const ref = await github<{ object: { sha: string } }>(target, `/git/ref/heads/${branch}`);
+  const parent = await github<{ tree: { sha: string } }>(
+    target,
+    `/git/commits/${ref.object.sha}`,
+  );
+
+  const tree = await github<{ sha: string }>(target, '/git/trees', {
+    method: 'POST',
+    body: {
+      base_tree: parent.tree.sha,
+      tree: files.map((f) => ({ path: f.path, mode: '100644', type: 'blob', content: f.content })),
+    },
+  });
+  const commit = await github<{ sha: string; html_url: string }>(target, '/git/commits', {
+    method: 'POST',
+    body: { message, tree: tree.sha, parents: [ref.object.sha] },
+  });
+  await github(target, `/git/refs/heads/${branch}`, {
+    method: 'PATCH',
+    body: { sha: commit.sha, force: false },
+  });
+
+  return { sha: commit.sha, url: commit.html_url };
+}
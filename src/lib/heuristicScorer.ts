@@ -0,0 +1,251 @@
+/**
+ * heuristicScorer.ts
+ *
+ * Deterministic, offline stand-ins for every LLM call site, used when
+ * LLM_PROVIDER=heuristic (see llmProvider.ts). Same inputs always give the
+ * same outputs, so CI and air-gapped training rooms can run the full
+ * interview flow without a model.
+ *
+ * Scoring signals:
+ *   - keyword coverage: keywordsHit / (keywordsHit + keywordsMissed), weighted
+ *     by the bank's `^n` keyword weights when the question has them
+ *   - model-answer similarity: cosine similarity of content-word counts
+ *     between the interviewer notes / transcript and the model answer
+ *     (or starter-question guidelines)
+ *   - soft skills: fraction of the four toggles marked positive
+ */
+
+import type { KeywordGroup, SoftSkillsAssessment } from './types';
+import type { StructuredScore } from './structuredScore';
+
+export interface HeuristicQuestionInput {
+  question: string;
+  modelAnswer?: string;
+  guidelines?: string[];
+  keywordGroups?: KeywordGroup[];
+}
+
+export interface HeuristicAssessmentInput {
+  keywordsHit: string[];
+  keywordsMissed: string[];
+  softSkills: SoftSkillsAssessment;
+  interviewerNotes: string;
+}
+
+const STOPWORDS = new Set([
+  'the', 'and', 'for', 'are', 'but', 'not', 'you', 'all', 'any', 'can', 'had', 'her', 'was', 'one',
+  'our', 'out', 'has', 'have', 'his', 'how', 'its', 'let', 'may', 'who', 'did', 'get', 'use',
+  'that', 'this', 'with', 'from', 'they', 'them', 'then', 'than', 'there', 'their', 'what',
+  'when', 'where', 'which', 'will', 'would', 'could', 'should', 'about', 'into', 'also', 'just',
+  'like', 'some', 'such', 'more', 'most', 'very', 'been', 'were', 'does', 'each', 'other',
+  'candidate', 'transcript', 'agent', 'reasoning',
+]);
+
+function contentWords(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9#+]+/)
+    .filter((w) => w.length >= 3 && !STOPWORDS.has(w));
+}
+
+/** Cosine similarity of content-word frequency vectors, 0-1. */
+export function textSimilarity(a: string, b: string): number {
+  const countsA = new Map<string, number>();
+  const countsB = new Map<string, number>();
+  for (const w of contentWords(a)) countsA.set(w, (countsA.get(w) ?? 0) + 1);
+  for (const w of contentWords(b)) countsB.set(w, (countsB.get(w) ?? 0) + 1);
+  if (countsA.size === 0 || countsB.size === 0) return 0;
+
+  let dot = 0;
+  for (const [w, n] of countsA) dot += n * (countsB.get(w) ?? 0);
+  const norm = (m: Map<string, number>) =>
+    Math.sqrt([...m.values()].reduce((sum, n) => sum + n * n, 0));
+  return dot / (norm(countsA) * norm(countsB));
+}
+
+/** Map a 0-1 signal onto the 1-5 scale. */
+function toFivePoint(x: number): number {
+  return 1 + Math.round(Math.max(0, Math.min(1, x)) * 4);
+}
+
+function round2(x: number): number {
+  return Math.round(x * 100) / 100;
+}
+
+/**
+ * Score an answer from keyword coverage, model-answer similarity and soft
+ * skills. Output matches StructuredScoreSchema so it flows through the same
+ * storage and calibration paths as LLM scores. `transcriptOnly` grades
+ * communication from the response text instead of soft-skill toggles
+ * (public interviews have no interviewer observing delivery).
+ */
+export function heuristicScore(
+  question: HeuristicQuestionInput,
+  assessment: HeuristicAssessmentInput,
+  options: { transcriptOnly?: boolean } = {},
+): StructuredScore {
+  const hit = assessment.keywordsHit.length;
+  const total = hit + assessment.keywordsMissed.length;
+  const weights = new Map((question.keywordGroups ?? []).map((g) => [g.keyword, g.weight]));
+  const weightOf = (k: string) => weights.get(k) ?? 1;
+  const weightHit = assessment.keywordsHit.reduce((sum, k) => sum + weightOf(k), 0);
+  const weightTotal = weightHit + assessment.keywordsMissed.reduce((sum, k) => sum + weightOf(k), 0);
+  const coverage = weightTotal > 0 ? weightHit / weightTotal : null;
+
+  const notes = assessment.interviewerNotes ?? '';
+  const reference = question.modelAnswer || (question.guidelines ?? []).join('. ');
+  // Raw cosine on short answers rarely exceeds ~0.6; stretch so a close paraphrase reaches 5.
+  const similarity = reference && notes ? Math.min(1, textSimilarity(notes, reference) / 0.6) : null;
+
+  const softSkillRatio =
+    Object.values(assessment.softSkills ?? {}).filter(Boolean).length / 4;
+  const wordCount = notes.trim() ? notes.trim().split(/\s+/).length : 0;
+  const referenceWords = reference ? reference.split(/\s+/).length : 120;
+  const lengthRatio = Math.min(1, wordCount / Math.max(40, referenceWords * 0.5));
+
+  const signals = [coverage, similarity].filter((s): s is number => s !== null);
+  const content = signals.length > 0 ? signals.reduce((a, b) => a + b, 0) / signals.length : 0;
+
+  const accuracy = toFivePoint(similarity ?? coverage ?? 0);
+  const completeness = toFivePoint(coverage ?? similarity ?? 0);
+  const depth = toFivePoint(content * 0.6 + lengthRatio * 0.4);
+  const communication = options.transcriptOnly
+    ? toFivePoint(Math.min(1, notes.split(/[.!?]+/).filter((s) => s.trim()).length / 4))
+    : toFivePoint(softSkillRatio);
+
+  const score = Math.round((accuracy * 2 + completeness * 2 + depth + communication) / 6);
+  // Deterministic scoring is a rough proxy; more independent signals = more confidence.
+  const confidence = round2(0.2 + 0.15 * signals.length + (wordCount > 0 ? 0.1 : 0));
+
+  const missed = assessment.keywordsMissed;
+  const feedbackParts = [
+    coverage !== null
+      ? `Covered ${hit} of ${total} expected keywords.`
+      : 'No keyword checklist for this question.',
+    missed.length > 0 ? `Review: ${missed.slice(0, 5).join(', ')}.` : null,
+    similarity !== null
+      ? `Answer overlap with the model answer: ${Math.round(similarity * 100)}%.`
+      : null,
+    'Scored offline by the heuristic scorer; please review manually.',
+  ].filter(Boolean);
+
+  return {
+    criteria: {
+      accuracy: {
+        score: accuracy,
+        rationale: similarity !== null
+          ? `Model-answer overlap ${Math.round(similarity * 100)}%.`
+          : `No transcript or model answer to compare; based on keyword coverage.`,
+      },
+      completeness: {
+        score: completeness,
+        rationale: coverage !== null
+          ? `${hit}/${total} keywords hit.`
+          : 'No keyword checklist; based on model-answer overlap.',
+      },
+      depth: {
+        score: depth,
+        rationale: `${wordCount} words recorded relative to the expected answer length.`,
+      },
+      communication: {
+        score: communication,
+        rationale: options.transcriptOnly
+          ? 'Based on the structure of the written response.'
+          : `${Math.round(softSkillRatio * 4)}/4 soft-skill indicators observed.`,
+      },
+    },
+    score: Math.min(5, Math.max(1, score)),
+    feedback: feedbackParts.join(' '),
+    confidence: Math.min(1, confidence),
+  };
+}
+
+interface SummaryAssessment {
+  didNotGetTo?: boolean;
+  llmScore?: number;
+  finalScore?: number;
+  keywordsHit?: string[];
+  keywordsMissed?: string[];
+  softSkills?: Partial<SoftSkillsAssessment>;
+}
+
+/** Deterministic replacement for the /api/generate-summary LLM narrative. */
+export function heuristicSummary(
+  questions: Array<{ id: string; question: string }>,
+  assessments: Record<string, SummaryAssessment>,
+): { technicalFeedback: string; softSkillFeedback: string } {
+  const answered = questions
+    .map((q) => ({ q, a: assessments[q.id] }))
+    .filter(({ a }) => a && !a.didNotGetTo);
+
+  if (answered.length === 0) {
+    return {
+      technicalFeedback: 'No answered questions to summarize.',
+      softSkillFeedback: 'No soft-skill observations recorded.',
+    };
+  }
+
+  const scores = answered.map(({ a }) => a.finalScore ?? a.llmScore ?? 0);
+  const avg = scores.reduce((x, y) => x + y, 0) / scores.length;
+  const missed = [...new Set(answered.flatMap(({ a }) => a.keywordsMissed ?? []))];
+  const hit = [...new Set(answered.flatMap(({ a }) => a.keywordsHit ?? []))];
+
+  const technicalFeedback = [
+    `Average score ${avg.toFixed(1)}/5 across ${answered.length} answered question${answered.length === 1 ? '' : 's'}.`,
+    hit.length > 0 ? `Demonstrated: ${hit.slice(0, 8).join(', ')}.` : null,
+    missed.length > 0 ? `Areas for review: ${missed.slice(0, 8).join(', ')}.` : null,
+  ].filter(Boolean).join(' ');
+
+  const skillLabels: Record<keyof SoftSkillsAssessment, string> = {
+    clearlySpoken: 'clear speech',
+    eyeContact: 'eye contact',
+    confidence: 'confidence',
+    structuredThinking: 'structured thinking',
+  };
+  const strengths: string[] = [];
+  const gaps: string[] = [];
+  for (const key of Object.keys(skillLabels) as Array<keyof SoftSkillsAssessment>) {
+    const positives = answered.filter(({ a }) => a.softSkills?.[key]).length;
+    (positives * 2 >= answered.length ? strengths : gaps).push(skillLabels[key]);
+  }
+  const softSkillFeedback = [
+    strengths.length > 0 ? `Consistently showed ${strengths.join(', ')}.` : null,
+    gaps.length > 0 ? `Work on ${gaps.join(', ')}.` : null,
+  ].filter(Boolean).join(' ');
+
+  return { technicalFeedback, softSkillFeedback };
+}
+
+/** Deterministic replacement for the public interview follow-up agent. */
+export function heuristicFollowUp(
+  originalQuestion: string,
+  response: string,
+): { needs_followup: boolean; follow_up_question: string | null; reasoning: string } {
+  const words = response.trim() ? response.trim().split(/\s+/).length : 0;
+  const relevance = textSimilarity(response, originalQuestion);
+  // Mirror the agent's "only when severely lacking" rule: very short or off-topic answers.
+  if (words < 15 || (words < 40 && relevance === 0)) {
+    return {
+      needs_followup: true,
+      follow_up_question: `Could you expand on that? Walk me through the core idea behind: ${originalQuestion}`,
+      reasoning: `Heuristic: ${words} words, ${relevance === 0 ? 'no' : 'some'} overlap with the question.`,
+    };
+  }
+  return {
+    needs_followup: false,
+    follow_up_question: null,
+    reasoning: `Heuristic: ${words} words, adequate length.`,
+  };
+}
+
+/** Deterministic replacement for the report-email two-paragraph summary. */
+export function heuristicEmailParagraphs(feedback: string): { strengths: string; improvements: string } {
+  const paragraphs = feedback
+    .split(/\n\s*\n/)
+    .map((p) => p.replace(/\s+/g, ' ').trim())
+    .filter(Boolean);
+  return {
+    strengths: paragraphs[0] ?? 'You demonstrated solid foundational skills during the interview.',
+    improvements: paragraphs[1] ?? 'Review the attached report for specific areas to improve.',
+  };
+}
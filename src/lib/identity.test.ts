@@ -44,24 +44,53 @@ describe('getCallerIdentity (Supabase session)', () => {
     expect(mockFindUnique).not.toHaveBeenCalled();
   });
 
-  it('returns admin when user_metadata.role = admin', async () => {
+  it('returns admin when app_metadata.role = admin', async () => {
     mockCreateClient.mockResolvedValue(
-      makeSupabaseMock({ id: 'uid-admin', email: 'admin@test.com', user_metadata: { role: 'admin' } }),
+      makeSupabaseMock({ id: 'uid-admin', email: 'admin@test.com', app_metadata: { role: 'admin' } }),
     );
     const identity = await getCallerIdentity();
     expect(identity).toEqual({ kind: 'admin', userId: 'uid-admin', email: 'admin@test.com' });
     expect(mockFindUnique).not.toHaveBeenCalled();
   });
 
-  it('returns trainer when user_metadata.role = trainer', async () => {
+  it('returns trainer when app_metadata.role = trainer', async () => {
     mockCreateClient.mockResolvedValue(
-      makeSupabaseMock({ id: 'uid-trainer', email: 'trainer@test.com', user_metadata: { role: 'trainer' } }),
+      makeSupabaseMock({ id: 'uid-trainer', email: 'trainer@test.com', app_metadata: { role: 'trainer' } }),
     );
     const identity = await getCallerIdentity();
     expect(identity).toEqual({ kind: 'trainer', userId: 'uid-trainer', email: 'trainer@test.com' });
     expect(mockFindUnique).not.toHaveBeenCalled();
   });
 
+  it('carries cohortIds for a cohort-scoped recruiter', async () => {
+    mockCreateClient.mockResolvedValue(
+      makeSupabaseMock({
+        id: 'uid-rec',
+        email: 'rec@test.com',
+        app_metadata: { role: 'recruiter', cohortIds: [3, 'x', 5] },
+      }),
+    );
+    const identity = await getCallerIdentity();
+    expect(identity).toEqual({ kind: 'recruiter', userId: 'uid-rec', email: 'rec@test.com', cohortIds: [3, 5] });
+  });
+
+  it('returns author and ignores cohortIds for it', async () => {
+    mockCreateClient.mockResolvedValue(
+      makeSupabaseMock({ id: 'uid-auth', email: 'author@test.com', app_metadata: { role: 'author', cohortIds: [1] } }),
+    );
+    const identity = await getCallerIdentity();
+    expect(identity).toEqual({ kind: 'author', userId: 'uid-auth', email: 'author@test.com' });
+    expect(mockFindUnique).not.toHaveBeenCalled();
+  });
+
+  it('ignores a role in user-editable user_metadata', async () => {
+    mockCreateClient.mockResolvedValue(
+      makeSupabaseMock({ id: 'uid-assoc', email: 'assoc@test.com', user_metadata: { role: 'admin' } }),
+    );
+    mockFindUnique.mockResolvedValue({ id: 7, slug: 'alice' });
+    expect(await getCallerIdentity()).toMatchObject({ kind: 'associate', associateId: 7 });
+  });
+
   it('returns associate shape when role absent and authUserId matches', async () => {
     mockCreateClient.mockResolvedValue(
       makeSupabaseMock({ id: 'uid-assoc', email: 'assoc@test.com', user_metadata: {} }),
@@ -90,7 +119,7 @@ describe('getCallerIdentity (Supabase session)', () => {
     expect(identity).toEqual({ kind: 'anonymous' });
   });
 
-  it('defaults to associate behavior when user_metadata.role is not set', async () => {
+  it('defaults to associate behavior when app_metadata.role is not set', async () => {
     mockCreateClient.mockResolvedValue(
       makeSupabaseMock({ id: 'uid-default', email: 'default@test.com', user_metadata: undefined }),
     );
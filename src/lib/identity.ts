@@ -1,13 +1,20 @@
 import { createSupabaseServerClient } from '@/lib/supabase/server';
 import { prisma } from '@/lib/prisma';
+import { readStaffAccess } from '@/lib/authorization';
 
 /**
  * Caller identity — sourced from Supabase session only.
  *
- * Role is stored in auth.users.user_metadata.role:
- *   'admin'   — full access, can promote users
- *   'trainer' — trainer dashboard access
- *   (absent)  — treated as associate; FK lookup required
+ * Role is stored in auth.users.app_metadata.role, which only the service
+ * role can write (user_metadata is user-editable and never trusted):
+ *   'admin'     — full access, can assign roles
+ *   'trainer'   — trainer dashboard access
+ *   'recruiter' — read-only readiness and reports
+ *   'author'    — curriculum and challenge banks, no associate data
+ *   (absent)    — treated as associate; FK lookup required
+ *
+ * Trainers and recruiters may carry app_metadata.cohortIds, which limits
+ * them to those cohorts. What each role may do lives in authorization.ts.
  *
  * Associate linkage uses Associate.authUserId FK (populated in Phase 17 schema).
  * If no matching Associate row is found, returns anonymous.
@@ -16,7 +23,9 @@ import { prisma } from '@/lib/prisma';
  */
 export type CallerIdentity =
   | { kind: 'admin'; userId: string; email: string }
-  | { kind: 'trainer'; userId: string; email: string }
+  | { kind: 'trainer'; userId: string; email: string; cohortIds?: number[] }
+  | { kind: 'recruiter'; userId: string; email: string; cohortIds?: number[] }
+  | { kind: 'author'; userId: string; email: string }
   | { kind: 'associate'; userId: string; email: string; associateId: number; associateSlug: string }
   | { kind: 'anonymous' };
 
@@ -32,16 +41,21 @@ export async function getCallerIdentity(): Promise<CallerIdentity> {
     return { kind: 'anonymous' };
   }
 
-  const role: string = user.user_metadata?.role ?? 'associate';
   const userId = user.id;
   const email = user.email ?? '';
 
-  if (role === 'admin') {
-    return { kind: 'admin', userId, email };
-  }
-
-  if (role === 'trainer') {
-    return { kind: 'trainer', userId, email };
+  const staff = readStaffAccess(user.app_metadata);
+  if (staff) {
+    switch (staff.role) {
+      case 'admin':
+      case 'author':
+        return { kind: staff.role, userId, email };
+      case 'trainer':
+      case 'recruiter':
+        return staff.cohortIds
+          ? { kind: staff.role, userId, email, cohortIds: staff.cohortIds }
+          : { kind: staff.role, userId, email };
+    }
   }
 
   // Associate role: look up by authUserId FK.
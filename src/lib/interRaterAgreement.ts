@@ -0,0 +1,132 @@
+/**
+ * interRaterAgreement.ts
+ *
+ * Agreement between the lead interviewer's assessments and a co-interviewer's
+ * (co-interviewer mode). Every keyword and soft-skill toggle is one binary
+ * rating; we report raw percent agreement and Cohen's kappa, which discounts
+ * the agreement two raters would reach by chance.
+ *
+ * Questions either rater marked "did not get to" are excluded — there is
+ * nothing to compare. Pure: no React, no Prisma.
+ */
+
+import type { CoQuestionAssessment, QuestionAssessment, SoftSkillsAssessment } from './types';
+
+export interface RatingDisagreement {
+  item: string;        // keyword, or soft-skill key
+  kind: 'keyword' | 'softSkill';
+  lead: boolean;
+  co: boolean;
+}
+
+export interface QuestionAgreement {
+  questionId: string;
+  ratings: number;
+  agreement: number;   // 0-1 share of ratings both gave the same answer
+  disagreements: RatingDisagreement[];
+  coNotes: string;
+}
+
+export interface SessionAgreement {
+  ratings: number;
+  percentAgreement: number; // 0-1; 1 when there is nothing to compare
+  kappa: number | null;     // null when there is nothing to compare
+  questions: QuestionAgreement[];
+}
+
+/** 2x2 contingency counts: a = both yes, b = lead only, c = co only, d = both no. */
+interface Tally { a: number; b: number; c: number; d: number }
+
+function tally(t: Tally, lead: boolean, co: boolean): void {
+  if (lead && co) t.a++;
+  else if (lead) t.b++;
+  else if (co) t.c++;
+  else t.d++;
+}
+
+/**
+ * Cohen's kappa for two raters on binary items. When chance agreement is
+ * already 1 (both raters gave every item the same single answer) kappa is
+ * undefined; we report 1 for perfect agreement.
+ */
+export function cohensKappa({ a, b, c, d }: Tally): number | null {
+  const n = a + b + c + d;
+  if (n === 0) return null;
+  const observed = (a + d) / n;
+  const expected = ((a + b) * (a + c) + (c + d) * (b + d)) / (n * n);
+  if (expected === 1) return observed === 1 ? 1 : 0;
+  return (observed - expected) / (1 - expected);
+}
+
+export function compareQuestion(
+  questionId: string,
+  lead: Pick<QuestionAssessment, 'keywordsHit' | 'keywordsMissed' | 'softSkills'>,
+  co: CoQuestionAssessment,
+  into?: Tally,
+): QuestionAgreement {
+  const t: Tally = { a: 0, b: 0, c: 0, d: 0 };
+  const disagreements: RatingDisagreement[] = [];
+
+  const keywords = [...new Set([...lead.keywordsHit, ...lead.keywordsMissed, ...co.keywordsHit, ...co.keywordsMissed])];
+  for (const keyword of keywords) {
+    const l = lead.keywordsHit.includes(keyword);
+    const c = co.keywordsHit.includes(keyword);
+    tally(t, l, c);
+    if (l !== c) disagreements.push({ item: keyword, kind: 'keyword', lead: l, co: c });
+  }
+
+  for (const skill of Object.keys(lead.softSkills) as (keyof SoftSkillsAssessment)[]) {
+    const l = !!lead.softSkills[skill];
+    const c = !!co.softSkills?.[skill];
+    tally(t, l, c);
+    if (l !== c) disagreements.push({ item: skill, kind: 'softSkill', lead: l, co: c });
+  }
+
+  if (into) {
+    into.a += t.a; into.b += t.b; into.c += t.c; into.d += t.d;
+  }
+  const ratings = t.a + t.b + t.c + t.d;
+  return {
+    questionId,
+    ratings,
+    agreement: ratings === 0 ? 1 : (t.a + t.d) / ratings,
+    disagreements,
+    coNotes: co.interviewerNotes ?? '',
+  };
+}
+
+/** Compare every question both raters assessed, in `questionIds` order. */
+export function computeSessionAgreement(
+  questionIds: string[],
+  lead: Record<string, QuestionAssessment>,
+  co: Record<string, CoQuestionAssessment>,
+): SessionAgreement {
+  const total: Tally = { a: 0, b: 0, c: 0, d: 0 };
+  const questions: QuestionAgreement[] = [];
+
+  for (const id of questionIds) {
+    const l = lead[id];
+    const c = co[id];
+    if (!l || !c || l.didNotGetTo || c.didNotGetTo) continue;
+    questions.push(compareQuestion(id, l, c, total));
+  }
+
+  const ratings = total.a + total.b + total.c + total.d;
+  return {
+    ratings,
+    percentAgreement: ratings === 0 ? 1 : (total.a + total.d) / ratings,
+    kappa: cohensKappa(total),
+    questions,
+  };
+}
+
+/** Landis & Koch bands — the labels trainers see next to kappa. */
+export function describeKappa(kappa: number | null): string {
+  if (kappa === null) return 'n/a';
+  if (kappa < 0) return 'poor';
+  if (kappa <= 0.2) return 'slight';
+  if (kappa <= 0.4) return 'fair';
+  if (kappa <= 0.6) return 'moderate';
+  if (kappa <= 0.8) return 'substantial';
+  return 'almost perfect';
+}
@@ -1,5 +1,6 @@
 /**
- * Judge0 HTTP client — the ONLY route from app code to Judge0.
+ * Judge0 HTTP client — the ONLY route from app code to Judge0, wrapped by
+ * executionBackend.ts as the default ('judge0') execution backend.
  *
  * Locked contract (Phase 38 Plan 02 / D-11..D-15):
  *   - submit(opts): POST async submission, returns { token }
@@ -14,7 +15,9 @@
  *   - 6-language allowlist (Judge0Language union) via JUDGE0_LANGUAGE_MAP
  *   - Typed errors: UnsupportedLanguageError, Judge0UnavailableError, Judge0ConfigError
  *
- * Phase 39 consumers MUST import from this module — never direct fetch to JUDGE0_URL.
+ * App consumers import submit/getSubmission/systemInfo from executionBackend.ts
+ * (which honours CODE_EXECUTION_BACKEND) — never direct fetch to JUDGE0_URL.
+ * Types and JUDGE0_LANGUAGE_MAP stay here.
  */
 
 import {
@@ -24,6 +27,8 @@ import {
   UnsupportedLanguageError,
 } from './judge0Errors';
 import { isCodingEnabled } from './codingFeatureFlag';
+import type { SqlDialect } from './coding-bank-schemas';
+import { createZip } from './zipArchive';
 
 // ---------------------------------------------------------------------------
 // Language allowlist (D-14)
@@ -62,6 +67,18 @@ export interface SubmitOptions {
   expectedStdout?: string;
   cpuTimeLimit?: number;
   memoryLimit?: number;
+  /**
+   * Extra files placed next to the main source (multi-file challenges),
+   * paths relative to the working directory. Sent to Judge0 as
+   * `additional_files` (base64 ZIP).
+   */
+  additionalFiles?: Array<{ path: string; content: string }>;
+  /**
+   * SQL only: the engine the script targets. Absent or 'sqlite' runs here
+   * (language 82); 'postgres' is routed to the Postgres sandbox by
+   * executionBackend.ts and never reaches Judge0.
+   */
+  sqlDialect?: SqlDialect;
 }
 
 export interface Judge0Submission {
@@ -160,6 +177,9 @@ export async function submit(opts: SubmitOptions): Promise<{ token: string }> {
         expected_output: opts.expectedStdout ?? null,
         cpu_time_limit: opts.cpuTimeLimit ?? 10,
         memory_limit: opts.memoryLimit ?? 256000,
+        ...(opts.additionalFiles && opts.additionalFiles.length > 0
+          ? { additional_files: createZip(opts.additionalFiles).toString('base64') }
+          : {}),
       }),
       signal: AbortSignal.timeout(30_000),
     });
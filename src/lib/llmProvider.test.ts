@@ -0,0 +1,69 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { ChatOpenAI } from '@langchain/openai';
+import { ChatAnthropic } from '@langchain/anthropic';
+import {
+  createChatModel,
+  getLlmConfig,
+  getLlmConfigProblem,
+  isHeuristicProvider,
+  LlmConfigError,
+} from './llmProvider';
+
+describe('llmProvider', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  function stubEnv(vars: Record<string, string>) {
+    for (const key of ['LLM_PROVIDER', 'LLM_MODEL', 'LLM_BASE_URL', 'LLM_API_KEY', 'OPENAI_API_KEY', 'ANTHROPIC_API_KEY']) {
+      vi.stubEnv(key, vars[key] ?? '');
+    }
+  }
+
+  it('defaults to openai with gpt-4o-mini', () => {
+    stubEnv({ OPENAI_API_KEY: 'sk-test' });
+    expect(getLlmConfig()).toEqual({
+      provider: 'openai',
+      model: 'gpt-4o-mini',
+      apiKey: 'sk-test',
+      baseUrl: null,
+    });
+    expect(createChatModel({ temperature: 0.3 })).toBeInstanceOf(ChatOpenAI);
+  });
+
+  it('honours LLM_MODEL overrides', () => {
+    stubEnv({ LLM_PROVIDER: 'anthropic', ANTHROPIC_API_KEY: 'key', LLM_MODEL: 'claude-sonnet-4' });
+    expect(getLlmConfig().model).toBe('claude-sonnet-4');
+    expect(createChatModel({ temperature: 0 })).toBeInstanceOf(ChatAnthropic);
+  });
+
+  it('builds an OpenAI-compatible client against LLM_BASE_URL', () => {
+    stubEnv({ LLM_PROVIDER: 'openai-compatible', LLM_BASE_URL: 'http://localhost:11434/v1' });
+    expect(getLlmConfigProblem()).toBeNull();
+    const model = createChatModel({ temperature: 0 }) as ChatOpenAI;
+    expect(model).toBeInstanceOf(ChatOpenAI);
+    expect(model.model).toBe('llama3.1');
+  });
+
+  it('reports missing credentials per provider', () => {
+    stubEnv({});
+    expect(getLlmConfigProblem()).toBe('OPENAI_API_KEY not configured');
+    stubEnv({ LLM_PROVIDER: 'anthropic' });
+    expect(getLlmConfigProblem()).toBe('ANTHROPIC_API_KEY not configured');
+    stubEnv({ LLM_PROVIDER: 'openai-compatible' });
+    expect(getLlmConfigProblem()).toBe('LLM_BASE_URL not configured');
+    expect(() => createChatModel({ temperature: 0 })).toThrow(LlmConfigError);
+  });
+
+  it('heuristic provider needs no credentials and has no chat model', () => {
+    stubEnv({ LLM_PROVIDER: 'Heuristic' });
+    expect(isHeuristicProvider()).toBe(true);
+    expect(getLlmConfigProblem()).toBeNull();
+    expect(() => createChatModel({ temperature: 0 })).toThrow(/isHeuristicProvider/);
+  });
+
+  it('rejects unknown providers', () => {
+    stubEnv({ LLM_PROVIDER: 'gemini' });
+    expect(() => getLlmConfig()).toThrow(LlmConfigError);
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * llmProvider.ts
+ *
+ * Single source of truth for which chat model the app talks to. Every LLM
+ * call site (scoring, summary, report email, public follow-up agent) goes
+ * through createChatModel() instead of constructing ChatOpenAI directly.
+ *
+ * Selected via env, read lazily at call time so tests can stub:
+ *   LLM_PROVIDER  openai (default) | anthropic | openai-compatible | heuristic
+ *   LLM_MODEL     model name; defaults per provider (see DEFAULT_MODELS)
+ *   LLM_BASE_URL  required for openai-compatible (Ollama / vLLM endpoint)
+ *   LLM_API_KEY   optional for openai-compatible; local servers usually ignore it
+ *   OPENAI_API_KEY / ANTHROPIC_API_KEY  provider credentials
+ *
+ * The `heuristic` provider never makes a network call. Call sites check
+ * isHeuristicProvider() and fall back to the deterministic implementations in
+ * heuristicScorer.ts, so the interview flow runs in CI and air-gapped rooms.
+ */
+
+import { ChatOpenAI } from '@langchain/openai';
+import { ChatAnthropic } from '@langchain/anthropic';
+import type { BaseChatModel } from '@langchain/core/language_models/chat_models';
+
+export const LLM_PROVIDERS = ['openai', 'anthropic', 'openai-compatible', 'heuristic'] as const;
+
+export type LlmProviderName = typeof LLM_PROVIDERS[number];
+
+const DEFAULT_MODELS: Record<Exclude<LlmProviderName, 'heuristic'>, string> = {
+  openai: 'gpt-4o-mini',
+  anthropic: 'claude-3-5-haiku-latest',
+  'openai-compatible': 'llama3.1',
+};
+
+export interface LlmConfig {
+  provider: LlmProviderName;
+  model: string | null; // null for heuristic
+  apiKey: string | null;
+  baseUrl: string | null;
+}
+
+export interface ChatModelOptions {
+  temperature: number;
+  maxTokens?: number;
+}
+
+export class LlmConfigError extends Error {
+  readonly name = 'LlmConfigError';
+  constructor(message: string) {
+    super(message);
+  }
+}
+
+function readProvider(): LlmProviderName {
+  const raw = (process.env.LLM_PROVIDER ?? '').trim().toLowerCase();
+  if (!raw) return 'openai';
+  if ((LLM_PROVIDERS as readonly string[]).includes(raw)) return raw as LlmProviderName;
+  throw new LlmConfigError(
+    `Unknown LLM_PROVIDER "${raw}". Expected one of: ${LLM_PROVIDERS.join(', ')}`,
+  );
+}
+
+/** Resolve the active provider config from env. Throws LlmConfigError on an unknown provider. */
+export function getLlmConfig(): LlmConfig {
+  const provider = readProvider();
+  const modelOverride = process.env.LLM_MODEL?.trim() || null;
+
+  switch (provider) {
+    case 'heuristic':
+      return { provider, model: null, apiKey: null, baseUrl: null };
+    case 'openai':
+      return {
+        provider,
+        model: modelOverride ?? DEFAULT_MODELS.openai,
+        apiKey: process.env.OPENAI_API_KEY?.trim() || null,
+        baseUrl: null,
+      };
+    case 'anthropic':
+      return {
+        provider,
+        model: modelOverride ?? DEFAULT_MODELS.anthropic,
+        apiKey: process.env.ANTHROPIC_API_KEY?.trim() || null,
+        baseUrl: null,
+      };
+    case 'openai-compatible':
+      return {
+        provider,
+        model: modelOverride ?? DEFAULT_MODELS['openai-compatible'],
+        apiKey: process.env.LLM_API_KEY?.trim() || null,
+        baseUrl: process.env.LLM_BASE_URL?.trim() || null,
+      };
+  }
+}
+
+export function isHeuristicProvider(): boolean {
+  return getLlmConfig().provider === 'heuristic';
+}
+
+/**
+ * Why the active provider can't be used, or null if it can. Routes surface
+ * this instead of the old "OPENAI_API_KEY not configured" strings.
+ */
+export function getLlmConfigProblem(config: LlmConfig = getLlmConfig()): string | null {
+  switch (config.provider) {
+    case 'heuristic':
+      return null;
+    case 'openai':
+      return config.apiKey?.startsWith('sk-') ? null : 'OPENAI_API_KEY not configured';
+    case 'anthropic':
+      return config.apiKey ? null : 'ANTHROPIC_API_KEY not configured';
+    case 'openai-compatible':
+      return config.baseUrl ? null : 'LLM_BASE_URL not configured';
+  }
+}
+
+/**
+ * Build the chat model for the active provider. Throws LlmConfigError when the
+ * provider is heuristic (callers must branch first) or is missing credentials.
+ */
+export function createChatModel(options: ChatModelOptions): BaseChatModel {
+  const config = getLlmConfig();
+  if (config.provider === 'heuristic') {
+    throw new LlmConfigError('Heuristic provider has no chat model; check isHeuristicProvider() first');
+  }
+  const problem = getLlmConfigProblem(config);
+  if (problem) throw new LlmConfigError(problem);
+
+  const { temperature, maxTokens } = options;
+  const model = config.model as string;
+
+  switch (config.provider) {
+    case 'openai':
+      return new ChatOpenAI({ model, temperature, maxTokens, apiKey: config.apiKey as string });
+    case 'anthropic':
+      return new ChatAnthropic({ model, temperature, maxTokens, apiKey: config.apiKey as string });
+    case 'openai-compatible':
+      return new ChatOpenAI({
+        model,
+        temperature,
+        maxTokens,
+        // Local servers usually ignore the key, but the OpenAI SDK requires one.
+        apiKey: config.apiKey ?? 'not-needed',
+        configuration: { baseURL: config.baseUrl as string },
+      });
+  }
+}
@@ -0,0 +1,132 @@
+/**
+ * localSandboxRunner.test.ts — the process-based execution backend.
+ *
+ * Spawns real child processes (node is always present under vitest; python3
+ * and sqlite3 cases skip when the binary is missing) and drives the same
+ * submit → poll → verdict path codingAttemptPoll uses, via executionBackend.
+ */
+
+import { execFileSync } from 'node:child_process';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+vi.mock('@/lib/prisma', () => ({ prisma: {} }));
+
+import { getExecutionBackend, getSubmission, submit, judge0Backend } from './executionBackend';
+import { localSandboxBackend, outputsMatch } from './localSandboxRunner';
+import { aggregateJudge0Results, computeFinalVerdict, computeScore } from './codingAttemptPoll';
+import type { Judge0Submission } from './judge0Client';
+
+function hasBinary(bin: string): boolean {
+  try {
+    execFileSync(bin, ['--version'], { stdio: 'ignore' });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function waitFor(token: string): Promise<Judge0Submission> {
+  for (let i = 0; i < 200; i++) {
+    const sub = await getSubmission(token);
+    if (sub.status.id >= 3) return sub;
+    await new Promise((r) => setTimeout(r, 25));
+  }
+  throw new Error(`token ${token} never resolved`);
+}
+
+describe('executionBackend selection', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('defaults to Judge0 and switches on CODE_EXECUTION_BACKEND=local', () => {
+    expect(getExecutionBackend()).toBe(judge0Backend);
+    vi.stubEnv('CODE_EXECUTION_BACKEND', 'local');
+    expect(getExecutionBackend()).toBe(localSandboxBackend);
+  });
+
+  it('refuses the local runner in production', () => {
+    vi.stubEnv('CODE_EXECUTION_BACKEND', 'local');
+    vi.stubEnv('NODE_ENV', 'production');
+    expect(() => getExecutionBackend()).toThrow(/not allowed in production/);
+  });
+});
+
+describe('localSandboxBackend', () => {
+  beforeEach(() => {
+    vi.stubEnv('CODING_CHALLENGES_ENABLED', 'true');
+    vi.stubEnv('CODE_EXECUTION_BACKEND', 'local');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('compares output like Judge0 (trailing whitespace ignored)', () => {
+    expect(outputsMatch('3  \n\n', '3')).toBe(true);
+    expect(outputsMatch('3\n4', '3')).toBe(false);
+  });
+
+  it('runs javascript with stdin and reports Accepted / Wrong Answer', async () => {
+    const code = "const s = require('fs').readFileSync(0, 'utf8'); const [a, b] = s.split(' ').map(Number); console.log(a + b);";
+    const ok = await waitFor((await submit({ sourceCode: code, language: 'javascript', stdin: '1 2', expectedStdout: '3' })).token);
+    expect(ok.status.id).toBe(3);
+    expect(ok.stdout).toBe('3\n');
+    expect(Number(ok.time)).toBeGreaterThan(0);
+
+    const wrong = await waitFor((await submit({ sourceCode: code, language: 'javascript', stdin: '1 2', expectedStdout: '4' })).token);
+    expect(wrong.status.id).toBe(4);
+  });
+
+  it('maps non-zero exits, time limits and output floods to Judge0 statuses', async () => {
+    const crash = await waitFor((await submit({ sourceCode: 'throw new Error("boom")', language: 'javascript' })).token);
+    expect(crash.status.id).toBe(11);
+    expect(crash.stderr).toContain('boom');
+
+    const spin = await waitFor((await submit({ sourceCode: 'for(;;){}', language: 'javascript', cpuTimeLimit: 0.3 })).token);
+    expect(spin.status.id).toBe(5);
+
+    const flood = await waitFor((await submit({ sourceCode: 'for(;;) console.log("x".repeat(1000))', language: 'javascript' })).token);
+    expect(flood.status.id).toBe(8);
+  });
+
+  it('does not pass app secrets to user code', async () => {
+    vi.stubEnv('DATABASE_URL', 'postgres://secret');
+    const sub = await waitFor((await submit({ sourceCode: 'console.log(process.env.DATABASE_URL ?? "none")', language: 'javascript' })).token);
+    expect(sub.stdout).toBe('none\n');
+  });
+
+  it('rejects languages it cannot run', async () => {
+    await expect(submit({ sourceCode: 'class A {}', language: 'java' })).rejects.toThrow(/Unsupported/);
+  });
+
+  it.skipIf(!hasBinary('python3'))('runs python', async () => {
+    const sub = await waitFor((await submit({ sourceCode: 'print(input()[::-1])', language: 'python', stdin: 'abc', expectedStdout: 'cba' })).token);
+    expect(sub.status.id).toBe(3);
+  });
+
+  it.skipIf(!hasBinary('sqlite3'))('runs sql scripts from the source', async () => {
+    const source = ['.mode tabs', 'CREATE TABLE t (n INT);', 'INSERT INTO t VALUES (1), (2);', 'SELECT SUM(n) FROM t;'].join('\n');
+    const sub = await waitFor((await submit({ sourceCode: source, language: 'sql' })).token);
+    expect(sub.status.id).toBe(3);
+    expect(sub.stdout?.trim()).toBe('3');
+  });
+
+  it('feeds codingAttemptPoll aggregation end-to-end', async () => {
+    const code = "const n = Number(require('fs').readFileSync(0, 'utf8')); console.log(n * 2);";
+    const cases = [
+      { id: 'v1', isHidden: false, weight: 1, stdin: '2', expected: '4' },
+      { id: 'h1', isHidden: true, weight: 3, stdin: '5', expected: '11' },
+    ];
+    const tokens = await Promise.all(
+      cases.map(async (c) => (await submit({ sourceCode: code, language: 'javascript', stdin: c.stdin, expectedStdout: c.expected })).token),
+    );
+    await Promise.all(tokens.map(waitFor));
+
+    const agg = await aggregateJudge0Results(tokens, cases);
+    expect(agg.allResolved).toBe(true);
+    expect(agg.perCase.map((pc) => pc.verdict)).toEqual(['pass', 'fail']);
+    expect(computeFinalVerdict(agg.perCase)).toBe('fail');
+    expect(computeScore(agg.perCase)).toBe(25);
+  });
+});
@@ -0,0 +1,304 @@
+/**
+ * localSandboxRunner.ts — process-based execution backend for laptops and CI.
+ *
+ * Runs code in a child process per submission instead of a Judge0 VM:
+ *   python     → python3 with RLIMIT_AS set before the script runs
+ *   javascript → node with --max-old-space-size
+ *   sql        → sqlite3 :memory: reading the script on stdin (-bail)
+ *
+ * Multi-file submissions write `additionalFiles` into the scratch dir next to
+ * the main file, so relative imports resolve as they do under Judge0.
+ *
+ * Limits: wall-clock timeout (cpuTimeLimit, SIGKILL → Time Limit Exceeded),
+ * memory (above), 64KB per output stream (→ SIGXFSZ), a scratch temp dir as
+ * cwd and an environment stripped to PATH so app secrets never reach user
+ * code. This is resource limiting, NOT isolation — executionBackend.ts refuses
+ * to select it in production.
+ *
+ * Mirrors Judge0's async contract: submit() returns a token immediately, the
+ * run is queued (status 1) then processed (status 2) under a small
+ * concurrency cap, and getSubmission() returns a Judge0Submission with the
+ * Judge0 status ids judge0Verdict.ts already understands.
+ */
+
+import { spawn } from 'child_process';
+import { randomUUID } from 'crypto';
+import { mkdir, mkdtemp, rm, writeFile } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import type { ExecutionBackend } from './executionBackend';
+import type { Judge0Language, Judge0Submission, SubmitOptions } from './judge0Client';
+import { CodingFeatureDisabledError, UnsupportedLanguageError } from './judge0Errors';
+import { isCodingEnabled } from './codingFeatureFlag';
+
+export const LOCAL_SANDBOX_LANGUAGES = ['python', 'javascript', 'sql'] as const satisfies readonly Judge0Language[];
+type LocalLanguage = (typeof LOCAL_SANDBOX_LANGUAGES)[number];
+
+const OUTPUT_LIMIT_BYTES = 64 * 1024;
+const RESULT_TTL_MS = 10 * 60 * 1000;
+const DEFAULT_CONCURRENCY = 2;
+
+// Judge0 status ids (see judge0Verdict.ts JUDGE0_STATUS_MAP)
+const STATUS = {
+  inQueue: { id: 1, description: 'In Queue' },
+  processing: { id: 2, description: 'Processing' },
+  accepted: { id: 3, description: 'Accepted' },
+  wrongAnswer: { id: 4, description: 'Wrong Answer' },
+  timeLimit: { id: 5, description: 'Time Limit Exceeded' },
+  sigsegv: { id: 7, description: 'Runtime Error (SIGSEGV)' },
+  sigxfsz: { id: 8, description: 'Runtime Error (SIGXFSZ)' },
+  sigfpe: { id: 9, description: 'Runtime Error (SIGFPE)' },
+  sigabrt: { id: 10, description: 'Runtime Error (SIGABRT)' },
+  nzec: { id: 11, description: 'Runtime Error (NZEC)' },
+  other: { id: 12, description: 'Runtime Error (Other)' },
+  internal: { id: 13, description: 'Internal Error' },
+} as const;
+
+interface LocalRun {
+  submission: Judge0Submission;
+  finishedAt: number | null;
+}
+
+interface RunnerState {
+  runs: Map<string, LocalRun>;
+  queue: Array<() => Promise<void>>;
+  active: number;
+}
+
+// Survives Next dev-server module reloads, like the Prisma client singleton.
+const globalForRunner = globalThis as unknown as { localSandboxRunner?: RunnerState };
+const state: RunnerState =
+  globalForRunner.localSandboxRunner ??
+  (globalForRunner.localSandboxRunner = { runs: new Map(), queue: [], active: 0 });
+
+function concurrency(): number {
+  const n = Number(process.env.LOCAL_SANDBOX_CONCURRENCY);
+  return Number.isInteger(n) && n > 0 ? n : DEFAULT_CONCURRENCY;
+}
+
+function isLocalLanguage(lang: string): lang is LocalLanguage {
+  return (LOCAL_SANDBOX_LANGUAGES as readonly string[]).includes(lang);
+}
+
+function pending(token: string): Judge0Submission {
+  return {
+    token,
+    stdout: null,
+    stderr: null,
+    compile_output: null,
+    message: null,
+    status: STATUS.inQueue,
+    time: null,
+    memory: null,
+    exit_code: null,
+  };
+}
+
+/** Judge0-style compare: ignore trailing whitespace per line and trailing blank lines. */
+export function outputsMatch(actual: string, expected: string): boolean {
+  const norm = (s: string) =>
+    s
+      .replace(/\r\n/g, '\n')
+      .split('\n')
+      .map((line) => line.trimEnd())
+      .join('\n')
+      .replace(/\n+$/, '');
+  return norm(actual) === norm(expected);
+}
+
+function command(
+  language: LocalLanguage,
+  file: string,
+  memoryKb: number,
+): { cmd: string; args: string[] } {
+  if (language === 'python') {
+    const bytes = memoryKb * 1024;
+    const prelude = [
+      'import resource, runpy, sys',
+      `resource.setrlimit(resource.RLIMIT_AS, (${bytes}, ${bytes}))`,
+      `sys.argv = [${JSON.stringify(file)}]`,
+      // -I drops the script dir from sys.path; restore it for sibling modules.
+      `sys.path.insert(0, ${JSON.stringify(path.dirname(file))})`,
+      `runpy.run_path(${JSON.stringify(file)}, run_name='__main__')`,
+    ].join('; ');
+    return { cmd: process.env.LOCAL_SANDBOX_PYTHON ?? 'python3', args: ['-I', '-c', prelude] };
+  }
+  if (language === 'javascript') {
+    return {
+      cmd: process.env.LOCAL_SANDBOX_NODE ?? 'node',
+      args: [`--max-old-space-size=${Math.max(16, Math.floor(memoryKb / 1024))}`, file],
+    };
+  }
+  return { cmd: process.env.LOCAL_SANDBOX_SQLITE ?? 'sqlite3', args: ['-bail', ':memory:'] };
+}
+
+function signalStatus(signal: NodeJS.Signals): Judge0Submission['status'] {
+  switch (signal) {
+    case 'SIGSEGV':
+      return STATUS.sigsegv;
+    case 'SIGXFSZ':
+      return STATUS.sigxfsz;
+    case 'SIGFPE':
+      return STATUS.sigfpe;
+    case 'SIGABRT':
+      return STATUS.sigabrt;
+    default:
+      return STATUS.other;
+  }
+}
+
+async function execute(token: string, opts: SubmitOptions & { language: LocalLanguage }): Promise<Judge0Submission> {
+  const dir = await mkdtemp(path.join(os.tmpdir(), 'nlm-sandbox-'));
+  try {
+    const file = path.join(dir, opts.language === 'python' ? 'main.py' : 'main.js');
+    if (opts.language !== 'sql') await writeFile(file, opts.sourceCode, 'utf-8');
+    for (const extra of opts.additionalFiles ?? []) {
+      const target = path.resolve(dir, extra.path);
+      // Paths are validated upstream; refuse anything escaping the scratch dir anyway.
+      if (!target.startsWith(dir + path.sep)) {
+        throw new Error(`additional file escapes the sandbox dir: ${extra.path}`);
+      }
+      await mkdir(path.dirname(target), { recursive: true });
+      await writeFile(target, extra.content, 'utf-8');
+    }
+    const { cmd, args } = command(opts.language, file, opts.memoryLimit ?? 256000);
+    const timeoutMs = (opts.cpuTimeLimit ?? 10) * 1000;
+
+    return await new Promise<Judge0Submission>((resolve) => {
+      const started = process.hrtime.bigint();
+      const child = spawn(cmd, args, {
+        cwd: dir,
+        // Cast: Next augments ProcessEnv with a required NODE_ENV.
+        env: { PATH: process.env.PATH ?? '', LANG: 'C.UTF-8' } as unknown as NodeJS.ProcessEnv,
+      });
+
+      let stdout = '';
+      let stderr = '';
+      let timedOut = false;
+      let overflow = false;
+
+      const timer = setTimeout(() => {
+        timedOut = true;
+        child.kill('SIGKILL');
+      }, timeoutMs);
+
+      const collect = (which: 'stdout' | 'stderr') => (chunk: Buffer) => {
+        const next = (which === 'stdout' ? stdout : stderr) + chunk.toString('utf-8');
+        if (Buffer.byteLength(next) > OUTPUT_LIMIT_BYTES) {
+          overflow = true;
+          child.kill('SIGKILL');
+        }
+        if (which === 'stdout') stdout = next.slice(0, OUTPUT_LIMIT_BYTES);
+        else stderr = next.slice(0, OUTPUT_LIMIT_BYTES);
+      };
+      child.stdout.on('data', collect('stdout'));
+      child.stderr.on('data', collect('stderr'));
+      // User code may exit without reading stdin — ignore EPIPE.
+      child.stdin.on('error', () => {});
+      child.stdin.end(opts.language === 'sql' ? opts.sourceCode : (opts.stdin ?? ''));
+
+      const finish = (status: Judge0Submission['status'], exitCode: number | null, message: string | null) => {
+        clearTimeout(timer);
+        const elapsedMs = Number(process.hrtime.bigint() - started) / 1e6;
+        resolve({
+          token,
+          stdout,
+          stderr: stderr || null,
+          compile_output: null,
+          message,
+          status,
+          time: (elapsedMs / 1000).toFixed(3),
+          memory: null,
+          exit_code: exitCode,
+        });
+      };
+
+      child.on('error', (err) => {
+        // Runtime binary missing or not executable — an environment problem,
+        // surfaced like Judge0's internal error rather than blamed on the code.
+        finish(STATUS.internal, null, `Local sandbox could not start '${cmd}': ${err.message}`);
+      });
+
+      child.on('close', (code, signal) => {
+        if (timedOut) return finish(STATUS.timeLimit, null, 'Time limit exceeded');
+        if (overflow) return finish(STATUS.sigxfsz, null, 'Output limit exceeded');
+        if (signal) return finish(signalStatus(signal), null, `Killed by ${signal}`);
+        if (code !== 0) return finish(STATUS.nzec, code, `Exited with code ${code}`);
+        if (opts.expectedStdout !== undefined && opts.expectedStdout !== null) {
+          return finish(outputsMatch(stdout, opts.expectedStdout) ? STATUS.accepted : STATUS.wrongAnswer, 0, null);
+        }
+        finish(STATUS.accepted, 0, null);
+      });
+    });
+  } finally {
+    await rm(dir, { recursive: true, force: true }).catch(() => {});
+  }
+}
+
+function pump(): void {
+  while (state.active < concurrency() && state.queue.length > 0) {
+    const job = state.queue.shift()!;
+    state.active += 1;
+    job().finally(() => {
+      state.active -= 1;
+      pump();
+    });
+  }
+}
+
+function pruneFinished(now: number): void {
+  for (const [token, run] of state.runs) {
+    if (run.finishedAt !== null && now - run.finishedAt > RESULT_TTL_MS) state.runs.delete(token);
+  }
+}
+
+function assertEnabled(): void {
+  if (!isCodingEnabled()) throw new CodingFeatureDisabledError();
+}
+
+export const localSandboxBackend: ExecutionBackend = {
+  name: 'local',
+  languages: LOCAL_SANDBOX_LANGUAGES,
+
+  async submit(opts) {
+    assertEnabled();
+    if (!isLocalLanguage(opts.language)) {
+      throw new UnsupportedLanguageError(opts.language);
+    }
+    pruneFinished(Date.now());
+    const token = randomUUID();
+    const run: LocalRun = { submission: pending(token), finishedAt: null };
+    state.runs.set(token, run);
+    const language = opts.language;
+    state.queue.push(async () => {
+      run.submission = { ...run.submission, status: STATUS.processing };
+      try {
+        run.submission = await execute(token, { ...opts, language });
+      } catch (err) {
+        run.submission = {
+          ...pending(token),
+          status: STATUS.internal,
+          message: err instanceof Error ? err.message : String(err),
+        };
+      }
+      run.finishedAt = Date.now();
+    });
+    pump();
+    return { token };
+  },
+
+  async getSubmission(token) {
+    assertEnabled();
+    const run = state.runs.get(token);
+    if (!run) {
+      // Unknown or expired token — report it the way Judge0 reports a lost job.
+      return { ...pending(token), status: STATUS.internal, message: 'Unknown local sandbox token' };
+    }
+    return run.submission;
+  },
+
+  async systemInfo() {
+    assertEnabled();
+    return { version: 'local-sandbox', languages: [...LOCAL_SANDBOX_LANGUAGES] };
+  },
+};
@@ -1,14 +1,232 @@
 // Markdown parser for interview questions
 
-import { ParsedQuestion } from './types';
+import { KeywordGroup, ParsedQuestion } from './types';
+
+/*
+ * Question-bank format
+ *
+ *   ### Q3: What is a closure?
+ *   ---
+ *   difficulty: advanced          # overrides the ## Beginner/Intermediate/Advanced section
+ *   topic: Closures
+ *   estimatedMinutes: 4
+ *   keywords: [closure|lexical scope^2, scope chain]
+ *   followUps:
+ *     - How do closures interact with loop variables?
+ *   hints:
+ *     - Think about where a variable is looked up.
+ *   ---
+ *   **Keywords:** closure|lexical scope^2, scope chain, garbage collection
+ *   **Topic:** Closures
+ *   <details><summary>Model Answer</summary> ...fenced code is kept... </details>
+ *
+ * The per-question frontmatter block is optional and must directly follow the
+ * header. Keyword syntax: `a|b|c` is one concept with synonyms (the first term
+ * is the canonical keyword shown and stored in keywordsHit/Missed); `^n`
+ * weights it (default 1). Frontmatter values win over the bold-label lines.
+ */
+
+type FrontmatterValue = string | number | string[];
+
+const DIFFICULTIES = ['beginner', 'intermediate', 'advanced'] as const;
+
+const FRONTMATTER_KEYS = new Set(['difficulty', 'topic', 'estimatedMinutes', 'keywords', 'followUps', 'hints']);
+
+// `## ` headings the parser maps to a difficulty (see parseQuestions)
+const DIFFICULTY_SECTION = /^##\s+.*(Beginner|Intermediate|Advanced|Foundational|Application|Deep Dive)/;
+
+export type QuestionBankIssueCode =
+    | 'no-questions'
+    | 'malformed-header'
+    | 'duplicate-question-number'
+    | 'missing-keywords'
+    | 'empty-model-answer'
+    | 'unknown-difficulty-section'
+    | 'invalid-frontmatter'
+    | 'unknown-topic';
+
+/**
+ * A problem found by strict parsing. Errors mean questions are dropped or
+ * collide; warnings mean a question loads but is degraded.
+ */
+export interface QuestionBankIssue {
+    severity: 'error' | 'warning';
+    code: QuestionBankIssueCode;
+    message: string;
+    line: number; // 1-based, in the normalized file
+    questionNumber?: number;
+}
+
+type IssueReporter = (issue: QuestionBankIssue) => void;
+
+function unquote(value: string): string {
+    const v = value.trim();
+    if ((v.startsWith('"') && v.endsWith('"')) || (v.startsWith("'") && v.endsWith("'"))) {
+        return v.slice(1, -1);
+    }
+    return v;
+}
+
+/**
+ * Parse the small YAML subset used in question frontmatter: `key: scalar`,
+ * `key: [a, b]` and `key:` followed by `- item` lines. Comments (`# ...`)
+ * after whitespace are stripped. Unknown shapes are ignored rather than thrown
+ * so one odd line never drops the whole question.
+ */
+export function parseQuestionFrontmatter(yaml: string): Record<string, FrontmatterValue> {
+    const result: Record<string, FrontmatterValue> = {};
+    let listKey: string | null = null;
+
+    for (const rawLine of yaml.split('\n')) {
+        const line = rawLine.replace(/\s+#.*$/, '');
+        if (!line.trim()) continue;
+
+        const item = line.match(/^\s+-\s+(.*)$/) ?? line.match(/^-\s+(.*)$/);
+        if (item && listKey) {
+            (result[listKey] as string[]).push(unquote(item[1]));
+            continue;
+        }
+
+        const pair = line.match(/^([A-Za-z][\w-]*)\s*:\s*(.*)$/);
+        if (!pair) continue;
+        const [, key, rawValue] = pair;
+        const value = rawValue.trim();
+        listKey = null;
+
+        if (value === '') {
+            result[key] = [];
+            listKey = key;
+        } else if (value.startsWith('[') && value.endsWith(']')) {
+            result[key] = value
+                .slice(1, -1)
+                .split(',')
+                .map(unquote)
+                .filter(Boolean);
+        } else if (/^-?\d+(\.\d+)?$/.test(value)) {
+            result[key] = Number(value);
+        } else {
+            result[key] = unquote(value);
+        }
+    }
+
+    return result;
+}
+
+/**
+ * Parse keyword entries like `closure|lexical scope^2`.
+ * Entries with an empty canonical term are dropped.
+ */
+export function parseKeywordGroups(entries: string[]): KeywordGroup[] {
+    const groups: KeywordGroup[] = [];
+    for (const entry of entries) {
+        const weightMatch = entry.match(/\^(\d+(?:\.\d+)?)\s*$/);
+        const weight = weightMatch ? Number(weightMatch[1]) : 1;
+        const terms = entry
+            .replace(/\^\d+(?:\.\d+)?\s*$/, '')
+            .split('|')
+            .map(t => t.trim())
+            .filter(Boolean);
+        if (terms.length === 0) continue;
+        groups.push({ keyword: terms[0], synonyms: terms.slice(1), weight: weight > 0 ? weight : 1 });
+    }
+    return groups;
+}
+
+/**
+ * Share of keyword weight the candidate covered, 0-1. Plain keyword lists
+ * count every keyword as weight 1. Null when the question has no keywords.
+ */
+export function weightedKeywordCoverage(
+    question: Pick<ParsedQuestion, 'keywords' | 'keywordGroups'>,
+    keywordsHit: string[]
+): number | null {
+    const groups = question.keywordGroups
+        ?? question.keywords.map(keyword => ({ keyword, synonyms: [], weight: 1 }));
+    const total = groups.reduce((sum, g) => sum + g.weight, 0);
+    if (total === 0) return null;
+    const hit = new Set(keywordsHit);
+    const covered = groups.filter(g => hit.has(g.keyword)).reduce((sum, g) => sum + g.weight, 0);
+    return covered / total;
+}
+
+function asStringList(value: FrontmatterValue | undefined): string[] | undefined {
+    if (value === undefined) return undefined;
+    if (Array.isArray(value)) return value;
+    return [String(value)];
+}
+
+/**
+ * Split an optional `---` frontmatter block off the text after a question
+ * header. Requires a closing `---` and at least one `key:` line so that a
+ * horizontal rule between questions is never mistaken for frontmatter.
+ */
+function extractFrontmatter(body: string): { frontmatter: Record<string, FrontmatterValue>; rest: string } {
+    const match = body.match(/^\s*\n?---[ \t]*\n([\s\S]*?)\n---[ \t]*(?:\n|$)/);
+    if (!match || !/^[A-Za-z][\w-]*\s*:/m.test(match[1])) {
+        return { frontmatter: {}, rest: body };
+    }
+    return { frontmatter: parseQuestionFrontmatter(match[1]), rest: body.slice(match[0].length) };
+}
 
 /**
  * Parses interview questions markdown file content
- * Extracts question text, keywords, and model answers
+ * Extracts question text, keywords, model answers and the optional
+ * per-question frontmatter (follow-ups, hints, estimated time)
  */
 export function parseInterviewQuestions(
     content: string,
     weekNumber: number
+): ParsedQuestion[] {
+    return parseQuestions(content, weekNumber);
+}
+
+/**
+ * Strict mode: same questions as parseInterviewQuestions, plus every problem
+ * the lenient parser silently works around (used by the question-bank linter).
+ */
+export function parseInterviewQuestionsStrict(
+    content: string,
+    weekNumber: number
+): { questions: ParsedQuestion[]; issues: QuestionBankIssue[] } {
+    const issues: QuestionBankIssue[] = [];
+    const questions = parseQuestions(content, weekNumber, issue => issues.push(issue));
+
+    if (questions.length === 0) {
+        issues.push({
+            severity: 'error',
+            code: 'no-questions',
+            message: 'No "### Q<n>: ..." question headers found',
+            line: 1,
+        });
+    }
+    return { questions, issues: issues.sort((a, b) => a.line - b.line) };
+}
+
+function reportStructureIssues(content: string, report: IssueReporter): void {
+    content.split('\n').forEach((text, i) => {
+        const line = i + 1;
+        if (/^#{1,6}\s*Q\d*\b/i.test(text) && !/^###\s+Q\d+:/.test(text)) {
+            report({
+                severity: 'error',
+                code: 'malformed-header',
+                message: `"${text.trim()}" looks like a question header but is not "### Q<n>: <question>"; it will be skipped`,
+                line,
+            });
+        } else if (/^##\s/.test(text) && !DIFFICULTY_SECTION.test(text)) {
+            report({
+                severity: 'warning',
+                code: 'unknown-difficulty-section',
+                message: `Section "${text.replace(/^##\s+/, '').trim()}" is not Beginner/Intermediate/Advanced; questions under it keep the previous difficulty`,
+                line,
+            });
+        }
+    });
+}
+
+function parseQuestions(
+    content: string,
+    weekNumber: number,
+    report?: IssueReporter
 ): ParsedQuestion[] {
     const questions: ParsedQuestion[] = [];
 
@@ -20,7 +238,16 @@ export function parseInterviewQuestions(
 
     let currentDifficulty: 'beginner' | 'intermediate' | 'advanced' = 'beginner';
 
+    // Strict-mode bookkeeping: the lookahead split keeps every character, so
+    // block offsets can be summed to recover line numbers.
+    let blockLine = 1;
+    const firstSeen = new Map<number, number>();
+    if (report) reportStructureIssues(normalizedContent, report);
+
     for (const block of questionBlocks) {
+        const line = blockLine;
+        blockLine += block.split('\n').length - 1;
+
         // Check for difficulty section headers
         if (block.includes('## Beginner') || block.includes('Foundational')) {
             currentDifficulty = 'beginner';
@@ -36,32 +263,84 @@ export function parseInterviewQuestions(
 
         const questionNumber = parseInt(questionMatch[1], 10);
         const questionText = questionMatch[2].trim();
+        const headerLine = line + block.slice(0, questionMatch.index ?? 0).split('\n').length - 1;
+
+        const { frontmatter, rest } = extractFrontmatter(
+            block.slice((questionMatch.index ?? 0) + questionMatch[0].length)
+        );
 
-        // Extract keywords
-        const keywordsMatch = block.match(/\*\*Keywords:\*\*\s*(.+?)(?=\n|$)/);
-        const keywords = keywordsMatch
-            ? keywordsMatch[1].split(',').map(k => k.trim())
-            : [];
+        // Extract keywords (frontmatter list wins over the **Keywords:** line)
+        const keywordsMatch = rest.match(/\*\*Keywords:\*\*\s*(.+?)(?=\n|$)/);
+        const keywordEntries = asStringList(frontmatter.keywords)
+            ?? (keywordsMatch ? keywordsMatch[1].split(',') : []);
+        const keywordGroups = parseKeywordGroups(keywordEntries);
+        const keywords = keywordGroups.map(g => g.keyword);
+        const hasExtendedKeywords = keywordGroups.some(g => g.synonyms.length > 0 || g.weight !== 1);
 
         // Extract topic (optional frontmatter); fallback to keywords[0]
-        const topicMatch = block.match(/\*\*Topic:\*\*\s*(.+?)(?=\n|$)/);
-        const topic = topicMatch ? topicMatch[1].trim() : (keywords[0] ?? '');
+        const topicMatch = rest.match(/\*\*Topic:\*\*\s*(.+?)(?=\n|$)/);
+        const topic = typeof frontmatter.topic === 'string'
+            ? frontmatter.topic
+            : topicMatch ? topicMatch[1].trim() : (keywords[0] ?? '');
+
+        const difficulty = (DIFFICULTIES as readonly string[]).includes(String(frontmatter.difficulty))
+            ? frontmatter.difficulty as ParsedQuestion['difficulty']
+            : currentDifficulty;
 
         // Extract model answer from details block
-        const detailsMatch = block.match(/<details>[\s\S]*?<summary>[\s\S]*?<\/summary>([\s\S]*?)<\/details>/);
+        const detailsMatch = rest.match(/<details>[\s\S]*?<summary>[\s\S]*?<\/summary>([\s\S]*?)<\/details>/);
         const modelAnswer = detailsMatch
             ? cleanModelAnswer(detailsMatch[1])
             : '';
 
+        if (report) {
+            const issue = (severity: QuestionBankIssue['severity'], code: QuestionBankIssueCode, message: string) =>
+                report({ severity, code, message, line: headerLine, questionNumber });
+
+            const previous = firstSeen.get(questionNumber);
+            if (previous !== undefined) {
+                issue('error', 'duplicate-question-number', `Q${questionNumber} already defined on line ${previous}; both get id week${weekNumber}-q${questionNumber}`);
+            } else {
+                firstSeen.set(questionNumber, headerLine);
+            }
+            if (keywords.length === 0) {
+                issue('warning', 'missing-keywords', `Q${questionNumber} has no keywords; the interviewer gets no checklist`);
+            }
+            if (!modelAnswer) {
+                issue('warning', 'empty-model-answer', `Q${questionNumber} has no model answer in a <details> block`);
+            }
+            for (const key of Object.keys(frontmatter)) {
+                if (!FRONTMATTER_KEYS.has(key)) {
+                    issue('warning', 'invalid-frontmatter', `Q${questionNumber} frontmatter key "${key}" is not recognized`);
+                }
+            }
+            if (frontmatter.difficulty !== undefined && difficulty !== frontmatter.difficulty) {
+                issue('warning', 'invalid-frontmatter', `Q${questionNumber} difficulty "${frontmatter.difficulty}" must be one of ${DIFFICULTIES.join(', ')}`);
+            }
+            if (frontmatter.estimatedMinutes !== undefined && typeof frontmatter.estimatedMinutes !== 'number') {
+                issue('warning', 'invalid-frontmatter', `Q${questionNumber} estimatedMinutes must be a number`);
+            }
+        }
+
+        const followUps = asStringList(frontmatter.followUps);
+        const hints = asStringList(frontmatter.hints);
+        const estimatedMinutes = typeof frontmatter.estimatedMinutes === 'number' && frontmatter.estimatedMinutes > 0
+            ? frontmatter.estimatedMinutes
+            : undefined;
+
         questions.push({
             id: `week${weekNumber}-q${questionNumber}`,
             questionNumber,
             question: questionText,
             keywords,
             modelAnswer,
-            difficulty: currentDifficulty,
+            difficulty,
             weekNumber,
             topic,
+            ...(hasExtendedKeywords && { keywordGroups }),
+            ...(followUps && followUps.length > 0 && { followUps }),
+            ...(hints && hints.length > 0 && { hints }),
+            ...(estimatedMinutes !== undefined && { estimatedMinutes }),
         });
     }
 
@@ -69,14 +348,17 @@ export function parseInterviewQuestions(
 }
 
 /**
- * Clean up model answer text
+ * Clean up model answer text. Fenced code blocks are kept verbatim (the
+ * card renders them highlighted); blank-line runs outside code are collapsed.
  */
 function cleanModelAnswer(raw: string): string {
-    return raw
+    const parts = raw
         .trim()
-        .replace(/```[\s\S]*?```/g, '[Code Example]') // Simplify code blocks for display
         .replace(/\r\n/g, '\n')
-        .replace(/\n{3,}/g, '\n\n'); // Normalize line breaks
+        .split(/(```[\s\S]*?```)/);
+    return parts
+        .map((part, i) => (i % 2 === 1 ? part : part.replace(/\n{3,}/g, '\n\n')))
+        .join('');
 }
 
 /**
@@ -0,0 +1,292 @@
+/**
+ * postgresSandboxRunner.test.ts — the Postgres-dialect SQL backend.
+ *
+ * `pg` and `pg-cursor` are mocked with a scripted client and Prisma with an
+ * in-memory run table, so these cover script splitting, the session-control
+ * guard, COPY-text formatting, batched reads up to the output limit, error → Judge0 status mapping, the out-of-session watchdog,
+ * per-run schema cleanup, persisted results and the executionBackend routing
+ * — not a live database.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+const { queries, reads, respond, release, poolQuery, runs } = vi.hoisted(() => ({
+  queries: [] as string[],
+  /** Cursor reads: the statement and the batch size asked for. */
+  reads: [] as { text: string; maxRows: number }[],
+  respond: { fn: ((): unknown => ({ fields: [], rows: [] })) as (text: string) => unknown },
+  release: vi.fn(),
+  /** Queries on a connection of their own — the watchdog's cancels. */
+  poolQuery: vi.fn<(text: string, params?: unknown[]) => Promise<unknown>>(async () => ({ rows: [] })),
+  runs: new Map<string, { token: string; submission: unknown; createdAt: Date; finishedAt: Date | null }>(),
+}));
+
+vi.mock('pg', () => ({
+  Pool: class {
+    query = poolQuery;
+    async connect() {
+      return {
+        query: (q: string | { text: string }) => {
+          const text = typeof q === 'string' ? q : q.text;
+          queries.push(text);
+          // Cursors are handed back and answer from respond.fn as they are read.
+          if (typeof q !== 'string') return q;
+          return Promise.resolve(text.includes('pg_backend_pid') ? { fields: [], rows: [{ pid: 4242 }] } : { fields: [], rows: [] });
+        },
+        release,
+      };
+    }
+  },
+}));
+
+vi.mock('pg-cursor', () => ({
+  default: class {
+    private result: Promise<{ fields: unknown[]; rows: unknown[][] }> | null = null;
+    private offset = 0;
+    close = vi.fn(async () => {});
+    constructor(readonly text: string) {}
+    read(maxRows: number, cb: (err: unknown, rows: unknown[][], result?: unknown) => void) {
+      reads.push({ text: this.text, maxRows });
+      this.result ??= Promise.resolve().then(() => respond.fn(this.text) as { fields: unknown[]; rows: unknown[][] });
+      this.result.then(
+        (res) => {
+          const rows = res.rows.slice(this.offset, this.offset + maxRows);
+          this.offset += rows.length;
+          cb(undefined, rows, { ...res, rows });
+        },
+        (err) => cb(err, []),
+      );
+    }
+  },
+}));
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    postgresSandboxRun: {
+      create: vi.fn(async ({ data }) => {
+        runs.set(data.token, { ...data, createdAt: new Date(), finishedAt: null });
+      }),
+      update: vi.fn(async ({ where, data }) => {
+        runs.set(where.token, { ...runs.get(where.token)!, ...data });
+      }),
+      findUnique: vi.fn(async ({ where }) => runs.get(where.token) ?? null),
+      deleteMany: vi.fn(async () => ({ count: 0 })),
+    },
+  },
+}));
+
+import { prisma } from '@/lib/prisma';
+import {
+  formatResultSets,
+  leadingKeywords,
+  purgeExpiredSandboxRuns,
+  splitPsqlScript,
+  splitStatements,
+} from './postgresSandboxRunner';
+import { getSubmission, submit } from './executionBackend';
+import type { Judge0Submission } from './judge0Client';
+import type { QueryResult } from 'pg';
+
+function result(fields: string[], rows: unknown[][]): QueryResult<unknown[]> {
+  return { fields: fields.map((name) => ({ name })), rows } as unknown as QueryResult<unknown[]>;
+}
+
+async function waitFor(token: string): Promise<Judge0Submission> {
+  for (let i = 0; i < 100; i++) {
+    const sub = await getSubmission(token);
+    if (sub.status.id >= 3) return sub;
+    await new Promise((r) => setTimeout(r, 5));
+  }
+  throw new Error('run did not finish');
+}
+
+describe('splitPsqlScript', () => {
+  it('splits at meta-commands and tracks tuples_only', () => {
+    expect(splitPsqlScript('\\pset tuples_only on\nCREATE TABLE t (x int);\n\\t\nSELECT 1;')).toEqual([
+      { sql: 'CREATE TABLE t (x int);', tuplesOnly: true },
+      { sql: 'SELECT 1;', tuplesOnly: false },
+    ]);
+  });
+
+  it('rejects meta-commands the sandbox does not implement', () => {
+    expect(() => splitPsqlScript('\\dt')).toThrow(/unsupported psql meta-command/);
+    expect(() => splitPsqlScript('\\pset tuples_only maybe')).toThrow(/invalid value/);
+  });
+});
+
+describe('leadingKeywords', () => {
+  it('reads the first keyword of each statement, skipping comments, strings and dollar bodies', () => {
+    const sql = [
+      "SELECT 'set; commit' AS \"begin;\";",
+      '-- COMMIT;',
+      '/* outer /* RESET; */ still comment; */ insert into t values (1);',
+      'DO $body$ BEGIN PERFORM 1; END $body$;',
+      "select E'it\\'s; set';",
+      'set role postgres',
+    ].join('\n');
+    expect(leadingKeywords(sql)).toEqual(['SELECT', 'INSERT', 'DO', 'SELECT', 'SET']);
+  });
+});
+
+describe('splitStatements', () => {
+  it('splits at top-level semicolons and drops comment-only pieces', () => {
+    expect(splitStatements("CREATE TABLE t (x int);\nSELECT 'a;b' FROM t; -- done\n")).toEqual([
+      'CREATE TABLE t (x int)',
+      "\nSELECT 'a;b' FROM t",
+    ]);
+    expect(splitStatements('DO $$ BEGIN PERFORM 1; END $$')).toEqual(['DO $$ BEGIN PERFORM 1; END $$']);
+  });
+});
+
+describe('formatResultSets', () => {
+  it('prints COPY-text rows, headers unless tuples_only, nothing for commands', () => {
+    const sets = [
+      result([], []),
+      result(['name', 'note'], [
+        ['ada', null],
+        ['tab\there', 'a\\b'],
+      ]),
+    ];
+    expect(formatResultSets(sets, false)).toBe('name\tnote\nada\t\\N\ntab\\there\ta\\\\b\n');
+    expect(formatResultSets(sets, true)).toBe('ada\t\\N\ntab\\there\ta\\\\b\n');
+  });
+});
+
+describe('postgres sandbox backend', () => {
+  beforeEach(() => {
+    vi.stubEnv('CODING_CHALLENGES_ENABLED', 'true');
+    vi.stubEnv('CODING_POSTGRES_URL', 'postgres://sandbox@localhost/coding_sandbox');
+    vi.stubEnv('DATABASE_URL', 'postgres://app@localhost/app');
+    queries.length = 0;
+    reads.length = 0;
+    runs.clear();
+    release.mockClear();
+    poolQuery.mockClear();
+    respond.fn = () => result([], []);
+  });
+  afterEach(() => vi.unstubAllEnvs());
+
+  it('runs postgres SQL in a throwaway schema and cleans it up', async () => {
+    respond.fn = (text) => (text.includes('SELECT') ? result(['n'], [['42']]) : result([], []));
+    const { token } = await submit({
+      sourceCode: '\\pset tuples_only on\nCREATE TABLE t (n int);\nSELECT n FROM t;',
+      language: 'sql',
+      sqlDialect: 'postgres',
+    });
+    expect(token.startsWith('pg-')).toBe(true);
+    const sub = await waitFor(token);
+    expect(sub.status.id).toBe(3);
+    expect(sub.stdout).toBe('42\n');
+
+    const schema = queries.find((q) => q.startsWith('CREATE SCHEMA '))!.replace('CREATE SCHEMA ', '');
+    expect(schema).toMatch(/^sbx_[0-9a-f]{32}$/);
+    expect(queries.indexOf(`SET LOCAL search_path TO ${schema}`)).toBeGreaterThan(queries.indexOf('BEGIN'));
+    expect(queries.slice(-3)).toEqual(['ROLLBACK', `DROP SCHEMA IF EXISTS ${schema} CASCADE`, 'DISCARD ALL']);
+    expect(queries).toContain('CREATE TABLE t (n int)');
+    expect(queries).toContain('\nSELECT n FROM t');
+    expect(release).toHaveBeenCalledWith();
+  });
+
+  it('stops reading a result set once it crosses the output limit', async () => {
+    const rows = Array.from({ length: 10_000 }, (_, i) => [`row ${i} `.padEnd(100, 'x')]);
+    respond.fn = () => result(['line'], rows);
+    const sub = await waitFor((await submit({ sourceCode: 'SELECT * FROM big;', language: 'sql', sqlDialect: 'postgres' })).token);
+
+    expect(sub.status.id).toBe(8);
+    expect(sub.message).toBe('Output limit exceeded');
+    expect(Buffer.byteLength(sub.stdout ?? '')).toBeLessThanOrEqual(64 * 1024);
+    // 64KB is about 650 of these rows: seven batches, not the whole table.
+    expect(reads).toHaveLength(7);
+    expect(reads.every((r) => r.maxRows === 100)).toBe(true);
+    expect(queries.slice(-3)[0]).toBe('ROLLBACK');
+  });
+
+  it('maps statement timeouts and SQL errors to Judge0 statuses', async () => {
+    respond.fn = () => {
+      throw Object.assign(new Error('canceling statement due to statement timeout'), { code: '57014' });
+    };
+    const slow = await waitFor((await submit({ sourceCode: 'SELECT pg_sleep(60);', language: 'sql', sqlDialect: 'postgres' })).token);
+    expect(slow.status.id).toBe(5);
+
+    respond.fn = () => {
+      throw Object.assign(new Error('column "nope" does not exist'), { code: '42703' });
+    };
+    const bad = await waitFor((await submit({ sourceCode: 'SELECT nope;', language: 'sql', sqlDialect: 'postgres' })).token);
+    expect(bad.status.id).toBe(11);
+    expect(bad.stderr).toBe('ERROR:  column "nope" does not exist');
+    expect(queries).toContain('DISCARD ALL');
+  });
+
+  it('refuses scripts that change session or transaction state before running anything', async () => {
+    for (const sourceCode of [
+      'SET statement_timeout = 0; SELECT pg_sleep(1e9);',
+      'COMMIT;\nSELECT 1;',
+      '/* hi */ reset all;',
+      'SET ROLE postgres;',
+    ]) {
+      const sub = await waitFor((await submit({ sourceCode, language: 'sql', sqlDialect: 'postgres' })).token);
+      expect(sub.status.id).toBe(11);
+      expect(sub.stderr).toMatch(/^ERROR: {2}(SET|COMMIT|RESET) is not allowed in the SQL sandbox$/);
+    }
+    expect(queries).toEqual([]);
+  });
+
+  it('cancels a script that outlives its wall clock from another connection', async () => {
+    let cancel: (err: Error) => void = () => {};
+    // The server ignores statement_timeout, as if the script had lifted it.
+    respond.fn = () => new Promise((_, reject) => (cancel = reject));
+    poolQuery.mockImplementation(async (text) => {
+      if (String(text).includes('pg_cancel_backend')) {
+        cancel(Object.assign(new Error('canceling statement due to user request'), { code: '57014' }));
+      }
+      return { rows: [] };
+    });
+
+    const { token } = await submit({
+      sourceCode: 'SELECT pg_sleep(1e9);',
+      language: 'sql',
+      sqlDialect: 'postgres',
+      cpuTimeLimit: 0.02,
+    });
+    const sub = await waitFor(token);
+
+    expect(sub.status.id).toBe(5);
+    expect(poolQuery).toHaveBeenCalledWith('SELECT pg_cancel_backend($1)', [4242]);
+    expect(queries).toContain('SET LOCAL statement_timeout = 20');
+    expect(queries.slice(-3)[0]).toBe('ROLLBACK');
+  });
+
+  it('answers polls from the shared run table', async () => {
+    const done = { token: 'pg-done', status: { id: 3, description: 'Accepted' }, stdout: '1\n' };
+    runs.set('pg-done', { token: 'pg-done', submission: done, createdAt: new Date(), finishedAt: new Date() });
+    expect(await getSubmission('pg-done')).toEqual(done);
+
+    runs.set('pg-lost', {
+      token: 'pg-lost',
+      submission: { token: 'pg-lost', status: { id: 1, description: 'In Queue' } },
+      createdAt: new Date(Date.now() - 11 * 60 * 1000),
+      finishedAt: null,
+    });
+    expect(await getSubmission('pg-lost')).toMatchObject({ status: { id: 13 }, message: expect.stringMatching(/lost/) });
+    expect(await getSubmission('pg-unknown')).toMatchObject({ status: { id: 13 } });
+  });
+
+  it('purges results older than an hour', async () => {
+    const now = Date.parse('2026-06-01T12:00:00Z');
+    await purgeExpiredSandboxRuns(now);
+    expect(prisma.postgresSandboxRun.deleteMany).toHaveBeenCalledWith({
+      where: { createdAt: { lt: new Date('2026-06-01T11:00:00Z') } },
+    });
+  });
+
+  it('refuses to run without its own database', async () => {
+    vi.stubEnv('CODING_POSTGRES_URL', '');
+    await expect(submit({ sourceCode: 'SELECT 1;', language: 'sql', sqlDialect: 'postgres' })).rejects.toThrow(
+      /CODING_POSTGRES_URL/,
+    );
+    vi.stubEnv('CODING_POSTGRES_URL', 'postgres://app@localhost/app');
+    await expect(submit({ sourceCode: 'SELECT 1;', language: 'sql', sqlDialect: 'postgres' })).rejects.toThrow(
+      /DATABASE_URL/,
+    );
+  });
+});
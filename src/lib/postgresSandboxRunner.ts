@@ -0,0 +1,536 @@
+/**
+ * postgresSandboxRunner.ts — execution backend for Postgres-dialect SQL.
+ *
+ * Judge0 only ships SQLite (language 82), so SQL challenges whose meta.json
+ * declares `sqlDialect: "postgres"` run here instead, against the database at
+ * CODING_POSTGRES_URL. executionBackend.ts routes them by `opts.sqlDialect`
+ * whichever backend is configured for everything else.
+ *
+ * Each run gets a throwaway schema on a pooled connection:
+ *   CREATE SCHEMA sbx_<token> → BEGIN → SET LOCAL search_path +
+ *   statement_timeout → script → ROLLBACK → DROP SCHEMA … CASCADE → DISCARD ALL
+ * CODING_POSTGRES_URL must be a dedicated database and a role that owns
+ * nothing else — never the app's DATABASE_URL, which this module refuses to
+ * use.
+ *
+ * The script cannot lift its own limits: statements that change session or
+ * transaction state (SET, RESET, BEGIN, COMMIT, ROLLBACK, DISCARD …) are
+ * refused before anything runs, and the wall clock is enforced from outside
+ * the session — a watchdog cancels the backend with pg_cancel_backend, then
+ * terminates it if cancels do not land.
+ *
+ * Scripts are psql-flavoured: lines starting with `\` are meta-commands.
+ * `\pset tuples_only on|off` and `\t [on|off]` toggle the header line for the
+ * statements that follow; any other meta-command is an error. Result rows are
+ * printed as COPY-text (tab-separated, `\N` for NULL, backslash escapes),
+ * which sqlResultNormalizer parses in its postgres mode. Each statement is
+ * read through a cursor in batches, so a run stops at the 64KB output limit
+ * without fetching the rest of its result set.
+ *
+ * Mirrors the Judge0 async contract like localSandboxRunner.ts: submit()
+ * returns a `pg-` token immediately, runs are queued under a concurrency cap
+ * and getSubmission() reports Judge0 status ids. Results live in the
+ * PostgresSandboxRun table (app database), not in memory, so a poll that
+ * lands on another instance still finds them.
+ */
+
+import { randomUUID } from 'crypto';
+import { Pool, type CustomTypesConfig, type FieldDef, type PoolClient, type QueryResult } from 'pg';
+import Cursor from 'pg-cursor';
+import type { Prisma } from '@/generated/prisma';
+import { prisma } from './prisma';
+import type { ExecutionBackend } from './executionBackend';
+import type { Judge0Submission, SubmitOptions } from './judge0Client';
+import { CodingFeatureDisabledError, Judge0ConfigError, UnsupportedLanguageError } from './judge0Errors';
+import { isCodingEnabled } from './codingFeatureFlag';
+import { outputsMatch } from './localSandboxRunner';
+
+/** Prefix on every token this runner issues; executionBackend dispatches on it. */
+export const POSTGRES_TOKEN_PREFIX = 'pg-';
+
+const OUTPUT_LIMIT_BYTES = 64 * 1024;
+/** Rows fetched per cursor read; the output limit is checked after each batch. */
+const FETCH_BATCH_ROWS = 100;
+/** A run waiting this long for a pooled connection fails instead of hanging. */
+const POOL_CONNECT_TIMEOUT_MS = 30_000;
+const RESULT_TTL_MS = 60 * 60 * 1000;
+/** An unfinished run this old lost its instance (restart, scale-in). */
+const RUN_LOST_MS = 10 * 60 * 1000;
+const DEFAULT_CONCURRENCY = 2;
+const QUERY_CANCELED = '57014';
+/** Watchdog re-fires this often after the deadline; later tries terminate. */
+const CANCEL_RETRY_MS = 1000;
+const CANCEL_ATTEMPTS = 3;
+
+/** Leading keywords that change session or transaction state. */
+const SESSION_CONTROL = new Set(['SET', 'RESET', 'BEGIN', 'START', 'COMMIT', 'END', 'ROLLBACK', 'ABORT', 'DISCARD']);
+
+// Judge0 status ids (see judge0Verdict.ts JUDGE0_STATUS_MAP)
+const STATUS = {
+  inQueue: { id: 1, description: 'In Queue' },
+  processing: { id: 2, description: 'Processing' },
+  accepted: { id: 3, description: 'Accepted' },
+  wrongAnswer: { id: 4, description: 'Wrong Answer' },
+  timeLimit: { id: 5, description: 'Time Limit Exceeded' },
+  sigxfsz: { id: 8, description: 'Runtime Error (SIGXFSZ)' },
+  nzec: { id: 11, description: 'Runtime Error (NZEC)' },
+  internal: { id: 13, description: 'Internal Error' },
+} as const;
+
+// Every column comes back as Postgres' own text output (t/f, 3.50, ISO dates).
+const RAW_TEXT: CustomTypesConfig = {
+  getTypeParser: (() => (value: string) => value) as unknown as CustomTypesConfig['getTypeParser'],
+};
+
+interface RunnerState {
+  queue: Array<() => Promise<void>>;
+  active: number;
+  pool: Pool | null;
+}
+
+// Survives Next dev-server module reloads, like the Prisma client singleton.
+const globalForRunner = globalThis as unknown as { postgresSandboxRunner?: RunnerState };
+const state: RunnerState =
+  globalForRunner.postgresSandboxRunner ??
+  (globalForRunner.postgresSandboxRunner = { queue: [], active: 0, pool: null });
+
+function concurrency(): number {
+  const n = Number(process.env.CODING_POSTGRES_CONCURRENCY);
+  return Number.isInteger(n) && n > 0 ? n : DEFAULT_CONCURRENCY;
+}
+
+function connectionString(): string {
+  const url = process.env.CODING_POSTGRES_URL;
+  if (!url) throw new Judge0ConfigError('CODING_POSTGRES_URL');
+  if (url === process.env.DATABASE_URL) {
+    throw new Judge0ConfigError('CODING_POSTGRES_URL must not point at DATABASE_URL');
+  }
+  return url;
+}
+
+function getPool(): Pool {
+  if (!state.pool) {
+    // One spare connection so the watchdog can always reach the server.
+    state.pool = new Pool({
+      connectionString: connectionString(),
+      max: concurrency() + 1,
+      idleTimeoutMillis: 10_000,
+      connectionTimeoutMillis: POOL_CONNECT_TIMEOUT_MS,
+    });
+  }
+  return state.pool;
+}
+
+function pending(token: string): Judge0Submission {
+  return {
+    token,
+    stdout: null,
+    stderr: null,
+    compile_output: null,
+    message: null,
+    status: STATUS.inQueue,
+    time: null,
+    memory: null,
+    exit_code: null,
+  };
+}
+
+export interface ScriptSegment {
+  sql: string;
+  tuplesOnly: boolean;
+}
+
+export class MetaCommandError extends Error {
+  readonly name = 'MetaCommandError';
+}
+
+/** The script tries to change session or transaction state. */
+export class SessionControlError extends Error {
+  readonly name = 'SessionControlError';
+}
+
+function parseToggle(arg: string | undefined, current: boolean, line: string): boolean {
+  if (arg === undefined) return !current;
+  if (arg === 'on') return true;
+  if (arg === 'off') return false;
+  throw new MetaCommandError(`invalid value for tuples_only: ${line}`);
+}
+
+/**
+ * Split a psql-flavoured script into SQL segments at its meta-command lines.
+ * Each segment carries the tuples_only setting in force when it runs.
+ */
+export function splitPsqlScript(source: string): ScriptSegment[] {
+  const segments: ScriptSegment[] = [];
+  let tuplesOnly = false;
+  let buffer: string[] = [];
+  const flush = () => {
+    const sql = buffer.join('\n');
+    if (sql.trim() !== '') segments.push({ sql, tuplesOnly });
+    buffer = [];
+  };
+  for (const line of source.split('\n')) {
+    const trimmed = line.trim();
+    if (!trimmed.startsWith('\\')) {
+      buffer.push(line);
+      continue;
+    }
+    flush();
+    const [cmd, ...args] = trimmed.split(/\s+/);
+    if (cmd === '\\t') {
+      tuplesOnly = parseToggle(args[0], tuplesOnly, trimmed);
+    } else if (cmd === '\\pset' && args[0] === 'tuples_only') {
+      tuplesOnly = parseToggle(args[1], tuplesOnly, trimmed);
+    } else {
+      throw new MetaCommandError(`unsupported psql meta-command: ${trimmed}`);
+    }
+  }
+  flush();
+  return segments;
+}
+
+interface Statement {
+  sql: string;
+  /** Upper-cased leading keyword; undefined when it opens with a symbol, e.g. `(`. */
+  keyword: string | undefined;
+}
+
+/**
+ * Split `sql` at its top-level semicolons, skipping comments, quoted strings
+ * and identifiers, and dollar-quoted bodies, so a `BEGIN` inside a DO block or
+ * a `'set'` literal is not mistaken for a statement. Comment-only pieces are
+ * dropped.
+ */
+function scanStatements(sql: string): Statement[] {
+  const statements: Statement[] = [];
+  let start = 0;
+  let keyword: string | undefined;
+  let hasToken = false;
+  const end = (at: number) => {
+    if (hasToken) statements.push({ sql: sql.slice(start, at), keyword });
+    start = at + 1;
+    keyword = undefined;
+    hasToken = false;
+  };
+  let i = 0;
+  while (i < sql.length) {
+    const ch = sql[i];
+    const next = sql[i + 1];
+    if (/\s/.test(ch)) {
+      i += 1;
+    } else if (ch === '-' && next === '-') {
+      const eol = sql.indexOf('\n', i);
+      i = eol === -1 ? sql.length : eol + 1;
+    } else if (ch === '/' && next === '*') {
+      let depth = 1;
+      i += 2;
+      while (i < sql.length && depth > 0) {
+        const pair = sql.slice(i, i + 2);
+        if (pair === '/*' || pair === '*/') {
+          depth += pair === '/*' ? 1 : -1;
+          i += 2;
+        } else {
+          i += 1;
+        }
+      }
+    } else if (ch === ';') {
+      end(i);
+      i += 1;
+    } else {
+      const word = /^[A-Za-z_]+/.exec(sql.slice(i))?.[0];
+      if (!hasToken) keyword = word?.toUpperCase();
+      hasToken = true;
+      i = skipToken(sql, i, word);
+    }
+  }
+  end(sql.length);
+  return statements;
+}
+
+/** The leading keyword (upper-cased) of each statement in `sql`. */
+export function leadingKeywords(sql: string): string[] {
+  return scanStatements(sql).flatMap((s) => (s.keyword ? [s.keyword] : []));
+}
+
+/** The statements in `sql`, one per cursor — the extended protocol runs one at a time. */
+export function splitStatements(sql: string): string[] {
+  return scanStatements(sql).map((s) => s.sql);
+}
+
+/** Index just past the token (word, quoted string, dollar body or symbol) at `i`. */
+function skipToken(sql: string, i: number, word: string | undefined): number {
+  const ch = sql[i];
+  // E'…' strings take backslash escapes; a plain word just ends.
+  if (word) {
+    const end = i + word.length;
+    return /^[Ee]$/.test(word) && sql[end] === "'" ? skipQuoted(sql, end, "'", true) : end;
+  }
+  if (ch === "'" || ch === '"') return skipQuoted(sql, i, ch, false);
+  if (ch === '$') {
+    const tag = /^\$(?:[A-Za-z_][A-Za-z0-9_]*)?\$/.exec(sql.slice(i))?.[0];
+    if (tag) {
+      const end = sql.indexOf(tag, i + tag.length);
+      return end === -1 ? sql.length : end + tag.length;
+    }
+  }
+  return i + 1;
+}
+
+function skipQuoted(sql: string, i: number, quote: string, backslashEscapes: boolean): number {
+  let j = i + 1;
+  while (j < sql.length) {
+    if (backslashEscapes && sql[j] === '\\') j += 2;
+    else if (sql[j] === quote && sql[j + 1] === quote) j += 2;
+    else if (sql[j] === quote) return j + 1;
+    else j += 1;
+  }
+  return j;
+}
+
+/** Throws SessionControlError for the first statement that would change session state. */
+export function assertNoSessionControl(segments: ScriptSegment[]): void {
+  for (const segment of segments) {
+    const keyword = leadingKeywords(segment.sql).find((k) => SESSION_CONTROL.has(k));
+    if (keyword) throw new SessionControlError(`${keyword} is not allowed in the SQL sandbox`);
+  }
+}
+
+function escapeCopyCell(value: unknown): string {
+  if (value === null || value === undefined) return '\\N';
+  return String(value)
+    .replace(/\\/g, '\\\\')
+    .replace(/\t/g, '\\t')
+    .replace(/\n/g, '\\n')
+    .replace(/\r/g, '\\r');
+}
+
+/**
+ * Row-returning results → COPY-text lines. Commands without a result set
+ * (CREATE, INSERT …) print nothing, like psql with tuples_only on.
+ */
+export function formatResultSets(
+  results: Pick<QueryResult<unknown[]>, 'fields' | 'rows'>[],
+  tuplesOnly: boolean,
+): string {
+  let out = '';
+  for (const result of results) {
+    if (!result.fields || result.fields.length === 0) continue;
+    if (!tuplesOnly) out += result.fields.map((f) => escapeCopyCell(f.name)).join('\t') + '\n';
+    for (const row of result.rows) {
+      out += row.map(escapeCopyCell).join('\t') + '\n';
+    }
+  }
+  return out;
+}
+
+function readBatch(cursor: Cursor<unknown[]>): Promise<{ fields: FieldDef[]; rows: unknown[][] }> {
+  return new Promise((resolve, reject) => {
+    // The callback form, unlike the promise, also hands back the field list.
+    cursor.read(FETCH_BATCH_ROWS, (err, rows, result) =>
+      err ? reject(err) : resolve({ fields: result?.fields ?? [], rows }),
+    );
+  });
+}
+
+/**
+ * Run one statement through a cursor, appending its COPY-text to `stdout`
+ * a batch at a time so a runaway result set stops at OUTPUT_LIMIT_BYTES
+ * instead of being loaded whole into this process.
+ */
+async function streamStatement(client: PoolClient, sql: string, tuplesOnly: boolean, stdout: string): Promise<string> {
+  const cursor = client.query(new Cursor<unknown[]>(sql, [], { rowMode: 'array', types: RAW_TEXT }));
+  let header = !tuplesOnly;
+  for (;;) {
+    const batch = await readBatch(cursor);
+    stdout += formatResultSets([batch], !header);
+    header = false;
+    if (batch.rows.length === 0) return stdout;
+    if (Buffer.byteLength(stdout) > OUTPUT_LIMIT_BYTES) {
+      // Closes the portal; on an error the ROLLBACK in execute() does.
+      await cursor.close();
+      return stdout;
+    }
+  }
+}
+
+async function execute(token: string, opts: SubmitOptions): Promise<Judge0Submission> {
+  const started = process.hrtime.bigint();
+  const finish = (
+    status: Judge0Submission['status'],
+    stdout: string,
+    stderr: string | null,
+    message: string | null,
+  ): Judge0Submission => ({
+    token,
+    stdout,
+    stderr,
+    compile_output: null,
+    message,
+    status,
+    time: (Number(process.hrtime.bigint() - started) / 1e9).toFixed(3),
+    memory: null,
+    exit_code: status.id === STATUS.accepted.id || status.id === STATUS.wrongAnswer.id ? 0 : null,
+  });
+
+  let segments: ScriptSegment[];
+  try {
+    segments = splitPsqlScript(opts.sourceCode);
+    assertNoSessionControl(segments);
+  } catch (err) {
+    if (err instanceof MetaCommandError || err instanceof SessionControlError) {
+      return finish(STATUS.nzec, '', `ERROR:  ${err.message}`, null);
+    }
+    throw err;
+  }
+
+  const client = await getPool().connect();
+  const schema = `sbx_${token.slice(POSTGRES_TOKEN_PREFIX.length).replace(/-/g, '')}`;
+  const timeoutMs = Math.round((opts.cpuTimeLimit ?? 10) * 1000);
+  let stdout = '';
+  let timedOut = false;
+  let stopWatchdog = () => {};
+  try {
+    const { rows } = await client.query<{ pid: number }>('SELECT pg_backend_pid() AS pid');
+    stopWatchdog = startWatchdog(rows[0].pid, timeoutMs, () => {
+      timedOut = true;
+    });
+    await client.query(`CREATE SCHEMA ${schema}`);
+    await client.query('BEGIN');
+    await client.query(`SET LOCAL search_path TO ${schema}`);
+    await client.query(`SET LOCAL statement_timeout = ${timeoutMs}`);
+    for (const segment of segments) {
+      for (const sql of splitStatements(segment.sql)) {
+        if (timedOut) return finish(STATUS.timeLimit, stdout, null, 'Time limit exceeded');
+        stdout = await streamStatement(client, sql, segment.tuplesOnly, stdout);
+        if (Buffer.byteLength(stdout) > OUTPUT_LIMIT_BYTES) {
+          return finish(STATUS.sigxfsz, stdout.slice(0, OUTPUT_LIMIT_BYTES), null, 'Output limit exceeded');
+        }
+      }
+    }
+  } catch (err) {
+    const pgErr = err as { code?: string; message?: string };
+    if (timedOut || pgErr.code === QUERY_CANCELED) return finish(STATUS.timeLimit, stdout, null, 'Time limit exceeded');
+    if (typeof pgErr.code === 'string') {
+      return finish(STATUS.nzec, stdout, `ERROR:  ${pgErr.message ?? 'query failed'}`, null);
+    }
+    throw err;
+  } finally {
+    stopWatchdog();
+    try {
+      await client.query('ROLLBACK');
+      await client.query(`DROP SCHEMA IF EXISTS ${schema} CASCADE`);
+      await client.query('DISCARD ALL');
+      client.release();
+    } catch (cleanupErr) {
+      // A connection we could not reset must not go back into the pool.
+      client.release(cleanupErr instanceof Error ? cleanupErr : true);
+      await getPool()
+        .query(`DROP SCHEMA IF EXISTS ${schema} CASCADE`)
+        .catch((err) => console.warn('[postgres-sandbox] could not drop', schema, err));
+    }
+  }
+
+  if (opts.expectedStdout !== undefined && opts.expectedStdout !== null) {
+    return finish(outputsMatch(stdout, opts.expectedStdout) ? STATUS.accepted : STATUS.wrongAnswer, stdout, null, null);
+  }
+  return finish(STATUS.accepted, stdout, null, null);
+}
+
+/**
+ * Cancel the backend `pid` once `timeoutMs` passes, retrying every
+ * CANCEL_RETRY_MS (a cancel that lands between statements is lost) and
+ * terminating the backend after CANCEL_ATTEMPTS. Runs on another pooled
+ * connection, so nothing the script does to its own session can stop it.
+ * Returns the function that disarms it.
+ */
+function startWatchdog(pid: number, timeoutMs: number, onTimeout: () => void): () => void {
+  let attempts = 0;
+  const fire = () => {
+    onTimeout();
+    attempts += 1;
+    const fn = attempts > CANCEL_ATTEMPTS ? 'pg_terminate_backend' : 'pg_cancel_backend';
+    getPool()
+      .query(`SELECT ${fn}($1)`, [pid])
+      .catch((err) => console.warn(`[postgres-sandbox] ${fn}(${pid}) failed:`, err));
+    timer = setTimeout(fire, CANCEL_RETRY_MS);
+  };
+  let timer = setTimeout(fire, timeoutMs);
+  return () => clearTimeout(timer);
+}
+
+function pump(): void {
+  while (state.active < concurrency() && state.queue.length > 0) {
+    const job = state.queue.shift()!;
+    state.active += 1;
+    job().finally(() => {
+      state.active -= 1;
+      pump();
+    });
+  }
+}
+
+function internalError(token: string, message: string): Judge0Submission {
+  return { ...pending(token), status: STATUS.internal, message };
+}
+
+async function saveResult(token: string, submission: Judge0Submission): Promise<void> {
+  await prisma.postgresSandboxRun.update({
+    where: { token },
+    data: { submission: submission as unknown as Prisma.InputJsonValue, finishedAt: new Date() },
+  });
+}
+
+/** Drop run results older than RESULT_TTL_MS; called by cleanupService. */
+export async function purgeExpiredSandboxRuns(now = Date.now()): Promise<number> {
+  const { count } = await prisma.postgresSandboxRun.deleteMany({
+    where: { createdAt: { lt: new Date(now - RESULT_TTL_MS) } },
+  });
+  return count;
+}
+
+function assertEnabled(): void {
+  if (!isCodingEnabled()) throw new CodingFeatureDisabledError();
+}
+
+export const postgresSandboxBackend: Pick<ExecutionBackend, 'languages' | 'submit' | 'getSubmission'> = {
+  languages: ['sql'],
+
+  async submit(opts) {
+    assertEnabled();
+    if (opts.language !== 'sql') {
+      throw new UnsupportedLanguageError(opts.language);
+    }
+    // Fail the submit (→ JUDGE0_UNAVAILABLE) rather than every queued run.
+    connectionString();
+    const token = `${POSTGRES_TOKEN_PREFIX}${randomUUID()}`;
+    await prisma.postgresSandboxRun.create({
+      data: { token, submission: pending(token) as unknown as Prisma.InputJsonValue },
+    });
+    state.queue.push(async () => {
+      let submission: Judge0Submission;
+      try {
+        submission = await execute(token, opts);
+      } catch (err) {
+        submission = internalError(token, err instanceof Error ? err.message : String(err));
+      }
+      try {
+        await saveResult(token, submission);
+      } catch (err) {
+        // The poll reports the run lost once RUN_LOST_MS passes.
+        console.error(`[postgres-sandbox] could not store the result of ${token}:`, err);
+      }
+    });
+    pump();
+    return { token };
+  },
+
+  async getSubmission(token) {
+    assertEnabled();
+    const run = await prisma.postgresSandboxRun.findUnique({ where: { token } });
+    if (!run) return internalError(token, 'Unknown Postgres sandbox token');
+    if (run.finishedAt === null && Date.now() - run.createdAt.getTime() > RUN_LOST_MS) {
+      return internalError(token, 'Postgres sandbox run was lost before it finished');
+    }
+    return run.submission as unknown as Judge0Submission;
+  },
+};
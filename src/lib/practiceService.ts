@@ -0,0 +1,150 @@
+/**
+ * practiceService.ts
+ *
+ * Persistence for the associate spaced-repetition practice queue
+ * (/associate/[slug]/practice). Cards are derived lazily: every visit to the
+ * practice page syncs new low-scoring questions from completed sessions, so
+ * sessions from before this feature are picked up without a backfill.
+ *
+ * Reviews reschedule the card (SM-2, spacedRepetition.ts) and feed the grade
+ * into GapScore via gapPersistence.persistPracticeOutcomeToGapScore.
+ */
+
+import { prisma } from '@/lib/prisma';
+import { Prisma } from '@/generated/prisma';
+import type { InterviewSession } from '@/lib/types';
+import {
+  practiceCandidates,
+  scheduleReview,
+  type PracticeGrade,
+} from '@/lib/spacedRepetition';
+import { persistPracticeOutcomeToGapScore } from '@/lib/gapPersistence';
+import { log } from '@/lib/logger';
+
+/** Completed sessions scanned for new cards on each sync. */
+const SYNC_SESSION_LIMIT = 20;
+
+export interface PracticeCardView {
+  id: number;
+  skill: string;
+  topic: string;
+  question: string;
+  modelAnswer: string;
+  keywords: string[];
+  sourceScore: number;
+  repetitions: number;
+  intervalDays: number;
+  dueAt: string;
+  lastReviewedAt: string | null;
+  lastGrade: number | null;
+}
+
+export interface PracticeQueue {
+  due: PracticeCardView[];
+  upcomingCount: number;
+  nextDueAt: string | null;
+  totalCards: number;
+}
+
+type CardRow = Prisma.PracticeCardGetPayload<object>;
+
+function toView(row: CardRow): PracticeCardView {
+  return {
+    id: row.id,
+    skill: row.skill,
+    topic: row.topic,
+    question: row.question,
+    modelAnswer: row.modelAnswer,
+    keywords: row.keywords as string[],
+    sourceScore: row.sourceScore,
+    repetitions: row.repetitions,
+    intervalDays: row.intervalDays,
+    dueAt: row.dueAt.toISOString(),
+    lastReviewedAt: row.lastReviewedAt?.toISOString() ?? null,
+    lastGrade: row.lastGrade,
+  };
+}
+
+/**
+ * Create cards for low-scoring questions the associate doesn't have a card
+ * for yet. Existing cards keep their schedule. Returns the number created.
+ */
+export async function syncPracticeCards(associateId: number): Promise<number> {
+  const sessions = await prisma.session.findMany({
+    where: { associateId, status: 'completed' },
+    orderBy: { createdAt: 'desc' },
+    take: SYNC_SESSION_LIMIT,
+    select: { id: true, questions: true, assessments: true, techMap: true },
+  });
+
+  const candidates = practiceCandidates(
+    sessions.map((s) => ({
+      id: s.id,
+      questions: s.questions as unknown as InterviewSession['questions'],
+      assessments: s.assessments as unknown as InterviewSession['assessments'],
+      techMap: (s.techMap ?? undefined) as InterviewSession['techMap'],
+    })),
+  );
+  if (candidates.length === 0) return 0;
+
+  const { count } = await prisma.practiceCard.createMany({
+    data: candidates.map((c) => ({ associateId, ...c })),
+    skipDuplicates: true,
+  });
+  return count;
+}
+
+/** Cards due at `now` (oldest due first) plus a summary of what's coming up. */
+export async function getPracticeQueue(associateId: number, now: Date = new Date()): Promise<PracticeQueue> {
+  const [due, upcomingCount, next, totalCards] = await Promise.all([
+    prisma.practiceCard.findMany({
+      where: { associateId, dueAt: { lte: now } },
+      orderBy: { dueAt: 'asc' },
+    }),
+    prisma.practiceCard.count({ where: { associateId, dueAt: { gt: now } } }),
+    prisma.practiceCard.findFirst({
+      where: { associateId, dueAt: { gt: now } },
+      orderBy: { dueAt: 'asc' },
+      select: { dueAt: true },
+    }),
+    prisma.practiceCard.count({ where: { associateId } }),
+  ]);
+
+  return {
+    due: due.map(toView),
+    upcomingCount,
+    nextDueAt: next?.dueAt.toISOString() ?? null,
+    totalCards,
+  };
+}
+
+/**
+ * Record a review. Returns null when the card doesn't exist or belongs to a
+ * different associate. The GapScore write is fire-and-forget so a slow
+ * transaction never holds up the next card.
+ */
+export async function reviewPracticeCard(
+  associateId: number,
+  cardId: number,
+  grade: PracticeGrade,
+  now: Date = new Date(),
+): Promise<PracticeCardView | null> {
+  const card = await prisma.practiceCard.findFirst({ where: { id: cardId, associateId } });
+  if (!card) return null;
+
+  const next = scheduleReview(card, grade, now);
+  const row = await prisma.practiceCard.update({
+    where: { id: card.id },
+    data: { ...next, lastReviewedAt: now, lastGrade: grade },
+  });
+
+  void persistPracticeOutcomeToGapScore(associateId, card.skill, card.topic, grade).catch((err) =>
+    log.error('practice.gap_score.persist_failed', {
+      associateId,
+      cardId,
+      error: err instanceof Error ? err.message : String(err),
+    }),
+  );
+
+  return toView(row);
+}
@@ -0,0 +1,134 @@
+/**
+ * projectFiles.test.ts — multi-file challenge packaging. The javascript
+ * project runs for real through the local sandbox so sibling requires are
+ * exercised end to end; the ZIP writer Judge0 receives is checked against
+ * its format constants.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+vi.mock('@/lib/prisma', () => ({ prisma: {} }));
+
+import { getSubmission, submit } from './executionBackend';
+import type { StarterFile } from './coding-bank-schemas';
+import type { Judge0Submission } from './judge0Client';
+import {
+  ProjectFilesError,
+  SubmittedFilesSchema,
+  packageProject,
+  prepareSource,
+  readStarterFiles,
+} from './projectFiles';
+import { crc32, createZip } from './zipArchive';
+
+const starter: StarterFile[] = [
+  { path: 'main.js', content: "const { add } = require('./lib/math');\n", readOnly: false },
+  { path: 'lib/math.js', content: 'exports.add = (a, b) => a + b;\n', readOnly: true },
+];
+
+describe('prepareSource', () => {
+  it('overlays editable files and always takes read-only files from the bank', () => {
+    const source = prepareSource('javascript', starter, {
+      files: [
+        { path: 'main.js', content: 'console.log(1);' },
+        { path: 'lib/math.js', content: 'exports.add = () => 0;' },
+      ],
+    });
+    expect(source.sourceCode).toBe('console.log(1);');
+    expect(source.additionalFiles).toEqual([
+      { path: 'lib/math.js', content: 'exports.add = (a, b) => a + b;\n' },
+    ]);
+    expect(source.code).toBe(
+      '// ==== main.js ====\nconsole.log(1);\n\n// ==== lib/math.js ====\nexports.add = (a, b) => a + b;\n',
+    );
+  });
+
+  it('rejects a body shape that does not match the challenge', () => {
+    expect(() => prepareSource('javascript', starter, { code: 'x' })).toThrow(ProjectFilesError);
+    expect(() => prepareSource('javascript', null, { files: [] })).toThrow(ProjectFilesError);
+    expect(() =>
+      prepareSource('javascript', starter, { files: [{ path: 'other.js', content: '' }] }),
+    ).toThrow(/unknown file "other.js"/);
+    expect(prepareSource('python', null, { code: 'print(1)' })).toEqual({
+      code: 'print(1)',
+      sourceCode: 'print(1)',
+      additionalFiles: [],
+    });
+  });
+
+  it('submitted paths cannot escape the project directory', () => {
+    expect(SubmittedFilesSchema.safeParse([{ path: '../etc/passwd', content: '' }]).success).toBe(false);
+    expect(SubmittedFilesSchema.safeParse([{ path: '/abs.py', content: '' }]).success).toBe(false);
+  });
+
+  it('readStarterFiles returns null for single-file rows and throws on corrupt ones', () => {
+    expect(readStarterFiles(null)).toBeNull();
+    expect(readStarterFiles(starter)).toEqual(starter);
+    expect(() => readStarterFiles([{ path: 'a.py' }])).toThrow();
+  });
+});
+
+describe('packageProject (C#)', () => {
+  it('concatenates files with using directives hoisted to the top', () => {
+    const { sourceCode, additionalFiles } = packageProject('csharp', [
+      { path: 'Program.cs', content: 'using System;\n\nclass Program { static void Main() => Console.WriteLine(Cart.Total()); }' },
+      { path: 'Cart.cs', content: 'using System;\nusing System.Linq;\nstatic class Cart { public static int Total() => new[] { 1 }.Sum(); }' },
+    ]);
+    expect(additionalFiles).toEqual([]);
+    expect(sourceCode.startsWith('using System;\nusing System.Linq;\n')).toBe(true);
+    expect(sourceCode.match(/using System;/g)).toHaveLength(1);
+    expect(sourceCode).toContain('// ---- Cart.cs ----\nstatic class Cart');
+  });
+});
+
+describe('createZip', () => {
+  it('writes stored entries with correct CRCs and a central directory', () => {
+    expect(crc32(Buffer.from('123456789'))).toBe(0xcbf43926);
+    const zip = createZip([
+      { path: 'a.txt', content: 'hello' },
+      { path: 'dir/b.txt', content: 'world' },
+    ]);
+    expect(zip.readUInt32LE(0)).toBe(0x04034b50);
+    const end = zip.length - 22;
+    expect(zip.readUInt32LE(end)).toBe(0x06054b50);
+    expect(zip.readUInt16LE(end + 10)).toBe(2);
+    const centralOffset = zip.readUInt32LE(end + 16);
+    expect(zip.readUInt32LE(centralOffset)).toBe(0x02014b50);
+    expect(zip.subarray(30, 35).toString()).toBe('a.txt');
+    expect(zip.subarray(35, 40).toString()).toBe('hello');
+  });
+});
+
+describe('multi-file project under the local sandbox', () => {
+  beforeEach(() => {
+    vi.stubEnv('CODING_CHALLENGES_ENABLED', 'true');
+    vi.stubEnv('CODE_EXECUTION_BACKEND', 'local');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('resolves sibling modules from additionalFiles', async () => {
+    const source = prepareSource('javascript', starter, {
+      files: [
+        {
+          path: 'main.js',
+          content: "const { add } = require('./lib/math');\nconsole.log(add(2, 3));\n",
+        },
+      ],
+    });
+    const { token } = await submit({
+      sourceCode: source.sourceCode,
+      language: 'javascript',
+      additionalFiles: source.additionalFiles,
+      expectedStdout: '5',
+    });
+    let sub: Judge0Submission = await getSubmission(token);
+    for (let i = 0; i < 200 && sub.status.id < 3; i++) {
+      await new Promise((r) => setTimeout(r, 25));
+      sub = await getSubmission(token);
+    }
+    expect(sub.status.id).toBe(3);
+  });
+});
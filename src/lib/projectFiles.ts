@@ -0,0 +1,153 @@
+/**
+ * projectFiles.ts
+ *
+ * Multi-file (project-style) challenges — meta.files in the bank, stored on
+ * CodingChallenge.starterFiles for the graded language. Shared by the submit
+ * and run routes:
+ *
+ *   1. resolveProjectFiles — merge the associate's files onto the starter
+ *      layout: read-only files always come from the bank, unknown paths are
+ *      rejected, so the project shape is fixed by the author.
+ *   2. packageProject — turn the file list into one runner submission. The
+ *      entry file (first) is the main source; the rest ride along as
+ *      `additionalFiles`. C# is concatenated instead: Judge0's Mono compiles
+ *      only Main.cs, while javac / tsc / python / node resolve sibling files
+ *      from the working directory on their own.
+ *   3. formatProjectSource — the single string stored as
+ *      CodingAttempt.submittedCode, one banner per file.
+ */
+
+import { z } from 'zod';
+import type { Judge0Language } from '@/lib/judge0Client';
+import {
+  MAX_STARTER_FILES,
+  StarterFilePathSchema,
+  type StarterFile,
+} from '@/lib/coding-bank-schemas';
+
+export interface ProjectFile {
+  path: string;
+  content: string;
+}
+
+/** Cap on the combined size of a submission's files (same as single `code`) */
+export const MAX_PROJECT_CHARS = 100_000;
+
+export const SubmittedFilesSchema = z
+  .array(
+    z.object({
+      path: StarterFilePathSchema,
+      content: z.string().max(MAX_PROJECT_CHARS),
+    }),
+  )
+  .min(1)
+  .max(MAX_STARTER_FILES)
+  .refine(
+    (files) => files.reduce((n, f) => n + f.content.length, 0) <= MAX_PROJECT_CHARS,
+    { message: `files exceed ${MAX_PROJECT_CHARS} chars combined` },
+  );
+
+const StoredStarterFilesSchema = z.array(
+  z.object({ path: z.string(), content: z.string(), readOnly: z.boolean() }),
+);
+
+export class ProjectFilesError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProjectFilesError';
+  }
+}
+
+/** CodingChallenge.starterFiles → StarterFile[]; null for single-file challenges. */
+export function readStarterFiles(stored: unknown): StarterFile[] | null {
+  if (stored === null || stored === undefined) return null;
+  return StoredStarterFilesSchema.parse(stored);
+}
+
+/**
+ * Overlay the submitted files on the starter layout. Editable files not sent
+ * keep their starter content; read-only files ignore whatever was sent.
+ */
+export function resolveProjectFiles(
+  starter: StarterFile[],
+  submitted: ProjectFile[],
+): ProjectFile[] {
+  const byPath = new Map<string, string>();
+  for (const f of submitted) {
+    if (byPath.has(f.path)) throw new ProjectFilesError(`duplicate file "${f.path}"`);
+    byPath.set(f.path, f.content);
+  }
+  const known = new Set(starter.map((f) => f.path));
+  for (const path of byPath.keys()) {
+    if (!known.has(path)) throw new ProjectFilesError(`unknown file "${path}"`);
+  }
+  return starter.map((f) => ({
+    path: f.path,
+    content: f.readOnly ? f.content : (byPath.get(f.path) ?? f.content),
+  }));
+}
+
+const CSHARP_USING = /^\s*using\s+(static\s+)?[\w.]+(\s*=\s*[\w.<>, ]+)?\s*;\s*$/;
+
+function concatCsharp(files: ProjectFile[]): string {
+  const usings = new Set<string>();
+  const bodies = files.map((f) => {
+    const lines = f.content.split('\n');
+    let i = 0;
+    // Hoist the leading using block; directives are only legal at the top.
+    while (i < lines.length && (CSHARP_USING.test(lines[i]) || /^\s*(\/\/.*)?$/.test(lines[i]))) {
+      if (CSHARP_USING.test(lines[i])) usings.add(lines[i].trim());
+      i++;
+    }
+    return `// ---- ${f.path} ----\n${lines.slice(i).join('\n')}`;
+  });
+  return [...usings, '', ...bodies].join('\n');
+}
+
+export function packageProject(
+  language: Judge0Language,
+  files: ProjectFile[],
+): { sourceCode: string; additionalFiles: ProjectFile[] } {
+  if (files.length === 0) throw new ProjectFilesError('no files to package');
+  if (language === 'csharp') {
+    return { sourceCode: concatCsharp(files), additionalFiles: [] };
+  }
+  const [entry, ...rest] = files;
+  return { sourceCode: entry.content, additionalFiles: rest };
+}
+
+export function formatProjectSource(language: Judge0Language, files: ProjectFile[]): string {
+  const comment = language === 'python' ? '#' : language === 'sql' ? '--' : '//';
+  return files.map((f) => `${comment} ==== ${f.path} ====\n${f.content}`).join('\n\n');
+}
+
+export interface PreparedSource {
+  /** What the attempt stores / the harness wraps: raw code or banner-joined files */
+  code: string;
+  /** Runner payload; for single-file challenges sourceCode === code */
+  sourceCode: string;
+  additionalFiles: ProjectFile[];
+}
+
+/**
+ * Validate a request body against the challenge shape: multi-file challenges
+ * take `files`, single-file challenges take `code`. Throws ProjectFilesError
+ * with a client-safe message on mismatch.
+ */
+export function prepareSource(
+  language: Judge0Language,
+  starterFiles: StarterFile[] | null,
+  body: { code?: string; files?: ProjectFile[] },
+): PreparedSource {
+  if (!starterFiles) {
+    if (body.code === undefined) {
+      throw new ProjectFilesError('This challenge takes a single `code` string');
+    }
+    return { code: body.code, sourceCode: body.code, additionalFiles: [] };
+  }
+  if (body.files === undefined) {
+    throw new ProjectFilesError('This challenge takes `files`');
+  }
+  const files = resolveProjectFiles(starterFiles, body.files);
+  return { code: formatProjectSource(language, files), ...packageProject(language, files) };
+}
@@ -0,0 +1,106 @@
+/**
+ * questionBankLint.ts
+ *
+ * Linter for interview question-bank markdown. Shared by the
+ * `validate-question-bank` CLI and the /question-banks validation panel so
+ * both report the same problems.
+ *
+ * Structural checks come from the parser's strict mode
+ * (parseInterviewQuestionsStrict); this module adds checks that need outside
+ * context — today, whether each question's topic matches a
+ * CurriculumWeek.skillSlug. Pure: callers load files and skill slugs.
+ */
+
+import {
+  parseInterviewQuestionsStrict,
+  type QuestionBankIssue,
+} from './markdownParser';
+import { toSkillSlug } from './skillSlug';
+
+export interface QuestionBankLintOptions {
+  /** Known CurriculumWeek.skillSlug values; topic checks are skipped when empty. */
+  skillSlugs?: string[];
+}
+
+export interface QuestionBankLintResult {
+  path: string;
+  questionCount: number;
+  issues: QuestionBankIssue[];
+  errorCount: number;
+  warningCount: number;
+}
+
+/**
+ * Whether a repo path should be linted as a question bank. READMEs and the
+ * `rubrics/` directory (skill rubrics, see rubricService) are markdown too
+ * but contain no questions.
+ */
+export function isQuestionBankPath(path: string): boolean {
+  const normalized = path.replace(/\\/g, '/');
+  const name = normalized.split('/').pop() ?? '';
+  return (
+    name.toLowerCase().endsWith('.md') &&
+    name.toLowerCase() !== 'readme.md' &&
+    !/(^|\/)rubrics\//.test(normalized)
+  );
+}
+
+/**
+ * A topic matches when its slug equals a skill slug or starts with one
+ * ("react-hooks" is covered by the "react" week).
+ */
+function topicMatchesSkill(topic: string, skillSlugs: Set<string>): boolean {
+  const slug = toSkillSlug(topic);
+  if (!slug) return true;
+  if (skillSlugs.has(slug)) return true;
+  for (const skill of skillSlugs) {
+    if (slug.startsWith(`${skill}-`)) return true;
+  }
+  return false;
+}
+
+export function lintQuestionBank(
+  path: string,
+  content: string,
+  options: QuestionBankLintOptions = {},
+): QuestionBankLintResult {
+  const { questions, issues } = parseInterviewQuestionsStrict(content, 1);
+
+  const skillSlugs = new Set((options.skillSlugs ?? []).map(toSkillSlug).filter(Boolean));
+  if (skillSlugs.size > 0) {
+    // Line numbers for topic issues point at the question header.
+    const headerLines = new Map<number, number>();
+    content.replace(/\r\n/g, '\n').split('\n').forEach((text, i) => {
+      const m = text.match(/^###\s+Q(\d+):/);
+      if (m && !headerLines.has(Number(m[1]))) headerLines.set(Number(m[1]), i + 1);
+    });
+
+    for (const q of questions) {
+      if (q.topic && !topicMatchesSkill(q.topic, skillSlugs)) {
+        issues.push({
+          severity: 'warning',
+          code: 'unknown-topic',
+          message: `Q${q.questionNumber} topic "${q.topic}" does not match any curriculum skill`,
+          line: headerLines.get(q.questionNumber) ?? 1,
+          questionNumber: q.questionNumber,
+        });
+      }
+    }
+    issues.sort((a, b) => a.line - b.line);
+  }
+
+  return {
+    path,
+    questionCount: questions.length,
+    issues,
+    errorCount: issues.filter((i) => i.severity === 'error').length,
+    warningCount: issues.filter((i) => i.severity === 'warning').length,
+  };
+}
+
+/** One line per issue: `path:line  error  code  message`. */
+export function formatLintResult(result: QuestionBankLintResult): string[] {
+  return result.issues.map(
+    (i) => `${result.path}:${i.line}  ${i.severity.padEnd(7)}  ${i.code.padEnd(26)}  ${i.message}`,
+  );
+}
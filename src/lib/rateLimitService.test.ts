@@ -1,32 +1,41 @@
 /**
  * rateLimitService.test.ts
  *
- * Tests for the `coding-submit` scope extension added in Phase 39 Plan 01.
- * Existing interview fingerprint scope is covered elsewhere; this file only
- * exercises checkCodingSubmitRateLimit / incrementCodingSubmitCount.
+ * Tests for the `coding-submit` scope extension added in Phase 39 Plan 01,
+ * plus the `coding-run` scope used by scratch runs and the interview
+ * fingerprint scope, run against the in-memory rate-limit store.
  */
 
-import fs from 'fs';
-import path from 'path';
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { _setRateLimitStorageForTest, createMemoryRateLimitStorage, type RateLimitStorage } from './rateLimiter';
+import {
+  checkCodingRunRateLimit,
+  checkCodingSubmitRateLimit,
+  checkRateLimit,
+  consumeCodingRunRateLimit,
+  consumeCodingSubmitRateLimit,
+  consumeInterviewRateLimit,
+  refundCodingSubmitCount,
+} from './rateLimitService';
 
-const RATE_LIMITS_PATH = path.join(process.cwd(), 'data', 'rate-limits.json');
+let storage: RateLimitStorage;
 
-function resetRateLimitsFile() {
-  const dir = path.dirname(RATE_LIMITS_PATH);
-  if (!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true });
-  fs.writeFileSync(RATE_LIMITS_PATH, JSON.stringify({}), 'utf-8');
+function resetStorage() {
+  storage = createMemoryRateLimitStorage();
+  _setRateLimitStorageForTest(storage);
 }
 
-// Import after reset so the module reads a clean file.
-import {
-  checkCodingSubmitRateLimit,
-  incrementCodingSubmitCount,
-} from './rateLimitService';
+async function stored(key: string) {
+  return (await storage.get(key, Date.now())).value as { count: number } | null;
+}
+
+async function times(n: number, fn: () => Promise<unknown>) {
+  for (let i = 0; i < n; i++) await fn();
+}
 
 describe('rateLimitService — coding-submit scope', () => {
   beforeEach(() => {
-    resetRateLimitsFile();
+    resetStorage();
     vi.unstubAllEnvs();
   });
 
@@ -35,150 +44,232 @@ describe('rateLimitService — coding-submit scope', () => {
     vi.unstubAllEnvs();
   });
 
-  it('first call for new userKey returns allowed with full remaining budget', () => {
-    const result = checkCodingSubmitRateLimit('associate:42');
+  it('first call for new userKey returns allowed with full remaining budget', async () => {
+    const result = await checkCodingSubmitRateLimit('associate:42');
     expect(result.allowed).toBe(true);
     expect(result.hourlyRemaining).toBe(30);
     expect(result.dailyRemaining).toBe(200);
     expect(result.retryAfterSeconds).toBeUndefined();
   });
 
-  it('after 30 hourly increments, 31st call is blocked with retry-after', () => {
+  it('after 30 hourly submits, 31st call is blocked with retry-after', async () => {
     vi.useFakeTimers();
     vi.setSystemTime(new Date('2026-01-15T10:00:00Z'));
-    for (let i = 0; i < 30; i++) {
-      incrementCodingSubmitCount('associate:42');
-    }
-    const result = checkCodingSubmitRateLimit('associate:42');
+    await times(30, () => consumeCodingSubmitRateLimit('associate:42'));
+    const result = await checkCodingSubmitRateLimit('associate:42');
     expect(result.allowed).toBe(false);
     expect(result.retryAfterSeconds).toBeGreaterThan(0);
     expect(result.error).toBeTruthy();
   });
 
-  it('hourly counter resets after 1 hour', () => {
+  it('hourly counter resets after 1 hour', async () => {
     vi.useFakeTimers();
     vi.setSystemTime(new Date('2026-01-15T10:00:00Z'));
-    for (let i = 0; i < 30; i++) incrementCodingSubmitCount('associate:42');
-    expect(checkCodingSubmitRateLimit('associate:42').allowed).toBe(false);
+    await times(30, () => consumeCodingSubmitRateLimit('associate:42'));
+    expect((await checkCodingSubmitRateLimit('associate:42')).allowed).toBe(false);
 
     // Advance 1h + 1s
     vi.setSystemTime(new Date('2026-01-15T11:00:01Z'));
-    const result = checkCodingSubmitRateLimit('associate:42');
+    const result = await checkCodingSubmitRateLimit('associate:42');
     expect(result.allowed).toBe(true);
     expect(result.hourlyRemaining).toBe(30);
   });
 
-  it('daily counter resets at next midnight', () => {
+  it('daily counter resets at next midnight', async () => {
     vi.useFakeTimers();
     vi.setSystemTime(new Date('2026-01-15T10:00:00Z'));
     // Increment 30 in this hour (hits hourly limit but also daily counter)
-    for (let i = 0; i < 30; i++) incrementCodingSubmitCount('associate:42');
+    await times(30, () => consumeCodingSubmitRateLimit('associate:42'));
 
     // Advance past the hourly window — 1 hour later
     vi.setSystemTime(new Date('2026-01-15T11:30:00Z'));
-    for (let i = 0; i < 30; i++) incrementCodingSubmitCount('associate:42');
+    await times(30, () => consumeCodingSubmitRateLimit('associate:42'));
     vi.setSystemTime(new Date('2026-01-15T12:30:00Z'));
-    for (let i = 0; i < 30; i++) incrementCodingSubmitCount('associate:42');
+    await times(30, () => consumeCodingSubmitRateLimit('associate:42'));
     vi.setSystemTime(new Date('2026-01-15T13:30:00Z'));
-    for (let i = 0; i < 30; i++) incrementCodingSubmitCount('associate:42');
+    await times(30, () => consumeCodingSubmitRateLimit('associate:42'));
     vi.setSystemTime(new Date('2026-01-15T14:30:00Z'));
-    for (let i = 0; i < 30; i++) incrementCodingSubmitCount('associate:42');
+    await times(30, () => consumeCodingSubmitRateLimit('associate:42'));
     vi.setSystemTime(new Date('2026-01-15T15:30:00Z'));
-    for (let i = 0; i < 30; i++) incrementCodingSubmitCount('associate:42');
+    await times(30, () => consumeCodingSubmitRateLimit('associate:42'));
     vi.setSystemTime(new Date('2026-01-15T16:30:00Z'));
-    for (let i = 0; i < 20; i++) incrementCodingSubmitCount('associate:42');
+    await times(20, () => consumeCodingSubmitRateLimit('associate:42'));
 
     // 200 total — next call should hit daily cap
     vi.setSystemTime(new Date('2026-01-15T16:45:00Z'));
-    const blocked = checkCodingSubmitRateLimit('associate:42');
+    const blocked = await checkCodingSubmitRateLimit('associate:42');
     expect(blocked.allowed).toBe(false);
 
     // Cross midnight
     vi.setSystemTime(new Date('2026-01-16T00:30:00Z'));
-    const reset = checkCodingSubmitRateLimit('associate:42');
+    const reset = await checkCodingSubmitRateLimit('associate:42');
     expect(reset.allowed).toBe(true);
     expect(reset.dailyRemaining).toBe(200);
     expect(reset.hourlyRemaining).toBe(30);
   });
 
-  it('env override CODING_SUBMIT_RATE_HOURLY=5 changes hourly limit', () => {
+  it('env override CODING_SUBMIT_RATE_HOURLY=5 changes hourly limit', async () => {
     vi.stubEnv('CODING_SUBMIT_RATE_HOURLY', '5');
-    for (let i = 0; i < 5; i++) incrementCodingSubmitCount('associate:99');
-    const result = checkCodingSubmitRateLimit('associate:99');
+    await times(5, () => consumeCodingSubmitRateLimit('associate:99'));
+    const result = await checkCodingSubmitRateLimit('associate:99');
     expect(result.allowed).toBe(false);
   });
 
-  it('env override CODING_SUBMIT_RATE_DAILY=3 changes daily limit', () => {
+  it('env override CODING_SUBMIT_RATE_DAILY=3 changes daily limit', async () => {
     vi.stubEnv('CODING_SUBMIT_RATE_DAILY', '3');
-    for (let i = 0; i < 3; i++) incrementCodingSubmitCount('associate:100');
-    const result = checkCodingSubmitRateLimit('associate:100');
+    await times(3, () => consumeCodingSubmitRateLimit('associate:100'));
+    const result = await checkCodingSubmitRateLimit('associate:100');
     expect(result.allowed).toBe(false);
   });
 
-  it('associate and trainer userKeys counted separately', () => {
-    for (let i = 0; i < 30; i++) incrementCodingSubmitCount('associate:42');
-    const assocResult = checkCodingSubmitRateLimit('associate:42');
+  it('associate and trainer userKeys counted separately', async () => {
+    await times(30, () => consumeCodingSubmitRateLimit('associate:42'));
+    const assocResult = await checkCodingSubmitRateLimit('associate:42');
     expect(assocResult.allowed).toBe(false);
 
-    const trainerResult = checkCodingSubmitRateLimit('trainer:abc-uuid');
+    const trainerResult = await checkCodingSubmitRateLimit('trainer:abc-uuid');
     expect(trainerResult.allowed).toBe(true);
     expect(trainerResult.hourlyRemaining).toBe(30);
   });
 
-  it('coding-submit keys do NOT collide with interview fingerprint keys', () => {
-    for (let i = 0; i < 30; i++) incrementCodingSubmitCount('associate:42');
+  it('coding-submit keys do NOT collide with interview fingerprint keys', async () => {
+    await times(30, () => consumeCodingSubmitRateLimit('associate:42'));
 
-    // Read raw file — ensure coding-submit key is namespaced
-    const raw = JSON.parse(fs.readFileSync(RATE_LIMITS_PATH, 'utf-8'));
-    const keys = Object.keys(raw);
-    expect(keys.some((k) => k.startsWith('coding-submit:'))).toBe(true);
-    // Ensure no raw 'associate:42' key without namespace
-    expect(keys).not.toContain('associate:42');
+    // Namespaced per scope and window; no bare 'associate:42' key
+    expect((await stored('coding-submit:associate:42:hour'))?.count).toBe(30);
+    expect((await stored('coding-submit:associate:42:day'))?.count).toBe(30);
+    expect(await stored('associate:42')).toBeNull();
   });
 
-  it('WR-03: check does NOT rewrite disk when no window has rolled', () => {
-    // Seed a bucket inside both the hourly and daily windows.
+  it('WR-03: check never writes to the store', async () => {
     vi.useFakeTimers();
     vi.setSystemTime(new Date('2026-01-15T10:00:00Z'));
-    incrementCodingSubmitCount('associate:42'); // creates & persists bucket
-    const afterIncrement = fs.readFileSync(RATE_LIMITS_PATH, 'utf-8');
+    await consumeCodingSubmitRateLimit('associate:42'); // creates & persists bucket
+    const before = await storage.get('coding-submit:associate:42:hour', Date.now());
 
-    // Advance 5 minutes — still inside the same hourly window, same UTC day.
-    vi.setSystemTime(new Date('2026-01-15T10:05:00Z'));
-    const result = checkCodingSubmitRateLimit('associate:42');
-    expect(result.allowed).toBe(true);
+    // Advance past the hourly window — the check sees a fresh window
+    // without rewriting the stored one.
+    vi.setSystemTime(new Date('2026-01-15T11:05:00Z'));
+    const result = await checkCodingSubmitRateLimit('associate:42');
+    expect(result.hourlyRemaining).toBe(30);
+    expect(result.dailyRemaining).toBe(199);
 
-    // File must be byte-identical: no rollover, no write.
-    const afterCheck = fs.readFileSync(RATE_LIMITS_PATH, 'utf-8');
-    expect(afterCheck).toBe(afterIncrement);
+    const after = await storage.get('coding-submit:associate:42:hour', new Date('2026-01-15T10:05:00Z').getTime());
+    expect(after).toEqual(before);
   });
 
-  it('WR-03: check DOES rewrite disk when the hourly window has rolled', () => {
-    vi.useFakeTimers();
-    vi.setSystemTime(new Date('2026-01-15T10:00:00Z'));
-    incrementCodingSubmitCount('associate:42');
-    const beforeRoll = fs.readFileSync(RATE_LIMITS_PATH, 'utf-8');
-
-    // Advance past the hourly window.
-    vi.setSystemTime(new Date('2026-01-15T11:05:00Z'));
-    checkCodingSubmitRateLimit('associate:42');
+  it('lets only the budget through when submits arrive concurrently', async () => {
+    vi.stubEnv('CODING_SUBMIT_RATE_HOURLY', '3');
+    const results = await Promise.all(
+      Array.from({ length: 10 }, () => consumeCodingSubmitRateLimit('associate:42')),
+    );
+    expect(results.filter((r) => r.allowed)).toHaveLength(3);
+    expect(results.find((r) => !r.allowed)?.error).toMatch(/Hourly coding-submit limit/);
+    expect((await stored('coding-submit:associate:42:hour'))?.count).toBe(3);
+  });
 
-    const afterRoll = fs.readFileSync(RATE_LIMITS_PATH, 'utf-8');
-    expect(afterRoll).not.toBe(beforeRoll);
-    // Bucket is now reset — count should be 0.
-    const parsed = JSON.parse(afterRoll);
-    expect(parsed['coding-submit:associate:42'].hourlyCount).toBe(0);
+  it('refund gives a consumed submit back to both windows', async () => {
+    expect((await consumeCodingSubmitRateLimit('associate:42')).hourlyRemaining).toBe(29);
+    await refundCodingSubmitCount('associate:42');
+    const result = await checkCodingSubmitRateLimit('associate:42');
+    expect(result.hourlyRemaining).toBe(30);
+    expect(result.dailyRemaining).toBe(200);
   });
 
-  it('returns retryAfterSeconds at earliest of next hour window or midnight', () => {
+  it('returns retryAfterSeconds at earliest of next hour window or midnight', async () => {
     vi.useFakeTimers();
     // 23:30 — next midnight in 30 min; next hour window in 60 min
     vi.setSystemTime(new Date('2026-01-15T23:30:00Z'));
-    for (let i = 0; i < 30; i++) incrementCodingSubmitCount('associate:42');
-    const result = checkCodingSubmitRateLimit('associate:42');
+    await times(30, () => consumeCodingSubmitRateLimit('associate:42'));
+    const result = await checkCodingSubmitRateLimit('associate:42');
     expect(result.allowed).toBe(false);
     // retryAfter should be ~ 30min (midnight) not 60min
     expect(result.retryAfterSeconds).toBeLessThanOrEqual(30 * 60 + 5);
     expect(result.retryAfterSeconds).toBeGreaterThan(0);
   });
 });
+
+describe('rateLimitService — coding-run scope', () => {
+  beforeEach(() => {
+    resetStorage();
+    vi.unstubAllEnvs();
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('has a lighter budget than submit (120/hour, 600/day by default)', async () => {
+    const result = await checkCodingRunRateLimit('associate:42');
+    expect(result.hourlyRemaining).toBe(120);
+    expect(result.dailyRemaining).toBe(600);
+  });
+
+  it('runs and submits are counted independently', async () => {
+    await times(30, () => consumeCodingSubmitRateLimit('associate:42'));
+    expect((await checkCodingSubmitRateLimit('associate:42')).allowed).toBe(false);
+    expect((await checkCodingRunRateLimit('associate:42')).allowed).toBe(true);
+
+    await consumeCodingRunRateLimit('associate:42');
+    expect((await checkCodingRunRateLimit('associate:42')).hourlyRemaining).toBe(119);
+
+    expect((await stored('coding-run:associate:42:hour'))?.count).toBe(1);
+    expect((await stored('coding-submit:associate:42:hour'))?.count).toBe(30);
+  });
+
+  it('env override CODING_RUN_RATE_HOURLY=2 blocks the third run', async () => {
+    vi.stubEnv('CODING_RUN_RATE_HOURLY', '2');
+    await consumeCodingRunRateLimit('associate:7');
+    await consumeCodingRunRateLimit('associate:7');
+    const result = await checkCodingRunRateLimit('associate:7');
+    expect(result.allowed).toBe(false);
+    expect(result.error).toMatch(/Hourly run limit/);
+    expect(result.retryAfterSeconds).toBeGreaterThan(0);
+  });
+});
+
+describe('rateLimitService — interview fingerprint scope', () => {
+  beforeEach(() => {
+    resetStorage();
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date(2026, 0, 15, 8, 0, 0));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('allows two interviews per session and resets 13 hours later', async () => {
+    await consumeInterviewRateLimit('fp-1');
+    await consumeInterviewRateLimit('fp-1');
+    const blocked = await checkRateLimit('fp-1');
+    expect(blocked.allowed).toBe(false);
+    expect(blocked.nextReset).toEqual(new Date(2026, 0, 15, 21, 0, 0));
+
+    vi.setSystemTime(new Date(2026, 0, 15, 21, 0, 1));
+    expect(await checkRateLimit('fp-1')).toMatchObject({ allowed: true, remaining: 2 });
+  });
+
+  it('resets at local midnight when that comes before 13 hours', async () => {
+    vi.setSystemTime(new Date(2026, 0, 15, 20, 0, 0));
+    await consumeInterviewRateLimit('fp-1');
+    await consumeInterviewRateLimit('fp-1');
+    expect((await checkRateLimit('fp-1')).nextReset).toEqual(new Date(2026, 0, 16, 0, 0, 0));
+
+    vi.setSystemTime(new Date(2026, 0, 16, 0, 0, 1));
+    expect((await checkRateLimit('fp-1')).allowed).toBe(true);
+  });
+
+  it('starts at most two interviews when one fingerprint starts them concurrently', async () => {
+    const results = await Promise.all(Array.from({ length: 6 }, () => consumeInterviewRateLimit('fp-1')));
+    expect(results.filter((r) => r.allowed)).toHaveLength(2);
+    expect((await checkRateLimit('fp-1')).remaining).toBe(0);
+  });
+
+  it('blocks everyone once the global daily limit is reached', async () => {
+    for (let i = 0; i < 125; i++) await consumeInterviewRateLimit(`fp-${i}`);
+    const result = await checkRateLimit('fp-new');
+    expect(result.allowed).toBe(false);
+    expect(result.error).toMatch(/daily limit for all public interviews/);
+  });
+});
@@ -1,211 +1,160 @@
-import fs from 'fs';
-import path from 'path';
-
-export interface RateLimitData {
-    interviewsCompleted: number;
-    lastReset: string; // ISO string
-}
-
-export interface RateLimitStore {
-    [fingerprint: string]: RateLimitData;
-}
-
-const DATA_DIR = path.join(process.cwd(), 'data');
-const FILE_PATH = path.join(DATA_DIR, 'rate-limits.json');
+import {
+    consumeRateLimit,
+    fixedWindow,
+    peekRateLimit,
+    refundRateLimit,
+    type RateLimitDecision,
+    type RateLimitRule,
+} from '@/lib/rateLimiter';
+
+// Limits are evaluated by rateLimiter.ts against the shared store chosen by
+// RATE_LIMIT_STORE, so every instance sees the same counts. Gates consume the
+// hit up front (check and record in one step), so concurrent requests cannot
+// all pass a check before any of them records; check* only peeks.
 
 const MAX_INTERVIEWS_PER_SESSION = 2;
 const GLOBAL_DAILY_LIMIT = 125;
 const RESET_INTERVAL_MS = 13 * 60 * 60 * 1000; // 13 hours
-const GLOBAL_STATS_KEY = '_GLOBAL_STATS_';
+const GLOBAL_STATS_KEY = 'interview:_GLOBAL_STATS_';
 
-function getStore(): RateLimitStore {
-    if (!fs.existsSync(DATA_DIR)) {
-        fs.mkdirSync(DATA_DIR, { recursive: true });
-    }
-    if (!fs.existsSync(FILE_PATH)) {
-        fs.writeFileSync(FILE_PATH, JSON.stringify({}), 'utf-8');
-        return {};
-    }
-
-    try {
-        const data = fs.readFileSync(FILE_PATH, 'utf-8');
-        return JSON.parse(data);
-    } catch (error) {
-        console.error('Error reading rate limits file:', error);
-        return {};
-    }
+function nextLocalMidnightMs(fromMs: number): number {
+    return new Date(fromMs).setHours(24, 0, 0, 0);
 }
 
-function saveStore(store: RateLimitStore) {
-    fs.writeFileSync(FILE_PATH, JSON.stringify(store, null, 2), 'utf-8');
-}
+// Global: resets at local midnight.
+const interviewGlobalPolicy = fixedWindow({
+    limit: GLOBAL_DAILY_LIMIT,
+    windowEnd: nextLocalMidnightMs,
+});
+
+// Per fingerprint: resets 13 hours after the first interview OR at midnight,
+// whichever comes first.
+const interviewSessionPolicy = fixedWindow({
+    limit: MAX_INTERVIEWS_PER_SESSION,
+    windowEnd: (start) => Math.min(start + RESET_INTERVAL_MS, nextLocalMidnightMs(start)),
+});
 
-function isMidnightPassed(lastResetStr: string, now: Date): boolean {
-    const lastResetDate = new Date(lastResetStr);
-    const lastResetMidnight = new Date(lastResetDate);
-    lastResetMidnight.setHours(0, 0, 0, 0);
-    
-    const nowMidnight = new Date(now);
-    nowMidnight.setHours(0, 0, 0, 0);
-    
-    return nowMidnight.getTime() > lastResetMidnight.getTime();
+function interviewRules(fingerprint: string): RateLimitRule[] {
+    return [
+        { key: GLOBAL_STATS_KEY, policy: interviewGlobalPolicy },
+        { key: `interview:${fingerprint}`, policy: interviewSessionPolicy },
+    ];
 }
 
-export function checkRateLimit(fingerprint: string): {
+export interface InterviewRateResult {
     allowed: boolean;
     remaining: number;
     nextReset: Date;
     error?: string;
-} {
-    const store = getStore();
-    const now = new Date();
-
-    // 1. Check/Initialize Global Stats
-    if (!store[GLOBAL_STATS_KEY]) {
-        store[GLOBAL_STATS_KEY] = {
-            interviewsCompleted: 0,
-            lastReset: now.toISOString(),
-        };
-    }
-
-    const globalStats = store[GLOBAL_STATS_KEY];
-    if (isMidnightPassed(globalStats.lastReset, now)) {
-        globalStats.interviewsCompleted = 0;
-        globalStats.lastReset = now.toISOString();
-        saveStore(store);
-    }
+}
 
-    if (globalStats.interviewsCompleted >= GLOBAL_DAILY_LIMIT) {
+function interviewResult([global, session]: RateLimitDecision[]): InterviewRateResult {
+    if (!global.allowed) {
         return {
             allowed: false,
             remaining: 0,
-            nextReset: new Date(new Date(now).setHours(24, 0, 0, 0)), // Reset at next midnight
+            nextReset: new Date(global.resetAtMs), // Reset at next midnight
             error: 'The daily limit for all public interviews has been reached. Please try again tomorrow.'
         };
     }
 
-    // 2. Check/Initialize User Stats
-    if (!store[fingerprint]) {
-        store[fingerprint] = {
-            interviewsCompleted: 0,
-            lastReset: now.toISOString(),
-        };
-        saveStore(store);
-    }
-
-    const userData = store[fingerprint];
-    const lastResetDate = new Date(userData.lastReset);
-
-    // Check if 13 hours passed OR midnight passed
-    if (now.getTime() - lastResetDate.getTime() >= RESET_INTERVAL_MS || isMidnightPassed(userData.lastReset, now)) {
-        userData.interviewsCompleted = 0;
-        userData.lastReset = now.toISOString();
-        saveStore(store);
-    }
-
-    const nextResetByTime = new Date(new Date(userData.lastReset).getTime() + RESET_INTERVAL_MS);
-    const nextResetByMidnight = new Date(new Date(now).setHours(24, 0, 0, 0));
-    
-    // nextReset is whichever comes first
-    const nextReset = nextResetByTime < nextResetByMidnight ? nextResetByTime : nextResetByMidnight;
-    
-    const remaining = Math.max(0, MAX_INTERVIEWS_PER_SESSION - userData.interviewsCompleted);
-
     return {
-        allowed: remaining > 0,
-        remaining,
-        nextReset,
-        error: remaining <= 0 ? 'You have reached the maximum number of interviews for this period.' : undefined
+        allowed: session.allowed,
+        remaining: session.remaining,
+        nextReset: new Date(session.resetAtMs),
+        error: session.allowed ? undefined : 'You have reached the maximum number of interviews for this period.'
     };
 }
 
+export async function checkRateLimit(fingerprint: string): Promise<InterviewRateResult> {
+    return interviewResult((await peekRateLimit(interviewRules(fingerprint))).decisions);
+}
+
+/** Take one interview slot if the limits allow it; `remaining` is after the hit. */
+export async function consumeInterviewRateLimit(fingerprint: string): Promise<InterviewRateResult> {
+    return interviewResult((await consumeRateLimit(interviewRules(fingerprint))).decisions);
+}
+
 // ---------------------------------------------------------------------------
-// Coding-submit rate limit scope (Phase 39 D-07..D-08)
+// Coding rate limit scopes (Phase 39 D-07..D-08)
 // Keyed per-user (associate:<id> or trainer:<userId>), hourly + daily windows.
-// Namespaced under 'coding-submit:<userKey>' to avoid collision with interview
-// fingerprint keys (bare strings).
+// Namespaced under '<scope>:<userKey>:<window>' to avoid collision with
+// interview fingerprint keys.
+//
+//   coding-submit — graded attempts (/api/coding/submit)
+//   coding-run    — scratch runs (/api/coding/run); separate, lighter budget
+//                   so iterating on visible tests never eats submit quota
 // ---------------------------------------------------------------------------
 
 const CODING_SUBMIT_HOURLY_DEFAULT = 30;
 const CODING_SUBMIT_DAILY_DEFAULT = 200;
+const CODING_RUN_HOURLY_DEFAULT = 120;
+const CODING_RUN_DAILY_DEFAULT = 600;
 const CODING_SUBMIT_HOUR_MS = 60 * 60 * 1000;
 
-interface CodingSubmitBucket {
-    hourlyCount: number;
-    hourlyWindowStart: string; // ISO
-    dailyCount: number;
-    dailyWindowStart: string; // ISO
-}
-
-function getCodingHourlyLimit(): number {
-    const raw = process.env.CODING_SUBMIT_RATE_HOURLY;
-    if (!raw) return CODING_SUBMIT_HOURLY_DEFAULT;
-    const n = Number(raw);
-    return Number.isFinite(n) && n > 0 ? n : CODING_SUBMIT_HOURLY_DEFAULT;
-}
-
-function getCodingDailyLimit(): number {
-    const raw = process.env.CODING_SUBMIT_RATE_DAILY;
-    if (!raw) return CODING_SUBMIT_DAILY_DEFAULT;
+interface CodingScope {
+    prefix: 'coding-submit' | 'coding-run';
+    label: string; // used in the 429 message
+    hourlyEnv: string;
+    hourlyDefault: number;
+    dailyEnv: string;
+    dailyDefault: number;
+}
+
+const CODING_SUBMIT_SCOPE: CodingScope = {
+    prefix: 'coding-submit',
+    label: 'coding-submit',
+    hourlyEnv: 'CODING_SUBMIT_RATE_HOURLY',
+    hourlyDefault: CODING_SUBMIT_HOURLY_DEFAULT,
+    dailyEnv: 'CODING_SUBMIT_RATE_DAILY',
+    dailyDefault: CODING_SUBMIT_DAILY_DEFAULT,
+};
+
+const CODING_RUN_SCOPE: CodingScope = {
+    prefix: 'coding-run',
+    label: 'run',
+    hourlyEnv: 'CODING_RUN_RATE_HOURLY',
+    hourlyDefault: CODING_RUN_HOURLY_DEFAULT,
+    dailyEnv: 'CODING_RUN_RATE_DAILY',
+    dailyDefault: CODING_RUN_DAILY_DEFAULT,
+};
+
+function readLimit(envName: string, fallback: number): number {
+    const raw = process.env[envName];
+    if (!raw) return fallback;
     const n = Number(raw);
-    return Number.isFinite(n) && n > 0 ? n : CODING_SUBMIT_DAILY_DEFAULT;
-}
-
-function codingKey(userKey: string): string {
-    return `coding-submit:${userKey}`;
+    return Number.isFinite(n) && n > 0 ? n : fallback;
 }
 
-function getCodingBucket(userKey: string): CodingSubmitBucket | null {
-    const store = getStore() as unknown as Record<string, unknown>;
-    const entry = store[codingKey(userKey)];
-    if (!entry || typeof entry !== 'object') return null;
-    return entry as CodingSubmitBucket;
-}
-
-function setCodingBucket(userKey: string, bucket: CodingSubmitBucket): void {
-    const store = getStore() as unknown as Record<string, unknown>;
-    store[codingKey(userKey)] = bucket;
-    saveStore(store as unknown as RateLimitStore);
-}
-
-function isUtcMidnightPassed(lastResetStr: string, now: Date): boolean {
-    const last = new Date(lastResetStr);
-    const lastUtcDay = Date.UTC(
-        last.getUTCFullYear(),
-        last.getUTCMonth(),
-        last.getUTCDate(),
-    );
-    const nowUtcDay = Date.UTC(
-        now.getUTCFullYear(),
-        now.getUTCMonth(),
-        now.getUTCDate(),
-    );
-    return nowUtcDay > lastUtcDay;
-}
-
-function nextUtcMidnightMs(now: Date): number {
+function nextUtcMidnightMs(fromMs: number): number {
+    const from = new Date(fromMs);
     return Date.UTC(
-        now.getUTCFullYear(),
-        now.getUTCMonth(),
-        now.getUTCDate() + 1,
+        from.getUTCFullYear(),
+        from.getUTCMonth(),
+        from.getUTCDate() + 1,
         0, 0, 0, 0,
     );
 }
 
-function rolloverBucket(
-    bucket: CodingSubmitBucket,
-    now: Date,
-): CodingSubmitBucket {
-    const hourlyStart = new Date(bucket.hourlyWindowStart);
-
-    let next = { ...bucket };
-    if (now.getTime() - hourlyStart.getTime() >= CODING_SUBMIT_HOUR_MS) {
-        next = { ...next, hourlyCount: 0, hourlyWindowStart: now.toISOString() };
-    }
-    if (isUtcMidnightPassed(bucket.dailyWindowStart, now)) {
-        next = { ...next, dailyCount: 0, dailyWindowStart: now.toISOString() };
-    }
-    return next;
+// Hourly window opens at the first hit in it; daily window closes at UTC
+// midnight. Limits are read per call so env overrides apply without restart.
+function codingRules(scope: CodingScope, userKey: string): RateLimitRule[] {
+    return [
+        {
+            key: `${scope.prefix}:${userKey}:hour`,
+            policy: fixedWindow({
+                limit: readLimit(scope.hourlyEnv, scope.hourlyDefault),
+                windowEnd: (start) => start + CODING_SUBMIT_HOUR_MS,
+            }),
+        },
+        {
+            key: `${scope.prefix}:${userKey}:day`,
+            policy: fixedWindow({
+                limit: readLimit(scope.dailyEnv, scope.dailyDefault),
+                windowEnd: nextUtcMidnightMs,
+            }),
+        },
+    ];
 }
 
 export interface CodingSubmitRateResult {
@@ -216,124 +165,71 @@ export interface CodingSubmitRateResult {
     error?: string;
 }
 
-export function checkCodingSubmitRateLimit(userKey: string): CodingSubmitRateResult {
-    const now = new Date();
-    const hourlyLimit = getCodingHourlyLimit();
-    const dailyLimit = getCodingDailyLimit();
-
-    let bucket = getCodingBucket(userKey);
-    if (!bucket) {
-        // No prior usage → full budget available. Do NOT persist here; increment does that.
-        return {
-            allowed: true,
-            hourlyRemaining: hourlyLimit,
-            dailyRemaining: dailyLimit,
-        };
-    }
-
-    // Roll over windows if expired. WR-03 (Phase 39 review): rolloverBucket
-    // always returns a fresh spread-copy, so a reference-identity check was
-    // ALWAYS true and triggered a disk write on every call. Compare the
-    // fields that actually roll (hourly/daily window starts) so we only
-    // persist when a window boundary was crossed.
-    const rolled = rolloverBucket(bucket, now);
-    const windowAdvanced =
-        rolled.hourlyWindowStart !== bucket.hourlyWindowStart ||
-        rolled.dailyWindowStart !== bucket.dailyWindowStart;
-    if (windowAdvanced) {
-        setCodingBucket(userKey, rolled);
-        bucket = rolled;
-    }
-
-    const hourlyRemaining = Math.max(0, hourlyLimit - bucket.hourlyCount);
-    const dailyRemaining = Math.max(0, dailyLimit - bucket.dailyCount);
-
-    if (hourlyRemaining <= 0 || dailyRemaining <= 0) {
+function codingResult(
+    scope: CodingScope,
+    [hourly, daily]: RateLimitDecision[],
+    now: number,
+): CodingSubmitRateResult {
+    if (!hourly.allowed || !daily.allowed) {
         // Always pick the soonest of next hour window or next UTC midnight.
         // (earliest reset wins — caller retries whenever capacity opens up first.)
-        const nextHourMs = new Date(bucket.hourlyWindowStart).getTime() + CODING_SUBMIT_HOUR_MS;
-        const nextMidnightMs = nextUtcMidnightMs(now);
-        const soonestResetMs = Math.min(nextHourMs, nextMidnightMs);
-        const retryAfterSeconds = Math.max(1, Math.ceil((soonestResetMs - now.getTime()) / 1000));
+        const soonestResetMs = Math.min(hourly.resetAtMs, daily.resetAtMs);
+        const retryAfterSeconds = Math.max(1, Math.ceil((soonestResetMs - now) / 1000));
         return {
             allowed: false,
-            hourlyRemaining,
-            dailyRemaining,
+            hourlyRemaining: hourly.remaining,
+            dailyRemaining: daily.remaining,
             retryAfterSeconds,
             error:
-                dailyRemaining <= 0
-                    ? 'Daily coding-submit limit reached. Try again tomorrow.'
-                    : 'Hourly coding-submit limit reached. Try again later.',
+                !daily.allowed
+                    ? `Daily ${scope.label} limit reached. Try again tomorrow.`
+                    : `Hourly ${scope.label} limit reached. Try again later.`,
         };
     }
 
     return {
         allowed: true,
-        hourlyRemaining,
-        dailyRemaining,
+        hourlyRemaining: hourly.remaining,
+        dailyRemaining: daily.remaining,
     };
 }
 
-export function incrementCodingSubmitCount(userKey: string): void {
-    const now = new Date();
-    const existing = getCodingBucket(userKey);
+async function checkCodingScope(scope: CodingScope, userKey: string): Promise<CodingSubmitRateResult> {
+    const now = Date.now();
+    return codingResult(scope, (await peekRateLimit(codingRules(scope, userKey), now)).decisions, now);
+}
 
-    let bucket: CodingSubmitBucket;
-    if (!existing) {
-        bucket = {
-            hourlyCount: 1,
-            hourlyWindowStart: now.toISOString(),
-            dailyCount: 1,
-            dailyWindowStart: now.toISOString(),
-        };
-    } else {
-        const rolled = rolloverBucket(existing, now);
-        bucket = {
-            hourlyCount: rolled.hourlyCount + 1,
-            hourlyWindowStart: rolled.hourlyWindowStart,
-            dailyCount: rolled.dailyCount + 1,
-            dailyWindowStart: rolled.dailyWindowStart,
-        };
-    }
+async function consumeCodingScope(scope: CodingScope, userKey: string): Promise<CodingSubmitRateResult> {
+    const now = Date.now();
+    return codingResult(scope, (await consumeRateLimit(codingRules(scope, userKey), now)).decisions, now);
+}
 
-    setCodingBucket(userKey, bucket);
+async function refundCodingScope(scope: CodingScope, userKey: string): Promise<void> {
+    await refundRateLimit(codingRules(scope, userKey));
 }
 
-export function incrementInterviewCount(fingerprint: string): void {
-    const store = getStore();
-    const now = new Date();
+export function checkCodingSubmitRateLimit(userKey: string): Promise<CodingSubmitRateResult> {
+    return checkCodingScope(CODING_SUBMIT_SCOPE, userKey);
+}
 
-    // Increment Global
-    if (!store[GLOBAL_STATS_KEY]) {
-        store[GLOBAL_STATS_KEY] = {
-            interviewsCompleted: 1,
-            lastReset: now.toISOString(),
-        };
-    } else {
-        const globalStats = store[GLOBAL_STATS_KEY];
-        if (isMidnightPassed(globalStats.lastReset, now)) {
-            globalStats.interviewsCompleted = 1;
-            globalStats.lastReset = now.toISOString();
-        } else {
-            globalStats.interviewsCompleted += 1;
-        }
-    }
+/** Take one submit from the budget if it allows; refund it if the attempt never reaches Judge0. */
+export function consumeCodingSubmitRateLimit(userKey: string): Promise<CodingSubmitRateResult> {
+    return consumeCodingScope(CODING_SUBMIT_SCOPE, userKey);
+}
 
-    // Increment User
-    if (!store[fingerprint]) {
-        store[fingerprint] = {
-            interviewsCompleted: 1,
-            lastReset: now.toISOString(),
-        };
-    } else {
-        const userData = store[fingerprint];
-        if (now.getTime() - new Date(userData.lastReset).getTime() >= RESET_INTERVAL_MS || isMidnightPassed(userData.lastReset, now)) {
-            userData.interviewsCompleted = 1;
-            userData.lastReset = now.toISOString();
-        } else {
-            userData.interviewsCompleted += 1;
-        }
-    }
+export function refundCodingSubmitCount(userKey: string): Promise<void> {
+    return refundCodingScope(CODING_SUBMIT_SCOPE, userKey);
+}
+
+export function checkCodingRunRateLimit(userKey: string): Promise<CodingSubmitRateResult> {
+    return checkCodingScope(CODING_RUN_SCOPE, userKey);
+}
+
+/** Take one run from the budget if it allows; refund it if the run never reaches Judge0. */
+export function consumeCodingRunRateLimit(userKey: string): Promise<CodingSubmitRateResult> {
+    return consumeCodingScope(CODING_RUN_SCOPE, userKey);
+}
 
-    saveStore(store);
+export function refundCodingRunCount(userKey: string): Promise<void> {
+    return refundCodingScope(CODING_RUN_SCOPE, userKey);
 }
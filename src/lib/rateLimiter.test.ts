@@ -0,0 +1,209 @@
+/**
+ * rateLimiter.test.ts — policies, the check-then-record limiter and the
+ * three storage backends. Prisma and Redis are exercised through mocks.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi, type Mock } from 'vitest';
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    rateLimitBucket: {
+      findUnique: vi.fn(),
+      create: vi.fn(),
+      updateMany: vi.fn(),
+      deleteMany: vi.fn(),
+    },
+  },
+}));
+
+import { prisma } from '@/lib/prisma';
+import {
+  _setRateLimitStorageForTest,
+  consumeRateLimit,
+  createMemoryRateLimitStorage,
+  createPrismaRateLimitStorage,
+  createRedisRateLimitStorage,
+  fixedWindow,
+  getRateLimitStorage,
+  peekRateLimit,
+  purgeExpiredRateLimits,
+  recordRateLimit,
+  refundRateLimit,
+  slidingWindow,
+  tokenBucket,
+  type RateLimitStorage,
+} from './rateLimiter';
+
+const MIN = 60_000;
+
+describe('policies', () => {
+  it('slidingWindow counts hits in the trailing window only', () => {
+    const policy = slidingWindow({ limit: 2, windowMs: 10 * MIN });
+    let state = policy.record(null, 0);
+    state = policy.record(state, 4 * MIN);
+    expect(policy.check(state, 5 * MIN)).toMatchObject({ allowed: false, remaining: 0, retryAfterMs: 5 * MIN });
+    expect(policy.check(state, 10 * MIN + 1)).toMatchObject({ allowed: true, remaining: 1 });
+    expect(policy.record(state, 11 * MIN)).toEqual({ hits: [4 * MIN, 11 * MIN] });
+  });
+
+  it('fixedWindow opens at the first hit and closes at windowEnd', () => {
+    const policy = fixedWindow({ limit: 1, windowEnd: (start) => start + 10 * MIN });
+    const state = policy.record(null, 3 * MIN);
+    expect(policy.check(state, 12 * MIN)).toMatchObject({ allowed: false, retryAfterMs: MIN, resetAtMs: 13 * MIN });
+    expect(policy.check(state, 13 * MIN)).toMatchObject({ allowed: true, remaining: 1 });
+    expect(policy.expiresAt(state, 3 * MIN)).toBe(13 * MIN);
+  });
+
+  it('tokenBucket refills continuously up to capacity', () => {
+    const policy = tokenBucket({ capacity: 2, refillPerMinute: 1 });
+    let state = policy.record(null, 0);
+    state = policy.record(state, 0);
+    expect(policy.check(state, 0)).toMatchObject({ allowed: false, remaining: 0, retryAfterMs: MIN });
+    expect(policy.check(state, 90_000)).toMatchObject({ allowed: true, remaining: 1 });
+    expect(policy.check(state, 10 * MIN)).toMatchObject({ remaining: 2 });
+    expect(policy.expiresAt(state, 0)).toBe(2 * MIN);
+  });
+});
+
+describe('limiter', () => {
+  let storage: RateLimitStorage;
+
+  beforeEach(() => {
+    storage = createMemoryRateLimitStorage();
+    _setRateLimitStorageForTest(storage);
+  });
+
+  it('consume records nothing unless every rule allows the hit', async () => {
+    const rules = [
+      { key: 'a', policy: slidingWindow({ limit: 3, windowMs: MIN }) },
+      { key: 'b', policy: slidingWindow({ limit: 1, windowMs: MIN }) },
+    ];
+    expect(await consumeRateLimit(rules, 0)).toMatchObject({ allowed: true, remaining: 0 });
+    const blocked = await consumeRateLimit(rules, 1000);
+    expect(blocked).toMatchObject({ allowed: false, retryAfterMs: MIN - 1000 });
+    expect(blocked.decisions.map((d) => d.allowed)).toEqual([true, false]);
+    expect((await peekRateLimit(rules, 1000)).decisions[0].remaining).toBe(2);
+  });
+
+  it('consume re-checks the fresh state when it loses a race for the last slot', async () => {
+    const policy = slidingWindow({ limit: 1, windowMs: MIN });
+    const realGet = storage.get.bind(storage);
+    let raced = false;
+    storage.get = async (key, now) => {
+      const read = await realGet(key, now);
+      // Another instance takes the only slot right after this caller's peek reads.
+      if (!raced) {
+        raced = true;
+        await storage.compareAndSet(key, 0, policy.record(null, now), now + MIN);
+      }
+      return read;
+    };
+
+    const outcome = await consumeRateLimit([{ key: 'k', policy }], 0);
+
+    expect(outcome).toMatchObject({ allowed: false, remaining: 0, retryAfterMs: MIN });
+    expect((await realGet('k', 0)).value).toEqual({ hits: [0] });
+  });
+
+  it('record retries when another writer bumps the version first', async () => {
+    const policy = fixedWindow({ limit: 5, windowEnd: (start) => start + MIN });
+    const realGet = storage.get.bind(storage);
+    let raced = false;
+    storage.get = async (key, now) => {
+      const read = await realGet(key, now);
+      if (!raced) {
+        raced = true;
+        await storage.compareAndSet(key, read.version, policy.record(null, now), now + MIN);
+      }
+      return read;
+    };
+    await recordRateLimit([{ key: 'k', policy }], 0);
+    expect((await realGet('k', 0)).value).toEqual({ count: 2, windowStart: 0 });
+  });
+
+  it('refund gives the last hit back to every rule and skips expired keys', async () => {
+    const rules = [
+      { key: 'a', policy: slidingWindow({ limit: 2, windowMs: MIN }) },
+      { key: 'b', policy: fixedWindow({ limit: 2, windowEnd: (start) => start + MIN }) },
+      { key: 'c', policy: tokenBucket({ capacity: 2, refillPerMinute: 1 }) },
+    ];
+    await consumeRateLimit(rules, 0);
+    await consumeRateLimit(rules, 0);
+    await refundRateLimit(rules, 0);
+    expect((await peekRateLimit(rules, 0)).decisions.map((d) => d.remaining)).toEqual([1, 1, 1]);
+
+    await refundRateLimit(rules.slice(0, 2), 2 * MIN);
+    expect((await storage.get('a', 2 * MIN)).value).toBeNull();
+    expect((await storage.get('b', 2 * MIN)).value).toBeNull();
+  });
+
+  it('purges expired state from the memory store', async () => {
+    await recordRateLimit([{ key: 'k', policy: slidingWindow({ limit: 1, windowMs: MIN }) }], 0);
+    expect(await purgeExpiredRateLimits(MIN - 1)).toBe(0);
+    expect(await purgeExpiredRateLimits(MIN)).toBe(1);
+  });
+});
+
+describe('storage selection', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    _setRateLimitStorageForTest(null);
+  });
+
+  it('rejects an unknown RATE_LIMIT_STORE and an incomplete redis config', () => {
+    _setRateLimitStorageForTest(null);
+    vi.stubEnv('RATE_LIMIT_STORE', 'file');
+    expect(() => getRateLimitStorage()).toThrow(/Unknown RATE_LIMIT_STORE 'file'/);
+    vi.stubEnv('RATE_LIMIT_STORE', 'redis');
+    vi.stubEnv('RATE_LIMIT_REDIS_URL', '');
+    expect(() => getRateLimitStorage()).toThrow(/RATE_LIMIT_REDIS_URL/);
+  });
+});
+
+describe('createPrismaRateLimitStorage', () => {
+  const bucket = prisma.rateLimitBucket as unknown as Record<'findUnique' | 'create' | 'updateMany' | 'deleteMany', Mock>;
+
+  beforeEach(() => vi.clearAllMocks());
+
+  it('reads expired rows as empty but keeps their version', async () => {
+    bucket.findUnique.mockResolvedValue({ key: 'k', state: { count: 3 }, version: 4, expiresAt: new Date(1000) });
+    const storage = createPrismaRateLimitStorage();
+    expect(await storage.get('k', 999)).toEqual({ value: { count: 3 }, version: 4 });
+    expect(await storage.get('k', 1000)).toEqual({ value: null, version: 4 });
+  });
+
+  it('creates on version 0 and updates by version otherwise', async () => {
+    const storage = createPrismaRateLimitStorage();
+    bucket.create.mockRejectedValueOnce(Object.assign(new Error('unique'), { code: 'P2002' }));
+    expect(await storage.compareAndSet('k', 0, { count: 1 }, 5000)).toBe(false);
+
+    bucket.updateMany.mockResolvedValueOnce({ count: 1 }).mockResolvedValueOnce({ count: 0 });
+    expect(await storage.compareAndSet('k', 2, { count: 2 }, 5000)).toBe(true);
+    expect(bucket.updateMany).toHaveBeenCalledWith({
+      where: { key: 'k', version: 2 },
+      data: { state: { count: 2 }, version: 3, expiresAt: new Date(5000) },
+    });
+    expect(await storage.compareAndSet('k', 2, { count: 2 }, 5000)).toBe(false);
+  });
+});
+
+describe('createRedisRateLimitStorage', () => {
+  it('stores version and state together and sets them with a checked script', async () => {
+    const command = vi.fn(async (args: (string | number)[]) => (args[0] === 'GET' ? '{"v":3,"s":{"count":1}}' : 1));
+    const storage = createRedisRateLimitStorage(command);
+    expect(await storage.get('k', 0)).toEqual({ value: { count: 1 }, version: 3 });
+    expect(command).toHaveBeenCalledWith(['GET', 'rl:k']);
+
+    expect(await storage.compareAndSet('k', 3, { count: 2 }, Date.now() + MIN)).toBe(true);
+    const [op, , numKeys, key, version, payload, ttl] = command.mock.calls[1][0];
+    expect([op, numKeys, key, version]).toEqual(['EVAL', 1, 'rl:k', 3]);
+    expect(JSON.parse(String(payload))).toEqual({ v: 4, s: { count: 2 } });
+    expect(Number(ttl)).toBeGreaterThan(0);
+  });
+
+  it('reports a lost race and treats a missing key as version 0', async () => {
+    const storage = createRedisRateLimitStorage(async (args) => (args[0] === 'GET' ? null : 0));
+    expect(await storage.get('k', 0)).toEqual({ value: null, version: 0 });
+    expect(await storage.compareAndSet('k', 0, { count: 1 }, Date.now() + MIN)).toBe(false);
+  });
+});
@@ -0,0 +1,441 @@
+/**
+ * rateLimiter.ts — the one rate limiter behind every limit in the app.
+ *
+ * A limit is a list of rules, each a storage key plus a policy:
+ *
+ *   slidingWindow — at most `limit` hits in any trailing `windowMs`
+ *   fixedWindow   — at most `limit` hits per window; the window opens at the
+ *                   first hit and closes at `windowEnd(start)` (an hour later,
+ *                   next UTC midnight, …)
+ *   tokenBucket   — `capacity` tokens refilled continuously at
+ *                   `refillPerMinute`; each hit takes one
+ *
+ * Policies are pure functions over a small JSON state. Storage only has to
+ * read a key and compare-and-set it by version, so the same policies run
+ * against:
+ *
+ *   memory   — a per-process Map (default; fine for a single instance and tests)
+ *   postgres — the RateLimitBucket table via Prisma
+ *   redis    — any Redis speaking the Upstash-style REST protocol
+ *
+ * chosen by RATE_LIMIT_STORE. With several Cloud Run instances use postgres
+ * or redis, or every container enforces its own copy of each limit.
+ *
+ * `peekRateLimit` never writes. `consumeRateLimit` is check-then-record: each
+ * key is re-checked and updated atomically, so concurrent callers never push
+ * one rule past its limit. A multi-rule consume is not a transaction across
+ * keys, though — when a later rule turns out full, the hit already recorded
+ * against earlier rules stays. Callers that consume at the gate and then fail
+ * before doing the work can hand the hit back with `refundRateLimit`.
+ */
+
+import { prisma } from '@/lib/prisma';
+
+// ---------------------------------------------------------------------------
+// Policies
+// ---------------------------------------------------------------------------
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  /** 0 when allowed; otherwise ms until one more hit would fit. */
+  retryAfterMs: number;
+  /** Epoch ms at which the current window closes / the bucket is full again. */
+  resetAtMs: number;
+}
+
+export interface RateLimitPolicy<S = unknown> {
+  /** Whether one more hit fits, given the stored state (null when none). */
+  check(state: S | null, now: number): RateLimitDecision;
+  /** The state after recording one hit. */
+  record(state: S | null, now: number): S;
+  /** The state after giving back the most recent hit. */
+  refund(state: S, now: number): S;
+  /** When `state` can be forgotten; becomes the storage TTL. */
+  expiresAt(state: S, now: number): number;
+}
+
+interface SlidingWindowState {
+  hits: number[];
+}
+
+export function slidingWindow(opts: { limit: number; windowMs: number }): RateLimitPolicy<SlidingWindowState> {
+  const live = (state: SlidingWindowState | null, now: number) =>
+    (state?.hits ?? []).filter((t) => t > now - opts.windowMs);
+  return {
+    check(state, now) {
+      const hits = live(state, now);
+      const allowed = hits.length < opts.limit;
+      const oldest = hits[0];
+      return {
+        allowed,
+        limit: opts.limit,
+        remaining: Math.max(0, opts.limit - hits.length),
+        retryAfterMs: allowed ? 0 : Math.max(0, oldest + opts.windowMs - now),
+        resetAtMs: (hits[hits.length - 1] ?? now) + opts.windowMs,
+      };
+    },
+    record(state, now) {
+      return { hits: [...live(state, now), now] };
+    },
+    refund(state, now) {
+      return { hits: live(state, now).slice(0, -1) };
+    },
+    expiresAt(state, now) {
+      return (state.hits[state.hits.length - 1] ?? now) + opts.windowMs;
+    },
+  };
+}
+
+interface FixedWindowState {
+  count: number;
+  windowStart: number;
+}
+
+export function fixedWindow(opts: { limit: number; windowEnd: (windowStart: number) => number }): RateLimitPolicy<FixedWindowState> {
+  const current = (state: FixedWindowState | null, now: number): FixedWindowState =>
+    state && now < opts.windowEnd(state.windowStart) ? state : { count: 0, windowStart: now };
+  return {
+    check(state, now) {
+      const win = current(state, now);
+      const resetAtMs = opts.windowEnd(win.windowStart);
+      const allowed = win.count < opts.limit;
+      return {
+        allowed,
+        limit: opts.limit,
+        remaining: Math.max(0, opts.limit - win.count),
+        retryAfterMs: allowed ? 0 : Math.max(0, resetAtMs - now),
+        resetAtMs,
+      };
+    },
+    record(state, now) {
+      const win = current(state, now);
+      return { count: win.count + 1, windowStart: win.windowStart };
+    },
+    refund(state, now) {
+      // A hit from a window that has since closed is already forgotten.
+      const win = current(state, now);
+      return { count: Math.max(0, win.count - 1), windowStart: win.windowStart };
+    },
+    expiresAt(state) {
+      return opts.windowEnd(state.windowStart);
+    },
+  };
+}
+
+interface TokenBucketState {
+  tokens: number;
+  updatedAt: number;
+}
+
+export function tokenBucket(opts: { capacity: number; refillPerMinute: number }): RateLimitPolicy<TokenBucketState> {
+  const perMs = opts.refillPerMinute / 60_000;
+  const level = (state: TokenBucketState | null, now: number) =>
+    state ? Math.min(opts.capacity, state.tokens + (now - state.updatedAt) * perMs) : opts.capacity;
+  const fullAt = (tokens: number, now: number) => now + Math.ceil((opts.capacity - tokens) / perMs);
+  return {
+    check(state, now) {
+      const tokens = level(state, now);
+      const allowed = tokens >= 1;
+      return {
+        allowed,
+        limit: opts.capacity,
+        remaining: Math.floor(tokens),
+        retryAfterMs: allowed ? 0 : Math.ceil((1 - tokens) / perMs),
+        resetAtMs: fullAt(tokens, now),
+      };
+    },
+    record(state, now) {
+      return { tokens: Math.max(0, level(state, now) - 1), updatedAt: now };
+    },
+    refund(state, now) {
+      return { tokens: Math.min(opts.capacity, level(state, now) + 1), updatedAt: now };
+    },
+    expiresAt(state, now) {
+      return fullAt(level(state, now), now);
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Storage
+// ---------------------------------------------------------------------------
+
+export interface StoredBucket {
+  /** null when the key is absent or expired. */
+  value: unknown;
+  /** 0 when the key has never been written. */
+  version: number;
+}
+
+export interface RateLimitStorage {
+  get(key: string, now: number): Promise<StoredBucket>;
+  /**
+   * Write `value` only if the stored version is still `version`. Returns false
+   * when another writer got there first; the caller re-reads and retries.
+   */
+  compareAndSet(key: string, version: number, value: unknown, expiresAt: number): Promise<boolean>;
+  /** Drop state past its expiry. Returns how many keys went. */
+  purgeExpired(now: number): Promise<number>;
+}
+
+export function createMemoryRateLimitStorage(): RateLimitStorage {
+  const entries = new Map<string, { value: unknown; version: number; expiresAt: number }>();
+  return {
+    async get(key, now) {
+      const entry = entries.get(key);
+      if (!entry) return { value: null, version: 0 };
+      return { value: entry.expiresAt > now ? entry.value : null, version: entry.version };
+    },
+    async compareAndSet(key, version, value, expiresAt) {
+      if ((entries.get(key)?.version ?? 0) !== version) return false;
+      entries.set(key, { value, version: version + 1, expiresAt });
+      return true;
+    },
+    async purgeExpired(now) {
+      let purged = 0;
+      for (const [key, entry] of entries) {
+        if (entry.expiresAt <= now) {
+          entries.delete(key);
+          purged++;
+        }
+      }
+      return purged;
+    },
+  };
+}
+
+export function createPrismaRateLimitStorage(): RateLimitStorage {
+  return {
+    async get(key, now) {
+      const row = await prisma.rateLimitBucket.findUnique({ where: { key } });
+      if (!row) return { value: null, version: 0 };
+      return { value: row.expiresAt.getTime() > now ? row.state : null, version: row.version };
+    },
+    async compareAndSet(key, version, value, expiresAt) {
+      const data = { state: value as object, version: version + 1, expiresAt: new Date(expiresAt) };
+      if (version === 0) {
+        try {
+          await prisma.rateLimitBucket.create({ data: { key, ...data } });
+          return true;
+        } catch (err) {
+          if ((err as { code?: string }).code === 'P2002') return false;
+          throw err;
+        }
+      }
+      const { count } = await prisma.rateLimitBucket.updateMany({ where: { key, version }, data });
+      return count === 1;
+    },
+    async purgeExpired(now) {
+      const { count } = await prisma.rateLimitBucket.deleteMany({ where: { expiresAt: { lte: new Date(now) } } });
+      return count;
+    },
+  };
+}
+
+/** Sends one Redis command and resolves with its reply. */
+export type RedisCommand = (args: (string | number)[]) => Promise<unknown>;
+
+/** A RedisCommand for Upstash-style REST endpoints: POST the command as a JSON array. */
+export function restRedisCommand(url: string, token: string): RedisCommand {
+  return async (args) => {
+    const res = await fetch(url, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+      body: JSON.stringify(args),
+    });
+    const body = (await res.json().catch(() => ({}))) as { result?: unknown; error?: string };
+    if (!res.ok || body.error) {
+      throw new Error(`Redis ${String(args[0])} failed: ${body.error ?? `HTTP ${res.status}`}`);
+    }
+    return body.result ?? null;
+  };
+}
+
+// Values are stored as {"v":<version>,"s":<state>} with a PX expiry, so Redis
+// does the purging. The version check and write happen in one script.
+const REDIS_CAS_SCRIPT = `
+local cur = redis.call('GET', KEYS[1])
+local ver = 0
+if cur then ver = cjson.decode(cur).v end
+if ver ~= tonumber(ARGV[1]) then return 0 end
+redis.call('SET', KEYS[1], ARGV[2], 'PX', ARGV[3])
+return 1`;
+
+const REDIS_KEY_PREFIX = 'rl:';
+
+export function createRedisRateLimitStorage(command: RedisCommand): RateLimitStorage {
+  return {
+    async get(key) {
+      const raw = await command(['GET', REDIS_KEY_PREFIX + key]);
+      if (typeof raw !== 'string') return { value: null, version: 0 };
+      const parsed = JSON.parse(raw) as { v: number; s: unknown };
+      return { value: parsed.s, version: parsed.v };
+    },
+    async compareAndSet(key, version, value, expiresAt) {
+      const ttlMs = Math.max(1, Math.ceil(expiresAt - Date.now()));
+      const payload = JSON.stringify({ v: version + 1, s: value });
+      const ok = await command(['EVAL', REDIS_CAS_SCRIPT, 1, REDIS_KEY_PREFIX + key, version, payload, ttlMs]);
+      return Number(ok) === 1;
+    },
+    async purgeExpired() {
+      return 0;
+    },
+  };
+}
+
+export const RATE_LIMIT_STORES = ['memory', 'postgres', 'redis'] as const;
+
+function storageFromEnv(): RateLimitStorage {
+  const kind = process.env.RATE_LIMIT_STORE || 'memory';
+  switch (kind) {
+    case 'memory':
+      return createMemoryRateLimitStorage();
+    case 'postgres':
+      return createPrismaRateLimitStorage();
+    case 'redis': {
+      const url = process.env.RATE_LIMIT_REDIS_URL;
+      const token = process.env.RATE_LIMIT_REDIS_TOKEN;
+      if (!url || !token) {
+        throw new Error('RATE_LIMIT_STORE=redis requires RATE_LIMIT_REDIS_URL and RATE_LIMIT_REDIS_TOKEN');
+      }
+      return createRedisRateLimitStorage(restRedisCommand(url, token));
+    }
+    default:
+      throw new Error(`Unknown RATE_LIMIT_STORE '${kind}' (expected one of ${RATE_LIMIT_STORES.join(', ')})`);
+  }
+}
+
+// Cached on globalThis so Next dev-mode module reloads keep one memory store.
+const globalForRateLimit = globalThis as unknown as { rateLimitStorage?: RateLimitStorage };
+
+export function getRateLimitStorage(): RateLimitStorage {
+  globalForRateLimit.rateLimitStorage ??= storageFromEnv();
+  return globalForRateLimit.rateLimitStorage;
+}
+
+/**
+ * Swap the storage (tests), or pass null to re-read RATE_LIMIT_STORE on next use.
+ * @internal
+ */
+export function _setRateLimitStorageForTest(storage: RateLimitStorage | null): void {
+  globalForRateLimit.rateLimitStorage = storage ?? undefined;
+}
+
+// ---------------------------------------------------------------------------
+// Limiter
+// ---------------------------------------------------------------------------
+
+export interface RateLimitRule {
+  key: string;
+  policy: RateLimitPolicy;
+}
+
+export interface RateLimitOutcome {
+  allowed: boolean;
+  /** Smallest remaining across the rules. */
+  remaining: number;
+  /** 0 when allowed; otherwise the longest wait among the blocking rules. */
+  retryAfterMs: number;
+  /** One per rule, in order. */
+  decisions: RateLimitDecision[];
+}
+
+const MAX_CAS_ATTEMPTS = 10;
+
+function summarize(decisions: RateLimitDecision[]): RateLimitOutcome {
+  const blocked = decisions.filter((d) => !d.allowed);
+  return {
+    allowed: blocked.length === 0,
+    remaining: Math.min(...decisions.map((d) => d.remaining)),
+    retryAfterMs: Math.max(0, ...blocked.map((d) => d.retryAfterMs)),
+    decisions,
+  };
+}
+
+/**
+ * Record one hit under compare-and-set. With `enforce`, the policy is checked
+ * against each fresh read, and a hit that no longer fits is not recorded —
+ * the blocking decision comes back instead.
+ */
+async function recordOne(
+  storage: RateLimitStorage,
+  rule: RateLimitRule,
+  now: number,
+  enforce: boolean,
+): Promise<RateLimitDecision> {
+  const { policy } = rule;
+  for (let attempt = 0; attempt < MAX_CAS_ATTEMPTS; attempt++) {
+    const { value, version } = await storage.get(rule.key, now);
+    if (enforce) {
+      const decision = policy.check(value, now);
+      if (!decision.allowed) return decision;
+    }
+    const next = policy.record(value, now);
+    if (await storage.compareAndSet(rule.key, version, next, policy.expiresAt(next, now))) {
+      return { ...policy.check(next, now), allowed: true, retryAfterMs: 0 };
+    }
+  }
+  throw new Error(`Rate limit key '${rule.key}' is too contended to update`);
+}
+
+/** Evaluate the rules without recording a hit. */
+export async function peekRateLimit(rules: RateLimitRule[], now = Date.now()): Promise<RateLimitOutcome> {
+  const storage = getRateLimitStorage();
+  const decisions = await Promise.all(
+    rules.map(async (rule) => rule.policy.check((await storage.get(rule.key, now)).value, now)),
+  );
+  return summarize(decisions);
+}
+
+/** Record one hit against every rule, whether or not it fits. */
+export async function recordRateLimit(rules: RateLimitRule[], now = Date.now()): Promise<void> {
+  const storage = getRateLimitStorage();
+  for (const rule of rules) await recordOne(storage, rule, now, false);
+}
+
+/**
+ * Record a hit only if every rule allows it. Decisions in the result describe
+ * the state after the hit when allowed, and the blocking state otherwise. A
+ * rule that fills up between the peek and the write blocks the hit; rules
+ * after it keep their peeked decision and are not written.
+ */
+export async function consumeRateLimit(rules: RateLimitRule[], now = Date.now()): Promise<RateLimitOutcome> {
+  const peeked = await peekRateLimit(rules, now);
+  if (!peeked.allowed) return peeked;
+  const storage = getRateLimitStorage();
+  const decisions: RateLimitDecision[] = [];
+  for (const rule of rules) {
+    const decision = await recordOne(storage, rule, now, true);
+    decisions.push(decision);
+    if (!decision.allowed) return summarize([...decisions, ...peeked.decisions.slice(decisions.length)]);
+  }
+  return summarize(decisions);
+}
+
+/** Give back one hit under compare-and-set; an expired key has nothing to give back. */
+async function refundOne(storage: RateLimitStorage, rule: RateLimitRule, now: number): Promise<void> {
+  const { policy } = rule;
+  for (let attempt = 0; attempt < MAX_CAS_ATTEMPTS; attempt++) {
+    const { value, version } = await storage.get(rule.key, now);
+    if (value === null) return;
+    const next = policy.refund(value, now);
+    if (await storage.compareAndSet(rule.key, version, next, policy.expiresAt(next, now))) return;
+  }
+  throw new Error(`Rate limit key '${rule.key}' is too contended to update`);
+}
+
+/**
+ * Give back one hit per rule — for a caller that consumed at its gate and
+ * then failed before doing the work the hit paid for.
+ */
+export async function refundRateLimit(rules: RateLimitRule[], now = Date.now()): Promise<void> {
+  const storage = getRateLimitStorage();
+  for (const rule of rules) await refundOne(storage, rule, now);
+}
+
+/** Drop expired state from the configured storage. */
+export async function purgeExpiredRateLimits(now = Date.now()): Promise<number> {
+  return getRateLimitStorage().purgeExpired(now);
+}
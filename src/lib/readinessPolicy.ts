@@ -0,0 +1,201 @@
+/**
+ * readinessPolicy.ts
+ *
+ * The configurable readiness model. A policy (per cohort, see the
+ * ReadinessPolicy table; DEFAULT_READINESS_POLICY otherwise) sets the session
+ * gate, how many sessions the trend regression spans, the threshold, skills
+ * that must individually clear it, and how much coding GapScores count.
+ *
+ * classifyReadiness applies the same cascade readinessService always has —
+ * ready is checked before improving (Pitfall 1) — and returns a structured
+ * explanation that is stored on the associate and shown on the trainer page.
+ *
+ * Pure: no Prisma — safe to import types from client components.
+ */
+
+export type ReadinessStatus = 'ready' | 'improving' | 'not_ready';
+
+export interface ReadinessPolicy {
+  minSessions: number;
+  trendWindow: number;
+  /** null = global Settings.readinessThreshold */
+  threshold: number | null;
+  requiredSkills: string[];
+  /** 0–1 share of the coding average in the blended readiness average */
+  codingWeight: number;
+}
+
+export const DEFAULT_READINESS_POLICY: ReadinessPolicy = {
+  minSessions: 3,
+  trendWindow: 3,
+  threshold: null,
+  requiredSkills: [],
+  codingWeight: 0,
+};
+
+export interface ResolvedReadinessPolicy extends Omit<ReadinessPolicy, 'threshold'> {
+  threshold: number;
+  source: 'cohort' | 'default';
+}
+
+export interface SkillReadiness {
+  skill: string;
+  score: number | null; // null = required skill with no score yet
+  required: boolean;
+  meetsThreshold: boolean;
+}
+
+export interface ReadinessExplanation {
+  status: ReadinessStatus;
+  /** e.g. "not_ready because sql is 58 < 75 and trend -2.1" */
+  summary: string;
+  reasons: string[];
+  policy: ResolvedReadinessPolicy;
+  sessionCount: number;
+  interviewAverage: number | null;
+  codingAverage: number | null;
+  average: number | null;
+  trend: number | null;
+  skills: SkillReadiness[];
+}
+
+export interface ReadinessInput {
+  sessionCount: number;
+  /** Regression slope over the policy's trend window; null when there aren't 2 sessions */
+  trend: number | null;
+  /** Skill-level GapScores (topic = "") */
+  skillScores: { skill: string; weightedScore: number }[];
+  /** Coding GapScores (topic = "coding:<language>"); ignored when codingWeight is 0 */
+  codingScores: number[];
+}
+
+export function resolveReadinessPolicy(
+  policy: ReadinessPolicy | null,
+  globalThreshold: number,
+): ResolvedReadinessPolicy {
+  const base = policy ?? DEFAULT_READINESS_POLICY;
+  return {
+    minSessions: base.minSessions,
+    trendWindow: base.trendWindow,
+    threshold: base.threshold ?? globalThreshold,
+    requiredSkills: base.requiredSkills.map((s) => s.trim().toLowerCase()).filter(Boolean),
+    codingWeight: base.codingWeight,
+    source: policy ? 'cohort' : 'default',
+  };
+}
+
+/** Least-squares slope of scores in chronological order (x = 0, 1, 2, …). */
+export function linearSlope(scores: number[]): number {
+  const n = scores.length;
+  if (n < 2) return 0;
+  const xMean = (n - 1) / 2;
+  const yMean = scores.reduce((a, b) => a + b, 0) / n;
+  const numerator = scores.reduce((sum, y, x) => sum + (x - xMean) * (y - yMean), 0);
+  const denominator = scores.reduce((sum, _, x) => sum + (x - xMean) ** 2, 0);
+  return denominator === 0 ? 0 : numerator / denominator;
+}
+
+function mean(values: number[]): number | null {
+  return values.length === 0 ? null : values.reduce((a, b) => a + b, 0) / values.length;
+}
+
+function fmt(value: number): string {
+  return String(Math.round(value));
+}
+
+function fmtTrend(trend: number): string {
+  return `${trend > 0 ? '+' : ''}${trend.toFixed(1)}`;
+}
+
+export function classifyReadiness(
+  input: ReadinessInput,
+  policy: ResolvedReadinessPolicy,
+): { status: ReadinessStatus; explanation: ReadinessExplanation } {
+  const { threshold } = policy;
+
+  const explain = (status: ReadinessStatus, reasons: string[], rest: Partial<ReadinessExplanation> = {}) => ({
+    status,
+    explanation: {
+      status,
+      summary: `${status} because ${reasons.join(' and ')}`,
+      reasons,
+      policy,
+      sessionCount: input.sessionCount,
+      interviewAverage: null,
+      codingAverage: null,
+      average: null,
+      trend: null,
+      skills: [],
+      ...rest,
+    },
+  });
+
+  // Gate (Pitfall 2): no averages or trend before the policy's session minimum.
+  if (input.sessionCount < policy.minSessions) {
+    return explain('not_ready', [`only ${input.sessionCount} of ${policy.minSessions} required sessions`]);
+  }
+
+  const interviewAverage = mean(input.skillScores.map((s) => s.weightedScore));
+  const codingAverage = policy.codingWeight > 0 ? mean(input.codingScores) : null;
+  // Blend only when both sources exist — a missing side doesn't drag the average to 0.
+  const average =
+    interviewAverage !== null && codingAverage !== null
+      ? (1 - policy.codingWeight) * interviewAverage + policy.codingWeight * codingAverage
+      : interviewAverage ?? codingAverage ?? 0;
+  const trend = input.trend ?? 0;
+
+  const byName = new Map(input.skillScores.map((s) => [s.skill.toLowerCase(), s]));
+  const skills: SkillReadiness[] = input.skillScores.map((s) => ({
+    skill: s.skill,
+    score: s.weightedScore,
+    required: policy.requiredSkills.includes(s.skill.toLowerCase()),
+    meetsThreshold: s.weightedScore >= threshold,
+  }));
+  for (const required of policy.requiredSkills) {
+    if (!byName.has(required)) skills.push({ skill: required, score: null, required: true, meetsThreshold: false });
+  }
+  skills.sort((a, b) => (a.score ?? -Infinity) - (b.score ?? -Infinity));
+
+  const failingRequired = skills.filter((s) => s.required && !s.meetsThreshold);
+  const averageOk = average >= threshold;
+
+  // Classification cascade — ready BEFORE improving (Pitfall 1).
+  let status: ReadinessStatus;
+  if (averageOk && failingRequired.length === 0 && trend >= 0) {
+    status = 'ready';
+  } else if (trend > 0) {
+    status = 'improving';
+  } else {
+    status = 'not_ready';
+  }
+
+  const reasons: string[] = [];
+  if (status === 'ready') {
+    reasons.push(`average ${fmt(average)} ≥ ${fmt(threshold)}`);
+  } else {
+    for (const s of failingRequired) {
+      reasons.push(s.score === null ? `${s.skill} has no score yet (required)` : `${s.skill} is ${fmt(s.score)} < ${fmt(threshold)} (required)`);
+    }
+    if (!averageOk) {
+      const below = skills.filter((s) => !s.required && s.score !== null && !s.meetsThreshold).slice(0, 3);
+      if (below.length > 0) {
+        for (const s of below) reasons.push(`${s.skill} is ${fmt(s.score!)} < ${fmt(threshold)}`);
+      } else {
+        reasons.push(`average ${fmt(average)} < ${fmt(threshold)}`);
+      }
+    }
+  }
+  if (input.trend === null) {
+    reasons.push('not enough sessions for a trend');
+  } else if (status !== 'ready' || trend !== 0) {
+    reasons.push(`trend ${fmtTrend(trend)}`);
+  }
+
+  return explain(status, reasons, {
+    interviewAverage,
+    codingAverage,
+    average,
+    trend: input.trend,
+    skills,
+  });
+}
@@ -4,27 +4,43 @@
  * Computes readiness status per associate from stored GapScore and Session data.
  * Pre-computed on session save so dashboard reads are instant (DASH-05).
  *
- * Classification cascade (ORDER MATTERS — Pitfall 1):
+ * The model itself — session gate, trend window, threshold, required skills,
+ * coding weighting and the classification cascade — lives in readinessPolicy.ts
+ * and is configurable per cohort (ReadinessPolicy table). Without a cohort
+ * policy the defaults reproduce the original rules:
  *   1. ready:     avg >= threshold AND trend >= 0 AND sessions >= 3
  *   2. improving: sessions >= 3 AND trend > 0 (strictly positive) AND avg < threshold
  *   3. not_ready: everything else
  *
- * Trend: linear regression slope over last 3 session overall scores (oldest→newest).
- * Returns -1 when fewer than 3 sessions exist (treated as insufficient data).
+ * Trend: linear regression slope over the last `trendWindow` session overall
+ * scores (oldest→newest).
  *
- * Recommended area: lowest weighted GapScore where topic != "" (non-empty = topic-level).
+ * Recommended area: lowest weighted interview topic GapScore (INTERVIEW_TOPIC_WHERE).
  * Falls back to lowest skill-level score when no topic-level scores exist.
- * Returns null when < 3 sessions.
+ * Returns null below the session gate.
+ *
+ * Every computation stores a ReadinessExplanation on the associate.
  */
 
 import { prisma } from '@/lib/prisma';
+import { Prisma } from '@/generated/prisma';
+import { CODING_TOPIC_PREFIX, INTERVIEW_TOPIC_WHERE } from '@/lib/gapPersistence';
+import {
+  classifyReadiness,
+  linearSlope,
+  resolveReadinessPolicy,
+  type ReadinessExplanation,
+  type ReadinessPolicy,
+  type ReadinessStatus,
+} from '@/lib/readinessPolicy';
 
-export type ReadinessStatus = 'ready' | 'improving' | 'not_ready';
+export type { ReadinessStatus } from '@/lib/readinessPolicy';
 
 export interface ReadinessResult {
   status: ReadinessStatus;
   recommendedArea: string | null;
   lastComputedAt: Date;
+  explanation: ReadinessExplanation;
 }
 
 /**
@@ -72,11 +88,11 @@ export function computeTrend(
   return computeTrendFromSessions(associateIdOrSessions);
 }
 
-function computeTrendFromSessions(recentSessions: SessionTrendData[]): number {
-  if (recentSessions.length < 3) return -1;
+function computeTrendFromSessions(recentSessions: SessionTrendData[], window = 3): number {
+  if (recentSessions.length < window) return -1;
 
-  // Reverse to chronological order: [oldest, middle, newest] → x = [0, 1, 2]
-  const chronological = [...recentSessions].reverse();
+  // Reverse to chronological order: [oldest, …, newest] → x = [0, 1, …]
+  const chronological = recentSessions.slice(0, window).reverse();
 
   const scores = chronological.map((s) => {
     const tech = s.overallTechnicalScore ?? 0;
@@ -89,39 +105,40 @@ function computeTrendFromSessions(recentSessions: SessionTrendData[]): number {
     return s.overallTechnicalScore ?? s.overallSoftSkillScore ?? 0;
   });
 
-  const n = scores.length; // always 3
-  const xMean = 1; // (0 + 1 + 2) / 3 = 1
-  const yMean = scores.reduce((a, b) => a + b, 0) / n;
-
-  const numerator = scores.reduce((sum, y, x) => sum + (x - xMean) * (y - yMean), 0);
-  const denominator = scores.reduce((sum, _, x) => sum + (x - xMean) ** 2, 0);
-
-  return denominator === 0 ? 0 : numerator / denominator;
+  return linearSlope(scores);
 }
 
 /**
  * Compute readiness status for a single associate.
  *
  * @param associateId - Associate primary key (Int)
- * @param threshold   - Score threshold (0–100), default is 75
- * @returns ReadinessResult with status, recommendedArea, and timestamp
+ * @param threshold   - Global score threshold (0–100); a cohort policy may override it
+ * @param policy      - Cohort readiness policy; null/omitted = DEFAULT_READINESS_POLICY
+ * @returns ReadinessResult with status, recommendedArea, explanation and timestamp
  */
 export async function computeReadiness(
   associateId: number,
   threshold: number,
+  policy: ReadinessPolicy | null = null,
 ): Promise<ReadinessResult> {
-  // Fetch last 3 completed sessions — used for both gate check and trend computation
+  const resolved = resolveReadinessPolicy(policy, threshold);
+
+  // Fetch enough recent completed sessions for both gate check and trend computation
   // (WR-01: eliminates TOCTOU race) (Codex #5: completed only, #6: sort by date)
   const recentSessions = await prisma.session.findMany({
     where: { associateId, status: 'completed' },
     orderBy: { date: 'desc' },
-    take: 3,
+    take: Math.max(resolved.minSessions, resolved.trendWindow),
     select: { overallTechnicalScore: true, overallSoftSkillScore: true, createdAt: true },
   });
 
-  // Gate: < 3 sessions → not_ready immediately, no recommendation (Pitfall 2)
-  if (recentSessions.length < 3) {
-    return { status: 'not_ready', recommendedArea: null, lastComputedAt: new Date() };
+  // Gate: below the policy minimum → not_ready immediately, no recommendation (Pitfall 2)
+  if (recentSessions.length < resolved.minSessions) {
+    const { status, explanation } = classifyReadiness(
+      { sessionCount: recentSessions.length, trend: null, skillScores: [], codingScores: [] },
+      resolved,
+    );
+    return { status, recommendedArea: null, lastComputedAt: new Date(), explanation };
   }
 
   // Fetch skill-level GapScores (topic = "" is the skill-level aggregate)
@@ -130,31 +147,35 @@ export async function computeReadiness(
     orderBy: { weightedScore: 'asc' },
   });
 
-  // Compute weighted average across skill-level scores
-  const avg =
-    skillGapScores.length > 0
-      ? skillGapScores.reduce((sum, g) => sum + g.weightedScore, 0) / skillGapScores.length
-      : 0;
-
-  // Compute trend from pre-fetched sessions (no re-query needed)
-  const trend = computeTrend(recentSessions);
-
-  // Classification cascade — ORDER MATTERS (Pitfall 1):
-  // Check 'ready' BEFORE 'improving' to avoid misclassifying above-threshold+positive-trend as 'improving'
-  let status: ReadinessStatus;
-  if (avg >= threshold && trend >= 0) {
-    status = 'ready';
-  } else if (trend > 0 && avg < threshold) {
-    // strictly positive trend + below threshold = improving (Open Question 3: use > 0, not >= 0)
-    status = 'improving';
-  } else {
-    status = 'not_ready';
-  }
+  // Coding rows (topic = "coding:<language>") only matter when the policy weights them
+  const codingGapScores =
+    resolved.codingWeight > 0
+      ? await prisma.gapScore.findMany({
+          where: { associateId, topic: { startsWith: CODING_TOPIC_PREFIX } },
+          select: { weightedScore: true },
+        })
+      : [];
+
+  // Trend over the policy window — or every fetched session when the gate is
+  // lower than the window. Needs at least two points.
+  const window = Math.min(resolved.trendWindow, recentSessions.length);
+  const trend = window >= 2 ? computeTrendFromSessions(recentSessions, window) : null;
+
+  const { status, explanation } = classifyReadiness(
+    {
+      sessionCount: recentSessions.length,
+      trend,
+      skillScores: skillGapScores,
+      codingScores: codingGapScores.map((g) => g.weightedScore),
+    },
+    resolved,
+  );
 
-  // Recommended area: lowest weighted topic-level gap score (topic != "")
+  // Recommended area: lowest weighted interview topic score (practice outcomes
+  // are already blended in; practice:/coding: rows are not topics).
   // Falls back to lowest skill-level score if no topic records exist
   const lowestTopic = await prisma.gapScore.findFirst({
-    where: { associateId, topic: { not: '' } },
+    where: { associateId, ...INTERVIEW_TOPIC_WHERE },
     orderBy: { weightedScore: 'asc' },
   });
 
@@ -168,6 +189,27 @@ export async function computeReadiness(
     status,
     recommendedArea,
     lastComputedAt: new Date(),
+    explanation,
+  };
+}
+
+function toPolicy(row: ReadinessPolicy | null | undefined): ReadinessPolicy | null {
+  if (!row) return null;
+  return {
+    minSessions: row.minSessions,
+    trendWindow: row.trendWindow,
+    threshold: row.threshold,
+    requiredSkills: row.requiredSkills,
+    codingWeight: row.codingWeight,
+  };
+}
+
+function readinessData(result: ReadinessResult) {
+  return {
+    readinessStatus: result.status,
+    recommendedArea: result.recommendedArea,
+    lastComputedAt: result.lastComputedAt,
+    readinessExplanation: result.explanation as unknown as Prisma.InputJsonValue,
   };
 }
 
@@ -181,16 +223,32 @@ export async function computeReadiness(
  * - Settings PUT handler when trainer changes the readiness threshold
  */
 export async function recomputeAllReadiness(threshold: number): Promise<void> {
-  const associates = await prisma.associate.findMany({ select: { id: true } });
+  const associates = await prisma.associate.findMany({
+    select: { id: true, cohort: { select: { readinessPolicy: true } } },
+  });
+  for (const { id, cohort } of associates) {
+    const result = await computeReadiness(id, threshold, toPolicy(cohort?.readinessPolicy));
+    await prisma.associate.update({
+      where: { id },
+      data: readinessData(result),
+    });
+  }
+}
+
+/**
+ * Recompute readiness for every associate in one cohort — called after the
+ * cohort's readiness policy is saved or reset.
+ */
+export async function recomputeCohortReadiness(cohortId: number, threshold: number): Promise<void> {
+  const [policy, associates] = await Promise.all([
+    prisma.readinessPolicy.findUnique({ where: { cohortId } }),
+    prisma.associate.findMany({ where: { cohortId }, select: { id: true } }),
+  ]);
   for (const { id } of associates) {
-    const result = await computeReadiness(id, threshold);
+    const result = await computeReadiness(id, threshold, toPolicy(policy));
     await prisma.associate.update({
       where: { id },
-      data: {
-        readinessStatus: result.status,
-        recommendedArea: result.recommendedArea,
-        lastComputedAt: result.lastComputedAt,
-      },
+      data: readinessData(result),
     });
   }
 }
@@ -199,22 +257,23 @@ export async function recomputeAllReadiness(threshold: number): Promise<void> {
  * Compute readiness for a single associate and persist to the Associate record.
  *
  * This is the function called from the session save pipeline, after gap scores
- * have been written (Phase 4 → Phase 5 in the save pipeline).
+ * have been written (Phase 4 → Phase 5 in the save pipeline). The associate's
+ * cohort policy, if any, is applied.
  *
  * @param associateId - Associate primary key
- * @param threshold   - Score threshold (0–100), default is 75
+ * @param threshold   - Global score threshold (0–100), default is 75
  */
 export async function updateAssociateReadiness(
   associateId: number,
   threshold: number,
 ): Promise<void> {
-  const result = await computeReadiness(associateId, threshold);
+  const associate = await prisma.associate.findUnique({
+    where: { id: associateId },
+    select: { cohort: { select: { readinessPolicy: true } } },
+  });
+  const result = await computeReadiness(associateId, threshold, toPolicy(associate?.cohort?.readinessPolicy));
   await prisma.associate.update({
     where: { id: associateId },
-    data: {
-      readinessStatus: result.status,
-      recommendedArea: result.recommendedArea,
-      lastComputedAt: result.lastComputedAt,
-    },
+    data: readinessData(result),
   });
 }
@@ -0,0 +1,240 @@
+/**
+ * retentionPolicy.test.ts — policy defaults, cutoffs, note scrubbing and the
+ * batched sweep (dry run vs. real run). Prisma and the history file are mocked.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+vi.mock('@/lib/prisma', () => {
+  const model = () => ({
+    count: vi.fn(),
+    findFirst: vi.fn(),
+    findMany: vi.fn(),
+    deleteMany: vi.fn(),
+    updateMany: vi.fn(),
+    update: vi.fn(),
+  });
+  const client = {
+    retentionPolicy: { findMany: vi.fn(), upsert: vi.fn() },
+    session: model(),
+    coInterviewerAssessment: model(),
+    codingAttempt: model(),
+    codingAttemptTimeline: model(),
+    authEvent: model(),
+    $transaction: vi.fn(),
+  };
+  client.$transaction.mockImplementation((fn: (tx: typeof client) => unknown) => fn(client));
+  return { prisma: client };
+});
+
+vi.mock('@/lib/historyService', () => ({
+  readHistory: vi.fn(),
+  writeHistory: vi.fn(),
+}));
+
+import { prisma } from '@/lib/prisma';
+import { readHistory, writeHistory } from '@/lib/historyService';
+import {
+  clearInterviewerNotes,
+  getRetentionPolicies,
+  retentionCutoff,
+  runRetentionSweep,
+} from './retentionPolicy';
+
+type Mocked = Record<string, ReturnType<typeof vi.fn>>;
+const db = prisma as unknown as Record<string, Mocked>;
+
+const NOW = new Date('2026-06-15T12:00:00Z');
+
+function policies(rows: Array<[string, number | null]>) {
+  db.retentionPolicy.findMany.mockResolvedValue(rows.map(([dataClass, retainMonths]) => ({ dataClass, retainMonths })));
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  (readHistory as ReturnType<typeof vi.fn>).mockReturnValue([]);
+  for (const name of ['session', 'codingAttempt', 'authEvent']) {
+    db[name].count.mockResolvedValue(0);
+    db[name].findFirst.mockResolvedValue(null);
+    db[name].findMany.mockResolvedValue([]);
+    db[name].deleteMany.mockImplementation(({ where }) => Promise.resolve({ count: where.id.in.length }));
+  }
+});
+
+describe('policies', () => {
+  it('keeps every class indefinitely by default and ignores unknown rows', async () => {
+    policies([['auth_events', 6], ['old_class', 1]]);
+    expect(await getRetentionPolicies()).toEqual({
+      completed_sessions: null,
+      interviewer_notes: null,
+      transcripts: null,
+      submitted_code: null,
+      auth_events: 6,
+    });
+  });
+
+  it('computes the cutoff in calendar months', () => {
+    expect(retentionCutoff(6, NOW).toISOString()).toBe('2025-12-15T12:00:00.000Z');
+    expect(retentionCutoff(24, NOW).toISOString()).toBe('2024-06-15T12:00:00.000Z');
+  });
+});
+
+describe('clearInterviewerNotes', () => {
+  it('blanks notes and keeps everything else', () => {
+    expect(
+      clearInterviewerNotes({
+        q1: { interviewerNotes: 'said X', finalScore: 4 },
+        q2: { finalScore: 2 },
+      }),
+    ).toEqual({ q1: { interviewerNotes: '', finalScore: 4 }, q2: { finalScore: 2 } });
+  });
+});
+
+describe('runRetentionSweep', () => {
+  it('reports without changing anything on a dry run', async () => {
+    policies([['auth_events', 6], ['completed_sessions', 24]]);
+    db.authEvent.count.mockResolvedValue(12);
+    db.authEvent.findFirst.mockResolvedValue({ createdAt: new Date('2025-01-01T00:00:00Z') });
+
+    const report = await runRetentionSweep({ dryRun: true, now: NOW });
+
+    expect(report.dryRun).toBe(true);
+    const auth = report.classes.find((c) => c.dataClass === 'auth_events');
+    expect(auth).toMatchObject({
+      retainMonths: 6,
+      cutoff: '2025-12-15T12:00:00.000Z',
+      eligible: 12,
+      oldest: '2025-01-01T00:00:00.000Z',
+      processed: 0,
+    });
+    expect(db.authEvent.count).toHaveBeenCalledWith({ where: { createdAt: { lt: new Date('2025-12-15T12:00:00Z') } } });
+    expect(report.classes.find((c) => c.dataClass === 'transcripts')).toMatchObject({ retainMonths: null, cutoff: null });
+    expect(db.authEvent.deleteMany).not.toHaveBeenCalled();
+    expect(db.session.deleteMany).not.toHaveBeenCalled();
+  });
+
+  it('previews proposed policies as a dry run without saving them', async () => {
+    policies([['auth_events', 24], ['transcripts', 12]]);
+    db.authEvent.count.mockResolvedValue(30);
+
+    const report = await runRetentionSweep({ policies: { auth_events: 6, transcripts: null }, now: NOW });
+
+    expect(report.dryRun).toBe(true);
+    expect(report.classes.find((c) => c.dataClass === 'auth_events')).toMatchObject({
+      retainMonths: 6,
+      cutoff: '2025-12-15T12:00:00.000Z',
+      eligible: 30,
+      processed: 0,
+    });
+    expect(report.classes.find((c) => c.dataClass === 'transcripts')).toMatchObject({ retainMonths: null, cutoff: null });
+    expect(db.retentionPolicy.upsert).not.toHaveBeenCalled();
+    expect(db.authEvent.deleteMany).not.toHaveBeenCalled();
+  });
+
+  it('deletes in batches until a short batch', async () => {
+    policies([['auth_events', 6]]);
+    db.authEvent.count.mockResolvedValue(5);
+    db.authEvent.findMany
+      .mockResolvedValueOnce([{ id: 'a' }, { id: 'b' }])
+      .mockResolvedValueOnce([{ id: 'c' }, { id: 'd' }])
+      .mockResolvedValueOnce([{ id: 'e' }]);
+
+    const report = await runRetentionSweep({ batchSize: 2, now: NOW });
+
+    expect(db.authEvent.deleteMany).toHaveBeenCalledTimes(3);
+    expect(report.classes.find((c) => c.dataClass === 'auth_events')).toMatchObject({ processed: 5, truncated: false });
+  });
+
+  it('stops at maxBatches and flags the class as truncated', async () => {
+    policies([['auth_events', 6]]);
+    db.authEvent.count.mockResolvedValue(10);
+    db.authEvent.findMany.mockResolvedValue([{ id: 'a' }, { id: 'b' }]);
+
+    const report = await runRetentionSweep({ batchSize: 2, maxBatches: 2, now: NOW });
+
+    expect(db.authEvent.deleteMany).toHaveBeenCalledTimes(2);
+    expect(report.classes.find((c) => c.dataClass === 'auth_events')).toMatchObject({ processed: 4, truncated: true });
+  });
+
+  it('clears submitted code and the edit timeline, skipping pending attempts', async () => {
+    policies([['submitted_code', 12]]);
+    db.codingAttempt.count.mockResolvedValue(2);
+    db.codingAttempt.findMany.mockResolvedValue([{ id: 'x' }, { id: 'y' }]);
+
+    await runRetentionSweep({ now: NOW });
+
+    expect(db.codingAttempt.count).toHaveBeenCalledWith({
+      where: { submittedAt: { lt: new Date('2025-06-15T12:00:00Z') }, codePurgedAt: null, verdict: { not: 'pending' } },
+    });
+    expect(db.codingAttemptTimeline.deleteMany).toHaveBeenCalledWith({ where: { attemptId: { in: ['x', 'y'] } } });
+    expect(db.codingAttempt.updateMany).toHaveBeenCalledWith({
+      where: { id: { in: ['x', 'y'] } },
+      data: { submittedCode: '', codePurgedAt: NOW },
+    });
+  });
+
+  it('scrubs trainer notes on the session and its co-interviewer rows, not automated transcripts', async () => {
+    policies([['interviewer_notes', 12]]);
+    db.session.count.mockResolvedValue(1);
+    db.session.findMany.mockResolvedValue([
+      {
+        id: 's1',
+        assessments: { q1: { interviewerNotes: 'weak on joins' } },
+        coAssessments: [{ id: 9, assessments: { q1: { interviewerNotes: 'agree' } } }],
+      },
+    ]);
+
+    await runRetentionSweep({ now: NOW });
+
+    expect(db.session.count).toHaveBeenCalledWith({
+      where: { createdAt: { lt: new Date('2025-06-15T12:00:00Z') }, notesPurgedAt: null, mode: { not: 'automated' } },
+    });
+    expect(db.session.update).toHaveBeenCalledWith({
+      where: { id: 's1' },
+      data: { assessments: { q1: { interviewerNotes: '' } }, notesPurgedAt: NOW },
+    });
+    expect(db.coInterviewerAssessment.update).toHaveBeenCalledWith({
+      where: { id: 9 },
+      data: { assessments: { q1: { interviewerNotes: '' } } },
+    });
+  });
+
+  it('keeps going when one class fails', async () => {
+    policies([['completed_sessions', 24], ['auth_events', 6]]);
+    db.session.count.mockRejectedValue(new Error('db down'));
+    db.authEvent.count.mockResolvedValue(1);
+    db.authEvent.findMany.mockResolvedValue([{ id: 'a' }]);
+
+    const report = await runRetentionSweep({ now: NOW });
+
+    expect(report.classes.find((c) => c.dataClass === 'completed_sessions')?.error).toBe('db down');
+    expect(report.classes.find((c) => c.dataClass === 'auth_events')?.processed).toBe(1);
+  });
+
+  it('counts and purges the same sessions in the history file', async () => {
+    policies([['completed_sessions', 24], ['interviewer_notes', 12]]);
+    const history = [
+      { id: 'old', status: 'completed', date: '2023-01-10T00:00:00.000Z', assessments: { q1: { interviewerNotes: 'x' } } },
+      { id: 'mid', status: 'completed', date: '2025-01-10T00:00:00.000Z', assessments: { q1: { interviewerNotes: 'y' } } },
+      { id: 'new', status: 'completed', date: '2026-06-01T00:00:00.000Z', assessments: { q1: { interviewerNotes: 'z' } } },
+    ];
+    (readHistory as ReturnType<typeof vi.fn>).mockReturnValue(history);
+
+    const preview = await runRetentionSweep({ dryRun: true, now: NOW });
+    expect(preview.classes.find((c) => c.dataClass === 'completed_sessions')).toMatchObject({
+      eligible: 1,
+      oldest: '2023-01-10T00:00:00.000Z',
+    });
+    expect(preview.classes.find((c) => c.dataClass === 'interviewer_notes')).toMatchObject({ eligible: 2 });
+    expect(writeHistory).not.toHaveBeenCalled();
+
+    const report = await runRetentionSweep({ now: NOW });
+    expect(report.classes.find((c) => c.dataClass === 'completed_sessions')?.processed).toBe(1);
+    expect(writeHistory).toHaveBeenNthCalledWith(1, [history[1], history[2]]);
+    expect(writeHistory).toHaveBeenNthCalledWith(2, [
+      { ...history[0], assessments: { q1: { interviewerNotes: '' } } },
+      { ...history[1], assessments: { q1: { interviewerNotes: '' } } },
+      history[2],
+    ]);
+  });
+});
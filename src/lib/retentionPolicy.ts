@@ -0,0 +1,379 @@
+/**
+ * Data retention — how long each class of personal data is kept, and the
+ * sweep that enforces it.
+ *
+ *   completed_sessions  delete completed Session rows (co-interviewer rows cascade)
+ *   interviewer_notes   clear interviewerNotes on trainer-led sessions
+ *   transcripts         clear the answer transcript on automated sessions
+ *                       (stored in the same interviewerNotes field)
+ *   submitted_code      clear CodingAttempt.submittedCode, delete its edit timeline
+ *   auth_events         delete AuthEvent rows
+ *
+ * Anonymized rows keep their scores, verdicts and feedback so gap scores,
+ * readiness and reports are unchanged; a purge marker (notesPurgedAt /
+ * codePurgedAt) keeps the sweep from revisiting them. Age is measured from
+ * createdAt (submittedAt for attempts).
+ *
+ * Trainer-led sessions are also copied to the legacy history file
+ * (data/interview-history.json, served by GET /api/history), so the two
+ * session classes apply there too and its sessions count towards `eligible`.
+ *
+ * The sweep runs from cleanupService every 12 hours and from
+ * POST /api/admin/retention-sweep; `dryRun` produces the same report without
+ * changing anything, for review on /trainer/settings/retention. A dry run can
+ * also take proposed `policies`, so a change is previewed before it is saved
+ * (and so before the next scheduled sweep acts on it).
+ */
+
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { Prisma } from '@/generated/prisma';
+import { readHistory, writeHistory } from '@/lib/historyService';
+import type { InterviewSession } from '@/lib/types';
+
+export const DATA_CLASSES = [
+  'completed_sessions',
+  'interviewer_notes',
+  'transcripts',
+  'submitted_code',
+  'auth_events',
+] as const;
+export type DataClass = (typeof DATA_CLASSES)[number];
+
+/** Months to keep each class; null = keep indefinitely. */
+export type RetentionPolicies = Record<DataClass, number | null>;
+
+export const MAX_RETAIN_MONTHS = 120;
+
+// null = keep indefinitely; omitted classes are left as they are.
+const Months = z.number().int().min(1).max(MAX_RETAIN_MONTHS).nullable();
+export const RetentionPolicyChangesSchema = z
+  .object({
+    completed_sessions: Months.optional(),
+    interviewer_notes: Months.optional(),
+    transcripts: Months.optional(),
+    submitted_code: Months.optional(),
+    auth_events: Months.optional(),
+  } satisfies Record<DataClass, unknown>)
+  .strict();
+
+const DEFAULT_BATCH_SIZE = 500;
+const DEFAULT_MAX_BATCHES = 20;
+const LOG_PREFIX = '[retention-sweep]';
+
+export async function getRetentionPolicies(): Promise<RetentionPolicies> {
+  const rows = await prisma.retentionPolicy.findMany();
+  const policies = Object.fromEntries(DATA_CLASSES.map((c) => [c, null])) as RetentionPolicies;
+  for (const row of rows) {
+    if ((DATA_CLASSES as readonly string[]).includes(row.dataClass)) {
+      policies[row.dataClass as DataClass] = row.retainMonths;
+    }
+  }
+  return policies;
+}
+
+export async function saveRetentionPolicies(
+  changes: Partial<RetentionPolicies>,
+  updatedBy: string,
+): Promise<RetentionPolicies> {
+  await prisma.$transaction(async (tx) => {
+    for (const [dataClass, retainMonths] of Object.entries(changes)) {
+      if (retainMonths === undefined) continue;
+      await tx.retentionPolicy.upsert({
+        where: { dataClass },
+        create: { dataClass, retainMonths, updatedBy },
+        update: { retainMonths, updatedBy },
+      });
+    }
+  });
+  return getRetentionPolicies();
+}
+
+/** Rows created before this date are past retention. */
+export function retentionCutoff(retainMonths: number, now: Date): Date {
+  const cutoff = new Date(now);
+  cutoff.setUTCMonth(cutoff.getUTCMonth() - retainMonths);
+  return cutoff;
+}
+
+// ---------------------------------------------------------------------------
+// Per-class queries
+// ---------------------------------------------------------------------------
+
+interface ClassHandler {
+  count(cutoff: Date): Promise<number>;
+  oldest(cutoff: Date): Promise<Date | null>;
+  /** Purge up to `take` of the oldest eligible rows; returns how many. */
+  purgeBatch(cutoff: Date, take: number, now: Date): Promise<number>;
+}
+
+/** Blank interviewerNotes in a Record<questionId, assessment> JSON blob. */
+export function clearInterviewerNotes(assessments: Prisma.JsonValue): Prisma.InputJsonValue {
+  if (!assessments || typeof assessments !== 'object' || Array.isArray(assessments)) {
+    return (assessments ?? {}) as Prisma.InputJsonValue;
+  }
+  return Object.fromEntries(
+    Object.entries(assessments).map(([id, a]) =>
+      a && typeof a === 'object' && !Array.isArray(a) && 'interviewerNotes' in a ? [id, { ...a, interviewerNotes: '' }] : [id, a],
+    ),
+  ) as Prisma.InputJsonValue;
+}
+
+function notesHandler(mode: Prisma.StringFilter | string): ClassHandler {
+  const where = (cutoff: Date): Prisma.SessionWhereInput => ({
+    createdAt: { lt: cutoff },
+    notesPurgedAt: null,
+    mode,
+  });
+  return {
+    count: (cutoff) => prisma.session.count({ where: where(cutoff) }),
+    oldest: async (cutoff) =>
+      (await prisma.session.findFirst({ where: where(cutoff), orderBy: { createdAt: 'asc' }, select: { createdAt: true } }))
+        ?.createdAt ?? null,
+    purgeBatch: async (cutoff, take, now) => {
+      const rows = await prisma.session.findMany({
+        where: where(cutoff),
+        orderBy: { createdAt: 'asc' },
+        take,
+        select: { id: true, assessments: true, coAssessments: { select: { id: true, assessments: true } } },
+      });
+      await prisma.$transaction(async (tx) => {
+        for (const row of rows) {
+          await tx.session.update({
+            where: { id: row.id },
+            data: { assessments: clearInterviewerNotes(row.assessments), notesPurgedAt: now },
+          });
+          for (const co of row.coAssessments) {
+            await tx.coInterviewerAssessment.update({
+              where: { id: co.id },
+              data: { assessments: clearInterviewerNotes(co.assessments) },
+            });
+          }
+        }
+      });
+      return rows.length;
+    },
+  };
+}
+
+const HANDLERS: Record<DataClass, ClassHandler> = {
+  completed_sessions: (() => {
+    const where = (cutoff: Date): Prisma.SessionWhereInput => ({ status: 'completed', createdAt: { lt: cutoff } });
+    return {
+      count: (cutoff) => prisma.session.count({ where: where(cutoff) }),
+      oldest: async (cutoff) =>
+        (await prisma.session.findFirst({ where: where(cutoff), orderBy: { createdAt: 'asc' }, select: { createdAt: true } }))
+          ?.createdAt ?? null,
+      purgeBatch: async (cutoff, take) => {
+        const rows = await prisma.session.findMany({ where: where(cutoff), orderBy: { createdAt: 'asc' }, take, select: { id: true } });
+        const { count } = await prisma.session.deleteMany({ where: { id: { in: rows.map((r) => r.id) } } });
+        return count;
+      },
+    };
+  })(),
+
+  interviewer_notes: notesHandler({ not: 'automated' }),
+  transcripts: notesHandler('automated'),
+
+  submitted_code: (() => {
+    // Pending attempts are still waiting on Judge0 and need their code.
+    const where = (cutoff: Date): Prisma.CodingAttemptWhereInput => ({
+      submittedAt: { lt: cutoff },
+      codePurgedAt: null,
+      verdict: { not: 'pending' },
+    });
+    return {
+      count: (cutoff) => prisma.codingAttempt.count({ where: where(cutoff) }),
+      oldest: async (cutoff) =>
+        (
+          await prisma.codingAttempt.findFirst({
+            where: where(cutoff),
+            orderBy: { submittedAt: 'asc' },
+            select: { submittedAt: true },
+          })
+        )?.submittedAt ?? null,
+      purgeBatch: async (cutoff, take, now) => {
+        const rows = await prisma.codingAttempt.findMany({
+          where: where(cutoff),
+          orderBy: { submittedAt: 'asc' },
+          take,
+          select: { id: true },
+        });
+        const ids = rows.map((r) => r.id);
+        await prisma.$transaction(async (tx) => {
+          await tx.codingAttemptTimeline.deleteMany({ where: { attemptId: { in: ids } } });
+          await tx.codingAttempt.updateMany({ where: { id: { in: ids } }, data: { submittedCode: '', codePurgedAt: now } });
+        });
+        return ids.length;
+      },
+    };
+  })(),
+
+  auth_events: {
+    count: (cutoff) => prisma.authEvent.count({ where: { createdAt: { lt: cutoff } } }),
+    oldest: async (cutoff) =>
+      (
+        await prisma.authEvent.findFirst({
+          where: { createdAt: { lt: cutoff } },
+          orderBy: { createdAt: 'asc' },
+          select: { createdAt: true },
+        })
+      )?.createdAt ?? null,
+    purgeBatch: async (cutoff, take) => {
+      const rows = await prisma.authEvent.findMany({
+        where: { createdAt: { lt: cutoff } },
+        orderBy: { createdAt: 'asc' },
+        take,
+        select: { id: true },
+      });
+      const { count } = await prisma.authEvent.deleteMany({ where: { id: { in: rows.map((r) => r.id) } } });
+      return count;
+    },
+  },
+};
+
+// ---------------------------------------------------------------------------
+// Legacy history file
+// ---------------------------------------------------------------------------
+
+interface FileHandler {
+  matches(session: InterviewSession, cutoff: Date): boolean;
+  /** The anonymized session, or null to drop it. */
+  purge(session: InterviewSession): InterviewSession | null;
+}
+
+// The file has no createdAt; the session date stands in for it.
+const olderThan = (session: InterviewSession, cutoff: Date) => new Date(session.date) < cutoff;
+
+function hasInterviewerNotes(session: InterviewSession): boolean {
+  return Object.values(session.assessments ?? {}).some((a) => !!a?.interviewerNotes);
+}
+
+const FILE_HANDLERS: Partial<Record<DataClass, FileHandler>> = {
+  completed_sessions: {
+    matches: (session, cutoff) => session.status === 'completed' && olderThan(session, cutoff),
+    purge: () => null,
+  },
+  // Only trainer-led sessions are written to the file, so it holds no transcripts.
+  interviewer_notes: {
+    matches: (session, cutoff) => olderThan(session, cutoff) && hasInterviewerNotes(session),
+    purge: (session) => ({
+      ...session,
+      assessments: clearInterviewerNotes(
+        session.assessments as unknown as Prisma.JsonValue,
+      ) as unknown as InterviewSession['assessments'],
+    }),
+  },
+};
+
+function historyFileEligible(dataClass: DataClass, cutoff: Date): InterviewSession[] {
+  const handler = FILE_HANDLERS[dataClass];
+  return handler ? readHistory().filter((session) => handler.matches(session, cutoff)) : [];
+}
+
+/** Purge the class from the history file in one pass; returns how many sessions. */
+function purgeHistoryFile(dataClass: DataClass, cutoff: Date): number {
+  const handler = FILE_HANDLERS[dataClass];
+  if (!handler) return 0;
+  const history = readHistory();
+  let purged = 0;
+  const kept = history.flatMap((session) => {
+    if (!handler.matches(session, cutoff)) return [session];
+    purged++;
+    const next = handler.purge(session);
+    return next ? [next] : [];
+  });
+  if (purged > 0) writeHistory(kept);
+  return purged;
+}
+
+// ---------------------------------------------------------------------------
+// Sweep
+// ---------------------------------------------------------------------------
+
+export interface RetentionClassReport {
+  dataClass: DataClass;
+  retainMonths: number | null;
+  cutoff: string | null;
+  /** Rows past retention when the run started, history-file sessions included. */
+  eligible: number;
+  oldest: string | null;
+  /** Rows deleted or anonymized; always 0 on a dry run. */
+  processed: number;
+  /** The run stopped at maxBatches; the next run picks up any rows left. */
+  truncated: boolean;
+  error?: string;
+}
+
+export interface RetentionReport {
+  dryRun: boolean;
+  generatedAt: string;
+  classes: RetentionClassReport[];
+}
+
+/**
+ * Purge everything past retention, or with `dryRun` only report it.
+ * `policies` replaces the saved periods for the classes it names; proposed
+ * periods are never enforced, so passing them always makes this a dry run.
+ */
+export async function runRetentionSweep(opts?: {
+  dryRun?: boolean;
+  policies?: Partial<RetentionPolicies>;
+  batchSize?: number;
+  maxBatches?: number;
+  now?: Date;
+}): Promise<RetentionReport> {
+  const dryRun = (opts?.dryRun ?? false) || opts?.policies !== undefined;
+  const batchSize = opts?.batchSize ?? DEFAULT_BATCH_SIZE;
+  const maxBatches = opts?.maxBatches ?? DEFAULT_MAX_BATCHES;
+  const now = opts?.now ?? new Date();
+
+  const policies = await getRetentionPolicies();
+  for (const [dataClass, retainMonths] of Object.entries(opts?.policies ?? {})) {
+    if (retainMonths !== undefined) policies[dataClass as DataClass] = retainMonths;
+  }
+  const classes: RetentionClassReport[] = [];
+
+  // One class failing (e.g. a malformed row) must not stop the others.
+  for (const dataClass of DATA_CLASSES) {
+    const retainMonths = policies[dataClass];
+    const report: RetentionClassReport = {
+      dataClass,
+      retainMonths,
+      cutoff: null,
+      eligible: 0,
+      oldest: null,
+      processed: 0,
+      truncated: false,
+    };
+    classes.push(report);
+    if (retainMonths === null) continue;
+
+    const handler = HANDLERS[dataClass];
+    const cutoff = retentionCutoff(retainMonths, now);
+    report.cutoff = cutoff.toISOString();
+    try {
+      const dbEligible = await handler.count(cutoff);
+      const fileEligible = historyFileEligible(dataClass, cutoff);
+      report.eligible = dbEligible + fileEligible.length;
+      const oldest = [await handler.oldest(cutoff), ...fileEligible.map((s) => new Date(s.date))]
+        .filter((d): d is Date => d !== null)
+        .sort((a, b) => a.getTime() - b.getTime())[0];
+      report.oldest = oldest?.toISOString() ?? null;
+      if (dryRun || report.eligible === 0) continue;
+
+      for (let batch = 0; dbEligible > 0 && batch < maxBatches; batch++) {
+        const done = await handler.purgeBatch(cutoff, batchSize, now);
+        report.processed += done;
+        if (done < batchSize) break;
+        if (batch === maxBatches - 1) report.truncated = true;
+      }
+      if (fileEligible.length > 0) report.processed += purgeHistoryFile(dataClass, cutoff);
+    } catch (err) {
+      console.error(`${LOG_PREFIX} ${dataClass} failed after ${report.processed} rows:`, err);
+      report.error = (err as Error).message;
+    }
+  }
+
+  return { dryRun, generatedAt: now.toISOString(), classes };
+}
@@ -0,0 +1,194 @@
+/**
+ * rubricService.test.ts
+ *
+ * Vitest unit tests for the rubric service.
+ * Prisma is mocked so no DB connection required.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// ---------------------------------------------------------------------------
+// Mock prisma before importing the module under test
+// ---------------------------------------------------------------------------
+vi.mock('@/lib/prisma', () => {
+  const scoringRubric = {
+    findFirst: vi.fn(),
+    findMany: vi.fn(),
+    create: vi.fn(),
+  };
+  return {
+    prisma: {
+      scoringRubric,
+      $transaction: vi.fn((fn: (tx: unknown) => unknown) => fn({ scoringRubric })),
+    },
+  };
+});
+
+import { prisma } from '@/lib/prisma';
+import {
+  toRubricSlug,
+  parseRubricMarkdown,
+  formatRubricSection,
+  resolveRubric,
+  listLatestRubrics,
+  createRubricVersion,
+} from '@/lib/rubricService';
+
+const mockFindFirst = prisma.scoringRubric.findFirst as ReturnType<typeof vi.fn>;
+const mockFindMany = prisma.scoringRubric.findMany as ReturnType<typeof vi.fn>;
+const mockCreate = prisma.scoringRubric.create as ReturnType<typeof vi.fn>;
+
+function row(skillSlug: string, version: number, extra: Record<string, unknown> = {}) {
+  return {
+    id: version,
+    skillSlug,
+    version,
+    scoringGuidance: `${skillSlug} guidance v${version}`,
+    summaryGuidance: null,
+    source: 'settings',
+    createdBy: null,
+    createdAt: new Date('2026-04-20T00:00:00Z'),
+    ...extra,
+  };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+// ---------------------------------------------------------------------------
+// Pure helpers
+// ---------------------------------------------------------------------------
+
+describe('toRubricSlug', () => {
+  it('normalizes techMap names and topics to kebab slugs', () => {
+    expect(toRubricSlug('react')).toBe('react');
+    expect(toRubricSlug('React Hooks.md')).toBe('react-hooks');
+    expect(toRubricSlug('  C# / .NET ')).toBe('c-net');
+  });
+
+  it('returns null for empty input', () => {
+    expect(toRubricSlug(undefined)).toBeNull();
+    expect(toRubricSlug('  ')).toBeNull();
+  });
+});
+
+describe('parseRubricMarkdown', () => {
+  it('splits ## Scoring and ## Summary sections and reads the skill from frontmatter', () => {
+    const md = `---
+skill: SQL
+---
+## Scoring
+5 — explains joins and NULL handling
+
+## Summary
+Call out set-based thinking.
+`;
+    expect(parseRubricMarkdown(md)).toEqual({
+      skillSlug: 'sql',
+      scoringGuidance: '5 — explains joins and NULL handling',
+      summaryGuidance: 'Call out set-based thinking.',
+    });
+  });
+
+  it('treats a body without headings as scoring guidance', () => {
+    const parsed = parseRubricMarkdown('Reward correct use of indexes.\n');
+    expect(parsed.skillSlug).toBeNull();
+    expect(parsed.scoringGuidance).toBe('Reward correct use of indexes.');
+    expect(parsed.summaryGuidance).toBeNull();
+  });
+});
+
+describe('formatRubricSection', () => {
+  it('is empty when there is no rubric', () => {
+    expect(formatRubricSection(null)).toBe('');
+  });
+
+  it('labels the rubric with skill and version', () => {
+    const section = formatRubricSection(row('react', 3));
+    expect(section).toContain('SKILL RUBRIC (react v3)');
+    expect(section).toContain('react guidance v3');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// resolveRubric
+// ---------------------------------------------------------------------------
+
+describe('resolveRubric', () => {
+  it('prefers the skill rubric over topic and default', async () => {
+    mockFindMany.mockResolvedValue([row('default', 2), row('hooks', 1), row('react', 4), row('react', 3)]);
+    const rubric = await resolveRubric({ skill: 'react', topic: 'hooks' });
+    expect(rubric?.skillSlug).toBe('react');
+    expect(rubric?.version).toBe(4);
+    expect(mockFindMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { skillSlug: { in: ['react', 'hooks', 'default'] } } }),
+    );
+  });
+
+  it('falls back to topic, then default', async () => {
+    mockFindMany.mockResolvedValue([row('default', 1), row('hooks', 1)]);
+    expect((await resolveRubric({ skill: 'react', topic: 'hooks' }))?.skillSlug).toBe('hooks');
+
+    mockFindMany.mockResolvedValue([row('default', 1)]);
+    expect((await resolveRubric({ skill: 'react' }))?.skillSlug).toBe('default');
+  });
+
+  it('returns null when no rubric exists', async () => {
+    mockFindMany.mockResolvedValue([]);
+    expect(await resolveRubric({ skill: 'react' })).toBeNull();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// listLatestRubrics / createRubricVersion
+// ---------------------------------------------------------------------------
+
+describe('listLatestRubrics', () => {
+  it('keeps the newest version per skill and counts versions', async () => {
+    mockFindMany.mockResolvedValue([row('react', 2), row('react', 1), row('sql', 1)]);
+    const result = await listLatestRubrics();
+    expect(result.map((r) => [r.skillSlug, r.version, r.versionCount])).toEqual([
+      ['react', 2, 2],
+      ['sql', 1, 1],
+    ]);
+  });
+});
+
+describe('createRubricVersion', () => {
+  it('inserts version 1 for a new skill', async () => {
+    mockFindFirst.mockResolvedValue(null);
+    mockCreate.mockResolvedValue(row('react', 1));
+    await createRubricVersion({ skillSlug: 'react', scoringGuidance: ' be fair ', source: 'settings' });
+    expect(mockCreate).toHaveBeenCalledWith({
+      data: expect.objectContaining({ skillSlug: 'react', version: 1, scoringGuidance: 'be fair', summaryGuidance: null }),
+    });
+  });
+
+  it('inserts max+1 for an existing skill', async () => {
+    mockFindFirst.mockResolvedValue({ version: 4 });
+    mockCreate.mockResolvedValue(row('react', 5));
+    await createRubricVersion({ skillSlug: 'react', scoringGuidance: 'x', source: 'repo' });
+    expect(mockCreate).toHaveBeenCalledWith({
+      data: expect.objectContaining({ version: 5, source: 'repo' }),
+    });
+  });
+
+  it('rejects invalid slugs and empty guidance', async () => {
+    await expect(
+      createRubricVersion({ skillSlug: 'Not A Slug', scoringGuidance: 'x', source: 'settings' }),
+    ).rejects.toThrow(/skillSlug/);
+    await expect(
+      createRubricVersion({ skillSlug: 'react', scoringGuidance: '   ', source: 'settings' }),
+    ).rejects.toThrow(/scoringGuidance/);
+    expect(mockCreate).not.toHaveBeenCalled();
+  });
+
+  it('does not catch P2002 (route translates to 409)', async () => {
+    mockFindFirst.mockResolvedValue({ version: 1 });
+    mockCreate.mockRejectedValue(Object.assign(new Error('Unique constraint'), { code: 'P2002' }));
+    await expect(
+      createRubricVersion({ skillSlug: 'react', scoringGuidance: 'x', source: 'settings' }),
+    ).rejects.toMatchObject({ code: 'P2002' });
+  });
+});
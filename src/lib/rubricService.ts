@@ -0,0 +1,228 @@
+/**
+ * rubricService.ts
+ *
+ * Versioned, trainer-authored scoring rubrics per skill.
+ *
+ * Rubrics are append-only: saving a rubric inserts the next version for its
+ * skill rather than updating in place, so a QuestionAssessment's
+ * `rubric: { skillSlug, version }` always points at the exact text that
+ * graded it.
+ *
+ * Authoring paths:
+ *   - Settings UI (/trainer/settings/rubrics) — source 'settings'
+ *   - Question-bank repo file `rubrics/<skill>.md`, imported through the same
+ *     UI — source 'repo'. See parseRubricMarkdown for the file format.
+ *
+ * Resolution order for a question: its skill (techMap), then its topic, then
+ * the DEFAULT_RUBRIC_SLUG rubric. No rubric at all → generic prompt only.
+ *
+ * IMPORTANT: Prisma P2002 (unique-constraint) errors are NOT caught here.
+ * Route handlers translate P2002 → HTTP 409 (concurrent save of same skill).
+ */
+
+import matter from 'gray-matter';
+import { prisma } from '@/lib/prisma';
+import { toSkillSlug } from '@/lib/skillSlug';
+import type { RubricRef } from '@/lib/types';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export const DEFAULT_RUBRIC_SLUG = 'default';
+
+export type RubricSource = 'settings' | 'repo';
+
+export interface ScoringRubric {
+  id: number;
+  skillSlug: string;
+  version: number;
+  scoringGuidance: string;
+  summaryGuidance: string | null;
+  source: string;
+  createdBy: string | null;
+  createdAt: Date;
+}
+
+export interface RubricVersionInput {
+  skillSlug: string;
+  scoringGuidance: string;
+  summaryGuidance?: string | null;
+  source: RubricSource;
+  createdBy?: string | null;
+}
+
+export interface RubricSummary extends ScoringRubric {
+  versionCount: number;
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const SLUG_REGEX = /^[a-z0-9][a-z0-9-]*$/;
+
+/**
+ * Normalize a skill or topic label to the slug rubrics are keyed by
+ * (toSkillSlug, so rubrics line up with curriculum skills and question-bank
+ * topics). Returns null for empty input.
+ */
+export function toRubricSlug(raw: string | null | undefined): string | null {
+  if (!raw) return null;
+  return toSkillSlug(raw) || null;
+}
+
+export function toRubricRef(rubric: Pick<ScoringRubric, 'skillSlug' | 'version'>): RubricRef {
+  return { skillSlug: rubric.skillSlug, version: rubric.version };
+}
+
+/**
+ * Parse a question-bank rubric file.
+ *
+ *   ---
+ *   skill: sql            # optional; defaults to the file name
+ *   ---
+ *   ## Scoring
+ *   5 — joins chosen correctly and NULL handling explained ...
+ *   ## Summary
+ *   Call out set-based thinking ...
+ *
+ * Without headings the whole body is scoring guidance.
+ */
+export function parseRubricMarkdown(markdown: string): {
+  skillSlug: string | null;
+  scoringGuidance: string;
+  summaryGuidance: string | null;
+} {
+  const { data, content } = matter(markdown);
+  const skillSlug = typeof data.skill === 'string' ? toRubricSlug(data.skill) : null;
+
+  const sections = new Map<string, string[]>();
+  let current: string | null = null;
+  const preamble: string[] = [];
+  for (const line of content.split('\n')) {
+    const heading = line.match(/^##\s+(.+?)\s*$/);
+    if (heading) {
+      current = heading[1].toLowerCase();
+      sections.set(current, []);
+      continue;
+    }
+    (current ? sections.get(current)! : preamble).push(line);
+  }
+
+  const scoring = sections.has('scoring') ? sections.get('scoring')!.join('\n') : preamble.join('\n');
+  const summary = sections.get('summary')?.join('\n').trim() || null;
+
+  return { skillSlug, scoringGuidance: scoring.trim(), summaryGuidance: summary };
+}
+
+/**
+ * Prompt block injected into the scoring prompts. Empty string when there is
+ * no rubric so templates can always include the variable.
+ */
+export function formatRubricSection(rubric: Pick<ScoringRubric, 'skillSlug' | 'version' | 'scoringGuidance'> | null): string {
+  if (!rubric) return '';
+  return `SKILL RUBRIC (${rubric.skillSlug} v${rubric.version}) — where this rubric defines what a score means, it takes precedence over the generic scoring guidelines:
+${rubric.scoringGuidance}`;
+}
+
+function validateInput(input: RubricVersionInput): void {
+  if (!SLUG_REGEX.test(input.skillSlug) || input.skillSlug.length > 50) {
+    throw new Error('skillSlug must be lowercase-kebab (a-z, 0-9, hyphens), max 50 chars');
+  }
+  if (!input.scoringGuidance.trim()) {
+    throw new Error('scoringGuidance is required');
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Service functions
+// ---------------------------------------------------------------------------
+
+/** Latest version of one skill's rubric, or null. */
+export async function getLatestRubric(skillSlug: string): Promise<ScoringRubric | null> {
+  return prisma.scoringRubric.findFirst({
+    where: { skillSlug },
+    orderBy: { version: 'desc' },
+  });
+}
+
+/** Exact version lookup — used to show which rubric graded a past session. */
+export async function getRubricVersion(ref: RubricRef): Promise<ScoringRubric | null> {
+  return prisma.scoringRubric.findUnique({
+    where: { skillSlug_version: { skillSlug: ref.skillSlug, version: ref.version } },
+  });
+}
+
+/**
+ * Rubric for a question: skill → topic → default. Returns null when none of
+ * those have a rubric.
+ */
+export async function resolveRubric(opts: {
+  skill?: string | null;
+  topic?: string | null;
+}): Promise<ScoringRubric | null> {
+  const candidates = [toRubricSlug(opts.skill), toRubricSlug(opts.topic), DEFAULT_RUBRIC_SLUG]
+    .filter((s, i, all): s is string => !!s && all.indexOf(s) === i);
+
+  const rows = await prisma.scoringRubric.findMany({
+    where: { skillSlug: { in: candidates } },
+    orderBy: { version: 'desc' },
+  });
+  for (const slug of candidates) {
+    const match = rows.find((r) => r.skillSlug === slug);
+    if (match) return match;
+  }
+  return null;
+}
+
+/** Latest version of every skill's rubric, with how many versions exist. */
+export async function listLatestRubrics(): Promise<RubricSummary[]> {
+  const rows = await prisma.scoringRubric.findMany({
+    orderBy: [{ skillSlug: 'asc' }, { version: 'desc' }],
+  });
+  const bySkill = new Map<string, RubricSummary>();
+  for (const row of rows) {
+    const existing = bySkill.get(row.skillSlug);
+    if (existing) {
+      existing.versionCount += 1;
+    } else {
+      bySkill.set(row.skillSlug, { ...row, versionCount: 1 });
+    }
+  }
+  return [...bySkill.values()];
+}
+
+/** All versions of one skill's rubric, newest first. */
+export async function listRubricVersions(skillSlug: string): Promise<ScoringRubric[]> {
+  return prisma.scoringRubric.findMany({
+    where: { skillSlug },
+    orderBy: { version: 'desc' },
+  });
+}
+
+/**
+ * Insert the next version of a skill's rubric.
+ * Does NOT catch P2002 — a concurrent save of the same skill surfaces as 409.
+ */
+export async function createRubricVersion(input: RubricVersionInput): Promise<ScoringRubric> {
+  validateInput(input);
+
+  return prisma.$transaction(async (tx) => {
+    const latest = await tx.scoringRubric.findFirst({
+      where: { skillSlug: input.skillSlug },
+      orderBy: { version: 'desc' },
+      select: { version: true },
+    });
+    return tx.scoringRubric.create({
+      data: {
+        skillSlug: input.skillSlug,
+        version: (latest?.version ?? 0) + 1,
+        scoringGuidance: input.scoringGuidance.trim(),
+        summaryGuidance: input.summaryGuidance?.trim() || null,
+        source: input.source,
+        createdBy: input.createdBy ?? null,
+      },
+    });
+  });
+}
@@ -0,0 +1,220 @@
+/**
+ * sessionDraftService.test.ts
+ *
+ * Vitest unit tests for server-side interview drafts.
+ * Prisma is mocked so no DB connection required.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    associate: { findUnique: vi.fn(), findMany: vi.fn() },
+    session: {
+      create: vi.fn(),
+      updateMany: vi.fn(),
+      findUnique: vi.fn(),
+      findMany: vi.fn(),
+      deleteMany: vi.fn(),
+    },
+  },
+}));
+
+import { prisma } from '@/lib/prisma';
+import {
+  DraftConflictError,
+  canAccessDraftAssociate,
+  canAccessSessionDraft,
+  discardSessionDraft,
+  getSessionDraft,
+  listSessionDrafts,
+  saveSessionDraft,
+} from '@/lib/sessionDraftService';
+import type { InterviewSession } from '@/lib/types';
+
+const mockCreate = prisma.session.create as ReturnType<typeof vi.fn>;
+const mockUpdateMany = prisma.session.updateMany as ReturnType<typeof vi.fn>;
+const mockFindUnique = prisma.session.findUnique as ReturnType<typeof vi.fn>;
+const mockFindMany = prisma.session.findMany as ReturnType<typeof vi.fn>;
+const mockDeleteMany = prisma.session.deleteMany as ReturnType<typeof vi.fn>;
+const mockAssociate = prisma.associate.findUnique as ReturnType<typeof vi.fn>;
+const mockAssociates = prisma.associate.findMany as ReturnType<typeof vi.fn>;
+
+const trainer = { kind: 'trainer' as const, userId: 't1', email: 't@test.com' };
+const scoped = { ...trainer, cohortIds: [1] };
+
+const session: InterviewSession = {
+  id: 'session-1',
+  candidateName: 'Ada',
+  date: '2026-04-22T10:00:00.000Z',
+  selectedWeeks: [1],
+  questionCount: 1,
+  starterQuestions: [],
+  questions: [],
+  assessments: {},
+  currentQuestionIndex: 2,
+  status: 'in-progress',
+  techMap: { 1: 'sql' },
+  associateSlug: 'ada-l',
+};
+
+const updatedAt = new Date('2026-04-22T10:05:00.000Z');
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+describe('saveSessionDraft', () => {
+  it('creates revision 1 for a session the server has never seen', async () => {
+    mockCreate.mockResolvedValue({ revision: 1 });
+
+    await expect(saveSessionDraft(session, { baseRevision: 0, updatedBy: 't@x.com' })).resolves.toBe(1);
+
+    const data = mockCreate.mock.calls[0][0].data;
+    expect(data).toMatchObject({
+      id: 'session-1',
+      revision: 1,
+      status: 'in-progress',
+      currentQuestionIndex: 2,
+      draftAssociateSlug: 'ada-l',
+      draftUpdatedBy: 't@x.com',
+    });
+    // Drafts never link the associate — that happens on the final save.
+    expect(data).not.toHaveProperty('associateId');
+  });
+
+  it('updates only when the stored revision matches and bumps it', async () => {
+    mockUpdateMany.mockResolvedValue({ count: 1 });
+
+    await expect(saveSessionDraft(session, { baseRevision: 3 })).resolves.toBe(4);
+
+    const args = mockUpdateMany.mock.calls[0][0];
+    expect(args.where).toEqual({ id: 'session-1', revision: 3, status: { in: ['in-progress', 'review'] } });
+    expect(args.data.revision).toEqual({ increment: 1 });
+  });
+
+  it('throws DraftConflictError with the server state on a stale revision', async () => {
+    mockUpdateMany.mockResolvedValue({ count: 0 });
+    mockFindUnique.mockResolvedValue({ revision: 5, status: 'in-progress', draftUpdatedBy: 'b@x.com', updatedAt });
+
+    const err = await saveSessionDraft(session, { baseRevision: 3 }).catch((e) => e);
+    expect(err).toBeInstanceOf(DraftConflictError);
+    expect(err.current).toEqual({ revision: 5, status: 'in-progress', updatedBy: 'b@x.com', updatedAt });
+  });
+
+  it('conflicts with a null current when the draft was deleted', async () => {
+    mockUpdateMany.mockResolvedValue({ count: 0 });
+    mockFindUnique.mockResolvedValue(null);
+
+    const err = await saveSessionDraft(session, { baseRevision: 3 }).catch((e) => e);
+    expect(err).toBeInstanceOf(DraftConflictError);
+    expect(err.current).toBeNull();
+  });
+
+  it('refuses completed sessions', async () => {
+    await expect(saveSessionDraft({ ...session, status: 'completed' }, { baseRevision: 1 })).rejects.toThrow(
+      /in-progress\/review/,
+    );
+    expect(mockUpdateMany).not.toHaveBeenCalled();
+  });
+});
+
+describe('getSessionDraft', () => {
+  it('maps the row back to an InterviewSession', async () => {
+    mockFindUnique.mockResolvedValue({
+      id: 'session-1',
+      candidateName: 'Ada',
+      interviewerName: null,
+      date: session.date,
+      status: 'review',
+      questionCount: 1,
+      selectedWeeks: [1],
+      overallTechnicalScore: null,
+      overallSoftSkillScore: null,
+      technicalFeedback: null,
+      softSkillFeedback: null,
+      questions: [],
+      starterQuestions: [],
+      assessments: {},
+      techMap: { 1: 'sql' },
+      currentQuestionIndex: 2,
+      draftAssociateSlug: 'ada-l',
+      revision: 7,
+      draftUpdatedBy: 't@x.com',
+      updatedAt,
+    });
+
+    const draft = await getSessionDraft('session-1');
+    expect(draft?.revision).toBe(7);
+    expect(draft?.session).toMatchObject({
+      id: 'session-1',
+      status: 'review',
+      currentQuestionIndex: 2,
+      associateSlug: 'ada-l',
+      interviewerName: undefined,
+    });
+  });
+
+  it('returns null for completed sessions', async () => {
+    mockFindUnique.mockResolvedValue({ id: 'session-1', status: 'completed' });
+    await expect(getSessionDraft('session-1')).resolves.toBeNull();
+  });
+});
+
+describe('listSessionDrafts / discardSessionDraft', () => {
+  it('lists trainer-led drafts newest first', async () => {
+    mockFindMany.mockResolvedValue([
+      { id: 's1', draftAssociateSlug: 'ada-l', draftUpdatedBy: 't@x.com', revision: 2 },
+    ]);
+
+    const drafts = await listSessionDrafts();
+    expect(mockFindMany.mock.calls[0][0].where).toEqual({
+      status: { in: ['in-progress', 'review'] },
+      mode: 'trainer-led',
+    });
+    expect(drafts[0]).toEqual({ id: 's1', associateSlug: 'ada-l', updatedBy: 't@x.com', revision: 2 });
+  });
+
+  it('only deletes draft-status rows', async () => {
+    mockDeleteMany.mockResolvedValue({ count: 0 });
+    await expect(discardSessionDraft('done')).resolves.toBe(false);
+    expect(mockDeleteMany.mock.calls[0][0].where).toEqual({ id: 'done', status: { in: ['in-progress', 'review'] } });
+  });
+});
+
+describe('cohort scope', () => {
+  it('lists only drafts for associates in the given cohorts', async () => {
+    mockAssociates.mockResolvedValue([{ slug: 'ada-l' }]);
+    mockFindMany.mockResolvedValue([]);
+    await listSessionDrafts([1]);
+    expect(mockAssociates).toHaveBeenCalledWith({ where: { cohortId: { in: [1] } }, select: { slug: true } });
+    expect(mockFindMany.mock.calls[0][0].where).toEqual({
+      status: { in: ['in-progress', 'review'] },
+      mode: 'trainer-led',
+      draftAssociateSlug: { in: ['ada-l'] },
+    });
+  });
+
+  it('checks the associate a draft names against the caller scope', async () => {
+    expect(await canAccessSessionDraft(trainer, 'session-1')).toBe(true);
+    expect(mockFindUnique).not.toHaveBeenCalled();
+
+    mockFindUnique.mockResolvedValue({ draftAssociateSlug: 'ada-l' });
+    mockAssociate.mockResolvedValue({ cohortId: 1 });
+    expect(await canAccessSessionDraft(scoped, 'session-1')).toBe(true);
+    mockAssociate.mockResolvedValue({ cohortId: 2 });
+    expect(await canAccessSessionDraft(scoped, 'session-1')).toBe(false);
+
+    // No associate picked yet: unscoped staff only.
+    mockFindUnique.mockResolvedValue({ draftAssociateSlug: null });
+    expect(await canAccessSessionDraft(scoped, 'session-1')).toBe(false);
+    mockFindUnique.mockResolvedValue(null);
+    expect(await canAccessSessionDraft(scoped, 'missing')).toBe(true);
+  });
+
+  it('refuses drafts for associates outside the caller scope', async () => {
+    mockAssociate.mockResolvedValue({ cohortId: 2 });
+    expect(await canAccessDraftAssociate(scoped, 'bob')).toBe(false);
+    expect(await canAccessDraftAssociate(trainer, 'bob')).toBe(true);
+  });
+});
@@ -0,0 +1,254 @@
+/**
+ * sessionDraftService.ts
+ *
+ * Server-side drafts of trainer-led interviews, so a session survives a
+ * refresh on another laptop or a cleared cache.
+ *
+ * A draft is an ordinary Session row whose status is 'in-progress' or
+ * 'review'. The interview UI autosaves it as assessments change; the final
+ * save (POST /api/history → persistSessionToDb) flips it to 'completed' and
+ * only then links associateId, so drafts never feed gap scores, readiness or
+ * any associate-keyed analytics. The associate slug is parked in
+ * draftAssociateSlug until then.
+ *
+ * Conflict detection is optimistic: every save carries the revision the
+ * client last saw. A save against a newer revision (another tab or device
+ * got there first) or against a session that is no longer a draft throws
+ * DraftConflictError with the server's current state; routes map it to 409.
+ *
+ * Cohort-scoped trainers only see drafts for associates in their cohorts;
+ * drafts with no associate picked yet are only visible to unscoped staff,
+ * the same rule canAccessCohort applies to unassigned associates.
+ *
+ * IMPORTANT: Prisma P2002 is NOT caught here — two tabs creating the same
+ * draft at once surfaces as 409 from the route, same as a revision conflict.
+ */
+
+import { prisma } from '@/lib/prisma';
+import { Prisma } from '@/generated/prisma';
+import { canAccessCohort, cohortScope, type StaffIdentity } from '@/lib/authorization';
+import type { InterviewSession } from '@/lib/types';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export const DRAFT_STATUSES = ['in-progress', 'review'] as const;
+
+export interface SessionDraftSummary {
+  id: string;
+  candidateName: string | null;
+  interviewerName: string | null;
+  associateSlug: string | null;
+  status: string;
+  questionCount: number;
+  currentQuestionIndex: number;
+  revision: number;
+  updatedBy: string | null;
+  updatedAt: Date;
+}
+
+export interface SessionDraft {
+  session: InterviewSession;
+  revision: number;
+  updatedBy: string | null;
+  updatedAt: Date;
+}
+
+export class DraftConflictError extends Error {
+  constructor(
+    public readonly current: Pick<SessionDraftSummary, 'revision' | 'status' | 'updatedBy' | 'updatedAt'> | null,
+  ) {
+    super(
+      current
+        ? `Session was saved elsewhere (revision ${current.revision}, status ${current.status})`
+        : 'Session no longer exists',
+    );
+    this.name = 'DraftConflictError';
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+type SessionRow = Prisma.SessionGetPayload<object>;
+
+function json(value: unknown): Prisma.InputJsonValue {
+  return value as Prisma.InputJsonValue;
+}
+
+function draftData(session: InterviewSession, updatedBy: string | null) {
+  return {
+    candidateName: session.candidateName ?? null,
+    interviewerName: session.interviewerName ?? null,
+    date: session.date,
+    status: session.status,
+    questionCount: session.questionCount,
+    selectedWeeks: json(session.selectedWeeks),
+    overallTechnicalScore: session.overallTechnicalScore ?? null,
+    overallSoftSkillScore: session.overallSoftSkillScore ?? null,
+    technicalFeedback: session.technicalFeedback ?? null,
+    softSkillFeedback: session.softSkillFeedback ?? null,
+    questions: json(session.questions),
+    starterQuestions: json(session.starterQuestions),
+    assessments: json(session.assessments),
+    techMap: session.techMap ? json(session.techMap) : Prisma.JsonNull,
+    currentQuestionIndex: session.currentQuestionIndex,
+    draftAssociateSlug: session.associateSlug ?? null,
+    draftUpdatedBy: updatedBy,
+  };
+}
+
+/** DB row → the InterviewSession shape the Zustand store holds. */
+export function rowToInterviewSession(row: SessionRow): InterviewSession {
+  return {
+    id: row.id,
+    candidateName: row.candidateName ?? undefined,
+    interviewerName: row.interviewerName ?? undefined,
+    date: row.date,
+    status: row.status as InterviewSession['status'],
+    questionCount: row.questionCount,
+    selectedWeeks: row.selectedWeeks as number[],
+    overallTechnicalScore: row.overallTechnicalScore ?? undefined,
+    overallSoftSkillScore: row.overallSoftSkillScore ?? undefined,
+    technicalFeedback: row.technicalFeedback ?? undefined,
+    softSkillFeedback: row.softSkillFeedback ?? undefined,
+    questions: row.questions as unknown as InterviewSession['questions'],
+    starterQuestions: row.starterQuestions as unknown as InterviewSession['starterQuestions'],
+    assessments: row.assessments as unknown as InterviewSession['assessments'],
+    techMap: (row.techMap as Record<number, string> | null) ?? undefined,
+    currentQuestionIndex: row.currentQuestionIndex,
+    associateSlug: row.draftAssociateSlug ?? undefined,
+  };
+}
+
+function isDraftStatus(status: string): boolean {
+  return (DRAFT_STATUSES as readonly string[]).includes(status);
+}
+
+async function cohortOfSlug(slug: string | null | undefined): Promise<number | null> {
+  if (!slug) return null;
+  const associate = await prisma.associate.findUnique({ where: { slug }, select: { cohortId: true } });
+  return associate?.cohortId ?? null;
+}
+
+// ---------------------------------------------------------------------------
+// Service functions
+// ---------------------------------------------------------------------------
+
+/**
+ * Save a draft. `baseRevision` is the revision the client last loaded or
+ * saved — 0 for a session the server has never seen. Returns the new revision.
+ *
+ * @throws DraftConflictError when the stored revision moved on or the session
+ *         was already completed/discarded.
+ */
+export async function saveSessionDraft(
+  session: InterviewSession,
+  opts: { baseRevision: number; updatedBy?: string | null },
+): Promise<number> {
+  if (!isDraftStatus(session.status)) {
+    throw new Error(`Only ${DRAFT_STATUSES.join('/')} sessions can be saved as drafts`);
+  }
+  const data = draftData(session, opts.updatedBy ?? null);
+
+  if (opts.baseRevision === 0) {
+    const created = await prisma.session.create({
+      data: { id: session.id, ...data, revision: 1 },
+      select: { revision: true },
+    });
+    return created.revision;
+  }
+
+  const result = await prisma.session.updateMany({
+    where: {
+      id: session.id,
+      revision: opts.baseRevision,
+      status: { in: [...DRAFT_STATUSES] },
+    },
+    data: { ...data, revision: { increment: 1 } },
+  });
+  if (result.count === 1) return opts.baseRevision + 1;
+
+  const current = await prisma.session.findUnique({
+    where: { id: session.id },
+    select: { revision: true, status: true, draftUpdatedBy: true, updatedAt: true },
+  });
+  throw new DraftConflictError(
+    current
+      ? { revision: current.revision, status: current.status, updatedBy: current.draftUpdatedBy, updatedAt: current.updatedAt }
+      : null,
+  );
+}
+
+/**
+ * Every in-progress / review draft, most recently touched first. With
+ * `cohortIds`, only drafts for associates in those cohorts.
+ */
+export async function listSessionDrafts(cohortIds: number[] | null = null): Promise<SessionDraftSummary[]> {
+  const where: Prisma.SessionWhereInput = { status: { in: [...DRAFT_STATUSES] }, mode: 'trainer-led' };
+  if (cohortIds !== null) {
+    const associates = await prisma.associate.findMany({
+      where: { cohortId: { in: cohortIds } },
+      select: { slug: true },
+    });
+    where.draftAssociateSlug = { in: associates.map((a) => a.slug) };
+  }
+  const rows = await prisma.session.findMany({
+    where,
+    orderBy: { updatedAt: 'desc' },
+    select: {
+      id: true,
+      candidateName: true,
+      interviewerName: true,
+      draftAssociateSlug: true,
+      status: true,
+      questionCount: true,
+      currentQuestionIndex: true,
+      revision: true,
+      draftUpdatedBy: true,
+      updatedAt: true,
+    },
+  });
+  return rows.map(({ draftAssociateSlug, draftUpdatedBy, ...row }) => ({
+    ...row,
+    associateSlug: draftAssociateSlug,
+    updatedBy: draftUpdatedBy,
+  }));
+}
+
+/**
+ * Whether the caller's cohort scope covers the session `id` — the associate
+ * its draft names. Missing sessions pass; the caller reports them as usual.
+ */
+export async function canAccessSessionDraft(caller: StaffIdentity, id: string): Promise<boolean> {
+  if (cohortScope(caller) === null) return true;
+  const row = await prisma.session.findUnique({ where: { id }, select: { draftAssociateSlug: true } });
+  return !row || canAccessCohort(caller, await cohortOfSlug(row.draftAssociateSlug));
+}
+
+/** Whether the caller may start or point a draft at the associate `slug`. */
+export async function canAccessDraftAssociate(caller: StaffIdentity, slug: string | null | undefined): Promise<boolean> {
+  return cohortScope(caller) === null || canAccessCohort(caller, await cohortOfSlug(slug));
+}
+
+/** Full draft for resuming, or null when missing or no longer a draft. */
+export async function getSessionDraft(id: string): Promise<SessionDraft | null> {
+  const row = await prisma.session.findUnique({ where: { id } });
+  if (!row || !isDraftStatus(row.status)) return null;
+  return {
+    session: rowToInterviewSession(row),
+    revision: row.revision,
+    updatedBy: row.draftUpdatedBy,
+    updatedAt: row.updatedAt,
+  };
+}
+
+/** Delete a draft. Completed sessions are never touched. Returns false when nothing matched. */
+export async function discardSessionDraft(id: string): Promise<boolean> {
+  const result = await prisma.session.deleteMany({
+    where: { id, status: { in: [...DRAFT_STATUSES] } },
+  });
+  return result.count > 0;
+}
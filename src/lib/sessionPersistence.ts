@@ -21,6 +21,28 @@ export function computeAiTrainerVariance(
   return deltas.reduce((sum, d) => sum + d, 0) / deltas.length;
 }
 
+/**
+ * Trainer overrides of the AI score that are new since `previous` (the
+ * assessments already stored for this session, if any). Keyed by questionId;
+ * `before` is the prior final score, or the AI score on first save.
+ * Returns null when nothing was overridden, so re-saves don't re-report.
+ */
+export function diffScoreOverrides(
+  previous: Record<string, { finalScore?: number }> | null,
+  assessments: Record<string, { llmScore?: number; finalScore?: number; status?: string }>
+): { before: Record<string, number | null>; after: Record<string, number> } | null {
+  const before: Record<string, number | null> = {};
+  const after: Record<string, number> = {};
+  for (const [questionId, a] of Object.entries(assessments)) {
+    if (a.status !== 'validated' || a.finalScore === undefined || a.finalScore === a.llmScore) continue;
+    const prior = previous?.[questionId]?.finalScore ?? a.llmScore ?? null;
+    if (prior === a.finalScore) continue;
+    before[questionId] = prior;
+    after[questionId] = a.finalScore;
+  }
+  return Object.keys(after).length > 0 ? { before, after } : null;
+}
+
 type SessionMode = 'trainer-led' | 'automated';
 
 /**
@@ -0,0 +1,212 @@
+/**
+ * similarityService.ts
+ *
+ * Trainer similarity reports over CodingAttempt.submittedCode. Each
+ * associate's latest finished attempt per language is compared with the
+ * rest of their cohort on the same challenge (codeSimilarity.ts does the
+ * tokenizing and winnowing). Reports are computed on request — nothing is
+ * persisted, so they always reflect the latest submissions.
+ *
+ * Scope is a single cohort (`cohortId: null` compares associates with no
+ * cohort among themselves). Clusters are single-link over pairs at or above
+ * the threshold.
+ */
+
+import { prisma } from '@/lib/prisma';
+import { CODING_LANGUAGES, type CodingLanguage } from '@/lib/coding-bank-schemas';
+import { clusterPairs, scoreSubmissions, type ScoredPair } from '@/lib/codeSimilarity';
+import type { SimilarityMatch, SimilarityMatchSide } from '@/lib/trainer-types';
+
+export const DEFAULT_SIMILARITY_THRESHOLD = 0.6;
+/** Lowest threshold a caller may ask for; below this nearly everything matches. */
+export const MIN_SIMILARITY_THRESHOLD = 0.3;
+
+/** Challenges scanned for the associate view (most recently attempted first). */
+const ASSOCIATE_CHALLENGE_LIMIT = 20;
+/** Attempts loaded per challenge before de-duplicating to the latest per associate. */
+const ATTEMPT_SCAN_LIMIT = 1000;
+
+export interface SimilaritySubmission {
+  attemptId: string;
+  associateId: number;
+  associateSlug: string;
+  displayName: string | null;
+  language: string;
+  verdict: string;
+  submittedAt: string;
+}
+
+export interface SimilarityCluster {
+  attemptIds: string[];
+  maxSimilarity: number;
+}
+
+export interface SimilarityReport {
+  challengeId: string;
+  cohortId: number | null;
+  threshold: number;
+  submissions: SimilaritySubmission[];
+  /** Pairs at or above the threshold, highest first */
+  pairs: ScoredPair[];
+  clusters: SimilarityCluster[];
+}
+
+/**
+ * `?threshold=` query value → number in [MIN_SIMILARITY_THRESHOLD, 1];
+ * missing → default, anything else invalid → null.
+ */
+export function parseThreshold(raw: string | null): number | null {
+  if (raw === null || raw === '') return DEFAULT_SIMILARITY_THRESHOLD;
+  const n = Number(raw);
+  return Number.isFinite(n) && n >= MIN_SIMILARITY_THRESHOLD && n <= 1 ? n : null;
+}
+
+interface LoadedSubmission extends SimilaritySubmission {
+  code: string;
+}
+
+function isCodingLanguage(lang: string): lang is CodingLanguage {
+  return (CODING_LANGUAGES as readonly string[]).includes(lang);
+}
+
+/** Latest non-pending attempt per (associate, language) on a challenge, within one cohort. */
+async function loadSubmissions(
+  challengeId: string,
+  cohortId: number | null,
+): Promise<LoadedSubmission[]> {
+  const rows = await prisma.codingAttempt.findMany({
+    where: { challengeId, verdict: { not: 'pending' }, codePurgedAt: null, associate: { cohortId } },
+    orderBy: { submittedAt: 'desc' },
+    take: ATTEMPT_SCAN_LIMIT,
+    select: {
+      id: true,
+      associateId: true,
+      language: true,
+      verdict: true,
+      submittedAt: true,
+      submittedCode: true,
+      associate: { select: { slug: true, displayName: true } },
+    },
+  });
+  const latest = new Map<string, LoadedSubmission>();
+  for (const row of rows) {
+    const key = `${row.associateId}:${row.language}`;
+    if (latest.has(key)) continue;
+    latest.set(key, {
+      attemptId: row.id,
+      associateId: row.associateId,
+      associateSlug: row.associate.slug,
+      displayName: row.associate.displayName,
+      language: row.language,
+      verdict: row.verdict,
+      submittedAt: row.submittedAt.toISOString(),
+      code: row.submittedCode,
+    });
+  }
+  return [...latest.values()];
+}
+
+function score(
+  submissions: LoadedSubmission[],
+  threshold: number,
+): { pairs: ScoredPair[]; clusters: SimilarityCluster[] } {
+  const pairs = scoreSubmissions(
+    submissions
+      .filter((s) => isCodingLanguage(s.language))
+      .map((s) => ({ id: s.attemptId, language: s.language as CodingLanguage, code: s.code })),
+  ).filter((p) => p.similarity >= threshold);
+  const clusters = clusterPairs(pairs, threshold).map((attemptIds) => {
+    const members = new Set(attemptIds);
+    return {
+      attemptIds,
+      maxSimilarity: Math.max(
+        ...pairs.filter((p) => members.has(p.a) && members.has(p.b)).map((p) => p.similarity),
+      ),
+    };
+  });
+  return { pairs, clusters };
+}
+
+/** Full report for one challenge within one cohort. Code is not included. */
+export async function buildSimilarityReport(
+  challengeId: string,
+  cohortId: number | null,
+  threshold: number = DEFAULT_SIMILARITY_THRESHOLD,
+): Promise<SimilarityReport> {
+  const loaded = await loadSubmissions(challengeId, cohortId);
+  const { pairs, clusters } = score(loaded, threshold);
+  return {
+    challengeId,
+    cohortId,
+    threshold,
+    submissions: loaded.map((s) => ({
+      attemptId: s.attemptId,
+      associateId: s.associateId,
+      associateSlug: s.associateSlug,
+      displayName: s.displayName,
+      language: s.language,
+      verdict: s.verdict,
+      submittedAt: s.submittedAt,
+    })),
+    pairs,
+    clusters,
+  };
+}
+
+function toSide(s: LoadedSubmission): SimilarityMatchSide {
+  return {
+    attemptId: s.attemptId,
+    associateSlug: s.associateSlug,
+    displayName: s.displayName,
+    submittedAt: s.submittedAt,
+    verdict: s.verdict,
+    code: s.code,
+  };
+}
+
+/**
+ * Flagged pairs involving one associate, across the challenges they most
+ * recently attempted, compared within their own cohort.
+ */
+export async function findAssociateMatches(
+  associate: { id: number; cohortId: number | null },
+  threshold: number = DEFAULT_SIMILARITY_THRESHOLD,
+): Promise<SimilarityMatch[]> {
+  const recent = await prisma.codingAttempt.findMany({
+    where: { associateId: associate.id, verdict: { not: 'pending' } },
+    orderBy: { submittedAt: 'desc' },
+    distinct: ['challengeId'],
+    take: ASSOCIATE_CHALLENGE_LIMIT,
+    select: {
+      challenge: { select: { id: true, slug: true, title: true } },
+    },
+  });
+
+  const matches: SimilarityMatch[] = [];
+  for (const { challenge } of recent) {
+    const loaded = await loadSubmissions(challenge.id, associate.cohortId);
+    const byId = new Map(loaded.map((s) => [s.attemptId, s]));
+    const { pairs, clusters } = score(loaded, threshold);
+    for (const pair of pairs) {
+      const [selfId, otherId] =
+        byId.get(pair.a)?.associateId === associate.id ? [pair.a, pair.b] : [pair.b, pair.a];
+      const self = byId.get(selfId)!;
+      const other = byId.get(otherId)!;
+      if (self.associateId !== associate.id) continue;
+      const cluster = clusters.find((c) => c.attemptIds.includes(selfId));
+      matches.push({
+        challengeId: challenge.id,
+        challengeSlug: challenge.slug,
+        challengeTitle: challenge.title,
+        language: self.language,
+        similarity: pair.similarity,
+        clusterSize: new Set(
+          (cluster?.attemptIds ?? [selfId, otherId]).map((id) => byId.get(id)!.associateId),
+        ).size,
+        self: toSide(self),
+        other: toSide(other),
+      });
+    }
+  }
+  return matches.sort((x, y) => y.similarity - x.similarity);
+}
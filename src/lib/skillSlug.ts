@@ -0,0 +1,21 @@
+/**
+ * skillSlug.ts
+ *
+ * The one normalization from a skill or topic label to the slug that
+ * CurriculumWeek.skillSlug, rubrics and question-bank topics are matched on:
+ * "React Hooks.md" → "react-hooks". Pure, so the question-bank CLI can use it.
+ */
+
+/** Max length of a CurriculumWeek.skillSlug / ScoringRubric.skillSlug. */
+export const SKILL_SLUG_MAX_LENGTH = 50;
+
+/** Returns '' when the label has no slug characters. */
+export function toSkillSlug(label: string): string {
+  return label
+    .trim()
+    .toLowerCase()
+    .replace(/\.md$/, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, SKILL_SLUG_MAX_LENGTH);
+}
@@ -0,0 +1,123 @@
+/**
+ * spacedRepetition.ts
+ *
+ * Turns low-scoring interview questions into review cards and schedules them
+ * with SM-2 (the SuperMemo-2 algorithm Anki started from). Grades use the
+ * interview score scale — 1=Poor … 5=Excellent — so a practice grade means
+ * the same thing as a trainer's finalScore and can feed GapScore directly.
+ *
+ * Pure: no React, no Prisma. Persistence lives in practiceService.ts.
+ */
+
+import type { InterviewSession } from './types';
+import { extractScore } from './gapService';
+import { normalizeTopic } from './adaptiveSelector';
+
+/** Scores at or below this (Average or worse) become practice cards. */
+export const LOW_SCORE_THRESHOLD = 3;
+/** Grades below this count as a lapse: the card starts over. */
+export const PASSING_GRADE = 3;
+export const DEFAULT_EASE = 2.5;
+const MIN_EASE = 1.3;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type PracticeGrade = 1 | 2 | 3 | 4 | 5;
+
+export interface CardSchedule {
+  easeFactor: number;
+  intervalDays: number;
+  repetitions: number;
+  dueAt: Date;
+}
+
+export interface PracticeCandidate {
+  cardKey: string;
+  skill: string;
+  topic: string;
+  question: string;
+  modelAnswer: string;
+  keywords: string[];
+  sourceSessionId: string;
+  sourceScore: number;
+}
+
+export function practiceCardKey(skill: string, questionNumber: number): string {
+  return `${skill}#${questionNumber}`;
+}
+
+/**
+ * One candidate per low-scoring question across `sessions` (newest first).
+ * When a question was asked more than once, the newest attempt decides: a
+ * question the associate has since answered well produces no card.
+ */
+export function practiceCandidates(
+  sessions: Pick<InterviewSession, 'id' | 'questions' | 'assessments' | 'techMap'>[],
+): PracticeCandidate[] {
+  const seen = new Set<string>();
+  const candidates: PracticeCandidate[] = [];
+
+  for (const session of sessions) {
+    if (!session.techMap) continue;
+    for (const question of session.questions) {
+      if (question.id.startsWith('starter-')) continue;
+      const skill = session.techMap[question.weekNumber];
+      const assessment = session.assessments[question.id];
+      if (!skill || !assessment) continue;
+      const score = extractScore(assessment);
+      if (score === null) continue;
+
+      const cardKey = practiceCardKey(skill, question.questionNumber);
+      if (seen.has(cardKey)) continue;
+      seen.add(cardKey);
+      if (score > LOW_SCORE_THRESHOLD) continue;
+
+      candidates.push({
+        cardKey,
+        skill,
+        topic: normalizeTopic(question.topic || question.keywords[0] || ''),
+        question: question.question,
+        modelAnswer: question.modelAnswer,
+        keywords: question.keywords,
+        sourceSessionId: session.id,
+        sourceScore: score,
+      });
+    }
+  }
+  return candidates;
+}
+
+/**
+ * SM-2 step. A lapse (grade < PASSING_GRADE) resets repetitions and brings the
+ * card back tomorrow; otherwise the interval grows 1 → 6 → interval × ease.
+ * Ease moves with every review and never drops below 1.3.
+ */
+export function scheduleReview(
+  card: Pick<CardSchedule, 'easeFactor' | 'intervalDays' | 'repetitions'>,
+  grade: PracticeGrade,
+  now: Date = new Date(),
+): CardSchedule {
+  const easeFactor = Math.max(
+    MIN_EASE,
+    card.easeFactor + 0.1 - (5 - grade) * (0.08 + (5 - grade) * 0.02),
+  );
+
+  let repetitions: number;
+  let intervalDays: number;
+  if (grade < PASSING_GRADE) {
+    repetitions = 0;
+    intervalDays = 1;
+  } else {
+    repetitions = card.repetitions + 1;
+    intervalDays =
+      repetitions === 1 ? 1
+      : repetitions === 2 ? 6
+      : Math.round(card.intervalDays * card.easeFactor);
+  }
+
+  return {
+    easeFactor,
+    intervalDays,
+    repetitions,
+    dueAt: new Date(now.getTime() + intervalDays * DAY_MS),
+  };
+}
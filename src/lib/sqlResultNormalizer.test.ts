@@ -10,7 +10,7 @@
  */
 
 import { describe, it, expect } from 'vitest';
-import { normalizeSqliteResult } from './sqlResultNormalizer';
+import { normalizeSqlResult, normalizeSqliteResult } from './sqlResultNormalizer';
 
 describe('normalizeSqliteResult', () => {
   it('Test 1 (parseStep): parses tab-delimited stdout into 2D cells and handles empty', () => {
@@ -264,3 +264,41 @@ describe('normalizeSqliteResult', () => {
     expect(res.passed).toBe(true);
   });
 });
+
+describe('normalizeSqlResult (postgres dialect)', () => {
+  it('reads COPY-text: \\N is NULL, empty string stays a string', () => {
+    const res = normalizeSqlResult('alice\t\\N\nbob\t\n', { expectedRows: [['alice', null], ['bob', '']] }, 'postgres');
+    expect(res.passed).toBe(true);
+    expect(res.actualRows).toEqual([
+      ['alice', null],
+      ['bob', ''],
+    ]);
+    // Under SQLite both cells would be NULL — Postgres keeps them apart.
+    expect(normalizeSqlResult('bob\t\n', { expectedRows: [['bob', null]] }, 'postgres').passed).toBe(false);
+  });
+
+  it('unescapes tabs, newlines and backslashes inside cells', () => {
+    const res = normalizeSqlResult('a\\tb\tline1\\nline2\tC:\\\\tmp\n', {
+      expectedRows: [['a\tb', 'line1\nline2', 'C:\\tmp']],
+      trimMode: 'strict',
+    }, 'postgres');
+    expect(res.actualRows).toEqual([['a\tb', 'line1\nline2', 'C:\\tmp']]);
+    expect(res.passed).toBe(true);
+  });
+
+  it('compares expected booleans against t/f', () => {
+    const stdout = '---BEGIN-ANSWER---\n1\tt\n2\tf\n---END-ANSWER---\n';
+    expect(normalizeSqlResult(stdout, { expectedRows: [[1, true], [2, false]] }, 'postgres').passed).toBe(true);
+    expect(normalizeSqlResult(stdout, { expectedRows: [[1, false], [2, true]] }, 'postgres').passed).toBe(false);
+  });
+
+  it('coerces numeric output (NUMERIC scale, bigint) like SQLite', () => {
+    const res = normalizeSqlResult('3.50\t9007199254740991\n', { expectedRows: [[3.5, 9007199254740991]] }, 'postgres');
+    expect(res.passed).toBe(true);
+  });
+
+  it('maps booleans to 1/0 under SQLite', () => {
+    expect(normalizeSqlResult('1\t0\n', { expectedRows: [[true, false]] }).passed).toBe(true);
+    expect(normalizeSqliteResult('1\t0\n', { expectedRows: [[true, false]] }).passed).toBe(true);
+  });
+});
@@ -1,18 +1,25 @@
 /**
  * sqlResultNormalizer.ts
  *
- * Phase 42 Plan 01 Task 2 — SQLite result normalizer.
+ * Phase 42 Plan 01 Task 2 — SQL result normalizer.
  *
- * Pure function: parses Judge0's SQLite stdout (.mode tabs + .headers off)
- * and compares the resulting 2D cell array against trainer-authored
- * expectedRows/expectedColumns via the D-05 5-step pipeline:
+ * Pure function: parses a SQL test case's stdout — SQLite `.mode tabs` +
+ * `.headers off`, or the Postgres sandbox's COPY-text rows (tab-delimited,
+ * backslash escapes, `\N` for NULL) — and compares the resulting 2D cell
+ * array against trainer-authored expectedRows/expectedColumns via the D-05
+ * 5-step pipeline:
  *
  *   1. Parse stdout (tab-delimited, trailing-newline-tolerant)
  *   2. Trim whitespace per cell (strict preserves internal, normalize collapses)
- *   3. Numeric coercion: empty-string → null; numeric strings ↔ numbers
+ *   3. Numeric coercion: empty-string → null (SQLite); numeric strings ↔ numbers
  *   4. Column reorder (when orderSensitiveColumns=false, align alphabetically)
  *   5. Row sort (when rowOrderSensitive=false, lex-sort both sides before compare)
  *
+ * Dialect differences are confined to steps 1 and 3: SQLite prints NULL as an
+ * empty cell, so '' coerces to null; Postgres distinguishes the two, so ''
+ * stays a string. Expected booleans become 1/0 (SQLite) or t/f (Postgres),
+ * matching how each engine prints them.
+ *
  * Falls back to expectedStdout string-equal compare when expectedRows is
  * absent (backward compat with non-SQL test-case shape).
  *
@@ -25,7 +32,7 @@
  * No IO, no imports beyond types.
  */
 
-import type { SqlTestCase } from './coding-bank-schemas';
+import type { SqlDialect, SqlTestCase } from './coding-bank-schemas';
 
 export interface NormalizationFlags {
   trimMode: 'strict' | 'normalize';
@@ -40,6 +47,9 @@ export interface NormalizationFlags {
 
 export type Cell = string | number | null;
 
+// A parsed-but-not-coerced stdout cell; null only for Postgres `\N`.
+type RawCell = string | null;
+
 export interface NormalizationResult {
   passed: boolean;
   actualRows: Cell[][];
@@ -59,9 +69,9 @@ const DEFAULT_FLAGS: NormalizationFlags = {
 // trainer test query so the normalizer can slice off associate-query noise
 // (e.g. exploratory SELECTs in the user's answer emit rows BEFORE these
 // markers). If either marker is missing the normalizer falls back to parsing
-// the entire stdout (backward compat).
-const ANSWER_BEGIN_MARKER = '---BEGIN-ANSWER---';
-const ANSWER_END_MARKER = '---END-ANSWER---';
+// the entire stdout (backward compat). Exported for sqlSource.ts.
+export const ANSWER_BEGIN_MARKER = '---BEGIN-ANSWER---';
+export const ANSWER_END_MARKER = '---END-ANSWER---';
 
 type NormalizerInput = Partial<
   Pick<
@@ -101,13 +111,24 @@ function sliceAnswerBlock(stdout: string): string {
   return stdout.slice(afterBegin + 1, endIdx);
 }
 
-// Step 1 — Parse SQLite `.mode tabs` + `.headers off` output.
-function parseStdout(stdout: string): string[][] {
+const COPY_ESCAPES: Record<string, string> = { t: '\t', n: '\n', r: '\r', '\\': '\\' };
+
+// COPY-text cell → value: `\N` is NULL, `\t` / `\n` / `\r` / `\\` unescape.
+function unescapeCopyCell(raw: string): RawCell {
+  if (raw === '\\N') return null;
+  return raw.replace(/\\(.)/g, (_, ch: string) => COPY_ESCAPES[ch] ?? ch);
+}
+
+// Step 1 — Parse SQLite `.mode tabs` / Postgres COPY-text output (no headers).
+function parseStdout(stdout: string, dialect: SqlDialect): RawCell[][] {
   if (!stdout) return [];
   // Split on newline, drop trailing empty line from a closing \n.
   const lines = stdout.split('\n');
   while (lines.length > 0 && lines[lines.length - 1] === '') lines.pop();
-  return lines.map((line) => line.split('\t'));
+  return lines.map((line) => {
+    const cells = line.split('\t');
+    return dialect === 'postgres' ? cells.map(unescapeCopyCell) : cells;
+  });
 }
 
 // Step 2 — trim/normalize whitespace per cell (string cells only).
@@ -118,9 +139,10 @@ function trimCell(raw: string, mode: 'strict' | 'normalize'): string {
   return trimmed.replace(/\s+/g, ' ');
 }
 
-// Step 3 — coerce cells: empty-string → null, numeric strings → numbers when enabled.
-function coerceCell(raw: string, numericCoerce: boolean): Cell {
-  if (raw === '') return null;
+// Step 3 — coerce cells: empty-string → null (SQLite only), numeric strings →
+// numbers when enabled.
+function coerceCell(raw: string, numericCoerce: boolean, dialect: SqlDialect): Cell {
+  if (raw === '') return dialect === 'sqlite' ? null : '';
   if (!numericCoerce) return raw;
   // Attempt numeric parse — only coerce if the full string is a valid finite number
   // (avoid '1abc' → 1 via parseFloat). `Number(raw)` fails for non-numeric input (NaN).
@@ -140,24 +162,30 @@ function coerceCell(raw: string, numericCoerce: boolean): Cell {
 // coerced — but actual parsing also respects the flag, so string-actual stays
 // string and mismatch is detected).
 function normalizeExpectedCell(
-  cell: Cell,
+  cell: Cell | boolean,
   flags: NormalizationFlags,
+  dialect: SqlDialect,
 ): Cell {
   if (cell === null) return null;
   if (typeof cell === 'number') return cell;
+  if (typeof cell === 'boolean') {
+    if (dialect === 'postgres') return cell ? 't' : 'f';
+    return flags.numericCoerce ? Number(cell) : String(Number(cell));
+  }
   // String expected
   const trimmed = trimCell(cell, flags.trimMode);
-  if (trimmed === '') return null;
+  if (trimmed === '') return dialect === 'sqlite' ? null : '';
   if (flags.numericCoerce) {
-    return coerceCell(trimmed, true);
+    return coerceCell(trimmed, true, dialect);
   }
   return trimmed;
 }
 
-function normalizeActualRow(row: string[], flags: NormalizationFlags): Cell[] {
+function normalizeActualRow(row: RawCell[], flags: NormalizationFlags, dialect: SqlDialect): Cell[] {
   return row.map((raw) => {
+    if (raw === null) return null;
     const trimmed = trimCell(raw, flags.trimMode);
-    return coerceCell(trimmed, flags.numericCoerce);
+    return coerceCell(trimmed, flags.numericCoerce, dialect);
   });
 }
 
@@ -206,9 +234,10 @@ function applyPermutation<T>(row: T[], perm: number[]): T[] {
   return perm.map((i) => row[i]);
 }
 
-export function normalizeSqliteResult(
+export function normalizeSqlResult(
   stdout: string,
   testCase: NormalizerInput,
+  dialect: SqlDialect = 'sqlite',
 ): NormalizationResult {
   const flags = resolveFlags(testCase);
 
@@ -217,7 +246,7 @@ export function normalizeSqliteResult(
   const slicedStdout = sliceAnswerBlock(stdout);
 
   // Step 1 — parse
-  const rawRows = parseStdout(slicedStdout);
+  const rawRows = parseStdout(slicedStdout, dialect);
 
   // Fallback (backward compat): if expectedRows is absent, compare trimmed stdout to expectedStdout.
   if (testCase.expectedRows === undefined) {
@@ -226,9 +255,7 @@ export function normalizeSqliteResult(
     const passed = actualStr === expectedStr;
     return {
       passed,
-      actualRows: rawRows.map((r) =>
-        r.map((cell) => coerceCell(trimCell(cell, flags.trimMode), flags.numericCoerce)),
-      ),
+      actualRows: rawRows.map((r) => normalizeActualRow(r, flags, dialect)),
       ...(passed ? {} : { reason: 'stdout mismatch (fallback compare)' }),
     };
   }
@@ -237,11 +264,11 @@ export function normalizeSqliteResult(
   const expectedColumns = testCase.expectedColumns ?? [];
 
   // Normalize actual rows (trim + coerce per cell)
-  let actual: Cell[][] = rawRows.map((r) => normalizeActualRow(r, flags));
+  let actual: Cell[][] = rawRows.map((r) => normalizeActualRow(r, flags, dialect));
 
   // Normalize expected rows (symmetric trim + coerce for strings)
   let expected: Cell[][] = expectedRows.map((row) =>
-    row.map((c) => normalizeExpectedCell(c, flags)),
+    row.map((c) => normalizeExpectedCell(c, flags, dialect)),
   );
 
   // Step 4 — column count check + optional alphabetical reorder
@@ -301,3 +328,11 @@ export function normalizeSqliteResult(
 
   return { passed: true, actualRows: actual };
 }
+
+/** SQLite-only entry point, kept for callers that predate dialects. */
+export function normalizeSqliteResult(
+  stdout: string,
+  testCase: NormalizerInput,
+): NormalizationResult {
+  return normalizeSqlResult(stdout, testCase, 'sqlite');
+}
@@ -0,0 +1,79 @@
+/**
+ * sqlSchemaPreview.test.ts — CREATE TABLE parsing for the ER preview:
+ * SQLite and Postgres spellings, inline and table-level keys, ALTER TABLE
+ * foreign keys, and that seed data never leaks into the outline.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { describeSchema } from './sqlSchemaPreview';
+
+describe('describeSchema', () => {
+  it('reads columns, types and inline keys (SQLite)', () => {
+    const preview = describeSchema(`
+      -- customers first
+      CREATE TABLE customers (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL,
+        email TEXT UNIQUE
+      );
+      CREATE TABLE orders (
+        id INTEGER PRIMARY KEY,
+        customer_id INTEGER NOT NULL REFERENCES customers(id),
+        total NUMERIC(10, 2) DEFAULT 0
+      );
+      INSERT INTO customers (name, email) VALUES ('Ada; Lovelace', 'ada@example.com');
+    `);
+    expect(preview.tables.map((t) => t.name)).toEqual(['customers', 'orders']);
+    expect(preview.tables[0].columns).toEqual([
+      { name: 'id', type: 'INTEGER', primaryKey: true, notNull: true },
+      { name: 'name', type: 'TEXT', primaryKey: false, notNull: true },
+      { name: 'email', type: 'TEXT', primaryKey: false, notNull: false },
+    ]);
+    expect(preview.tables[1].columns[1]).toMatchObject({
+      name: 'customer_id',
+      references: { table: 'customers', column: 'id' },
+    });
+    expect(preview.tables[1].columns[2].type).toBe('NUMERIC(10, 2)');
+    expect(preview.relationships).toEqual([
+      { fromTable: 'orders', fromColumn: 'customer_id', toTable: 'customers', toColumn: 'id' },
+    ]);
+    expect(JSON.stringify(preview)).not.toContain('Lovelace');
+  });
+
+  it('handles Postgres table constraints, quoting and schema-qualified names', () => {
+    const preview = describeSchema(`
+      /* departments and staff */
+      CREATE TABLE IF NOT EXISTS public."Departments" (
+        dept_id SERIAL,
+        name VARCHAR(80) NOT NULL,
+        CONSTRAINT departments_pk PRIMARY KEY (dept_id)
+      );
+      CREATE TABLE employees (
+        emp_id BIGSERIAL PRIMARY KEY,
+        dept_id INT,
+        manager_id INT,
+        hired_at TIMESTAMP WITH TIME ZONE,
+        active BOOLEAN NOT NULL DEFAULT true,
+        CONSTRAINT emp_dept_fk FOREIGN KEY (dept_id) REFERENCES public."Departments"
+      );
+      ALTER TABLE ONLY employees ADD CONSTRAINT emp_mgr_fk FOREIGN KEY (manager_id) REFERENCES employees (emp_id);
+    `);
+    const [departments, employees] = preview.tables;
+    expect(departments.name).toBe('Departments');
+    expect(departments.columns[0]).toEqual({ name: 'dept_id', type: 'SERIAL', primaryKey: true, notNull: true });
+    expect(employees.columns.find((c) => c.name === 'hired_at')?.type).toBe('TIMESTAMP WITH TIME ZONE');
+    expect(preview.relationships).toEqual([
+      // A bare REFERENCES resolves to the target's primary key.
+      { fromTable: 'employees', fromColumn: 'dept_id', toTable: 'Departments', toColumn: 'dept_id' },
+      { fromTable: 'employees', fromColumn: 'manager_id', toTable: 'employees', toColumn: 'emp_id' },
+    ]);
+  });
+
+  it('returns an empty outline for scripts without tables', () => {
+    expect(describeSchema("INSERT INTO t VALUES (1);\nSELECT 'CREATE TABLE x (y int)';")).toEqual({
+      tables: [],
+      relationships: [],
+    });
+    expect(describeSchema('CREATE TABLE broken (id int')).toEqual({ tables: [], relationships: [] });
+  });
+});
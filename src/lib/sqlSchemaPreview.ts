@@ -0,0 +1,267 @@
+/**
+ * sqlSchemaPreview.ts — table/relationship outline of a SQL challenge's
+ * setup.sql, for the ER preview next to the prompt.
+ *
+ * Pure and dialect-tolerant: reads CREATE TABLE statements (SQLite and
+ * Postgres spellings — quoted identifiers, schema-qualified names, SERIAL,
+ * inline and table-level PRIMARY KEY / REFERENCES / FOREIGN KEY) plus
+ * `ALTER TABLE … ADD [CONSTRAINT …] FOREIGN KEY`. Everything else (INSERTs,
+ * indexes, views) is ignored, so the preview exposes structure and never the
+ * seed data — setup.sql itself stays server-side.
+ *
+ * Best effort: an unparseable statement is skipped rather than failing the
+ * challenge page.
+ */
+
+export interface SchemaColumn {
+  name: string;
+  /** Declared type as written, whitespace collapsed ('' when untyped, SQLite) */
+  type: string;
+  primaryKey: boolean;
+  notNull: boolean;
+  /** Foreign key target; column null when the FK names only the table */
+  references?: { table: string; column: string | null };
+}
+
+export interface SchemaTable {
+  name: string;
+  columns: SchemaColumn[];
+}
+
+export interface SchemaRelationship {
+  fromTable: string;
+  fromColumn: string;
+  toTable: string;
+  toColumn: string | null;
+}
+
+export interface SchemaPreview {
+  tables: SchemaTable[];
+  relationships: SchemaRelationship[];
+}
+
+// Words that end a column's type and start its constraints.
+const CONSTRAINT_WORDS = new Set([
+  'CONSTRAINT',
+  'PRIMARY',
+  'NOT',
+  'NULL',
+  'DEFAULT',
+  'REFERENCES',
+  'UNIQUE',
+  'CHECK',
+  'COLLATE',
+  'GENERATED',
+  'AUTOINCREMENT',
+]);
+
+const TABLE_CONSTRAINT = /^(CONSTRAINT|PRIMARY|FOREIGN|UNIQUE|CHECK|EXCLUDE)\b/i;
+
+/** Drop `--` and `/* *\/` comments, leaving string literals intact. */
+function stripComments(sql: string): string {
+  let out = '';
+  let i = 0;
+  while (i < sql.length) {
+    const ch = sql[i];
+    if (ch === "'") {
+      const end = sql.indexOf("'", i + 1);
+      const stop = end < 0 ? sql.length : end + 1;
+      out += sql.slice(i, stop);
+      i = stop;
+    } else if (ch === '-' && sql[i + 1] === '-') {
+      const end = sql.indexOf('\n', i);
+      i = end < 0 ? sql.length : end;
+    } else if (ch === '/' && sql[i + 1] === '*') {
+      const end = sql.indexOf('*/', i + 2);
+      i = end < 0 ? sql.length : end + 2;
+      out += ' ';
+    } else {
+      out += ch;
+      i += 1;
+    }
+  }
+  return out;
+}
+
+/** Split on `sep` at paren depth 0, outside quotes. */
+function splitTopLevel(text: string, sep: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quote: string | null = null;
+  let start = 0;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quote) {
+      if (ch === quote) quote = null;
+    } else if (ch === "'" || ch === '"' || ch === '`') {
+      quote = ch;
+    } else if (ch === '(') {
+      depth += 1;
+    } else if (ch === ')') {
+      depth -= 1;
+    } else if (ch === sep && depth === 0) {
+      parts.push(text.slice(start, i));
+      start = i + 1;
+    }
+  }
+  parts.push(text.slice(start));
+  return parts.map((p) => p.trim()).filter((p) => p.length > 0);
+}
+
+/** Index just past the `)` matching the `(` at `open`, or -1. */
+function matchParen(text: string, open: number): number {
+  let depth = 0;
+  let quote: string | null = null;
+  for (let i = open; i < text.length; i++) {
+    const ch = text[i];
+    if (quote) {
+      if (ch === quote) quote = null;
+    } else if (ch === "'" || ch === '"' || ch === '`') {
+      quote = ch;
+    } else if (ch === '(') {
+      depth += 1;
+    } else if (ch === ')') {
+      depth -= 1;
+      if (depth === 0) return i + 1;
+    }
+  }
+  return -1;
+}
+
+const IDENT = String.raw`(?:"[^"]+"|\x60[^\x60]+\x60|\[[^\]]+\]|[A-Za-z_][\w$]*)`;
+const QUALIFIED = String.raw`${IDENT}(?:\s*\.\s*${IDENT})*`;
+
+/** `"public"."Users"` → `Users`; unquoted names keep their spelling. */
+function identName(raw: string): string {
+  const parts = raw.split('.').map((p) => p.trim());
+  const last = parts[parts.length - 1];
+  return /^["`[]/.test(last) ? last.slice(1, -1) : last;
+}
+
+function identList(raw: string): string[] {
+  return splitTopLevel(raw, ',').map(identName);
+}
+
+const REFERENCES_RE = new RegExp(String.raw`REFERENCES\s+(${QUALIFIED})\s*(?:\(([^)]*)\))?`, 'i');
+const CREATE_TABLE_RE = new RegExp(
+  String.raw`^CREATE\s+(?:(?:GLOBAL|LOCAL)\s+)?(?:(?:TEMP|TEMPORARY|UNLOGGED)\s+)?TABLE\s+(?:IF\s+NOT\s+EXISTS\s+)?(${QUALIFIED})\s*\(`,
+  'i',
+);
+const ALTER_FK_RE = new RegExp(
+  String.raw`^ALTER\s+TABLE\s+(?:ONLY\s+)?(?:IF\s+EXISTS\s+)?(${QUALIFIED})\s+ADD\s+(?:CONSTRAINT\s+${IDENT}\s+)?FOREIGN\s+KEY\s*\(([^)]*)\)\s*(REFERENCES[\s\S]*)$`,
+  'i',
+);
+
+function parseReference(text: string): { table: string; columns: string[] } | null {
+  const m = REFERENCES_RE.exec(text);
+  if (!m) return null;
+  return { table: identName(m[1]), columns: m[2] ? identList(m[2]) : [] };
+}
+
+function applyForeignKey(
+  table: SchemaTable,
+  columns: string[],
+  ref: { table: string; columns: string[] },
+): void {
+  columns.forEach((name, i) => {
+    const col = table.columns.find((c) => c.name.toLowerCase() === name.toLowerCase());
+    if (col) col.references = { table: ref.table, column: ref.columns[i] ?? null };
+  });
+}
+
+function parseColumn(def: string): SchemaColumn | null {
+  const m = new RegExp(String.raw`^(${IDENT})\s*([\s\S]*)$`).exec(def);
+  if (!m) return null;
+  const rest = m[2];
+  // The type runs until the first constraint keyword at paren depth 0.
+  const words = rest.split(/\s+(?![^(]*\))/).filter((w) => w.length > 0);
+  const typeWords: string[] = [];
+  for (const word of words) {
+    if (CONSTRAINT_WORDS.has(word.toUpperCase())) break;
+    typeWords.push(word);
+  }
+  const upper = rest.toUpperCase();
+  const primaryKey = /\bPRIMARY\s+KEY\b/.test(upper);
+  const ref = parseReference(rest);
+  return {
+    name: identName(m[1]),
+    type: typeWords.join(' ').replace(/\s+/g, ' '),
+    primaryKey,
+    notNull: primaryKey || /\bNOT\s+NULL\b/.test(upper),
+    ...(ref ? { references: { table: ref.table, column: ref.columns[0] ?? null } } : {}),
+  };
+}
+
+function parseCreateTable(stmt: string): SchemaTable | null {
+  const m = CREATE_TABLE_RE.exec(stmt);
+  if (!m) return null;
+  const open = m[0].length - 1;
+  const close = matchParen(stmt, open);
+  if (close < 0) return null;
+  const table: SchemaTable = { name: identName(m[1]), columns: [] };
+  const constraints: string[] = [];
+  for (const item of splitTopLevel(stmt.slice(open + 1, close - 1), ',')) {
+    if (TABLE_CONSTRAINT.test(item)) {
+      constraints.push(item);
+      continue;
+    }
+    const col = parseColumn(item);
+    if (col) table.columns.push(col);
+  }
+  for (const item of constraints) {
+    const body = item.replace(new RegExp(String.raw`^CONSTRAINT\s+${IDENT}\s+`, 'i'), '');
+    const pk = /^PRIMARY\s+KEY\s*\(([^)]*)\)/i.exec(body);
+    if (pk) {
+      for (const name of identList(pk[1])) {
+        const col = table.columns.find((c) => c.name.toLowerCase() === name.toLowerCase());
+        if (col) {
+          col.primaryKey = true;
+          col.notNull = true;
+        }
+      }
+      continue;
+    }
+    const fk = /^FOREIGN\s+KEY\s*\(([^)]*)\)\s*([\s\S]*)$/i.exec(body);
+    const ref = fk ? parseReference(fk[2]) : null;
+    if (fk && ref) applyForeignKey(table, identList(fk[1]), ref);
+  }
+  return table;
+}
+
+/** Outline every table setup.sql creates, in declaration order. */
+export function describeSchema(setupSql: string): SchemaPreview {
+  const tables: SchemaTable[] = [];
+  const byName = new Map<string, SchemaTable>();
+  for (const stmt of splitTopLevel(stripComments(setupSql), ';')) {
+    const created = parseCreateTable(stmt);
+    if (created) {
+      tables.push(created);
+      byName.set(created.name.toLowerCase(), created);
+      continue;
+    }
+    const alter = ALTER_FK_RE.exec(stmt);
+    const target = alter ? byName.get(identName(alter[1]).toLowerCase()) : undefined;
+    const ref = alter ? parseReference(alter[3]) : null;
+    if (alter && target && ref) applyForeignKey(target, identList(alter[2]), ref);
+  }
+
+  // A REFERENCES without a column list points at the target's primary key.
+  const relationships: SchemaRelationship[] = [];
+  for (const table of tables) {
+    for (const col of table.columns) {
+      if (!col.references) continue;
+      if (col.references.column === null) {
+        const target = byName.get(col.references.table.toLowerCase());
+        const pk = target?.columns.filter((c) => c.primaryKey) ?? [];
+        if (pk.length === 1) col.references = { ...col.references, column: pk[0].name };
+      }
+      relationships.push({
+        fromTable: table.name,
+        fromColumn: col.name,
+        toTable: col.references.table,
+        toColumn: col.references.column,
+      });
+    }
+  }
+  return { tables, relationships };
+}
@@ -0,0 +1,48 @@
+/**
+ * sqlSource.test.ts — per-dialect SQL scripts and the stored-dialect reader.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildGradedSqlSource, buildScratchSqlSource, readSqlDialect } from './sqlSource';
+
+const parts = { setupSql: 'CREATE TABLE t (x int);', userSql: 'INSERT INTO t VALUES (1);', testSql: 'SELECT x FROM t;' };
+
+describe('buildGradedSqlSource', () => {
+  it('keeps the SQLite layout: tabs, no headers, answer markers around the test query', () => {
+    expect(buildGradedSqlSource('sqlite', parts)).toBe(
+      [
+        '.mode tabs',
+        '.headers off',
+        'CREATE TABLE t (x int);',
+        'INSERT INTO t VALUES (1);',
+        "SELECT '---BEGIN-ANSWER---';",
+        'SELECT x FROM t;',
+        "SELECT '---END-ANSWER---';",
+      ].join('\n'),
+    );
+  });
+
+  it('uses a psql tuples_only preamble for Postgres', () => {
+    const source = buildGradedSqlSource('postgres', parts).split('\n');
+    expect(source[0]).toBe('\\pset tuples_only on');
+    expect(source).not.toContain('.mode tabs');
+    expect(source.slice(-3)).toEqual(["SELECT '---BEGIN-ANSWER---';", 'SELECT x FROM t;', "SELECT '---END-ANSWER---';"]);
+  });
+});
+
+describe('buildScratchSqlSource', () => {
+  it('turns headers on and leaves out the markers', () => {
+    expect(buildScratchSqlSource('sqlite', parts).split('\n').slice(0, 2)).toEqual(['.mode tabs', '.headers on']);
+    const pg = buildScratchSqlSource('postgres', parts);
+    expect(pg.startsWith('\\pset tuples_only off\n')).toBe(true);
+    expect(pg).not.toContain('BEGIN-ANSWER');
+  });
+});
+
+describe('readSqlDialect', () => {
+  it('reads null as sqlite and rejects unknown values', () => {
+    expect(readSqlDialect(null)).toBe('sqlite');
+    expect(readSqlDialect('postgres')).toBe('postgres');
+    expect(() => readSqlDialect('oracle')).toThrow(/Unknown SQL dialect/);
+  });
+});
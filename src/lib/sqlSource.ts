@@ -0,0 +1,60 @@
+/**
+ * sqlSource.ts — the script a SQL test case runs, per dialect.
+ *
+ * Every SQL execution (submit, scratch run, authoring dry run) concatenates
+ * the same four parts: an output-format preamble, the trainer's setup.sql,
+ * the associate's query and the case's test query. Only the preamble differs
+ * by dialect:
+ *
+ *   sqlite   → `.mode tabs` + `.headers on|off` (sqlite3 dot-commands)
+ *   postgres → `\pset tuples_only on|off` (psql meta-command, honoured by
+ *              postgresSandboxRunner.ts; rows are always COPY-text)
+ *
+ * Graded scripts turn headers off and wrap the test query in the answer
+ * markers sqlResultNormalizer slices on; scratch runs keep headers on so the
+ * associate sees column names.
+ */
+
+import { SQL_DIALECTS, type SqlDialect } from './coding-bank-schemas';
+import { ANSWER_BEGIN_MARKER, ANSWER_END_MARKER } from './sqlResultNormalizer';
+
+/**
+ * CodingChallenge.sqlDialect → SqlDialect. Null means the challenge predates
+ * dialects (sqlite). Rows are written from validated meta.json, so an unknown
+ * value is a corrupt row and throws rather than grading on the wrong engine.
+ */
+export function readSqlDialect(stored: string | null | undefined): SqlDialect {
+  if (stored === null || stored === undefined) return 'sqlite';
+  if (!(SQL_DIALECTS as readonly string[]).includes(stored)) {
+    throw new Error(`Unknown SQL dialect '${stored}'`);
+  }
+  return stored as SqlDialect;
+}
+
+export interface SqlSourceParts {
+  setupSql: string;
+  userSql: string;
+  testSql: string;
+}
+
+function preamble(dialect: SqlDialect, headers: boolean): string[] {
+  if (dialect === 'postgres') return [`\\pset tuples_only ${headers ? 'off' : 'on'}`];
+  return ['.mode tabs', `.headers ${headers ? 'on' : 'off'}`];
+}
+
+/** Source for a graded case: headerless rows, test query between answer markers. */
+export function buildGradedSqlSource(dialect: SqlDialect, parts: SqlSourceParts): string {
+  return [
+    ...preamble(dialect, false),
+    parts.setupSql,
+    parts.userSql,
+    `SELECT '${ANSWER_BEGIN_MARKER}';`,
+    parts.testSql,
+    `SELECT '${ANSWER_END_MARKER}';`,
+  ].join('\n');
+}
+
+/** Source for a scratch run: headers on, no markers — raw output for the associate. */
+export function buildScratchSqlSource(dialect: SqlDialect, parts: SqlSourceParts): string {
+  return [...preamble(dialect, true), parts.setupSql, parts.userSql, parts.testSql].join('\n');
+}
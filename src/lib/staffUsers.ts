@@ -0,0 +1,87 @@
+import 'server-only';
+import type { User } from '@supabase/supabase-js';
+import { supabaseAdmin } from '@/lib/supabase/admin';
+import { readStaffAccess, type StaffRole } from '@/lib/authorization';
+
+/**
+ * Staff directory for /trainer/settings/users — reads and writes the role and
+ * cohort scope that authorization.ts reads back out of app_metadata.
+ *
+ * Supabase has no metadata query, so listing walks every auth user page by
+ * page; fine at staff-tool scale (hundreds to low thousands of accounts).
+ */
+
+export interface StaffUser {
+  id: string;
+  email: string | null;
+  role: StaffRole;
+  cohortIds: number[] | null;
+}
+
+/** role: null demotes to a plain account (associate). */
+export interface StaffAssignment {
+  role: StaffRole | null;
+  cohortIds: number[] | null;
+}
+
+const PAGE_SIZE = 1000;
+
+async function forEachUser(visit: (user: User) => boolean | void): Promise<void> {
+  for (let page = 1; ; page++) {
+    const { data, error } = await supabaseAdmin.auth.admin.listUsers({ page, perPage: PAGE_SIZE });
+    if (error) throw error;
+    for (const user of data.users) {
+      if (visit(user) === true) return;
+    }
+    if (data.users.length < PAGE_SIZE) return;
+  }
+}
+
+function toStaffUser(user: User): StaffUser | null {
+  const access = readStaffAccess(user.app_metadata);
+  return access ? { id: user.id, email: user.email ?? null, ...access } : null;
+}
+
+export async function listStaffUsers(): Promise<StaffUser[]> {
+  const staff: StaffUser[] = [];
+  await forEachUser((user) => {
+    const row = toStaffUser(user);
+    if (row) staff.push(row);
+  });
+  return staff.sort((a, b) => (a.email ?? '').localeCompare(b.email ?? ''));
+}
+
+export async function findUserByEmail(email: string): Promise<User | null> {
+  const wanted = email.trim().toLowerCase();
+  let found: User | null = null;
+  await forEachUser((user) => {
+    if (user.email?.toLowerCase() !== wanted) return false;
+    found = user;
+    return true;
+  });
+  return found;
+}
+
+export async function getUser(id: string): Promise<User | null> {
+  const { data, error } = await supabaseAdmin.auth.admin.getUserById(id);
+  if (error || !data.user) return null;
+  return data.user;
+}
+
+/**
+ * Write the assignment into app_metadata. Supabase merges the keys into what
+ * is stored and deletes the ones sent as null, so other keys (provider, …)
+ * survive. Trainers and recruiters keep `cohortIds` (null = all cohorts);
+ * other roles drop it. Returns the stored StaffUser, or null when the user
+ * was demoted.
+ */
+export async function assignStaffRole(user: User, assignment: StaffAssignment): Promise<StaffUser | null> {
+  const scoped = assignment.role === 'trainer' || assignment.role === 'recruiter';
+  const app_metadata = {
+    role: assignment.role ?? 'associate',
+    cohortIds: scoped && assignment.cohortIds ? assignment.cohortIds : null,
+  };
+  const { data, error } = await supabaseAdmin.auth.admin.updateUserById(user.id, { app_metadata });
+  if (error) throw error;
+  return toStaffUser(data.user);
+}
@@ -0,0 +1,124 @@
+/**
+ * structuredScore.ts
+ *
+ * Rubric-based structured output for LLM interview scoring. Replaces the old
+ * "SCORE: n / FEEDBACK: ..." free-text contract, whose regex parsing silently
+ * fell back to a 3 whenever the model drifted from the format.
+ *
+ * The model grades each criterion in SCORING_CRITERIA independently, gives an
+ * overall 1-5 score plus trainer-facing feedback, and reports its confidence.
+ * Output that fails the schema throws ScoreParseError — callers surface it as
+ * a retryable scoring failure instead of inventing a score.
+ */
+
+import { z } from 'zod';
+import {
+  SCORING_CRITERIA,
+  type QuestionAssessment,
+  type ScoreBreakdown,
+  type ScoringCriterion,
+} from './types';
+
+const CriterionScoreSchema = z.object({
+  score: z.number().int().min(1).max(5),
+  rationale: z.string().trim().min(1),
+});
+
+export const StructuredScoreSchema = z.object({
+  criteria: z.object({
+    accuracy: CriterionScoreSchema.describe('Technical correctness of what was said'),
+    completeness: CriterionScoreSchema.describe('Coverage of the core concepts the question expects'),
+    depth: CriterionScoreSchema.describe('Reasoning, trade-offs and practical experience beyond the definition'),
+    communication: CriterionScoreSchema.describe('Clarity and structure of the explanation'),
+  }),
+  score: z.number().int().min(1).max(5).describe('Overall score following the scoring guidelines'),
+  feedback: z.string().trim().min(1).describe('Trainer-facing feedback as described in the instructions'),
+  confidence: z.number().min(0).max(1).describe('Certainty in the overall score, 0-1'),
+});
+
+export type StructuredScore = z.infer<typeof StructuredScoreSchema>;
+
+/** Shared tail appended to every scoring prompt (no template braces allowed). */
+export const STRUCTURED_SCORE_INSTRUCTIONS = `Grade each rubric criterion independently from 1-5 with a one-sentence rationale:
+- accuracy: technical correctness of what was said
+- completeness: coverage of the core concepts the question expects
+- depth: reasoning, trade-offs and practical experience beyond a definition
+- communication: clarity and structure of the explanation
+Then give the overall score (1-5) using the scoring guidelines above, the feedback, and your confidence (0-1) in the overall score.`;
+
+export class ScoreParseError extends Error {
+  readonly name = 'ScoreParseError';
+  constructor(public readonly issues: string[]) {
+    super(`LLM score failed validation: ${issues.join('; ')}`);
+  }
+}
+
+/**
+ * Validate raw model output against StructuredScoreSchema.
+ * Throws ScoreParseError rather than defaulting any field.
+ */
+export function parseStructuredScore(raw: unknown): StructuredScore {
+  const result = StructuredScoreSchema.safeParse(raw);
+  if (!result.success) {
+    throw new ScoreParseError(
+      result.error.issues.map((i) => `${i.path.join('.') || '(root)'}: ${i.message}`),
+    );
+  }
+  return result.data;
+}
+
+/** Project a validated score onto the shape persisted on QuestionAssessment. */
+export function toScoreBreakdown(score: StructuredScore): ScoreBreakdown {
+  return {
+    criteria: score.criteria,
+    confidence: score.confidence,
+  };
+}
+
+export interface CriterionCalibration {
+  count: number;           // questions with both an AI sub-score and a trainer score
+  meanAiScore: number;     // mean AI sub-score for this criterion
+  meanDelta: number;       // mean (trainer finalScore - AI sub-score)
+}
+
+/**
+ * Per-criterion AI vs trainer comparison. Trainers only record an overall
+ * finalScore, so each criterion is compared against that — a consistently
+ * positive delta on one criterion means the AI under-rates it.
+ *
+ * Returns null for criteria with no comparable questions.
+ */
+export function computeCriterionCalibration(
+  assessments: Iterable<Pick<QuestionAssessment, 'llmBreakdown' | 'finalScore'>>,
+): Record<ScoringCriterion, CriterionCalibration | null> {
+  const sums = Object.fromEntries(
+    SCORING_CRITERIA.map((c) => [c, { count: 0, ai: 0, delta: 0 }]),
+  ) as Record<ScoringCriterion, { count: number; ai: number; delta: number }>;
+
+  for (const a of assessments) {
+    if (typeof a.finalScore !== 'number' || !a.llmBreakdown?.criteria) continue;
+    for (const criterion of SCORING_CRITERIA) {
+      const sub = a.llmBreakdown.criteria[criterion]?.score;
+      if (typeof sub !== 'number') continue;
+      sums[criterion].count++;
+      sums[criterion].ai += sub;
+      sums[criterion].delta += a.finalScore - sub;
+    }
+  }
+
+  return Object.fromEntries(
+    SCORING_CRITERIA.map((c) => {
+      const { count, ai, delta } = sums[c];
+      return [
+        c,
+        count === 0
+          ? null
+          : {
+              count,
+              meanAiScore: Math.round((ai / count) * 100) / 100,
+              meanDelta: Math.round((delta / count) * 100) / 100,
+            },
+      ];
+    }),
+  ) as Record<ScoringCriterion, CriterionCalibration | null>;
+}
@@ -1,5 +1,10 @@
 // Trainer dashboard TypeScript interfaces
 
+import type { ScoringCriterion } from './types'
+import type { CriterionCalibration } from './structuredScore'
+import type { ReadinessExplanation } from './readinessPolicy'
+import type { EditTimeline } from './editTimeline'
+
 // Roster associate row — shown on /trainer
 export interface RosterAssociate {
   slug: string
@@ -19,6 +24,8 @@ export interface AssociateDetail extends RosterAssociate {
   cohortId: number | null
   /** Current cohort name for display, null when unassigned (Plan 11-03 / D-05) */
   cohortName: string | null
+  /** Why readinessStatus is what it is — from the last computation, null before the first */
+  readinessExplanation: ReadinessExplanation | null
   sessions: SessionSummary[]
   gapScores: GapScoreEntry[]
 }
@@ -104,6 +111,8 @@ export interface CalibrationData {
   overrideCount: number
   totalScoredQuestions: number
   deltaBuckets: Record<string, number>  // keys: "-3","-2","-1","0","1","2","3"
+  // Per-criterion AI sub-score vs trainer finalScore; null when no structured scores exist
+  criterionCalibration: Record<ScoringCriterion, CriterionCalibration | null>
 }
 
 export interface CohortTrendPoint {
@@ -156,6 +165,10 @@ export interface CodingAttemptSummary {
   difficulty: 'easy' | 'medium' | 'hard'
   verdict: string
   score: number | null
+  /** An edit timeline was recorded — replay via .../coding/attempts/[attemptId]/timeline */
+  hasTimeline: boolean
+  /** An AI code review was requested — shown via /api/coding/attempts/[id]/review */
+  hasReview: boolean
 }
 
 /** Aggregated coding-only gap score per skillSlug (across languages). */
@@ -170,3 +183,47 @@ export interface AssociateCodingPayload {
   attempts: CodingAttemptSummary[]
   codingSkillScores: CodingSkillScore[]
 }
+
+// Code similarity (src/lib/similarityService.ts)
+
+/** One side of a flagged pair. Code is shown to trainers for the side-by-side diff. */
+export interface SimilarityMatchSide {
+  attemptId: string
+  associateSlug: string
+  displayName: string | null
+  submittedAt: string // ISO
+  verdict: string
+  code: string
+}
+
+/** A submission by this associate that closely matches a cohort-mate's. */
+export interface SimilarityMatch {
+  challengeId: string
+  challengeSlug: string
+  challengeTitle: string
+  language: string
+  similarity: number // 0-1 (Jaccard over winnowed fingerprints)
+  /** Associates in the flagged cluster containing this pair, including both sides */
+  clusterSize: number
+  self: SimilarityMatchSide
+  other: SimilarityMatchSide
+}
+
+/** Response envelope for GET /api/trainer/[slug]/coding/similarity. */
+export interface AssociateSimilarityPayload {
+  threshold: number
+  matches: SimilarityMatch[]
+}
+
+// Attempt replay (src/lib/editTimeline.ts)
+
+/** Response envelope for GET /api/trainer/[slug]/coding/attempts/[attemptId]/timeline. */
+export interface AttemptTimelinePayload {
+  attemptId: string
+  challengeTitle: string
+  language: string
+  verdict: string
+  submittedAt: string // ISO
+  submittedCode: string
+  timeline: EditTimeline
+}
@@ -9,6 +9,17 @@ export interface ParsedQuestion {
     difficulty: 'beginner' | 'intermediate' | 'advanced';
     weekNumber: number;
     topic?: string;
+    keywordGroups?: KeywordGroup[];  // present when the bank uses synonyms (a|b) or weights (^n)
+    followUps?: string[];            // scripted follow-up questions for the interviewer
+    hints?: string[];                // revealed one at a time by the interviewer
+    estimatedMinutes?: number;
+}
+
+// One keyword concept: `keyword` is what keywordsHit/keywordsMissed store
+export interface KeywordGroup {
+    keyword: string;
+    synonyms: string[];
+    weight: number;
 }
 
 export interface StarterQuestion {
@@ -27,11 +38,48 @@ export interface QuestionAssessment {
     didNotGetTo: boolean;
     llmScore?: number;
     llmFeedback?: string;
+    llmBreakdown?: ScoreBreakdown;  // per-criterion sub-scores from structured AI scoring
+    rubric?: RubricRef;             // skill rubric version that graded this answer (absent = generic prompt)
     finalScore?: number;
     finalFeedback?: string;
     status: 'pending' | 'in-progress' | 'processing' | 'ready' | 'validated' | 'scoring';
 }
 
+// A shadow interviewer's own observations for one question (co-interviewer mode).
+// No scores — the lead reconciles these into QuestionAssessment on /review.
+export type CoQuestionAssessment = Pick<
+    QuestionAssessment,
+    'keywordsHit' | 'keywordsMissed' | 'softSkills' | 'interviewerNotes' | 'didNotGetTo'
+>;
+
+export interface CoInterviewerAssessment {
+    interviewerEmail: string;
+    interviewerName?: string;
+    assessments: Record<string, CoQuestionAssessment>;  // questionId -> observations
+    updatedAt: string;
+}
+
+// Rubric criteria the AI scorer grades independently (see src/lib/structuredScore.ts)
+export const SCORING_CRITERIA = ['accuracy', 'completeness', 'depth', 'communication'] as const;
+
+export type ScoringCriterion = typeof SCORING_CRITERIA[number];
+
+export interface CriterionScore {
+    score: number;      // 1-5
+    rationale: string;  // one-sentence justification shown to trainers
+}
+
+export interface ScoreBreakdown {
+    criteria: Record<ScoringCriterion, CriterionScore>;
+    confidence: number; // 0-1, model's self-reported certainty in the overall score
+}
+
+// Pointer to one immutable ScoringRubric version (see src/lib/rubricService.ts)
+export interface RubricRef {
+    skillSlug: string;
+    version: number;
+}
+
 export interface SoftSkillsAssessment {
     clearlySpoken: boolean;
     eyeContact: boolean;
@@ -61,7 +61,7 @@ describe('middleware — Supabase session refresh + role guard', () => {
 
   it('allows /trainer with trainer role', async () => {
     mockCreateMiddlewareClient.mockResolvedValue(
-      makeMiddlewareMock({ user_metadata: { role: 'trainer' } }),
+      makeMiddlewareMock({ app_metadata: { role: 'trainer' } }),
     );
     const res = await middleware(makeReq('/trainer'));
     expect(res.status).toBeLessThan(300);
@@ -70,7 +70,7 @@ describe('middleware — Supabase session refresh + role guard', () => {
 
   it('allows /trainer with admin role', async () => {
     mockCreateMiddlewareClient.mockResolvedValue(
-      makeMiddlewareMock({ user_metadata: { role: 'admin' } }),
+      makeMiddlewareMock({ app_metadata: { role: 'admin' } }),
     );
     const res = await middleware(makeReq('/trainer'));
     expect(res.status).toBeLessThan(300);
@@ -94,9 +94,18 @@ describe('middleware — Supabase session refresh + role guard', () => {
     expect(new URL(res.headers.get('location')!).pathname).toBe('/signin');
   });
 
+  it('ignores a staff role written into user-editable user_metadata', async () => {
+    mockCreateMiddlewareClient.mockResolvedValue(
+      makeMiddlewareMock({ user_metadata: { role: 'admin' }, app_metadata: {} }),
+    );
+    const res = await middleware(makeReq('/trainer'));
+    expect(res.status).toBe(307);
+    expect(new URL(res.headers.get('location')!).pathname).toBe('/signin');
+  });
+
   it('allows /dashboard with trainer role', async () => {
     mockCreateMiddlewareClient.mockResolvedValue(
-      makeMiddlewareMock({ user_metadata: { role: 'trainer' } }),
+      makeMiddlewareMock({ app_metadata: { role: 'trainer' } }),
     );
     const res = await middleware(makeReq('/dashboard'));
     expect(res.status).toBeLessThan(300);
@@ -109,6 +118,36 @@ describe('middleware — Supabase session refresh + role guard', () => {
     expect(new URL(res.headers.get('location')!).pathname).toBe('/signin');
   });
 
+  it('allows a recruiter onto the roster and reports but not associate pages', async () => {
+    mockCreateMiddlewareClient.mockResolvedValue(
+      makeMiddlewareMock({ app_metadata: { role: 'recruiter', cohortIds: [3] } }),
+    );
+    expect((await middleware(makeReq('/trainer'))).status).toBeLessThan(300);
+    expect((await middleware(makeReq('/trainer/reports'))).status).toBeLessThan(300);
+    const res = await middleware(makeReq('/trainer/ada'));
+    expect(res.status).toBe(307);
+    expect(new URL(res.headers.get('location')!).pathname).toBe('/trainer');
+  });
+
+  it('keeps an author on content settings and sends them there from the roster', async () => {
+    mockCreateMiddlewareClient.mockResolvedValue(
+      makeMiddlewareMock({ app_metadata: { role: 'author' } }),
+    );
+    expect((await middleware(makeReq('/trainer/settings/rubrics'))).status).toBeLessThan(300);
+    expect((await middleware(makeReq('/trainer/challenges/new'))).status).toBeLessThan(300);
+    const res = await middleware(makeReq('/trainer'));
+    expect(res.status).toBe(307);
+    expect(new URL(res.headers.get('location')!).pathname).toBe('/trainer/settings/rubrics');
+  });
+
+  it('limits the users page to admins', async () => {
+    mockCreateMiddlewareClient.mockResolvedValue(
+      makeMiddlewareMock({ app_metadata: { role: 'trainer' } }),
+    );
+    const res = await middleware(makeReq('/trainer/settings/users'));
+    expect(new URL(res.headers.get('location')!).pathname).toBe('/trainer');
+  });
+
   // --- Associate paths ---
 
   it('allows /associate/abc with any authenticated user', async () => {
@@ -122,7 +161,7 @@ describe('middleware — Supabase session refresh + role guard', () => {
 
   it('allows /associate/abc with trainer role', async () => {
     mockCreateMiddlewareClient.mockResolvedValue(
-      makeMiddlewareMock({ user_metadata: { role: 'trainer' } }),
+      makeMiddlewareMock({ app_metadata: { role: 'trainer' } }),
     );
     const res = await middleware(makeReq('/associate/abc'));
     expect(res.status).toBeLessThan(300);
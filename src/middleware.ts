@@ -1,13 +1,16 @@
 import { type NextRequest, NextResponse } from 'next/server';
 import { createSupabaseMiddlewareClient } from '@/lib/supabase/middleware';
 import { log } from '@/lib/logger';
+import { pagePermissions, readStaffAccess, roleHasPermission, staffHomePath } from '@/lib/authorization';
 
 /**
  * Middleware: refresh Supabase session BEFORE route guard on every matched request.
  *
  * | Path prefix                                 | Required role            | On violation              |
  * |---------------------------------------------|--------------------------|---------------------------|
- * | /dashboard, /interview, /review, /trainer   | admin OR trainer         | redirect /signin?next=    |
+ * | /dashboard, /interview, /review, /trainer   | staff role granting the  | staff → their home page;  |
+ * |                                             | page's permission (see   | others → /signin?next=    |
+ * |                                             | lib/authorization.ts)    |                           |
  * | /associate/* (except /associate/login)      | any authenticated user   | redirect /signin?next=    |
  * | public paths (/, /signin, /auth/callback)   | none                     | pass through              |
  *
@@ -16,7 +19,6 @@ import { log } from '@/lib/logger';
  */
 
 const PUBLIC_PATHS = ['/', '/signin', '/auth/callback', '/associate/login'];
-const TRAINER_PATHS = ['/dashboard', '/interview', '/review', '/trainer'];
 const ASSOCIATE_PATH = '/associate';
 
 function matchesPrefix(pathname: string, prefix: string): boolean {
@@ -35,8 +37,8 @@ export async function middleware(request: NextRequest) {
   // STEP 1: Always refresh Supabase session first — never skip this call.
   const { user, response } = await createSupabaseMiddlewareClient(request);
 
-  // Extract role from Supabase user_metadata; unauthenticated users have no role.
-  const role: string | null = user?.user_metadata?.role ?? (user ? 'associate' : null);
+  // Extract role from Supabase app_metadata; unauthenticated users have no role.
+  const role: string | null = user?.app_metadata?.role ?? (user ? 'associate' : null);
 
   const emitLog = (outcome: string) => {
     log.info('middleware', {
@@ -56,13 +58,23 @@ export async function middleware(request: NextRequest) {
     return response;
   }
 
-  // STEP 2: Trainer-only paths — require admin or trainer role.
-  if (TRAINER_PATHS.some((p) => matchesPrefix(pathname, p))) {
-    if (role === 'trainer' || role === 'admin') {
+  // STEP 2: Staff paths — require a role granting one of the page's permissions.
+  const required = pagePermissions(pathname);
+  if (required) {
+    const staff = readStaffAccess(user?.app_metadata);
+    if (staff && required.some((p) => roleHasPermission(staff.role, p))) {
       decision = 'trainer-pass';
       emitLog(decision);
       return response;
     }
+    if (staff) {
+      // Signed-in staff without access go to their own landing page, not sign-in.
+      decision = 'redirect-staff-home';
+      const redirect = NextResponse.redirect(new URL(staffHomePath(staff.role), request.url));
+      response.headers.getSetCookie().forEach((c) => redirect.headers.append('set-cookie', c));
+      emitLog(decision);
+      return redirect;
+    }
     decision = 'redirect-signin-trainer';
     const redirectUrl = new URL('/signin', request.url);
     redirectUrl.searchParams.set('next', pathname);
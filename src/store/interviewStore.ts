@@ -6,16 +6,22 @@ import {
     InterviewSession,
     ParsedQuestion,
     QuestionAssessment,
+    RubricRef,
+    ScoreBreakdown,
     SoftSkillsAssessment,
     StarterQuestion,
     generateStarterQuestions,
     DEFAULT_SOFT_SKILLS,
 } from '@/lib/types';
 import { selectRandomQuestions } from '@/lib/markdownParser';
+import { selectAdaptiveQuestions, type QuestionHistoryResponse } from '@/lib/adaptiveSelector';
 import { GitHubFile } from '@/lib/github-service';
 
 interface InterviewStore {
     session: InterviewSession | null;
+    // Server draft revision this browser last saved or loaded (0 = never saved).
+    // See useSessionAutosave / sessionDraftService.
+    draftRevision: number;
 
     // Setup Wizard State
     setupPhase: 1 | 2 | 3;
@@ -45,10 +51,13 @@ interface InterviewStore {
         candidateName?: string,
         interviewerName?: string,
         interviewLevel?: 'entry' | 'experienced',
-        associateSlug?: string
+        associateSlug?: string,
+        history?: QuestionHistoryResponse // returning associate → gap-driven selection
     ) => void;
 
     resetSession: () => void;
+    resumeSession: (session: InterviewSession, revision: number) => void;
+    setDraftRevision: (revision: number) => void;
 
     // Question navigation
     setCurrentQuestionIndex: (index: number) => void;
@@ -63,7 +72,12 @@ interface InterviewStore {
     markDidNotGetTo: (questionId: string, value: boolean) => void;
 
     // LLM scoring
-    setLLMResult: (questionId: string, score: number, feedback: string) => void;
+    setLLMResult: (
+        questionId: string,
+        score: number,
+        feedback: string,
+        extras?: { breakdown?: ScoreBreakdown; rubric?: RubricRef }
+    ) => void;
     validateScore: (questionId: string, score: number, feedback: string) => void;
 
     // Session status
@@ -88,6 +102,7 @@ export const useInterviewStore = create<InterviewStore>()(
     persist(
         (set, get) => ({
             session: null,
+            draftRevision: 0,
             setupPhase: 1,
             repoConfig: {
                 owner: 'Cognizant-Training', // Default placeholder
@@ -108,7 +123,7 @@ export const useInterviewStore = create<InterviewStore>()(
             })),
             setLoadingQuestions: (loading) => set({ loadingQuestions: loading }),
 
-            createSession: (questions, questionCount, selectedWeeks, candidateName, interviewerName, interviewLevel = 'entry', associateSlug) => {
+            createSession: (questions, questionCount, selectedWeeks, candidateName, interviewerName, interviewLevel = 'entry', associateSlug, history) => {
                 // Build weights mapping: weekNumber -> weight
                 // Note: weekNumber corresponds to the index+1 of selectedTechs (matching how questions are parsed)
                 const state = get();
@@ -125,7 +140,9 @@ export const useInterviewStore = create<InterviewStore>()(
                     techMap[weekNumber] = tech.name.replace(/\.md$/i, '').toLowerCase();
                 });
 
-                const selectedQuestions = selectRandomQuestions(questions, questionCount, interviewLevel, weekWeights);
+                const selectedQuestions = history?.found
+                    ? selectAdaptiveQuestions(questions, questionCount, interviewLevel, weekWeights, techMap, history)
+                    : selectRandomQuestions(questions, questionCount, interviewLevel, weekWeights);
                 // Generate fresh starter questions with random variations
                 const starterQuestions = generateStarterQuestions();
 
@@ -174,10 +191,15 @@ export const useInterviewStore = create<InterviewStore>()(
                         techMap,
                         associateSlug,
                     },
+                    draftRevision: 0,
                 });
             },
 
-            resetSession: () => set({ session: null }),
+            resetSession: () => set({ session: null, draftRevision: 0 }),
+
+            resumeSession: (session, revision) => set({ session, draftRevision: revision }),
+
+            setDraftRevision: (revision) => set({ draftRevision: revision }),
 
             setCurrentQuestionIndex: (index) => {
                 const { session } = get();
@@ -297,11 +319,13 @@ export const useInterviewStore = create<InterviewStore>()(
                 updateAssessment(questionId, { didNotGetTo: value });
             },
 
-            setLLMResult: (questionId, score, feedback) => {
+            setLLMResult: (questionId, score, feedback, extras) => {
                 const { updateAssessment } = get();
                 updateAssessment(questionId, {
                     llmScore: score,
                     llmFeedback: feedback,
+                    llmBreakdown: extras?.breakdown,
+                    rubric: extras?.rubric,
                     status: 'ready',
                 });
             },
@@ -391,6 +415,7 @@ export const useInterviewStore = create<InterviewStore>()(
             name: 'interview-session-storage',
             partialize: (state) => ({
                 session: state.session,
+                draftRevision: state.draftRevision,
                 repoConfig: state.repoConfig,
                 setupPhase: state.setupPhase, // Optional: persist phase?
                 // Don't persist large tech lists if not needed, but maybe useful